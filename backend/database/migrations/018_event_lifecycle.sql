@@ -0,0 +1,21 @@
+-- Migration: 018_event_lifecycle
+-- Supports the background scheduler that opens and closes events on time.
+-- closing_started_at acts as a lease so only one API instance finalizes an event.
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('auction_events') AND name = 'closing_started_at')
+    ALTER TABLE auction_events ADD closing_started_at DATETIME2 NULL;
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('auction_events') AND name = 'activated_at')
+    ALTER TABLE auction_events ADD activated_at DATETIME2 NULL;
+
+GO
+
+-- The scheduler scans scheduled/active events by their boundary times
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_events_lifecycle' AND object_id = OBJECT_ID('auction_events'))
+    CREATE INDEX idx_events_lifecycle ON auction_events(status, end_time) INCLUDE (start_time, closing_started_at);
+
+GO
+
+PRINT 'Migration 018_event_lifecycle.sql completed successfully!';
@@ -0,0 +1,42 @@
+-- Migration: 019_proxy_bidding
+-- Proxy (maximum) bidding for standard auctions: bidders store a hidden ceiling
+-- and the system bids on their behalf up to that amount.
+
+-- =====================================================
+-- 1. Hidden maximum bids (one per bidder per item)
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='event_item_max_bids' AND xtype='U')
+CREATE TABLE event_item_max_bids (
+    id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    item_id UNIQUEIDENTIFIER NOT NULL,
+    bidder_id NVARCHAR(128) NOT NULL,
+
+    max_amount DECIMAL(10,2) NOT NULL,
+
+    -- When this maximum was set; earlier maximums win ties
+    set_at DATETIME2 NOT NULL DEFAULT GETUTCDATE(),
+
+    created_at DATETIME2 DEFAULT GETUTCDATE(),
+    updated_at DATETIME2 DEFAULT GETUTCDATE(),
+
+    CONSTRAINT fk_event_max_bids_item FOREIGN KEY (item_id) REFERENCES event_items(id) ON DELETE CASCADE,
+    CONSTRAINT fk_event_max_bids_bidder FOREIGN KEY (bidder_id) REFERENCES users(id),
+    CONSTRAINT uq_max_bid_per_user UNIQUE (item_id, bidder_id)
+);
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_event_max_bids_item' AND object_id = OBJECT_ID('event_item_max_bids'))
+    CREATE INDEX idx_event_max_bids_item ON event_item_max_bids(item_id, max_amount DESC, set_at ASC);
+
+GO
+
+-- =====================================================
+-- 2. Mark bids placed automatically on a bidder's behalf
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('event_item_bids') AND name = 'is_proxy')
+    ALTER TABLE event_item_bids ADD is_proxy BIT NOT NULL DEFAULT 0;
+
+GO
+
+PRINT 'Migration 019_proxy_bidding.sql completed successfully!';
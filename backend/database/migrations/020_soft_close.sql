@@ -0,0 +1,39 @@
+-- Migration: 020_soft_close
+-- Anti-sniping soft close: a bid placed within the closing window of an item
+-- pushes that item's end time back. event_items.end_time holds the extended
+-- time; NULL means the item closes with the event.
+
+-- =====================================================
+-- 1. Soft close settings on events
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('auction_events') AND name = 'soft_close_enabled')
+    ALTER TABLE auction_events ADD soft_close_enabled BIT NOT NULL DEFAULT 0;
+
+GO
+
+-- Bids placed within this many minutes of an item's end extend it
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('auction_events') AND name = 'soft_close_window_minutes')
+    ALTER TABLE auction_events ADD soft_close_window_minutes INT NOT NULL DEFAULT 2;
+
+GO
+
+-- How far each qualifying bid pushes the item's end time back
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('auction_events') AND name = 'soft_close_extension_minutes')
+    ALTER TABLE auction_events ADD soft_close_extension_minutes INT NOT NULL DEFAULT 2;
+
+GO
+
+-- =====================================================
+-- 2. Per-item end time
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('event_items') AND name = 'end_time')
+    ALTER TABLE event_items ADD end_time DATETIME2 NULL;
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_event_items_end_time' AND object_id = OBJECT_ID('event_items'))
+    CREATE INDEX idx_event_items_end_time ON event_items(event_id, end_time) WHERE end_time IS NOT NULL;
+
+GO
+
+PRINT 'Migration 020_soft_close.sql completed successfully!';
@@ -0,0 +1,55 @@
+-- Migration: 021_closing_groups
+-- Staggered closing: items can be placed in closing groups ("Table A closes 8:00,
+-- Table B 8:15"). Each group is finalized on its own while the rest of the
+-- event keeps running. Ungrouped items close with the event.
+
+-- =====================================================
+-- 1. Closing groups
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='event_item_groups' AND xtype='U')
+CREATE TABLE event_item_groups (
+    id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    event_id UNIQUEIDENTIFIER NOT NULL,
+    name NVARCHAR(100) NOT NULL,
+
+    -- When bidding closes for items in this group (never after the event's end_time)
+    end_time DATETIME2 NOT NULL,
+    display_order INT NOT NULL DEFAULT 0,
+
+    -- Lease taken while the group is being finalized (same scheme as auction_events)
+    closing_started_at DATETIME2 NULL,
+    closed_at DATETIME2 NULL,
+
+    created_at DATETIME2 DEFAULT GETUTCDATE(),
+    updated_at DATETIME2 DEFAULT GETUTCDATE(),
+
+    CONSTRAINT fk_item_groups_event FOREIGN KEY (event_id) REFERENCES auction_events(id) ON DELETE CASCADE
+);
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_item_groups_event' AND object_id = OBJECT_ID('event_item_groups'))
+    CREATE INDEX idx_item_groups_event ON event_item_groups(event_id, end_time) INCLUDE (closed_at);
+
+GO
+
+-- =====================================================
+-- 2. Item membership
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('event_items') AND name = 'closing_group_id')
+    ALTER TABLE event_items ADD closing_group_id UNIQUEIDENTIFIER NULL;
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.foreign_keys WHERE name = 'fk_event_items_closing_group')
+    ALTER TABLE event_items ADD CONSTRAINT fk_event_items_closing_group
+        FOREIGN KEY (closing_group_id) REFERENCES event_item_groups(id);
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_event_items_closing_group' AND object_id = OBJECT_ID('event_items'))
+    CREATE INDEX idx_event_items_closing_group ON event_items(closing_group_id) WHERE closing_group_id IS NOT NULL;
+
+GO
+
+PRINT 'Migration 021_closing_groups.sql completed successfully!';
@@ -0,0 +1,51 @@
+-- Migration: 022_reserve_prices
+-- Hidden reserve prices: an item whose top bid is under its reserve does not
+-- sell when bidding closes. Bidders only ever see whether the reserve is met.
+
+-- =====================================================
+-- 1. Reserve price on event items
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('event_items') AND name = 'reserve_price')
+    ALTER TABLE event_items ADD reserve_price DECIMAL(10,2) NULL;
+
+GO
+
+-- =====================================================
+-- 2. reserve_not_met notification type
+-- =====================================================
+DECLARE @constraintName NVARCHAR(128)
+SELECT @constraintName = name
+FROM sys.check_constraints
+WHERE parent_object_id = OBJECT_ID('user_notifications')
+  AND definition LIKE '%notification_type%'
+
+IF @constraintName IS NOT NULL
+BEGIN
+    EXEC('ALTER TABLE user_notifications DROP CONSTRAINT ' + @constraintName)
+END
+
+GO
+
+ALTER TABLE user_notifications ADD CONSTRAINT chk_notification_type CHECK (notification_type IN (
+    'item_approved',
+    'item_rejected',
+    'resubmit_requested',
+    'event_live',
+    'outbid',
+    'auction_won',
+    'auction_lost',
+    'item_removed',
+    'bid_cancelled',
+    'bid_placed',
+    'payment_reminder',
+    'payment_confirmed',
+    'item_shipped',
+    'ready_for_pickup',
+    'item_delivered',
+    'digital_delivered',
+    'reserve_not_met'
+));
+
+GO
+
+PRINT 'Migration 022_reserve_prices.sql completed successfully!';
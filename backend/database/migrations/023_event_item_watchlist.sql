@@ -0,0 +1,75 @@
+-- Migration: 023_event_item_watchlist
+-- Bidders can watch event items and get alerted when a watched item is about
+-- to close, gets its first bid, or is bid up to its buy-now price.
+-- Replaces the legacy watchlist table, which points at the old auctions model.
+
+-- =====================================================
+-- 1. Watchlist
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='event_item_watchlist' AND xtype='U')
+CREATE TABLE event_item_watchlist (
+    id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    user_id NVARCHAR(128) NOT NULL,
+    item_id UNIQUEIDENTIFIER NOT NULL,
+
+    -- Each alert goes out at most once per watcher; set when it is sent
+    closing_soon_notified_at DATETIME2 NULL,
+    first_bid_notified_at DATETIME2 NULL,
+    buy_now_notified_at DATETIME2 NULL,
+
+    created_at DATETIME2 DEFAULT GETUTCDATE(),
+
+    CONSTRAINT fk_item_watchlist_user FOREIGN KEY (user_id) REFERENCES users(id),
+    CONSTRAINT fk_item_watchlist_item FOREIGN KEY (item_id) REFERENCES event_items(id) ON DELETE CASCADE,
+    CONSTRAINT uq_item_watchlist_user_item UNIQUE (user_id, item_id)
+);
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_item_watchlist_item' AND object_id = OBJECT_ID('event_item_watchlist'))
+    CREATE INDEX idx_item_watchlist_item ON event_item_watchlist(item_id);
+
+GO
+
+-- =====================================================
+-- 2. Watchlist notification types
+-- =====================================================
+DECLARE @constraintName NVARCHAR(128)
+SELECT @constraintName = name
+FROM sys.check_constraints
+WHERE parent_object_id = OBJECT_ID('user_notifications')
+  AND definition LIKE '%notification_type%'
+
+IF @constraintName IS NOT NULL
+BEGIN
+    EXEC('ALTER TABLE user_notifications DROP CONSTRAINT ' + @constraintName)
+END
+
+GO
+
+ALTER TABLE user_notifications ADD CONSTRAINT chk_notification_type CHECK (notification_type IN (
+    'item_approved',
+    'item_rejected',
+    'resubmit_requested',
+    'event_live',
+    'outbid',
+    'auction_won',
+    'auction_lost',
+    'item_removed',
+    'bid_cancelled',
+    'bid_placed',
+    'payment_reminder',
+    'payment_confirmed',
+    'item_shipped',
+    'ready_for_pickup',
+    'item_delivered',
+    'digital_delivered',
+    'reserve_not_met',
+    'watch_closing_soon',
+    'watch_first_bid',
+    'watch_buy_now_reached'
+));
+
+GO
+
+PRINT 'Migration 023_event_item_watchlist.sql completed successfully!';
@@ -0,0 +1,25 @@
+-- Migration: 024_image_renditions
+-- Uploads are re-encoded as WebP at thumbnail, medium and full sizes.
+-- blob_url keeps pointing at the full rendition; the smaller ones are
+-- recorded alongside it so clients can build a responsive srcset.
+-- Images uploaded before this migration have no renditions (NULL).
+
+-- =====================================================
+-- 1. Renditions on event item images
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('event_item_images') AND name = 'thumbnail_url')
+    ALTER TABLE event_item_images ADD thumbnail_url NVARCHAR(500) NULL;
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('event_item_images') AND name = 'medium_url')
+    ALTER TABLE event_item_images ADD medium_url NVARCHAR(500) NULL;
+
+GO
+
+-- =====================================================
+-- 2. Renditions on donation submission images
+-- =====================================================
+-- submission_images already has thumbnail_url
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('submission_images') AND name = 'medium_url')
+    ALTER TABLE submission_images ADD medium_url NVARCHAR(500) NULL;
+
+GO
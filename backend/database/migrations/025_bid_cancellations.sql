@@ -0,0 +1,119 @@
+-- Migration: 025_bid_cancellations
+-- Organizers can void a mistaken bid, and bidders can ask for a bid to be
+-- retracted. The bid row is deleted so every bid query keeps working as is;
+-- a snapshot of it is kept in bid_cancellations for the audit trail.
+
+-- =====================================================
+-- 1. Bidder retraction requests
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='bid_retraction_requests' AND xtype='U')
+CREATE TABLE bid_retraction_requests (
+    id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    event_id UNIQUEIDENTIFIER NOT NULL,
+    item_id UNIQUEIDENTIFIER NOT NULL,
+
+    -- event_item_bids.id or event_item_silent_bids.id, by the event's auction type
+    bid_id UNIQUEIDENTIFIER NOT NULL,
+    bidder_id NVARCHAR(128) NOT NULL,
+    amount DECIMAL(10,2) NOT NULL,
+    reason NVARCHAR(500) NOT NULL,
+
+    status NVARCHAR(20) NOT NULL DEFAULT 'pending',
+    reviewed_by NVARCHAR(128) NULL,
+    reviewed_at DATETIME2 NULL,
+    review_note NVARCHAR(500) NULL,
+
+    created_at DATETIME2 DEFAULT GETUTCDATE(),
+
+    CONSTRAINT fk_retraction_requests_event FOREIGN KEY (event_id) REFERENCES auction_events(id),
+    CONSTRAINT fk_retraction_requests_item FOREIGN KEY (item_id) REFERENCES event_items(id) ON DELETE CASCADE,
+    CONSTRAINT fk_retraction_requests_bidder FOREIGN KEY (bidder_id) REFERENCES users(id),
+    CONSTRAINT chk_retraction_request_status CHECK (status IN ('pending', 'approved', 'denied'))
+);
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_retraction_requests_event' AND object_id = OBJECT_ID('bid_retraction_requests'))
+    CREATE INDEX idx_retraction_requests_event ON bid_retraction_requests(event_id, status);
+
+GO
+
+-- =====================================================
+-- 2. Cancelled bid audit log
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='bid_cancellations' AND xtype='U')
+CREATE TABLE bid_cancellations (
+    id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    event_id UNIQUEIDENTIFIER NOT NULL,
+    item_id UNIQUEIDENTIFIER NOT NULL,
+
+    -- Snapshot of the deleted bid
+    bid_id UNIQUEIDENTIFIER NOT NULL,
+    auction_type NVARCHAR(20) NOT NULL,
+    bidder_id NVARCHAR(128) NOT NULL,
+    amount DECIMAL(10,2) NOT NULL,
+    is_proxy BIT NOT NULL DEFAULT 0,
+    bid_created_at DATETIME2 NULL,
+
+    reason NVARCHAR(500) NOT NULL,
+    cancelled_by NVARCHAR(128) NOT NULL,
+    retraction_request_id UNIQUEIDENTIFIER NULL,
+
+    -- The item's price before and after, and who leads afterwards
+    previous_current_bid DECIMAL(10,2) NULL,
+    new_current_bid DECIMAL(10,2) NULL,
+    new_leader_id NVARCHAR(128) NULL,
+
+    created_at DATETIME2 DEFAULT GETUTCDATE()
+);
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_bid_cancellations_event' AND object_id = OBJECT_ID('bid_cancellations'))
+    CREATE INDEX idx_bid_cancellations_event ON bid_cancellations(event_id, created_at);
+
+GO
+
+-- =====================================================
+-- 3. bid_retraction_denied notification type
+-- =====================================================
+DECLARE @constraintName NVARCHAR(128)
+SELECT @constraintName = name
+FROM sys.check_constraints
+WHERE parent_object_id = OBJECT_ID('user_notifications')
+  AND definition LIKE '%notification_type%'
+
+IF @constraintName IS NOT NULL
+BEGIN
+    EXEC('ALTER TABLE user_notifications DROP CONSTRAINT ' + @constraintName)
+END
+
+GO
+
+ALTER TABLE user_notifications ADD CONSTRAINT chk_notification_type CHECK (notification_type IN (
+    'item_approved',
+    'item_rejected',
+    'resubmit_requested',
+    'event_live',
+    'outbid',
+    'auction_won',
+    'auction_lost',
+    'item_removed',
+    'bid_cancelled',
+    'bid_placed',
+    'payment_reminder',
+    'payment_confirmed',
+    'item_shipped',
+    'ready_for_pickup',
+    'item_delivered',
+    'digital_delivered',
+    'reserve_not_met',
+    'watch_closing_soon',
+    'watch_first_bid',
+    'watch_buy_now_reached',
+    'bid_retraction_denied'
+));
+
+GO
+
+PRINT 'Migration 025_bid_cancellations.sql completed successfully!';
@@ -0,0 +1,148 @@
+-- Migration: 026_multi_quantity_items
+-- Items can be sold in several identical units ("10 wine tastings").
+-- Each unit a bidder wins or buys is an award in event_item_winners, which
+-- carries its own payment and fulfillment tracking. event_items.winner_id
+-- keeps pointing at the top winner.
+
+-- =====================================================
+-- 1. Quantity on event items
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('event_items') AND name = 'quantity')
+    ALTER TABLE event_items ADD quantity INT NOT NULL DEFAULT 1;
+
+-- Units already sold through buy now
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('event_items') AND name = 'quantity_sold')
+    ALTER TABLE event_items ADD quantity_sold INT NOT NULL DEFAULT 0;
+
+-- own_bid: each winner pays their own bid; lowest_winning: every winner pays the lowest winning bid
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('event_items') AND name = 'winner_pricing')
+    ALTER TABLE event_items ADD winner_pricing NVARCHAR(20) NOT NULL DEFAULT 'own_bid';
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.check_constraints WHERE name = 'chk_item_quantity')
+    ALTER TABLE event_items ADD CONSTRAINT chk_item_quantity
+        CHECK (quantity >= 1 AND quantity_sold >= 0 AND quantity_sold <= quantity);
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.check_constraints WHERE name = 'chk_item_winner_pricing')
+    ALTER TABLE event_items ADD CONSTRAINT chk_item_winner_pricing
+        CHECK (winner_pricing IN ('own_bid', 'lowest_winning'));
+
+GO
+
+-- =====================================================
+-- 2. Awards: one row per winner of an item
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='event_item_winners' AND xtype='U')
+CREATE TABLE event_item_winners (
+    id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    item_id UNIQUEIDENTIFIER NOT NULL,
+    event_id UNIQUEIDENTIFIER NOT NULL,
+    winner_id NVARCHAR(128) NOT NULL,
+
+    -- Price per unit
+    amount DECIMAL(10,2) NOT NULL,
+    quantity INT NOT NULL DEFAULT 1,
+    source NVARCHAR(20) NOT NULL DEFAULT 'bid',
+    won_at DATETIME2 DEFAULT GETUTCDATE(),
+
+    -- Payment tracking
+    payment_status NVARCHAR(20) DEFAULT 'pending',
+    payment_confirmed_at DATETIME2,
+    payment_confirmed_by NVARCHAR(128),
+    payment_method_used NVARCHAR(100),
+    payment_notes NVARCHAR(500),
+
+    -- Fulfillment tracking
+    fulfillment_status NVARCHAR(20) DEFAULT 'pending',
+    fulfillment_type NVARCHAR(20),
+    tracking_number NVARCHAR(100),
+    tracking_carrier NVARCHAR(50),
+    tracking_url NVARCHAR(500),
+    shipped_at DATETIME2,
+    estimated_delivery NVARCHAR(100),
+    pickup_ready_at DATETIME2,
+    pickup_completed_at DATETIME2,
+    pickup_completed_by NVARCHAR(255),
+    digital_delivery_info NVARCHAR(MAX),
+    digital_delivered_at DATETIME2,
+    fulfillment_notes NVARCHAR(500),
+    fulfilled_at DATETIME2,
+    fulfilled_by NVARCHAR(128),
+
+    created_at DATETIME2 DEFAULT GETUTCDATE(),
+    updated_at DATETIME2 DEFAULT GETUTCDATE(),
+
+    CONSTRAINT fk_item_winners_item FOREIGN KEY (item_id) REFERENCES event_items(id) ON DELETE CASCADE,
+    CONSTRAINT fk_item_winners_event FOREIGN KEY (event_id) REFERENCES auction_events(id),
+    CONSTRAINT fk_item_winners_user FOREIGN KEY (winner_id) REFERENCES users(id),
+    CONSTRAINT chk_item_winner_source CHECK (source IN ('bid', 'buy_now')),
+    CONSTRAINT chk_item_winner_quantity CHECK (quantity >= 1),
+    CONSTRAINT chk_item_winner_payment_status
+        CHECK (payment_status IN ('pending', 'paid', 'payment_issue', 'waived', 'refunded')),
+    CONSTRAINT chk_item_winner_fulfillment_status
+        CHECK (fulfillment_status IN ('pending', 'processing', 'ready_for_pickup', 'shipped', 'out_for_delivery', 'delivered', 'picked_up', 'issue')),
+    CONSTRAINT chk_item_winner_fulfillment_type
+        CHECK (fulfillment_type IS NULL OR fulfillment_type IN ('shipping', 'pickup', 'digital'))
+);
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_item_winners_item' AND object_id = OBJECT_ID('event_item_winners'))
+    CREATE INDEX idx_item_winners_item ON event_item_winners(item_id);
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_item_winners_event' AND object_id = OBJECT_ID('event_item_winners'))
+    CREATE INDEX idx_item_winners_event ON event_item_winners(event_id);
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_item_winners_user' AND object_id = OBJECT_ID('event_item_winners'))
+    CREATE INDEX idx_item_winners_user ON event_item_winners(winner_id);
+
+GO
+
+-- =====================================================
+-- 3. Backfill awards for items already won or bought
+-- =====================================================
+-- Items paid through Stripe never had payment_status set: the payment webhook
+-- only moved them from 'won' to 'sold'. On integrated-payment events a sold
+-- item that wasn't a buy-now purchase (those were 'sold' before payment) is
+-- therefore paid, confirmed when the item was last updated.
+INSERT INTO event_item_winners (
+    item_id, event_id, winner_id, amount, quantity, source, won_at,
+    payment_status, payment_confirmed_at, payment_confirmed_by, payment_method_used, payment_notes,
+    fulfillment_status, fulfillment_type, tracking_number, tracking_carrier, tracking_url, shipped_at,
+    estimated_delivery, pickup_ready_at, pickup_completed_at, pickup_completed_by, digital_delivery_info,
+    digital_delivered_at, fulfillment_notes, fulfilled_at, fulfilled_by
+)
+SELECT
+    i.id, i.event_id, i.winner_id,
+    CASE WHEN i.buy_now_purchased_by IS NOT NULL THEN i.buy_now_price ELSE i.current_bid END,
+    1,
+    CASE WHEN i.buy_now_purchased_by IS NOT NULL THEN 'buy_now' ELSE 'bid' END,
+    COALESCE(i.buy_now_purchased_at, i.updated_at),
+    CASE WHEN e.payment_mode = 'integrated' AND i.status = 'sold' AND i.buy_now_purchased_by IS NULL
+         THEN 'paid' ELSE COALESCE(i.payment_status, 'pending') END,
+    CASE WHEN e.payment_mode = 'integrated' AND i.status = 'sold' AND i.buy_now_purchased_by IS NULL
+         THEN COALESCE(i.payment_confirmed_at, i.updated_at) ELSE i.payment_confirmed_at END,
+    i.payment_confirmed_by,
+    CASE WHEN e.payment_mode = 'integrated' AND i.status = 'sold' AND i.buy_now_purchased_by IS NULL
+         THEN COALESCE(i.payment_method_used, 'stripe') ELSE i.payment_method_used END,
+    i.payment_notes,
+    COALESCE(i.fulfillment_status, 'pending'), i.fulfillment_type, i.tracking_number, i.tracking_carrier, i.tracking_url, i.shipped_at,
+    i.estimated_delivery, i.pickup_ready_at, i.pickup_completed_at, i.pickup_completed_by, i.digital_delivery_info,
+    i.digital_delivered_at, i.fulfillment_notes, i.fulfilled_at, i.fulfilled_by
+FROM event_items i
+INNER JOIN auction_events e ON i.event_id = e.id
+WHERE i.winner_id IS NOT NULL
+  AND CASE WHEN i.buy_now_purchased_by IS NOT NULL THEN i.buy_now_price ELSE i.current_bid END IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM event_item_winners w WHERE w.item_id = i.id);
+
+GO
+
+UPDATE event_items SET quantity_sold = 1
+WHERE buy_now_purchased_by IS NOT NULL AND quantity_sold = 0;
+
+GO
+
+PRINT 'Migration 026_multi_quantity_items.sql completed successfully!';
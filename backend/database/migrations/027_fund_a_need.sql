@@ -0,0 +1,122 @@
+-- Migration: 027_fund_a_need
+-- Fund-a-need campaigns (paddle raises): guests pledge fixed amounts toward a
+-- cause, with no item involved. A campaign has giving levels and an optional
+-- goal. Pledges are made by the donor or recorded by staff on their behalf,
+-- and are paid for and tracked like won items.
+
+-- =====================================================
+-- 1. Campaigns
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='fund_a_need_campaigns' AND xtype='U')
+CREATE TABLE fund_a_need_campaigns (
+    id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    event_id UNIQUEIDENTIFIER NOT NULL,
+    title NVARCHAR(255) NOT NULL,
+    description NVARCHAR(MAX) NULL,
+    goal_amount DECIMAL(12,2) NULL,
+
+    -- open: taking pledges; closed: the raise is over
+    status NVARCHAR(20) NOT NULL DEFAULT 'open',
+    display_order INT NOT NULL DEFAULT 0,
+
+    created_by NVARCHAR(128) NOT NULL,
+    created_at DATETIME2 DEFAULT GETUTCDATE(),
+    updated_at DATETIME2 DEFAULT GETUTCDATE(),
+
+    CONSTRAINT fk_fan_campaigns_event FOREIGN KEY (event_id) REFERENCES auction_events(id) ON DELETE CASCADE,
+    CONSTRAINT chk_fan_campaign_status CHECK (status IN ('open', 'closed')),
+    CONSTRAINT chk_fan_campaign_goal CHECK (goal_amount IS NULL OR goal_amount > 0)
+);
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_fan_campaigns_event' AND object_id = OBJECT_ID('fund_a_need_campaigns'))
+    CREATE INDEX idx_fan_campaigns_event ON fund_a_need_campaigns(event_id);
+
+GO
+
+-- =====================================================
+-- 2. Giving levels ($100, $250, $1,000...)
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='fund_a_need_levels' AND xtype='U')
+CREATE TABLE fund_a_need_levels (
+    id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    campaign_id UNIQUEIDENTIFIER NOT NULL,
+    amount DECIMAL(10,2) NOT NULL,
+    -- e.g. "Sponsors a week of meals"
+    label NVARCHAR(255) NULL,
+    display_order INT NOT NULL DEFAULT 0,
+
+    CONSTRAINT fk_fan_levels_campaign FOREIGN KEY (campaign_id) REFERENCES fund_a_need_campaigns(id) ON DELETE CASCADE,
+    CONSTRAINT chk_fan_level_amount CHECK (amount > 0)
+);
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_fan_levels_campaign' AND object_id = OBJECT_ID('fund_a_need_levels'))
+    CREATE INDEX idx_fan_levels_campaign ON fund_a_need_levels(campaign_id);
+
+GO
+
+-- =====================================================
+-- 3. Pledges
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='fund_a_need_pledges' AND xtype='U')
+CREATE TABLE fund_a_need_pledges (
+    id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    campaign_id UNIQUEIDENTIFIER NOT NULL,
+    event_id UNIQUEIDENTIFIER NOT NULL,
+
+    -- Guests without an account are recorded by name/email only
+    donor_id NVARCHAR(128) NULL,
+    donor_name NVARCHAR(255) NULL,
+    donor_email NVARCHAR(255) NULL,
+    is_anonymous BIT NOT NULL DEFAULT 0,
+
+    amount DECIMAL(10,2) NOT NULL,
+    -- The giving level pledged at, if any (levels can be edited later)
+    level_id UNIQUEIDENTIFIER NULL,
+
+    -- Who entered the pledge: the donor, or staff on their behalf
+    recorded_by NVARCHAR(128) NOT NULL,
+
+    -- Voided pledges stay for the record but don't count
+    status NVARCHAR(20) NOT NULL DEFAULT 'active',
+    voided_by NVARCHAR(128) NULL,
+    voided_at DATETIME2 NULL,
+
+    -- Payment tracking
+    payment_status NVARCHAR(20) NOT NULL DEFAULT 'pending',
+    payment_confirmed_at DATETIME2 NULL,
+    payment_confirmed_by NVARCHAR(128) NULL,
+    payment_method_used NVARCHAR(100) NULL,
+    payment_notes NVARCHAR(500) NULL,
+    stripe_payment_intent_id NVARCHAR(255) NULL,
+
+    created_at DATETIME2 DEFAULT GETUTCDATE(),
+    updated_at DATETIME2 DEFAULT GETUTCDATE(),
+
+    CONSTRAINT fk_fan_pledges_campaign FOREIGN KEY (campaign_id) REFERENCES fund_a_need_campaigns(id),
+    CONSTRAINT fk_fan_pledges_event FOREIGN KEY (event_id) REFERENCES auction_events(id),
+    CONSTRAINT fk_fan_pledges_donor FOREIGN KEY (donor_id) REFERENCES users(id),
+    CONSTRAINT chk_fan_pledge_amount CHECK (amount > 0),
+    CONSTRAINT chk_fan_pledge_donor CHECK (donor_id IS NOT NULL OR donor_name IS NOT NULL OR donor_email IS NOT NULL),
+    CONSTRAINT chk_fan_pledge_status CHECK (status IN ('active', 'voided')),
+    CONSTRAINT chk_fan_pledge_payment_status
+        CHECK (payment_status IN ('pending', 'paid', 'payment_issue', 'waived', 'refunded'))
+);
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_fan_pledges_campaign' AND object_id = OBJECT_ID('fund_a_need_pledges'))
+    CREATE INDEX idx_fan_pledges_campaign ON fund_a_need_pledges(campaign_id, status);
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_fan_pledges_event' AND object_id = OBJECT_ID('fund_a_need_pledges'))
+    CREATE INDEX idx_fan_pledges_event ON fund_a_need_pledges(event_id, status);
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_fan_pledges_donor' AND object_id = OBJECT_ID('fund_a_need_pledges'))
+    CREATE INDEX idx_fan_pledges_donor ON fund_a_need_pledges(donor_id);
+
+GO
+
+PRINT 'Migration 027_fund_a_need.sql completed successfully!';
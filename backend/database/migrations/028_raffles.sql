@@ -0,0 +1,201 @@
+-- Migration: 028_raffles
+-- Raffles run alongside an event's auction: tickets sold singly or in
+-- bundles, with an optional per-person limit, paid through the event's
+-- payment mode. Every ticket gets a number when bought; the draw stores its
+-- seed and the tickets it drew from so the result can be re-run and audited.
+-- Raffle law varies by state, so the module is off until enabled by flag.
+
+-- =====================================================
+-- 1. Feature flag (disabled by default)
+-- =====================================================
+IF NOT EXISTS (SELECT 1 FROM feature_flags WHERE flag_key = 'raffles_enabled')
+BEGIN
+    INSERT INTO feature_flags (flag_key, flag_value, description)
+    VALUES ('raffles_enabled', 0, 'Enable raffle ticket sales and drawings on events (check state raffle laws first)');
+    PRINT 'Added raffles_enabled flag (disabled by default)';
+END
+GO
+
+-- =====================================================
+-- 2. Raffles
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='event_raffles' AND xtype='U')
+CREATE TABLE event_raffles (
+    id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    event_id UNIQUEIDENTIFIER NOT NULL,
+    title NVARCHAR(255) NOT NULL,
+    description NVARCHAR(MAX) NULL,
+    prize_description NVARCHAR(1000) NULL,
+
+    -- Price of a single ticket
+    ticket_price DECIMAL(10,2) NOT NULL,
+    -- NULL: no limit
+    max_tickets_per_person INT NULL,
+    number_of_winners INT NOT NULL DEFAULT 1,
+
+    -- Ticket numbers are handed out in order; this is the last one issued
+    tickets_issued INT NOT NULL DEFAULT 0,
+
+    -- open: selling tickets; closed: sales stopped; drawn: winners picked
+    status NVARCHAR(20) NOT NULL DEFAULT 'open',
+
+    -- Draw audit trail
+    draw_seed NVARCHAR(64) NULL,
+    draw_algorithm NVARCHAR(50) NULL,
+    -- JSON array of [first, last] ticket ranges that were in the draw
+    draw_entries NVARCHAR(MAX) NULL,
+    draw_entry_count INT NULL,
+    drawn_at DATETIME2 NULL,
+    drawn_by NVARCHAR(128) NULL,
+
+    created_by NVARCHAR(128) NOT NULL,
+    created_at DATETIME2 DEFAULT GETUTCDATE(),
+    updated_at DATETIME2 DEFAULT GETUTCDATE(),
+
+    CONSTRAINT fk_raffles_event FOREIGN KEY (event_id) REFERENCES auction_events(id) ON DELETE CASCADE,
+    CONSTRAINT chk_raffle_status CHECK (status IN ('open', 'closed', 'drawn')),
+    CONSTRAINT chk_raffle_ticket_price CHECK (ticket_price > 0),
+    CONSTRAINT chk_raffle_limit CHECK (max_tickets_per_person IS NULL OR max_tickets_per_person >= 1),
+    CONSTRAINT chk_raffle_winners CHECK (number_of_winners >= 1)
+);
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_raffles_event' AND object_id = OBJECT_ID('event_raffles'))
+    CREATE INDEX idx_raffles_event ON event_raffles(event_id);
+
+GO
+
+-- =====================================================
+-- 3. Bundle pricing ("5 for $20")
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='raffle_bundles' AND xtype='U')
+CREATE TABLE raffle_bundles (
+    id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    raffle_id UNIQUEIDENTIFIER NOT NULL,
+    ticket_count INT NOT NULL,
+    price DECIMAL(10,2) NOT NULL,
+
+    CONSTRAINT fk_raffle_bundles_raffle FOREIGN KEY (raffle_id) REFERENCES event_raffles(id) ON DELETE CASCADE,
+    CONSTRAINT chk_raffle_bundle_count CHECK (ticket_count >= 2),
+    CONSTRAINT chk_raffle_bundle_price CHECK (price > 0)
+);
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_raffle_bundles_raffle' AND object_id = OBJECT_ID('raffle_bundles'))
+    CREATE INDEX idx_raffle_bundles_raffle ON raffle_bundles(raffle_id);
+
+GO
+
+-- =====================================================
+-- 4. Ticket purchases (numbered first_ticket..last_ticket)
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='raffle_ticket_purchases' AND xtype='U')
+CREATE TABLE raffle_ticket_purchases (
+    id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    raffle_id UNIQUEIDENTIFIER NOT NULL,
+    event_id UNIQUEIDENTIFIER NOT NULL,
+    buyer_id NVARCHAR(128) NOT NULL,
+
+    ticket_count INT NOT NULL,
+    first_ticket INT NOT NULL,
+    last_ticket INT NOT NULL,
+    amount DECIMAL(10,2) NOT NULL,
+    bundle_id UNIQUEIDENTIFIER NULL,
+
+    -- Only paid (or waived) tickets are entered in the draw
+    payment_status NVARCHAR(20) NOT NULL DEFAULT 'pending',
+    payment_confirmed_at DATETIME2 NULL,
+    payment_confirmed_by NVARCHAR(128) NULL,
+    payment_method_used NVARCHAR(100) NULL,
+    payment_notes NVARCHAR(500) NULL,
+    stripe_payment_intent_id NVARCHAR(255) NULL,
+
+    created_at DATETIME2 DEFAULT GETUTCDATE(),
+    updated_at DATETIME2 DEFAULT GETUTCDATE(),
+
+    CONSTRAINT fk_raffle_purchases_raffle FOREIGN KEY (raffle_id) REFERENCES event_raffles(id),
+    CONSTRAINT fk_raffle_purchases_event FOREIGN KEY (event_id) REFERENCES auction_events(id),
+    CONSTRAINT fk_raffle_purchases_buyer FOREIGN KEY (buyer_id) REFERENCES users(id),
+    CONSTRAINT chk_raffle_purchase_tickets CHECK (ticket_count >= 1 AND last_ticket = first_ticket + ticket_count - 1),
+    CONSTRAINT chk_raffle_purchase_payment_status
+        CHECK (payment_status IN ('pending', 'paid', 'payment_issue', 'waived', 'refunded'))
+);
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_raffle_purchases_raffle' AND object_id = OBJECT_ID('raffle_ticket_purchases'))
+    CREATE INDEX idx_raffle_purchases_raffle ON raffle_ticket_purchases(raffle_id, buyer_id);
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_raffle_purchases_buyer' AND object_id = OBJECT_ID('raffle_ticket_purchases'))
+    CREATE INDEX idx_raffle_purchases_buyer ON raffle_ticket_purchases(buyer_id);
+
+GO
+
+-- =====================================================
+-- 5. Winners, in the order drawn
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='raffle_winners' AND xtype='U')
+CREATE TABLE raffle_winners (
+    id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    raffle_id UNIQUEIDENTIFIER NOT NULL,
+    place INT NOT NULL,
+    ticket_number INT NOT NULL,
+    purchase_id UNIQUEIDENTIFIER NOT NULL,
+    winner_id NVARCHAR(128) NOT NULL,
+    created_at DATETIME2 DEFAULT GETUTCDATE(),
+
+    CONSTRAINT fk_raffle_winners_raffle FOREIGN KEY (raffle_id) REFERENCES event_raffles(id) ON DELETE CASCADE,
+    CONSTRAINT fk_raffle_winners_purchase FOREIGN KEY (purchase_id) REFERENCES raffle_ticket_purchases(id),
+    CONSTRAINT fk_raffle_winners_user FOREIGN KEY (winner_id) REFERENCES users(id),
+    CONSTRAINT uq_raffle_winner_place UNIQUE (raffle_id, place),
+    CONSTRAINT uq_raffle_winner_ticket UNIQUE (raffle_id, ticket_number)
+);
+
+GO
+
+-- =====================================================
+-- 6. Notification type for raffle winners
+-- =====================================================
+DECLARE @constraintName NVARCHAR(128)
+SELECT @constraintName = name
+FROM sys.check_constraints
+WHERE parent_object_id = OBJECT_ID('user_notifications')
+  AND definition LIKE '%notification_type%'
+
+IF @constraintName IS NOT NULL
+BEGIN
+    EXEC('ALTER TABLE user_notifications DROP CONSTRAINT ' + @constraintName)
+END
+
+GO
+
+ALTER TABLE user_notifications ADD CONSTRAINT chk_notification_type CHECK (notification_type IN (
+    'item_approved',
+    'item_rejected',
+    'resubmit_requested',
+    'event_live',
+    'outbid',
+    'auction_won',
+    'auction_lost',
+    'item_removed',
+    'bid_cancelled',
+    'bid_placed',
+    'payment_reminder',
+    'payment_confirmed',
+    'item_shipped',
+    'ready_for_pickup',
+    'item_delivered',
+    'digital_delivered',
+    'reserve_not_met',
+    'watch_closing_soon',
+    'watch_first_bid',
+    'watch_buy_now_reached',
+    'bid_retraction_denied',
+    'raffle_won'
+));
+
+GO
+
+PRINT 'Migration 028_raffles.sql completed successfully!';
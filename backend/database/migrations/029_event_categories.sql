@@ -0,0 +1,71 @@
+-- Migration: 029_event_categories
+-- Per-event item categories ("Experiences", "Sports Memorabilia") with ordering
+-- and icons. event_items.category keeps the category's name so existing
+-- searches and facets keep working; category_id is the link organizers manage.
+
+-- =====================================================
+-- 1. Event categories
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='event_categories' AND xtype='U')
+CREATE TABLE event_categories (
+    id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    event_id UNIQUEIDENTIFIER NOT NULL,
+    name NVARCHAR(100) NOT NULL,
+
+    -- Emoji or short icon name shown on the category tab
+    icon NVARCHAR(50) NULL,
+    display_order INT NOT NULL DEFAULT 0,
+
+    created_at DATETIME2 DEFAULT GETUTCDATE(),
+    updated_at DATETIME2 DEFAULT GETUTCDATE(),
+
+    CONSTRAINT fk_event_categories_event FOREIGN KEY (event_id) REFERENCES auction_events(id) ON DELETE CASCADE,
+    CONSTRAINT uq_event_categories_name UNIQUE (event_id, name)
+);
+
+GO
+
+-- =====================================================
+-- 2. Item membership
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('event_items') AND name = 'category_id')
+    ALTER TABLE event_items ADD category_id UNIQUEIDENTIFIER NULL;
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.foreign_keys WHERE name = 'fk_event_items_category')
+    ALTER TABLE event_items ADD CONSTRAINT fk_event_items_category
+        FOREIGN KEY (category_id) REFERENCES event_categories(id);
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_event_items_category' AND object_id = OBJECT_ID('event_items'))
+    CREATE INDEX idx_event_items_category ON event_items(category_id) WHERE category_id IS NOT NULL;
+
+GO
+
+-- =====================================================
+-- 3. Backfill from free-text item categories
+-- =====================================================
+INSERT INTO event_categories (event_id, name, display_order)
+SELECT src.event_id, src.name,
+       ROW_NUMBER() OVER (PARTITION BY src.event_id ORDER BY src.name) - 1
+FROM (
+    SELECT DISTINCT event_id, LTRIM(RTRIM(category)) as name
+    FROM event_items
+    WHERE category IS NOT NULL AND LTRIM(RTRIM(category)) != ''
+) src
+WHERE NOT EXISTS (
+    SELECT 1 FROM event_categories c WHERE c.event_id = src.event_id AND c.name = src.name
+);
+
+GO
+
+UPDATE i SET category_id = c.id
+FROM event_items i
+INNER JOIN event_categories c ON c.event_id = i.event_id AND c.name = LTRIM(RTRIM(i.category))
+WHERE i.category_id IS NULL;
+
+GO
+
+PRINT 'Migration 029_event_categories.sql completed successfully!';
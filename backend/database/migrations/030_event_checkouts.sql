@@ -0,0 +1,72 @@
+-- Migration: 030_event_checkouts
+-- Consolidated checkout: a bidder pays for everything they owe an event (won
+-- items, fund-a-need pledges, raffle tickets) with one PaymentIntent. Each
+-- checkout keeps an itemized copy of what it covered so the webhook knows
+-- what to mark paid.
+
+-- =====================================================
+-- 1. Checkouts
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='event_checkouts' AND xtype='U')
+CREATE TABLE event_checkouts (
+    id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    event_id UNIQUEIDENTIFIER NOT NULL,
+    user_id NVARCHAR(128) NOT NULL,
+
+    -- 'superseded' when the bidder started a newer checkout before paying this one
+    status NVARCHAR(20) NOT NULL DEFAULT 'pending',
+
+    items_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+    platform_fee DECIMAL(10,2) NOT NULL DEFAULT 0,
+    pledges_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+    raffle_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+    total_amount DECIMAL(10,2) NOT NULL,
+
+    stripe_payment_intent_id NVARCHAR(255) NULL,
+    paid_at DATETIME2 NULL,
+
+    created_at DATETIME2 DEFAULT GETUTCDATE(),
+    updated_at DATETIME2 DEFAULT GETUTCDATE(),
+
+    CONSTRAINT fk_event_checkouts_event FOREIGN KEY (event_id) REFERENCES auction_events(id),
+    CONSTRAINT fk_event_checkouts_user FOREIGN KEY (user_id) REFERENCES users(id),
+    CONSTRAINT chk_event_checkout_status CHECK (status IN ('pending', 'paid', 'superseded'))
+);
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_event_checkouts_user' AND object_id = OBJECT_ID('event_checkouts'))
+    CREATE INDEX idx_event_checkouts_user ON event_checkouts(user_id, event_id, status);
+
+GO
+
+-- =====================================================
+-- 2. Checkout lines
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='event_checkout_lines' AND xtype='U')
+CREATE TABLE event_checkout_lines (
+    id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    checkout_id UNIQUEIDENTIFIER NOT NULL,
+
+    -- What the line pays for: an award (event_item_winners), a pledge or a ticket purchase
+    line_type NVARCHAR(20) NOT NULL,
+    reference_id UNIQUEIDENTIFIER NOT NULL,
+    item_id UNIQUEIDENTIFIER NULL,
+
+    description NVARCHAR(255) NOT NULL,
+    quantity INT NOT NULL DEFAULT 1,
+    amount DECIMAL(10,2) NOT NULL,
+    platform_fee DECIMAL(10,2) NOT NULL DEFAULT 0,
+
+    CONSTRAINT fk_checkout_lines_checkout FOREIGN KEY (checkout_id) REFERENCES event_checkouts(id) ON DELETE CASCADE,
+    CONSTRAINT chk_checkout_line_type CHECK (line_type IN ('item', 'pledge', 'raffle_tickets'))
+);
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_checkout_lines_checkout' AND object_id = OBJECT_ID('event_checkout_lines'))
+    CREATE INDEX idx_checkout_lines_checkout ON event_checkout_lines(checkout_id);
+
+GO
+
+PRINT 'Migration 030_event_checkouts.sql completed successfully!';
@@ -0,0 +1,30 @@
+-- Migration: 031_cover_processing_fees
+-- Payers can choose to cover card processing fees so the organization nets the
+-- full amount. What they added is kept apart from the winning amount on the
+-- payment it was part of, and carried into the event's payout.
+
+-- =====================================================
+-- 1. Single-item payments (recorded on the first award paid)
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('event_item_winners') AND name = 'fees_covered')
+    ALTER TABLE event_item_winners ADD fees_covered DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+GO
+
+-- =====================================================
+-- 2. Consolidated checkouts
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('event_checkouts') AND name = 'fees_covered')
+    ALTER TABLE event_checkouts ADD fees_covered DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+GO
+
+-- =====================================================
+-- 3. Payouts
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('organization_payouts') AND name = 'fees_covered')
+    ALTER TABLE organization_payouts ADD fees_covered DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+GO
+
+PRINT 'Migration 031_cover_processing_fees.sql completed successfully!';
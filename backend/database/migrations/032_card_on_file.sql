@@ -0,0 +1,56 @@
+-- Migration: 032_card_on_file
+-- Events can require bidders to save a card before bidding. When the event
+-- closes, winners are charged on that card off-session; charges that fail or
+-- need 3-D Secure authentication fall back to a payment reminder.
+
+-- =====================================================
+-- 1. Event setting
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('auction_events') AND name = 'require_card_on_file')
+    ALTER TABLE auction_events ADD require_card_on_file BIT NOT NULL DEFAULT 0;
+
+GO
+
+-- =====================================================
+-- 2. Bidder cards (one per bidder per event)
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='event_bidder_cards' AND xtype='U')
+CREATE TABLE event_bidder_cards (
+    id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    event_id UNIQUEIDENTIFIER NOT NULL,
+    user_id NVARCHAR(128) NOT NULL,
+
+    -- Saved to the user's Stripe customer through a SetupIntent
+    stripe_payment_method_id NVARCHAR(255) NOT NULL,
+    stripe_setup_intent_id NVARCHAR(255) NOT NULL,
+    card_brand NVARCHAR(50) NULL,
+    card_last4 NVARCHAR(4) NULL,
+    card_exp_month INT NULL,
+    card_exp_year INT NULL,
+
+    created_at DATETIME2 DEFAULT GETUTCDATE(),
+    updated_at DATETIME2 DEFAULT GETUTCDATE(),
+
+    CONSTRAINT fk_event_bidder_cards_event FOREIGN KEY (event_id) REFERENCES auction_events(id) ON DELETE CASCADE,
+    CONSTRAINT fk_event_bidder_cards_user FOREIGN KEY (user_id) REFERENCES users(id),
+    CONSTRAINT uq_event_bidder_cards UNIQUE (event_id, user_id)
+);
+
+GO
+
+-- =====================================================
+-- 3. Automatic charge outcome on checkouts
+-- =====================================================
+-- 'succeeded', 'requires_action' (3-D Secure) or 'failed'; NULL when the
+-- bidder started the checkout themselves
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('event_checkouts') AND name = 'auto_charge_status')
+    ALTER TABLE event_checkouts ADD auto_charge_status NVARCHAR(20) NULL;
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('event_checkouts') AND name = 'auto_charge_error')
+    ALTER TABLE event_checkouts ADD auto_charge_error NVARCHAR(500) NULL;
+
+GO
+
+PRINT 'Migration 032_card_on_file.sql completed successfully!';
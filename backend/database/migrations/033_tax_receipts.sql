@@ -0,0 +1,74 @@
+-- Migration: 033_tax_receipts
+-- Items carry a fair market value so buyers can be told how much of what they
+-- paid is tax-deductible. Every payment made through the platform gets a
+-- numbered receipt (PDF and email) recording the amount paid, the fair market
+-- value received and the deductible portion of each line.
+
+-- =====================================================
+-- 1. Fair market value on items
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('event_items') AND name = 'fair_market_value')
+    ALTER TABLE event_items ADD fair_market_value DECIMAL(10,2) NULL;
+
+GO
+
+-- Items converted from donor submissions take the donor's estimated value
+UPDATE i SET fair_market_value = s.estimated_value
+FROM event_items i
+INNER JOIN item_submissions s ON s.event_item_id = i.id
+WHERE i.fair_market_value IS NULL AND s.estimated_value IS NOT NULL;
+
+GO
+
+-- =====================================================
+-- 2. Receipts (one per payment)
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='donation_receipts' AND xtype='U')
+CREATE TABLE donation_receipts (
+    id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    receipt_number INT IDENTITY(1000, 1) NOT NULL,
+    user_id NVARCHAR(128) NOT NULL,
+    event_id UNIQUEIDENTIFIER NOT NULL,
+    organization_id UNIQUEIDENTIFIER NULL,
+    stripe_payment_intent_id NVARCHAR(255) NOT NULL,
+
+    amount_paid DECIMAL(10,2) NOT NULL,
+    fair_market_value DECIMAL(10,2) NOT NULL,
+    deductible_amount DECIMAL(10,2) NOT NULL,
+
+    emailed_at DATETIME2 NULL,
+    created_at DATETIME2 DEFAULT GETUTCDATE(),
+
+    CONSTRAINT fk_donation_receipts_user FOREIGN KEY (user_id) REFERENCES users(id),
+    CONSTRAINT fk_donation_receipts_event FOREIGN KEY (event_id) REFERENCES auction_events(id),
+    CONSTRAINT uq_donation_receipts_payment UNIQUE (stripe_payment_intent_id)
+);
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_donation_receipts_user')
+    CREATE INDEX idx_donation_receipts_user ON donation_receipts(user_id, created_at);
+
+GO
+
+-- =====================================================
+-- 3. Receipt lines
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='donation_receipt_lines' AND xtype='U')
+CREATE TABLE donation_receipt_lines (
+    id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    receipt_id UNIQUEIDENTIFIER NOT NULL,
+
+    -- 'item' or 'pledge'
+    line_type NVARCHAR(20) NOT NULL,
+    description NVARCHAR(500) NOT NULL,
+    amount_paid DECIMAL(10,2) NOT NULL,
+    fair_market_value DECIMAL(10,2) NOT NULL,
+    deductible_amount DECIMAL(10,2) NOT NULL,
+
+    CONSTRAINT fk_donation_receipt_lines_receipt FOREIGN KEY (receipt_id) REFERENCES donation_receipts(id) ON DELETE CASCADE
+);
+
+GO
+
+PRINT 'Migration 033_tax_receipts.sql completed successfully!';
@@ -0,0 +1,107 @@
+-- Migration: 034_second_chance_offers
+-- Second-chance offers: when a winner never pays, the organizer marks the
+-- award defaulted and can offer the item to the next-highest bidder at their
+-- own bid. The bidder accepts or declines before the offer expires; on
+-- acceptance the award passes to them.
+
+-- =====================================================
+-- 1. 'defaulted' payment status on awards
+-- =====================================================
+IF EXISTS (SELECT * FROM sys.check_constraints WHERE name = 'chk_item_winner_payment_status')
+    ALTER TABLE event_item_winners DROP CONSTRAINT chk_item_winner_payment_status;
+
+GO
+
+ALTER TABLE event_item_winners ADD CONSTRAINT chk_item_winner_payment_status
+    CHECK (payment_status IN ('pending', 'paid', 'payment_issue', 'waived', 'refunded', 'defaulted'));
+
+GO
+
+-- =====================================================
+-- 2. Offers to runner-up bidders
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='second_chance_offers' AND xtype='U')
+CREATE TABLE second_chance_offers (
+    id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    item_id UNIQUEIDENTIFIER NOT NULL,
+    event_id UNIQUEIDENTIFIER NOT NULL,
+    -- The defaulted award being offered on
+    award_id UNIQUEIDENTIFIER NOT NULL,
+    previous_winner_id NVARCHAR(128) NOT NULL,
+    bidder_id NVARCHAR(128) NOT NULL,
+
+    -- The runner-up's own bid
+    amount DECIMAL(10,2) NOT NULL,
+    status NVARCHAR(20) NOT NULL DEFAULT 'pending',
+    expires_at DATETIME2 NOT NULL,
+    responded_at DATETIME2 NULL,
+    created_by NVARCHAR(128) NOT NULL,
+
+    created_at DATETIME2 DEFAULT GETUTCDATE(),
+    updated_at DATETIME2 DEFAULT GETUTCDATE(),
+
+    CONSTRAINT fk_second_chance_offers_item FOREIGN KEY (item_id) REFERENCES event_items(id) ON DELETE CASCADE,
+    CONSTRAINT fk_second_chance_offers_event FOREIGN KEY (event_id) REFERENCES auction_events(id),
+    CONSTRAINT fk_second_chance_offers_award FOREIGN KEY (award_id) REFERENCES event_item_winners(id),
+    CONSTRAINT fk_second_chance_offers_bidder FOREIGN KEY (bidder_id) REFERENCES users(id),
+    CONSTRAINT chk_second_chance_offer_status CHECK (status IN ('pending', 'accepted', 'declined', 'expired'))
+);
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_second_chance_offers_award' AND object_id = OBJECT_ID('second_chance_offers'))
+    CREATE INDEX idx_second_chance_offers_award ON second_chance_offers(award_id);
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_second_chance_offers_item' AND object_id = OBJECT_ID('second_chance_offers'))
+    CREATE INDEX idx_second_chance_offers_item ON second_chance_offers(item_id);
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_second_chance_offers_bidder' AND object_id = OBJECT_ID('second_chance_offers'))
+    CREATE INDEX idx_second_chance_offers_bidder ON second_chance_offers(bidder_id);
+
+GO
+
+-- =====================================================
+-- 3. second_chance_offer notification type
+-- =====================================================
+DECLARE @constraintName NVARCHAR(128)
+SELECT @constraintName = name
+FROM sys.check_constraints
+WHERE parent_object_id = OBJECT_ID('user_notifications')
+  AND definition LIKE '%notification_type%'
+
+IF @constraintName IS NOT NULL
+BEGIN
+    EXEC('ALTER TABLE user_notifications DROP CONSTRAINT ' + @constraintName)
+END
+
+GO
+
+ALTER TABLE user_notifications ADD CONSTRAINT chk_notification_type CHECK (notification_type IN (
+    'item_approved',
+    'item_rejected',
+    'resubmit_requested',
+    'event_live',
+    'outbid',
+    'auction_won',
+    'auction_lost',
+    'item_removed',
+    'bid_cancelled',
+    'bid_placed',
+    'payment_reminder',
+    'payment_confirmed',
+    'item_shipped',
+    'ready_for_pickup',
+    'item_delivered',
+    'digital_delivered',
+    'reserve_not_met',
+    'watch_closing_soon',
+    'watch_first_bid',
+    'watch_buy_now_reached',
+    'bid_retraction_denied',
+    'raffle_won',
+    'second_chance_offer'
+));
+
+GO
+
+PRINT 'Migration 034_second_chance_offers.sql completed successfully!';
@@ -0,0 +1,65 @@
+-- Migration: 035_award_payments
+-- Ties payments to the awards they pay for. An award remembers the payment
+-- intent currently open for it, so paying for an item alone and paying
+-- through a consolidated checkout can't both be open for it at once; platform
+-- fees point at the award they were charged on; and a payment that arrives
+-- for an award something else already paid is kept for a refund.
+
+-- =====================================================
+-- 1. The payment intent open for (or that paid) each award
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('event_item_winners') AND name = 'payment_intent_id')
+    ALTER TABLE event_item_winners ADD payment_intent_id NVARCHAR(255) NULL;
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_item_winners_payment_intent' AND object_id = OBJECT_ID('event_item_winners'))
+    CREATE INDEX idx_item_winners_payment_intent ON event_item_winners(payment_intent_id);
+
+GO
+
+-- =====================================================
+-- 2. Platform fees linked to their award
+-- =====================================================
+-- Fees recorded earlier stay unlinked and are settled one per payment, as before
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('platform_fees') AND name = 'award_id')
+    ALTER TABLE platform_fees ADD award_id UNIQUEIDENTIFIER NULL;
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_platform_fees_award' AND object_id = OBJECT_ID('platform_fees'))
+    CREATE INDEX idx_platform_fees_award ON platform_fees(award_id);
+
+GO
+
+-- =====================================================
+-- 3. Duplicate payments awaiting a refund
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='duplicate_award_payments' AND xtype='U')
+CREATE TABLE duplicate_award_payments (
+    id UNIQUEIDENTIFIER PRIMARY KEY DEFAULT NEWID(),
+    event_id UNIQUEIDENTIFIER NOT NULL,
+    award_id UNIQUEIDENTIFIER NOT NULL,
+    -- Who paid a second time, and the payment to refund
+    user_id NVARCHAR(128) NOT NULL,
+    stripe_payment_intent_id NVARCHAR(255) NOT NULL,
+    -- The award's share of that payment
+    amount DECIMAL(10,2) NOT NULL,
+
+    status NVARCHAR(20) NOT NULL DEFAULT 'needs_refund',
+    created_at DATETIME2 DEFAULT GETUTCDATE(),
+    updated_at DATETIME2 DEFAULT GETUTCDATE(),
+
+    CONSTRAINT fk_duplicate_award_payments_event FOREIGN KEY (event_id) REFERENCES auction_events(id),
+    CONSTRAINT uq_duplicate_award_payment UNIQUE (award_id, stripe_payment_intent_id),
+    CONSTRAINT chk_duplicate_award_payment_status CHECK (status IN ('needs_refund', 'refunded'))
+);
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_duplicate_award_payments_event' AND object_id = OBJECT_ID('duplicate_award_payments'))
+    CREATE INDEX idx_duplicate_award_payments_event ON duplicate_award_payments(event_id, status);
+
+GO
+
+PRINT 'Migration 035_award_payments.sql completed successfully!';
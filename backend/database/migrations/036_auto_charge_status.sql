@@ -0,0 +1,14 @@
+-- Migration: 036_auto_charge_status
+-- Automatic charges record the payment intent's own status (e.g.
+-- 'processing' or 'requires_payment_method'), which can be longer than the
+-- outcomes kept before.
+
+-- =====================================================
+-- 1. Room for every payment intent status
+-- =====================================================
+IF EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('event_checkouts') AND name = 'auto_charge_status' AND max_length < 100)
+    ALTER TABLE event_checkouts ALTER COLUMN auto_charge_status NVARCHAR(50) NULL;
+
+GO
+
+PRINT 'Migration 036_auto_charge_status.sql completed successfully!';
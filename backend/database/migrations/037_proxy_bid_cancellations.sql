@@ -0,0 +1,25 @@
+-- Migration: 037_proxy_bid_cancellations
+-- Cancelling a bid can take back the proxy bids it provoked. Those bids are
+-- deleted too, so each gets its own snapshot in bid_cancellations, pointing
+-- at the cancellation that removed it.
+
+-- =====================================================
+-- 1. Link removed proxy bids to their cancellation
+-- =====================================================
+IF NOT EXISTS (SELECT * FROM sys.columns WHERE object_id = OBJECT_ID('bid_cancellations') AND name = 'parent_cancellation_id')
+    ALTER TABLE bid_cancellations ADD parent_cancellation_id UNIQUEIDENTIFIER NULL;
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.foreign_keys WHERE name = 'fk_bid_cancellations_parent')
+    ALTER TABLE bid_cancellations ADD CONSTRAINT fk_bid_cancellations_parent
+        FOREIGN KEY (parent_cancellation_id) REFERENCES bid_cancellations(id);
+
+GO
+
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'idx_bid_cancellations_parent' AND object_id = OBJECT_ID('bid_cancellations'))
+    CREATE INDEX idx_bid_cancellations_parent ON bid_cancellations(parent_cancellation_id);
+
+GO
+
+PRINT 'Migration 037_proxy_bid_cancellations.sql completed successfully!';
@@ -48,13 +48,16 @@ export interface QueryResult {
   rowsAffected: number[]
 }
 
-export async function query(
+export type QueryFn = (
   queryString: string,
   params?: Record<string, unknown>
-): Promise<QueryResult> {
-  const pool = await getPool()
-  const request = pool.request()
+) => Promise<QueryResult>
 
+async function runRequest(
+  request: sql.Request,
+  queryString: string,
+  params?: Record<string, unknown>
+): Promise<QueryResult> {
   if (params) {
     Object.entries(params).forEach(([key, value]) => {
       request.input(key, value)
@@ -69,4 +72,49 @@ export async function query(
   }
 }
 
+export async function query(
+  queryString: string,
+  params?: Record<string, unknown>
+): Promise<QueryResult> {
+  const pool = await getPool()
+  return runRequest(pool.request(), queryString, params)
+}
+
+/**
+ * Run `work` inside a transaction. Queries made through the `query` it is
+ * handed share the transaction; it commits when `work` resolves and rolls
+ * back if it throws (the error is rethrown).
+ *
+ * Statements on one transaction must run one after another, so don't
+ * Promise.all them. Take row locks (e.g. WITH (UPDLOCK, ROWLOCK)) on the
+ * first read of anything the work will later change.
+ */
+export async function withTransaction<T>(
+  work: (query: QueryFn) => Promise<T>,
+  isolationLevel: sql.IIsolationLevel = sql.ISOLATION_LEVEL.READ_COMMITTED
+): Promise<T> {
+  const pool = await getPool()
+  const transaction = new sql.Transaction(pool)
+  await transaction.begin(isolationLevel)
+
+  const transactionQuery: QueryFn = (queryString, params) =>
+    runRequest(new sql.Request(transaction), queryString, params)
+
+  let result: T
+  try {
+    result = await work(transactionQuery)
+  } catch (error) {
+    try {
+      await transaction.rollback()
+    } catch (rollbackError) {
+      // SQL Server may already have aborted the transaction (e.g. deadlock victim)
+      console.error('Transaction rollback failed:', rollbackError)
+    }
+    throw error
+  }
+
+  await transaction.commit()
+  return result
+}
+
 export { sql }
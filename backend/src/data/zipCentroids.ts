@@ -0,0 +1,33798 @@
+// ZIP code centroids used for "events near me" searches, one "zip,latitude,longitude"
+// row per line. Kept in code so lookups need no database or network access.
+//
+// Generated from Gaz_zcta_national.txt by src/db/buildZipCentroids.ts; rerun
+// `npm run zip-centroids -- path/to/Gaz_zcta_national.txt` to refresh.
+export const ZIP_CENTROID_DATA = `
+00601,18.1806,-66.7500
+00602,18.3619,-67.1756
+00603,18.4585,-67.1239
+00606,18.1583,-66.9329
+00610,18.2940,-67.1272
+00611,18.2763,-66.8072
+00612,18.4167,-66.7001
+00616,18.4204,-66.6720
+00617,18.4469,-66.5612
+00622,17.9881,-67.1604
+00623,18.0844,-67.1588
+00624,18.0518,-66.7217
+00627,18.4125,-66.8638
+00631,18.1843,-66.8308
+00636,18.1636,-67.0801
+00637,18.0801,-66.9480
+00638,18.2802,-66.5131
+00641,18.2681,-66.7018
+00646,18.4329,-66.2865
+00647,17.9636,-66.9471
+00650,18.3491,-66.5782
+00652,18.4484,-66.5941
+00653,17.9886,-66.9017
+00656,18.0404,-66.7897
+00659,18.4068,-66.8093
+00660,18.1347,-67.1162
+00662,18.4683,-67.0157
+00664,18.2103,-66.5916
+00667,18.0034,-67.0358
+00669,18.2769,-66.8696
+00670,18.2336,-66.9876
+00674,18.4241,-66.4879
+00676,18.3816,-67.0809
+00677,18.3326,-67.2270
+00678,18.4305,-66.9305
+00680,18.1835,-67.1331
+00682,18.2249,-67.1539
+00683,18.1078,-67.0373
+00685,18.3369,-66.9729
+00687,18.3180,-66.4204
+00688,18.3823,-66.6264
+00690,18.4935,-67.0969
+00692,18.4107,-66.3362
+00693,18.4260,-66.3981
+00694,18.4831,-66.3924
+00698,18.0729,-66.8512
+00703,18.2484,-66.1307
+00704,17.9732,-66.2290
+00705,18.1290,-66.2667
+00707,18.0141,-65.9208
+00714,17.9959,-66.0555
+00715,17.9905,-66.5661
+00716,17.9850,-66.6067
+00717,18.0026,-66.6111
+00718,18.2320,-65.7560
+00719,18.2899,-66.2534
+00720,18.2166,-66.4237
+00723,18.0193,-66.0019
+00725,18.2207,-66.0396
+00727,18.2119,-66.0734
+00728,17.9911,-66.6630
+00729,18.3349,-65.8871
+00730,18.0309,-66.6119
+00731,18.1099,-66.6356
+00735,18.2518,-65.6669
+00736,18.1036,-66.1517
+00738,18.3045,-65.6987
+00739,18.1755,-66.1621
+00740,18.3340,-65.6317
+00741,18.1639,-65.7540
+00745,18.3522,-65.8109
+00751,18.0038,-66.2629
+00754,18.1446,-65.9723
+00757,17.9914,-66.4023
+00765,18.1242,-65.4231
+00766,18.1307,-66.4722
+00767,18.0695,-65.8960
+00769,18.0966,-66.3583
+00771,18.1871,-65.8712
+00772,18.4389,-65.9052
+00773,18.3429,-65.7231
+00775,18.3266,-65.3078
+00777,18.2243,-65.9091
+00778,18.2641,-65.9785
+00780,18.0941,-66.5658
+00782,18.2249,-66.2245
+00783,18.3002,-66.3289
+00784,18.0107,-66.1336
+00786,18.1357,-66.2287
+00791,18.1426,-65.8128
+00794,18.2000,-66.3093
+00795,18.0465,-66.4951
+00802,18.3429,-64.9251
+00820,17.7366,-64.7082
+00830,18.3386,-64.7365
+00840,17.7247,-64.8485
+00850,17.7268,-64.7922
+00851,17.7475,-64.7874
+00901,18.4666,-66.1080
+00906,18.4645,-66.0950
+00907,18.4523,-66.0876
+00909,18.4412,-66.0688
+00911,18.4537,-66.0557
+00912,18.4451,-66.0599
+00913,18.4646,-66.0446
+00915,18.4372,-66.0456
+00917,18.4207,-66.0501
+00918,18.4222,-66.0691
+00920,18.4224,-66.0921
+00921,18.3921,-66.0871
+00923,18.4108,-66.0374
+00924,18.4004,-66.0126
+00925,18.4003,-66.0506
+00926,18.3486,-66.0539
+00927,18.3882,-66.0700
+00934,18.4130,-66.1198
+00949,18.4099,-66.2274
+00950,18.4672,-66.2379
+00951,18.4280,-66.2598
+00952,18.4287,-66.1889
+00953,18.3607,-66.2515
+00956,18.3211,-66.1704
+00957,18.3661,-66.1890
+00959,18.3858,-66.1557
+00960,18.4169,-66.1427
+00961,18.4099,-66.1634
+00962,18.4400,-66.1355
+00965,18.4305,-66.1109
+00966,18.3979,-66.1139
+00968,18.4061,-66.1012
+00969,18.3662,-66.1100
+00971,18.3189,-66.1192
+00976,18.3362,-65.9941
+00979,18.4384,-65.9992
+00982,18.4087,-65.9913
+00983,18.4172,-65.9813
+00985,18.4108,-65.9479
+00987,18.3440,-65.9438
+01001,42.0624,-72.6258
+01002,42.3772,-72.4648
+01003,42.3919,-72.5236
+01005,42.4189,-72.1121
+01007,42.2839,-72.4004
+01008,42.1920,-72.9641
+01009,42.2114,-72.3418
+01010,42.1282,-72.2054
+01011,42.2901,-72.9665
+01012,42.3754,-72.8582
+01013,42.1420,-72.5955
+01020,42.1726,-72.5619
+01022,42.1972,-72.5419
+01026,42.4700,-72.9257
+01027,42.2950,-72.7519
+01028,42.0624,-72.4981
+01029,42.1763,-73.0353
+01030,42.0729,-72.6870
+01031,42.3278,-72.1920
+01032,42.4576,-72.8148
+01033,42.2449,-72.5001
+01034,42.0939,-72.9611
+01035,42.3565,-72.5686
+01036,42.0712,-72.4177
+01037,42.3760,-72.1974
+01038,42.3799,-72.6040
+01039,42.4113,-72.6910
+01040,42.2117,-72.6424
+01050,42.2913,-72.8748
+01053,42.3563,-72.7136
+01054,42.4689,-72.4846
+01056,42.1836,-72.4578
+01057,42.0936,-72.3215
+01060,42.3213,-72.6304
+01062,42.3230,-72.7018
+01063,42.3196,-72.6395
+01066,42.4130,-72.6236
+01068,42.3539,-72.0607
+01069,42.1889,-72.3065
+01070,42.5199,-72.9254
+01071,42.1601,-72.8738
+01072,42.4570,-72.4172
+01073,42.2269,-72.7416
+01074,42.3808,-72.1039
+01075,42.2565,-72.5802
+01077,42.0526,-72.7774
+01079,42.1857,-72.3325
+01080,42.1857,-72.3616
+01081,42.0613,-72.2344
+01082,42.2997,-72.2792
+01083,42.2068,-72.1986
+01084,42.3617,-72.8750
+01085,42.1535,-72.7716
+01088,42.3827,-72.6404
+01089,42.1255,-72.6497
+01092,42.1919,-72.2351
+01093,42.4453,-72.6451
+01094,42.3698,-72.1393
+01095,42.1385,-72.4207
+01096,42.4105,-72.7658
+01097,42.1659,-72.8310
+01098,42.3976,-72.9434
+01103,42.1044,-72.5901
+01104,42.1328,-72.5674
+01105,42.0952,-72.5776
+01106,42.0457,-72.5633
+01107,42.1211,-72.6071
+01108,42.0830,-72.5595
+01109,42.1197,-72.5497
+01118,42.0946,-72.5252
+01119,42.1250,-72.5112
+01128,42.0923,-72.4891
+01129,42.1187,-72.4882
+01144,42.1019,-72.5909
+01151,42.1519,-72.5091
+01201,42.4543,-73.2821
+01220,42.6256,-73.1198
+01222,42.0627,-73.3175
+01223,42.3043,-73.1115
+01224,42.5037,-73.2016
+01225,42.5651,-73.1491
+01226,42.4798,-73.1538
+01229,42.2901,-73.3542
+01230,42.1732,-73.3243
+01235,42.4257,-73.0630
+01236,42.2745,-73.3862
+01237,42.5498,-73.2611
+01238,42.3005,-73.2310
+01240,42.3827,-73.2666
+01242,42.3337,-73.2492
+01243,42.3679,-73.0541
+01244,42.1175,-73.2786
+01245,42.1933,-73.2185
+01247,42.6957,-73.0939
+01253,42.2067,-73.1132
+01254,42.3820,-73.3655
+01255,42.1029,-73.1260
+01256,42.5942,-73.0223
+01257,42.0852,-73.3675
+01258,42.0909,-73.4702
+01259,42.0693,-73.2289
+01260,42.2617,-73.2752
+01262,42.3101,-73.3245
+01264,42.2348,-73.1971
+01266,42.3124,-73.3880
+01267,42.6716,-73.2470
+01270,42.5198,-73.0497
+01301,42.6268,-72.6015
+01330,42.5139,-72.8215
+01331,42.5702,-72.1829
+01337,42.6893,-72.5823
+01338,42.5759,-72.8067
+01339,42.6105,-72.8877
+01340,42.6855,-72.7311
+01341,42.5072,-72.7015
+01342,42.5439,-72.6095
+01343,42.6477,-72.9698
+01344,42.6134,-72.4264
+01346,42.6585,-72.8061
+01347,42.5632,-72.5098
+01349,42.5675,-72.4675
+01350,42.7278,-72.9853
+01351,42.5399,-72.5217
+01354,42.6241,-72.5086
+01355,42.4586,-72.3272
+01360,42.6771,-72.4539
+01364,42.6054,-72.2921
+01366,42.4916,-72.1809
+01367,42.6929,-72.9192
+01368,42.6767,-72.1841
+01370,42.5934,-72.7269
+01373,42.4755,-72.6154
+01375,42.4667,-72.5468
+01376,42.5914,-72.5447
+01378,42.6800,-72.3399
+01379,42.5279,-72.3984
+01380,42.5885,-72.4063
+01420,42.5849,-71.8169
+01430,42.6731,-71.9203
+01431,42.6763,-71.8325
+01432,42.5666,-71.5751
+01434,42.5321,-71.6137
+01436,42.6021,-72.0870
+01438,42.5611,-72.0361
+01440,42.5883,-71.9861
+01450,42.6116,-71.5647
+01451,42.5019,-71.5682
+01452,42.4951,-72.0023
+01453,42.5200,-71.7633
+01460,42.5359,-71.4906
+01462,42.5826,-71.7205
+01463,42.6706,-71.6029
+01464,42.5737,-71.6410
+01468,42.5428,-72.0683
+01469,42.6648,-71.6951
+01473,42.5546,-71.9054
+01474,42.6731,-71.7484
+01475,42.6682,-72.0556
+01501,42.1989,-71.8457
+01503,42.3849,-71.6339
+01504,42.0400,-71.5324
+01505,42.3550,-71.7162
+01506,42.1808,-72.1079
+01507,42.1339,-71.9680
+01510,42.4119,-71.6900
+01515,42.2097,-72.0402
+01516,42.0531,-71.7522
+01518,42.1083,-72.1137
+01519,42.2034,-71.6797
+01520,42.3342,-71.8543
+01521,42.0468,-72.1802
+01522,42.3756,-71.8674
+01523,42.4836,-71.6756
+01524,42.2460,-71.9176
+01525,42.0990,-71.6430
+01527,42.1922,-71.7776
+01529,42.0366,-71.5788
+01531,42.3262,-72.1334
+01532,42.3233,-71.6462
+01534,42.1389,-71.6450
+01535,42.2676,-72.0669
+01536,42.2313,-71.6926
+01537,42.1590,-71.8971
+01540,42.1137,-71.8608
+01541,42.4541,-71.8775
+01542,42.2043,-71.9089
+01543,42.3883,-71.9699
+01545,42.2848,-71.7142
+01550,42.0597,-72.0339
+01560,42.1754,-71.6742
+01561,42.4458,-71.6885
+01562,42.2472,-71.9919
+01564,42.4479,-71.7760
+01566,42.1032,-72.0795
+01568,42.1775,-71.6063
+01569,42.0559,-71.6311
+01570,42.0493,-71.8462
+01571,42.0538,-71.9351
+01581,42.2684,-71.6133
+01583,42.3754,-71.7894
+01585,42.2369,-72.1622
+01588,42.1161,-71.6646
+01590,42.1321,-71.7503
+01602,42.2692,-71.8507
+01603,42.2438,-71.8436
+01604,42.2535,-71.7679
+01605,42.2897,-71.7878
+01606,42.3139,-71.7942
+01607,42.2260,-71.7889
+01608,42.2621,-71.8014
+01609,42.2851,-71.8300
+01610,42.2470,-71.8084
+01611,42.2410,-71.8770
+01612,42.2968,-71.9290
+01701,42.3196,-71.4428
+01702,42.2824,-71.4366
+01718,42.5228,-71.4303
+01719,42.4860,-71.5210
+01720,42.4840,-71.4385
+01721,42.2578,-71.4735
+01730,42.4993,-71.2819
+01731,42.4646,-71.2848
+01740,42.4399,-71.6019
+01741,42.5368,-71.3613
+01742,42.4629,-71.3645
+01745,42.2921,-71.4992
+01746,42.1960,-71.4534
+01747,42.1230,-71.5314
+01748,42.2241,-71.5405
+01749,42.3891,-71.5459
+01752,42.3496,-71.5472
+01754,42.4260,-71.4563
+01756,42.0939,-71.5445
+01757,42.1587,-71.5214
+01760,42.2848,-71.3488
+01770,42.2319,-71.3730
+01772,42.3029,-71.5308
+01773,42.4255,-71.3108
+01775,42.4297,-71.5125
+01776,42.3834,-71.4211
+01778,42.3563,-71.3619
+01801,42.4887,-71.1544
+01803,42.5032,-71.2017
+01810,42.6480,-71.1618
+01821,42.5493,-71.2517
+01824,42.5908,-71.3552
+01826,42.6797,-71.3007
+01827,42.6761,-71.4998
+01830,42.7963,-71.0534
+01832,42.7911,-71.1329
+01833,42.7262,-70.9833
+01834,42.7539,-71.0159
+01835,42.7513,-71.0944
+01840,42.7068,-71.1604
+01841,42.7151,-71.1483
+01843,42.6900,-71.1604
+01844,42.7426,-71.1787
+01845,42.6739,-71.0913
+01850,42.6560,-71.3033
+01851,42.6280,-71.3368
+01852,42.6330,-71.2956
+01854,42.6495,-71.3482
+01860,42.8386,-71.0120
+01862,42.5785,-71.2956
+01863,42.6305,-71.3979
+01864,42.5784,-71.0844
+01867,42.5352,-71.1054
+01876,42.6119,-71.2272
+01879,42.6678,-71.4288
+01880,42.5044,-71.0641
+01886,42.5855,-71.4403
+01887,42.5646,-71.1645
+01890,42.4528,-71.1443
+01901,42.4604,-70.9464
+01902,42.4710,-70.9415
+01904,42.4914,-70.9714
+01905,42.4624,-70.9723
+01906,42.4697,-71.0128
+01907,42.4741,-70.9066
+01908,42.4282,-70.9261
+01913,42.8513,-70.9558
+01915,42.5704,-70.8677
+01921,42.6831,-71.0272
+01922,42.7573,-70.9142
+01923,42.5742,-70.9505
+01929,42.6405,-70.7712
+01930,42.6203,-70.6780
+01937,42.5857,-70.9841
+01938,42.6865,-70.8396
+01940,42.5341,-71.0383
+01944,42.5766,-70.7672
+01945,42.5043,-70.8515
+01949,42.6103,-71.0063
+01950,42.8124,-70.8911
+01951,42.7734,-70.8502
+01952,42.8448,-70.8415
+01960,42.5343,-70.9694
+01965,42.5641,-70.8247
+01966,42.6407,-70.6202
+01969,42.7215,-70.8866
+01970,42.5292,-70.8680
+01982,42.6262,-70.8572
+01983,42.6414,-70.9434
+01984,42.6007,-70.8833
+01985,42.7996,-70.9644
+02019,42.0767,-71.4745
+02021,42.1757,-71.1254
+02025,42.2364,-70.8143
+02026,42.2469,-71.1795
+02030,42.2342,-71.2912
+02032,42.1569,-71.2162
+02035,42.0613,-71.2458
+02038,42.0849,-71.4106
+02043,42.2161,-70.8813
+02045,42.2859,-70.8795
+02047,42.1455,-70.6950
+02048,42.0173,-71.2164
+02050,42.1151,-70.7103
+02052,42.1846,-71.3053
+02053,42.1562,-71.4303
+02054,42.1731,-71.3638
+02056,42.1162,-71.3293
+02061,42.1646,-70.8188
+02062,42.1874,-71.1925
+02066,42.2023,-70.7582
+02067,42.1076,-71.1818
+02071,42.1064,-71.2690
+02072,42.1190,-71.1037
+02081,42.1474,-71.2580
+02090,42.2196,-71.2168
+02093,42.0527,-71.3569
+02108,42.3551,-71.0657
+02109,42.3669,-71.0504
+02110,42.3583,-71.0519
+02111,42.3507,-71.0605
+02113,42.3653,-71.0552
+02114,42.3637,-71.0669
+02115,42.3394,-71.0945
+02116,42.3510,-71.0766
+02118,42.3379,-71.0698
+02119,42.3241,-71.0852
+02120,42.3321,-71.0966
+02121,42.3054,-71.0870
+02122,42.2951,-71.0525
+02124,42.2859,-71.0750
+02125,42.3157,-71.0556
+02126,42.2774,-71.0900
+02127,42.3353,-71.0382
+02128,42.3615,-71.0074
+02129,42.3797,-71.0615
+02130,42.3082,-71.1135
+02131,42.2823,-71.1247
+02132,42.2791,-71.1604
+02133,42.3584,-71.0639
+02134,42.3588,-71.1296
+02135,42.3497,-71.1540
+02136,42.2547,-71.1271
+02138,42.3796,-71.1352
+02139,42.3624,-71.1023
+02140,42.3922,-71.1340
+02141,42.3703,-71.0826
+02142,42.3625,-71.0810
+02143,42.3814,-71.0967
+02144,42.4001,-71.1231
+02145,42.3916,-71.0899
+02148,42.4294,-71.0587
+02149,42.4059,-71.0546
+02150,42.3968,-71.0313
+02151,42.4183,-71.0013
+02152,42.3774,-70.9770
+02155,42.4238,-71.1077
+02163,42.3672,-71.1251
+02169,42.2400,-71.0152
+02170,42.2664,-71.0156
+02171,42.2915,-71.0258
+02176,42.4557,-71.0590
+02180,42.4742,-71.0977
+02184,42.2062,-71.0023
+02186,42.2416,-71.0824
+02188,42.2047,-70.9576
+02189,42.2120,-70.9296
+02190,42.1667,-70.9524
+02191,42.2451,-70.9465
+02199,42.3475,-71.0820
+02203,42.3614,-71.0595
+02205,42.3494,-71.0556
+02210,42.3480,-71.0393
+02215,42.3476,-71.1031
+02301,42.0784,-71.0423
+02302,42.0889,-70.9984
+02322,42.1325,-71.0540
+02324,41.9724,-70.9788
+02325,41.9901,-70.9624
+02330,41.8752,-70.7467
+02332,42.0444,-70.7061
+02333,42.0371,-70.9422
+02338,42.0026,-70.8637
+02339,42.1230,-70.8563
+02341,42.0502,-70.8674
+02343,42.1403,-70.9979
+02346,41.8780,-70.8693
+02347,41.8344,-70.9568
+02350,42.0210,-70.8458
+02351,42.1158,-70.9566
+02356,42.0605,-71.1197
+02357,42.0640,-71.0774
+02359,42.0678,-70.8057
+02360,41.8821,-70.6313
+02364,41.9872,-70.7419
+02366,41.8488,-70.6612
+02367,41.9591,-70.8028
+02368,42.1790,-71.0527
+02370,42.1293,-70.9087
+02375,42.0057,-71.0780
+02379,42.0216,-71.0267
+02382,42.0790,-70.9394
+02420,42.4591,-71.2177
+02421,42.4385,-71.2396
+02445,42.3255,-71.1350
+02446,42.3435,-71.1222
+02451,42.4015,-71.2530
+02452,42.3956,-71.2199
+02453,42.3687,-71.2411
+02457,42.2983,-71.2730
+02458,42.3536,-71.1882
+02459,42.3148,-71.1920
+02460,42.3518,-71.2085
+02461,42.3174,-71.2065
+02462,42.3317,-71.2559
+02464,42.3130,-71.2189
+02465,42.3495,-71.2273
+02466,42.3455,-71.2477
+02467,42.3143,-71.1528
+02468,42.3292,-71.2316
+02472,42.3695,-71.1779
+02474,42.4209,-71.1564
+02476,42.4165,-71.1735
+02478,42.3953,-71.1803
+02481,42.3105,-71.2778
+02482,42.2933,-71.2964
+02492,42.2765,-71.2437
+02493,42.3605,-71.3034
+02494,42.2996,-71.2312
+02532,41.7495,-70.5949
+02534,41.6690,-70.6153
+02535,41.3380,-70.7617
+02536,41.5963,-70.5675
+02537,41.7284,-70.4358
+02538,41.7774,-70.6424
+02539,41.3777,-70.5221
+02540,41.5695,-70.6272
+02542,41.7078,-70.5455
+02543,41.4724,-70.7850
+02553,41.7131,-70.6223
+02554,41.2901,-70.0963
+02556,41.6394,-70.6245
+02557,41.4464,-70.5618
+02558,41.7463,-70.6517
+02559,41.6902,-70.6163
+02561,41.7678,-70.5329
+02562,41.7880,-70.5276
+02563,41.7511,-70.5025
+02564,41.2719,-69.9845
+02568,41.4494,-70.6164
+02571,41.7514,-70.6994
+02575,41.3944,-70.6564
+02576,41.7722,-70.7629
+02584,41.2576,-70.0053
+02601,41.6612,-70.2932
+02630,41.7068,-70.3125
+02631,41.7475,-70.0662
+02632,41.6591,-70.3469
+02633,41.6874,-69.9802
+02635,41.6241,-70.4394
+02637,41.7057,-70.2709
+02638,41.7302,-70.1974
+02639,41.6681,-70.1370
+02641,41.7540,-70.1554
+02642,41.8416,-69.9750
+02643,41.7535,-69.9347
+02644,41.6835,-70.5108
+02645,41.7013,-70.0617
+02646,41.6706,-70.0714
+02647,41.6301,-70.3101
+02648,41.6704,-70.4120
+02649,41.6176,-70.4927
+02650,41.7019,-69.9615
+02652,42.0495,-70.0950
+02653,41.7691,-69.9736
+02655,41.6280,-70.3920
+02657,42.0598,-70.2004
+02659,41.6815,-70.0235
+02660,41.7085,-70.1566
+02663,41.8975,-69.9699
+02664,41.6748,-70.1943
+02666,41.9854,-70.0377
+02667,41.9234,-70.0210
+02668,41.7143,-70.3560
+02670,41.6601,-70.1707
+02671,41.6703,-70.1111
+02672,41.6357,-70.3136
+02673,41.6529,-70.2474
+02675,41.7039,-70.2316
+02702,41.7851,-71.0590
+02703,41.9317,-71.2945
+02713,41.4271,-70.8857
+02715,41.8056,-71.1577
+02717,41.7586,-70.9876
+02718,41.8625,-71.0117
+02719,41.6337,-70.8714
+02720,41.7271,-71.1099
+02721,41.6744,-71.1485
+02723,41.6922,-71.1321
+02724,41.6831,-71.1779
+02725,41.7200,-71.1883
+02726,41.7597,-71.1446
+02738,41.7062,-70.7502
+02739,41.6656,-70.8159
+02740,41.6382,-70.9384
+02743,41.7096,-70.8981
+02744,41.6063,-70.9136
+02745,41.7027,-70.9471
+02746,41.6639,-70.9476
+02747,41.6580,-71.0135
+02748,41.5531,-70.9715
+02760,41.9726,-71.3344
+02762,42.0128,-71.3362
+02763,41.9669,-71.3086
+02764,41.8519,-71.1536
+02766,41.9653,-71.1818
+02767,41.9410,-71.0485
+02769,41.8469,-71.2449
+02770,41.7609,-70.8390
+02771,41.8398,-71.3180
+02777,41.7582,-71.2142
+02779,41.8381,-71.0776
+02780,41.9091,-71.1183
+02790,41.5992,-71.0824
+02791,41.5306,-71.0850
+02802,41.9521,-71.4562
+02804,41.4330,-71.7701
+02806,41.7330,-71.3197
+02807,41.1768,-71.5771
+02808,41.4107,-71.7385
+02809,41.6757,-71.2733
+02812,41.4777,-71.6582
+02813,41.3942,-71.6698
+02814,41.8958,-71.7052
+02815,41.7786,-71.6624
+02816,41.6965,-71.6227
+02817,41.6286,-71.6589
+02818,41.6429,-71.4857
+02822,41.5753,-71.5871
+02823,41.7334,-71.5437
+02824,41.9994,-71.5621
+02825,41.7821,-71.7268
+02826,41.9870,-71.6480
+02827,41.6987,-71.7391
+02828,41.8777,-71.5609
+02829,41.8934,-71.5890
+02830,41.9756,-71.6564
+02831,41.7464,-71.5849
+02832,41.5068,-71.7280
+02833,41.4858,-71.7853
+02835,41.5101,-71.3784
+02836,41.4540,-71.6202
+02837,41.5188,-71.1672
+02838,41.9654,-71.4794
+02839,41.9451,-71.6426
+02840,41.4767,-71.3196
+02841,41.5075,-71.3300
+02842,41.5171,-71.2734
+02852,41.5886,-71.4598
+02857,41.8228,-71.6336
+02858,41.9642,-71.6501
+02859,41.9591,-71.7573
+02860,41.8706,-71.3887
+02861,41.8786,-71.3531
+02863,41.8901,-71.3935
+02864,41.9675,-71.4206
+02865,41.9155,-71.4498
+02871,41.5866,-71.2592
+02872,41.5970,-71.3209
+02873,41.5331,-71.7805
+02874,41.5091,-71.4744
+02875,41.4594,-71.6378
+02876,41.9972,-71.5844
+02878,41.6070,-71.1826
+02879,41.4288,-71.5384
+02881,41.4824,-71.5265
+02882,41.4171,-71.4723
+02885,41.7264,-71.2590
+02886,41.7016,-71.4552
+02888,41.7482,-71.4079
+02889,41.7013,-71.3780
+02891,41.3578,-71.7896
+02892,41.4995,-71.6016
+02893,41.6796,-71.5211
+02894,41.4442,-71.6993
+02895,42.0017,-71.4999
+02896,41.9752,-71.5441
+02898,41.5176,-71.6685
+02903,41.8192,-71.4102
+02904,41.8583,-71.4363
+02905,41.7853,-71.3962
+02906,41.8395,-71.3892
+02907,41.7986,-71.4246
+02908,41.8390,-71.4393
+02909,41.8181,-71.4518
+02910,41.7750,-71.4356
+02911,41.8549,-71.4728
+02912,41.8255,-71.4033
+02914,41.8136,-71.3665
+02915,41.7722,-71.3544
+02916,41.8427,-71.3524
+02917,41.9063,-71.5238
+02918,41.8438,-71.4350
+02919,41.8274,-71.5199
+02920,41.7673,-71.4655
+02921,41.7629,-71.5148
+03031,42.8748,-71.6005
+03032,42.9935,-71.3640
+03033,42.7493,-71.6757
+03034,43.0569,-71.3406
+03036,42.9845,-71.2551
+03037,43.1363,-71.2551
+03038,42.8928,-71.2768
+03042,43.0510,-71.0883
+03043,42.9941,-71.8161
+03044,43.0004,-71.1192
+03045,43.0215,-71.5635
+03046,43.1125,-71.6075
+03047,42.9387,-71.8794
+03048,42.7429,-71.7618
+03049,42.7496,-71.5854
+03051,42.7605,-71.4094
+03052,42.8461,-71.4683
+03053,42.8686,-71.3872
+03054,42.8520,-71.5199
+03055,42.8186,-71.6734
+03057,42.9089,-71.6942
+03060,42.7411,-71.4583
+03062,42.7223,-71.5012
+03063,42.7821,-71.5184
+03064,42.7794,-71.4749
+03070,42.9764,-71.6867
+03071,42.7463,-71.8744
+03076,42.7310,-71.3371
+03077,43.0326,-71.2031
+03079,42.7883,-71.2217
+03082,42.8964,-71.7683
+03084,42.8267,-71.8754
+03086,42.8322,-71.7596
+03087,42.8111,-71.3027
+03101,42.9890,-71.4661
+03102,43.0119,-71.4911
+03103,42.9561,-71.4424
+03104,43.0096,-71.4398
+03106,43.0812,-71.4466
+03109,42.9637,-71.4004
+03110,42.9356,-71.5369
+03215,44.0695,-71.4200
+03216,43.4507,-71.7906
+03217,43.7260,-71.6426
+03218,43.3369,-71.2738
+03220,43.4745,-71.4822
+03221,43.2581,-71.9602
+03222,43.6437,-71.7993
+03223,43.8554,-71.6855
+03224,43.3507,-71.5475
+03225,43.3638,-71.2417
+03226,43.7028,-71.5104
+03227,43.8172,-71.4606
+03229,43.2022,-71.6968
+03230,43.5281,-71.8645
+03231,43.4509,-71.7541
+03233,43.4240,-71.9312
+03234,43.2048,-71.3486
+03235,43.4490,-71.6742
+03237,43.4316,-71.3877
+03238,43.9816,-71.8870
+03240,43.5747,-71.9519
+03241,43.7079,-71.8147
+03242,43.1694,-71.8312
+03243,43.5283,-71.7692
+03244,43.1199,-71.9219
+03245,43.7618,-71.5825
+03246,43.5765,-71.4823
+03249,43.5195,-71.3758
+03251,44.0948,-71.6314
+03253,43.6312,-71.4986
+03254,43.7169,-71.3660
+03255,43.3140,-72.0246
+03256,43.6234,-71.6325
+03257,43.4177,-71.9906
+03258,43.2653,-71.4088
+03259,43.8782,-71.4992
+03260,43.3680,-71.9177
+03261,43.2119,-71.2234
+03262,43.9999,-71.7144
+03263,43.2885,-71.3094
+03264,43.7388,-71.7026
+03266,43.7829,-71.8847
+03268,43.3861,-71.7729
+03269,43.5295,-71.6005
+03273,43.3020,-71.9270
+03275,43.1700,-71.4207
+03276,43.4310,-71.5760
+03278,43.3089,-71.8355
+03279,43.9658,-71.8591
+03280,43.1901,-72.0939
+03281,43.0783,-71.7035
+03282,43.8587,-71.9237
+03284,43.4729,-72.0131
+03285,43.9479,-71.6358
+03287,43.4433,-71.9224
+03290,43.1298,-71.1319
+03291,43.1798,-71.1420
+03293,43.9793,-71.6727
+03301,43.2386,-71.5563
+03303,43.3117,-71.6654
+03304,43.1332,-71.5372
+03307,43.3340,-71.4467
+03431,42.9691,-72.3020
+03440,43.0636,-71.9782
+03441,42.7807,-72.4470
+03442,43.0203,-71.9037
+03443,42.8694,-72.4662
+03444,42.8893,-72.0698
+03445,43.0206,-72.2144
+03446,42.8583,-72.2964
+03447,42.7532,-72.1530
+03448,43.0412,-72.2624
+03449,42.9838,-72.0011
+03450,42.9485,-72.0690
+03451,42.8093,-72.5048
+03452,42.8293,-72.0599
+03455,42.9018,-72.1729
+03456,43.1385,-72.2088
+03457,42.9995,-72.1217
+03458,42.8684,-71.9401
+03461,42.7567,-72.0132
+03462,42.8926,-72.3902
+03464,43.0809,-72.1101
+03465,42.8288,-72.1889
+03466,42.8819,-72.5083
+03467,42.9681,-72.4309
+03470,42.7713,-72.3542
+03561,44.3434,-71.7951
+03570,44.5114,-71.1978
+03574,44.2604,-71.6092
+03575,44.3137,-71.4028
+03576,44.8963,-71.3781
+03579,44.9366,-71.0452
+03580,44.1634,-71.6933
+03581,44.3672,-71.0871
+03582,44.5650,-71.4430
+03583,44.4028,-71.4566
+03584,44.4903,-71.5475
+03585,44.2253,-71.9027
+03586,44.2184,-71.8002
+03588,44.6075,-71.2371
+03590,44.7151,-71.5275
+03592,45.1162,-71.2611
+03593,44.3014,-71.2998
+03595,44.3053,-71.4974
+03597,44.7449,-71.3813
+03598,44.3789,-71.6289
+03601,43.2458,-72.3130
+03602,43.1408,-72.3476
+03603,43.2479,-72.3737
+03604,43.1323,-72.3898
+03605,43.2366,-72.1849
+03607,43.1981,-72.2622
+03608,43.0764,-72.3960
+03609,43.1439,-72.4464
+03740,44.1830,-71.9870
+03741,43.6769,-72.0071
+03743,43.3607,-72.3269
+03745,43.4730,-72.3117
+03748,43.6033,-72.1186
+03750,43.7210,-72.1852
+03751,43.4413,-72.0816
+03752,43.2721,-72.1010
+03753,43.5166,-72.1491
+03755,43.7324,-72.1392
+03765,44.0352,-72.0502
+03766,43.6326,-72.2348
+03768,43.8166,-72.0943
+03770,43.5313,-72.2588
+03771,44.2966,-71.9807
+03773,43.3713,-72.2028
+03774,44.0998,-71.9855
+03777,43.8833,-72.0338
+03779,43.9619,-72.0013
+03780,44.0418,-71.9909
+03781,43.5601,-72.2993
+03782,43.3901,-72.0931
+03784,43.6383,-72.3065
+03785,44.0359,-71.8466
+03801,43.0748,-70.8054
+03809,43.4647,-71.2002
+03810,43.5126,-71.2949
+03811,42.8391,-71.1672
+03812,44.0811,-71.2972
+03813,44.1275,-71.0607
+03814,43.7709,-71.1815
+03816,43.6983,-71.2430
+03817,43.8890,-71.2406
+03818,43.9594,-71.2743
+03819,42.9440,-71.1323
+03820,43.1864,-70.8836
+03823,43.1746,-70.9415
+03824,43.1171,-70.9188
+03825,43.2156,-71.0390
+03826,42.8881,-71.1298
+03827,42.9037,-70.9955
+03830,43.6141,-70.9936
+03832,43.9070,-71.0475
+03833,42.9788,-70.9797
+03835,43.3669,-71.0625
+03836,43.8420,-71.0752
+03837,43.4223,-71.3361
+03838,44.1107,-71.2233
+03839,43.2688,-70.9855
+03840,43.0397,-70.8456
+03841,42.8787,-71.1783
+03842,42.9396,-70.8367
+03844,42.9248,-70.8862
+03845,44.1054,-71.1158
+03846,44.1876,-71.1558
+03847,44.0720,-71.1239
+03848,42.9137,-71.0736
+03849,43.8901,-71.1329
+03850,43.6980,-71.3026
+03851,43.4373,-71.0253
+03852,43.4950,-70.9860
+03853,43.6386,-71.2944
+03854,43.0621,-70.7171
+03855,43.4637,-71.1521
+03856,43.0385,-70.9680
+03857,43.0709,-70.9469
+03858,42.8704,-71.0459
+03860,44.0421,-71.1230
+03861,43.1192,-71.0071
+03862,42.9799,-70.8294
+03864,43.6899,-71.1034
+03865,42.8456,-71.0933
+03867,43.3017,-70.9918
+03868,43.3242,-70.9402
+03869,43.2198,-70.8431
+03870,43.0196,-70.7605
+03871,42.9809,-70.7774
+03872,43.5705,-71.0433
+03873,42.9340,-71.1836
+03874,42.8831,-70.8608
+03875,43.9036,-71.1921
+03878,43.2535,-70.8879
+03882,43.7467,-71.0419
+03883,43.8088,-71.3200
+03884,43.2754,-71.1700
+03885,43.0150,-70.9026
+03886,43.8640,-71.2961
+03887,43.4830,-71.0706
+03890,43.8150,-71.2094
+03894,43.6104,-71.1778
+03897,43.9069,-71.3276
+03901,43.2993,-70.8421
+03902,43.2149,-70.6288
+03903,43.1466,-70.7744
+03904,43.1100,-70.7338
+03905,43.0049,-70.6044
+03906,43.3523,-70.7794
+03907,43.2564,-70.6128
+03908,43.2306,-70.7524
+03909,43.1665,-70.6790
+03910,43.1730,-70.6097
+03911,43.1357,-70.6378
+04001,43.5367,-70.9402
+04002,43.4891,-70.6619
+04003,43.7337,-69.9714
+04005,43.4921,-70.4866
+04006,43.4440,-70.3429
+04008,44.0442,-69.8638
+04009,44.0475,-70.7433
+04010,43.9308,-70.9186
+04011,43.8964,-69.9735
+04015,43.9520,-70.5132
+04017,43.7353,-70.0810
+04019,43.6904,-70.1103
+04020,43.7672,-70.8089
+04021,43.7918,-70.2648
+04022,43.9962,-70.8137
+04024,43.8363,-70.6852
+04027,43.3999,-70.9128
+04029,43.8875,-70.6554
+04030,43.5891,-70.6963
+04032,43.8448,-70.0900
+04037,44.1017,-70.9428
+04038,43.7014,-70.4630
+04039,43.9049,-70.3677
+04040,44.1429,-70.8249
+04041,43.8490,-70.8308
+04042,43.6310,-70.6144
+04043,43.3959,-70.5702
+04046,43.4298,-70.4741
+04047,43.7334,-70.8940
+04048,43.6885,-70.7819
+04049,43.7458,-70.6998
+04050,43.6873,-70.1538
+04051,44.1925,-70.8858
+04055,43.9758,-70.6393
+04056,43.6606,-70.8587
+04057,44.0956,-70.7018
+04061,43.6347,-70.7436
+04062,43.7947,-70.4053
+04063,43.5004,-70.3953
+04064,43.5251,-70.3883
+04066,43.7657,-69.9669
+04068,43.8379,-70.9466
+04069,43.9039,-70.1820
+04071,43.8912,-70.4971
+04072,43.5504,-70.4663
+04073,43.4119,-70.7373
+04074,43.5896,-70.3662
+04076,43.5540,-70.8328
+04079,43.7908,-69.9810
+04083,43.4641,-70.8143
+04084,43.7621,-70.5667
+04085,43.7786,-70.6276
+04086,43.9650,-69.9556
+04087,43.5686,-70.7443
+04088,44.2028,-70.7223
+04090,43.3314,-70.6456
+04091,43.8393,-70.7448
+04092,43.7079,-70.3526
+04093,43.6363,-70.5388
+04095,43.6286,-70.9139
+04096,43.7881,-70.1565
+04097,43.8456,-70.2413
+04101,43.6626,-70.2579
+04102,43.6544,-70.2976
+04103,43.6954,-70.2887
+04105,43.7405,-70.2772
+04106,43.6314,-70.2860
+04107,43.5872,-70.2365
+04108,43.6368,-70.1868
+04109,43.6633,-70.2220
+04110,43.7414,-70.1814
+04210,44.0845,-70.2496
+04216,44.6797,-70.8465
+04217,44.3930,-70.8374
+04219,44.4007,-70.5581
+04220,44.3426,-70.3474
+04221,44.4906,-70.2945
+04222,43.9560,-70.1324
+04224,44.5614,-70.4137
+04226,44.6255,-70.7082
+04227,44.5687,-70.2948
+04231,44.2631,-70.8755
+04234,44.6163,-70.1938
+04236,44.1898,-70.1451
+04237,44.4945,-70.7344
+04238,44.1908,-70.3843
+04239,44.5169,-70.2022
+04240,44.0895,-70.1721
+04250,44.0222,-70.1174
+04252,44.0367,-70.0588
+04253,44.4116,-70.2162
+04254,44.4453,-70.1381
+04255,44.3327,-70.6606
+04256,44.1049,-70.4047
+04257,44.5532,-70.4950
+04258,44.1379,-70.3363
+04259,44.2335,-70.0147
+04260,43.9575,-70.2960
+04261,44.5656,-70.9627
+04263,44.2954,-70.1331
+04265,44.2806,-70.0373
+04267,44.2248,-70.7709
+04268,44.2259,-70.6100
+04270,44.1173,-70.5275
+04271,44.2610,-70.4987
+04274,44.0481,-70.3936
+04275,44.7026,-70.6476
+04276,44.5599,-70.6253
+04280,44.1168,-70.0626
+04281,44.2480,-70.4908
+04282,44.2671,-70.2465
+04284,44.3399,-70.0472
+04285,44.6886,-70.4541
+04286,44.4032,-70.8602
+04287,44.0734,-69.9707
+04289,44.3193,-70.5226
+04290,44.4609,-70.4519
+04292,44.3808,-70.4486
+04294,44.6379,-70.2754
+04330,44.3519,-69.7476
+04341,44.2600,-69.5549
+04342,44.0862,-69.7370
+04344,44.2605,-69.8278
+04345,44.1951,-69.7938
+04346,44.2373,-69.7512
+04347,44.2872,-69.8180
+04348,44.2109,-69.4992
+04349,44.4340,-70.0670
+04350,44.1721,-69.9345
+04351,44.3424,-69.8619
+04352,44.4665,-69.9604
+04353,44.1980,-69.6197
+04354,44.3961,-69.4306
+04355,44.3844,-69.9502
+04357,44.1168,-69.8296
+04358,44.4145,-69.5353
+04359,44.1795,-69.7613
+04360,44.5548,-69.9997
+04363,44.3155,-69.5712
+04364,44.3100,-69.9631
+04401,44.8485,-68.8504
+04406,45.2292,-69.5965
+04408,44.9869,-68.2100
+04410,45.0883,-68.9067
+04411,44.8945,-68.5468
+04412,44.7845,-68.7346
+04413,45.5659,-67.8154
+04414,45.4129,-69.0898
+04415,45.3530,-69.0583
+04416,44.6238,-68.7497
+04417,45.2143,-68.3889
+04418,45.1163,-68.5092
+04419,44.8005,-69.0031
+04421,44.4090,-68.8155
+04422,45.0777,-69.0314
+04424,45.6692,-67.8627
+04426,45.1863,-69.1455
+04427,44.9805,-69.0107
+04428,44.8058,-68.5540
+04429,44.7212,-68.6171
+04430,45.6536,-68.5973
+04431,44.5645,-68.6677
+04434,44.7639,-69.1281
+04435,44.9632,-69.1250
+04438,44.5989,-68.9283
+04441,45.6879,-69.3085
+04442,45.4732,-69.6965
+04443,45.2381,-69.4019
+04444,44.7290,-68.9500
+04448,45.3159,-68.7396
+04449,44.9926,-68.8885
+04450,44.9159,-68.9279
+04451,45.5774,-68.2118
+04453,45.1914,-68.7877
+04454,45.5156,-67.5340
+04455,45.2994,-68.2597
+04456,44.8768,-68.9967
+04457,45.4455,-68.5345
+04459,45.5887,-68.3400
+04460,45.6409,-68.5248
+04461,44.9934,-68.5759
+04462,45.9958,-68.9283
+04463,45.2868,-68.8951
+04464,45.2972,-69.4991
+04468,45.0283,-68.7192
+04469,44.9025,-68.6662
+04471,45.9165,-67.8568
+04472,44.5763,-68.6699
+04473,44.8817,-68.7386
+04474,44.6888,-68.7628
+04475,45.1930,-68.5948
+04476,44.4827,-68.7060
+04478,45.7282,-69.7680
+04479,45.1242,-69.2871
+04481,45.2427,-69.1046
+04485,45.3480,-69.6025
+04487,45.3877,-68.1045
+04488,44.8716,-69.1139
+04489,44.9108,-68.6912
+04490,45.3942,-67.8283
+04491,45.5623,-67.5211
+04492,45.3368,-67.6688
+04493,45.2781,-68.5356
+04495,45.4774,-68.3390
+04496,44.6508,-68.9089
+04497,45.7266,-68.0584
+04530,43.8880,-69.8267
+04535,44.0985,-69.6292
+04537,43.9023,-69.6273
+04538,43.8475,-69.6296
+04539,43.9735,-69.5020
+04541,43.8867,-69.4841
+04543,44.0224,-69.4908
+04544,43.8199,-69.5920
+04547,43.9786,-69.3326
+04548,43.8333,-69.7491
+04551,43.9845,-69.4355
+04553,44.0523,-69.5675
+04554,43.8627,-69.5123
+04555,44.1012,-69.4827
+04556,43.9760,-69.6110
+04558,43.8882,-69.5191
+04562,43.7708,-69.8192
+04563,44.0139,-69.2587
+04564,43.9288,-69.4697
+04568,43.8862,-69.5580
+04570,43.8085,-69.6308
+04571,43.8967,-69.6742
+04572,44.1221,-69.3834
+04573,43.9514,-69.5523
+04574,44.2606,-69.3915
+04575,43.8522,-69.6622
+04576,43.8133,-69.6629
+04578,43.9824,-69.6928
+04579,43.9597,-69.7694
+04605,44.6858,-68.3948
+04606,44.5407,-67.7124
+04607,44.4670,-68.0869
+04609,44.3975,-68.2638
+04611,44.4636,-67.6220
+04612,44.2617,-68.3814
+04613,44.3688,-68.0276
+04614,44.4005,-68.5200
+04616,44.2757,-68.5347
+04617,44.3650,-68.7271
+04619,45.1430,-67.2175
+04622,44.7518,-67.9648
+04623,44.6992,-67.7136
+04624,44.4240,-67.9859
+04625,44.2507,-68.2097
+04626,44.6690,-67.2220
+04627,44.2305,-68.7918
+04628,44.8740,-67.2744
+04630,44.8665,-67.4748
+04631,44.9109,-67.0092
+04634,44.6200,-68.2204
+04635,44.1128,-68.3575
+04640,44.5246,-68.2853
+04642,44.3306,-68.8099
+04643,44.5399,-67.8270
+04645,44.0666,-68.6158
+04646,44.2600,-68.2286
+04648,44.6545,-67.6315
+04649,44.5599,-67.5042
+04650,44.2967,-68.7153
+04652,44.8197,-67.0623
+04653,44.2014,-68.3274
+04654,44.6898,-67.5001
+04655,44.6558,-67.3790
+04657,44.9821,-67.4435
+04658,44.5072,-67.8778
+04660,44.3358,-68.3457
+04662,44.3069,-68.2872
+04664,44.5437,-68.1356
+04666,44.9611,-67.2206
+04667,44.9835,-67.1014
+04668,45.1956,-67.6941
+04669,44.4117,-67.9983
+04671,45.0673,-67.1500
+04673,44.2964,-68.6677
+04674,44.2570,-68.4582
+04675,44.3003,-68.2458
+04676,44.3469,-68.6344
+04677,44.4729,-68.1809
+04679,44.2797,-68.3182
+04680,44.4784,-67.9471
+04681,44.1505,-68.6453
+04683,44.2359,-68.8239
+04684,44.4675,-68.5073
+04685,44.1580,-68.4420
+04686,44.9965,-67.6940
+04691,44.7603,-67.2550
+04693,44.3764,-68.0936
+04694,45.1151,-67.4775
+04730,46.1910,-67.8610
+04732,46.5710,-68.4915
+04733,45.7431,-68.4109
+04734,46.4854,-67.9229
+04735,46.3788,-68.0269
+04736,46.9115,-68.0292
+04737,46.6164,-69.5219
+04739,46.9773,-68.5990
+04740,46.6333,-67.8476
+04742,46.7762,-67.8592
+04743,47.1608,-68.7311
+04745,47.2741,-68.3982
+04746,47.2510,-68.1430
+04747,45.9677,-68.2084
+04750,46.9550,-67.8574
+04756,47.3217,-68.2982
+04757,46.5720,-68.1991
+04758,46.5593,-67.8532
+04760,46.3336,-67.9176
+04761,46.1172,-67.9756
+04762,46.9764,-68.1150
+04763,46.0739,-68.1135
+04764,46.3669,-68.3410
+04765,46.0772,-68.6714
+04766,46.8925,-68.2158
+04768,46.7968,-69.0545
+04769,46.6890,-67.9919
+04772,47.2357,-68.3173
+04773,47.2674,-68.2230
+04774,47.1240,-69.0146
+04776,45.8184,-68.3111
+04777,45.8445,-68.4726
+04779,47.1162,-68.3077
+04780,46.1707,-68.2670
+04781,47.1502,-68.6135
+04783,47.0357,-68.1871
+04785,47.1201,-68.0358
+04786,46.7949,-68.1921
+04787,46.5335,-67.9661
+04841,44.1341,-69.1326
+04843,44.2384,-69.0640
+04847,44.2412,-69.1885
+04848,44.2989,-68.9152
+04849,44.3164,-69.0264
+04851,43.8591,-68.8793
+04852,43.7674,-69.3101
+04853,44.1363,-68.8668
+04854,44.0463,-69.0925
+04855,43.9319,-69.2877
+04856,44.1806,-69.1221
+04858,44.0465,-69.1541
+04859,43.9966,-69.1595
+04860,43.9443,-69.2432
+04861,44.1077,-69.1714
+04862,44.2627,-69.2777
+04863,44.0688,-68.8533
+04864,44.1280,-69.2439
+04901,44.5411,-69.5731
+04910,44.5084,-69.4452
+04911,44.7797,-69.9707
+04912,44.9653,-69.6669
+04915,44.4635,-69.0376
+04917,44.4877,-69.8386
+04918,44.5503,-69.8665
+04920,45.1056,-69.8052
+04921,44.5810,-69.1436
+04922,44.6740,-69.3865
+04923,45.0445,-69.4499
+04924,44.7822,-69.5463
+04925,45.2124,-69.9034
+04926,44.4803,-69.5152
+04927,44.6655,-69.5408
+04928,44.9470,-69.2589
+04929,44.7731,-69.3015
+04930,45.0282,-69.3265
+04932,44.6976,-69.1437
+04936,45.3550,-70.6574
+04937,44.6517,-69.6613
+04938,44.6619,-70.1031
+04939,45.0773,-69.1588
+04940,44.6180,-70.0788
+04941,44.4701,-69.2842
+04942,45.0425,-69.5933
+04943,44.8798,-69.5205
+04944,44.6869,-69.6439
+04945,45.5766,-70.2779
+04947,45.0468,-70.2693
+04949,44.3691,-69.3360
+04950,44.8264,-69.7997
+04951,44.5981,-69.0585
+04952,44.4128,-69.1548
+04953,44.8672,-69.2188
+04955,44.6472,-69.9933
+04956,44.7986,-70.0968
+04957,44.7143,-69.8635
+04958,44.9091,-69.9272
+04961,45.1520,-70.1607
+04963,44.5890,-69.8873
+04964,44.9436,-70.8265
+04965,44.8432,-69.3684
+04966,44.7856,-70.5354
+04967,44.7698,-69.4338
+04969,44.7853,-69.2363
+04970,45.0079,-70.6182
+04971,44.9380,-69.3972
+04973,44.3683,-69.1863
+04974,44.4709,-68.9287
+04975,44.6254,-69.5883
+04976,44.7893,-69.6677
+04978,44.6418,-69.7999
+04979,44.9394,-69.8081
+04981,44.5140,-68.8391
+04982,45.1075,-70.3940
+04983,44.9256,-70.2865
+04984,44.6966,-70.2672
+04985,45.3771,-69.8990
+04986,44.5495,-69.2113
+04987,44.6741,-69.2518
+04988,44.5701,-69.3624
+04989,44.4293,-69.6483
+04992,44.6598,-70.1561
+05001,43.6837,-72.3760
+05009,43.6479,-72.3440
+05030,43.3991,-72.4080
+05031,43.7211,-72.5805
+05032,43.8015,-72.6577
+05033,43.9967,-72.1758
+05034,43.5916,-72.6197
+05035,43.6116,-72.6860
+05036,44.0239,-72.5879
+05037,43.4576,-72.4842
+05038,43.9912,-72.4573
+05039,44.0633,-72.3131
+05040,44.0699,-72.1986
+05041,43.9566,-72.5386
+05042,44.2440,-72.1108
+05043,43.8059,-72.2121
+05045,43.9180,-72.1802
+05046,44.2325,-72.2575
+05048,43.5806,-72.4277
+05050,44.2641,-72.0638
+05051,44.0820,-72.1169
+05052,43.5970,-72.3597
+05053,43.7137,-72.4849
+05055,43.7776,-72.3240
+05056,43.5088,-72.6936
+05058,43.8816,-72.2723
+05059,43.6382,-72.4304
+05060,43.9671,-72.7086
+05061,43.9284,-72.5732
+05062,43.5031,-72.5795
+05065,43.7909,-72.4165
+05067,43.6846,-72.5401
+05068,43.7808,-72.5481
+05069,44.1696,-72.1426
+05070,43.8516,-72.3433
+05071,43.5637,-72.5648
+05072,43.8834,-72.3870
+05073,43.6284,-72.4616
+05075,43.8454,-72.2861
+05076,44.1450,-72.2240
+05077,43.9088,-72.4593
+05079,43.9568,-72.3265
+05081,44.1372,-72.0902
+05083,43.9184,-72.2678
+05084,43.7297,-72.4515
+05086,44.1089,-72.3007
+05088,43.6754,-72.3067
+05089,43.4956,-72.4423
+05091,43.6483,-72.5506
+05101,43.1615,-72.4856
+05141,43.1588,-72.5602
+05142,43.3976,-72.5803
+05143,43.2527,-72.6431
+05146,43.1849,-72.6340
+05148,43.2449,-72.8106
+05149,43.4019,-72.6992
+05150,43.3372,-72.5291
+05151,43.3953,-72.4970
+05152,43.2329,-72.9374
+05153,43.4396,-72.6365
+05154,43.1338,-72.5286
+05155,43.1751,-72.8234
+05156,43.3106,-72.4616
+05158,43.1090,-72.4735
+05161,43.3214,-72.8029
+05201,42.8692,-73.1285
+05250,43.1036,-73.1732
+05251,43.2654,-73.0817
+05252,43.0819,-73.0668
+05253,43.2618,-72.9980
+05254,43.1600,-73.0671
+05255,43.1378,-73.0237
+05257,42.9695,-73.2627
+05260,42.8116,-73.2626
+05261,42.7689,-73.2113
+05262,42.9737,-73.0753
+05301,42.8387,-72.6600
+05340,43.1689,-72.9727
+05341,42.9745,-72.8011
+05342,42.7775,-72.7948
+05343,43.1027,-72.8203
+05344,42.8389,-72.7327
+05345,42.9875,-72.6647
+05346,43.0377,-72.5365
+05350,42.7909,-72.9726
+05351,42.9302,-72.7270
+05352,42.8083,-73.0763
+05353,43.0693,-72.6805
+05354,42.7641,-72.5221
+05355,43.0195,-72.8121
+05356,42.9759,-72.8646
+05358,42.7764,-72.7296
+05359,43.1507,-72.7248
+05360,43.0418,-72.9506
+05361,42.7873,-72.8778
+05362,42.9352,-72.6604
+05363,42.8844,-72.9009
+05401,44.4752,-73.2179
+05403,44.4449,-73.1735
+05404,44.4956,-73.1849
+05405,44.4742,-73.1964
+05408,44.5052,-73.2724
+05439,44.4957,-73.1652
+05440,44.9579,-73.2920
+05441,44.7738,-72.7873
+05442,44.7725,-72.6904
+05443,44.1395,-73.0398
+05444,44.6205,-72.8873
+05445,44.3057,-73.2356
+05446,44.5541,-73.2255
+05447,44.9422,-72.7032
+05448,44.7574,-72.8783
+05450,44.8946,-72.7952
+05452,44.5272,-73.0647
+05454,44.7103,-73.0289
+05455,44.8017,-72.9674
+05456,44.2139,-73.2621
+05457,44.9587,-72.9220
+05458,44.7163,-73.2996
+05459,44.9565,-73.0172
+05461,44.3223,-73.0945
+05462,44.2994,-72.9549
+05463,44.8713,-73.3492
+05464,44.6778,-72.8148
+05465,44.4664,-72.9198
+05468,44.6459,-73.1592
+05471,44.8280,-72.5777
+05472,44.1130,-73.1584
+05473,44.2418,-73.1947
+05474,44.8351,-73.2257
+05476,44.9552,-72.6431
+05477,44.3820,-72.9796
+05478,44.7916,-73.1178
+05481,44.8083,-73.1396
+05482,44.3927,-73.2434
+05483,44.8897,-72.9809
+05485,44.9040,-72.9757
+05486,44.6271,-73.3092
+05487,44.2103,-72.9934
+05488,44.9234,-73.1443
+05489,44.5677,-72.9028
+05491,44.1198,-73.3269
+05492,44.7379,-72.7623
+05494,44.6033,-73.0160
+05495,44.4292,-73.0963
+05602,44.2926,-72.6247
+05640,44.3403,-72.4975
+05641,44.1855,-72.4536
+05647,44.4091,-72.2937
+05648,44.3833,-72.4925
+05649,44.1389,-72.3706
+05650,44.4004,-72.4382
+05651,44.2823,-72.4893
+05652,44.7239,-72.6104
+05653,44.7149,-72.4727
+05654,44.1384,-72.4867
+05655,44.6243,-72.5704
+05656,44.6481,-72.6888
+05658,44.3650,-72.3549
+05660,44.2616,-72.7654
+05661,44.5323,-72.6203
+05663,44.1476,-72.6912
+05664,44.1671,-72.6532
+05666,44.3382,-72.4389
+05667,44.2787,-72.4024
+05669,44.0533,-72.7556
+05670,44.1772,-72.5061
+05672,44.4918,-72.7126
+05673,44.1991,-72.8409
+05674,44.1125,-72.8740
+05675,44.0762,-72.4226
+05676,44.2992,-72.8472
+05677,44.4019,-72.6982
+05678,44.1573,-72.4776
+05679,44.1089,-72.5319
+05680,44.5411,-72.4729
+05681,44.4581,-72.3791
+05682,44.3933,-72.5635
+05701,43.6246,-72.9102
+05730,43.3884,-72.7853
+05731,43.7521,-73.2941
+05732,43.6466,-73.2114
+05733,43.8105,-73.0903
+05734,43.9817,-73.3319
+05735,43.6528,-73.1612
+05736,43.6082,-73.0144
+05737,43.7777,-72.8969
+05738,43.5234,-72.8602
+05739,43.3449,-73.0287
+05742,43.4201,-72.9108
+05743,43.6776,-73.3048
+05744,43.6940,-73.0805
+05746,43.7189,-72.7901
+05747,44.0037,-72.8582
+05748,43.9054,-72.9182
+05751,43.6576,-72.7844
+05753,43.9978,-73.1783
+05757,43.4827,-73.1240
+05758,43.4515,-72.7934
+05759,43.5321,-72.9648
+05760,43.8006,-73.2897
+05761,43.3346,-73.1393
+05762,43.8042,-72.8369
+05763,43.7302,-72.9953
+05764,43.5283,-73.1943
+05765,43.6483,-73.0344
+05766,43.9849,-72.9968
+05767,43.8794,-72.8317
+05768,43.2969,-73.2192
+05769,43.9321,-73.1198
+05770,43.8902,-73.3299
+05772,43.7644,-72.7392
+05773,43.4271,-72.9499
+05774,43.4287,-73.1703
+05775,43.3543,-73.2221
+05776,43.2529,-73.1973
+05777,43.5564,-73.0489
+05778,43.8764,-73.2126
+05819,44.4047,-71.9831
+05820,44.7632,-72.3752
+05821,44.3188,-72.1089
+05822,44.7543,-72.1597
+05824,44.4391,-71.8261
+05825,44.8584,-72.2528
+05826,44.6349,-72.4061
+05827,44.6767,-72.3626
+05828,44.4375,-72.1248
+05829,44.9673,-72.0681
+05830,44.9721,-71.9870
+05832,44.5941,-71.8987
+05833,44.8374,-71.9775
+05836,44.5186,-72.2308
+05837,44.6638,-71.8052
+05839,44.6737,-72.2070
+05840,44.5987,-71.7472
+05841,44.6178,-72.2893
+05842,44.5901,-72.2451
+05843,44.5034,-72.3416
+05845,44.8001,-72.3319
+05846,44.8167,-71.8353
+05847,44.7934,-72.4585
+05850,44.5638,-72.0357
+05851,44.5463,-72.0489
+05853,44.8961,-71.9412
+05855,44.9270,-72.1924
+05857,44.9289,-72.3127
+05858,44.5382,-71.8008
+05859,44.9583,-72.4382
+05860,44.8027,-72.1040
+05862,44.3182,-72.2161
+05866,44.6407,-72.1109
+05867,44.6651,-72.0360
+05868,44.9423,-72.3542
+05871,44.6823,-71.9527
+05872,44.8710,-72.0250
+05873,44.4051,-72.2167
+05874,44.8835,-72.4849
+05875,44.7054,-72.2709
+05901,44.9407,-71.6546
+05902,45.0096,-71.4879
+05903,44.9350,-71.5881
+05904,44.4162,-71.7069
+05905,44.7028,-71.6778
+05906,44.4831,-71.7204
+05907,44.9547,-71.8273
+06001,41.7940,-72.8540
+06002,41.8467,-72.7370
+06010,41.6816,-72.9407
+06013,41.7491,-72.9487
+06016,41.9019,-72.5474
+06018,42.0367,-73.3116
+06019,41.8575,-72.9028
+06020,41.8628,-72.9099
+06021,42.0058,-73.0642
+06022,41.8659,-72.9275
+06023,41.6126,-72.7201
+06024,42.0082,-73.2837
+06026,41.9297,-72.7454
+06027,42.0049,-72.9157
+06029,41.9141,-72.4456
+06031,41.9553,-73.3168
+06032,41.7311,-72.8571
+06033,41.7075,-72.5389
+06035,41.9606,-72.8046
+06037,41.6055,-72.7785
+06039,41.9620,-73.4444
+06040,41.7614,-72.5256
+06042,41.8026,-72.5210
+06043,41.7646,-72.4376
+06051,41.6652,-72.7699
+06052,41.6556,-72.8031
+06053,41.6901,-72.7919
+06057,41.8411,-72.9987
+06058,41.9698,-73.1784
+06059,41.8905,-72.8883
+06060,42.0147,-72.8593
+06061,41.8752,-72.9670
+06062,41.6736,-72.8597
+06063,41.9357,-72.9729
+06065,41.9747,-73.0077
+06066,41.8376,-72.4590
+06067,41.6566,-72.6618
+06068,42.0072,-73.4222
+06069,41.8608,-73.4492
+06070,41.8747,-72.8138
+06071,41.9926,-72.4537
+06072,41.9847,-72.4876
+06073,41.6606,-72.5685
+06074,41.8381,-72.5778
+06076,41.9844,-72.2635
+06078,41.9916,-72.6518
+06079,42.0418,-73.3975
+06080,41.9505,-72.6352
+06081,41.9076,-72.7682
+06082,41.9840,-72.5556
+06084,41.8830,-72.3589
+06085,41.7489,-72.8894
+06088,41.9179,-72.5834
+06089,41.8353,-72.8243
+06090,41.9469,-72.8640
+06091,42.0265,-72.9802
+06092,41.8735,-72.8605
+06093,42.0132,-72.7173
+06095,41.8738,-72.6768
+06096,41.9278,-72.6516
+06098,41.9272,-73.1093
+06103,41.7651,-72.6708
+06105,41.7733,-72.7044
+06106,41.7486,-72.6960
+06107,41.7520,-72.7594
+06108,41.7804,-72.6239
+06109,41.7025,-72.6693
+06110,41.7325,-72.7338
+06111,41.6868,-72.7306
+06112,41.7933,-72.6958
+06114,41.7409,-72.6707
+06117,41.7891,-72.7631
+06118,41.7487,-72.6095
+06119,41.7635,-72.7271
+06120,41.7872,-72.6648
+06226,41.7082,-72.2085
+06231,41.6329,-72.3673
+06232,41.7330,-72.3747
+06234,41.7939,-71.9533
+06235,41.7909,-72.1295
+06237,41.6937,-72.3057
+06238,41.7802,-72.3438
+06239,41.7940,-71.8545
+06241,41.8539,-71.8474
+06242,41.8956,-72.0933
+06243,41.8449,-71.8050
+06247,41.7678,-72.0750
+06248,41.6886,-72.4087
+06249,41.6330,-72.2401
+06250,41.7730,-72.1984
+06254,41.6212,-72.1426
+06255,41.9911,-71.9020
+06256,41.7322,-72.1574
+06258,41.8857,-71.9635
+06259,41.8715,-71.9876
+06260,41.9080,-71.8705
+06262,42.0193,-71.9484
+06263,41.8373,-71.9042
+06264,41.6986,-72.1048
+06266,41.6737,-72.1728
+06268,41.7988,-72.2484
+06269,41.8089,-72.2516
+06277,41.9584,-71.8439
+06278,41.8971,-72.1714
+06279,41.8973,-72.2518
+06280,41.6910,-72.1301
+06281,41.9735,-72.0141
+06282,41.9489,-72.0848
+06320,41.3488,-72.1020
+06330,41.6356,-72.0775
+06331,41.6940,-72.0091
+06332,41.7228,-71.9024
+06333,41.3860,-72.2291
+06334,41.5449,-72.1738
+06335,41.4347,-72.0585
+06336,41.5806,-72.1959
+06338,41.4646,-71.9728
+06339,41.4419,-71.9905
+06340,41.3544,-72.0403
+06350,41.6483,-72.0692
+06351,41.5898,-71.9484
+06353,41.4560,-72.1390
+06354,41.7088,-71.8554
+06355,41.3657,-71.9720
+06357,41.3177,-72.2186
+06359,41.4710,-71.8725
+06360,41.5480,-72.0895
+06365,41.5187,-72.0066
+06370,41.4671,-72.1894
+06371,41.3624,-72.3238
+06373,41.6854,-71.8054
+06374,41.6797,-71.9122
+06375,41.4063,-72.1232
+06376,41.2945,-72.2529
+06377,41.7305,-71.8193
+06378,41.3832,-71.9084
+06379,41.3635,-71.8532
+06380,41.5634,-72.0516
+06382,41.4626,-72.1249
+06384,41.5792,-71.8312
+06385,41.3617,-72.1566
+06387,41.7441,-71.9099
+06389,41.5604,-72.1235
+06390,41.2879,-71.9326
+06401,41.3442,-73.0698
+06403,41.4437,-73.0519
+06405,41.2799,-72.7859
+06409,41.3481,-72.4294
+06410,41.5118,-72.9036
+06412,41.4117,-72.4871
+06413,41.2956,-72.5291
+06414,41.5770,-72.5523
+06415,41.5503,-72.3486
+06416,41.6166,-72.6616
+06417,41.3678,-72.4774
+06418,41.3261,-73.0826
+06419,41.3744,-72.5783
+06420,41.4894,-72.2584
+06422,41.4689,-72.6845
+06423,41.4566,-72.3914
+06424,41.5602,-72.5028
+06426,41.3511,-72.3972
+06437,41.3318,-72.6968
+06438,41.4508,-72.5099
+06439,41.4157,-72.3997
+06441,41.4656,-72.5826
+06442,41.3421,-72.4341
+06443,41.3445,-72.6245
+06444,41.5634,-72.9303
+06447,41.6364,-72.4540
+06450,41.5358,-72.7757
+06451,41.5419,-72.8234
+06455,41.5142,-72.7178
+06456,41.5397,-72.5483
+06457,41.5442,-72.6575
+06459,41.5499,-72.6615
+06460,41.2188,-73.0456
+06461,41.2399,-73.0754
+06467,41.5655,-72.9002
+06468,41.3392,-73.2228
+06469,41.5069,-72.4483
+06470,41.3951,-73.3177
+06471,41.3338,-72.7719
+06472,41.3934,-72.7719
+06473,41.3815,-72.8564
+06475,41.2999,-72.3827
+06477,41.2850,-73.0246
+06478,41.4440,-73.1482
+06479,41.5747,-72.9119
+06480,41.5988,-72.5891
+06481,41.5367,-72.6979
+06482,41.4090,-73.2426
+06483,41.3855,-73.0836
+06484,41.3046,-73.1392
+06488,41.4760,-73.2297
+06489,41.6142,-72.8699
+06492,41.4627,-72.8051
+06498,41.3037,-72.4780
+06510,41.3062,-72.9266
+06511,41.3173,-72.9264
+06512,41.2783,-72.8753
+06513,41.3189,-72.8690
+06514,41.3768,-72.9428
+06515,41.3280,-72.9708
+06516,41.2726,-72.9650
+06517,41.3494,-72.9071
+06518,41.4309,-72.9120
+06519,41.2931,-72.9321
+06524,41.4230,-72.9942
+06525,41.3635,-73.0039
+06604,41.1544,-73.2109
+06605,41.1616,-73.2176
+06606,41.2121,-73.2067
+06607,41.1707,-73.1680
+06608,41.1865,-73.1813
+06610,41.2092,-73.1647
+06611,41.2729,-73.2119
+06612,41.2649,-73.3005
+06614,41.2285,-73.1291
+06615,41.1630,-73.1281
+06702,41.5565,-73.0459
+06704,41.5887,-73.0353
+06705,41.5497,-72.9934
+06706,41.5322,-73.0251
+06708,41.5506,-73.0712
+06710,41.5696,-73.0460
+06712,41.4992,-72.9756
+06716,41.5950,-72.9685
+06750,41.7239,-73.2629
+06751,41.6358,-73.2114
+06752,41.5203,-73.3611
+06753,41.8252,-73.3446
+06754,41.7546,-73.3682
+06755,41.6493,-73.4801
+06756,41.8471,-73.2378
+06757,41.7397,-73.4673
+06758,41.6763,-73.2274
+06759,41.7606,-73.2192
+06762,41.5247,-73.1230
+06763,41.6943,-73.2100
+06770,41.4886,-73.0518
+06776,41.6013,-73.4228
+06777,41.6913,-73.3344
+06778,41.7185,-73.1045
+06779,41.5961,-73.0814
+06782,41.6427,-73.0415
+06783,41.5555,-73.2960
+06784,41.5794,-73.4977
+06785,41.7085,-73.4495
+06786,41.6727,-73.0180
+06787,41.6711,-73.0850
+06790,41.8342,-73.1315
+06791,41.7613,-73.0604
+06793,41.6337,-73.2889
+06794,41.6493,-73.3251
+06795,41.6239,-73.1262
+06796,41.8740,-73.3336
+06798,41.5616,-73.2061
+06801,41.3698,-73.3895
+06804,41.4632,-73.3933
+06807,41.0567,-73.5920
+06810,41.3778,-73.4575
+06811,41.4226,-73.4784
+06812,41.4803,-73.4869
+06820,41.0762,-73.4801
+06824,41.1730,-73.2808
+06825,41.1966,-73.2433
+06830,41.0376,-73.6243
+06831,41.0887,-73.6588
+06840,41.1604,-73.5001
+06850,41.1274,-73.4453
+06851,41.1382,-73.4015
+06853,41.0661,-73.4380
+06854,41.0909,-73.4288
+06855,41.0717,-73.3900
+06870,41.0244,-73.5712
+06877,41.3177,-73.4998
+06878,41.0301,-73.5837
+06880,41.1428,-73.3436
+06883,41.2274,-73.3671
+06890,41.1486,-73.2878
+06896,41.3054,-73.3926
+06897,41.2113,-73.4410
+06901,41.0536,-73.5384
+06902,41.0593,-73.5444
+06903,41.1360,-73.5711
+06905,41.0878,-73.5436
+06906,41.0723,-73.5222
+06907,41.1014,-73.5196
+07001,40.5840,-74.2697
+07002,40.6625,-74.1102
+07003,40.8091,-74.1871
+07004,40.8825,-74.3046
+07005,40.9303,-74.4111
+07006,40.8512,-74.2829
+07008,40.5838,-74.2275
+07009,40.8580,-74.2298
+07010,40.8221,-73.9879
+07011,40.8804,-74.1432
+07012,40.8469,-74.1605
+07013,40.8694,-74.1731
+07014,40.8313,-74.1354
+07016,40.6576,-74.3036
+07017,40.7719,-74.2071
+07018,40.7557,-74.2179
+07020,40.8246,-73.9738
+07021,40.8281,-74.2762
+07022,40.8211,-74.0030
+07023,40.6417,-74.3857
+07024,40.8506,-73.9710
+07026,40.8798,-74.1082
+07027,40.6513,-74.3232
+07028,40.8048,-74.2046
+07029,40.7436,-74.1549
+07030,40.7453,-74.0279
+07031,40.7863,-74.1262
+07032,40.7523,-74.1231
+07033,40.6781,-74.2881
+07034,40.8795,-74.3801
+07035,40.9275,-74.3083
+07036,40.6247,-74.2394
+07039,40.7858,-74.3291
+07040,40.7336,-74.2712
+07041,40.7224,-74.3015
+07042,40.8135,-74.2190
+07043,40.8448,-74.2005
+07044,40.8325,-74.2429
+07045,40.9069,-74.3656
+07046,40.8909,-74.4420
+07047,40.7936,-74.0250
+07050,40.7680,-74.2357
+07052,40.7858,-74.2651
+07054,40.8538,-74.4016
+07055,40.8576,-74.1291
+07057,40.8531,-74.1063
+07058,40.8699,-74.3442
+07059,40.6346,-74.5190
+07060,40.6167,-74.4220
+07062,40.6313,-74.4039
+07063,40.6051,-74.4445
+07064,40.5674,-74.2449
+07065,40.6072,-74.2805
+07066,40.6206,-74.3099
+07067,40.5893,-74.3114
+07068,40.8217,-74.3101
+07069,40.6428,-74.4362
+07070,40.8203,-74.1060
+07071,40.7971,-74.1130
+07072,40.8264,-74.0623
+07073,40.8171,-74.0850
+07074,40.8381,-74.0551
+07075,40.8502,-74.0871
+07076,40.6330,-74.3729
+07077,40.5541,-74.2531
+07078,40.7423,-74.3276
+07079,40.7488,-74.2615
+07080,40.5744,-74.4148
+07081,40.6980,-74.3344
+07082,40.9267,-74.3455
+07083,40.6953,-74.2691
+07086,40.7680,-74.0170
+07087,40.7672,-74.0324
+07088,40.7183,-74.2838
+07090,40.6516,-74.3434
+07092,40.6807,-74.3603
+07093,40.7867,-74.0089
+07094,40.7820,-74.0676
+07095,40.5529,-74.2869
+07102,40.7357,-74.1736
+07103,40.7389,-74.1953
+07104,40.7677,-74.1684
+07105,40.7231,-74.1386
+07106,40.7418,-74.2305
+07107,40.7629,-74.1866
+07108,40.7231,-74.2004
+07109,40.7935,-74.1612
+07110,40.8206,-74.1563
+07111,40.7239,-74.2325
+07112,40.7114,-74.2117
+07114,40.6978,-74.1708
+07201,40.6713,-74.1774
+07202,40.6525,-74.2169
+07203,40.6522,-74.2602
+07204,40.6653,-74.2666
+07205,40.6959,-74.2288
+07206,40.6521,-74.1838
+07208,40.6729,-74.2240
+07302,40.7188,-74.0446
+07304,40.7173,-74.0764
+07305,40.6930,-74.0696
+07306,40.7363,-74.0711
+07307,40.7518,-74.0540
+07310,40.7285,-74.0337
+07311,40.7191,-74.0326
+07401,41.0327,-74.1338
+07403,41.0208,-74.3328
+07405,40.9878,-74.3782
+07407,40.9045,-74.1195
+07410,40.9358,-74.1175
+07416,41.1090,-74.5886
+07417,41.0075,-74.2057
+07418,41.2422,-74.4861
+07419,41.1542,-74.5700
+07420,41.0293,-74.3028
+07421,41.1737,-74.3526
+07422,41.1738,-74.4470
+07423,40.9995,-74.0966
+07424,40.8823,-74.2059
+07430,41.0821,-74.1831
+07432,40.9958,-74.1413
+07435,41.0408,-74.4419
+07436,41.0310,-74.2405
+07438,41.0298,-74.5218
+07439,41.0801,-74.5976
+07440,40.9465,-74.2930
+07442,41.0027,-74.2867
+07444,40.9674,-74.3070
+07446,41.0591,-74.1459
+07450,40.9816,-74.1135
+07452,40.9595,-74.1252
+07456,41.0970,-74.2629
+07457,40.9959,-74.3145
+07458,41.0467,-74.0965
+07460,41.1143,-74.4938
+07461,41.2470,-74.6105
+07462,41.1985,-74.4956
+07463,41.0134,-74.1252
+07465,41.0493,-74.2923
+07470,40.9459,-74.2451
+07480,41.0859,-74.3784
+07481,40.9991,-74.1688
+07501,40.9120,-74.1710
+07502,40.9197,-74.1950
+07503,40.8975,-74.1541
+07504,40.9124,-74.1407
+07505,40.9170,-74.1719
+07506,40.9570,-74.1586
+07508,40.9550,-74.1837
+07512,40.9034,-74.2198
+07513,40.9046,-74.1490
+07514,40.9248,-74.1445
+07522,40.9236,-74.1792
+07524,40.9317,-74.1569
+07601,40.8894,-74.0457
+07603,40.8743,-74.0297
+07604,40.8615,-74.0731
+07605,40.8634,-73.9885
+07606,40.8648,-74.0481
+07607,40.9029,-74.0635
+07608,40.8496,-74.0619
+07620,40.9688,-73.9169
+07621,40.9223,-73.9980
+07624,40.9729,-73.9603
+07626,40.9400,-73.9583
+07627,40.9541,-73.9549
+07628,40.9452,-73.9924
+07630,40.9750,-74.0232
+07631,40.8912,-73.9725
+07632,40.8846,-73.9447
+07640,40.9917,-73.9802
+07641,40.9627,-73.9975
+07642,41.0071,-74.0451
+07643,40.8434,-74.0342
+07644,40.8779,-74.0825
+07645,41.0546,-74.0473
+07646,40.9342,-74.0195
+07647,41.0094,-73.9420
+07648,40.9920,-73.9506
+07649,40.9567,-74.0329
+07650,40.8470,-73.9971
+07652,40.9473,-74.0702
+07656,41.0362,-74.0443
+07657,40.8327,-74.0141
+07660,40.8547,-74.0199
+07661,40.9274,-74.0396
+07662,40.9065,-74.0780
+07663,40.9031,-74.0936
+07666,40.8903,-74.0115
+07670,40.9183,-73.9505
+07675,41.0035,-74.0018
+07676,40.9883,-74.0647
+07677,41.0260,-74.0611
+07701,40.3605,-74.0790
+07702,40.3265,-74.0574
+07703,40.3143,-74.0467
+07704,40.3619,-74.0388
+07711,40.2376,-74.0067
+07712,40.2469,-74.0545
+07716,40.4024,-74.0363
+07717,40.1914,-74.0151
+07718,40.4199,-74.0852
+07719,40.1689,-74.0732
+07720,40.2016,-74.0121
+07721,40.4353,-74.2360
+07722,40.2878,-74.1668
+07723,40.2497,-74.0005
+07724,40.2986,-74.0742
+07726,40.2865,-74.3425
+07727,40.2055,-74.1575
+07728,40.2258,-74.2858
+07730,40.4242,-74.1737
+07731,40.1495,-74.2040
+07732,40.4305,-73.9904
+07733,40.3750,-74.1738
+07734,40.4442,-74.1368
+07735,40.4500,-74.2235
+07737,40.4067,-74.0638
+07738,40.3354,-74.1327
+07739,40.3370,-74.0345
+07740,40.2954,-73.9899
+07746,40.3235,-74.2546
+07747,40.4132,-74.2577
+07748,40.3963,-74.1153
+07750,40.3359,-73.9856
+07751,40.3597,-74.2615
+07753,40.2108,-74.0745
+07755,40.2635,-74.0236
+07756,40.2118,-74.0069
+07757,40.3160,-74.0176
+07758,40.4342,-74.1007
+07760,40.3715,-74.0039
+07762,40.1534,-74.0337
+07764,40.2879,-74.0200
+07801,40.9011,-74.5648
+07803,40.8781,-74.6012
+07820,40.9287,-74.7989
+07821,40.9660,-74.7547
+07822,41.1388,-74.7083
+07823,40.8233,-75.0460
+07825,40.9830,-74.9620
+07826,41.1635,-74.8154
+07827,41.2810,-74.7305
+07828,40.8850,-74.7557
+07830,40.7193,-74.7940
+07831,40.7392,-74.9468
+07832,40.9446,-75.0673
+07833,40.8928,-75.0694
+07834,40.8865,-74.4876
+07836,40.8439,-74.7098
+07838,40.8879,-74.9117
+07840,40.8600,-74.8318
+07842,40.9446,-74.5009
+07843,40.9392,-74.6595
+07844,40.9086,-74.9696
+07846,40.9668,-74.8768
+07847,40.8874,-74.6197
+07848,41.0979,-74.6802
+07849,40.9641,-74.6126
+07850,40.9068,-74.6594
+07851,41.2004,-74.8564
+07852,40.8833,-74.6680
+07853,40.7874,-74.7821
+07856,40.9164,-74.6268
+07857,40.8979,-74.6934
+07860,41.0573,-74.8027
+07863,40.8076,-74.9575
+07865,40.7938,-74.8983
+07866,40.9550,-74.4880
+07869,40.8416,-74.5785
+07870,40.8042,-74.8207
+07871,41.0467,-74.6280
+07874,40.9289,-74.7095
+07876,40.8545,-74.6574
+07878,40.8716,-74.4782
+07880,40.8800,-74.8763
+07881,41.1233,-74.9344
+07882,40.7554,-75.0109
+07885,40.9105,-74.5999
+07901,40.7149,-74.3664
+07920,40.6823,-74.5541
+07921,40.6560,-74.6787
+07922,40.6766,-74.4270
+07924,40.7258,-74.5912
+07926,40.8013,-74.5701
+07927,40.8237,-74.4564
+07928,40.7250,-74.4151
+07930,40.7813,-74.6836
+07931,40.6814,-74.6165
+07932,40.7775,-74.3928
+07933,40.6952,-74.4569
+07934,40.7297,-74.6665
+07935,40.7354,-74.4513
+07936,40.8186,-74.3637
+07939,40.6673,-74.5522
+07940,40.7605,-74.4195
+07945,40.7807,-74.6018
+07946,40.6777,-74.5085
+07950,40.8460,-74.4823
+07960,40.7792,-74.5025
+07961,40.7811,-74.4352
+07970,40.8094,-74.5716
+07974,40.6969,-74.4039
+07976,40.7281,-74.4793
+07977,40.7113,-74.6516
+07979,40.7112,-74.7306
+07980,40.6762,-74.4945
+07981,40.8244,-74.4262
+08001,39.5479,-75.3464
+08002,39.9346,-75.0254
+08003,39.8859,-74.9711
+08004,39.7553,-74.8305
+08005,39.7558,-74.3066
+08006,39.7535,-74.1050
+08007,39.8651,-75.0538
+08008,39.6235,-74.2061
+08009,39.7607,-74.9329
+08010,40.0535,-74.9184
+08011,39.9753,-74.7138
+08012,39.7838,-75.0561
+08014,39.8129,-75.3673
+08015,39.9315,-74.5437
+08016,40.0681,-74.8329
+08019,39.7656,-74.5301
+08020,39.7942,-75.2222
+08021,39.8062,-75.0000
+08022,40.0676,-74.7057
+08023,39.6881,-75.4969
+08026,39.8336,-74.9690
+08027,39.8285,-75.2944
+08028,39.6921,-75.1247
+08029,39.8409,-75.0672
+08030,39.8896,-75.1185
+08031,39.8664,-75.0947
+08032,39.7805,-75.0596
+08033,39.8924,-75.0367
+08034,39.9061,-75.0004
+08035,39.8791,-75.0659
+08036,39.9780,-74.8363
+08037,39.6317,-74.7739
+08038,39.4700,-75.4903
+08039,39.6857,-75.2773
+08041,40.0385,-74.6841
+08042,40.0137,-74.6620
+08043,39.8486,-74.9528
+08045,39.8672,-75.0292
+08046,40.0279,-74.8870
+08048,39.9539,-74.8030
+08049,39.8546,-75.0381
+08050,39.7121,-74.2319
+08051,39.7840,-75.1760
+08052,39.9524,-74.9949
+08053,39.8567,-74.9008
+08054,39.9490,-74.9002
+08055,39.8627,-74.8223
+08056,39.7837,-75.2553
+08057,39.9797,-74.9413
+08059,39.8848,-75.0927
+08060,40.0100,-74.7922
+08061,39.7989,-75.2054
+08062,39.7161,-75.2193
+08063,39.8673,-75.1856
+08064,39.9374,-74.6163
+08065,40.0026,-75.0353
+08066,39.8352,-75.2335
+08067,39.7392,-75.4114
+08068,39.9614,-74.6659
+08069,39.7031,-75.4507
+08070,39.6191,-75.5161
+08071,39.7317,-75.1343
+08072,39.5447,-75.4126
+08073,40.0095,-74.8668
+08074,39.7162,-75.1634
+08075,40.0297,-74.9490
+08077,40.0002,-74.9916
+08078,39.8534,-75.0755
+08079,39.5424,-75.4317
+08080,39.7574,-75.1220
+08081,39.7329,-74.9767
+08083,39.8413,-75.0286
+08084,39.8290,-75.0155
+08085,39.7538,-75.3310
+08086,39.8512,-75.1857
+08087,39.6040,-74.3822
+08088,39.8373,-74.6953
+08089,39.7131,-74.8310
+08090,39.7980,-75.1485
+08091,39.8071,-74.9242
+08092,39.6472,-74.2846
+08093,39.8616,-75.1330
+08094,39.6506,-74.9593
+08095,39.6493,-74.8580
+08096,39.8294,-75.1290
+08097,39.8133,-75.1506
+08098,39.6393,-75.3298
+08102,39.9521,-75.1211
+08103,39.9352,-75.1127
+08104,39.9165,-75.1114
+08105,39.9503,-75.0963
+08106,39.8910,-75.0733
+08107,39.9087,-75.0844
+08108,39.9150,-75.0622
+08109,39.9493,-75.0495
+08110,39.9719,-75.0579
+08201,39.4236,-74.4930
+08202,39.0966,-74.7398
+08203,39.4217,-74.3929
+08204,38.9717,-74.9161
+08205,39.4820,-74.4526
+08210,39.1192,-74.8232
+08212,38.9404,-74.9643
+08215,39.5901,-74.5820
+08217,39.5770,-74.7188
+08221,39.3399,-74.5645
+08223,39.2695,-74.6571
+08224,39.5993,-74.4674
+08225,39.3583,-74.5363
+08226,39.2638,-74.6078
+08230,39.2011,-74.7068
+08232,39.3875,-74.5152
+08234,39.3884,-74.6207
+08240,39.4881,-74.5340
+08241,39.5348,-74.4761
+08242,39.0174,-74.8869
+08243,39.1510,-74.6963
+08244,39.3155,-74.5983
+08245,39.1765,-74.8190
+08246,39.1810,-74.7658
+08247,39.0490,-74.7862
+08248,39.1950,-74.6575
+08251,39.0288,-74.9289
+08260,38.9983,-74.8433
+08270,39.2614,-74.8091
+08302,39.4386,-75.2606
+08310,39.5314,-74.8968
+08311,39.3279,-75.2040
+08312,39.6614,-75.0839
+08314,39.2161,-74.9377
+08316,39.2802,-74.9374
+08317,39.4007,-74.8296
+08318,39.5577,-75.1777
+08319,39.3704,-74.8108
+08320,39.3851,-75.1606
+08321,39.2236,-75.1432
+08322,39.6111,-75.0488
+08323,39.3963,-75.3676
+08324,39.2258,-75.0040
+08326,39.5384,-74.9277
+08327,39.2556,-74.9495
+08328,39.5797,-75.0564
+08329,39.2869,-75.0057
+08330,39.4693,-74.7472
+08332,39.3662,-75.0269
+08340,39.3933,-74.9073
+08341,39.5215,-74.9587
+08343,39.6363,-75.1676
+08344,39.5617,-74.9860
+08345,39.2885,-75.1436
+08346,39.5695,-74.8521
+08348,39.3099,-74.9714
+08349,39.2609,-75.0593
+08350,39.4907,-74.8736
+08352,39.4754,-75.1272
+08353,39.4624,-75.2924
+08360,39.4924,-75.0034
+08361,39.4494,-74.9588
+08401,39.3773,-74.4511
+08402,39.3264,-74.5045
+08403,39.3185,-74.5424
+08406,39.3420,-74.4826
+08501,40.1663,-74.5525
+08502,40.4482,-74.6532
+08505,40.1356,-74.7073
+08510,40.1872,-74.4250
+08511,40.0437,-74.5477
+08512,40.3244,-74.5255
+08514,40.1342,-74.4917
+08515,40.1192,-74.6629
+08518,40.1155,-74.8040
+08520,40.2581,-74.5393
+08525,40.3977,-74.7795
+08527,40.1087,-74.3586
+08528,40.3871,-74.6189
+08530,40.3700,-74.9102
+08533,40.0156,-74.4851
+08534,40.3294,-74.7928
+08535,40.2319,-74.4320
+08536,40.3331,-74.5866
+08540,40.3647,-74.6563
+08542,40.3545,-74.6606
+08544,40.3465,-74.6578
+08550,40.2800,-74.6221
+08551,40.4471,-74.8373
+08553,40.4003,-74.6389
+08554,40.1130,-74.7811
+08555,40.2207,-74.4702
+08558,40.4134,-74.7037
+08559,40.4390,-74.9836
+08560,40.3155,-74.8570
+08561,40.2474,-74.5813
+08562,40.0620,-74.5919
+08608,40.2191,-74.7668
+08609,40.2257,-74.7409
+08610,40.1936,-74.7160
+08611,40.1836,-74.7403
+08618,40.2493,-74.7900
+08619,40.2423,-74.6964
+08620,40.1701,-74.6513
+08628,40.2644,-74.8270
+08629,40.2206,-74.7312
+08638,40.2540,-74.7634
+08640,40.0140,-74.5750
+08641,40.0280,-74.5878
+08648,40.2845,-74.7175
+08690,40.2258,-74.6601
+08691,40.2083,-74.6009
+08701,40.0771,-74.1985
+08720,40.1450,-74.1255
+08721,39.9074,-74.1848
+08722,39.9284,-74.2022
+08723,40.0386,-74.1116
+08724,40.0910,-74.1144
+08730,40.1084,-74.0622
+08731,39.8599,-74.2927
+08732,39.9418,-74.1438
+08733,40.0269,-74.3637
+08734,39.8629,-74.1664
+08735,39.9970,-74.0776
+08736,40.1200,-74.0533
+08738,40.0248,-74.0596
+08740,39.9284,-74.1278
+08741,39.9363,-74.1672
+08742,40.0808,-74.0591
+08750,40.1334,-74.0415
+08751,39.9496,-74.0795
+08752,39.8366,-74.0902
+08753,39.9797,-74.1507
+08755,40.0085,-74.2218
+08757,39.9606,-74.2608
+08758,39.7945,-74.2533
+08759,39.9618,-74.3598
+08801,40.6296,-74.8905
+08802,40.6843,-75.0233
+08804,40.6467,-75.0958
+08805,40.5706,-74.5376
+08807,40.5924,-74.6188
+08809,40.6460,-74.9246
+08810,40.3683,-74.4910
+08812,40.5987,-74.4788
+08816,40.4291,-74.4163
+08817,40.5147,-74.3931
+08820,40.5768,-74.3658
+08821,40.5207,-74.6883
+08822,40.5220,-74.8666
+08823,40.4386,-74.5652
+08824,40.4207,-74.5535
+08825,40.5142,-75.0272
+08826,40.7166,-74.9121
+08827,40.6684,-74.9684
+08828,40.3784,-74.4234
+08829,40.6701,-74.8902
+08830,40.5701,-74.3164
+08831,40.3343,-74.4325
+08832,40.5114,-74.3185
+08833,40.6455,-74.8163
+08835,40.5418,-74.5886
+08836,40.5964,-74.5573
+08837,40.5143,-74.3439
+08840,40.5431,-74.3590
+08844,40.4977,-74.6705
+08846,40.5746,-74.4983
+08848,40.5943,-75.0967
+08850,40.4492,-74.4403
+08852,40.3899,-74.5441
+08853,40.5273,-74.7420
+08854,40.5397,-74.4628
+08857,40.3928,-74.3304
+08858,40.6827,-74.7370
+08859,40.4582,-74.3038
+08861,40.5205,-74.2729
+08863,40.5372,-74.3122
+08865,40.7082,-75.1471
+08867,40.5745,-74.9661
+08869,40.5713,-74.6460
+08872,40.4557,-74.3515
+08873,40.4997,-74.5318
+08876,40.5896,-74.6854
+08879,40.4664,-74.2786
+08880,40.5539,-74.5275
+08882,40.4457,-74.3785
+08884,40.3936,-74.3927
+08886,40.6876,-75.1007
+08887,40.5215,-74.7959
+08889,40.6090,-74.7542
+08890,40.5390,-74.5754
+08901,40.4836,-74.4425
+08902,40.4415,-74.4912
+08904,40.5008,-74.4279
+10001,40.7507,-73.9973
+10002,40.7160,-73.9869
+10003,40.7319,-73.9891
+10004,40.6898,-74.0174
+10005,40.7062,-74.0087
+10006,40.7095,-74.0131
+10007,40.7139,-74.0079
+10009,40.7264,-73.9786
+10010,40.7390,-73.9826
+10011,40.7418,-74.0005
+10012,40.7256,-73.9979
+10013,40.7201,-74.0048
+10014,40.7341,-74.0060
+10016,40.7452,-73.9781
+10017,40.7524,-73.9727
+10018,40.7553,-73.9927
+10019,40.7657,-73.9851
+10020,40.7592,-73.9807
+10021,40.7696,-73.9590
+10022,40.7586,-73.9679
+10023,40.7746,-73.9790
+10024,40.7857,-73.9713
+10025,40.7983,-73.9683
+10026,40.8030,-73.9535
+10027,40.8127,-73.9550
+10028,40.7764,-73.9534
+10029,40.7922,-73.9473
+10030,40.8182,-73.9428
+10031,40.8248,-73.9502
+10032,40.8390,-73.9428
+10033,40.8475,-73.9355
+10034,40.8671,-73.9243
+10035,40.7953,-73.9304
+10036,40.7598,-73.9907
+10037,40.8130,-73.9377
+10038,40.7093,-74.0029
+10039,40.8263,-73.9375
+10040,40.8581,-73.9296
+10044,40.7619,-73.9500
+10065,40.7647,-73.9633
+10069,40.7774,-73.9888
+10075,40.7734,-73.9563
+10103,40.7608,-73.9777
+10110,40.7545,-73.9823
+10111,40.7595,-73.9786
+10112,40.7589,-73.9790
+10115,40.8109,-73.9637
+10119,40.7506,-73.9927
+10128,40.7815,-73.9502
+10152,40.7584,-73.9720
+10153,40.7636,-73.9724
+10154,40.7578,-73.9725
+10162,40.7693,-73.9498
+10165,40.7521,-73.9787
+10167,40.7546,-73.9748
+10168,40.7514,-73.9771
+10169,40.7545,-73.9764
+10170,40.7526,-73.9759
+10171,40.7559,-73.9739
+10172,40.7553,-73.9743
+10173,40.7541,-73.9794
+10174,40.7514,-73.9750
+10177,40.7551,-73.9759
+10199,40.7514,-73.9972
+10271,40.7082,-74.0105
+10278,40.7151,-74.0037
+10279,40.7126,-74.0087
+10280,40.7097,-74.0166
+10282,40.7164,-74.0150
+10301,40.6275,-74.0944
+10302,40.6308,-74.1377
+10303,40.6299,-74.1741
+10304,40.6060,-74.0935
+10305,40.5965,-74.0758
+10306,40.5717,-74.1243
+10307,40.5078,-74.2421
+10308,40.5528,-74.1515
+10309,40.5298,-74.2198
+10310,40.6326,-74.1161
+10311,40.6052,-74.1795
+10312,40.5452,-74.1804
+10314,40.6007,-74.1643
+10451,40.8222,-73.9226
+10452,40.8378,-73.9233
+10453,40.8525,-73.9133
+10454,40.8056,-73.9166
+10455,40.8148,-73.9086
+10456,40.8307,-73.9082
+10457,40.8457,-73.8979
+10458,40.8625,-73.8864
+10459,40.8257,-73.8930
+10460,40.8423,-73.8791
+10461,40.8467,-73.8408
+10462,40.8433,-73.8604
+10463,40.8863,-73.9015
+10464,40.8696,-73.7958
+10465,40.8273,-73.8222
+10466,40.8910,-73.8462
+10467,40.8753,-73.8720
+10468,40.8689,-73.9000
+10469,40.8685,-73.8467
+10470,40.8895,-73.8726
+10471,40.9000,-73.9068
+10472,40.8297,-73.8694
+10473,40.8187,-73.8585
+10474,40.8113,-73.8852
+10475,40.8756,-73.8269
+10501,41.2956,-73.7594
+10502,41.0113,-73.8408
+10503,41.0266,-73.8753
+10504,41.1285,-73.7075
+10505,41.3421,-73.7478
+10506,41.1897,-73.6385
+10507,41.2322,-73.6917
+10509,41.4109,-73.5943
+10510,41.1395,-73.8357
+10511,41.2632,-73.9450
+10512,41.4477,-73.7099
+10514,41.1721,-73.7692
+10516,41.4620,-73.8749
+10517,41.2985,-73.8601
+10518,41.2661,-73.5883
+10519,41.3472,-73.6634
+10520,41.2266,-73.8676
+10522,41.0097,-73.8633
+10523,41.0595,-73.8193
+10524,41.3753,-73.9262
+10526,41.2941,-73.6594
+10527,41.3212,-73.7699
+10528,40.9750,-73.7249
+10530,41.0237,-73.8128
+10532,41.1003,-73.8007
+10533,41.0369,-73.8549
+10535,41.3352,-73.7939
+10536,41.2692,-73.6887
+10537,41.3441,-73.8810
+10538,40.9378,-73.7565
+10540,41.3260,-73.7277
+10541,41.3820,-73.7518
+10542,41.3711,-73.7644
+10543,40.9527,-73.7360
+10545,41.1786,-73.8355
+10546,41.1966,-73.8006
+10547,41.3133,-73.8460
+10548,41.2450,-73.9387
+10549,41.2006,-73.7235
+10550,40.9054,-73.8353
+10552,40.9240,-73.8256
+10553,40.9086,-73.8216
+10560,41.3405,-73.5976
+10562,41.1944,-73.8253
+10566,41.2895,-73.9168
+10567,41.2884,-73.8950
+10570,41.1281,-73.7892
+10573,41.0157,-73.6773
+10576,41.2216,-73.5723
+10577,41.0382,-73.7107
+10578,41.3141,-73.6771
+10579,41.3954,-73.8391
+10580,40.9790,-73.6932
+10583,40.9886,-73.7889
+10588,41.3315,-73.8285
+10589,41.3324,-73.6927
+10590,41.2562,-73.5379
+10591,41.0827,-73.8486
+10594,41.1158,-73.7710
+10595,41.0874,-73.7804
+10596,41.2560,-73.9595
+10597,41.2930,-73.5966
+10598,41.2824,-73.7962
+10601,41.0329,-73.7648
+10603,41.0542,-73.7802
+10604,41.0715,-73.7471
+10605,41.0106,-73.7451
+10606,41.0207,-73.7759
+10607,41.0391,-73.8114
+10701,40.9470,-73.8804
+10703,40.9576,-73.8811
+10704,40.9197,-73.8627
+10705,40.9193,-73.8893
+10706,40.9905,-73.8695
+10707,40.9596,-73.8229
+10708,40.9383,-73.8299
+10709,40.9546,-73.8082
+10710,40.9696,-73.8457
+10801,40.9176,-73.7849
+10803,40.8995,-73.8059
+10804,40.9469,-73.7880
+10805,40.8864,-73.7577
+10901,41.1554,-74.1290
+10910,41.2816,-74.1380
+10911,41.3084,-73.9960
+10913,41.0689,-73.9560
+10914,41.4177,-74.2000
+10915,41.5402,-74.3570
+10916,41.4493,-74.2447
+10917,41.3218,-74.1080
+10918,41.3442,-74.2622
+10919,41.5260,-74.3876
+10920,41.1565,-73.9382
+10921,41.3321,-74.3634
+10922,41.3369,-73.9876
+10923,41.2031,-74.0027
+10924,41.3812,-74.3525
+10925,41.1859,-74.2889
+10926,41.2558,-74.1279
+10927,41.1911,-73.9676
+10928,41.3490,-73.9985
+10930,41.3824,-74.1144
+10931,41.1272,-74.1705
+10932,41.4822,-74.4643
+10933,41.3680,-74.5130
+10940,41.4465,-74.4787
+10941,41.4904,-74.3453
+10950,41.3173,-74.1999
+10952,41.1111,-74.0785
+10953,41.4059,-74.0779
+10954,41.0988,-74.0133
+10956,41.1544,-73.9941
+10958,41.3793,-74.4238
+10960,41.0888,-73.9265
+10962,41.0490,-73.9621
+10963,41.4666,-74.5407
+10964,41.0164,-73.9143
+10965,41.0616,-74.0078
+10968,41.0370,-73.9213
+10969,41.2949,-74.4880
+10970,41.1844,-74.0627
+10973,41.3805,-74.4805
+10974,41.1595,-74.1899
+10975,41.2570,-74.1677
+10976,41.0230,-73.9285
+10977,41.1189,-74.0482
+10979,41.1824,-74.3188
+10980,41.2392,-74.0563
+10983,41.0311,-73.9477
+10984,41.2031,-74.0222
+10985,41.5770,-74.3580
+10986,41.2852,-73.9987
+10987,41.1992,-74.2245
+10988,41.3015,-74.5624
+10989,41.1230,-73.9380
+10990,41.2674,-74.3640
+10992,41.4261,-74.1647
+10993,41.2099,-73.9739
+10994,41.0981,-73.9726
+10996,41.3937,-73.9722
+10998,41.3241,-74.5412
+11001,40.7233,-73.7049
+11003,40.6992,-73.7062
+11004,40.7462,-73.7115
+11005,40.7566,-73.7142
+11010,40.7007,-73.6751
+11020,40.7714,-73.7148
+11021,40.7843,-73.7315
+11023,40.7989,-73.7337
+11024,40.8163,-73.7429
+11030,40.7934,-73.6885
+11040,40.7453,-73.6803
+11042,40.7585,-73.6975
+11050,40.8399,-73.6931
+11096,40.6213,-73.7570
+11101,40.7471,-73.9397
+11102,40.7716,-73.9256
+11103,40.7626,-73.9133
+11104,40.7448,-73.9205
+11105,40.7791,-73.9065
+11106,40.7622,-73.9315
+11109,40.7466,-73.9570
+11201,40.6937,-73.9899
+11203,40.6496,-73.9343
+11204,40.6188,-73.9849
+11205,40.6969,-73.9681
+11206,40.7019,-73.9426
+11207,40.6702,-73.8938
+11208,40.6748,-73.8725
+11209,40.6218,-74.0302
+11210,40.6281,-73.9463
+11211,40.7141,-73.9452
+11212,40.6629,-73.9131
+11213,40.6712,-73.9363
+11214,40.5997,-73.9964
+11215,40.6627,-73.9867
+11216,40.6808,-73.9492
+11217,40.6823,-73.9781
+11218,40.6431,-73.9764
+11219,40.6326,-73.9968
+11220,40.6410,-74.0167
+11221,40.6914,-73.9276
+11222,40.7278,-73.9476
+11223,40.5971,-73.9735
+11224,40.5774,-73.9887
+11225,40.6631,-73.9539
+11226,40.6464,-73.9567
+11228,40.6167,-74.0134
+11229,40.6013,-73.9445
+11230,40.6221,-73.9652
+11231,40.6779,-74.0052
+11232,40.6565,-74.0052
+11233,40.6783,-73.9199
+11234,40.6077,-73.9106
+11235,40.5842,-73.9432
+11236,40.6394,-73.9007
+11237,40.7042,-73.9211
+11238,40.6713,-73.9659
+11239,40.6469,-73.8640
+11249,40.7045,-73.9660
+11354,40.7682,-73.8274
+11355,40.7514,-73.8212
+11356,40.7849,-73.8415
+11357,40.7851,-73.8100
+11358,40.7604,-73.7965
+11359,40.7916,-73.7767
+11360,40.7804,-73.7818
+11361,40.7642,-73.7728
+11362,40.7602,-73.7324
+11363,40.7723,-73.7463
+11364,40.7463,-73.7561
+11365,40.7396,-73.7945
+11366,40.7311,-73.7805
+11367,40.7305,-73.8227
+11368,40.7497,-73.8530
+11369,40.7635,-73.8722
+11370,40.7654,-73.8942
+11371,40.7744,-73.8733
+11372,40.7517,-73.8837
+11373,40.7389,-73.8786
+11374,40.7265,-73.8615
+11375,40.7230,-73.8432
+11377,40.7448,-73.9052
+11378,40.7247,-73.9096
+11379,40.7171,-73.8805
+11385,40.7006,-73.8894
+11411,40.6941,-73.7363
+11412,40.6980,-73.7591
+11413,40.6712,-73.7521
+11414,40.6576,-73.8448
+11415,40.7081,-73.8280
+11416,40.6846,-73.8497
+11417,40.6764,-73.8446
+11418,40.7003,-73.8360
+11419,40.6886,-73.8231
+11420,40.6735,-73.8177
+11421,40.6940,-73.8587
+11422,40.6608,-73.7376
+11423,40.7157,-73.7683
+11424,40.7140,-73.8281
+11426,40.7364,-73.7224
+11427,40.7309,-73.7457
+11428,40.7210,-73.7422
+11429,40.7096,-73.7385
+11430,40.6470,-73.7873
+11432,40.7149,-73.7930
+11433,40.6981,-73.7868
+11434,40.6779,-73.7771
+11435,40.7011,-73.8096
+11436,40.6759,-73.7966
+11439,40.7219,-73.7946
+11451,40.7012,-73.7958
+11501,40.7463,-73.6392
+11507,40.7708,-73.6521
+11509,40.5880,-73.7285
+11510,40.6501,-73.6077
+11514,40.7498,-73.6129
+11516,40.6262,-73.7268
+11518,40.6375,-73.6668
+11520,40.6494,-73.5830
+11530,40.7269,-73.6370
+11542,40.8726,-73.6286
+11545,40.8263,-73.5894
+11547,40.8291,-73.6447
+11548,40.8111,-73.6139
+11549,40.7190,-73.5997
+11550,40.7015,-73.6211
+11552,40.6918,-73.6542
+11553,40.7053,-73.5923
+11554,40.7201,-73.5589
+11556,40.7199,-73.5834
+11557,40.6361,-73.6939
+11558,40.6054,-73.6490
+11559,40.6029,-73.7144
+11560,40.8808,-73.5887
+11561,40.5909,-73.6447
+11563,40.6574,-73.6741
+11565,40.6750,-73.6717
+11566,40.6623,-73.5564
+11568,40.7866,-73.5972
+11569,40.5904,-73.5804
+11570,40.6653,-73.6389
+11572,40.6318,-73.6366
+11575,40.6804,-73.5849
+11576,40.7966,-73.6469
+11577,40.7829,-73.6391
+11579,40.8440,-73.6441
+11580,40.6749,-73.7022
+11581,40.6510,-73.7153
+11590,40.7552,-73.5743
+11596,40.7597,-73.6422
+11598,40.6309,-73.7123
+11691,40.6021,-73.7618
+11692,40.5942,-73.7920
+11693,40.5917,-73.8097
+11694,40.5753,-73.8512
+11697,40.5571,-73.9137
+11701,40.6825,-73.4144
+11702,40.6362,-73.3838
+11703,40.7327,-73.3250
+11704,40.7158,-73.3593
+11705,40.7433,-73.0559
+11706,40.7106,-73.2429
+11709,40.9063,-73.5582
+11710,40.6722,-73.5348
+11713,40.7784,-72.9428
+11714,40.7426,-73.4862
+11715,40.7510,-73.0349
+11716,40.7770,-73.1351
+11717,40.7841,-73.2522
+11718,40.7164,-73.2615
+11719,40.7767,-72.9078
+11720,40.8702,-73.0820
+11721,40.9024,-73.3714
+11722,40.7836,-73.1966
+11724,40.8643,-73.4564
+11725,40.8406,-73.2808
+11726,40.6790,-73.3944
+11727,40.8802,-73.0037
+11729,40.7611,-73.3253
+11730,40.7276,-73.1850
+11731,40.8626,-73.3170
+11732,40.8424,-73.5393
+11733,40.9402,-73.1128
+11735,40.7327,-73.4328
+11738,40.8378,-73.0377
+11739,40.7106,-73.1657
+11740,40.8653,-73.3612
+11741,40.7947,-73.0704
+11742,40.8104,-73.0419
+11743,40.8834,-73.4236
+11746,40.8143,-73.3623
+11747,40.7838,-73.4093
+11749,40.8068,-73.1708
+11751,40.7305,-73.2139
+11752,40.7583,-73.1742
+11753,40.7897,-73.5410
+11754,40.8856,-73.2499
+11755,40.8578,-73.1168
+11756,40.7245,-73.5163
+11757,40.6890,-73.3734
+11758,40.6538,-73.4571
+11762,40.6827,-73.4467
+11763,40.8253,-72.9824
+11764,40.9299,-72.9731
+11765,40.8821,-73.5590
+11766,40.9392,-73.0187
+11767,40.8478,-73.1457
+11768,40.9236,-73.3393
+11769,40.7345,-73.1252
+11770,40.6496,-73.1403
+11771,40.8737,-73.5253
+11772,40.7618,-72.9874
+11776,40.9135,-73.0457
+11777,40.9561,-73.0667
+11778,40.9480,-72.9371
+11779,40.8130,-73.1145
+11780,40.9111,-73.1725
+11782,40.7367,-73.0800
+11783,40.6776,-73.4900
+11784,40.8686,-73.0422
+11786,40.9514,-72.8884
+11787,40.8529,-73.2113
+11788,40.8181,-73.2132
+11789,40.9620,-72.9710
+11790,40.9078,-73.1275
+11791,40.8278,-73.5028
+11792,40.9550,-72.8256
+11793,40.6472,-73.5115
+11794,40.9192,-73.1250
+11795,40.7090,-73.2963
+11796,40.7312,-73.0994
+11797,40.8202,-73.4724
+11798,40.7526,-73.3784
+11801,40.7623,-73.5245
+11803,40.7818,-73.4731
+11804,40.7581,-73.4569
+11901,40.9281,-72.6482
+11930,40.9914,-72.1145
+11931,40.9326,-72.6223
+11932,40.9265,-72.3050
+11933,40.9422,-72.7656
+11934,40.8020,-72.7952
+11935,41.0212,-72.4870
+11937,40.9951,-72.1922
+11939,41.1390,-72.3187
+11940,40.8088,-72.7566
+11941,40.8295,-72.7234
+11942,40.8486,-72.5722
+11944,41.1025,-72.3732
+11946,40.8647,-72.5181
+11947,40.9430,-72.5819
+11948,40.9607,-72.5499
+11949,40.8665,-72.8046
+11950,40.8061,-72.8472
+11951,40.7657,-72.8367
+11952,41.0016,-72.5476
+11953,40.8925,-72.9512
+11954,41.0464,-71.9488
+11955,40.8135,-72.8238
+11956,40.9911,-72.4721
+11957,41.2030,-72.1171
+11958,41.0391,-72.4644
+11959,40.8303,-72.6098
+11960,40.8106,-72.7061
+11961,40.9038,-72.8859
+11962,40.9309,-72.2687
+11963,41.0017,-72.3196
+11964,41.0495,-72.3023
+11965,41.0825,-72.3034
+11967,40.8016,-72.8780
+11968,40.9004,-72.4286
+11970,40.9420,-72.5725
+11971,41.0647,-72.4291
+11972,40.8227,-72.7000
+11973,40.8658,-72.8872
+11975,40.9483,-72.2496
+11976,40.9292,-72.3474
+11977,40.8285,-72.6792
+11978,40.8256,-72.6375
+11980,40.8317,-72.9248
+12007,42.5057,-73.9353
+12008,42.8535,-73.9065
+12009,42.6977,-74.0353
+12010,42.9376,-74.1733
+12015,42.2922,-73.8215
+12017,42.3211,-73.4560
+12018,42.6288,-73.5208
+12019,42.9344,-73.8818
+12020,43.0017,-73.8701
+12022,42.6665,-73.3340
+12023,42.5986,-74.1830
+12024,42.4813,-73.5342
+12025,43.0914,-74.1219
+12027,42.9213,-73.9078
+12028,42.9449,-73.4409
+12029,42.4160,-73.4250
+12031,42.7658,-74.4661
+12032,43.2880,-74.5914
+12033,42.5331,-73.7001
+12035,42.7337,-74.3719
+12036,42.5325,-74.6894
+12037,42.3388,-73.5658
+12040,42.6305,-73.3591
+12041,42.5437,-73.9797
+12042,42.3525,-73.8838
+12043,42.6940,-74.5305
+12045,42.4797,-73.7968
+12046,42.5091,-73.9172
+12047,42.7841,-73.7262
+12051,42.3464,-73.8384
+12052,42.7574,-73.4801
+12053,42.7575,-74.1911
+12054,42.6045,-73.8662
+12056,42.7649,-74.1003
+12057,42.9713,-73.3364
+12058,42.3444,-73.9176
+12059,42.6192,-74.0609
+12060,42.4106,-73.5053
+12061,42.5993,-73.6572
+12062,42.5390,-73.5050
+12063,42.5673,-73.6395
+12064,42.5794,-74.6465
+12065,42.8523,-73.7856
+12066,42.7811,-74.3039
+12067,42.5575,-73.9203
+12068,42.9561,-74.4018
+12069,42.9460,-74.2799
+12070,42.9860,-74.2630
+12071,42.5697,-74.4152
+12072,42.8849,-74.3567
+12074,43.0506,-74.0529
+12075,42.3048,-73.6411
+12076,42.3997,-74.3905
+12077,42.5882,-73.7777
+12078,43.1344,-74.3396
+12082,42.7700,-73.4467
+12083,42.4249,-74.0265
+12084,42.7047,-73.8994
+12085,42.7005,-73.9666
+12086,42.9961,-74.1086
+12087,42.4323,-73.8929
+12090,42.8768,-73.3515
+12092,42.7059,-74.3796
+12093,42.4978,-74.6281
+12094,42.8900,-73.4859
+12095,43.0349,-74.4236
+12106,42.3885,-73.7138
+12108,43.4677,-74.4355
+12110,42.7506,-73.7761
+12115,42.4676,-73.6022
+12116,42.5388,-74.9112
+12117,43.1671,-74.2612
+12118,42.9209,-73.7170
+12120,42.4650,-74.1354
+12121,42.8399,-73.6074
+12122,42.5420,-74.3261
+12123,42.5221,-73.6064
+12124,42.4485,-73.7887
+12125,42.4847,-73.3998
+12130,42.4417,-73.6583
+12131,42.4534,-74.4639
+12132,42.4710,-73.6337
+12134,43.2621,-74.2280
+12136,42.4201,-73.5651
+12137,42.8603,-74.1331
+12138,42.7488,-73.3704
+12139,43.5002,-74.5795
+12140,42.6820,-73.5720
+12143,42.4916,-73.8427
+12144,42.6278,-73.7178
+12147,42.5186,-74.1588
+12148,42.8278,-73.8482
+12149,42.6180,-74.5706
+12150,42.8805,-74.0527
+12151,42.9227,-73.7806
+12153,42.6322,-73.4722
+12154,42.9375,-73.6058
+12155,42.5964,-74.8277
+12156,42.4835,-73.7473
+12157,42.6698,-74.2861
+12158,42.5330,-73.8136
+12159,42.6514,-73.8859
+12160,42.7634,-74.3635
+12161,42.5337,-73.8462
+12164,43.6483,-74.4516
+12165,42.3152,-73.5076
+12166,42.8446,-74.4602
+12167,42.4232,-74.5988
+12168,42.5736,-73.3707
+12169,42.5929,-73.4480
+12170,43.0020,-73.6673
+12172,42.2891,-73.7389
+12173,42.3955,-73.7555
+12174,42.3532,-73.7280
+12175,42.5595,-74.5604
+12176,42.3845,-73.9661
+12177,42.9509,-74.2871
+12180,42.7486,-73.5995
+12182,42.8005,-73.6274
+12183,42.7479,-73.6925
+12184,42.4199,-73.6534
+12185,42.8625,-73.5541
+12186,42.6331,-73.9772
+12187,42.6282,-74.4643
+12188,42.8212,-73.6955
+12189,42.7363,-73.7175
+12190,43.4756,-74.2854
+12192,42.4005,-73.8251
+12193,42.5228,-74.0433
+12194,42.5383,-74.4543
+12195,42.4788,-73.4650
+12196,42.6318,-73.6139
+12197,42.6100,-74.7247
+12198,42.6728,-73.6336
+12202,42.6352,-73.7600
+12203,42.6829,-73.8494
+12204,42.6915,-73.7338
+12205,42.7187,-73.8241
+12206,42.6742,-73.7820
+12207,42.6555,-73.7476
+12208,42.6530,-73.8100
+12209,42.6387,-73.7905
+12210,42.6557,-73.7549
+12211,42.7097,-73.7631
+12222,42.6853,-73.8232
+12226,42.6793,-73.8099
+12302,42.8782,-73.9825
+12303,42.7490,-73.9297
+12304,42.7747,-73.8983
+12305,42.8120,-73.9503
+12306,42.8054,-74.0442
+12307,42.8050,-73.9328
+12308,42.8213,-73.9209
+12309,42.7999,-73.8650
+12401,41.9875,-74.0103
+12404,41.8190,-74.2361
+12405,42.3070,-74.1010
+12406,42.0948,-74.5760
+12407,42.2967,-74.3621
+12409,42.0555,-74.1654
+12410,42.0658,-74.4248
+12411,41.8790,-74.0398
+12412,42.0122,-74.2770
+12413,42.3083,-74.0254
+12414,42.2350,-73.9240
+12416,42.0959,-74.2791
+12417,41.9064,-73.9907
+12418,42.3586,-74.1609
+12419,41.8611,-74.1020
+12420,41.6753,-74.3937
+12421,42.2571,-74.5352
+12422,42.3918,-74.2133
+12423,42.3797,-74.1114
+12424,42.2476,-74.1158
+12427,42.1507,-74.1241
+12428,41.7344,-74.4572
+12429,41.8333,-73.9610
+12430,42.2008,-74.4992
+12431,42.3620,-74.0235
+12432,42.0471,-73.9440
+12433,42.0053,-74.1553
+12434,42.3624,-74.5087
+12435,41.7217,-74.5021
+12436,42.2131,-74.0783
+12438,42.2103,-74.6010
+12439,42.2778,-74.2104
+12440,41.7812,-74.1729
+12441,42.1507,-74.5045
+12442,42.2269,-74.2441
+12443,41.9350,-74.0849
+12444,42.2475,-74.2906
+12446,41.7899,-74.3135
+12448,42.0796,-74.2007
+12449,41.9924,-73.9938
+12450,42.1422,-74.2233
+12451,42.3049,-73.9482
+12452,42.2374,-74.3590
+12453,42.0929,-73.9362
+12454,42.2798,-74.1420
+12455,42.1493,-74.6616
+12456,42.0327,-73.9971
+12457,42.0400,-74.2466
+12458,41.8229,-74.4321
+12459,42.2404,-74.6789
+12460,42.4293,-74.1690
+12461,41.9086,-74.2479
+12463,42.1916,-74.0093
+12464,42.0651,-74.3463
+12465,42.1572,-74.4600
+12466,41.9068,-73.9778
+12468,42.2990,-74.4007
+12469,42.4486,-74.2461
+12470,42.2850,-74.0783
+12471,41.8379,-74.0419
+12472,41.8488,-74.0674
+12473,42.2607,-74.0313
+12474,42.2851,-74.5880
+12475,42.0140,-74.0133
+12477,42.0926,-73.9881
+12480,42.1354,-74.3913
+12481,41.9767,-74.2280
+12482,42.2684,-73.9559
+12483,41.6746,-74.4549
+12484,41.8619,-74.1765
+12485,42.2072,-74.1622
+12486,41.8324,-74.0640
+12487,41.8694,-73.9988
+12489,41.7540,-74.3522
+12490,42.1229,-73.9245
+12491,41.9652,-74.1415
+12492,42.1876,-74.3345
+12493,41.7947,-73.9718
+12494,41.9486,-74.3017
+12495,42.0827,-74.2457
+12496,42.3380,-74.2701
+12498,42.0457,-74.1096
+12501,41.8534,-73.5577
+12502,42.0866,-73.6647
+12503,42.0360,-73.5801
+12504,42.0234,-73.9093
+12507,42.0092,-73.9171
+12508,41.4960,-73.9536
+12512,41.5552,-73.9625
+12513,42.2193,-73.7205
+12514,41.8774,-73.7644
+12515,41.6796,-74.0651
+12516,42.1081,-73.5514
+12517,42.1283,-73.5086
+12518,41.4162,-74.0431
+12520,41.4280,-73.9962
+12521,42.1713,-73.6505
+12522,41.7200,-73.5984
+12523,42.0869,-73.7595
+12524,41.5334,-73.8849
+12525,41.6863,-74.1923
+12526,42.1222,-73.8588
+12527,41.5193,-73.9368
+12528,41.7139,-73.9951
+12529,42.1959,-73.5432
+12530,42.2069,-73.6842
+12531,41.5405,-73.6716
+12533,41.5598,-73.7871
+12534,42.2264,-73.7536
+12538,41.7922,-73.8938
+12540,41.6712,-73.7249
+12542,41.6139,-74.0150
+12543,41.4859,-74.2235
+12544,42.2612,-73.6682
+12545,41.7915,-73.6772
+12546,41.9480,-73.5236
+12547,41.6607,-73.9866
+12548,41.6579,-74.1015
+12549,41.5280,-74.2594
+12550,41.5396,-74.0572
+12553,41.4604,-74.0719
+12561,41.7640,-74.0895
+12563,41.4992,-73.5872
+12564,41.5826,-73.5826
+12565,42.2490,-73.6469
+12566,41.6335,-74.3197
+12567,41.9852,-73.6540
+12569,41.7346,-73.7928
+12570,41.6341,-73.6725
+12571,42.0030,-73.8098
+12572,41.9249,-73.8637
+12574,41.9176,-73.9457
+12575,41.4861,-74.1589
+12577,41.4215,-74.1168
+12578,41.8063,-73.7976
+12580,41.8636,-73.8715
+12581,41.9016,-73.7006
+12582,41.5435,-73.7250
+12583,42.0596,-73.8836
+12585,41.7264,-73.6915
+12586,41.5690,-74.1659
+12589,41.6238,-74.1588
+12590,41.5964,-73.8888
+12592,41.7839,-73.5489
+12594,41.6584,-73.5735
+12601,41.7078,-73.9106
+12603,41.6759,-73.8645
+12604,41.6884,-73.8945
+12701,41.6501,-74.6988
+12719,41.4856,-74.8923
+12720,41.6459,-74.9009
+12721,41.5673,-74.4273
+12722,41.5904,-74.3749
+12723,41.7531,-74.9877
+12724,41.8600,-74.9368
+12725,41.9832,-74.5701
+12726,41.6951,-74.9665
+12729,41.4897,-74.6131
+12732,41.5548,-74.8739
+12733,41.7390,-74.6139
+12734,41.7346,-74.7505
+12736,41.8532,-75.0192
+12737,41.5015,-74.7986
+12738,41.6657,-74.5970
+12740,41.9388,-74.4340
+12741,41.8391,-75.0777
+12742,41.7230,-74.7163
+12743,41.5351,-74.8404
+12745,41.7850,-75.0264
+12746,41.4394,-74.6524
+12747,41.7514,-74.6419
+12748,41.7748,-74.9152
+12749,41.6952,-74.8314
+12750,41.7391,-74.9673
+12751,41.6878,-74.6621
+12752,41.6810,-74.9855
+12754,41.7982,-74.7369
+12758,41.9403,-74.7391
+12759,41.7865,-74.6607
+12760,41.9039,-75.1078
+12762,41.6605,-74.7915
+12763,41.6824,-74.5098
+12764,41.5916,-74.9956
+12765,41.8523,-74.6212
+12766,41.8152,-74.9789
+12767,41.8325,-75.0034
+12768,41.8644,-74.7300
+12769,41.6593,-74.4707
+12770,41.4470,-74.8410
+12771,41.3753,-74.6315
+12775,41.6215,-74.5818
+12776,41.9634,-74.9578
+12777,41.5618,-74.7097
+12778,41.6617,-74.8142
+12779,41.6908,-74.6244
+12780,41.4401,-74.7274
+12781,41.6145,-74.4721
+12783,41.7386,-74.8337
+12784,41.6672,-74.6118
+12785,41.5500,-74.5861
+12786,41.6387,-74.8576
+12787,41.7954,-74.8450
+12788,41.7951,-74.5909
+12789,41.7184,-74.5800
+12790,41.5634,-74.5274
+12791,41.8173,-74.8929
+12792,41.5139,-74.9598
+12801,43.3112,-73.6453
+12803,43.2884,-73.6318
+12804,43.3373,-73.6827
+12808,43.7497,-73.7472
+12809,43.2416,-73.4718
+12810,43.4920,-73.9860
+12811,43.5581,-74.0777
+12812,43.8758,-74.3898
+12814,43.6319,-73.6326
+12815,43.7010,-73.6919
+12816,43.0444,-73.3820
+12817,43.6396,-73.8236
+12819,43.5910,-73.4688
+12820,43.4601,-73.6407
+12821,43.4540,-73.4234
+12822,43.2286,-73.9222
+12823,43.1800,-73.4091
+12824,43.5245,-73.7113
+12827,43.4420,-73.5309
+12828,43.2548,-73.5593
+12831,43.1953,-73.6918
+12832,43.3585,-73.3303
+12833,43.1500,-73.8409
+12834,43.0980,-73.5053
+12835,43.3328,-74.0063
+12836,43.7123,-73.6056
+12837,43.4764,-73.2556
+12838,43.3299,-73.4064
+12839,43.3545,-73.5540
+12841,43.5773,-73.5087
+12842,43.7196,-74.2799
+12843,43.5945,-73.9816
+12844,43.4852,-73.6540
+12845,43.4279,-73.7111
+12846,43.3461,-73.7895
+12847,43.9658,-74.6350
+12849,43.4416,-73.3001
+12850,43.1026,-73.9814
+12851,43.8553,-74.1184
+12852,43.9880,-74.1333
+12853,43.6621,-74.0643
+12854,43.4500,-73.3276
+12855,44.0270,-73.7581
+12856,43.6659,-74.1430
+12857,43.8332,-73.9468
+12858,43.8780,-73.7034
+12859,43.1555,-73.9048
+12860,43.7221,-73.8142
+12861,43.7469,-73.4175
+12862,43.6883,-73.9320
+12863,43.0603,-73.9316
+12864,43.7274,-74.3054
+12865,43.2142,-73.3475
+12866,43.0737,-73.7402
+12870,43.8392,-73.7656
+12871,43.0906,-73.6042
+12872,43.8839,-73.7230
+12873,43.1175,-73.3116
+12874,43.6906,-73.5497
+12878,43.4382,-74.0644
+12883,43.8364,-73.5532
+12884,43.0885,-73.5921
+12885,43.5294,-73.8355
+12886,43.6352,-73.9315
+12887,43.5368,-73.3658
+12901,44.7091,-73.4735
+12903,44.6569,-73.4631
+12910,44.8570,-73.6079
+12911,44.5355,-73.4683
+12912,44.4809,-73.7725
+12913,44.4301,-74.0022
+12914,44.9342,-74.5937
+12915,44.8534,-74.0350
+12916,44.8382,-74.5247
+12917,44.9247,-74.1738
+12918,44.6912,-73.6751
+12919,44.9603,-73.4500
+12920,44.8910,-74.0566
+12921,44.8940,-73.4325
+12922,44.3680,-74.8144
+12923,44.9455,-73.9580
+12924,44.4801,-73.5826
+12926,44.9508,-74.3290
+12927,44.2073,-74.8097
+12928,43.9638,-73.5832
+12929,44.7197,-73.7191
+12930,44.7281,-74.5397
+12932,44.2144,-73.6089
+12933,44.8910,-73.8453
+12934,44.8118,-73.8649
+12935,44.8447,-73.7969
+12936,44.2851,-73.4014
+12937,44.9552,-74.4881
+12939,44.4329,-74.1607
+12941,44.3549,-73.7002
+12942,44.2613,-73.7966
+12943,44.1228,-73.8835
+12944,44.4331,-73.5332
+12945,44.3091,-74.2404
+12946,44.2066,-74.0461
+12950,44.3184,-73.5812
+12952,44.7108,-73.9039
+12953,44.7454,-74.2600
+12955,44.7804,-73.9442
+12956,44.0976,-73.4813
+12957,44.8535,-74.5771
+12958,44.9535,-73.5729
+12959,44.9524,-73.7199
+12960,44.0158,-73.5723
+12961,44.0612,-73.5876
+12962,44.7092,-73.5771
+12964,44.1316,-73.6338
+12965,44.7059,-74.6840
+12966,44.7933,-74.4251
+12967,44.7610,-74.6605
+12969,44.7109,-74.0982
+12970,44.4462,-74.3367
+12972,44.5617,-73.5597
+12973,44.2841,-74.5685
+12974,44.0600,-73.4648
+12975,44.5298,-73.4311
+12976,44.5037,-74.2303
+12977,44.2966,-74.0989
+12978,44.6129,-73.7899
+12979,44.9893,-73.3722
+12980,44.5639,-74.5241
+12981,44.6271,-73.8459
+12983,44.3484,-74.1431
+12985,44.5607,-73.7390
+12986,44.2240,-74.4335
+12987,44.3642,-73.7594
+12989,44.5388,-74.0610
+12992,44.8182,-73.5156
+12993,44.1938,-73.4885
+12996,44.3553,-73.4481
+12997,44.3728,-73.8920
+12998,44.0913,-73.6037
+13020,42.8164,-76.0745
+13021,42.9177,-76.5546
+13024,42.9346,-76.5742
+13026,42.7440,-76.6523
+13027,43.1716,-76.3562
+13028,43.3028,-75.9332
+13029,43.2259,-76.1513
+13030,43.1592,-75.9639
+13031,43.0455,-76.3067
+13032,43.0816,-75.7660
+13033,43.1875,-76.5733
+13034,42.9568,-76.7079
+13035,42.9408,-75.8301
+13036,43.3235,-76.1890
+13037,43.0678,-75.8549
+13039,43.1721,-76.0562
+13040,42.5596,-75.9308
+13041,43.1921,-76.1923
+13042,43.2604,-75.8526
+13044,43.3048,-75.9933
+13045,42.5845,-76.1907
+13051,42.8832,-75.9101
+13052,42.7345,-75.8692
+13053,42.4796,-76.2679
+13054,43.1694,-75.6668
+13057,43.1020,-76.0378
+13060,43.0229,-76.4119
+13061,42.8587,-75.7455
+13062,42.4814,-76.3860
+13063,42.8479,-75.9780
+13065,42.8188,-76.8158
+13066,43.0323,-76.0006
+13068,42.4924,-76.3592
+13069,43.3293,-76.3807
+13071,42.6751,-76.5426
+13072,42.7613,-75.7517
+13073,42.5837,-76.3879
+13074,43.3109,-76.5498
+13076,43.3537,-76.1493
+13077,42.7280,-76.2110
+13078,42.9585,-76.0612
+13080,43.0932,-76.4853
+13081,42.6736,-76.6272
+13082,43.1027,-75.9599
+13083,43.6458,-75.9817
+13084,42.8811,-76.1241
+13087,42.6968,-76.1698
+13088,43.1079,-76.1905
+13090,43.1531,-76.2124
+13092,42.6518,-76.4261
+13101,42.6133,-76.0664
+13102,42.5503,-76.2920
+13103,43.3266,-76.1049
+13104,42.9630,-75.9484
+13108,42.9648,-76.3311
+13110,42.8887,-76.2902
+13111,43.2585,-76.6143
+13112,43.1063,-76.4172
+13113,43.1642,-76.5349
+13114,43.4657,-76.2428
+13115,43.3937,-76.4747
+13116,43.0745,-76.0079
+13117,43.0081,-76.7077
+13118,42.7550,-76.4014
+13119,42.9766,-76.4449
+13120,42.9452,-76.1643
+13121,43.4849,-76.3097
+13122,42.8378,-75.8615
+13123,43.2280,-75.7532
+13124,42.6611,-75.8236
+13126,43.4388,-76.4575
+13131,43.4232,-76.0918
+13132,43.2719,-76.2511
+13134,42.9674,-75.6847
+13135,43.2537,-76.3144
+13136,42.6071,-75.8538
+13138,42.8991,-76.0147
+13140,43.0604,-76.6503
+13141,42.7525,-76.1857
+13142,43.5562,-76.1382
+13143,43.2299,-76.7165
+13144,43.5688,-75.9770
+13145,43.6519,-76.1232
+13146,43.1009,-76.7569
+13147,42.7754,-76.5696
+13148,42.9215,-76.7783
+13152,42.9052,-76.3815
+13153,42.9946,-76.4548
+13154,43.1338,-76.7619
+13155,42.6745,-75.7767
+13156,43.3260,-76.6613
+13157,43.2024,-75.7252
+13158,42.7174,-75.9734
+13159,42.8010,-76.1181
+13160,42.8276,-76.6489
+13162,43.1858,-75.7210
+13163,43.0789,-75.7069
+13164,43.0969,-76.3126
+13165,42.9107,-76.8786
+13166,43.0789,-76.5654
+13167,43.3264,-76.0603
+13202,43.0435,-76.1507
+13203,43.0610,-76.1349
+13204,43.0518,-76.1780
+13205,43.0047,-76.1416
+13206,43.0735,-76.1058
+13207,43.0129,-76.1633
+13208,43.0787,-76.1452
+13209,43.0810,-76.2363
+13210,43.0314,-76.1258
+13211,43.1033,-76.1195
+13212,43.1286,-76.1297
+13214,43.0405,-76.0768
+13215,42.9808,-76.2234
+13219,43.0391,-76.2233
+13224,43.0389,-76.1026
+13244,43.0230,-76.1233
+13290,43.0691,-76.1730
+13301,43.4229,-75.2159
+13302,43.4982,-75.9651
+13303,43.3674,-75.4682
+13304,43.2404,-75.1570
+13305,43.8952,-75.4308
+13308,43.2514,-75.6578
+13309,43.4786,-75.3390
+13310,42.8896,-75.5715
+13312,43.6918,-75.2045
+13313,42.8791,-75.2453
+13314,42.8276,-75.3010
+13315,42.7391,-75.1361
+13316,43.4189,-75.7397
+13317,42.8503,-74.5861
+13318,42.9215,-75.2601
+13319,43.0271,-75.2660
+13320,42.7778,-74.7408
+13321,43.0890,-75.3723
+13322,42.9773,-75.1984
+13323,43.0400,-75.3794
+13324,43.3192,-74.9168
+13325,43.5825,-75.5441
+13326,42.7225,-74.8954
+13327,43.9729,-75.2626
+13328,42.9825,-75.4284
+13329,43.1075,-74.7084
+13331,43.8218,-75.0401
+13332,42.7642,-75.5817
+13333,42.8252,-74.8279
+13334,42.8307,-75.6629
+13335,42.7023,-75.2482
+13337,42.7578,-74.9995
+13338,43.5280,-74.9871
+13339,42.9369,-74.6587
+13340,43.0616,-75.1286
+13342,42.6441,-75.1916
+13343,43.7512,-75.3094
+13345,43.6871,-75.3233
+13346,42.8208,-75.5464
+13348,42.7073,-75.0572
+13350,43.0610,-74.9864
+13352,43.3089,-75.1267
+13353,43.4473,-74.6946
+13354,43.2642,-75.2786
+13355,42.8105,-75.4216
+13357,42.9711,-75.0812
+13360,43.7223,-74.7145
+13361,42.8981,-74.8657
+13363,43.3373,-75.5128
+13364,42.8050,-75.2611
+13365,43.0982,-74.8484
+13367,43.7331,-75.5370
+13368,43.6436,-75.3338
+13402,42.9016,-75.5097
+13403,43.1645,-75.2676
+13404,43.7384,-75.4809
+13406,43.1414,-74.9182
+13407,42.9654,-74.9444
+13408,42.9190,-75.6643
+13409,42.9760,-75.5913
+13410,42.9289,-74.6110
+13411,42.6338,-75.3065
+13413,43.0616,-75.2762
+13415,42.5971,-75.1973
+13416,43.1874,-74.9707
+13417,43.1000,-75.2939
+13418,42.8457,-75.3805
+13420,43.6545,-75.0134
+13421,43.0619,-75.6601
+13424,43.1523,-75.3629
+13425,42.9635,-75.4867
+13428,42.9219,-74.5294
+13431,43.2091,-75.0733
+13433,43.5949,-75.2489
+13435,43.3022,-75.1525
+13436,43.7804,-74.6591
+13437,43.5803,-75.8038
+13438,43.3541,-75.1596
+13439,42.8553,-74.9972
+13440,43.2179,-75.4592
+13441,43.2271,-75.4076
+13450,42.7026,-74.8126
+13452,43.0431,-74.6305
+13454,43.1703,-74.7584
+13455,42.9179,-75.3766
+13456,43.0015,-75.2586
+13457,42.7752,-75.0369
+13459,42.7750,-74.5887
+13460,42.6877,-75.4423
+13461,43.0712,-75.5986
+13464,42.6880,-75.6158
+13468,42.8496,-74.8736
+13469,43.2148,-75.3024
+13470,43.2092,-74.6665
+13471,43.3780,-75.6106
+13472,43.6974,-75.0681
+13473,43.6441,-75.4452
+13475,42.8879,-74.8119
+13476,43.0875,-75.5095
+13477,43.0363,-75.5144
+13478,43.1440,-75.5819
+13480,42.9179,-75.3632
+13482,42.6952,-75.1682
+13483,43.4061,-75.8147
+13484,42.8542,-75.6554
+13485,42.7875,-75.3152
+13486,43.3573,-75.3369
+13488,42.6745,-74.7680
+13489,43.4666,-75.5224
+13490,43.1062,-75.4299
+13491,42.8641,-75.1681
+13492,43.1146,-75.3377
+13493,43.4328,-75.8975
+13494,43.5345,-75.1521
+13495,43.1109,-75.2776
+13501,43.0813,-75.2258
+13502,43.1413,-75.1547
+13601,43.9690,-75.9105
+13602,44.0496,-75.7489
+13603,44.0299,-75.8036
+13605,43.8074,-76.0501
+13606,43.8698,-76.0161
+13607,44.3318,-75.9095
+13608,44.2609,-75.6137
+13611,43.7701,-76.1312
+13612,43.9852,-75.7694
+13613,44.8432,-74.7490
+13614,44.5308,-75.6920
+13615,44.0053,-75.9831
+13616,44.0301,-75.8576
+13617,44.5805,-75.1428
+13618,44.1148,-76.2910
+13619,43.9774,-75.5923
+13620,43.9088,-75.4483
+13621,44.8394,-75.0617
+13622,44.0957,-76.1152
+13623,44.4487,-75.7531
+13624,44.2294,-76.0938
+13625,44.5425,-74.9104
+13626,43.8539,-75.7185
+13628,44.0390,-75.6828
+13630,44.4986,-75.3115
+13632,44.1269,-76.0682
+13633,44.4843,-75.4992
+13634,44.0150,-76.0718
+13635,44.2870,-75.2814
+13636,43.7411,-76.1277
+13637,44.1042,-75.8429
+13638,44.0196,-75.7535
+13639,44.2637,-75.1505
+13640,44.3327,-75.9902
+13641,44.2704,-76.0064
+13642,44.3267,-75.4676
+13643,44.0322,-75.7176
+13645,44.3088,-75.4466
+13646,44.4439,-75.6920
+13647,44.6017,-74.9927
+13648,44.1508,-75.3043
+13649,44.9124,-74.6998
+13650,43.8113,-76.2161
+13651,43.8662,-76.1770
+13652,44.4346,-75.2136
+13654,44.5718,-75.4881
+13655,44.9787,-74.6431
+13656,44.1933,-75.9546
+13658,44.7478,-75.2712
+13659,43.7380,-75.8634
+13660,44.7739,-75.1610
+13661,43.7096,-76.0984
+13662,44.9373,-74.8942
+13664,44.5840,-75.6455
+13665,44.0485,-75.4344
+13666,44.2192,-74.9476
+13667,44.8029,-75.0205
+13668,44.7548,-74.9863
+13669,44.6592,-75.4916
+13670,44.1868,-75.0998
+13672,44.4705,-74.6607
+13673,44.1808,-75.7260
+13674,43.7373,-76.0519
+13675,44.2770,-75.8437
+13676,44.6555,-74.9102
+13678,44.8316,-74.9678
+13679,44.3261,-75.7652
+13680,44.5936,-75.3291
+13681,44.4281,-75.3732
+13682,43.8433,-75.9019
+13683,44.9739,-74.7355
+13684,44.3566,-75.0131
+13685,43.9255,-76.0855
+13687,44.4390,-74.8382
+13690,44.1365,-75.0144
+13691,44.2316,-75.7705
+13692,44.2886,-76.0257
+13693,43.9857,-76.2461
+13694,44.8594,-75.1707
+13695,44.1029,-74.9223
+13696,44.7041,-74.8896
+13697,44.7547,-74.8103
+13699,44.6637,-74.9984
+13730,42.2320,-75.5326
+13731,42.1296,-74.7878
+13732,42.0494,-76.1675
+13733,42.3018,-75.4798
+13734,42.0700,-76.4097
+13736,42.3235,-76.1929
+13738,42.5623,-76.1198
+13739,42.3491,-74.7891
+13740,42.2738,-74.7570
+13743,42.2119,-76.3382
+13744,42.2435,-75.9080
+13746,42.2372,-75.8628
+13747,42.4900,-74.9820
+13748,42.0426,-75.8225
+13750,42.4775,-74.8358
+13751,42.4582,-74.8752
+13752,42.1730,-74.9034
+13753,42.3070,-74.9269
+13754,42.0885,-75.4479
+13755,42.0714,-75.0239
+13756,42.0041,-75.1007
+13757,42.4321,-74.8378
+13760,42.1333,-76.0846
+13774,41.9587,-75.1846
+13775,42.3279,-75.1340
+13776,42.4711,-75.3412
+13777,42.2589,-75.9866
+13778,42.3592,-75.7595
+13780,42.4225,-75.4766
+13782,42.1701,-74.9913
+13783,41.9868,-75.2710
+13784,42.4353,-76.2177
+13786,42.4452,-74.7029
+13787,42.2184,-75.6767
+13788,42.3390,-74.6663
+13790,42.1654,-76.0019
+13795,42.0565,-75.7792
+13796,42.5572,-75.1321
+13797,42.3337,-76.0404
+13801,42.5051,-75.7770
+13802,42.2421,-76.0413
+13803,42.4580,-76.0540
+13804,42.2257,-75.3842
+13806,42.3806,-74.9761
+13807,42.6175,-74.9728
+13808,42.5252,-75.2622
+13809,42.4085,-75.3914
+13810,42.6068,-75.1084
+13811,42.2349,-76.1641
+13812,42.0301,-76.3548
+13813,42.1806,-75.5503
+13814,42.6165,-75.5260
+13815,42.5474,-75.5336
+13820,42.4834,-75.0369
+13825,42.4356,-75.2046
+13826,42.0918,-75.6337
+13827,42.1178,-76.2492
+13830,42.4427,-75.6447
+13832,42.6546,-75.6625
+13833,42.1980,-75.7616
+13834,42.5505,-74.9673
+13835,42.3832,-76.1790
+13838,42.2885,-75.3961
+13839,42.2404,-75.2591
+13841,42.4072,-75.8408
+13842,42.3679,-74.7218
+13843,42.5561,-75.3490
+13844,42.6057,-75.6896
+13846,42.3638,-75.0548
+13847,42.2045,-75.2777
+13849,42.3412,-75.3220
+13850,42.0494,-76.0176
+13856,42.1710,-75.1833
+13859,42.3712,-75.2491
+13860,42.4584,-74.9455
+13861,42.5045,-75.1390
+13862,42.3309,-75.9311
+13863,42.4354,-75.9062
+13864,42.2750,-76.3905
+13865,42.0586,-75.6248
+13901,42.1832,-75.8760
+13902,42.0888,-75.9689
+13903,42.0419,-75.8891
+13904,42.1341,-75.8202
+13905,42.1704,-75.9434
+14001,43.0366,-78.5108
+14004,42.8914,-78.5037
+14005,42.9206,-78.2501
+14006,42.6331,-79.0217
+14008,43.3127,-78.6232
+14009,42.5932,-78.3975
+14011,42.8307,-78.2997
+14012,43.3322,-78.5326
+14013,43.0762,-78.3943
+14020,42.9962,-78.2134
+14024,42.5814,-78.2455
+14025,42.6232,-78.7261
+14026,42.9422,-78.6880
+14027,42.5941,-79.0207
+14028,43.3146,-78.7171
+14029,42.4729,-78.2634
+14030,42.5597,-78.4901
+14031,42.9831,-78.6143
+14032,43.0459,-78.6319
+14033,42.6603,-78.6843
+14034,42.5006,-78.8654
+14035,42.4910,-78.8594
+14036,42.9739,-78.3895
+14037,42.8028,-78.4533
+14039,42.8515,-78.1777
+14040,42.8822,-78.3775
+14041,42.4004,-78.9766
+14042,42.4756,-78.4888
+14043,42.9007,-78.7045
+14047,42.6874,-78.9866
+14048,42.4868,-79.3136
+14051,43.0428,-78.6994
+14052,42.7725,-78.5843
+14054,42.9090,-78.1278
+14055,42.5629,-78.6001
+14056,42.9918,-78.3066
+14057,42.6466,-78.8748
+14058,43.1020,-78.1689
+14059,42.8336,-78.6340
+14060,42.4416,-78.3161
+14061,42.5911,-79.0895
+14062,42.4509,-79.1526
+14063,42.4087,-79.3313
+14065,42.4849,-78.3128
+14066,42.6291,-78.1855
+14067,43.2122,-78.5563
+14068,43.0288,-78.7588
+14069,42.6003,-78.6384
+14070,42.4197,-78.9177
+14072,43.0179,-78.9627
+14075,42.7134,-78.8303
+14080,42.6347,-78.5608
+14081,42.5632,-79.0678
+14082,42.6566,-78.3852
+14083,42.6792,-78.4344
+14085,42.7143,-78.9277
+14086,42.9055,-78.6291
+14091,42.5382,-78.8930
+14092,43.1732,-78.9931
+14094,43.1578,-78.7020
+14098,43.3346,-78.3783
+14101,42.3927,-78.5382
+14102,42.8427,-78.5548
+14103,43.2112,-78.3768
+14105,43.1802,-78.4866
+14108,43.2637,-78.7275
+14109,43.1372,-79.0351
+14111,42.5848,-78.8951
+14112,42.6983,-78.9396
+14113,42.6606,-78.3226
+14120,43.0792,-78.8428
+14125,43.0849,-78.2746
+14126,43.3359,-78.7286
+14127,42.7528,-78.7397
+14129,42.4812,-79.0174
+14130,42.5532,-78.1495
+14131,43.2386,-78.8998
+14132,43.1479,-78.8786
+14134,42.5305,-78.5174
+14135,42.4849,-79.2437
+14136,42.5174,-79.1750
+14138,42.3832,-79.0526
+14139,42.7184,-78.5414
+14141,42.5250,-78.7121
+14143,42.9770,-78.0758
+14145,42.7340,-78.4284
+14150,42.9981,-78.8783
+14166,42.4510,-79.4161
+14167,42.7484,-78.3230
+14168,42.5119,-78.9874
+14169,42.7645,-78.5293
+14170,42.7002,-78.6743
+14171,42.4247,-78.6498
+14172,43.2727,-78.8129
+14173,42.5259,-78.4731
+14174,43.2491,-78.9983
+14201,42.8976,-78.8879
+14202,42.8815,-78.8775
+14203,42.8611,-78.8636
+14204,42.8818,-78.8619
+14206,42.8808,-78.8102
+14207,42.9519,-78.8989
+14208,42.9146,-78.8515
+14209,42.9137,-78.8662
+14210,42.8627,-78.8288
+14211,42.9067,-78.8199
+14212,42.8950,-78.8195
+14213,42.9172,-78.8918
+14214,42.9398,-78.8411
+14215,42.9345,-78.8102
+14216,42.9496,-78.8625
+14217,42.9719,-78.8768
+14218,42.8188,-78.8290
+14219,42.7887,-78.8264
+14220,42.8457,-78.8221
+14221,42.9845,-78.7228
+14222,42.9200,-78.8771
+14223,42.9735,-78.8461
+14224,42.8378,-78.7478
+14225,42.9289,-78.7503
+14226,42.9703,-78.7980
+14227,42.8840,-78.7467
+14228,43.0444,-78.7773
+14260,43.0017,-78.7906
+14261,42.9971,-78.7921
+14301,43.0970,-79.0373
+14302,43.0939,-79.0492
+14303,43.0842,-79.0367
+14304,43.1050,-78.9480
+14305,43.1228,-79.0232
+14411,43.2360,-78.2165
+14413,43.2229,-76.9706
+14414,42.8910,-77.7438
+14415,42.7559,-77.0165
+14416,43.0827,-77.9801
+14418,42.6044,-77.2164
+14420,43.2144,-77.9292
+14422,43.0848,-78.0670
+14423,42.9377,-77.8352
+14424,42.8564,-77.3035
+14425,42.9896,-77.3373
+14427,42.6149,-78.0512
+14428,43.0805,-77.8536
+14432,42.9557,-77.1408
+14433,43.0772,-76.8787
+14435,42.7126,-77.6633
+14437,42.5701,-77.7338
+14441,42.6864,-76.9585
+14445,43.1131,-77.4903
+14450,43.0924,-77.4203
+14453,43.0161,-77.4736
+14454,42.8027,-77.7672
+14456,42.8477,-76.9990
+14462,42.6865,-77.7511
+14463,42.7954,-77.0689
+14464,43.3258,-77.9395
+14466,42.7762,-77.5775
+14467,43.0364,-77.6120
+14468,43.2940,-77.8020
+14469,42.8779,-77.4710
+14470,43.2052,-78.0577
+14471,42.7431,-77.4912
+14472,42.9652,-77.5830
+14475,42.9368,-77.4979
+14476,43.3294,-78.0428
+14477,43.3357,-78.1334
+14478,42.5801,-77.1279
+14479,43.2363,-78.3045
+14480,42.8382,-77.7074
+14481,42.7717,-77.9164
+14482,42.9674,-77.9719
+14485,42.8826,-77.6010
+14486,42.8929,-77.9230
+14487,42.8082,-77.6400
+14489,43.0898,-76.9943
+14502,43.0966,-77.3354
+14504,42.9684,-77.2327
+14505,43.1586,-77.1743
+14506,43.0022,-77.5053
+14507,42.6849,-77.2549
+14510,42.6960,-77.8669
+14511,42.9994,-77.8918
+14512,42.6452,-77.3998
+14513,43.0759,-77.1006
+14514,43.0789,-77.8108
+14515,43.2528,-77.7316
+14516,43.1979,-76.9113
+14517,42.5922,-77.8971
+14519,43.2340,-77.3146
+14521,42.6766,-76.8050
+14522,43.0598,-77.2203
+14525,42.8775,-78.0133
+14526,43.1515,-77.4444
+14527,42.6662,-77.0633
+14529,42.5375,-77.6441
+14530,42.7399,-77.9987
+14532,42.9641,-77.0321
+14533,42.8475,-77.8830
+14534,43.0569,-77.5210
+14536,42.5376,-78.0787
+14537,43.0353,-77.1560
+14539,42.8341,-77.8753
+14541,42.7651,-76.8490
+14542,43.1531,-76.8758
+14543,42.9838,-77.6785
+14544,42.7561,-77.2400
+14545,42.6616,-77.7106
+14546,43.0327,-77.7801
+14548,42.9754,-77.2435
+14549,42.6967,-78.0221
+14550,42.6799,-78.0935
+14551,43.2181,-77.0494
+14555,43.2680,-76.9779
+14556,42.6790,-77.8322
+14557,43.0434,-78.0682
+14559,43.1900,-77.8191
+14560,42.6907,-77.5830
+14561,42.8222,-77.1313
+14564,42.9867,-77.4344
+14568,43.1438,-77.2864
+14569,42.7505,-78.1694
+14571,43.3417,-78.2517
+14572,42.5649,-77.5626
+14580,43.2173,-77.4445
+14585,42.9058,-77.5529
+14586,43.0417,-77.6899
+14588,42.6797,-76.8704
+14589,43.2391,-77.1691
+14590,43.2454,-76.8321
+14591,42.8321,-78.1074
+14592,42.8688,-77.8906
+14604,43.1567,-77.6052
+14605,43.1684,-77.6004
+14606,43.1710,-77.6980
+14607,43.1509,-77.5868
+14608,43.1541,-77.6229
+14609,43.1771,-77.5518
+14610,43.1410,-77.5447
+14611,43.1483,-77.6470
+14612,43.2636,-77.6726
+14613,43.1822,-77.6402
+14614,43.1576,-77.6147
+14615,43.2012,-77.6547
+14616,43.2343,-77.6582
+14617,43.2258,-77.5866
+14618,43.1145,-77.5550
+14619,43.1365,-77.6495
+14620,43.1283,-77.6044
+14621,43.1899,-77.6036
+14622,43.2140,-77.5509
+14623,43.0873,-77.6419
+14624,43.1283,-77.7314
+14625,43.1500,-77.5055
+14626,43.2137,-77.7123
+14627,43.1286,-77.6301
+14642,43.1228,-77.6251
+14701,42.0778,-79.2591
+14706,42.1062,-78.5283
+14707,42.0826,-78.0620
+14708,42.0192,-78.0636
+14709,42.3565,-77.9821
+14710,42.0879,-79.4198
+14711,42.3184,-78.1279
+14712,42.1837,-79.3619
+14714,42.2900,-78.2411
+14715,42.0765,-78.1448
+14716,42.3811,-79.4372
+14717,42.3618,-78.1795
+14718,42.3459,-79.2876
+14719,42.3420,-78.8760
+14720,42.1086,-79.2799
+14721,42.0166,-78.2680
+14722,42.2096,-79.4688
+14723,42.3176,-79.1571
+14724,42.0463,-79.6698
+14726,42.2536,-79.0203
+14727,42.2136,-78.2931
+14728,42.2726,-79.4105
+14729,42.4084,-78.7436
+14731,42.3074,-78.6555
+14732,42.2189,-79.1072
+14733,42.1602,-79.1721
+14735,42.4527,-78.0962
+14736,42.1371,-79.7464
+14737,42.3291,-78.4286
+14738,42.0529,-79.0576
+14739,42.1867,-78.1568
+14740,42.2232,-79.1814
+14741,42.2200,-78.6116
+14742,42.1195,-79.3089
+14743,42.2116,-78.4104
+14744,42.4281,-78.2067
+14747,42.1537,-79.0945
+14748,42.1571,-78.6431
+14750,42.0794,-79.3275
+14752,42.3517,-79.3198
+14753,42.0435,-78.6361
+14754,42.0219,-78.2016
+14755,42.2288,-78.8159
+14756,42.1970,-79.4237
+14757,42.2375,-79.5053
+14760,42.0731,-78.4176
+14767,42.0574,-79.5141
+14769,42.3859,-79.4727
+14770,42.0379,-78.3003
+14772,42.1444,-78.9544
+14774,42.0888,-78.1467
+14775,42.2288,-79.6999
+14777,42.3861,-78.2738
+14778,42.0776,-78.4827
+14779,42.1063,-78.7697
+14781,42.1667,-79.6087
+14782,42.2666,-79.2517
+14783,42.0672,-78.9286
+14784,42.3111,-79.3854
+14785,42.1558,-79.4034
+14787,42.3175,-79.5695
+14788,42.0615,-78.3806
+14801,42.1041,-77.2930
+14802,42.2538,-77.7899
+14803,42.2333,-77.7951
+14804,42.3144,-77.8514
+14805,42.3501,-76.7194
+14806,42.1588,-77.7880
+14807,42.4196,-77.7205
+14808,42.5581,-77.4688
+14809,42.4243,-77.4488
+14810,42.3475,-77.3469
+14812,42.3007,-77.0052
+14813,42.2526,-77.9951
+14814,42.1556,-76.9593
+14815,42.3743,-77.0868
+14816,42.1977,-76.7356
+14817,42.3576,-76.3352
+14818,42.4549,-76.8189
+14819,42.2242,-77.4419
+14820,42.1953,-77.3704
+14821,42.2416,-77.2193
+14822,42.4390,-77.8469
+14823,42.2421,-77.5295
+14824,42.2658,-76.6931
+14825,42.0777,-76.6132
+14826,42.4962,-77.4925
+14827,42.1807,-77.1429
+14830,42.1283,-77.0263
+14836,42.5330,-77.8697
+14837,42.5002,-77.0194
+14838,42.1894,-76.6671
+14839,42.1475,-77.6278
+14840,42.4417,-77.1944
+14841,42.5270,-76.8425
+14842,42.6006,-76.9815
+14843,42.3343,-77.6353
+14845,42.2032,-76.8393
+14846,42.5285,-78.0044
+14847,42.6085,-76.7342
+14850,42.4318,-76.5002
+14853,42.4464,-76.4812
+14854,42.5115,-76.6074
+14855,42.1457,-77.4974
+14856,42.3773,-77.3694
+14858,42.0298,-77.1350
+14859,42.1241,-76.5369
+14860,42.5918,-76.8424
+14861,42.0882,-76.6862
+14864,42.2867,-76.8445
+14865,42.3527,-76.8169
+14867,42.3371,-76.6102
+14869,42.3623,-76.7690
+14870,42.1604,-77.1276
+14871,42.0396,-76.9114
+14872,42.2413,-76.8708
+14873,42.5229,-77.2984
+14874,42.5293,-77.1645
+14877,42.0606,-77.6873
+14878,42.4494,-76.9440
+14879,42.3049,-77.1970
+14880,42.1741,-77.9754
+14881,42.3999,-76.3589
+14882,42.5856,-76.5793
+14883,42.2377,-76.4756
+14884,42.4795,-77.8939
+14885,42.0479,-77.5712
+14886,42.5007,-76.6903
+14889,42.2342,-76.5791
+14891,42.3773,-76.9450
+14892,42.0460,-76.5291
+14893,42.4695,-77.1118
+14894,42.0191,-76.7771
+14895,42.0814,-77.9409
+14897,42.0207,-77.7926
+14898,42.0534,-77.4295
+14901,42.0735,-76.7395
+14903,42.1173,-76.8785
+14904,42.0700,-76.8082
+14905,42.0877,-76.8433
+15001,40.5954,-80.3228
+15003,40.6036,-80.2164
+15004,40.3422,-80.3829
+15005,40.6437,-80.1863
+15006,40.6337,-79.8768
+15007,40.6513,-79.9316
+15009,40.6979,-80.3653
+15010,40.7709,-80.3514
+15012,40.1555,-79.8130
+15014,40.6086,-79.7415
+15015,40.6363,-80.0816
+15017,40.3468,-80.1326
+15018,40.2803,-79.7999
+15019,40.4070,-80.3286
+15020,40.2275,-79.9541
+15021,40.3886,-80.4415
+15022,40.1249,-79.9393
+15024,40.5850,-79.8473
+15025,40.2974,-79.9210
+15026,40.5058,-80.3573
+15027,40.6663,-80.2402
+15028,40.3029,-79.8026
+15030,40.5923,-79.7831
+15031,40.3481,-80.1622
+15033,40.1801,-79.8648
+15034,40.3506,-79.8902
+15035,40.3849,-79.8073
+15037,40.2580,-79.8526
+15038,40.2502,-79.9260
+15042,40.6903,-80.2048
+15043,40.5517,-80.4879
+15044,40.6380,-79.9479
+15045,40.3258,-79.8860
+15046,40.5557,-80.2286
+15047,40.3135,-79.7962
+15049,40.5555,-79.8036
+15050,40.5621,-80.4438
+15051,40.5682,-79.8608
+15052,40.6658,-80.4270
+15053,40.3805,-80.3598
+15054,40.3627,-80.3972
+15055,40.3063,-80.1235
+15056,40.5639,-80.2160
+15057,40.3587,-80.2439
+15059,40.6737,-80.5089
+15060,40.3702,-80.2888
+15061,40.6637,-80.3084
+15062,40.1520,-79.8830
+15063,40.1912,-79.9225
+15064,40.3553,-80.1484
+15065,40.6442,-79.7254
+15066,40.7471,-80.2561
+15067,40.2073,-79.9624
+15068,40.5572,-79.7258
+15071,40.4149,-80.1898
+15072,40.1393,-79.8561
+15074,40.7340,-80.2084
+15075,40.5865,-79.8271
+15076,40.6095,-79.8373
+15077,40.6251,-80.4174
+15078,40.3595,-80.3851
+15081,40.5751,-80.2361
+15082,40.3803,-80.2106
+15083,40.2597,-79.7862
+15084,40.6286,-79.8033
+15085,40.3850,-79.7254
+15086,40.6749,-80.1085
+15087,40.1924,-79.8507
+15088,40.2706,-79.8962
+15089,40.2252,-79.7488
+15090,40.6250,-80.0671
+15101,40.5803,-79.9552
+15102,40.3212,-80.0371
+15104,40.4040,-79.8624
+15106,40.4088,-80.1087
+15108,40.5005,-80.2018
+15110,40.3735,-79.8502
+15112,40.4046,-79.8374
+15116,40.5259,-79.9339
+15120,40.3959,-79.9075
+15122,40.3612,-79.8956
+15123,40.3482,-79.9348
+15126,40.4602,-80.2873
+15129,40.2935,-79.9952
+15131,40.3388,-79.7961
+15132,40.3398,-79.8428
+15133,40.3267,-79.8668
+15135,40.2997,-79.8122
+15136,40.4635,-80.1067
+15137,40.3757,-79.8088
+15139,40.5228,-79.8363
+15140,40.4072,-79.7783
+15142,40.3848,-80.1223
+15143,40.5681,-80.1468
+15144,40.5472,-79.7826
+15145,40.4145,-79.8235
+15146,40.4282,-79.7611
+15147,40.4974,-79.8311
+15148,40.3935,-79.7952
+15201,40.4823,-79.9415
+15202,40.5069,-80.0717
+15203,40.4254,-79.9758
+15204,40.4569,-80.0606
+15205,40.4381,-80.1055
+15206,40.4723,-79.9132
+15207,40.3993,-79.9348
+15208,40.4539,-79.8988
+15209,40.4988,-79.9697
+15210,40.4070,-79.9850
+15211,40.4302,-80.0154
+15212,40.4571,-79.9946
+15213,40.4356,-79.9641
+15214,40.4862,-80.0128
+15215,40.5014,-79.9127
+15216,40.4028,-80.0348
+15217,40.4308,-79.9201
+15218,40.4236,-79.8898
+15219,40.4428,-79.9841
+15220,40.4188,-80.0490
+15221,40.4355,-79.8658
+15222,40.4496,-79.9907
+15223,40.5042,-79.9510
+15224,40.4674,-79.9463
+15225,40.5067,-80.1138
+15226,40.3952,-80.0138
+15227,40.3750,-79.9708
+15228,40.3707,-80.0440
+15229,40.5199,-80.0387
+15232,40.4525,-79.9320
+15233,40.4603,-80.0326
+15234,40.3681,-80.0178
+15235,40.4596,-79.8220
+15236,40.3476,-79.9765
+15237,40.5484,-80.0462
+15238,40.5379,-79.8794
+15239,40.4844,-79.7376
+15241,40.3329,-80.0829
+15243,40.3765,-80.0714
+15260,40.4432,-79.9531
+15275,40.4524,-80.1841
+15282,40.4360,-79.9905
+15290,40.4573,-80.0193
+15301,40.1643,-80.2524
+15310,39.7925,-80.4811
+15311,40.0461,-80.1859
+15312,40.2515,-80.4407
+15313,40.0632,-80.0294
+15314,40.1463,-80.0168
+15315,39.7574,-79.9832
+15316,39.7635,-80.2677
+15317,40.2763,-80.1717
+15320,39.8692,-79.9893
+15321,40.3217,-80.1872
+15322,39.9882,-80.0533
+15323,40.1032,-80.4174
+15324,40.1007,-80.0654
+15325,39.9493,-79.9635
+15327,39.7549,-79.9691
+15329,40.0277,-80.2799
+15330,40.1794,-80.0900
+15331,40.1053,-80.0226
+15332,40.2402,-79.9935
+15333,40.0308,-80.0132
+15334,39.8129,-79.9672
+15337,39.9522,-80.3782
+15338,39.8409,-79.9838
+15340,40.2865,-80.3226
+15341,39.8242,-80.3439
+15342,40.2454,-80.2206
+15344,39.9229,-80.0507
+15345,40.0217,-80.1074
+15346,39.9356,-80.0745
+15347,40.2180,-80.2246
+15348,39.9857,-79.9962
+15349,39.7614,-80.0732
+15350,40.2938,-80.2006
+15351,39.8785,-79.9306
+15352,39.7549,-80.4026
+15353,39.9622,-80.3112
+15357,39.9416,-79.9804
+15358,40.0550,-80.0031
+15359,39.8766,-80.2756
+15360,40.0885,-80.0815
+15361,40.3328,-80.2623
+15362,39.7574,-80.2144
+15363,40.2516,-80.1977
+15364,39.9542,-80.2839
+15365,40.1557,-80.3855
+15366,40.1597,-79.9739
+15367,40.2611,-80.0557
+15368,40.0139,-79.9893
+15370,39.8739,-80.1861
+15376,40.1089,-80.4791
+15377,39.9885,-80.4490
+15378,40.2778,-80.2744
+15379,40.2432,-80.4252
+15380,39.8784,-80.4673
+15401,39.9007,-79.7479
+15410,39.9085,-79.9060
+15411,39.7473,-79.3435
+15412,40.1009,-79.8531
+15413,39.9849,-79.8714
+15416,39.8591,-79.7228
+15417,40.0056,-79.9212
+15419,40.0566,-79.8905
+15420,39.9612,-79.8643
+15421,39.8452,-79.5974
+15422,39.9790,-79.8092
+15423,40.0938,-79.9282
+15424,39.8269,-79.3563
+15425,40.0297,-79.5488
+15427,40.0675,-79.9707
+15428,40.0843,-79.6820
+15429,40.0083,-79.9425
+15430,40.0394,-79.6544
+15431,39.9313,-79.5725
+15432,40.1096,-79.8588
+15433,39.9827,-79.9487
+15434,40.0812,-79.8908
+15435,39.9432,-79.8473
+15436,39.8185,-79.7255
+15437,39.7945,-79.5904
+15438,40.0729,-79.8593
+15440,39.7377,-79.6436
+15442,40.0192,-79.8398
+15443,39.9192,-79.8845
+15444,40.0134,-79.9085
+15445,39.8761,-79.6678
+15446,40.0263,-79.3865
+15447,39.9517,-79.9324
+15448,40.1360,-79.7325
+15449,39.9727,-79.7806
+15450,40.0087,-79.9750
+15451,39.7369,-79.8358
+15454,39.8604,-79.8655
+15455,40.0061,-79.6461
+15456,39.9266,-79.6521
+15458,39.8872,-79.8510
+15459,39.7652,-79.4645
+15460,39.8071,-79.9076
+15461,39.8400,-79.9000
+15462,40.0613,-79.3811
+15463,39.9629,-79.8992
+15464,39.9301,-79.4362
+15465,39.9389,-79.6413
+15466,40.0780,-79.8889
+15467,39.7825,-79.8987
+15468,39.9501,-79.8326
+15469,40.0136,-79.4186
+15470,39.8528,-79.5317
+15472,39.9194,-79.7168
+15473,40.0751,-79.7679
+15474,39.7529,-79.9027
+15475,39.9582,-79.8806
+15476,39.8680,-79.9228
+15477,40.0788,-79.8629
+15478,39.7875,-79.8047
+15479,40.1512,-79.7075
+15480,39.9856,-79.7736
+15482,40.0607,-79.7665
+15483,40.0831,-79.8508
+15484,39.8924,-79.7786
+15486,40.0259,-79.7112
+15488,39.9775,-79.7597
+15489,39.9553,-79.6975
+15490,40.0767,-79.4815
+15492,40.1198,-79.7631
+15501,40.0397,-79.1298
+15502,40.0272,-79.2440
+15510,39.9643,-79.0400
+15520,40.1063,-79.0602
+15521,40.1998,-78.6302
+15522,39.9417,-78.5484
+15530,39.9408,-78.9240
+15531,40.1839,-79.0821
+15532,39.7623,-79.0608
+15533,39.9796,-78.2587
+15534,39.8993,-78.6912
+15535,39.8310,-78.4439
+15536,39.9376,-78.2064
+15537,39.9907,-78.3743
+15538,39.8637,-78.8345
+15539,40.1284,-78.5934
+15540,39.7974,-79.2393
+15541,40.0482,-78.9809
+15542,39.8674,-79.0785
+15544,40.1325,-79.0965
+15545,39.8022,-78.7525
+15546,40.1371,-79.0476
+15547,40.1629,-79.0703
+15550,39.9946,-78.6531
+15551,39.8682,-79.2848
+15552,39.7903,-78.9877
+15554,40.1229,-78.6218
+15555,40.0975,-79.0814
+15557,39.9161,-79.2053
+15558,39.7623,-79.0799
+15559,40.0602,-78.6911
+15560,40.0169,-78.9067
+15561,40.0938,-79.0907
+15562,39.7406,-79.1076
+15563,40.0904,-78.9367
+15564,39.7297,-78.8454
+15565,39.7590,-79.1156
+15601,40.3133,-79.5364
+15610,40.1313,-79.4153
+15611,40.3066,-79.6527
+15612,40.1379,-79.5993
+15613,40.5466,-79.5617
+15615,40.3613,-79.7340
+15616,40.2351,-79.5509
+15617,40.2682,-79.6554
+15618,40.5710,-79.4399
+15619,40.3206,-79.4971
+15620,40.3234,-79.3388
+15622,40.0381,-79.3197
+15623,40.3689,-79.6227
+15624,40.3664,-79.4713
+15625,40.2705,-79.6792
+15626,40.4087,-79.5759
+15627,40.3516,-79.3026
+15628,40.1001,-79.3702
+15629,40.5974,-79.5629
+15631,40.0897,-79.5853
+15632,40.4357,-79.6055
+15633,40.3593,-79.5171
+15634,40.3253,-79.6060
+15635,40.3479,-79.5016
+15636,40.3648,-79.6561
+15637,40.2612,-79.7121
+15638,40.2646,-79.4016
+15639,40.2036,-79.5938
+15640,40.2231,-79.7325
+15641,40.6316,-79.5890
+15642,40.3193,-79.7237
+15644,40.3468,-79.6128
+15646,40.0952,-79.3445
+15647,40.3426,-79.7200
+15650,40.2772,-79.3929
+15655,40.1978,-79.1778
+15656,40.6412,-79.6178
+15658,40.2688,-79.2163
+15660,40.2467,-79.7730
+15661,40.3219,-79.3599
+15662,40.3389,-79.4797
+15663,40.2523,-79.6796
+15665,40.3394,-79.6635
+15666,40.1610,-79.5098
+15668,40.4648,-79.6714
+15670,40.4073,-79.4437
+15671,40.3603,-79.3214
+15672,40.2438,-79.6216
+15673,40.5938,-79.5566
+15674,40.2068,-79.4964
+15675,40.3336,-79.6387
+15676,40.2430,-79.4591
+15677,40.1504,-79.2311
+15678,40.2845,-79.7258
+15679,40.1877,-79.6558
+15680,40.5211,-79.4964
+15681,40.5023,-79.4390
+15682,40.6816,-79.6328
+15683,40.1072,-79.6082
+15684,40.4629,-79.5064
+15686,40.6150,-79.4371
+15687,40.1362,-79.3164
+15688,40.1735,-79.5861
+15689,40.2253,-79.4917
+15690,40.6414,-79.5494
+15691,40.2966,-79.6840
+15692,40.3308,-79.6786
+15693,40.2494,-79.4059
+15695,40.1970,-79.6928
+15696,40.2798,-79.3659
+15697,40.2399,-79.5806
+15698,40.2144,-79.6885
+15701,40.6291,-79.1501
+15705,40.6157,-79.1599
+15710,40.6425,-78.8717
+15711,41.0184,-78.9556
+15712,40.7932,-78.8469
+15713,40.5698,-79.2618
+15714,40.6439,-78.8334
+15715,40.9707,-78.8774
+15716,40.4691,-79.1881
+15717,40.4572,-79.2432
+15720,40.5389,-79.0658
+15721,40.8198,-78.7839
+15722,40.6011,-78.7205
+15723,40.6987,-79.1587
+15724,40.7351,-78.8136
+15725,40.5189,-79.3488
+15727,40.5650,-79.3149
+15728,40.6764,-78.9668
+15729,40.7064,-78.9151
+15730,41.0265,-79.0827
+15731,40.5012,-79.1729
+15732,40.7327,-79.2165
+15733,40.9889,-78.9593
+15734,40.7197,-79.0090
+15736,40.6994,-79.3693
+15737,40.5988,-78.7536
+15738,40.6904,-78.7817
+15739,40.6787,-79.1646
+15741,40.8025,-78.8910
+15742,40.8105,-78.8701
+15744,40.9194,-79.0730
+15745,40.6226,-78.9135
+15746,40.7539,-78.8732
+15747,40.7641,-79.1433
+15748,40.5236,-79.0841
+15750,40.4838,-79.1826
+15752,40.5409,-79.2818
+15753,40.7833,-78.6309
+15754,40.5567,-79.1515
+15756,40.5698,-79.3023
+15757,40.9030,-78.7317
+15759,40.7730,-79.0317
+15760,40.6458,-78.8051
+15761,40.6341,-78.8901
+15762,40.5943,-78.8293
+15763,40.9071,-79.1280
+15764,40.9946,-79.0270
+15765,40.5926,-79.0003
+15767,40.9656,-78.9755
+15770,41.0091,-79.1367
+15771,40.8316,-78.9891
+15772,40.8702,-78.8987
+15773,40.6307,-78.7303
+15774,40.6547,-79.3238
+15775,40.6348,-78.7840
+15776,41.0110,-79.1116
+15777,40.6974,-78.9626
+15778,40.9690,-79.1984
+15779,40.4001,-79.2184
+15780,40.9209,-79.0433
+15781,40.9637,-78.9869
+15783,40.6030,-79.3449
+15784,41.0245,-79.1411
+15801,41.1300,-78.7283
+15821,41.3718,-78.3971
+15823,41.2599,-78.7157
+15824,41.2462,-78.8375
+15825,41.1700,-79.0403
+15827,41.2947,-78.5058
+15828,41.3854,-79.1233
+15829,41.2095,-79.2440
+15831,41.3530,-78.6041
+15832,41.3565,-78.1973
+15834,41.5008,-78.3228
+15840,41.1720,-78.8226
+15841,41.2579,-78.5044
+15845,41.5084,-78.7070
+15846,41.3400,-78.6085
+15847,41.0859,-79.0297
+15848,41.0302,-78.7106
+15849,41.1871,-78.5730
+15851,41.1029,-78.9104
+15853,41.3923,-78.7916
+15856,41.0823,-78.6143
+15857,41.4550,-78.5202
+15860,41.3456,-79.0368
+15861,41.3528,-78.0362
+15863,41.0157,-78.8385
+15864,41.1022,-79.1901
+15865,41.0503,-78.8139
+15866,41.0294,-78.7877
+15868,41.3005,-78.4088
+15870,41.5828,-78.5824
+15901,40.3282,-78.9119
+15902,40.3192,-78.8688
+15904,40.3127,-78.8396
+15905,40.2907,-78.9699
+15906,40.3846,-78.9341
+15909,40.4097,-78.8697
+15920,40.4680,-79.0468
+15921,40.3164,-78.6979
+15922,40.5185,-78.8780
+15923,40.3552,-79.1585
+15924,40.1034,-78.7629
+15925,40.4086,-78.6407
+15926,40.0268,-78.8168
+15927,40.5415,-78.7802
+15928,40.2393,-78.9187
+15929,40.4802,-79.0112
+15930,40.2947,-78.7175
+15931,40.5149,-78.7836
+15934,40.2810,-78.7962
+15935,40.1979,-78.9672
+15936,40.1609,-78.8926
+15937,40.2146,-78.9810
+15938,40.4155,-78.5972
+15940,40.5265,-78.6436
+15942,40.3983,-78.8110
+15943,40.4748,-78.8355
+15944,40.3639,-79.0792
+15945,40.3591,-78.8687
+15946,40.3701,-78.6181
+15948,40.4897,-78.7670
+15949,40.4065,-79.1352
+15951,40.3332,-78.7707
+15952,40.3035,-78.7761
+15953,40.2084,-78.8849
+15954,40.4178,-78.9999
+15955,40.3089,-78.6932
+15956,40.3507,-78.7960
+15957,40.5463,-78.9000
+15958,40.3875,-78.7308
+15960,40.4984,-78.8518
+15961,40.4664,-78.9434
+15962,40.3894,-78.7164
+15963,40.2196,-78.7853
+16001,40.9100,-79.9452
+16002,40.8151,-79.8553
+16020,41.1165,-79.8965
+16022,41.0546,-79.7332
+16023,40.7850,-79.7492
+16024,40.7398,-80.0372
+16025,40.9399,-79.7713
+16027,40.8183,-80.0154
+16028,40.9513,-79.6356
+16029,40.8799,-79.8460
+16030,41.1362,-79.7969
+16033,40.7964,-80.0490
+16034,40.8579,-79.7150
+16035,41.1090,-80.0145
+16036,41.1342,-79.6687
+16037,40.8426,-80.1338
+16038,41.1645,-79.9533
+16040,41.0939,-79.8413
+16041,41.0070,-79.7139
+16045,40.8528,-79.9163
+16046,40.7026,-80.0240
+16048,41.0522,-79.8035
+16049,41.0941,-79.6718
+16050,41.0440,-79.7615
+16051,40.9427,-80.1388
+16052,40.8993,-80.0616
+16053,40.8120,-79.9826
+16054,41.1520,-79.6612
+16055,40.7169,-79.7497
+16056,40.7284,-79.8418
+16057,41.0341,-80.0603
+16059,40.7071,-79.9271
+16061,41.0051,-79.8847
+16063,40.7562,-80.1311
+16066,40.7100,-80.1056
+16101,40.9840,-80.2902
+16102,40.9622,-80.4154
+16105,41.0540,-80.3394
+16110,41.4947,-80.3874
+16111,41.5185,-80.2835
+16112,40.9605,-80.4984
+16113,41.2808,-80.4241
+16114,41.4043,-80.1877
+16115,40.7965,-80.4635
+16116,41.0442,-80.4496
+16117,40.8718,-80.2562
+16120,40.8853,-80.4792
+16121,41.2111,-80.4973
+16123,40.8219,-80.1965
+16124,41.3334,-80.2648
+16125,41.4065,-80.3697
+16127,41.1730,-80.0730
+16130,41.4446,-80.2230
+16131,41.5486,-80.3769
+16132,41.0058,-80.5051
+16133,41.2678,-80.1145
+16134,41.5268,-80.4902
+16136,40.8349,-80.3238
+16137,41.2315,-80.2399
+16140,41.0936,-80.5107
+16141,40.8803,-80.3992
+16142,41.1352,-80.3328
+16143,41.1051,-80.4544
+16145,41.3802,-80.0786
+16146,41.2348,-80.4994
+16148,41.2285,-80.4176
+16150,41.2818,-80.4491
+16151,41.4429,-80.2057
+16153,41.3222,-80.0866
+16154,41.3259,-80.4201
+16155,41.0677,-80.5107
+16156,41.0980,-80.2272
+16157,40.8882,-80.3334
+16159,41.1534,-80.4753
+16160,40.9284,-80.3624
+16161,41.2023,-80.4928
+16172,41.1177,-80.3310
+16201,40.8121,-79.4725
+16210,40.9010,-79.5166
+16211,40.7943,-79.2024
+16212,40.7525,-79.5772
+16213,41.1255,-79.5583
+16214,41.1984,-79.3542
+16217,41.3461,-79.1813
+16218,40.9261,-79.5926
+16220,41.4181,-79.2682
+16222,40.8737,-79.2570
+16223,40.9870,-79.3538
+16224,41.0665,-79.2905
+16226,40.7147,-79.4874
+16228,40.7608,-79.5358
+16229,40.7118,-79.6563
+16230,41.0205,-79.2832
+16232,41.2136,-79.5512
+16233,41.3680,-79.2853
+16235,41.3058,-79.3474
+16236,40.7812,-79.5237
+16238,40.7877,-79.5204
+16239,41.4970,-79.1378
+16240,41.0360,-79.2250
+16242,40.9854,-79.3723
+16244,40.8050,-79.2791
+16245,41.0016,-79.2931
+16246,40.7917,-79.1822
+16248,41.0349,-79.5048
+16249,40.7594,-79.3264
+16250,40.7757,-79.2378
+16253,40.9567,-79.3435
+16254,41.2550,-79.4508
+16255,41.1288,-79.4668
+16256,40.8553,-79.1345
+16258,41.2301,-79.2722
+16259,40.9257,-79.4519
+16260,41.4109,-79.2393
+16262,40.8377,-79.6527
+16263,40.8012,-79.3411
+16301,41.4533,-79.6224
+16311,41.4622,-80.0424
+16312,41.9321,-79.3032
+16313,41.7146,-79.1452
+16314,41.5207,-80.0771
+16316,41.5953,-80.2845
+16317,41.5323,-79.8526
+16319,41.3242,-79.6235
+16321,41.5683,-79.4009
+16322,41.6056,-79.3843
+16323,41.4173,-79.8306
+16326,41.3762,-79.4317
+16327,41.6371,-79.9596
+16328,41.6510,-79.7271
+16329,41.8527,-79.2650
+16331,41.2875,-79.5593
+16332,41.3567,-79.3695
+16333,41.7492,-78.9323
+16334,41.3045,-79.4463
+16335,41.6306,-80.1536
+16340,41.7986,-79.4175
+16341,41.5629,-79.5470
+16342,41.3148,-79.9280
+16343,41.4260,-79.7527
+16344,41.4705,-79.6840
+16345,41.9444,-79.0829
+16346,41.3785,-79.6727
+16347,41.6601,-79.0703
+16350,41.9569,-79.3344
+16351,41.6754,-79.3703
+16352,41.7661,-79.0364
+16353,41.4921,-79.3895
+16354,41.6147,-79.7064
+16360,41.6797,-79.8903
+16361,41.3910,-79.3402
+16362,41.4505,-79.9652
+16364,41.3514,-79.5273
+16365,41.8402,-79.1574
+16370,41.5571,-79.4490
+16371,41.8675,-79.3187
+16372,41.2010,-79.8745
+16373,41.2085,-79.6984
+16374,41.2635,-79.8151
+16401,41.8785,-80.4052
+16402,41.9610,-79.4698
+16403,41.7930,-80.0141
+16404,41.7256,-79.7890
+16405,41.9380,-79.5335
+16406,41.7510,-80.3638
+16407,41.9158,-79.6847
+16410,41.9228,-80.3085
+16411,41.9780,-80.4471
+16412,41.8821,-80.1597
+16415,42.0376,-80.2303
+16416,41.8261,-79.4731
+16417,41.9693,-80.3106
+16420,41.6948,-79.5455
+16421,42.1696,-79.9399
+16422,41.6675,-80.3102
+16423,42.0211,-80.3401
+16424,41.6617,-80.4482
+16426,41.9841,-80.1259
+16427,41.8746,-79.9713
+16428,42.1715,-79.8315
+16430,42.0011,-80.4189
+16433,41.7371,-80.1409
+16434,41.7967,-79.6687
+16435,41.8224,-80.3828
+16436,41.8624,-79.5065
+16438,41.8912,-79.8475
+16440,41.7825,-80.1260
+16441,41.9585,-79.9836
+16442,42.0486,-79.8257
+16443,41.9401,-80.4718
+16444,41.8712,-80.1208
+16475,41.8764,-80.3611
+16501,42.1211,-80.0894
+16502,42.1107,-80.1013
+16503,42.1272,-80.0610
+16504,42.1094,-80.0488
+16505,42.1191,-80.1279
+16506,42.0630,-80.1560
+16507,42.1395,-80.0850
+16508,42.0978,-80.0915
+16509,42.0605,-80.0458
+16510,42.1090,-79.9548
+16511,42.1675,-80.0058
+16546,42.1039,-80.0533
+16550,42.1338,-80.0849
+16563,42.1178,-79.9858
+16601,40.5525,-78.3730
+16602,40.4850,-78.3971
+16611,40.5710,-78.0912
+16613,40.5372,-78.5321
+16616,40.7698,-78.4584
+16617,40.6034,-78.3298
+16619,40.6837,-78.4158
+16620,40.8385,-78.3512
+16621,40.2584,-78.1089
+16622,40.3285,-78.0692
+16623,40.2762,-78.0456
+16624,40.5651,-78.6067
+16625,40.2824,-78.5191
+16627,40.7529,-78.5041
+16630,40.4626,-78.5805
+16631,40.2714,-78.3475
+16633,40.1597,-78.2325
+16634,40.2105,-78.1731
+16635,40.4077,-78.4774
+16636,40.6003,-78.5020
+16637,40.3421,-78.4708
+16638,40.3382,-78.2010
+16639,40.6817,-78.4635
+16640,40.7080,-78.5723
+16641,40.5077,-78.5714
+16645,40.8036,-78.5007
+16646,40.6897,-78.7260
+16647,40.3805,-78.1133
+16648,40.4417,-78.3323
+16650,40.1121,-78.2920
+16651,40.8515,-78.3804
+16652,40.5160,-77.9501
+16654,40.4919,-78.0286
+16655,40.2280,-78.5030
+16656,40.8072,-78.5560
+16657,40.3384,-78.1606
+16659,40.1600,-78.3883
+16661,40.8311,-78.4609
+16662,40.2951,-78.2974
+16664,40.1779,-78.4202
+16665,40.3890,-78.4349
+16666,40.8677,-78.3140
+16667,40.1828,-78.5252
+16668,40.6533,-78.6223
+16669,40.6560,-77.9067
+16670,40.2590,-78.5077
+16671,40.7876,-78.3982
+16672,40.1855,-78.2372
+16673,40.3052,-78.3890
+16674,40.1865,-78.0793
+16675,40.6879,-78.6790
+16677,40.8151,-78.2456
+16678,40.2258,-78.2325
+16679,40.1553,-78.1944
+16680,40.7432,-78.3776
+16682,40.2720,-78.4565
+16683,40.6639,-78.0656
+16684,40.6354,-78.2969
+16685,40.2801,-78.0806
+16686,40.6704,-78.2405
+16689,40.0751,-78.0843
+16691,40.0774,-78.1473
+16692,40.7509,-78.7105
+16693,40.4653,-78.2246
+16694,40.1900,-78.1343
+16695,40.2047,-78.3369
+16699,40.4472,-78.5605
+16701,41.9187,-78.7504
+16720,41.6032,-78.0098
+16724,41.7461,-78.3898
+16725,41.8993,-78.6620
+16726,41.8024,-78.5759
+16727,41.9850,-78.5338
+16729,41.9697,-78.4818
+16730,41.8178,-78.4228
+16731,41.9514,-78.3601
+16732,41.8592,-78.6084
+16733,41.7004,-78.5723
+16734,41.6157,-78.8474
+16735,41.6288,-78.8067
+16738,41.8069,-78.7321
+16740,41.6527,-78.5096
+16743,41.7676,-78.2330
+16744,41.8756,-78.5695
+16745,41.9256,-78.4897
+16746,41.7939,-78.1225
+16748,41.9420,-78.1448
+16749,41.7598,-78.4210
+16750,41.9016,-78.2917
+16801,40.7853,-77.8422
+16802,40.7986,-77.8648
+16803,40.8085,-77.8945
+16820,40.9200,-77.3870
+16821,40.9578,-78.1946
+16822,41.1373,-77.7077
+16823,40.9318,-77.7595
+16825,40.9876,-78.3115
+16826,41.0621,-77.5860
+16827,40.7678,-77.7726
+16828,40.8043,-77.6959
+16829,41.0849,-77.8875
+16830,41.0906,-78.4389
+16832,40.8428,-77.4258
+16833,40.9440,-78.5724
+16834,41.0518,-78.0871
+16835,40.9067,-77.8773
+16836,41.1455,-78.2648
+16837,40.9454,-78.4745
+16838,41.0058,-78.6515
+16839,41.0032,-78.1064
+16840,40.9243,-78.2031
+16841,41.0355,-77.6909
+16843,41.0118,-78.4619
+16844,40.9128,-77.9326
+16845,41.1131,-77.9277
+16847,40.9993,-78.1655
+16848,41.0113,-77.5333
+16849,40.9611,-78.1157
+16851,40.8123,-77.8013
+16852,40.9364,-77.5386
+16853,40.9404,-77.7862
+16854,40.8970,-77.4723
+16855,41.0053,-78.3540
+16856,40.9288,-77.6500
+16858,41.0034,-78.2097
+16859,41.0466,-78.0418
+16860,40.9380,-78.1798
+16861,40.8734,-78.5193
+16863,40.9078,-78.4746
+16864,41.1542,-77.7985
+16865,40.7240,-77.9560
+16866,40.8670,-78.1656
+16868,40.7273,-77.8906
+16870,40.8013,-78.0494
+16871,41.1911,-78.0359
+16872,40.9672,-77.3594
+16874,40.9850,-77.9515
+16875,40.8404,-77.5880
+16876,40.9656,-78.2876
+16877,40.7329,-78.0684
+16878,40.9403,-78.3518
+16879,40.9644,-78.1407
+16881,41.0268,-78.3204
+16882,40.9071,-77.3385
+16901,41.7348,-77.3158
+16910,41.7046,-76.8311
+16911,41.6769,-77.1017
+16912,41.6661,-77.0672
+16914,41.8542,-76.7837
+16915,41.7749,-77.9614
+16917,41.7221,-77.0567
+16920,41.9738,-77.2836
+16921,41.7231,-77.5224
+16922,41.6807,-77.7107
+16923,41.9506,-77.8706
+16925,41.9486,-76.7838
+16926,41.7157,-76.7003
+16927,41.9654,-77.6593
+16928,41.9520,-77.4336
+16929,41.9634,-77.1349
+16930,41.5838,-77.1388
+16932,41.7791,-76.9395
+16933,41.8194,-77.0625
+16935,41.8692,-77.3337
+16936,41.9511,-76.9671
+16937,41.9679,-77.7109
+16938,41.5911,-77.3704
+16939,41.6810,-77.0141
+16940,41.9775,-77.2337
+16941,41.9883,-77.7580
+16942,41.9655,-77.3542
+16943,41.8481,-77.6162
+16946,41.9158,-77.1422
+16947,41.7595,-76.8041
+16948,41.8547,-77.7592
+16950,41.8958,-77.5437
+17002,40.4609,-77.8693
+17003,40.3567,-76.5524
+17004,40.6010,-77.7304
+17005,40.6031,-76.8106
+17006,40.3356,-77.4921
+17007,40.1390,-77.1185
+17009,40.6361,-77.5653
+17010,40.2781,-76.5833
+17011,40.2348,-76.9288
+17013,40.2412,-77.1838
+17014,40.6596,-77.1936
+17015,40.1834,-77.2321
+17016,40.2731,-76.4069
+17017,40.6270,-76.8996
+17018,40.4221,-76.8261
+17019,40.0940,-77.0221
+17020,40.4142,-77.0415
+17021,40.3305,-77.6682
+17022,40.1670,-76.6089
+17023,40.5813,-76.8117
+17024,40.4069,-77.3068
+17025,40.2941,-76.9745
+17026,40.4736,-76.4372
+17027,40.1574,-76.9821
+17028,40.4025,-76.6751
+17029,40.5580,-77.6170
+17030,40.6083,-76.7442
+17032,40.4939,-76.8135
+17033,40.2692,-76.6282
+17034,40.2086,-76.7855
+17035,40.4038,-77.5813
+17036,40.2582,-76.7202
+17037,40.4325,-77.4278
+17038,40.4678,-76.5382
+17039,40.2927,-76.2407
+17040,40.2962,-77.3400
+17041,40.2166,-76.5396
+17042,40.2964,-76.4211
+17043,40.2476,-76.9001
+17044,40.5821,-77.5903
+17045,40.5971,-77.0009
+17046,40.3817,-76.4294
+17047,40.3711,-77.4120
+17048,40.5823,-76.6920
+17049,40.6517,-77.2595
+17050,40.2475,-77.0304
+17051,40.4594,-77.7641
+17052,40.2769,-77.9863
+17053,40.3250,-77.0265
+17054,40.4968,-77.7273
+17055,40.1777,-76.9977
+17056,40.5335,-77.3556
+17057,40.1944,-76.7262
+17058,40.5010,-77.5480
+17059,40.5891,-77.3906
+17060,40.5130,-77.8604
+17061,40.5639,-76.9001
+17062,40.5468,-77.1877
+17063,40.7610,-77.4849
+17064,40.2417,-76.4753
+17065,40.0709,-77.2324
+17066,40.3593,-77.8546
+17067,40.3904,-76.3150
+17068,40.3991,-77.1824
+17069,40.4582,-76.9806
+17070,40.1996,-76.8544
+17071,40.2958,-77.6143
+17073,40.3028,-76.2552
+17074,40.4793,-77.1484
+17075,40.3937,-77.8345
+17076,40.6209,-77.3075
+17077,40.4024,-76.5365
+17078,40.2876,-76.5809
+17080,40.6405,-76.8029
+17081,40.2012,-77.2833
+17082,40.4951,-77.4484
+17084,40.6757,-77.6265
+17086,40.6906,-77.1220
+17087,40.4040,-76.2684
+17088,40.3004,-76.2952
+17090,40.3182,-77.1810
+17093,40.3103,-76.9279
+17094,40.5859,-77.2223
+17097,40.5741,-76.6769
+17098,40.5900,-76.6307
+17099,40.6367,-77.5801
+17101,40.2584,-76.8929
+17102,40.2678,-76.9024
+17103,40.2750,-76.8633
+17104,40.2550,-76.8672
+17109,40.2898,-76.8241
+17110,40.3235,-76.8882
+17111,40.2703,-76.7806
+17112,40.3740,-76.7702
+17113,40.2302,-76.8212
+17120,40.2651,-76.8828
+17201,39.9601,-77.6572
+17202,39.9232,-77.6905
+17210,40.1914,-77.6611
+17211,39.7547,-78.4146
+17212,39.8126,-78.0643
+17213,40.2612,-77.7645
+17214,39.7481,-77.4703
+17215,40.0838,-77.8786
+17217,40.2382,-77.7223
+17219,40.2240,-77.6928
+17220,40.1746,-77.7386
+17221,40.0492,-77.8222
+17222,39.8960,-77.4940
+17223,40.0646,-77.9420
+17224,39.9792,-77.8845
+17225,39.7835,-77.7629
+17228,39.9951,-78.0983
+17229,40.0840,-78.0101
+17232,40.0946,-77.6334
+17233,39.9756,-77.9872
+17235,39.8570,-77.6975
+17236,39.8002,-77.9474
+17237,39.8370,-77.5409
+17238,39.8611,-78.1300
+17239,40.1398,-77.8301
+17240,40.1509,-77.5797
+17241,40.1810,-77.4068
+17243,40.2836,-77.8151
+17244,40.0903,-77.6723
+17246,40.0607,-77.6758
+17247,39.7988,-77.5794
+17249,40.2419,-77.9002
+17250,39.7362,-77.5229
+17251,40.1229,-77.6667
+17252,39.9123,-77.8269
+17253,40.2124,-78.0063
+17254,39.9685,-77.5893
+17255,40.1492,-77.8667
+17257,40.0560,-77.4967
+17260,40.2960,-77.8937
+17261,39.8598,-77.5117
+17262,40.1271,-77.7679
+17263,39.7241,-77.7172
+17264,40.1799,-77.9933
+17265,40.0322,-77.7750
+17266,40.0886,-77.4129
+17267,39.8080,-78.2397
+17268,39.7749,-77.5756
+17271,40.1019,-77.8036
+17301,39.8952,-76.9790
+17302,39.8173,-76.4137
+17303,39.9261,-77.2976
+17304,39.9772,-77.2327
+17306,39.9838,-77.2497
+17307,39.9567,-77.3152
+17309,39.8736,-76.4489
+17311,39.8170,-76.8418
+17313,39.8848,-76.6572
+17314,39.7492,-76.3257
+17315,40.0138,-76.8687
+17316,39.9655,-77.0080
+17317,39.9713,-76.5226
+17318,40.0202,-76.7261
+17319,40.1605,-76.7940
+17320,39.7702,-77.3876
+17321,39.7497,-76.4443
+17322,39.8555,-76.5352
+17323,40.0752,-77.0267
+17324,40.0304,-77.2368
+17325,39.8263,-77.2276
+17327,39.7793,-76.7538
+17329,39.7586,-76.8525
+17331,39.7912,-76.9803
+17339,40.1349,-76.8761
+17340,39.7552,-77.1168
+17342,39.8528,-76.7078
+17343,39.8686,-77.3296
+17344,39.8053,-77.0189
+17345,40.0730,-76.7276
+17347,40.0469,-76.6753
+17349,39.7451,-76.6552
+17350,39.8901,-77.0794
+17352,39.7619,-76.5001
+17353,39.8872,-77.3931
+17355,39.7598,-76.6960
+17356,39.8983,-76.5837
+17360,39.8520,-76.7537
+17361,39.7661,-76.6770
+17362,39.8477,-76.8687
+17363,39.7673,-76.5850
+17364,39.9299,-76.9004
+17365,40.0614,-76.9403
+17366,39.9328,-76.5567
+17368,39.9846,-76.5196
+17370,40.1182,-76.7828
+17371,39.9026,-76.7880
+17372,39.9924,-77.1080
+17401,39.9588,-76.7332
+17402,39.9570,-76.6600
+17403,39.9198,-76.7112
+17404,40.0026,-76.7735
+17406,40.0147,-76.6409
+17407,39.8871,-76.7127
+17408,39.9328,-76.7992
+17501,40.1567,-76.2061
+17502,40.1009,-76.6601
+17504,40.0245,-76.3285
+17505,40.0635,-76.1924
+17506,40.1172,-76.0527
+17507,40.1981,-76.0162
+17508,40.1246,-76.2139
+17509,39.9069,-76.0295
+17512,40.0401,-76.4860
+17516,39.9269,-76.3850
+17517,40.2448,-76.1329
+17518,39.8089,-76.2530
+17519,40.1414,-76.0234
+17520,40.0975,-76.3492
+17522,40.1737,-76.1705
+17527,40.0164,-75.9941
+17529,40.0419,-76.0971
+17532,39.8582,-76.2879
+17534,40.0366,-76.1122
+17535,40.0121,-76.0361
+17536,39.8480,-76.0738
+17538,40.0826,-76.4145
+17540,40.0976,-76.1900
+17543,40.1810,-76.2954
+17545,40.1730,-76.4222
+17547,40.0709,-76.5849
+17550,40.0749,-76.5835
+17551,39.9785,-76.3730
+17552,40.1084,-76.5109
+17554,40.0403,-76.4242
+17555,40.1224,-75.9594
+17557,40.1029,-76.0752
+17560,39.9127,-76.2277
+17562,39.9700,-76.0916
+17563,39.7607,-76.1933
+17565,39.8908,-76.3353
+17566,39.8672,-76.1475
+17568,39.9480,-76.2341
+17569,40.2714,-76.0966
+17570,40.1257,-76.5706
+17572,40.0056,-76.1522
+17576,40.0371,-76.1978
+17578,40.2299,-76.1662
+17579,39.9604,-76.1808
+17581,40.1558,-76.0550
+17582,39.9882,-76.4547
+17584,39.9598,-76.2650
+17601,40.0730,-76.3137
+17602,40.0146,-76.2464
+17603,40.0308,-76.3304
+17606,40.1127,-76.3047
+17701,41.3450,-76.8572
+17702,41.1835,-77.0773
+17720,41.1791,-77.2026
+17721,41.1816,-77.3194
+17723,41.4353,-77.4714
+17724,41.6377,-76.8007
+17727,41.5293,-77.4648
+17728,41.3348,-77.0786
+17729,41.5112,-77.7361
+17730,41.1069,-76.8759
+17731,41.4294,-76.5787
+17737,41.2856,-76.6830
+17739,41.4163,-77.3936
+17740,41.2356,-77.2568
+17742,41.2391,-76.5797
+17744,41.2410,-77.1533
+17745,41.2851,-77.4712
+17747,41.0326,-77.3318
+17748,41.1478,-77.3402
+17749,41.0723,-76.8135
+17750,41.0579,-77.4823
+17751,41.1295,-77.5212
+17752,41.1831,-76.9198
+17754,41.3116,-76.8892
+17756,41.2048,-76.7299
+17758,41.3503,-76.5449
+17760,41.4136,-77.6574
+17762,41.2843,-76.6999
+17763,41.5025,-76.9122
+17764,41.3428,-77.8265
+17765,41.5818,-76.9820
+17768,41.5587,-76.7560
+17769,41.5107,-77.4964
+17771,41.4373,-77.0355
+17772,41.1251,-76.7130
+17774,41.2519,-76.5467
+17776,41.4146,-77.2929
+17777,41.1065,-76.8217
+17778,41.2963,-77.9795
+17779,41.2081,-77.3770
+17801,40.8374,-76.7607
+17810,41.1010,-77.0391
+17812,40.7333,-77.2352
+17813,40.7869,-77.1843
+17814,41.2589,-76.3712
+17815,41.0223,-76.4295
+17820,40.8956,-76.4037
+17821,40.9901,-76.6442
+17822,40.9687,-76.6033
+17823,40.7450,-76.7780
+17824,40.8676,-76.4928
+17827,40.7529,-76.9680
+17829,40.9006,-77.1554
+17830,40.6861,-76.8052
+17832,40.8056,-76.4550
+17834,40.7802,-76.4669
+17835,40.8835,-77.1980
+17836,40.7143,-76.6065
+17837,40.9750,-76.9451
+17840,40.7744,-76.4269
+17841,40.7254,-77.3634
+17842,40.8013,-77.0435
+17844,40.9598,-77.0852
+17845,40.8844,-77.2116
+17846,41.1417,-76.5171
+17847,41.0080,-76.8109
+17850,40.9672,-76.8586
+17851,40.8028,-76.4247
+17853,40.6880,-77.0107
+17855,40.8900,-76.9679
+17856,41.0450,-77.0081
+17857,40.9321,-76.7730
+17858,40.8424,-76.4233
+17859,41.1168,-76.3985
+17860,40.8392,-76.6036
+17861,40.7746,-77.0762
+17862,40.8605,-77.0564
+17864,40.7047,-76.9058
+17865,40.9867,-76.7898
+17866,40.7711,-76.5965
+17867,40.7147,-76.6903
+17868,40.9554,-76.6310
+17870,40.8080,-76.8878
+17872,40.7582,-76.6884
+17876,40.8582,-76.8258
+17878,41.1760,-76.3235
+17880,40.8911,-77.1239
+17881,40.7810,-76.6863
+17884,41.0520,-76.6750
+17885,40.8663,-77.3140
+17886,41.0182,-76.8761
+17887,41.0753,-76.8958
+17888,40.8187,-76.3789
+17889,40.8777,-76.9213
+17901,40.6947,-76.2748
+17920,40.8084,-76.3278
+17921,40.7516,-76.3606
+17922,40.5825,-76.1106
+17923,40.6614,-76.3187
+17925,40.7548,-76.0725
+17929,40.6311,-76.1928
+17930,40.7087,-76.1153
+17931,40.7865,-76.2146
+17933,40.6037,-76.2426
+17934,40.7992,-76.2134
+17935,40.7943,-76.2800
+17936,40.7504,-76.3401
+17938,40.6542,-76.5012
+17941,40.6863,-76.6132
+17943,40.7617,-76.3794
+17944,40.6605,-76.2890
+17945,40.7854,-76.3731
+17946,40.8104,-76.2564
+17948,40.8204,-76.1440
+17949,40.7961,-76.2361
+17951,40.6792,-76.2442
+17952,40.7644,-76.0600
+17953,40.7468,-76.1005
+17954,40.6905,-76.2599
+17957,40.5936,-76.5166
+17959,40.7398,-76.1647
+17960,40.6972,-75.9470
+17961,40.6497,-76.0609
+17963,40.5599,-76.3941
+17964,40.7030,-76.5145
+17965,40.6992,-76.1654
+17967,40.8698,-76.2071
+17968,40.6417,-76.6263
+17970,40.7207,-76.1905
+17972,40.5793,-76.2279
+17974,40.6959,-76.2361
+17976,40.8199,-76.2105
+17978,40.6165,-76.6523
+17979,40.5673,-76.2021
+17980,40.5187,-76.6446
+17981,40.6310,-76.3927
+17982,40.7680,-76.0381
+17983,40.6440,-76.5504
+17985,40.9185,-76.2387
+18011,40.4770,-75.6461
+18012,40.8113,-75.5916
+18013,40.8535,-75.1653
+18014,40.7672,-75.4131
+18015,40.5874,-75.3668
+18017,40.6600,-75.3873
+18018,40.6276,-75.3956
+18020,40.6724,-75.3275
+18030,40.8041,-75.6635
+18031,40.5596,-75.6489
+18032,40.6562,-75.4678
+18034,40.5414,-75.4190
+18035,40.7519,-75.5380
+18036,40.5092,-75.3885
+18037,40.6831,-75.5480
+18038,40.7948,-75.4862
+18040,40.7459,-75.2257
+18041,40.4204,-75.5097
+18042,40.6436,-75.2266
+18045,40.6917,-75.2749
+18046,40.5480,-75.5603
+18049,40.5222,-75.4903
+18051,40.5956,-75.6669
+18052,40.6574,-75.5043
+18053,40.7192,-75.7041
+18054,40.3524,-75.4387
+18055,40.5916,-75.3044
+18056,40.4471,-75.5472
+18058,40.8887,-75.4943
+18059,40.7235,-75.5431
+18062,40.5058,-75.5799
+18063,40.7828,-75.1818
+18064,40.7570,-75.3160
+18065,40.6993,-75.6123
+18066,40.6645,-75.7401
+18067,40.7170,-75.4823
+18069,40.6252,-75.6151
+18070,40.4304,-75.5392
+18071,40.8342,-75.5553
+18072,40.8441,-75.2591
+18073,40.3865,-75.4744
+18074,40.3167,-75.5157
+18076,40.3738,-75.4815
+18077,40.5701,-75.2371
+18078,40.6709,-75.6207
+18079,40.7441,-75.6569
+18080,40.7308,-75.6381
+18081,40.5637,-75.2816
+18083,40.7551,-75.2645
+18085,40.7417,-75.2543
+18086,40.7392,-75.5484
+18087,40.5568,-75.5937
+18088,40.7657,-75.5575
+18091,40.8248,-75.3257
+18092,40.4697,-75.5131
+18101,40.6032,-75.4695
+18102,40.6079,-75.4762
+18103,40.5703,-75.4889
+18104,40.6117,-75.5469
+18106,40.5637,-75.5652
+18109,40.6355,-75.4419
+18195,40.5843,-75.6248
+18201,40.9520,-75.9539
+18202,40.9544,-76.0460
+18210,41.0019,-75.5910
+18211,40.7441,-75.8304
+18212,40.7730,-75.7188
+18214,40.8058,-76.0885
+18216,40.9427,-75.8890
+18218,40.8197,-75.9161
+18219,40.9910,-76.0583
+18220,40.8373,-76.0817
+18221,41.0015,-75.9190
+18222,41.0352,-76.0035
+18223,40.9823,-75.9500
+18224,41.0246,-75.8893
+18225,40.9813,-75.9713
+18229,40.9315,-75.6823
+18230,40.9201,-75.9306
+18231,40.9007,-76.0046
+18232,40.8372,-75.8740
+18234,40.9926,-75.9645
+18235,40.8350,-75.6915
+18237,40.8785,-76.0504
+18239,40.9897,-75.9814
+18240,40.8629,-75.8424
+18241,40.9444,-76.1650
+18242,40.9060,-76.1235
+18244,40.8237,-75.6687
+18245,40.8528,-76.0301
+18246,40.9574,-76.1950
+18248,40.9009,-76.0945
+18249,40.9878,-76.1161
+18250,40.8127,-75.8587
+18252,40.7816,-75.9724
+18254,40.9159,-75.9657
+18255,40.9335,-75.8297
+18256,40.9404,-76.1473
+18301,41.0424,-75.1758
+18302,41.0966,-75.1111
+18321,41.0263,-75.2829
+18322,40.9185,-75.3933
+18323,41.1956,-75.2727
+18324,41.1581,-75.0007
+18325,41.2619,-75.2667
+18326,41.1550,-75.2472
+18327,40.9834,-75.1466
+18328,41.2285,-74.9740
+18330,40.9625,-75.4499
+18331,40.9084,-75.4402
+18332,41.0947,-75.2613
+18333,40.8983,-75.4910
+18334,41.0729,-75.4418
+18335,41.0582,-75.1077
+18336,41.3734,-74.7398
+18337,41.3291,-74.8718
+18340,41.4178,-74.7659
+18342,41.1704,-75.3049
+18343,40.8899,-75.1094
+18344,41.1214,-75.3341
+18346,41.1428,-75.4212
+18347,41.1547,-75.5428
+18349,41.0995,-75.3682
+18350,41.1144,-75.4582
+18351,40.9231,-75.0999
+18353,40.8953,-75.3577
+18354,40.9226,-75.3221
+18355,41.0770,-75.3629
+18356,41.0158,-75.1120
+18357,41.2317,-75.2107
+18360,40.9673,-75.2880
+18370,41.0884,-75.3366
+18371,41.1562,-75.0367
+18372,41.0440,-75.3343
+18403,41.5090,-75.5349
+18405,41.5999,-75.1039
+18407,41.5918,-75.5349
+18411,41.4592,-75.7469
+18413,41.6476,-75.5327
+18414,41.5419,-75.7454
+18415,41.7554,-75.0825
+18417,41.8097,-75.2011
+18419,41.5772,-75.7975
+18420,41.6077,-75.6999
+18421,41.6642,-75.4929
+18424,41.2442,-75.5173
+18425,41.4385,-75.0431
+18426,41.3255,-75.2391
+18428,41.4504,-75.1094
+18430,41.7408,-75.4742
+18431,41.6165,-75.2577
+18433,41.5733,-75.5813
+18434,41.4522,-75.5413
+18435,41.4906,-75.0150
+18436,41.4428,-75.3935
+18437,41.8753,-75.2857
+18438,41.4325,-75.2453
+18439,41.8255,-75.3490
+18440,41.5593,-75.7651
+18441,41.6633,-75.6192
+18443,41.6629,-75.1021
+18444,41.3405,-75.5517
+18445,41.2979,-75.3594
+18446,41.6562,-75.7591
+18447,41.5107,-75.6205
+18451,41.3970,-75.2179
+18452,41.4839,-75.5896
+18453,41.7451,-75.3672
+18454,41.8215,-75.4329
+18455,41.8930,-75.3592
+18456,41.6208,-75.3369
+18457,41.4721,-75.0492
+18458,41.3958,-74.9193
+18460,41.2688,-75.3448
+18461,41.9290,-75.3277
+18462,41.8995,-75.4355
+18463,41.3469,-75.3804
+18464,41.4038,-75.1777
+18465,41.8313,-75.5168
+18466,41.1957,-75.3769
+18469,41.7025,-75.1520
+18470,41.7351,-75.5291
+18471,41.5291,-75.6973
+18472,41.5881,-75.3996
+18473,41.5302,-75.2068
+18503,41.4101,-75.6677
+18504,41.4235,-75.7054
+18505,41.3880,-75.6484
+18507,41.3591,-75.6819
+18508,41.4551,-75.6583
+18509,41.4306,-75.6432
+18510,41.4073,-75.6437
+18512,41.4265,-75.5929
+18517,41.3952,-75.7146
+18518,41.3750,-75.7396
+18519,41.4620,-75.6306
+18602,41.1860,-75.7540
+18603,41.0829,-76.2479
+18610,41.0590,-75.5338
+18612,41.3497,-75.9805
+18614,41.4834,-76.3564
+18615,41.4578,-75.8587
+18616,41.5194,-76.6402
+18617,41.1705,-76.0775
+18618,41.3803,-76.0382
+18619,41.4314,-76.7131
+18621,41.2553,-76.0911
+18622,41.2012,-76.2735
+18623,41.6648,-76.1520
+18624,41.0607,-75.6466
+18625,41.5150,-75.8502
+18626,41.4136,-76.4545
+18627,41.3156,-76.0224
+18628,41.4301,-76.3138
+18629,41.5176,-76.1413
+18630,41.6621,-76.0236
+18631,41.0307,-76.3028
+18632,41.4594,-76.3775
+18634,41.1855,-76.0226
+18635,41.0292,-76.2013
+18636,41.3992,-76.0819
+18640,41.2974,-75.7402
+18641,41.3364,-75.7284
+18642,41.3563,-75.7732
+18643,41.3619,-75.8385
+18644,41.3280,-75.8820
+18651,41.2541,-75.9598
+18655,41.1877,-76.2032
+18656,41.3325,-76.1854
+18657,41.5225,-75.9595
+18660,41.0987,-76.0629
+18661,41.0764,-75.7408
+18701,41.2432,-75.8853
+18702,41.2305,-75.7574
+18704,41.2762,-75.8952
+18705,41.2718,-75.8428
+18706,41.2033,-75.9148
+18707,41.1339,-75.9183
+18708,41.2958,-75.9635
+18709,41.2863,-75.8967
+18801,41.8264,-75.9397
+18810,41.9311,-76.5010
+18812,41.9732,-75.9648
+18814,41.7839,-76.6008
+18816,41.7398,-75.9097
+18817,41.8779,-76.6208
+18818,41.9149,-76.0509
+18820,41.7777,-75.6504
+18821,41.9898,-75.7227
+18822,41.9401,-75.7950
+18823,41.7739,-75.6916
+18824,41.6974,-75.7872
+18825,41.8256,-75.6075
+18826,41.7486,-75.7275
+18828,41.7974,-76.1103
+18829,41.8376,-76.1737
+18830,41.9591,-76.1145
+18831,41.8942,-76.5981
+18832,41.6782,-76.5689
+18833,41.5907,-76.4694
+18834,41.8310,-75.7209
+18837,41.9151,-76.3029
+18840,41.9731,-76.5304
+18842,41.7690,-75.6130
+18843,41.8044,-75.8941
+18844,41.6910,-75.9052
+18845,41.7873,-76.1821
+18846,41.6214,-76.2300
+18847,41.9288,-75.5791
+18848,41.7534,-76.4575
+18850,41.8720,-76.4725
+18851,41.9367,-76.1797
+18853,41.7214,-76.2769
+18854,41.7907,-76.3557
+18901,40.3048,-75.1508
+18902,40.3533,-75.0978
+18912,40.3157,-75.0637
+18913,40.3722,-75.0561
+18914,40.2895,-75.2107
+18915,40.2725,-75.2562
+18917,40.3691,-75.2000
+18920,40.4930,-75.0867
+18921,40.5296,-75.1711
+18923,40.3536,-75.1667
+18925,40.2837,-75.0629
+18927,40.3243,-75.2409
+18929,40.2581,-75.0791
+18930,40.5322,-75.2126
+18932,40.2916,-75.2505
+18933,40.4025,-75.0392
+18935,40.4328,-75.3950
+18936,40.2265,-75.2281
+18938,40.3510,-74.9980
+18940,40.2606,-74.9371
+18942,40.4741,-75.1666
+18944,40.3962,-75.2312
+18946,40.2862,-75.0052
+18947,40.4229,-75.1178
+18950,40.4346,-75.0664
+18951,40.4592,-75.3474
+18954,40.2254,-74.9930
+18955,40.4824,-75.3113
+18960,40.3663,-75.3259
+18962,40.3446,-75.2705
+18964,40.3035,-75.3379
+18966,40.1885,-75.0099
+18969,40.3263,-75.3684
+18970,40.4120,-75.3811
+18972,40.5273,-75.1247
+18974,40.2171,-75.0728
+18976,40.2488,-75.1435
+18977,40.2842,-74.8742
+18980,40.2728,-75.0109
+19001,40.1262,-75.1265
+19002,40.1878,-75.2158
+19003,40.0021,-75.2984
+19004,40.0098,-75.2315
+19006,40.1286,-75.0597
+19007,40.1164,-74.8571
+19008,39.9742,-75.3612
+19009,40.1378,-75.0631
+19010,40.0238,-75.3305
+19012,40.0597,-75.1059
+19013,39.8454,-75.3748
+19014,39.8649,-75.4330
+19015,39.8665,-75.3915
+19017,39.8908,-75.4630
+19018,39.9231,-75.2983
+19020,40.1060,-74.9363
+19021,40.0889,-74.8941
+19022,39.8574,-75.3370
+19023,39.9172,-75.2671
+19025,40.1456,-75.1632
+19026,39.9504,-75.3040
+19027,40.0731,-75.1244
+19029,39.8627,-75.2927
+19030,40.1821,-74.8346
+19031,40.1082,-75.2175
+19032,39.8882,-75.2758
+19033,39.8908,-75.3289
+19034,40.1335,-75.2095
+19035,40.0513,-75.2776
+19036,39.9037,-75.2932
+19038,40.1052,-75.1698
+19040,40.1773,-75.1062
+19041,40.0045,-75.3200
+19043,39.9005,-75.3089
+19044,40.1890,-75.1525
+19046,40.1013,-75.1056
+19047,40.1804,-74.9125
+19050,39.9376,-75.2635
+19052,39.8972,-75.4453
+19053,40.1539,-74.9750
+19054,40.1707,-74.8166
+19055,40.1503,-74.8392
+19056,40.1495,-74.8847
+19057,40.1409,-74.8584
+19060,39.8507,-75.4920
+19061,39.8278,-75.4319
+19063,39.9222,-75.4141
+19064,39.9321,-75.3390
+19066,40.0022,-75.2489
+19067,40.2300,-74.8594
+19070,39.9063,-75.3245
+19072,40.0239,-75.2577
+19073,39.9833,-75.4292
+19074,39.8860,-75.2958
+19075,40.1123,-75.1867
+19076,39.8861,-75.3074
+19078,39.8736,-75.3213
+19079,39.9023,-75.2657
+19081,39.8986,-75.3475
+19082,39.9604,-75.2703
+19083,39.9772,-75.3119
+19085,40.0370,-75.3499
+19086,39.8909,-75.3702
+19087,40.0621,-75.4004
+19090,40.1481,-75.1241
+19094,39.8750,-75.3467
+19095,40.0859,-75.1514
+19096,39.9981,-75.2739
+19102,39.9530,-75.1655
+19103,39.9534,-75.1742
+19104,39.9585,-75.1989
+19106,39.9466,-75.1422
+19107,39.9518,-75.1587
+19108,39.9599,-75.1608
+19109,39.9497,-75.1637
+19111,40.0606,-75.0802
+19112,39.8899,-75.1694
+19113,39.8714,-75.2729
+19114,40.0694,-75.0002
+19115,40.0907,-75.0429
+19116,40.1174,-75.0151
+19118,40.0739,-75.2112
+19119,40.0528,-75.1912
+19120,40.0341,-75.1192
+19121,39.9821,-75.1798
+19122,39.9777,-75.1457
+19123,39.9637,-75.1455
+19124,40.0173,-75.0953
+19125,39.9762,-75.1251
+19126,40.0561,-75.1366
+19127,40.0292,-75.2269
+19128,40.0495,-75.2303
+19129,40.0130,-75.1854
+19130,39.9675,-75.1747
+19131,39.9869,-75.2192
+19132,39.9969,-75.1709
+19133,39.9930,-75.1410
+19134,39.9892,-75.1088
+19135,40.0217,-75.0507
+19136,40.0394,-75.0186
+19137,39.9930,-75.0721
+19138,40.0560,-75.1595
+19139,39.9616,-75.2311
+19140,40.0123,-75.1451
+19141,40.0379,-75.1454
+19142,39.9218,-75.2333
+19143,39.9438,-75.2266
+19144,40.0319,-75.1761
+19145,39.9145,-75.1912
+19146,39.9395,-75.1841
+19147,39.9364,-75.1547
+19148,39.9116,-75.1515
+19149,40.0378,-75.0655
+19150,40.0725,-75.1717
+19151,39.9796,-75.2570
+19152,40.0616,-75.0464
+19153,39.8800,-75.2379
+19154,40.0965,-74.9832
+19301,40.0403,-75.4803
+19310,39.9351,-75.9728
+19311,39.8211,-75.7713
+19312,40.0322,-75.4514
+19316,40.0541,-75.8338
+19317,39.8625,-75.6028
+19319,39.9268,-75.5245
+19320,39.9630,-75.8320
+19330,39.8683,-75.9138
+19333,40.0419,-75.4236
+19335,40.0226,-75.7212
+19341,40.0400,-75.6408
+19342,39.9076,-75.5000
+19343,40.1008,-75.7549
+19344,40.0836,-75.8814
+19345,40.0297,-75.5695
+19348,39.8660,-75.7202
+19350,39.7603,-75.7964
+19352,39.7838,-75.8883
+19355,40.0455,-75.5279
+19358,39.9644,-75.8071
+19362,39.7507,-76.0704
+19363,39.7878,-75.9681
+19365,39.9664,-75.9251
+19367,39.9629,-75.8839
+19369,39.9807,-75.8947
+19372,39.9991,-75.7574
+19373,39.9011,-75.5335
+19374,39.8293,-75.7512
+19375,39.9001,-75.7370
+19380,39.9872,-75.6031
+19382,39.9277,-75.6132
+19383,39.9366,-75.6060
+19390,39.8361,-75.8424
+19401,40.1302,-75.3316
+19403,40.1485,-75.3791
+19405,40.0996,-75.3343
+19406,40.0949,-75.3857
+19422,40.1568,-75.2794
+19425,40.1050,-75.6437
+19426,40.1892,-75.4381
+19428,40.0802,-75.3025
+19435,40.3279,-75.5652
+19436,40.2025,-75.2488
+19437,40.1801,-75.2605
+19438,40.2694,-75.3900
+19440,40.2851,-75.2909
+19442,40.1327,-75.5788
+19444,40.0869,-75.2543
+19446,40.2307,-75.3036
+19453,40.1384,-75.5022
+19454,40.2261,-75.2438
+19456,40.1366,-75.4596
+19457,40.2069,-75.5858
+19460,40.1263,-75.5299
+19462,40.1153,-75.2820
+19464,40.2589,-75.6159
+19465,40.1904,-75.6846
+19468,40.2076,-75.5321
+19472,40.3404,-75.5819
+19473,40.2562,-75.4825
+19474,40.2243,-75.4050
+19475,40.1717,-75.5988
+19477,40.1845,-75.2358
+19490,40.1967,-75.3540
+19492,40.2823,-75.4934
+19501,40.2445,-76.0647
+19503,40.4080,-75.5715
+19504,40.4162,-75.5886
+19505,40.3791,-75.6224
+19506,40.4542,-76.1287
+19507,40.5052,-76.2703
+19508,40.2604,-75.8321
+19510,40.4459,-75.8820
+19511,40.4859,-75.7432
+19512,40.3506,-75.6791
+19516,40.4869,-76.0053
+19518,40.2716,-75.7501
+19520,40.1575,-75.8007
+19522,40.4494,-75.8167
+19523,40.2009,-75.8508
+19525,40.3088,-75.5861
+19526,40.5471,-75.9966
+19529,40.6411,-75.8588
+19530,40.5391,-75.7814
+19533,40.4252,-75.9927
+19534,40.5828,-75.8793
+19535,40.3397,-75.7943
+19536,40.4806,-75.7589
+19538,40.5476,-75.7026
+19539,40.4963,-75.6836
+19540,40.2363,-75.9666
+19541,40.4783,-76.0178
+19543,40.1756,-75.8950
+19544,40.4169,-76.2966
+19545,40.3405,-75.6305
+19547,40.3807,-75.7729
+19549,40.5833,-76.0308
+19550,40.4549,-76.2494
+19551,40.3618,-76.1373
+19554,40.5129,-76.1037
+19555,40.4944,-75.9539
+19559,40.4932,-76.1851
+19560,40.4039,-75.8804
+19562,40.5030,-75.7018
+19564,40.5180,-75.8721
+19565,40.3425,-76.0882
+19567,40.3991,-76.2094
+19601,40.3610,-75.9369
+19602,40.3276,-75.9167
+19604,40.3583,-75.9095
+19605,40.3986,-75.9461
+19606,40.3389,-75.8571
+19607,40.2915,-75.9448
+19608,40.3145,-76.0352
+19609,40.3277,-75.9965
+19610,40.3415,-75.9749
+19611,40.3247,-75.9429
+19701,39.5839,-75.6970
+19702,39.6182,-75.7297
+19703,39.8015,-75.4539
+19706,39.5750,-75.5907
+19707,39.7856,-75.6836
+19709,39.4944,-75.6775
+19710,39.7896,-75.5847
+19711,39.7138,-75.7408
+19713,39.6708,-75.7101
+19716,39.6680,-75.7462
+19717,39.6787,-75.7500
+19720,39.6455,-75.6045
+19730,39.4550,-75.6610
+19731,39.5094,-75.6013
+19732,39.8003,-75.5746
+19733,39.5591,-75.6515
+19734,39.3816,-75.6533
+19735,39.8066,-75.5973
+19736,39.7803,-75.6428
+19801,39.7236,-75.5412
+19802,39.7550,-75.5265
+19803,39.7999,-75.5422
+19804,39.7188,-75.6219
+19805,39.7452,-75.5937
+19806,39.7625,-75.5633
+19807,39.7965,-75.6128
+19808,39.7376,-75.6671
+19809,39.7567,-75.5010
+19810,39.8187,-75.5062
+19901,39.1815,-75.4735
+19902,39.1277,-75.4669
+19904,39.1713,-75.5876
+19930,38.5529,-75.0694
+19931,38.5693,-75.6105
+19933,38.7330,-75.6034
+19934,39.0847,-75.6274
+19936,39.2186,-75.5851
+19938,39.2565,-75.6988
+19939,38.5690,-75.2075
+19940,38.4776,-75.5649
+19941,38.7937,-75.4261
+19943,39.0044,-75.6070
+19944,38.4779,-75.0531
+19945,38.4979,-75.2290
+19946,39.0348,-75.4496
+19947,38.6703,-75.4047
+19950,38.8185,-75.5967
+19951,38.6853,-75.2552
+19952,38.9167,-75.6121
+19953,39.1525,-75.6941
+19954,38.8970,-75.5205
+19955,39.2270,-75.6647
+19956,38.5476,-75.5382
+19958,38.7287,-75.1685
+19960,38.8509,-75.4087
+19962,39.0688,-75.4884
+19963,38.9433,-75.3626
+19964,39.0960,-75.7255
+19966,38.5794,-75.2772
+19967,38.5397,-75.1208
+19968,38.7829,-75.2798
+19970,38.5550,-75.0994
+19971,38.6945,-75.0997
+19973,38.6345,-75.6236
+19975,38.4683,-75.1669
+19977,39.2989,-75.5461
+19979,39.0504,-75.5765
+19980,39.0735,-75.5702
+20001,38.9104,-77.0177
+20002,38.9050,-76.9836
+20003,38.8818,-76.9909
+20004,38.8951,-77.0266
+20005,38.9044,-77.0316
+20006,38.8985,-77.0412
+20007,38.9177,-77.0906
+20008,38.9348,-77.0589
+20009,38.9191,-77.0374
+20010,38.9328,-77.0318
+20011,38.9525,-77.0230
+20012,38.9790,-77.0308
+20015,38.9669,-77.0583
+20016,38.9369,-77.0900
+20017,38.9382,-76.9929
+20018,38.9266,-76.9744
+20019,38.8922,-76.9418
+20020,38.8604,-76.9790
+20024,38.8705,-77.0268
+20032,38.8322,-77.0162
+20036,38.9070,-77.0417
+20037,38.8925,-77.0538
+20045,38.8967,-77.0308
+20052,38.8988,-77.0478
+20057,38.9090,-77.0752
+20059,38.9225,-77.0200
+20064,38.9364,-76.9992
+20105,38.9532,-77.6036
+20106,38.6993,-78.0022
+20109,38.7939,-77.5310
+20110,38.7461,-77.4877
+20111,38.7490,-77.4279
+20112,38.6708,-77.4301
+20115,38.8163,-77.8896
+20117,38.9988,-77.7339
+20119,38.6206,-77.6257
+20120,38.8570,-77.4842
+20121,38.8110,-77.4629
+20124,38.7813,-77.3913
+20129,39.1634,-77.5932
+20130,39.0397,-77.9419
+20132,39.1658,-77.7269
+20135,39.0863,-77.8872
+20136,38.7298,-77.5442
+20137,38.8066,-77.7224
+20141,39.1213,-77.7909
+20143,38.8753,-77.5622
+20144,38.9207,-77.9354
+20147,39.0419,-77.4781
+20148,38.9939,-77.5322
+20151,38.8972,-77.4439
+20152,38.8994,-77.5187
+20155,38.8067,-77.6214
+20158,39.1396,-77.6589
+20164,39.0111,-77.3968
+20165,39.0575,-77.3920
+20166,38.9700,-77.4640
+20169,38.8721,-77.6414
+20170,38.9798,-77.3798
+20171,38.9269,-77.3968
+20175,39.0644,-77.6038
+20176,39.1803,-77.5335
+20180,39.2686,-77.6376
+20181,38.6691,-77.5496
+20184,39.0014,-77.8786
+20186,38.6878,-77.8396
+20187,38.7221,-77.7369
+20190,38.9592,-77.3411
+20191,38.9333,-77.3501
+20194,38.9810,-77.3408
+20197,39.1952,-77.6280
+20198,38.8842,-77.7446
+20204,38.8856,-77.0144
+20220,38.8971,-77.0344
+20230,38.8937,-77.0357
+20240,38.8945,-77.0426
+20245,38.8936,-77.0450
+20250,38.8856,-77.0328
+20260,38.8835,-77.0250
+20317,38.9348,-77.0144
+20319,38.8669,-77.0170
+20373,38.8545,-77.0131
+20388,38.8724,-76.9939
+20390,38.8790,-76.9937
+20408,38.8928,-77.0230
+20415,38.8949,-77.0442
+20418,38.8928,-77.0478
+20422,38.9271,-77.0103
+20427,38.9021,-77.0476
+20431,38.8989,-77.0442
+20510,38.8928,-77.0069
+20515,38.8868,-77.0090
+20520,38.8947,-77.0485
+20530,38.8931,-77.0250
+20535,38.8951,-77.0249
+20540,38.8879,-77.0047
+20542,38.9414,-77.0280
+20551,38.8928,-77.0458
+20560,38.8901,-77.0272
+20565,38.8901,-77.0195
+20566,38.8958,-77.0556
+20591,38.8869,-77.0230
+20601,38.6196,-76.8560
+20602,38.5832,-76.8947
+20603,38.6291,-76.9756
+20606,38.2580,-76.7433
+20607,38.6733,-77.0268
+20608,38.5824,-76.7010
+20609,38.2812,-76.7485
+20611,38.4550,-76.9876
+20612,38.5095,-76.6793
+20613,38.6712,-76.8053
+20615,38.4114,-76.5488
+20616,38.6619,-77.0985
+20617,38.5438,-76.8525
+20618,38.2760,-76.7999
+20619,38.2925,-76.5277
+20620,38.2331,-76.5218
+20621,38.3261,-76.8011
+20622,38.4174,-76.8780
+20623,38.7416,-76.8425
+20624,38.3381,-76.7335
+20625,38.2575,-76.8445
+20626,38.2365,-76.7635
+20628,38.1530,-76.3399
+20629,38.3441,-76.4560
+20630,38.1601,-76.4635
+20632,38.4228,-76.9548
+20634,38.2417,-76.4983
+20636,38.3521,-76.5672
+20637,38.5251,-76.7560
+20639,38.6012,-76.6055
+20640,38.5267,-77.2016
+20645,38.2972,-76.9162
+20646,38.5207,-76.9999
+20650,38.2599,-76.6324
+20653,38.2371,-76.4287
+20656,38.3385,-76.6813
+20657,38.3842,-76.4401
+20658,38.5707,-77.1584
+20659,38.4079,-76.7320
+20660,38.3693,-76.7073
+20661,38.2637,-76.8490
+20662,38.4285,-77.2053
+20664,38.3427,-76.9102
+20667,38.2152,-76.4478
+20670,38.2848,-76.4077
+20674,38.1536,-76.5323
+20675,38.5835,-77.0152
+20676,38.4874,-76.5453
+20677,38.4953,-77.0367
+20678,38.5251,-76.5954
+20680,38.1091,-76.3859
+20684,38.1255,-76.4205
+20685,38.4344,-76.5287
+20686,38.1871,-76.4328
+20687,38.0637,-76.3397
+20688,38.3273,-76.4643
+20689,38.6703,-76.5859
+20690,38.1581,-76.5349
+20692,38.1804,-76.4996
+20693,38.4591,-77.0874
+20695,38.5878,-76.9788
+20701,39.1325,-76.7883
+20705,39.0471,-76.8981
+20706,38.9659,-76.8511
+20707,39.0956,-76.8839
+20708,39.0426,-76.8265
+20710,38.9417,-76.9259
+20711,38.8011,-76.6451
+20712,38.9424,-76.9646
+20714,38.7031,-76.5329
+20715,38.9868,-76.7363
+20716,38.9264,-76.7150
+20720,38.9964,-76.7834
+20721,38.9152,-76.7851
+20722,38.9346,-76.9506
+20723,39.1377,-76.8679
+20724,39.0803,-76.7905
+20732,38.6551,-76.5426
+20733,38.8057,-76.5322
+20735,38.7509,-76.9027
+20736,38.6899,-76.6173
+20737,38.9624,-76.9152
+20740,39.0027,-76.9308
+20742,38.9942,-76.9434
+20743,38.8839,-76.8942
+20744,38.7459,-76.9832
+20745,38.8056,-76.9947
+20746,38.8364,-76.9183
+20747,38.8533,-76.8830
+20748,38.8149,-76.9334
+20751,38.7944,-76.5612
+20754,38.7318,-76.6566
+20755,39.0985,-76.7455
+20758,38.7340,-76.5896
+20759,39.1540,-76.9312
+20762,38.8098,-76.8692
+20763,39.1373,-76.8201
+20764,38.8319,-76.5043
+20765,38.8464,-76.5476
+20769,38.9919,-76.8092
+20770,38.9997,-76.8891
+20771,39.0086,-76.8560
+20772,38.7803,-76.7670
+20774,38.8763,-76.7696
+20776,38.8784,-76.5920
+20777,39.1749,-76.9691
+20778,38.8287,-76.5727
+20779,38.7586,-76.5695
+20781,38.9529,-76.9463
+20782,38.9659,-76.9661
+20783,38.9971,-76.9668
+20784,38.9505,-76.8917
+20785,38.9183,-76.8819
+20794,39.1515,-76.7947
+20812,38.9670,-77.1439
+20814,39.0048,-77.1030
+20815,38.9834,-77.0793
+20816,38.9569,-77.1200
+20817,38.9973,-77.1518
+20818,38.9735,-77.1624
+20832,39.1503,-77.0783
+20833,39.2104,-77.0616
+20837,39.1165,-77.4071
+20838,39.2241,-77.3703
+20839,39.1815,-77.4308
+20841,39.1820,-77.3225
+20842,39.1999,-77.4153
+20850,39.0892,-77.1805
+20851,39.0781,-77.1208
+20852,39.0515,-77.1240
+20853,39.1017,-77.0946
+20854,39.0328,-77.2208
+20855,39.1370,-77.1318
+20860,39.1510,-77.0350
+20861,39.1487,-76.9991
+20862,39.1808,-77.0174
+20866,39.1093,-76.9339
+20868,39.1259,-76.9614
+20871,39.2589,-77.2818
+20872,39.2992,-77.2066
+20874,39.1331,-77.3018
+20876,39.2067,-77.2337
+20877,39.1406,-77.1921
+20878,39.1126,-77.2504
+20879,39.1673,-77.1641
+20880,39.1407,-77.1745
+20882,39.2287,-77.1627
+20886,39.1885,-77.2051
+20889,39.0038,-77.0870
+20892,39.0006,-77.1037
+20894,38.9959,-77.1021
+20895,39.0270,-77.0776
+20896,39.0353,-77.0950
+20899,39.1444,-77.2162
+20901,39.0215,-77.0098
+20902,39.0438,-77.0424
+20903,39.0214,-76.9808
+20904,39.0704,-76.9774
+20905,39.1099,-76.9881
+20906,39.0872,-77.0550
+20910,39.0029,-77.0366
+20912,38.9816,-77.0012
+21001,39.5045,-76.2010
+21005,39.4726,-76.1107
+21009,39.4715,-76.2846
+21010,39.3909,-76.2926
+21012,39.0466,-76.4956
+21013,39.5115,-76.4908
+21014,39.5358,-76.3516
+21015,39.5442,-76.2925
+21017,39.4748,-76.2346
+21023,39.5232,-76.7402
+21028,39.5660,-76.2495
+21029,39.2136,-76.9594
+21030,39.5158,-76.6988
+21031,39.4874,-76.6579
+21032,39.0283,-76.6041
+21034,39.6406,-76.2231
+21035,38.9383,-76.6266
+21036,39.2346,-77.0067
+21037,38.9193,-76.5435
+21040,39.4299,-76.2836
+21042,39.2772,-76.8946
+21043,39.2558,-76.8015
+21044,39.2053,-76.8787
+21045,39.2060,-76.8282
+21046,39.1741,-76.8354
+21047,39.5269,-76.4381
+21048,39.5004,-76.9245
+21050,39.5853,-76.3922
+21051,39.4727,-76.4558
+21052,39.2050,-76.4396
+21053,39.6968,-76.7147
+21054,39.0556,-76.6905
+21056,39.0790,-76.4362
+21057,39.4487,-76.5125
+21060,39.1736,-76.5776
+21061,39.1609,-76.6321
+21071,39.4838,-76.8104
+21074,39.6216,-76.8399
+21075,39.2031,-76.7507
+21076,39.1714,-76.7233
+21077,39.1584,-76.6995
+21078,39.5592,-76.1412
+21082,39.4781,-76.4735
+21084,39.6136,-76.4664
+21085,39.4459,-76.3570
+21087,39.4493,-76.4132
+21090,39.2096,-76.6647
+21093,39.4380,-76.6422
+21102,39.6922,-76.8476
+21104,39.3469,-76.9128
+21105,39.7151,-76.6523
+21108,39.0903,-76.6213
+21111,39.5755,-76.5897
+21113,39.0627,-76.7124
+21114,39.0097,-76.6839
+21117,39.4276,-76.7758
+21120,39.6462,-76.6749
+21122,39.1143,-76.4874
+21128,39.4047,-76.4482
+21130,39.4748,-76.1894
+21131,39.5045,-76.5892
+21132,39.6955,-76.4222
+21133,39.3784,-76.8113
+21136,39.4391,-76.8445
+21140,38.9508,-76.5867
+21144,39.1206,-76.6776
+21146,39.0791,-76.5587
+21152,39.5552,-76.6859
+21153,39.4178,-76.7005
+21154,39.6574,-76.3605
+21155,39.5736,-76.8061
+21156,39.4292,-76.4039
+21157,39.5486,-76.9836
+21158,39.6537,-77.0351
+21160,39.7002,-76.3065
+21161,39.6599,-76.5651
+21162,39.3901,-76.4056
+21163,39.3375,-76.8482
+21201,39.2950,-76.6223
+21202,39.2974,-76.6077
+21204,39.4064,-76.6261
+21205,39.3022,-76.5641
+21206,39.3384,-76.5389
+21207,39.3242,-76.7195
+21208,39.3840,-76.7243
+21209,39.3753,-76.6626
+21210,39.3576,-76.6350
+21211,39.3287,-76.6393
+21212,39.3673,-76.6146
+21213,39.3150,-76.5774
+21214,39.3521,-76.5643
+21215,39.3459,-76.6822
+21216,39.3106,-76.6717
+21217,39.3070,-76.6383
+21218,39.3301,-76.6015
+21219,39.2302,-76.4361
+21220,39.3431,-76.3909
+21221,39.2921,-76.4370
+21222,39.2646,-76.4956
+21223,39.2830,-76.6539
+21224,39.2759,-76.5419
+21225,39.2261,-76.6157
+21226,39.2089,-76.5629
+21227,39.2400,-76.6795
+21228,39.2729,-76.7477
+21229,39.2842,-76.6914
+21230,39.2681,-76.6267
+21231,39.2885,-76.5920
+21233,39.2925,-76.6050
+21234,39.3933,-76.5318
+21236,39.3882,-76.4837
+21237,39.3415,-76.4953
+21239,39.3652,-76.5871
+21240,39.1748,-76.6718
+21244,39.3350,-76.7767
+21250,39.2556,-76.7112
+21251,39.3499,-76.5802
+21252,39.3941,-76.6114
+21285,39.3875,-76.6170
+21286,39.4118,-76.5732
+21287,39.2992,-76.5883
+21401,38.9879,-76.5527
+21402,38.9884,-76.4707
+21403,38.9421,-76.4896
+21405,39.0281,-76.5480
+21409,39.0184,-76.4425
+21502,39.6415,-78.7561
+21520,39.6366,-79.3078
+21521,39.5497,-79.0465
+21523,39.4813,-79.0785
+21524,39.7067,-78.8021
+21529,39.7137,-78.7762
+21530,39.6796,-78.5461
+21531,39.6430,-79.4281
+21532,39.6491,-78.9847
+21536,39.6570,-79.1656
+21538,39.4099,-79.2243
+21539,39.5952,-79.0095
+21540,39.4788,-79.0589
+21541,39.5415,-79.3800
+21542,39.5912,-78.9508
+21543,39.6436,-78.9610
+21545,39.7041,-78.8545
+21550,39.3917,-79.3924
+21555,39.5751,-78.5626
+21557,39.5229,-78.9277
+21560,39.5650,-78.7062
+21561,39.4916,-79.1944
+21562,39.5139,-79.0394
+21601,38.7925,-76.0879
+21607,39.1340,-75.8564
+21610,39.3671,-76.0725
+21612,38.7522,-76.2668
+21613,38.5028,-76.0789
+21617,39.0494,-76.0445
+21619,38.9424,-76.2657
+21620,39.2080,-76.0827
+21622,38.4145,-76.1593
+21623,39.1240,-75.9667
+21624,38.8344,-76.2757
+21625,38.8641,-75.9815
+21626,38.3427,-76.0679
+21627,38.2331,-76.0464
+21628,39.2332,-75.9220
+21629,38.8587,-75.8251
+21631,38.5824,-75.9390
+21632,38.7314,-75.7724
+21634,38.2859,-76.1943
+21635,39.3348,-75.8466
+21636,39.0150,-75.7958
+21638,38.9402,-76.2076
+21639,38.9587,-75.7825
+21640,39.0681,-75.8209
+21641,38.9170,-75.9418
+21643,38.6456,-75.8699
+21644,39.1172,-75.8744
+21645,39.3158,-75.9562
+21647,38.7961,-76.2848
+21648,38.5088,-76.2398
+21649,39.1456,-75.7842
+21650,39.3106,-75.8086
+21651,39.2561,-75.8584
+21652,38.7190,-76.2810
+21653,38.7440,-76.1758
+21654,38.6901,-76.1316
+21655,38.7450,-75.9128
+21657,38.9386,-75.9811
+21658,38.9443,-76.1439
+21659,38.5750,-75.8004
+21660,38.9562,-75.8889
+21661,39.0961,-76.2195
+21662,38.7142,-76.2007
+21663,38.7880,-76.2312
+21664,38.6076,-75.9471
+21665,38.7549,-76.3681
+21666,38.9401,-76.3358
+21667,39.3437,-76.0519
+21668,39.1906,-75.8505
+21669,38.4620,-76.2952
+21671,38.6956,-76.3351
+21672,38.2717,-76.0527
+21673,38.6423,-76.0435
+21675,38.2890,-76.0896
+21676,38.7874,-76.3011
+21677,38.4722,-76.1738
+21678,39.3136,-76.1133
+21679,38.9205,-76.0941
+21701,39.4436,-77.3329
+21702,39.4793,-77.4432
+21703,39.3670,-77.4735
+21704,39.3549,-77.3759
+21705,39.4089,-77.4100
+21710,39.3079,-77.4321
+21711,39.6684,-78.0196
+21713,39.5250,-77.6697
+21714,39.4106,-77.5101
+21715,39.3788,-77.6607
+21716,39.3178,-77.6267
+21717,39.3386,-77.4315
+21718,39.3935,-77.6278
+21719,39.7045,-77.5005
+21722,39.6645,-77.9135
+21723,39.3291,-77.0026
+21727,39.6886,-77.3293
+21733,39.5500,-77.7584
+21734,39.6058,-77.7038
+21737,39.2483,-77.0271
+21738,39.2798,-77.0267
+21740,39.6319,-77.7439
+21742,39.6782,-77.6527
+21746,39.5659,-77.7141
+21750,39.6623,-78.2360
+21754,39.3321,-77.3162
+21755,39.3597,-77.5681
+21756,39.4598,-77.6935
+21757,39.5939,-77.2581
+21758,39.3532,-77.6568
+21762,39.4806,-77.2483
+21766,39.6705,-78.3879
+21767,39.6978,-77.7465
+21769,39.4425,-77.5689
+21770,39.3502,-77.2562
+21771,39.3949,-77.1582
+21773,39.5427,-77.5515
+21774,39.4102,-77.2742
+21776,39.5180,-77.0997
+21777,39.2792,-77.5287
+21778,39.6158,-77.3284
+21779,39.4245,-77.6540
+21780,39.6722,-77.4716
+21781,39.5713,-77.7598
+21782,39.4555,-77.7602
+21783,39.6520,-77.5526
+21784,39.4011,-76.9737
+21787,39.6776,-77.1726
+21788,39.5900,-77.4139
+21790,39.2627,-77.5027
+21791,39.5331,-77.1886
+21793,39.4892,-77.3442
+21794,39.2984,-76.9661
+21795,39.5806,-77.8237
+21797,39.3312,-77.0686
+21798,39.5378,-77.2951
+21801,38.3494,-75.6785
+21804,38.3141,-75.5321
+21810,38.2907,-75.6893
+21811,38.3211,-75.2222
+21813,38.4228,-75.1797
+21814,38.2931,-75.8993
+21817,37.9810,-75.8361
+21821,38.1646,-75.9167
+21822,38.2884,-75.6610
+21824,37.9845,-76.0374
+21826,38.3204,-75.6265
+21829,38.0977,-75.3715
+21830,38.3974,-75.7348
+21835,38.5342,-75.9360
+21837,38.4546,-75.7663
+21838,38.0179,-75.7379
+21840,38.2487,-75.9000
+21841,38.2238,-75.2811
+21842,38.3631,-75.0850
+21849,38.3647,-75.4563
+21850,38.3617,-75.3971
+21851,38.0776,-75.5435
+21853,38.2035,-75.7209
+21856,38.3307,-75.7949
+21861,38.5364,-75.7274
+21862,38.3958,-75.2129
+21863,38.1879,-75.3990
+21864,38.0316,-75.4058
+21865,38.2828,-75.8270
+21866,37.9671,-76.0214
+21867,38.1103,-75.7940
+21869,38.3868,-75.9160
+21871,38.1068,-75.7415
+21872,38.4151,-75.2993
+21874,38.3938,-75.3520
+21875,38.4400,-75.5447
+21890,38.1581,-75.7009
+21901,39.5831,-75.9668
+21902,39.5524,-76.0638
+21903,39.5741,-76.0452
+21904,39.6155,-76.0680
+21911,39.6953,-76.0323
+21912,39.4194,-75.8186
+21913,39.4140,-75.8699
+21914,39.5751,-75.9846
+21915,39.4961,-75.8482
+21917,39.6716,-76.0974
+21918,39.6782,-76.1759
+21919,39.4186,-75.9337
+21920,39.6562,-75.8410
+21921,39.6271,-75.8599
+21930,39.3701,-75.8873
+22003,38.8302,-77.2147
+22015,38.7860,-77.2800
+22025,38.5919,-77.3495
+22026,38.5601,-77.2962
+22027,38.8949,-77.2230
+22030,38.8372,-77.3405
+22031,38.8589,-77.2603
+22032,38.8177,-77.2902
+22033,38.8752,-77.3847
+22035,38.8563,-77.3629
+22039,38.7486,-77.3145
+22041,38.8493,-77.1415
+22042,38.8651,-77.1939
+22043,38.9015,-77.1974
+22044,38.8620,-77.1544
+22046,38.8863,-77.1810
+22060,38.6994,-77.1575
+22066,39.0124,-77.3019
+22079,38.6757,-77.2038
+22101,38.9402,-77.1649
+22102,38.9510,-77.2296
+22124,38.8949,-77.3295
+22125,38.6817,-77.2619
+22134,38.5325,-77.4050
+22150,38.7729,-77.1865
+22151,38.8041,-77.2078
+22152,38.7745,-77.2320
+22153,38.7450,-77.2356
+22172,38.5790,-77.3999
+22180,38.8954,-77.2561
+22181,38.9055,-77.2898
+22182,38.9384,-77.2755
+22191,38.6229,-77.2629
+22192,38.6842,-77.3179
+22193,38.6441,-77.3505
+22201,38.8868,-77.0950
+22202,38.8569,-77.0515
+22203,38.8738,-77.1164
+22204,38.8607,-77.0990
+22205,38.8834,-77.1395
+22206,38.8440,-77.0872
+22207,38.9067,-77.1242
+22209,38.8944,-77.0734
+22211,38.8801,-77.0748
+22213,38.8946,-77.1624
+22214,38.8749,-77.0650
+22301,38.8200,-77.0593
+22302,38.8279,-77.0831
+22303,38.7940,-77.0818
+22304,38.8132,-77.1123
+22305,38.8365,-77.0621
+22306,38.7498,-77.1074
+22307,38.7704,-77.0591
+22308,38.7293,-77.0610
+22309,38.7191,-77.1071
+22310,38.7847,-77.1222
+22311,38.8340,-77.1255
+22312,38.8175,-77.1539
+22314,38.8069,-77.0564
+22315,38.7568,-77.1474
+22401,38.2993,-77.4867
+22405,38.3136,-77.4039
+22406,38.3997,-77.5467
+22407,38.2849,-77.5806
+22408,38.2115,-77.4525
+22427,38.0723,-77.2886
+22432,37.8609,-76.3554
+22433,38.3671,-77.8594
+22435,37.9668,-76.5721
+22436,38.0842,-77.1175
+22437,37.7804,-76.8118
+22438,38.0430,-76.9958
+22443,38.1695,-76.9868
+22448,38.3363,-77.0285
+22454,37.8327,-76.8451
+22460,37.8693,-76.6074
+22469,38.0636,-76.6435
+22472,37.9588,-76.6725
+22473,37.8817,-76.4118
+22476,38.0380,-77.0674
+22480,37.6626,-76.4122
+22482,37.7366,-76.3466
+22485,38.2772,-77.1626
+22488,38.0495,-76.5875
+22503,37.7505,-76.5153
+22504,37.7689,-76.7207
+22508,38.3132,-77.7985
+22509,38.1062,-77.0736
+22511,37.9944,-76.5044
+22514,38.0080,-77.3294
+22520,38.1186,-76.8124
+22529,38.0116,-76.6895
+22534,38.0872,-77.6690
+22535,38.1182,-77.1966
+22538,38.1928,-77.2755
+22539,37.8606,-76.2860
+22542,38.2932,-77.8925
+22546,37.9445,-77.4461
+22548,37.8272,-76.7015
+22551,38.1870,-77.7004
+22553,38.2718,-77.6400
+22554,38.4207,-77.3747
+22556,38.4887,-77.5151
+22560,37.9158,-76.9611
+22567,38.2379,-77.9276
+22572,37.9653,-76.7711
+22576,37.6874,-76.4407
+22578,37.6366,-76.3561
+22580,38.1126,-77.4368
+22601,39.1742,-78.1743
+22602,39.1442,-78.2848
+22603,39.2810,-78.2065
+22610,38.8247,-78.2791
+22611,39.1632,-77.9854
+22620,39.0605,-78.0342
+22623,38.8489,-78.1407
+22624,39.2612,-78.0963
+22625,39.3768,-78.3093
+22627,38.7723,-78.1488
+22630,38.9309,-78.1765
+22637,39.2567,-78.3528
+22639,38.8451,-78.0345
+22640,38.8110,-78.1406
+22641,39.0852,-78.3932
+22642,38.9481,-78.0277
+22643,38.8928,-78.0127
+22644,38.9658,-78.5454
+22645,39.0192,-78.2747
+22646,39.0725,-78.0509
+22650,38.7651,-78.3646
+22652,38.8401,-78.4317
+22654,39.0663,-78.4640
+22655,39.0663,-78.2092
+22656,39.2195,-78.1007
+22657,39.0011,-78.3706
+22660,38.9549,-78.4402
+22663,39.0525,-78.1123
+22664,38.8889,-78.5325
+22701,38.4264,-78.0101
+22709,38.3287,-78.2137
+22711,38.4645,-78.2789
+22712,38.5541,-77.7513
+22713,38.5335,-78.1359
+22714,38.5103,-77.8905
+22715,38.4140,-78.1847
+22716,38.6300,-78.1030
+22718,38.4599,-77.8279
+22719,38.5282,-78.2813
+22720,38.4805,-77.6482
+22722,38.4663,-78.2271
+22723,38.3346,-78.3804
+22724,38.6317,-77.9040
+22725,38.4405,-78.1561
+22726,38.3982,-77.8165
+22727,38.4076,-78.2953
+22728,38.5750,-77.6803
+22729,38.3527,-78.0179
+22730,38.3629,-78.1639
+22731,38.3441,-78.2615
+22732,38.3089,-78.1915
+22733,38.3211,-78.0397
+22734,38.5285,-77.8097
+22735,38.4809,-78.1845
+22736,38.3983,-77.6945
+22737,38.5921,-78.0018
+22738,38.2856,-78.2884
+22740,38.6457,-78.2870
+22741,38.4496,-77.8640
+22742,38.4646,-77.7083
+22743,38.5400,-78.3814
+22746,38.6264,-78.0211
+22747,38.7091,-78.1657
+22749,38.6195,-78.1843
+22801,38.4051,-78.8807
+22802,38.4945,-78.8632
+22807,38.4346,-78.8689
+22810,38.8339,-78.8013
+22811,38.8111,-78.9915
+22812,38.3781,-79.0272
+22815,38.7125,-78.8412
+22820,38.7448,-78.9832
+22821,38.4805,-79.1284
+22824,38.8467,-78.6283
+22827,38.3925,-78.6149
+22830,38.6672,-78.9750
+22831,38.5599,-79.1221
+22832,38.4582,-78.7572
+22834,38.5596,-78.8547
+22835,38.6704,-78.4553
+22840,38.3924,-78.7441
+22841,38.3418,-78.8925
+22842,38.7780,-78.6997
+22843,38.3684,-79.1468
+22844,38.6616,-78.6581
+22845,38.7767,-78.8451
+22846,38.3849,-78.7962
+22847,38.7173,-78.7150
+22849,38.5253,-78.6296
+22850,38.5647,-78.9178
+22851,38.5438,-78.5030
+22853,38.6517,-78.7587
+22901,38.0877,-78.5527
+22902,37.9103,-78.5221
+22903,38.0070,-78.5951
+22904,38.0354,-78.5112
+22908,38.0310,-78.4966
+22911,38.0970,-78.4101
+22920,37.9687,-78.8055
+22922,37.6858,-78.9215
+22923,38.1893,-78.3167
+22931,37.8989,-78.7274
+22932,38.1475,-78.6965
+22935,38.2540,-78.5627
+22936,38.1600,-78.4991
+22937,37.8145,-78.6121
+22938,37.8607,-78.7754
+22939,38.1035,-78.9715
+22940,38.2105,-78.5946
+22942,38.1014,-78.2021
+22943,38.0402,-78.7783
+22946,37.8479,-78.5635
+22947,38.0440,-78.3247
+22948,38.3632,-78.1290
+22949,37.7891,-78.8834
+22952,37.9342,-79.0142
+22957,38.2297,-78.1917
+22958,37.8928,-78.8943
+22959,37.9373,-78.6566
+22960,38.2195,-78.0633
+22963,37.8467,-78.2940
+22964,37.7238,-78.9911
+22967,37.7973,-79.0141
+22968,38.2417,-78.3938
+22969,37.7975,-78.6934
+22971,37.7478,-78.8003
+22972,38.2170,-78.2335
+22973,38.3355,-78.4679
+22974,37.9663,-78.2674
+22976,37.8489,-79.0458
+22980,38.0999,-78.8805
+22989,38.2932,-78.1190
+23002,37.3497,-77.9594
+23004,37.6883,-78.3992
+23005,37.7600,-77.4837
+23009,37.8120,-77.1750
+23011,37.4774,-76.8125
+23015,37.9296,-77.6428
+23021,37.4010,-76.3718
+23022,37.7371,-78.2642
+23023,37.7690,-76.9637
+23024,37.9278,-77.7793
+23025,37.4152,-76.3624
+23027,37.6465,-78.1302
+23030,37.3460,-77.0553
+23032,37.6555,-76.6819
+23035,37.5001,-76.3821
+23038,37.7535,-78.1488
+23039,37.6529,-77.8016
+23040,37.5202,-78.2528
+23043,37.5576,-76.3364
+23045,37.4253,-76.2688
+23047,37.8462,-77.4865
+23050,37.4878,-76.4193
+23055,37.7682,-78.2170
+23056,37.3943,-76.3839
+23059,37.7023,-77.5740
+23060,37.6597,-77.5338
+23061,37.4277,-76.5376
+23062,37.2629,-76.5075
+23063,37.7059,-77.9807
+23065,37.8060,-77.9324
+23066,37.5001,-76.2926
+23068,37.4898,-76.3334
+23069,37.7827,-77.3430
+23070,37.5521,-76.3835
+23071,37.5454,-76.4488
+23072,37.2904,-76.4478
+23075,37.5582,-77.3169
+23076,37.4724,-76.3066
+23079,37.7403,-76.6775
+23081,37.1936,-76.7525
+23083,37.3107,-78.1048
+23084,37.8849,-78.1150
+23085,37.6890,-76.8256
+23086,37.6686,-77.0544
+23089,37.4772,-76.9148
+23091,37.6563,-76.8025
+23092,37.6068,-76.5147
+23093,38.0042,-78.0401
+23102,37.7081,-77.8287
+23103,37.6480,-77.7236
+23106,37.7156,-77.2072
+23108,37.6561,-76.7205
+23109,37.4328,-76.3256
+23110,37.5701,-76.7702
+23111,37.6136,-77.2430
+23112,37.4326,-77.6551
+23113,37.5398,-77.6797
+23114,37.4830,-77.6604
+23116,37.6644,-77.3255
+23117,37.9820,-77.8740
+23119,37.4438,-76.2768
+23120,37.4221,-77.7814
+23123,37.6518,-78.3011
+23124,37.5510,-77.0440
+23126,37.9235,-77.1443
+23128,37.4472,-76.4293
+23129,37.7036,-77.7776
+23130,37.3873,-76.2594
+23138,37.3427,-76.3043
+23139,37.5460,-77.9367
+23140,37.4388,-77.0493
+23141,37.5352,-77.1573
+23146,37.7234,-77.7104
+23147,37.3696,-77.0391
+23148,37.8396,-77.0587
+23149,37.5757,-76.6093
+23150,37.5011,-77.2526
+23153,37.7797,-77.9559
+23156,37.5192,-76.7260
+23160,37.6291,-77.8408
+23161,37.7157,-76.9352
+23163,37.3571,-76.2973
+23168,37.3958,-76.8251
+23169,37.6035,-76.4572
+23173,37.5758,-77.5415
+23175,37.6549,-76.6244
+23176,37.5729,-76.4150
+23177,37.7292,-77.0060
+23180,37.7024,-76.6153
+23181,37.5975,-76.8891
+23185,37.2397,-76.7014
+23188,37.3416,-76.7478
+23192,37.8204,-77.6808
+23219,37.5406,-77.4347
+23220,37.5493,-77.4606
+23221,37.5500,-77.4910
+23222,37.5830,-77.4189
+23223,37.5578,-77.3789
+23224,37.4976,-77.4674
+23225,37.5197,-77.5106
+23226,37.5794,-77.5199
+23227,37.6118,-77.4359
+23228,37.6266,-77.4928
+23229,37.5880,-77.5702
+23230,37.5866,-77.4891
+23231,37.4422,-77.3149
+23233,37.6438,-77.6294
+23234,37.4528,-77.4665
+23235,37.5146,-77.5648
+23236,37.4758,-77.5853
+23237,37.4007,-77.4566
+23238,37.5925,-77.6417
+23250,37.5047,-77.3209
+23284,37.5490,-77.4517
+23294,37.6313,-77.5425
+23298,37.5417,-77.4295
+23301,37.6699,-75.6437
+23302,37.8542,-75.5176
+23303,37.9034,-75.5064
+23304,36.9961,-76.5721
+23306,37.5665,-75.8855
+23307,37.4320,-75.8712
+23308,37.8277,-75.6324
+23310,37.2590,-75.9637
+23314,36.9590,-76.5243
+23315,36.7374,-76.8405
+23316,37.2944,-75.9656
+23320,36.7517,-76.2176
+23321,36.8004,-76.4212
+23322,36.6260,-76.2678
+23323,36.6970,-76.3799
+23324,36.7997,-76.2734
+23325,36.8136,-76.2399
+23336,37.9494,-75.3381
+23337,37.9401,-75.4660
+23347,37.3566,-75.9783
+23350,37.5127,-75.8626
+23354,37.4792,-75.9025
+23356,38.0100,-75.3854
+23357,37.7556,-75.6760
+23358,37.6527,-75.8680
+23359,37.8877,-75.6039
+23389,37.6553,-75.8331
+23395,37.9697,-75.4482
+23398,37.5206,-75.9397
+23401,37.6278,-75.7783
+23405,37.4117,-75.9266
+23407,37.8471,-75.5544
+23408,37.4529,-75.8435
+23409,37.8876,-75.6629
+23410,37.6390,-75.7451
+23413,37.4624,-75.8495
+23414,37.8138,-75.5869
+23415,37.9752,-75.5356
+23416,37.9373,-75.5615
+23417,37.7321,-75.7620
+23418,37.6414,-75.6684
+23420,37.5991,-75.8175
+23421,37.7648,-75.6118
+23422,37.6354,-75.8227
+23423,37.5161,-75.7410
+23426,37.9251,-75.6918
+23427,37.8998,-75.7182
+23430,36.9994,-76.6608
+23432,36.8618,-76.5516
+23433,36.9161,-76.4845
+23434,36.7030,-76.5921
+23435,36.8486,-76.4729
+23436,36.8938,-76.5069
+23437,36.6271,-76.8032
+23438,36.5812,-76.6972
+23440,37.8252,-75.9902
+23441,37.7121,-75.6994
+23442,37.8942,-75.5599
+23451,36.8724,-76.0043
+23452,36.8458,-76.0920
+23453,36.7835,-76.0712
+23454,36.8646,-76.0551
+23455,36.8838,-76.1432
+23456,36.7370,-76.0360
+23457,36.6174,-76.0153
+23459,36.9168,-76.1717
+23460,36.8185,-76.0316
+23461,36.7706,-75.9638
+23462,36.8362,-76.1459
+23464,36.7969,-76.1876
+23480,37.6187,-75.6907
+23486,37.5179,-75.8069
+23487,36.8474,-76.7250
+23488,37.9476,-75.5985
+23502,36.8609,-76.2049
+23503,36.9488,-76.2665
+23504,36.8573,-76.2656
+23505,36.9129,-76.2996
+23507,36.8646,-76.3032
+23508,36.8849,-76.3103
+23509,36.8824,-76.2640
+23510,36.8524,-76.2915
+23511,36.9372,-76.3092
+23513,36.8890,-76.2377
+23517,36.8692,-76.2921
+23518,36.9161,-76.2154
+23523,36.8324,-76.2721
+23551,36.9235,-76.2925
+23601,37.0379,-76.4798
+23602,37.1134,-76.5179
+23603,37.1911,-76.5645
+23604,37.1191,-76.5932
+23605,37.0187,-76.4367
+23606,37.0657,-76.5167
+23607,36.9705,-76.4243
+23608,37.1478,-76.5430
+23651,37.0018,-76.3099
+23661,37.0009,-76.3700
+23662,37.1333,-76.3530
+23663,37.0159,-76.3225
+23664,37.0731,-76.2951
+23665,37.0839,-76.3601
+23666,37.0570,-76.4081
+23667,37.0220,-76.3297
+23668,37.0203,-76.3385
+23669,37.0507,-76.3393
+23681,37.0968,-76.3835
+23690,37.2203,-76.5183
+23691,37.2596,-76.5729
+23692,37.2122,-76.4213
+23693,37.1312,-76.4448
+23696,37.1891,-76.4211
+23701,36.8120,-76.3694
+23702,36.8033,-76.3267
+23703,36.8933,-76.3733
+23704,36.8267,-76.3120
+23707,36.8418,-76.3403
+23708,36.8477,-76.3041
+23709,36.8172,-76.2989
+23801,37.2361,-77.3358
+23803,37.2151,-77.4704
+23805,37.1322,-77.3942
+23821,36.8832,-77.9129
+23824,37.0888,-77.9580
+23827,36.6190,-77.2002
+23828,36.5809,-77.2669
+23829,36.7272,-77.2282
+23830,37.0243,-77.3972
+23831,37.3463,-77.4506
+23832,37.3879,-77.5921
+23833,37.2094,-77.6689
+23834,37.2901,-77.4008
+23836,37.3510,-77.3305
+23837,36.7571,-77.0900
+23838,37.3175,-77.6339
+23839,37.0859,-76.9185
+23840,37.0510,-77.6711
+23841,37.0619,-77.5502
+23842,37.1372,-77.2170
+23843,36.8504,-77.8118
+23844,36.6800,-77.3265
+23845,36.5788,-77.9776
+23846,37.0666,-76.8340
+23847,36.6642,-77.5516
+23850,37.1630,-77.7425
+23851,36.6520,-76.9571
+23856,36.7943,-77.7031
+23857,36.5847,-77.8838
+23860,37.2747,-77.2274
+23866,36.9237,-76.8624
+23867,36.8204,-77.4886
+23868,36.7093,-77.7951
+23870,36.7525,-77.5002
+23872,36.9830,-77.7268
+23874,36.5847,-77.0708
+23875,37.2299,-77.2557
+23876,36.9558,-77.8336
+23878,36.8248,-77.0254
+23879,36.5923,-77.5968
+23881,37.1807,-76.9778
+23882,36.9262,-77.4217
+23883,37.1360,-76.7359
+23884,36.9173,-77.2801
+23885,37.1788,-77.5729
+23887,36.5734,-77.8169
+23888,36.9543,-76.9792
+23889,36.9029,-77.7472
+23890,37.0092,-77.1183
+23891,37.0476,-77.2037
+23893,36.6244,-77.9366
+23894,37.1371,-77.8246
+23897,36.8373,-77.2848
+23898,36.8383,-76.8619
+23899,37.2344,-76.9741
+23901,37.3201,-78.4097
+23909,37.2990,-78.3963
+23915,36.6931,-78.2874
+23917,36.6256,-78.3449
+23919,36.5804,-78.1349
+23920,36.7245,-77.9753
+23921,37.5863,-78.6235
+23922,37.1748,-78.2217
+23923,37.0871,-78.6497
+23924,36.8222,-78.4258
+23927,36.5917,-78.5610
+23930,37.1710,-78.0996
+23934,37.1772,-78.6267
+23936,37.5246,-78.4765
+23937,36.9451,-78.5125
+23938,36.9042,-78.0062
+23942,37.1297,-78.2986
+23943,37.2432,-78.4620
+23944,36.9159,-78.1386
+23947,37.0172,-78.4477
+23950,36.6588,-78.0759
+23952,36.9175,-78.2792
+23954,37.1063,-78.3801
+23955,37.1124,-78.0699
+23958,37.2740,-78.6569
+23959,37.1052,-78.7947
+23960,37.3210,-78.5521
+23962,36.9506,-78.6924
+23963,37.2010,-78.7985
+23964,36.7827,-78.6331
+23966,37.3003,-78.2591
+23967,36.9224,-78.6300
+23968,36.7169,-78.5102
+23970,36.7391,-78.1824
+23974,36.9691,-78.2424
+23976,36.8555,-78.5791
+24011,37.2702,-79.9415
+24012,37.3177,-79.8968
+24013,37.2674,-79.9219
+24014,37.2229,-79.9152
+24015,37.2552,-79.9821
+24016,37.2721,-79.9550
+24017,37.2976,-79.9910
+24018,37.2131,-80.0417
+24019,37.3439,-79.9545
+24020,37.3561,-79.9432
+24022,37.2769,-79.9343
+24053,36.6072,-80.5341
+24054,36.6820,-79.7046
+24055,36.7621,-80.0006
+24058,37.1767,-80.6223
+24059,37.1559,-80.1320
+24060,37.2605,-80.4167
+24061,37.2258,-80.4262
+24064,37.3763,-79.7704
+24065,37.1171,-79.9971
+24066,37.5361,-79.6786
+24067,37.0324,-80.0603
+24069,36.5769,-79.6426
+24070,37.3721,-80.2328
+24072,37.0420,-80.2424
+24073,37.1347,-80.4231
+24076,36.6052,-80.4210
+24077,37.3611,-79.9072
+24078,36.7243,-79.9131
+24079,37.0534,-80.1508
+24082,36.6333,-80.1312
+24083,37.4052,-79.9202
+24084,37.1676,-80.7176
+24085,37.6839,-79.8573
+24086,37.2756,-80.6322
+24087,37.2215,-80.2389
+24088,36.8879,-80.0779
+24089,36.7039,-79.9608
+24090,37.5302,-79.8955
+24091,36.9198,-80.3213
+24092,37.0120,-79.7579
+24093,37.3851,-80.8687
+24095,37.2232,-79.7373
+24101,37.1736,-79.7964
+24102,36.8444,-80.0023
+24104,37.1336,-79.4886
+24105,36.9116,-80.6037
+24112,36.7212,-79.8469
+24120,36.6916,-80.4139
+24121,37.1689,-79.6474
+24122,37.4262,-79.6921
+24124,37.3059,-80.8660
+24127,37.4736,-80.2311
+24128,37.3400,-80.4825
+24129,37.1396,-80.5917
+24131,37.5706,-80.2329
+24132,37.2038,-80.6592
+24133,36.6756,-80.1280
+24134,37.2479,-80.7776
+24136,37.3161,-80.6128
+24137,36.9276,-79.6575
+24138,37.0518,-80.3174
+24139,37.0149,-79.4529
+24141,37.1072,-80.5619
+24142,37.1382,-80.5508
+24147,37.4015,-80.8236
+24148,36.5815,-79.8768
+24149,37.0186,-80.4336
+24150,37.4010,-80.5983
+24151,36.9614,-79.8664
+24153,37.3025,-80.1143
+24161,36.9781,-79.5291
+24162,37.1294,-80.2497
+24165,36.5943,-80.0606
+24167,37.2553,-80.7245
+24168,36.7360,-79.9488
+24171,36.6966,-80.2208
+24174,37.3497,-79.6619
+24175,37.4577,-80.0294
+24176,37.0055,-79.6925
+24179,37.2830,-79.7939
+24184,37.0871,-79.7736
+24185,36.8087,-80.2756
+24201,36.6116,-82.1686
+24202,36.6563,-82.2122
+24210,36.7689,-82.0275
+24211,36.6541,-81.9551
+24216,36.9436,-82.7828
+24217,37.1021,-82.1704
+24219,36.8344,-82.7491
+24220,37.1219,-82.2231
+24221,36.6253,-82.9988
+24224,36.8614,-82.2718
+24225,36.9917,-82.1419
+24226,37.1369,-82.3230
+24228,37.1669,-82.4563
+24230,36.9687,-82.4514
+24236,36.6385,-81.7245
+24237,37.0406,-82.2619
+24239,37.1130,-82.1473
+24243,36.7843,-82.9198
+24244,36.7077,-82.8035
+24245,36.8380,-82.5128
+24246,36.8662,-82.7439
+24248,36.6096,-83.5098
+24250,36.7566,-82.5877
+24251,36.6571,-82.5994
+24256,37.2233,-82.2835
+24258,36.6492,-82.4087
+24260,37.0211,-82.0011
+24263,36.6682,-83.1671
+24265,36.8327,-82.9465
+24266,36.8680,-82.1019
+24269,37.0728,-82.3807
+24270,36.7296,-82.2507
+24271,36.7488,-82.4172
+24272,37.0178,-82.3334
+24273,36.9647,-82.6615
+24277,36.7495,-83.0195
+24279,37.0777,-82.6274
+24280,36.9548,-81.9434
+24281,36.6373,-83.3402
+24282,36.8188,-83.0543
+24283,36.9398,-82.3329
+24290,36.6161,-82.5613
+24292,36.6247,-81.5955
+24293,36.9980,-82.5662
+24301,37.0650,-80.8183
+24311,36.8731,-81.4029
+24312,36.8330,-80.8870
+24313,36.9108,-80.7970
+24314,37.1572,-81.2104
+24315,37.1336,-81.0632
+24316,36.9557,-81.6690
+24317,36.6012,-80.6713
+24318,36.9960,-81.3871
+24319,36.7617,-81.6569
+24322,36.7990,-81.1137
+24323,36.8658,-81.2047
+24324,36.9741,-80.7765
+24325,36.8104,-80.5876
+24326,36.7227,-81.1903
+24327,36.7736,-81.8297
+24328,36.6454,-80.7008
+24330,36.7159,-81.0268
+24333,36.6398,-80.9351
+24340,36.7533,-81.7679
+24343,36.7626,-80.6984
+24347,36.9609,-80.6525
+24348,36.6522,-81.2153
+24350,36.8133,-80.9942
+24351,36.5794,-80.7651
+24352,36.7090,-80.5312
+24354,36.8213,-81.5405
+24360,36.9406,-80.9091
+24361,36.7673,-81.8450
+24363,36.6166,-81.4050
+24366,37.2640,-81.1041
+24368,36.8929,-81.3014
+24370,36.9114,-81.6898
+24374,36.7838,-81.2204
+24375,36.7717,-81.3922
+24377,37.0021,-81.5687
+24378,36.6943,-81.4196
+24380,36.8597,-80.5088
+24381,36.7223,-80.8332
+24382,36.9533,-81.1108
+24401,38.1344,-79.0856
+24411,38.1182,-79.3306
+24412,38.0537,-79.8181
+24413,38.5059,-79.5561
+24415,37.9086,-79.3077
+24416,37.7287,-79.3549
+24421,38.2447,-79.2451
+24422,37.8329,-79.7504
+24426,37.7593,-80.0500
+24430,38.0780,-79.3431
+24431,38.1700,-78.8429
+24432,38.1481,-79.4434
+24433,38.4240,-79.4248
+24435,37.8577,-79.3070
+24437,38.2125,-78.9337
+24439,38.0171,-79.4820
+24440,37.9994,-79.1654
+24441,38.2222,-78.8094
+24442,38.3725,-79.3846
+24445,37.9600,-79.8718
+24448,37.7971,-79.7885
+24450,37.7798,-79.5451
+24457,37.7958,-79.8652
+24458,38.3264,-79.5103
+24459,38.0393,-79.2795
+24460,38.0169,-79.6666
+24464,37.8606,-79.1100
+24465,38.3976,-79.6469
+24467,38.2550,-78.9713
+24469,38.2010,-78.9083
+24471,38.3132,-78.7842
+24472,37.9397,-79.2206
+24473,37.9347,-79.4154
+24474,37.8053,-79.8476
+24476,37.9745,-79.2274
+24477,38.0049,-79.0422
+24479,38.1639,-79.2390
+24482,38.2033,-78.9981
+24483,37.8126,-79.2352
+24484,38.1831,-79.7995
+24485,38.2709,-79.3300
+24486,38.2969,-78.9245
+24487,38.1997,-79.5885
+24501,37.3597,-79.1413
+24502,37.3552,-79.2185
+24503,37.4543,-79.2415
+24504,37.3652,-79.0482
+24515,37.3532,-79.1790
+24517,37.1414,-79.2374
+24520,36.5866,-79.0297
+24521,37.6333,-79.1008
+24522,37.3768,-78.7788
+24523,37.3369,-79.5257
+24526,37.5562,-79.3976
+24527,36.7327,-79.3456
+24528,37.0797,-78.8762
+24529,36.6172,-78.6298
+24530,36.8071,-79.6195
+24531,36.8407,-79.4381
+24534,36.8833,-78.7704
+24536,37.4909,-79.3237
+24538,37.3790,-78.9701
+24539,36.8406,-78.9314
+24540,36.6345,-79.4268
+24541,36.5888,-79.5150
+24549,36.7067,-79.5045
+24550,37.2383,-79.2720
+24551,37.3701,-79.3314
+24553,37.5455,-78.8100
+24554,37.1200,-79.0716
+24555,37.6670,-79.4683
+24556,37.3758,-79.3993
+24557,36.9699,-79.3064
+24558,36.7806,-78.9561
+24562,37.7032,-78.6178
+24563,37.0593,-79.2726
+24565,36.8527,-79.1895
+24566,36.7318,-79.2526
+24569,37.0426,-79.1259
+24570,37.3486,-79.4272
+24571,37.1330,-79.3727
+24572,37.4649,-79.0953
+24574,37.5769,-79.2456
+24577,36.9439,-78.9827
+24578,37.6599,-79.5623
+24579,37.5858,-79.5027
+24580,36.5791,-78.6731
+24581,37.6552,-78.8058
+24586,36.6070,-79.2766
+24588,37.2622,-79.0962
+24589,36.7572,-78.7537
+24590,37.7928,-78.4749
+24592,36.6820,-78.9527
+24593,37.3342,-78.9143
+24594,36.6360,-79.1867
+24595,37.5607,-79.0810
+24597,36.7824,-79.1109
+24598,36.6047,-78.7880
+24599,37.6236,-78.7239
+24601,37.1906,-81.6406
+24602,37.1832,-81.6585
+24603,37.3474,-82.2032
+24604,37.2120,-81.5397
+24605,37.2351,-81.3749
+24606,37.2894,-81.3912
+24607,37.2955,-82.2709
+24609,37.0161,-81.7914
+24612,37.1015,-81.8498
+24613,37.2652,-81.3369
+24614,37.3131,-82.0889
+24620,37.4314,-82.0118
+24622,37.2147,-81.7899
+24630,37.1768,-81.4754
+24631,37.2217,-82.0017
+24634,37.2678,-81.9028
+24635,37.3079,-81.3488
+24637,37.0611,-81.7139
+24639,37.1728,-81.8980
+24641,37.1118,-81.8024
+24646,37.1448,-82.0242
+24649,37.0903,-81.9217
+24651,37.0755,-81.5031
+24656,37.1751,-82.1250
+24657,37.2278,-81.8488
+24701,37.3060,-81.2049
+24712,37.4796,-81.0347
+24714,37.4686,-81.1783
+24715,37.3352,-81.3334
+24716,37.5337,-81.3763
+24719,37.4872,-81.3266
+24724,37.3375,-81.3180
+24726,37.4876,-81.2997
+24729,37.4499,-81.2600
+24731,37.3974,-81.1516
+24733,37.4501,-81.2011
+24736,37.4468,-81.2812
+24737,37.3530,-81.2658
+24738,37.3032,-81.3201
+24739,37.3735,-81.0048
+24740,37.4034,-81.1065
+24747,37.4115,-81.2165
+24801,37.4686,-81.5531
+24808,37.3300,-81.4224
+24811,37.4022,-81.7485
+24813,37.3574,-81.7201
+24815,37.2200,-81.6162
+24816,37.4611,-81.7059
+24817,37.3412,-81.8216
+24818,37.6247,-81.6203
+24822,37.6470,-81.6973
+24823,37.6720,-81.7519
+24826,37.2933,-81.6236
+24827,37.7689,-81.6369
+24828,37.4978,-81.6713
+24830,37.3339,-81.5586
+24831,37.3889,-81.4511
+24834,37.5236,-81.6863
+24836,37.3812,-81.5512
+24839,37.5784,-81.7573
+24843,37.4838,-81.7092
+24844,37.4896,-81.7926
+24845,37.5264,-81.8004
+24846,37.5258,-81.8866
+24847,37.5707,-81.4094
+24848,37.2801,-81.4344
+24849,37.6870,-81.5616
+24850,37.3781,-81.8852
+24851,37.6014,-81.8337
+24853,37.4481,-81.5302
+24854,37.7496,-81.5765
+24855,37.4087,-81.4250
+24857,37.6874,-81.6760
+24860,37.6626,-81.5898
+24861,37.3573,-81.3573
+24862,37.4788,-81.9636
+24866,37.2501,-81.5805
+24867,37.6053,-81.4573
+24868,37.4385,-81.3891
+24869,37.5534,-81.8244
+24870,37.7365,-81.5321
+24871,37.3231,-81.5061
+24872,37.4494,-81.9205
+24873,37.3515,-81.8801
+24874,37.6018,-81.5310
+24878,37.4394,-81.6254
+24879,37.3120,-81.7677
+24880,37.6496,-81.5320
+24881,37.4428,-81.6699
+24882,37.6257,-81.7660
+24884,37.2731,-81.5514
+24887,37.3780,-81.3866
+24888,37.3576,-81.4834
+24892,37.3167,-81.6968
+24894,37.2443,-81.6881
+24895,37.3763,-81.5829
+24898,37.5874,-81.5684
+24901,37.8539,-80.4846
+24910,37.7427,-80.6684
+24915,38.4693,-79.7867
+24916,37.8286,-80.5810
+24918,37.5223,-80.7455
+24920,38.6328,-79.6962
+24924,38.2013,-80.1649
+24925,37.7308,-80.3799
+24927,38.3402,-80.0376
+24931,37.9116,-80.5997
+24934,38.3336,-79.8910
+24935,37.5661,-80.8056
+24938,37.9328,-80.3704
+24941,37.5863,-80.3510
+24943,37.8383,-80.7338
+24944,38.3846,-79.7693
+24945,37.5164,-80.7032
+24946,38.2286,-80.3198
+24951,37.4952,-80.6241
+24954,38.2249,-80.0560
+24957,37.8961,-80.3968
+24962,37.6624,-80.7184
+24963,37.4364,-80.7585
+24966,38.0568,-80.3851
+24970,37.7281,-80.4745
+24974,37.6418,-80.4484
+24976,37.6570,-80.5117
+24977,37.8979,-80.6850
+24981,37.6329,-80.7357
+24983,37.5961,-80.5065
+24984,37.4939,-80.4077
+24985,37.6042,-80.7126
+24986,37.9211,-80.1456
+24991,38.0013,-80.4806
+24993,37.6610,-80.6352
+25002,38.1309,-81.2547
+25003,38.2485,-81.7849
+25005,38.6062,-81.2571
+25007,37.8248,-81.4305
+25008,37.9488,-81.3447
+25009,38.2023,-81.6846
+25011,38.5148,-81.8327
+25015,38.2461,-81.4973
+25019,38.3507,-81.0922
+25021,37.9178,-81.6839
+25022,37.8246,-81.7762
+25024,38.1591,-81.6237
+25025,38.2984,-81.4031
+25028,37.9471,-81.7256
+25030,38.4533,-81.2258
+25031,38.1487,-81.2748
+25033,38.6121,-81.9244
+25035,38.1652,-81.5210
+25036,38.1823,-81.2711
+25039,38.2350,-81.3633
+25040,38.1364,-81.2471
+25043,38.4258,-81.0032
+25044,37.9158,-81.3094
+25045,38.4475,-81.3293
+25047,37.9205,-81.7676
+25048,37.9473,-81.4308
+25049,38.1153,-81.5583
+25051,38.1569,-81.7098
+25053,38.0413,-81.8816
+25054,38.1205,-81.4519
+25057,38.1093,-81.2234
+25059,38.2446,-81.2237
+25060,37.9665,-81.4740
+25061,38.1746,-81.4398
+25062,37.8797,-81.4332
+25063,38.5761,-80.9230
+25064,38.3770,-81.7494
+25067,38.2134,-81.4450
+25070,38.5459,-81.9316
+25071,38.4778,-81.4666
+25075,38.0602,-81.4051
+25076,37.8689,-81.9370
+25081,38.0739,-81.7523
+25082,38.6042,-82.0310
+25083,38.0699,-81.3678
+25085,38.1617,-81.1632
+25086,38.2183,-81.4146
+25088,38.3986,-81.2088
+25090,38.1551,-81.2210
+25093,37.9513,-81.6327
+25102,38.1657,-81.3521
+25103,38.1806,-81.3809
+25106,38.7660,-82.0848
+25107,38.2380,-81.6762
+25108,37.9624,-81.8781
+25109,38.5313,-81.8606
+25110,38.2051,-81.3372
+25111,38.3502,-81.1234
+25112,38.3810,-81.7663
+25113,38.5533,-81.0463
+25114,37.9873,-81.7863
+25115,38.1222,-81.1823
+25118,38.1189,-81.3230
+25119,38.0150,-81.2629
+25121,37.9102,-81.8867
+25123,38.7302,-81.9000
+25124,38.6211,-81.7645
+25125,38.3117,-81.2152
+25126,38.1906,-81.3573
+25130,38.0330,-81.7523
+25132,38.2933,-81.3344
+25133,38.4746,-81.1015
+25134,38.1432,-81.4730
+25136,38.1546,-81.3149
+25139,38.1060,-81.2828
+25140,37.8399,-81.4985
+25141,38.6302,-81.0247
+25142,38.1431,-81.7377
+25143,38.4212,-81.8241
+25148,38.0255,-81.5257
+25149,37.9492,-81.7720
+25152,38.0327,-81.2404
+25154,38.1206,-81.7133
+25156,38.4118,-81.4822
+25159,38.5236,-81.7889
+25160,38.3243,-81.2684
+25161,38.0528,-81.3187
+25162,38.2077,-81.3830
+25164,38.5092,-81.2049
+25165,38.1557,-81.6535
+25168,38.5603,-81.8799
+25169,38.1292,-81.7635
+25173,38.0739,-81.2107
+25174,37.8657,-81.4110
+25177,38.3694,-81.8508
+25180,37.7903,-81.4363
+25181,38.0493,-81.6412
+25183,37.8918,-81.7995
+25185,38.2172,-81.2380
+25186,38.1740,-81.2975
+25187,38.7317,-82.0143
+25193,38.0168,-81.5509
+25201,38.3477,-81.4913
+25202,38.3164,-81.8591
+25203,38.0212,-81.8816
+25204,37.9274,-81.6390
+25205,38.0192,-81.7934
+25206,37.9569,-81.6829
+25208,37.8365,-81.6398
+25209,37.9596,-81.5223
+25211,38.4687,-80.8884
+25213,38.5127,-81.9133
+25214,38.1858,-81.5429
+25231,38.6131,-81.5947
+25234,38.8083,-81.1333
+25235,38.6695,-81.0895
+25239,38.8503,-81.8448
+25241,38.7753,-81.8002
+25243,38.6762,-81.4936
+25244,38.7633,-81.5390
+25245,38.7088,-81.7363
+25247,39.0020,-81.9897
+25248,38.6443,-81.6139
+25251,38.6212,-81.2318
+25252,38.8786,-81.5349
+25253,38.9211,-81.9615
+25259,38.6747,-81.2484
+25260,39.0210,-82.0191
+25261,38.8334,-81.0901
+25262,38.9092,-81.8363
+25264,38.8599,-81.8939
+25265,38.9736,-81.9826
+25266,38.6022,-81.1589
+25267,38.8575,-80.9515
+25268,38.7314,-81.1233
+25270,38.8772,-81.4578
+25271,38.7885,-81.6925
+25275,38.9267,-81.6190
+25276,38.7821,-81.3287
+25285,38.5397,-81.1016
+25286,38.6210,-81.3973
+25287,38.9609,-82.0513
+25301,38.3513,-81.6280
+25302,38.3932,-81.5955
+25303,38.3596,-81.6861
+25304,38.3017,-81.5978
+25305,38.3368,-81.6131
+25306,38.3125,-81.4994
+25309,38.3119,-81.7572
+25311,38.3669,-81.5570
+25312,38.4525,-81.6457
+25313,38.4087,-81.7435
+25314,38.2892,-81.6602
+25315,38.2149,-81.5841
+25320,38.5398,-81.6257
+25387,38.3847,-81.6706
+25401,39.4572,-77.9724
+25403,39.4749,-78.0116
+25404,39.4899,-77.8964
+25405,39.4089,-77.9624
+25411,39.5487,-78.2215
+25413,39.3106,-78.0559
+25414,39.2418,-77.8648
+25419,39.5829,-77.8851
+25420,39.3810,-78.1197
+25421,39.3782,-78.1638
+25422,39.5450,-78.3543
+25425,39.3067,-77.7730
+25427,39.5204,-78.0991
+25428,39.3806,-78.0222
+25430,39.3272,-77.9379
+25431,39.4838,-78.5743
+25432,39.2954,-77.7868
+25434,39.4397,-78.4611
+25437,39.4237,-78.5793
+25438,39.3234,-77.8640
+25442,39.3728,-77.8327
+25443,39.4382,-77.8147
+25444,39.4308,-78.5135
+25446,39.2402,-77.9570
+25501,38.1615,-81.9573
+25502,38.6658,-82.1164
+25503,38.6089,-82.1150
+25504,38.3764,-82.2700
+25505,38.0197,-82.0308
+25506,38.2093,-82.1989
+25507,38.3971,-82.5494
+25508,37.9622,-82.0069
+25510,38.3823,-82.0830
+25511,38.0512,-82.3350
+25512,38.1784,-82.3041
+25514,38.0778,-82.5252
+25515,38.7566,-82.1469
+25517,38.1098,-82.4537
+25520,38.5575,-82.1779
+25521,38.2269,-81.9824
+25523,38.2801,-82.0653
+25524,38.0216,-82.1174
+25526,38.3944,-81.9913
+25529,38.1598,-81.8187
+25530,38.3575,-82.5800
+25534,38.0844,-82.2750
+25535,38.3086,-82.4348
+25537,38.5334,-82.2820
+25540,38.1571,-82.1391
+25541,38.4806,-82.1302
+25544,38.2308,-82.1102
+25545,38.4591,-82.2272
+25547,37.9198,-81.9446
+25550,38.8633,-82.0674
+25555,38.2139,-82.5496
+25557,38.1004,-82.1537
+25559,38.3249,-82.2291
+25560,38.4468,-81.8989
+25564,38.2722,-81.9010
+25565,38.1214,-81.9730
+25567,38.2083,-81.8944
+25570,38.2271,-82.4022
+25571,38.3135,-82.1558
+25573,38.2322,-81.9411
+25601,37.8628,-82.0093
+25606,37.7650,-81.8204
+25607,37.7837,-81.7719
+25608,37.5751,-81.8916
+25611,37.6850,-81.8717
+25612,37.7636,-81.9790
+25617,37.7415,-81.8073
+25621,37.6499,-81.8856
+25624,37.8997,-81.9811
+25625,37.8194,-82.0812
+25628,37.7681,-81.8625
+25630,37.7884,-81.6940
+25632,37.7420,-81.9476
+25634,37.7276,-81.8183
+25635,37.7189,-81.8724
+25637,37.8518,-82.0268
+25638,37.7375,-82.0544
+25639,37.8814,-81.9551
+25644,37.7047,-82.0221
+25646,37.8474,-81.8842
+25647,37.7868,-81.9844
+25649,37.8754,-82.0931
+25650,37.6836,-81.7877
+25651,37.5859,-81.9568
+25652,37.7907,-82.0451
+25653,37.8236,-81.9912
+25654,37.7956,-81.8737
+25661,37.7105,-82.2537
+25666,37.9203,-82.2943
+25667,37.7062,-82.2738
+25669,37.9355,-82.4685
+25670,37.7385,-82.1559
+25671,37.9041,-82.2028
+25672,37.5701,-82.1004
+25674,37.8711,-82.3467
+25676,37.8377,-82.1931
+25678,37.6120,-82.1353
+25685,37.7958,-82.3143
+25688,37.6395,-82.1582
+25690,37.6913,-82.1550
+25692,37.6180,-82.0738
+25696,37.6629,-82.0555
+25699,37.9588,-82.3040
+25701,38.3657,-82.4052
+25702,38.4347,-82.3144
+25703,38.4221,-82.4182
+25704,38.3076,-82.4874
+25705,38.4063,-82.3625
+25755,38.4236,-82.4279
+25801,37.8406,-81.2707
+25810,37.5835,-81.3499
+25811,37.5901,-81.2913
+25812,38.1391,-81.1262
+25813,37.7842,-81.0996
+25817,37.7645,-81.4249
+25818,37.8603,-81.1920
+25820,37.5152,-81.1638
+25823,37.6663,-81.1828
+25825,37.6443,-81.0830
+25826,37.5730,-81.3702
+25827,37.7391,-81.2548
+25831,37.9593,-80.9308
+25832,37.7153,-81.1188
+25836,37.7856,-81.2878
+25837,38.0582,-81.0383
+25839,37.7782,-81.3872
+25840,38.0417,-81.1110
+25841,37.5608,-81.0925
+25843,37.6239,-81.1299
+25844,37.8080,-81.3581
+25845,37.7150,-81.5108
+25846,37.9261,-81.1682
+25848,37.7215,-81.4247
+25849,37.7317,-81.2780
+25851,37.8025,-81.2594
+25853,37.6445,-81.2823
+25854,38.1275,-80.9764
+25855,37.9405,-81.1530
+25857,37.6097,-81.2376
+25862,38.0882,-81.0405
+25864,37.8855,-81.0378
+25865,37.7115,-81.3624
+25866,38.0097,-81.1589
+25868,38.0705,-80.9672
+25870,37.6382,-81.3730
+25871,37.7692,-81.2117
+25873,37.7501,-81.2138
+25875,37.6656,-81.4512
+25876,37.6311,-81.4491
+25878,37.7052,-81.2221
+25879,37.9822,-81.1057
+25880,37.8795,-81.1995
+25882,37.6123,-81.4037
+25901,37.9399,-81.1028
+25902,37.5698,-81.2175
+25904,37.9156,-81.2458
+25907,37.8560,-81.0862
+25908,37.6678,-81.2443
+25909,37.8390,-81.2028
+25911,37.7518,-81.1804
+25913,37.7078,-81.4730
+25915,37.6181,-81.2915
+25916,37.6782,-81.4903
+25917,37.9853,-81.2533
+25918,37.7400,-81.0356
+25920,37.6864,-81.3363
+25921,37.6828,-81.2662
+25922,37.4720,-81.1028
+25928,37.5413,-81.3399
+25932,37.7520,-81.2996
+25936,37.9264,-81.0340
+25938,38.1629,-81.0305
+25942,38.0179,-80.9854
+25943,37.5966,-81.3492
+25951,37.6552,-80.8755
+25958,38.0041,-80.7666
+25962,37.9861,-80.7989
+25966,37.8056,-80.7562
+25969,37.6112,-81.0052
+25971,37.4774,-80.9774
+25972,38.0321,-80.7069
+25976,37.8405,-80.8667
+25977,37.7978,-80.9066
+25978,37.6330,-80.9412
+25979,37.5109,-80.9135
+25981,38.0709,-80.6979
+25984,38.0158,-80.6074
+25985,37.7567,-80.8333
+25986,37.8998,-80.8237
+25989,37.6786,-81.0370
+26003,40.0692,-80.6508
+26030,40.2233,-80.6579
+26031,39.9991,-80.7060
+26032,40.1837,-80.5532
+26033,39.8283,-80.5795
+26034,40.5985,-80.5523
+26035,40.3449,-80.5535
+26036,39.9777,-80.5543
+26037,40.3350,-80.5859
+26038,39.9646,-80.7241
+26039,39.7994,-80.6741
+26040,39.9836,-80.7314
+26041,39.8872,-80.7054
+26047,40.5321,-80.5858
+26050,40.6083,-80.6208
+26055,39.7623,-80.7798
+26056,40.5170,-80.5702
+26058,40.1871,-80.6619
+26059,40.0573,-80.6053
+26060,40.1055,-80.5448
+26062,40.4214,-80.5577
+26070,40.2598,-80.5800
+26074,40.1666,-80.5953
+26075,40.1964,-80.6500
+26101,39.2258,-81.5843
+26104,39.2780,-81.4760
+26105,39.3296,-81.5146
+26133,39.1154,-81.6632
+26134,39.3815,-81.2735
+26136,38.9614,-81.1181
+26137,38.9956,-81.0494
+26138,39.0279,-81.1463
+26141,38.9336,-81.2459
+26142,39.2150,-81.4546
+26143,39.0564,-81.3727
+26146,39.4571,-81.0368
+26147,38.9136,-81.0762
+26148,39.0585,-81.1828
+26149,39.4722,-80.8859
+26150,39.1347,-81.5351
+26151,38.8952,-81.1817
+26152,38.9791,-81.1777
+26155,39.6301,-80.7640
+26159,39.6074,-80.9322
+26160,38.9812,-81.4121
+26161,39.1597,-81.2460
+26162,39.5687,-80.7667
+26164,39.0134,-81.6948
+26167,39.5323,-80.7228
+26169,39.0722,-81.5716
+26170,39.3620,-81.1780
+26175,39.5372,-80.9748
+26178,39.0628,-81.0274
+26180,39.1949,-81.3663
+26181,39.2093,-81.6645
+26184,39.2950,-81.3527
+26187,39.3663,-81.4466
+26201,39.0019,-80.1974
+26202,38.2316,-80.6221
+26203,38.5485,-80.5884
+26205,38.3212,-80.6462
+26206,38.3201,-80.4132
+26208,38.3499,-80.5838
+26209,38.3756,-80.0800
+26210,38.9031,-80.2779
+26215,38.7216,-80.3649
+26217,38.6110,-80.4468
+26218,38.8450,-80.2679
+26222,38.6602,-80.3433
+26224,38.7448,-80.1747
+26228,38.7544,-80.3705
+26230,38.6270,-80.2064
+26234,38.7662,-80.3083
+26236,38.7176,-80.2309
+26237,38.8477,-80.1515
+26238,39.1018,-80.1584
+26241,38.9163,-79.7922
+26250,39.0296,-79.9704
+26253,38.8061,-79.8431
+26254,38.9622,-79.6301
+26257,38.9226,-80.0124
+26259,38.8254,-79.9153
+26260,39.0829,-79.4125
+26261,38.1890,-80.5006
+26263,38.9570,-79.4358
+26264,38.5892,-79.8229
+26266,38.4376,-80.4974
+26267,38.9255,-80.0807
+26268,38.7145,-79.8229
+26269,39.1167,-79.6522
+26270,38.8123,-79.6005
+26271,39.0238,-79.5039
+26273,38.6345,-79.9612
+26275,38.9869,-79.9500
+26276,39.0337,-79.7327
+26278,38.8257,-80.0255
+26280,38.7174,-80.0378
+26282,38.5202,-80.1462
+26283,39.0584,-79.8231
+26285,38.9102,-79.9494
+26287,39.1660,-79.6875
+26288,38.5150,-80.3466
+26289,38.9897,-79.5127
+26291,38.4411,-80.0863
+26292,39.1419,-79.5337
+26293,38.7824,-79.9365
+26294,38.5344,-80.0231
+26296,38.7645,-79.5536
+26298,38.4562,-80.2862
+26301,39.2864,-80.3727
+26320,39.4041,-80.8121
+26321,39.0522,-80.6941
+26323,39.2623,-80.2906
+26325,39.0989,-80.9048
+26327,39.1229,-80.9428
+26330,39.2888,-80.2216
+26335,38.8435,-80.6841
+26337,39.2302,-81.1610
+26338,39.0912,-80.6282
+26339,39.4222,-80.6140
+26342,39.0336,-80.8548
+26343,38.8222,-80.4024
+26346,39.2900,-81.0601
+26347,39.2637,-80.1261
+26348,39.4624,-80.5452
+26349,39.2275,-80.1108
+26351,38.9262,-80.8376
+26354,39.3540,-80.0187
+26361,39.3651,-80.3177
+26362,39.1554,-81.0542
+26366,39.3827,-80.3348
+26369,39.3352,-80.3312
+26372,38.9591,-80.3466
+26374,39.4523,-79.8753
+26376,38.7758,-80.4688
+26377,39.4963,-80.6470
+26378,39.1237,-80.4475
+26384,38.9754,-80.7220
+26385,39.1595,-80.3520
+26386,39.4025,-80.3932
+26404,39.3358,-80.3065
+26405,39.2217,-79.8998
+26408,39.1966,-80.3064
+26410,39.4050,-79.8083
+26411,39.1775,-80.7230
+26412,38.8966,-80.5830
+26415,39.2883,-80.9392
+26416,39.1571,-80.0237
+26419,39.5982,-80.6354
+26421,39.1819,-80.9242
+26422,39.2980,-80.4332
+26424,39.2811,-80.1727
+26425,39.2999,-79.6916
+26426,39.2870,-80.5644
+26430,38.8955,-80.7589
+26431,39.3915,-80.2809
+26435,39.2671,-80.0853
+26436,39.2973,-80.7194
+26437,39.5260,-80.5089
+26438,39.3432,-80.3164
+26440,39.3217,-79.9187
+26443,39.0759,-80.7532
+26444,39.3753,-79.7700
+26447,38.9118,-80.4791
+26448,39.4030,-80.4913
+26451,39.2044,-80.4034
+26452,39.0372,-80.5282
+26456,39.2629,-80.7740
+26463,39.4374,-80.3461
+26501,39.6341,-80.0368
+26505,39.6530,-79.9455
+26506,39.6468,-79.9702
+26508,39.6011,-79.9025
+26519,39.5692,-79.6271
+26520,39.5020,-79.8243
+26521,39.7133,-80.2281
+26524,39.5408,-79.8072
+26525,39.6540,-79.6258
+26534,39.6488,-79.9992
+26537,39.4881,-79.7099
+26541,39.6950,-80.1252
+26542,39.5747,-79.7828
+26543,39.6646,-79.9999
+26544,39.7116,-80.1710
+26546,39.6623,-80.0239
+26547,39.5107,-79.8058
+26554,39.4654,-80.1098
+26559,39.5149,-80.1767
+26560,39.5409,-80.1438
+26562,39.6424,-80.4438
+26563,39.4810,-80.2738
+26568,39.4222,-80.2781
+26570,39.6361,-80.2433
+26571,39.5266,-80.2620
+26572,39.4865,-80.3162
+26574,39.5608,-80.1779
+26575,39.6930,-80.4245
+26576,39.4925,-80.2547
+26581,39.6703,-80.5747
+26582,39.5288,-80.3801
+26585,39.6008,-80.4359
+26586,39.5265,-80.1095
+26587,39.5167,-80.2994
+26588,39.5789,-80.1440
+26590,39.6691,-80.3123
+26591,39.4516,-80.2963
+26601,38.6174,-80.6227
+26610,38.4676,-80.7053
+26611,38.8535,-80.8234
+26615,38.8263,-80.7346
+26617,38.5156,-80.8401
+26619,38.7517,-80.7054
+26621,38.6904,-80.5063
+26623,38.6555,-80.8716
+26624,38.7207,-80.8195
+26627,38.7525,-80.5851
+26629,38.5637,-80.7043
+26631,38.8073,-80.5679
+26636,38.7439,-80.9583
+26638,38.7680,-80.9995
+26651,38.2653,-80.9935
+26656,38.2502,-81.1769
+26660,38.3561,-80.7051
+26662,38.2580,-80.7721
+26667,38.2445,-80.9995
+26671,38.3343,-80.8870
+26676,38.1600,-80.6478
+26678,38.1789,-80.9161
+26679,38.1740,-80.8051
+26680,38.0933,-80.8730
+26681,38.2332,-80.7317
+26684,38.1582,-80.8533
+26690,38.1753,-81.0893
+26691,38.3937,-80.6709
+26704,39.2864,-78.6018
+26705,39.3230,-79.5678
+26707,39.2088,-79.4028
+26710,39.3018,-78.9676
+26711,39.3223,-78.4508
+26714,39.1785,-78.6452
+26716,39.2527,-79.5295
+26717,39.3342,-79.1825
+26719,39.4977,-78.7674
+26720,39.2776,-79.3312
+26722,39.4969,-78.6304
+26726,39.4028,-78.9854
+26731,39.1499,-79.0642
+26739,39.2146,-79.2603
+26743,39.2939,-79.0753
+26750,39.4771,-79.0454
+26753,39.5614,-78.7678
+26755,39.1704,-78.7445
+26757,39.3207,-78.7679
+26761,39.2714,-78.6950
+26763,39.4730,-78.6992
+26764,39.4465,-79.5639
+26767,39.6159,-78.7567
+26801,39.0593,-78.7945
+26802,38.6505,-79.1915
+26804,38.6819,-79.5303
+26807,38.6386,-79.3547
+26808,39.1535,-78.4693
+26810,38.9951,-78.7544
+26812,38.8858,-78.8780
+26814,38.7811,-79.4758
+26815,38.4935,-79.3645
+26817,39.3738,-78.4016
+26818,39.0876,-79.0165
+26823,39.1281,-78.4952
+26833,39.0993,-79.2017
+26836,38.9982,-78.9751
+26838,38.8088,-79.0584
+26845,39.1645,-78.9642
+26847,38.9552,-79.1509
+26851,39.0471,-78.6110
+26852,39.2454,-78.9106
+26855,38.9750,-79.2207
+26865,39.2059,-78.5121
+26866,38.8041,-79.2486
+26884,38.8464,-79.3853
+26886,38.9049,-79.3955
+27006,35.9390,-80.4403
+27007,36.3897,-80.5885
+27009,36.2309,-80.0787
+27011,36.2207,-80.6926
+27012,36.0132,-80.3776
+27013,35.7505,-80.7001
+27014,35.8100,-80.5557
+27016,36.4475,-80.2188
+27017,36.3820,-80.7562
+27018,36.1972,-80.5181
+27019,36.2869,-80.2377
+27020,36.1127,-80.8113
+27021,36.3203,-80.3447
+27022,36.5122,-80.2156
+27023,36.0938,-80.4502
+27024,36.5192,-80.8412
+27025,36.3780,-79.9682
+27027,36.4418,-79.9889
+27028,35.9270,-80.5711
+27030,36.4898,-80.6292
+27040,36.1693,-80.3930
+27041,36.4153,-80.4846
+27042,36.3528,-80.0642
+27043,36.3385,-80.4485
+27045,36.2344,-80.2961
+27046,36.5022,-80.0783
+27047,36.3141,-80.5691
+27048,36.4825,-79.9177
+27050,36.2264,-80.4097
+27051,36.1959,-80.1534
+27052,36.3208,-80.1505
+27053,36.4758,-80.3618
+27054,35.7925,-80.5979
+27055,36.1139,-80.6312
+27101,36.1108,-80.2004
+27103,36.0582,-80.3215
+27104,36.0907,-80.3315
+27105,36.1619,-80.2343
+27106,36.1439,-80.3232
+27107,36.0132,-80.1755
+27109,36.1337,-80.2754
+27110,36.0892,-80.2248
+27127,36.0207,-80.2798
+27201,36.0342,-79.4848
+27202,36.1856,-79.5060
+27203,35.7285,-79.7865
+27205,35.6383,-79.8509
+27207,35.6076,-79.3905
+27208,35.5619,-79.5429
+27209,35.3430,-79.7533
+27212,36.4810,-79.2799
+27213,35.6493,-79.4083
+27214,36.2061,-79.6711
+27215,36.0191,-79.5137
+27217,36.1909,-79.3802
+27229,35.2397,-79.7916
+27231,36.1952,-79.1747
+27233,35.8925,-79.7050
+27235,36.1004,-80.0074
+27239,35.6012,-80.0903
+27242,35.3297,-79.6490
+27243,36.0606,-79.2018
+27244,36.2158,-79.4866
+27247,35.4609,-79.7879
+27248,35.7833,-79.7163
+27249,36.1627,-79.5824
+27252,35.5603,-79.3550
+27253,35.9662,-79.3474
+27256,35.5605,-79.2746
+27258,36.0834,-79.3513
+27259,35.4914,-79.5262
+27260,35.9542,-79.9871
+27262,35.9631,-80.0417
+27263,35.9115,-79.9368
+27265,36.0092,-80.0324
+27268,35.9714,-79.9947
+27278,36.0902,-79.0869
+27281,35.1874,-79.6251
+27282,35.9963,-79.9318
+27283,35.9515,-79.6354
+27284,36.1161,-80.0819
+27288,36.4976,-79.7500
+27291,36.4183,-79.1684
+27292,35.7383,-80.2075
+27295,35.8676,-80.3171
+27298,35.8851,-79.5675
+27299,35.7531,-80.3775
+27301,36.1135,-79.6657
+27302,36.1358,-79.2633
+27305,36.5158,-79.2167
+27306,35.2252,-79.9802
+27310,36.1741,-79.9922
+27311,36.4797,-79.4726
+27312,35.7564,-79.2098
+27313,35.9314,-79.7581
+27314,36.3104,-79.1963
+27315,36.5102,-79.4035
+27316,35.6970,-79.6258
+27317,35.8407,-79.8025
+27320,36.3415,-79.6588
+27325,35.4636,-79.5663
+27326,36.4641,-79.5568
+27330,35.5171,-79.1832
+27332,35.3722,-79.1488
+27340,35.9455,-79.3101
+27341,35.5238,-79.6959
+27342,36.0664,-79.6186
+27343,36.5041,-79.0759
+27344,35.7223,-79.4337
+27349,35.8951,-79.4181
+27350,35.8083,-79.8882
+27351,35.6598,-80.2679
+27355,35.7869,-79.5678
+27356,35.4369,-79.8043
+27357,36.2666,-79.9706
+27358,36.2282,-79.8801
+27360,35.8606,-80.0993
+27370,35.8093,-79.9780
+27371,35.4057,-79.9483
+27374,35.9176,-80.2577
+27376,35.2611,-79.5218
+27377,36.0380,-79.5994
+27379,36.3611,-79.3478
+27401,36.0708,-79.7677
+27403,36.0641,-79.8254
+27405,36.1154,-79.7346
+27406,35.9980,-79.7667
+27407,36.0134,-79.8714
+27408,36.1037,-79.8137
+27409,36.0718,-79.9649
+27410,36.1186,-79.8949
+27411,36.0766,-79.7715
+27412,36.0683,-79.8101
+27455,36.1874,-79.8174
+27501,35.4849,-78.6846
+27502,35.7196,-78.9072
+27503,36.1530,-78.8845
+27504,35.4003,-78.5183
+27505,35.4066,-79.0044
+27506,35.4086,-78.7393
+27507,36.5138,-78.5525
+27508,35.9590,-78.2509
+27509,36.1315,-78.7737
+27510,35.9098,-79.0813
+27511,35.7633,-78.7878
+27513,35.8020,-78.8026
+27514,35.9668,-79.0521
+27516,35.9062,-79.1549
+27517,35.8427,-79.0320
+27518,35.7311,-78.7732
+27519,35.8084,-78.8865
+27520,35.6118,-78.4764
+27521,35.4121,-78.6559
+27522,36.1056,-78.6752
+27523,35.7736,-78.9569
+27524,35.3918,-78.3788
+27525,36.1461,-78.4741
+27526,35.5440,-78.8298
+27527,35.6539,-78.3817
+27529,35.6412,-78.5843
+27530,35.3827,-78.0611
+27531,35.3436,-77.9674
+27533,35.3875,-78.0390
+27534,35.3693,-77.8869
+27536,36.3259,-78.4068
+27537,36.3587,-78.3984
+27539,35.6765,-78.8134
+27540,35.6222,-78.8633
+27541,36.2649,-79.0832
+27542,35.6183,-78.1368
+27544,36.1912,-78.4405
+27545,35.7837,-78.4834
+27546,35.3853,-78.8621
+27549,36.0996,-78.2512
+27551,36.4328,-78.0502
+27553,36.4865,-78.3028
+27555,35.5624,-78.2035
+27556,36.3970,-78.3094
+27557,35.7791,-78.1985
+27559,35.6282,-79.1028
+27560,35.8576,-78.8271
+27562,35.6420,-78.9756
+27563,36.4214,-78.2214
+27565,36.3617,-78.6490
+27568,35.5113,-78.2429
+27569,35.4295,-78.1721
+27570,36.4386,-78.2366
+27571,35.9246,-78.4615
+27572,36.2551,-78.8775
+27573,36.3990,-78.9751
+27574,36.4753,-78.8421
+27576,35.5775,-78.2613
+27577,35.4919,-78.3446
+27581,36.2031,-78.7361
+27582,36.4474,-78.5691
+27583,36.3097,-78.9306
+27584,36.4934,-78.4460
+27587,35.9808,-78.5511
+27589,36.3225,-78.1335
+27591,35.7842,-78.3890
+27592,35.5574,-78.6723
+27593,35.5858,-78.3623
+27594,36.4730,-78.1662
+27596,35.9997,-78.4350
+27597,35.8426,-78.3010
+27599,35.9040,-79.0521
+27601,35.7737,-78.6346
+27603,35.6648,-78.6537
+27604,35.8229,-78.5621
+27605,35.7904,-78.6546
+27606,35.7423,-78.7155
+27607,35.8178,-78.7275
+27608,35.8103,-78.6487
+27609,35.8438,-78.6336
+27610,35.7444,-78.5463
+27612,35.8503,-78.7039
+27613,35.9261,-78.7114
+27614,35.9459,-78.6195
+27615,35.8985,-78.6356
+27616,35.8665,-78.5413
+27617,35.9088,-78.7724
+27695,35.7855,-78.6789
+27697,35.7788,-78.6230
+27701,35.9992,-78.8979
+27703,35.9613,-78.8052
+27704,36.0424,-78.8288
+27705,36.0251,-78.9821
+27707,35.9545,-78.9533
+27708,36.0001,-78.9431
+27709,35.9201,-78.8671
+27712,36.0955,-78.9041
+27713,35.8828,-78.9350
+27801,35.9134,-77.7257
+27803,35.8914,-77.8495
+27804,35.9892,-77.8427
+27805,36.2086,-77.0886
+27806,35.3050,-76.7561
+27807,35.8114,-78.0860
+27808,35.4671,-76.7598
+27809,36.0168,-77.7416
+27810,35.5496,-76.5125
+27812,35.8050,-77.3762
+27813,35.6347,-77.9375
+27814,35.3801,-76.9324
+27815,35.9247,-77.6930
+27816,36.1088,-78.0730
+27817,35.4518,-77.0812
+27818,36.4997,-77.0185
+27819,35.8142,-77.4573
+27820,36.4215,-77.2416
+27821,35.3221,-76.8741
+27822,35.8070,-77.8405
+27823,36.2097,-77.7137
+27824,35.5515,-76.0052
+27825,35.8353,-77.1715
+27826,35.5953,-76.2436
+27827,35.6982,-77.5122
+27828,35.5852,-77.5774
+27829,35.7000,-77.6057
+27830,35.5642,-77.9503
+27831,36.4631,-77.5706
+27832,36.5198,-77.7401
+27834,35.6568,-77.3795
+27837,35.5139,-77.2046
+27839,36.2849,-77.5569
+27840,35.9297,-77.2389
+27841,35.9086,-77.2764
+27842,36.5267,-77.8520
+27843,35.9955,-77.4000
+27844,36.2427,-77.9464
+27845,36.3713,-77.4400
+27846,35.7586,-76.8975
+27847,36.1782,-77.2019
+27849,36.0773,-77.2150
+27850,36.4124,-77.8802
+27851,35.6401,-78.0307
+27852,35.7505,-77.6369
+27853,36.5152,-77.3072
+27855,36.4156,-77.0693
+27856,36.0137,-77.9806
+27857,35.9708,-77.2611
+27858,35.5325,-77.2828
+27860,35.6642,-76.6353
+27861,35.8172,-77.3190
+27862,36.4902,-77.1883
+27863,35.4882,-77.9718
+27864,35.8011,-77.6494
+27865,35.6640,-76.9000
+27866,36.5199,-77.5146
+27869,36.2671,-77.3134
+27870,36.4252,-77.6951
+27871,35.8021,-77.2606
+27872,36.2010,-77.2460
+27873,35.6533,-77.7760
+27874,36.1290,-77.4107
+27875,35.4557,-76.5047
+27876,36.4744,-77.4051
+27877,36.5188,-77.1922
+27878,35.8661,-77.8306
+27879,35.5745,-77.2797
+27880,35.7307,-78.0806
+27881,35.9702,-77.4423
+27882,35.9424,-78.1184
+27883,35.5924,-77.8044
+27884,35.7035,-77.2666
+27885,35.4200,-76.2473
+27886,35.9045,-77.5117
+27888,35.5958,-77.7023
+27889,35.5804,-77.0250
+27890,36.4142,-77.5877
+27891,36.0977,-77.7428
+27892,35.8192,-77.0635
+27893,35.6938,-77.9041
+27896,35.7910,-77.9764
+27897,36.3246,-77.2097
+27909,36.2886,-76.2687
+27910,36.2818,-76.9934
+27915,35.3367,-75.5121
+27916,36.3293,-75.9201
+27917,36.3551,-75.9975
+27919,36.3082,-76.5043
+27920,35.2533,-75.5383
+27921,36.3298,-76.1478
+27922,36.3168,-76.8422
+27923,36.3682,-75.9308
+27924,36.1684,-76.8325
+27925,35.8412,-76.1733
+27926,36.5051,-76.6049
+27927,36.3312,-75.8512
+27928,35.8088,-76.4377
+27929,36.4392,-76.0165
+27932,36.0942,-76.5880
+27935,36.4311,-76.8681
+27936,35.2479,-75.5987
+27937,36.5123,-76.7739
+27938,36.3843,-76.7160
+27939,36.2352,-75.8798
+27941,36.0923,-75.8228
+27942,36.2971,-76.7509
+27943,35.2078,-75.7172
+27944,36.1809,-76.4032
+27946,36.3642,-76.5902
+27947,36.1671,-75.8535
+27948,36.0192,-75.6922
+27949,36.1099,-75.7454
+27950,36.5006,-75.9737
+27953,35.8040,-75.8754
+27954,35.9127,-75.6853
+27956,36.4000,-76.0011
+27957,36.0663,-76.7591
+27958,36.5012,-76.1733
+27959,35.8919,-75.6034
+27960,35.0732,-75.9985
+27962,35.7620,-76.7765
+27964,36.1271,-75.8043
+27965,36.2924,-75.9329
+27966,36.1256,-75.8482
+27967,36.2223,-76.9084
+27968,35.6586,-75.4892
+27969,36.4633,-76.8026
+27970,35.9087,-76.6202
+27972,35.5525,-75.4713
+27973,36.3712,-76.0555
+27974,36.2431,-75.9896
+27976,36.4786,-76.3363
+27978,35.6722,-75.7731
+27979,36.4368,-76.5607
+27980,36.2453,-76.6194
+27981,35.8529,-75.6374
+27982,35.5659,-75.4655
+27983,35.9620,-76.9358
+27985,36.2188,-76.4737
+27986,36.3890,-76.9183
+28001,35.3386,-80.2082
+28006,35.4104,-81.0920
+28007,35.1217,-80.1305
+28009,35.4078,-80.1072
+28012,35.2115,-81.0379
+28016,35.3149,-81.2833
+28017,35.2471,-81.6707
+28018,35.4890,-81.8034
+28019,35.2839,-81.7939
+28020,35.5241,-81.6432
+28021,35.4008,-81.4033
+28023,35.5686,-80.6025
+28024,35.2433,-81.7706
+28025,35.3826,-80.5234
+28027,35.4133,-80.6755
+28031,35.4752,-80.8937
+28032,35.2330,-81.0795
+28033,35.4191,-81.3284
+28034,35.3537,-81.1789
+28036,35.4821,-80.7934
+28037,35.4955,-81.0185
+28039,35.6804,-80.4362
+28040,35.3900,-81.7522
+28041,35.5874,-80.4625
+28042,35.4230,-81.5075
+28043,35.3124,-81.8703
+28052,35.2285,-81.2318
+28054,35.2614,-81.1501
+28056,35.2169,-81.1250
+28071,35.5175,-80.3159
+28072,35.6132,-80.4423
+28073,35.1986,-81.4838
+28074,35.2394,-81.8782
+28075,35.3019,-80.6393
+28076,35.2564,-81.7795
+28077,35.4048,-81.2028
+28078,35.4048,-80.8665
+28079,35.1147,-80.6006
+28080,35.4567,-81.1057
+28081,35.5028,-80.6702
+28083,35.4918,-80.5822
+28086,35.2442,-81.3779
+28088,35.5444,-80.6146
+28089,35.3203,-81.6607
+28090,35.4547,-81.5596
+28091,34.9874,-79.9330
+28092,35.4832,-81.2531
+28097,35.2967,-80.3933
+28098,35.2711,-81.1008
+28101,35.2558,-81.0754
+28102,34.8148,-79.9766
+28103,34.9990,-80.3515
+28104,35.0580,-80.6978
+28105,35.1198,-80.7097
+28107,35.2530,-80.5180
+28108,34.9332,-80.6795
+28109,35.4829,-80.2799
+28110,35.0660,-80.5091
+28112,34.8899,-80.5495
+28114,35.2304,-81.7477
+28115,35.5754,-80.7749
+28117,35.5750,-80.8942
+28119,34.8475,-80.0139
+28120,35.3286,-81.0264
+28124,35.4001,-80.4083
+28125,35.6590,-80.6986
+28127,35.4502,-80.1672
+28128,35.2107,-80.1545
+28129,35.2323,-80.3274
+28133,34.8449,-80.2657
+28134,35.0845,-80.8915
+28135,35.0298,-80.2173
+28136,35.4205,-81.6424
+28137,35.4909,-80.2636
+28138,35.5144,-80.4374
+28139,35.3484,-81.9947
+28144,35.7157,-80.4589
+28146,35.6211,-80.3956
+28147,35.6811,-80.5630
+28150,35.3427,-81.5762
+28152,35.2408,-81.5914
+28159,35.6942,-80.4352
+28160,35.3607,-81.9223
+28163,35.2070,-80.4285
+28164,35.3894,-81.0371
+28166,35.6801,-80.8688
+28167,35.5064,-81.9594
+28168,35.5524,-81.4251
+28169,35.3581,-81.4306
+28170,34.9987,-80.0988
+28173,34.9192,-80.7306
+28174,34.9690,-80.4396
+28202,35.2273,-80.8442
+28203,35.2090,-80.8576
+28204,35.2146,-80.8268
+28205,35.2188,-80.7896
+28206,35.2554,-80.8215
+28207,35.1941,-80.8246
+28208,35.2320,-80.9050
+28209,35.1787,-80.8540
+28210,35.1305,-80.8567
+28211,35.1663,-80.7973
+28212,35.1877,-80.7446
+28213,35.2862,-80.7352
+28214,35.2720,-80.9681
+28215,35.2456,-80.6989
+28216,35.3102,-80.8896
+28217,35.1687,-80.9084
+28223,35.3089,-80.7325
+28226,35.1027,-80.8221
+28227,35.1896,-80.6454
+28244,35.2246,-80.8431
+28262,35.3221,-80.7400
+28269,35.3373,-80.8035
+28270,35.1120,-80.7646
+28273,35.1237,-80.9485
+28274,35.1891,-80.8338
+28277,35.0499,-80.8180
+28278,35.1334,-81.0088
+28280,35.2263,-80.8431
+28282,35.2248,-80.8453
+28301,35.0748,-78.8843
+28303,35.0856,-78.9594
+28304,35.0255,-78.9896
+28305,35.0526,-78.9072
+28306,34.9585,-78.8968
+28307,35.1396,-78.9936
+28308,35.1720,-79.0150
+28310,35.1245,-79.0434
+28311,35.1678,-78.8887
+28312,34.9478,-78.7381
+28314,35.0532,-79.0155
+28315,35.1150,-79.4485
+28318,35.0108,-78.6237
+28320,34.5581,-78.7727
+28323,35.3148,-78.8344
+28325,35.1534,-78.1042
+28326,35.2690,-79.1547
+28327,35.3581,-79.4228
+28328,35.0051,-78.3344
+28330,34.9107,-79.8233
+28331,35.1964,-78.6485
+28332,34.6554,-78.6993
+28333,35.2861,-78.0174
+28334,35.2722,-78.5681
+28337,34.6559,-78.5720
+28338,35.0989,-79.7442
+28339,35.3105,-78.7327
+28340,34.4714,-79.1344
+28341,35.1199,-78.1744
+28342,35.1857,-78.6516
+28343,34.7574,-79.5649
+28344,35.1680,-78.6227
+28345,34.8703,-79.6656
+28347,35.0526,-79.5588
+28348,34.9150,-78.9270
+28349,34.9812,-77.9271
+28350,35.2467,-79.3150
+28351,34.8481,-79.5767
+28352,34.7684,-79.4536
+28355,35.3905,-79.1951
+28356,35.2370,-78.7904
+28357,34.9021,-79.0830
+28358,34.6079,-78.9348
+28359,34.5868,-79.0547
+28360,34.6703,-79.0749
+28362,34.3696,-79.1288
+28363,34.9487,-79.5299
+28364,34.7079,-79.3227
+28365,35.1723,-78.0523
+28366,35.2302,-78.3620
+28367,35.1698,-79.7232
+28368,35.3694,-79.1133
+28369,34.4234,-79.0294
+28371,34.9106,-78.9783
+28372,34.6999,-79.1786
+28373,35.0935,-79.4856
+28374,35.1893,-79.4591
+28375,34.4772,-79.0434
+28376,35.0468,-79.2414
+28377,34.8363,-79.2108
+28378,34.8588,-79.0506
+28379,34.9292,-79.7869
+28382,34.9266,-78.5604
+28383,34.5779,-79.2691
+28384,34.7916,-78.9414
+28385,35.0480,-78.4996
+28386,34.8630,-79.1284
+28387,35.1805,-79.3756
+28390,35.2209,-78.9533
+28391,35.0342,-78.6986
+28392,34.7347,-78.7954
+28393,34.9811,-78.1895
+28394,35.2175,-79.2415
+28395,35.1302,-78.7270
+28396,34.9551,-79.4139
+28398,34.9898,-78.0642
+28399,34.7694,-78.7196
+28401,34.2920,-77.9724
+28403,34.2217,-77.8806
+28405,34.2642,-77.8683
+28409,34.1506,-77.8603
+28411,34.3018,-77.7931
+28412,34.1366,-77.9206
+28420,34.0546,-78.4687
+28421,34.5051,-78.1670
+28422,34.0492,-78.2111
+28423,34.2701,-78.4045
+28424,34.2903,-78.6997
+28425,34.5607,-77.9004
+28428,34.0386,-77.9053
+28429,34.3412,-77.9002
+28430,34.2840,-78.9328
+28431,34.3174,-78.8445
+28432,34.1680,-78.7587
+28433,34.4885,-78.6167
+28434,34.4725,-78.4708
+28435,34.4060,-78.1092
+28436,34.2466,-78.2839
+28438,34.4204,-78.9137
+28439,34.2868,-79.0014
+28441,34.8115,-78.4274
+28442,34.3102,-78.6011
+28443,34.4812,-77.6928
+28444,34.6883,-78.3200
+28445,34.5288,-77.5358
+28447,34.6187,-78.2781
+28448,34.5183,-78.3597
+28449,33.9733,-77.9419
+28450,34.3092,-78.4966
+28451,34.2361,-78.1191
+28452,34.0051,-78.5559
+28453,34.8664,-78.0764
+28454,34.6703,-77.6540
+28455,34.1117,-78.6318
+28456,34.3750,-78.2872
+28457,34.4562,-77.8715
+28458,34.8199,-78.0811
+28460,34.5233,-77.4171
+28461,33.9666,-78.0576
+28462,33.9997,-78.3110
+28463,34.1098,-78.7765
+28464,34.7822,-78.0211
+28465,33.9125,-78.1005
+28466,34.7408,-77.8757
+28467,33.9180,-78.5920
+28468,33.8997,-78.5192
+28469,33.9338,-78.4732
+28470,33.9670,-78.3959
+28472,34.2990,-78.6912
+28478,34.6428,-78.0420
+28479,34.1007,-78.0165
+28480,34.2148,-77.8005
+28501,35.2391,-77.5272
+28504,35.2274,-77.6359
+28508,35.0997,-77.8248
+28509,35.1458,-76.8059
+28510,34.9876,-76.8045
+28511,34.9011,-76.3458
+28512,34.7016,-76.8065
+28513,35.4428,-77.3896
+28515,35.1916,-76.6892
+28516,34.8564,-76.6196
+28518,34.8948,-77.7475
+28519,35.1278,-77.0126
+28520,34.9960,-76.4668
+28521,34.8179,-77.7366
+28523,35.2088,-77.2995
+28524,34.7944,-76.4638
+28525,35.1323,-77.6867
+28526,35.2447,-77.4084
+28527,35.2582,-77.0175
+28528,34.7321,-76.5386
+28529,35.1033,-76.8786
+28530,35.3740,-77.4155
+28531,34.6980,-76.5555
+28532,34.9050,-76.8867
+28533,34.9019,-76.9009
+28537,35.2566,-76.5586
+28538,35.4166,-77.5651
+28539,34.6942,-77.2328
+28540,34.7443,-77.4990
+28542,34.7299,-77.4619
+28543,34.7348,-77.3980
+28544,34.6960,-77.2907
+28546,34.8273,-77.3911
+28547,34.6314,-77.3286
+28551,35.3213,-77.7809
+28552,35.2982,-76.5559
+28553,34.7392,-76.5101
+28554,35.4757,-77.5926
+28555,34.8680,-77.2484
+28556,35.1328,-76.6378
+28557,34.7378,-76.7503
+28560,35.1267,-76.9776
+28562,35.0810,-77.1250
+28570,34.7770,-76.8805
+28571,35.0460,-76.7038
+28572,35.0199,-77.7238
+28573,34.9799,-77.1975
+28574,34.8789,-77.5897
+28575,34.6882,-76.8809
+28577,34.9068,-76.4044
+28578,35.1970,-77.8570
+28579,34.8129,-76.5051
+28580,35.4533,-77.6795
+28581,34.8443,-76.4356
+28582,34.7483,-77.1505
+28584,34.7240,-77.1005
+28585,35.0498,-77.4176
+28586,35.3242,-77.1774
+28587,35.1868,-76.6668
+28589,34.7962,-76.4940
+28590,35.5207,-77.4167
+28594,34.7011,-76.9739
+28601,35.7724,-81.3267
+28602,35.6735,-81.3826
+28604,36.1793,-81.8503
+28605,36.1296,-81.6949
+28606,36.0518,-81.3069
+28607,36.2149,-81.6467
+28609,35.6785,-81.0574
+28610,35.7292,-81.1453
+28611,36.0060,-81.7370
+28612,35.6504,-81.5376
+28613,35.7376,-81.2077
+28615,36.4749,-81.6703
+28616,36.0215,-81.9302
+28617,36.4807,-81.3620
+28618,36.2135,-81.5169
+28619,35.7601,-81.6068
+28621,36.2756,-80.7857
+28622,36.1950,-81.9489
+28623,36.5291,-80.9734
+28624,36.1197,-81.4132
+28625,35.8696,-80.8896
+28626,36.2926,-81.5176
+28627,36.4536,-81.0143
+28628,35.7292,-81.7783
+28629,36.3475,-81.3592
+28630,35.8320,-81.4202
+28631,36.5475,-81.4104
+28634,35.9728,-80.7572
+28635,36.3330,-81.1260
+28636,35.9394,-81.0634
+28637,35.7177,-81.4194
+28638,35.8451,-81.4779
+28640,36.4049,-81.3994
+28641,35.9755,-81.8949
+28642,36.2251,-80.8155
+28643,36.5291,-81.5409
+28644,36.4262,-81.2778
+28645,35.9788,-81.5478
+28646,36.0731,-81.8470
+28649,36.3360,-81.2120
+28650,35.5714,-81.1584
+28651,36.3062,-81.3088
+28652,36.0897,-81.9865
+28653,36.0660,-81.9010
+28654,36.0585,-81.1593
+28655,35.7633,-81.7499
+28657,36.0220,-81.9424
+28658,35.6376,-81.2359
+28659,36.2160,-81.1482
+28660,35.9686,-80.8562
+28662,36.0225,-81.8917
+28663,36.5372,-81.2899
+28664,36.0424,-82.0059
+28665,36.2097,-81.3739
+28666,35.7186,-81.4706
+28667,35.7745,-81.4251
+28668,36.4353,-80.9824
+28669,36.2234,-80.9898
+28670,36.1943,-80.9125
+28671,35.7502,-81.5266
+28672,36.4833,-81.3267
+28673,35.6177,-80.9988
+28675,36.5063,-81.1361
+28676,36.3319,-80.8553
+28677,35.7381,-80.9261
+28678,35.8326,-81.0711
+28679,36.2602,-81.8403
+28681,35.9227,-81.2231
+28682,35.5883,-80.9652
+28683,36.3904,-80.9110
+28684,36.3345,-81.6068
+28685,36.3473,-81.0410
+28689,36.0431,-80.9332
+28690,35.7327,-81.5742
+28692,36.3146,-81.8375
+28693,36.4718,-81.5590
+28694,36.3663,-81.4680
+28697,36.1367,-81.1627
+28698,36.3140,-81.7609
+28701,35.7051,-82.6365
+28702,35.3800,-83.6420
+28704,35.4614,-82.5708
+28705,36.0352,-82.1515
+28707,35.3987,-83.0662
+28708,35.2710,-82.8598
+28709,35.7714,-82.3792
+28710,35.4569,-82.2797
+28711,35.6006,-82.2697
+28712,35.1733,-82.7708
+28713,35.3657,-83.5117
+28714,35.8783,-82.3049
+28715,35.5120,-82.7117
+28716,35.4393,-82.8479
+28717,35.0495,-83.0933
+28718,35.1591,-82.6350
+28719,35.5109,-83.5203
+28720,35.4477,-82.2622
+28721,35.6338,-82.9308
+28722,35.2085,-82.0610
+28723,35.3141,-83.0135
+28725,35.3822,-83.2681
+28726,35.2810,-82.4166
+28729,35.3196,-82.6029
+28730,35.5314,-82.3598
+28731,35.2935,-82.3803
+28732,35.4517,-82.4457
+28733,35.4274,-83.7770
+28734,35.1793,-83.4370
+28735,35.4754,-82.3485
+28736,35.1757,-83.0865
+28739,35.2739,-82.5286
+28740,36.0257,-82.3053
+28741,35.0664,-83.2106
+28742,35.3828,-82.6513
+28743,35.8003,-82.8812
+28745,35.5221,-82.9740
+28746,35.4772,-82.1617
+28747,35.1456,-82.9173
+28748,35.6549,-82.7603
+28749,35.8410,-82.0979
+28751,35.5055,-83.1196
+28752,35.7096,-82.0356
+28753,35.8642,-82.7126
+28754,35.8769,-82.5144
+28755,35.9082,-82.2175
+28756,35.3559,-82.2086
+28757,35.6480,-82.2992
+28758,35.3749,-82.4957
+28759,35.3813,-82.5889
+28761,35.6903,-81.9068
+28762,35.6353,-82.1898
+28763,35.0287,-83.4659
+28766,35.2494,-82.6193
+28768,35.3250,-82.7072
+28770,35.6211,-82.2782
+28771,35.3429,-83.8545
+28772,35.1391,-82.8369
+28773,35.2611,-82.2980
+28774,35.0935,-82.9950
+28775,35.0192,-83.3211
+28777,35.9077,-82.0653
+28778,35.6142,-82.3977
+28779,35.3558,-83.2097
+28781,35.2241,-83.6355
+28782,35.2343,-82.1474
+28783,35.2423,-83.0211
+28785,35.6533,-83.1396
+28786,35.4620,-82.9887
+28787,35.7415,-82.5156
+28788,35.3506,-83.2227
+28789,35.4071,-83.3168
+28790,35.1982,-82.4952
+28791,35.3570,-82.5070
+28792,35.3944,-82.3684
+28801,35.5945,-82.5580
+28803,35.5317,-82.5230
+28804,35.6450,-82.5577
+28805,35.6139,-82.4797
+28806,35.5696,-82.6168
+28901,35.2013,-83.8051
+28902,35.0229,-83.9583
+28904,35.0686,-83.7336
+28905,35.1631,-83.9409
+28906,35.0872,-84.1366
+28909,35.0011,-83.9033
+29001,33.7866,-80.1741
+29003,33.2412,-81.0238
+29006,33.8691,-81.5511
+29009,34.4430,-80.3646
+29010,34.2236,-80.2723
+29014,34.5234,-81.1145
+29015,34.4454,-81.3378
+29016,34.2040,-80.9928
+29018,33.3488,-80.6392
+29020,34.3139,-80.5738
+29030,33.5763,-80.6476
+29031,34.6068,-81.4290
+29032,34.3370,-80.4443
+29033,33.9531,-81.0552
+29036,34.1340,-81.3399
+29037,34.1899,-81.8677
+29038,33.3809,-80.9813
+29039,33.4204,-80.8922
+29040,34.0607,-80.4378
+29042,33.3056,-81.1479
+29044,33.9257,-80.6952
+29045,34.1851,-80.8050
+29046,34.1125,-80.1613
+29047,33.5322,-80.5802
+29048,33.3906,-80.2953
+29051,33.8616,-80.1278
+29052,33.7983,-80.7413
+29053,33.8275,-81.0909
+29054,33.9479,-81.3828
+29055,34.5742,-80.9149
+29056,33.6086,-80.0060
+29058,34.5543,-80.7497
+29059,33.3292,-80.4191
+29061,33.8975,-80.8506
+29062,34.0043,-80.6055
+29063,34.1372,-81.2023
+29065,34.2983,-81.3173
+29067,34.5442,-80.5371
+29069,34.1801,-80.0946
+29070,33.9167,-81.4492
+29072,33.9989,-81.2729
+29073,33.8880,-81.2386
+29074,34.4411,-80.8184
+29075,34.2007,-81.3778
+29078,34.1816,-80.6994
+29079,34.2891,-80.1132
+29080,34.0122,-80.0856
+29081,33.0891,-81.0474
+29082,33.0382,-80.9391
+29101,34.4818,-80.2446
+29102,33.6542,-80.2023
+29104,33.9947,-80.2118
+29105,33.8064,-81.5936
+29107,33.5234,-81.1176
+29108,34.3055,-81.6273
+29111,33.7785,-80.0206
+29112,33.6251,-81.0817
+29113,33.4324,-81.1353
+29114,33.9543,-79.9323
+29115,33.4777,-80.8442
+29117,33.4983,-80.8501
+29118,33.5694,-80.8886
+29122,34.2388,-81.3283
+29123,33.7574,-81.2613
+29125,33.6959,-80.4749
+29126,34.3289,-81.4195
+29127,34.1533,-81.5125
+29128,34.0957,-80.5321
+29129,33.7892,-81.6726
+29130,34.3316,-80.8804
+29133,33.3589,-80.8031
+29135,33.7018,-80.7511
+29137,33.5962,-81.3214
+29138,34.0424,-81.7762
+29142,33.4652,-80.5225
+29145,34.2168,-81.8068
+29146,33.5082,-81.2954
+29148,33.5349,-80.3358
+29150,33.8189,-80.3169
+29152,33.9727,-80.4673
+29153,33.9706,-80.3058
+29154,33.8153,-80.4353
+29160,33.7469,-81.0355
+29161,34.1037,-79.9434
+29162,33.8897,-80.0082
+29163,33.4176,-80.4464
+29164,33.6585,-81.4308
+29166,33.8971,-81.7123
+29168,33.8484,-80.5408
+29169,33.9975,-81.0974
+29170,33.9391,-81.1446
+29172,33.9058,-81.0755
+29175,34.4427,-80.6066
+29177,34.1405,-81.2675
+29178,34.4958,-81.5897
+29180,34.3655,-81.0985
+29201,33.9825,-81.0281
+29203,34.1006,-81.0407
+29204,34.0290,-80.9998
+29205,33.9900,-80.9966
+29206,34.0289,-80.9610
+29207,34.0424,-80.8460
+29208,33.9975,-81.0268
+29209,33.9268,-80.9504
+29210,34.0455,-81.1103
+29212,34.0776,-81.2023
+29223,34.0926,-80.9193
+29225,33.9954,-81.0301
+29229,34.1460,-80.8944
+29301,34.9352,-82.0148
+29302,34.8844,-81.8436
+29303,34.9953,-81.9684
+29306,34.8926,-81.9215
+29307,34.9827,-81.8316
+29316,35.0430,-81.9751
+29320,34.9586,-81.9926
+29321,34.7147,-81.7411
+29322,35.1211,-82.1324
+29323,35.1263,-81.9075
+29324,34.9913,-81.8241
+29325,34.4682,-81.8452
+29329,34.9925,-81.8360
+29330,35.0526,-81.8043
+29331,34.6442,-81.8580
+29332,34.2787,-81.9704
+29333,34.9710,-81.9108
+29334,34.9056,-82.1244
+29335,34.6593,-81.9067
+29338,35.1345,-82.0018
+29340,34.9723,-81.5859
+29341,35.1197,-81.7126
+29346,34.9452,-81.8362
+29349,35.0673,-82.0681
+29351,34.4210,-81.8080
+29353,34.8307,-81.6486
+29355,34.3634,-81.7476
+29356,35.1469,-82.2608
+29360,34.4880,-82.0458
+29364,34.7883,-81.4623
+29365,34.9811,-82.1719
+29368,35.0826,-81.8628
+29369,34.8656,-82.0195
+29370,34.3730,-81.9774
+29372,34.9021,-81.7118
+29373,34.9245,-81.7430
+29374,34.7893,-81.8453
+29375,34.8605,-82.1138
+29376,34.8114,-81.9442
+29377,34.9307,-82.0968
+29378,34.9668,-81.9687
+29379,34.6876,-81.6016
+29384,34.3403,-82.0902
+29385,34.9727,-82.1014
+29388,34.7630,-82.0457
+29401,32.7772,-79.9320
+29403,32.8033,-79.9457
+29404,32.8978,-80.0524
+29405,32.8523,-79.9800
+29406,32.9373,-80.0354
+29407,32.7989,-79.9978
+29409,32.7967,-79.9607
+29410,32.9382,-80.0149
+29412,32.7119,-79.9522
+29414,32.8429,-80.1046
+29418,32.9095,-80.0952
+29420,32.9325,-80.1001
+29424,32.7849,-79.9377
+29425,32.7853,-79.9484
+29426,32.7721,-80.3741
+29429,32.9886,-79.6962
+29431,33.2714,-79.8817
+29432,33.2285,-80.8139
+29434,33.1409,-79.8437
+29435,32.9531,-80.4661
+29436,33.3154,-80.1873
+29437,33.1352,-80.4178
+29438,32.5659,-80.3217
+29439,32.6526,-79.9525
+29440,33.3811,-79.3298
+29445,32.9970,-79.9666
+29446,32.5889,-80.5108
+29448,33.2555,-80.4528
+29449,32.6998,-80.2809
+29450,33.0874,-79.7715
+29451,32.8280,-79.7505
+29452,32.7176,-80.4707
+29453,33.2229,-79.6073
+29455,32.6842,-80.0920
+29456,32.9842,-80.1133
+29458,33.1195,-79.4862
+29461,33.1710,-80.0086
+29464,32.8195,-79.8570
+29466,32.8755,-79.7837
+29468,33.4273,-80.0798
+29469,33.2437,-80.1311
+29470,32.8142,-80.2103
+29471,33.1927,-80.6705
+29472,33.0546,-80.3253
+29474,32.9027,-80.5240
+29475,32.9669,-80.8194
+29477,33.1632,-80.5652
+29479,33.3806,-79.8906
+29481,33.1204,-80.7931
+29482,32.7709,-79.8311
+29483,33.0302,-80.2338
+29485,32.9332,-80.2072
+29486,33.1032,-80.1667
+29487,32.6577,-80.1839
+29488,32.9068,-80.6728
+29492,32.9096,-79.8798
+29493,33.0453,-80.8428
+29501,34.2046,-79.8270
+29505,34.1301,-79.6889
+29506,34.2105,-79.6499
+29510,33.4543,-79.6131
+29511,33.9756,-79.1222
+29512,34.6190,-79.7180
+29516,34.4429,-79.6148
+29518,33.7948,-79.8466
+29519,34.0162,-79.3605
+29520,34.6880,-79.9295
+29525,34.5631,-79.5155
+29526,33.8678,-78.9765
+29527,33.7851,-79.1402
+29530,33.9961,-79.7401
+29532,34.2828,-79.8502
+29536,34.4189,-79.3720
+29540,34.3838,-79.8505
+29541,34.0649,-79.7408
+29543,34.2876,-79.2659
+29544,34.0016,-79.2208
+29545,34.1637,-78.9665
+29546,33.8838,-79.3494
+29547,34.4881,-79.3281
+29550,34.3933,-80.0770
+29554,33.7026,-79.3925
+29555,33.8409,-79.4576
+29556,33.6682,-79.7631
+29560,33.8387,-79.7499
+29563,34.3533,-79.2087
+29564,33.4759,-79.8561
+29565,34.3581,-79.4993
+29566,33.8890,-78.6594
+29567,34.5610,-79.4327
+29568,33.9136,-78.7503
+29569,34.0326,-78.9116
+29570,34.6679,-79.5627
+29571,34.1351,-79.4251
+29572,33.7695,-78.7923
+29574,34.1654,-79.2608
+29575,33.6291,-78.9704
+29576,33.5698,-79.0535
+29577,33.6977,-78.9065
+29579,33.7664,-78.9135
+29580,33.6531,-79.5520
+29581,34.1949,-79.1142
+29582,33.8320,-78.6548
+29583,33.9779,-79.5711
+29584,34.5765,-80.0536
+29585,33.5565,-79.0890
+29588,33.6708,-79.0231
+29589,34.1006,-79.3202
+29590,33.5689,-79.8487
+29591,33.9380,-79.7623
+29592,34.2451,-79.4544
+29593,34.4931,-79.8570
+29594,34.6402,-79.5774
+29596,34.7361,-79.8512
+29601,34.8473,-82.4021
+29605,34.7780,-82.3802
+29607,34.8096,-82.3289
+29609,34.9126,-82.3882
+29611,34.8309,-82.4585
+29613,34.9243,-82.4405
+29614,34.8737,-82.3630
+29615,34.8568,-82.2961
+29617,34.9144,-82.4661
+29620,34.1824,-82.4256
+29621,34.5059,-82.6039
+29624,34.4359,-82.6241
+29625,34.5555,-82.7656
+29626,34.4608,-82.7565
+29627,34.5186,-82.4803
+29628,34.0885,-82.5645
+29630,34.7387,-82.7992
+29631,34.6816,-82.8178
+29634,34.6756,-82.8352
+29635,35.0765,-82.6348
+29638,34.3639,-82.3382
+29639,34.3037,-82.4288
+29640,34.8777,-82.5754
+29642,34.7767,-82.5636
+29643,34.5076,-82.9753
+29644,34.6661,-82.1954
+29645,34.5877,-82.1274
+29646,34.1361,-82.1485
+29649,34.2389,-82.1450
+29650,34.8980,-82.2580
+29651,35.0238,-82.2796
+29653,34.3060,-82.2325
+29654,34.4556,-82.3702
+29655,34.2653,-82.6324
+29657,34.7671,-82.6866
+29658,34.7715,-83.3033
+29659,34.2117,-82.6453
+29661,35.0575,-82.5547
+29662,34.7792,-82.3031
+29664,34.8609,-83.1576
+29665,34.7248,-82.9146
+29666,34.1133,-81.9796
+29667,34.7643,-82.7565
+29669,34.6387,-82.4125
+29670,34.6440,-82.7232
+29671,34.9438,-82.7211
+29672,34.7517,-82.9321
+29673,34.7202,-82.4552
+29676,34.9537,-82.9850
+29678,34.6345,-82.9373
+29680,34.6849,-82.2938
+29681,34.7677,-82.2250
+29682,34.8362,-82.8534
+29683,35.0301,-82.4929
+29684,34.3794,-82.7187
+29685,34.9834,-82.8449
+29686,34.9582,-83.0531
+29687,34.9866,-82.3275
+29689,34.5367,-82.8759
+29690,35.0598,-82.4172
+29691,34.7836,-83.0769
+29692,34.4118,-82.2195
+29693,34.6418,-83.1546
+29696,34.7811,-83.0085
+29697,34.6256,-82.5486
+29702,35.1161,-81.4731
+29704,34.8321,-80.9098
+29706,34.7156,-81.2345
+29707,34.9876,-80.8582
+29708,35.0482,-80.9867
+29709,34.7185,-80.0989
+29710,35.1063,-81.2215
+29712,34.7980,-80.9755
+29714,34.7118,-80.9138
+29715,35.0113,-80.9271
+29717,34.9507,-81.4489
+29718,34.6298,-80.3576
+29720,34.7453,-80.7433
+29724,34.7750,-81.0125
+29726,34.8609,-81.2361
+29727,34.7193,-80.2646
+29728,34.7650,-80.4006
+29729,34.6891,-81.0068
+29730,34.8899,-81.0179
+29732,34.9707,-81.0814
+29733,34.9395,-81.0317
+29741,34.7253,-80.1955
+29742,34.8700,-81.3923
+29743,35.0261,-81.4231
+29745,34.9909,-81.2141
+29801,33.5859,-81.6917
+29803,33.4535,-81.7019
+29805,33.6419,-81.6141
+29809,33.4162,-81.6893
+29810,32.9864,-81.3781
+29812,33.2144,-81.3834
+29816,33.5021,-81.8726
+29817,33.3695,-81.2708
+29819,34.0442,-82.2274
+29821,33.6366,-82.1152
+29824,33.8145,-81.9939
+29826,33.3854,-81.3596
+29827,32.9701,-81.2423
+29828,33.5234,-81.8296
+29829,33.5747,-81.8577
+29831,33.3387,-81.8641
+29832,33.8390,-81.8037
+29834,33.5178,-81.8430
+29835,33.9206,-82.2945
+29836,33.0852,-81.4960
+29838,33.7475,-82.1511
+29840,33.9965,-82.5426
+29841,33.5264,-81.9393
+29842,33.4570,-81.8607
+29843,33.1821,-81.1798
+29844,33.7852,-82.2141
+29845,33.8259,-82.2134
+29847,33.7041,-81.8473
+29848,33.9723,-82.0604
+29849,33.1036,-81.2383
+29851,33.5111,-81.8159
+29853,33.3992,-81.4318
+29856,33.4853,-81.5118
+29860,33.6147,-81.9844
+29899,33.9280,-82.2506
+29902,32.3176,-80.6822
+29904,32.4788,-80.7220
+29905,32.3554,-80.7003
+29906,32.4451,-80.7529
+29907,32.4747,-80.5992
+29909,32.3370,-80.8481
+29910,32.2178,-80.8950
+29911,32.9288,-81.1552
+29912,32.5845,-80.9285
+29915,32.1187,-80.8612
+29916,32.7290,-80.9587
+29918,32.7445,-81.2474
+29920,32.3642,-80.5536
+29921,32.6866,-81.1801
+29922,32.5883,-81.2801
+29923,32.8482,-81.2386
+29924,32.8769,-81.1113
+29926,32.2373,-80.7343
+29927,32.2466,-81.0575
+29928,32.1671,-80.7536
+29929,32.9552,-80.9238
+29932,32.8335,-81.3443
+29934,32.5950,-81.1125
+29935,32.3826,-80.6956
+29936,32.4834,-80.9663
+29939,32.6813,-81.2453
+29940,32.5527,-80.6777
+29941,32.5348,-80.8197
+29943,32.4911,-81.1467
+29944,32.7957,-81.0345
+29945,32.6815,-80.7959
+30002,33.7733,-84.2617
+30004,34.1456,-84.2919
+30005,34.0891,-84.2170
+30008,33.9006,-84.5909
+30009,34.0781,-84.3034
+30011,34.0199,-83.8372
+30012,33.7178,-84.0025
+30013,33.6426,-83.9719
+30014,33.5872,-83.8222
+30016,33.5174,-83.9287
+30017,33.8887,-83.9637
+30018,33.7169,-83.8043
+30019,33.9756,-83.8837
+30021,33.8080,-84.2390
+30022,34.0261,-84.2474
+30024,34.0635,-84.0911
+30025,33.6560,-83.6958
+30028,34.2932,-84.1759
+30030,33.7727,-84.2910
+30032,33.7407,-84.2645
+30033,33.8137,-84.2844
+30034,33.6909,-84.2486
+30035,33.7245,-84.2042
+30038,33.6665,-84.1399
+30039,33.7992,-84.0344
+30040,34.2234,-84.1764
+30041,34.1962,-84.0967
+30043,34.0100,-84.0050
+30044,33.9215,-84.0689
+30045,33.9365,-83.9277
+30046,33.9497,-83.9935
+30047,33.8701,-84.1123
+30052,33.8170,-83.8973
+30054,33.6784,-83.8830
+30055,33.4974,-83.7498
+30056,33.4920,-83.6501
+30058,33.7383,-84.1074
+30060,33.9201,-84.5431
+30062,34.0065,-84.4730
+30064,33.9405,-84.6097
+30066,34.0324,-84.5052
+30067,33.9343,-84.4622
+30068,33.9681,-84.4317
+30070,33.5733,-83.8956
+30071,33.9407,-84.2067
+30072,33.7914,-84.2048
+30075,34.0527,-84.3916
+30076,34.0286,-84.3114
+30078,33.8610,-84.0180
+30079,33.7917,-84.2607
+30080,33.8778,-84.5017
+30082,33.8547,-84.5364
+30083,33.7966,-84.1926
+30084,33.8541,-84.2162
+30087,33.7914,-84.0983
+30088,33.7561,-84.1824
+30090,33.9531,-84.5482
+30092,33.9724,-84.2320
+30093,33.9089,-84.1792
+30094,33.6125,-84.0515
+30096,33.9743,-84.1454
+30097,34.0263,-84.1460
+30101,34.0345,-84.7073
+30102,34.1016,-84.6452
+30103,34.3632,-84.9202
+30104,34.0889,-85.0704
+30105,34.4325,-85.1724
+30106,33.8329,-84.6281
+30107,34.3361,-84.3455
+30108,33.5317,-85.2630
+30110,33.7392,-85.1354
+30111,33.8318,-84.6550
+30113,33.8507,-85.2053
+30114,34.2435,-84.5358
+30115,34.2155,-84.4024
+30116,33.5391,-84.9956
+30117,33.5819,-85.1324
+30118,33.5729,-85.0994
+30120,34.1752,-84.8600
+30121,34.2119,-84.7769
+30122,33.7669,-84.6414
+30124,34.1337,-85.3458
+30125,34.0006,-85.2768
+30126,33.8150,-84.5538
+30127,33.8751,-84.6993
+30132,33.9776,-84.8515
+30134,33.7775,-84.7814
+30135,33.6723,-84.7330
+30137,34.1166,-84.7657
+30139,34.4323,-84.7055
+30141,33.8604,-84.7698
+30143,34.4628,-84.4252
+30144,34.0368,-84.5910
+30145,34.2457,-84.9859
+30147,34.1349,-85.2221
+30148,34.4605,-84.2657
+30149,34.3168,-85.2203
+30152,33.9916,-84.6469
+30153,33.9738,-85.0529
+30157,33.8847,-84.8719
+30161,34.2362,-85.1740
+30165,34.3158,-85.2951
+30168,33.7835,-84.5881
+30170,33.4328,-85.1647
+30171,34.3634,-84.7274
+30173,34.1331,-85.1535
+30175,34.5349,-84.5267
+30176,33.7713,-85.3044
+30177,34.4071,-84.3740
+30178,34.0955,-84.9711
+30179,33.7816,-85.0148
+30180,33.7189,-84.9188
+30182,33.6558,-85.2488
+30183,34.3388,-84.6024
+30184,34.2521,-84.7411
+30185,33.5198,-84.9181
+30187,33.6528,-84.8562
+30188,34.1235,-84.4577
+30189,34.1242,-84.5707
+30204,33.0562,-84.1217
+30205,33.2674,-84.4751
+30206,33.0961,-84.4583
+30213,33.5867,-84.6244
+30214,33.4905,-84.4860
+30215,33.3916,-84.4564
+30216,33.2288,-83.8849
+30217,33.2913,-85.1379
+30218,33.1203,-84.5875
+30220,33.2308,-84.8249
+30222,33.0372,-84.7347
+30223,33.2888,-84.2799
+30224,33.2044,-84.2397
+30228,33.4006,-84.3077
+30229,33.2279,-84.5703
+30230,33.1667,-84.9205
+30233,33.2947,-83.9756
+30234,33.3326,-84.0253
+30236,33.5199,-84.3252
+30238,33.5018,-84.3822
+30240,33.0368,-85.1201
+30241,33.0217,-84.9562
+30248,33.3505,-84.1091
+30250,33.4348,-84.3061
+30251,33.1982,-84.6981
+30252,33.4735,-84.0572
+30253,33.4536,-84.1872
+30256,33.0075,-84.3099
+30257,33.1434,-84.1862
+30258,32.9909,-84.4700
+30259,33.2657,-84.7417
+30260,33.5872,-84.3343
+30263,33.3884,-84.8589
+30265,33.4187,-84.7132
+30268,33.5464,-84.7226
+30269,33.3939,-84.5693
+30272,33.6231,-84.5018
+30273,33.5838,-84.2710
+30274,33.5573,-84.4005
+30275,33.4307,-84.8679
+30276,33.2633,-84.5835
+30277,33.3753,-84.6492
+30281,33.5569,-84.1952
+30284,33.3403,-84.2886
+30285,32.9877,-84.2582
+30286,32.8811,-84.3332
+30288,33.6528,-84.3271
+30289,33.3236,-84.6337
+30290,33.4764,-84.5897
+30291,33.5759,-84.5438
+30292,33.1685,-84.3932
+30293,32.9791,-84.5963
+30294,33.6367,-84.2650
+30295,33.0903,-84.3176
+30296,33.5632,-84.4412
+30297,33.6150,-84.3717
+30303,33.7528,-84.3902
+30305,33.8341,-84.3921
+30306,33.7881,-84.3526
+30307,33.7711,-84.3336
+30308,33.7710,-84.3777
+30309,33.7999,-84.3858
+30310,33.7269,-84.4289
+30311,33.7233,-84.4760
+30312,33.7446,-84.3758
+30313,33.7636,-84.3977
+30314,33.7579,-84.4320
+30315,33.7027,-84.3829
+30316,33.7168,-84.3313
+30317,33.7480,-84.3156
+30318,33.7927,-84.4480
+30319,33.8760,-84.3348
+30322,33.7946,-84.3252
+30324,33.8184,-84.3582
+30326,33.8496,-84.3635
+30327,33.8697,-84.4173
+30328,33.9333,-84.3867
+30329,33.8272,-84.3221
+30331,33.7054,-84.5441
+30332,33.7776,-84.4043
+30334,33.7487,-84.3879
+30336,33.7354,-84.5690
+30337,33.6401,-84.4501
+30338,33.9462,-84.3181
+30339,33.8676,-84.4646
+30340,33.8979,-84.2528
+30341,33.8885,-84.2895
+30342,33.8843,-84.3750
+30344,33.6766,-84.4616
+30345,33.8517,-84.2837
+30346,33.9243,-84.3388
+30349,33.6225,-84.5239
+30350,33.9803,-84.3300
+30354,33.6604,-84.3865
+30360,33.9339,-84.2720
+30363,33.7915,-84.3989
+30401,32.6047,-82.3480
+30410,32.1886,-82.5135
+30411,32.1241,-82.7940
+30412,32.0803,-82.4861
+30413,32.8847,-82.5131
+30414,32.1570,-81.9900
+30415,32.3245,-81.6035
+30417,32.1705,-81.9210
+30420,32.3066,-82.1309
+30421,32.1854,-82.1109
+30423,32.1463,-81.8241
+30425,32.6820,-82.0946
+30426,33.0473,-81.6488
+30427,31.9229,-81.9624
+30428,32.2245,-82.7151
+30429,32.1568,-81.9349
+30434,33.0246,-82.3663
+30436,32.1549,-82.2930
+30439,32.4167,-82.0704
+30441,32.8156,-82.2372
+30442,32.8162,-81.9698
+30445,32.1656,-82.5807
+30446,32.5635,-81.4630
+30448,32.4882,-82.3634
+30449,32.5253,-81.5345
+30450,32.5560,-81.9274
+30451,32.3933,-81.9562
+30452,32.3161,-81.8919
+30453,32.0262,-82.1112
+30454,32.4361,-82.7304
+30455,32.6983,-81.8099
+30456,32.9807,-81.7961
+30457,32.3999,-82.5609
+30458,32.3994,-81.8289
+30460,32.4271,-81.7832
+30461,32.4970,-81.7231
+30464,32.4372,-82.2250
+30467,32.7538,-81.6035
+30470,32.3589,-82.4975
+30471,32.5433,-82.1809
+30473,32.0155,-82.4731
+30474,32.2240,-82.4137
+30477,32.8626,-82.4008
+30501,34.3190,-83.8144
+30504,34.2665,-83.8886
+30506,34.3469,-83.8956
+30507,34.2647,-83.7694
+30510,34.4449,-83.5707
+30511,34.4497,-83.4867
+30512,34.8568,-83.9680
+30513,34.8210,-84.3224
+30516,34.3809,-83.0307
+30517,34.1303,-83.7973
+30518,34.1338,-84.0226
+30519,34.0874,-83.9451
+30520,34.3399,-83.0827
+30521,34.3624,-83.2923
+30522,34.7837,-84.3437
+30523,34.7132,-83.5513
+30525,34.9072,-83.3693
+30527,34.4809,-83.7818
+30528,34.6091,-83.7760
+30529,34.2172,-83.4827
+30530,34.2229,-83.3938
+30531,34.5126,-83.5922
+30533,34.5710,-84.0138
+30534,34.4311,-84.1443
+30535,34.5737,-83.5748
+30536,34.6520,-84.3594
+30537,34.9791,-83.3315
+30538,34.5010,-83.2638
+30539,34.6806,-84.4701
+30540,34.7281,-84.5435
+30541,34.9173,-84.5177
+30542,34.1798,-83.9101
+30543,34.3013,-83.6537
+30545,34.7623,-83.7621
+30546,34.9084,-83.7178
+30547,34.3620,-83.4556
+30548,34.0894,-83.7636
+30549,34.1080,-83.5775
+30552,34.7738,-83.4707
+30553,34.4438,-83.0841
+30554,34.3981,-83.6619
+30555,34.9694,-84.4195
+30557,34.4798,-83.1849
+30558,34.2640,-83.5668
+30559,34.9579,-84.2743
+30560,34.8768,-84.2047
+30562,34.9190,-83.3837
+30563,34.5590,-83.4618
+30564,34.4640,-83.8893
+30565,34.0862,-83.4115
+30566,34.2387,-83.8968
+30567,34.1808,-83.6766
+30568,34.9548,-83.4111
+30571,34.7163,-83.6821
+30572,34.7358,-84.0725
+30573,34.7413,-83.3935
+30575,34.2076,-83.7134
+30576,34.8346,-83.4521
+30577,34.5562,-83.3289
+30581,34.7963,-83.4245
+30582,34.9565,-83.9098
+30597,34.5276,-83.9846
+30598,34.5966,-83.3542
+30601,33.9992,-83.3470
+30602,33.9439,-83.3739
+30605,33.9043,-83.3256
+30606,33.9403,-83.4336
+30607,34.0173,-83.4476
+30609,33.9331,-83.3723
+30619,33.8558,-83.2447
+30620,33.9295,-83.7585
+30621,33.7968,-83.4712
+30622,33.9213,-83.5308
+30623,33.7287,-83.5130
+30624,34.1810,-83.0379
+30625,33.5203,-83.3335
+30627,33.9722,-82.9637
+30628,34.0321,-83.2160
+30629,34.0780,-83.1104
+30630,33.9004,-83.1453
+30631,33.5583,-82.8665
+30633,34.1809,-83.2492
+30634,34.2022,-82.9422
+30635,34.1058,-82.7931
+30639,34.2827,-83.1524
+30641,33.7696,-83.5648
+30642,33.5443,-83.1840
+30643,34.3655,-82.9119
+30646,34.0857,-83.3025
+30648,33.8708,-83.0382
+30650,33.5906,-83.4676
+30655,33.7802,-83.6925
+30656,33.8621,-83.7162
+30660,33.7827,-82.9313
+30662,34.2670,-83.1376
+30663,33.6155,-83.6003
+30664,33.5563,-82.7983
+30665,33.5373,-83.0740
+30666,33.9621,-83.5846
+30667,33.7969,-83.1755
+30668,33.8957,-82.6972
+30669,33.6764,-83.1181
+30673,33.7281,-82.7162
+30677,33.7832,-83.3733
+30678,33.4530,-83.0659
+30680,33.9952,-83.6975
+30683,33.9468,-83.2571
+30701,34.4944,-84.9542
+30705,34.7475,-84.7484
+30707,34.7789,-85.3653
+30708,34.9399,-84.6676
+30710,34.9388,-84.9173
+30711,34.9318,-84.7686
+30720,34.7336,-85.0008
+30721,34.7930,-84.9087
+30724,34.8252,-84.7579
+30725,34.9248,-85.3527
+30726,34.9749,-85.1410
+30728,34.6849,-85.2258
+30730,34.3638,-85.4160
+30731,34.5642,-85.4719
+30733,34.4146,-85.0506
+30734,34.5328,-84.7149
+30735,34.6029,-84.8827
+30736,34.9023,-85.1338
+30738,34.7966,-85.4809
+30739,34.8059,-85.2160
+30740,34.7574,-85.0720
+30741,34.9527,-85.2813
+30742,34.9356,-85.2448
+30746,34.5921,-85.0329
+30747,34.5041,-85.2928
+30750,34.9368,-85.3882
+30751,34.9845,-84.7327
+30752,34.9150,-85.5380
+30753,34.5823,-85.2858
+30755,34.8694,-85.0407
+30756,34.9011,-84.9746
+30757,34.9358,-85.4415
+30802,33.6014,-82.2999
+30803,33.1335,-82.5492
+30805,33.2796,-82.1918
+30807,33.4574,-82.6486
+30808,33.3841,-82.3919
+30809,33.5585,-82.1712
+30810,33.2320,-82.5875
+30812,33.3675,-82.0291
+30813,33.4667,-82.2282
+30814,33.4311,-82.3188
+30815,33.2849,-82.0722
+30816,33.1634,-82.1762
+30817,33.7784,-82.4302
+30818,33.2696,-82.3261
+30820,33.2224,-82.7245
+30821,33.4921,-82.7380
+30822,32.9193,-81.9444
+30823,33.2220,-82.4561
+30824,33.5130,-82.5149
+30828,33.3680,-82.6563
+30830,33.0851,-81.9787
+30833,33.1912,-82.3531
+30901,33.4372,-81.9562
+30904,33.4783,-82.0141
+30905,33.4115,-82.1491
+30906,33.3467,-81.9677
+30907,33.5237,-82.0857
+30909,33.4705,-82.0830
+30912,33.4702,-81.9879
+31001,31.9763,-83.3397
+31002,32.5540,-82.5953
+31003,32.5969,-83.2229
+31004,32.9517,-83.8053
+31005,32.5446,-83.5937
+31006,32.5807,-84.2507
+31007,32.1885,-83.9273
+31008,32.6654,-83.7860
+31009,32.2702,-83.0005
+31011,32.1306,-83.0523
+31012,32.3943,-83.1737
+31014,32.4159,-83.3491
+31015,31.9430,-83.7786
+31016,32.8293,-84.0916
+31017,32.6211,-83.2322
+31018,32.9765,-82.6168
+31019,32.4242,-83.0513
+31020,32.6545,-83.4985
+31021,32.4895,-82.9350
+31022,32.5115,-83.1166
+31023,32.1832,-83.1995
+31024,33.3230,-83.3700
+31025,32.3354,-83.7409
+31027,32.5719,-82.8226
+31028,32.6328,-83.6839
+31029,33.0436,-83.9353
+31030,32.5690,-83.8919
+31031,32.8663,-83.3283
+31032,33.0120,-83.5733
+31033,33.0793,-83.4340
+31034,33.0546,-83.2255
+31035,32.8541,-82.7078
+31036,32.2701,-83.4926
+31037,32.1216,-82.9363
+31038,33.1425,-83.6214
+31039,32.6041,-84.3791
+31041,32.3824,-84.1678
+31042,32.7436,-83.1891
+31044,32.6562,-83.3909
+31045,33.2829,-82.7945
+31046,33.0543,-83.7961
+31047,32.4669,-83.5810
+31049,32.6783,-82.5234
+31050,32.7215,-83.9373
+31051,32.1431,-83.8794
+31052,32.7890,-83.8401
+31054,32.8899,-83.2141
+31055,31.9859,-82.8831
+31057,32.4298,-83.9443
+31058,32.4887,-84.4104
+31060,31.9864,-83.0563
+31061,33.0591,-83.2264
+31062,33.0434,-83.2158
+31063,32.2890,-83.9633
+31064,33.2865,-83.7023
+31065,32.5641,-83.1885
+31066,32.8024,-83.9781
+31067,32.8523,-82.9617
+31068,32.3327,-84.1111
+31069,32.4401,-83.7486
+31070,32.1866,-83.7898
+31071,32.1294,-83.5408
+31072,31.9745,-83.5668
+31075,32.3610,-82.9546
+31076,32.5497,-84.1050
+31077,31.9423,-83.1698
+31078,32.6948,-84.0757
+31079,31.9425,-83.4634
+31081,32.4124,-84.2840
+31082,32.9964,-82.9031
+31083,32.0441,-82.8220
+31084,31.9615,-83.6026
+31085,33.4273,-83.6277
+31087,33.2514,-83.0010
+31088,32.5862,-83.6551
+31089,32.8508,-82.8603
+31090,32.7936,-83.0484
+31091,32.2379,-83.7045
+31092,32.0897,-83.7827
+31093,32.6479,-83.6572
+31094,33.1136,-82.7958
+31096,32.7233,-82.7073
+31097,32.8904,-84.1669
+31098,32.6148,-83.5784
+31201,32.8063,-83.6179
+31204,32.8485,-83.6747
+31206,32.7934,-83.6846
+31207,32.8286,-83.6493
+31210,32.9076,-83.7351
+31211,32.9043,-83.5985
+31213,32.8401,-83.6393
+31216,32.7324,-83.6714
+31217,32.8441,-83.5000
+31220,32.8845,-83.8181
+31301,31.7583,-81.6051
+31302,32.1258,-81.3404
+31303,32.5054,-81.3134
+31305,31.3676,-81.3782
+31307,32.1764,-81.3976
+31308,32.1803,-81.4713
+31309,31.8804,-81.4412
+31312,32.3186,-81.4010
+31313,31.8366,-81.6168
+31314,31.9069,-81.6175
+31315,31.8877,-81.6060
+31316,31.7193,-81.7333
+31318,32.1348,-81.3723
+31320,31.7655,-81.3684
+31321,32.1851,-81.6598
+31322,32.1020,-81.2554
+31323,31.6684,-81.4542
+31324,31.8502,-81.2648
+31326,32.2966,-81.2227
+31327,31.4232,-81.2901
+31328,32.0043,-80.8908
+31329,32.4273,-81.3500
+31331,31.4902,-81.4215
+31333,31.7678,-81.6275
+31401,32.0683,-81.0928
+31404,32.0508,-81.0530
+31405,32.0394,-81.1791
+31406,31.9804,-81.0852
+31407,32.1832,-81.1979
+31408,32.1040,-81.1806
+31409,32.0156,-81.1448
+31410,32.0149,-80.9882
+31411,31.9375,-81.0343
+31415,32.0806,-81.1272
+31419,31.9846,-81.2369
+31421,32.0870,-81.0782
+31501,31.2276,-82.3479
+31503,31.1769,-82.4013
+31510,31.5465,-82.4335
+31512,31.5457,-83.0184
+31513,31.7774,-82.3460
+31516,31.3094,-82.2533
+31518,31.5126,-82.1851
+31519,31.6681,-82.8690
+31520,31.1781,-81.4876
+31522,31.2573,-81.3420
+31523,31.2126,-81.6168
+31524,31.2406,-81.4734
+31525,31.3210,-81.5264
+31527,31.0751,-81.4160
+31532,31.7264,-82.7457
+31533,31.5627,-82.8290
+31535,31.4595,-82.8673
+31537,30.9265,-82.1765
+31539,31.8139,-82.6022
+31542,31.1427,-82.1194
+31543,31.3265,-81.8697
+31544,31.8405,-82.9639
+31545,31.5726,-81.9909
+31546,31.5303,-81.7949
+31547,30.7903,-81.5353
+31548,30.7958,-81.7124
+31549,31.9214,-82.7299
+31550,31.1471,-82.5956
+31551,31.4883,-82.2668
+31552,31.2899,-82.5991
+31553,31.1664,-81.9824
+31554,31.4858,-82.6205
+31555,31.7031,-82.0694
+31556,31.4050,-82.1152
+31557,31.3753,-82.0988
+31558,30.8023,-81.5077
+31560,31.5056,-82.0296
+31561,31.1991,-81.3286
+31562,30.4753,-82.1039
+31563,31.7382,-82.1778
+31564,31.2487,-82.4709
+31565,31.0707,-81.6434
+31566,31.1828,-81.8056
+31567,31.6309,-82.7062
+31568,31.0134,-81.8191
+31569,30.9338,-81.7371
+31599,31.5627,-81.9017
+31601,30.7755,-83.3336
+31602,30.8682,-83.3423
+31605,30.9330,-83.2219
+31606,30.7987,-83.1799
+31620,31.1173,-83.4342
+31622,31.3723,-83.1993
+31623,31.0714,-82.6440
+31624,31.2962,-82.7303
+31625,30.9893,-83.5225
+31626,30.7756,-83.8031
+31627,31.0396,-83.3921
+31629,30.8168,-83.6894
+31630,30.9242,-82.8600
+31631,30.7082,-82.6444
+31632,30.9863,-83.3549
+31634,31.0305,-82.7328
+31635,31.0969,-83.0485
+31636,30.7310,-83.1114
+31637,31.2960,-83.4402
+31638,30.9064,-83.5122
+31639,31.2133,-83.1909
+31641,30.9210,-83.0936
+31642,31.2628,-82.8832
+31643,30.7731,-83.5569
+31645,31.0607,-83.2187
+31647,31.2112,-83.4317
+31648,30.7084,-83.0084
+31649,30.9405,-83.0139
+31650,31.3700,-83.0189
+31698,30.8490,-83.2896
+31699,30.9696,-83.1943
+31701,31.5731,-84.1548
+31704,31.5497,-84.0555
+31705,31.5169,-84.0429
+31707,31.5869,-84.2064
+31709,32.0464,-84.1496
+31711,32.1877,-84.1222
+31712,31.8194,-83.7192
+31714,31.7081,-83.6784
+31716,31.3661,-84.1107
+31719,32.0903,-84.3107
+31720,30.8782,-83.7246
+31721,31.5253,-84.3015
+31722,31.0483,-83.6109
+31727,31.4178,-83.3874
+31730,31.2109,-84.2806
+31733,31.5932,-83.4898
+31735,31.9696,-83.9733
+31738,31.0082,-83.8797
+31743,31.8965,-84.0075
+31744,31.3403,-83.9031
+31747,31.1746,-83.5849
+31749,31.4205,-83.3301
+31750,31.7365,-83.2150
+31753,31.2004,-83.8728
+31756,31.1769,-83.9623
+31757,30.8714,-83.9031
+31763,31.7361,-84.1482
+31764,31.9763,-84.0888
+31765,31.0876,-84.0272
+31768,31.1891,-83.8411
+31771,31.2481,-83.6542
+31772,31.7242,-83.9610
+31773,30.9777,-84.0458
+31774,31.5655,-83.2637
+31775,31.3343,-83.5989
+31778,30.9750,-83.7001
+31779,31.0902,-84.1917
+31780,32.0277,-84.3912
+31781,31.5606,-83.7963
+31783,31.7590,-83.4701
+31784,31.2524,-84.0485
+31787,31.8956,-84.2482
+31788,31.1115,-83.6839
+31789,31.4833,-83.7339
+31790,31.6525,-83.5780
+31791,31.5289,-83.8943
+31792,30.7656,-84.0432
+31793,31.4619,-83.5812
+31794,31.4459,-83.4527
+31795,31.4346,-83.6398
+31796,31.7712,-83.8750
+31798,31.6444,-83.0473
+31801,32.5193,-84.5948
+31803,32.3074,-84.5172
+31804,32.6644,-84.8784
+31805,32.2631,-84.7395
+31806,32.2602,-84.2995
+31807,32.6447,-84.8045
+31808,32.6316,-85.0105
+31810,32.5683,-84.5249
+31811,32.7374,-84.9374
+31812,32.6349,-84.4251
+31814,32.1974,-84.8650
+31815,32.0418,-84.8561
+31816,32.8789,-84.6013
+31820,32.5758,-84.8291
+31821,32.1425,-84.9747
+31822,32.8650,-84.9103
+31823,32.7978,-84.8114
+31824,32.0579,-84.5206
+31825,32.1162,-84.6709
+31826,32.8002,-84.7031
+31827,32.6955,-84.5038
+31829,32.5662,-84.7254
+31830,32.9007,-84.7291
+31831,32.6669,-84.7048
+31832,31.9582,-84.6149
+31833,32.8429,-85.0918
+31836,32.7964,-84.5351
+31901,32.4644,-84.9801
+31903,32.4160,-84.9525
+31904,32.5543,-85.0095
+31905,32.3728,-84.8434
+31906,32.4678,-84.9502
+31907,32.4844,-84.8999
+31909,32.5488,-84.9241
+32003,30.0956,-81.7102
+32008,29.9079,-82.8975
+32009,30.4225,-81.9738
+32011,30.5698,-81.8405
+32013,30.1937,-83.2912
+32024,30.0920,-82.7311
+32025,30.1040,-82.5662
+32026,30.0591,-82.1905
+32033,29.7879,-81.4467
+32034,30.6018,-81.4818
+32038,29.9349,-82.6922
+32040,30.2470,-82.2353
+32043,29.9267,-81.7436
+32044,29.8579,-82.1787
+32046,30.7012,-81.9166
+32052,30.4905,-82.9448
+32053,30.5688,-83.1519
+32054,30.0338,-82.3943
+32055,30.2701,-82.6241
+32058,30.1075,-82.1069
+32059,30.3849,-83.2560
+32060,30.2744,-83.0363
+32061,30.0831,-82.5167
+32062,30.1375,-82.9783
+32063,30.2709,-82.1204
+32064,30.2933,-82.9920
+32065,30.1751,-81.8717
+32066,30.0398,-83.2058
+32068,30.0830,-81.8840
+32071,30.0581,-82.9558
+32072,30.1840,-82.4234
+32073,30.1677,-81.7398
+32079,29.9780,-81.8070
+32080,29.8170,-81.2651
+32081,30.1196,-81.4266
+32082,30.1116,-81.3717
+32083,30.1146,-82.2328
+32084,29.9137,-81.3653
+32086,29.7409,-81.3002
+32087,30.3650,-82.2987
+32091,29.9330,-82.1134
+32092,29.9293,-81.5219
+32094,30.1869,-82.8218
+32095,30.0275,-81.4370
+32096,30.5344,-82.6270
+32097,30.6621,-81.6489
+32102,29.1384,-81.5231
+32110,29.4447,-81.3523
+32112,29.4317,-81.5656
+32113,29.4100,-82.0892
+32114,29.1924,-81.0468
+32117,29.2327,-81.0685
+32118,29.2096,-81.0023
+32119,29.1610,-81.0256
+32124,29.1595,-81.1588
+32127,29.1085,-80.9757
+32128,29.1007,-81.0718
+32129,29.1370,-81.0240
+32130,29.1483,-81.3410
+32131,29.6779,-81.5637
+32132,28.9801,-80.9209
+32133,29.0121,-81.9147
+32134,29.3772,-81.8276
+32136,29.4638,-81.1474
+32137,29.5757,-81.2238
+32139,29.3772,-81.6130
+32140,29.7626,-81.8667
+32141,28.9288,-80.9191
+32145,29.6776,-81.4213
+32147,29.6347,-81.7870
+32148,29.6012,-81.8829
+32157,29.4615,-81.5878
+32159,28.9181,-81.8977
+32162,28.9223,-81.9993
+32163,28.8414,-81.9592
+32164,29.4806,-81.2178
+32168,28.9946,-81.0244
+32169,28.9755,-80.8674
+32174,29.2922,-81.1614
+32176,29.3354,-81.0645
+32177,29.6977,-81.7032
+32179,29.0952,-81.8999
+32180,29.2410,-81.4428
+32181,29.5080,-81.6020
+32182,29.5092,-81.9410
+32187,29.5789,-81.5500
+32189,29.5498,-81.6477
+32190,29.3377,-81.4926
+32192,29.3502,-82.1111
+32193,29.4774,-81.6636
+32195,28.9881,-81.8863
+32202,30.3246,-81.6472
+32203,30.3370,-81.6713
+32204,30.3170,-81.6808
+32205,30.3025,-81.7230
+32206,30.3511,-81.6380
+32207,30.2896,-81.6410
+32208,30.3931,-81.6829
+32209,30.3610,-81.6963
+32210,30.2655,-81.7481
+32211,30.3315,-81.5827
+32212,30.2234,-81.6730
+32214,30.2077,-81.6832
+32216,30.2811,-81.5817
+32217,30.2292,-81.6212
+32218,30.4878,-81.6677
+32219,30.4267,-81.8150
+32220,30.3350,-81.8553
+32221,30.2586,-81.8782
+32222,30.2089,-81.8310
+32223,30.1566,-81.6494
+32224,30.2700,-81.4609
+32225,30.3578,-81.5058
+32226,30.4812,-81.5062
+32227,30.3892,-81.4044
+32228,30.3919,-81.4001
+32233,30.3573,-81.4170
+32234,30.2263,-82.0044
+32244,30.2171,-81.7526
+32246,30.2910,-81.5121
+32250,30.2805,-81.4120
+32254,30.3410,-81.7348
+32256,30.1753,-81.4720
+32257,30.1894,-81.6125
+32258,30.1407,-81.5517
+32259,30.0743,-81.5852
+32266,30.3174,-81.4091
+32277,30.3774,-81.5939
+32301,30.4276,-84.2578
+32303,30.5124,-84.3449
+32304,30.4520,-84.3528
+32305,30.3499,-84.3008
+32306,30.4423,-84.2945
+32307,30.4217,-84.2869
+32308,30.4809,-84.2197
+32309,30.5813,-84.1041
+32310,30.4330,-84.3918
+32311,30.3900,-84.1810
+32312,30.6043,-84.2433
+32313,30.4431,-84.3007
+32317,30.4705,-84.1167
+32320,29.7315,-85.0542
+32321,30.2628,-84.9977
+32322,29.8640,-84.6320
+32323,29.8915,-84.6137
+32324,30.6548,-84.7832
+32327,30.1815,-84.3027
+32328,29.8004,-84.8968
+32330,30.5786,-84.7480
+32331,30.4547,-83.5778
+32332,30.6101,-84.6651
+32333,30.6077,-84.4176
+32334,30.2593,-84.7584
+32336,30.2631,-83.8655
+32337,30.4831,-84.0211
+32340,30.4490,-83.4348
+32343,30.4783,-84.5047
+32344,30.4445,-83.9260
+32346,29.9823,-84.3806
+32347,30.1507,-83.6407
+32348,29.9424,-83.5569
+32350,30.5750,-83.3258
+32351,30.5201,-84.6751
+32352,30.6623,-84.5916
+32355,30.1691,-84.2093
+32356,29.8592,-83.4150
+32358,30.0910,-84.5407
+32359,29.6500,-83.3760
+32360,30.3650,-84.8124
+32361,30.3576,-83.9887
+32399,30.3833,-84.2312
+32401,30.1584,-85.6380
+32403,30.0486,-85.5532
+32404,30.1850,-85.5074
+32405,30.1994,-85.6686
+32407,30.1983,-85.7907
+32408,30.1568,-85.7547
+32409,30.3413,-85.7126
+32410,29.9520,-85.4283
+32413,30.3057,-85.8863
+32420,30.6356,-85.3817
+32421,30.5215,-85.2057
+32423,30.9438,-85.0489
+32424,30.3906,-85.0818
+32425,30.8532,-85.7205
+32426,30.9540,-85.3674
+32427,30.7105,-85.7923
+32428,30.6157,-85.5729
+32430,30.4187,-85.2256
+32431,30.7875,-85.4108
+32432,30.7141,-85.0772
+32433,30.8512,-86.2008
+32435,30.6486,-86.1302
+32437,30.4362,-85.9092
+32438,30.5117,-85.4149
+32439,30.4833,-86.1304
+32440,30.9224,-85.5262
+32442,30.6865,-85.0086
+32443,30.8725,-85.1094
+32444,30.2385,-85.6516
+32445,30.9705,-85.1973
+32446,30.8482,-85.2314
+32448,30.6710,-85.2233
+32449,30.2683,-85.2181
+32455,30.6386,-85.9627
+32456,29.8145,-85.3064
+32459,30.3606,-86.1856
+32460,30.7641,-84.9542
+32461,30.3089,-86.0540
+32462,30.5618,-85.8237
+32463,30.6280,-85.5873
+32464,30.8814,-85.9560
+32465,30.0079,-85.1819
+32466,30.3884,-85.4651
+32501,30.4288,-87.2225
+32502,30.4089,-87.2268
+32503,30.4597,-87.2136
+32504,30.4731,-87.1863
+32505,30.4546,-87.2606
+32506,30.3919,-87.3720
+32507,30.3392,-87.3782
+32508,30.3506,-87.3169
+32509,30.4697,-87.3404
+32511,30.4063,-87.2913
+32512,30.3990,-87.2992
+32514,30.5322,-87.2225
+32526,30.4992,-87.3656
+32530,30.5971,-87.0200
+32531,30.8981,-86.6931
+32533,30.6126,-87.3243
+32534,30.5283,-87.2862
+32535,30.9637,-87.3462
+32536,30.7504,-86.5976
+32539,30.7790,-86.4772
+32541,30.3952,-86.4788
+32542,30.5078,-86.5416
+32544,30.4264,-86.7193
+32547,30.4662,-86.6530
+32548,30.4132,-86.5893
+32550,30.3814,-86.3457
+32561,30.3407,-87.1166
+32563,30.3909,-87.0248
+32564,30.7288,-86.7819
+32565,30.8944,-87.1455
+32566,30.4253,-86.8923
+32567,30.9211,-86.4315
+32568,30.8778,-87.4749
+32569,30.4114,-86.7284
+32570,30.7915,-86.9830
+32571,30.6733,-87.1958
+32577,30.7410,-87.3794
+32578,30.5079,-86.4484
+32579,30.4457,-86.5743
+32580,30.5065,-86.5147
+32583,30.6049,-86.9722
+32601,29.6487,-82.3254
+32603,29.6531,-82.3504
+32605,29.6792,-82.3728
+32606,29.6821,-82.4441
+32607,29.6473,-82.4192
+32608,29.5842,-82.3983
+32609,29.7722,-82.2834
+32610,29.6408,-82.3434
+32612,29.6431,-82.3538
+32615,29.8192,-82.4862
+32616,29.7820,-82.4993
+32617,29.3084,-82.0744
+32618,29.5398,-82.5215
+32619,29.7560,-82.8683
+32621,29.4290,-82.6309
+32622,29.9001,-82.3070
+32625,29.2147,-82.9954
+32626,29.4239,-82.8993
+32628,29.6532,-83.1630
+32631,29.7285,-82.1134
+32634,29.3647,-82.2543
+32639,29.2322,-82.7217
+32640,29.5577,-82.0708
+32641,29.6475,-82.2395
+32643,29.8180,-82.6361
+32648,29.5006,-83.2386
+32653,29.7439,-82.4028
+32656,29.8271,-81.9452
+32658,29.8519,-82.4166
+32664,29.4493,-82.2219
+32666,29.7142,-81.9925
+32667,29.4895,-82.3043
+32668,29.2572,-82.4747
+32669,29.6322,-82.5899
+32680,29.5749,-83.0744
+32681,29.4269,-82.2152
+32683,29.2742,-82.7695
+32686,29.3555,-82.2750
+32692,29.3293,-83.1725
+32693,29.6265,-82.7854
+32694,29.8081,-82.1444
+32696,29.4001,-82.4693
+32697,29.9282,-82.4255
+32701,28.6656,-81.3704
+32702,29.0442,-81.6275
+32703,28.6536,-81.5207
+32707,28.6641,-81.3149
+32708,28.6881,-81.2700
+32709,28.5025,-80.9588
+32712,28.7361,-81.5476
+32713,28.8814,-81.3243
+32714,28.6625,-81.4116
+32720,29.0333,-81.3748
+32723,29.0345,-81.3045
+32724,29.0572,-81.2256
+32725,28.8862,-81.2514
+32726,28.8541,-81.6799
+32730,28.6521,-81.3435
+32732,28.7510,-81.1021
+32735,28.8904,-81.7390
+32736,28.9167,-81.4891
+32738,28.9047,-81.1882
+32744,28.9852,-81.2196
+32746,28.7714,-81.3531
+32750,28.7086,-81.3505
+32751,28.6304,-81.3650
+32754,28.6871,-80.9192
+32757,28.7764,-81.6312
+32759,28.8255,-80.9027
+32763,28.9422,-81.3061
+32764,28.8367,-81.0631
+32765,28.6651,-81.1963
+32766,28.6477,-81.0447
+32767,29.0266,-81.5345
+32768,28.6958,-81.5579
+32771,28.8147,-81.3176
+32773,28.7551,-81.2475
+32775,28.7670,-80.8767
+32776,28.8023,-81.4837
+32778,28.7735,-81.7302
+32779,28.7269,-81.4148
+32780,28.5282,-80.7798
+32784,28.9743,-81.7168
+32789,28.5992,-81.3523
+32792,28.6084,-81.3006
+32796,28.6253,-80.8459
+32798,28.7237,-81.5877
+32801,28.5418,-81.3744
+32803,28.5556,-81.3484
+32804,28.5790,-81.3942
+32805,28.5300,-81.4064
+32806,28.5124,-81.3603
+32807,28.5537,-81.3007
+32808,28.5801,-81.4443
+32809,28.4622,-81.3852
+32810,28.6216,-81.4287
+32811,28.5210,-81.4477
+32812,28.4840,-81.3243
+32814,28.5695,-81.3265
+32816,28.6001,-81.1960
+32817,28.5878,-81.2441
+32818,28.5901,-81.4938
+32819,28.4537,-81.4724
+32820,28.5769,-81.1398
+32821,28.3813,-81.4801
+32822,28.4899,-81.2902
+32824,28.3888,-81.3445
+32825,28.5367,-81.2429
+32826,28.5797,-81.1886
+32827,28.4312,-81.3238
+32828,28.5302,-81.1693
+32829,28.4772,-81.2239
+32830,28.3917,-81.5672
+32831,28.4865,-81.1464
+32832,28.4002,-81.1766
+32833,28.4943,-81.0833
+32835,28.5220,-81.4860
+32836,28.4057,-81.5164
+32837,28.3822,-81.4145
+32839,28.4881,-81.4072
+32899,28.5702,-80.6277
+32901,28.0794,-80.6223
+32903,28.1024,-80.5822
+32904,28.0329,-80.8161
+32905,28.0314,-80.6004
+32907,28.0209,-80.6798
+32908,27.9562,-80.6983
+32909,27.8995,-80.6596
+32920,28.4418,-80.5879
+32922,28.3729,-80.7416
+32925,28.2516,-80.6100
+32926,28.3829,-80.8193
+32927,28.4638,-80.8067
+32931,28.3205,-80.6258
+32934,28.1345,-80.7139
+32935,28.1455,-80.6500
+32937,28.1760,-80.6053
+32940,28.2107,-80.7506
+32948,27.7596,-80.6292
+32949,27.9098,-80.5606
+32950,27.9805,-80.5696
+32951,27.9440,-80.5034
+32952,28.3204,-80.6592
+32953,28.4635,-80.6877
+32955,28.2888,-80.7914
+32958,27.7944,-80.4915
+32959,28.4451,-80.7637
+32960,27.6407,-80.4036
+32962,27.5835,-80.3835
+32963,27.7182,-80.3933
+32966,27.6869,-80.7158
+32967,27.7155,-80.4543
+32968,27.5932,-80.5087
+32970,27.7540,-80.4505
+32976,27.8463,-80.5541
+33001,24.8355,-80.8016
+33004,26.0610,-80.1359
+33009,25.9844,-80.1456
+33010,25.8332,-80.2787
+33012,25.8661,-80.3011
+33013,25.8622,-80.2697
+33014,25.9046,-80.3021
+33015,25.9406,-80.3174
+33016,25.8938,-80.3301
+33018,25.9124,-80.3931
+33019,26.0276,-80.1202
+33020,26.0192,-80.1529
+33021,26.0231,-80.1865
+33022,26.0138,-80.1441
+33023,25.9885,-80.2125
+33024,26.0264,-80.2446
+33025,25.9882,-80.2814
+33026,26.0262,-80.2960
+33027,25.9881,-80.3404
+33028,26.0147,-80.3402
+33029,25.9923,-80.3942
+33030,25.4858,-80.5082
+33031,25.5250,-80.5009
+33032,25.5311,-80.3912
+33033,25.4789,-80.4091
+33034,25.4722,-80.7733
+33035,25.4223,-80.3999
+33036,24.9019,-80.6990
+33037,25.2258,-80.4143
+33039,25.4980,-80.3982
+33040,24.5446,-81.9217
+33042,24.6653,-81.5031
+33043,24.6697,-81.2608
+33050,24.7499,-80.9866
+33051,24.7213,-81.0213
+33054,25.9080,-80.2575
+33055,25.9485,-80.2789
+33056,25.9489,-80.2436
+33060,26.2347,-80.1211
+33062,26.2411,-80.0912
+33063,26.2519,-80.2089
+33064,26.2778,-80.1153
+33065,26.2745,-80.2604
+33066,26.2529,-80.1704
+33067,26.3059,-80.2264
+33068,26.2164,-80.2140
+33069,26.2358,-80.1571
+33070,25.0110,-80.5293
+33071,26.2458,-80.2674
+33073,26.2982,-80.1821
+33076,26.3193,-80.2718
+33101,25.7798,-80.1988
+33109,25.7612,-80.1308
+33122,25.8050,-80.3151
+33125,25.7838,-80.2363
+33126,25.7795,-80.2996
+33127,25.8135,-80.2044
+33128,25.7768,-80.2034
+33129,25.7549,-80.1985
+33130,25.7685,-80.2034
+33131,25.7655,-80.1843
+33132,25.7766,-80.1732
+33133,25.7315,-80.2338
+33134,25.7533,-80.2704
+33135,25.7666,-80.2350
+33136,25.7872,-80.2053
+33137,25.8109,-80.1669
+33138,25.8538,-80.1780
+33139,25.7794,-80.1516
+33140,25.8169,-80.1357
+33141,25.8510,-80.1386
+33142,25.8063,-80.2554
+33143,25.7025,-80.2986
+33144,25.7635,-80.3127
+33145,25.7532,-80.2345
+33146,25.7208,-80.2726
+33147,25.8512,-80.2388
+33149,25.7144,-80.1636
+33150,25.8522,-80.2072
+33154,25.8859,-80.1322
+33155,25.7378,-80.3112
+33156,25.6682,-80.2970
+33157,25.6075,-80.3433
+33158,25.6388,-80.3113
+33160,25.9335,-80.1353
+33161,25.8935,-80.1833
+33162,25.9286,-80.1792
+33165,25.7343,-80.3583
+33166,25.8249,-80.3107
+33167,25.8845,-80.2360
+33168,25.8929,-80.2091
+33169,25.9431,-80.2147
+33170,25.5583,-80.4496
+33172,25.7867,-80.3649
+33173,25.7023,-80.3575
+33174,25.7620,-80.3595
+33175,25.7366,-80.4068
+33176,25.6584,-80.3609
+33177,25.5988,-80.4065
+33178,25.8355,-80.4225
+33179,25.9576,-80.1800
+33180,25.9621,-80.1409
+33181,25.8977,-80.1511
+33182,25.7825,-80.4014
+33183,25.7006,-80.4057
+33184,25.7597,-80.4065
+33185,25.7305,-80.4543
+33186,25.6544,-80.4122
+33187,25.5274,-80.5998
+33189,25.5731,-80.3390
+33190,25.5569,-80.3499
+33193,25.7054,-80.4708
+33194,25.7141,-80.5835
+33196,25.6484,-80.5547
+33301,26.1213,-80.1279
+33304,26.1413,-80.1192
+33305,26.1534,-80.1226
+33306,26.1655,-80.1141
+33308,26.1885,-80.1050
+33309,26.1860,-80.1727
+33311,26.1442,-80.1728
+33312,26.0882,-80.1818
+33313,26.1515,-80.2274
+33314,26.0679,-80.2242
+33315,26.0870,-80.1530
+33316,26.1016,-80.1210
+33317,26.1126,-80.2279
+33319,26.1814,-80.2258
+33321,26.2125,-80.2702
+33322,26.1500,-80.2757
+33323,26.1518,-80.3209
+33324,26.1125,-80.2749
+33325,26.1105,-80.3241
+33326,26.1105,-80.3740
+33327,26.2260,-80.3676
+33328,26.0705,-80.2729
+33330,26.0606,-80.3303
+33331,26.0605,-80.3696
+33332,26.0066,-80.4602
+33334,26.1838,-80.1341
+33351,26.1796,-80.2750
+33388,26.1171,-80.2542
+33401,26.7158,-80.0668
+33403,26.8038,-80.0764
+33404,26.7811,-80.0632
+33405,26.6696,-80.0585
+33406,26.6641,-80.0924
+33407,26.7577,-80.0912
+33408,26.8409,-80.0521
+33409,26.7156,-80.0959
+33410,26.8457,-80.0874
+33411,26.7152,-80.2038
+33412,26.8033,-80.2173
+33413,26.6637,-80.1513
+33414,26.6467,-80.2503
+33415,26.6602,-80.1266
+33417,26.7204,-80.1240
+33418,26.8727,-80.1657
+33426,26.5337,-80.0832
+33428,26.3513,-80.2291
+33430,26.6027,-80.5793
+33431,26.3746,-80.1066
+33432,26.3438,-80.0822
+33433,26.3471,-80.1592
+33434,26.3832,-80.1677
+33435,26.5258,-80.0614
+33436,26.5230,-80.1073
+33437,26.5094,-80.1485
+33438,26.9764,-80.5235
+33440,26.5379,-81.0441
+33441,26.3111,-80.0979
+33442,26.3097,-80.1449
+33444,26.4571,-80.0796
+33445,26.4559,-80.1079
+33446,26.4574,-80.1834
+33449,26.5927,-80.2339
+33455,27.0537,-80.1623
+33458,26.9358,-80.1284
+33460,26.6184,-80.0558
+33461,26.6186,-80.0932
+33462,26.5762,-80.0723
+33463,26.5932,-80.1289
+33467,26.5964,-80.1756
+33469,26.9893,-80.1085
+33470,26.7839,-80.3810
+33471,26.9175,-81.1982
+33472,26.5398,-80.1890
+33473,26.5033,-80.1922
+33476,26.8010,-80.6531
+33477,26.9189,-80.0761
+33478,26.9398,-80.2611
+33480,26.6852,-80.0376
+33483,26.4626,-80.0618
+33484,26.4543,-80.1343
+33486,26.3475,-80.1148
+33487,26.4118,-80.0890
+33493,26.4756,-80.7060
+33496,26.4090,-80.1661
+33498,26.3953,-80.2198
+33503,27.7638,-82.2762
+33510,27.9553,-82.2995
+33511,27.9098,-82.2957
+33513,28.6599,-82.1692
+33514,28.6608,-81.9968
+33521,28.7979,-82.0752
+33523,28.4217,-82.2658
+33525,28.3308,-82.1833
+33527,27.9737,-82.2128
+33530,27.9077,-82.1724
+33534,27.8180,-82.3722
+33538,28.8499,-82.1851
+33540,28.2616,-82.1331
+33541,28.2340,-82.2214
+33542,28.2358,-82.1776
+33543,28.2052,-82.3171
+33544,28.2483,-82.3709
+33545,28.2681,-82.2912
+33547,27.7900,-82.1358
+33548,28.1463,-82.4823
+33549,28.1407,-82.4497
+33550,27.9795,-82.3070
+33556,28.1659,-82.6016
+33558,28.1653,-82.5107
+33559,28.1610,-82.4147
+33563,28.0171,-82.1258
+33565,28.0859,-82.1481
+33566,27.9780,-82.0957
+33567,27.9206,-82.1168
+33569,27.8488,-82.2958
+33570,27.6939,-82.4586
+33572,27.7662,-82.4003
+33573,27.7202,-82.3618
+33574,28.3380,-82.2571
+33576,28.3119,-82.2969
+33578,27.8611,-82.3551
+33579,27.7981,-82.2806
+33584,28.0055,-82.2943
+33585,28.7278,-82.0323
+33592,28.1019,-82.2832
+33594,27.9409,-82.2425
+33596,27.8872,-82.2259
+33597,28.5288,-82.0853
+33598,27.6934,-82.2847
+33602,27.9537,-82.4563
+33603,27.9856,-82.4644
+33604,28.0172,-82.4553
+33605,27.9511,-82.4297
+33606,27.9440,-82.4740
+33607,27.9652,-82.5191
+33609,27.9426,-82.5150
+33610,27.9982,-82.3780
+33611,27.8913,-82.5057
+33612,28.0508,-82.4496
+33613,28.0837,-82.4479
+33614,28.0047,-82.5061
+33615,28.0012,-82.5822
+33616,27.8651,-82.5354
+33617,28.0393,-82.3924
+33618,28.0748,-82.4984
+33619,27.9354,-82.3787
+33620,28.0614,-82.4128
+33621,27.8492,-82.5108
+33624,28.0803,-82.5282
+33625,28.0670,-82.5580
+33626,28.0644,-82.5967
+33629,27.9215,-82.5090
+33634,28.0098,-82.5478
+33635,28.0205,-82.6179
+33637,28.0452,-82.3629
+33647,28.1519,-82.3182
+33701,27.7708,-82.6328
+33702,27.8466,-82.6306
+33703,27.8171,-82.6197
+33704,27.7963,-82.6287
+33705,27.7340,-82.6403
+33706,27.7415,-82.7521
+33707,27.7435,-82.7244
+33708,27.8151,-82.7978
+33709,27.8168,-82.7316
+33710,27.7886,-82.7296
+33711,27.7394,-82.6872
+33712,27.7353,-82.6671
+33713,27.7883,-82.6775
+33714,27.8153,-82.6777
+33715,27.6658,-82.7227
+33716,27.8799,-82.6528
+33744,27.8073,-82.7731
+33755,27.9799,-82.7827
+33756,27.9456,-82.7940
+33759,27.9756,-82.7122
+33760,27.9058,-82.7140
+33761,28.0331,-82.7244
+33762,27.9075,-82.6775
+33763,28.0029,-82.7434
+33764,27.9372,-82.7406
+33765,27.9749,-82.7451
+33767,27.9747,-82.8268
+33770,27.9151,-82.8040
+33771,27.9058,-82.7588
+33772,27.8436,-82.7967
+33773,27.8815,-82.7553
+33774,27.8838,-82.8279
+33776,27.8496,-82.8258
+33777,27.8534,-82.7608
+33778,27.8886,-82.7985
+33781,27.8389,-82.7150
+33782,27.8596,-82.7081
+33785,27.8918,-82.8500
+33786,27.9327,-82.8339
+33801,28.0360,-81.8996
+33803,28.0099,-81.9365
+33805,28.0955,-81.9179
+33809,28.2024,-81.9556
+33810,28.1302,-82.0390
+33811,27.9789,-82.0159
+33812,27.9714,-81.8945
+33813,27.9472,-81.9261
+33815,28.0413,-81.9976
+33823,28.0872,-81.8129
+33825,27.6203,-81.4588
+33827,27.8179,-81.5168
+33830,27.8832,-81.8110
+33834,27.6313,-81.9126
+33835,27.7882,-81.9726
+33837,28.1943,-81.5878
+33838,28.0170,-81.6100
+33839,27.9743,-81.7554
+33840,28.0092,-81.9050
+33841,27.7380,-81.7681
+33843,27.7318,-81.5127
+33844,28.0896,-81.5894
+33847,27.8029,-81.8221
+33848,28.2760,-81.5082
+33849,28.2261,-82.0689
+33850,28.1247,-81.7311
+33851,28.0448,-81.6263
+33852,27.2587,-81.3781
+33853,27.9008,-81.5857
+33854,27.8563,-81.4099
+33855,27.7910,-81.3597
+33856,27.8547,-81.4290
+33857,27.3591,-81.1666
+33858,28.2451,-81.5583
+33859,27.8852,-81.6282
+33860,27.8185,-82.0058
+33865,27.4338,-81.9633
+33867,27.7811,-81.2020
+33868,28.2676,-81.8538
+33870,27.5033,-81.3677
+33872,27.5052,-81.5460
+33873,27.5709,-81.7812
+33875,27.4234,-81.5006
+33876,27.4252,-81.3392
+33877,27.9842,-81.6188
+33880,27.9940,-81.7775
+33881,28.0510,-81.7025
+33884,27.9828,-81.6817
+33890,27.4552,-81.7246
+33896,28.2502,-81.5808
+33897,28.2851,-81.6910
+33898,27.8806,-81.3175
+33901,26.6234,-81.8832
+33903,26.6822,-81.9058
+33904,26.5754,-81.9449
+33905,26.6677,-81.7639
+33907,26.5639,-81.8703
+33908,26.5103,-81.9796
+33909,26.7203,-81.9655
+33912,26.5350,-81.8258
+33913,26.5142,-81.6968
+33914,26.5594,-82.0242
+33916,26.6394,-81.8414
+33917,26.7481,-81.8462
+33919,26.5559,-81.9029
+33920,26.7423,-81.6360
+33921,26.7722,-82.2528
+33922,26.6517,-82.1768
+33924,26.5413,-82.1965
+33928,26.4356,-81.6971
+33930,26.5671,-81.4067
+33931,26.4302,-81.9140
+33935,26.7568,-81.4176
+33936,26.6180,-81.5592
+33944,26.9551,-81.4500
+33946,26.8524,-82.2820
+33947,26.8851,-82.2779
+33948,26.9859,-82.1517
+33950,26.9157,-82.0443
+33952,26.9861,-82.0970
+33953,26.9997,-82.2123
+33954,27.0250,-82.1215
+33955,26.8164,-81.9938
+33956,26.5371,-82.1217
+33957,26.4605,-82.1004
+33960,27.0791,-81.4122
+33965,26.4677,-81.7637
+33966,26.5833,-81.8341
+33967,26.4715,-81.8122
+33971,26.6389,-81.7003
+33972,26.6493,-81.6177
+33973,26.6007,-81.7304
+33974,26.5589,-81.6012
+33976,26.5913,-81.6861
+33980,26.9772,-82.0497
+33981,26.8762,-82.2106
+33982,26.8529,-81.6696
+33983,27.0059,-82.0134
+33990,26.6286,-81.9488
+33991,26.6337,-82.0098
+33993,26.6726,-82.0511
+34101,26.0502,-81.7806
+34102,26.1375,-81.7991
+34103,26.1914,-81.8033
+34104,26.1504,-81.7408
+34105,26.1900,-81.7648
+34108,26.2463,-81.8083
+34109,26.2408,-81.7638
+34110,26.3033,-81.7882
+34112,26.1214,-81.7390
+34113,26.0436,-81.7324
+34114,25.9542,-81.5734
+34116,26.1893,-81.7108
+34117,26.1181,-81.5489
+34119,26.2639,-81.7175
+34120,26.3130,-81.5824
+34134,26.3614,-81.8319
+34135,26.3677,-81.7357
+34137,26.0405,-81.3913
+34138,25.8139,-81.3632
+34139,25.8499,-81.3900
+34140,25.9251,-81.6626
+34141,26.0228,-81.0812
+34142,26.3138,-81.2863
+34145,25.9098,-81.6951
+34201,27.4007,-82.4658
+34202,27.4025,-82.3944
+34203,27.4403,-82.5094
+34205,27.4833,-82.5851
+34207,27.4387,-82.5797
+34208,27.4875,-82.5159
+34209,27.5047,-82.6547
+34210,27.4375,-82.6302
+34211,27.4544,-82.3834
+34212,27.4938,-82.4061
+34215,27.4744,-82.6857
+34216,27.5348,-82.7351
+34217,27.4912,-82.7050
+34219,27.5762,-82.2635
+34221,27.5812,-82.5518
+34222,27.5390,-82.5070
+34223,26.9837,-82.3377
+34224,26.9229,-82.3083
+34228,27.4005,-82.6442
+34229,27.1912,-82.4841
+34231,27.2660,-82.5166
+34232,27.3250,-82.4717
+34233,27.2800,-82.4766
+34234,27.3690,-82.5565
+34235,27.3694,-82.4768
+34236,27.3258,-82.5600
+34237,27.3388,-82.5147
+34238,27.2358,-82.4705
+34239,27.3109,-82.5212
+34240,27.3447,-82.3542
+34241,27.2510,-82.3738
+34242,27.2602,-82.5409
+34243,27.4010,-82.5279
+34250,27.5696,-82.5851
+34251,27.3777,-82.1715
+34266,27.2020,-81.8022
+34267,27.0893,-81.9543
+34268,27.1323,-81.9274
+34269,27.0899,-81.9615
+34275,27.1518,-82.4226
+34285,27.0946,-82.4409
+34286,27.1075,-82.1067
+34287,27.0578,-82.2493
+34288,27.0536,-82.1133
+34289,27.0888,-82.1392
+34291,27.1165,-82.2152
+34292,27.1039,-82.3355
+34293,27.0374,-82.3585
+34420,29.0531,-82.0387
+34428,28.9568,-82.6476
+34429,28.8673,-82.6620
+34431,29.1402,-82.5306
+34432,29.0649,-82.3746
+34433,28.9925,-82.5289
+34434,28.9950,-82.4380
+34436,28.7337,-82.2939
+34442,28.9209,-82.3823
+34445,28.9714,-82.4241
+34446,28.7490,-82.5235
+34448,28.7670,-82.6252
+34449,29.1070,-82.6905
+34450,28.8300,-82.2660
+34452,28.7612,-82.3757
+34453,28.8958,-82.3295
+34461,28.8138,-82.4831
+34465,28.9287,-82.4909
+34470,29.2010,-82.0821
+34471,29.1618,-82.1268
+34472,29.1095,-81.9974
+34473,28.9976,-82.1878
+34474,29.1545,-82.2115
+34475,29.2527,-82.1620
+34476,29.0886,-82.2016
+34479,29.2557,-82.1091
+34480,29.0942,-82.0942
+34481,29.1255,-82.3099
+34482,29.2444,-82.2750
+34484,28.9450,-82.0975
+34487,28.7815,-82.6127
+34488,29.2193,-81.9410
+34491,28.9985,-82.0397
+34498,29.0316,-82.7361
+34601,28.5885,-82.3713
+34602,28.5025,-82.2824
+34604,28.4779,-82.4327
+34606,28.4685,-82.5957
+34607,28.5950,-82.6159
+34608,28.4828,-82.5529
+34609,28.4795,-82.5079
+34610,28.3699,-82.5107
+34613,28.5589,-82.5423
+34614,28.6465,-82.5136
+34637,28.3077,-82.4648
+34638,28.2742,-82.5295
+34639,28.2654,-82.4232
+34652,28.2406,-82.7444
+34653,28.2441,-82.6885
+34654,28.2979,-82.6293
+34655,28.2114,-82.6553
+34661,28.6208,-82.2611
+34667,28.3859,-82.6656
+34668,28.2933,-82.7106
+34669,28.3560,-82.6102
+34677,28.0445,-82.6743
+34679,28.4228,-82.6742
+34681,28.0907,-82.7779
+34683,28.0877,-82.7611
+34684,28.0807,-82.7268
+34685,28.0933,-82.6894
+34688,28.1432,-82.6839
+34689,28.1495,-82.7618
+34690,28.1937,-82.7257
+34691,28.1926,-82.7704
+34695,28.0082,-82.6884
+34698,28.0363,-82.7914
+34705,28.6938,-81.7108
+34711,28.5208,-81.7539
+34714,28.3995,-81.8129
+34715,28.6310,-81.7261
+34729,28.6174,-81.7008
+34731,28.8676,-81.8965
+34734,28.5370,-81.5155
+34736,28.5995,-81.8622
+34737,28.6971,-81.8034
+34739,27.9330,-81.0988
+34741,28.3063,-81.4269
+34743,28.3293,-81.3551
+34744,28.2958,-81.3486
+34746,28.2375,-81.4419
+34747,28.3090,-81.5913
+34748,28.7730,-81.8826
+34753,28.6044,-81.9056
+34756,28.5867,-81.6795
+34758,28.1921,-81.4854
+34759,28.1039,-81.4194
+34760,28.5571,-81.6292
+34761,28.5786,-81.5341
+34762,28.7572,-81.9205
+34769,28.2437,-81.2942
+34771,28.2683,-81.1284
+34772,28.1605,-81.2736
+34773,28.1607,-80.9981
+34785,28.8463,-82.0616
+34786,28.4828,-81.5387
+34787,28.4852,-81.6194
+34788,28.8803,-81.7900
+34797,28.7305,-81.8266
+34945,27.4579,-80.5517
+34946,27.5033,-80.3605
+34947,27.4538,-80.3737
+34949,27.4673,-80.2998
+34950,27.4438,-80.3310
+34951,27.5321,-80.4190
+34952,27.2972,-80.2980
+34953,27.2497,-80.3832
+34956,27.0983,-80.4996
+34957,27.2746,-80.2430
+34972,27.4780,-80.9087
+34974,27.1488,-80.9141
+34981,27.3933,-80.3721
+34982,27.3753,-80.3115
+34983,27.3240,-80.3526
+34984,27.2490,-80.3306
+34986,27.3277,-80.4019
+34987,27.2903,-80.4971
+34990,27.1479,-80.3623
+34994,27.1995,-80.2560
+34996,27.1882,-80.1878
+34997,27.0505,-80.2712
+35004,33.6034,-86.4938
+35005,33.6059,-86.9937
+35006,33.4228,-87.2098
+35007,33.2214,-86.7877
+35010,32.9167,-85.9406
+35013,33.9022,-86.5178
+35014,33.3559,-86.2617
+35016,34.3249,-86.5043
+35019,34.3021,-86.6341
+35020,33.4048,-86.9540
+35022,33.3318,-86.9591
+35023,33.4678,-87.0882
+35031,34.0975,-86.5550
+35032,33.2631,-86.3341
+35033,33.9217,-87.0106
+35034,32.8980,-87.2815
+35035,33.0437,-86.9684
+35036,33.6405,-86.9164
+35040,33.1030,-86.7289
+35042,32.9310,-87.1279
+35043,33.3106,-86.6629
+35044,33.2672,-86.3665
+35045,32.8116,-86.6732
+35046,32.9213,-86.5305
+35049,33.9619,-86.6121
+35051,33.2194,-86.6008
+35052,33.5907,-86.4099
+35053,34.0655,-87.0664
+35054,33.5020,-86.3379
+35055,34.1512,-86.7587
+35057,34.1803,-86.9343
+35058,34.2368,-86.7302
+35060,33.5576,-86.9282
+35061,33.4753,-86.9468
+35062,33.7190,-87.0177
+35063,33.8182,-87.0206
+35064,33.4748,-86.9196
+35068,33.6093,-86.8317
+35070,34.0137,-86.7427
+35071,33.6951,-86.8490
+35072,33.0935,-86.0669
+35073,33.6513,-86.9870
+35074,33.2224,-87.1243
+35077,34.0212,-86.8327
+35078,33.3244,-86.4450
+35079,33.9385,-86.7570
+35080,33.2493,-86.9148
+35082,33.1580,-86.1539
+35083,34.2038,-86.5953
+35085,32.9765,-86.7392
+35087,34.3065,-86.5843
+35089,32.9458,-86.0818
+35091,33.7835,-86.7895
+35094,33.5135,-86.5712
+35096,33.6203,-86.1077
+35097,33.8922,-86.6271
+35098,34.1394,-87.0388
+35111,33.2809,-87.0898
+35112,33.6941,-86.4747
+35114,33.2225,-86.8666
+35115,33.1427,-86.8916
+35116,33.7313,-86.7700
+35117,33.6678,-86.8926
+35118,33.5273,-87.0346
+35119,33.6380,-86.7786
+35120,33.6686,-86.4217
+35121,33.9411,-86.4506
+35124,33.3218,-86.7422
+35125,33.6334,-86.2887
+35126,33.7309,-86.6550
+35127,33.4912,-86.9758
+35128,33.5524,-86.3378
+35130,33.6332,-87.1367
+35131,33.7143,-86.1925
+35133,33.8289,-86.5955
+35135,33.6281,-86.1957
+35136,32.8791,-86.2870
+35143,33.0902,-86.5561
+35146,33.7951,-86.4533
+35147,33.4159,-86.5310
+35148,33.7561,-87.0456
+35149,33.2396,-86.2099
+35150,33.1902,-86.2446
+35151,33.1198,-86.3390
+35160,33.3634,-86.1107
+35171,32.8714,-86.7463
+35172,33.8452,-86.6953
+35173,33.6552,-86.5632
+35175,34.4357,-86.5114
+35176,33.4818,-86.5024
+35178,33.4159,-86.4118
+35179,34.2733,-86.9690
+35180,33.8327,-86.8488
+35181,33.6264,-86.8800
+35183,33.0064,-86.3576
+35184,33.1143,-87.1367
+35185,33.3490,-86.5388
+35186,33.2567,-86.5103
+35188,33.1701,-87.1729
+35203,33.5184,-86.8101
+35204,33.5220,-86.8407
+35205,33.4951,-86.8082
+35206,33.5703,-86.7131
+35207,33.5677,-86.8250
+35208,33.4972,-86.8791
+35209,33.4653,-86.8110
+35210,33.5418,-86.6690
+35211,33.4565,-86.8685
+35212,33.5477,-86.7527
+35213,33.5067,-86.7443
+35214,33.5709,-86.8923
+35215,33.6499,-86.7038
+35216,33.4192,-86.7894
+35217,33.6067,-86.7630
+35218,33.5077,-86.8939
+35221,33.4497,-86.8990
+35222,33.5237,-86.7701
+35223,33.4881,-86.7348
+35224,33.5277,-86.9452
+35226,33.3988,-86.8418
+35228,33.4561,-86.9217
+35229,33.4644,-86.7940
+35233,33.5092,-86.8014
+35234,33.5400,-86.8038
+35235,33.6153,-86.6454
+35242,33.4246,-86.6709
+35243,33.4410,-86.7415
+35244,33.3529,-86.8253
+35249,33.5066,-86.8032
+35254,33.5137,-86.8529
+35401,33.1791,-87.6153
+35404,33.2152,-87.4834
+35405,33.1202,-87.5399
+35406,33.3388,-87.4676
+35441,32.8572,-87.7313
+35442,33.0536,-88.1861
+35443,32.7686,-88.0115
+35444,33.3287,-87.2929
+35446,33.2092,-87.7497
+35447,33.2779,-88.1680
+35452,33.2807,-87.6890
+35453,33.1617,-87.3736
+35456,33.0637,-87.4147
+35457,33.3041,-87.7731
+35458,33.4024,-87.8096
+35459,32.7916,-88.2759
+35460,32.7219,-88.1958
+35461,33.4174,-88.2136
+35462,32.9318,-87.9385
+35463,33.0541,-87.6821
+35464,32.7847,-88.1448
+35466,33.2485,-87.9195
+35469,33.0041,-87.7987
+35470,32.5618,-88.0666
+35473,33.2693,-87.5855
+35474,32.9406,-87.5912
+35475,33.4388,-87.5618
+35476,33.2378,-87.5798
+35477,32.9561,-88.2410
+35480,33.0979,-87.7991
+35481,33.4047,-88.0466
+35487,33.2138,-87.5476
+35490,33.2184,-87.2382
+35491,32.9366,-88.0978
+35501,33.8212,-87.2966
+35503,33.9367,-87.3053
+35504,33.8941,-87.1708
+35540,34.2186,-87.1928
+35541,34.0813,-87.1743
+35542,33.7037,-87.6811
+35543,34.2112,-87.7584
+35544,33.9600,-88.0171
+35545,33.6421,-87.9314
+35546,33.6050,-87.5454
+35548,34.0564,-87.7505
+35549,33.8229,-87.5630
+35550,33.7454,-87.1605
+35552,34.0731,-88.1427
+35553,34.1268,-87.3831
+35554,33.8857,-87.6717
+35555,33.6709,-87.8226
+35559,33.9116,-87.7354
+35563,33.9965,-87.9068
+35564,34.2588,-87.8453
+35565,34.2370,-87.5634
+35570,34.1638,-87.9932
+35571,34.3687,-87.9441
+35572,34.2013,-87.2826
+35573,33.9013,-87.5500
+35574,33.5554,-87.9690
+35575,34.0362,-87.5882
+35576,33.5884,-88.1430
+35577,34.0917,-87.5993
+35578,33.9805,-87.4664
+35579,33.6251,-87.3310
+35580,33.7008,-87.2708
+35581,34.3599,-87.7131
+35582,34.4857,-88.0950
+35584,33.8193,-87.0879
+35585,34.4194,-87.8289
+35586,33.8745,-88.1404
+35587,33.7955,-87.4569
+35592,33.7427,-88.0974
+35593,34.3537,-88.0902
+35594,33.9201,-87.7787
+35601,34.6057,-87.0083
+35603,34.5355,-86.9712
+35610,34.9553,-87.2320
+35611,34.7738,-87.0841
+35613,34.8202,-86.8822
+35614,34.8586,-87.0802
+35615,34.6623,-86.8760
+35616,34.7395,-88.0194
+35618,34.6414,-87.3050
+35619,34.3827,-87.1521
+35620,34.9308,-87.0202
+35621,34.3350,-86.7271
+35622,34.3466,-86.8990
+35630,34.8252,-87.6598
+35632,34.8077,-87.6806
+35633,34.8756,-87.7964
+35634,34.9237,-87.6081
+35640,34.4407,-86.9437
+35643,34.6726,-87.2019
+35645,34.8941,-87.4893
+35646,34.6805,-87.5376
+35647,34.9677,-87.1170
+35648,34.9592,-87.3794
+35649,34.6252,-86.8716
+35650,34.4472,-87.3086
+35651,34.4609,-87.4802
+35652,34.8467,-87.3102
+35653,34.5334,-87.8637
+35654,34.4954,-87.6205
+35660,34.7582,-87.6967
+35661,34.7685,-87.5628
+35670,34.4638,-86.7294
+35671,34.6690,-86.9500
+35672,34.6485,-87.4065
+35673,34.5859,-87.1385
+35674,34.6702,-87.7585
+35677,34.9526,-88.0247
+35739,34.9686,-86.7910
+35740,34.9653,-85.7774
+35741,34.7296,-86.4633
+35744,34.6127,-85.9045
+35745,34.9434,-86.1802
+35746,34.8286,-86.0060
+35747,34.4949,-86.2990
+35748,34.7295,-86.3950
+35749,34.8222,-86.7579
+35750,34.9562,-86.5895
+35751,34.8112,-86.2765
+35752,34.7641,-85.9801
+35754,34.5146,-86.6157
+35755,34.5096,-86.1175
+35756,34.6437,-86.8181
+35757,34.7845,-86.7443
+35758,34.7114,-86.7465
+35759,34.8684,-86.5461
+35760,34.5439,-86.3839
+35761,34.9118,-86.4048
+35763,34.6117,-86.4730
+35764,34.7332,-86.3127
+35765,34.6956,-85.8200
+35766,34.8675,-86.2999
+35768,34.7839,-86.1022
+35769,34.5976,-86.1051
+35771,34.5386,-86.0054
+35772,34.9370,-85.9484
+35773,34.8911,-86.7079
+35774,34.7652,-86.2265
+35775,34.5429,-86.7060
+35776,34.6612,-86.2523
+35801,34.7246,-86.5655
+35802,34.6765,-86.5546
+35803,34.5635,-86.5194
+35805,34.7071,-86.6217
+35806,34.7664,-86.6836
+35808,34.6329,-86.6558
+35810,34.8030,-86.6035
+35811,34.7988,-86.5039
+35816,34.7383,-86.6318
+35824,34.6449,-86.7521
+35896,34.7530,-86.6516
+35901,34.0476,-85.9333
+35903,34.0257,-85.8451
+35904,34.0706,-85.9901
+35905,33.9614,-85.9224
+35906,33.9271,-86.0951
+35907,33.8908,-86.0180
+35950,34.2498,-86.2611
+35951,34.3464,-86.1462
+35952,34.0524,-86.3107
+35953,33.8094,-86.1730
+35954,34.0898,-86.0574
+35956,34.1461,-86.1467
+35957,34.1962,-86.1969
+35958,34.9160,-85.6460
+35959,34.2452,-85.6055
+35960,34.1286,-85.5661
+35961,34.3043,-85.8460
+35962,34.2993,-86.0366
+35963,34.3598,-85.9272
+35966,34.7950,-85.7033
+35967,34.3938,-85.6980
+35968,34.4760,-85.7901
+35971,34.4560,-85.9466
+35972,33.9913,-86.2242
+35973,34.3440,-85.5515
+35974,34.3628,-86.0103
+35975,34.4404,-86.0724
+35976,34.3413,-86.3222
+35978,34.6428,-85.7290
+35979,34.8300,-85.6126
+35980,34.1721,-86.3896
+35981,34.7222,-85.6407
+35983,34.1728,-85.7662
+35984,34.5186,-85.5578
+35986,34.5048,-85.8403
+35987,33.9134,-86.2422
+35988,34.5579,-85.7969
+35989,34.5985,-85.6351
+35990,34.0667,-86.3052
+36003,32.4443,-86.7300
+36005,31.8876,-85.7360
+36006,32.6415,-86.7277
+36008,32.4961,-86.5654
+36009,31.5978,-86.3288
+36010,31.6599,-85.8129
+36013,32.2968,-85.9795
+36016,31.8502,-85.4147
+36017,31.6794,-85.5577
+36020,32.4979,-86.3164
+36022,32.6234,-86.4056
+36024,32.6635,-86.0364
+36025,32.5454,-86.3409
+36026,32.7755,-86.1310
+36027,31.9778,-85.1839
+36028,31.4847,-86.3848
+36029,32.1819,-85.9332
+36030,31.8488,-86.8616
+36031,32.2477,-85.7695
+36032,31.9983,-86.5711
+36033,31.6717,-86.7706
+36034,31.6210,-86.1112
+36035,31.7887,-86.1262
+36036,31.9739,-86.1617
+36037,31.7684,-86.6178
+36038,31.4079,-86.4869
+36039,32.2857,-85.8213
+36040,32.1840,-86.6700
+36041,31.9314,-86.3280
+36042,31.8686,-86.4600
+36043,32.1851,-86.4338
+36046,31.9465,-86.3837
+36047,32.0867,-86.5197
+36048,31.8042,-85.5920
+36049,31.7681,-86.2773
+36051,32.6867,-86.4788
+36052,32.1827,-86.0428
+36053,32.0425,-85.4484
+36054,32.4664,-86.3595
+36057,32.3747,-86.0846
+36064,32.3042,-86.0899
+36066,32.4797,-86.4240
+36067,32.5165,-86.5615
+36069,32.0980,-86.1655
+36071,31.7067,-86.3978
+36075,32.3784,-85.9237
+36078,32.5470,-85.9427
+36079,31.7667,-85.9980
+36080,32.7118,-86.2840
+36081,31.9112,-85.8981
+36082,31.8027,-85.9551
+36083,32.3867,-85.6844
+36088,32.4197,-85.7171
+36089,32.1567,-85.7015
+36091,32.7495,-86.5193
+36092,32.6145,-86.1972
+36093,32.4946,-86.1336
+36101,32.3818,-86.2976
+36104,32.4019,-86.3185
+36105,32.2148,-86.2773
+36106,32.3534,-86.2570
+36107,32.3843,-86.2795
+36108,32.3391,-86.4011
+36109,32.3858,-86.2379
+36110,32.4466,-86.2558
+36111,32.3366,-86.2713
+36112,32.3809,-86.3637
+36113,32.3802,-86.3420
+36114,32.4048,-86.2457
+36115,32.4069,-86.2467
+36116,32.2716,-86.2193
+36117,32.3779,-86.1489
+36130,32.3775,-86.2994
+36201,33.6475,-85.8841
+36203,33.5830,-85.8345
+36205,33.6996,-85.7874
+36206,33.7328,-85.8180
+36207,33.6841,-85.7052
+36250,33.7647,-85.8939
+36251,33.2265,-85.8567
+36255,33.1825,-85.7373
+36256,33.0463,-85.7048
+36258,33.4777,-85.7173
+36260,33.5879,-86.0011
+36262,33.7934,-85.4683
+36263,33.4672,-85.3602
+36264,33.5968,-85.5515
+36265,33.8477,-85.7849
+36266,33.3539,-85.7493
+36267,33.1951,-85.9465
+36268,33.4948,-85.9295
+36269,33.7398,-85.3839
+36271,33.7812,-86.0187
+36272,33.9472,-85.6011
+36273,33.5450,-85.3780
+36274,33.1793,-85.3603
+36276,33.1258,-85.5742
+36277,33.7613,-85.8152
+36278,33.3110,-85.5268
+36279,33.8723,-85.8897
+36280,33.3864,-85.3925
+36301,31.1405,-85.4091
+36303,31.2647,-85.3888
+36305,31.2046,-85.4960
+36310,31.5951,-85.2088
+36311,31.5995,-85.6868
+36312,31.1626,-85.2352
+36313,31.1802,-85.7937
+36314,31.0285,-85.7767
+36316,31.1757,-85.8640
+36317,31.6346,-85.3895
+36318,31.1695,-85.9505
+36319,31.3319,-85.1489
+36320,31.0499,-85.3192
+36321,31.2109,-85.2992
+36322,31.2576,-85.7358
+36323,31.4281,-86.0725
+36330,31.3079,-85.8580
+36340,31.0563,-85.8941
+36343,31.0607,-85.1208
+36344,31.1010,-85.7103
+36345,31.3663,-85.3104
+36346,31.5572,-85.9392
+36350,31.3502,-85.4955
+36351,31.4255,-85.9066
+36352,31.2650,-85.6097
+36353,31.4785,-85.3486
+36360,31.4675,-85.6170
+36362,31.3509,-85.6798
+36370,31.1353,-85.1617
+36371,31.3300,-85.5463
+36373,31.5187,-85.0891
+36374,31.5723,-85.4896
+36375,31.0785,-85.5404
+36376,31.2507,-85.2698
+36401,31.4690,-86.9504
+36420,31.1771,-86.5515
+36421,31.3287,-86.5083
+36425,31.7647,-87.1952
+36426,31.1452,-87.0755
+36432,31.3011,-87.0373
+36435,31.8701,-87.4516
+36436,31.7663,-87.6614
+36439,31.4193,-87.3452
+36441,31.0394,-87.2550
+36442,31.0845,-86.3570
+36444,31.6629,-87.4639
+36445,31.4446,-87.4534
+36446,31.7915,-87.7244
+36451,31.6855,-87.8186
+36453,31.1988,-86.1330
+36454,31.3529,-87.2030
+36455,31.0126,-86.3538
+36456,31.5707,-86.8299
+36460,31.5252,-87.3081
+36467,31.2780,-86.2555
+36470,31.5152,-87.5659
+36471,31.6319,-87.2318
+36473,31.3204,-87.2258
+36474,31.4297,-86.6260
+36475,31.3891,-87.2200
+36476,31.3546,-86.5484
+36477,31.0870,-86.0672
+36480,31.3420,-87.6384
+36481,31.7715,-87.3826
+36482,31.6393,-87.6369
+36483,31.0478,-86.6742
+36502,31.1477,-87.4948
+36503,31.1568,-87.4654
+36505,30.9512,-88.0135
+36507,30.8586,-87.7420
+36509,30.4063,-88.2488
+36511,30.3052,-87.7426
+36512,30.9988,-88.0184
+36513,31.1550,-87.9917
+36518,31.4708,-88.2667
+36521,30.9678,-88.1868
+36522,31.0840,-88.2750
+36523,30.3708,-88.1908
+36524,31.8026,-88.0109
+36525,30.8913,-88.0210
+36526,30.6099,-87.8638
+36527,30.7021,-87.8819
+36528,30.2404,-88.2383
+36529,31.2774,-88.2788
+36530,30.4082,-87.5556
+36532,30.4807,-87.8613
+36535,30.3840,-87.7274
+36538,31.6571,-88.1433
+36539,31.3486,-88.3941
+36540,31.4489,-87.6758
+36541,30.4783,-88.3460
+36542,30.2696,-87.7506
+36543,31.2215,-87.4662
+36544,30.4749,-88.2396
+36545,31.4885,-87.8717
+36547,30.2522,-87.6545
+36548,31.4804,-87.9710
+36549,30.4112,-87.4511
+36550,31.2494,-87.7304
+36551,30.6367,-87.7470
+36553,31.2339,-88.0916
+36555,30.3997,-87.7730
+36556,31.2052,-87.9638
+36558,31.6212,-88.3280
+36559,30.5690,-87.9039
+36560,31.0852,-88.0490
+36561,30.2876,-87.5713
+36562,31.0371,-87.6704
+36564,30.4698,-87.9145
+36567,30.6235,-87.5570
+36568,30.5118,-88.2724
+36569,31.5477,-88.0880
+36571,30.8546,-88.1098
+36572,30.8560,-88.0592
+36574,30.5010,-87.4784
+36575,30.7677,-88.2727
+36576,30.5229,-87.7638
+36578,30.7374,-87.7719
+36579,31.1105,-87.7869
+36580,30.4789,-87.7034
+36581,31.3546,-88.0191
+36582,30.5179,-88.1727
+36583,31.3673,-88.1950
+36584,31.1991,-88.3887
+36585,31.4235,-88.0845
+36587,30.8365,-88.3499
+36602,30.6975,-88.0403
+36603,30.6842,-88.0528
+36604,30.6823,-88.0684
+36605,30.6024,-88.0913
+36606,30.6688,-88.1059
+36607,30.6991,-88.1055
+36608,30.6815,-88.3002
+36609,30.6602,-88.1635
+36610,30.7371,-88.0732
+36611,30.7700,-88.0767
+36612,30.7529,-88.1131
+36613,30.8098,-88.1875
+36615,30.6302,-88.0699
+36617,30.7153,-88.0948
+36618,30.7369,-88.1698
+36619,30.5961,-88.1966
+36652,30.6959,-88.0803
+36663,30.7369,-88.1088
+36688,30.6955,-88.1879
+36693,30.6258,-88.1497
+36695,30.6313,-88.2806
+36701,32.4963,-87.0574
+36703,32.4273,-86.9129
+36720,32.1650,-87.3470
+36722,32.0824,-87.5715
+36723,32.0684,-87.2943
+36726,31.9605,-87.2995
+36727,31.9110,-88.0339
+36728,32.1690,-87.4834
+36732,32.4175,-87.8922
+36736,32.0847,-87.7612
+36738,32.4210,-87.6250
+36740,32.6268,-87.8366
+36741,32.0307,-87.0125
+36742,32.4562,-87.7522
+36744,32.6847,-87.5988
+36748,32.2673,-87.7809
+36749,32.5510,-86.8498
+36750,32.7896,-86.8494
+36751,31.8039,-87.5769
+36752,32.2987,-86.6320
+36753,31.8370,-87.1076
+36754,32.1573,-87.7024
+36756,32.6923,-87.2995
+36758,32.6389,-86.8899
+36759,32.4045,-87.2900
+36761,32.0741,-86.9411
+36763,32.2768,-87.9807
+36764,32.1152,-87.9853
+36765,32.5882,-87.5222
+36766,31.9550,-87.0867
+36767,32.2454,-87.2045
+36768,31.8854,-87.0129
+36769,31.9928,-87.5515
+36773,32.2911,-87.3852
+36775,32.1927,-86.9548
+36776,32.7356,-87.7414
+36782,32.1030,-87.9139
+36783,32.2170,-87.6117
+36784,31.9198,-87.8341
+36785,32.2776,-86.8235
+36786,32.4310,-87.4822
+36790,32.7364,-86.9085
+36792,32.9180,-86.9156
+36793,32.8229,-87.0064
+36801,32.7025,-85.3855
+36804,32.5340,-85.3475
+36830,32.5349,-85.4938
+36832,32.5829,-85.5859
+36849,32.5991,-85.4893
+36850,32.7869,-85.6558
+36851,32.1504,-85.0809
+36852,32.7566,-85.2789
+36853,32.8048,-85.7681
+36854,32.7516,-85.1895
+36855,33.0289,-85.3082
+36856,32.2610,-84.9954
+36858,32.3232,-85.3078
+36860,32.2745,-85.4244
+36861,32.8909,-85.8492
+36862,32.9040,-85.4552
+36863,32.8895,-85.2638
+36865,32.6026,-85.5893
+36866,32.5653,-85.7121
+36867,32.4981,-85.0236
+36869,32.4197,-85.0646
+36870,32.4828,-85.1199
+36871,32.1582,-85.1567
+36874,32.5643,-85.1985
+36875,32.3186,-85.1672
+36877,32.5732,-85.1014
+36879,32.7313,-85.5444
+36901,32.4216,-88.1473
+36904,32.1007,-88.2608
+36907,32.4381,-88.3486
+36908,31.8728,-88.2371
+36910,32.2308,-88.1593
+36912,32.2423,-88.3057
+36913,31.9607,-88.4467
+36915,31.9590,-88.3602
+36916,32.2415,-88.0492
+36919,31.7691,-88.2829
+36921,31.9384,-88.1828
+36922,32.2975,-88.1493
+36925,32.4323,-88.1836
+37010,36.5718,-87.1087
+37012,36.0711,-86.0056
+37013,36.0518,-86.6304
+37014,35.8730,-86.6329
+37015,36.2975,-87.0917
+37016,35.9636,-86.1136
+37018,35.6314,-86.2110
+37019,35.3909,-86.7093
+37020,35.6344,-86.4071
+37022,36.5146,-86.3170
+37023,36.5925,-87.7827
+37025,35.9527,-87.3085
+37026,35.6958,-86.1075
+37027,35.9993,-86.7851
+37028,36.6280,-87.8523
+37029,36.0431,-87.2688
+37030,36.2717,-85.9424
+37031,36.3775,-86.3012
+37032,36.5252,-87.0165
+37033,35.7446,-87.5578
+37034,35.6371,-86.6948
+37035,36.3811,-87.1340
+37036,36.2350,-87.2613
+37037,35.7031,-86.3512
+37040,36.5223,-87.3279
+37042,36.5693,-87.4118
+37043,36.4906,-87.2408
+37046,35.7819,-86.7007
+37047,35.3129,-86.8319
+37048,36.4904,-86.5911
+37049,36.5620,-86.6821
+37050,36.3742,-87.6308
+37051,36.3043,-87.4140
+37052,36.3726,-87.4074
+37055,36.0772,-87.4428
+37057,36.4181,-86.0299
+37058,36.4440,-87.8767
+37059,35.9850,-85.9031
+37060,35.7492,-86.6343
+37061,36.2765,-87.6630
+37062,35.9903,-87.1356
+37064,35.8849,-86.9541
+37066,36.3988,-86.4555
+37067,35.9122,-86.7688
+37069,35.9843,-86.9023
+37072,36.3521,-86.7467
+37073,36.4326,-86.8172
+37074,36.4260,-86.1529
+37075,36.3400,-86.6021
+37076,36.1452,-86.5766
+37078,35.9037,-87.7745
+37079,36.4648,-87.6481
+37080,36.3328,-86.9169
+37082,36.0949,-87.1153
+37083,36.5378,-86.0010
+37085,35.9531,-86.2791
+37086,36.0222,-86.5594
+37087,36.2639,-86.2692
+37090,36.1154,-86.2976
+37091,35.4892,-86.7675
+37095,35.9659,-85.9611
+37096,35.6129,-87.8710
+37097,35.7799,-87.8234
+37098,35.8715,-87.3078
+37101,36.0789,-87.6268
+37110,35.6451,-85.7413
+37115,36.2553,-86.6987
+37118,35.9257,-86.1890
+37122,36.1783,-86.4866
+37127,35.7795,-86.3272
+37128,35.8032,-86.4746
+37129,35.9298,-86.4508
+37130,35.8817,-86.3187
+37132,35.8487,-86.3628
+37134,35.9927,-87.9481
+37135,35.9158,-86.6766
+37137,35.8842,-87.5053
+37138,36.2377,-86.6070
+37140,35.8634,-87.6524
+37141,36.6145,-86.6989
+37142,36.4110,-87.5097
+37143,36.1225,-87.0271
+37144,35.3051,-86.6559
+37145,36.3809,-85.9170
+37146,36.4046,-87.0324
+37148,36.5767,-86.4978
+37149,35.8087,-86.1932
+37150,36.5415,-85.8104
+37151,36.3092,-86.0430
+37153,35.7645,-86.5553
+37160,35.4557,-86.4848
+37165,36.2911,-87.4754
+37166,35.9180,-85.7869
+37167,35.9628,-86.5297
+37171,36.3694,-87.3109
+37172,36.5484,-86.8495
+37174,35.7195,-86.8981
+37175,36.3243,-87.8929
+37178,36.3238,-87.7904
+37179,35.8126,-86.9101
+37180,35.6215,-86.5754
+37181,36.2444,-87.5058
+37183,35.5053,-86.2874
+37184,36.0868,-86.1452
+37185,36.0629,-87.8650
+37186,36.5967,-86.2217
+37187,36.1441,-87.1979
+37188,36.4805,-86.6810
+37189,36.2786,-86.8315
+37190,35.8231,-86.0422
+37191,36.5058,-87.5301
+37201,36.1670,-86.7783
+37203,36.1498,-86.7891
+37204,36.1067,-86.7746
+37205,36.1132,-86.8704
+37206,36.1793,-86.7311
+37207,36.2325,-86.7773
+37208,36.1775,-86.8095
+37209,36.1507,-86.9598
+37210,36.1492,-86.7330
+37211,36.0670,-86.7234
+37212,36.1338,-86.8017
+37213,36.1672,-86.7682
+37214,36.1690,-86.6626
+37215,36.0820,-86.8349
+37216,36.2150,-86.7269
+37217,36.1087,-86.6567
+37218,36.1714,-86.9182
+37219,36.1663,-86.7830
+37220,36.0684,-86.7931
+37221,36.0592,-86.9723
+37228,36.1969,-86.8034
+37232,36.1411,-86.8029
+37238,36.1657,-86.7795
+37301,35.4172,-85.7952
+37302,35.0157,-85.0217
+37303,35.4426,-84.6397
+37305,35.4580,-85.7020
+37306,35.0968,-86.1918
+37307,35.1650,-84.6263
+37308,35.3426,-84.9938
+37309,35.3018,-84.7415
+37310,35.2525,-84.7101
+37311,35.1040,-84.9208
+37312,35.2260,-84.8745
+37313,35.3764,-85.6955
+37315,35.0472,-85.0516
+37316,35.0017,-84.7297
+37317,35.0310,-84.4431
+37318,35.1787,-85.9800
+37321,35.5021,-85.0080
+37322,35.5020,-84.8251
+37323,35.0962,-84.8165
+37324,35.2398,-85.9872
+37325,35.2531,-84.6049
+37326,35.0403,-84.3833
+37327,35.4163,-85.3944
+37328,35.0369,-86.3574
+37329,35.3920,-84.4601
+37330,35.2796,-86.1306
+37331,35.3162,-84.5358
+37332,35.6006,-84.9495
+37333,35.1484,-84.3598
+37334,35.1654,-86.5796
+37335,35.0689,-86.4040
+37336,35.3088,-84.9315
+37337,35.7871,-84.8507
+37338,35.4298,-85.2095
+37339,35.3739,-85.6322
+37340,35.0220,-85.5199
+37341,35.2199,-85.0730
+37342,35.3835,-85.9469
+37343,35.1666,-85.2123
+37345,35.0168,-86.2030
+37347,35.0635,-85.6134
+37348,35.1218,-86.4308
+37350,34.9945,-85.3516
+37351,35.1003,-85.2604
+37352,35.2775,-86.3530
+37353,35.1229,-84.9855
+37354,35.5063,-84.3474
+37355,35.5093,-86.0793
+37356,35.2289,-85.8237
+37357,35.5939,-85.9183
+37359,35.2043,-86.4039
+37360,35.4376,-86.2543
+37361,35.0879,-84.6567
+37362,35.0313,-84.6809
+37363,35.1210,-85.0556
+37365,35.3687,-85.5163
+37366,35.3389,-85.8300
+37367,35.6195,-85.2263
+37369,35.2056,-84.4644
+37370,35.3590,-84.7006
+37373,35.4075,-85.0928
+37374,35.1650,-85.6618
+37375,35.1505,-85.8904
+37376,35.0474,-85.9584
+37377,35.2121,-85.3623
+37379,35.2846,-85.1949
+37380,35.0709,-85.7546
+37381,35.6870,-84.8774
+37383,35.2114,-85.9132
+37385,35.3368,-84.2283
+37387,35.2743,-85.7206
+37388,35.3515,-86.1982
+37391,35.0932,-84.3539
+37394,35.5392,-85.8606
+37396,35.0019,-85.5035
+37397,35.2076,-85.5179
+37398,35.1812,-86.1384
+37402,35.0468,-85.3163
+37403,35.0483,-85.2944
+37404,35.0282,-85.2733
+37405,35.1299,-85.3828
+37406,35.0731,-85.2456
+37407,35.0019,-85.2897
+37408,35.0308,-85.3116
+37409,35.0103,-85.3359
+37410,35.0019,-85.3142
+37411,35.0266,-85.2302
+37412,34.9974,-85.2272
+37415,35.1247,-85.2812
+37416,35.0989,-85.1570
+37419,35.0516,-85.4211
+37421,35.0275,-85.1536
+37450,35.0490,-85.3122
+37601,36.3383,-82.3181
+37604,36.2992,-82.3830
+37614,36.3010,-82.3674
+37615,36.3982,-82.4524
+37616,36.2225,-82.7516
+37617,36.5245,-82.3657
+37618,36.4603,-82.2087
+37620,36.5496,-82.0940
+37640,36.3268,-81.9747
+37641,36.1999,-82.6635
+37642,36.5313,-82.7269
+37643,36.3705,-82.1223
+37645,36.5628,-82.6625
+37650,36.0878,-82.4686
+37656,36.4000,-82.6308
+37657,36.0172,-82.5605
+37658,36.2604,-82.1516
+37659,36.2798,-82.5061
+37660,36.5269,-82.5720
+37663,36.4630,-82.4887
+37664,36.5081,-82.5102
+37665,36.5795,-82.5731
+37680,36.5746,-81.7255
+37681,36.2580,-82.6206
+37682,36.3003,-82.2917
+37683,36.4530,-81.8224
+37686,36.4402,-82.3488
+37687,36.1787,-82.0970
+37688,36.5454,-81.8829
+37690,36.2512,-82.5590
+37691,36.3679,-81.7552
+37692,36.1846,-82.3041
+37694,36.3838,-82.2787
+37701,35.7917,-83.9872
+37705,36.2269,-84.0097
+37708,36.3306,-83.3171
+37709,36.1665,-83.6650
+37710,36.1580,-84.3177
+37711,36.2814,-83.0454
+37713,36.0815,-83.1343
+37714,36.2309,-84.2542
+37715,36.5532,-83.9589
+37716,36.1009,-84.1687
+37719,36.0219,-84.4281
+37721,36.1306,-83.8149
+37722,35.8152,-83.2011
+37723,35.9704,-84.8137
+37724,36.5485,-83.7103
+37725,35.9976,-83.3933
+37726,36.1881,-84.8103
+37727,35.8851,-83.0230
+37729,36.5141,-84.0328
+37730,36.5684,-83.9736
+37731,36.5487,-83.0091
+37732,36.3280,-84.6282
+37733,36.3567,-84.6950
+37737,35.7614,-84.1202
+37738,35.6713,-83.4765
+37742,35.6758,-84.1792
+37743,36.0683,-82.8557
+37745,36.2763,-82.8312
+37748,35.9454,-84.5164
+37752,36.5760,-83.5474
+37753,35.8228,-83.0980
+37754,36.1391,-84.0298
+37755,36.4287,-84.5305
+37756,36.3016,-84.4070
+37757,36.2614,-84.1058
+37760,36.1038,-83.4663
+37762,36.5764,-84.1192
+37763,35.8234,-84.4882
+37764,35.9703,-83.6166
+37765,36.5723,-83.0586
+37766,36.3984,-84.0730
+37769,36.2178,-84.1555
+37770,36.1524,-84.6418
+37771,35.8385,-84.3164
+37772,35.7934,-84.2121
+37774,35.7291,-84.3590
+37777,35.8226,-84.0524
+37779,36.2109,-83.7579
+37801,35.6717,-84.0805
+37803,35.6608,-83.9814
+37804,35.7923,-83.8931
+37806,36.0847,-83.7280
+37807,36.2597,-83.8260
+37809,36.1567,-83.0381
+37810,36.1777,-83.1020
+37811,36.3460,-83.2123
+37813,36.1751,-83.2570
+37814,36.2333,-83.3379
+37818,36.1856,-82.9730
+37819,36.5683,-84.2058
+37820,36.0852,-83.5661
+37821,35.9751,-83.1955
+37825,36.4159,-83.6791
+37826,35.5582,-84.5898
+37828,36.1978,-84.0689
+37829,36.0010,-84.6174
+37830,35.9665,-84.2905
+37840,36.0678,-84.3696
+37841,36.5087,-84.5438
+37843,36.0107,-83.0484
+37845,36.1037,-84.4502
+37846,35.6793,-84.4818
+37847,36.4316,-84.2734
+37848,36.2370,-83.6817
+37849,36.0540,-84.0485
+37851,36.5656,-83.7925
+37852,36.3241,-84.5795
+37853,35.8368,-83.9108
+37854,35.8861,-84.7091
+37857,36.4243,-82.9414
+37860,36.2402,-83.1800
+37861,36.2407,-83.5137
+37862,35.7364,-83.6724
+37863,35.7864,-83.5637
+37865,35.8512,-83.7349
+37866,36.3473,-83.8433
+37869,36.5148,-83.2450
+37870,36.4629,-83.8338
+37871,36.0470,-83.6813
+37872,36.2687,-84.6812
+37873,36.5263,-82.8430
+37874,35.5983,-84.4565
+37876,35.8651,-83.4790
+37877,36.1511,-83.4068
+37878,35.5966,-83.9813
+37879,36.4733,-83.5133
+37880,35.7009,-84.6601
+37881,36.3981,-83.3625
+37882,35.6044,-83.8194
+37885,35.4989,-84.1377
+37886,35.7415,-83.8075
+37887,36.0707,-84.6141
+37888,36.3299,-83.5791
+37890,36.0804,-83.2931
+37891,36.2921,-83.1381
+37892,36.5557,-84.3576
+37902,35.9620,-83.9196
+37909,35.9472,-84.0227
+37912,36.0085,-83.9847
+37914,35.9832,-83.7958
+37915,35.9708,-83.9004
+37916,35.9531,-83.9326
+37917,36.0016,-83.9126
+37918,36.0569,-83.9174
+37919,35.9147,-84.0002
+37920,35.9116,-83.8578
+37921,35.9810,-83.9969
+37922,35.8605,-84.1005
+37923,35.9275,-84.0807
+37924,36.0262,-83.8119
+37929,35.9624,-83.9160
+37931,35.9763,-84.1263
+37932,35.9173,-84.1988
+37934,35.8762,-84.1800
+37938,36.1250,-83.9382
+38001,35.8162,-89.1494
+38002,35.2920,-89.7023
+38004,35.4122,-89.7592
+38006,35.6937,-89.0897
+38007,36.1642,-89.4392
+38008,35.2434,-89.0004
+38011,35.4739,-89.7144
+38012,35.6100,-89.2706
+38015,35.5594,-89.8242
+38016,35.1809,-89.7598
+38017,35.0670,-89.6541
+38018,35.1386,-89.7664
+38019,35.5611,-89.6320
+38021,35.8704,-89.1841
+38023,35.4745,-89.9641
+38024,36.0369,-89.3848
+38028,35.1831,-89.6322
+38029,35.2421,-89.8235
+38030,35.9855,-89.6178
+38034,35.9141,-89.2321
+38036,35.3272,-89.6194
+38037,35.7974,-89.3989
+38039,35.0572,-89.1862
+38040,35.8791,-89.4829
+38041,35.6525,-89.6751
+38042,35.1530,-89.1367
+38044,35.2154,-88.8078
+38046,35.0460,-89.2441
+38047,36.0657,-89.5471
+38049,35.3903,-89.5382
+38050,35.8163,-89.2271
+38052,35.0903,-88.9178
+38053,35.3281,-89.9408
+38054,35.3358,-89.8744
+38057,35.0524,-89.3590
+38058,35.4579,-89.8162
+38059,36.1157,-89.2397
+38060,35.2093,-89.5055
+38061,35.0684,-88.7709
+38063,35.7464,-89.6294
+38066,35.0765,-89.5343
+38067,35.0816,-89.0418
+38068,35.2584,-89.3352
+38069,35.4556,-89.3699
+38070,35.9404,-89.2492
+38075,35.3823,-89.1681
+38076,35.1238,-89.4664
+38077,36.3285,-89.4744
+38079,36.4133,-89.4692
+38080,36.2071,-89.5192
+38103,35.1562,-90.0555
+38104,35.1326,-90.0043
+38105,35.1514,-90.0355
+38106,35.1006,-90.0374
+38107,35.1702,-90.0234
+38108,35.1769,-89.9640
+38109,35.0379,-90.1542
+38111,35.1105,-89.9435
+38112,35.1477,-89.9764
+38113,35.1038,-90.1408
+38114,35.0965,-89.9860
+38115,35.0532,-89.8626
+38116,35.0323,-90.0089
+38117,35.1150,-89.9055
+38118,35.0351,-89.9272
+38119,35.0795,-89.8454
+38120,35.1236,-89.8526
+38122,35.1571,-89.9224
+38125,35.0254,-89.7893
+38126,35.1270,-90.0437
+38127,35.2428,-90.0268
+38128,35.2246,-89.9267
+38131,35.0662,-89.9926
+38132,35.0706,-90.0004
+38133,35.2129,-89.7948
+38134,35.1745,-89.8608
+38135,35.2389,-89.8486
+38138,35.0848,-89.7993
+38139,35.0829,-89.7548
+38141,35.0160,-89.8548
+38152,35.1183,-89.9374
+38201,36.1226,-88.5302
+38220,35.9937,-88.6709
+38221,36.2449,-88.0422
+38222,36.4455,-88.1579
+38224,36.3870,-88.4922
+38225,36.3188,-88.6707
+38226,36.4743,-88.6570
+38229,36.2195,-88.6101
+38230,36.1552,-88.7747
+38231,36.2131,-88.4261
+38232,36.3590,-89.3242
+38233,36.2036,-89.0431
+38235,35.9911,-88.5813
+38236,36.1780,-88.2758
+38237,36.3626,-88.8335
+38240,36.2451,-89.3181
+38241,36.4278,-88.5918
+38242,36.3069,-88.3375
+38251,36.4599,-88.3559
+38253,36.3081,-89.0591
+38254,36.3744,-89.3466
+38255,36.2407,-88.8591
+38256,36.3175,-88.1247
+38257,36.4640,-88.8870
+38258,36.0179,-88.6126
+38259,36.2022,-89.1840
+38260,36.3753,-89.2127
+38261,36.4289,-89.1135
+38301,35.5882,-88.8534
+38305,35.7017,-88.7681
+38310,35.2617,-88.4086
+38311,35.4358,-88.0978
+38313,35.6103,-88.6198
+38315,35.2683,-88.6157
+38316,36.0699,-88.8169
+38317,36.0579,-88.2638
+38318,35.9474,-88.2420
+38320,36.0460,-88.1099
+38321,35.8393,-88.5293
+38326,35.0458,-88.2783
+38327,35.2240,-88.3021
+38328,35.6687,-88.2086
+38329,35.5376,-88.1078
+38330,36.0705,-89.0344
+38332,35.4198,-88.4294
+38333,36.1281,-87.9545
+38334,35.3498,-88.5864
+38337,35.7783,-89.0288
+38338,35.8746,-88.8488
+38339,35.0524,-88.5147
+38340,35.4048,-88.6794
+38341,35.8776,-88.0839
+38342,36.0717,-88.2889
+38343,35.8270,-88.9284
+38344,35.9783,-88.4346
+38345,35.5953,-88.5075
+38347,35.4763,-88.4985
+38348,35.8727,-88.6510
+38351,35.6619,-88.4048
+38352,35.5295,-88.5338
+38355,35.7840,-88.7751
+38356,35.4384,-88.8938
+38357,35.0515,-88.4139
+38358,35.9167,-88.7587
+38359,35.3722,-88.3511
+38361,35.3113,-88.2999
+38362,35.7269,-88.7852
+38363,35.6878,-88.1107
+38365,35.0577,-88.2376
+38366,35.4790,-88.7413
+38367,35.0530,-88.6232
+38368,35.4961,-88.3589
+38369,36.1319,-88.9427
+38370,35.3915,-88.2480
+38371,35.4240,-88.2953
+38372,35.1436,-88.1569
+38374,35.5238,-88.2388
+38375,35.1600,-88.5870
+38376,35.1307,-88.3474
+38379,35.1647,-88.4306
+38380,35.7796,-88.0392
+38381,35.3493,-88.9595
+38382,35.9684,-88.9845
+38387,35.8729,-88.2775
+38388,35.7816,-88.3097
+38389,36.1031,-89.1214
+38390,35.8385,-88.3779
+38391,35.5466,-88.9922
+38392,35.4580,-89.0281
+38401,35.6292,-87.0215
+38425,35.4160,-87.9697
+38449,35.0431,-86.8311
+38450,35.2039,-87.6692
+38451,35.4605,-86.9922
+38452,35.0789,-87.7924
+38453,35.1192,-86.8147
+38454,35.7282,-87.3453
+38455,35.0620,-86.8936
+38456,35.3347,-87.2656
+38457,35.0297,-87.2848
+38459,35.1913,-86.8022
+38460,35.1012,-87.1594
+38461,35.5951,-87.3399
+38462,35.5275,-87.5435
+38463,35.0706,-87.6451
+38464,35.2899,-87.4337
+38468,35.1351,-87.2911
+38469,35.0746,-87.4283
+38471,35.0839,-87.9324
+38472,35.3773,-87.0387
+38473,35.0212,-87.1717
+38474,35.5183,-87.2316
+38475,35.2624,-88.0234
+38476,35.8434,-87.2099
+38477,35.0598,-87.0189
+38478,35.2329,-87.0059
+38481,35.0281,-87.4887
+38482,35.7688,-87.1499
+38483,35.4408,-87.3337
+38485,35.3567,-87.7822
+38486,35.1731,-87.5402
+38487,35.7184,-87.2335
+38488,35.0285,-86.6865
+38501,36.2260,-85.5333
+38503,36.1632,-85.5057
+38504,36.3931,-84.7353
+38505,36.1732,-85.5056
+38506,36.1870,-85.4335
+38541,36.5380,-85.3356
+38542,36.3158,-85.2012
+38543,36.3501,-85.1500
+38544,36.1099,-85.6523
+38545,36.2313,-85.6597
+38547,36.1547,-86.0095
+38548,36.1748,-85.7920
+38549,36.5621,-85.1491
+38550,35.7698,-85.6327
+38551,36.5581,-85.4872
+38552,36.2177,-85.8138
+38553,36.2032,-85.0044
+38554,36.2513,-85.1610
+38555,35.8879,-84.9890
+38556,36.4076,-84.9276
+38558,36.0099,-84.8666
+38559,35.8084,-85.5080
+38560,36.2219,-85.8556
+38562,36.3516,-85.6593
+38563,36.2088,-86.0207
+38564,36.2569,-85.7545
+38565,36.2630,-85.0099
+38567,36.1328,-85.9257
+38568,36.4385,-85.4731
+38569,36.1187,-85.8592
+38570,36.3763,-85.3264
+38571,36.0516,-85.0128
+38572,35.8491,-85.1290
+38573,36.4934,-85.2239
+38574,36.1436,-85.2293
+38575,36.5532,-85.6295
+38577,36.5622,-84.9531
+38578,35.9803,-85.1963
+38579,35.8359,-85.5482
+38580,36.2773,-85.2953
+38581,35.7410,-85.6208
+38582,36.0994,-85.7645
+38583,35.9531,-85.4304
+38585,35.6881,-85.4148
+38587,35.8648,-85.6140
+38588,36.4464,-85.7307
+38589,36.2855,-85.0762
+38601,34.4785,-89.4513
+38603,34.8484,-89.1423
+38606,34.3033,-89.9523
+38610,34.6518,-89.0255
+38611,34.8562,-89.6760
+38614,34.1596,-90.6084
+38617,34.3617,-90.4906
+38618,34.7163,-89.9378
+38619,34.5153,-89.8238
+38620,34.2367,-89.9161
+38621,34.4472,-90.1705
+38622,34.1695,-90.1346
+38623,34.3540,-90.3098
+38625,34.6143,-88.8359
+38626,34.5200,-90.4339
+38627,34.4546,-89.2380
+38629,34.8685,-88.9905
+38631,34.3610,-90.6255
+38632,34.7959,-90.0151
+38633,34.6473,-89.1950
+38635,34.7669,-89.4863
+38637,34.9508,-90.0487
+38639,34.3091,-90.4285
+38641,34.9112,-90.1695
+38642,34.9113,-89.3414
+38643,34.1485,-90.2609
+38644,34.4589,-90.4758
+38645,34.2478,-90.4764
+38646,34.2872,-90.2986
+38647,34.9635,-89.2241
+38650,34.5321,-89.1425
+38651,34.8934,-90.0022
+38652,34.4861,-88.9967
+38654,34.9339,-89.8163
+38655,34.3298,-89.4871
+38658,34.1883,-89.9010
+38659,34.6215,-89.3315
+38661,34.8827,-89.5566
+38663,34.7389,-88.9029
+38664,34.8115,-90.3293
+38665,34.5833,-90.1660
+38666,34.4181,-89.9288
+38668,34.5907,-89.9178
+38670,34.4330,-90.2859
+38671,34.9663,-89.9982
+38672,34.9114,-89.9279
+38673,34.2934,-89.6358
+38674,34.8684,-88.8924
+38676,34.6742,-90.3668
+38677,34.3620,-89.5386
+38680,34.9578,-90.1451
+38683,34.9353,-88.8549
+38685,34.5931,-89.4885
+38701,33.3026,-91.0284
+38703,33.4757,-91.0528
+38720,34.1084,-90.7880
+38721,32.9704,-90.7521
+38722,33.2603,-90.8839
+38723,33.2297,-91.0385
+38725,33.6355,-91.0601
+38726,33.7534,-90.9773
+38730,33.6809,-90.8049
+38731,33.1235,-91.1308
+38732,33.7589,-90.7256
+38733,33.7446,-90.7351
+38736,33.6478,-90.5432
+38737,33.8610,-90.4964
+38738,33.9329,-90.5344
+38740,34.0499,-90.8052
+38744,33.0297,-91.0513
+38745,32.9742,-91.0392
+38746,33.9616,-90.9544
+38748,33.1551,-90.8760
+38751,33.4533,-90.6750
+38753,33.3494,-90.5844
+38754,33.2499,-90.6225
+38756,33.3896,-90.8602
+38759,33.8291,-90.7374
+38760,33.4535,-90.9940
+38761,33.4293,-90.4700
+38762,33.8964,-90.7257
+38764,33.7991,-90.8841
+38765,33.0493,-90.8896
+38767,34.1281,-90.8055
+38768,33.9709,-90.4775
+38769,33.8424,-90.9781
+38771,33.7396,-90.5231
+38772,33.5625,-91.0877
+38773,33.6050,-90.7734
+38774,33.9657,-90.7675
+38776,33.4247,-90.9275
+38778,33.5540,-90.5142
+38781,33.9087,-90.7568
+38801,34.2226,-88.7746
+38804,34.2814,-88.6729
+38821,33.9738,-88.4377
+38824,34.5193,-88.6410
+38826,34.3028,-88.8483
+38827,34.5112,-88.2424
+38828,34.4238,-88.8649
+38829,34.6525,-88.5368
+38833,34.8339,-88.3429
+38834,34.9178,-88.5597
+38838,34.5464,-88.2557
+38839,33.8556,-89.2841
+38841,34.3481,-89.0215
+38843,34.2621,-88.3763
+38844,33.8390,-88.2559
+38846,34.8517,-88.3854
+38847,34.4125,-88.2330
+38848,33.9367,-88.2827
+38849,34.4610,-88.6960
+38850,34.0589,-89.0579
+38851,33.9104,-88.9677
+38852,34.8442,-88.2169
+38855,34.3233,-88.4854
+38856,34.4671,-88.4551
+38857,34.2815,-88.5750
+38858,34.0958,-88.5310
+38859,34.5152,-88.3686
+38860,33.9767,-88.7597
+38862,34.1681,-88.6232
+38863,34.2170,-89.0275
+38864,34.1578,-89.2078
+38865,34.7880,-88.5954
+38866,34.3676,-88.6801
+38868,34.1257,-88.7430
+38869,34.3563,-88.8363
+38870,34.0700,-88.3393
+38871,34.3346,-89.2068
+38873,34.6649,-88.2513
+38876,34.2136,-88.2303
+38878,33.8803,-89.1901
+38879,34.1952,-88.7121
+38901,33.7617,-89.7991
+38913,34.1389,-89.3849
+38914,33.8717,-89.4705
+38915,34.0376,-89.3889
+38916,33.8299,-89.3511
+38917,33.5388,-89.9820
+38920,33.8796,-90.0371
+38921,33.9821,-90.1442
+38922,33.9327,-89.6509
+38923,33.3778,-89.9921
+38924,33.2897,-90.2157
+38925,33.6303,-89.6182
+38927,34.1429,-90.0268
+38928,33.8695,-90.2919
+38929,33.7389,-89.5231
+38930,33.5277,-90.1387
+38940,33.7469,-90.0260
+38941,33.4846,-90.3582
+38943,33.5333,-89.8394
+38944,33.7650,-90.3415
+38946,33.3770,-90.3559
+38947,33.5172,-89.9212
+38948,34.0761,-89.8941
+38949,34.1798,-89.4281
+38950,33.7331,-90.2000
+38951,33.9738,-89.2905
+38952,33.6168,-90.3339
+38953,33.9193,-89.9322
+38954,33.4080,-90.2196
+38957,33.9875,-90.3730
+38961,33.9623,-89.8842
+38962,33.8722,-90.1852
+38963,34.0494,-90.3135
+38964,34.1129,-90.3879
+38965,34.1350,-89.5909
+38966,33.9201,-90.3176
+38967,33.4595,-89.7182
+39038,33.2016,-90.4745
+39039,32.8166,-90.2289
+39040,32.6297,-90.4175
+39041,32.4048,-90.4689
+39042,32.1977,-89.8949
+39044,32.0271,-89.9716
+39045,32.8195,-89.7846
+39046,32.6296,-89.9935
+39047,32.4524,-89.9494
+39051,32.7803,-89.5135
+39054,32.7985,-90.9353
+39056,32.3736,-90.3506
+39057,32.4909,-89.2844
+39058,32.3357,-90.3315
+39059,31.9826,-90.3505
+39061,33.0884,-90.8044
+39062,31.9849,-89.8983
+39063,33.1167,-89.8975
+39066,32.2966,-90.6062
+39067,33.1149,-89.4505
+39069,31.6862,-91.0432
+39071,32.5461,-90.3192
+39073,32.1024,-90.1358
+39074,32.3860,-89.4673
+39078,31.8780,-90.1882
+39079,32.9310,-89.8889
+39082,31.9418,-90.1201
+39083,31.8353,-90.4673
+39086,31.9626,-90.7637
+39088,32.7407,-90.7469
+39090,33.0129,-89.5436
+39092,32.3195,-89.3634
+39094,32.5754,-89.6753
+39095,33.1319,-90.1172
+39096,31.8176,-91.1207
+39097,32.9891,-90.6077
+39108,33.1621,-89.3277
+39110,32.5053,-90.1376
+39111,31.8966,-89.7181
+39113,32.7610,-91.1179
+39114,31.9518,-89.8246
+39115,33.0479,-90.5604
+39116,31.8964,-89.5383
+39117,32.3096,-89.6650
+39119,31.7515,-89.6708
+39120,31.5088,-91.3574
+39140,31.7492,-90.0202
+39144,31.8212,-90.7922
+39145,32.3447,-89.7944
+39146,32.8759,-89.9949
+39148,32.0617,-89.9952
+39149,31.8320,-90.0106
+39150,31.9872,-90.9851
+39152,32.2075,-89.5855
+39153,32.0451,-89.4900
+39154,32.2251,-90.4447
+39156,32.5465,-90.7776
+39157,32.4254,-90.1656
+39159,32.8227,-90.9115
+39160,33.0031,-89.7472
+39162,32.6188,-90.6244
+39166,33.0557,-90.4815
+39167,32.0931,-90.0400
+39168,31.8319,-89.4118
+39169,33.2155,-90.2451
+39170,32.1118,-90.3307
+39173,32.7424,-90.4722
+39174,32.4010,-90.1603
+39175,32.0892,-90.6226
+39176,33.2997,-89.7529
+39177,32.6062,-90.8232
+39179,32.8024,-90.0969
+39180,32.2387,-90.8937
+39183,32.4626,-90.8232
+39189,32.6080,-89.4001
+39191,31.7157,-90.4089
+39192,33.1948,-89.7462
+39193,32.2435,-90.0699
+39194,32.8430,-90.5151
+39201,32.2896,-90.1843
+39202,32.3111,-90.1698
+39203,32.3092,-90.2004
+39204,32.2831,-90.2369
+39206,32.3723,-90.1727
+39208,32.2597,-90.0919
+39209,32.3955,-90.2932
+39210,32.3225,-90.1800
+39211,32.3721,-90.1227
+39212,32.2462,-90.2596
+39213,32.3947,-90.2250
+39216,32.3352,-90.1614
+39217,32.2976,-90.2096
+39218,32.2261,-90.1565
+39232,32.3370,-90.0859
+39269,32.3011,-90.1889
+39272,32.1884,-90.2624
+39301,32.2761,-88.5929
+39305,32.4579,-88.7274
+39307,32.3350,-88.7900
+39309,32.5522,-88.5509
+39320,32.5645,-88.7483
+39322,31.5356,-88.5038
+39323,32.3523,-88.9238
+39324,31.5804,-88.6974
+39325,32.5620,-88.8775
+39326,32.6027,-88.6562
+39327,32.4458,-89.1223
+39328,32.7435,-88.6986
+39330,32.1898,-88.8576
+39332,32.3043,-88.9989
+39335,32.5331,-88.4911
+39336,32.3006,-89.2622
+39337,32.5185,-88.9963
+39338,32.1067,-89.2309
+39339,33.1112,-89.0088
+39341,33.0886,-88.5561
+39342,32.4250,-88.6499
+39345,32.2822,-89.1221
+39346,32.9650,-89.0955
+39347,32.0604,-88.9420
+39348,31.9901,-89.0414
+39350,32.7965,-89.1252
+39352,32.6743,-88.4817
+39354,32.8753,-88.8404
+39355,32.0588,-88.6190
+39356,32.1330,-89.0364
+39358,32.8310,-88.4537
+39359,32.5685,-89.3321
+39360,31.8648,-88.7540
+39361,32.9955,-88.5964
+39362,31.3910,-88.5411
+39363,32.0972,-88.7819
+39364,32.4053,-88.4866
+39365,32.6086,-89.1202
+39366,31.9411,-88.9002
+39367,31.6844,-88.6683
+39401,31.2341,-89.2659
+39402,31.3332,-89.4141
+39406,31.3289,-89.3351
+39421,31.4924,-89.7212
+39422,31.9557,-89.2659
+39423,31.1776,-88.9120
+39425,31.0694,-89.0605
+39426,30.6558,-89.6569
+39427,31.4893,-89.8290
+39428,31.6511,-89.5728
+39429,31.2420,-89.7794
+39437,31.5799,-89.2186
+39439,31.8631,-89.0014
+39440,31.6932,-89.1483
+39443,31.7167,-89.0782
+39451,31.1665,-88.6234
+39452,30.8869,-88.5930
+39455,31.0116,-89.4706
+39456,31.0306,-88.8277
+39459,31.4898,-89.3046
+39461,31.2058,-88.7327
+39462,31.2340,-89.0566
+39464,31.4928,-89.0616
+39465,31.3396,-89.1882
+39466,30.5347,-89.6180
+39470,30.8229,-89.5689
+39474,31.6212,-89.8543
+39475,31.1551,-89.4135
+39476,31.3870,-88.8669
+39477,31.7957,-89.0383
+39478,31.0542,-89.8568
+39479,31.5421,-89.4642
+39480,31.7050,-89.3162
+39481,31.8684,-89.2382
+39482,31.3720,-89.5792
+39483,31.2428,-89.9323
+39501,30.3872,-89.0992
+39503,30.4729,-89.1433
+39507,30.4005,-89.0345
+39520,30.2689,-89.4808
+39525,30.3819,-89.3708
+39529,30.3782,-89.6006
+39530,30.4015,-88.8917
+39531,30.4040,-88.9661
+39532,30.5010,-88.9756
+39534,30.4086,-88.9213
+39540,30.4428,-88.8973
+39553,30.4154,-88.6457
+39556,30.4412,-89.4279
+39560,30.3742,-89.1708
+39561,30.7077,-89.1548
+39562,30.5467,-88.4895
+39563,30.4259,-88.5327
+39564,30.4048,-88.7712
+39565,30.6118,-88.7616
+39567,30.3597,-88.5585
+39571,30.4201,-89.2750
+39572,30.2508,-89.6048
+39573,30.7310,-89.0934
+39574,30.6085,-89.1061
+39576,30.2898,-89.3834
+39577,30.9047,-89.0865
+39581,30.3505,-88.4936
+39595,30.3341,-88.5785
+39601,31.5703,-90.4755
+39629,31.4366,-90.4569
+39630,31.4593,-90.8453
+39631,31.0672,-91.1340
+39633,31.2928,-91.1677
+39635,31.1843,-90.4486
+39638,31.2250,-90.9959
+39641,31.3564,-90.1819
+39643,31.2465,-90.0143
+39645,31.1359,-90.7940
+39647,31.5261,-90.7116
+39648,31.1779,-90.3852
+39652,31.1111,-90.4653
+39653,31.4612,-90.8721
+39654,31.5410,-90.1490
+39656,31.4439,-89.9318
+39657,31.0403,-90.5063
+39661,31.4844,-91.0835
+39662,31.3864,-90.2854
+39663,31.5949,-90.0382
+39664,31.3260,-90.6742
+39665,31.6413,-90.2140
+39666,31.2877,-90.4950
+39667,31.1247,-90.1262
+39668,31.6913,-90.7913
+39669,31.1507,-91.3625
+39701,33.3939,-88.5047
+39702,33.4317,-88.3455
+39705,33.5879,-88.4411
+39730,33.8436,-88.5656
+39735,33.3446,-89.1861
+39736,33.4169,-88.6418
+39737,33.6505,-89.3360
+39739,33.2384,-88.5787
+39740,33.7150,-88.3157
+39741,33.6360,-88.8547
+39743,33.3368,-88.6189
+39744,33.5802,-89.3003
+39745,33.2983,-89.4696
+39746,33.7490,-88.4150
+39747,33.4242,-89.5359
+39750,33.5690,-89.0448
+39751,33.6953,-89.0932
+39752,33.5226,-89.1507
+39753,33.4845,-88.6305
+39755,33.6078,-88.9644
+39756,33.7567,-88.7411
+39759,33.4379,-88.8251
+39762,33.4465,-88.7958
+39766,33.5866,-88.3211
+39767,33.4680,-89.4523
+39769,33.3219,-89.0178
+39771,33.6067,-89.2791
+39772,33.2951,-89.3043
+39773,33.6399,-88.6727
+39776,33.7853,-89.0314
+39813,31.4232,-84.6843
+39815,30.7388,-84.4907
+39817,30.9479,-84.5934
+39819,30.7854,-84.6452
+39823,31.3336,-84.9470
+39824,31.5284,-84.8648
+39825,30.9308,-84.7408
+39826,31.8185,-84.3211
+39827,30.9476,-84.2104
+39828,30.7986,-84.2267
+39832,31.1911,-85.0279
+39834,30.8943,-84.4312
+39836,31.6660,-84.8686
+39837,31.1521,-84.6777
+39840,31.7813,-84.7641
+39841,31.2929,-84.6850
+39842,31.7543,-84.4355
+39845,30.9515,-84.8927
+39846,31.5690,-84.7460
+39851,31.6198,-84.9926
+39854,31.8692,-85.0526
+39859,30.9876,-84.8128
+39861,31.1353,-84.9872
+39862,31.4594,-84.5174
+39866,31.5609,-84.6032
+39867,31.8428,-84.9308
+39870,31.3220,-84.4141
+39877,31.9152,-84.5116
+39885,31.7219,-84.3430
+39886,31.7325,-84.6172
+39897,30.9112,-84.3298
+40003,38.2767,-85.0438
+40004,37.8024,-85.4699
+40006,38.5962,-85.3330
+40007,38.4583,-84.9992
+40008,37.9089,-85.2750
+40009,37.4837,-85.0864
+40010,38.3725,-85.4595
+40011,38.5278,-85.1701
+40012,37.9130,-85.1673
+40013,37.9417,-85.4822
+40014,38.3408,-85.4329
+40019,38.3726,-85.1751
+40020,37.9348,-85.3874
+40022,38.1514,-85.3429
+40023,38.1640,-85.4239
+40025,38.3016,-85.6521
+40026,38.4213,-85.5168
+40031,38.4294,-85.4008
+40033,37.5442,-85.2256
+40036,38.4151,-84.9533
+40037,37.6606,-85.4175
+40040,37.7770,-85.0693
+40041,38.2561,-85.6648
+40045,38.6936,-85.3546
+40046,38.0239,-85.1698
+40047,38.0360,-85.5555
+40049,37.6635,-85.3950
+40050,38.4559,-85.1780
+40051,37.6522,-85.5796
+40052,37.6041,-85.4879
+40055,38.4952,-85.3260
+40056,38.3081,-85.4872
+40057,38.3824,-85.0554
+40058,38.4326,-85.1700
+40059,38.3556,-85.5820
+40060,37.5423,-85.4663
+40061,37.7097,-85.2641
+40062,37.6070,-85.4414
+40063,37.5695,-85.3446
+40065,38.2129,-85.2086
+40067,38.2284,-85.3675
+40068,38.3887,-85.2863
+40069,37.7239,-85.2077
+40070,38.4720,-85.2350
+40071,38.0429,-85.3788
+40075,38.5681,-85.1127
+40076,38.1137,-85.0861
+40077,38.4955,-85.4446
+40078,37.8311,-85.1448
+40104,38.0855,-86.3328
+40107,37.7253,-85.5988
+40108,37.9698,-86.1729
+40109,38.0645,-85.7504
+40110,37.9400,-85.6512
+40111,37.7855,-86.6196
+40115,37.7503,-86.2301
+40117,37.8966,-86.1243
+40118,38.0963,-85.7579
+40119,37.6082,-86.5532
+40121,37.9269,-85.9598
+40140,37.7304,-86.2854
+40142,37.8932,-86.2041
+40143,37.7851,-86.4999
+40144,37.7570,-86.3841
+40145,37.6542,-86.3143
+40146,37.8365,-86.3099
+40150,37.8786,-85.6765
+40152,37.6018,-86.4488
+40155,37.9483,-85.9942
+40157,38.0234,-86.3755
+40160,37.8130,-85.9317
+40161,38.0082,-86.4012
+40162,37.7464,-86.0407
+40165,37.9928,-85.6959
+40170,37.9665,-86.4874
+40171,37.9721,-86.4364
+40175,37.8190,-86.0899
+40176,37.9077,-86.3514
+40177,38.0024,-85.9234
+40178,37.6812,-86.4224
+40202,38.2528,-85.7519
+40203,38.2522,-85.7652
+40204,38.2395,-85.7223
+40205,38.2230,-85.6833
+40206,38.2565,-85.7016
+40207,38.2635,-85.6566
+40208,38.2175,-85.7659
+40209,38.1824,-85.7352
+40210,38.2316,-85.7860
+40211,38.2358,-85.8246
+40212,38.2680,-85.8025
+40213,38.1770,-85.7170
+40214,38.1485,-85.7798
+40215,38.1905,-85.7857
+40216,38.1861,-85.8388
+40217,38.2167,-85.7375
+40218,38.1895,-85.6576
+40219,38.1379,-85.6927
+40220,38.2154,-85.6187
+40221,38.1865,-85.7531
+40222,38.2647,-85.6118
+40223,38.2585,-85.5398
+40228,38.1400,-85.6358
+40229,38.0884,-85.6604
+40231,38.1955,-85.6952
+40241,38.3000,-85.5757
+40242,38.2762,-85.5871
+40243,38.2402,-85.5326
+40245,38.2676,-85.4462
+40258,38.1486,-85.8712
+40272,38.0785,-85.8531
+40280,38.2477,-85.6869
+40291,38.1261,-85.5796
+40299,38.1517,-85.5172
+40310,37.7500,-84.7728
+40311,38.3320,-83.9971
+40312,37.8443,-83.9329
+40313,38.1375,-83.4026
+40316,37.9366,-83.5205
+40322,37.9351,-83.6330
+40324,38.2456,-84.5506
+40328,37.5819,-85.0128
+40330,37.7877,-84.8881
+40334,38.0251,-83.7450
+40336,37.6830,-83.9910
+40337,37.9423,-83.8546
+40339,37.9422,-84.6428
+40342,38.0055,-84.9674
+40346,37.9871,-83.7439
+40347,38.1583,-84.7284
+40348,38.3030,-84.1461
+40350,38.3047,-83.8739
+40351,38.2043,-83.4281
+40353,38.0655,-83.9488
+40355,38.6019,-84.8682
+40356,37.8738,-84.5653
+40357,38.1452,-84.1084
+40358,38.0576,-83.6841
+40359,38.4763,-84.8149
+40360,38.1673,-83.7677
+40361,38.2026,-84.2099
+40363,38.5144,-85.0098
+40370,38.3945,-84.5302
+40371,38.0830,-83.5951
+40372,37.9118,-84.8881
+40374,38.2149,-83.9021
+40376,37.7929,-83.7140
+40379,38.3082,-84.6904
+40380,37.8137,-83.7971
+40383,38.0066,-84.7393
+40385,37.7382,-84.1337
+40387,37.9408,-83.4874
+40390,37.8535,-84.6794
+40391,37.9703,-84.1451
+40402,37.2910,-83.9765
+40403,37.5707,-84.2638
+40404,37.5732,-84.2903
+40409,37.3692,-84.4349
+40419,37.4373,-84.4902
+40422,37.6445,-84.8065
+40434,37.3935,-83.9388
+40437,37.4570,-84.8440
+40440,37.5792,-84.8404
+40442,37.3389,-84.7413
+40444,37.6662,-84.5780
+40445,37.3203,-84.2141
+40447,37.4405,-84.0467
+40448,37.4571,-84.7576
+40456,37.3535,-84.3195
+40460,37.3911,-84.2488
+40461,37.5825,-84.4060
+40464,37.5723,-84.9251
+40468,37.6514,-84.9825
+40472,37.7321,-83.8597
+40475,37.7624,-84.3046
+40481,37.4386,-84.0828
+40484,37.5206,-84.6739
+40486,37.3653,-83.8628
+40489,37.3608,-84.6498
+40502,38.0110,-84.4832
+40503,38.0058,-84.5335
+40504,38.0424,-84.5440
+40505,38.0607,-84.4572
+40507,38.0469,-84.4963
+40508,38.0609,-84.5114
+40509,37.9973,-84.3779
+40510,38.0712,-84.5838
+40511,38.1410,-84.4616
+40513,38.0166,-84.6050
+40514,37.9834,-84.5652
+40515,37.9156,-84.4122
+40516,38.0718,-84.3640
+40517,37.9830,-84.4894
+40526,38.0297,-84.5014
+40536,38.0298,-84.5073
+40601,38.2349,-84.8688
+40701,36.9136,-84.1681
+40729,37.2480,-84.1527
+40734,36.9299,-83.9750
+40737,37.0110,-84.1480
+40740,37.0206,-84.0373
+40741,37.1334,-84.1192
+40744,37.0319,-84.1099
+40759,36.8130,-84.0571
+40763,36.6892,-83.9256
+40769,36.7044,-84.1897
+40771,36.8625,-84.0376
+40801,36.8570,-83.2549
+40803,37.0458,-83.4226
+40806,36.8912,-83.2970
+40807,36.9640,-82.9556
+40808,37.0102,-83.2908
+40810,36.9364,-83.2806
+40813,36.7102,-83.5923
+40815,36.7916,-83.2325
+40816,37.0133,-83.3672
+40818,36.8216,-83.2431
+40819,36.8023,-83.4416
+40820,36.7979,-83.1588
+40823,36.9587,-82.9910
+40824,36.8253,-83.3753
+40826,37.0424,-82.7701
+40827,37.0374,-83.5128
+40828,36.8718,-83.1526
+40829,36.7961,-83.3023
+40830,36.7764,-83.3313
+40831,36.7602,-83.3286
+40840,36.9446,-83.4190
+40843,36.8948,-82.9316
+40844,37.0578,-83.3414
+40845,36.7847,-83.5035
+40847,36.8524,-83.1571
+40849,36.8994,-83.1355
+40854,36.8453,-83.3617
+40855,36.9299,-82.8853
+40856,36.7232,-83.5275
+40858,37.0126,-83.4092
+40862,37.0176,-82.8562
+40863,36.7272,-83.4309
+40865,36.9201,-83.2112
+40868,37.0948,-83.4269
+40870,36.9420,-83.1530
+40873,36.8109,-83.4000
+40874,36.9891,-83.4725
+40902,36.8615,-83.6022
+40903,36.8029,-83.8009
+40906,36.8892,-83.8756
+40913,36.9361,-83.5589
+40914,37.0927,-83.5724
+40915,36.8904,-83.8126
+40921,36.7917,-83.9016
+40923,36.9193,-83.8454
+40927,36.9001,-83.0130
+40935,36.9582,-83.7528
+40939,36.8104,-83.7207
+40940,36.6025,-83.9390
+40941,37.1301,-83.7456
+40943,36.9563,-83.8475
+40946,36.9576,-83.8246
+40949,36.9011,-83.8683
+40953,36.9380,-83.8013
+40958,36.8099,-83.5969
+40962,37.1643,-83.7155
+40964,36.7826,-83.3377
+40965,36.6200,-83.7318
+40972,37.2405,-83.5879
+40977,36.7240,-83.7292
+40979,37.0094,-83.4931
+40981,37.2779,-83.4853
+40982,36.9330,-83.6872
+40983,37.3478,-83.7318
+40988,36.8666,-83.5166
+40995,36.7527,-83.8232
+40997,36.8945,-83.6620
+41001,38.9109,-84.4007
+41002,38.7421,-83.9735
+41003,38.5296,-84.3902
+41004,38.6441,-84.0880
+41005,39.0068,-84.7601
+41006,38.7844,-84.3456
+41007,38.8926,-84.3089
+41008,38.6511,-85.1762
+41010,38.4996,-84.6082
+41011,39.0671,-84.5327
+41014,39.0648,-84.5045
+41015,38.9797,-84.4786
+41016,39.0887,-84.5485
+41017,39.0292,-84.5621
+41018,39.0149,-84.6022
+41030,38.7844,-84.5873
+41031,38.4131,-84.2975
+41033,38.7692,-84.4755
+41034,38.6871,-83.9002
+41035,38.7192,-84.6544
+41039,38.4143,-83.8714
+41040,38.6508,-84.3312
+41041,38.4050,-83.7231
+41042,38.9872,-84.6470
+41043,38.7617,-84.2049
+41044,38.6104,-83.9724
+41045,38.7220,-85.0216
+41046,38.7089,-84.8007
+41048,39.0870,-84.7038
+41049,38.2683,-83.6442
+41051,38.9338,-84.5404
+41052,38.6564,-84.7753
+41055,38.5254,-83.8665
+41056,38.6019,-83.7774
+41059,38.9981,-84.3451
+41063,38.8570,-84.5053
+41064,38.5135,-84.0642
+41071,39.0743,-84.4806
+41073,39.1012,-84.4775
+41074,39.1092,-84.4603
+41075,39.0824,-84.4571
+41076,39.0175,-84.4409
+41080,39.0547,-84.8242
+41083,38.6708,-84.9964
+41085,39.0350,-84.3939
+41086,38.6954,-84.8810
+41091,38.9103,-84.7363
+41092,38.8156,-84.6882
+41093,38.3781,-83.5532
+41094,38.8828,-84.6241
+41095,38.7737,-84.7475
+41097,38.6212,-84.5814
+41098,38.5979,-84.9876
+41101,38.4775,-82.6505
+41102,38.4276,-82.7302
+41121,38.4394,-82.8337
+41124,38.0198,-82.8584
+41129,38.3209,-82.6563
+41132,38.2568,-82.8232
+41135,38.3627,-83.2708
+41139,38.5087,-82.7340
+41141,38.5667,-83.1388
+41142,38.2777,-83.0731
+41143,38.3349,-82.9752
+41144,38.5188,-82.9292
+41146,38.2792,-82.8960
+41149,38.0993,-83.0765
+41159,38.0104,-82.9751
+41164,38.2884,-83.1572
+41166,38.6264,-83.1023
+41168,38.3071,-82.7506
+41169,38.5326,-82.7367
+41171,38.0455,-83.1790
+41174,38.7063,-83.0071
+41175,38.6489,-82.9721
+41179,38.5350,-83.3701
+41180,38.1508,-82.8845
+41181,38.2092,-82.8729
+41183,38.5503,-82.7367
+41189,38.5476,-83.5629
+41201,38.0624,-82.7623
+41203,37.8524,-82.4611
+41204,37.8066,-82.6713
+41214,37.8276,-82.5772
+41216,37.7325,-82.8038
+41219,37.9287,-82.9199
+41222,37.7559,-82.8585
+41224,37.8107,-82.5525
+41226,37.9802,-82.9550
+41230,38.0633,-82.6684
+41231,37.7925,-82.3796
+41232,37.9410,-82.7297
+41234,37.8022,-82.7469
+41238,37.8349,-82.9502
+41240,37.8203,-82.7837
+41250,37.7108,-82.4479
+41254,37.8873,-82.7153
+41255,37.9200,-82.8258
+41256,37.8209,-82.8761
+41257,37.9131,-82.7989
+41260,37.8256,-82.7528
+41262,37.8451,-82.6301
+41263,37.8567,-82.7647
+41264,37.9249,-82.6815
+41265,37.7599,-82.7183
+41267,37.8817,-82.4388
+41268,37.7885,-82.7852
+41271,37.8278,-82.7245
+41274,37.8642,-82.8107
+41301,37.7154,-83.4934
+41310,37.6407,-83.2515
+41311,37.5751,-83.7232
+41314,37.4397,-83.6375
+41317,37.4656,-83.2116
+41332,37.8074,-83.3673
+41339,37.5162,-83.2691
+41348,37.4094,-83.3010
+41351,37.3361,-83.5859
+41352,37.8260,-83.3361
+41360,37.8014,-83.6146
+41364,37.3685,-83.6607
+41365,37.7068,-83.6289
+41366,37.6247,-83.2196
+41367,37.4150,-83.2278
+41385,37.6638,-83.3148
+41386,37.4822,-83.7958
+41390,37.4101,-83.3807
+41397,37.6729,-83.6615
+41408,37.8021,-83.2870
+41421,37.9920,-83.1947
+41425,37.8878,-83.4177
+41464,37.6496,-82.9533
+41465,37.7291,-83.0918
+41472,37.9440,-83.2473
+41501,37.5076,-82.5188
+41503,37.6607,-82.2843
+41512,37.2524,-82.4777
+41513,37.3529,-82.3433
+41514,37.6689,-82.3185
+41517,37.1896,-82.5998
+41519,37.5836,-82.3234
+41522,37.3221,-82.3995
+41524,37.4334,-82.2344
+41526,37.4337,-82.5126
+41527,37.6318,-82.2938
+41528,37.5545,-82.1399
+41531,37.5951,-82.2313
+41534,37.2775,-82.4965
+41535,37.5937,-82.2842
+41537,37.2226,-82.6137
+41538,37.3034,-82.5889
+41539,37.5026,-82.3223
+41540,37.3944,-82.3422
+41543,37.5483,-82.2823
+41544,37.5959,-82.1737
+41547,37.5381,-82.0945
+41548,37.3747,-82.2509
+41553,37.4806,-82.1603
+41554,37.4305,-82.3356
+41555,37.5381,-82.2589
+41557,37.4860,-82.4109
+41558,37.5395,-82.2082
+41559,37.3800,-82.3902
+41560,37.3942,-82.5787
+41562,37.4016,-82.4738
+41563,37.2237,-82.5386
+41564,37.6048,-82.3667
+41566,37.4083,-82.1921
+41567,37.5689,-82.2862
+41568,37.5028,-82.0444
+41571,37.6265,-82.4444
+41572,37.3134,-82.6437
+41601,37.6090,-82.7181
+41602,37.7459,-82.7533
+41603,37.5715,-82.7046
+41604,37.3851,-82.6598
+41605,37.5554,-82.6301
+41606,37.3381,-82.7347
+41607,37.6251,-82.8569
+41612,37.3545,-82.7222
+41615,37.5374,-82.6925
+41616,37.5663,-82.8800
+41619,37.4793,-82.7335
+41621,37.6260,-82.7255
+41622,37.5130,-82.8096
+41630,37.4479,-82.8891
+41631,37.4687,-82.6539
+41632,37.5649,-82.9517
+41635,37.4845,-82.6261
+41636,37.4008,-82.7306
+41640,37.4727,-82.9200
+41642,37.5922,-82.6484
+41643,37.4349,-82.8443
+41645,37.5282,-82.7978
+41647,37.4322,-82.7264
+41649,37.5710,-82.7767
+41650,37.3412,-82.6756
+41651,37.4671,-82.7553
+41653,37.6574,-82.7588
+41655,37.5129,-82.7364
+41659,37.5876,-82.5916
+41660,37.4141,-82.6317
+41663,37.5673,-82.6634
+41666,37.4408,-82.8063
+41667,37.3107,-82.6923
+41669,37.3338,-82.7147
+41701,37.2955,-83.1826
+41712,37.3717,-83.1384
+41713,37.2269,-83.2780
+41714,37.1632,-83.5058
+41719,37.2966,-83.2478
+41721,37.3249,-83.4898
+41722,37.4088,-83.0990
+41723,37.2617,-83.3073
+41725,37.3170,-83.0336
+41727,37.3773,-83.2788
+41729,37.2692,-83.2157
+41731,37.0941,-83.0794
+41735,37.0150,-83.1029
+41739,37.3206,-83.1281
+41740,37.3562,-83.0474
+41745,37.3402,-83.4330
+41746,37.2139,-83.0921
+41749,37.2172,-83.4292
+41751,37.2181,-83.1287
+41754,37.3044,-83.3282
+41759,37.2319,-83.0267
+41760,37.1941,-83.0861
+41762,37.2074,-83.5008
+41763,37.0546,-83.1207
+41764,37.1194,-83.2542
+41766,37.1805,-83.4453
+41772,37.4072,-83.0147
+41773,37.2610,-82.9920
+41774,37.1543,-83.1458
+41775,37.1009,-83.3450
+41776,37.1851,-83.3085
+41777,37.0515,-83.2279
+41778,37.2661,-83.3223
+41804,37.1515,-82.9986
+41810,37.1849,-82.6728
+41812,37.2512,-82.7427
+41815,37.1534,-82.8028
+41817,37.3686,-82.8842
+41819,36.9871,-83.1070
+41821,37.0591,-83.0148
+41822,37.3191,-82.9827
+41824,37.1862,-82.8766
+41825,37.2310,-82.7056
+41826,37.1881,-82.9216
+41828,37.2882,-82.7879
+41831,37.3872,-82.9534
+41832,37.1698,-82.9608
+41833,37.0260,-82.9858
+41834,37.2522,-82.9553
+41835,37.2211,-82.6680
+41836,37.2588,-82.9023
+41837,37.1252,-82.7583
+41838,37.2038,-82.7567
+41839,37.4308,-82.8865
+41840,37.1990,-82.7209
+41843,37.2753,-82.8578
+41844,37.3144,-82.8723
+41845,37.1414,-82.9013
+41847,37.2025,-82.9683
+41848,37.1163,-82.9373
+41849,37.1740,-82.7326
+41855,37.1750,-82.7826
+41858,37.1361,-82.8548
+41859,37.3879,-82.7720
+41861,37.3850,-82.8182
+41862,37.3427,-82.7715
+42001,37.0306,-88.7094
+42003,37.0048,-88.5779
+42020,36.6868,-88.2865
+42021,36.8057,-88.9936
+42022,37.1450,-88.9448
+42023,36.8723,-88.9907
+42024,37.0774,-89.0503
+42025,36.8597,-88.3347
+42027,36.9194,-88.6355
+42028,37.2389,-88.3368
+42029,37.0120,-88.3845
+42031,36.6857,-88.9914
+42032,36.7424,-89.1105
+42035,36.9077,-88.8365
+42036,36.7126,-88.2346
+42037,37.1583,-88.1845
+42038,37.0474,-88.0276
+42039,36.7887,-88.8254
+42040,36.6077,-88.5010
+42041,36.5504,-88.8774
+42044,36.9576,-88.2632
+42045,37.0747,-88.2679
+42047,37.2902,-88.3999
+42048,36.7524,-88.2989
+42049,36.5175,-88.3198
+42050,36.5366,-89.1930
+42051,36.8598,-88.6443
+42053,37.1126,-88.8778
+42054,36.7222,-88.4326
+42055,37.0752,-88.1740
+42056,37.1073,-88.9867
+42058,37.0583,-88.4657
+42060,36.9659,-88.8281
+42061,36.8828,-88.7664
+42064,37.3450,-88.0953
+42066,36.7325,-88.6399
+42069,36.9188,-88.7565
+42071,36.6197,-88.2805
+42076,36.5715,-88.1070
+42078,37.2775,-88.2866
+42079,36.5413,-88.5764
+42081,37.2351,-88.3905
+42082,36.9174,-88.4953
+42083,37.1618,-88.2883
+42085,36.5696,-88.8010
+42086,37.0828,-88.7727
+42087,36.9731,-88.9948
+42088,36.6162,-88.7539
+42101,37.0581,-86.4631
+42103,36.9651,-86.3246
+42104,36.8769,-86.4512
+42120,36.6759,-86.2826
+42122,36.8571,-86.3537
+42123,36.8208,-86.0004
+42124,36.8637,-85.6521
+42127,37.1226,-85.9270
+42129,36.9891,-85.5855
+42130,36.9259,-85.7863
+42131,36.8298,-85.9091
+42133,36.7260,-85.9562
+42134,36.7267,-86.5632
+42140,36.6565,-85.8289
+42141,36.9395,-85.9034
+42151,36.6599,-85.5448
+42153,36.6889,-86.0468
+42154,37.0420,-85.7262
+42156,36.8645,-86.0471
+42157,36.7814,-85.8197
+42159,36.9967,-86.2493
+42160,37.1105,-86.0905
+42163,37.0797,-86.1347
+42164,36.7701,-86.1807
+42166,36.8737,-85.7267
+42167,36.7184,-85.6747
+42170,36.8565,-86.5697
+42171,37.0364,-86.1744
+42202,36.6829,-86.8444
+42204,36.6959,-87.0890
+42206,36.8867,-86.7430
+42207,37.2940,-86.2669
+42210,37.2141,-86.3081
+42211,36.8177,-87.8337
+42214,37.1273,-85.7006
+42215,36.9936,-87.6764
+42217,37.0463,-87.4727
+42220,36.9073,-87.1894
+42223,36.6394,-87.4733
+42232,36.8554,-87.6612
+42234,36.7216,-87.1786
+42236,36.7121,-87.6135
+42240,36.8802,-87.4631
+42252,37.2321,-86.4990
+42254,36.6611,-87.6439
+42256,37.0117,-86.9496
+42259,37.2297,-86.1647
+42261,37.2185,-86.6484
+42262,36.6903,-87.4482
+42265,36.7392,-87.0043
+42266,36.7443,-87.3572
+42273,37.2046,-86.8616
+42274,36.9502,-86.5988
+42275,37.2332,-86.4542
+42276,36.8596,-86.8813
+42280,36.9570,-87.0992
+42285,37.2642,-86.2976
+42286,36.7273,-87.2699
+42301,37.7358,-87.2494
+42303,37.7570,-87.0525
+42320,37.3327,-86.8670
+42321,37.1818,-87.0504
+42322,37.6213,-87.3873
+42323,37.1733,-87.0340
+42324,37.1417,-87.0131
+42325,37.3169,-87.2694
+42326,37.2357,-87.0109
+42327,37.5805,-87.2973
+42328,37.4310,-87.0452
+42330,37.3147,-87.1219
+42332,37.2504,-87.0887
+42333,37.3815,-86.7590
+42337,37.2008,-86.9493
+42338,37.5546,-86.7870
+42339,37.1217,-86.9600
+42343,37.6528,-86.6939
+42344,37.2709,-87.3172
+42345,37.1450,-87.1992
+42347,37.5238,-86.8901
+42348,37.8309,-86.7749
+42349,37.4303,-86.6772
+42350,37.4550,-87.1869
+42351,37.8986,-86.8666
+42352,37.5148,-87.0859
+42354,37.3780,-86.9306
+42355,37.8563,-86.9936
+42356,37.6936,-87.3230
+42361,37.5083,-86.7071
+42366,37.7227,-86.9385
+42367,37.2442,-87.1589
+42368,37.7133,-86.7531
+42369,37.3378,-86.9890
+42370,37.4500,-86.7411
+42371,37.5100,-87.2896
+42372,37.4052,-87.2776
+42374,37.3327,-87.1396
+42376,37.6178,-87.0860
+42378,37.6547,-86.8741
+42404,37.4820,-87.8371
+42406,37.7060,-87.6895
+42408,37.1795,-87.6927
+42409,37.5386,-87.6929
+42410,37.2764,-87.5107
+42411,37.1983,-88.0108
+42413,37.4385,-87.4639
+42420,37.7992,-87.5161
+42431,37.3376,-87.4752
+42436,37.4161,-87.5644
+42437,37.6493,-87.9152
+42440,37.2387,-87.4700
+42441,37.3648,-87.6550
+42442,37.1801,-87.4849
+42444,37.6416,-87.6456
+42445,37.1282,-87.8579
+42450,37.3892,-87.7770
+42451,37.8845,-87.3907
+42452,37.6827,-87.5403
+42453,37.1579,-87.5907
+42455,37.5837,-87.5334
+42456,37.5084,-87.5109
+42458,37.8535,-87.4306
+42459,37.5668,-88.0190
+42461,37.7974,-87.8892
+42462,37.7385,-87.7929
+42463,37.4726,-87.8695
+42464,37.1813,-87.3562
+42501,37.0562,-84.4509
+42503,37.1580,-84.5197
+42516,37.2217,-84.7849
+42518,36.9060,-84.6397
+42519,36.9553,-84.5350
+42528,37.1818,-85.0234
+42533,37.0722,-84.5924
+42539,37.3091,-84.9510
+42541,37.3691,-84.8080
+42544,37.0299,-84.8151
+42553,37.1803,-84.6971
+42565,37.1415,-84.9062
+42566,37.2785,-84.7832
+42567,37.2659,-84.6047
+42602,36.7260,-85.1215
+42603,36.7836,-85.0141
+42629,36.9126,-85.1381
+42631,36.7404,-84.4810
+42633,36.8008,-84.8266
+42634,36.8932,-84.4223
+42635,36.6762,-84.4032
+42638,36.6744,-84.4699
+42642,37.0587,-85.0352
+42647,36.6813,-84.6273
+42649,36.6265,-84.4150
+42653,36.7821,-84.4547
+42701,37.7032,-85.8395
+42712,37.5592,-86.1575
+42713,37.3751,-85.8727
+42715,36.9398,-85.4052
+42716,37.4922,-85.6752
+42717,36.7824,-85.3885
+42718,37.3903,-85.3801
+42721,37.4230,-86.4997
+42722,37.2766,-85.7161
+42724,37.6759,-86.0708
+42726,37.4199,-86.1521
+42728,37.1170,-85.2901
+42729,37.3065,-86.0965
+42732,37.6135,-86.1018
+42733,37.3436,-85.1864
+42740,37.5864,-85.9487
+42741,36.9752,-85.2554
+42742,37.0764,-85.4731
+42743,37.2283,-85.5323
+42746,37.2124,-85.7324
+42748,37.5667,-85.6941
+42749,37.1838,-85.8770
+42753,37.2351,-85.1590
+42754,37.4783,-86.3149
+42757,37.4104,-85.7410
+42758,37.3748,-85.2010
+42759,36.8282,-85.5144
+42762,37.4553,-86.3932
+42764,37.4296,-85.6205
+42765,37.3067,-85.9346
+42776,37.5145,-85.9271
+42782,37.3368,-85.6430
+42784,37.4520,-85.9324
+42788,37.5297,-86.0279
+43001,40.0880,-82.6139
+43002,40.0573,-83.1685
+43003,40.4135,-82.9693
+43004,40.0154,-82.8045
+43005,40.2816,-82.2690
+43006,40.4598,-82.1493
+43007,40.3309,-83.4019
+43008,39.9330,-82.4832
+43009,40.1715,-83.6393
+43010,39.9996,-83.6219
+43011,40.3030,-82.6796
+43013,40.2306,-82.6894
+43014,40.4699,-82.2496
+43015,40.2978,-83.0602
+43016,40.0975,-83.1502
+43017,40.1187,-83.1331
+43018,39.9538,-82.6761
+43019,40.5020,-82.5932
+43021,40.2050,-82.8765
+43022,40.3450,-82.3398
+43023,40.0755,-82.5298
+43025,39.9709,-82.5174
+43026,40.0205,-83.1775
+43027,40.2537,-82.5228
+43028,40.4017,-82.2973
+43029,40.0975,-83.4406
+43030,39.9691,-82.4057
+43031,40.1628,-82.6635
+43032,40.3286,-82.9581
+43033,39.9612,-82.5997
+43035,40.1860,-82.9963
+43036,40.3521,-83.2632
+43037,40.2844,-82.3232
+43040,40.2613,-83.3581
+43044,40.0549,-83.5508
+43045,40.1683,-83.4588
+43046,39.9018,-82.5404
+43047,40.2080,-83.6380
+43050,40.3740,-82.4927
+43054,40.0703,-82.8021
+43055,40.1105,-82.3787
+43056,40.0090,-82.3318
+43060,40.2224,-83.5715
+43061,40.2895,-83.2031
+43062,40.0081,-82.6853
+43064,40.0985,-83.2882
+43065,40.1776,-83.0942
+43066,40.4026,-83.1729
+43067,40.3430,-83.4839
+43068,39.9562,-82.7847
+43070,40.2206,-83.9565
+43071,40.1807,-82.3595
+43072,40.1152,-83.9548
+43074,40.2695,-82.8507
+43076,39.8962,-82.3912
+43077,40.1371,-83.3413
+43078,40.1176,-83.7838
+43080,40.2407,-82.4293
+43081,40.1104,-82.8906
+43082,40.1556,-82.8851
+43084,40.1501,-83.5573
+43085,40.1009,-83.0134
+43101,39.4645,-82.7461
+43102,39.6409,-82.7650
+43103,39.7324,-82.9357
+43105,39.8668,-82.6124
+43106,39.6448,-83.4185
+43107,39.6928,-82.4145
+43109,39.9172,-82.8319
+43110,39.8267,-82.8001
+43111,39.5021,-82.2427
+43112,39.7928,-82.6984
+43113,39.5866,-82.9622
+43115,39.4896,-83.1690
+43116,39.7728,-83.0628
+43117,39.7687,-83.2061
+43119,39.9409,-83.2057
+43123,39.8667,-83.1156
+43125,39.8381,-82.8879
+43126,39.8107,-83.1683
+43127,39.4756,-82.3223
+43128,39.6596,-83.5936
+43130,39.6965,-82.6147
+43135,39.4729,-82.7130
+43136,39.8016,-82.8154
+43137,39.8089,-82.9873
+43138,39.5183,-82.4141
+43140,39.8801,-83.4285
+43142,39.5929,-83.5878
+43143,39.7124,-83.2887
+43144,39.5299,-82.1950
+43145,39.5623,-83.2601
+43146,39.7735,-83.1369
+43147,39.8978,-82.7440
+43148,39.8203,-82.5000
+43149,39.5430,-82.5779
+43150,39.7771,-82.4098
+43151,39.7332,-83.4766
+43152,39.3943,-82.6159
+43153,39.7440,-83.5567
+43154,39.6039,-82.8296
+43155,39.6273,-82.5352
+43156,39.5538,-82.7763
+43157,39.8430,-82.5468
+43158,39.4530,-82.3512
+43160,39.5287,-83.4392
+43162,39.9494,-83.3084
+43164,39.5837,-83.1198
+43201,39.9909,-83.0012
+43202,40.0194,-83.0145
+43203,39.9729,-82.9692
+43204,39.9607,-83.0825
+43205,39.9573,-82.9620
+43206,39.9425,-82.9742
+43207,39.8954,-82.9639
+43209,39.9536,-82.9295
+43210,40.0064,-83.0221
+43211,40.0118,-82.9705
+43212,39.9866,-83.0432
+43213,39.9712,-82.8640
+43214,40.0517,-83.0163
+43215,39.9669,-83.0130
+43217,39.8169,-82.9341
+43218,40.0176,-82.9237
+43219,40.0074,-82.9207
+43220,40.0489,-83.0722
+43221,40.0231,-83.0761
+43222,39.9612,-83.0355
+43223,39.9262,-83.0331
+43224,40.0423,-82.9644
+43227,39.9432,-82.8876
+43228,39.9640,-83.1277
+43229,40.0859,-82.9782
+43230,40.0381,-82.8727
+43231,40.0794,-82.9369
+43232,39.9210,-82.8704
+43235,40.0787,-83.0825
+43240,40.1451,-82.9828
+43302,40.5992,-83.1303
+43310,40.5325,-83.7799
+43311,40.3644,-83.7584
+43314,40.6474,-82.9612
+43315,40.4840,-82.8744
+43316,40.9518,-83.3850
+43317,40.4751,-82.6809
+43318,40.3096,-83.9132
+43319,40.3027,-83.5751
+43320,40.5886,-82.8999
+43321,40.4631,-82.8290
+43322,40.5325,-83.2081
+43323,40.7321,-83.2547
+43324,40.4445,-83.8138
+43325,40.6681,-82.8313
+43326,40.6414,-83.6148
+43330,40.8135,-83.4194
+43331,40.5179,-83.9216
+43332,40.5909,-83.3715
+43333,40.4325,-83.9234
+43334,40.3979,-82.7973
+43336,40.2831,-83.5766
+43337,40.6813,-83.2666
+43338,40.5642,-82.7603
+43340,40.5303,-83.4979
+43341,40.5958,-83.3154
+43342,40.4712,-83.1840
+43343,40.3051,-83.9953
+43344,40.4309,-83.3446
+43345,40.5085,-83.5862
+43346,40.5768,-83.8452
+43347,40.4777,-83.6580
+43348,40.4612,-83.8914
+43350,40.3956,-82.6998
+43351,40.8276,-83.3140
+43356,40.4537,-83.0420
+43357,40.2535,-83.7468
+43358,40.4146,-83.5376
+43359,40.8698,-83.4532
+43360,40.3331,-83.6435
+43402,41.4097,-83.6535
+43403,41.3778,-83.6366
+43406,41.3358,-83.4386
+43407,41.2772,-83.2499
+43408,41.5718,-83.3635
+43410,41.3117,-82.9579
+43412,41.6313,-83.3219
+43413,41.2477,-83.6605
+43414,41.4514,-83.6172
+43416,41.4839,-83.2672
+43420,41.3579,-83.1102
+43430,41.5241,-83.3752
+43431,41.3918,-83.3437
+43432,41.5633,-83.2525
+43433,41.5046,-82.8803
+43434,41.6933,-83.4448
+43435,41.3263,-83.3121
+43436,41.7135,-82.8260
+43437,41.2540,-83.6018
+43438,41.6026,-82.7065
+43439,41.5176,-83.0428
+43440,41.5151,-82.7711
+43442,41.4250,-83.2158
+43443,41.4613,-83.4702
+43445,41.5566,-83.3089
+43446,41.6738,-82.8099
+43447,41.5677,-83.4332
+43449,41.5344,-83.1356
+43450,41.4009,-83.4913
+43451,41.3183,-83.6185
+43452,41.5065,-82.9533
+43456,41.6506,-82.8268
+43457,41.2679,-83.4251
+43458,41.5304,-83.2134
+43460,41.6048,-83.5610
+43462,41.2838,-83.7229
+43463,41.5115,-83.5051
+43464,41.4160,-82.9221
+43465,41.5655,-83.5003
+43466,41.2923,-83.5139
+43467,41.2433,-83.4909
+43468,41.5997,-83.3466
+43469,41.4604,-83.3645
+43501,41.6727,-84.4618
+43502,41.5326,-84.3031
+43504,41.6975,-83.8342
+43505,41.5242,-84.7309
+43506,41.4662,-84.5571
+43510,41.4648,-83.9471
+43511,41.2638,-83.8237
+43512,41.3034,-84.3583
+43515,41.5869,-84.0100
+43516,41.2149,-83.9152
+43517,41.4339,-84.7285
+43518,41.5965,-84.7577
+43519,41.4195,-84.4069
+43520,41.3800,-84.6357
+43521,41.6605,-84.2980
+43522,41.4203,-83.8324
+43523,41.3387,-83.9987
+43524,41.2271,-84.0385
+43525,41.4667,-83.7011
+43526,41.3121,-84.7308
+43527,41.2461,-84.1575
+43528,41.6289,-83.7496
+43529,41.1904,-83.7849
+43530,41.3279,-84.2894
+43531,41.6350,-84.4957
+43532,41.4491,-83.9643
+43533,41.6919,-84.0815
+43534,41.3496,-83.9270
+43535,41.3059,-84.0242
+43536,41.3134,-84.6340
+43537,41.5748,-83.6866
+43540,41.6887,-83.9445
+43541,41.3007,-83.8297
+43542,41.5664,-83.7653
+43543,41.6065,-84.6453
+43545,41.3922,-84.1283
+43547,41.4922,-83.8763
+43548,41.1887,-84.1730
+43549,41.3693,-84.5311
+43551,41.5186,-83.5791
+43553,41.5307,-84.2179
+43554,41.6584,-84.5635
+43555,41.4378,-84.2558
+43556,41.3033,-84.5637
+43557,41.4874,-84.3925
+43558,41.5940,-83.8787
+43560,41.7006,-83.7389
+43565,41.4204,-83.7401
+43566,41.4916,-83.7561
+43567,41.5803,-84.1611
+43569,41.3498,-83.7894
+43570,41.5861,-84.4410
+43571,41.5142,-83.8136
+43604,41.6524,-83.5389
+43605,41.6480,-83.5069
+43606,41.6731,-83.6114
+43607,41.6486,-83.6041
+43608,41.6799,-83.5289
+43609,41.6283,-83.5787
+43610,41.6778,-83.5615
+43611,41.7032,-83.4866
+43612,41.7156,-83.5509
+43613,41.7062,-83.6037
+43614,41.6045,-83.6275
+43615,41.6497,-83.6720
+43616,41.6584,-83.4089
+43617,41.6642,-83.7281
+43619,41.6037,-83.4705
+43620,41.6652,-83.5547
+43623,41.7030,-83.6501
+43701,39.9640,-81.9957
+43711,39.8419,-81.5780
+43713,39.9899,-81.1737
+43716,39.8292,-81.0119
+43717,39.7893,-81.5547
+43718,40.0150,-80.9981
+43719,39.9955,-81.0933
+43720,39.7961,-81.8765
+43721,39.9493,-82.2602
+43722,39.9193,-81.5200
+43723,39.9608,-81.5417
+43724,39.7209,-81.4987
+43725,40.0396,-81.6012
+43727,39.8757,-81.8002
+43728,39.4802,-81.8951
+43730,39.6392,-82.0922
+43731,39.7331,-82.0583
+43732,39.8427,-81.6595
+43733,39.9274,-81.5380
+43734,39.8825,-81.9137
+43735,39.8572,-82.1141
+43736,40.0577,-81.2366
+43738,39.8553,-82.1405
+43739,39.9031,-82.2863
+43740,39.9514,-82.2172
+43746,39.9654,-82.1839
+43747,39.8608,-81.1249
+43748,39.6924,-82.3163
+43749,40.1556,-81.5559
+43750,39.9969,-81.5132
+43754,39.7540,-81.2433
+43755,40.0533,-81.4324
+43756,39.6917,-81.7955
+43758,39.6279,-81.9454
+43759,40.0631,-81.0705
+43760,39.8883,-82.1932
+43761,39.6683,-82.1483
+43762,40.0300,-81.7400
+43764,39.7133,-82.1806
+43766,39.5932,-82.2528
+43767,40.0143,-81.8078
+43768,40.0378,-81.4447
+43771,39.8356,-81.9454
+43772,39.8861,-81.5266
+43773,39.9820,-81.2988
+43777,39.8291,-82.1041
+43778,40.0102,-81.3688
+43779,39.8196,-81.4278
+43780,39.9087,-81.4380
+43782,39.6218,-82.2125
+43783,39.8045,-82.2786
+43786,39.7109,-81.2770
+43787,39.5240,-81.8018
+43788,39.8055,-81.3339
+43791,39.8776,-82.0886
+43793,39.7451,-81.0961
+43802,40.0912,-81.8521
+43804,40.4508,-81.7409
+43805,40.3900,-81.9718
+43811,40.1922,-81.9430
+43812,40.2638,-81.8809
+43821,40.1368,-82.0005
+43822,40.1814,-82.1584
+43824,40.3639,-81.7584
+43830,40.0628,-82.1375
+43832,40.2734,-81.5783
+43836,40.2087,-81.7186
+43837,40.2984,-81.4779
+43840,40.4036,-81.6039
+43842,40.1374,-82.0118
+43843,40.3490,-82.1756
+43844,40.3337,-82.0511
+43845,40.2649,-81.7313
+43901,40.2167,-80.8662
+43902,39.8828,-80.9520
+43903,40.4721,-80.9733
+43905,40.1142,-80.8333
+43906,40.0111,-80.8087
+43907,40.2484,-81.0197
+43908,40.5063,-80.8740
+43909,40.0677,-80.8149
+43910,40.3727,-80.8263
+43912,40.0908,-80.7926
+43913,40.2682,-80.6376
+43914,39.7752,-80.9528
+43915,39.7457,-80.9316
+43917,40.2153,-80.7928
+43920,40.6772,-80.5943
+43925,40.4460,-80.8623
+43926,40.5091,-80.6217
+43928,40.0132,-80.8829
+43930,40.5632,-80.7628
+43931,39.6729,-80.8721
+43932,40.5286,-80.7463
+43933,39.9352,-80.8958
+43934,40.0761,-80.7938
+43935,40.1203,-80.7398
+43938,40.2985,-80.6750
+43939,40.1672,-80.8000
+43940,40.0290,-80.8273
+43942,39.8610,-80.8549
+43943,40.2089,-80.7323
+43944,40.4360,-80.7717
+43945,40.6320,-80.8501
+43946,39.6483,-80.9748
+43947,39.9550,-80.7915
+43948,40.2683,-80.7800
+43950,40.0969,-80.9247
+43951,40.1144,-81.0118
+43952,40.4091,-80.6653
+43953,40.3524,-80.7025
+43961,40.5235,-80.6304
+43962,40.6730,-80.8892
+43963,40.1714,-80.6969
+43964,40.4809,-80.6625
+43967,40.0265,-80.9462
+43968,40.6324,-80.6838
+43971,40.1591,-80.7134
+43972,40.1018,-80.9737
+43973,40.1903,-81.2763
+43974,40.1822,-80.8876
+43976,40.3780,-80.9047
+43977,40.1484,-81.1141
+43981,40.1844,-80.9943
+43983,40.1371,-81.1990
+43985,40.1618,-81.1321
+43986,40.3833,-80.9905
+43988,40.4044,-81.0982
+44001,41.3663,-82.2599
+44003,41.6157,-80.5859
+44004,41.8559,-80.7905
+44010,41.7653,-80.8475
+44011,41.4451,-82.0051
+44012,41.4973,-82.0175
+44017,41.3705,-81.8618
+44021,41.4433,-81.1445
+44022,41.4462,-81.4030
+44023,41.3848,-81.2857
+44024,41.5782,-81.1913
+44026,41.5281,-81.3247
+44028,41.3005,-81.9374
+44030,41.9033,-80.5799
+44032,41.6692,-80.6701
+44035,41.3700,-82.1360
+44039,41.3835,-82.0207
+44040,41.5310,-81.4112
+44041,41.7769,-80.9499
+44044,41.2663,-82.0418
+44045,41.7439,-81.2863
+44046,41.5415,-81.0803
+44047,41.7279,-80.7359
+44048,41.8503,-80.6393
+44049,41.2665,-82.3058
+44050,41.2487,-82.1282
+44052,41.4607,-82.1679
+44053,41.4301,-82.2222
+44054,41.4716,-82.0903
+44055,41.4341,-82.1341
+44056,41.3149,-81.5016
+44057,41.7601,-81.0603
+44060,41.6765,-81.3282
+44062,41.4511,-81.0346
+44064,41.5981,-81.0323
+44065,41.4548,-81.2292
+44067,41.3131,-81.5438
+44068,41.9062,-80.6788
+44070,41.4149,-81.9191
+44072,41.4712,-81.3249
+44074,41.2890,-82.2360
+44076,41.5281,-80.8148
+44077,41.6976,-81.2097
+44080,41.3684,-81.0578
+44081,41.7639,-81.1431
+44082,41.7619,-80.5675
+44084,41.6714,-80.8992
+44085,41.6033,-80.8745
+44086,41.6757,-81.0586
+44087,41.3171,-81.4435
+44089,41.3921,-82.3775
+44090,41.1675,-82.2284
+44092,41.5962,-81.4710
+44093,41.5362,-80.6133
+44094,41.6107,-81.3793
+44095,41.6523,-81.4417
+44099,41.5492,-80.9833
+44101,41.4899,-81.6718
+44102,41.4793,-81.7364
+44103,41.5163,-81.6429
+44104,41.4824,-81.6270
+44105,41.4499,-81.6321
+44106,41.5053,-81.6054
+44107,41.4862,-81.8010
+44108,41.5415,-81.6125
+44109,41.4441,-81.6984
+44110,41.5686,-81.5663
+44111,41.4578,-81.7899
+44112,41.5358,-81.5741
+44113,41.4832,-81.6972
+44114,41.5202,-81.6786
+44115,41.4935,-81.6712
+44116,41.4731,-81.8538
+44117,41.5707,-81.5264
+44118,41.5023,-81.5566
+44119,41.5883,-81.5487
+44120,41.4733,-81.5809
+44121,41.5262,-81.5324
+44122,41.4695,-81.5124
+44123,41.6047,-81.5241
+44124,41.4989,-81.4707
+44125,41.4058,-81.6097
+44126,41.4427,-81.8527
+44127,41.4710,-81.6488
+44128,41.4399,-81.5385
+44129,41.3905,-81.7353
+44130,41.3766,-81.7873
+44131,41.3833,-81.6547
+44132,41.6064,-81.4972
+44133,41.3159,-81.7430
+44134,41.3834,-81.7026
+44135,41.4236,-81.8259
+44136,41.3125,-81.8098
+44137,41.4090,-81.5628
+44138,41.3737,-81.9230
+44139,41.3833,-81.4442
+44140,41.4878,-81.9289
+44141,41.2997,-81.6165
+44142,41.3988,-81.8285
+44143,41.5532,-81.4743
+44144,41.4373,-81.7398
+44145,41.4495,-81.9302
+44146,41.3812,-81.5292
+44147,41.3182,-81.6793
+44149,41.3115,-81.8531
+44201,41.0287,-81.1843
+44202,41.3166,-81.3422
+44203,41.0201,-81.6307
+44212,41.2445,-81.8288
+44214,40.9519,-81.9998
+44215,41.0720,-81.8992
+44216,40.9458,-81.5817
+44217,40.9522,-81.9135
+44221,41.1393,-81.4749
+44223,41.1697,-81.5311
+44224,41.1763,-81.4365
+44230,40.9621,-81.6903
+44231,41.3030,-81.0705
+44232,40.9325,-81.4635
+44233,41.2491,-81.7379
+44234,41.3259,-81.1523
+44235,41.0311,-82.1167
+44236,41.2461,-81.4491
+44240,41.1330,-81.3424
+44241,41.2426,-81.3477
+44243,41.1478,-81.3405
+44250,41.0210,-81.4331
+44251,41.0282,-81.9276
+44253,41.1628,-82.0333
+44254,41.0454,-82.0125
+44255,41.2867,-81.2291
+44256,41.1414,-81.8595
+44260,41.0352,-81.3384
+44262,41.1396,-81.4361
+44264,41.2298,-81.5405
+44266,41.1690,-81.1970
+44270,40.9609,-81.7745
+44272,41.0898,-81.1805
+44273,41.0280,-81.8779
+44274,41.0994,-81.7285
+44275,41.0972,-82.1056
+44276,40.9397,-81.8360
+44278,41.0926,-81.4200
+44280,41.2403,-81.9278
+44281,41.0598,-81.7404
+44285,41.1626,-81.0596
+44286,41.2331,-81.6439
+44287,40.9402,-82.1045
+44288,41.2391,-81.0760
+44301,41.0435,-81.5240
+44302,41.0894,-81.5385
+44303,41.1045,-81.5374
+44304,41.0859,-81.5091
+44305,41.0766,-81.4627
+44306,41.0392,-81.4832
+44307,41.0692,-81.5465
+44308,41.0818,-81.5175
+44310,41.1092,-81.5000
+44311,41.0642,-81.5204
+44312,41.0065,-81.4385
+44313,41.1301,-81.5732
+44314,41.0408,-81.5579
+44319,40.9863,-81.5311
+44320,41.0731,-81.5824
+44321,41.1007,-81.6479
+44325,41.0761,-81.5123
+44333,41.1650,-81.6338
+44401,41.0272,-80.9382
+44402,41.3980,-80.8528
+44403,41.2405,-80.5827
+44404,41.3241,-80.5566
+44405,41.0780,-80.5924
+44406,41.0109,-80.7704
+44408,40.8850,-80.6879
+44410,41.3465,-80.7278
+44411,41.0477,-81.0593
+44412,41.0942,-81.0235
+44413,40.8448,-80.5487
+44415,40.7707,-80.7045
+44417,41.4333,-80.6633
+44418,41.3069,-80.6046
+44420,41.1699,-80.6715
+44423,40.7485,-80.8959
+44424,41.3220,-80.5832
+44425,41.1689,-80.5782
+44427,40.7137,-80.9617
+44428,41.4308,-80.5852
+44429,41.0951,-80.9742
+44430,41.2380,-80.9104
+44431,40.8376,-80.7511
+44432,40.7498,-80.7499
+44436,41.0587,-80.5351
+44437,41.1559,-80.7299
+44438,41.2397,-80.5307
+44439,41.4544,-80.9555
+44440,41.1369,-80.8063
+44441,40.7553,-80.5488
+44442,40.9662,-80.5461
+44443,40.9210,-80.5906
+44444,41.1756,-80.9777
+44445,40.8478,-80.6171
+44446,41.1895,-80.7475
+44449,40.9748,-81.0225
+44450,41.4457,-80.8196
+44451,41.0794,-80.8682
+44452,40.9474,-80.6640
+44454,40.9237,-80.5454
+44455,40.7723,-80.6102
+44460,40.9028,-80.8687
+44470,41.3003,-80.9727
+44471,41.0511,-80.5906
+44473,41.2466,-80.6627
+44481,41.1766,-80.9025
+44483,41.2636,-80.8170
+44484,41.2355,-80.7498
+44485,41.2404,-80.8478
+44490,40.9004,-80.7683
+44491,41.3700,-80.9637
+44493,40.8219,-80.8886
+44502,41.0828,-80.6395
+44503,41.0993,-80.6491
+44504,41.1235,-80.6547
+44505,41.1279,-80.6176
+44506,41.0930,-80.6264
+44507,41.0743,-80.6554
+44509,41.1109,-80.6972
+44510,41.1223,-80.6734
+44511,41.0691,-80.6967
+44512,41.0259,-80.6670
+44514,40.9959,-80.6083
+44515,41.1029,-80.7613
+44555,41.1073,-80.6487
+44601,40.9186,-81.1287
+44606,40.7347,-81.8001
+44607,40.6959,-81.0269
+44608,40.6564,-81.5928
+44609,40.9123,-80.9898
+44610,40.5609,-81.8009
+44611,40.6101,-82.0750
+44612,40.6331,-81.4760
+44613,40.7115,-81.6078
+44614,40.8882,-81.5878
+44615,40.5658,-81.0786
+44618,40.7704,-81.6811
+44619,40.9053,-80.9545
+44620,40.5856,-81.2278
+44621,40.4321,-81.2882
+44622,40.5511,-81.4837
+44624,40.6222,-81.6593
+44625,40.7140,-81.0226
+44626,40.6939,-81.3893
+44627,40.6641,-81.8364
+44628,40.5445,-82.1485
+44629,40.3495,-81.4532
+44630,40.9269,-81.4041
+44632,40.9630,-81.3054
+44633,40.6298,-81.9353
+44634,40.8380,-81.0414
+44637,40.4803,-82.0297
+44638,40.6471,-82.1326
+44639,40.4517,-81.2097
+44640,40.9855,-81.1507
+44641,40.8582,-81.2453
+44643,40.6383,-81.3089
+44644,40.6876,-81.1782
+44645,40.9097,-81.7182
+44646,40.8144,-81.4972
+44647,40.7944,-81.5650
+44651,40.6213,-80.9618
+44652,40.9008,-81.3302
+44653,40.4372,-81.3712
+44654,40.5379,-81.8709
+44656,40.5684,-81.3277
+44657,40.7447,-81.0949
+44659,40.6948,-81.7018
+44660,40.6242,-81.7726
+44661,40.5854,-82.1174
+44662,40.7110,-81.5551
+44663,40.4605,-81.4496
+44665,40.8356,-80.9871
+44666,40.8419,-81.6399
+44667,40.8338,-81.7652
+44669,40.7883,-81.1507
+44670,40.7630,-81.1879
+44671,40.6451,-81.3657
+44672,40.9200,-81.0253
+44675,40.5040,-81.2505
+44676,40.6908,-82.0338
+44677,40.8746,-81.8586
+44678,40.5648,-81.3642
+44680,40.5990,-81.5440
+44681,40.5008,-81.6636
+44682,40.3976,-81.4033
+44683,40.3648,-81.3251
+44685,40.9554,-81.4244
+44687,40.5395,-81.7103
+44688,40.6839,-81.2554
+44689,40.6476,-81.6592
+44690,40.6131,-81.6936
+44691,40.8060,-81.9776
+44693,40.2978,-81.1882
+44695,40.4420,-81.1702
+44697,40.6080,-81.4072
+44699,40.2888,-81.2890
+44702,40.7998,-81.3767
+44703,40.8109,-81.3813
+44704,40.8000,-81.3431
+44705,40.8333,-81.3320
+44706,40.7538,-81.4198
+44707,40.7603,-81.3471
+44708,40.8166,-81.4355
+44709,40.8422,-81.3863
+44710,40.7896,-81.4266
+44714,40.8363,-81.3583
+44718,40.8484,-81.4505
+44720,40.9035,-81.4333
+44721,40.8931,-81.3181
+44730,40.7670,-81.2658
+44802,41.0453,-83.4191
+44804,41.1071,-83.5354
+44805,40.8732,-82.3228
+44807,41.0612,-82.8643
+44809,41.1321,-83.2940
+44811,41.2463,-82.8466
+44813,40.5998,-82.5297
+44814,41.3241,-82.4722
+44815,41.2469,-83.2395
+44817,41.2041,-83.5450
+44818,40.9983,-82.9894
+44820,40.8184,-82.9717
+44822,40.5567,-82.3981
+44824,41.3833,-82.8059
+44825,40.9544,-82.9419
+44826,41.2423,-82.4776
+44827,40.8224,-82.7551
+44828,41.2340,-82.8595
+44830,41.1679,-83.3990
+44833,40.7096,-82.7958
+44836,41.2372,-83.0629
+44837,41.0212,-82.4727
+44838,40.7716,-82.2562
+44839,41.3798,-82.5496
+44840,40.7919,-82.1731
+44841,41.2513,-83.3113
+44842,40.6492,-82.2248
+44843,40.6895,-82.4076
+44844,40.9922,-83.2584
+44846,41.3194,-82.6058
+44847,41.2304,-82.7129
+44849,40.8086,-83.1319
+44850,41.0354,-82.6840
+44851,41.1092,-82.3916
+44853,41.0550,-83.3040
+44854,40.9436,-82.8678
+44855,41.1087,-82.5749
+44856,40.7940,-82.8563
+44857,41.2165,-82.5776
+44859,41.0220,-82.3307
+44861,41.2426,-83.1462
+44864,40.6676,-82.3206
+44865,40.9916,-82.6894
+44866,40.9240,-82.1978
+44867,41.1490,-82.9822
+44870,41.4195,-82.7132
+44874,40.9694,-82.3696
+44875,40.8900,-82.6517
+44878,40.9510,-82.5207
+44880,41.0335,-82.2189
+44881,40.8703,-82.8767
+44882,40.9467,-83.1402
+44883,41.1242,-83.1736
+44887,40.9162,-82.7907
+44889,41.2459,-82.3824
+44890,41.0852,-82.7106
+44901,40.7639,-82.5125
+44902,40.7589,-82.5110
+44903,40.7762,-82.5268
+44904,40.6637,-82.6145
+44905,40.7786,-82.4674
+44906,40.7645,-82.5750
+44907,40.7277,-82.5204
+45001,39.1381,-84.7128
+45002,39.1985,-84.7631
+45003,39.5866,-84.7865
+45005,39.5289,-84.2895
+45011,39.4266,-84.4976
+45013,39.4136,-84.6527
+45014,39.3257,-84.5524
+45015,39.3743,-84.5612
+45030,39.2572,-84.7633
+45032,39.5026,-84.0076
+45033,39.1796,-84.7647
+45034,39.3565,-84.2463
+45036,39.4430,-84.2164
+45039,39.3274,-84.2367
+45040,39.3508,-84.3132
+45041,39.2109,-84.7025
+45042,39.5569,-84.4202
+45044,39.4824,-84.4102
+45050,39.4444,-84.3659
+45051,39.0998,-84.6551
+45052,39.1445,-84.7791
+45053,39.3541,-84.7878
+45054,39.4388,-84.0851
+45055,39.4571,-84.5109
+45056,39.4874,-84.7379
+45062,39.4838,-84.5555
+45064,39.5708,-84.6103
+45065,39.3706,-84.2140
+45066,39.5480,-84.2176
+45067,39.4948,-84.4810
+45068,39.5294,-84.0405
+45069,39.3435,-84.4123
+45070,39.5897,-84.5581
+45101,38.6970,-83.7267
+45102,39.0172,-84.2043
+45103,39.0916,-84.1437
+45105,38.7504,-83.6124
+45106,38.9450,-84.0649
+45107,39.2875,-83.9764
+45111,39.2011,-84.2870
+45112,38.7949,-84.1400
+45113,39.3999,-83.9854
+45115,38.8082,-83.7073
+45118,39.1728,-83.9171
+45119,38.8781,-83.9992
+45120,38.8284,-84.0900
+45121,38.8669,-83.9083
+45122,39.2256,-84.1294
+45123,39.3488,-83.3888
+45130,38.9088,-83.9990
+45131,38.7898,-83.9670
+45132,39.3439,-83.5995
+45133,39.1598,-83.5711
+45135,39.3476,-83.5419
+45140,39.2545,-84.2469
+45142,39.2080,-83.8035
+45144,38.7042,-83.6151
+45146,39.3141,-83.8042
+45147,39.2108,-84.3026
+45148,39.2902,-83.8873
+45150,39.1665,-84.2304
+45152,39.3515,-84.1202
+45153,38.8628,-84.1896
+45154,39.0634,-83.9168
+45155,39.0425,-83.7522
+45156,38.8099,-84.2136
+45157,38.9537,-84.2302
+45158,39.1823,-84.0777
+45159,39.3368,-83.6917
+45160,39.1237,-84.1370
+45162,39.2697,-84.0747
+45164,39.5532,-83.7855
+45166,39.4766,-83.6878
+45167,38.7817,-83.7897
+45168,38.8498,-83.7703
+45169,39.5065,-83.6509
+45171,39.0136,-83.7964
+45172,39.0745,-83.3869
+45174,39.1586,-84.3122
+45176,39.0793,-84.0297
+45177,39.4607,-83.8443
+45202,39.1067,-84.5042
+45203,39.1053,-84.5335
+45204,39.0896,-84.5781
+45205,39.1105,-84.5751
+45206,39.1273,-84.4846
+45207,39.1420,-84.4712
+45208,39.1352,-84.4339
+45209,39.1534,-84.4276
+45211,39.1587,-84.5997
+45212,39.1640,-84.4518
+45213,39.1812,-84.4200
+45214,39.1150,-84.5344
+45215,39.2354,-84.4622
+45216,39.2005,-84.4811
+45217,39.1661,-84.4978
+45218,39.2662,-84.5198
+45219,39.1266,-84.5120
+45220,39.1467,-84.5203
+45223,39.1710,-84.5514
+45224,39.2022,-84.5322
+45225,39.1438,-84.5555
+45226,39.1117,-84.4217
+45227,39.1532,-84.3858
+45229,39.1535,-84.4862
+45230,39.0737,-84.3893
+45231,39.2475,-84.5348
+45232,39.1857,-84.5203
+45233,39.1169,-84.6726
+45236,39.2097,-84.3972
+45237,39.1946,-84.4510
+45238,39.1092,-84.6088
+45239,39.2036,-84.5806
+45240,39.2862,-84.5260
+45241,39.2763,-84.3997
+45242,39.2428,-84.3530
+45243,39.1886,-84.3360
+45244,39.1141,-84.3263
+45245,39.0599,-84.2804
+45246,39.2902,-84.4638
+45247,39.2167,-84.6611
+45248,39.1644,-84.6623
+45249,39.2753,-84.3269
+45251,39.2746,-84.5978
+45252,39.2702,-84.6281
+45255,39.0596,-84.3283
+45267,39.1381,-84.5032
+45301,39.7110,-84.0230
+45302,40.4059,-84.2091
+45303,40.2140,-84.6596
+45304,39.9815,-84.5250
+45305,39.6408,-84.0857
+45306,40.4592,-84.1871
+45307,39.5806,-83.7234
+45308,40.1293,-84.4574
+45309,39.8427,-84.4147
+45310,40.3529,-84.6427
+45311,39.6288,-84.6589
+45312,40.0522,-84.0930
+45314,39.7420,-83.7810
+45315,39.8577,-84.3388
+45316,39.7975,-83.8252
+45317,40.1783,-84.0182
+45318,40.1270,-84.3544
+45319,39.9161,-83.9433
+45320,39.7507,-84.6813
+45321,39.8653,-84.6870
+45322,39.9033,-84.3283
+45323,39.8514,-83.9280
+45324,39.8207,-84.0003
+45325,39.6926,-84.4302
+45326,40.1399,-84.0945
+45327,39.6288,-84.4030
+45328,40.1163,-84.4968
+45330,39.6483,-84.5287
+45331,40.0986,-84.6505
+45332,40.0003,-84.7760
+45333,40.2495,-84.3318
+45334,40.4432,-84.0478
+45335,39.6398,-83.7412
+45336,40.4427,-84.2573
+45337,39.9815,-84.4226
+45338,39.8509,-84.5439
+45339,40.0090,-84.3407
+45340,40.3686,-84.0522
+45341,39.8729,-84.0229
+45342,39.6293,-84.2760
+45344,39.9538,-84.0097
+45345,39.7392,-84.3993
+45346,39.9821,-84.7100
+45347,39.8859,-84.7631
+45348,40.3300,-84.6564
+45349,39.9890,-83.9406
+45350,40.3247,-84.5736
+45351,40.3396,-84.4957
+45352,40.0501,-84.7443
+45353,40.2926,-84.0427
+45354,39.9104,-84.3998
+45356,40.1628,-84.2282
+45358,39.9873,-84.4878
+45359,40.0499,-84.3508
+45360,40.3302,-84.0922
+45361,39.9637,-84.4148
+45362,40.2925,-84.6277
+45363,40.2393,-84.4001
+45365,40.2826,-84.1558
+45368,39.8449,-83.6480
+45369,39.9527,-83.5942
+45370,39.6084,-84.0330
+45371,39.9409,-84.1660
+45372,40.0139,-83.8384
+45373,40.0330,-84.1956
+45377,39.9040,-84.2181
+45378,39.9029,-84.4878
+45380,40.2420,-84.5083
+45381,39.7307,-84.5244
+45382,39.9015,-84.6119
+45383,39.9573,-84.3331
+45384,39.7155,-83.8891
+45385,39.6691,-83.9140
+45387,39.7994,-83.8876
+45388,40.3280,-84.4802
+45389,40.0563,-84.0253
+45390,40.2152,-84.7605
+45402,39.7601,-84.2076
+45403,39.7634,-84.1497
+45404,39.7885,-84.1527
+45405,39.7922,-84.2160
+45406,39.7854,-84.2422
+45409,39.7213,-84.1880
+45410,39.7476,-84.1590
+45414,39.8394,-84.2107
+45415,39.8356,-84.2574
+45416,39.8075,-84.2578
+45417,39.7331,-84.2833
+45419,39.7143,-84.1676
+45420,39.7188,-84.1292
+45423,39.7604,-84.1911
+45424,39.8513,-84.1027
+45426,39.8008,-84.3135
+45428,39.7421,-84.2595
+45429,39.6836,-84.1627
+45430,39.7181,-84.0774
+45431,39.7638,-84.0842
+45432,39.7398,-84.0860
+45433,39.8228,-84.0485
+45434,39.7214,-84.0318
+45435,39.7811,-84.0631
+45439,39.6984,-84.2295
+45440,39.6734,-84.0999
+45449,39.6641,-84.2380
+45458,39.6024,-84.1564
+45459,39.6465,-84.1670
+45469,39.7403,-84.1791
+45501,39.9263,-83.8074
+45502,40.0012,-83.9000
+45503,39.9651,-83.7675
+45504,39.9470,-83.8649
+45505,39.9017,-83.7575
+45506,39.9080,-83.8367
+45601,39.3121,-82.9571
+45612,39.2070,-83.2788
+45613,39.0342,-82.8509
+45614,38.9297,-82.2776
+45616,38.7396,-83.2866
+45617,39.2796,-83.1556
+45618,38.8851,-83.6163
+45619,38.4625,-82.4502
+45620,38.9559,-82.1477
+45621,39.1114,-82.6099
+45622,39.3523,-82.4874
+45623,38.6417,-82.2698
+45624,39.1730,-83.3487
+45628,39.3891,-83.1938
+45629,38.6576,-82.8159
+45630,38.6974,-83.0929
+45631,38.8218,-82.2643
+45634,39.1844,-82.4865
+45636,38.5817,-82.8164
+45638,38.5558,-82.6719
+45640,39.0197,-82.6563
+45642,39.0469,-83.0541
+45644,39.4477,-82.8347
+45645,38.5664,-82.5270
+45646,39.0752,-83.3228
+45647,39.3012,-82.7324
+45648,38.9181,-83.0077
+45650,38.7383,-83.4223
+45651,39.2854,-82.4835
+45652,38.8282,-83.0798
+45653,38.8896,-82.8220
+45654,39.3665,-82.3777
+45656,38.8765,-82.5913
+45657,38.8437,-83.2365
+45658,38.7629,-82.4116
+45659,38.6550,-82.6411
+45660,38.9882,-83.3565
+45661,39.0456,-83.1082
+45662,38.7923,-82.9119
+45663,38.7362,-83.1098
+45669,38.4984,-82.3584
+45671,38.9703,-83.2480
+45672,39.2212,-82.6657
+45673,39.2040,-82.8115
+45674,38.8779,-82.3809
+45677,38.7960,-82.7557
+45678,38.6104,-82.3796
+45679,38.9778,-83.5710
+45680,38.4678,-82.5468
+45681,39.2997,-83.2578
+45682,38.8069,-82.6949
+45684,38.6514,-83.1906
+45685,38.9318,-82.4565
+45686,39.0093,-82.3679
+45688,38.7311,-82.5432
+45690,39.1457,-83.0250
+45692,39.1158,-82.5420
+45693,38.8077,-83.5324
+45694,38.7439,-82.7809
+45695,39.1615,-82.3727
+45696,38.6012,-82.4521
+45697,38.9316,-83.6737
+45698,39.2943,-82.4005
+45699,38.8741,-82.9705
+45701,39.3117,-82.0739
+45710,39.1959,-82.2111
+45711,39.4283,-81.9320
+45714,39.3170,-81.6143
+45715,39.6107,-81.6273
+45716,39.4630,-82.1842
+45719,39.4002,-82.1285
+45720,39.0936,-81.9231
+45721,39.5658,-81.5834
+45723,39.2263,-81.8235
+45724,39.3834,-81.8004
+45727,39.6456,-81.4786
+45729,39.4184,-81.6044
+45732,39.5170,-82.0640
+45734,39.6411,-81.1957
+45735,39.2450,-81.9204
+45739,39.1911,-81.7464
+45740,39.4770,-82.0801
+45741,39.0751,-82.2471
+45742,39.2871,-81.7304
+45743,39.0753,-81.8348
+45744,39.5488,-81.4940
+45745,39.6062,-81.3296
+45746,39.5974,-81.4510
+45750,39.4298,-81.4321
+45760,39.0185,-82.1297
+45761,39.4258,-82.0754
+45764,39.4425,-82.2315
+45766,39.3192,-82.2628
+45767,39.5449,-81.1384
+45768,39.4156,-81.2573
+45769,39.1093,-82.0510
+45770,38.9872,-81.8074
+45771,38.9875,-81.9025
+45772,39.1487,-81.8192
+45773,39.4375,-81.2707
+45775,39.0876,-82.1560
+45776,39.1814,-82.0241
+45778,39.3535,-81.8931
+45779,39.0012,-81.9707
+45780,39.3704,-82.1310
+45782,39.4859,-82.0816
+45783,39.1751,-81.8393
+45784,39.3883,-81.6779
+45786,39.5027,-81.6551
+45788,39.5093,-81.3785
+45789,39.5513,-81.2550
+45801,40.7729,-84.0341
+45804,40.7096,-84.0612
+45805,40.7278,-84.1628
+45806,40.6724,-84.1262
+45807,40.8060,-84.1717
+45808,40.8315,-83.9734
+45809,40.8430,-84.1851
+45810,40.7844,-83.8133
+45812,40.6819,-83.8138
+45813,41.1923,-84.7332
+45814,40.8991,-83.6043
+45815,41.1569,-83.9426
+45816,41.0045,-83.7940
+45817,40.8788,-83.8840
+45819,40.6240,-84.2604
+45820,40.8308,-84.0845
+45821,41.2258,-84.5609
+45822,40.5557,-84.5986
+45826,40.4362,-84.4937
+45827,40.9981,-84.2989
+45828,40.4836,-84.6829
+45830,40.9085,-84.0959
+45831,41.1138,-84.2550
+45832,40.9264,-84.7301
+45833,40.8328,-84.3529
+45835,40.7544,-83.6999
+45836,40.7934,-83.6432
+45838,40.7404,-84.4778
+45840,41.0259,-83.6489
+45841,40.8812,-83.7320
+45843,40.7863,-83.5462
+45844,40.9138,-84.2874
+45845,40.3313,-84.3825
+45846,40.4120,-84.7481
+45848,41.0245,-84.0771
+45849,41.0138,-84.4467
+45850,40.7047,-83.9183
+45851,41.0327,-84.6029
+45853,40.9865,-84.1952
+45854,40.7601,-83.9521
+45855,41.0882,-84.5835
+45856,41.1118,-83.9998
+45858,41.1071,-83.8021
+45859,40.6931,-83.7857
+45860,40.4003,-84.5174
+45861,41.0859,-84.4257
+45862,40.6705,-84.5152
+45863,40.9108,-84.4525
+45864,41.1002,-84.1367
+45865,40.3943,-84.3729
+45866,40.4888,-84.5505
+45867,40.8955,-83.5384
+45868,40.9710,-83.8512
+45869,40.4568,-84.3905
+45870,40.5563,-83.9514
+45871,40.4891,-84.2940
+45872,41.1892,-83.6824
+45873,41.1178,-84.3902
+45874,40.7878,-84.6812
+45875,41.0197,-84.0586
+45876,40.9342,-84.3387
+45877,40.9591,-83.9336
+45879,41.1283,-84.5631
+45880,41.0679,-84.7416
+45881,40.9462,-83.7800
+45882,40.6834,-84.6773
+45883,40.3995,-84.6196
+45884,40.5467,-84.0842
+45885,40.5699,-84.3906
+45886,40.9969,-84.6208
+45887,40.7109,-84.3651
+45888,40.6023,-84.0857
+45889,41.1526,-83.6386
+45890,40.9799,-83.4948
+45891,40.8740,-84.5771
+45893,40.8815,-84.1454
+45894,40.7594,-84.4711
+45895,40.5630,-84.1453
+45896,40.6079,-83.9421
+45897,40.8415,-83.6561
+45898,40.7339,-84.7511
+45899,40.8027,-84.7723
+46001,40.2514,-85.6581
+46011,40.1301,-85.7608
+46012,40.1461,-85.6231
+46013,40.0512,-85.6857
+46016,40.0978,-85.6815
+46017,40.0693,-85.6072
+46030,40.1698,-86.0206
+46031,40.2037,-86.0096
+46032,39.9666,-86.1751
+46033,39.9793,-86.0856
+46034,40.1354,-86.0485
+46035,40.1892,-86.6790
+46036,40.2969,-85.8329
+46037,39.9628,-85.9439
+46038,39.9667,-86.0172
+46039,40.3702,-86.3117
+46040,39.9273,-85.8343
+46041,40.2950,-86.4939
+46044,40.2118,-85.7927
+46045,40.2896,-86.1487
+46047,40.2842,-85.9474
+46048,39.9543,-85.8075
+46049,40.2950,-86.2218
+46050,40.2052,-86.3463
+46051,40.0586,-85.8379
+46052,40.0443,-86.4610
+46055,39.8884,-85.9022
+46056,39.9727,-85.6069
+46057,40.3380,-86.3780
+46058,40.3598,-86.6478
+46060,40.0626,-85.9332
+46062,40.0613,-86.0559
+46063,40.2718,-85.7240
+46064,39.9817,-85.7388
+46065,40.4213,-86.6100
+46068,40.3751,-86.1112
+46069,40.1387,-86.2303
+46070,40.3461,-85.6609
+46071,40.1105,-86.6080
+46072,40.2853,-86.0688
+46074,40.0361,-86.1737
+46075,40.0207,-86.3308
+46076,40.3707,-85.9461
+46077,39.9819,-86.2789
+46102,39.9956,-86.6199
+46103,39.6896,-86.6138
+46104,39.6585,-85.6018
+46105,39.7648,-86.8135
+46106,39.5132,-86.2051
+46107,39.7166,-86.0916
+46110,39.5487,-85.9123
+46111,39.5420,-86.3674
+46112,39.8639,-86.3824
+46113,39.6363,-86.3026
+46115,39.7377,-85.5669
+46117,39.8147,-85.6160
+46118,39.6587,-86.5313
+46120,39.5114,-86.7891
+46121,39.6790,-86.6788
+46122,39.7733,-86.5511
+46123,39.7644,-86.4034
+46124,39.3710,-85.9479
+46125,39.5219,-86.6418
+46126,39.6180,-85.8803
+46127,39.7177,-85.3158
+46128,39.6586,-86.7426
+46130,39.6727,-85.8350
+46131,39.4735,-86.0436
+46133,39.5951,-85.3108
+46135,39.6546,-86.8940
+46140,39.8020,-85.7721
+46142,39.6218,-86.1753
+46143,39.5957,-86.1140
+46144,39.6658,-85.6471
+46146,39.5796,-85.5696
+46147,39.9711,-86.6228
+46148,39.7799,-85.4752
+46149,39.8831,-86.5535
+46150,39.5455,-85.6029
+46151,39.4605,-86.4184
+46154,39.8564,-85.7704
+46155,39.7436,-85.4295
+46156,39.4894,-85.4945
+46157,39.5536,-86.5287
+46158,39.5794,-86.3736
+46160,39.3511,-86.2687
+46161,39.6685,-85.6969
+46162,39.5558,-85.9539
+46163,39.7286,-85.9061
+46164,39.3026,-86.1216
+46165,39.8498,-86.6402
+46166,39.4269,-86.5903
+46167,39.8770,-86.4678
+46168,39.6900,-86.3927
+46170,39.5716,-86.8627
+46171,39.5251,-86.9609
+46172,39.8278,-86.8185
+46173,39.6008,-85.4309
+46175,39.8157,-86.9664
+46176,39.5265,-85.7734
+46180,39.5922,-86.6185
+46181,39.3722,-86.1716
+46182,39.4586,-85.6694
+46183,39.6540,-86.2813
+46184,39.5581,-86.0669
+46186,39.8942,-85.6448
+46201,39.7737,-86.1096
+46202,39.7841,-86.1616
+46203,39.7368,-86.0958
+46204,39.7706,-86.1571
+46205,39.8294,-86.1344
+46206,39.7603,-86.1611
+46208,39.8191,-86.1711
+46214,39.7928,-86.2915
+46216,39.8660,-86.0093
+46217,39.6746,-86.1915
+46218,39.8071,-86.0996
+46219,39.7839,-86.0446
+46220,39.8671,-86.1088
+46221,39.6960,-86.2387
+46222,39.7910,-86.2153
+46224,39.7954,-86.2569
+46225,39.7403,-86.1633
+46226,39.8392,-86.0486
+46227,39.6748,-86.1327
+46228,39.8482,-86.2007
+46229,39.7882,-85.9770
+46231,39.7235,-86.3306
+46234,39.8106,-86.3263
+46235,39.8370,-85.9745
+46236,39.8966,-85.9682
+46237,39.6719,-86.0748
+46239,39.7215,-85.9990
+46240,39.9060,-86.1246
+46241,39.7304,-86.2778
+46250,39.9008,-86.0634
+46254,39.8483,-86.2697
+46256,39.9084,-86.0131
+46259,39.6509,-85.9815
+46260,39.8969,-86.1785
+46268,39.8974,-86.2333
+46278,39.8929,-86.2981
+46280,39.9338,-86.1352
+46290,39.9345,-86.1619
+46301,41.6918,-86.9733
+46302,41.3640,-87.1239
+46303,41.3736,-87.4793
+46304,41.6145,-87.0504
+46307,41.4021,-87.3254
+46310,41.1799,-87.2308
+46311,41.4684,-87.5092
+46312,41.6505,-87.4511
+46319,41.5218,-87.4219
+46320,41.6089,-87.4976
+46321,41.5475,-87.5033
+46322,41.5466,-87.4576
+46323,41.5894,-87.4537
+46324,41.5838,-87.5020
+46327,41.6486,-87.4993
+46340,41.3826,-86.7707
+46341,41.3097,-87.2146
+46342,41.5182,-87.2449
+46345,41.5304,-86.6999
+46346,41.4782,-86.6933
+46347,41.3050,-87.0086
+46348,41.3098,-86.8624
+46349,41.1120,-87.4249
+46350,41.6071,-86.7217
+46356,41.2637,-87.4172
+46360,41.6892,-86.8651
+46365,41.6023,-86.5442
+46366,41.2136,-86.7680
+46368,41.5916,-87.1789
+46371,41.6786,-86.5930
+46373,41.4418,-87.4678
+46374,41.2045,-86.8973
+46375,41.4915,-87.4529
+46376,41.1847,-87.4758
+46377,41.1943,-87.3478
+46379,41.1568,-87.4302
+46381,41.1763,-87.3345
+46382,41.4613,-86.7620
+46383,41.4579,-87.0020
+46385,41.4644,-87.1241
+46390,41.4195,-86.8815
+46391,41.5541,-86.9190
+46392,41.1785,-87.0550
+46393,41.5139,-87.1680
+46394,41.6820,-87.4999
+46402,41.6178,-87.3378
+46403,41.6105,-87.2582
+46404,41.5849,-87.3745
+46405,41.5738,-87.2632
+46406,41.6061,-87.4087
+46407,41.5784,-87.3304
+46408,41.5459,-87.3685
+46409,41.5483,-87.3242
+46410,41.4820,-87.3347
+46501,41.2216,-86.2458
+46502,41.2610,-85.9766
+46504,41.3012,-86.1116
+46506,41.4626,-86.1724
+46507,41.7210,-85.8156
+46508,41.1551,-85.9694
+46510,41.1217,-85.8707
+46511,41.2207,-86.4284
+46513,41.3629,-86.4481
+46514,41.7227,-85.9770
+46516,41.6789,-85.9480
+46517,41.6273,-85.9979
+46524,41.3056,-86.0141
+46526,41.5588,-85.8766
+46528,41.6005,-85.7849
+46530,41.7409,-86.1269
+46531,41.3570,-86.5194
+46532,41.4113,-86.6305
+46534,41.2853,-86.6178
+46536,41.5146,-86.2980
+46537,41.4573,-86.3066
+46538,41.3302,-85.8234
+46539,41.1631,-86.0265
+46540,41.6715,-85.6967
+46542,41.3966,-85.8697
+46543,41.5334,-85.6712
+46544,41.6152,-86.1283
+46545,41.6935,-86.1466
+46550,41.4469,-86.0006
+46552,41.7063,-86.4819
+46553,41.4800,-85.8509
+46554,41.5574,-86.4170
+46555,41.3292,-85.6801
+46556,41.7019,-86.2448
+46561,41.6658,-86.0715
+46562,41.2083,-85.6849
+46563,41.3554,-86.3260
+46565,41.6912,-85.5837
+46567,41.4158,-85.7323
+46570,41.2080,-86.1201
+46571,41.5655,-85.5470
+46572,41.4081,-86.3931
+46573,41.5444,-86.0697
+46574,41.4820,-86.4866
+46580,41.2138,-85.8695
+46582,41.2797,-85.8516
+46590,41.2191,-85.8046
+46595,41.5263,-86.1634
+46601,41.6703,-86.2527
+46613,41.6536,-86.2663
+46614,41.6057,-86.2796
+46615,41.6740,-86.2117
+46616,41.6969,-86.2670
+46617,41.6846,-86.2348
+46619,41.6609,-86.3538
+46624,41.7025,-86.2516
+46628,41.7202,-86.3202
+46635,41.7144,-86.2017
+46637,41.7337,-86.2427
+46701,41.3608,-85.4312
+46702,40.8205,-85.6221
+46703,41.6549,-85.0115
+46704,41.1037,-85.2921
+46705,41.5187,-85.0596
+46706,41.3416,-85.0327
+46710,41.3522,-85.2505
+46711,40.6620,-84.9269
+46714,40.7227,-85.1765
+46721,41.4240,-84.8728
+46723,41.2458,-85.3268
+46725,41.1534,-85.4741
+46730,41.4584,-85.1516
+46731,40.7935,-85.0996
+46732,41.3720,-85.6257
+46733,40.8305,-84.9397
+46737,41.7172,-84.9052
+46738,41.3189,-85.1489
+46740,40.6043,-84.9648
+46741,41.2170,-84.9512
+46742,41.5486,-84.8791
+46743,41.2151,-84.8532
+46745,40.9519,-85.0088
+46746,41.7254,-85.3449
+46747,41.5657,-85.1580
+46748,41.2486,-85.1611
+46750,40.8764,-85.4974
+46755,41.4493,-85.2751
+46759,40.6039,-85.1785
+46760,41.3455,-85.5527
+46761,41.6344,-85.3775
+46763,41.2970,-85.2491
+46764,41.2144,-85.6202
+46765,41.2331,-85.0323
+46766,40.7088,-85.2886
+46767,41.4615,-85.5741
+46770,40.8270,-85.3206
+46771,41.6943,-85.2961
+46772,40.7221,-84.9116
+46773,40.9840,-84.8759
+46774,41.0892,-84.9724
+46776,41.7287,-85.1663
+46777,40.8691,-85.1476
+46778,40.6038,-85.1621
+46779,41.5640,-85.0275
+46781,40.6324,-85.2689
+46783,40.9693,-85.3573
+46784,41.5005,-85.3884
+46785,41.3232,-84.8778
+46786,41.5315,-85.2724
+46787,41.0663,-85.6197
+46788,41.2729,-84.9080
+46789,41.5827,-85.1974
+46791,40.8377,-85.2516
+46792,40.6843,-85.4433
+46793,41.4523,-85.0153
+46794,41.4622,-85.4522
+46795,41.5589,-85.3274
+46796,41.3367,-85.4958
+46797,41.1284,-84.8590
+46798,40.9426,-85.2211
+46799,40.9159,-85.2799
+46802,41.0693,-85.1652
+46803,41.0703,-85.0861
+46804,41.0542,-85.2391
+46805,41.1001,-85.1177
+46806,41.0465,-85.0922
+46807,41.0449,-85.1476
+46808,41.0977,-85.1771
+46809,40.9997,-85.2183
+46814,41.0487,-85.3059
+46815,41.1028,-85.0587
+46816,41.0028,-85.0459
+46818,41.1421,-85.2579
+46819,40.9746,-85.1336
+46825,41.1570,-85.1283
+46835,41.1530,-85.0407
+46845,41.2120,-85.1088
+46901,40.5313,-86.1695
+46902,40.4373,-86.0946
+46910,41.0438,-86.0364
+46911,40.6252,-85.9426
+46913,40.5036,-86.4974
+46914,40.6286,-86.0948
+46915,40.4783,-86.3864
+46917,40.6269,-86.4750
+46919,40.5942,-85.8696
+46920,40.4646,-86.4950
+46922,41.1410,-86.4256
+46923,40.6073,-86.6423
+46926,40.8879,-86.0500
+46928,40.4059,-85.6823
+46929,40.5547,-86.4764
+46930,40.4095,-85.5726
+46931,40.9469,-86.2646
+46932,40.5954,-86.2686
+46933,40.4788,-85.5808
+46936,40.4843,-85.9278
+46937,40.4153,-86.0369
+46938,40.4303,-85.5937
+46939,40.9929,-86.4005
+46940,40.6909,-85.6892
+46941,40.8301,-85.6986
+46943,40.9726,-85.8400
+46945,41.1211,-86.3852
+46946,41.0393,-85.7302
+46947,40.7610,-86.3731
+46950,40.8882,-86.3649
+46951,40.9476,-86.1054
+46952,40.5994,-85.6292
+46953,40.5194,-85.6451
+46957,40.3887,-85.4991
+46958,40.8181,-86.1211
+46959,40.6128,-86.1123
+46960,41.1610,-86.5161
+46961,40.7670,-86.1924
+46962,40.9885,-85.7684
+46965,40.4160,-86.1018
+46967,40.6950,-86.1948
+46968,41.1705,-86.5518
+46970,40.7578,-86.0612
+46971,40.6606,-86.1617
+46974,40.9519,-85.9335
+46975,41.0750,-86.2515
+46978,40.8587,-86.5111
+46979,40.4295,-86.2759
+46980,40.9560,-85.7415
+46982,41.0519,-85.8779
+46984,40.6677,-85.8298
+46985,40.9595,-86.5805
+46986,40.4948,-85.8193
+46987,40.5688,-85.7654
+46988,40.8771,-86.2347
+46989,40.4486,-85.4814
+46990,40.9024,-85.7276
+46991,40.6280,-85.5142
+46992,40.7845,-85.8305
+46994,40.6673,-86.2545
+46996,41.0620,-86.6580
+46998,40.5755,-86.3508
+47001,39.0565,-84.9561
+47003,39.5597,-84.8343
+47006,39.2859,-85.2127
+47010,39.5016,-84.8487
+47011,38.8711,-85.0616
+47012,39.4273,-84.9835
+47016,39.3722,-84.8903
+47017,38.9405,-85.1814
+47018,38.9919,-85.1042
+47020,38.8176,-84.9236
+47021,38.9702,-85.1486
+47022,39.2072,-84.9509
+47023,39.0711,-85.3769
+47024,39.4769,-85.1990
+47025,39.1533,-84.8740
+47030,39.4242,-85.1326
+47031,39.1305,-85.1484
+47032,39.0806,-85.0560
+47033,39.2822,-85.1754
+47034,39.2043,-85.3273
+47035,39.3101,-84.9041
+47036,39.3859,-85.2309
+47037,39.1695,-85.3257
+47038,38.8503,-84.8499
+47040,38.9284,-84.9113
+47041,39.2341,-85.0838
+47042,39.0194,-85.2551
+47043,38.7927,-85.1033
+47060,39.2920,-84.8679
+47102,38.7553,-85.7974
+47104,38.5559,-85.4243
+47106,38.4643,-85.8999
+47108,38.6462,-86.2570
+47110,38.0954,-86.2077
+47111,38.4663,-85.6325
+47112,38.1861,-86.1454
+47114,38.2875,-86.0734
+47115,38.3445,-86.2168
+47116,38.3266,-86.6182
+47117,38.1066,-85.9674
+47118,38.3000,-86.4831
+47119,38.3719,-85.8815
+47120,38.4604,-86.1887
+47122,38.3060,-85.9848
+47123,38.2856,-86.4718
+47124,38.3651,-86.0044
+47125,38.4617,-86.3039
+47126,38.5473,-85.7762
+47129,38.3131,-85.7686
+47130,38.3324,-85.6961
+47135,38.0488,-86.0744
+47136,38.2347,-85.9656
+47137,38.1525,-86.4337
+47138,38.6825,-85.5847
+47140,38.3843,-86.3707
+47141,38.5480,-85.6121
+47142,38.0616,-86.2014
+47143,38.4685,-85.7751
+47145,38.3299,-86.3066
+47147,38.5995,-85.5338
+47150,38.2836,-85.8476
+47160,38.1572,-86.0500
+47161,38.3218,-86.1036
+47162,38.5488,-85.4914
+47163,38.5452,-85.6792
+47164,38.4132,-86.0958
+47165,38.5022,-86.0048
+47166,38.3067,-86.1690
+47167,38.6070,-86.0935
+47170,38.6852,-85.8441
+47172,38.3995,-85.7743
+47174,38.2272,-86.4820
+47175,38.3582,-86.5547
+47177,38.5897,-85.7918
+47201,39.1482,-85.9994
+47203,39.2304,-85.8323
+47220,38.8779,-86.0550
+47223,39.0557,-85.4793
+47224,38.8904,-85.2280
+47225,39.4355,-85.3445
+47226,39.2826,-85.8691
+47227,38.8676,-85.6542
+47229,38.8071,-85.8648
+47230,38.7924,-85.6251
+47231,38.9009,-85.4946
+47232,39.1109,-85.7908
+47234,39.3761,-85.7684
+47235,39.0180,-86.1383
+47236,39.1517,-85.7253
+47240,39.3060,-85.4784
+47243,38.6687,-85.4822
+47244,39.2179,-85.7024
+47246,39.2982,-85.7641
+47247,39.0597,-85.8879
+47250,38.8115,-85.3621
+47260,38.8367,-86.1978
+47263,39.3088,-85.3285
+47264,38.9790,-86.2507
+47265,39.0086,-85.6274
+47270,38.8393,-85.7229
+47272,39.4110,-85.6214
+47273,39.0758,-85.7368
+47274,38.9662,-85.9257
+47280,39.2966,-85.9505
+47281,38.7885,-86.1063
+47282,38.9854,-85.6100
+47283,39.1700,-85.5879
+47302,40.1295,-85.3740
+47303,40.2716,-85.3778
+47304,40.2363,-85.4598
+47305,40.1941,-85.3859
+47306,40.2068,-85.4072
+47320,40.2717,-85.2728
+47324,39.7412,-84.8517
+47325,39.6936,-85.0128
+47326,40.5487,-84.9673
+47327,39.8335,-85.1788
+47330,39.7862,-85.0223
+47331,39.6241,-85.1573
+47334,40.1062,-85.5235
+47335,39.8115,-85.2066
+47336,40.3980,-85.2120
+47337,39.8028,-85.4373
+47338,40.3424,-85.3374
+47339,39.9388,-85.0791
+47340,40.1808,-85.1337
+47341,39.9723,-84.8917
+47342,40.3286,-85.5080
+47344,39.8785,-85.4640
+47345,39.8939,-85.0602
+47346,39.9316,-85.1682
+47348,40.4662,-85.3404
+47351,39.9045,-85.5200
+47352,39.7957,-85.3671
+47353,39.6231,-84.9252
+47354,40.0408,-85.1925
+47355,40.0442,-84.9271
+47356,40.0315,-85.5074
+47357,39.7514,-85.1469
+47358,40.0573,-85.1130
+47359,40.5522,-85.2865
+47360,40.0113,-85.2582
+47361,40.0042,-85.3849
+47362,39.9320,-85.3696
+47366,39.8612,-85.2606
+47367,40.0837,-85.3921
+47368,40.1822,-85.1942
+47369,40.5073,-85.1421
+47370,39.8128,-85.1378
+47371,40.4190,-84.9628
+47373,40.3396,-85.1558
+47374,39.8338,-84.8897
+47380,40.2854,-85.0461
+47381,40.3867,-84.8646
+47382,40.2369,-84.9184
+47383,40.1561,-85.2671
+47384,39.9092,-85.5509
+47385,39.8329,-85.4460
+47386,40.0551,-85.3857
+47387,39.8385,-85.2985
+47388,40.0056,-85.4434
+47390,40.2057,-84.8464
+47392,39.9100,-84.9440
+47393,39.9630,-85.0037
+47394,40.1680,-84.9873
+47396,40.1892,-85.5172
+47401,39.1023,-86.4428
+47403,39.0852,-86.6123
+47404,39.2195,-86.5911
+47405,39.1677,-86.5211
+47406,39.1751,-86.5151
+47408,39.2298,-86.4673
+47420,38.9192,-86.5494
+47421,38.8635,-86.4522
+47424,39.0200,-86.8824
+47427,39.2368,-87.0075
+47429,39.2758,-86.6145
+47431,39.2452,-86.9154
+47432,38.4931,-86.6393
+47433,39.3558,-86.6415
+47434,39.0128,-86.5457
+47435,39.2658,-86.2952
+47436,38.9541,-86.3860
+47437,38.7136,-86.6768
+47438,39.1597,-87.1773
+47441,39.0394,-87.1741
+47443,38.9684,-87.0816
+47445,39.1129,-87.1895
+47446,38.7327,-86.5123
+47448,39.1795,-86.2355
+47449,38.9383,-86.9885
+47451,38.8918,-86.5254
+47452,38.6441,-86.4137
+47453,38.9400,-86.7713
+47454,38.5100,-86.4518
+47455,39.3130,-86.9578
+47456,39.4652,-86.6913
+47457,38.9118,-86.9047
+47458,39.0702,-86.5071
+47459,39.1136,-86.7506
+47460,39.2721,-86.7918
+47462,38.9583,-86.6476
+47464,39.2998,-86.6500
+47465,39.0616,-87.0375
+47467,38.7677,-86.3445
+47468,39.2856,-86.3927
+47469,38.6376,-86.5992
+47470,38.8183,-86.6371
+47471,39.1433,-87.0052
+47501,38.6619,-87.1747
+47512,38.7790,-87.3189
+47513,38.3042,-86.7141
+47514,38.1486,-86.5940
+47515,38.1839,-86.7040
+47516,38.7710,-87.4193
+47519,38.5901,-86.9839
+47520,37.9449,-86.6683
+47521,38.4085,-86.7210
+47522,38.8785,-86.8020
+47523,38.1788,-87.0258
+47524,38.4841,-87.6190
+47525,38.0204,-86.5600
+47527,38.4689,-86.7859
+47528,38.8482,-87.2586
+47529,38.8655,-87.0745
+47531,38.0397,-86.8514
+47532,38.2196,-86.8602
+47535,38.8626,-87.3129
+47537,38.1145,-87.0647
+47541,38.2353,-87.0462
+47542,38.2991,-86.9670
+47546,38.4187,-86.9326
+47550,38.0672,-86.9213
+47551,38.1141,-86.5696
+47552,38.1116,-86.9942
+47553,38.6556,-86.9125
+47557,38.5701,-87.3418
+47558,38.6387,-87.0499
+47561,38.8639,-87.4383
+47562,38.8331,-86.9735
+47564,38.4823,-87.0978
+47567,38.4627,-87.3050
+47568,38.7641,-87.1024
+47573,38.7441,-87.3220
+47574,37.9500,-86.5621
+47575,38.3252,-86.8021
+47576,38.1794,-86.5952
+47577,38.1500,-86.8085
+47578,38.8833,-87.1943
+47579,38.1107,-86.9139
+47580,38.3552,-86.7672
+47581,38.6627,-86.7586
+47584,38.2511,-87.2568
+47585,38.2683,-87.1581
+47586,38.0364,-86.6937
+47588,38.0287,-86.8043
+47590,38.3436,-87.0996
+47591,38.6286,-87.5015
+47596,38.8632,-87.2338
+47597,38.6416,-87.2954
+47598,38.3880,-87.2083
+47601,38.0514,-87.2545
+47610,38.0621,-87.3988
+47611,38.0279,-87.0575
+47612,38.1946,-87.7015
+47613,38.1504,-87.4249
+47615,37.9708,-86.9523
+47616,38.2332,-87.9098
+47619,38.1927,-87.3251
+47620,37.9316,-87.9043
+47630,37.9529,-87.3465
+47631,38.1091,-87.9018
+47633,38.1688,-87.7863
+47634,37.9395,-87.1825
+47635,37.8835,-87.1009
+47637,38.1411,-87.1598
+47638,38.0644,-87.7776
+47639,38.1882,-87.5662
+47640,38.4782,-87.4840
+47648,38.2486,-87.5509
+47649,38.3535,-87.4512
+47654,38.2530,-87.3910
+47660,38.2961,-87.3281
+47665,38.2835,-87.7345
+47666,38.4178,-87.6005
+47670,38.3449,-87.5848
+47683,38.2768,-87.3773
+47708,37.9742,-87.5743
+47710,38.0255,-87.5758
+47711,38.0153,-87.5367
+47712,37.9244,-87.6502
+47713,37.9485,-87.5555
+47714,37.9566,-87.5213
+47715,37.9724,-87.4796
+47720,38.0629,-87.6416
+47725,38.1033,-87.5270
+47802,39.3509,-87.4135
+47803,39.4661,-87.3073
+47804,39.4978,-87.3905
+47805,39.5463,-87.3265
+47807,39.4729,-87.4034
+47809,39.4714,-87.4099
+47831,39.6655,-87.5218
+47832,39.8809,-87.2584
+47833,39.3586,-86.9753
+47834,39.5236,-87.1233
+47836,39.6492,-87.1723
+47837,39.6272,-87.1149
+47838,38.9618,-87.3837
+47840,39.4073,-87.0619
+47841,39.2771,-87.1147
+47842,39.6782,-87.4536
+47845,39.1937,-87.2339
+47846,39.3670,-87.1942
+47847,39.8174,-87.4856
+47848,39.0420,-87.2620
+47849,39.1953,-87.5637
+47850,39.2373,-87.4360
+47851,39.5736,-87.2460
+47853,39.5375,-87.0728
+47854,39.8058,-87.4125
+47855,39.1884,-87.3021
+47857,39.5240,-87.0911
+47858,39.2622,-87.2246
+47859,39.8818,-87.1722
+47860,39.7221,-87.3302
+47861,39.0735,-87.5704
+47862,39.7764,-87.3429
+47863,39.5785,-87.4592
+47865,39.0191,-87.3926
+47866,39.2830,-87.3221
+47868,39.4111,-86.9026
+47869,39.2750,-87.4966
+47870,39.3702,-87.4735
+47871,39.3897,-87.3002
+47872,39.7491,-87.1655
+47874,39.6375,-87.2785
+47875,39.7145,-87.5222
+47876,39.5100,-87.4611
+47879,39.1977,-87.3787
+47880,39.5997,-87.4188
+47881,39.4873,-87.1900
+47882,39.0895,-87.4114
+47884,39.6230,-87.4536
+47885,39.5063,-87.4761
+47901,40.4178,-86.8896
+47904,40.4386,-86.8753
+47905,40.4219,-86.7636
+47906,40.4796,-86.9892
+47907,40.4222,-86.9138
+47909,40.3246,-86.8963
+47916,39.9834,-87.0552
+47917,40.4688,-87.4763
+47918,40.2988,-87.2097
+47920,40.5408,-86.8339
+47921,40.4784,-87.3749
+47922,40.8769,-87.3489
+47923,40.6104,-86.9400
+47924,40.4898,-86.7578
+47925,40.8820,-86.7448
+47926,40.7804,-86.5955
+47928,39.9213,-87.4723
+47929,40.6702,-86.9128
+47930,40.2376,-86.7414
+47932,40.1343,-87.4152
+47933,40.0377,-86.9022
+47940,40.1175,-86.7447
+47941,40.3753,-86.7712
+47942,40.6863,-87.4443
+47943,41.0644,-87.2838
+47944,40.6137,-87.3362
+47946,40.9843,-86.8702
+47948,40.7764,-87.2868
+47949,40.0605,-87.1373
+47950,40.8017,-86.6535
+47951,40.7905,-87.4435
+47952,39.9596,-87.2991
+47954,39.8999,-86.8188
+47955,40.1935,-86.8667
+47957,41.0894,-86.8772
+47958,40.1645,-87.1486
+47959,40.8626,-86.9007
+47960,40.7883,-86.7519
+47963,40.9684,-87.4399
+47964,40.9523,-87.2996
+47965,39.9546,-86.9200
+47966,39.8885,-87.4144
+47967,40.1942,-86.9990
+47968,39.9595,-86.7500
+47969,40.2036,-87.1489
+47970,40.4655,-87.1180
+47971,40.5254,-87.2356
+47974,40.0429,-87.4804
+47975,40.4443,-87.2535
+47977,40.7626,-87.1566
+47978,40.9862,-87.1130
+47980,40.7523,-86.9093
+47981,40.2515,-86.9447
+47982,40.1973,-87.5269
+47983,40.2863,-86.7735
+47986,40.5138,-87.2072
+47987,40.1212,-87.2349
+47989,39.8903,-87.0490
+47990,40.0612,-87.0595
+47991,40.2801,-87.4462
+47992,40.3194,-87.0490
+47993,40.3090,-87.4127
+47994,40.1823,-87.0823
+47995,40.7612,-87.0301
+47997,40.6677,-86.7238
+48001,42.6392,-82.5817
+48002,42.9350,-82.9165
+48003,42.9302,-83.0400
+48005,42.8559,-82.9124
+48006,43.0830,-82.6910
+48009,42.5440,-83.2177
+48014,43.0257,-82.9316
+48015,42.4806,-83.0274
+48017,42.5367,-83.1504
+48021,42.4661,-82.9463
+48022,43.0234,-82.8024
+48023,42.7044,-82.6589
+48025,42.5204,-83.2648
+48026,42.5376,-82.9467
+48027,42.9443,-82.6940
+48028,42.5802,-82.6166
+48030,42.4619,-83.0977
+48032,43.1332,-82.5970
+48033,42.4593,-83.2932
+48034,42.4969,-83.2910
+48035,42.5566,-82.9076
+48036,42.5970,-82.9131
+48038,42.6036,-82.9413
+48039,42.6929,-82.5465
+48040,42.9103,-82.4806
+48041,42.9373,-82.8095
+48042,42.6836,-82.9095
+48043,42.5981,-82.8815
+48044,42.6502,-82.9289
+48045,42.5871,-82.8172
+48047,42.6739,-82.7741
+48048,42.7385,-82.7983
+48049,43.0405,-82.5711
+48050,42.7875,-82.7995
+48051,42.6899,-82.8261
+48054,42.7704,-82.5290
+48059,43.0873,-82.4945
+48060,42.9836,-82.4583
+48062,42.8525,-82.7965
+48063,42.8593,-82.6831
+48064,42.7646,-82.6668
+48065,42.8454,-83.0394
+48066,42.5076,-82.9366
+48067,42.4906,-83.1375
+48069,42.4715,-83.1445
+48070,42.4819,-83.1681
+48071,42.5073,-83.1034
+48072,42.4979,-83.1859
+48073,42.5192,-83.1644
+48074,42.9502,-82.5616
+48075,42.4618,-83.2299
+48076,42.4975,-83.2306
+48079,42.8588,-82.5484
+48080,42.4654,-82.8974
+48081,42.4947,-82.8950
+48082,42.5280,-82.8872
+48083,42.5570,-83.1168
+48084,42.5606,-83.1756
+48085,42.6040,-83.1221
+48088,42.5157,-82.9830
+48089,42.4681,-82.9938
+48091,42.4681,-83.0582
+48092,42.5125,-83.0595
+48093,42.5159,-83.0165
+48094,42.7346,-83.0515
+48095,42.7787,-83.0481
+48096,42.7622,-82.9205
+48097,43.1219,-82.8274
+48098,42.5984,-83.1784
+48101,42.2595,-83.2104
+48103,42.2614,-83.8465
+48104,42.2622,-83.7169
+48105,42.3276,-83.6964
+48108,42.2217,-83.7323
+48109,42.2912,-83.7082
+48111,42.1832,-83.4890
+48114,42.5679,-83.7563
+48116,42.5059,-83.7812
+48117,42.0503,-83.4102
+48118,42.3122,-84.0341
+48120,42.3029,-83.1632
+48122,42.2786,-83.1823
+48124,42.2980,-83.2476
+48125,42.2773,-83.2648
+48126,42.3303,-83.1871
+48127,42.3358,-83.2833
+48128,42.3204,-83.2600
+48130,42.3641,-83.9094
+48131,41.9672,-83.6732
+48133,41.7824,-83.4860
+48134,42.1067,-83.2961
+48135,42.3244,-83.3412
+48137,42.4720,-84.0746
+48138,42.1313,-83.1557
+48139,42.4530,-83.8079
+48140,41.8822,-83.5805
+48141,42.2939,-83.3203
+48143,42.4573,-83.8522
+48144,41.7525,-83.6287
+48145,41.8442,-83.4600
+48146,42.2433,-83.1813
+48150,42.3716,-83.3768
+48152,42.4249,-83.3743
+48154,42.3982,-83.3724
+48157,41.8155,-83.4375
+48158,42.1557,-84.0292
+48159,42.0248,-83.5489
+48160,42.0824,-83.6798
+48161,41.9072,-83.4725
+48162,41.9604,-83.4293
+48164,42.1317,-83.3973
+48165,42.4977,-83.6182
+48166,41.9882,-83.2924
+48167,42.4324,-83.5244
+48168,42.4053,-83.5405
+48169,42.4619,-83.9474
+48170,42.3677,-83.5343
+48173,42.0737,-83.2128
+48174,42.2367,-83.3917
+48176,42.1368,-83.8293
+48177,41.8048,-83.5816
+48178,42.4438,-83.6569
+48179,42.0351,-83.2554
+48180,42.2253,-83.2677
+48182,41.7899,-83.5838
+48183,42.1315,-83.2178
+48184,42.2745,-83.3956
+48185,42.3339,-83.3842
+48186,42.2938,-83.3707
+48187,42.3256,-83.4836
+48188,42.2861,-83.4871
+48189,42.4095,-83.7830
+48190,42.1316,-83.6033
+48191,42.1211,-83.5657
+48192,42.2107,-83.1572
+48193,42.1740,-83.2108
+48195,42.2047,-83.2057
+48197,42.1940,-83.6400
+48198,42.2751,-83.5863
+48201,42.3470,-83.0600
+48202,42.3746,-83.0777
+48203,42.4212,-83.1055
+48204,42.3658,-83.1428
+48205,42.4332,-82.9813
+48206,42.3752,-83.1078
+48207,42.3490,-83.0127
+48208,42.3485,-83.0918
+48209,42.3061,-83.1177
+48210,42.3364,-83.1287
+48211,42.3818,-83.0461
+48212,42.4100,-83.0560
+48213,42.3979,-82.9954
+48214,42.3651,-82.9876
+48215,42.3752,-82.9543
+48216,42.3264,-83.0793
+48217,42.2777,-83.1551
+48218,42.2704,-83.1315
+48219,42.4253,-83.2514
+48220,42.4581,-83.1352
+48221,42.4272,-83.1495
+48223,42.3934,-83.2461
+48224,42.4107,-82.9415
+48225,42.4389,-82.9297
+48226,42.3318,-83.0504
+48227,42.3874,-83.1926
+48228,42.3551,-83.2182
+48229,42.2496,-83.1404
+48230,42.3824,-82.9218
+48233,42.3232,-83.0630
+48234,42.4312,-83.0395
+48235,42.4271,-83.1947
+48236,42.4226,-82.8928
+48237,42.4649,-83.1824
+48238,42.3963,-83.1413
+48239,42.3762,-83.2864
+48240,42.4245,-83.3013
+48242,42.2135,-83.3561
+48243,42.3299,-83.0395
+48301,42.5424,-83.2822
+48302,42.5819,-83.3047
+48304,42.5889,-83.2332
+48306,42.7243,-83.1473
+48307,42.6593,-83.1227
+48309,42.6572,-83.1866
+48310,42.5665,-83.0665
+48312,42.5582,-83.0089
+48313,42.5992,-82.9972
+48314,42.6121,-83.0535
+48315,42.6718,-82.9974
+48316,42.6902,-83.0572
+48317,42.6443,-83.0515
+48320,42.6119,-83.3381
+48322,42.5378,-83.3845
+48323,42.5708,-83.3779
+48324,42.5947,-83.3937
+48326,42.6882,-83.2441
+48327,42.6383,-83.4107
+48328,42.6502,-83.3632
+48329,42.6870,-83.3886
+48331,42.5025,-83.4089
+48334,42.5047,-83.3492
+48335,42.4629,-83.4050
+48336,42.4633,-83.3481
+48340,42.6721,-83.2879
+48341,42.6265,-83.2914
+48342,42.6444,-83.2746
+48346,42.7179,-83.4287
+48348,42.7686,-83.4044
+48350,42.7394,-83.5310
+48353,42.6462,-83.7144
+48356,42.6544,-83.5929
+48357,42.6586,-83.6466
+48359,42.7208,-83.2755
+48360,42.7474,-83.2610
+48362,42.7824,-83.2694
+48363,42.7725,-83.1625
+48367,42.8362,-83.1369
+48370,42.8402,-83.1915
+48371,42.8459,-83.2846
+48374,42.4738,-83.5200
+48375,42.4658,-83.4640
+48377,42.5054,-83.4736
+48380,42.5830,-83.6668
+48381,42.5584,-83.5918
+48382,42.5824,-83.5114
+48383,42.6556,-83.5258
+48386,42.6602,-83.4800
+48390,42.5507,-83.4742
+48393,42.5218,-83.5451
+48401,43.3473,-82.6615
+48410,43.5663,-82.9362
+48411,42.9342,-83.5296
+48412,43.0704,-83.1755
+48413,43.8027,-82.9968
+48414,42.8617,-84.0798
+48415,43.2719,-83.8081
+48416,43.2171,-82.9850
+48417,43.2613,-83.9392
+48418,42.7943,-83.9699
+48419,43.4358,-82.6604
+48420,43.1791,-83.7005
+48421,43.1555,-83.3932
+48422,43.2615,-82.6537
+48423,43.0404,-83.5143
+48426,43.5086,-83.0651
+48427,43.5356,-82.7255
+48428,42.9382,-83.1545
+48429,42.9028,-84.0040
+48430,42.7572,-83.7383
+48432,43.9017,-82.9749
+48433,43.0822,-83.8610
+48434,43.6599,-82.6126
+48435,43.2454,-83.3593
+48436,42.8761,-83.8794
+48437,43.1130,-83.6184
+48438,42.9137,-83.4842
+48439,42.9171,-83.6313
+48440,42.9557,-83.4078
+48441,43.7979,-82.7086
+48442,42.7989,-83.5957
+48444,43.0585,-83.0452
+48445,43.9502,-82.9906
+48446,43.0537,-83.3387
+48449,42.9915,-83.9448
+48450,43.2523,-82.5409
+48451,42.8060,-83.8160
+48453,43.3481,-83.0326
+48454,43.1950,-82.8127
+48455,42.9398,-83.2910
+48456,43.6670,-82.7622
+48457,43.1901,-83.8942
+48458,43.1253,-83.6816
+48460,43.1239,-83.9845
+48461,43.1937,-83.2062
+48462,42.8484,-83.4213
+48463,43.1658,-83.5193
+48464,43.2109,-83.4190
+48465,43.6157,-82.7056
+48466,43.2805,-82.8089
+48467,44.0154,-82.9824
+48468,43.9384,-82.7752
+48469,43.4415,-82.5582
+48470,43.7362,-82.7635
+48471,43.4194,-82.8521
+48472,43.5123,-82.9632
+48473,42.9371,-83.8205
+48475,43.6701,-82.9334
+48476,42.9383,-84.0345
+48502,43.0146,-83.6892
+48503,42.9987,-83.7102
+48504,43.0547,-83.7437
+48505,43.0692,-83.6923
+48506,43.0675,-83.6244
+48507,42.9670,-83.7174
+48509,43.0299,-83.6007
+48519,42.9819,-83.6049
+48529,42.9703,-83.6586
+48532,43.0111,-83.7949
+48601,43.3950,-83.8893
+48602,43.4200,-83.9745
+48603,43.4588,-84.0295
+48604,43.4998,-83.9691
+48607,43.4324,-83.9338
+48609,43.3896,-84.0832
+48610,44.1417,-84.1922
+48611,43.6341,-84.0972
+48612,43.8830,-84.4394
+48613,43.9479,-84.1556
+48614,43.2510,-84.2980
+48615,43.4222,-84.4744
+48616,43.1911,-84.1135
+48617,43.8513,-84.7173
+48618,43.7368,-84.5567
+48619,44.8197,-84.0206
+48620,43.8076,-84.3804
+48621,44.7212,-84.0127
+48622,43.8353,-84.8913
+48623,43.5193,-84.1339
+48624,44.0611,-84.4574
+48625,44.0521,-84.8374
+48626,43.4214,-84.2214
+48627,44.4617,-84.7486
+48628,43.7736,-84.3240
+48629,44.3122,-84.7847
+48630,44.3255,-84.7733
+48631,43.6886,-83.9959
+48632,43.8504,-85.0228
+48633,43.9490,-84.9338
+48634,43.7596,-84.0358
+48635,44.3872,-83.9944
+48636,44.5860,-84.2859
+48637,43.4137,-84.3356
+48638,43.4189,-84.0182
+48640,43.5822,-84.3372
+48642,43.7025,-84.2353
+48647,44.6507,-84.0861
+48649,43.1505,-84.2174
+48650,43.8493,-84.0132
+48651,44.2548,-84.6148
+48652,43.8487,-84.2167
+48653,44.4903,-84.6058
+48654,44.4767,-84.1175
+48655,43.2945,-84.1596
+48656,44.3548,-84.4618
+48657,43.7074,-84.4231
+48658,43.9753,-83.9368
+48659,44.0655,-84.0508
+48661,44.3184,-84.2362
+48662,43.4010,-84.4167
+48701,43.5869,-83.5578
+48703,44.0636,-83.6759
+48705,44.6958,-83.6565
+48706,43.6038,-83.9554
+48708,43.5571,-83.8497
+48710,43.5565,-83.9877
+48720,43.8317,-83.3933
+48721,44.7968,-83.3292
+48722,43.3467,-83.8448
+48723,43.4875,-83.3847
+48724,43.4578,-83.9263
+48725,43.9440,-83.2096
+48726,43.6074,-83.1680
+48727,43.3065,-83.1811
+48728,44.7438,-83.8221
+48729,43.4959,-83.1738
+48730,44.3494,-83.4871
+48731,43.8366,-83.1518
+48732,43.6123,-83.7898
+48733,43.5341,-83.5931
+48734,43.3576,-83.7485
+48735,43.6676,-83.2709
+48737,44.5497,-83.7120
+48738,44.5496,-83.3362
+48739,44.3705,-83.8449
+48740,44.6639,-83.3720
+48741,43.4025,-83.1799
+48742,44.7216,-83.4461
+48743,44.4411,-83.8632
+48744,43.3480,-83.3593
+48745,44.5637,-83.4840
+48746,43.2603,-83.5410
+48747,43.5189,-83.7649
+48748,44.3292,-83.6976
+48749,44.0539,-83.9009
+48750,44.4352,-83.4729
+48754,43.7332,-83.2424
+48755,43.7915,-83.2456
+48756,44.2337,-83.9734
+48757,43.4699,-83.6763
+48759,43.7305,-83.3859
+48760,43.3177,-83.2526
+48761,44.5109,-83.8917
+48762,44.8000,-83.4969
+48763,44.2460,-83.6134
+48765,44.1516,-83.7180
+48766,44.1103,-83.8563
+48767,43.6505,-83.4632
+48768,43.3704,-83.5765
+48770,44.2512,-83.8142
+48801,43.3784,-84.6760
+48806,43.1862,-84.4953
+48807,43.1505,-84.4020
+48808,42.8268,-84.4527
+48809,43.0753,-85.2580
+48811,43.1839,-84.8560
+48813,42.5734,-84.8457
+48815,42.8344,-85.2586
+48816,42.7650,-83.9560
+48817,43.0139,-84.0429
+48818,43.2727,-84.8979
+48819,42.5442,-84.2933
+48820,42.8639,-84.5923
+48821,42.6404,-84.6513
+48822,42.8353,-84.7631
+48823,42.7641,-84.4599
+48824,42.7217,-84.4750
+48825,42.7316,-84.4903
+48827,42.5084,-84.6613
+48829,43.3982,-85.0154
+48831,43.0962,-84.3725
+48832,43.4119,-84.7766
+48834,43.1288,-85.0312
+48835,43.0249,-84.7491
+48836,42.6693,-84.0766
+48837,42.7470,-84.7710
+48838,43.1828,-85.2584
+48840,42.7631,-84.3794
+48841,43.1122,-84.2393
+48842,42.6353,-84.5393
+48843,42.5756,-83.9234
+48845,43.1115,-84.8526
+48846,42.9861,-85.0579
+48847,43.2732,-84.5756
+48848,42.8813,-84.3566
+48849,42.7974,-85.1276
+48850,43.4353,-85.2461
+48851,42.9511,-84.9364
+48852,43.3526,-85.0464
+48853,43.1000,-84.6885
+48854,42.5817,-84.4516
+48855,42.6813,-83.8972
+48856,43.1972,-84.7335
+48857,42.8409,-84.1556
+48858,43.6160,-84.7955
+48859,43.5868,-84.7728
+48860,43.0530,-84.9217
+48861,42.7294,-84.9156
+48862,43.2499,-84.5484
+48864,42.7042,-84.3921
+48865,43.0905,-85.1046
+48866,42.9934,-84.3826
+48867,43.0056,-84.1876
+48870,43.1103,-84.9848
+48871,43.1567,-84.6738
+48872,42.7987,-84.2231
+48873,43.0074,-84.8282
+48874,43.1864,-84.5949
+48875,42.8608,-84.9414
+48876,42.6484,-84.7331
+48877,43.4037,-84.8408
+48878,43.7061,-84.7799
+48879,43.0067,-84.5792
+48880,43.4589,-84.5784
+48881,42.9327,-85.2043
+48883,43.5437,-84.6739
+48884,43.2098,-85.0492
+48885,43.2429,-85.1479
+48886,43.4157,-85.1597
+48888,43.3148,-85.1061
+48889,43.2851,-84.8069
+48890,42.7669,-84.9664
+48891,43.3954,-84.9115
+48892,42.6437,-84.1700
+48893,43.6866,-84.9899
+48894,42.9256,-84.7929
+48895,42.6889,-84.2798
+48896,43.5213,-84.9010
+48897,42.7039,-85.1303
+48906,42.7880,-84.5894
+48910,42.6971,-84.5250
+48911,42.6729,-84.5734
+48912,42.7384,-84.5240
+48915,42.7400,-84.5709
+48917,42.7252,-84.6395
+48933,42.7294,-84.5562
+49001,42.2645,-85.5615
+49002,42.1972,-85.5555
+49004,42.3491,-85.5584
+49006,42.2954,-85.6291
+49007,42.3026,-85.5882
+49008,42.2636,-85.6132
+49009,42.3036,-85.6980
+49010,42.5330,-85.8711
+49011,42.0990,-85.2255
+49012,42.3508,-85.3446
+49013,42.3024,-86.1003
+49014,42.3100,-85.1070
+49015,42.2782,-85.2292
+49017,42.3917,-85.2011
+49021,42.4604,-85.0547
+49022,42.1123,-86.3738
+49024,42.2065,-85.6180
+49026,42.3769,-85.9634
+49027,42.3503,-86.0674
+49028,41.8440,-85.1800
+49029,42.1407,-85.0891
+49030,41.8659,-85.3389
+49031,41.9035,-85.9768
+49032,41.9115,-85.5229
+49033,42.2275,-85.0887
+49034,42.2343,-85.3305
+49036,41.9055,-85.0313
+49037,42.3346,-85.2492
+49038,42.2028,-86.3209
+49040,41.9659,-85.3232
+49042,41.8594,-85.6694
+49043,42.2860,-86.2685
+49045,42.1021,-85.9991
+49046,42.5192,-85.3880
+49047,42.0047,-86.1207
+49048,42.2743,-85.4931
+49050,42.5043,-85.2457
+49051,42.1767,-85.2366
+49052,42.1212,-85.3152
+49053,42.2861,-85.4114
+49055,42.3685,-85.8578
+49056,42.3952,-86.0660
+49057,42.1845,-86.1830
+49058,42.6364,-85.2997
+49060,42.4243,-85.4048
+49061,41.8735,-85.8152
+49063,42.4099,-86.1397
+49064,42.2198,-86.0501
+49065,42.1383,-85.8421
+49066,42.0313,-85.3435
+49067,42.0242,-85.7988
+49068,42.2757,-84.9408
+49070,42.5393,-85.6294
+49071,42.2264,-85.7755
+49072,42.0127,-85.4577
+49073,42.5749,-85.1262
+49074,42.3203,-85.5403
+49075,41.9175,-85.4486
+49076,42.4286,-84.8803
+49078,42.4725,-85.7328
+49079,42.2402,-85.9081
+49080,42.4564,-85.5883
+49082,41.9409,-84.8765
+49083,42.3781,-85.4611
+49084,42.1803,-86.3851
+49085,42.0543,-86.4626
+49087,42.1246,-85.6762
+49088,42.1797,-85.4226
+49089,42.0012,-85.2345
+49090,42.4074,-86.2145
+49091,41.8283,-85.4479
+49092,42.0943,-84.9630
+49093,41.9757,-85.6470
+49094,42.0503,-85.1136
+49095,41.9064,-85.8856
+49096,42.6371,-85.0073
+49097,42.1220,-85.4874
+49098,42.1639,-86.2400
+49099,41.7933,-85.6718
+49101,41.9444,-86.4834
+49102,41.9492,-86.2521
+49103,41.9463,-86.3765
+49104,41.9635,-86.3589
+49106,41.9383,-86.5548
+49107,41.8449,-86.4176
+49111,42.0227,-86.2911
+49112,41.7960,-86.0305
+49113,41.8033,-86.5014
+49115,41.8753,-86.6339
+49116,41.8481,-86.6721
+49117,41.7817,-86.7268
+49119,41.8759,-86.5492
+49120,41.8319,-86.2308
+49125,41.8919,-86.5794
+49126,42.0325,-86.3718
+49127,42.0001,-86.5217
+49128,41.8204,-86.6005
+49129,41.8161,-86.6864
+49130,41.7744,-85.8603
+49201,42.3118,-84.4562
+49202,42.2672,-84.4108
+49203,42.2207,-84.4019
+49220,41.9986,-84.3374
+49221,41.9024,-84.0647
+49224,42.2796,-84.7469
+49227,41.9498,-84.7731
+49228,41.8090,-83.8756
+49229,41.9921,-83.8265
+49230,42.0904,-84.2173
+49232,41.7404,-84.6646
+49233,42.0618,-84.3670
+49234,42.1270,-84.3687
+49235,41.8639,-84.2009
+49236,42.0760,-83.9423
+49237,42.1732,-84.6481
+49238,41.9022,-83.7856
+49240,42.2720,-84.1797
+49241,42.1078,-84.6033
+49242,41.8863,-84.6227
+49245,42.1394,-84.8116
+49246,42.1229,-84.5035
+49247,41.8376,-84.3383
+49248,41.7565,-84.0113
+49249,42.0293,-84.4548
+49250,42.0217,-84.6262
+49251,42.4635,-84.4132
+49252,42.0352,-84.7654
+49253,41.9615,-84.2693
+49254,42.2256,-84.3236
+49255,41.7683,-84.8629
+49256,41.7468,-84.2145
+49258,42.0600,-84.6584
+49259,42.3829,-84.2558
+49261,42.1627,-84.2470
+49262,41.9636,-84.4683
+49263,42.1581,-84.1821
+49264,42.4462,-84.5551
+49265,42.0067,-84.1753
+49266,41.8398,-84.5468
+49267,41.7573,-83.7194
+49268,41.8687,-83.9290
+49269,42.2882,-84.5801
+49270,41.8737,-83.6808
+49271,41.8320,-84.4531
+49272,42.3948,-84.3513
+49274,41.8467,-84.7598
+49276,41.7946,-83.7767
+49277,42.3887,-84.4693
+49279,41.7796,-84.1041
+49282,42.0331,-84.4008
+49283,42.2014,-84.5561
+49284,42.3823,-84.6907
+49285,42.4632,-84.2100
+49286,42.0094,-83.9303
+49287,42.0230,-84.0735
+49288,41.7339,-84.4296
+49289,41.7714,-84.1071
+49301,42.9734,-85.4770
+49302,42.8215,-85.4022
+49303,43.2715,-85.8606
+49304,43.9078,-85.8726
+49305,43.7520,-85.1511
+49306,43.0748,-85.5656
+49307,43.6977,-85.4830
+49309,43.7598,-85.8769
+49310,43.5138,-85.0475
+49312,43.6860,-85.7835
+49315,42.8036,-85.7420
+49316,42.7938,-85.5505
+49318,43.2273,-85.8204
+49319,43.2301,-85.5280
+49320,43.7551,-85.2875
+49321,43.0736,-85.6819
+49322,43.3558,-85.3512
+49323,42.7285,-85.7906
+49325,42.7608,-85.3017
+49326,43.2536,-85.3174
+49327,43.3235,-85.8453
+49328,42.6337,-85.7582
+49329,43.4067,-85.4950
+49330,43.2415,-85.7367
+49331,42.9502,-85.3520
+49332,43.6209,-85.2416
+49333,42.6950,-85.4637
+49335,42.7463,-85.6691
+49336,43.5084,-85.4357
+49337,43.4230,-85.7188
+49338,43.7717,-85.6023
+49339,43.3314,-85.4965
+49340,43.6179,-85.1108
+49341,43.1241,-85.4909
+49342,43.6904,-85.3156
+49343,43.2997,-85.5261
+49344,42.5899,-85.5913
+49345,43.1539,-85.7052
+49346,43.5949,-85.4211
+49347,43.3123,-85.3452
+49348,42.6851,-85.6101
+49349,43.5753,-85.7487
+49401,42.9776,-85.9586
+49402,43.9410,-86.0180
+49403,43.1410,-85.8578
+49404,43.0634,-85.9522
+49405,43.9073,-86.1897
+49406,42.6408,-86.2106
+49408,42.5717,-86.1162
+49409,43.0808,-86.2184
+49410,44.0272,-86.1486
+49411,44.1146,-86.2568
+49412,43.4702,-85.9463
+49415,43.1510,-86.1143
+49417,43.0092,-86.1520
+49418,42.8781,-85.7679
+49419,42.6770,-85.9799
+49420,43.7200,-86.2823
+49421,43.5995,-86.0692
+49423,42.7392,-86.0848
+49424,42.8328,-86.1304
+49425,43.4504,-86.1106
+49426,42.8633,-85.8876
+49428,42.9202,-85.8359
+49430,43.0120,-85.9005
+49431,43.9646,-86.4093
+49434,42.7700,-86.2077
+49435,43.0245,-85.8352
+49436,43.6875,-86.4685
+49437,43.4636,-86.3846
+49440,43.2375,-86.2534
+49441,43.1800,-86.2868
+49442,43.2418,-86.1357
+49443,43.2220,-86.2416
+49444,43.1771,-86.1995
+49445,43.2925,-86.2939
+49446,43.5398,-86.3782
+49448,43.0944,-86.0716
+49449,43.7936,-86.3886
+49450,42.4780,-86.0750
+49451,43.2131,-85.9678
+49452,43.5146,-86.2548
+49453,42.6613,-86.1788
+49454,43.9463,-86.2851
+49455,43.6103,-86.3783
+49456,43.0911,-86.2065
+49457,43.3515,-86.1452
+49458,43.9481,-86.1149
+49459,43.7361,-86.0957
+49460,42.9324,-86.1512
+49461,43.3769,-86.3311
+49464,42.8448,-85.9848
+49503,42.9621,-85.6594
+49504,42.9816,-85.7107
+49505,42.9965,-85.6377
+49506,42.9457,-85.6138
+49507,42.9306,-85.6553
+49508,42.8730,-85.6280
+49509,42.8978,-85.6934
+49512,42.8801,-85.5532
+49519,42.8958,-85.7195
+49525,43.0222,-85.5921
+49534,42.9644,-85.7872
+49544,43.0389,-85.7466
+49546,42.9329,-85.5359
+49548,42.8678,-85.6630
+49601,44.2427,-85.5399
+49611,44.9800,-84.9787
+49612,44.8635,-85.2249
+49613,44.5061,-86.2069
+49614,44.4456,-86.1117
+49615,44.9646,-85.2066
+49616,44.5799,-86.0903
+49617,44.6415,-86.0322
+49618,44.3026,-85.5900
+49619,44.2931,-85.9912
+49620,44.5163,-85.6864
+49621,44.8578,-85.7699
+49622,45.0751,-85.2671
+49623,43.9089,-85.6918
+49625,44.4327,-85.8583
+49626,44.2428,-86.2925
+49627,45.1124,-85.3587
+49628,44.6210,-86.2341
+49629,44.9190,-85.3903
+49630,44.8405,-86.0465
+49631,43.9169,-85.2593
+49632,44.2390,-84.9679
+49633,44.5622,-85.1850
+49634,44.2149,-86.2889
+49635,44.6256,-86.1931
+49636,44.8912,-85.9646
+49637,44.6362,-85.7105
+49638,44.2870,-85.7557
+49639,43.8470,-85.4085
+49640,44.7245,-86.0474
+49642,43.9043,-85.7840
+49643,44.6397,-85.8289
+49644,44.1115,-85.9178
+49645,44.3721,-86.0254
+49646,44.7200,-85.0365
+49648,44.9977,-85.3388
+49649,44.5634,-85.5254
+49650,44.7398,-85.8872
+49651,44.3990,-85.1063
+49653,44.9736,-85.7239
+49654,45.0098,-86.1363
+49655,44.0249,-85.4321
+49656,44.0556,-85.6975
+49657,44.2153,-85.1836
+49659,44.9056,-85.0342
+49660,44.2338,-86.2106
+49663,44.4234,-85.3936
+49664,44.8880,-85.8986
+49665,44.1004,-85.1320
+49667,44.3460,-84.9311
+49668,44.4018,-85.7133
+49670,45.1193,-85.6197
+49674,45.0479,-85.5916
+49675,44.3842,-86.2254
+49676,44.8434,-85.2944
+49677,43.8963,-85.5353
+49679,43.8784,-85.1589
+49680,44.6481,-85.2415
+49682,44.9883,-85.6473
+49683,44.5405,-85.9269
+49684,44.7624,-85.6852
+49685,44.6996,-85.7007
+49686,44.8494,-85.5426
+49688,44.1265,-85.4402
+49689,44.2111,-85.9108
+49690,44.7843,-85.3947
+49696,44.6744,-85.4871
+49701,45.7418,-84.7409
+49705,45.3486,-84.4634
+49706,45.4383,-84.7794
+49707,45.0943,-83.4762
+49709,45.0437,-84.1714
+49710,46.2761,-84.1767
+49712,45.2112,-85.0110
+49713,45.2208,-84.8455
+49715,46.4011,-84.6925
+49716,45.5094,-84.7499
+49717,45.4258,-84.6874
+49718,45.7166,-84.8431
+49719,45.9906,-84.3223
+49720,45.2805,-85.2450
+49721,45.5742,-84.4554
+49722,45.4208,-84.8651
+49724,46.3276,-84.3901
+49725,45.9858,-83.9895
+49726,46.0037,-83.6152
+49727,45.1377,-85.1090
+49728,46.3867,-85.0248
+49729,45.1637,-85.2930
+49730,45.0440,-84.8675
+49733,44.7941,-84.7306
+49735,44.9981,-84.6702
+49736,46.0878,-84.1384
+49738,44.6923,-84.5951
+49740,45.5219,-84.9908
+49743,45.2670,-83.8934
+49744,44.9931,-83.6571
+49745,46.0213,-84.5281
+49746,45.0630,-83.9511
+49747,44.8356,-83.6297
+49748,46.3723,-85.1657
+49749,45.4221,-84.5846
+49751,44.9828,-84.4302
+49752,46.2639,-84.4176
+49753,45.0173,-83.7771
+49755,45.6433,-84.8275
+49756,44.8147,-84.2758
+49757,45.8602,-84.6258
+49759,45.4175,-84.0961
+49760,46.0479,-84.8472
+49762,46.1161,-85.2847
+49764,45.4235,-84.8282
+49765,45.3383,-84.2592
+49766,44.9083,-83.4320
+49768,46.6396,-85.1181
+49769,45.5708,-84.8618
+49770,45.3312,-84.8971
+49774,46.1658,-84.2987
+49775,45.7708,-84.4780
+49776,45.2322,-83.6804
+49777,45.2858,-83.4797
+49779,45.3944,-83.8444
+49780,46.2091,-84.6861
+49781,45.9481,-84.7655
+49782,45.6186,-85.5437
+49783,46.4169,-84.2891
+49784,46.2577,-84.4549
+49788,46.2643,-84.4699
+49791,45.4810,-84.5994
+49793,46.2146,-85.0474
+49795,45.1607,-84.5797
+49796,45.2722,-84.9483
+49799,45.2624,-84.5804
+49801,45.9272,-88.0158
+49802,45.8006,-88.0822
+49805,47.3606,-88.4025
+49806,46.4524,-86.9012
+49807,45.6992,-87.2932
+49808,46.8231,-87.8527
+49812,45.5916,-87.5031
+49814,46.5680,-87.9538
+49815,46.1886,-87.9465
+49816,46.2789,-86.9094
+49817,45.9493,-86.5045
+49818,45.9824,-87.3493
+49820,46.1901,-85.6542
+49821,45.5203,-87.6197
+49822,46.4335,-87.0246
+49825,46.3578,-86.9729
+49826,46.3233,-87.0528
+49827,46.1807,-85.5304
+49829,45.7741,-87.1363
+49831,46.0567,-87.7290
+49833,46.2683,-87.2946
+49834,45.9694,-87.7054
+49835,45.7358,-86.5626
+49836,46.2020,-85.9033
+49837,45.8687,-87.0791
+49838,46.0319,-85.7374
+49839,46.5985,-86.1464
+49840,46.1746,-86.0546
+49841,46.2671,-87.4996
+49847,45.7047,-87.6362
+49848,45.3792,-87.6357
+49849,46.4257,-87.7714
+49852,45.7862,-87.8168
+49853,46.3683,-85.7509
+49854,46.0762,-86.3458
+49855,46.5611,-87.4514
+49858,45.2221,-87.5482
+49861,46.5687,-88.1754
+49862,46.3987,-86.7272
+49863,45.6129,-87.5517
+49864,45.8415,-86.6504
+49866,46.4159,-87.5848
+49868,46.5110,-85.5176
+49870,45.8672,-87.8789
+49871,46.4247,-87.5389
+49872,46.0182,-87.0822
+49873,45.8267,-87.4867
+49874,45.7535,-87.4689
+49876,45.8022,-87.9774
+49877,46.1589,-87.7122
+49878,45.9467,-86.8775
+49879,46.3403,-88.0646
+49880,46.1110,-87.2224
+49881,46.0732,-88.0473
+49883,46.4106,-86.0079
+49884,46.4159,-86.3570
+49885,46.3381,-87.1983
+49886,45.6975,-87.4940
+49887,45.3920,-87.7316
+49891,46.2173,-87.0150
+49892,45.7768,-87.7924
+49893,45.2970,-87.6052
+49894,45.7829,-87.0763
+49895,46.1713,-86.6618
+49896,45.6886,-87.3889
+49901,47.2927,-88.3926
+49902,46.0512,-88.3762
+49903,46.3372,-88.4826
+49905,47.1101,-88.7077
+49908,46.7582,-88.5633
+49910,46.6297,-89.5314
+49911,46.4990,-90.0575
+49912,46.4967,-89.1942
+49913,47.2389,-88.4516
+49915,46.0646,-88.6271
+49916,46.9841,-88.5863
+49917,47.2814,-88.3591
+49918,47.4396,-87.8297
+49919,46.5147,-88.4349
+49920,46.1382,-88.3023
+49921,47.0912,-88.5797
+49922,47.1244,-88.4895
+49925,46.5444,-89.3747
+49927,46.0331,-88.5470
+49929,46.7987,-89.0956
+49930,47.2030,-88.5763
+49931,47.1848,-88.6408
+49934,47.1656,-88.4391
+49935,46.1756,-88.7522
+49938,46.5259,-90.1304
+49942,47.2607,-88.4166
+49945,47.1482,-88.3371
+49946,46.7278,-88.3325
+49947,46.4127,-89.6068
+49948,46.7522,-88.9983
+49950,47.3863,-88.1337
+49952,46.7014,-88.7849
+49953,46.7857,-89.4269
+49955,47.0063,-88.6948
+49958,46.8155,-88.6629
+49959,46.4699,-89.9981
+49960,46.7119,-89.2584
+49961,46.4496,-88.7021
+49962,46.8393,-88.1311
+49963,47.0489,-88.6400
+49965,46.9551,-88.8595
+49967,46.5065,-88.9664
+49968,46.5030,-89.8896
+49969,46.2517,-89.2107
+49970,46.5229,-88.6005
+49971,46.7104,-89.6287
+50001,41.3535,-93.4388
+50002,41.5148,-94.6483
+50003,41.6115,-94.0430
+50005,42.1320,-93.0346
+50006,42.5084,-93.4020
+50007,41.8037,-93.6004
+50008,40.6729,-93.3862
+50009,41.6434,-93.4597
+50010,42.0308,-93.5883
+50012,42.0297,-93.6505
+50013,42.0149,-93.6578
+50014,42.0467,-93.6946
+50020,41.4268,-94.7499
+50021,41.7243,-93.5653
+50022,41.4163,-95.0063
+50023,41.7264,-93.6305
+50025,41.7562,-94.9204
+50026,41.8582,-94.4496
+50027,41.4820,-92.4694
+50028,41.8069,-93.1543
+50029,41.8290,-94.5559
+50031,42.0388,-94.1400
+50032,41.6659,-93.5429
+50033,41.3604,-93.7942
+50034,42.5433,-93.6468
+50035,41.7239,-93.4579
+50036,42.0854,-93.8496
+50038,41.5248,-93.9031
+50039,41.8299,-94.0149
+50040,42.1736,-94.1012
+50041,42.6343,-93.2466
+50042,41.5337,-94.9053
+50044,41.2035,-92.9053
+50046,41.8882,-93.5185
+50047,41.4751,-93.4673
+50048,41.5125,-94.5201
+50049,41.0344,-93.2954
+50050,42.1590,-94.5036
+50051,42.1354,-93.1414
+50052,40.6433,-93.4444
+50054,41.6883,-93.2318
+50055,41.8846,-93.2801
+50056,42.0207,-93.2961
+50057,41.1799,-93.1343
+50058,41.8556,-94.6911
+50060,40.7552,-93.3196
+50061,41.4759,-93.7977
+50062,41.2355,-93.2450
+50063,41.6956,-93.9406
+50064,42.1039,-94.2231
+50065,40.6116,-93.7743
+50066,41.7981,-94.2334
+50067,40.6927,-93.8827
+50068,40.9480,-93.4663
+50069,41.5211,-94.0299
+50070,41.4455,-94.2326
+50071,42.6486,-93.5049
+50072,41.4712,-94.1230
+50073,41.7921,-93.5240
+50074,40.8659,-94.0801
+50075,42.3252,-93.5649
+50076,41.5922,-94.8419
+50078,41.9386,-92.8629
+50101,42.6671,-93.6342
+50102,42.2455,-93.4002
+50103,40.7951,-93.6091
+50104,41.4946,-92.3884
+50105,42.1175,-93.6391
+50106,41.8811,-92.8058
+50107,42.0365,-94.2190
+50108,40.8247,-93.9655
+50109,41.7709,-93.8006
+50110,41.8442,-94.9860
+50111,41.6919,-93.8018
+50112,41.7334,-92.7127
+50115,41.6832,-94.5616
+50116,41.1781,-92.9825
+50117,41.6800,-94.7906
+50118,41.4598,-93.3787
+50119,41.3131,-92.9397
+50120,41.9338,-92.9828
+50122,42.2988,-93.3078
+50123,40.8338,-93.5138
+50124,41.8851,-93.6044
+50125,41.3352,-93.5846
+50126,42.5105,-93.2553
+50127,41.7812,-93.2113
+50128,41.8556,-94.3002
+50129,42.0133,-94.3767
+50130,42.3034,-93.6692
+50131,41.6968,-93.7208
+50132,42.3939,-93.6826
+50133,40.7184,-94.0820
+50134,41.9399,-93.6743
+50135,41.7454,-92.8960
+50136,41.4695,-92.2928
+50137,41.6097,-92.9216
+50138,41.3029,-93.1077
+50139,41.1942,-93.3582
+50140,40.6341,-93.9933
+50141,41.8676,-92.9497
+50142,42.0056,-92.7758
+50143,41.3418,-92.8047
+50144,40.7331,-93.7373
+50145,41.2039,-93.4851
+50146,41.6804,-94.2491
+50147,40.6177,-93.5477
+50148,42.1815,-92.9957
+50149,41.1497,-94.0953
+50150,41.1255,-92.9752
+50151,41.0788,-93.4888
+50152,41.9687,-93.8176
+50153,41.5739,-92.8070
+50154,42.1763,-93.3907
+50155,41.2110,-94.1994
+50156,41.8983,-93.8012
+50157,41.7401,-92.5633
+50158,42.0498,-92.9007
+50160,41.3739,-93.7387
+50161,41.8423,-93.3969
+50162,41.9283,-93.0629
+50163,41.2223,-93.2410
+50164,41.4999,-94.4333
+50165,40.8508,-93.3085
+50166,41.2828,-93.4310
+50167,41.7453,-94.0494
+50168,41.7884,-93.2785
+50169,41.6553,-93.3524
+50170,41.5300,-93.1165
+50171,41.5839,-92.5254
+50173,41.9647,-92.7135
+50174,41.0337,-93.9823
+50201,42.0335,-93.4444
+50206,42.2457,-93.2023
+50207,41.4320,-92.6375
+50208,41.7108,-93.0398
+50210,41.1950,-93.6983
+50211,41.4553,-93.7053
+50212,42.0366,-94.0662
+50213,41.0331,-93.7647
+50214,41.4693,-93.0557
+50216,41.6973,-94.3549
+50217,42.1838,-94.2518
+50218,41.3484,-93.8775
+50219,41.4207,-92.8967
+50220,41.8364,-94.1213
+50222,41.2159,-93.9596
+50223,42.1737,-94.0378
+50225,41.3812,-93.2746
+50226,41.7962,-93.7020
+50227,42.5939,-93.4282
+50228,41.5689,-93.2453
+50229,41.3791,-93.7751
+50230,42.3032,-93.4534
+50231,42.2376,-93.6026
+50232,41.5567,-92.9697
+50233,41.6122,-94.2110
+50234,41.8880,-93.1813
+50235,41.9318,-94.2249
+50236,42.1784,-93.4904
+50237,41.5452,-93.3710
+50238,40.9638,-93.1826
+50239,42.1428,-93.2029
+50240,41.2971,-93.7930
+50241,41.3077,-93.7338
+50242,41.5610,-92.6938
+50243,41.8646,-93.6967
+50244,41.8508,-93.6512
+50246,42.2890,-93.7814
+50247,42.0181,-93.1664
+50248,42.1912,-93.6144
+50249,42.2753,-93.9032
+50250,41.4822,-94.3472
+50251,41.5669,-92.8694
+50252,41.4565,-93.3198
+50254,40.9912,-94.0594
+50255,41.4559,-92.3321
+50256,41.2597,-92.9053
+50257,41.1835,-93.8626
+50258,42.2241,-93.0731
+50261,41.4749,-93.9210
+50262,40.8624,-93.8191
+50263,41.6042,-93.8797
+50264,40.8922,-93.7099
+50265,41.5427,-93.7511
+50266,41.5627,-93.8146
+50268,41.4070,-92.3617
+50269,42.2645,-93.0106
+50271,42.4844,-93.5449
+50272,41.0881,-93.2568
+50273,41.3265,-94.0490
+50274,41.3833,-94.8610
+50275,41.0437,-93.5885
+50276,41.8601,-93.9226
+50277,41.7797,-94.3410
+50278,42.1556,-93.3012
+50309,41.5842,-93.6220
+50310,41.6276,-93.6727
+50311,41.6010,-93.6734
+50312,41.5768,-93.6821
+50313,41.6569,-93.6245
+50314,41.6050,-93.6312
+50315,41.5454,-93.6192
+50316,41.6086,-93.5996
+50317,41.6181,-93.5494
+50319,41.5911,-93.6030
+50320,41.5310,-93.5724
+50321,41.5346,-93.6624
+50322,41.6342,-93.7344
+50323,41.6389,-93.8185
+50324,41.6047,-93.7127
+50325,41.6136,-93.7991
+50327,41.5864,-93.4877
+50401,43.1541,-93.1998
+50420,42.8062,-93.4568
+50421,42.8429,-93.6231
+50423,43.1183,-93.8145
+50424,43.4033,-93.9418
+50426,43.4151,-93.0172
+50427,42.8355,-93.2212
+50428,43.1400,-93.3909
+50430,42.9773,-93.9566
+50431,42.7365,-93.3699
+50432,43.2240,-93.7979
+50433,42.9285,-93.0477
+50434,43.2575,-93.4486
+50435,43.1575,-92.7688
+50436,43.2592,-93.6858
+50438,43.1115,-93.6186
+50439,42.9447,-93.6263
+50440,43.3322,-93.0690
+50441,42.7397,-93.2206
+50444,43.2972,-93.3836
+50446,43.3338,-93.4498
+50447,42.9312,-93.7983
+50448,43.3499,-93.2405
+50449,43.0025,-93.5471
+50450,43.4212,-93.5222
+50451,43.3775,-94.0915
+50452,42.7811,-93.3673
+50453,43.3634,-93.6474
+50454,43.3851,-92.7393
+50455,43.4570,-92.6498
+50456,43.2913,-93.2160
+50457,42.9142,-93.4928
+50458,43.1588,-93.0120
+50459,43.4575,-93.2505
+50460,43.2259,-92.6902
+50461,43.3062,-92.8187
+50464,43.2514,-93.0765
+50465,43.4870,-93.9106
+50466,43.3869,-92.5384
+50467,43.2091,-93.0662
+50468,43.0322,-92.9471
+50469,42.9993,-93.1971
+50470,42.7465,-93.5538
+50471,43.1648,-92.8784
+50472,43.4067,-92.9353
+50473,43.4660,-93.6667
+50475,42.8822,-93.2140
+50476,43.4468,-92.7641
+50477,42.9874,-93.3273
+50478,43.4075,-93.7836
+50479,42.9412,-93.4082
+50480,43.2504,-94.0586
+50482,43.1248,-93.4847
+50483,43.1117,-93.9972
+50484,43.2383,-93.9065
+50501,42.4916,-94.1871
+50510,42.7593,-94.9856
+50511,43.0751,-94.2192
+50514,43.4152,-94.4724
+50515,43.0172,-94.8861
+50516,42.6240,-94.1369
+50517,43.3053,-94.2343
+50518,42.5121,-94.3824
+50519,42.9031,-94.2654
+50520,42.8092,-94.3979
+50521,42.3462,-94.1028
+50522,43.1856,-94.1858
+50523,42.3678,-94.2936
+50524,42.5942,-94.3586
+50525,42.7365,-93.7473
+50527,42.9692,-94.7923
+50528,43.1371,-94.5402
+50529,42.7222,-94.2010
+50530,42.2703,-94.0396
+50531,43.4541,-94.6098
+50532,42.4603,-94.0007
+50533,42.6525,-93.9111
+50535,42.4527,-95.1640
+50536,43.1174,-94.6954
+50538,42.2839,-94.4319
+50539,43.2354,-94.4185
+50540,42.5984,-94.8400
+50541,42.7102,-94.4524
+50542,42.7830,-93.9427
+50543,42.2743,-94.3067
+50544,42.2537,-94.1704
+50545,42.7974,-94.0809
+50546,42.8437,-94.7081
+50548,42.7137,-94.2228
+50551,42.4824,-94.7549
+50552,42.4564,-94.4607
+50554,42.8458,-94.8399
+50556,43.4552,-94.1966
+50557,42.3607,-94.0437
+50558,42.8613,-94.1638
+50559,43.2091,-94.3247
+50560,42.9558,-94.1043
+50561,42.4177,-94.8508
+50562,42.9616,-94.6417
+50563,42.5278,-94.5250
+50565,42.8574,-95.0008
+50566,42.4378,-94.3237
+50567,42.5238,-95.0808
+50568,42.6330,-95.0039
+50569,42.4035,-94.1345
+50570,42.8955,-94.3670
+50571,42.6349,-94.5806
+50573,42.8768,-94.6226
+50574,42.7189,-94.6997
+50575,42.5588,-94.7006
+50576,42.8027,-95.1773
+50577,42.8577,-93.9791
+50578,43.3065,-94.5496
+50579,42.3938,-94.6342
+50581,42.8430,-94.5498
+50582,42.7927,-94.2941
+50583,42.4328,-94.9856
+50585,42.9175,-95.1419
+50586,42.4119,-94.4256
+50588,42.6546,-95.1616
+50590,43.4067,-94.3041
+50591,42.6768,-94.0548
+50592,42.7293,-95.1834
+50593,42.6580,-94.8982
+50594,42.5856,-94.0395
+50595,42.4614,-93.8226
+50597,42.9753,-94.4517
+50598,43.0802,-94.4184
+50599,42.5793,-93.8232
+50601,42.5678,-93.0601
+50602,42.7416,-92.8057
+50603,43.1889,-92.4582
+50604,42.6018,-92.8965
+50605,42.8356,-93.0328
+50606,42.7473,-91.6912
+50607,42.6027,-91.7490
+50608,42.5881,-92.9608
+50609,42.2284,-92.8095
+50611,42.8193,-92.9111
+50612,42.2855,-92.3869
+50613,42.5314,-92.4859
+50616,43.0805,-92.6589
+50619,42.7993,-92.6632
+50620,43.1571,-92.5912
+50621,42.2474,-92.9190
+50622,42.6736,-92.3333
+50623,42.5269,-92.2097
+50624,42.4687,-92.6588
+50625,42.7484,-92.9884
+50626,42.5841,-92.1715
+50627,42.3504,-93.0939
+50628,43.2727,-92.3940
+50629,42.6487,-92.0715
+50630,42.9577,-92.2140
+50631,42.8851,-92.3095
+50632,42.0751,-92.6961
+50633,42.6753,-93.1267
+50634,42.4182,-92.2143
+50635,42.2024,-92.6966
+50636,42.8936,-92.8086
+50638,42.3565,-92.7950
+50641,42.5919,-91.9194
+50642,42.4395,-92.8164
+50643,42.3580,-92.4642
+50644,42.4775,-91.8978
+50645,43.0196,-92.4437
+50647,42.6509,-92.4970
+50648,42.4531,-92.0932
+50649,42.6625,-92.9097
+50650,42.6182,-91.6560
+50651,42.3246,-92.2017
+50652,42.2645,-92.6923
+50653,42.9686,-92.8856
+50654,42.4074,-91.5740
+50655,42.7656,-91.8917
+50657,42.3445,-92.6740
+50658,42.9504,-92.5381
+50659,43.0958,-92.3291
+50660,42.5775,-92.6418
+50662,42.6887,-91.9375
+50664,42.7070,-92.0723
+50665,42.5808,-92.7717
+50666,42.8544,-92.5032
+50667,42.4700,-92.2256
+50668,42.6929,-92.2289
+50669,42.3392,-92.6150
+50670,42.6776,-92.6159
+50671,42.6504,-91.7958
+50672,42.4260,-93.0716
+50673,42.5251,-92.7113
+50674,42.8380,-92.1153
+50675,42.1978,-92.5121
+50676,42.7989,-92.2802
+50677,42.7667,-92.4398
+50680,42.4446,-92.9172
+50681,42.7776,-92.0093
+50682,42.4498,-91.6947
+50701,42.4176,-92.3446
+50702,42.4615,-92.3137
+50703,42.5481,-92.2864
+50707,42.4774,-92.2817
+50801,41.0787,-94.4018
+50830,41.0226,-94.1905
+50831,40.9508,-94.2224
+50833,40.6705,-94.7009
+50835,40.7064,-94.3755
+50836,40.6323,-94.4975
+50837,41.2198,-94.6914
+50839,41.0488,-94.8220
+50840,40.7902,-94.4826
+50841,41.0091,-94.7688
+50842,41.0399,-94.4618
+50843,41.2368,-94.8852
+50845,40.8152,-94.3522
+50846,41.3090,-94.5761
+50847,41.1417,-94.9839
+50848,40.7917,-94.7643
+50849,41.2945,-94.4050
+50851,40.9086,-94.5370
+50853,41.2369,-94.7679
+50854,40.6794,-94.2128
+50857,40.9348,-94.8795
+50858,41.2111,-94.4096
+50859,41.0671,-94.5973
+50860,40.6175,-94.3479
+50861,40.9084,-94.2559
+50862,40.8116,-94.6477
+50863,40.8478,-94.1757
+50864,40.9704,-94.9781
+51001,42.8405,-96.5461
+51002,42.7021,-95.3189
+51003,42.9896,-95.9860
+51004,42.3801,-95.9182
+51005,42.7236,-95.4188
+51006,42.3103,-95.6107
+51007,42.4022,-96.1886
+51008,42.8113,-96.2672
+51009,42.9450,-95.5514
+51010,42.0975,-95.9382
+51011,42.9156,-96.5139
+51012,42.7454,-95.5604
+51014,42.7876,-95.7073
+51015,42.3394,-96.0811
+51016,42.4718,-95.8053
+51018,42.4497,-95.6808
+51019,42.2768,-95.7199
+51020,42.5150,-95.4102
+51022,42.9782,-95.8473
+51023,43.0067,-96.4635
+51024,42.6265,-96.2629
+51025,42.4976,-95.5561
+51026,42.2555,-96.0684
+51027,42.9657,-96.3279
+51028,42.5967,-95.9876
+51029,42.8855,-95.5414
+51030,42.4977,-96.1883
+51031,42.8032,-96.1864
+51033,42.9194,-95.2524
+51034,42.1628,-95.7896
+51035,42.7808,-95.8005
+51036,42.9697,-96.1895
+51037,42.8257,-95.6427
+51038,42.7032,-96.3165
+51039,42.4492,-96.0496
+51040,42.0325,-96.0687
+51041,43.0244,-96.0770
+51044,42.3062,-95.9181
+51045,42.8203,-96.0579
+51046,42.9618,-95.6780
+51047,42.9424,-95.3695
+51048,42.5510,-95.8413
+51049,42.6301,-95.6444
+51050,42.8004,-95.9479
+51051,42.2061,-95.9649
+51052,42.3082,-96.2660
+51053,42.4951,-95.2865
+51054,42.3809,-96.3350
+51055,42.2082,-96.2603
+51056,42.2413,-95.9564
+51058,42.9893,-95.4769
+51060,42.0424,-95.6844
+51061,42.5797,-95.7253
+51062,42.6979,-96.5349
+51063,42.1328,-96.1907
+51101,42.4937,-96.3942
+51103,42.5197,-96.4493
+51104,42.5345,-96.4032
+51105,42.5079,-96.3663
+51106,42.4632,-96.3129
+51108,42.5660,-96.3525
+51109,42.6103,-96.4700
+51111,42.4185,-96.3931
+51201,43.1824,-95.8656
+51230,43.3562,-96.3221
+51231,43.1057,-95.7413
+51232,43.2950,-95.8095
+51234,43.1922,-96.0193
+51235,43.2949,-96.2153
+51237,43.3361,-96.0008
+51238,43.0744,-95.8924
+51239,43.2039,-96.1475
+51240,43.3094,-96.4584
+51241,43.4512,-96.4617
+51242,43.4323,-96.3381
+51243,43.4406,-95.8966
+51244,43.2443,-95.9344
+51245,43.0778,-95.6014
+51246,43.4288,-96.1647
+51247,43.1938,-96.3381
+51248,43.2044,-95.6591
+51249,43.4074,-95.7310
+51250,43.0909,-96.2058
+51301,43.1531,-95.1498
+51331,43.3596,-95.1308
+51333,43.1366,-95.0012
+51334,43.4040,-94.8037
+51338,43.2054,-95.3187
+51340,43.2405,-95.1561
+51341,43.0182,-95.0360
+51342,43.2479,-94.7369
+51343,43.0176,-95.1275
+51345,43.4224,-95.4367
+51346,43.1913,-95.4536
+51347,43.4224,-95.3185
+51350,43.3075,-95.5983
+51351,43.3151,-95.1836
+51354,43.4123,-95.5433
+51355,43.3887,-95.1405
+51357,43.0622,-95.2876
+51358,43.1299,-94.8937
+51360,43.4337,-95.0859
+51363,43.4337,-94.9467
+51364,43.2993,-94.9629
+51365,43.3096,-94.7333
+51366,42.9607,-95.0030
+51401,42.0649,-94.8700
+51430,42.0897,-95.0266
+51431,42.3444,-95.3515
+51432,41.9101,-95.1380
+51433,42.2666,-94.8753
+51436,42.1891,-95.0048
+51439,42.0828,-95.5891
+51440,41.9117,-94.8138
+51441,42.1133,-95.3154
+51442,42.0313,-95.3568
+51443,42.0699,-94.6970
+51444,42.0122,-94.9736
+51445,42.3281,-95.4677
+51446,41.7766,-95.1927
+51447,41.7210,-95.1919
+51448,42.2054,-95.3098
+51449,42.2660,-94.7344
+51450,42.3164,-95.0207
+51451,42.1851,-94.6952
+51452,42.1224,-94.7836
+51453,42.2623,-94.5455
+51454,41.8848,-95.1906
+51455,41.9078,-95.0569
+51458,42.3264,-95.2353
+51459,42.0450,-94.6378
+51460,42.1324,-95.5710
+51461,42.1741,-95.4741
+51462,42.0144,-94.5565
+51463,41.9074,-94.9127
+51465,42.0869,-95.2006
+51466,42.2470,-95.0996
+51467,42.0719,-95.1073
+51501,41.2273,-95.8784
+51503,41.2232,-95.7845
+51510,41.2885,-95.9169
+51520,41.9692,-95.4593
+51521,41.4855,-95.3447
+51523,41.9152,-96.0677
+51525,41.2340,-95.4200
+51526,41.3739,-95.8718
+51527,41.8371,-95.3373
+51528,41.9089,-95.5012
+51529,41.8605,-95.6435
+51530,41.7875,-95.4305
+51531,41.5875,-95.0884
+51532,41.1380,-95.1091
+51533,41.0395,-95.3782
+51534,41.0413,-95.7178
+51535,41.2265,-95.1267
+51536,41.3843,-95.3732
+51537,41.6501,-95.2972
+51540,41.0243,-95.4982
+51541,41.1391,-95.4162
+51542,41.4404,-95.8318
+51543,41.6579,-95.0731
+51544,41.3139,-95.1034
+51545,41.8510,-96.0146
+51546,41.6371,-95.7661
+51548,41.3171,-95.6355
+51549,41.1858,-95.4667
+51550,41.6920,-95.8740
+51551,40.9908,-95.5875
+51552,41.4861,-95.1144
+51553,41.4146,-95.5471
+51554,41.1451,-95.6812
+51555,41.5595,-95.9153
+51556,41.6429,-96.0401
+51557,41.7336,-96.0064
+51558,41.9159,-95.8806
+51559,41.4554,-95.6430
+51560,41.3135,-95.4009
+51561,41.0051,-95.8096
+51562,41.7251,-95.4933
+51563,41.5707,-95.5856
+51564,41.8096,-95.9228
+51565,41.6429,-95.5245
+51566,41.0151,-95.2297
+51570,41.5277,-95.4655
+51571,41.1423,-95.6166
+51572,41.9844,-95.8078
+51573,40.9792,-95.0948
+51575,41.2403,-95.6025
+51576,41.3829,-95.7149
+51577,41.4636,-95.2038
+51578,41.7200,-95.3950
+51579,41.7617,-95.7191
+51601,40.7355,-95.3470
+51630,40.6010,-95.1943
+51631,40.5914,-95.0100
+51632,40.7458,-95.0466
+51636,40.6671,-95.2352
+51637,40.6204,-95.1183
+51638,40.8374,-95.2662
+51639,40.7201,-95.4665
+51640,40.6262,-95.6613
+51645,40.8821,-95.4229
+51646,40.7477,-94.8744
+51647,40.6054,-95.3451
+51648,40.7395,-95.8004
+51649,40.8504,-95.5270
+51650,40.6783,-95.5502
+51651,40.6566,-95.0347
+51652,40.7725,-95.6231
+51653,40.8784,-95.6823
+51654,40.8349,-95.7816
+51656,40.7353,-95.1543
+52001,42.5483,-90.6937
+52002,42.5248,-90.7719
+52003,42.4307,-90.6697
+52030,42.1532,-90.5923
+52031,42.2526,-90.4864
+52032,42.2896,-90.8395
+52033,42.2794,-91.0018
+52035,42.6707,-91.1812
+52036,42.4729,-91.3409
+52037,41.9672,-90.6337
+52038,42.5867,-91.5615
+52039,42.5381,-90.8574
+52040,42.5036,-91.1417
+52041,42.5061,-91.2550
+52042,42.6786,-91.3602
+52043,42.8340,-91.4263
+52044,42.7681,-91.3233
+52045,42.4549,-90.9311
+52046,42.4402,-91.0119
+52047,42.9693,-91.3418
+52048,42.7373,-91.2558
+52049,42.8856,-91.1994
+52050,42.6103,-91.3267
+52052,42.7424,-91.1167
+52053,42.6066,-90.9640
+52054,42.3056,-90.6282
+52056,42.6040,-91.0726
+52057,42.4909,-91.4532
+52060,42.1012,-90.6803
+52064,42.0936,-90.3108
+52065,42.5835,-91.1020
+52066,42.6820,-90.9601
+52068,42.4238,-90.8113
+52069,42.0605,-90.4300
+52070,42.0844,-90.2085
+52071,42.3624,-90.5423
+52072,42.9203,-91.3803
+52073,42.6189,-90.8216
+52074,42.1105,-90.4624
+52075,42.1657,-90.4792
+52076,42.6972,-91.5104
+52077,42.8210,-91.5625
+52078,42.3958,-91.1157
+52079,42.2878,-90.7191
+52101,43.3663,-91.7729
+52132,43.2112,-91.9281
+52133,43.1089,-91.6606
+52134,43.4716,-92.4008
+52135,43.0206,-91.6628
+52136,43.3714,-92.1124
+52140,43.4456,-91.5346
+52141,42.9312,-91.6409
+52142,42.8260,-91.7983
+52144,43.1396,-91.9607
+52146,43.1759,-91.2060
+52147,42.9448,-91.9593
+52151,43.3464,-91.2648
+52154,43.1180,-92.1651
+52155,43.4128,-92.2957
+52156,43.0531,-91.4654
+52157,43.0219,-91.2403
+52158,43.0433,-91.1924
+52159,43.0788,-91.3656
+52160,43.4691,-91.3512
+52161,43.1273,-91.7562
+52162,43.1106,-91.5526
+52163,43.2198,-92.1031
+52164,42.8547,-91.9066
+52165,43.3085,-91.9943
+52166,43.0680,-91.9355
+52168,43.2034,-91.9534
+52169,42.8607,-91.6631
+52170,43.2288,-91.3048
+52171,43.0682,-92.0529
+52172,43.2712,-91.4838
+52175,42.9937,-91.8239
+52201,41.3297,-91.5471
+52202,42.1592,-91.6378
+52203,41.8139,-91.8916
+52205,42.1162,-91.2896
+52206,41.9919,-91.8872
+52207,42.0928,-90.8300
+52208,41.8768,-92.2569
+52209,41.9090,-92.0976
+52210,42.3340,-91.9930
+52211,41.7539,-92.4498
+52212,42.1088,-91.0903
+52213,42.2019,-91.7596
+52214,42.1879,-91.5093
+52215,41.9135,-92.4053
+52216,41.8836,-91.0243
+52217,42.0795,-92.4107
+52218,42.2954,-91.5386
+52219,42.2375,-91.4257
+52220,41.7266,-91.9985
+52221,41.6409,-92.3317
+52222,41.5764,-92.3406
+52223,42.4126,-91.3244
+52224,42.1575,-92.2937
+52225,42.0129,-92.3263
+52227,41.8944,-91.5702
+52228,41.9023,-91.7887
+52229,42.1446,-92.1692
+52231,41.3588,-92.0586
+52232,41.8049,-92.3471
+52233,42.0492,-91.6873
+52235,41.5782,-91.5319
+52236,41.7334,-91.8764
+52237,42.3408,-91.2520
+52240,41.6308,-91.4988
+52241,41.6972,-91.5975
+52242,41.6629,-91.5435
+52245,41.6729,-91.5121
+52246,41.6484,-91.5968
+52247,41.5187,-91.7233
+52248,41.3458,-91.9353
+52249,42.0120,-92.2052
+52251,41.7136,-92.2101
+52252,42.1971,-91.2272
+52253,41.8953,-91.3534
+52254,41.9523,-90.8054
+52255,41.8629,-90.9613
+52257,41.9148,-92.1724
+52301,41.7885,-92.0825
+52302,42.0654,-91.5609
+52305,42.0180,-91.3421
+52306,41.8871,-91.2542
+52307,41.7915,-91.9024
+52308,41.5733,-92.1594
+52309,42.1317,-90.8886
+52310,42.2204,-91.1954
+52312,42.0062,-91.2453
+52313,42.2572,-92.0967
+52314,41.9357,-91.4479
+52315,42.0018,-91.9698
+52316,41.5456,-92.0948
+52317,41.7671,-91.6345
+52318,41.8901,-91.8965
+52320,41.9991,-91.1484
+52321,42.1417,-90.9831
+52322,41.6927,-91.7628
+52323,41.9844,-90.9533
+52324,42.0639,-91.8061
+52325,41.5839,-91.9259
+52326,42.3948,-91.7565
+52327,41.4771,-91.5830
+52328,42.0719,-91.6664
+52329,42.3519,-91.8601
+52330,42.3526,-91.5008
+52332,42.0981,-91.8873
+52333,41.8037,-91.4871
+52334,41.7308,-91.9435
+52335,41.4680,-92.0538
+52336,42.0738,-91.4418
+52337,41.8822,-91.1428
+52338,41.8179,-91.7075
+52339,41.9279,-92.5871
+52340,41.7056,-91.6767
+52341,42.1029,-91.7262
+52342,42.0435,-92.5585
+52344,42.2920,-91.6833
+52345,42.2224,-91.8917
+52346,42.0130,-92.0812
+52347,41.7135,-92.2859
+52348,41.9933,-92.3860
+52349,42.1722,-92.0093
+52351,41.8749,-91.8353
+52352,42.2891,-91.7780
+52353,41.2988,-91.7156
+52354,41.9188,-91.9886
+52355,41.4606,-92.1918
+52356,41.4749,-91.8477
+52358,41.6914,-91.3184
+52359,41.3543,-91.8101
+52361,41.6409,-92.0160
+52362,42.0584,-91.0032
+52401,41.9755,-91.6592
+52402,42.0232,-91.6596
+52403,41.9660,-91.5661
+52404,41.9230,-91.6885
+52405,41.9834,-91.7462
+52411,42.0538,-91.7293
+52501,41.0444,-92.4291
+52530,40.9891,-92.2962
+52531,41.0257,-92.8198
+52533,41.0084,-92.1464
+52534,41.2734,-92.6806
+52535,40.8629,-91.9596
+52536,40.9575,-92.6089
+52537,40.7350,-92.4136
+52540,41.1568,-91.8230
+52542,40.6198,-92.0562
+52543,41.2020,-92.5127
+52544,40.7066,-92.9123
+52548,41.0855,-92.5306
+52549,40.6186,-92.9431
+52550,41.3139,-92.3569
+52551,40.8189,-92.1004
+52552,40.8271,-92.5487
+52553,41.1484,-92.6549
+52554,40.9254,-92.2357
+52555,40.6443,-92.8162
+52556,41.0242,-91.9275
+52557,41.0201,-91.9664
+52560,40.8548,-92.2492
+52561,41.2203,-92.4523
+52562,41.2654,-92.2486
+52563,41.1683,-92.2818
+52565,40.7421,-91.9345
+52566,41.1289,-92.5055
+52567,40.9317,-92.0722
+52568,41.1779,-92.2508
+52569,40.9807,-93.0496
+52570,40.6874,-92.1462
+52571,40.8739,-92.8324
+52572,40.6705,-92.6884
+52573,40.6276,-91.9288
+52574,40.8098,-92.9633
+52576,41.2152,-92.1094
+52577,41.2730,-92.6616
+52580,41.1052,-92.0903
+52581,40.8012,-93.0639
+52583,40.8049,-93.1463
+52584,40.6535,-92.2408
+52585,41.1893,-91.9862
+52586,41.3450,-92.4614
+52588,40.8579,-92.1602
+52590,40.6657,-93.1446
+52591,41.3166,-92.1914
+52593,40.7723,-92.7462
+52594,40.8360,-92.6524
+52595,41.2885,-92.6151
+52601,40.8561,-91.1298
+52619,40.5201,-91.5652
+52620,40.7024,-91.7968
+52621,41.2085,-91.5338
+52623,40.8494,-91.3373
+52624,40.7348,-91.3361
+52625,40.6608,-91.5742
+52626,40.6375,-91.7256
+52627,40.6582,-91.3563
+52630,40.8056,-91.6936
+52631,40.7831,-91.6124
+52632,40.4319,-91.4446
+52635,40.9914,-91.7613
+52637,41.0175,-91.1459
+52638,40.8015,-91.2423
+52639,40.5326,-91.4783
+52640,41.1012,-91.2805
+52641,40.9877,-91.5902
+52644,41.0399,-91.4154
+52645,40.9123,-91.4043
+52646,41.0697,-91.0168
+52647,41.1342,-91.5451
+52649,40.8385,-91.6121
+52650,40.9512,-91.1520
+52651,40.8641,-91.8137
+52652,41.0979,-91.5542
+52653,41.1629,-91.1540
+52654,41.1407,-91.6717
+52655,40.8473,-91.2139
+52656,40.7398,-91.4555
+52657,40.7678,-91.5164
+52658,40.6994,-91.2297
+52659,41.1325,-91.4367
+52660,40.9946,-91.2994
+52701,41.9820,-90.2491
+52720,41.5877,-91.1734
+52721,41.7559,-90.9633
+52722,41.5702,-90.4701
+52726,41.4963,-90.7804
+52727,41.9548,-90.3259
+52728,41.4588,-90.7265
+52729,41.8002,-90.7357
+52730,41.7757,-90.3354
+52731,41.9664,-90.4855
+52732,41.8910,-90.2530
+52737,41.2592,-91.3747
+52738,41.2736,-91.3779
+52739,41.3734,-91.3675
+52742,41.8383,-90.5197
+52745,41.7186,-90.7665
+52746,41.7165,-90.6704
+52747,41.5981,-90.9117
+52748,41.6658,-90.5549
+52749,41.3460,-91.1311
+52750,41.9370,-90.3970
+52751,41.8352,-90.6997
+52752,41.2747,-91.1911
+52753,41.6285,-90.3859
+52754,41.3388,-91.2423
+52755,41.4793,-91.4343
+52756,41.7291,-90.5416
+52757,41.8034,-90.3552
+52758,41.7424,-90.4373
+52759,41.4604,-90.8099
+52760,41.5522,-91.0686
+52761,41.4399,-91.0643
+52765,41.7209,-90.8691
+52766,41.4675,-91.2954
+52767,41.5738,-90.4250
+52768,41.7007,-90.3870
+52769,41.6058,-90.8472
+52771,42.0196,-90.2571
+52772,41.7419,-91.1547
+52773,41.6215,-90.7528
+52774,41.9075,-90.5959
+52776,41.5788,-91.2734
+52777,41.8474,-90.8553
+52778,41.6046,-91.0064
+52801,41.5210,-90.5748
+52802,41.4945,-90.6372
+52803,41.5389,-90.5560
+52804,41.5325,-90.6812
+52806,41.5892,-90.6255
+52807,41.6106,-90.5163
+53001,43.6079,-88.0552
+53002,43.4640,-88.3521
+53003,43.2123,-88.5196
+53004,43.4995,-87.8805
+53005,43.0624,-88.0988
+53006,43.6201,-88.5336
+53007,43.1084,-88.0722
+53010,43.6125,-88.2720
+53011,43.6596,-88.0914
+53012,43.3147,-88.0346
+53013,43.5653,-87.8469
+53014,44.0261,-88.1763
+53015,43.9077,-87.7860
+53016,43.3111,-88.7177
+53017,43.2015,-88.2526
+53018,43.0482,-88.3905
+53019,43.6963,-88.3028
+53020,43.8618,-88.0114
+53021,43.4947,-88.0093
+53022,43.2322,-88.1158
+53023,43.7804,-88.1067
+53024,43.3320,-87.9327
+53027,43.3163,-88.3711
+53029,43.1466,-88.3410
+53031,43.6404,-87.9178
+53032,43.4467,-88.6235
+53033,43.2396,-88.2540
+53034,43.3302,-88.6188
+53035,43.3878,-88.5434
+53036,43.1797,-88.5750
+53037,43.3127,-88.1604
+53038,43.0846,-88.7910
+53039,43.3698,-88.7095
+53040,43.5270,-88.1910
+53042,43.9569,-87.9723
+53044,43.7383,-87.7830
+53045,43.0589,-88.1525
+53046,43.1572,-88.1582
+53047,43.2605,-88.6287
+53048,43.5738,-88.4572
+53049,43.8861,-88.2886
+53050,43.5105,-88.5474
+53051,43.1594,-88.1215
+53057,43.7947,-88.2368
+53058,43.1124,-88.4116
+53059,43.2886,-88.5251
+53061,43.9454,-88.1207
+53063,43.9635,-87.8029
+53065,43.6798,-88.5716
+53066,43.1139,-88.4892
+53069,43.1127,-88.4330
+53070,43.6205,-87.8070
+53072,43.0800,-88.2666
+53073,43.7515,-87.9963
+53074,43.4270,-87.8824
+53075,43.5645,-87.9910
+53076,43.2697,-88.2090
+53078,43.3177,-88.4662
+53079,43.8145,-88.1995
+53080,43.4057,-87.9863
+53081,43.7103,-87.7331
+53083,43.8160,-87.7645
+53085,43.7328,-87.8555
+53086,43.3297,-88.2732
+53088,44.0717,-88.2996
+53089,43.1447,-88.2339
+53090,43.4623,-88.1717
+53091,43.4996,-88.4346
+53092,43.2150,-87.9512
+53093,43.6501,-87.9356
+53094,43.1440,-88.7320
+53095,43.3877,-88.1583
+53097,43.2420,-88.0098
+53098,43.2537,-88.7106
+53099,43.3804,-88.5257
+53103,42.8805,-88.2173
+53104,42.5475,-88.0393
+53105,42.6636,-88.2803
+53108,42.8151,-87.9430
+53110,42.9505,-87.8609
+53114,42.6094,-88.7459
+53115,42.6566,-88.6683
+53118,42.9625,-88.4915
+53119,42.8931,-88.4856
+53120,42.8028,-88.4174
+53121,42.7197,-88.5343
+53122,43.0475,-88.0870
+53125,42.5456,-88.5616
+53126,42.7945,-87.9977
+53127,42.9562,-88.3804
+53128,42.5288,-88.3350
+53129,42.9400,-88.0009
+53130,42.9412,-88.0495
+53132,42.8864,-88.0120
+53137,43.0079,-88.6691
+53139,42.6855,-88.1208
+53140,42.6202,-87.8283
+53142,42.5617,-87.8918
+53143,42.5616,-87.8290
+53144,42.6221,-87.9202
+53146,42.9737,-88.1554
+53147,42.5582,-88.4519
+53149,42.8754,-88.3416
+53150,42.8714,-88.1343
+53151,42.9739,-88.0956
+53153,42.9409,-88.4021
+53154,42.8787,-87.8987
+53156,42.8899,-88.5888
+53157,42.5377,-88.3686
+53158,42.5246,-87.8858
+53167,42.7301,-88.2254
+53168,42.5755,-88.1244
+53170,42.5555,-88.1562
+53172,42.9120,-87.8597
+53176,42.6430,-88.4145
+53177,42.7044,-87.9340
+53178,43.0295,-88.5968
+53179,42.5138,-88.1306
+53181,42.5198,-88.2410
+53182,42.6977,-88.0405
+53183,43.0058,-88.3704
+53184,42.5205,-88.6132
+53185,42.7982,-88.1945
+53186,43.0222,-88.2047
+53188,43.0200,-88.2944
+53189,42.9441,-88.2910
+53190,42.8078,-88.7362
+53191,42.5775,-88.5460
+53192,42.5165,-88.1843
+53195,42.5140,-88.4901
+53202,43.0497,-87.8924
+53203,43.0381,-87.9145
+53204,43.0186,-87.9261
+53205,43.0536,-87.9335
+53206,43.0752,-87.9335
+53207,42.9751,-87.8989
+53208,43.0440,-87.9681
+53209,43.1278,-87.9495
+53210,43.0689,-87.9738
+53211,43.0831,-87.8833
+53212,43.0739,-87.9086
+53213,43.0488,-88.0018
+53214,43.0203,-88.0129
+53215,42.9993,-87.9430
+53216,43.0863,-87.9763
+53217,43.1582,-87.9132
+53218,43.1137,-87.9930
+53219,42.9952,-87.9937
+53220,42.9652,-87.9913
+53221,42.9539,-87.9433
+53222,43.0814,-88.0350
+53223,43.1610,-87.9881
+53224,43.1633,-88.0397
+53225,43.1143,-88.0429
+53226,43.0506,-88.0432
+53227,42.9958,-88.0420
+53228,42.9690,-88.0432
+53233,43.0369,-87.9335
+53235,42.9731,-87.8679
+53295,43.0223,-87.9766
+53402,42.7959,-87.8165
+53403,42.6842,-87.8155
+53404,42.7608,-87.8153
+53405,42.7269,-87.8302
+53406,42.7345,-87.8649
+53501,42.6035,-89.0757
+53502,42.7304,-89.4381
+53503,43.1430,-89.9575
+53504,42.7175,-89.8505
+53505,42.6611,-88.8209
+53506,43.1648,-90.2863
+53507,42.9843,-89.9140
+53508,42.8662,-89.5756
+53510,42.7424,-90.3226
+53511,42.5464,-89.1067
+53515,43.1150,-89.7393
+53516,42.7968,-89.8736
+53517,43.0570,-89.8323
+53518,43.2410,-90.5951
+53520,42.6009,-89.3612
+53521,42.8381,-89.4003
+53522,42.5569,-89.7835
+53523,42.9844,-89.0288
+53525,42.5440,-88.8466
+53526,42.9743,-90.3444
+53527,43.0514,-89.1923
+53528,43.1183,-89.6380
+53529,43.2431,-89.5311
+53530,42.6936,-90.1117
+53531,43.0569,-89.0995
+53532,43.2497,-89.3267
+53533,42.9968,-90.1623
+53534,42.8608,-89.0933
+53536,42.7612,-89.2679
+53537,42.6727,-89.2106
+53538,42.9089,-88.8716
+53540,43.2218,-90.2936
+53541,42.5697,-90.0297
+53543,43.0576,-90.3455
+53544,42.8776,-89.9057
+53545,42.7387,-89.0402
+53546,42.6522,-88.9482
+53548,42.6893,-89.1313
+53549,42.9845,-88.7656
+53550,42.5528,-89.4939
+53551,43.0795,-88.9161
+53553,42.9123,-90.2970
+53554,42.9087,-90.4407
+53555,43.3202,-89.5558
+53556,43.2381,-90.2455
+53557,43.3389,-88.7977
+53558,42.9971,-89.2755
+53559,43.1656,-89.0819
+53560,43.1923,-89.7377
+53561,43.3994,-89.6517
+53562,43.1160,-89.5435
+53563,42.7809,-88.9335
+53565,42.8375,-90.1666
+53566,42.6091,-89.6494
+53569,42.9890,-90.4389
+53570,42.7311,-89.6196
+53571,43.2779,-89.3536
+53572,42.9608,-89.7501
+53573,43.1809,-90.4593
+53574,42.8185,-89.6518
+53575,42.9316,-89.3871
+53576,42.6257,-89.2332
+53577,43.3116,-90.0643
+53578,43.3111,-89.7689
+53579,43.2960,-88.8677
+53580,42.8594,-90.3813
+53581,43.3767,-90.4195
+53582,43.0184,-89.9788
+53583,43.2515,-89.8139
+53584,43.2794,-90.2947
+53585,42.5305,-88.7206
+53586,42.5727,-90.2270
+53587,42.5803,-89.9041
+53588,43.1892,-90.0805
+53589,42.9283,-89.2152
+53590,43.1999,-89.2071
+53593,42.9852,-89.5793
+53594,43.1833,-88.9712
+53597,43.1814,-89.4574
+53598,43.2097,-89.3365
+53599,42.6473,-89.8572
+53703,43.0796,-89.3784
+53704,43.1358,-89.3475
+53705,43.0740,-89.4605
+53706,43.0750,-89.4100
+53711,43.0113,-89.4093
+53713,43.0370,-89.3932
+53714,43.1003,-89.3120
+53715,43.0556,-89.3878
+53716,43.0651,-89.3150
+53717,43.0677,-89.5211
+53718,43.0970,-89.2746
+53719,43.0475,-89.5063
+53726,43.0707,-89.4219
+53792,43.0772,-89.4304
+53801,42.9248,-91.0746
+53802,42.8055,-90.8936
+53803,42.5591,-90.3551
+53804,42.8765,-90.9080
+53805,43.1430,-90.6830
+53806,42.7299,-90.9198
+53807,42.6168,-90.4727
+53808,42.6374,-90.5921
+53809,42.9936,-90.6332
+53810,42.8199,-90.9979
+53811,42.5412,-90.5251
+53812,42.5808,-90.6024
+53813,42.8440,-90.7170
+53816,42.9780,-90.8577
+53817,42.9403,-90.9723
+53818,42.7457,-90.4923
+53820,42.6998,-90.7015
+53821,43.0491,-91.0573
+53825,42.9183,-90.5885
+53826,43.1137,-90.9248
+53827,43.0459,-90.8205
+53901,43.5609,-89.4831
+53910,43.8867,-89.8077
+53911,43.3258,-89.3675
+53913,43.4928,-89.7287
+53916,43.4560,-88.8485
+53919,43.7339,-88.7760
+53920,43.6707,-89.6046
+53922,43.5209,-88.7151
+53923,43.5741,-89.1384
+53924,43.4834,-90.2617
+53925,43.3267,-89.0571
+53926,43.6669,-89.2228
+53928,43.4181,-89.1550
+53929,43.7566,-90.2910
+53930,43.6852,-89.4981
+53931,43.7425,-88.8669
+53932,43.4224,-89.0553
+53933,43.5840,-88.8752
+53934,43.9795,-89.8236
+53935,43.5897,-89.0662
+53936,43.8689,-89.7073
+53937,43.3869,-90.1454
+53939,43.6904,-89.1388
+53940,43.5913,-89.7944
+53941,43.5801,-90.1358
+53942,43.4640,-90.1653
+53943,43.3868,-90.0353
+53944,43.6884,-89.9302
+53946,43.7194,-89.0217
+53947,43.7468,-89.1377
+53948,43.7766,-90.0402
+53949,43.7826,-89.3396
+53950,43.9012,-90.1378
+53951,43.3879,-89.8762
+53952,43.7849,-89.5897
+53953,43.7661,-89.4579
+53954,43.5515,-89.3139
+53955,43.3999,-89.3987
+53956,43.5420,-89.0176
+53959,43.5335,-89.9973
+53960,43.4261,-89.2354
+53961,43.4637,-89.9443
+53962,43.6835,-90.2650
+53963,43.6347,-88.7376
+53964,43.9126,-89.5125
+53965,43.6714,-89.7481
+53968,43.6353,-90.2359
+53969,43.4957,-89.3003
+54001,45.3343,-92.3866
+54002,44.9596,-92.3719
+54003,44.7831,-92.4464
+54004,45.3022,-92.1252
+54005,45.2286,-92.2301
+54006,45.5905,-92.6467
+54007,45.1903,-92.3529
+54009,45.3525,-92.5778
+54011,44.7183,-92.4647
+54013,45.0829,-92.2282
+54014,44.6487,-92.5728
+54015,44.9708,-92.4532
+54016,44.9812,-92.6948
+54017,45.1200,-92.5198
+54020,45.2748,-92.6620
+54021,44.7342,-92.7063
+54022,44.8469,-92.6111
+54023,44.9742,-92.5469
+54024,45.5017,-92.6407
+54025,45.1438,-92.6804
+54026,45.2276,-92.5347
+54027,44.9240,-92.1999
+54028,44.9550,-92.2834
+54082,45.0696,-92.7511
+54101,44.7858,-88.0751
+54102,45.4980,-88.0146
+54103,45.6369,-88.5163
+54104,45.4344,-88.2711
+54106,44.4855,-88.4566
+54107,44.7007,-88.4569
+54110,44.1849,-88.0819
+54111,44.8121,-88.3800
+54112,45.0547,-88.0548
+54113,44.2620,-88.3095
+54114,45.2454,-88.1089
+54115,44.4054,-88.0893
+54119,45.6120,-88.1963
+54120,45.8035,-88.5693
+54121,45.8656,-88.3270
+54123,44.2088,-88.1552
+54124,44.9080,-88.3452
+54125,45.5791,-88.4016
+54126,44.2889,-88.0325
+54127,44.7969,-88.2682
+54128,44.8648,-88.8088
+54129,44.1251,-88.1994
+54130,44.3110,-88.2441
+54135,44.9077,-88.6266
+54136,44.2682,-88.3385
+54137,44.7584,-88.2561
+54138,45.3336,-88.4097
+54139,44.9568,-88.0755
+54140,44.2884,-88.3106
+54141,44.7286,-87.9983
+54143,45.0762,-87.6988
+54149,45.2112,-88.4435
+54150,44.9692,-88.7882
+54151,45.7254,-87.9882
+54152,44.5665,-88.4705
+54153,44.8981,-87.9157
+54154,44.8737,-88.1821
+54155,44.5275,-88.2005
+54156,45.6104,-87.9442
+54157,45.0482,-87.8112
+54159,45.1934,-87.8388
+54160,44.1185,-88.1017
+54161,45.1352,-88.1506
+54162,44.6625,-88.2709
+54165,44.5212,-88.3163
+54166,44.7788,-88.6345
+54169,44.1767,-88.2807
+54170,44.5361,-88.5769
+54171,44.7152,-88.0965
+54173,44.6407,-88.0149
+54174,45.0345,-88.4374
+54175,45.3044,-88.6254
+54177,45.3661,-87.9131
+54180,44.3302,-88.1783
+54201,44.6268,-87.4866
+54202,45.0873,-87.1401
+54204,44.7555,-87.6053
+54205,44.6108,-87.6324
+54207,44.0801,-87.9823
+54208,44.3636,-87.7996
+54209,45.0179,-87.2704
+54210,45.2462,-87.0359
+54211,45.1604,-87.1664
+54212,45.1098,-87.2090
+54213,44.6952,-87.5282
+54214,44.1989,-87.7144
+54215,44.2268,-87.8033
+54216,44.4386,-87.5699
+54217,44.5481,-87.7179
+54220,44.0912,-87.7245
+54227,44.2841,-87.8048
+54228,44.2782,-87.6503
+54229,44.5601,-87.8155
+54230,44.1598,-87.9150
+54232,44.0073,-87.9248
+54234,45.1820,-87.1015
+54235,44.8436,-87.3728
+54241,44.2159,-87.5947
+54245,44.0309,-87.8981
+54246,45.3732,-86.8994
+54247,44.2000,-87.7901
+54301,44.4808,-88.0161
+54302,44.5067,-87.9763
+54303,44.5433,-88.0472
+54304,44.4928,-88.0673
+54307,44.4705,-88.0366
+54311,44.4803,-87.8921
+54313,44.5838,-88.1150
+54401,44.9668,-89.7094
+54403,45.0185,-89.5251
+54405,44.9675,-90.2823
+54406,44.4122,-89.3049
+54407,44.5322,-89.2818
+54408,45.0256,-89.3240
+54409,45.1222,-89.1709
+54410,44.5423,-90.0306
+54411,45.0626,-90.0334
+54412,44.6633,-89.9742
+54413,44.2915,-90.1482
+54414,44.9597,-89.1769
+54416,44.8841,-88.9484
+54417,45.0272,-89.6541
+54418,45.2118,-88.9830
+54420,44.6101,-90.3507
+54421,44.8952,-90.2887
+54422,44.9773,-90.4454
+54423,44.5789,-89.4259
+54424,45.2867,-89.1923
+54425,45.0068,-90.3411
+54426,44.9115,-89.9968
+54427,44.8246,-89.2571
+54428,45.4435,-89.1614
+54430,45.1361,-88.8857
+54433,45.2267,-90.8126
+54435,45.3605,-89.4382
+54436,44.5346,-90.4272
+54437,44.7772,-90.6291
+54440,44.8071,-89.3910
+54441,44.6420,-90.1060
+54442,45.3589,-89.6590
+54443,44.6089,-89.7517
+54446,44.7478,-90.4664
+54447,45.1066,-90.7221
+54448,44.9333,-89.8302
+54449,44.6377,-90.1968
+54450,45.0037,-89.0417
+54451,45.1974,-90.4077
+54452,45.2177,-89.7936
+54454,44.6020,-89.8840
+54455,44.7668,-89.6845
+54456,44.5444,-90.6328
+54457,44.2293,-89.8975
+54458,44.4971,-89.3061
+54459,45.4126,-90.2374
+54460,44.9534,-90.5329
+54462,45.3920,-89.0074
+54463,45.4987,-89.2328
+54464,45.0548,-89.0175
+54465,45.3963,-88.8757
+54466,44.3855,-90.3270
+54467,44.4139,-89.5389
+54469,44.3451,-89.8741
+54470,45.2919,-90.1367
+54471,44.9307,-89.4243
+54473,44.6506,-89.3524
+54474,44.8737,-89.6197
+54475,44.4846,-89.7931
+54476,44.8900,-89.5207
+54479,44.7506,-90.3320
+54480,45.0543,-90.2693
+54481,44.5225,-89.6461
+54482,44.5504,-89.5094
+54484,44.8003,-90.0817
+54485,45.3934,-89.2203
+54486,44.7180,-89.0452
+54487,45.5109,-89.7442
+54488,44.8431,-90.3462
+54489,44.4608,-90.0040
+54490,45.3254,-90.4086
+54491,45.2275,-88.7490
+54493,44.6968,-90.8107
+54494,44.3408,-89.7350
+54495,44.3917,-89.9587
+54498,45.0351,-90.6290
+54499,44.7898,-89.1764
+54501,45.6576,-89.3492
+54511,45.7375,-88.8231
+54512,46.0912,-89.6590
+54513,45.5784,-90.1413
+54514,46.0325,-90.4958
+54515,45.5126,-90.4911
+54517,46.1211,-90.9340
+54519,46.0547,-89.2636
+54520,45.5412,-88.9329
+54521,45.9162,-89.2542
+54524,45.8282,-90.3924
+54525,46.4344,-90.2255
+54526,45.5293,-90.8572
+54527,46.1262,-90.6403
+54529,45.6777,-89.6672
+54530,45.5291,-90.7154
+54531,45.7528,-89.7747
+54534,46.3521,-90.2237
+54536,46.3477,-90.3381
+54537,45.5338,-90.6022
+54538,45.9796,-89.9266
+54539,45.8092,-89.5774
+54540,46.1548,-89.3727
+54541,45.5536,-88.6621
+54542,45.9226,-88.7453
+54545,46.1340,-89.8545
+54546,46.2873,-90.7490
+54547,46.2116,-90.1062
+54548,45.8660,-89.8317
+54550,46.3478,-90.2594
+54552,45.9298,-90.2928
+54554,46.0600,-89.0641
+54555,45.7680,-90.3305
+54556,45.5347,-90.3171
+54557,46.2118,-89.7478
+54558,45.9251,-89.4994
+54559,46.4952,-90.4912
+54560,46.0367,-89.5523
+54561,46.0692,-89.4265
+54562,45.8027,-89.0793
+54563,45.4602,-90.9705
+54564,45.6041,-89.9614
+54565,46.2848,-90.4655
+54566,45.4283,-88.6307
+54568,45.9609,-89.6682
+54601,43.8062,-91.1406
+54603,43.8577,-91.2518
+54610,44.3651,-91.8317
+54611,44.4462,-90.9516
+54612,44.2496,-91.5015
+54613,44.0756,-89.9237
+54614,43.9049,-90.9528
+54615,44.2664,-90.7842
+54616,44.3115,-91.2139
+54618,43.9636,-90.2859
+54619,43.7575,-90.7742
+54621,43.6465,-91.0823
+54622,44.2734,-91.7740
+54623,43.7292,-91.0272
+54624,43.4615,-91.1311
+54625,44.1329,-91.5251
+54626,43.2196,-91.0540
+54627,44.1715,-91.2268
+54628,43.3730,-91.0262
+54629,44.1741,-91.6393
+54630,44.1227,-91.3729
+54631,43.2886,-90.8333
+54632,43.5611,-91.1469
+54634,43.5817,-90.4224
+54635,44.4029,-91.0456
+54636,44.0032,-91.2240
+54637,43.8787,-90.2708
+54638,43.7856,-90.4051
+54639,43.6108,-90.5996
+54642,44.1521,-91.0449
+54643,44.1882,-90.6324
+54644,44.0361,-91.0634
+54645,43.3208,-90.9290
+54646,44.0828,-90.0930
+54648,43.8369,-90.6345
+54650,43.9094,-91.2248
+54651,43.7230,-90.5664
+54652,43.4757,-90.7723
+54653,43.8214,-90.9269
+54654,43.2685,-90.9542
+54655,43.3710,-90.7591
+54656,43.9901,-90.8032
+54657,43.1993,-90.9097
+54658,43.6826,-91.1871
+54659,44.2871,-91.0963
+54660,43.9850,-90.5054
+54661,44.0576,-91.4678
+54664,43.4883,-90.6429
+54665,43.5320,-90.9286
+54666,44.1701,-90.4497
+54667,43.6664,-90.8648
+54669,43.9112,-91.0839
+54670,43.8380,-90.4827
+54701,44.7520,-91.5150
+54703,44.8346,-91.5204
+54720,44.8050,-91.4370
+54721,44.6337,-92.0827
+54722,44.7118,-91.0960
+54723,44.6106,-92.4194
+54724,45.1078,-91.4844
+54725,45.0732,-91.9909
+54726,44.9372,-91.0259
+54727,44.9540,-91.1591
+54728,45.3079,-91.6378
+54729,44.9464,-91.3945
+54730,45.0185,-91.7196
+54731,45.3498,-91.0904
+54732,45.1446,-91.1705
+54733,45.2787,-91.8502
+54734,45.0933,-92.1141
+54736,44.6129,-91.9246
+54737,44.7184,-91.9816
+54738,44.5883,-91.4888
+54739,44.8598,-91.7012
+54740,44.7514,-92.1668
+54741,44.6102,-90.9801
+54742,44.7628,-91.2720
+54745,45.2511,-91.1234
+54746,44.5479,-90.8644
+54747,44.3950,-91.5005
+54748,45.0751,-91.2630
+54749,44.9512,-92.0991
+54750,44.6353,-92.2850
+54751,44.8506,-91.9335
+54754,44.4264,-90.7740
+54755,44.5758,-91.6813
+54756,44.4681,-91.9396
+54757,45.2372,-91.5223
+54758,44.5579,-91.2165
+54759,44.4979,-92.1209
+54760,44.4241,-91.2061
+54761,44.6232,-92.1783
+54762,45.2565,-91.9967
+54763,45.1802,-91.8753
+54766,45.3407,-90.8580
+54767,44.8299,-92.2552
+54768,44.9671,-90.9271
+54769,44.5095,-92.2274
+54770,44.5519,-91.3731
+54771,44.9239,-90.8067
+54772,45.0810,-91.8874
+54773,44.3900,-91.2964
+54801,45.8639,-91.9375
+54805,45.4121,-92.0236
+54806,46.5518,-90.8457
+54810,45.4572,-92.3884
+54812,45.3925,-91.8826
+54813,45.6574,-92.0225
+54814,46.8633,-90.9012
+54817,45.6764,-91.5324
+54819,45.4758,-91.3021
+54820,46.5566,-91.5620
+54821,46.2170,-91.1662
+54822,45.4009,-91.6944
+54824,45.4847,-92.5399
+54826,45.4965,-92.1768
+54827,46.8012,-91.1116
+54828,45.8410,-91.2942
+54829,45.5668,-92.0751
+54830,46.1060,-92.2257
+54832,46.3193,-91.3434
+54835,45.6798,-91.2499
+54836,46.4544,-92.1950
+54837,45.6743,-92.3577
+54838,46.2491,-91.7944
+54839,46.3564,-91.1507
+54840,45.7513,-92.6924
+54841,45.6076,-91.7786
+54842,46.4908,-91.8720
+54843,46.0236,-91.2930
+54844,46.7815,-91.2155
+54845,45.8035,-92.1445
+54846,46.3783,-90.7202
+54847,46.5793,-91.3999
+54848,45.5160,-91.1038
+54849,46.4822,-91.7167
+54850,46.9406,-90.5708
+54853,45.5764,-92.4587
+54854,46.6504,-91.6672
+54855,46.3826,-90.8275
+54856,46.4324,-91.1099
+54857,45.5934,-91.5993
+54858,45.5194,-92.4578
+54859,46.1261,-91.8488
+54861,46.5989,-90.6433
+54862,45.8076,-91.1182
+54864,46.6022,-91.8014
+54865,46.7560,-91.3748
+54867,45.8217,-91.2031
+54868,45.5273,-91.7170
+54870,45.7093,-91.7753
+54871,45.7496,-92.0020
+54872,45.7723,-92.3915
+54873,46.3463,-91.7022
+54874,46.5718,-91.9387
+54875,45.9735,-91.6931
+54876,45.8275,-91.5011
+54880,46.5909,-92.1283
+54888,45.9748,-91.8669
+54889,45.4151,-92.1701
+54891,46.6978,-90.9712
+54893,45.8787,-92.3260
+54895,45.4494,-91.4608
+54896,45.8062,-90.8835
+54901,44.0628,-88.5358
+54902,43.9469,-88.5403
+54904,44.0234,-88.6238
+54909,44.2807,-89.3674
+54911,44.2815,-88.3810
+54913,44.3360,-88.4000
+54914,44.2676,-88.4990
+54915,44.2421,-88.3611
+54921,44.2957,-89.5793
+54922,44.5486,-88.7427
+54923,43.9977,-88.9668
+54926,44.6156,-89.0202
+54927,44.1031,-88.6544
+54928,44.7527,-88.8792
+54929,44.6409,-88.7400
+54930,44.0326,-89.5548
+54931,44.2702,-88.6682
+54932,43.8403,-88.6194
+54933,44.6586,-88.7140
+54935,43.7755,-88.4326
+54937,43.7241,-88.3982
+54940,44.2204,-88.8426
+54941,43.8447,-88.9929
+54942,44.2990,-88.5427
+54943,44.1226,-89.5727
+54944,44.3247,-88.6270
+54945,44.5686,-89.1368
+54946,44.3371,-89.1451
+54947,44.2036,-88.6987
+54948,44.7761,-88.8856
+54949,44.4940,-88.9126
+54950,44.6572,-88.9181
+54952,44.2020,-88.3394
+54956,44.1823,-88.5276
+54960,43.9417,-89.2190
+54961,44.4102,-88.7617
+54962,44.4862,-89.0310
+54963,44.0456,-88.7673
+54964,43.9156,-88.7419
+54965,44.1680,-89.0439
+54966,44.2101,-89.5048
+54967,44.1267,-88.9758
+54968,43.8469,-89.1361
+54970,44.0728,-89.0982
+54971,43.8551,-88.8336
+54974,43.7818,-88.6521
+54977,44.4612,-89.1712
+54978,44.7942,-88.9140
+54979,43.8725,-88.5364
+54980,43.9861,-88.7659
+54981,44.3227,-89.1315
+54982,44.0698,-89.2928
+54983,44.3169,-88.9352
+54984,44.1906,-89.2235
+54985,44.0756,-88.5197
+54986,44.1175,-88.7474
+55001,44.8988,-92.8191
+55003,45.0075,-92.7791
+55005,45.3961,-93.2185
+55006,45.7383,-93.1989
+55007,45.9713,-93.1178
+55008,45.5695,-93.2766
+55009,44.4806,-92.8711
+55011,45.3444,-93.2520
+55012,45.4380,-92.7884
+55013,45.3518,-92.8875
+55014,45.1683,-93.1238
+55016,44.8167,-92.9337
+55017,45.6713,-93.4377
+55018,44.4148,-92.9842
+55019,44.4110,-93.2503
+55020,44.5783,-93.3743
+55021,44.2975,-93.2739
+55024,44.6287,-93.1356
+55025,45.2604,-93.0165
+55026,44.5214,-92.3362
+55027,44.4063,-92.6094
+55029,45.6352,-93.2012
+55030,45.8483,-93.1202
+55031,44.6125,-92.9622
+55032,45.5903,-92.9930
+55033,44.7110,-92.8587
+55036,45.8713,-93.1197
+55037,46.0077,-92.7930
+55038,45.1734,-92.9812
+55040,45.4685,-93.2779
+55041,44.3928,-92.3339
+55042,44.9883,-92.8924
+55043,44.9406,-92.7689
+55044,44.6421,-93.2764
+55045,45.3957,-92.8282
+55046,44.4428,-93.4104
+55047,45.2004,-92.8207
+55049,44.1766,-93.2380
+55051,45.9366,-93.3394
+55052,44.2333,-93.4404
+55053,44.3494,-93.0654
+55054,44.5715,-93.3509
+55055,44.8744,-92.9986
+55056,45.5093,-92.9610
+55057,44.4727,-93.1791
+55060,44.0597,-93.2273
+55063,45.8386,-92.9029
+55065,44.5507,-93.0249
+55066,44.5119,-92.5392
+55068,44.7355,-93.0628
+55069,45.7003,-92.9722
+55070,45.4062,-93.3033
+55071,44.8214,-92.9984
+55072,46.1427,-92.5843
+55073,45.2763,-92.8304
+55074,45.3878,-92.7200
+55075,44.8880,-93.0417
+55076,44.8329,-93.0332
+55077,44.8179,-93.0770
+55079,45.4195,-93.0354
+55080,45.6664,-93.2222
+55082,45.0744,-92.8416
+55084,45.4626,-92.7162
+55085,44.6697,-92.9634
+55087,44.2362,-93.4092
+55088,44.5236,-93.3835
+55089,44.5932,-92.7091
+55090,45.0537,-92.9580
+55092,45.3341,-93.0999
+55101,44.9508,-93.0876
+55102,44.9319,-93.1213
+55103,44.9643,-93.1226
+55104,44.9539,-93.1644
+55105,44.9347,-93.1658
+55106,44.9572,-93.0471
+55107,44.9311,-93.0792
+55108,44.9823,-93.1747
+55109,45.0166,-93.0267
+55110,45.0899,-93.0040
+55111,44.8901,-93.1902
+55112,45.0805,-93.1921
+55113,45.0122,-93.1512
+55114,44.9667,-93.1951
+55115,45.0668,-92.9495
+55116,44.9107,-93.1696
+55117,45.0036,-93.0913
+55118,44.8943,-93.1009
+55119,44.9398,-93.0063
+55120,44.8760,-93.1506
+55121,44.8459,-93.1596
+55122,44.8010,-93.1954
+55123,44.8024,-93.1391
+55124,44.7453,-93.1994
+55125,44.9180,-92.9383
+55126,45.0830,-93.1405
+55127,45.0816,-93.0769
+55128,44.9875,-92.9636
+55129,44.8835,-92.8928
+55130,44.9733,-93.0824
+55150,44.8874,-93.1610
+55155,44.9519,-93.0994
+55301,45.2444,-93.6612
+55302,45.2465,-94.1171
+55303,45.2884,-93.4315
+55304,45.2456,-93.2600
+55305,44.9563,-93.4281
+55306,44.7309,-93.2914
+55307,44.5997,-94.1112
+55308,45.4137,-93.8353
+55309,45.3792,-93.7329
+55310,44.7559,-94.8763
+55311,45.1064,-93.4970
+55312,44.7063,-94.3513
+55313,45.1741,-93.8490
+55314,44.7764,-94.6071
+55315,44.7147,-93.6919
+55316,45.1729,-93.3868
+55317,44.8567,-93.5506
+55318,44.8108,-93.6363
+55319,45.4718,-93.9523
+55320,45.3963,-94.0861
+55321,45.0876,-94.1931
+55322,44.7719,-93.7871
+55324,45.0538,-94.4330
+55325,45.0849,-94.3170
+55327,45.2043,-93.4688
+55328,45.0334,-93.8137
+55329,45.3045,-94.5589
+55330,45.3322,-93.5665
+55331,44.9013,-93.6100
+55332,44.5204,-94.6995
+55333,44.5630,-94.8606
+55334,44.5357,-94.1884
+55335,44.5311,-94.5531
+55336,44.7652,-94.1904
+55337,44.7785,-93.2723
+55338,44.6748,-94.0007
+55339,44.7234,-93.9570
+55340,45.0783,-93.5721
+55341,45.1578,-93.6628
+55342,44.7429,-94.7390
+55343,44.9144,-93.4163
+55344,44.8638,-93.4300
+55345,44.9154,-93.4844
+55346,44.8786,-93.4813
+55347,44.8280,-93.4624
+55349,45.0622,-94.0746
+55350,44.8974,-94.3927
+55352,44.6515,-93.5926
+55353,45.3291,-94.3246
+55354,44.8869,-94.0643
+55355,45.0909,-94.5598
+55356,44.9959,-93.5855
+55357,45.1037,-93.6742
+55358,45.2449,-93.9977
+55359,45.0073,-93.6926
+55360,44.9160,-93.9196
+55362,45.3003,-93.8475
+55363,45.0378,-93.9181
+55364,44.9393,-93.6758
+55366,44.6724,-94.2346
+55367,44.8952,-93.9760
+55368,44.7401,-93.8997
+55369,45.1274,-93.4492
+55370,44.7841,-94.0346
+55371,45.5756,-93.5892
+55372,44.6824,-93.4136
+55373,45.0882,-93.7216
+55374,45.1755,-93.5755
+55375,44.8946,-93.7260
+55376,45.2103,-93.6828
+55378,44.7591,-93.3642
+55379,44.7434,-93.5100
+55381,44.9310,-94.2000
+55382,45.3004,-94.1991
+55384,44.9359,-93.6301
+55385,44.7361,-94.4865
+55386,44.8566,-93.6641
+55387,44.8612,-93.7840
+55388,44.9548,-93.8487
+55389,45.2979,-94.4426
+55390,45.0679,-93.9790
+55391,44.9642,-93.5434
+55395,44.9578,-94.0634
+55396,44.5448,-94.3669
+55397,44.8238,-93.9380
+55398,45.4587,-93.5895
+55401,44.9854,-93.2702
+55402,44.9761,-93.2712
+55403,44.9699,-93.2843
+55404,44.9619,-93.2613
+55405,44.9727,-93.3019
+55406,44.9387,-93.2210
+55407,44.9350,-93.2530
+55408,44.9438,-93.2939
+55409,44.9302,-93.2815
+55410,44.9133,-93.3169
+55411,44.9998,-93.2980
+55412,45.0273,-93.3036
+55413,44.9978,-93.2435
+55414,44.9784,-93.2224
+55415,44.9746,-93.2578
+55416,44.9494,-93.3410
+55417,44.9061,-93.2354
+55418,45.0213,-93.2429
+55419,44.9058,-93.2877
+55420,44.8360,-93.2772
+55421,45.0506,-93.2499
+55422,45.0093,-93.3411
+55423,44.8772,-93.2814
+55424,44.9050,-93.3449
+55425,44.8512,-93.2261
+55426,44.9566,-93.3817
+55427,45.0046,-93.3814
+55428,45.0640,-93.3835
+55429,45.0637,-93.3412
+55430,45.0632,-93.2992
+55431,44.8245,-93.3126
+55432,45.0967,-93.2537
+55433,45.1604,-93.3148
+55434,45.1637,-93.2504
+55435,44.8740,-93.3353
+55436,44.9072,-93.3751
+55437,44.8241,-93.3422
+55438,44.8231,-93.3861
+55439,44.8736,-93.3730
+55441,45.0084,-93.4307
+55442,45.0489,-93.4262
+55443,45.1195,-93.3390
+55444,45.1077,-93.3032
+55445,45.1224,-93.3792
+55446,45.0391,-93.4897
+55447,45.0011,-93.4896
+55448,45.1936,-93.3004
+55449,45.1760,-93.1841
+55450,44.8721,-93.2290
+55454,44.9733,-93.2437
+55455,44.9755,-93.2353
+55601,47.2356,-91.3660
+55602,47.3162,-91.9318
+55603,47.5508,-91.2064
+55604,47.9791,-90.5996
+55605,47.9528,-89.6600
+55606,47.9598,-90.0164
+55607,47.6220,-91.5008
+55609,46.9665,-91.7888
+55612,47.7879,-90.7056
+55613,47.5734,-90.9864
+55614,47.3457,-91.3824
+55615,47.7465,-90.8512
+55616,47.2515,-91.6920
+55702,46.9574,-92.6376
+55703,47.7310,-92.7502
+55704,46.2191,-92.7517
+55705,47.4707,-92.2673
+55706,47.6671,-91.9855
+55707,46.5517,-92.6361
+55708,47.5403,-92.3422
+55709,47.4026,-93.3729
+55710,47.6498,-92.6974
+55711,46.8188,-92.6908
+55712,46.2818,-92.5206
+55713,47.4879,-92.7644
+55716,47.3217,-93.2643
+55717,47.0688,-92.3872
+55718,46.6209,-92.4864
+55719,47.5410,-92.8622
+55720,46.7510,-92.5334
+55721,47.2213,-93.6832
+55722,47.2833,-93.4344
+55723,47.8405,-92.8572
+55724,47.1673,-92.3690
+55725,48.3503,-92.5307
+55726,46.6496,-92.8272
+55731,47.9969,-91.7540
+55732,47.6879,-92.2507
+55733,46.7138,-92.3608
+55734,47.3886,-92.4968
+55735,46.2103,-93.0102
+55736,46.9569,-92.9206
+55738,47.2643,-92.6603
+55741,47.4572,-92.3850
+55742,47.1710,-93.1448
+55744,47.2338,-93.5126
+55746,47.3352,-92.9543
+55748,46.9937,-93.5964
+55749,46.4396,-92.4433
+55750,47.5314,-91.9638
+55751,47.3894,-92.6732
+55752,46.9522,-93.2530
+55753,47.3967,-93.0805
+55756,46.3754,-92.6014
+55757,46.5264,-92.9476
+55758,47.5060,-92.7202
+55760,46.6426,-93.2574
+55763,47.3305,-92.2324
+55764,47.3326,-93.2914
+55765,47.0989,-92.7362
+55767,46.4486,-92.7738
+55768,47.5378,-92.6606
+55769,47.4800,-93.1839
+55771,48.1168,-92.9042
+55772,48.1102,-93.1002
+55775,47.2986,-93.1605
+55779,46.9087,-92.4491
+55780,46.6761,-92.6777
+55781,47.6809,-93.0651
+55782,47.8330,-92.2060
+55783,46.4121,-92.9180
+55784,47.0584,-93.1653
+55785,46.9216,-93.7312
+55786,47.3179,-93.3828
+55787,46.7218,-93.1085
+55790,47.8252,-92.3761
+55792,47.5970,-92.4797
+55793,47.1163,-93.2840
+55795,46.2982,-92.8829
+55796,47.9300,-91.7950
+55797,46.5665,-92.3621
+55798,46.7232,-92.9678
+55802,46.7642,-92.0824
+55803,47.0349,-92.0722
+55804,46.9314,-91.9363
+55805,46.7997,-92.0924
+55806,46.7681,-92.1276
+55807,46.7355,-92.1679
+55808,46.6787,-92.2374
+55810,46.7567,-92.2694
+55811,46.8385,-92.2222
+55812,46.8094,-92.0718
+55814,46.8352,-92.1971
+55901,44.0777,-92.4971
+55902,43.9713,-92.5079
+55903,44.0241,-92.4365
+55904,43.9533,-92.4014
+55905,44.0559,-92.5259
+55906,44.0999,-92.4082
+55909,43.5631,-92.7346
+55910,44.1287,-91.9718
+55912,43.6826,-92.9885
+55917,43.8848,-93.0755
+55918,43.7424,-92.8467
+55919,43.6201,-91.2995
+55920,44.0124,-92.6211
+55921,43.6204,-91.4758
+55922,43.5621,-91.8956
+55923,43.8494,-92.1832
+55924,44.0356,-93.0161
+55925,43.9121,-91.4584
+55926,43.7427,-92.7069
+55927,44.0338,-92.8733
+55929,43.9776,-92.1441
+55931,43.5087,-91.3852
+55932,44.1522,-92.2983
+55933,43.6478,-92.6851
+55934,44.0038,-92.2658
+55935,43.7474,-92.1274
+55936,43.7064,-92.5848
+55939,43.5468,-92.0815
+55940,43.8986,-92.8095
+55941,43.7248,-91.3491
+55943,43.7830,-91.5827
+55944,43.9895,-92.7180
+55945,44.2669,-92.0525
+55946,44.2621,-92.9501
+55947,43.8229,-91.3664
+55949,43.7030,-91.9297
+55950,43.7435,-92.9663
+55951,43.5292,-92.4825
+55952,43.9439,-91.8434
+55953,43.5278,-92.9652
+55954,43.5571,-91.7801
+55955,44.0873,-92.7409
+55956,44.2860,-92.5276
+55957,44.2531,-92.2969
+55959,44.1179,-91.7995
+55960,44.1402,-92.5352
+55961,43.6054,-92.4754
+55962,43.7622,-91.8451
+55963,44.1808,-92.6711
+55964,44.1602,-92.1581
+55965,43.6232,-92.1282
+55967,43.7934,-92.5135
+55968,44.3970,-92.0899
+55969,44.0826,-91.8766
+55970,43.5968,-92.8312
+55971,43.8199,-91.7578
+55972,43.9939,-92.0509
+55973,43.8079,-92.7720
+55974,43.5771,-91.6480
+55975,43.6779,-92.3644
+55976,43.8638,-92.4840
+55977,43.5537,-92.6479
+55979,43.9231,-91.9513
+55981,44.3576,-92.0492
+55982,43.8158,-92.8860
+55983,44.2914,-92.8070
+55985,44.1582,-92.9044
+55987,43.9942,-91.6254
+55990,43.7285,-92.2591
+55991,44.2612,-92.4186
+55992,44.3228,-92.6829
+56001,44.1282,-93.9790
+56003,44.2193,-94.0903
+56007,43.6609,-93.3246
+56009,43.6618,-93.5464
+56010,43.8862,-94.1798
+56011,44.6025,-93.7726
+56013,43.6202,-94.1038
+56014,43.5832,-93.8179
+56016,43.7621,-93.3431
+56017,44.3053,-93.8195
+56019,44.1159,-94.8890
+56020,43.6146,-93.5302
+56021,44.2893,-94.3160
+56022,44.0526,-94.8386
+56023,43.7716,-94.0129
+56024,44.1436,-93.8389
+56025,43.7532,-93.9174
+56026,43.8858,-93.2910
+56027,43.5167,-94.1166
+56028,44.2263,-93.7174
+56029,43.5178,-93.5361
+56030,44.3248,-94.6048
+56031,43.6268,-94.4623
+56032,43.7771,-93.5687
+56033,43.5651,-93.9381
+56034,44.0286,-94.1820
+56035,43.8195,-93.2726
+56036,43.5519,-93.2210
+56037,44.0112,-94.0386
+56039,43.6634,-94.3236
+56041,44.1613,-94.5331
+56042,43.8041,-93.4839
+56043,43.6494,-93.2224
+56044,44.5647,-93.9568
+56045,43.7596,-93.2096
+56046,43.9678,-93.2689
+56048,44.0948,-93.7132
+56050,44.2591,-93.9473
+56051,43.5364,-93.7085
+56052,44.3271,-93.5587
+56054,44.4357,-94.3704
+56055,44.1285,-94.2353
+56056,44.0728,-94.5795
+56057,44.3913,-93.7221
+56058,44.4419,-93.9140
+56060,43.9287,-94.4411
+56062,44.0482,-94.4139
+56063,44.2149,-93.8205
+56065,43.9315,-93.9084
+56068,43.8653,-93.8061
+56069,44.4121,-93.5424
+56071,44.5350,-93.5794
+56072,43.8992,-93.5171
+56073,44.3068,-94.4695
+56074,44.3269,-94.1969
+56075,43.7352,-94.4366
+56078,44.0059,-93.7609
+56080,44.0817,-93.8579
+56081,43.9929,-94.6348
+56082,44.3573,-94.0370
+56083,44.2080,-95.1343
+56085,44.2914,-94.7336
+56087,44.2405,-94.9752
+56088,43.8254,-94.4581
+56089,43.5680,-93.4575
+56090,43.9513,-94.2270
+56091,43.9144,-93.6862
+56093,44.0626,-93.5198
+56096,44.2449,-93.6035
+56097,43.7210,-93.7133
+56098,43.7930,-94.1818
+56101,43.8797,-95.1338
+56110,43.6222,-95.9451
+56111,43.6427,-94.8872
+56113,44.4044,-96.1511
+56114,43.9859,-95.5925
+56115,44.2095,-95.9058
+56116,43.6238,-96.3770
+56117,43.5231,-95.6874
+56118,43.9360,-95.0294
+56119,43.7137,-95.4630
+56120,43.9601,-94.7917
+56121,43.5346,-94.5842
+56122,43.8984,-95.9560
+56123,44.0869,-95.5924
+56125,44.0545,-95.5477
+56127,43.5475,-94.7647
+56128,43.8815,-96.1103
+56129,43.5292,-96.0419
+56131,43.8558,-95.5725
+56132,44.2035,-95.7649
+56134,43.7895,-96.2312
+56136,44.4952,-96.4141
+56137,43.8226,-95.3097
+56138,43.5370,-96.3802
+56139,44.1039,-96.1794
+56140,43.9094,-96.3672
+56141,43.8863,-95.8034
+56142,44.4676,-96.2310
+56143,43.6277,-95.0024
+56144,43.8386,-96.3868
+56145,44.0558,-95.1739
+56146,43.5801,-96.1034
+56147,43.7574,-96.0577
+56149,44.3042,-96.3056
+56150,43.6282,-95.1972
+56151,44.0315,-95.9294
+56152,44.2272,-95.2814
+56153,43.8264,-96.0242
+56155,43.7659,-95.9461
+56156,43.6615,-96.2272
+56157,44.4042,-95.9484
+56158,43.6338,-96.0839
+56159,43.9432,-94.9374
+56160,43.8291,-94.8052
+56161,43.7070,-95.3248
+56162,43.8403,-94.6673
+56164,44.0538,-96.3330
+56165,43.7253,-95.7031
+56166,44.2030,-95.3810
+56167,43.5539,-95.4087
+56168,43.6093,-95.7996
+56169,44.3321,-96.0111
+56170,44.1645,-96.0952
+56171,43.6713,-94.7618
+56172,44.0142,-95.7755
+56173,43.5251,-96.2419
+56174,44.0163,-95.3051
+56175,44.2607,-95.6385
+56176,43.7833,-94.7205
+56178,44.2857,-96.1281
+56180,44.2462,-95.4596
+56181,43.6778,-94.6266
+56183,44.0290,-95.4311
+56185,43.7985,-95.8242
+56186,44.0253,-96.0775
+56187,43.6228,-95.5832
+56201,45.1022,-95.0418
+56207,45.5059,-96.0666
+56208,45.2467,-96.0048
+56209,45.1272,-94.8120
+56210,45.5574,-96.5596
+56211,45.5931,-96.6880
+56212,45.1309,-96.3238
+56214,44.6105,-95.3244
+56215,45.3177,-95.5720
+56216,44.9425,-95.0594
+56218,44.8270,-95.9405
+56219,45.5973,-96.8179
+56220,44.7263,-96.2913
+56221,45.5600,-96.1871
+56222,44.9854,-95.3568
+56223,44.7621,-95.8188
+56224,44.3758,-95.0681
+56225,45.4410,-96.4427
+56226,45.4073,-95.6783
+56227,45.2908,-96.1688
+56228,44.9512,-94.6852
+56229,44.5940,-95.7164
+56230,44.7921,-95.0889
+56231,45.2795,-95.7632
+56232,44.9272,-96.0380
+56235,45.7097,-96.0165
+56236,45.6650,-96.3961
+56237,44.6236,-95.4311
+56239,44.5041,-95.9108
+56240,45.5626,-96.4836
+56241,44.7979,-95.5729
+56243,45.1702,-94.6865
+56244,45.4777,-95.7801
+56245,44.6840,-95.6773
+56248,45.7862,-96.1358
+56249,45.3187,-95.9016
+56251,45.1437,-94.9202
+56252,45.1783,-95.3101
+56253,44.9582,-94.8662
+56255,44.3895,-95.4210
+56256,45.0169,-96.2127
+56257,44.9693,-96.4022
+56258,44.4366,-95.7463
+56260,44.9633,-95.4830
+56262,45.1151,-95.8697
+56263,44.4215,-95.5325
+56264,44.5868,-95.9813
+56265,44.9998,-95.7065
+56266,44.4211,-94.9145
+56267,45.5825,-95.9288
+56270,44.5599,-94.9653
+56271,45.2412,-95.4144
+56273,45.3179,-94.9799
+56274,45.8979,-96.2445
+56276,45.2410,-96.3073
+56277,44.7674,-94.9931
+56278,45.3480,-96.3800
+56279,45.2188,-95.1698
+56280,44.6328,-96.1656
+56281,44.9483,-95.1648
+56282,45.0295,-95.2235
+56283,44.5280,-95.1389
+56284,44.7735,-95.2121
+56285,44.7883,-95.3452
+56287,44.4758,-95.3264
+56288,45.2431,-94.9436
+56289,45.3332,-95.2245
+56291,44.6226,-96.0621
+56292,44.5021,-95.4565
+56293,44.4165,-95.2599
+56294,44.3149,-95.2131
+56295,45.0431,-95.8489
+56296,45.8256,-96.4772
+56297,44.6368,-95.5536
+56301,45.4871,-94.2428
+56303,45.5740,-94.2153
+56304,45.5304,-94.0572
+56307,45.6268,-94.5910
+56308,45.8676,-95.3943
+56309,46.0793,-95.8060
+56310,45.6335,-94.4513
+56311,45.8975,-95.8956
+56312,45.4566,-94.9692
+56313,45.7840,-93.5527
+56314,45.8147,-94.4330
+56315,45.9801,-95.5934
+56316,45.5057,-95.1428
+56318,45.8530,-94.6745
+56319,46.0108,-95.2157
+56320,45.4668,-94.4028
+56321,45.5797,-94.3919
+56323,45.6296,-95.7239
+56324,46.1690,-95.9041
+56325,45.5629,-94.9472
+56326,46.0396,-95.6708
+56327,45.7545,-95.6082
+56328,45.9519,-94.5215
+56329,45.7091,-93.9148
+56330,45.7532,-93.7564
+56331,45.6790,-94.6717
+56332,45.9674,-95.5064
+56334,45.5744,-95.3368
+56335,45.6014,-94.8593
+56336,45.8207,-94.7626
+56338,46.0030,-93.8341
+56339,45.8250,-95.8212
+56340,45.7595,-94.4290
+56342,46.1838,-93.3690
+56343,45.7961,-95.7131
+56345,46.0100,-94.3838
+56347,45.9707,-94.8606
+56349,45.7182,-95.5202
+56350,46.3050,-93.2304
+56352,45.6418,-94.8064
+56353,45.8037,-93.6291
+56354,46.0640,-95.2817
+56355,45.9414,-95.2457
+56356,45.6336,-94.7276
+56357,45.6915,-93.7982
+56358,45.8380,-93.4461
+56359,46.0996,-93.6653
+56360,45.8873,-95.1036
+56361,46.1602,-95.3325
+56362,45.4020,-94.7122
+56363,45.6972,-93.6522
+56364,46.0187,-94.0719
+56367,45.7638,-94.1821
+56368,45.4643,-94.5612
+56369,45.4690,-94.3358
+56371,45.4333,-94.6372
+56373,45.8597,-94.2306
+56374,45.5659,-94.3166
+56375,45.7012,-94.2746
+56376,45.5025,-94.6675
+56377,45.6402,-94.2268
+56378,45.7250,-94.9873
+56379,45.6397,-94.0827
+56381,45.5568,-95.5378
+56382,45.9079,-94.5983
+56384,45.8099,-94.5675
+56385,45.6897,-95.2138
+56386,46.1144,-93.5195
+56387,45.5209,-94.2430
+56389,45.8013,-95.0864
+56401,46.3229,-94.1252
+56425,46.3439,-94.2760
+56431,46.4911,-93.6356
+56433,46.9507,-94.6883
+56434,46.3380,-94.9344
+56435,46.8059,-94.5319
+56437,46.2457,-95.0585
+56438,46.1386,-94.8192
+56440,46.1420,-94.9551
+56441,46.5778,-93.9815
+56442,46.6782,-94.1020
+56443,46.1740,-94.5795
+56444,46.4358,-93.8889
+56446,46.1288,-95.0975
+56447,46.7319,-93.8837
+56448,46.7881,-94.0822
+56449,46.1785,-94.2614
+56450,46.2369,-93.8430
+56452,46.9570,-94.4482
+56453,46.3160,-95.1754
+56455,46.4410,-94.0006
+56458,47.1958,-95.0020
+56461,47.2321,-94.8539
+56464,46.7688,-95.1042
+56465,46.5373,-94.1144
+56466,46.4360,-94.6250
+56467,46.9748,-94.8310
+56468,46.4933,-94.3113
+56469,46.7812,-93.5668
+56470,47.0269,-95.0919
+56472,46.5823,-94.3408
+56473,46.3583,-94.4698
+56474,46.7233,-94.3966
+56475,46.0797,-94.5460
+56477,46.6446,-95.0002
+56479,46.4346,-94.7945
+56481,46.4630,-94.9362
+56482,46.4643,-95.1477
+56484,47.1112,-94.4824
+56501,46.8401,-95.8274
+56510,47.3588,-96.5249
+56511,46.8425,-96.0163
+56514,46.6458,-96.4314
+56515,46.3073,-95.6908
+56516,47.4447,-95.9710
+56517,47.5501,-96.5594
+56518,46.4901,-95.2504
+56519,47.1619,-96.4790
+56520,46.2897,-96.4971
+56521,46.9993,-95.9018
+56522,46.1345,-96.3900
+56523,47.6383,-96.8087
+56524,46.2168,-95.6155
+56525,46.6716,-96.7519
+56527,46.3726,-95.3150
+56528,46.5214,-95.8238
+56529,46.8789,-96.6962
+56531,45.9916,-95.9816
+56533,46.3987,-96.1421
+56534,46.4716,-96.0114
+56535,47.6775,-96.0417
+56536,47.0415,-96.5329
+56537,46.2767,-96.0919
+56540,47.5403,-96.2742
+56541,47.1733,-96.1414
+56542,47.5681,-95.7278
+56543,46.2854,-96.3365
+56544,46.7578,-95.6054
+56545,47.3974,-96.2433
+56546,47.1049,-96.7201
+56547,46.8895,-96.5537
+56548,47.3683,-96.7454
+56549,46.8477,-96.3122
+56550,47.2739,-96.7431
+56551,46.3189,-95.4544
+56552,46.9852,-96.2341
+56553,46.4294,-96.6176
+56554,46.8855,-96.1161
+56556,47.6630,-95.8800
+56557,47.3037,-95.8359
+56560,46.8352,-96.7348
+56562,46.8645,-96.7702
+56563,46.8668,-96.7553
+56565,46.0486,-96.3151
+56566,47.2460,-95.6049
+56567,46.5498,-95.3744
+56568,47.5352,-96.7832
+56569,47.0784,-95.8270
+56570,46.9179,-95.3671
+56571,46.4338,-95.5427
+56572,46.6052,-96.0842
+56573,46.6102,-95.5422
+56574,47.1990,-96.7055
+56575,47.0424,-95.4348
+56576,46.4759,-95.7396
+56578,46.9409,-95.6415
+56579,46.4635,-96.3387
+56580,46.7361,-96.6040
+56581,47.4623,-96.7618
+56583,46.0033,-96.4066
+56584,47.2237,-96.2374
+56585,47.0883,-96.2463
+56586,46.3183,-95.8309
+56587,46.6366,-95.8565
+56588,46.2092,-95.4970
+56589,47.2120,-95.7275
+56590,46.0281,-96.1528
+56591,47.1014,-95.8573
+56592,47.5316,-96.0078
+56594,46.5490,-96.6449
+56601,47.5108,-94.8209
+56621,47.3980,-95.4141
+56623,48.5969,-94.6007
+56626,47.3767,-94.1495
+56627,48.1944,-94.0479
+56628,47.7021,-93.5337
+56629,48.5122,-94.1655
+56630,47.7390,-94.5103
+56633,47.3188,-94.5012
+56634,47.6807,-95.3981
+56636,47.3905,-93.8487
+56637,47.6182,-93.8436
+56639,47.9185,-93.5362
+56641,47.2019,-94.2601
+56644,47.7780,-95.5127
+56646,47.7831,-95.6333
+56647,47.6899,-94.6187
+56649,48.5331,-93.1631
+56650,47.9981,-94.5575
+56651,47.4545,-95.6167
+56652,47.7081,-95.2277
+56653,48.2834,-93.5749
+56654,48.4312,-93.9649
+56655,46.9808,-94.2315
+56657,47.5729,-93.6367
+56658,48.1125,-93.9330
+56659,47.5512,-94.0488
+56660,47.9926,-94.1928
+56661,47.8350,-94.1250
+56662,46.8622,-93.8530
+56663,47.5059,-94.4427
+56666,48.0332,-94.8212
+56667,47.7221,-94.9690
+56668,48.6150,-93.3454
+56669,48.3714,-93.2100
+56670,47.8289,-94.8652
+56671,47.9434,-95.3388
+56672,47.0725,-94.0018
+56673,48.7745,-95.1496
+56676,47.5224,-95.2011
+56678,47.4365,-95.1152
+56680,47.6590,-93.9547
+56681,47.5539,-94.2642
+56683,47.7363,-94.7509
+56684,47.8702,-95.6994
+56685,48.2387,-94.5313
+56686,48.7840,-94.9117
+56688,47.8055,-93.8396
+56701,48.1205,-96.2000
+56710,48.2181,-96.9977
+56711,48.9842,-95.0587
+56713,48.3511,-96.8145
+56714,48.7884,-96.0055
+56715,47.8064,-95.9491
+56716,47.7432,-96.5554
+56720,48.5635,-96.9045
+56721,47.9706,-96.9498
+56722,47.9848,-96.6506
+56723,47.8049,-96.8059
+56724,48.4453,-95.7348
+56725,48.1439,-95.7120
+56726,48.7245,-96.2172
+56727,48.3469,-95.3895
+56728,48.7843,-96.9775
+56729,48.6692,-96.5936
+56731,48.9130,-97.0726
+56732,48.5842,-96.4673
+56733,48.6380,-96.8957
+56734,48.7696,-96.6036
+56735,48.9102,-96.6353
+56736,47.7065,-96.2119
+56737,48.4069,-96.0091
+56738,48.3472,-96.3371
+56742,47.9306,-95.8279
+56744,48.2326,-97.1172
+56748,47.9206,-96.0074
+56750,47.8858,-96.2973
+56751,48.8114,-95.7575
+56754,47.9834,-96.1870
+56755,48.9697,-97.1179
+56756,48.9009,-95.5603
+56757,48.4781,-96.8981
+56758,48.4704,-96.5411
+56759,48.5509,-96.0810
+56760,48.2404,-96.4458
+56761,48.6086,-95.6971
+56762,48.1688,-96.7415
+56763,48.8073,-95.3414
+57001,43.0042,-96.6573
+57002,44.2878,-96.6775
+57003,43.7463,-96.7554
+57004,43.0758,-96.7925
+57005,43.5937,-96.5870
+57006,44.3162,-96.7944
+57007,44.3192,-96.7840
+57010,42.8119,-96.8162
+57012,43.5939,-97.2781
+57013,43.2831,-96.6250
+57014,43.1119,-96.9562
+57015,43.4252,-96.9736
+57016,43.8781,-96.9576
+57017,44.0332,-96.8192
+57018,43.7979,-96.9810
+57020,43.6813,-96.8202
+57021,43.2749,-96.9806
+57022,43.8563,-96.7366
+57024,43.9854,-96.6815
+57025,42.7151,-96.6945
+57026,44.2477,-96.4959
+57027,43.1921,-96.5196
+57028,44.0617,-96.5998
+57029,43.3347,-97.4708
+57030,43.7357,-96.5437
+57031,42.8755,-97.1859
+57032,43.4242,-96.6781
+57033,43.6127,-96.9585
+57034,43.1202,-96.5383
+57035,43.6464,-97.0798
+57036,43.2667,-97.1459
+57037,43.1045,-97.2492
+57038,42.5779,-96.5766
+57039,43.3378,-96.8749
+57040,43.0610,-97.5874
+57041,43.7218,-96.8842
+57042,43.9713,-97.1441
+57043,43.4226,-97.3101
+57045,43.2050,-97.5284
+57046,42.9576,-97.3066
+57047,43.5176,-97.2153
+57048,43.7420,-97.2003
+57049,42.5233,-96.5097
+57050,44.1569,-97.0201
+57051,44.2174,-97.3507
+57052,43.2924,-97.7080
+57053,43.4096,-97.1372
+57054,44.1167,-97.2595
+57055,43.6668,-96.7439
+57057,44.1022,-96.9592
+57058,43.7439,-97.4019
+57059,43.1192,-97.7643
+57061,44.2445,-97.0440
+57062,42.8462,-97.9452
+57063,42.9303,-97.6846
+57064,43.4556,-96.8749
+57065,43.9004,-96.6063
+57066,42.9887,-97.8672
+57067,43.0456,-97.4690
+57068,43.5728,-96.4995
+57069,42.8446,-96.9864
+57070,43.1820,-97.1702
+57071,44.2723,-96.9629
+57072,42.9890,-97.2050
+57073,43.0060,-97.0551
+57075,43.9962,-96.9673
+57076,43.9715,-97.3597
+57077,43.3088,-96.7524
+57078,42.9156,-97.4467
+57103,43.5380,-96.6920
+57104,43.6030,-96.7043
+57105,43.5203,-96.7356
+57106,43.5105,-96.8349
+57107,43.5987,-96.8170
+57108,43.4775,-96.7048
+57110,43.5448,-96.6384
+57117,43.5312,-96.7550
+57197,43.5246,-96.7386
+57201,44.9367,-97.0928
+57212,44.3785,-97.1395
+57213,44.5701,-96.5369
+57214,44.4805,-97.1951
+57216,45.3032,-96.5298
+57217,45.0867,-97.6655
+57218,44.6524,-96.5921
+57219,45.2906,-97.7961
+57220,44.4598,-96.9173
+57221,44.6089,-97.4414
+57223,44.7123,-96.9944
+57224,45.8119,-97.1553
+57225,44.8835,-97.7281
+57226,44.7881,-96.7306
+57227,45.3759,-96.7281
+57231,44.3758,-97.5823
+57232,45.6234,-97.3999
+57233,44.5099,-97.3993
+57234,44.6103,-96.8943
+57235,45.0720,-97.3204
+57236,44.9855,-97.5856
+57237,44.7977,-96.5005
+57238,44.8734,-96.8609
+57239,45.5109,-97.3131
+57241,44.6956,-97.2162
+57242,44.7741,-97.3580
+57243,44.9129,-97.4424
+57245,44.8937,-96.9183
+57246,45.0549,-96.6670
+57247,45.7122,-97.4632
+57248,44.5835,-97.1880
+57249,44.3834,-97.3705
+57251,45.2765,-96.9347
+57252,45.2004,-96.6126
+57255,45.8511,-96.9480
+57256,45.2500,-97.1970
+57257,45.4966,-97.0309
+57258,44.8827,-97.9274
+57259,45.0025,-96.5635
+57260,45.8417,-96.7196
+57261,45.5456,-97.4996
+57262,45.6687,-97.0736
+57263,45.1405,-97.0080
+57264,45.1079,-96.8109
+57265,44.9921,-96.7815
+57266,45.2898,-97.0927
+57268,44.5680,-96.6894
+57269,45.2243,-96.8002
+57270,45.8487,-97.3310
+57271,44.7585,-97.5382
+57272,45.1082,-97.4837
+57273,45.3332,-97.2752
+57274,45.3102,-97.5557
+57276,44.4359,-96.6179
+57278,44.6488,-97.6812
+57279,45.4158,-96.8692
+57301,43.7109,-98.0405
+57311,43.6505,-97.7646
+57312,44.1932,-98.3840
+57313,43.3048,-98.3548
+57314,44.0461,-97.9813
+57315,42.9884,-98.0403
+57317,43.1436,-98.9664
+57319,43.5330,-97.4800
+57321,43.8706,-97.5404
+57322,44.6380,-97.9620
+57323,44.1648,-97.7203
+57324,44.3015,-98.0454
+57325,43.8349,-99.3120
+57328,43.4376,-98.4390
+57329,42.9807,-98.1458
+57330,43.2645,-98.1577
+57331,43.4744,-98.0448
+57332,43.5505,-97.6568
+57334,43.5352,-97.9963
+57335,43.0651,-98.7440
+57337,44.0021,-97.7811
+57339,44.1267,-99.4639
+57340,43.7929,-97.8522
+57341,44.0947,-99.1180
+57342,43.2446,-98.7012
+57344,43.4492,-98.6189
+57345,44.5784,-99.4444
+57346,44.2491,-99.4567
+57348,44.6256,-98.3722
+57349,44.0301,-97.5808
+57350,44.3925,-98.2019
+57353,44.3694,-97.8346
+57354,43.1936,-97.8441
+57355,43.7836,-98.9314
+57356,43.1452,-98.5132
+57358,44.0752,-98.4220
+57359,43.9025,-98.1544
+57361,42.9946,-98.4346
+57362,44.4695,-99.0714
+57363,43.6805,-98.2555
+57364,43.4344,-98.6178
+57365,43.8113,-99.4164
+57366,43.3916,-97.9466
+57367,43.0657,-98.5030
+57368,43.7495,-98.4721
+57369,43.4208,-98.9530
+57370,43.8168,-99.1682
+57371,44.4371,-99.2215
+57373,44.5306,-98.8783
+57374,43.7533,-97.5991
+57375,43.5564,-98.4799
+57376,43.2199,-97.9449
+57379,44.2701,-98.5292
+57380,43.0306,-98.2986
+57381,44.3880,-98.7309
+57382,44.0555,-98.6797
+57383,43.7173,-98.7127
+57384,44.4168,-98.4854
+57385,44.0467,-98.3011
+57386,44.5067,-97.9970
+57401,45.4823,-98.5325
+57420,45.2819,-100.1425
+57421,45.7555,-97.9071
+57422,45.4250,-97.9278
+57424,45.0205,-98.5232
+57426,45.7348,-98.4936
+57427,45.4805,-98.3186
+57428,45.4527,-99.6782
+57429,45.1612,-98.3005
+57430,45.8349,-97.7197
+57432,45.6829,-98.0310
+57433,45.6382,-98.3208
+57434,45.1671,-98.0720
+57435,45.1538,-98.9142
+57436,44.8355,-98.0770
+57437,45.7891,-99.6250
+57438,45.0655,-99.1536
+57439,45.3347,-98.1001
+57440,44.8534,-98.2567
+57441,45.8264,-98.5135
+57442,45.0618,-100.1581
+57445,45.4655,-98.1150
+57446,45.8708,-98.1527
+57448,45.6121,-99.4333
+57449,45.7265,-98.1762
+57450,45.2099,-99.8275
+57451,45.4380,-98.9366
+57452,45.5294,-99.8629
+57454,45.6116,-97.7615
+57455,45.0070,-99.6830
+57456,45.7210,-98.9998
+57457,45.8773,-99.1543
+57460,45.2796,-98.6707
+57461,45.1647,-98.4421
+57465,45.1507,-98.6665
+57466,45.1970,-99.4585
+57467,44.8368,-99.1803
+57468,45.4950,-97.7432
+57469,44.8574,-98.5718
+57470,44.8839,-98.8943
+57471,45.4045,-99.3183
+57472,45.4277,-100.1102
+57473,44.9915,-99.4710
+57474,45.2920,-98.2787
+57475,45.2236,-99.6246
+57476,44.7062,-98.6152
+57477,45.0338,-98.1443
+57479,45.3042,-98.4382
+57481,45.6626,-98.6830
+57501,44.5276,-100.3091
+57520,44.8528,-100.1937
+57521,43.7861,-101.1675
+57522,44.5105,-99.9639
+57523,43.2476,-99.2377
+57528,43.1772,-99.7603
+57529,43.2306,-99.5638
+57531,43.9737,-100.4859
+57532,44.3649,-100.5656
+57533,43.3504,-99.4203
+57534,43.5612,-99.6519
+57536,44.4174,-99.7742
+57537,44.5781,-101.0673
+57538,43.1212,-99.1566
+57540,44.4614,-99.6079
+57541,43.5942,-99.9117
+57543,43.7478,-101.5211
+57544,43.8834,-99.8440
+57547,43.4896,-101.4237
+57548,44.1684,-99.5884
+57551,43.1920,-101.7083
+57552,44.2624,-101.2172
+57553,44.4746,-101.6456
+57555,43.2859,-100.6666
+57559,43.9313,-100.7227
+57560,43.4371,-101.2096
+57562,43.8976,-100.9584
+57563,43.3499,-100.4213
+57564,44.7404,-100.0146
+57566,43.3087,-101.0894
+57567,44.1336,-101.7079
+57568,43.8765,-100.0961
+57569,43.8592,-99.5541
+57570,43.2522,-100.8852
+57571,43.0415,-99.0904
+57572,43.1372,-101.1005
+57574,43.1258,-101.3858
+57576,43.9061,-100.2923
+57577,43.5238,-101.6559
+57579,43.5764,-100.7890
+57580,43.2894,-100.0902
+57584,43.4902,-100.0618
+57585,43.5580,-100.3849
+57601,45.3390,-100.3647
+57620,45.3773,-102.5402
+57621,45.7728,-101.0814
+57622,44.6831,-101.5670
+57623,45.0159,-101.6530
+57625,44.9790,-101.0251
+57626,44.9968,-102.1742
+57630,45.3338,-100.8440
+57631,45.5891,-100.2961
+57632,45.8335,-100.0442
+57633,45.4416,-101.5324
+57634,45.7732,-101.8656
+57636,45.0325,-101.4381
+57638,45.8699,-102.2321
+57639,45.6787,-100.8070
+57640,45.7688,-102.7045
+57641,45.8962,-101.3111
+57642,45.7908,-100.7148
+57644,45.4775,-102.0937
+57645,45.9073,-101.7164
+57646,45.6805,-100.0582
+57648,45.9298,-100.3199
+57649,45.4887,-102.8489
+57650,45.8309,-103.0347
+57651,45.4769,-103.0344
+57652,45.1362,-100.6830
+57656,45.4230,-101.1067
+57657,45.5189,-100.7922
+57658,45.6694,-100.5623
+57659,45.8909,-101.0942
+57660,45.8321,-101.5308
+57661,45.2665,-100.9776
+57701,44.1218,-103.2012
+57702,44.0320,-103.4154
+57703,44.0046,-103.0426
+57706,44.1588,-103.1019
+57714,43.3292,-101.9147
+57716,43.0912,-102.1960
+57717,44.9339,-103.8957
+57718,44.1705,-103.3692
+57719,44.2312,-102.9944
+57720,45.5372,-103.5861
+57722,43.4432,-102.9874
+57724,45.5738,-104.0011
+57725,43.9320,-102.7919
+57730,43.7266,-103.6486
+57732,44.3290,-103.6890
+57735,43.2879,-103.8535
+57737,44.5554,-102.5173
+57738,43.6849,-103.1587
+57741,44.4105,-103.4729
+57744,43.7935,-103.0339
+57745,44.0133,-103.7857
+57747,43.3738,-103.5191
+57748,44.5852,-102.0106
+57750,43.5929,-101.9451
+57751,43.8691,-103.4269
+57752,43.4293,-102.2013
+57754,44.2554,-103.8876
+57755,45.8683,-103.3472
+57756,43.2373,-102.4754
+57758,44.9946,-102.7371
+57759,44.2278,-103.5568
+57760,44.8947,-103.3347
+57761,44.2273,-102.7854
+57762,44.7534,-103.6197
+57763,43.1235,-103.2512
+57764,43.2579,-102.7711
+57766,43.3561,-103.1775
+57767,44.1367,-102.5711
+57769,44.2453,-103.2886
+57770,43.0843,-102.6543
+57772,43.4772,-102.5276
+57773,43.5944,-103.5925
+57775,44.0930,-102.0017
+57776,45.2364,-103.5080
+57779,44.5688,-103.7607
+57780,43.7675,-102.4795
+57782,43.2494,-103.1805
+57783,44.4563,-103.9253
+57785,44.4025,-103.1888
+57787,44.6680,-102.6578
+57788,44.6170,-103.2049
+57790,44.1041,-102.2009
+57791,44.2470,-102.4575
+57792,44.5975,-102.3680
+57793,44.5253,-103.5788
+57794,43.1207,-102.4070
+57799,44.4982,-103.8725
+58001,46.4484,-96.7408
+58002,46.9711,-97.3972
+58004,47.0265,-97.2707
+58005,47.0526,-96.9510
+58006,47.0968,-97.2036
+58007,47.0252,-97.4572
+58008,46.3081,-97.0024
+58009,47.3266,-97.2444
+58011,46.9278,-97.5440
+58012,46.9417,-97.1683
+58013,46.0579,-97.3533
+58015,46.5922,-96.8154
+58016,47.3661,-97.4630
+58017,46.0434,-97.8515
+58018,46.4346,-96.8887
+58021,46.7362,-97.0821
+58027,46.6332,-97.6307
+58029,47.1190,-97.3941
+58030,46.0303,-96.6682
+58031,46.7677,-97.6715
+58032,46.0764,-97.6548
+58033,46.4347,-97.9196
+58035,47.2534,-97.4305
+58036,47.1546,-96.9633
+58038,47.2451,-96.9948
+58040,46.1895,-97.6850
+58041,46.0365,-96.9064
+58042,46.9709,-96.9560
+58043,45.9702,-97.5379
+58045,47.3889,-97.0163
+58046,47.3221,-97.7277
+58047,46.7135,-96.8729
+58048,47.1988,-97.2237
+58049,46.6707,-97.9915
+58051,46.6368,-97.0215
+58052,46.6346,-97.2796
+58053,46.0525,-97.1805
+58054,46.4169,-97.6687
+58056,47.2369,-97.9295
+58057,46.4255,-97.2676
+58058,46.1806,-96.9716
+58059,46.8324,-97.1436
+58060,46.2677,-97.4267
+58061,46.2746,-96.8942
+58062,46.6375,-97.8395
+58063,46.9590,-97.7976
+58064,47.1396,-97.6325
+58065,47.2004,-97.7662
+58067,46.0729,-97.4987
+58068,46.5507,-97.4165
+58069,46.2431,-97.8396
+58071,46.9413,-97.6827
+58072,46.9270,-98.0083
+58074,46.2181,-96.8760
+58075,46.2755,-96.7304
+58076,46.2741,-96.6074
+58077,46.5246,-96.9760
+58078,46.8672,-96.9422
+58079,46.8684,-97.3667
+58081,46.3139,-97.1438
+58102,46.9272,-96.8348
+58103,46.8563,-96.8225
+58104,46.7932,-96.8384
+58105,46.8959,-96.8036
+58201,47.8666,-97.1411
+58202,47.9215,-97.0751
+58203,47.9705,-97.1655
+58204,47.9605,-97.3708
+58205,47.9547,-97.3953
+58210,48.4057,-98.1116
+58212,47.6952,-97.9974
+58214,47.9269,-97.4975
+58216,48.8794,-97.4429
+58218,47.5924,-97.0592
+58219,47.4761,-96.8782
+58220,48.7976,-97.7420
+58222,48.6185,-97.6822
+58223,47.5196,-97.0164
+58224,48.1678,-97.9431
+58225,48.6112,-97.2228
+58227,48.5491,-97.8927
+58228,47.8681,-97.3452
+58229,48.5140,-98.2426
+58230,47.4925,-97.8215
+58231,48.2022,-97.8294
+58233,48.2017,-97.5461
+58235,48.0901,-97.4831
+58236,48.7184,-97.5048
+58237,48.4152,-97.4009
+58238,48.7795,-97.3979
+58239,48.9196,-98.6849
+58240,47.6360,-97.4846
+58241,48.7095,-97.6994
+58243,48.5142,-97.6795
+58244,48.1103,-97.6575
+58249,48.8228,-98.3268
+58250,48.2743,-98.0223
+58251,47.9544,-97.6999
+58254,47.7740,-98.1500
+58255,48.9968,-98.3539
+58256,48.0840,-97.2002
+58257,47.4902,-97.2850
+58258,48.0114,-97.3383
+58259,48.0205,-98.1208
+58260,48.6371,-98.0486
+58261,48.2423,-97.3194
+58262,48.6810,-97.8776
+58265,48.9561,-97.5903
+58266,48.0009,-97.8500
+58267,47.7550,-97.6291
+58269,48.6982,-98.1575
+58270,48.3948,-97.7912
+58271,48.9129,-97.2897
+58272,48.0076,-97.9849
+58273,48.2975,-97.6628
+58274,47.4919,-97.4885
+58275,47.6905,-97.1051
+58276,48.6240,-97.4560
+58277,47.6084,-97.8233
+58278,47.7812,-97.1215
+58281,48.8558,-98.6165
+58282,48.8981,-97.9419
+58301,48.1418,-98.8934
+58310,48.5667,-99.5531
+58311,48.6452,-98.5572
+58313,48.1662,-100.0366
+58316,48.8446,-99.8028
+58317,48.6262,-99.4035
+58318,48.8581,-100.3974
+58321,48.2024,-98.3144
+58323,48.8415,-98.9231
+58324,48.4794,-99.2209
+58325,48.2895,-99.1183
+58327,48.1044,-98.5682
+58329,48.8624,-100.0721
+58330,48.4338,-98.4788
+58331,48.6385,-99.0900
+58332,48.0442,-99.7730
+58335,47.9705,-99.0166
+58338,48.5262,-98.6271
+58339,48.9725,-99.3246
+58341,47.7676,-99.8767
+58343,48.2959,-99.7288
+58344,48.0165,-98.3430
+58345,48.3066,-98.3751
+58346,48.2900,-99.4278
+58348,47.9534,-99.5211
+58351,48.0980,-99.3146
+58352,48.6956,-98.8578
+58353,48.6402,-99.5901
+58355,48.5784,-98.3959
+58356,47.6714,-99.0721
+58357,47.9398,-99.2168
+58361,47.7520,-98.3756
+58362,48.2310,-99.0599
+58363,48.7693,-99.4655
+58365,48.8413,-99.2317
+58366,48.6535,-99.8740
+58367,48.8819,-99.5561
+58368,48.2395,-100.0312
+58369,48.9589,-99.8137
+58370,47.9851,-98.8665
+58372,48.9425,-99.0120
+58374,47.8246,-99.0950
+58377,48.4716,-98.8730
+58379,47.8966,-98.8216
+58380,47.8252,-98.5019
+58381,47.8258,-98.7488
+58382,48.3180,-98.7990
+58384,48.5959,-100.2656
+58385,48.4727,-99.6456
+58386,48.3187,-99.5988
+58401,46.8843,-98.7667
+58402,46.8819,-98.6879
+58405,46.9146,-98.6967
+58413,45.9855,-99.3323
+58415,46.3616,-98.4855
+58416,47.5510,-98.3614
+58418,47.4214,-99.6389
+58420,47.0610,-98.8584
+58421,47.4404,-99.0766
+58422,47.5935,-99.4055
+58423,47.4285,-99.8305
+58424,46.8790,-99.0943
+58425,47.4537,-98.1183
+58426,47.2182,-98.5793
+58428,46.8079,-99.7492
+58429,47.2047,-98.1741
+58430,47.5088,-100.2569
+58431,46.5083,-98.5039
+58433,46.3664,-98.7219
+58436,46.0761,-98.5799
+58438,47.6674,-99.5684
+58439,45.9681,-98.8308
+58440,46.2783,-99.1621
+58441,46.1753,-98.3685
+58442,46.5537,-99.1796
+58443,47.4643,-98.6812
+58444,47.4840,-100.1407
+58445,47.5572,-98.7832
+58448,47.3058,-98.2049
+58451,47.4503,-99.9717
+58452,47.5402,-98.2291
+58454,46.5843,-98.9518
+58455,47.3025,-98.7287
+58456,46.2519,-98.9532
+58458,46.3679,-98.2938
+58460,46.3097,-99.3220
+58461,46.6495,-98.1916
+58463,47.4920,-100.4734
+58464,47.6129,-98.6085
+58466,46.6092,-98.3694
+58467,46.8748,-99.3305
+58472,46.6386,-98.6502
+58474,46.1027,-98.1423
+58475,47.1470,-99.5342
+58476,47.1938,-99.0045
+58477,47.2210,-100.5208
+58478,47.1618,-99.7454
+58479,47.0888,-98.2034
+58480,46.9450,-98.2593
+58481,46.9345,-98.4236
+58482,46.8688,-99.9009
+58483,46.6681,-99.4328
+58484,47.3686,-98.4643
+58486,47.3963,-99.3902
+58487,46.8568,-99.6058
+58488,47.1790,-100.0256
+58490,46.3843,-98.0659
+58492,47.1620,-98.4250
+58494,47.1849,-100.2621
+58495,46.2718,-99.6011
+58496,47.1409,-99.3090
+58497,46.7681,-98.5086
+58501,46.8149,-100.6982
+58503,46.9064,-100.7522
+58504,46.7431,-100.6787
+58505,46.8203,-100.7811
+58520,46.6742,-101.5680
+58521,47.0280,-100.6740
+58523,47.2650,-101.7816
+58524,46.6221,-100.0740
+58528,46.3240,-100.5952
+58529,46.3049,-101.5808
+58530,47.1319,-101.1642
+58531,47.5787,-101.2352
+58532,46.8474,-100.1093
+58533,46.3946,-101.7967
+58535,46.4821,-101.2490
+58538,46.0811,-100.6592
+58540,47.6218,-101.7264
+58541,47.3397,-102.0445
+58542,46.0446,-99.9939
+58544,46.5127,-100.3725
+58545,47.3496,-101.6003
+58549,46.4634,-99.9375
+58552,46.2441,-100.2872
+58554,46.7557,-100.9487
+58558,46.8198,-100.5261
+58559,47.4717,-100.6950
+58560,46.6549,-100.3129
+58561,46.4921,-99.6635
+58562,46.3613,-102.0086
+58563,46.8990,-101.4393
+58564,46.2661,-101.3442
+58565,47.4964,-101.3714
+58566,46.5784,-100.9067
+58568,46.0977,-100.9988
+58569,46.2681,-101.1994
+58570,46.3756,-100.8720
+58571,47.2924,-101.4068
+58572,46.8683,-100.3398
+58573,46.1238,-100.2019
+58575,47.5519,-100.8941
+58576,47.4369,-101.2142
+58577,47.3178,-101.0523
+58579,47.1794,-100.7384
+58580,47.2676,-101.9433
+58581,46.0499,-99.8057
+58601,46.9082,-102.8266
+58620,46.5060,-103.3384
+58621,47.1211,-103.9447
+58622,46.8800,-103.2520
+58623,46.1608,-103.4236
+58625,47.2797,-102.1861
+58626,47.3777,-102.6024
+58627,47.2344,-103.2726
+58630,46.9267,-102.5702
+58631,46.7986,-101.8370
+58632,46.6730,-103.9655
+58634,47.4447,-103.3642
+58636,47.3939,-102.3457
+58638,46.9184,-102.0376
+58639,46.0667,-102.6505
+58640,47.4537,-102.9054
+58641,46.6671,-102.4863
+58642,47.2013,-102.8344
+58643,46.2167,-103.9597
+58644,47.1324,-102.3487
+58645,46.9510,-103.5497
+58646,46.3929,-102.2876
+58647,46.5189,-102.9363
+58649,46.1401,-102.9020
+58650,46.4370,-102.6201
+58651,46.2593,-103.7414
+58652,46.9059,-102.2442
+58653,46.0904,-103.1300
+58654,46.7842,-103.8236
+58655,46.7708,-103.0309
+58656,46.9558,-102.4645
+58701,48.1448,-101.3260
+58703,48.3213,-101.3047
+58704,48.4143,-101.3184
+58705,48.4161,-101.3518
+58707,48.2477,-101.3013
+58710,47.8681,-100.2311
+58711,48.9296,-101.2672
+58712,47.9708,-100.5531
+58713,48.5236,-100.6141
+58716,47.8043,-101.0678
+58718,48.2909,-101.8036
+58721,48.8217,-102.2543
+58722,48.2500,-101.5010
+58723,47.7459,-100.5962
+58725,48.4811,-101.6799
+58727,48.8576,-102.8045
+58730,48.8602,-103.3082
+58731,48.4489,-100.9832
+58733,48.1750,-101.5879
+58734,48.5129,-101.9574
+58735,47.8842,-101.4757
+58736,47.9309,-100.3965
+58737,48.9080,-102.4014
+58740,48.4664,-101.2222
+58741,48.2768,-100.8308
+58744,48.1202,-100.5911
+58746,48.7134,-102.0941
+58748,48.6616,-100.6356
+58750,48.6110,-101.3975
+58752,48.8213,-102.5988
+58755,48.6260,-102.9510
+58756,47.9707,-101.8148
+58757,47.6863,-102.5558
+58758,47.7680,-100.0903
+58759,47.8447,-101.2497
+58760,48.6975,-101.1359
+58761,48.7860,-101.5243
+58762,48.6732,-100.9401
+58763,47.9840,-102.5834
+58765,48.8733,-103.0428
+58768,48.2520,-101.0238
+58769,48.3055,-102.2353
+58770,47.8694,-102.1612
+58771,48.0883,-101.9762
+58772,48.9596,-102.6337
+58773,48.5826,-102.6578
+58775,47.7101,-101.8612
+58776,48.2478,-102.6232
+58778,47.7865,-100.9130
+58779,47.8550,-101.7539
+58781,48.0301,-101.1340
+58782,48.9443,-101.7047
+58783,48.8798,-100.7605
+58784,48.3598,-102.4240
+58785,48.3071,-101.1023
+58787,48.7563,-101.8137
+58788,48.3252,-100.4775
+58789,48.5532,-100.8089
+58790,48.0296,-100.9477
+58792,47.9712,-100.7468
+58793,48.8692,-101.0510
+58794,48.2693,-102.7913
+58795,48.6403,-103.1567
+58801,48.2385,-103.7696
+58830,48.5973,-103.4612
+58831,47.8542,-103.6520
+58833,48.8872,-103.5203
+58835,47.7367,-103.4491
+58838,47.7700,-103.9008
+58843,48.2339,-103.3775
+58844,48.8875,-103.7500
+58845,48.6410,-103.9175
+58847,47.8889,-102.9062
+58849,48.3079,-103.1632
+58852,48.3816,-102.9319
+58853,48.0611,-103.7275
+58854,47.8284,-103.1533
+58856,48.5950,-103.7329
+59001,45.5302,-109.5400
+59002,46.0227,-108.6656
+59003,45.4920,-106.2009
+59006,45.9208,-108.0889
+59007,45.1708,-109.1949
+59008,45.0797,-109.0759
+59010,45.9652,-107.2993
+59011,45.9247,-109.9486
+59012,45.3236,-106.6272
+59013,45.4613,-109.0806
+59014,45.1552,-108.6677
+59015,46.0851,-108.8287
+59016,45.4577,-106.9480
+59018,45.8503,-110.6239
+59019,45.6287,-109.2407
+59020,45.1080,-110.1006
+59022,45.5705,-107.2617
+59024,46.2784,-107.8071
+59025,45.0860,-106.7042
+59026,45.4854,-108.7844
+59027,45.2592,-110.9044
+59028,45.3025,-109.7137
+59029,45.3974,-108.8025
+59030,45.0869,-110.5962
+59031,45.4982,-107.3745
+59032,47.0246,-108.7028
+59033,45.7242,-109.7352
+59034,45.7004,-107.7835
+59035,45.3048,-107.9490
+59036,46.4600,-109.8834
+59037,45.8648,-108.2108
+59038,46.2219,-107.2085
+59039,46.6868,-107.2911
+59041,45.5011,-108.9682
+59043,45.5508,-106.6764
+59044,45.6438,-108.7325
+59046,46.3613,-108.9504
+59047,45.5774,-110.5502
+59050,45.2592,-107.4762
+59052,45.4658,-110.1455
+59053,46.4415,-110.4324
+59054,46.6685,-107.7722
+59055,46.1090,-109.8099
+59057,45.8536,-108.9538
+59058,46.9877,-107.7602
+59059,46.5110,-108.0739
+59061,45.4246,-109.8571
+59062,45.1510,-106.2181
+59063,45.6522,-108.9657
+59064,45.8794,-107.8714
+59065,45.2711,-110.6735
+59066,45.3359,-108.5103
+59067,45.9703,-109.2238
+59068,45.0871,-109.5584
+59069,45.7267,-109.5827
+59070,45.3649,-109.1818
+59071,45.2462,-109.6296
+59072,46.5260,-108.5537
+59074,46.3645,-109.2985
+59075,45.4063,-107.8480
+59076,46.2825,-107.0685
+59077,47.2448,-107.5928
+59078,46.4227,-109.4893
+59079,46.0621,-108.3633
+59081,45.0198,-109.9829
+59082,45.8492,-110.2904
+59083,46.5631,-107.5595
+59085,46.3231,-110.1879
+59086,46.0613,-110.6627
+59087,47.1419,-108.2266
+59088,46.1303,-108.0554
+59089,45.0919,-107.3151
+59101,45.6071,-108.3415
+59102,45.7748,-108.5813
+59105,45.8929,-108.4979
+59106,45.8138,-108.7098
+59201,48.1419,-105.6268
+59211,48.6986,-104.3499
+59212,48.2224,-104.1431
+59213,48.1889,-104.8866
+59214,47.2998,-106.0390
+59215,47.5166,-105.7691
+59217,47.5794,-104.2386
+59218,48.0759,-104.4916
+59219,48.5714,-104.1577
+59221,47.8997,-104.1645
+59222,48.7009,-105.1585
+59223,47.9128,-106.2069
+59225,48.2696,-105.9675
+59226,48.3479,-104.5305
+59230,48.1312,-106.7983
+59231,48.4039,-106.5442
+59240,48.8422,-106.2405
+59241,48.4582,-107.0506
+59242,48.4112,-104.4434
+59243,47.7575,-104.6792
+59244,48.6200,-106.3044
+59247,48.5162,-104.5235
+59248,48.2454,-106.2492
+59250,48.8446,-106.6237
+59252,48.9467,-104.8376
+59253,48.7364,-105.8582
+59254,48.7517,-104.6406
+59255,48.2365,-105.1589
+59256,48.9076,-104.5528
+59257,48.7536,-104.9423
+59258,48.5835,-104.6550
+59259,47.6810,-105.0999
+59260,48.8569,-106.1197
+59261,48.5291,-107.4221
+59262,47.4897,-104.4972
+59263,48.7912,-105.5143
+59270,47.6094,-104.0861
+59273,48.3070,-106.9427
+59274,47.8462,-105.4188
+59275,48.8774,-104.1564
+59276,48.9657,-105.2141
+59301,46.3602,-105.8675
+59311,45.1629,-104.5493
+59312,47.0376,-106.2639
+59313,46.2578,-104.2256
+59314,45.0677,-105.4336
+59315,47.4523,-104.8684
+59316,45.3470,-105.0719
+59317,45.3378,-105.5190
+59318,47.5012,-107.5139
+59319,45.4119,-104.1654
+59322,47.0509,-106.6887
+59323,45.9168,-106.7220
+59324,45.7689,-104.5692
+59326,46.7704,-104.8594
+59327,46.2368,-106.6822
+59330,47.1211,-104.7635
+59332,45.3897,-104.6986
+59333,46.2771,-106.1946
+59336,46.3488,-104.9541
+59337,47.4065,-106.8167
+59338,46.6405,-105.6405
+59339,47.2253,-105.2712
+59343,45.6625,-105.4264
+59344,46.3569,-104.5973
+59345,45.8601,-105.2120
+59347,46.4207,-106.3659
+59349,46.8124,-105.5040
+59351,45.7593,-105.7113
+59353,46.9630,-104.2745
+59354,46.1770,-104.4206
+59401,47.5112,-111.2772
+59404,47.6318,-111.3289
+59405,47.2890,-111.3005
+59410,47.5035,-112.6469
+59411,48.8921,-113.3982
+59412,47.3033,-110.8637
+59414,47.5277,-111.2600
+59416,48.0380,-111.5268
+59417,48.5521,-113.0019
+59418,46.8037,-109.8556
+59419,47.9664,-112.3170
+59420,47.8775,-111.0039
+59421,47.0748,-111.6884
+59422,47.8343,-112.4889
+59424,47.3530,-110.1082
+59425,48.1872,-111.8986
+59427,48.7407,-112.6664
+59430,47.4310,-109.7802
+59432,48.1562,-112.5461
+59433,47.8836,-111.6920
+59434,48.6982,-113.5072
+59435,48.5770,-112.0392
+59436,47.6163,-112.1198
+59440,47.7160,-111.1586
+59441,46.8275,-109.0691
+59442,47.9289,-110.6517
+59443,47.5639,-111.8289
+59444,48.6509,-111.3804
+59446,47.6506,-110.1524
+59447,47.2862,-110.4500
+59448,48.2632,-112.8495
+59450,47.5525,-110.7428
+59451,47.3902,-109.3901
+59452,46.8926,-110.0613
+59453,46.6488,-109.6814
+59454,48.7689,-111.9851
+59456,48.2702,-111.3617
+59457,47.1397,-109.3109
+59460,48.0740,-110.5070
+59461,48.4712,-111.2113
+59462,47.1054,-109.8933
+59463,47.0489,-110.8667
+59464,46.8396,-109.6168
+59465,46.9377,-110.7079
+59466,48.7184,-111.7750
+59467,48.0697,-112.4023
+59468,47.7276,-111.6342
+59469,47.1908,-110.6837
+59471,47.4267,-108.7721
+59472,47.3388,-111.2071
+59474,48.5295,-111.6907
+59477,47.4428,-111.9745
+59479,47.0326,-110.3053
+59480,47.2137,-111.0746
+59482,48.8638,-111.8516
+59483,47.4649,-111.7329
+59484,48.9596,-111.5387
+59485,47.4323,-111.5686
+59486,48.3405,-112.3774
+59487,47.5874,-111.6390
+59489,47.6247,-109.2304
+59501,48.6899,-109.7811
+59520,48.0381,-109.9318
+59521,48.3050,-109.9513
+59522,48.5568,-110.9768
+59523,48.5260,-109.1986
+59524,48.1388,-108.4024
+59525,48.6417,-110.2615
+59526,48.4528,-108.7013
+59527,48.0417,-108.7916
+59528,48.6172,-110.4339
+59529,48.7970,-108.6788
+59530,48.6009,-110.6959
+59531,48.7766,-110.7946
+59532,48.5935,-110.0807
+59535,47.9410,-109.2529
+59537,48.8432,-107.9881
+59538,48.0262,-107.8404
+59540,48.6049,-110.5636
+59542,48.8219,-108.3358
+59544,48.8034,-107.5552
+59545,48.9392,-111.2197
+59546,47.8993,-108.5393
+59547,48.7035,-108.9860
+59601,46.5307,-112.1994
+59602,46.7269,-111.9083
+59623,46.5899,-112.0407
+59625,46.6014,-112.0388
+59631,46.2906,-112.3890
+59632,46.1695,-112.0040
+59633,46.8188,-112.3429
+59634,46.4449,-112.0315
+59635,46.5553,-111.8142
+59636,46.6161,-112.1140
+59638,46.3579,-112.0277
+59639,47.1920,-112.7473
+59640,46.7680,-112.3678
+59642,46.2653,-110.7574
+59643,46.1347,-111.5799
+59644,46.4167,-111.4426
+59645,46.6877,-111.0547
+59647,46.4625,-111.6539
+59648,47.0770,-112.1960
+59701,46.0327,-112.4642
+59710,45.0541,-112.0813
+59711,46.0947,-113.1416
+59713,46.6595,-112.6191
+59714,45.9726,-111.1340
+59715,45.6937,-110.9061
+59716,45.2871,-111.3887
+59718,45.6395,-111.1712
+59720,44.9392,-111.5892
+59721,45.8520,-111.8632
+59722,46.3529,-112.7529
+59724,44.6612,-112.8047
+59725,45.0738,-112.8347
+59727,45.7994,-112.8309
+59728,46.5089,-112.4348
+59729,45.3245,-111.6512
+59730,45.2082,-111.1287
+59731,46.5791,-112.7611
+59732,45.5000,-112.6924
+59733,46.5449,-112.9582
+59735,45.6498,-111.8499
+59736,45.3442,-113.3426
+59739,44.6602,-112.1998
+59740,45.5036,-111.8141
+59741,45.7698,-111.3683
+59743,45.6012,-112.7647
+59745,45.5952,-111.6148
+59746,45.3849,-113.0591
+59747,45.6969,-111.9618
+59748,46.0461,-112.6960
+59749,45.4541,-112.0724
+59750,45.9169,-112.6850
+59751,45.6900,-112.2976
+59752,45.9162,-111.5262
+59754,45.5193,-112.3567
+59755,45.2710,-111.9436
+59756,46.1741,-112.8346
+59758,44.7999,-111.1904
+59759,45.8452,-112.1659
+59760,45.7559,-111.5924
+59761,45.5760,-113.5562
+59762,45.9486,-113.3336
+59801,46.8547,-114.0104
+59802,46.9040,-113.9193
+59803,46.7845,-113.9463
+59804,46.8787,-114.2649
+59808,46.9617,-114.0920
+59812,46.8612,-113.9845
+59820,46.8975,-114.6091
+59821,47.2091,-114.0224
+59823,46.9678,-113.6047
+59824,47.4135,-114.2074
+59825,46.6177,-113.6506
+59826,47.4626,-113.7042
+59827,45.8926,-114.0884
+59828,46.3270,-113.9589
+59829,45.7503,-114.1778
+59830,47.4346,-115.4572
+59831,47.2601,-114.3683
+59832,46.6890,-113.2529
+59833,46.6480,-114.0742
+59834,47.0796,-114.2218
+59837,46.5350,-113.2832
+59840,46.1667,-114.1051
+59841,46.3342,-114.2230
+59842,47.3302,-115.4380
+59843,46.8536,-113.0138
+59844,48.0004,-115.9394
+59845,47.6903,-114.5547
+59846,47.1518,-114.5132
+59847,46.7157,-114.3701
+59848,47.7100,-114.6898
+59851,46.8715,-113.8766
+59853,48.0420,-115.7907
+59854,47.2756,-113.2342
+59855,47.6003,-114.1179
+59856,47.3799,-114.7374
+59858,46.2858,-113.4674
+59859,47.5198,-114.7952
+59860,47.7158,-114.1862
+59863,47.3002,-114.1826
+59864,47.5317,-114.1196
+59865,47.3322,-113.9983
+59866,47.3429,-115.1204
+59867,47.3907,-115.5626
+59868,47.2210,-113.5405
+59870,46.5163,-114.0635
+59871,45.8922,-113.8167
+59872,47.1048,-114.9088
+59873,47.6627,-115.2731
+59874,47.8071,-115.6004
+59875,46.4204,-114.3156
+59901,48.2306,-114.4033
+59910,47.8208,-114.2355
+59911,47.8643,-113.8846
+59912,48.4370,-114.1687
+59913,48.4335,-113.9591
+59914,47.8761,-114.3032
+59915,47.8203,-114.4113
+59916,48.3065,-113.6572
+59917,48.9346,-114.8767
+59918,48.7813,-114.7586
+59919,48.3774,-114.0564
+59920,48.0028,-114.6083
+59922,48.0030,-114.2221
+59923,48.2706,-115.3132
+59925,48.0444,-114.8326
+59926,48.3522,-113.9956
+59927,48.5597,-114.7128
+59928,48.7973,-114.2925
+59929,47.9159,-114.4052
+59930,48.8667,-115.1332
+59931,47.9221,-114.2546
+59932,48.0522,-114.2426
+59933,48.7194,-114.7684
+59934,48.6366,-114.9318
+59935,48.6498,-115.8348
+59936,48.1898,-113.4736
+59937,48.4370,-114.4990
+60002,42.4671,-88.0943
+60004,42.1128,-87.9795
+60005,42.0645,-87.9867
+60007,42.0240,-87.9998
+60008,42.0704,-88.0222
+60010,42.1465,-88.1647
+60012,42.2726,-88.3116
+60013,42.2235,-88.2359
+60014,42.2303,-88.3297
+60015,42.1737,-87.8784
+60016,42.0527,-87.8921
+60018,41.9789,-87.8943
+60020,42.3949,-88.1741
+60021,42.1948,-88.2172
+60022,42.1361,-87.7605
+60025,42.0746,-87.8116
+60026,42.0922,-87.8379
+60029,42.0585,-87.7849
+60030,42.3356,-88.0468
+60031,42.3732,-87.9397
+60033,42.4234,-88.6105
+60034,42.4587,-88.4266
+60035,42.1860,-87.8059
+60040,42.2065,-87.8128
+60041,42.3696,-88.1535
+60042,42.2783,-88.1955
+60043,42.0888,-87.7145
+60044,42.2881,-87.8601
+60045,42.2360,-87.8648
+60046,42.4160,-88.0654
+60047,42.2016,-88.0463
+60048,42.2926,-87.9453
+60050,42.3296,-88.2932
+60051,42.3503,-88.2211
+60053,42.0422,-87.7889
+60056,42.0654,-87.9347
+60060,42.2701,-88.0393
+60061,42.2329,-87.9589
+60062,42.1263,-87.8451
+60064,42.3241,-87.8616
+60067,42.1081,-88.0643
+60068,42.0136,-87.8447
+60069,42.1961,-87.9235
+60070,42.1037,-87.9290
+60071,42.4684,-88.3158
+60072,42.4065,-88.3064
+60073,42.3545,-88.1024
+60074,42.1315,-88.0263
+60075,42.4926,-87.9087
+60076,42.0341,-87.7294
+60077,42.0362,-87.7563
+60081,42.4491,-88.2267
+60083,42.4368,-87.9500
+60084,42.2690,-88.1391
+60085,42.3549,-87.8608
+60087,42.4038,-87.8536
+60088,42.3096,-87.8441
+60089,42.1672,-87.9641
+60090,42.1259,-87.9120
+60091,42.0778,-87.7206
+60093,42.1041,-87.7539
+60096,42.4806,-87.8296
+60097,42.3970,-88.3724
+60098,42.3246,-88.4556
+60099,42.4600,-87.8650
+60101,41.9321,-88.0108
+60102,42.1652,-88.3088
+60103,41.9765,-88.2057
+60104,41.8826,-87.8764
+60106,41.9644,-87.9441
+60107,42.0206,-88.1778
+60108,41.9503,-88.0955
+60109,42.0545,-88.5409
+60110,42.1134,-88.2923
+60111,42.0099,-88.8355
+60112,41.9237,-88.6902
+60113,41.9313,-88.9641
+60115,41.9013,-88.7615
+60118,42.1063,-88.3044
+60119,41.8515,-88.4765
+60120,42.0326,-88.2404
+60123,42.0406,-88.3113
+60124,42.0202,-88.4007
+60126,41.8968,-87.9412
+60129,42.0082,-88.9750
+60130,41.8670,-87.8179
+60131,41.9378,-87.8830
+60133,41.9778,-88.1432
+60134,41.8783,-88.3421
+60135,42.1125,-88.6708
+60136,42.1052,-88.3804
+60137,41.8652,-88.0628
+60139,41.9189,-88.0781
+60140,42.0791,-88.5131
+60141,41.8583,-87.8379
+60142,42.1739,-88.4447
+60143,41.9740,-88.0211
+60144,41.8351,-88.5199
+60145,42.0846,-88.7738
+60146,42.1000,-88.8741
+60148,41.8763,-88.0188
+60150,41.9144,-88.8958
+60151,41.9180,-88.5771
+60152,42.2394,-88.6273
+60153,41.8798,-87.8439
+60154,41.8492,-87.8898
+60155,41.8578,-87.8563
+60156,42.2031,-88.3205
+60157,41.9753,-88.0562
+60160,41.9035,-87.8618
+60162,41.8675,-87.9019
+60163,41.8879,-87.9095
+60164,41.9167,-87.9012
+60165,41.9032,-87.8807
+60169,42.0509,-88.1166
+60171,41.9251,-87.8383
+60172,41.9803,-88.0889
+60173,42.0516,-88.0555
+60174,41.9306,-88.2987
+60175,41.9482,-88.3887
+60176,41.9583,-87.8697
+60177,41.9885,-88.3102
+60178,42.0082,-88.6607
+60180,42.2234,-88.5202
+60181,41.8769,-87.9763
+60183,41.9402,-88.4091
+60184,41.9515,-88.2532
+60185,41.8931,-88.2150
+60187,41.8727,-88.1124
+60188,41.9157,-88.1294
+60189,41.8406,-88.1221
+60190,41.8736,-88.1562
+60191,41.9648,-87.9811
+60192,42.0633,-88.2037
+60193,42.0094,-88.0967
+60194,42.0334,-88.1136
+60195,42.0654,-88.0866
+60201,42.0547,-87.6924
+60202,42.0293,-87.6854
+60203,42.0490,-87.7175
+60208,42.0536,-87.6703
+60301,41.8887,-87.7965
+60302,41.8948,-87.7898
+60304,41.8725,-87.7893
+60305,41.8949,-87.8191
+60401,41.3471,-87.6141
+60402,41.8329,-87.7901
+60403,41.5682,-88.1187
+60404,41.5135,-88.2241
+60406,41.6549,-87.6820
+60407,41.2349,-88.2613
+60408,41.2660,-88.2185
+60409,41.6136,-87.5521
+60410,41.4284,-88.2132
+60411,41.5073,-87.5897
+60415,41.7034,-87.7795
+60416,41.2939,-88.2831
+60417,41.4276,-87.5861
+60418,41.6456,-87.7401
+60419,41.6273,-87.5984
+60420,41.0876,-88.4209
+60421,41.4142,-88.0835
+60422,41.5386,-87.6844
+60423,41.4745,-87.8412
+60424,41.1641,-88.3277
+60425,41.5434,-87.6108
+60426,41.6103,-87.6530
+60428,41.5998,-87.6906
+60429,41.5740,-87.6837
+60430,41.5581,-87.6628
+60431,41.5100,-88.1904
+60432,41.5423,-88.0338
+60433,41.4966,-88.0423
+60435,41.5486,-88.1285
+60436,41.4897,-88.1238
+60437,41.1569,-88.5561
+60438,41.5662,-87.5502
+60439,41.6766,-87.9771
+60440,41.7006,-88.0750
+60441,41.5930,-88.0516
+60442,41.3918,-87.9606
+60443,41.5029,-87.7496
+60444,41.2431,-88.4027
+60445,41.6283,-87.7354
+60446,41.6333,-88.0993
+60447,41.4872,-88.3222
+60448,41.5378,-87.8926
+60449,41.4176,-87.7786
+60450,41.3700,-88.4343
+60451,41.5077,-87.9611
+60452,41.6090,-87.7542
+60453,41.7141,-87.7528
+60455,41.7410,-87.8068
+60456,41.7312,-87.7311
+60457,41.7238,-87.8296
+60458,41.7534,-87.8269
+60459,41.7444,-87.7686
+60460,40.9986,-88.5366
+60461,41.5214,-87.6869
+60462,41.6269,-87.8406
+60463,41.6624,-87.7900
+60464,41.6690,-87.8643
+60465,41.7007,-87.8253
+60466,41.4792,-87.6846
+60467,41.5977,-87.8865
+60468,41.3353,-87.8103
+60469,41.6287,-87.6863
+60470,41.1659,-88.6387
+60471,41.4794,-87.7292
+60472,41.6431,-87.7081
+60473,41.5974,-87.6013
+60474,41.1856,-88.2752
+60475,41.4720,-87.6283
+60476,41.5695,-87.6017
+60477,41.5736,-87.7867
+60478,41.5542,-87.7355
+60479,41.2324,-88.5264
+60480,41.7203,-87.8813
+60481,41.2855,-88.1106
+60482,41.6882,-87.7926
+60484,41.4430,-87.7105
+60487,41.5638,-87.8303
+60490,41.6762,-88.1406
+60491,41.6027,-87.9626
+60501,41.7792,-87.8234
+60502,41.7875,-88.2600
+60503,41.7077,-88.2577
+60504,41.7454,-88.2412
+60505,41.7655,-88.2961
+60506,41.7589,-88.3719
+60510,41.8430,-88.3111
+60511,41.7590,-88.5520
+60512,41.7014,-88.4399
+60513,41.8251,-87.8475
+60514,41.7958,-87.9615
+60515,41.8111,-88.0245
+60516,41.7613,-88.0134
+60517,41.7386,-88.0425
+60518,41.5988,-88.9197
+60519,41.7775,-88.2425
+60520,41.7873,-88.6675
+60521,41.8007,-87.9282
+60523,41.8364,-87.9532
+60525,41.7835,-87.8660
+60526,41.8314,-87.8838
+60527,41.7431,-87.9292
+60530,41.7971,-88.9524
+60531,41.6192,-88.7875
+60532,41.7894,-88.0840
+60534,41.8124,-87.8200
+60536,41.5985,-88.5521
+60537,41.5605,-88.6041
+60538,41.7275,-88.3369
+60539,41.8246,-88.3362
+60540,41.7646,-88.1442
+60541,41.5133,-88.5324
+60542,41.8087,-88.3484
+60543,41.6683,-88.3228
+60544,41.6139,-88.2187
+60545,41.6804,-88.5363
+60546,41.8379,-87.8219
+60548,41.6487,-88.6347
+60549,41.5025,-88.7396
+60550,41.7822,-88.8814
+60551,41.5253,-88.6877
+60552,41.6669,-88.7065
+60553,41.8263,-89.0401
+60554,41.7767,-88.4570
+60555,41.8233,-88.1886
+60556,41.7629,-88.7711
+60557,41.4458,-88.7680
+60558,41.8021,-87.9008
+60559,41.7944,-87.9729
+60560,41.6076,-88.4317
+60561,41.7457,-87.9815
+60563,41.7901,-88.2056
+60564,41.7062,-88.1951
+60565,41.7289,-88.1257
+60585,41.6571,-88.2252
+60586,41.5782,-88.2345
+60601,41.8852,-87.6215
+60602,41.8830,-87.6291
+60603,41.8803,-87.6274
+60604,41.8781,-87.6291
+60605,41.8676,-87.6172
+60606,41.8813,-87.6375
+60607,41.8748,-87.6545
+60608,41.8469,-87.6707
+60609,41.8127,-87.6569
+60610,41.9047,-87.6359
+60611,41.8947,-87.6151
+60612,41.8805,-87.6879
+60613,41.9562,-87.6530
+60614,41.9227,-87.6472
+60615,41.8033,-87.5979
+60616,41.8449,-87.6240
+60617,41.7144,-87.5558
+60618,41.9476,-87.7026
+60619,41.7434,-87.6053
+60620,41.7405,-87.6526
+60621,41.7762,-87.6395
+60622,41.9022,-87.6833
+60623,41.8471,-87.7176
+60624,41.8805,-87.7244
+60625,41.9731,-87.6998
+60626,42.0088,-87.6671
+60628,41.6915,-87.6186
+60629,41.7754,-87.7115
+60630,41.9721,-87.7566
+60631,41.9948,-87.8131
+60632,41.8102,-87.7133
+60633,41.6638,-87.5613
+60634,41.9462,-87.8061
+60636,41.7758,-87.6691
+60637,41.7825,-87.6027
+60638,41.7825,-87.7708
+60639,41.9206,-87.7559
+60640,41.9729,-87.6626
+60641,41.9467,-87.7469
+60642,41.9020,-87.6585
+60643,41.7003,-87.6633
+60644,41.8801,-87.7564
+60645,42.0086,-87.6946
+60646,41.9937,-87.7613
+60647,41.9210,-87.7020
+60649,41.7593,-87.5570
+60651,41.9020,-87.7410
+60652,41.7474,-87.7144
+60653,41.8200,-87.6060
+60654,41.8922,-87.6363
+60655,41.6948,-87.7038
+60656,41.9743,-87.8271
+60657,41.9394,-87.6507
+60659,41.9896,-87.7066
+60660,41.9911,-87.6631
+60661,41.8830,-87.6441
+60706,41.9639,-87.8168
+60707,41.9218,-87.8074
+60712,42.0054,-87.7330
+60714,42.0284,-87.8113
+60803,41.6741,-87.7362
+60804,41.8402,-87.7599
+60805,41.7220,-87.7024
+60827,41.6494,-87.6336
+60901,41.1094,-87.9028
+60910,41.0664,-87.7996
+60911,40.8802,-87.9766
+60912,40.9736,-87.6035
+60913,41.1484,-88.0620
+60914,41.1830,-87.8612
+60915,41.1463,-87.8607
+60917,41.0471,-88.1974
+60918,40.5950,-88.0257
+60919,40.9879,-88.2375
+60920,41.0302,-88.3038
+60921,40.7315,-88.2972
+60922,41.0109,-87.9193
+60924,40.5607,-87.8856
+60926,40.5694,-87.8121
+60927,40.9385,-87.9728
+60928,40.7457,-87.8508
+60929,40.8760,-88.2924
+60930,40.8317,-88.0063
+60931,40.8893,-87.5881
+60932,40.4651,-87.8001
+60933,40.4626,-88.2738
+60934,40.9571,-88.3451
+60935,41.1705,-88.1759
+60936,40.4647,-88.3631
+60938,40.7723,-87.9844
+60939,40.5670,-87.7771
+60940,41.2498,-87.6429
+60941,41.0387,-88.0859
+60942,40.4666,-87.6616
+60945,40.8351,-87.5967
+60946,40.9131,-88.2007
+60948,40.5236,-88.0773
+60949,40.3783,-88.1052
+60950,41.2528,-87.8836
+60951,40.9190,-87.7408
+60952,40.5628,-88.2504
+60953,40.6290,-87.6902
+60954,41.1477,-87.6225
+60955,40.7085,-87.9829
+60956,40.9677,-87.7162
+60957,40.4430,-88.1362
+60958,41.0652,-87.5916
+60959,40.7895,-88.1832
+60960,40.4390,-87.8907
+60961,41.1096,-88.2215
+60962,40.6261,-88.1871
+60963,40.3685,-87.6511
+60964,41.0278,-87.7423
+60966,40.7514,-87.5832
+60967,40.6241,-87.5813
+60968,40.6755,-88.1197
+60969,41.1110,-88.1497
+60970,40.7939,-87.7413
+60973,40.5365,-87.6626
+60974,40.7180,-87.7359
+61001,42.4658,-90.1102
+61006,41.8618,-89.2023
+61007,42.1994,-89.5911
+61008,42.2459,-88.8399
+61010,42.1345,-89.2726
+61011,42.3923,-88.8971
+61012,42.4014,-88.7646
+61013,42.3754,-89.6364
+61014,41.9750,-89.8865
+61015,41.9968,-89.1971
+61016,42.1973,-88.9477
+61018,42.4160,-89.5556
+61019,42.4392,-89.4102
+61020,42.1103,-89.0981
+61021,41.8296,-89.4773
+61024,42.4364,-89.2971
+61025,42.4714,-90.5560
+61027,42.3333,-89.7555
+61028,42.2985,-90.1759
+61030,42.1196,-89.5916
+61031,41.8300,-89.3213
+61032,42.3189,-89.6370
+61036,42.4137,-90.3758
+61037,41.7884,-89.7598
+61038,42.2658,-88.7380
+61039,42.2080,-89.4693
+61041,42.2732,-90.3112
+61042,41.6941,-89.5587
+61043,42.0668,-89.1049
+61044,42.3234,-89.9099
+61046,42.1044,-89.8128
+61047,42.1530,-89.3960
+61048,42.3826,-89.8412
+61049,42.0496,-89.0089
+61050,42.4393,-89.7319
+61051,41.9828,-89.7618
+61052,42.1115,-89.0001
+61053,42.1208,-89.9833
+61054,42.0557,-89.4455
+61057,41.8336,-89.3840
+61059,42.4546,-89.9408
+61060,42.4788,-89.6182
+61061,41.9979,-89.3417
+61062,42.2507,-89.8358
+61063,42.3195,-89.3407
+61064,41.9893,-89.5872
+61065,42.4006,-88.8370
+61067,42.3055,-89.4721
+61068,41.9500,-89.0656
+61070,42.4157,-89.4717
+61071,41.7247,-89.6989
+61072,42.4424,-89.1385
+61073,42.4238,-88.9939
+61074,42.1244,-90.1224
+61075,42.4654,-90.2644
+61077,42.2401,-89.3480
+61078,42.1673,-89.7306
+61079,42.4529,-89.2151
+61080,42.4809,-88.9838
+61081,41.8500,-89.7394
+61084,42.1236,-89.1901
+61085,42.3427,-90.0308
+61087,42.4805,-89.9935
+61088,42.2681,-89.2627
+61089,42.4735,-89.8234
+61091,41.9082,-89.5524
+61101,42.3461,-89.1461
+61102,42.2288,-89.1625
+61103,42.3402,-89.0866
+61104,42.2517,-89.0799
+61107,42.2855,-89.0016
+61108,42.2552,-89.0023
+61109,42.1913,-89.0558
+61111,42.3355,-89.0027
+61112,42.2420,-88.9752
+61114,42.3066,-88.9909
+61115,42.3626,-89.0242
+61201,41.4776,-90.5756
+61230,41.7341,-90.2129
+61231,41.2107,-90.7178
+61232,41.4317,-90.7274
+61233,41.2947,-90.2913
+61234,41.4180,-89.9143
+61235,41.4013,-90.0236
+61236,41.5144,-90.3556
+61237,41.3418,-90.8622
+61238,41.2823,-90.1724
+61239,41.4948,-90.3897
+61240,41.4233,-90.4370
+61241,41.4873,-90.3204
+61242,41.7080,-90.2851
+61243,41.6185,-89.6784
+61244,41.5226,-90.3908
+61250,41.6559,-90.1124
+61251,41.7291,-90.0729
+61252,41.8368,-90.1253
+61254,41.4672,-90.1496
+61256,41.5611,-90.4006
+61257,41.5934,-90.2218
+61258,41.5218,-89.9140
+61259,41.3856,-90.9245
+61260,41.2379,-90.8874
+61261,41.7360,-89.9100
+61262,41.2761,-90.3483
+61263,41.2662,-90.5960
+61264,41.4028,-90.5959
+61265,41.4807,-90.4872
+61270,41.8266,-89.9635
+61272,41.2511,-91.0114
+61273,41.3642,-90.3991
+61274,41.3703,-90.2766
+61275,41.6056,-90.3070
+61276,41.3166,-90.5763
+61277,41.6136,-89.9306
+61278,41.5793,-90.3342
+61279,41.3257,-90.7286
+61281,41.2998,-90.5201
+61282,41.4967,-90.4117
+61283,41.5909,-89.7886
+61284,41.3951,-90.7500
+61285,41.9939,-90.0823
+61301,41.3974,-89.0843
+61310,41.7024,-89.3545
+61311,41.0402,-88.8622
+61312,41.4340,-89.2254
+61313,41.0724,-88.6700
+61314,41.3003,-89.6766
+61315,41.2853,-89.3666
+61316,41.2578,-89.1277
+61317,41.4320,-89.2082
+61318,41.7113,-89.0783
+61319,41.0154,-88.7399
+61320,41.3553,-89.1704
+61321,40.9676,-88.9762
+61322,41.3123,-89.3070
+61323,41.4355,-89.3961
+61324,41.7699,-89.4136
+61325,41.2350,-88.8096
+61326,41.2462,-89.2297
+61327,41.2305,-89.2991
+61328,41.5093,-89.4590
+61329,41.3770,-89.2078
+61330,41.5351,-89.2773
+61331,41.7477,-89.2775
+61332,41.1888,-88.9845
+61333,40.9885,-88.8893
+61334,41.1473,-89.0993
+61335,41.1592,-89.2339
+61336,41.1115,-89.2123
+61337,41.4506,-89.2978
+61338,41.4701,-89.6651
+61340,41.2640,-89.2513
+61341,41.3522,-88.6932
+61342,41.5437,-89.0841
+61344,41.4124,-89.8344
+61345,41.2761,-89.7854
+61346,41.5067,-89.7200
+61348,41.2857,-89.0352
+61349,41.5487,-89.4371
+61350,41.3721,-88.8651
+61353,41.7043,-88.9910
+61354,41.3342,-89.1422
+61356,41.3893,-89.4399
+61358,40.9817,-89.0430
+61359,41.3625,-89.2715
+61360,41.3326,-88.6003
+61361,41.4123,-89.7738
+61362,41.3514,-89.2237
+61363,41.2542,-89.1825
+61364,41.1285,-88.8499
+61367,41.6214,-89.2595
+61368,41.2621,-89.5175
+61369,40.9827,-89.1540
+61370,41.2107,-89.0388
+61371,41.4993,-89.0199
+61372,41.4658,-89.0824
+61373,41.4072,-88.9959
+61374,41.5473,-89.3576
+61375,41.0352,-89.2434
+61376,41.5384,-89.6018
+61377,41.0654,-89.0421
+61378,41.7227,-89.1554
+61379,41.3803,-89.6063
+61401,40.9452,-90.3866
+61402,40.9399,-90.4064
+61410,40.7949,-90.4225
+61411,40.4010,-90.5021
+61412,41.0784,-90.5797
+61413,41.1866,-90.3704
+61414,41.1259,-90.1549
+61415,40.6500,-90.4188
+61416,40.4959,-90.5631
+61417,40.7722,-90.5441
+61418,40.8472,-90.8692
+61419,41.1998,-90.1175
+61420,40.5488,-90.8673
+61421,41.1875,-89.6479
+61422,40.5514,-90.5329
+61423,40.8855,-90.5023
+61424,41.0766,-89.6351
+61425,40.7592,-91.0401
+61426,41.1196,-89.7060
+61427,40.4976,-90.1945
+61428,40.9333,-90.1136
+61430,40.9438,-90.3120
+61431,40.6000,-90.2885
+61432,40.6484,-90.1532
+61433,40.5544,-90.1690
+61434,41.1727,-90.0362
+61435,40.9956,-90.5686
+61436,40.8601,-90.2232
+61437,40.8470,-90.9921
+61438,40.5854,-90.6495
+61439,41.0292,-90.3502
+61440,40.3161,-90.5928
+61441,40.3302,-90.2817
+61442,41.1033,-90.9240
+61443,41.2637,-89.9449
+61447,40.8703,-90.7634
+61448,40.9338,-90.2438
+61449,41.0950,-89.9751
+61450,40.5717,-90.9843
+61451,40.9387,-89.9395
+61452,40.2384,-90.6602
+61453,41.0135,-90.7632
+61454,40.6819,-91.0399
+61455,40.4404,-90.6379
+61458,40.7822,-90.1832
+61459,40.5102,-90.4196
+61460,40.7216,-90.8277
+61462,40.9099,-90.6517
+61465,41.2107,-90.4797
+61466,41.1110,-90.4822
+61467,41.0694,-90.2424
+61468,41.2565,-90.3874
+61469,40.9560,-90.9082
+61470,40.6062,-90.5062
+61471,40.6958,-90.8251
+61472,41.1033,-90.3834
+61473,40.7091,-90.6497
+61474,40.7421,-90.3941
+61475,40.5969,-90.7527
+61476,41.0898,-90.8290
+61477,40.4960,-90.3106
+61478,40.7563,-90.7604
+61479,41.0019,-89.6394
+61480,40.7274,-90.9133
+61482,40.3898,-90.4039
+61483,41.0812,-89.8733
+61484,40.2977,-90.4432
+61485,41.0223,-90.0706
+61486,41.1948,-90.5764
+61488,41.0300,-90.3208
+61489,40.9308,-90.0331
+61490,41.1855,-90.2587
+61491,41.0538,-89.7208
+61501,40.2284,-90.3119
+61516,40.8556,-89.1320
+61517,40.8190,-89.8469
+61519,40.4646,-90.0931
+61520,40.5436,-90.0248
+61523,40.9120,-89.5378
+61524,40.4912,-90.0347
+61525,40.8478,-89.6705
+61526,40.9229,-89.6200
+61528,40.7769,-89.7183
+61529,40.7820,-89.9376
+61530,40.7087,-89.2649
+61531,40.6825,-90.0368
+61532,40.3485,-89.8069
+61533,40.5864,-89.8425
+61534,40.4150,-89.6647
+61535,40.5789,-89.5165
+61536,40.6908,-89.7901
+61537,41.1192,-89.4714
+61539,40.5564,-89.7628
+61540,41.0146,-89.3666
+61541,40.9804,-89.2350
+61542,40.3767,-90.1317
+61543,40.4179,-89.9775
+61544,40.7007,-90.2341
+61545,40.8684,-89.3525
+61546,40.4483,-89.8096
+61547,40.5700,-89.7218
+61548,40.8140,-89.4200
+61550,40.6114,-89.4364
+61552,40.8214,-89.5649
+61553,40.6214,-90.0268
+61554,40.5436,-89.6206
+61559,40.9190,-89.7792
+61560,41.1873,-89.4198
+61561,40.8056,-89.2069
+61562,40.8810,-89.5014
+61563,40.4932,-90.0511
+61564,40.4985,-89.6562
+61565,41.0387,-89.5050
+61567,40.3732,-89.9010
+61568,40.5103,-89.4814
+61569,40.6832,-89.9006
+61570,40.9142,-89.3234
+61571,40.7045,-89.4246
+61572,40.7972,-90.0397
+61602,40.6792,-89.6056
+61603,40.7098,-89.5755
+61604,40.7052,-89.6529
+61605,40.6765,-89.6331
+61606,40.7001,-89.6119
+61607,40.6271,-89.6851
+61610,40.6421,-89.5996
+61611,40.7133,-89.5357
+61614,40.7591,-89.6041
+61615,40.7489,-89.6723
+61616,40.7467,-89.5716
+61625,40.6977,-89.6146
+61701,40.4759,-88.9927
+61704,40.4701,-88.9415
+61705,40.5231,-89.0720
+61720,40.5503,-88.5021
+61721,40.3508,-89.3235
+61722,40.4234,-88.6263
+61723,40.2647,-89.2765
+61724,40.3338,-88.5252
+61725,40.6165,-89.1217
+61726,40.7334,-88.7077
+61727,40.1468,-88.9532
+61728,40.5806,-88.6223
+61729,40.6287,-89.2213
+61730,40.5326,-88.7344
+61731,40.6126,-88.4839
+61732,40.5296,-89.2081
+61733,40.6236,-89.3302
+61734,40.3764,-89.5262
+61735,40.2051,-88.8056
+61736,40.4023,-88.8404
+61737,40.4557,-88.7332
+61738,40.7451,-89.0301
+61739,40.7278,-88.5214
+61740,40.8919,-88.8628
+61741,40.7626,-88.3967
+61742,40.6353,-89.2685
+61743,40.8780,-88.7814
+61744,40.7438,-88.8812
+61745,40.3206,-88.9674
+61747,40.4161,-89.4353
+61748,40.6224,-88.9968
+61749,40.0928,-89.1162
+61750,40.1225,-88.8557
+61751,40.2146,-89.2993
+61752,40.3371,-88.7617
+61753,40.6297,-88.7880
+61754,40.3281,-89.1614
+61755,40.5261,-89.3418
+61756,40.0331,-88.9637
+61759,40.4373,-89.3361
+61760,40.8859,-89.0321
+61761,40.5280,-88.9476
+61764,40.8833,-88.6259
+61769,40.8855,-88.3995
+61770,40.4395,-88.5108
+61771,40.7131,-89.1480
+61772,40.3860,-89.0636
+61773,40.5664,-88.3737
+61774,40.4330,-89.1955
+61775,40.6537,-88.3760
+61776,40.5721,-88.8701
+61777,40.2441,-88.9457
+61778,40.2258,-89.0911
+61801,40.1095,-88.2110
+61802,40.1236,-88.1533
+61810,39.9101,-87.9184
+61811,40.2953,-87.6217
+61812,40.2098,-87.9267
+61813,39.9108,-88.5657
+61814,40.2319,-87.5702
+61815,40.1107,-88.3680
+61816,39.9244,-88.0040
+61817,40.0353,-87.7163
+61818,39.8867,-88.7165
+61820,40.1121,-88.2443
+61821,40.1111,-88.2755
+61822,40.1337,-88.3029
+61830,40.0111,-88.7303
+61831,40.2262,-87.7970
+61832,40.1324,-87.6321
+61833,40.0992,-87.6472
+61834,40.1525,-87.6733
+61839,40.1319,-88.6369
+61840,40.2989,-88.3003
+61841,40.0342,-87.8179
+61842,40.2388,-88.6652
+61843,40.3172,-88.3739
+61844,40.1430,-87.8692
+61845,40.3736,-88.3968
+61846,39.9773,-87.6075
+61847,40.3056,-88.0098
+61848,40.3069,-87.7010
+61849,40.0142,-87.9674
+61850,39.9301,-87.7435
+61851,39.9650,-88.4355
+61852,39.8995,-88.0728
+61853,40.2299,-88.4210
+61854,40.1999,-88.5293
+61855,39.9244,-88.6606
+61856,40.0293,-88.5837
+61857,40.1186,-87.8434
+61858,40.1343,-87.7619
+61859,40.1504,-87.9629
+61862,40.3060,-87.9586
+61863,39.9049,-88.2819
+61864,39.9751,-88.1527
+61865,40.3027,-87.8021
+61866,40.3116,-88.1580
+61870,39.9032,-87.6156
+61871,40.1912,-87.9792
+61872,39.9304,-88.3770
+61873,40.1339,-88.0391
+61874,40.0543,-88.2666
+61875,40.1035,-88.4163
+61876,39.9013,-87.8362
+61877,39.9929,-88.0759
+61878,40.2427,-88.1455
+61880,39.9738,-88.2489
+61882,40.1062,-88.7547
+61883,40.0349,-87.6399
+61884,40.0906,-88.4911
+61910,39.6711,-88.2971
+61911,39.7009,-88.4693
+61912,39.5224,-88.0408
+61913,39.8266,-88.4716
+61914,39.6303,-88.7624
+61917,39.7174,-87.8941
+61919,39.7844,-88.1378
+61920,39.5120,-88.1542
+61924,39.7862,-87.6633
+61925,39.7191,-88.8405
+61928,39.4560,-88.4982
+61929,39.8248,-88.6258
+61930,39.6793,-88.1290
+61931,39.5861,-88.3681
+61932,39.7997,-87.8749
+61933,39.5485,-87.8963
+61936,39.8032,-88.7268
+61937,39.7338,-88.6573
+61938,39.4799,-88.3758
+61940,39.8039,-87.8125
+61941,39.8046,-88.0750
+61942,39.8144,-88.0032
+61943,39.6615,-88.0237
+61944,39.5998,-87.7021
+61949,39.6576,-87.8584
+61951,39.5958,-88.5904
+61953,39.7977,-88.2906
+61955,39.5816,-87.5875
+61956,39.8582,-88.1350
+61957,39.4418,-88.6116
+62001,38.8814,-89.7450
+62002,38.9392,-90.1349
+62006,39.0643,-90.6790
+62009,39.0936,-89.7981
+62010,38.9191,-90.0483
+62011,39.1287,-89.2176
+62012,39.0448,-90.1483
+62013,38.9564,-90.5736
+62014,39.0434,-89.9504
+62015,39.2123,-89.5442
+62016,39.2968,-90.4155
+62017,39.0651,-89.3686
+62018,38.9139,-90.0819
+62019,39.0187,-89.4415
+62021,38.9836,-89.9766
+62022,39.0032,-90.3262
+62023,39.1087,-89.7790
+62024,38.8831,-90.0900
+62025,38.8299,-89.9310
+62026,38.7894,-90.0030
+62027,39.2434,-90.5574
+62028,38.9582,-90.3548
+62030,39.1546,-90.1645
+62031,39.1115,-90.5369
+62032,39.1158,-89.2883
+62033,39.1366,-89.8399
+62034,38.7549,-89.9722
+62035,38.9587,-90.2427
+62036,38.9183,-90.5897
+62037,39.0109,-90.4651
+62040,38.7149,-90.0989
+62044,39.3658,-90.2020
+62045,39.2642,-90.6901
+62046,38.8925,-89.8387
+62047,39.1231,-90.6266
+62048,38.7729,-90.1372
+62049,39.1410,-89.4795
+62050,39.4422,-90.5733
+62051,39.2033,-89.4031
+62052,39.1128,-90.3195
+62053,39.3193,-90.6654
+62054,39.2075,-90.3506
+62056,39.1756,-89.6744
+62058,38.9684,-89.7646
+62059,38.6531,-90.1734
+62060,38.6818,-90.1424
+62061,38.7907,-89.7764
+62062,38.7257,-89.9631
+62063,39.1985,-90.1499
+62067,38.9290,-89.9833
+62069,39.0891,-89.7393
+62074,38.9550,-89.6897
+62075,39.3021,-89.2958
+62076,39.3419,-89.2338
+62077,39.0318,-89.5115
+62078,39.4798,-90.4868
+62079,39.1084,-90.1318
+62080,39.1419,-89.1031
+62081,39.2649,-90.2250
+62082,39.4900,-90.3175
+62083,39.3512,-89.1984
+62084,38.8407,-90.0634
+62085,39.0819,-89.8045
+62086,38.9899,-89.5896
+62087,38.8148,-90.0710
+62088,39.0147,-89.7985
+62089,39.1178,-89.4867
+62090,38.6671,-90.1665
+62091,39.0562,-89.6106
+62092,39.4186,-90.4312
+62093,39.0647,-89.8420
+62094,39.2387,-89.3498
+62095,38.8626,-90.0743
+62097,38.9367,-89.8527
+62098,39.3838,-90.2994
+62201,38.6351,-90.1407
+62203,38.6017,-90.0760
+62204,38.6295,-90.0959
+62205,38.6028,-90.1186
+62206,38.5679,-90.1693
+62207,38.5829,-90.1254
+62208,38.5953,-90.0047
+62214,38.3764,-89.6037
+62215,38.5078,-89.6008
+62216,38.6325,-89.6024
+62217,38.1738,-89.8386
+62218,38.5222,-89.4740
+62219,38.6036,-89.4372
+62220,38.4783,-89.9980
+62221,38.5117,-89.9024
+62223,38.5359,-90.0595
+62225,38.5430,-89.8521
+62226,38.5368,-90.0003
+62230,38.6350,-89.5310
+62231,38.6531,-89.3269
+62232,38.6324,-90.0054
+62233,37.9423,-89.7886
+62234,38.6822,-89.9806
+62236,38.4339,-90.2119
+62237,38.1978,-89.5693
+62238,38.0526,-89.5438
+62239,38.5246,-90.1567
+62240,38.5019,-90.1766
+62241,38.0112,-89.8939
+62242,38.0989,-89.9377
+62243,38.4191,-89.8894
+62244,38.1957,-90.1988
+62245,38.5310,-89.5752
+62246,38.8904,-89.4276
+62248,38.3059,-89.9929
+62249,38.7553,-89.6673
+62250,38.5405,-89.2643
+62253,38.7777,-89.3001
+62254,38.6094,-89.8229
+62255,38.3132,-89.7831
+62256,38.2264,-90.2315
+62257,38.2849,-89.7287
+62258,38.4609,-89.7821
+62260,38.4609,-90.0986
+62261,38.0068,-89.9973
+62262,38.9394,-89.2638
+62263,38.3190,-89.4012
+62264,38.3159,-89.8999
+62265,38.5062,-89.6807
+62266,38.4848,-89.6573
+62268,38.2763,-89.5396
+62269,38.6000,-89.9154
+62271,38.4401,-89.5205
+62272,37.9962,-89.6164
+62273,38.7868,-89.5838
+62274,38.0912,-89.4003
+62275,38.8146,-89.5471
+62277,38.0970,-90.1122
+62278,38.2038,-89.9913
+62279,38.1338,-90.1358
+62280,37.8466,-89.6480
+62281,38.7069,-89.7794
+62282,38.3564,-89.7129
+62284,38.8641,-89.3104
+62285,38.3923,-90.0084
+62286,38.1170,-89.7177
+62288,37.9934,-89.6896
+62289,38.5976,-89.7513
+62292,38.2131,-89.6820
+62293,38.6160,-89.6955
+62294,38.7026,-89.8675
+62295,38.2719,-90.3108
+62297,38.0521,-89.8063
+62298,38.3088,-90.1494
+62301,39.9312,-91.3887
+62305,39.9282,-91.3439
+62311,40.2226,-90.9352
+62312,39.7073,-91.0242
+62313,40.3177,-91.2283
+62314,39.7680,-90.8917
+62316,40.2355,-91.0530
+62319,40.1529,-90.7300
+62320,40.0305,-91.0829
+62321,40.4097,-91.0954
+62323,39.8004,-90.6745
+62324,39.9983,-90.9663
+62325,40.0456,-91.1620
+62326,40.4228,-90.8136
+62330,40.5714,-91.1258
+62334,40.3956,-91.2488
+62336,40.4676,-91.1733
+62338,39.9987,-91.2372
+62339,40.1285,-91.0381
+62340,39.7347,-90.7282
+62341,40.4334,-91.3009
+62343,39.6966,-91.2450
+62344,40.1799,-90.8250
+62345,39.6973,-91.1126
+62346,40.1398,-90.9364
+62347,39.8701,-91.0890
+62348,40.1883,-91.3712
+62349,40.1705,-91.1919
+62351,40.1136,-91.2689
+62352,39.5682,-90.6546
+62353,39.9730,-90.7575
+62354,40.5174,-91.3421
+62355,39.4124,-90.7787
+62356,39.5889,-91.0797
+62357,39.6858,-90.8671
+62358,40.5878,-91.2632
+62359,40.0374,-91.2121
+62360,39.8173,-91.2614
+62361,39.4921,-90.6215
+62362,39.7762,-90.7643
+62363,39.5905,-90.7697
+62365,39.7964,-91.1651
+62366,39.4721,-90.9018
+62367,40.2999,-90.8652
+62370,39.5173,-91.0072
+62373,40.2427,-91.3650
+62374,40.4077,-90.9105
+62375,40.0021,-90.8573
+62376,40.1136,-91.4077
+62378,39.9059,-90.6348
+62379,40.2693,-91.4034
+62380,40.2382,-91.1909
+62401,39.1187,-88.5624
+62410,38.5388,-87.7332
+62411,39.0713,-88.7336
+62413,39.1388,-87.8378
+62414,39.1744,-88.8264
+62417,38.7034,-87.7657
+62418,39.0223,-88.9738
+62419,38.6265,-87.9801
+62420,39.2870,-87.9986
+62421,38.7521,-87.9435
+62422,39.2333,-88.8886
+62423,39.4627,-87.5799
+62424,38.9883,-88.4286
+62425,38.8368,-88.0987
+62426,38.8923,-88.6640
+62427,38.8731,-87.6499
+62428,39.2627,-88.1367
+62431,39.2253,-88.9965
+62432,39.1335,-88.1418
+62433,39.1067,-87.7158
+62434,38.8420,-88.3218
+62436,39.1824,-88.2561
+62438,39.3255,-88.8701
+62439,38.7441,-87.6397
+62440,39.3943,-88.2632
+62441,39.3941,-87.6987
+62442,39.3039,-87.8538
+62443,38.9558,-88.6311
+62444,39.2785,-88.7347
+62445,39.1653,-88.3302
+62446,38.4899,-88.2067
+62447,39.3132,-88.4447
+62448,38.9684,-88.1792
+62449,39.0041,-87.9106
+62450,38.7132,-88.0893
+62451,38.9712,-87.6111
+62452,38.5901,-88.0147
+62454,38.9923,-87.7650
+62458,39.0258,-88.8545
+62459,38.9300,-88.0278
+62460,38.6017,-87.7272
+62461,39.1942,-88.6843
+62462,39.2388,-88.4685
+62463,39.2806,-88.5912
+62464,38.9980,-87.8238
+62465,39.3461,-88.6383
+62466,38.7284,-87.8526
+62467,39.1281,-88.4354
+62468,39.2769,-88.2703
+62469,39.3512,-88.3338
+62471,38.9589,-89.1302
+62473,39.0215,-88.5679
+62474,39.4569,-88.0359
+62475,38.8819,-88.0486
+62476,38.5322,-88.0154
+62477,39.2336,-87.6434
+62478,39.1800,-87.7436
+62479,39.0370,-88.3069
+62480,38.9974,-87.9996
+62481,39.1266,-88.0230
+62501,39.9266,-88.8144
+62510,39.5307,-89.0289
+62512,40.1435,-89.2106
+62513,39.7213,-89.1503
+62514,39.7675,-89.0450
+62515,39.8602,-89.3659
+62517,39.5942,-89.4333
+62518,40.0514,-89.2030
+62519,39.9288,-89.3953
+62520,39.8246,-89.4563
+62521,39.8102,-88.9278
+62522,39.8276,-89.0478
+62523,39.8437,-88.9529
+62526,39.9017,-88.9892
+62530,39.5601,-89.6566
+62531,39.6744,-89.3776
+62532,39.7762,-88.9776
+62533,39.4459,-89.6298
+62534,39.5297,-88.8006
+62535,39.9255,-88.9660
+62536,39.6290,-89.6523
+62537,39.8526,-89.0932
+62538,39.3563,-89.5205
+62539,39.8668,-89.2492
+62540,39.5849,-89.4199
+62541,39.9566,-89.3709
+62543,39.9708,-89.1518
+62544,39.7086,-88.9737
+62545,39.7678,-89.3850
+62546,39.4315,-89.4459
+62547,39.7705,-89.2423
+62548,39.9813,-89.2835
+62549,39.7710,-88.8672
+62550,39.6179,-88.9896
+62551,39.8541,-89.1559
+62553,39.2718,-89.1051
+62554,39.9445,-88.8823
+62555,39.4630,-89.2105
+62556,39.4750,-89.3752
+62557,39.4018,-89.1059
+62558,39.5867,-89.5499
+62560,39.2986,-89.6028
+62561,39.8711,-89.5067
+62563,39.7193,-89.4963
+62565,39.4168,-88.8039
+62567,39.6467,-89.1908
+62568,39.5597,-89.2870
+62570,39.5786,-89.4517
+62571,39.3810,-88.9602
+62572,39.3591,-89.6978
+62573,39.9455,-89.0726
+62601,39.7503,-90.0390
+62610,39.5389,-90.4462
+62611,39.8841,-90.3982
+62612,39.8960,-90.0632
+62613,39.9826,-89.6652
+62615,39.5857,-89.7541
+62617,40.1568,-90.1699
+62618,40.0084,-90.3971
+62621,39.7267,-90.5206
+62622,39.9779,-90.3431
+62624,40.1593,-90.3468
+62625,39.9012,-89.7018
+62626,39.2846,-89.8836
+62627,40.0591,-90.1111
+62628,39.7794,-90.4020
+62629,39.6775,-89.7169
+62630,39.2711,-90.0863
+62631,39.8274,-90.3542
+62633,40.2235,-89.8708
+62634,40.0138,-89.4516
+62635,40.2965,-89.4657
+62638,39.6093,-90.0812
+62639,40.0377,-90.4860
+62640,39.4283,-89.8050
+62642,40.0936,-89.7249
+62643,40.2415,-89.4578
+62644,40.2854,-90.0619
+62649,39.3575,-90.0600
+62650,39.7383,-90.2201
+62655,40.1699,-89.9865
+62656,40.1397,-89.3662
+62661,39.6680,-89.8270
+62663,39.5411,-90.3275
+62664,40.2126,-89.7241
+62665,39.8169,-90.5296
+62666,40.0824,-89.5396
+62667,39.4878,-89.9923
+62668,39.5659,-90.2403
+62670,39.7435,-89.8986
+62671,40.1722,-89.5491
+62672,39.3980,-89.8045
+62673,40.0971,-89.9688
+62674,39.4411,-90.0233
+62675,40.0265,-89.8671
+62677,39.8527,-89.8794
+62681,40.1362,-90.5428
+62682,40.2987,-89.6310
+62684,39.9091,-89.5868
+62685,39.1399,-89.9918
+62688,39.9450,-89.9241
+62689,39.5340,-89.7657
+62690,39.5056,-89.7662
+62691,39.9585,-90.2288
+62692,39.5836,-89.9392
+62693,39.9580,-89.5162
+62694,39.6228,-90.4771
+62695,39.6194,-90.2242
+62701,39.8005,-89.6489
+62702,39.8242,-89.6427
+62703,39.7630,-89.6311
+62704,39.7735,-89.6838
+62706,39.7979,-89.6554
+62707,39.8556,-89.6501
+62711,39.7661,-89.7328
+62712,39.7481,-89.5816
+62801,38.5110,-89.1404
+62803,38.4533,-89.2950
+62806,38.3874,-88.0870
+62807,38.7516,-88.9292
+62808,38.3062,-89.1887
+62809,38.2790,-88.3378
+62810,38.2059,-88.7431
+62811,38.3874,-87.9036
+62812,38.0064,-88.9225
+62814,38.3784,-88.7319
+62815,38.4584,-87.9664
+62816,38.1898,-88.9230
+62817,37.9545,-88.4761
+62818,38.3777,-87.9675
+62819,37.9745,-89.0048
+62820,38.2486,-88.2354
+62821,38.0710,-88.1297
+62822,37.9740,-89.0541
+62823,38.5177,-88.4373
+62824,38.6695,-88.3417
+62825,37.9982,-89.0590
+62827,38.1707,-88.0477
+62828,38.1945,-88.6016
+62829,38.0033,-88.4910
+62830,38.4434,-88.9676
+62831,38.2349,-89.2227
+62832,38.0086,-89.2528
+62833,38.3402,-88.1676
+62835,38.1060,-88.3217
+62836,38.0946,-88.8055
+62837,38.3652,-88.3577
+62838,38.8642,-88.7455
+62839,38.6608,-88.4938
+62841,37.8587,-88.9964
+62842,38.4679,-88.3895
+62843,38.3822,-88.1991
+62844,38.2514,-88.0485
+62846,38.1509,-88.8551
+62848,38.4340,-89.1664
+62849,38.5849,-88.7737
+62850,38.4947,-88.5948
+62851,38.4275,-88.6600
+62852,38.3499,-87.8668
+62853,38.5161,-88.9122
+62854,38.7645,-88.8240
+62856,37.9523,-88.8384
+62858,38.8118,-88.4929
+62859,38.0660,-88.5397
+62860,38.0414,-88.7319
+62861,38.0352,-88.0453
+62862,38.2191,-88.2993
+62863,38.4158,-87.8599
+62864,38.3305,-88.9024
+62865,37.9749,-89.0825
+62867,37.9122,-88.0989
+62868,38.6777,-88.2281
+62869,37.9566,-88.2778
+62870,38.6352,-89.0531
+62871,37.8821,-88.2692
+62872,38.2716,-88.8007
+62874,37.9176,-88.9783
+62875,38.7555,-89.1212
+62876,38.2771,-89.1948
+62877,38.3925,-89.1996
+62878,38.5750,-88.4966
+62879,38.7650,-88.3590
+62880,38.8675,-88.8859
+62881,38.6386,-88.9273
+62882,38.6363,-89.1186
+62883,38.1680,-89.1047
+62884,38.0853,-89.0423
+62885,38.8605,-89.0646
+62886,38.3787,-88.5347
+62887,38.1863,-88.3690
+62888,38.1275,-89.2290
+62889,38.4565,-88.8236
+62890,37.9062,-88.7380
+62891,38.0160,-89.0412
+62892,38.8086,-89.0757
+62893,38.4658,-89.0302
+62894,38.2095,-89.0396
+62895,38.3055,-88.5551
+62896,37.8927,-88.9121
+62897,38.0939,-88.9118
+62898,38.3504,-89.0602
+62899,38.6189,-88.6424
+62901,37.7408,-89.2090
+62902,37.6744,-89.1125
+62903,37.6741,-89.2762
+62905,37.5577,-89.3674
+62906,37.4629,-89.1776
+62907,37.8632,-89.4957
+62908,37.3102,-88.8649
+62910,37.1531,-88.5345
+62912,37.4762,-89.0324
+62914,37.0401,-89.2043
+62915,37.7844,-89.1221
+62916,37.9433,-89.5788
+62917,37.6934,-88.6516
+62918,37.7864,-89.0862
+62919,37.5240,-88.1384
+62920,37.5536,-89.2321
+62921,37.7986,-89.0828
+62922,37.6208,-88.8148
+62923,37.3421,-89.0354
+62924,37.8151,-89.1955
+62926,37.3667,-89.1314
+62927,37.9435,-89.2520
+62928,37.4754,-88.5672
+62930,37.8472,-88.4416
+62931,37.5237,-88.2751
+62932,37.8929,-89.2137
+62933,37.7724,-89.0196
+62934,37.7072,-88.3586
+62935,37.8448,-88.6386
+62938,37.3841,-88.5460
+62939,37.5462,-88.9767
+62940,37.7316,-89.4606
+62941,37.2445,-88.9702
+62942,37.6358,-89.4736
+62943,37.3563,-88.7461
+62946,37.7008,-88.5203
+62947,37.5287,-88.4540
+62948,37.8199,-89.0260
+62949,37.8279,-89.1446
+62950,37.7464,-89.5607
+62951,37.8257,-88.9273
+62952,37.4175,-89.3435
+62953,37.2092,-88.8470
+62954,37.6963,-88.2734
+62956,37.2800,-88.9314
+62957,37.3125,-89.4261
+62958,37.6107,-89.1422
+62959,37.7112,-88.9146
+62960,37.2335,-88.7240
+62961,37.3409,-89.2531
+62962,37.0754,-89.3359
+62963,37.0946,-89.1699
+62964,37.1303,-89.2266
+62965,37.7673,-88.5183
+62966,37.7712,-89.3533
+62967,37.5843,-88.7358
+62969,37.1397,-89.3337
+62970,37.2215,-89.1086
+62972,37.5407,-88.8161
+62974,37.7795,-88.7967
+62975,37.6406,-89.3712
+62976,37.2198,-89.2127
+62977,37.8532,-88.5419
+62979,37.8115,-88.2336
+62982,37.4248,-88.3653
+62983,37.8993,-89.1048
+62984,37.7540,-88.1462
+62985,37.4675,-88.6859
+62987,37.6187,-88.6604
+62988,37.2261,-89.2947
+62990,37.2286,-89.3988
+62992,37.2761,-89.1419
+62994,37.9063,-89.3474
+62995,37.4193,-88.8799
+62996,37.1751,-89.1558
+62997,37.9836,-89.5905
+62998,37.5121,-89.4581
+62999,37.8695,-89.0564
+63005,38.6442,-90.6514
+63010,38.4304,-90.3921
+63011,38.6052,-90.5577
+63012,38.3474,-90.4535
+63013,38.4052,-91.1526
+63014,38.6518,-91.3134
+63015,38.3959,-90.7520
+63016,38.3565,-90.6510
+63017,38.6563,-90.5419
+63019,38.2313,-90.3750
+63020,38.1071,-90.5716
+63021,38.5698,-90.5457
+63023,38.2686,-90.6988
+63025,38.4909,-90.6157
+63026,38.5031,-90.4585
+63028,38.1429,-90.3921
+63030,38.1432,-90.7522
+63031,38.8120,-90.3536
+63033,38.7984,-90.2742
+63034,38.8454,-90.2885
+63036,37.9763,-90.3721
+63037,38.4224,-91.3195
+63038,38.5771,-90.6678
+63039,38.4917,-90.8437
+63040,38.5737,-90.6344
+63041,38.2860,-90.7736
+63042,38.7813,-90.3791
+63043,38.7292,-90.4550
+63044,38.7729,-90.4298
+63045,38.7696,-90.4640
+63047,38.1955,-90.4874
+63048,38.2604,-90.3924
+63049,38.4780,-90.5286
+63050,38.2581,-90.5798
+63051,38.3778,-90.5766
+63052,38.3930,-90.4326
+63053,38.3665,-90.3640
+63055,38.5296,-90.8350
+63056,38.3996,-91.2150
+63060,38.2606,-90.8760
+63061,38.2734,-90.8105
+63068,38.5659,-91.2441
+63069,38.4787,-90.7004
+63070,38.2876,-90.4212
+63071,38.1500,-90.8211
+63072,38.3695,-90.8178
+63073,38.5847,-90.7695
+63074,38.7264,-90.3889
+63077,38.3290,-90.9845
+63079,38.2663,-91.1001
+63080,38.2141,-91.0781
+63084,38.4219,-91.0193
+63087,38.0051,-90.4636
+63088,38.5486,-90.5017
+63089,38.4605,-90.8789
+63090,38.5355,-91.0487
+63091,38.3629,-91.3873
+63101,38.6314,-90.1928
+63102,38.6345,-90.1863
+63103,38.6298,-90.2171
+63104,38.6111,-90.2141
+63105,38.6443,-90.3281
+63106,38.6444,-90.2080
+63107,38.6637,-90.2120
+63108,38.6448,-90.2534
+63109,38.5846,-90.2944
+63110,38.6254,-90.2665
+63111,38.5581,-90.2500
+63112,38.6599,-90.2833
+63113,38.6580,-90.2476
+63114,38.7023,-90.3637
+63115,38.6819,-90.2402
+63116,38.5800,-90.2651
+63117,38.6308,-90.3304
+63118,38.5923,-90.2250
+63119,38.5901,-90.3499
+63120,38.6906,-90.2621
+63121,38.7081,-90.3006
+63122,38.5794,-90.4209
+63123,38.5474,-90.3281
+63124,38.6366,-90.3747
+63125,38.5194,-90.2927
+63126,38.5496,-90.3787
+63127,38.5345,-90.4174
+63128,38.4920,-90.3866
+63129,38.4578,-90.3191
+63130,38.6649,-90.3249
+63131,38.6167,-90.4396
+63132,38.6761,-90.3774
+63133,38.6823,-90.3067
+63134,38.7402,-90.3458
+63135,38.7510,-90.2995
+63136,38.7448,-90.2599
+63137,38.7497,-90.2130
+63138,38.8011,-90.1924
+63139,38.6104,-90.2918
+63140,38.7394,-90.3240
+63141,38.6580,-90.4554
+63143,38.6117,-90.3214
+63144,38.6194,-90.3482
+63146,38.7010,-90.4803
+63147,38.6938,-90.2153
+63155,38.6279,-90.2055
+63301,38.8580,-90.4633
+63303,38.7398,-90.5437
+63304,38.7061,-90.6860
+63330,39.2600,-90.7904
+63332,38.5969,-90.8940
+63333,39.0353,-91.3204
+63334,39.3084,-91.1916
+63336,39.3318,-90.9340
+63339,39.3300,-91.3548
+63341,38.6606,-90.8068
+63343,39.1548,-90.8282
+63344,39.2294,-91.0091
+63345,39.2769,-91.5727
+63347,39.0655,-90.7692
+63348,38.7854,-90.9452
+63349,38.9837,-91.1506
+63350,38.9042,-91.3514
+63351,38.8582,-91.3105
+63352,39.2478,-91.6589
+63353,39.4540,-91.1130
+63357,38.6478,-91.1038
+63359,39.1596,-91.3439
+63361,38.9556,-91.5601
+63362,38.9358,-90.8955
+63363,38.8854,-91.4647
+63365,38.7096,-90.8734
+63366,38.8575,-90.7253
+63367,38.7742,-90.7951
+63368,38.7515,-90.7284
+63369,38.9384,-90.7764
+63373,38.9295,-90.3853
+63376,38.8007,-90.6121
+63377,39.1072,-91.0962
+63379,39.0010,-90.9956
+63380,38.8131,-91.1221
+63381,38.9864,-91.2533
+63382,39.3113,-91.4905
+63383,38.8044,-91.1937
+63384,39.0925,-91.5536
+63385,38.7970,-90.8572
+63386,38.8702,-90.2195
+63387,39.1836,-91.0167
+63388,38.8751,-91.7571
+63389,39.0005,-90.7728
+63390,38.8034,-91.0401
+63401,39.6899,-91.4662
+63430,40.3881,-91.5291
+63431,39.7473,-92.3122
+63432,40.4972,-91.9939
+63433,39.5113,-91.1169
+63434,39.9098,-91.9472
+63435,40.1991,-91.5837
+63436,39.5007,-91.5400
+63437,39.7239,-92.2365
+63438,39.9685,-91.6880
+63439,39.8038,-91.8596
+63440,39.9686,-91.7414
+63441,39.4826,-91.3212
+63443,39.6606,-91.8695
+63445,40.3950,-91.7232
+63446,40.1400,-92.0023
+63447,40.0944,-91.9089
+63448,40.0160,-91.5421
+63450,39.6689,-92.1503
+63451,39.9175,-92.2060
+63452,40.0929,-91.7806
+63453,40.4942,-91.8644
+63454,39.9230,-91.6504
+63456,39.6538,-91.7266
+63457,40.1658,-91.7119
+63458,39.9925,-92.0199
+63459,39.5845,-91.3823
+63460,40.0051,-92.2093
+63461,39.8022,-91.5555
+63462,39.4192,-91.7011
+63463,39.8515,-91.7811
+63465,40.5276,-91.6795
+63466,40.2662,-91.6186
+63467,39.6485,-91.2673
+63468,39.6797,-92.0186
+63469,39.8259,-92.0412
+63471,39.9263,-91.4968
+63472,40.4053,-91.5773
+63473,40.2517,-91.7688
+63474,40.3498,-91.8936
+63501,40.1663,-92.5912
+63530,39.9062,-92.4437
+63531,40.3003,-92.2410
+63532,39.7666,-92.5719
+63533,40.1998,-92.3922
+63534,39.7373,-92.6484
+63535,40.5807,-92.6745
+63536,40.4853,-92.3559
+63537,40.1445,-92.1571
+63538,39.9539,-92.6799
+63539,39.9256,-92.7689
+63540,40.0983,-92.3979
+63541,40.5042,-92.6270
+63543,40.3524,-92.0141
+63544,40.2434,-92.8502
+63545,40.2647,-92.9680
+63546,40.3379,-92.5025
+63547,40.1358,-92.2977
+63548,40.5364,-92.4892
+63549,40.0172,-92.4910
+63551,40.4992,-92.7425
+63552,39.7532,-92.4503
+63555,40.4864,-92.1932
+63556,40.1761,-93.1123
+63557,39.9828,-92.8784
+63558,39.7488,-92.7514
+63559,40.2427,-92.7669
+63560,40.3672,-93.1154
+63561,40.4106,-92.5347
+63563,40.3050,-92.0729
+63565,40.4806,-92.9473
+63566,40.0296,-92.9523
+63567,40.4133,-92.7046
+63601,37.8211,-90.5439
+63620,37.3817,-90.6519
+63621,37.4750,-90.5660
+63622,37.7910,-90.9074
+63623,37.6793,-90.9064
+63624,37.7556,-90.6339
+63625,37.5634,-90.9976
+63626,38.0727,-90.7098
+63627,38.0383,-90.2522
+63628,37.9346,-90.5342
+63629,37.3806,-91.2394
+63630,38.0279,-90.7194
+63631,37.7546,-90.7880
+63633,37.4426,-91.0201
+63636,37.2936,-90.5755
+63637,37.7123,-90.5183
+63638,37.2149,-91.0191
+63640,37.7551,-90.3690
+63645,37.5434,-90.3260
+63648,37.8153,-90.7010
+63650,37.6110,-90.6305
+63653,37.8613,-90.5879
+63654,37.4872,-90.8575
+63655,37.3889,-90.1870
+63656,37.5966,-90.7928
+63660,37.9158,-90.7064
+63662,37.5384,-90.0503
+63663,37.6254,-90.6479
+63664,37.9172,-90.9142
+63665,37.2929,-90.8439
+63670,37.9040,-90.1645
+63673,37.8418,-89.9911
+63674,38.0367,-90.6592
+63675,37.3145,-90.6948
+63701,37.3323,-89.5857
+63703,37.2749,-89.5400
+63730,37.0930,-89.9219
+63732,37.5941,-89.5759
+63735,36.9791,-89.7852
+63736,37.0838,-89.5199
+63738,37.0898,-89.9572
+63739,37.3586,-89.8003
+63740,37.1754,-89.6807
+63742,37.1600,-89.4470
+63743,37.5191,-89.8234
+63744,37.1933,-89.7183
+63745,37.2559,-89.6595
+63746,37.7078,-89.6948
+63747,37.5558,-89.8175
+63748,37.6622,-89.6101
+63750,37.1502,-90.1630
+63751,37.2758,-90.1282
+63755,37.4395,-89.6408
+63758,37.1921,-89.5505
+63760,37.2574,-89.8992
+63763,37.0641,-90.1733
+63764,37.3286,-89.9696
+63766,37.4419,-89.8501
+63767,37.0436,-89.6104
+63769,37.5276,-89.7526
+63770,37.5946,-89.7004
+63771,37.0756,-89.7148
+63774,37.0943,-89.7747
+63775,37.7113,-89.8775
+63780,37.1764,-89.4959
+63781,37.5275,-89.9262
+63782,37.1221,-90.0353
+63783,37.6095,-89.6823
+63784,36.9950,-89.6960
+63785,37.2668,-89.8222
+63787,37.1212,-90.1329
+63801,36.9049,-89.6185
+63820,36.8243,-89.3256
+63821,36.0493,-90.2389
+63822,36.6605,-89.9989
+63823,36.8856,-89.4450
+63824,37.0049,-89.5265
+63825,36.9314,-89.9458
+63826,36.1871,-89.8490
+63827,36.2612,-89.8957
+63828,36.7504,-89.6918
+63829,36.0355,-90.3089
+63830,36.1354,-89.6901
+63833,36.6503,-89.7308
+63834,36.9143,-89.2742
+63837,36.4503,-89.9865
+63839,36.0475,-89.8096
+63840,36.1916,-89.8842
+63841,36.7713,-89.9845
+63845,36.7118,-89.3147
+63846,36.8263,-89.7993
+63847,36.4427,-90.0347
+63848,36.4370,-89.8884
+63849,36.1397,-89.9912
+63850,36.8224,-89.7821
+63851,36.2592,-89.7172
+63852,36.3673,-90.0152
+63853,36.0583,-89.8674
+63855,36.0691,-90.0568
+63857,36.2243,-90.0458
+63860,36.6782,-89.5921
+63862,36.5901,-89.6779
+63863,36.5630,-89.9770
+63866,36.5285,-89.6056
+63867,36.7501,-89.5516
+63868,36.8458,-89.6897
+63869,36.6075,-89.4952
+63870,36.6213,-89.8440
+63873,36.4307,-89.6615
+63874,36.5617,-89.8137
+63876,36.1323,-90.1649
+63877,36.0795,-89.8492
+63878,36.5030,-89.8224
+63879,36.3595,-89.8127
+63880,36.3300,-90.0259
+63882,36.9164,-89.2197
+63901,36.7710,-90.4515
+63932,36.6871,-90.2450
+63933,36.5192,-90.1119
+63934,37.1986,-90.3687
+63935,36.6752,-90.9215
+63936,36.8089,-90.1290
+63937,36.9538,-90.7534
+63939,36.6841,-90.6893
+63940,36.7680,-90.2277
+63941,36.8806,-91.1771
+63942,36.5540,-91.0742
+63943,36.8349,-90.8012
+63944,37.1132,-90.3595
+63945,36.6386,-90.5494
+63950,37.2629,-90.4149
+63951,37.1149,-90.2579
+63952,37.0099,-90.6427
+63953,36.5872,-90.6377
+63954,36.5674,-90.4703
+63955,36.6021,-90.6787
+63956,37.2140,-90.5217
+63957,37.1419,-90.6923
+63960,36.9569,-90.1315
+63961,36.5672,-90.2771
+63962,36.8440,-90.2815
+63964,37.2397,-90.4027
+63965,36.9652,-91.0213
+63966,36.9707,-90.2615
+63967,36.9407,-90.4853
+64001,39.1012,-93.5366
+64011,38.9598,-94.0679
+64012,38.7884,-94.5519
+64014,39.0094,-94.2565
+64015,39.0207,-94.3017
+64016,39.1129,-94.2148
+64017,39.1997,-94.0325
+64018,39.4547,-94.7213
+64019,38.7775,-93.8653
+64020,38.9674,-93.5998
+64021,39.1126,-93.6257
+64022,39.2017,-93.6722
+64024,39.3272,-94.2273
+64028,39.2852,-94.8323
+64029,39.0059,-94.2164
+64030,38.8814,-94.5227
+64034,38.8586,-94.2976
+64035,39.2905,-93.8122
+64036,39.2006,-93.9351
+64037,39.0466,-93.7338
+64040,38.7193,-93.9878
+64048,39.4378,-94.3636
+64050,39.1158,-94.4106
+64052,39.0736,-94.4509
+64053,39.1076,-94.4647
+64054,39.1175,-94.4409
+64055,39.0508,-94.3980
+64056,39.1131,-94.3149
+64057,39.0720,-94.3193
+64058,39.1739,-94.3136
+64060,39.3710,-94.3688
+64061,38.7867,-94.0844
+64062,39.4565,-94.1779
+64063,38.9122,-94.3534
+64064,38.9830,-94.3432
+64065,38.9522,-94.4044
+64066,39.1396,-94.1385
+64067,39.1543,-93.8360
+64068,39.2583,-94.3897
+64070,38.8866,-94.1489
+64071,39.0278,-93.8317
+64072,39.2406,-94.2996
+64074,39.0837,-94.0713
+64075,38.9996,-94.1453
+64076,38.9832,-93.9481
+64077,39.2246,-94.1391
+64078,38.7084,-94.4716
+64079,39.3638,-94.7933
+64080,38.7642,-94.2604
+64081,38.9106,-94.4114
+64082,38.8622,-94.4083
+64083,38.8020,-94.4488
+64084,39.3857,-94.0694
+64085,39.3433,-93.9554
+64086,38.8992,-94.2724
+64088,39.1675,-94.1832
+64089,39.3900,-94.5650
+64090,38.7600,-94.1639
+64092,39.2176,-94.8111
+64093,38.7926,-93.7309
+64096,39.1968,-93.5579
+64097,39.1137,-93.9904
+64098,39.4681,-94.8915
+64101,39.1035,-94.6006
+64102,39.0943,-94.6032
+64105,39.1062,-94.5906
+64106,39.1053,-94.5701
+64108,39.0849,-94.5865
+64109,39.0658,-94.5676
+64110,39.0345,-94.5726
+64111,39.0571,-94.5939
+64112,39.0360,-94.5952
+64113,39.0141,-94.5955
+64114,38.9578,-94.5986
+64116,39.1488,-94.5752
+64117,39.1644,-94.5227
+64118,39.2129,-94.5740
+64119,39.2100,-94.5147
+64120,39.1350,-94.5150
+64123,39.1144,-94.5218
+64124,39.1071,-94.5391
+64125,39.1065,-94.4942
+64126,39.0911,-94.4960
+64127,39.0891,-94.5384
+64128,39.0655,-94.5348
+64129,39.0490,-94.4974
+64130,39.0348,-94.5420
+64131,38.9598,-94.5720
+64132,38.9797,-94.5415
+64133,39.0139,-94.4577
+64134,38.9310,-94.4872
+64136,39.0128,-94.4057
+64137,38.9316,-94.5429
+64138,38.9673,-94.4709
+64139,38.9671,-94.4047
+64145,38.8780,-94.5962
+64146,38.8830,-94.5719
+64147,38.8518,-94.5546
+64149,38.8655,-94.4716
+64150,39.1722,-94.6325
+64151,39.2154,-94.6301
+64152,39.2191,-94.7247
+64153,39.2746,-94.7266
+64154,39.2813,-94.6269
+64155,39.2812,-94.5678
+64156,39.2737,-94.5178
+64157,39.2769,-94.4706
+64158,39.2344,-94.4829
+64161,39.1586,-94.4509
+64163,39.3445,-94.6882
+64164,39.3294,-94.6271
+64165,39.3208,-94.5775
+64166,39.3222,-94.5230
+64167,39.3191,-94.4820
+64401,39.6334,-94.7155
+64402,40.2517,-94.3231
+64420,40.4865,-94.2892
+64421,39.9084,-94.9276
+64422,39.8948,-94.4940
+64423,40.1929,-94.8517
+64424,40.2647,-94.0322
+64426,40.5167,-93.8610
+64427,40.1086,-94.8463
+64428,40.4231,-95.0883
+64429,39.7367,-94.2258
+64430,39.8390,-94.5655
+64431,40.5282,-94.9963
+64432,40.2640,-94.6612
+64433,40.2388,-94.6809
+64434,40.2584,-94.7362
+64436,39.8517,-94.6912
+64437,40.1400,-95.3634
+64438,40.1586,-94.4138
+64439,39.5244,-94.7534
+64440,39.5851,-94.9103
+64441,40.3929,-94.2713
+64442,40.4972,-94.0055
+64443,39.7429,-94.6532
+64444,39.4854,-94.6480
+64445,40.5402,-95.1491
+64446,40.3239,-95.3991
+64448,39.6039,-94.8273
+64449,40.0412,-94.9785
+64451,39.9940,-95.2126
+64453,40.3447,-94.4695
+64454,39.6078,-94.5938
+64455,40.1807,-95.0051
+64456,40.4931,-94.3911
+64457,40.1627,-94.6824
+64458,40.5150,-94.1452
+64459,39.9287,-94.6450
+64461,40.5144,-94.8073
+64463,40.0626,-94.4826
+64465,39.5504,-94.2885
+64466,40.1662,-95.1063
+64467,40.3917,-94.1767
+64468,40.3427,-94.8812
+64469,39.9328,-94.3571
+64470,40.1734,-95.2267
+64471,40.2657,-94.1936
+64473,39.9793,-95.0762
+64474,39.7544,-94.3797
+64475,40.4364,-94.6294
+64476,40.4530,-94.8306
+64477,39.5755,-94.4529
+64479,40.3381,-94.6709
+64480,40.0541,-94.7055
+64481,40.3539,-93.8877
+64482,40.4475,-95.5563
+64483,40.0389,-94.8391
+64484,39.5612,-95.0171
+64485,39.9542,-94.8163
+64486,40.5375,-94.6130
+64487,40.3009,-95.0959
+64489,40.2342,-94.5482
+64490,39.7420,-94.5148
+64491,40.4460,-95.3581
+64492,39.4819,-94.5444
+64493,39.6306,-94.3045
+64494,39.9907,-94.6096
+64496,40.4981,-95.6220
+64497,39.9295,-94.2199
+64498,40.5403,-95.3125
+64499,40.3971,-94.4153
+64501,39.7662,-94.8444
+64503,39.7493,-94.8457
+64504,39.6912,-94.9059
+64505,39.8467,-94.8239
+64506,39.7899,-94.8033
+64507,39.7369,-94.7404
+64601,39.8054,-93.5791
+64620,39.8945,-94.0900
+64622,39.4926,-93.5427
+64623,39.4698,-93.3333
+64624,39.5757,-93.7829
+64625,39.7440,-93.8029
+64628,39.7936,-93.0479
+64630,40.0377,-93.1569
+64631,39.8373,-92.8828
+64632,40.4690,-93.7668
+64633,39.3600,-93.4819
+64635,39.9528,-93.4339
+64636,40.1281,-93.9827
+64637,39.5757,-93.9174
+64638,39.6176,-93.6201
+64639,39.4004,-93.2157
+64640,39.8982,-93.9360
+64641,40.1645,-93.4020
+64642,40.1708,-93.8364
+64643,39.6130,-93.3692
+64644,39.7391,-93.9708
+64645,40.3001,-93.3223
+64646,40.0990,-93.3090
+64647,40.0264,-93.9673
+64648,39.9892,-93.7902
+64649,39.7733,-94.0864
+64650,39.6379,-94.0537
+64651,39.7769,-93.1819
+64652,40.0215,-93.4182
+64653,39.8951,-93.1941
+64654,39.8486,-93.7756
+64655,40.4465,-93.2575
+64656,39.6769,-93.6928
+64657,40.1323,-94.2076
+64658,39.6630,-92.9173
+64659,39.7815,-93.2898
+64660,39.5767,-93.0972
+64661,40.5361,-93.5175
+64664,39.7497,-93.6513
+64667,40.4004,-93.3448
+64668,39.3551,-93.7044
+64670,40.0526,-94.1403
+64671,39.5319,-94.0508
+64672,40.5389,-93.2497
+64673,40.3743,-93.5869
+64674,39.9676,-93.1570
+64676,39.6462,-93.0301
+64679,40.2372,-93.5808
+64681,39.6493,-93.2133
+64682,39.5495,-93.4952
+64683,40.0738,-93.6035
+64686,39.7487,-93.6238
+64688,39.8124,-93.3693
+64689,39.8752,-94.1512
+64701,38.6245,-94.3293
+64720,38.4043,-94.3358
+64722,38.2765,-94.5545
+64723,38.3616,-94.5596
+64724,38.1532,-94.0066
+64725,38.4907,-94.3727
+64726,38.5272,-93.9219
+64728,37.6989,-94.5178
+64730,38.2560,-94.2838
+64733,38.5846,-93.8275
+64734,38.6547,-94.5593
+64735,38.3724,-93.7273
+64738,37.9017,-93.6517
+64739,38.5113,-94.0966
+64740,38.2275,-93.7030
+64741,37.8182,-94.5623
+64742,38.5081,-94.5412
+64743,38.6637,-94.2140
+64744,37.8482,-93.9789
+64745,38.1513,-94.5077
+64746,38.6021,-94.4967
+64747,38.5769,-94.1714
+64748,37.3648,-94.1023
+64750,37.9215,-94.1132
+64752,38.0650,-94.5635
+64755,37.3374,-94.3087
+64756,37.6190,-94.0152
+64759,37.5218,-94.2671
+64761,38.6080,-93.6756
+64762,37.5467,-94.5015
+64763,38.1440,-93.7115
+64765,37.9968,-94.4425
+64767,37.7374,-94.2015
+64769,37.4932,-94.5482
+64770,38.2815,-93.9895
+64771,37.7727,-94.4634
+64772,37.8251,-94.3335
+64776,38.0423,-93.6754
+64778,37.9194,-94.4792
+64779,38.0920,-94.3962
+64780,38.0592,-94.0470
+64781,37.9766,-93.8175
+64783,37.9998,-94.1053
+64784,37.6647,-94.2342
+64788,38.4239,-94.0195
+64790,37.9193,-94.2222
+64801,37.1069,-94.4976
+64804,37.0199,-94.5109
+64830,37.2308,-94.4106
+64831,36.6591,-94.4568
+64832,37.3402,-94.5736
+64833,37.1938,-94.1298
+64834,37.1857,-94.5728
+64835,37.1475,-94.4383
+64836,37.1893,-94.2793
+64840,37.0201,-94.3429
+64841,37.0787,-94.4110
+64842,36.7890,-94.1060
+64843,36.7335,-94.4532
+64844,36.9109,-94.2396
+64847,36.5922,-94.4386
+64848,37.1853,-93.9953
+64849,37.2544,-94.4453
+64850,36.8605,-94.4017
+64854,36.5497,-94.4376
+64855,37.3369,-94.5130
+64856,36.5493,-94.2522
+64857,37.2459,-94.4386
+64858,36.9009,-94.5305
+64859,37.1642,-94.1134
+64861,36.6954,-94.1541
+64862,37.1007,-94.1195
+64863,36.5594,-94.5833
+64865,36.8427,-94.5813
+64866,36.8696,-94.1564
+64867,36.7245,-94.2347
+64868,36.6875,-94.6128
+64870,37.1829,-94.4778
+64873,37.0107,-94.0538
+64874,36.7521,-94.0530
+65001,38.2776,-92.0048
+65010,38.7878,-92.2420
+65011,38.4023,-92.7103
+65013,38.2699,-91.7521
+65014,38.3228,-91.6246
+65016,38.5607,-91.9191
+65017,38.0923,-92.4945
+65018,38.6201,-92.5641
+65020,38.0062,-92.7806
+65023,38.6539,-92.3963
+65024,38.6300,-91.7747
+65025,38.6671,-92.6993
+65026,38.3244,-92.5648
+65032,38.3476,-92.3831
+65034,38.5597,-92.8181
+65035,38.3638,-91.9470
+65037,38.2434,-92.8491
+65039,38.7111,-92.2966
+65040,38.3483,-92.2846
+65041,38.6330,-91.4898
+65043,38.6230,-92.1023
+65046,38.7759,-92.4776
+65047,38.1509,-92.5784
+65048,38.3731,-92.0406
+65049,38.2000,-92.6745
+65050,38.5218,-92.6864
+65051,38.4625,-91.7980
+65052,38.0764,-92.7055
+65053,38.5412,-92.3696
+65054,38.4840,-91.9469
+65058,38.2695,-92.1307
+65059,38.7013,-91.8882
+65061,38.5942,-91.6349
+65062,38.5012,-91.6597
+65063,38.7259,-92.0875
+65064,38.4028,-92.4714
+65065,38.1320,-92.6699
+65066,38.3454,-91.4905
+65067,38.7446,-91.7281
+65068,38.8286,-92.5981
+65069,38.7575,-91.6083
+65072,38.2668,-92.7293
+65074,38.4843,-92.4681
+65075,38.2373,-92.2506
+65076,38.3795,-92.1941
+65077,38.7696,-91.8185
+65078,38.3811,-93.0360
+65079,38.1559,-92.7520
+65080,38.6363,-91.9789
+65081,38.6340,-92.7799
+65082,38.2193,-92.4214
+65083,38.1475,-92.4436
+65084,38.4380,-92.8554
+65085,38.4057,-92.0838
+65101,38.4974,-92.1332
+65109,38.5735,-92.2768
+65201,38.9009,-92.2384
+65202,39.0172,-92.2978
+65203,38.8959,-92.3959
+65215,38.9517,-92.3204
+65216,38.9582,-92.3263
+65230,39.2906,-92.6813
+65231,39.0178,-91.9078
+65232,39.1607,-91.7560
+65233,38.9107,-92.7239
+65236,39.4484,-93.0887
+65237,38.7676,-92.7946
+65239,39.5330,-92.4208
+65240,39.2200,-92.1311
+65243,39.2752,-92.3506
+65244,39.4848,-92.6595
+65246,39.3702,-92.9939
+65247,39.6351,-92.4709
+65248,39.1386,-92.6601
+65250,39.0301,-92.8401
+65251,38.8500,-91.9788
+65254,39.2116,-92.8461
+65255,39.1024,-92.2184
+65256,39.1216,-92.4556
+65257,39.2871,-92.5338
+65258,39.5261,-92.1382
+65259,39.4753,-92.5637
+65260,39.5933,-92.4005
+65261,39.4624,-92.9160
+65262,38.9601,-91.9553
+65263,39.4481,-92.2181
+65264,39.0883,-91.6856
+65265,39.2034,-91.8854
+65270,39.4136,-92.3949
+65274,39.0155,-92.6855
+65275,39.4531,-91.9950
+65276,38.8527,-92.9579
+65278,39.3421,-92.4122
+65279,38.9944,-92.5450
+65280,39.2336,-91.7546
+65281,39.4661,-92.7880
+65282,39.3825,-91.8398
+65283,39.5093,-91.8275
+65284,39.1868,-92.3042
+65285,39.2717,-91.9998
+65286,39.5078,-93.2203
+65287,38.8837,-92.5223
+65301,38.6991,-93.2213
+65305,38.7331,-93.5532
+65320,39.0664,-92.9460
+65321,39.0753,-93.4475
+65322,38.9698,-92.9664
+65323,38.4535,-93.6163
+65324,38.0971,-93.0097
+65325,38.4395,-93.1888
+65326,38.1658,-93.1392
+65327,38.9765,-93.4841
+65329,38.6021,-92.9570
+65330,39.2227,-92.9506
+65332,38.6198,-93.4135
+65333,38.9008,-93.3199
+65334,38.8382,-93.2461
+65335,38.5137,-93.3228
+65336,38.7852,-93.5575
+65337,38.7945,-93.4314
+65338,38.3572,-93.3059
+65339,39.1888,-93.3716
+65340,39.0885,-93.1759
+65344,39.3190,-93.2042
+65345,38.5379,-93.1269
+65347,38.9810,-93.0463
+65348,38.7124,-92.9899
+65349,39.2338,-93.0536
+65350,38.6548,-93.1030
+65351,38.9945,-93.3814
+65354,38.6436,-92.8860
+65355,38.2195,-93.3670
+65360,38.5202,-93.5146
+65401,37.8992,-91.7685
+65409,37.9510,-91.7795
+65436,37.6238,-91.9636
+65438,36.9313,-91.5011
+65439,37.6649,-91.0942
+65440,37.5992,-91.1906
+65441,38.0964,-91.1590
+65443,38.1317,-92.0946
+65444,37.3778,-92.0538
+65446,37.8109,-91.2698
+65449,37.8520,-91.4947
+65452,37.9671,-92.2663
+65453,38.1075,-91.4270
+65456,37.7846,-91.1898
+65457,37.8238,-92.0510
+65459,38.0297,-92.0967
+65461,37.6871,-92.0238
+65462,37.6847,-91.8646
+65463,37.8477,-92.7833
+65464,37.1866,-91.8998
+65466,37.2113,-91.3864
+65468,37.2544,-91.7983
+65470,37.5474,-92.4018
+65473,37.7099,-92.1479
+65479,37.3420,-91.6361
+65483,37.2990,-91.9551
+65484,37.3562,-92.2270
+65486,38.1032,-92.3067
+65501,37.4546,-91.5415
+65529,37.9291,-91.9891
+65534,37.7008,-92.2604
+65535,38.0700,-91.2742
+65536,37.6917,-92.6479
+65541,37.6437,-91.7587
+65542,37.4957,-91.8837
+65543,37.4539,-92.2902
+65548,37.0057,-91.7120
+65550,37.8441,-91.9437
+65552,37.4980,-92.1723
+65555,37.3622,-91.7782
+65556,37.8354,-92.4037
+65557,37.5168,-92.1446
+65559,38.0169,-91.6145
+65560,37.5966,-91.5039
+65564,37.2326,-91.9564
+65565,37.8965,-91.2393
+65566,37.8086,-91.1615
+65567,37.8495,-92.5400
+65570,37.4526,-92.0948
+65571,37.1866,-91.6448
+65580,38.1165,-91.7899
+65582,38.2042,-91.9264
+65583,37.8284,-92.2576
+65584,37.8289,-92.1312
+65586,37.8648,-91.4330
+65588,36.9663,-91.2936
+65589,37.2373,-91.8274
+65590,37.6366,-92.9753
+65591,37.9794,-92.5908
+65601,37.5300,-93.5857
+65603,37.5335,-93.8565
+65604,37.2699,-93.5985
+65605,36.9897,-93.7397
+65606,36.6972,-91.3594
+65608,36.9021,-92.6673
+65609,36.5268,-92.1770
+65610,37.0423,-93.5253
+65611,36.5498,-93.3721
+65612,37.2138,-93.5388
+65613,37.6409,-93.3874
+65614,36.7337,-92.8971
+65616,36.6707,-93.2488
+65617,37.4376,-93.3347
+65618,36.7595,-92.3671
+65619,37.1225,-93.3866
+65620,37.0175,-92.9557
+65622,37.6352,-93.1102
+65623,36.7489,-93.9066
+65624,36.7316,-93.5612
+65625,36.6741,-93.8165
+65626,36.5878,-92.1131
+65627,36.5670,-93.0329
+65629,36.8915,-93.0005
+65630,36.8382,-93.2263
+65631,37.0007,-93.4240
+65632,37.4990,-92.8160
+65633,36.8991,-93.5360
+65634,38.0154,-93.1946
+65635,37.5317,-93.7171
+65637,36.7764,-92.1908
+65638,36.8331,-92.3303
+65640,37.6985,-93.5668
+65641,36.5440,-93.7710
+65644,37.5108,-93.0380
+65646,37.3334,-93.7032
+65647,36.6930,-94.0071
+65648,37.4088,-93.1665
+65649,37.6173,-93.6232
+65650,37.8140,-93.4419
+65652,37.1331,-92.9500
+65653,36.8409,-93.1403
+65654,37.0217,-93.8975
+65655,36.6031,-92.4196
+65656,36.7938,-93.4678
+65657,36.8394,-93.0182
+65658,36.5467,-93.6381
+65660,37.3239,-92.2707
+65661,37.4563,-93.8291
+65662,37.4191,-92.5723
+65663,37.6302,-93.2460
+65664,37.1981,-93.6152
+65666,36.5748,-92.3605
+65667,37.3085,-92.5140
+65668,37.9307,-93.2882
+65669,36.9155,-93.2956
+65672,36.5604,-93.2195
+65674,37.7912,-93.6082
+65675,36.9309,-93.4924
+65676,36.5780,-92.5990
+65679,36.5742,-93.0949
+65680,36.6420,-92.9817
+65681,36.5456,-93.4687
+65682,37.4162,-93.9796
+65685,37.7537,-93.1511
+65686,36.6269,-93.4438
+65688,36.6493,-91.6933
+65689,37.1358,-92.0908
+65690,36.5923,-91.2645
+65692,36.6215,-91.6503
+65702,37.0533,-92.4854
+65704,37.1276,-92.5861
+65705,37.0924,-93.6233
+65706,37.3228,-92.8986
+65707,37.2337,-93.8433
+65708,36.9109,-93.9088
+65710,37.4856,-93.4211
+65711,37.1764,-92.2757
+65712,37.1108,-93.8060
+65713,37.4057,-92.7392
+65714,37.0410,-93.3207
+65715,36.7314,-92.5740
+65717,37.0604,-92.4160
+65720,36.9476,-92.9625
+65721,36.9805,-93.2094
+65722,37.5890,-92.8077
+65723,36.9531,-94.0484
+65724,37.8405,-93.3162
+65725,37.4297,-93.2641
+65726,36.6196,-93.2429
+65727,37.7658,-93.2951
+65728,36.8771,-93.3353
+65729,36.5389,-92.5635
+65730,36.6236,-94.2247
+65731,36.6535,-93.1259
+65732,37.9348,-93.1772
+65733,36.5331,-92.8512
+65734,36.7966,-93.9537
+65735,38.0399,-93.4866
+65737,36.7122,-93.3510
+65738,37.1373,-93.4905
+65739,36.5110,-93.2741
+65740,36.7119,-93.1632
+65741,36.7958,-92.4042
+65742,37.1253,-93.0890
+65744,36.6245,-92.8934
+65745,36.5227,-93.9836
+65746,37.1432,-92.7877
+65747,36.6009,-93.5801
+65752,37.3324,-93.8383
+65753,36.9946,-93.0562
+65754,36.8384,-93.2822
+65755,36.8016,-92.6327
+65756,37.0963,-93.9603
+65757,37.2829,-93.0988
+65759,36.7676,-93.0484
+65760,36.6163,-92.2768
+65761,36.5412,-92.7218
+65762,36.6806,-92.6629
+65764,37.8145,-92.9487
+65766,36.5361,-92.2686
+65767,37.8523,-93.1559
+65768,36.9194,-92.2700
+65769,36.9191,-93.7994
+65770,37.4226,-93.5482
+65771,36.7748,-93.2042
+65772,36.5979,-94.0249
+65773,36.7510,-92.5169
+65774,37.9303,-93.4893
+65775,36.7011,-91.8563
+65777,36.5174,-91.9810
+65778,36.5304,-91.2710
+65779,37.9820,-93.3847
+65781,37.3555,-93.4176
+65783,37.7107,-92.9033
+65784,36.7301,-92.2974
+65785,37.7085,-93.8251
+65786,37.9674,-92.9634
+65787,38.0677,-92.8989
+65788,36.8067,-91.6949
+65789,36.8572,-91.8898
+65790,36.7029,-92.1096
+65791,36.5792,-91.4972
+65793,36.9917,-91.9800
+65801,37.2142,-93.2952
+65802,37.2105,-93.3517
+65803,37.2832,-93.2899
+65804,37.1482,-93.2525
+65806,37.2057,-93.2986
+65807,37.1675,-93.3248
+65809,37.1735,-93.1899
+65810,37.1197,-93.3097
+65897,37.1999,-93.2805
+66002,39.5517,-95.1404
+66006,38.7888,-95.2381
+66007,39.1360,-94.9446
+66008,39.7182,-95.1764
+66010,38.0920,-94.9960
+66012,39.0666,-94.9206
+66013,38.7307,-94.6956
+66014,38.2288,-94.9871
+66015,38.0757,-95.4002
+66016,39.4673,-95.2227
+66017,39.7037,-95.2740
+66018,38.9641,-94.9744
+66020,39.3394,-95.1114
+66021,38.7566,-95.0051
+66023,39.5123,-95.3924
+66024,39.7621,-94.8895
+66025,38.8919,-95.0833
+66026,38.3959,-94.8663
+66027,39.3614,-94.9165
+66030,38.8151,-94.9403
+66031,38.8320,-94.8901
+66032,38.2775,-95.2770
+66033,38.3588,-95.1276
+66035,39.8710,-95.2536
+66039,38.1044,-95.1649
+66040,38.3569,-94.7380
+66041,39.6003,-95.3080
+66042,38.4228,-95.0799
+66043,39.2485,-94.9056
+66044,39.0329,-95.2091
+66045,38.9543,-95.2615
+66046,38.9045,-95.2098
+66047,38.8931,-95.3462
+66048,39.2727,-94.9804
+66049,38.9793,-95.3457
+66050,39.0257,-95.4301
+66052,39.0083,-95.0456
+66053,38.5811,-94.6681
+66054,39.2062,-95.1983
+66056,38.1515,-94.8443
+66058,39.5411,-95.5204
+66060,39.4187,-95.3320
+66061,38.8938,-94.8800
+66062,38.8383,-94.7844
+66064,38.4807,-94.9889
+66066,39.2030,-95.3306
+66067,38.6198,-95.2842
+66070,39.2114,-95.4533
+66071,38.5745,-94.8667
+66072,38.3185,-94.9748
+66073,39.0921,-95.3810
+66075,38.2010,-94.6841
+66076,38.6325,-95.4430
+66078,38.4845,-95.2580
+66079,38.5421,-95.1244
+66080,38.4129,-95.2549
+66083,38.7323,-94.8301
+66085,38.8063,-94.6452
+66086,39.1149,-95.0814
+66087,39.8089,-95.1398
+66088,39.3413,-95.4565
+66090,39.7879,-94.9734
+66091,38.1721,-95.3277
+66092,38.6888,-95.1064
+66093,38.2078,-95.4941
+66094,39.9592,-95.3417
+66095,38.4411,-95.4389
+66097,39.3286,-95.2461
+66101,39.1187,-94.6259
+66102,39.1090,-94.6925
+66103,39.0603,-94.6268
+66104,39.1502,-94.6895
+66105,39.0862,-94.6366
+66106,39.0695,-94.7026
+66109,39.1654,-94.8293
+66111,39.0840,-94.7899
+66112,39.1150,-94.7701
+66115,39.1483,-94.6051
+66118,39.1009,-94.6131
+66160,39.0558,-94.6101
+66202,39.0232,-94.6695
+66203,39.0204,-94.7058
+66204,38.9904,-94.6782
+66205,39.0312,-94.6307
+66206,38.9587,-94.6186
+66207,38.9556,-94.6432
+66208,38.9975,-94.6284
+66209,38.9009,-94.6341
+66210,38.9265,-94.7049
+66211,38.9251,-94.6356
+66212,38.9556,-94.6799
+66213,38.8992,-94.7037
+66214,38.9636,-94.7140
+66215,38.9558,-94.7431
+66216,39.0136,-94.7416
+66217,39.0137,-94.7754
+66218,39.0129,-94.8179
+66219,38.9532,-94.7784
+66220,38.9597,-94.8190
+66221,38.8468,-94.7137
+66223,38.8616,-94.6688
+66224,38.8621,-94.6236
+66226,39.0310,-94.8612
+66227,38.9727,-94.8748
+66251,38.9172,-94.6588
+66401,38.9324,-96.3097
+66402,38.9140,-95.8433
+66403,39.8906,-96.2701
+66404,39.8638,-96.1728
+66406,39.8941,-96.4207
+66407,39.2279,-96.1859
+66408,39.9496,-95.9752
+66409,38.9192,-95.5551
+66411,39.6420,-96.6438
+66412,39.9078,-96.7774
+66413,38.7689,-95.8807
+66414,38.8308,-95.6855
+66415,39.6894,-96.1376
+66416,39.5257,-95.8632
+66417,39.6566,-96.0371
+66418,39.2795,-95.9336
+66419,39.3607,-95.5989
+66422,39.3340,-96.0840
+66423,38.8540,-96.1222
+66424,39.6747,-95.4041
+66425,39.8067,-95.7213
+66427,39.6613,-96.4388
+66428,39.6761,-95.9314
+66429,39.0938,-95.5342
+66431,38.8059,-96.0028
+66432,39.4914,-96.0776
+66434,39.8630,-95.5548
+66436,39.4683,-95.7038
+66438,39.8350,-96.5109
+66439,39.6563,-95.5401
+66440,39.2682,-95.6768
+66441,38.9735,-96.8031
+66442,39.0917,-96.7901
+66449,39.3901,-96.8565
+66451,38.6033,-95.6732
+66501,39.0529,-96.2369
+66502,39.1399,-96.5287
+66503,39.2651,-96.6953
+66506,39.1960,-96.5815
+66507,39.0511,-96.0306
+66508,39.8586,-96.6443
+66509,39.3254,-95.7849
+66510,38.4996,-95.6102
+66512,39.2082,-95.5415
+66514,39.1262,-96.8756
+66515,39.9362,-95.7037
+66516,39.6165,-95.7208
+66517,39.1109,-96.7024
+66518,39.9656,-96.5508
+66520,39.4117,-96.6115
+66521,39.4707,-96.2294
+66522,39.8661,-95.9382
+66523,38.6158,-95.8340
+66524,38.7909,-95.5061
+66526,39.0646,-96.1626
+66527,39.7470,-95.6810
+66528,38.6029,-95.5378
+66531,39.3124,-96.8385
+66532,39.8214,-95.3779
+66533,39.1632,-95.9475
+66534,39.8767,-95.8368
+66535,39.2670,-96.4337
+66536,39.2154,-96.0695
+66537,38.7512,-95.7196
+66538,39.8506,-96.0447
+66539,39.1420,-95.8404
+66540,39.4848,-95.9704
+66541,39.9786,-96.3436
+66542,39.0107,-95.5448
+66543,38.6396,-95.5994
+66544,39.6889,-96.2733
+66546,38.8940,-95.7297
+66547,39.2316,-96.2956
+66548,39.6709,-96.7627
+66549,39.4206,-96.4357
+66550,39.6554,-95.8207
+66552,39.5877,-95.6299
+66554,39.4948,-96.7905
+66603,39.0575,-95.6747
+66604,39.0390,-95.7262
+66605,39.0108,-95.6388
+66606,39.0614,-95.7200
+66607,39.0412,-95.6353
+66608,39.0808,-95.6639
+66609,38.9782,-95.6607
+66610,38.9767,-95.8446
+66611,39.0188,-95.6964
+66612,39.0402,-95.6803
+66614,39.0099,-95.8380
+66615,39.0508,-95.8979
+66616,39.0698,-95.6230
+66617,39.1348,-95.6232
+66618,39.1395,-95.7483
+66619,38.9471,-95.6902
+66621,39.0331,-95.7024
+66622,39.0263,-95.7222
+66701,37.8298,-94.7589
+66710,37.5516,-95.6245
+66711,37.6371,-94.6850
+66712,37.5649,-94.7145
+66713,37.0405,-94.7853
+66714,37.6366,-95.6986
+66716,37.9386,-95.0380
+66717,37.6995,-95.6810
+66720,37.6483,-95.4572
+66724,37.3470,-94.8567
+66725,37.1566,-94.8953
+66732,37.8042,-95.1926
+66733,37.5903,-95.2549
+66734,37.6138,-94.8195
+66735,37.5180,-94.7151
+66736,37.5515,-95.8611
+66738,38.0138,-94.7234
+66739,37.1258,-94.6553
+66740,37.4658,-95.3710
+66741,37.7200,-94.6639
+66742,37.9196,-95.3489
+66743,37.5089,-94.8796
+66746,37.6680,-94.9530
+66748,37.7998,-95.4360
+66749,37.9338,-95.4150
+66751,37.9296,-95.2898
+66753,37.3638,-95.0162
+66754,38.0049,-94.8856
+66755,37.9118,-95.1687
+66756,37.5475,-94.6411
+66757,37.4144,-95.6983
+66758,38.0159,-95.5869
+66760,37.3483,-94.6244
+66761,37.9110,-95.5702
+66762,37.3939,-94.7105
+66763,37.4632,-94.6978
+66767,38.0788,-94.7098
+66769,37.8565,-94.8900
+66770,37.0807,-94.7153
+66771,37.4949,-95.1458
+66772,37.7402,-95.1875
+66773,37.2594,-94.8054
+66775,37.7019,-95.1488
+66776,37.4676,-95.4977
+66777,37.7872,-95.9757
+66778,37.0005,-94.8389
+66779,37.8294,-94.9658
+66780,37.6103,-95.0557
+66781,37.2886,-94.7335
+66782,37.2850,-94.9261
+66783,37.8768,-95.7332
+66801,38.4117,-96.2235
+66830,38.5961,-96.0910
+66833,38.6956,-96.1950
+66834,38.8621,-96.4554
+66835,38.5269,-96.2662
+66838,38.5554,-96.8007
+66839,38.2174,-95.7481
+66840,38.0769,-96.8767
+66842,38.0248,-96.6570
+66843,38.2225,-96.7405
+66845,38.2987,-96.5084
+66846,38.6402,-96.4738
+66849,38.8775,-96.6032
+66850,38.4077,-96.7130
+66851,38.2179,-96.9186
+66852,38.0716,-95.8953
+66853,38.0019,-96.2353
+66854,38.2521,-95.9885
+66856,38.3978,-95.8118
+66857,38.1034,-95.6334
+66858,38.4725,-96.9224
+66859,38.5569,-96.9649
+66860,38.1273,-96.1656
+66861,38.3641,-97.0064
+66862,38.1550,-96.5561
+66863,37.8337,-96.0763
+66864,38.3549,-95.9815
+66865,38.2089,-96.2745
+66866,38.1740,-97.1032
+66868,38.5448,-95.9794
+66869,38.4688,-96.5152
+66870,37.9325,-95.9761
+66871,38.3626,-95.6102
+66872,38.7990,-96.7637
+66873,38.6128,-96.6661
+66901,39.5600,-97.6389
+66930,39.7046,-97.4907
+66932,39.7795,-98.9309
+66933,39.6754,-96.8723
+66935,39.8265,-97.6355
+66936,39.9187,-98.3019
+66937,39.5998,-97.2648
+66938,39.5897,-97.4443
+66939,39.8529,-97.9043
+66940,39.8024,-97.4532
+66941,39.8308,-98.4480
+66942,39.7908,-97.9979
+66943,39.6718,-96.9663
+66944,39.8402,-97.2931
+66945,39.8870,-96.8784
+66946,39.9679,-96.9988
+66948,39.5983,-97.8523
+66949,39.6447,-98.2052
+66951,39.8642,-99.0378
+66952,39.8358,-98.6048
+66953,39.6795,-97.1178
+66955,39.9800,-97.3206
+66956,39.7965,-98.2156
+66958,39.8894,-97.1772
+66959,39.9230,-97.5297
+66960,39.9357,-97.4216
+66961,39.6934,-97.7756
+66962,39.5993,-97.1143
+66963,39.6419,-98.0143
+66964,39.9344,-97.7938
+66966,39.7837,-97.7622
+66967,39.8197,-98.7942
+66968,39.8353,-97.0631
+66970,39.9502,-98.0169
+67001,37.7570,-97.6354
+67002,37.7008,-97.1069
+67003,37.1047,-98.0568
+67004,37.2816,-97.7629
+67005,37.0688,-96.9959
+67008,37.4886,-96.7529
+67009,37.2253,-98.2688
+67010,37.6554,-96.9760
+67012,37.6577,-96.5587
+67013,37.3819,-97.2682
+67016,37.8888,-97.5182
+67017,37.8278,-97.1116
+67018,37.0713,-97.8537
+67019,37.3145,-96.7845
+67020,38.0079,-97.6759
+67021,37.7761,-98.9105
+67022,37.0769,-97.6269
+67023,37.3461,-96.5923
+67024,37.1128,-96.4922
+67025,37.6424,-97.7850
+67026,37.5111,-97.4920
+67028,37.4765,-98.9798
+67029,37.1714,-99.2800
+67030,37.7856,-97.5468
+67031,37.4105,-97.6351
+67035,37.6482,-98.3950
+67036,37.2898,-97.8826
+67037,37.5718,-97.2172
+67038,37.1202,-96.6803
+67039,37.5277,-96.9743
+67041,38.0541,-97.1275
+67042,37.8573,-96.7807
+67045,37.8545,-96.3223
+67047,37.6396,-96.0503
+67049,37.1706,-97.8464
+67050,37.6745,-97.6774
+67051,37.0893,-97.1966
+67052,37.6577,-97.5742
+67053,38.2471,-97.3457
+67054,37.5750,-99.3161
+67055,37.7834,-97.2031
+67056,38.0193,-97.5235
+67057,37.0705,-98.7801
+67058,37.3179,-98.0614
+67059,37.6590,-99.0970
+67060,37.5430,-97.3637
+67061,37.0823,-98.3772
+67062,38.1431,-97.4330
+67063,38.3407,-97.2337
+67065,37.4781,-98.5287
+67066,37.7737,-98.7580
+67067,37.7948,-97.2665
+67068,37.6219,-98.1195
+67070,37.0725,-98.5530
+67071,37.2086,-98.8897
+67072,37.5352,-96.6280
+67073,38.3891,-97.3204
+67074,37.6702,-96.7360
+67101,37.7853,-97.4642
+67102,37.0274,-96.7998
+67103,37.2660,-97.5551
+67104,37.2651,-98.6644
+67105,37.2200,-97.6829
+67106,37.4633,-97.7581
+67107,38.2002,-97.5427
+67108,37.8163,-97.6907
+67109,37.5613,-99.4858
+67110,37.4696,-97.2236
+67111,37.6150,-97.9378
+67112,37.4528,-98.4189
+67114,38.0676,-97.2916
+67117,38.0742,-97.3462
+67118,37.4817,-97.8542
+67119,37.2387,-97.1765
+67120,37.4681,-97.3738
+67122,37.6190,-96.4281
+67123,37.9483,-96.9963
+67124,37.6344,-98.7736
+67127,37.1648,-99.4871
+67131,37.4251,-96.9469
+67132,37.8509,-96.5847
+67133,37.5776,-97.1071
+67134,37.4770,-98.6721
+67135,37.9142,-97.4536
+67137,37.6315,-96.2276
+67138,37.2602,-98.4196
+67140,37.0799,-97.3575
+67142,37.4526,-98.1136
+67143,37.3192,-98.9745
+67144,37.8192,-97.0033
+67146,37.3845,-97.1046
+67147,37.8651,-97.3050
+67149,37.5397,-97.6259
+67150,37.0282,-98.1979
+67151,38.1421,-97.2571
+67152,37.2630,-97.4115
+67154,37.9635,-97.1222
+67155,37.2749,-99.1376
+67156,37.2484,-96.9632
+67159,37.4277,-98.3094
+67202,37.6870,-97.3349
+67203,37.6989,-97.3646
+67204,37.7625,-97.3585
+67205,37.7495,-97.4236
+67206,37.7037,-97.2245
+67207,37.6659,-97.2302
+67208,37.7038,-97.2793
+67209,37.6514,-97.4282
+67210,37.6429,-97.2101
+67211,37.6671,-97.3170
+67212,37.7024,-97.4389
+67213,37.6675,-97.3641
+67214,37.7072,-97.3178
+67215,37.6159,-97.4350
+67216,37.6112,-97.3126
+67217,37.6178,-97.3621
+67218,37.6685,-97.2804
+67219,37.7693,-97.3163
+67220,37.7512,-97.2784
+67221,37.6354,-97.2582
+67223,37.7424,-97.4956
+67226,37.7687,-97.2203
+67227,37.6269,-97.5011
+67228,37.7779,-97.1806
+67230,37.6815,-97.1678
+67232,37.6438,-97.1623
+67235,37.6890,-97.5000
+67260,37.7193,-97.2934
+67301,37.2082,-95.7561
+67330,37.1581,-95.3091
+67332,37.0434,-95.2366
+67333,37.0435,-95.8659
+67334,37.0239,-96.1771
+67335,37.2746,-95.5267
+67336,37.0693,-95.0688
+67337,37.0537,-95.5982
+67340,37.0595,-95.7122
+67341,37.3444,-95.4284
+67342,37.0601,-95.3553
+67344,37.2875,-95.9539
+67345,37.3703,-96.2004
+67346,37.3214,-96.4482
+67347,37.1544,-95.9515
+67349,37.4960,-96.2805
+67351,37.1436,-95.5689
+67352,37.3332,-96.0907
+67353,37.3084,-96.3172
+67354,37.2065,-95.4115
+67355,37.0317,-96.0058
+67356,37.1763,-95.1458
+67357,37.3381,-95.2531
+67360,37.0380,-96.1066
+67361,37.1376,-96.2176
+67363,37.3329,-95.7196
+67364,37.0386,-95.8243
+67401,38.8318,-97.6546
+67410,38.9565,-97.2191
+67416,38.6709,-97.5650
+67417,39.4340,-97.5456
+67418,39.1849,-98.0519
+67420,39.4009,-98.0855
+67422,39.0322,-97.5993
+67423,38.9656,-97.9749
+67425,38.7820,-97.9080
+67427,38.4985,-98.3993
+67428,38.3804,-97.4173
+67430,39.5755,-98.4421
+67431,38.9510,-97.0124
+67432,39.3308,-97.1811
+67436,39.2808,-97.7305
+67437,39.5068,-98.5574
+67438,38.5020,-97.2721
+67439,38.7598,-98.2211
+67441,38.8786,-97.1028
+67442,38.6461,-97.7758
+67443,38.3806,-97.5258
+67444,38.5511,-98.1184
+67445,39.3714,-97.8242
+67446,39.4613,-98.3253
+67447,39.4746,-96.9687
+67448,38.6644,-97.4026
+67449,38.6829,-96.8969
+67450,38.6263,-98.4573
+67451,38.7009,-97.1320
+67452,39.2413,-98.3684
+67454,38.6988,-98.1121
+67455,39.0285,-98.1627
+67456,38.5962,-97.6804
+67457,38.3855,-97.9877
+67458,39.1678,-97.3115
+67459,38.6039,-98.3458
+67460,38.3826,-97.6995
+67464,38.5586,-97.8973
+67466,39.3278,-97.4724
+67467,39.1424,-97.6958
+67468,39.4594,-97.2575
+67470,38.9227,-97.5076
+67473,39.3787,-98.7406
+67474,39.5958,-98.7020
+67475,38.5897,-97.0552
+67476,38.5443,-97.4362
+67478,39.3857,-97.9499
+67480,38.9658,-97.4005
+67481,39.0129,-98.3886
+67482,39.0269,-97.2597
+67483,38.5582,-97.1984
+67484,38.9957,-97.8505
+67485,39.3157,-98.4972
+67487,39.1729,-97.0643
+67490,38.8033,-98.4449
+67491,38.3834,-97.9019
+67492,38.8197,-96.9595
+67501,37.9775,-97.9265
+67502,38.1267,-97.9298
+67505,38.0314,-97.9458
+67510,37.9921,-98.2065
+67511,38.4336,-99.0506
+67512,38.2391,-98.3351
+67513,38.4451,-99.5383
+67514,37.8620,-98.2024
+67515,38.5993,-100.0653
+67516,38.3930,-99.6868
+67518,38.4040,-100.1734
+67519,37.9357,-99.1029
+67520,38.5897,-99.1877
+67521,38.6282,-99.7129
+67522,38.1222,-97.7476
+67523,38.1931,-99.5656
+67524,38.3842,-98.3782
+67525,38.5725,-98.5630
+67526,38.2974,-98.5445
+67529,38.0762,-99.2544
+67530,38.3529,-98.7981
+67543,37.8902,-97.8023
+67544,38.5698,-98.7506
+67545,38.1806,-98.6476
+67546,38.2245,-97.8173
+67547,37.9381,-99.4723
+67548,38.5915,-99.3340
+67550,38.1797,-99.1269
+67552,37.8605,-99.2365
+67553,38.6545,-99.3200
+67554,38.3711,-98.1849
+67556,38.6046,-99.5200
+67557,37.9200,-98.9583
+67559,38.3724,-99.4589
+67560,38.3993,-99.9392
+67561,38.1090,-98.0969
+67563,37.8482,-99.5554
+67564,38.5290,-98.9356
+67565,38.6006,-99.0441
+67566,37.9487,-98.0953
+67567,38.2647,-98.9720
+67568,38.0209,-98.3167
+67570,37.7874,-97.9642
+67572,38.6895,-99.9170
+67573,38.2645,-98.4122
+67574,38.2262,-99.3968
+67575,38.4020,-99.2565
+67576,38.0360,-98.7952
+67578,37.9691,-98.5867
+67579,38.1886,-98.2356
+67581,37.9917,-98.4084
+67583,37.7993,-98.4749
+67584,38.6820,-100.1637
+67601,38.8736,-99.3409
+67621,39.8278,-99.1285
+67622,39.9043,-99.7270
+67623,39.4445,-98.9543
+67625,39.3890,-99.6856
+67626,38.8816,-98.7169
+67627,38.9222,-99.2134
+67628,39.6274,-99.0016
+67629,39.7000,-100.1994
+67631,39.0091,-100.0814
+67632,39.3297,-99.5811
+67634,38.8233,-98.6044
+67635,39.6003,-100.4512
+67637,38.9401,-99.5900
+67638,39.6327,-98.8471
+67639,39.6245,-99.3185
+67640,38.8968,-99.0465
+67642,39.3686,-99.8310
+67643,39.6430,-100.2886
+67644,39.6407,-99.1467
+67645,39.6020,-99.8942
+67646,39.6176,-99.5942
+67647,39.9368,-99.5261
+67648,39.0872,-98.5804
+67649,39.1410,-98.6885
+67650,39.3727,-100.1027
+67651,39.2058,-99.0399
+67653,39.9067,-100.2081
+67654,39.8353,-99.9542
+67656,38.9810,-99.7546
+67657,39.2126,-99.6096
+67658,39.1152,-98.9344
+67659,39.3228,-100.0054
+67660,38.7175,-99.1481
+67661,39.8205,-99.3376
+67663,39.2122,-99.3346
+67664,39.8181,-99.5831
+67665,38.8491,-98.8825
+67667,38.7129,-99.3323
+67669,39.4582,-99.3441
+67671,38.8749,-99.1414
+67672,38.9939,-99.9052
+67673,39.1698,-98.8141
+67674,38.8890,-99.0965
+67675,39.4095,-99.0893
+67701,39.3942,-101.0501
+67730,39.8090,-101.1112
+67731,39.7659,-101.5373
+67732,39.3744,-101.3516
+67733,39.3298,-101.5065
+67734,39.5429,-100.8888
+67735,39.3463,-101.7739
+67736,38.8463,-100.4488
+67737,39.0887,-100.4932
+67738,38.9993,-100.6505
+67739,39.8785,-100.8128
+67740,39.3563,-100.3643
+67741,39.3869,-102.0048
+67743,39.3881,-101.2413
+67744,39.8608,-100.9411
+67745,39.8076,-101.3454
+67747,39.0421,-101.0610
+67748,39.0703,-100.8598
+67749,39.8349,-100.5625
+67751,39.1173,-100.3563
+67752,38.9948,-100.2329
+67753,39.4326,-100.7479
+67756,39.7972,-101.8367
+67757,39.5529,-100.6172
+67758,38.8978,-101.7787
+67761,38.9511,-101.5265
+67762,38.8414,-102.0009
+67764,38.8701,-101.1576
+67801,37.7303,-100.0600
+67831,37.1856,-99.7960
+67834,37.5346,-99.6201
+67835,37.9866,-100.3092
+67836,38.0396,-101.9946
+67837,37.5548,-100.6751
+67838,38.0580,-101.1338
+67839,38.4705,-100.4416
+67840,37.0523,-99.9523
+67841,37.6285,-100.2259
+67842,37.5479,-99.7653
+67843,37.7303,-99.9372
+67844,37.3769,-100.1971
+67846,38.0260,-100.7789
+67849,38.1601,-99.7289
+67850,38.6314,-100.6390
+67851,38.0892,-101.0157
+67853,37.8856,-100.5282
+67854,38.1010,-100.0013
+67855,37.5410,-101.6988
+67857,37.9939,-101.5478
+67859,37.2351,-100.7701
+67860,38.0223,-101.2996
+67861,38.4740,-101.3904
+67862,37.4881,-101.9525
+67863,38.5652,-101.2082
+67864,37.1765,-100.3173
+67865,37.4355,-99.9684
+67867,37.5661,-100.4557
+67868,37.8203,-100.7103
+67869,37.2496,-100.5626
+67870,37.5294,-101.0216
+67871,38.4924,-100.9170
+67876,37.8628,-99.7435
+67877,37.5549,-100.8439
+67878,38.0048,-101.8102
+67879,38.4708,-101.7946
+67880,37.5984,-101.3223
+67882,37.8042,-99.8799
+67901,37.0979,-100.8952
+67950,37.0628,-101.8677
+67951,37.1612,-101.3286
+67952,37.2931,-101.1222
+67953,37.2217,-101.8548
+67954,37.1780,-101.6191
+68001,41.3337,-96.9549
+68002,41.4990,-96.3377
+68003,41.0698,-96.3815
+68004,42.0097,-96.6230
+68005,41.1411,-95.8940
+68007,41.3734,-96.1844
+68008,41.5406,-96.1699
+68010,41.2572,-96.1335
+68014,41.2827,-96.9631
+68015,41.3866,-96.6497
+68016,41.0218,-96.1017
+68017,41.0579,-96.6621
+68018,41.3021,-96.6152
+68019,41.7810,-96.3754
+68020,41.9712,-96.2642
+68022,41.2774,-96.2464
+68023,41.4701,-96.0224
+68025,41.4379,-96.4913
+68028,41.1069,-96.2618
+68029,41.6570,-96.2735
+68030,42.3196,-96.4619
+68031,41.6395,-96.5332
+68033,41.1294,-96.5248
+68034,41.4517,-96.2275
+68036,41.3874,-96.9523
+68037,40.9835,-96.1300
+68038,41.9486,-96.4346
+68039,42.1136,-96.3405
+68040,41.2873,-96.7400
+68041,41.2414,-96.4934
+68042,41.0937,-96.4364
+68044,41.5476,-96.4483
+68045,41.8256,-96.4925
+68046,41.1218,-96.0528
+68047,42.1112,-96.7331
+68048,40.9841,-95.9420
+68050,41.3001,-96.8423
+68055,42.0542,-96.4722
+68056,41.1412,-95.9044
+68057,41.6619,-96.7235
+68058,41.0040,-96.2440
+68059,41.0645,-96.1588
+68061,41.8066,-96.2192
+68062,42.1988,-96.6775
+68063,41.7234,-96.4969
+68064,41.3453,-96.3538
+68065,41.0779,-96.8463
+68066,41.1846,-96.6189
+68067,42.1569,-96.4882
+68068,41.3976,-96.2075
+68069,41.2411,-96.3159
+68070,41.1967,-96.8009
+68071,42.2379,-96.4754
+68072,41.6101,-96.5047
+68073,41.2392,-96.4165
+68102,41.2615,-95.9326
+68104,41.2954,-96.0023
+68105,41.2407,-95.9649
+68106,41.2388,-96.0023
+68107,41.2091,-95.9518
+68108,41.2376,-95.9314
+68110,41.3024,-95.8928
+68111,41.2955,-95.9649
+68112,41.3842,-95.9664
+68113,41.1179,-95.9065
+68114,41.2631,-96.0520
+68116,41.2985,-96.1660
+68117,41.2066,-96.0031
+68118,41.2630,-96.1781
+68122,41.3634,-96.0519
+68123,41.1022,-95.9476
+68124,41.2354,-96.0522
+68127,41.2063,-96.0539
+68128,41.1785,-96.0709
+68130,41.2334,-96.1980
+68131,41.2643,-95.9647
+68132,41.2650,-96.0030
+68133,41.1123,-95.9977
+68134,41.2963,-96.0507
+68135,41.2059,-96.1933
+68136,41.1681,-96.1847
+68137,41.2055,-96.1188
+68138,41.1574,-96.1311
+68142,41.3692,-96.1019
+68144,41.2350,-96.1184
+68147,41.1765,-95.9568
+68152,41.3674,-95.9966
+68154,41.2655,-96.1150
+68157,41.1787,-95.9938
+68164,41.2970,-96.1059
+68178,41.2654,-95.9454
+68182,41.2577,-96.0107
+68183,41.2571,-95.9398
+68301,40.4705,-96.5250
+68303,40.2623,-97.4153
+68304,40.8926,-96.3798
+68305,40.3703,-95.8649
+68307,40.7922,-96.1486
+68309,40.0491,-96.5729
+68310,40.2498,-96.7495
+68313,40.7837,-97.2713
+68314,41.0161,-97.0222
+68315,40.2433,-97.5365
+68316,41.0132,-97.6136
+68317,40.6732,-96.5045
+68318,40.1649,-96.6486
+68319,40.9378,-97.7597
+68320,40.4796,-95.9466
+68321,40.4001,-95.6967
+68322,40.3299,-97.5478
+68323,40.1284,-96.3728
+68324,40.5541,-96.2901
+68325,40.0107,-97.7553
+68326,40.2838,-97.6841
+68327,40.0129,-97.6218
+68328,40.4744,-96.8408
+68329,40.4979,-96.1692
+68330,40.7074,-97.3412
+68331,40.4729,-96.7148
+68332,40.3279,-96.4103
+68333,40.6207,-96.9502
+68335,40.2967,-97.8104
+68336,40.9659,-96.6909
+68337,40.0984,-95.8319
+68338,40.3137,-97.2460
+68339,40.7321,-96.8701
+68340,40.1264,-97.7385
+68341,40.3873,-96.9208
+68342,40.1040,-96.9475
+68343,40.6182,-97.1321
+68344,40.5667,-96.3998
+68345,40.0365,-96.0192
+68346,40.6606,-96.0488
+68347,40.8055,-96.4166
+68348,40.2988,-96.1158
+68349,40.8316,-96.2969
+68350,40.0305,-97.0947
+68351,40.6508,-97.4349
+68352,40.1521,-97.2260
+68354,40.6390,-97.5798
+68355,40.1235,-95.5680
+68357,40.3129,-96.5478
+68358,40.5323,-96.6094
+68359,40.6313,-97.2848
+68360,40.9506,-96.9564
+68361,40.5014,-97.6035
+68362,40.1542,-97.4208
+68364,40.8368,-97.2304
+68365,40.6193,-97.7350
+68366,40.9816,-96.4346
+68367,41.0395,-97.3968
+68368,40.5543,-96.8131
+68370,40.1443,-97.5562
+68371,40.7636,-97.7833
+68372,40.6025,-96.6004
+68375,40.0370,-97.4926
+68376,40.1702,-95.9384
+68377,40.2170,-97.0193
+68378,40.3983,-96.0209
+68379,40.5291,-95.8698
+68380,40.2426,-96.4056
+68381,40.0768,-96.4808
+68382,40.5972,-96.0242
+68401,40.7508,-97.5827
+68402,40.9083,-96.8571
+68403,40.9206,-96.1668
+68404,40.6219,-96.7552
+68405,40.7621,-97.0735
+68406,40.5035,-97.3817
+68407,40.9229,-96.2637
+68409,40.9077,-95.9542
+68410,40.6358,-95.8838
+68413,40.8461,-96.0263
+68414,40.3176,-95.6979
+68415,40.0619,-96.8213
+68416,40.4104,-97.4597
+68417,40.7330,-96.0945
+68418,40.6936,-96.3790
+68419,40.6030,-96.5113
+68420,40.0790,-96.1891
+68421,40.4940,-95.7435
+68422,40.3887,-96.6947
+68423,40.8075,-96.9574
+68424,40.2992,-97.0163
+68428,40.9661,-96.8052
+68429,40.0624,-97.3734
+68430,40.6796,-96.6677
+68431,40.0676,-95.4382
+68433,40.0531,-95.7382
+68434,40.9096,-97.1169
+68436,40.4336,-97.7442
+68437,40.2529,-95.6385
+68438,40.6266,-96.7447
+68439,40.9959,-97.2067
+68440,40.0539,-97.0126
+68441,40.2247,-96.2498
+68442,40.2390,-95.7729
+68443,40.4548,-96.3612
+68444,40.4112,-97.5847
+68445,40.4015,-97.0866
+68446,40.6472,-96.1667
+68447,40.1954,-96.0730
+68448,40.5452,-96.0383
+68450,40.3552,-96.2262
+68452,40.4016,-97.8525
+68453,40.4022,-97.3398
+68454,40.6869,-96.2874
+68455,40.8197,-95.8974
+68456,40.9091,-97.3017
+68457,40.1576,-95.7121
+68458,40.2258,-96.4924
+68460,40.8963,-97.4284
+68461,40.7623,-96.5114
+68462,40.9521,-96.5197
+68463,40.8758,-96.1290
+68464,40.4134,-97.1896
+68465,40.4932,-97.0207
+68466,40.0669,-96.6428
+68467,40.8655,-97.5981
+68502,40.7840,-96.7004
+68503,40.8245,-96.6739
+68504,40.8545,-96.6602
+68505,40.8244,-96.6157
+68506,40.7838,-96.6396
+68507,40.8595,-96.6117
+68508,40.8181,-96.7055
+68510,40.8071,-96.6483
+68512,40.7375,-96.7057
+68514,40.9341,-96.6507
+68516,40.7353,-96.6428
+68517,40.9322,-96.6033
+68520,40.8059,-96.5726
+68521,40.8618,-96.7148
+68522,40.7915,-96.7615
+68523,40.7315,-96.7553
+68524,40.9070,-96.7874
+68526,40.7300,-96.5821
+68527,40.8454,-96.5113
+68528,40.8250,-96.8250
+68531,40.9080,-96.7105
+68532,40.7954,-96.8433
+68588,40.8249,-96.6964
+68601,41.4541,-97.3988
+68620,41.7167,-98.0512
+68621,41.4922,-96.6395
+68622,41.9226,-98.5209
+68623,41.4362,-98.1021
+68624,41.3456,-97.2294
+68626,41.1695,-96.9920
+68627,41.5476,-98.1657
+68628,41.2162,-97.8436
+68629,41.7073,-97.1311
+68631,41.6900,-97.3556
+68632,41.2431,-97.1339
+68633,41.7062,-96.8964
+68634,41.3907,-97.5066
+68635,41.0846,-97.0229
+68636,42.0092,-98.1526
+68637,41.8155,-98.6442
+68638,41.3778,-98.0072
+68640,41.4588,-97.7663
+68641,41.7357,-97.0153
+68642,41.6892,-97.5139
+68643,41.7060,-97.2633
+68644,41.7043,-97.6700
+68647,41.5188,-97.6283
+68648,41.4014,-96.7802
+68649,41.5050,-96.7854
+68651,41.2282,-97.5701
+68652,41.8611,-98.0901
+68653,41.5628,-97.4957
+68654,41.0670,-97.7791
+68655,41.6481,-98.2612
+68658,41.1995,-97.2927
+68659,41.5459,-96.9354
+68660,41.5741,-97.8677
+68661,41.4925,-97.0886
+68662,41.2107,-97.4176
+68663,41.3112,-97.7010
+68664,41.7046,-96.7868
+68665,41.7139,-98.4190
+68666,41.1106,-97.6112
+68667,41.1155,-97.3069
+68669,41.0792,-97.2369
+68701,42.0198,-97.4426
+68710,42.4483,-96.8494
+68711,42.1950,-99.0390
+68713,42.5403,-98.9732
+68714,42.3687,-99.5033
+68715,41.9713,-97.6059
+68716,41.9270,-96.8227
+68717,42.3834,-97.2224
+68718,42.6699,-97.6921
+68719,42.9694,-98.5596
+68720,42.3450,-98.0147
+68722,42.9299,-98.8690
+68723,42.2856,-97.2186
+68724,42.6276,-97.8849
+68725,42.1974,-98.7779
+68726,42.1847,-98.2101
+68727,42.5153,-97.2025
+68728,42.3874,-96.9300
+68729,42.4774,-97.9073
+68730,42.7673,-97.5346
+68731,42.4078,-96.4921
+68732,42.4886,-96.9717
+68733,42.2829,-96.7222
+68734,42.4291,-98.7983
+68735,42.1468,-98.4466
+68736,42.7448,-97.3714
+68739,42.6276,-97.2616
+68740,42.1466,-97.3016
+68741,42.3649,-96.5945
+68742,42.3502,-98.4999
+68743,42.4724,-96.6248
+68745,42.4562,-97.0839
+68746,42.8096,-98.4374
+68747,42.3911,-97.4961
+68748,41.8370,-97.4746
+68749,42.4603,-97.4753
+68751,42.6904,-96.9814
+68752,42.0202,-97.7117
+68753,42.8541,-99.4850
+68755,42.9265,-99.1300
+68756,42.1836,-97.9803
+68757,42.6533,-96.9279
+68758,41.7784,-97.7830
+68759,42.7518,-99.3465
+68760,42.7088,-97.8750
+68761,42.0216,-97.9564
+68763,42.5159,-98.5890
+68764,42.4049,-98.2317
+68765,42.3423,-97.6137
+68766,42.4284,-98.4093
+68767,42.1970,-97.5366
+68768,42.0000,-97.0702
+68769,42.3095,-97.8247
+68770,42.5616,-96.7648
+68771,42.3956,-97.3600
+68773,42.3622,-98.1192
+68774,42.8122,-97.2749
+68776,42.4572,-96.4510
+68777,42.8607,-98.6879
+68778,42.8795,-99.8072
+68779,41.9526,-97.2093
+68780,42.6330,-99.1282
+68781,42.0276,-97.8400
+68783,42.6365,-98.1394
+68784,42.2572,-96.8914
+68785,42.4280,-96.7224
+68786,42.5016,-97.5574
+68787,42.2138,-97.0309
+68788,41.8355,-96.7255
+68789,42.5354,-97.9838
+68790,42.1684,-97.1860
+68791,41.9976,-96.9398
+68792,42.7276,-97.1001
+68801,40.9499,-98.2973
+68803,40.9562,-98.4146
+68810,40.8633,-98.4674
+68812,40.9091,-99.2804
+68813,41.6993,-99.8570
+68814,41.3085,-99.4103
+68815,41.4289,-99.1560
+68816,41.1749,-98.1337
+68817,41.2675,-98.7938
+68818,40.8220,-98.0062
+68820,41.1129,-98.7014
+68821,42.0075,-99.7627
+68822,41.3885,-99.6314
+68823,41.9566,-99.1560
+68824,41.0071,-98.6181
+68825,41.2641,-99.9681
+68826,41.1636,-98.0164
+68827,41.0427,-98.1815
+68828,41.5582,-99.2487
+68831,41.1067,-98.5440
+68832,40.7703,-98.3668
+68833,41.7860,-100.0766
+68834,41.0149,-99.6578
+68835,41.3319,-98.6172
+68836,40.7052,-99.3773
+68837,41.6698,-99.0731
+68838,41.2122,-98.6624
+68840,40.7597,-98.8775
+68841,40.7622,-98.1582
+68842,41.5807,-98.5345
+68843,40.9058,-97.8786
+68844,41.0538,-99.0634
+68845,40.7181,-99.1709
+68846,41.0627,-97.8838
+68847,40.7385,-99.0205
+68849,40.7015,-99.1009
+68850,40.8264,-99.7398
+68852,41.1683,-99.1443
+68853,41.2877,-98.9807
+68854,41.0099,-98.0024
+68855,41.1693,-99.3255
+68856,41.5030,-99.8176
+68858,40.9658,-99.3775
+68859,41.4587,-98.8222
+68860,41.1340,-99.7958
+68861,40.6989,-99.2639
+68862,41.6041,-98.9384
+68863,40.7663,-99.5321
+68864,41.2552,-98.2382
+68865,40.8965,-98.1787
+68866,40.9689,-99.1292
+68869,40.9961,-98.8842
+68870,40.8453,-99.1584
+68871,41.1409,-98.8528
+68872,41.0929,-98.3322
+68873,41.2401,-98.4539
+68874,41.6341,-99.4287
+68875,41.5231,-98.6854
+68876,40.8252,-98.7500
+68878,40.9813,-99.5068
+68879,41.9032,-99.5099
+68881,41.4347,-99.3596
+68882,41.4357,-98.3911
+68883,40.8207,-98.5779
+68901,40.5909,-98.3661
+68920,40.1545,-99.3399
+68922,40.3364,-99.8998
+68923,40.3683,-99.4732
+68924,40.4955,-99.1247
+68925,40.4288,-98.4301
+68926,40.1060,-99.8403
+68927,40.5000,-99.6339
+68928,40.2843,-98.6068
+68929,40.1540,-99.0943
+68930,40.2848,-98.4156
+68932,40.3037,-98.7398
+68933,40.5183,-98.0406
+68934,40.3420,-98.1507
+68935,40.3784,-97.9620
+68936,40.3150,-99.7754
+68937,40.5693,-99.8589
+68938,40.4156,-98.1171
+68939,40.1097,-98.9617
+68940,40.5384,-99.2518
+68941,40.4688,-98.2679
+68942,40.0966,-98.3208
+68943,40.0311,-97.8873
+68944,40.6378,-98.0941
+68945,40.5610,-98.7733
+68946,40.1067,-99.9905
+68947,40.3014,-99.0519
+68948,40.3423,-100.0277
+68949,40.4327,-99.3935
+68950,40.4558,-98.6641
+68952,40.0817,-98.6791
+68954,40.6147,-98.2337
+68955,40.5920,-98.5403
+68956,40.6316,-98.6881
+68957,40.2740,-98.2464
+68958,40.5303,-99.5074
+68959,40.4855,-98.9231
+68960,40.0838,-99.1390
+68961,40.2090,-98.0438
+68964,40.2352,-97.9028
+68966,40.1599,-99.4673
+68967,40.2539,-99.6316
+68970,40.1080,-98.5298
+68971,40.1244,-99.2502
+68972,40.1016,-98.8034
+68973,40.4445,-98.5629
+68974,40.1259,-97.8677
+68975,40.6188,-97.9486
+68976,40.6023,-99.7091
+68977,40.0669,-99.6305
+68978,40.0667,-98.0975
+68979,40.5983,-97.8535
+68980,40.6766,-98.2507
+68981,40.2860,-98.8924
+68982,40.3308,-99.1952
+69001,40.2507,-100.6612
+69020,40.1540,-100.2623
+69021,40.1416,-101.5403
+69022,40.3418,-100.1871
+69023,40.4818,-101.8987
+69024,40.2410,-100.8639
+69025,40.6209,-100.5095
+69026,40.0254,-100.4106
+69027,40.5025,-101.5243
+69028,40.6359,-100.0543
+69029,40.6778,-100.2428
+69030,40.1834,-101.9164
+69032,40.5794,-101.0632
+69033,40.5521,-101.6944
+69034,40.2508,-100.4337
+69036,40.0279,-100.2980
+69037,40.1850,-101.4057
+69038,40.6108,-100.7394
+69039,40.7061,-100.3877
+69040,40.3550,-101.1198
+69041,40.1770,-101.7204
+69042,40.4755,-100.3790
+69043,40.1287,-101.2552
+69044,40.1301,-101.0165
+69045,40.4654,-101.3692
+69046,40.0682,-100.1041
+69101,41.1502,-100.8053
+69120,41.4322,-100.2425
+69121,41.5436,-101.7736
+69122,41.0998,-102.0868
+69123,41.0445,-100.3709
+69125,41.5925,-102.8555
+69127,41.1058,-101.9188
+69128,41.2301,-103.9080
+69129,41.1350,-102.3804
+69130,40.8971,-99.9617
+69131,41.4166,-102.9974
+69132,40.8149,-101.0066
+69133,41.2196,-103.4719
+69134,40.8066,-101.3693
+69135,42.1448,-100.2661
+69138,40.9958,-100.1766
+69140,40.8403,-101.7731
+69141,41.3042,-102.9360
+69142,41.9139,-100.3049
+69143,41.1927,-101.0194
+69144,41.3425,-101.6214
+69145,41.2515,-103.6835
+69146,41.3484,-101.8691
+69147,41.5741,-102.0952
+69148,41.6888,-102.6108
+69149,41.2217,-102.6771
+69150,40.8219,-101.5413
+69151,41.0902,-100.4953
+69152,42.0654,-101.1497
+69153,41.0757,-101.6703
+69154,41.4609,-102.3532
+69155,41.1884,-101.3894
+69156,41.2766,-103.3458
+69157,41.9668,-100.1584
+69161,42.1565,-100.7813
+69162,41.1292,-103.0165
+69163,41.5696,-100.5416
+69165,41.1527,-101.1708
+69166,42.0309,-100.6183
+69167,41.5962,-101.0060
+69168,40.7482,-101.9813
+69169,40.8210,-101.1799
+69170,40.7958,-100.7443
+69171,40.8907,-100.0682
+69201,42.6924,-100.6146
+69210,42.3905,-99.8570
+69211,42.8363,-101.3163
+69212,42.9798,-100.8032
+69214,42.4483,-100.1005
+69216,42.9517,-101.0081
+69217,42.2659,-99.7162
+69218,42.7748,-101.6128
+69219,42.7137,-101.0251
+69220,42.9185,-100.1686
+69221,42.6415,-100.3104
+69301,42.1269,-102.8895
+69331,41.8976,-102.9911
+69333,42.0509,-101.9666
+69334,41.8218,-103.2902
+69335,42.0207,-102.1426
+69336,41.6285,-103.1670
+69337,42.8764,-102.9830
+69339,42.5834,-103.4428
+69340,42.1498,-102.1968
+69341,41.7391,-103.6790
+69343,42.6655,-101.9109
+69345,41.5942,-103.7105
+69346,42.6252,-103.7930
+69347,42.5949,-102.6838
+69348,42.3314,-103.2079
+69350,41.9612,-101.7649
+69351,42.1151,-102.4131
+69352,41.8040,-103.9735
+69353,41.7471,-103.4189
+69354,42.3814,-103.3818
+69355,41.7820,-103.5169
+69356,41.8909,-103.4511
+69357,42.1108,-103.7680
+69358,42.0768,-103.9798
+69360,42.7386,-102.4866
+69361,42.1021,-103.5661
+69365,42.9475,-102.4610
+69366,42.0679,-101.5812
+69367,42.8144,-103.3169
+70001,29.9827,-90.1691
+70002,30.0102,-90.1626
+70003,30.0012,-90.2097
+70005,29.9994,-90.1341
+70006,30.0140,-90.1913
+70030,29.8192,-90.4397
+70031,29.9435,-90.2956
+70032,29.9504,-89.9960
+70036,29.6846,-90.1318
+70037,29.7159,-90.0354
+70038,29.3311,-89.4007
+70039,29.8772,-90.3772
+70040,29.7402,-89.9226
+70041,29.3339,-89.4675
+70043,29.9562,-89.9644
+70047,29.9721,-90.3542
+70049,30.0300,-90.5622
+70050,29.3834,-89.5957
+70051,30.0735,-90.6428
+70052,30.0702,-90.6873
+70053,29.9171,-90.0522
+70056,29.8874,-90.0273
+70057,29.9622,-90.4642
+70058,29.8689,-90.0649
+70062,29.9917,-90.2581
+70065,30.0267,-90.2535
+70067,29.7109,-90.0968
+70068,30.1563,-90.4368
+70070,29.8298,-90.3106
+70071,30.0519,-90.7033
+70072,29.8093,-90.1383
+70075,29.9275,-89.9192
+70076,30.0545,-90.6497
+70079,30.0022,-90.4123
+70080,29.8711,-90.4218
+70082,29.5715,-89.7528
+70083,29.5119,-89.8437
+70084,30.0727,-90.5732
+70085,29.8181,-89.7595
+70086,30.0362,-90.8654
+70087,29.9940,-90.3208
+70090,29.9693,-90.7011
+70091,29.1675,-89.2163
+70092,29.8991,-89.8959
+70094,29.9158,-90.2076
+70112,29.9561,-90.0773
+70113,29.9423,-90.0837
+70114,29.9374,-90.0323
+70115,29.9239,-90.1025
+70116,29.9674,-90.0648
+70117,29.9682,-90.0300
+70118,29.9447,-90.1257
+70119,29.9758,-90.0878
+70121,29.9617,-90.1592
+70122,30.0085,-90.0647
+70123,29.9500,-90.2056
+70124,30.0074,-90.1039
+70125,29.9519,-90.1034
+70126,30.0195,-90.0176
+70127,30.0284,-89.9742
+70128,30.0447,-89.9514
+70129,30.0809,-89.8134
+70130,29.9364,-90.0699
+70131,29.9063,-89.9583
+70139,29.9502,-90.0710
+70148,30.0273,-90.0676
+70163,29.9500,-90.0755
+70301,29.8083,-90.7503
+70310,29.7905,-90.8030
+70339,29.9046,-91.1847
+70340,29.6697,-91.1043
+70341,30.0265,-91.0833
+70342,29.6931,-91.2383
+70343,29.5484,-90.5572
+70344,29.4012,-90.6331
+70345,29.5018,-90.2379
+70346,30.1061,-91.0180
+70352,29.6844,-90.9402
+70353,29.3581,-90.7001
+70354,29.4303,-90.3426
+70355,29.6872,-90.4355
+70356,29.6316,-90.9709
+70357,29.2578,-90.1920
+70358,29.2147,-90.0275
+70359,29.6898,-90.7778
+70360,29.5787,-90.8054
+70363,29.5067,-90.7008
+70364,29.6360,-90.6797
+70372,29.7825,-90.9889
+70373,29.5976,-90.3115
+70374,29.6045,-90.5020
+70375,29.6957,-90.5316
+70377,29.4593,-90.5321
+70380,29.7521,-91.1036
+70390,29.8903,-91.0319
+70391,29.9951,-91.0603
+70392,29.6994,-91.3185
+70393,29.9959,-90.9990
+70394,29.6927,-90.6161
+70395,29.6974,-90.8617
+70397,29.3885,-90.8310
+70401,30.5336,-90.4554
+70402,30.5165,-90.4693
+70403,30.4856,-90.4877
+70420,30.4988,-89.9444
+70422,30.7357,-90.4915
+70426,30.9265,-89.8586
+70427,30.7442,-89.9121
+70431,30.6168,-89.9674
+70433,30.4627,-90.1405
+70435,30.5570,-90.1066
+70436,30.8346,-90.5331
+70437,30.6195,-90.2094
+70438,30.8437,-90.1010
+70441,30.8600,-90.7491
+70442,30.7030,-90.3332
+70443,30.6306,-90.5429
+70444,30.8970,-90.4894
+70445,30.3715,-89.8923
+70446,30.6347,-90.3585
+70447,30.4227,-90.2059
+70448,30.3622,-90.0395
+70449,30.2740,-90.6701
+70450,30.9425,-90.2617
+70451,30.5496,-90.4811
+70452,30.4169,-89.7548
+70453,30.6855,-90.7822
+70454,30.3628,-90.3586
+70455,30.5299,-90.3240
+70456,30.7871,-90.5046
+70457,30.5275,-90.1134
+70458,30.2621,-89.7941
+70460,30.2999,-89.8360
+70461,30.2340,-89.7096
+70462,30.3763,-90.5807
+70463,30.6581,-89.9038
+70464,30.5413,-89.8905
+70465,30.8758,-90.5138
+70466,30.5687,-90.5008
+70471,30.4043,-90.0613
+70501,30.2390,-91.9913
+70503,30.1710,-92.0548
+70506,30.1958,-92.0808
+70507,30.2783,-92.0280
+70508,30.1552,-92.0282
+70510,29.8946,-92.1932
+70512,30.4157,-91.9205
+70513,29.9000,-91.9033
+70514,29.8454,-91.5578
+70515,30.4525,-92.5777
+70516,30.3709,-92.3036
+70517,30.2908,-91.7864
+70518,30.1348,-91.9274
+70519,30.0817,-91.9070
+70520,30.3296,-92.0333
+70522,29.7484,-91.4357
+70523,29.8721,-91.5305
+70524,30.5573,-92.3186
+70525,30.4081,-92.2173
+70526,30.2105,-92.3789
+70528,29.8842,-91.9596
+70529,30.2023,-92.1616
+70531,30.2312,-92.5007
+70532,30.4709,-92.6971
+70533,29.9013,-92.0311
+70534,30.1656,-92.4550
+70535,30.4711,-92.4198
+70537,30.2516,-92.5702
+70538,29.8071,-91.4875
+70541,30.4206,-92.0426
+70542,30.0097,-92.5848
+70543,30.3354,-92.5011
+70544,29.9050,-91.6564
+70546,30.2664,-92.6736
+70548,29.7905,-92.4205
+70549,30.0468,-92.8330
+70550,30.5157,-92.1897
+70551,30.4619,-91.9835
+70552,30.0425,-91.6600
+70554,30.6295,-92.4909
+70555,30.0869,-92.1433
+70556,30.1906,-92.5838
+70558,30.1005,-92.0758
+70559,30.1393,-92.5081
+70560,29.9371,-91.8645
+70563,30.0293,-91.7316
+70570,30.5319,-92.1070
+70575,29.9489,-92.1581
+70576,30.7810,-92.4183
+70577,30.5495,-91.9188
+70578,30.2301,-92.2637
+70580,30.6754,-92.4284
+70581,30.2581,-92.7371
+70582,30.1635,-91.7753
+70583,30.2614,-92.1240
+70584,30.3881,-92.1135
+70585,30.8783,-92.4077
+70586,30.7273,-92.3560
+70589,30.6849,-92.0442
+70591,30.2577,-92.8328
+70592,30.0772,-92.0177
+70601,30.2268,-93.2154
+70605,30.1293,-93.2735
+70607,30.0385,-93.1901
+70609,30.1791,-93.2148
+70611,30.3481,-93.2036
+70615,30.2540,-93.1177
+70629,30.2311,-93.2186
+70630,30.0312,-93.0593
+70631,29.8534,-93.5683
+70632,29.8832,-92.8769
+70633,30.4260,-93.3913
+70634,30.7996,-93.2433
+70637,30.7077,-92.9741
+70638,30.8427,-92.7720
+70639,30.9834,-93.4979
+70640,30.3659,-92.9166
+70643,29.7372,-92.7791
+70644,30.7923,-92.9456
+70645,29.9280,-93.4739
+70646,30.1050,-92.9328
+70647,30.2472,-93.0153
+70648,30.5051,-92.8894
+70650,30.2338,-92.9207
+70651,30.5720,-92.9609
+70652,30.6137,-93.2474
+70653,30.6676,-93.5587
+70654,30.6922,-92.8744
+70655,30.6251,-92.7171
+70656,30.9142,-92.9267
+70657,30.5005,-93.1405
+70658,30.5217,-93.0362
+70659,30.9219,-93.2843
+70660,30.5726,-93.4608
+70661,30.3536,-93.6537
+70662,30.7981,-93.0060
+70663,30.2783,-93.4056
+70665,30.1219,-93.4512
+70668,30.1750,-93.6056
+70669,30.2423,-93.2723
+70706,30.6072,-90.9074
+70710,30.3582,-91.2688
+70711,30.5245,-90.5920
+70712,30.9696,-91.5967
+70714,30.5872,-91.1276
+70715,30.8145,-91.6574
+70719,30.3632,-91.2996
+70721,30.2234,-91.0795
+70722,30.8548,-90.9459
+70723,30.0596,-90.8402
+70725,30.1326,-90.9759
+70726,30.4334,-90.9023
+70729,30.5877,-91.3449
+70730,30.8099,-91.0947
+70732,30.6359,-91.5852
+70733,30.2898,-90.8002
+70734,30.2066,-90.9970
+70736,30.6340,-91.3384
+70737,30.2261,-90.9250
+70739,30.6011,-90.9653
+70740,30.3101,-91.4398
+70743,30.0260,-90.7702
+70744,30.5594,-90.6671
+70747,30.8743,-91.6722
+70748,30.8150,-91.2062
+70749,30.6296,-91.4507
+70750,30.4639,-91.7875
+70752,30.5956,-91.4172
+70753,30.6386,-91.6838
+70754,30.4074,-90.7505
+70755,30.5947,-91.5298
+70756,30.5237,-91.6503
+70757,30.3687,-91.5312
+70759,30.7125,-91.5864
+70760,30.6997,-91.4827
+70761,30.9750,-91.0383
+70762,30.5783,-91.4647
+70763,30.0487,-90.7365
+70764,30.2345,-91.3080
+70767,30.4811,-91.3307
+70769,30.3074,-90.9406
+70770,30.6513,-90.9932
+70772,30.4375,-91.4648
+70773,30.5968,-91.3733
+70774,30.2146,-90.7619
+70775,30.8583,-91.3690
+70776,30.2600,-91.0910
+70777,30.7397,-91.0771
+70778,30.1620,-90.8184
+70780,30.2987,-91.1853
+70782,30.9519,-91.5118
+70783,30.6694,-91.4168
+70785,30.5571,-90.8192
+70786,30.5824,-90.9544
+70787,30.9616,-91.4407
+70788,30.1321,-91.1838
+70789,30.9406,-91.0830
+70791,30.6496,-91.1576
+70801,30.4496,-91.1860
+70802,30.4455,-91.1753
+70803,30.4100,-91.1740
+70805,30.4889,-91.1583
+70806,30.4488,-91.1247
+70807,30.5556,-91.2082
+70808,30.4041,-91.1391
+70809,30.3940,-91.0706
+70810,30.3454,-91.0943
+70811,30.5377,-91.1349
+70812,30.5002,-91.1105
+70813,30.5279,-91.1976
+70814,30.4850,-91.0617
+70815,30.4554,-91.0665
+70816,30.4269,-91.0278
+70817,30.3751,-90.9804
+70818,30.5423,-91.0501
+70819,30.4717,-91.0078
+70820,30.3654,-91.2027
+70825,30.4520,-91.1878
+70836,30.3876,-91.0836
+71001,32.5919,-92.9114
+71002,32.1204,-93.1125
+71003,32.6295,-93.0308
+71004,32.7414,-93.8601
+71006,32.7292,-93.6561
+71007,32.3625,-94.0068
+71008,32.3471,-92.9687
+71009,32.5780,-93.8918
+71016,32.2244,-93.1163
+71018,32.8210,-93.4326
+71019,32.0385,-93.3066
+71021,32.9677,-93.4465
+71023,32.4645,-93.4046
+71024,32.4889,-93.2199
+71027,32.2469,-93.6869
+71028,32.4863,-93.0760
+71029,32.8362,-93.8337
+71030,32.1837,-93.7936
+71031,32.0076,-92.8970
+71032,32.0949,-93.7954
+71033,32.4398,-94.0038
+71034,32.1842,-93.3042
+71037,32.4751,-93.4876
+71038,32.9432,-93.0729
+71039,32.4303,-93.2897
+71040,32.7837,-92.9981
+71043,32.8860,-93.8878
+71044,32.9542,-93.8825
+71045,32.3359,-93.1628
+71046,32.1724,-93.9350
+71047,32.3021,-93.9051
+71048,32.8360,-92.8507
+71049,32.0143,-93.9712
+71051,32.3195,-93.4780
+71052,32.0154,-93.6564
+71055,32.6769,-93.2933
+71060,32.6409,-93.9893
+71061,32.7540,-93.9763
+71063,31.9115,-93.5150
+71064,32.9112,-93.6883
+71065,31.8032,-93.5027
+71066,31.8748,-93.1983
+71067,32.6108,-93.4638
+71068,32.2767,-93.3035
+71069,32.9713,-93.9882
+71070,32.0849,-92.9880
+71071,32.9184,-93.4499
+71072,32.9380,-93.3120
+71073,32.5141,-93.3115
+71075,32.9914,-93.4799
+71078,32.2782,-93.7978
+71079,32.9570,-92.8084
+71082,32.8422,-93.9784
+71101,32.5054,-93.7487
+71103,32.4915,-93.7717
+71104,32.4838,-93.7316
+71105,32.4551,-93.7099
+71106,32.3855,-93.7366
+71107,32.5894,-93.8617
+71108,32.4432,-93.7878
+71109,32.4679,-93.8139
+71110,32.5004,-93.6309
+71111,32.5724,-93.6963
+71112,32.4488,-93.6451
+71115,32.2645,-93.5629
+71118,32.3937,-93.8041
+71119,32.4907,-93.9255
+71129,32.3930,-93.9267
+71201,32.5396,-92.1069
+71202,32.3999,-92.0566
+71203,32.5820,-92.0186
+71209,32.5314,-92.0710
+71212,32.5261,-92.0743
+71218,32.3508,-91.7874
+71219,32.3257,-91.6932
+71220,32.8645,-91.9085
+71222,32.8292,-92.6605
+71223,32.8910,-91.6785
+71225,32.5069,-92.3505
+71226,32.2507,-92.4380
+71227,32.5296,-92.4743
+71229,32.6319,-91.8968
+71230,32.2403,-91.5928
+71232,32.4144,-91.4967
+71233,32.3251,-90.9317
+71234,32.6452,-92.3305
+71235,32.6900,-92.6738
+71237,32.5884,-91.4811
+71238,32.3631,-92.3752
+71241,32.7794,-92.3520
+71242,32.7922,-91.4129
+71243,31.9517,-91.8161
+71245,32.5269,-92.7156
+71247,32.2713,-92.7203
+71250,32.9582,-91.5730
+71251,32.2206,-92.6769
+71253,32.9961,-91.3157
+71254,32.8077,-91.2351
+71256,32.9477,-92.7095
+71259,32.2593,-91.8487
+71260,32.9079,-92.2350
+71261,32.7781,-91.6941
+71263,32.8718,-91.4258
+71264,32.6013,-91.7725
+71266,32.7110,-91.4770
+71268,32.3461,-92.7370
+71269,32.4406,-91.7938
+71270,32.4899,-92.6439
+71272,32.5292,-92.6516
+71275,32.5119,-92.8168
+71276,32.5818,-91.1595
+71277,32.9433,-92.5510
+71279,32.4867,-91.8569
+71280,32.7177,-92.1012
+71282,32.3469,-91.2319
+71286,32.6474,-91.2332
+71291,32.5652,-92.1732
+71292,32.3967,-92.2148
+71295,32.1453,-91.7090
+71301,31.2742,-92.4671
+71302,31.1970,-92.3702
+71303,31.2813,-92.5473
+71316,31.2890,-91.7553
+71320,31.1137,-91.7760
+71322,30.8711,-92.1755
+71323,31.2666,-92.2104
+71325,31.0168,-92.3362
+71326,31.7722,-91.5857
+71327,30.9769,-92.0349
+71328,31.3577,-92.1889
+71330,31.1100,-92.2415
+71331,31.2521,-92.0660
+71333,30.9100,-92.0719
+71334,31.6685,-91.5816
+71336,32.0271,-91.5916
+71339,31.0057,-91.9364
+71340,31.7598,-91.8080
+71341,31.0561,-92.1641
+71342,31.5937,-92.1376
+71343,31.5208,-91.8992
+71345,30.7284,-91.9755
+71346,31.1182,-92.3749
+71350,31.0665,-92.0603
+71351,31.1842,-91.9608
+71353,30.6130,-91.7672
+71354,31.4045,-91.7501
+71355,31.0584,-91.8412
+71356,30.8353,-92.0283
+71357,32.1190,-91.2993
+71358,30.7167,-91.8479
+71359,31.3247,-92.4263
+71360,31.3243,-92.3542
+71362,30.8991,-91.9611
+71366,31.9502,-91.3524
+71367,30.8755,-92.2883
+71368,31.8797,-91.6819
+71369,30.9365,-91.8542
+71371,31.6741,-92.2497
+71373,31.3759,-91.5852
+71375,31.8423,-91.4682
+71378,31.9424,-91.7087
+71401,31.7948,-91.9446
+71403,31.2104,-93.4454
+71404,31.7521,-92.7460
+71405,31.4095,-92.4017
+71406,31.7342,-93.5053
+71407,31.5172,-92.4865
+71409,31.3108,-92.6892
+71410,31.9642,-92.7712
+71411,31.9055,-93.0905
+71414,31.8257,-93.0245
+71415,32.0254,-92.1424
+71416,31.5404,-92.8970
+71417,31.5082,-92.6496
+71418,32.1373,-92.0485
+71419,31.7976,-93.7290
+71422,32.0766,-92.6580
+71423,31.6034,-92.5533
+71424,31.1795,-92.6967
+71425,31.8851,-91.8707
+71426,31.4918,-93.4617
+71427,31.3850,-92.8911
+71428,31.6092,-93.0885
+71429,31.4004,-93.4262
+71430,31.0677,-92.5276
+71432,31.7496,-92.4677
+71433,31.0012,-92.6392
+71434,31.4420,-92.9428
+71435,32.0260,-92.1523
+71438,31.1018,-92.8803
+71439,31.3395,-93.3679
+71441,31.9516,-92.1534
+71446,31.1574,-93.1739
+71447,31.4117,-92.8105
+71449,31.5218,-93.5404
+71450,31.7790,-93.3987
+71452,31.5826,-92.9450
+71454,31.6914,-92.8584
+71455,31.4034,-92.9895
+71456,31.6190,-92.9614
+71457,31.7392,-93.0914
+71459,31.0774,-93.2204
+71461,31.1210,-93.2977
+71462,31.6692,-93.7362
+71463,30.8090,-92.6473
+71465,31.8720,-92.2039
+71466,31.2159,-92.7489
+71467,31.5633,-92.3871
+71468,31.4759,-93.1385
+71469,31.6945,-93.2706
+71472,31.1689,-92.7872
+71473,32.0690,-92.4297
+71474,31.2772,-93.0143
+71475,31.2013,-93.1246
+71479,31.8577,-92.3531
+71480,31.8700,-92.2790
+71483,31.8924,-92.6579
+71485,31.1739,-92.5204
+71486,31.6276,-93.6588
+71497,31.7490,-93.0980
+71601,34.1794,-91.8925
+71602,34.2747,-92.1322
+71603,34.1211,-92.0881
+71630,33.6123,-91.2335
+71631,33.5819,-92.2642
+71635,33.1325,-92.0043
+71638,33.5209,-91.4847
+71639,33.8866,-91.5366
+71640,33.1213,-91.2473
+71642,33.3885,-91.8761
+71643,34.0169,-91.5765
+71644,34.0999,-91.7154
+71646,33.2075,-91.7760
+71647,33.3644,-92.1140
+71651,33.3269,-92.2958
+71652,33.8932,-92.3228
+71653,33.3715,-91.2841
+71654,33.6211,-91.3711
+71655,33.6280,-91.7305
+71658,33.3253,-91.5734
+71659,34.1351,-91.7807
+71660,33.7606,-92.1983
+71661,33.1462,-91.5120
+71662,33.8116,-91.5119
+71663,33.2264,-91.4295
+71665,33.9329,-92.1353
+71666,33.7449,-91.2612
+71667,33.9356,-91.8444
+71670,33.7453,-91.4009
+71671,33.6020,-92.0960
+71674,33.8262,-91.1812
+71675,33.6065,-91.9416
+71676,33.0520,-91.5551
+71677,33.7619,-91.4906
+71678,34.0246,-91.8272
+71701,33.5792,-92.8175
+71720,33.7754,-92.6383
+71721,33.8909,-93.2064
+71722,33.7218,-93.1747
+71724,33.3349,-92.5348
+71725,34.0400,-92.5352
+71726,33.6823,-92.9914
+71728,34.0089,-93.1053
+71730,33.2011,-92.6335
+71740,33.0769,-93.1674
+71742,33.8275,-92.4533
+71743,33.8893,-93.0978
+71744,33.4968,-92.4802
+71745,33.4997,-92.3950
+71747,33.0531,-92.2257
+71748,33.9030,-92.4332
+71749,33.0719,-92.8186
+71751,33.4068,-92.7706
+71752,33.3914,-93.1918
+71753,33.2257,-93.1847
+71758,33.3093,-92.9149
+71759,33.3151,-92.6597
+71762,33.3429,-92.7684
+71763,33.9052,-92.8038
+71764,33.4319,-93.0489
+71765,33.1419,-92.3318
+71766,33.7340,-92.4963
+71770,33.3909,-93.3100
+71772,33.8338,-93.1265
+71801,33.6230,-93.6117
+71820,33.7857,-94.2420
+71822,33.6702,-94.1479
+71823,33.8291,-94.1233
+71825,33.8779,-93.5564
+71826,33.0925,-93.7232
+71827,33.3899,-93.4099
+71831,33.7717,-93.8515
+71832,34.0415,-94.3571
+71833,34.1349,-94.0230
+71834,33.1148,-93.9578
+71835,33.6755,-93.4512
+71836,33.7131,-94.3942
+71837,33.2549,-93.8453
+71838,33.6536,-93.7934
+71839,33.2921,-93.7433
+71841,34.1620,-94.3395
+71842,33.8933,-94.2929
+71845,33.3156,-93.6440
+71846,33.9241,-94.1242
+71847,33.9219,-93.6302
+71851,33.8567,-93.9425
+71852,33.9856,-93.8530
+71853,33.5938,-93.9380
+71854,33.4449,-93.8948
+71855,33.8631,-93.7401
+71857,33.8015,-93.3377
+71858,33.5851,-93.2638
+71859,33.7222,-93.9231
+71860,33.3093,-93.4924
+71861,33.1007,-93.4999
+71862,33.7797,-93.7281
+71864,33.5082,-93.2898
+71865,33.7417,-94.1460
+71866,33.8684,-94.3803
+71901,34.5264,-92.9741
+71909,34.6422,-92.9899
+71913,34.4460,-93.0966
+71921,34.2508,-93.4053
+71922,34.0232,-93.4134
+71923,34.0889,-93.0556
+71929,34.3037,-93.1596
+71933,34.4137,-93.3558
+71935,34.3950,-93.7513
+71937,34.3985,-94.3816
+71940,34.0135,-93.5032
+71941,34.2491,-92.9553
+71942,34.2212,-92.9942
+71943,34.3324,-93.5862
+71944,34.2402,-94.3220
+71945,34.5003,-94.3847
+71949,34.6874,-93.2134
+71950,34.2562,-93.7181
+71952,34.2765,-93.8214
+71953,34.6160,-94.2106
+71956,34.6105,-93.1330
+71957,34.5638,-93.5955
+71958,34.1124,-93.6556
+71959,34.2499,-93.9287
+71960,34.4727,-93.6933
+71961,34.6003,-93.8384
+71962,34.0489,-93.3617
+71964,34.4241,-93.2407
+71965,34.6547,-93.7374
+71968,34.5242,-93.2905
+71969,34.6692,-93.6292
+71970,34.6689,-93.4892
+71971,34.3038,-94.0344
+71972,34.3891,-94.2420
+71973,34.2852,-94.3027
+71998,34.1262,-93.0528
+71999,34.1273,-93.0593
+72001,35.0583,-92.8859
+72002,34.6660,-92.5402
+72003,34.3801,-91.4050
+72004,34.3942,-91.8618
+72005,35.5372,-91.0704
+72006,35.2439,-91.3596
+72007,34.9993,-91.9792
+72010,35.3126,-91.5241
+72011,34.5006,-92.4659
+72012,35.0991,-91.9303
+72013,35.4553,-92.3685
+72014,35.4303,-91.1121
+72015,34.4860,-92.5851
+72016,34.9834,-92.6320
+72017,34.8873,-91.3879
+72019,34.6338,-92.6990
+72020,35.4725,-91.4692
+72021,34.8565,-91.2163
+72022,34.6064,-92.4939
+72023,34.9643,-92.0636
+72024,34.7523,-91.7438
+72025,35.0523,-92.9994
+72026,34.5173,-91.3178
+72027,35.3698,-92.5790
+72028,35.5435,-92.4314
+72029,34.7103,-91.2780
+72030,35.4271,-92.6759
+72031,35.6037,-92.5209
+72032,35.0656,-92.3628
+72034,35.0538,-92.4787
+72035,35.0789,-92.4583
+72036,35.0111,-91.2731
+72038,34.4526,-91.2382
+72039,35.3561,-92.3973
+72040,34.9697,-91.5328
+72041,34.7338,-91.4711
+72042,34.2746,-91.3233
+72044,35.6932,-92.1698
+72045,35.0931,-92.0774
+72046,34.5593,-91.9415
+72047,35.2281,-92.2106
+72048,34.2252,-91.1115
+72051,35.7947,-92.3150
+72052,35.1425,-91.7792
+72053,34.7005,-92.2284
+72055,34.0987,-91.3542
+72057,34.1312,-92.3265
+72058,35.2459,-92.3742
+72059,35.1547,-91.3421
+72060,35.0771,-91.5705
+72061,35.3243,-92.2899
+72063,35.3181,-92.7901
+72064,34.7967,-91.6185
+72065,34.5346,-92.2864
+72066,34.9785,-91.7167
+72067,35.5621,-92.1659
+72068,35.1440,-91.7212
+72069,34.5321,-91.1378
+72070,35.0149,-92.7006
+72072,34.5166,-91.7650
+72073,34.3685,-91.6540
+72074,35.0657,-91.1054
+72075,35.6409,-91.3107
+72076,34.9121,-92.1377
+72079,34.3892,-92.1945
+72080,35.4269,-92.8444
+72081,35.3816,-91.6701
+72082,35.2386,-91.6693
+72083,34.6058,-92.0118
+72084,34.1371,-92.6895
+72085,35.3667,-91.8277
+72086,34.8070,-91.9076
+72087,34.5967,-92.8262
+72088,35.6023,-92.2610
+72099,34.9006,-92.1544
+72101,35.2283,-91.1507
+72102,35.1419,-91.8292
+72103,34.5908,-92.3813
+72104,34.3464,-92.8155
+72106,34.9739,-92.5258
+72107,35.1417,-92.5361
+72108,34.7280,-91.1036
+72110,35.1546,-92.7724
+72111,35.2386,-92.1313
+72112,35.5809,-91.2297
+72113,34.8596,-92.3976
+72114,34.7649,-92.2603
+72116,34.8003,-92.2453
+72117,34.7806,-92.1404
+72118,34.8405,-92.3260
+72119,34.8369,-92.2950
+72120,34.9022,-92.2408
+72121,35.4556,-91.7852
+72122,34.7698,-92.7803
+72123,35.2578,-91.2367
+72125,35.0662,-92.7906
+72126,34.9431,-92.9086
+72127,35.1731,-92.6060
+72128,34.3134,-92.6354
+72129,34.3117,-92.5542
+72130,35.6614,-92.0564
+72131,35.4041,-92.1910
+72132,34.4393,-92.1885
+72133,34.0960,-91.4834
+72134,34.6178,-91.3506
+72135,34.8796,-92.5890
+72136,35.2402,-92.0303
+72137,35.3363,-92.0422
+72139,35.3622,-91.5099
+72140,34.3807,-91.1865
+72141,35.5219,-92.6954
+72142,34.6737,-92.0739
+72143,35.2267,-91.7368
+72150,34.3102,-92.3974
+72152,34.3561,-91.9793
+72153,35.6561,-92.3219
+72156,35.2873,-92.6830
+72157,35.2737,-92.5657
+72160,34.4428,-91.5297
+72165,35.5766,-91.4665
+72166,34.0691,-91.2219
+72167,34.4251,-92.6510
+72168,34.4345,-91.9655
+72169,35.3945,-91.2269
+72170,34.5744,-91.4215
+72173,35.1001,-92.2111
+72175,34.3370,-91.7574
+72176,34.9928,-91.8518
+72178,35.2038,-91.6127
+72179,35.4977,-91.8656
+72180,34.5312,-92.2144
+72181,35.1624,-92.4452
+72182,34.4311,-92.0921
+72183,34.6015,-92.1923
+72199,34.8283,-92.2904
+72201,34.7470,-92.2809
+72202,34.7381,-92.2473
+72204,34.7176,-92.3583
+72205,34.7495,-92.3514
+72206,34.6331,-92.2532
+72207,34.7758,-92.3426
+72209,34.6825,-92.3416
+72210,34.7139,-92.5084
+72211,34.7463,-92.4172
+72212,34.7859,-92.4150
+72223,34.7908,-92.4952
+72227,34.7769,-92.3733
+72301,35.1343,-90.1793
+72311,34.7207,-90.8968
+72313,35.5308,-90.1395
+72315,35.8994,-89.8993
+72320,34.8111,-90.5424
+72322,35.0688,-90.8079
+72324,35.3904,-90.7866
+72325,35.3307,-90.2539
+72326,35.1163,-90.9079
+72327,35.2434,-90.3339
+72328,34.0132,-91.1088
+72329,35.6239,-89.9715
+72330,35.5914,-90.2018
+72331,35.2810,-90.4663
+72332,35.1012,-90.3023
+72333,34.2867,-90.8812
+72335,34.9944,-90.7461
+72338,35.4320,-90.1422
+72339,35.4160,-90.2649
+72340,34.9585,-91.0387
+72341,34.8784,-90.7691
+72342,34.4479,-90.6748
+72346,35.0823,-90.4845
+72347,35.3818,-90.9925
+72348,34.9418,-90.4179
+72350,35.4998,-90.1292
+72351,35.6759,-90.0977
+72352,34.6560,-90.7343
+72353,34.3228,-90.9964
+72354,35.6423,-90.3126
+72355,34.4649,-90.8523
+72358,35.7921,-89.8924
+72359,35.0185,-90.7183
+72360,34.7503,-90.7808
+72364,35.2140,-90.1896
+72365,35.5632,-90.4201
+72366,34.5257,-90.9518
+72367,34.1849,-91.0152
+72368,34.8104,-91.0234
+72369,34.4552,-90.7895
+72370,35.6729,-90.0580
+72372,34.9676,-90.9506
+72373,35.2858,-90.6067
+72374,34.5634,-90.8385
+72376,35.0884,-90.3080
+72377,35.6753,-90.3401
+72379,34.0690,-91.0488
+72383,34.4912,-91.0396
+72384,35.3758,-90.2195
+72386,35.4618,-90.3694
+72387,35.3157,-90.7727
+72389,34.3723,-90.8839
+72390,34.5511,-90.6792
+72391,35.6765,-90.2695
+72392,34.9656,-91.1006
+72394,35.0586,-90.6091
+72395,35.5916,-90.0247
+72396,35.2297,-90.8319
+72401,35.8306,-90.5781
+72404,35.7752,-90.7850
+72405,35.9027,-90.6502
+72410,35.9475,-91.0976
+72411,35.7450,-90.5844
+72412,36.1257,-90.6917
+72413,36.3038,-90.8154
+72414,35.8351,-90.3700
+72415,36.1267,-91.1750
+72416,35.9609,-90.7833
+72417,35.9157,-90.5322
+72419,35.7373,-90.3534
+72421,35.7788,-90.9789
+72422,36.4246,-90.5195
+72424,36.3919,-90.7287
+72425,36.2288,-90.7453
+72426,35.8561,-90.0416
+72427,35.8688,-90.9490
+72428,35.7414,-90.2167
+72429,35.4927,-90.9417
+72430,36.3360,-90.1736
+72431,35.6326,-91.0794
+72432,35.5531,-90.7259
+72433,36.0253,-91.0382
+72434,36.2175,-91.1564
+72435,36.3131,-90.5529
+72436,36.2397,-90.4800
+72437,35.8305,-90.4561
+72438,35.9417,-90.2269
+72440,35.9924,-91.2647
+72441,36.4356,-90.3894
+72442,35.8258,-90.1865
+72443,36.1802,-90.4029
+72444,36.4286,-90.8528
+72445,35.9782,-91.0266
+72447,35.9088,-90.3284
+72449,36.1666,-90.8172
+72450,36.0795,-90.5164
+72453,36.3064,-90.6670
+72454,36.4068,-90.2027
+72455,36.3213,-91.0489
+72456,36.4486,-90.3254
+72457,36.0854,-91.0682
+72458,36.0683,-91.1556
+72459,36.2714,-91.2975
+72460,36.3470,-91.1535
+72461,36.2663,-90.2742
+72462,36.3892,-90.7593
+72464,36.4532,-90.1455
+72466,36.0420,-91.3296
+72467,35.8422,-90.6776
+72469,35.9518,-91.2891
+72470,36.4747,-90.6923
+72471,35.8248,-91.1214
+72472,35.5944,-90.5476
+72473,35.7383,-91.1713
+72476,36.0461,-90.9168
+72478,36.4652,-91.0537
+72479,35.6317,-90.8989
+72482,36.2687,-91.3589
+72501,35.7912,-91.6534
+72512,36.2224,-91.7507
+72513,36.2314,-91.6477
+72515,36.2764,-92.0565
+72517,36.1463,-91.9541
+72519,36.1341,-92.1803
+72520,36.3981,-91.7247
+72521,35.9497,-91.5411
+72522,35.8047,-91.4668
+72523,35.6278,-91.8447
+72524,35.8402,-91.3114
+72526,35.8776,-91.7662
+72527,35.7404,-91.6832
+72528,36.2381,-92.1150
+72529,36.2891,-91.5676
+72530,35.6164,-91.9671
+72531,36.3140,-92.1478
+72532,36.0863,-91.5886
+72533,35.9779,-92.2453
+72534,35.5900,-91.7368
+72536,36.1439,-91.7682
+72537,36.4490,-92.2341
+72538,36.4456,-92.1003
+72539,36.3301,-91.7226
+72540,35.9194,-91.9101
+72542,36.3004,-91.4660
+72543,35.4599,-91.9985
+72544,36.4036,-92.1897
+72546,35.5771,-91.9449
+72550,35.7101,-91.7839
+72553,35.7009,-91.4821
+72554,36.4435,-91.5551
+72555,35.7687,-91.8715
+72556,36.0139,-91.9700
+72560,35.8408,-92.0794
+72561,35.9324,-91.8132
+72562,35.7306,-91.3945
+72564,35.6070,-91.4472
+72565,36.2192,-91.9084
+72566,36.2079,-92.0647
+72567,35.8175,-91.9198
+72568,35.5668,-91.6215
+72569,36.0811,-91.4582
+72571,35.6417,-91.5512
+72572,35.8976,-91.2918
+72573,36.0762,-91.7974
+72576,36.3485,-91.8561
+72577,36.0334,-91.7120
+72578,36.4741,-91.8594
+72579,35.8426,-91.4449
+72581,35.5471,-91.9675
+72583,36.4148,-91.9941
+72584,36.1479,-91.8473
+72585,36.1786,-92.0146
+72587,36.2197,-91.8173
+72601,36.2380,-93.0860
+72611,36.2469,-93.3170
+72615,36.3154,-93.0120
+72616,36.3483,-93.5508
+72617,36.0200,-92.3869
+72619,36.3736,-92.5915
+72623,36.4591,-92.2927
+72624,36.0821,-93.3637
+72626,36.3222,-92.5515
+72628,35.8399,-93.2818
+72629,35.7385,-92.5668
+72630,36.4614,-92.9208
+72631,36.4691,-93.7284
+72632,36.3733,-93.7439
+72633,36.1409,-92.8709
+72634,36.2331,-92.5518
+72635,36.3174,-92.4840
+72636,35.9910,-92.7162
+72638,36.3282,-93.4024
+72639,36.0219,-92.4967
+72640,36.0028,-93.0594
+72641,35.9970,-93.2124
+72642,36.3705,-92.5443
+72644,36.4146,-92.9677
+72645,35.8041,-92.5754
+72648,36.0878,-93.1621
+72650,35.8627,-92.6908
+72651,36.3882,-92.4751
+72653,36.3424,-92.3854
+72655,35.9099,-93.0359
+72658,36.1504,-92.3215
+72660,36.4786,-93.3779
+72661,36.4304,-92.5973
+72662,36.4264,-93.1846
+72663,35.9387,-92.3327
+72666,35.9494,-93.2868
+72668,36.4185,-92.7724
+72669,36.0648,-92.8736
+72670,35.9810,-93.3711
+72672,36.2879,-92.8443
+72675,36.0002,-92.8002
+72677,36.2644,-92.7006
+72679,35.7352,-92.8010
+72680,35.8807,-92.3308
+72682,36.1356,-92.7320
+72683,35.9320,-93.1151
+72685,36.0641,-92.9855
+72686,35.5994,-92.9620
+72687,36.2852,-92.6539
+72701,35.9924,-94.0856
+72703,36.1181,-94.0435
+72704,36.1056,-94.2965
+72712,36.3984,-94.2224
+72713,36.2980,-94.2828
+72714,36.4674,-94.2222
+72715,36.4671,-94.3049
+72717,35.8351,-94.4084
+72718,36.2646,-94.2207
+72719,36.3672,-94.2951
+72721,35.7807,-93.7785
+72722,36.3438,-94.4699
+72727,35.9135,-93.9340
+72729,35.7884,-94.4731
+72730,36.0305,-94.2687
+72732,36.4325,-93.9594
+72734,36.2702,-94.4511
+72736,36.4138,-94.4650
+72738,36.1625,-93.8867
+72739,36.4267,-94.3288
+72740,36.1046,-93.6554
+72742,35.9963,-93.5154
+72744,35.9626,-94.4356
+72745,36.2465,-94.1026
+72747,36.3704,-94.5809
+72749,35.8684,-94.4376
+72751,36.4633,-94.1199
+72752,35.8350,-93.5570
+72753,35.9339,-94.3311
+72756,36.3211,-93.9901
+72758,36.2994,-94.1410
+72760,35.8405,-93.7023
+72761,36.1653,-94.4561
+72762,36.1813,-94.2253
+72764,36.1757,-94.0602
+72768,36.4720,-94.4901
+72769,36.0358,-94.5001
+72773,36.0223,-93.8360
+72774,35.9305,-94.1446
+72776,35.9130,-93.6669
+72801,35.2806,-93.1416
+72802,35.3189,-93.0816
+72821,35.4584,-93.7139
+72823,35.2526,-92.8945
+72824,35.1261,-93.4153
+72826,35.1295,-93.7102
+72827,34.8717,-93.6256
+72828,34.9307,-93.5350
+72829,35.1036,-93.1753
+72830,35.5179,-93.5103
+72832,35.4283,-93.6686
+72833,35.0149,-93.5012
+72834,35.1707,-93.2015
+72835,35.2730,-93.3479
+72837,35.5250,-93.1042
+72838,34.8882,-93.6803
+72839,35.6297,-93.2443
+72840,35.4581,-93.6154
+72841,34.8651,-93.7771
+72842,35.0899,-93.5845
+72843,35.5794,-92.9023
+72845,35.3616,-93.3779
+72846,35.4839,-93.3268
+72847,35.3714,-93.2673
+72851,35.2554,-93.4381
+72852,35.6688,-93.5538
+72853,35.0135,-93.2287
+72854,35.6967,-93.4286
+72855,35.2450,-93.6676
+72856,35.7690,-93.0574
+72857,34.8622,-93.3241
+72858,35.2133,-93.0440
+72860,34.9658,-93.4459
+72863,35.3694,-93.5113
+72865,35.3063,-93.5507
+72901,35.3652,-94.4149
+72903,35.3550,-94.3607
+72904,35.4152,-94.3825
+72905,35.2631,-94.2421
+72908,35.3090,-94.4074
+72916,35.2720,-94.3722
+72921,35.4631,-94.1915
+72923,35.3087,-94.2894
+72926,34.7105,-94.0247
+72927,35.0801,-93.9398
+72928,35.2913,-93.9307
+72930,35.4347,-94.1271
+72932,35.6048,-94.3768
+72933,35.3286,-94.0130
+72934,35.6868,-94.2843
+72935,35.4943,-94.1328
+72936,35.1897,-94.2185
+72937,35.1347,-94.3915
+72938,35.0041,-94.3778
+72940,35.1221,-94.2593
+72941,35.3480,-94.1647
+72943,35.1801,-93.7869
+72944,35.0425,-94.2376
+72945,35.0994,-94.3626
+72946,35.6521,-94.1358
+72947,35.5534,-94.0368
+72948,35.7027,-94.3929
+72949,35.5628,-93.8072
+72950,34.7933,-93.9031
+72951,35.3005,-93.8893
+72952,35.5686,-94.3014
+72955,35.6146,-94.4377
+72956,35.4689,-94.3482
+72958,34.9057,-94.1510
+72959,35.7785,-94.0622
+73001,35.2262,-98.4165
+73002,34.9642,-97.7412
+73003,35.6689,-97.4974
+73004,35.1698,-97.7970
+73005,35.0513,-98.2401
+73006,34.9062,-98.4002
+73007,35.6854,-97.3275
+73008,35.5109,-97.6425
+73009,35.2863,-98.3728
+73010,35.1007,-97.6734
+73011,34.8478,-97.7466
+73012,35.6737,-97.5924
+73013,35.6170,-97.5008
+73014,35.5875,-98.1452
+73015,35.0709,-98.5955
+73016,35.7946,-97.6894
+73017,34.9254,-98.0954
+73018,35.0485,-97.9387
+73019,35.2057,-97.4427
+73020,35.4619,-97.2626
+73021,35.3241,-98.6704
+73022,35.6169,-97.9922
+73024,35.3709,-98.8088
+73025,35.7297,-97.5698
+73026,35.2405,-97.2757
+73027,35.9675,-97.2428
+73028,35.9780,-97.6315
+73029,34.9065,-98.2082
+73030,34.4727,-97.1887
+73031,35.0338,-97.6314
+73032,34.4005,-97.0506
+73033,35.3070,-98.5551
+73034,35.7033,-97.4336
+73036,35.5062,-97.9586
+73038,35.1245,-98.4513
+73040,35.6456,-98.3752
+73041,35.0281,-98.8758
+73042,35.2228,-98.2470
+73043,35.7342,-98.4037
+73044,35.8679,-97.4344
+73045,35.5116,-97.1415
+73047,35.4568,-98.3151
+73048,35.4966,-98.5463
+73049,35.5821,-97.2894
+73050,35.9383,-97.2560
+73051,35.0318,-97.2464
+73052,34.8333,-97.5962
+73053,35.3559,-98.4121
+73054,35.6752,-97.2039
+73055,34.6452,-97.9231
+73056,36.1694,-97.6128
+73057,34.8310,-97.4286
+73058,35.8200,-97.2258
+73059,35.3290,-98.0507
+73061,36.3511,-97.0224
+73062,35.0223,-98.7352
+73063,36.0607,-97.4257
+73064,35.3755,-97.7535
+73065,35.2553,-97.6101
+73066,35.5017,-97.3282
+73067,34.9111,-97.9071
+73068,35.1388,-97.2822
+73069,35.2525,-97.4644
+73070,35.2276,-97.4272
+73071,35.2371,-97.4079
+73072,35.2116,-97.5010
+73073,36.1619,-97.3946
+73074,34.8334,-97.2742
+73075,34.7489,-97.2324
+73077,36.3030,-97.2681
+73078,35.6748,-97.7535
+73079,35.2109,-98.0120
+73080,35.0164,-97.4498
+73082,34.7762,-97.9021
+73084,35.5257,-97.3465
+73086,34.4853,-96.9718
+73089,35.2688,-97.7988
+73090,35.3975,-97.9624
+73092,35.1312,-98.0738
+73093,35.1084,-97.5065
+73095,34.9077,-97.2852
+73096,35.5128,-98.7221
+73097,35.3989,-97.6450
+73098,34.6270,-97.1649
+73099,35.5184,-97.7662
+73102,35.4707,-97.5191
+73103,35.4890,-97.5190
+73104,35.4751,-97.5038
+73105,35.5195,-97.5032
+73106,35.4823,-97.5367
+73107,35.4819,-97.5745
+73108,35.4503,-97.5677
+73109,35.4328,-97.5245
+73110,35.4481,-97.3945
+73111,35.5195,-97.4774
+73112,35.5180,-97.5730
+73114,35.5781,-97.5176
+73115,35.4423,-97.4415
+73116,35.5467,-97.5646
+73117,35.4749,-97.4625
+73118,35.5182,-97.5309
+73119,35.4215,-97.5690
+73120,35.5813,-97.5737
+73121,35.5197,-97.4449
+73122,35.5205,-97.6134
+73127,35.4776,-97.6487
+73128,35.4425,-97.6626
+73129,35.4316,-97.4843
+73130,35.4588,-97.3458
+73131,35.5765,-97.4693
+73132,35.5438,-97.6389
+73134,35.6151,-97.5694
+73135,35.4003,-97.4331
+73139,35.3864,-97.5257
+73141,35.5200,-97.3945
+73142,35.6098,-97.6468
+73145,35.4243,-97.4140
+73149,35.3892,-97.4891
+73150,35.4012,-97.3299
+73151,35.5717,-97.4165
+73159,35.3879,-97.5788
+73160,35.3363,-97.4751
+73162,35.5820,-97.6409
+73165,35.3588,-97.3730
+73169,35.3806,-97.6484
+73170,35.3253,-97.5522
+73173,35.3408,-97.6275
+73179,35.4253,-97.6495
+73401,34.2077,-97.1070
+73425,34.4621,-97.5702
+73430,33.8983,-97.3614
+73432,34.2522,-96.4227
+73433,34.6405,-97.4203
+73434,34.6184,-97.5789
+73435,34.3579,-97.4950
+73436,34.2856,-97.0405
+73437,34.3679,-97.4124
+73438,34.2816,-97.5032
+73439,33.9379,-96.7441
+73440,33.9617,-96.8894
+73441,33.8673,-97.4401
+73442,34.3230,-97.6893
+73443,34.1620,-97.2977
+73444,34.4745,-97.3889
+73446,34.0888,-96.7780
+73447,34.2473,-96.8534
+73448,33.9483,-97.1061
+73449,33.9910,-96.5436
+73450,34.2673,-96.5389
+73453,34.0308,-97.2710
+73455,34.2300,-96.7604
+73456,34.1098,-97.6230
+73458,34.3497,-97.3139
+73459,33.7732,-97.1393
+73460,34.2973,-96.6675
+73461,34.3561,-96.4331
+73463,34.1238,-97.4349
+73481,34.4270,-97.5274
+73487,34.4695,-97.4421
+73488,34.4935,-97.5550
+73491,34.4676,-97.6596
+73501,34.5579,-98.2910
+73503,34.6830,-98.4918
+73505,34.5728,-98.4879
+73507,34.7283,-98.4746
+73520,34.2687,-97.9772
+73521,34.6345,-99.3153
+73523,34.6552,-99.2853
+73526,34.7929,-99.2656
+73527,34.5782,-98.6223
+73528,34.3987,-98.6533
+73529,34.3377,-97.9529
+73530,34.2549,-99.0515
+73531,34.1954,-98.5282
+73532,34.6296,-99.5889
+73533,34.5050,-97.8667
+73537,34.4684,-99.6792
+73538,34.7758,-98.3836
+73539,34.4572,-99.2807
+73540,34.4671,-98.5609
+73541,34.7887,-98.1807
+73542,34.3980,-98.9359
+73543,34.4706,-98.3918
+73544,34.6603,-99.7544
+73546,34.2229,-98.7235
+73547,34.9739,-99.4046
+73548,34.2113,-98.1320
+73549,34.6448,-99.1528
+73550,34.7035,-99.9010
+73551,34.3076,-98.8806
+73552,34.6287,-98.7602
+73553,34.3296,-98.7012
+73554,34.8416,-99.6082
+73555,34.5015,-98.9659
+73556,34.7260,-99.3867
+73557,34.7310,-98.5008
+73559,34.7300,-98.9405
+73560,34.5466,-99.4484
+73562,34.1905,-98.3971
+73564,34.8484,-98.9997
+73565,34.0199,-97.8940
+73566,34.6160,-98.9311
+73567,34.7474,-98.1709
+73568,34.2634,-98.2193
+73569,33.9361,-97.7820
+73570,34.5146,-99.1148
+73571,34.9140,-99.9281
+73572,34.3721,-98.3269
+73573,34.1441,-97.9617
+73601,35.4875,-98.9508
+73620,35.6223,-99.0251
+73622,35.4002,-98.9977
+73624,35.3597,-99.1719
+73625,35.6923,-99.1903
+73626,35.4387,-99.2851
+73627,35.1970,-99.4527
+73628,35.6305,-99.6998
+73632,35.2692,-98.9148
+73638,35.8491,-99.7956
+73639,35.7391,-98.9606
+73641,35.2696,-99.1968
+73642,35.8227,-99.9099
+73644,35.4051,-99.4266
+73645,35.1722,-99.8687
+73646,35.8194,-98.6233
+73647,35.4355,-99.1513
+73650,35.6445,-99.4224
+73651,35.0252,-99.0697
+73654,35.8585,-99.3741
+73655,34.9802,-99.2492
+73658,35.9482,-98.7188
+73659,35.8775,-98.9401
+73660,35.6317,-99.9139
+73661,35.1747,-99.0212
+73662,35.3180,-99.6611
+73663,36.1029,-98.8950
+73664,35.1745,-99.2359
+73666,35.4150,-99.9203
+73667,36.0059,-99.0399
+73668,35.2246,-99.9761
+73669,35.7505,-98.7432
+73673,35.0522,-99.6376
+73701,36.4267,-97.7920
+73703,36.4407,-97.9668
+73705,36.3392,-97.9021
+73716,36.4851,-98.5515
+73717,36.8392,-98.7838
+73718,36.2102,-98.1668
+73719,36.9643,-98.2639
+73720,36.1946,-97.8701
+73722,36.9120,-98.3504
+73724,36.0298,-98.6909
+73726,36.5874,-98.5083
+73727,36.4817,-98.0427
+73728,36.7292,-98.4042
+73729,36.3928,-98.4544
+73730,36.3117,-97.5412
+73731,36.6450,-98.6034
+73733,36.2547,-97.6879
+73734,35.9834,-97.8522
+73735,36.2804,-98.0629
+73736,36.3447,-97.6807
+73737,36.2963,-98.5769
+73738,36.4393,-97.5584
+73739,36.5146,-98.1346
+73741,36.5537,-98.2701
+73742,36.0963,-97.9220
+73743,36.5632,-97.9927
+73744,35.9500,-98.2909
+73746,36.6882,-98.6620
+73747,36.2336,-98.3397
+73749,36.7027,-98.1552
+73750,35.8531,-97.9436
+73753,36.5553,-97.8637
+73754,36.3825,-98.0968
+73755,36.1437,-98.5981
+73756,35.9786,-98.1119
+73757,36.2801,-97.4469
+73758,36.9349,-98.0857
+73759,36.8619,-97.7062
+73760,36.3833,-98.1669
+73761,36.6850,-98.0313
+73762,35.7136,-97.9753
+73763,36.1029,-98.3253
+73764,35.8547,-98.2017
+73766,36.6451,-97.8367
+73768,36.3692,-98.2748
+73770,36.0541,-98.4979
+73771,36.8763,-97.9583
+73772,35.8645,-98.4212
+73773,36.2531,-97.9200
+73801,36.4854,-99.4127
+73832,36.0494,-99.6890
+73834,36.8518,-99.5710
+73835,35.9686,-99.2186
+73838,36.2387,-98.8763
+73840,36.4024,-99.6431
+73841,36.5480,-99.6193
+73842,36.8218,-99.2162
+73843,36.3989,-99.8296
+73844,36.8991,-100.1601
+73848,36.6340,-100.0399
+73851,36.5739,-99.7815
+73852,36.4793,-99.1201
+73853,36.2392,-99.1597
+73855,36.8747,-99.8530
+73857,36.2708,-99.3327
+73858,36.1682,-99.9267
+73859,36.1373,-99.2859
+73860,36.5425,-98.8429
+73901,36.7546,-101.0752
+73931,36.5873,-100.8015
+73932,36.6902,-100.5139
+73933,36.7409,-102.5797
+73937,36.5666,-102.7599
+73938,36.9324,-100.5788
+73939,36.7768,-101.7899
+73942,36.7440,-101.4964
+73944,36.5816,-101.1034
+73945,36.8269,-101.2329
+73946,36.9355,-102.8041
+73947,36.8419,-102.1669
+73949,36.5969,-101.9877
+73950,36.8548,-100.8950
+73951,36.9429,-101.0539
+73960,36.4917,-101.7926
+74001,36.4887,-96.0624
+74002,36.5614,-96.1445
+74003,36.7283,-96.0676
+74006,36.7125,-95.8951
+74008,35.9245,-95.8777
+74010,35.8081,-96.3621
+74011,35.9818,-95.8092
+74012,36.0514,-95.8057
+74014,36.0530,-95.6640
+74015,36.1822,-95.7188
+74016,36.5452,-95.4513
+74017,36.3909,-95.5877
+74019,36.2848,-95.6032
+74020,36.2462,-96.4207
+74021,36.3788,-95.8458
+74022,36.9255,-95.9784
+74023,35.9573,-96.7519
+74026,35.7169,-96.7797
+74027,36.8134,-95.6072
+74028,35.7944,-96.5197
+74029,36.8229,-95.8899
+74030,35.9845,-96.5650
+74032,36.2069,-96.8988
+74033,35.9471,-96.0063
+74034,36.2326,-96.5629
+74035,36.4045,-96.3779
+74036,36.1582,-95.5066
+74037,35.9986,-95.9799
+74038,36.1569,-96.5592
+74039,35.9017,-96.2366
+74041,35.9379,-96.0589
+74042,36.8808,-95.5512
+74044,36.0835,-96.3807
+74045,36.2215,-96.6996
+74046,35.7532,-96.5729
+74047,35.8508,-96.0273
+74048,36.6918,-95.6510
+74050,36.0723,-96.0666
+74051,36.6140,-95.9558
+74052,36.0667,-96.5700
+74053,36.4305,-95.7319
+74054,36.2804,-96.3293
+74055,36.2767,-95.8189
+74056,36.7953,-96.3309
+74058,36.3626,-96.7586
+74059,35.9717,-97.0676
+74060,36.2574,-96.2512
+74061,36.5331,-95.8926
+74062,36.0377,-96.9009
+74063,36.1508,-96.1996
+74066,35.9944,-96.1702
+74068,35.9073,-96.5779
+74070,36.4008,-96.0880
+74071,35.7788,-96.2648
+74072,36.9600,-95.6161
+74073,36.2987,-96.0102
+74074,36.0787,-97.0641
+74075,36.1691,-97.0834
+74077,36.1240,-97.0690
+74078,36.1253,-97.0797
+74079,35.7431,-96.6562
+74080,36.5421,-95.7490
+74081,36.1817,-96.4601
+74082,36.4488,-95.8809
+74083,36.8792,-95.7534
+74084,36.5280,-96.3339
+74085,36.1108,-96.7226
+74103,36.1561,-95.9957
+74104,36.1462,-95.9542
+74105,36.0974,-95.9611
+74106,36.1919,-95.9852
+74107,36.1149,-96.0324
+74108,36.1402,-95.7895
+74110,36.1883,-95.9531
+74112,36.1470,-95.9023
+74114,36.1269,-95.9467
+74115,36.1993,-95.9089
+74116,36.1888,-95.8426
+74117,36.2460,-95.9016
+74119,36.1421,-95.9893
+74120,36.1507,-95.9774
+74126,36.2375,-96.0180
+74127,36.1731,-96.0464
+74128,36.1474,-95.8503
+74129,36.1258,-95.8716
+74130,36.2415,-95.9566
+74131,36.0508,-96.0734
+74132,36.0488,-96.0167
+74133,36.0393,-95.8775
+74134,36.1098,-95.7972
+74135,36.0973,-95.9232
+74136,36.0624,-95.9415
+74137,36.0224,-95.9306
+74145,36.0971,-95.8905
+74146,36.0992,-95.8555
+74171,36.0506,-95.9526
+74301,36.6775,-95.2426
+74330,36.4445,-95.2617
+74331,36.6477,-94.9518
+74332,36.5477,-95.3156
+74333,36.7939,-95.0821
+74337,36.1407,-95.3369
+74338,36.2560,-94.7127
+74339,36.9340,-94.8797
+74340,36.4741,-95.0178
+74342,36.4273,-94.9447
+74343,36.7363,-94.8209
+74344,36.5955,-94.7407
+74346,36.4394,-94.7541
+74347,36.1992,-94.7883
+74349,36.5125,-95.0281
+74350,36.4662,-95.0478
+74352,36.1351,-95.1936
+74354,36.8895,-94.8809
+74358,36.9180,-94.8805
+74359,36.1685,-94.8522
+74360,36.9800,-94.8365
+74361,36.3082,-95.3068
+74363,36.9600,-94.7112
+74364,36.1963,-94.9485
+74365,36.2879,-95.0593
+74366,36.3780,-95.0289
+74367,36.4161,-95.1129
+74368,36.2073,-94.8482
+74369,36.9246,-95.2020
+74370,36.7498,-94.6804
+74401,35.7237,-95.4582
+74403,35.6820,-95.3075
+74421,35.7627,-96.0420
+74422,35.6432,-95.6903
+74423,35.6423,-95.2198
+74425,35.1712,-95.6230
+74426,35.4455,-95.5293
+74427,35.6771,-94.8869
+74428,35.5487,-95.6481
+74429,35.9488,-95.6330
+74430,35.1294,-95.6464
+74431,35.4578,-95.9391
+74432,35.2822,-95.6506
+74434,35.7826,-95.1948
+74435,35.5933,-95.0947
+74436,35.8056,-95.7046
+74437,35.4365,-95.9272
+74438,35.5132,-95.7621
+74441,35.9769,-95.1450
+74442,35.1238,-95.8166
+74445,35.6315,-95.8286
+74446,35.8512,-95.3222
+74447,35.6497,-96.0122
+74450,35.5996,-95.4727
+74451,35.7239,-95.0113
+74452,36.1214,-95.0683
+74454,35.8425,-95.5091
+74455,35.3616,-95.2689
+74456,35.7108,-95.9926
+74457,36.0060,-94.8414
+74458,35.8823,-95.5879
+74459,35.5188,-95.4921
+74460,35.5048,-95.9645
+74462,35.2796,-95.1467
+74463,35.7700,-95.5510
+74464,35.9441,-94.9741
+74467,35.9675,-95.3929
+74468,35.6173,-95.5994
+74469,35.5119,-95.3215
+74470,35.4767,-95.1669
+74471,35.8342,-94.8719
+74472,35.2500,-95.2597
+74477,36.0039,-95.2666
+74501,34.9842,-95.7867
+74521,34.6621,-95.0994
+74522,34.8825,-95.6767
+74523,34.2520,-95.6023
+74525,34.3328,-96.0556
+74528,34.7023,-95.7275
+74530,34.4297,-96.5369
+74531,34.8815,-96.2281
+74533,34.2080,-96.1970
+74534,34.6239,-96.3607
+74535,34.4841,-96.4449
+74536,34.5828,-95.4230
+74538,34.5694,-96.2493
+74540,34.5710,-95.7081
+74543,34.3594,-95.3813
+74546,34.8521,-95.5801
+74547,34.8101,-95.5988
+74549,34.5625,-94.8942
+74552,35.1134,-95.2489
+74553,34.7134,-95.9253
+74554,34.9257,-95.7200
+74555,34.2492,-95.9645
+74556,34.4582,-96.2013
+74557,34.3873,-95.6982
+74558,34.5048,-95.1659
+74560,34.6487,-95.7601
+74561,35.1303,-95.4152
+74562,34.3070,-95.3127
+74563,34.9700,-95.0726
+74565,34.8198,-95.8225
+74567,34.4503,-95.3362
+74569,34.4773,-95.9246
+74570,34.8628,-96.1010
+74571,34.7196,-95.0490
+74572,34.6259,-96.4306
+74574,34.6767,-95.2620
+74576,34.6683,-96.0427
+74577,34.7335,-94.8618
+74578,34.9061,-95.3417
+74601,36.7022,-97.1489
+74604,36.7019,-96.9824
+74630,36.4994,-97.4355
+74631,36.7992,-97.3039
+74632,36.9407,-97.3413
+74633,36.7102,-96.7766
+74636,36.8226,-97.5222
+74637,36.6028,-96.6439
+74640,36.5710,-97.6490
+74641,36.8074,-96.8607
+74643,36.6550,-97.5751
+74644,36.5597,-97.0960
+74646,36.8220,-97.4421
+74647,36.9181,-96.9946
+74650,36.4804,-96.7200
+74651,36.4710,-97.1645
+74652,36.8591,-96.6440
+74653,36.6486,-97.3407
+74701,34.0099,-96.3774
+74720,33.8315,-96.3716
+74721,33.8798,-96.1625
+74722,34.3796,-94.8983
+74723,33.9929,-96.0172
+74724,34.3420,-94.8615
+74726,33.9412,-96.1743
+74727,34.0187,-95.8587
+74728,34.1571,-94.8202
+74729,34.1468,-96.2541
+74730,33.9123,-96.4311
+74731,33.8701,-96.5772
+74733,33.8223,-96.4819
+74734,34.0906,-94.5383
+74735,34.0967,-95.2615
+74736,33.9145,-94.9928
+74737,34.0307,-94.9030
+74738,33.8957,-95.4434
+74740,33.7674,-94.5971
+74741,33.7950,-96.2876
+74743,34.0067,-95.5110
+74745,33.8591,-94.8164
+74747,33.7581,-96.3155
+74748,34.1308,-96.4930
+74750,33.9855,-95.0115
+74753,33.9079,-96.5340
+74754,34.1920,-95.1195
+74755,34.1194,-95.1420
+74756,34.0845,-95.3740
+74759,34.0563,-95.7196
+74760,34.1631,-95.3558
+74761,34.0051,-95.2009
+74764,34.0909,-95.0575
+74766,34.0860,-94.9739
+74801,35.3151,-96.9697
+74804,35.3915,-96.9215
+74820,34.8044,-96.7154
+74824,35.8885,-96.8713
+74825,34.8225,-96.3920
+74826,35.0210,-96.8871
+74827,34.9398,-96.3434
+74829,35.5049,-96.4664
+74830,35.1445,-96.6646
+74831,34.8942,-97.0344
+74832,35.8288,-97.0068
+74833,35.5830,-96.4139
+74834,35.6967,-96.8787
+74836,34.4421,-96.6297
+74837,35.3431,-96.4561
+74839,35.2414,-96.0456
+74840,35.3086,-96.7697
+74842,34.6186,-96.6152
+74843,34.6570,-96.7286
+74844,34.8758,-96.5892
+74845,35.2532,-95.8798
+74848,35.0799,-96.3437
+74849,34.9784,-96.7355
+74850,35.1097,-96.1072
+74851,35.4262,-97.0820
+74852,35.1239,-97.0089
+74854,35.1107,-96.7660
+74855,35.5139,-96.9064
+74856,34.3966,-96.8163
+74857,35.3402,-97.2005
+74859,35.4565,-96.3216
+74860,35.5319,-96.5698
+74864,35.4987,-96.7070
+74865,34.6135,-96.8182
+74866,35.0665,-96.8469
+74867,34.9650,-96.5375
+74868,35.2785,-96.6446
+74869,35.5904,-96.7512
+74871,34.5965,-96.5516
+74872,34.7717,-96.9880
+74873,35.2329,-96.9772
+74875,35.8726,-96.9586
+74878,35.0048,-97.0698
+74880,35.3798,-96.1205
+74881,35.7144,-97.0796
+74883,35.2199,-96.2530
+74884,35.1849,-96.5155
+74901,35.2991,-94.5014
+74902,35.2515,-94.4679
+74930,35.1850,-94.7751
+74931,35.6862,-94.7867
+74932,35.1456,-94.5354
+74935,34.9620,-94.9112
+74936,35.3954,-94.7279
+74937,34.8175,-94.5875
+74939,34.7298,-94.6325
+74940,34.9495,-94.6318
+74941,35.2675,-94.8761
+74942,34.8946,-94.9780
+74943,35.1000,-95.0994
+74944,35.1306,-95.0056
+74945,35.5839,-94.8174
+74946,35.3963,-94.4524
+74947,34.9915,-94.5159
+74948,35.4680,-94.5689
+74949,34.6835,-94.7721
+74951,35.1716,-94.6636
+74953,35.0381,-94.5715
+74954,35.4126,-94.4906
+74955,35.5014,-94.7575
+74956,35.0964,-94.7744
+74957,34.5238,-94.6551
+74959,35.2709,-94.6233
+74960,35.8104,-94.6505
+74962,35.5440,-94.9408
+74963,34.4122,-94.5634
+74964,36.1119,-94.6588
+74965,35.9965,-94.6311
+74966,34.8943,-94.8706
+75001,32.9600,-96.8372
+75002,33.0899,-96.6086
+75006,32.9621,-96.8986
+75007,33.0053,-96.8967
+75009,33.3389,-96.7530
+75010,33.0408,-96.8755
+75013,33.1143,-96.6940
+75019,32.9613,-96.9858
+75020,33.7727,-96.6070
+75021,33.7280,-96.4784
+75022,33.0245,-97.1195
+75023,33.0568,-96.7309
+75024,33.0779,-96.8110
+75025,33.0901,-96.7400
+75028,33.0330,-97.0646
+75032,32.8571,-96.4312
+75033,33.1848,-96.8443
+75034,33.1213,-96.8385
+75035,33.1663,-96.7756
+75036,33.1334,-96.9147
+75038,32.8723,-96.9788
+75039,32.8850,-96.9373
+75040,32.9289,-96.6198
+75041,32.8802,-96.6516
+75042,32.9145,-96.6750
+75043,32.8558,-96.5782
+75044,32.9646,-96.6497
+75048,32.9690,-96.5795
+75050,32.7731,-97.0052
+75051,32.7256,-96.9921
+75052,32.6647,-97.0295
+75054,32.6138,-97.0254
+75056,33.0757,-96.9081
+75057,33.0507,-96.9746
+75058,33.4491,-96.7371
+75060,32.7980,-96.9526
+75061,32.8259,-96.9669
+75062,32.8474,-96.9579
+75063,32.9106,-97.0005
+75065,33.1103,-97.0054
+75067,33.0161,-96.9990
+75068,33.1775,-96.9524
+75069,33.1641,-96.5954
+75070,33.1547,-96.6967
+75071,33.2458,-96.6307
+75072,33.1879,-96.7000
+75074,33.0333,-96.6728
+75075,33.0213,-96.7416
+75076,33.8007,-96.7260
+75077,33.0812,-97.0609
+75078,33.2413,-96.8124
+75080,32.9761,-96.7421
+75081,32.9496,-96.7074
+75082,32.9946,-96.6668
+75087,32.9486,-96.4421
+75088,32.8916,-96.5418
+75089,32.9376,-96.5442
+75090,33.6041,-96.5504
+75092,33.6521,-96.7003
+75093,33.0342,-96.8116
+75094,33.0198,-96.6135
+75098,33.0145,-96.5348
+75101,32.2700,-96.7024
+75102,32.0866,-96.6358
+75103,32.5169,-95.8835
+75104,32.5848,-96.9723
+75105,32.2671,-96.3680
+75109,32.0428,-96.3438
+75110,32.0796,-96.5205
+75114,32.6166,-96.4434
+75115,32.5994,-96.8641
+75116,32.6607,-96.9119
+75117,32.7111,-95.8584
+75119,32.3239,-96.5903
+75124,32.3186,-95.9702
+75125,32.5367,-96.6217
+75126,32.7426,-96.4529
+75127,32.6994,-95.7914
+75132,32.9387,-96.3804
+75134,32.6228,-96.7795
+75135,33.0675,-96.2244
+75137,32.6348,-96.9134
+75140,32.6355,-95.6864
+75141,32.6400,-96.6933
+75142,32.5682,-96.2502
+75143,32.3646,-96.2450
+75144,32.1084,-96.2080
+75146,32.5663,-96.7486
+75147,32.4261,-96.0646
+75148,32.1246,-96.0258
+75149,32.7734,-96.6188
+75150,32.8139,-96.6310
+75152,32.4399,-96.6781
+75153,32.1665,-96.3588
+75154,32.5243,-96.8091
+75155,32.2291,-96.4755
+75156,32.2779,-96.1053
+75157,32.4634,-96.4493
+75158,32.4653,-96.4011
+75159,32.6043,-96.5406
+75160,32.7643,-96.2933
+75161,32.7388,-96.1639
+75163,32.1668,-96.1185
+75164,33.0756,-96.3034
+75165,32.3717,-96.8030
+75166,33.0147,-96.4494
+75167,32.3608,-96.9155
+75169,32.7033,-95.9947
+75172,32.6052,-96.6743
+75173,33.0617,-96.3958
+75180,32.7194,-96.6186
+75181,32.7239,-96.5559
+75182,32.8005,-96.5476
+75189,32.9421,-96.3117
+75201,32.7883,-96.7996
+75202,32.7785,-96.8037
+75203,32.7443,-96.8019
+75204,32.8022,-96.7889
+75205,32.8371,-96.7972
+75206,32.8313,-96.7712
+75207,32.7877,-96.8207
+75208,32.7546,-96.8396
+75209,32.8483,-96.8255
+75210,32.7713,-96.7471
+75211,32.7368,-96.9075
+75212,32.7822,-96.8788
+75214,32.8290,-96.7429
+75215,32.7529,-96.7610
+75216,32.7113,-96.7812
+75217,32.7126,-96.6820
+75218,32.8403,-96.7040
+75219,32.8109,-96.8132
+75220,32.8685,-96.8761
+75223,32.7926,-96.7456
+75224,32.7114,-96.8386
+75225,32.8649,-96.7904
+75226,32.7831,-96.7766
+75227,32.7668,-96.6869
+75228,32.8249,-96.6794
+75229,32.8936,-96.8673
+75230,32.9027,-96.7934
+75231,32.8735,-96.7476
+75232,32.6590,-96.8396
+75233,32.7039,-96.8719
+75234,32.9249,-96.8881
+75235,32.8326,-96.8491
+75236,32.6888,-96.9357
+75237,32.6649,-96.8724
+75238,32.8785,-96.7079
+75240,32.9302,-96.7927
+75241,32.6667,-96.7589
+75243,32.9126,-96.7366
+75244,32.9254,-96.8363
+75246,32.7925,-96.7728
+75247,32.8144,-96.8783
+75248,32.9697,-96.7973
+75249,32.6361,-96.9646
+75251,32.9194,-96.7748
+75252,32.9968,-96.7885
+75253,32.6744,-96.6092
+75254,32.9441,-96.8001
+75261,32.9032,-97.0531
+75270,32.7813,-96.8019
+75287,32.9993,-96.8417
+75390,32.8140,-96.8428
+75401,33.1890,-96.1088
+75402,33.0679,-96.0880
+75407,33.1558,-96.4804
+75409,33.3555,-96.5163
+75410,32.7925,-95.6370
+75411,33.8683,-95.6378
+75412,33.8008,-95.1347
+75413,33.4360,-96.1648
+75414,33.6236,-96.4279
+75415,33.4557,-95.7238
+75416,33.5981,-95.3283
+75417,33.4397,-95.1404
+75418,33.5719,-96.1710
+75420,33.0652,-95.7184
+75421,33.6614,-95.7312
+75422,33.1391,-95.9236
+75423,33.2919,-96.1998
+75424,33.3054,-96.3893
+75426,33.6483,-95.0116
+75428,33.2747,-95.9176
+75429,33.2785,-95.8923
+75431,33.0142,-95.4609
+75432,33.3859,-95.6733
+75433,33.0981,-95.8032
+75434,33.4163,-95.3441
+75435,33.5005,-95.2903
+75436,33.7422,-95.2557
+75437,33.2572,-95.4647
+75438,33.6156,-96.0722
+75439,33.5535,-96.2829
+75440,32.8729,-95.7540
+75441,33.4277,-95.6429
+75442,33.1761,-96.3464
+75446,33.6151,-95.9001
+75447,33.7724,-96.1244
+75448,33.3163,-95.7890
+75449,33.4234,-95.9495
+75450,33.3979,-95.4616
+75451,32.9593,-95.1252
+75452,33.4022,-96.2386
+75453,33.0099,-95.9327
+75454,33.2829,-96.5612
+75455,33.2174,-94.9830
+75457,33.1764,-95.2099
+75459,33.5288,-96.6823
+75460,33.6621,-95.6050
+75462,33.6243,-95.4917
+75468,33.5074,-95.4036
+75469,33.3996,-95.8225
+75470,33.5872,-95.8020
+75471,33.0568,-95.3735
+75472,32.8844,-95.8696
+75473,33.8156,-95.4880
+75474,32.9240,-96.1094
+75475,33.4859,-96.2576
+75476,33.7083,-96.2407
+75477,33.5299,-95.7381
+75478,33.1732,-95.3486
+75479,33.6302,-96.3303
+75480,33.0153,-95.1959
+75481,33.3200,-95.3735
+75482,33.1680,-95.6082
+75486,33.7452,-95.7443
+75487,33.3394,-95.1602
+75488,33.7788,-95.9968
+75489,33.5203,-96.4852
+75490,33.4380,-96.3083
+75491,33.4863,-96.3959
+75492,33.5970,-95.9920
+75493,33.1422,-95.1144
+75494,32.9172,-95.2599
+75495,33.4392,-96.5468
+75496,33.3637,-96.0654
+75497,32.9219,-95.5762
+75501,33.3718,-94.1398
+75503,33.5179,-94.1371
+75550,33.4982,-94.8908
+75551,33.1193,-94.2205
+75554,33.5790,-94.7798
+75555,32.9392,-94.1423
+75556,33.1548,-94.0624
+75558,33.2555,-94.8497
+75559,33.5035,-94.6499
+75560,33.2022,-94.3661
+75561,33.5168,-94.2816
+75562,32.9359,-94.2530
+75563,33.0278,-94.3930
+75564,32.8878,-94.2496
+75565,32.9502,-94.0740
+75566,33.1526,-94.4902
+75567,33.3161,-94.3208
+75568,33.1932,-94.5873
+75569,33.4412,-94.1227
+75570,33.4639,-94.4374
+75571,33.2070,-94.7736
+75572,33.2259,-94.1277
+75573,33.3481,-94.2291
+75574,33.3250,-94.5507
+75601,32.5086,-94.7242
+75602,32.4368,-94.6435
+75603,32.4031,-94.7112
+75604,32.5136,-94.8280
+75605,32.5851,-94.7103
+75630,32.8531,-94.5725
+75631,32.2616,-94.4499
+75633,32.1385,-94.2742
+75638,33.0205,-94.7297
+75639,32.2786,-94.1690
+75640,32.7084,-94.6832
+75641,32.3845,-94.5757
+75642,32.3582,-94.1782
+75643,32.0058,-94.3616
+75644,32.7912,-94.9998
+75645,32.6788,-94.8795
+75647,32.5166,-94.9631
+75650,32.5133,-94.5488
+75651,32.6692,-94.5245
+75652,32.2394,-94.7283
+75654,32.0912,-94.8345
+75656,33.0113,-94.5722
+75657,32.7950,-94.3103
+75658,32.1722,-94.8991
+75659,32.5073,-94.0925
+75661,32.6380,-94.1530
+75662,32.3803,-94.8741
+75667,31.9882,-94.8443
+75668,32.9071,-94.6786
+75669,32.0322,-94.5548
+75670,32.5593,-94.4223
+75671,32.4891,-94.3150
+75672,32.4683,-94.2991
+75680,32.0103,-94.7181
+75681,31.9542,-94.6836
+75682,32.2616,-94.9536
+75683,32.8268,-94.7372
+75684,32.2770,-94.9372
+75686,32.9671,-94.9442
+75687,32.1058,-94.9634
+75689,32.1871,-94.9616
+75691,32.3119,-94.5518
+75692,32.4708,-94.1180
+75693,32.5338,-94.8607
+75694,32.6383,-94.3444
+75701,32.3229,-95.2963
+75702,32.3640,-95.3117
+75703,32.2351,-95.3208
+75704,32.4016,-95.4487
+75705,32.3754,-95.0765
+75706,32.4724,-95.2940
+75707,32.3038,-95.1688
+75708,32.4132,-95.2087
+75709,32.3124,-95.3855
+75711,32.3370,-95.2838
+75750,32.2675,-95.0777
+75751,32.0698,-95.9207
+75752,32.2519,-95.7999
+75754,32.4129,-95.6494
+75755,32.6417,-95.0756
+75756,32.2935,-95.5786
+75757,32.1104,-95.3481
+75758,32.2714,-95.5214
+75759,32.0361,-95.4158
+75760,31.8099,-94.8632
+75762,32.2183,-95.4134
+75763,32.0428,-95.5234
+75764,31.8952,-95.1437
+75765,32.6420,-95.2349
+75766,31.9463,-95.2519
+75770,32.1586,-95.6437
+75771,32.5327,-95.4273
+75773,32.6815,-95.4477
+75778,32.3009,-95.7098
+75779,31.8632,-95.4846
+75780,31.9891,-95.0912
+75782,32.0690,-95.5884
+75783,32.8165,-95.4248
+75784,31.8718,-94.9656
+75785,31.7579,-95.1762
+75788,31.8225,-94.9161
+75789,32.1095,-95.0942
+75790,32.5270,-95.6432
+75791,32.2217,-95.2207
+75792,32.4691,-95.1063
+75801,31.7419,-95.5512
+75803,31.8818,-95.6795
+75831,31.4737,-96.0094
+75833,31.2686,-95.8439
+75835,31.2849,-95.4906
+75838,31.4789,-96.2298
+75839,31.6180,-95.5590
+75840,31.7826,-96.0936
+75844,31.5253,-95.4229
+75845,31.0876,-95.0770
+75846,31.3475,-96.1791
+75847,31.3420,-95.1197
+75848,31.7727,-96.3340
+75849,31.3966,-95.4762
+75850,31.1357,-95.9350
+75851,31.0924,-95.4999
+75852,30.9995,-95.7000
+75853,31.9469,-95.8145
+75855,31.5573,-95.8636
+75856,31.2014,-95.2537
+75858,31.3808,-95.1367
+75859,31.8879,-96.2543
+75860,31.6226,-96.2454
+75861,31.8516,-95.8885
+75862,30.9647,-95.3259
+75865,31.0582,-94.9624
+75884,31.7892,-95.8926
+75886,31.7778,-95.9164
+75901,31.3017,-94.6414
+75903,31.3741,-94.7480
+75904,31.3270,-94.8396
+75925,31.6149,-95.0625
+75926,31.2441,-94.9589
+75928,30.6714,-93.7113
+75929,31.2267,-94.1917
+75930,31.3400,-94.0352
+75931,31.0955,-93.9949
+75932,31.0561,-93.6157
+75933,30.5538,-93.8127
+75934,30.8951,-94.7591
+75935,31.7198,-94.1990
+75936,30.9514,-94.5888
+75937,31.4820,-94.3959
+75938,30.9405,-94.3536
+75939,31.0173,-94.8015
+75941,31.1871,-94.7588
+75942,30.8258,-94.4165
+75943,31.6584,-94.8942
+75944,31.3541,-94.3877
+75946,31.8144,-94.5150
+75948,31.2749,-93.7217
+75949,31.2298,-94.5092
+75951,30.9344,-94.0596
+75954,31.9043,-94.0481
+75956,30.6764,-93.9831
+75959,31.5123,-93.8391
+75960,30.9109,-94.8547
+75961,31.5584,-94.5048
+75962,31.6198,-94.6484
+75964,31.6295,-94.7768
+75965,31.7290,-94.6265
+75966,30.8280,-93.7145
+75968,31.2522,-93.9540
+75969,31.4457,-94.8876
+75972,31.5021,-94.1216
+75973,31.7113,-93.9429
+75974,31.9584,-94.2398
+75975,31.8905,-94.4186
+75976,31.5194,-94.9504
+75977,31.0652,-93.7867
+75979,30.7486,-94.3891
+75980,31.0945,-94.3502
+76001,32.6311,-97.1559
+76002,32.6219,-97.0935
+76005,32.8011,-97.0756
+76006,32.7871,-97.1026
+76008,32.6824,-97.6266
+76009,32.4162,-97.2021
+76010,32.7227,-97.0807
+76011,32.7520,-97.0826
+76012,32.7551,-97.1392
+76013,32.7193,-97.1550
+76014,32.6921,-97.0865
+76015,32.6916,-97.1360
+76016,32.6892,-97.1891
+76017,32.6625,-97.1640
+76018,32.6623,-97.0904
+76020,32.9002,-97.5612
+76021,32.8530,-97.1304
+76022,32.8306,-97.1450
+76023,33.0420,-97.5971
+76028,32.5327,-97.3065
+76031,32.3462,-97.3281
+76033,32.2917,-97.5168
+76034,32.8915,-97.1497
+76035,32.5656,-97.6462
+76036,32.5710,-97.4213
+76039,32.8603,-97.0860
+76040,32.8199,-97.1028
+76041,32.2376,-96.8418
+76043,32.1981,-97.7606
+76044,32.4259,-97.5399
+76048,32.4082,-97.8013
+76049,32.4598,-97.7070
+76050,32.2679,-97.1548
+76051,32.9420,-97.0799
+76052,32.9791,-97.3713
+76053,32.8165,-97.1807
+76054,32.8573,-97.1786
+76055,32.1597,-97.1485
+76058,32.4718,-97.4268
+76059,32.3937,-97.3307
+76060,32.6396,-97.2175
+76061,32.5026,-97.1981
+76063,32.5707,-97.1448
+76064,32.3093,-97.0373
+76065,32.4694,-96.9907
+76066,32.6962,-97.9992
+76067,32.8024,-98.1425
+76070,32.2166,-97.6591
+76071,33.0113,-97.4744
+76073,33.0956,-97.7212
+76077,32.2820,-97.7138
+76078,33.0933,-97.4628
+76082,32.9700,-97.7337
+76084,32.4263,-97.0904
+76085,32.8611,-97.6922
+76086,32.7522,-97.7893
+76087,32.6684,-97.7911
+76088,32.8507,-97.9029
+76092,32.9545,-97.1489
+76093,32.2100,-97.4058
+76102,32.7578,-97.3289
+76103,32.7489,-97.2726
+76104,32.7284,-97.3179
+76105,32.7233,-97.2700
+76106,32.8167,-97.3596
+76107,32.7421,-97.3817
+76108,32.7881,-97.5232
+76109,32.7007,-97.3870
+76110,32.7078,-97.3383
+76111,32.7805,-97.3006
+76112,32.7474,-97.2177
+76114,32.7746,-97.4074
+76115,32.6785,-97.3305
+76116,32.7207,-97.4470
+76117,32.8034,-97.2674
+76118,32.7937,-97.1940
+76119,32.6911,-97.2615
+76120,32.7665,-97.1807
+76123,32.6230,-97.4034
+76126,32.6488,-97.5148
+76127,32.7766,-97.4305
+76129,32.7093,-97.3627
+76131,32.8818,-97.3459
+76132,32.6682,-97.4159
+76133,32.6529,-97.3795
+76134,32.6436,-97.3301
+76135,32.8363,-97.4699
+76137,32.8597,-97.2915
+76140,32.6199,-97.2781
+76148,32.8684,-97.2521
+76155,32.8240,-97.0491
+76164,32.7807,-97.3539
+76177,32.9665,-97.3038
+76179,32.9099,-97.4343
+76180,32.8407,-97.2242
+76182,32.8865,-97.2081
+76201,33.2210,-97.1460
+76203,33.2121,-97.1518
+76205,33.1926,-97.1293
+76207,33.2220,-97.1761
+76208,33.2086,-97.0554
+76209,33.2315,-97.1100
+76210,33.1495,-97.0960
+76225,33.3740,-97.6678
+76226,33.1055,-97.1775
+76227,33.2734,-96.9904
+76228,33.6179,-98.0627
+76230,33.5237,-97.9319
+76233,33.5427,-96.8948
+76234,33.2763,-97.5142
+76238,33.4790,-97.3518
+76239,33.5122,-97.5766
+76240,33.6616,-97.1764
+76241,33.6454,-97.1763
+76244,32.9280,-97.2766
+76245,33.8238,-96.8631
+76247,33.1012,-97.3475
+76248,32.9291,-97.2262
+76249,33.2788,-97.3023
+76250,33.6301,-97.2425
+76251,33.6590,-97.6855
+76252,33.6707,-97.3780
+76253,33.6253,-97.3136
+76255,33.8114,-97.7187
+76258,33.3711,-96.9322
+76259,33.1987,-97.3120
+76261,33.7931,-97.9638
+76262,33.0097,-97.2200
+76263,33.5043,-97.4374
+76264,33.7485,-96.8368
+76265,33.7199,-97.5408
+76266,33.3728,-97.2133
+76267,33.3693,-97.3971
+76268,33.6278,-96.7653
+76270,33.4614,-97.7590
+76271,33.4689,-96.9139
+76272,33.4560,-97.1271
+76273,33.7439,-96.9361
+76301,33.9051,-98.4804
+76302,33.8661,-98.4848
+76305,34.0062,-98.3877
+76306,33.9497,-98.5272
+76308,33.8548,-98.5373
+76309,33.8955,-98.5440
+76310,33.8052,-98.5285
+76311,33.9733,-98.5083
+76351,33.5580,-98.6954
+76354,34.0902,-98.6254
+76357,34.0788,-98.1848
+76360,33.8828,-98.8827
+76363,33.5132,-99.5239
+76364,34.1433,-99.0114
+76365,33.7575,-98.2084
+76366,33.7146,-98.7749
+76367,33.9715,-98.7148
+76370,33.4562,-98.8957
+76371,33.4827,-99.6549
+76372,33.2360,-98.9325
+76373,34.1587,-99.1277
+76374,33.3439,-98.7631
+76377,34.0083,-98.2586
+76379,33.6682,-98.4891
+76380,33.6030,-99.2136
+76384,34.1413,-99.3188
+76388,33.3228,-99.6421
+76389,33.5128,-98.4812
+76401,32.2712,-98.2055
+76402,32.2165,-98.2158
+76424,32.8012,-98.8870
+76426,33.1601,-97.8400
+76427,33.1306,-98.3965
+76429,32.7594,-98.6664
+76430,32.8045,-99.2231
+76431,33.3028,-97.8684
+76432,31.8370,-98.7843
+76433,32.3057,-98.0096
+76435,32.2245,-98.8560
+76436,31.8682,-98.2184
+76437,32.3823,-99.0239
+76439,32.6180,-97.9268
+76442,31.8909,-98.6131
+76443,32.1134,-99.2115
+76444,32.1237,-98.5774
+76445,32.3054,-98.5422
+76446,32.0747,-98.3597
+76448,32.3926,-98.7907
+76449,32.9016,-98.3155
+76450,33.0604,-98.6525
+76452,31.7604,-98.3971
+76453,32.5842,-98.3357
+76454,32.2265,-98.7004
+76455,31.8214,-98.3668
+76457,31.9447,-98.0280
+76458,33.2158,-98.1919
+76459,33.2753,-98.3902
+76460,33.3065,-98.5003
+76462,32.5207,-98.0297
+76463,32.4554,-98.4182
+76464,32.5792,-99.1564
+76466,32.4289,-98.7331
+76469,32.3361,-99.2024
+76470,32.5031,-98.6749
+76471,32.1073,-98.9829
+76472,32.6077,-98.1798
+76474,31.9587,-98.7751
+76475,32.6733,-98.4859
+76476,32.3626,-97.9244
+76481,32.9963,-98.6984
+76483,33.1601,-99.2828
+76484,32.7403,-98.3025
+76486,33.0146,-98.0532
+76487,32.9725,-97.9049
+76490,32.9619,-98.0443
+76491,33.0571,-99.0388
+76501,31.0753,-97.2524
+76502,31.1040,-97.4120
+76504,31.1423,-97.3746
+76511,30.7981,-97.4195
+76513,31.0570,-97.5030
+76518,30.8520,-97.1380
+76519,30.9948,-97.0334
+76520,30.8726,-96.9173
+76522,31.2190,-97.9682
+76523,30.8027,-97.2724
+76524,31.2686,-97.2025
+76525,31.4735,-98.1820
+76527,30.8362,-97.7956
+76528,31.4410,-97.7746
+76530,30.7122,-97.4248
+76531,31.6868,-98.1870
+76534,30.8844,-97.3785
+76537,30.8173,-97.6030
+76538,31.6289,-97.9221
+76539,31.0906,-97.9957
+76541,31.1144,-97.7293
+76542,30.9894,-97.7027
+76543,31.1247,-97.6435
+76544,31.3303,-97.6896
+76548,31.0546,-97.6417
+76549,31.0171,-97.8331
+76550,31.1025,-98.2596
+76554,30.9679,-97.3770
+76556,30.6966,-96.8448
+76557,31.2938,-97.4002
+76559,31.0832,-97.6141
+76561,31.4289,-97.5429
+76565,31.6451,-98.3492
+76566,31.5141,-98.0002
+76567,30.6315,-97.0283
+76569,30.9393,-97.2175
+76570,31.0823,-96.9535
+76571,30.9493,-97.6044
+76573,30.8187,-97.5024
+76574,30.5793,-97.3886
+76577,30.6134,-97.1837
+76578,30.5354,-97.2372
+76579,31.1973,-97.2419
+76596,31.4763,-97.7270
+76597,31.4845,-97.7098
+76598,31.4755,-97.7349
+76599,31.4642,-97.7375
+76621,31.8738,-97.0874
+76622,31.8162,-97.2433
+76623,32.2268,-96.8004
+76624,31.6610,-96.9551
+76626,32.1230,-96.7231
+76627,32.1022,-97.3893
+76628,32.0378,-96.9698
+76629,31.1498,-96.6518
+76630,31.3496,-97.2226
+76631,31.9866,-96.9659
+76632,31.3065,-97.0657
+76633,31.6951,-97.3289
+76634,31.8053,-97.5705
+76635,31.7163,-96.6614
+76636,32.1702,-97.2902
+76637,31.7746,-97.7560
+76638,31.5584,-97.4445
+76639,31.8670,-96.6558
+76640,31.6966,-97.0737
+76641,32.0447,-96.7869
+76642,31.4982,-96.5255
+76643,31.4494,-97.1976
+76645,32.0124,-97.1270
+76648,31.8486,-96.8074
+76649,32.0016,-97.8827
+76650,31.9801,-96.8636
+76651,32.1847,-96.8682
+76652,32.1175,-97.5756
+76653,31.2954,-96.6072
+76654,31.7210,-97.0159
+76655,31.3924,-97.1742
+76656,31.1778,-97.0637
+76657,31.4383,-97.3997
+76660,31.9356,-96.8927
+76661,31.3072,-96.8403
+76664,31.5607,-96.8027
+76665,31.9250,-97.7154
+76666,32.0403,-96.8950
+76667,31.6571,-96.4654
+76670,32.1360,-96.9890
+76671,31.9884,-97.5312
+76673,31.7510,-96.8918
+76676,31.8764,-96.9590
+76678,31.6511,-96.7492
+76679,31.9554,-96.5767
+76680,31.1907,-96.8014
+76681,31.9159,-96.4361
+76682,31.4535,-96.9135
+76685,31.3394,-97.0082
+76686,31.7432,-96.5402
+76687,31.3692,-96.4863
+76689,31.6622,-97.5061
+76690,32.1043,-97.7948
+76691,31.7699,-97.0982
+76692,31.9597,-97.3304
+76693,31.8119,-96.4439
+76701,31.5520,-97.1382
+76704,31.5754,-97.1242
+76705,31.6267,-97.0845
+76706,31.4563,-97.0844
+76707,31.5539,-97.1591
+76708,31.6271,-97.2159
+76710,31.5397,-97.1950
+76711,31.5138,-97.1530
+76712,31.5265,-97.2612
+76798,31.5461,-97.1210
+76801,31.7442,-99.0564
+76802,31.7156,-98.8946
+76820,30.7843,-99.0413
+76821,31.7382,-99.9505
+76823,31.6873,-99.1683
+76824,30.9368,-98.4671
+76825,31.0985,-99.3939
+76827,31.5272,-99.1366
+76828,32.0062,-99.2922
+76831,30.7576,-98.9578
+76832,30.9630,-98.7469
+76834,31.8820,-99.4800
+76836,31.4225,-99.5876
+76837,31.2072,-99.8927
+76841,30.8541,-100.1373
+76842,30.9232,-99.1017
+76844,31.4509,-98.5021
+76845,31.5381,-99.4882
+76848,30.8392,-99.5637
+76849,30.4724,-99.8215
+76852,31.3577,-99.4573
+76853,31.2676,-98.3718
+76854,30.5559,-99.5282
+76856,30.6915,-99.2733
+76857,31.9312,-98.9274
+76858,31.2071,-99.6145
+76859,30.8853,-99.8589
+76861,31.5956,-100.2016
+76862,31.4148,-99.7053
+76864,31.5584,-98.7489
+76865,31.8497,-100.1536
+76866,31.4398,-99.9280
+76869,30.9097,-98.9757
+76870,31.6043,-98.5296
+76871,31.2703,-98.9858
+76872,31.3358,-99.1482
+76873,31.5058,-99.3701
+76874,30.4769,-100.1227
+76875,31.6015,-100.0156
+76877,31.1571,-98.7640
+76878,31.6578,-99.2929
+76880,31.4449,-98.3151
+76882,31.8003,-99.7110
+76884,31.6907,-99.5691
+76885,30.8590,-98.8613
+76887,31.0316,-99.1585
+76888,31.6099,-99.6405
+76890,31.6942,-98.7663
+76901,31.5087,-100.6487
+76902,31.5444,-100.7245
+76903,31.4815,-100.4379
+76904,31.2870,-100.4236
+76905,31.4998,-100.3158
+76908,31.4322,-100.4032
+76909,31.4414,-100.4663
+76930,31.1105,-101.1196
+76932,31.1925,-101.5638
+76933,31.8808,-100.2840
+76934,31.6149,-100.6767
+76935,31.0723,-100.4248
+76936,30.8918,-100.6553
+76937,31.3911,-100.1503
+76939,31.2686,-100.5903
+76940,31.4368,-100.1269
+76941,31.2453,-100.8612
+76943,30.4704,-101.3216
+76945,31.8730,-100.6047
+76950,30.4359,-100.5648
+76951,31.8027,-101.0556
+76953,31.7275,-100.3200
+76955,31.2992,-100.1389
+76957,31.3723,-100.3051
+76958,31.6447,-100.7552
+77002,29.7568,-95.3657
+77003,29.7506,-95.3458
+77004,29.7243,-95.3642
+77005,29.7184,-95.4236
+77006,29.7409,-95.3913
+77007,29.7716,-95.4089
+77008,29.7982,-95.4169
+77009,29.7953,-95.3676
+77010,29.7536,-95.3597
+77011,29.7430,-95.3071
+77012,29.7185,-95.2741
+77013,29.7953,-95.2340
+77014,29.9858,-95.4652
+77015,29.7648,-95.1714
+77016,29.8624,-95.2977
+77017,29.6920,-95.2502
+77018,29.8274,-95.4261
+77019,29.7533,-95.4129
+77020,29.7683,-95.3090
+77021,29.6984,-95.3569
+77022,29.8316,-95.3796
+77023,29.7218,-95.3183
+77024,29.7671,-95.5056
+77025,29.6857,-95.4348
+77026,29.8002,-95.3289
+77027,29.7393,-95.4464
+77028,29.8251,-95.2864
+77029,29.7594,-95.2566
+77030,29.7056,-95.4018
+77031,29.6522,-95.5462
+77032,29.9859,-95.3458
+77033,29.6683,-95.3386
+77034,29.6147,-95.1932
+77035,29.6557,-95.4713
+77036,29.6990,-95.5365
+77037,29.8914,-95.3906
+77038,29.9193,-95.4412
+77039,29.9084,-95.3498
+77040,29.8765,-95.5322
+77041,29.8578,-95.5857
+77042,29.7406,-95.5603
+77043,29.8109,-95.5846
+77044,29.9063,-95.1806
+77045,29.6473,-95.4314
+77046,29.7344,-95.4331
+77047,29.6106,-95.3869
+77048,29.6232,-95.3276
+77049,29.8329,-95.1490
+77050,29.9029,-95.2693
+77051,29.6561,-95.3787
+77053,29.5857,-95.4613
+77054,29.6803,-95.4049
+77055,29.7969,-95.4927
+77056,29.7482,-95.4689
+77057,29.7441,-95.4892
+77058,29.5616,-95.0996
+77059,29.6135,-95.1187
+77060,29.9355,-95.3976
+77061,29.6472,-95.2762
+77062,29.5758,-95.1343
+77063,29.7357,-95.5216
+77064,29.9242,-95.5417
+77065,29.9265,-95.6038
+77066,29.9572,-95.5033
+77067,29.9526,-95.4466
+77068,30.0071,-95.4884
+77069,29.9878,-95.5232
+77070,29.9795,-95.5733
+77071,29.6518,-95.5199
+77072,29.7004,-95.5850
+77073,30.0001,-95.4001
+77074,29.6879,-95.5157
+77075,29.6215,-95.2690
+77076,29.8600,-95.3822
+77077,29.7536,-95.6420
+77078,29.8541,-95.2448
+77079,29.7780,-95.6031
+77080,29.8183,-95.5224
+77081,29.7128,-95.4785
+77082,29.7245,-95.6400
+77083,29.6940,-95.6478
+77084,29.8275,-95.6599
+77085,29.6205,-95.4853
+77086,29.9190,-95.4916
+77087,29.6865,-95.3039
+77088,29.8815,-95.4526
+77089,29.5870,-95.2256
+77090,30.0094,-95.4396
+77091,29.8531,-95.4360
+77092,29.8317,-95.4749
+77093,29.8632,-95.3419
+77094,29.7709,-95.6987
+77095,29.9100,-95.6588
+77096,29.6753,-95.4794
+77098,29.7348,-95.4161
+77099,29.6709,-95.5860
+77204,29.7209,-95.3435
+77301,30.3099,-95.4313
+77302,30.2221,-95.3449
+77303,30.3780,-95.3771
+77304,30.3296,-95.5117
+77306,30.2858,-95.3124
+77316,30.3062,-95.6864
+77318,30.4449,-95.5519
+77320,30.8077,-95.5580
+77326,30.5037,-94.8185
+77327,30.3480,-94.9307
+77328,30.4054,-95.1921
+77331,30.6177,-95.1844
+77334,30.7818,-95.3734
+77335,30.5917,-94.9207
+77336,30.0696,-95.1067
+77338,30.0144,-95.2830
+77339,30.0468,-95.2210
+77340,30.6565,-95.5307
+77341,30.6983,-95.5590
+77342,30.7388,-95.5592
+77345,30.0531,-95.1579
+77346,29.9920,-95.1773
+77350,30.8085,-94.9121
+77351,30.7178,-94.8172
+77354,30.2079,-95.6430
+77355,30.1563,-95.7493
+77356,30.4657,-95.7299
+77357,30.1569,-95.1811
+77358,30.5433,-95.4434
+77359,30.7738,-95.2997
+77360,30.8462,-95.1175
+77362,30.1566,-95.6715
+77363,30.3162,-95.8498
+77364,30.7730,-95.2150
+77365,30.1135,-95.2745
+77367,30.8481,-95.3901
+77368,30.4512,-94.8406
+77369,30.4218,-94.7353
+77371,30.4940,-94.9812
+77372,30.2677,-95.2010
+77373,30.0622,-95.3840
+77374,30.3922,-94.6441
+77375,30.0947,-95.5862
+77376,30.4440,-94.6755
+77377,30.0599,-95.6722
+77378,30.4781,-95.3849
+77379,30.0395,-95.5344
+77380,30.1370,-95.4684
+77381,30.1771,-95.5025
+77382,30.1951,-95.5479
+77384,30.2338,-95.4958
+77385,30.1867,-95.4290
+77386,30.1003,-95.3565
+77388,30.0619,-95.4659
+77389,30.1235,-95.5171
+77396,29.9434,-95.2625
+77401,29.7040,-95.4609
+77406,29.6461,-95.7945
+77407,29.6700,-95.7081
+77412,29.5608,-96.4583
+77414,28.9048,-95.8876
+77415,28.9370,-95.7067
+77417,29.4610,-95.9560
+77418,29.9871,-96.2529
+77419,28.8722,-96.2519
+77420,29.2334,-95.9188
+77422,28.9696,-95.5822
+77423,29.8331,-95.9869
+77426,30.1223,-96.2584
+77428,28.6729,-96.1570
+77429,29.9958,-95.6651
+77430,29.2599,-95.6677
+77431,29.1326,-95.8189
+77432,29.0358,-96.2282
+77433,29.9453,-95.7414
+77434,29.5236,-96.3182
+77435,29.5157,-96.1210
+77436,29.3650,-96.2526
+77437,29.2044,-96.2727
+77440,28.8902,-96.1455
+77441,29.6974,-95.9096
+77442,29.4379,-96.4950
+77443,29.3592,-96.1808
+77444,29.2864,-95.7778
+77445,30.0972,-96.0642
+77446,30.0871,-95.9896
+77447,30.0553,-95.8248
+77448,29.4164,-96.0854
+77449,29.8376,-95.7337
+77450,29.7482,-95.7362
+77451,29.4632,-96.0254
+77453,29.2319,-96.0192
+77454,29.5454,-96.2385
+77455,29.1316,-96.4454
+77456,28.9274,-96.0897
+77457,28.7004,-95.9451
+77458,28.9632,-96.2498
+77459,29.5264,-95.5338
+77460,29.3974,-96.3845
+77461,29.3933,-95.7748
+77464,29.6209,-95.9393
+77465,28.7119,-96.2261
+77466,29.7927,-96.0122
+77467,29.2341,-96.1824
+77468,29.1372,-95.8512
+77469,29.4914,-95.7021
+77470,29.5338,-96.5327
+77471,29.5485,-95.8620
+77473,29.7946,-96.1037
+77474,29.7741,-96.1900
+77475,29.5113,-96.6730
+77476,29.6766,-95.9734
+77477,29.6243,-95.5680
+77478,29.6175,-95.6083
+77479,29.5650,-95.6351
+77480,29.0915,-95.7701
+77481,29.4715,-95.5708
+77482,29.0927,-95.9035
+77483,28.7807,-95.8716
+77484,30.0856,-95.9272
+77485,29.6407,-96.0630
+77486,29.1604,-95.6920
+77488,29.2957,-96.0951
+77489,29.6005,-95.5155
+77493,29.8532,-95.8315
+77494,29.7447,-95.8155
+77498,29.6410,-95.6558
+77502,29.6799,-95.1996
+77503,29.6906,-95.1570
+77504,29.6479,-95.1898
+77505,29.6483,-95.1415
+77506,29.7184,-95.1911
+77507,29.6244,-95.0635
+77510,29.3489,-95.0916
+77511,29.3808,-95.2452
+77514,29.6880,-94.6259
+77515,29.1734,-95.4515
+77517,29.3595,-95.1408
+77518,29.5052,-94.9867
+77519,30.2183,-94.5751
+77520,29.7367,-95.0008
+77521,29.8119,-94.9627
+77523,29.7663,-94.8658
+77530,29.7894,-95.1140
+77531,29.0389,-95.4019
+77532,29.9329,-95.0572
+77533,30.0872,-94.5996
+77534,29.2152,-95.3112
+77535,30.0548,-94.9223
+77536,29.6917,-95.1165
+77538,29.9742,-94.5229
+77539,29.4530,-95.0285
+77541,29.0161,-95.3257
+77545,29.5373,-95.4730
+77546,29.5111,-95.1930
+77547,29.7401,-95.2391
+77550,29.3079,-94.7693
+77551,29.2795,-94.8335
+77554,29.2350,-94.9245
+77555,29.3108,-94.7765
+77560,29.8669,-94.5874
+77561,30.1347,-94.7355
+77562,29.8298,-95.0549
+77563,29.3036,-95.0324
+77564,30.2321,-94.6560
+77565,29.5380,-95.0330
+77566,29.0527,-95.4744
+77568,29.3658,-94.9880
+77571,29.6885,-95.0574
+77573,29.5038,-95.0873
+77575,30.0811,-94.7526
+77577,29.2597,-95.2646
+77578,29.4854,-95.3623
+77580,29.8575,-94.8741
+77581,29.5616,-95.2798
+77582,30.0138,-94.6621
+77583,29.3742,-95.4538
+77584,29.5450,-95.3507
+77585,30.3306,-94.5342
+77586,29.5819,-95.0387
+77587,29.6610,-95.2284
+77590,29.3786,-94.9167
+77591,29.3994,-94.9991
+77597,29.8284,-94.6963
+77598,29.5394,-95.1350
+77611,30.0144,-93.8282
+77612,30.4019,-93.9351
+77613,30.0277,-94.3588
+77614,30.3060,-93.7479
+77615,30.3571,-94.0657
+77616,30.5668,-94.2090
+77617,29.5308,-94.4699
+77619,29.9460,-93.9167
+77622,29.8624,-94.2860
+77623,29.5613,-94.4140
+77624,30.6790,-94.2715
+77625,30.3675,-94.3914
+77627,29.9904,-94.0070
+77629,29.9775,-94.4331
+77630,30.0663,-93.8701
+77632,30.2015,-93.8046
+77640,29.8805,-93.9412
+77642,29.9580,-93.8919
+77650,29.4385,-94.6637
+77651,29.9806,-93.9480
+77655,29.7105,-93.9378
+77656,30.4244,-94.1691
+77657,30.2268,-94.1889
+77659,30.1714,-94.4323
+77660,30.6454,-94.1396
+77661,29.7800,-94.3686
+77662,30.1779,-94.0182
+77663,30.5127,-94.4067
+77664,30.5849,-94.3962
+77665,29.7899,-94.4063
+77701,30.0731,-94.1055
+77702,30.0863,-94.1283
+77703,30.1141,-94.1093
+77705,29.9085,-94.1752
+77706,30.1004,-94.1669
+77707,30.0531,-94.1661
+77708,30.1505,-94.1534
+77713,30.0688,-94.2597
+77801,30.6393,-96.3625
+77802,30.6609,-96.3223
+77803,30.6783,-96.3872
+77807,30.6777,-96.4836
+77808,30.7977,-96.3121
+77830,30.5324,-95.9982
+77831,30.7318,-95.9075
+77833,30.2059,-96.4101
+77835,30.1936,-96.5881
+77836,30.5416,-96.6762
+77837,31.0142,-96.6777
+77840,30.6115,-96.3233
+77843,30.6153,-96.3402
+77845,30.5611,-96.2751
+77852,30.4284,-96.7576
+77853,30.3546,-96.8408
+77855,31.1550,-96.1031
+77856,31.0921,-96.4122
+77857,30.7913,-96.7550
+77859,30.8795,-96.5163
+77861,30.7217,-96.1093
+77863,30.3908,-96.5589
+77864,30.9603,-95.8941
+77865,31.2117,-96.2032
+77866,30.4949,-96.2148
+77867,30.7427,-96.5707
+77868,30.3658,-96.0464
+77871,31.0572,-96.1110
+77872,30.8850,-96.0895
+77873,30.5826,-95.8005
+77875,30.5789,-95.9417
+77876,30.5976,-95.8569
+77878,30.4912,-96.4344
+77879,30.4165,-96.4657
+77880,30.2869,-96.1894
+77882,30.9114,-96.3791
+77901,28.8063,-96.9855
+77904,28.9176,-97.0119
+77905,28.7374,-97.0603
+77950,28.2461,-96.8974
+77951,28.6359,-96.9114
+77954,29.0965,-97.2957
+77957,29.0359,-96.7162
+77960,28.6535,-97.2524
+77961,28.8461,-96.3770
+77962,29.0308,-96.5034
+77963,28.6525,-97.4058
+77964,29.3788,-96.8346
+77968,28.9161,-96.8540
+77969,28.7826,-96.6540
+77970,28.8463,-96.4341
+77971,28.8333,-96.5216
+77973,28.5325,-96.9642
+77974,28.8979,-97.2889
+77975,29.5757,-97.0820
+77976,28.9406,-97.1342
+77977,28.6808,-96.8019
+77978,28.6904,-96.5779
+77979,28.6096,-96.6190
+77982,28.4446,-96.4918
+77983,28.3764,-96.6968
+77984,29.4657,-97.1939
+77986,29.4766,-96.7961
+77987,29.3456,-97.0802
+77988,28.8369,-96.8848
+77990,28.4849,-96.9249
+77991,28.7854,-96.5960
+77993,28.8557,-97.4196
+77994,29.1782,-97.4715
+77995,29.2004,-97.0919
+78001,28.2316,-99.2220
+78002,29.2838,-98.7377
+78003,29.7080,-99.1039
+78004,29.8577,-98.5377
+78005,28.9357,-98.8329
+78006,29.8586,-98.7034
+78007,28.4761,-98.4085
+78008,28.7276,-98.2598
+78009,29.3676,-98.8898
+78010,29.9108,-99.0468
+78011,28.8131,-98.7261
+78012,28.7718,-98.4535
+78013,29.9772,-98.9050
+78014,28.3951,-99.1139
+78015,29.7429,-98.6514
+78016,29.1814,-98.9517
+78017,28.7416,-99.2080
+78019,28.0244,-99.2708
+78021,28.4375,-98.8314
+78022,28.2383,-98.1686
+78023,29.6216,-98.7564
+78024,29.9955,-99.4856
+78025,30.0778,-99.2854
+78026,28.7473,-98.5591
+78027,29.9809,-98.5293
+78028,30.0365,-99.1630
+78029,29.8995,-99.1870
+78039,29.3121,-98.8348
+78040,27.5134,-99.5021
+78041,27.5596,-99.4630
+78043,27.5705,-99.3042
+78044,27.7325,-99.2297
+78045,27.8338,-99.6814
+78046,27.3855,-99.3891
+78050,29.0892,-98.5025
+78052,29.2105,-98.7753
+78055,29.8303,-99.3314
+78056,29.5409,-98.9426
+78057,29.0431,-99.0164
+78058,30.1059,-99.6009
+78059,29.1895,-98.8410
+78061,28.9019,-99.1266
+78062,28.7494,-98.2028
+78063,29.6897,-98.9112
+78064,28.9246,-98.4291
+78065,29.0798,-98.6423
+78066,29.4930,-98.8919
+78067,27.1036,-99.3633
+78069,29.1884,-98.6718
+78070,29.8923,-98.4083
+78071,28.4744,-98.1991
+78072,28.3253,-98.5864
+78073,29.2439,-98.6224
+78074,29.9423,-98.7922
+78075,28.5895,-98.2706
+78076,26.9341,-99.1310
+78101,29.3536,-98.2383
+78102,28.4154,-97.7145
+78104,28.5236,-97.7620
+78107,28.5683,-97.5792
+78108,29.5701,-98.2178
+78109,29.4780,-98.2934
+78111,29.0350,-97.7370
+78112,29.1869,-98.3928
+78113,28.9452,-98.1325
+78114,29.1268,-98.1984
+78116,29.1023,-97.7440
+78117,28.9383,-97.9236
+78118,28.8748,-97.9374
+78119,28.7214,-97.9138
+78121,29.3511,-98.0889
+78122,29.4572,-97.7076
+78123,29.6051,-98.0391
+78124,29.5573,-98.1469
+78125,28.5318,-97.9665
+78130,29.6936,-98.0687
+78132,29.7588,-98.1911
+78133,29.8839,-98.2522
+78140,29.3068,-97.7634
+78141,28.9081,-97.6189
+78142,28.5363,-97.8130
+78143,29.2587,-97.8512
+78144,28.9512,-97.8926
+78145,28.6454,-97.9925
+78146,28.6038,-97.8399
+78147,29.0734,-98.0804
+78148,29.5433,-98.2965
+78150,29.5382,-98.2816
+78151,28.8699,-97.7135
+78152,29.4292,-98.2045
+78154,29.5471,-98.2626
+78155,29.5430,-97.9377
+78159,29.2259,-97.5850
+78160,29.2451,-97.9089
+78161,29.2862,-98.0503
+78162,28.5782,-97.7945
+78163,29.7687,-98.4405
+78164,28.9796,-97.5210
+78201,29.4684,-98.5289
+78202,29.4282,-98.4608
+78203,29.4151,-98.4593
+78204,29.4044,-98.5050
+78205,29.4239,-98.4864
+78207,29.4221,-98.5260
+78208,29.4399,-98.4581
+78209,29.4889,-98.4562
+78210,29.3958,-98.4644
+78211,29.3425,-98.5700
+78212,29.4646,-98.4937
+78213,29.5164,-98.5230
+78214,29.3498,-98.4767
+78215,29.4404,-98.4803
+78216,29.5387,-98.4913
+78217,29.5400,-98.4201
+78218,29.4947,-98.3966
+78219,29.4399,-98.3845
+78220,29.4124,-98.3984
+78221,29.2986,-98.4831
+78222,29.3558,-98.3864
+78223,29.3105,-98.3875
+78224,29.3102,-98.5462
+78225,29.3880,-98.5258
+78226,29.3838,-98.5699
+78227,29.3899,-98.6394
+78228,29.4606,-98.5713
+78229,29.5055,-98.5770
+78230,29.5465,-98.5572
+78231,29.5810,-98.5425
+78232,29.5901,-98.4763
+78233,29.5553,-98.3640
+78234,29.4609,-98.4383
+78235,29.3442,-98.4390
+78236,29.3859,-98.6225
+78237,29.4209,-98.5665
+78238,29.4718,-98.6177
+78239,29.5162,-98.3618
+78240,29.5253,-98.6044
+78242,29.3504,-98.6071
+78243,29.3710,-98.5930
+78244,29.4777,-98.3511
+78245,29.3932,-98.7414
+78247,29.5814,-98.4088
+78248,29.5900,-98.5253
+78249,29.5685,-98.6143
+78250,29.5027,-98.6649
+78251,29.4617,-98.6767
+78252,29.3360,-98.6907
+78253,29.4702,-98.7876
+78254,29.5306,-98.7272
+78255,29.6492,-98.6663
+78256,29.6223,-98.6262
+78257,29.6471,-98.5811
+78258,29.6342,-98.4898
+78259,29.6252,-98.4219
+78260,29.6985,-98.4927
+78261,29.6896,-98.4024
+78263,29.3289,-98.3129
+78264,29.2012,-98.5090
+78266,29.6505,-98.3384
+78330,27.7558,-97.9260
+78332,27.7243,-98.1345
+78336,27.9279,-97.1712
+78338,26.8562,-97.7322
+78339,27.8000,-97.7961
+78340,28.1207,-97.1969
+78341,27.5750,-98.4711
+78342,27.6602,-98.0757
+78343,27.6260,-97.7662
+78344,27.5596,-98.8549
+78347,27.5734,-97.4864
+78349,27.3735,-98.2855
+78351,27.6678,-97.7526
+78352,27.9815,-97.6898
+78353,26.8830,-98.2405
+78355,27.1889,-98.2064
+78357,27.9338,-98.5673
+78358,28.0679,-97.0422
+78359,27.9302,-97.3005
+78360,26.8605,-98.8321
+78361,27.0532,-98.7476
+78362,27.8540,-97.1965
+78363,27.4368,-97.8538
+78368,28.1137,-97.8016
+78369,27.4293,-99.0860
+78370,27.9355,-97.6056
+78371,27.5126,-99.0736
+78372,28.0096,-98.0988
+78373,27.7763,-97.1304
+78374,27.8854,-97.2999
+78375,27.3963,-98.1713
+78376,27.3675,-98.4833
+78377,28.3221,-97.1625
+78379,27.3066,-97.7804
+78380,27.7761,-97.7419
+78382,28.1132,-97.0463
+78383,28.0728,-97.9441
+78384,27.7346,-98.4717
+78385,27.1216,-97.8361
+78387,28.0810,-97.5489
+78389,28.2463,-97.6508
+78390,28.0077,-97.3499
+78391,28.1796,-97.7084
+78393,28.1852,-97.3544
+78401,27.7968,-97.3991
+78402,27.8518,-97.4392
+78404,27.7679,-97.3994
+78405,27.7740,-97.4387
+78406,27.7720,-97.5155
+78407,27.8076,-97.4477
+78408,27.7996,-97.4437
+78409,27.8278,-97.5096
+78410,27.8377,-97.5931
+78411,27.7292,-97.3851
+78412,27.7036,-97.3450
+78413,27.6858,-97.4060
+78414,27.6624,-97.3715
+78415,27.6590,-97.4951
+78416,27.7493,-97.4376
+78417,27.7375,-97.4677
+78418,27.3891,-97.3291
+78419,27.6970,-97.2692
+78501,26.2158,-98.2396
+78503,26.1623,-98.2487
+78504,26.2828,-98.2369
+78516,26.1445,-98.1213
+78520,25.9609,-97.5486
+78521,25.9439,-97.3179
+78526,25.9957,-97.4508
+78535,26.2496,-97.7313
+78536,26.6432,-98.4437
+78537,26.1732,-98.0580
+78538,26.3672,-97.9740
+78539,26.2807,-98.1833
+78540,26.5491,-97.9916
+78541,26.4521,-98.2768
+78542,26.4325,-98.0899
+78543,26.3012,-98.0051
+78545,26.5856,-99.1347
+78547,26.3042,-98.6964
+78548,26.2765,-98.6553
+78549,26.4893,-98.0297
+78550,26.2557,-97.6635
+78552,26.1938,-97.7507
+78557,26.1095,-98.2535
+78558,26.2927,-98.0237
+78559,26.1457,-97.8257
+78560,26.2653,-98.4858
+78561,26.4689,-97.9158
+78562,26.2838,-97.8912
+78563,26.6723,-98.2550
+78564,26.6712,-99.1311
+78565,26.2445,-98.5613
+78566,26.1372,-97.3886
+78567,26.0442,-97.7384
+78569,26.3789,-97.7468
+78570,26.1715,-97.9110
+78572,26.2015,-98.3572
+78573,26.2962,-98.3000
+78574,26.3112,-98.3729
+78575,26.0333,-97.5502
+78576,26.3171,-98.4637
+78577,26.1634,-98.1939
+78578,26.0440,-97.3066
+78579,26.0892,-97.9463
+78580,26.5006,-97.7478
+78582,26.5309,-98.7402
+78583,26.2855,-97.4716
+78584,26.5697,-98.9920
+78585,26.4842,-99.0806
+78586,26.1099,-97.6454
+78588,26.7397,-98.3985
+78589,26.1512,-98.1593
+78590,26.5019,-97.6351
+78591,26.6391,-98.5519
+78592,26.0620,-97.8470
+78593,26.2757,-97.8235
+78594,26.3464,-97.8062
+78595,26.3146,-98.5404
+78596,26.0973,-97.9997
+78597,26.2732,-97.2764
+78598,26.5420,-97.4199
+78599,26.2170,-97.9880
+78602,30.1325,-97.3295
+78605,30.7733,-98.0452
+78606,30.0864,-98.4580
+78607,30.8194,-98.4881
+78608,30.9310,-97.9370
+78609,30.7469,-98.4514
+78610,30.0794,-97.8410
+78611,30.8011,-98.2835
+78612,30.0941,-97.4951
+78613,30.5071,-97.8195
+78614,29.4104,-97.5872
+78615,30.4631,-97.3929
+78616,29.9266,-97.5535
+78617,30.1471,-97.6015
+78618,30.4882,-99.1736
+78619,30.1122,-98.0310
+78620,30.2256,-98.1363
+78621,30.3370,-97.3604
+78622,29.7826,-97.7794
+78623,29.9553,-98.2168
+78624,30.2918,-98.8709
+78626,30.6579,-97.6178
+78628,30.6645,-97.7786
+78629,29.4768,-97.4489
+78631,30.3398,-99.3066
+78632,29.6855,-97.4715
+78633,30.7352,-97.7554
+78634,30.5599,-97.5441
+78635,30.2024,-98.5417
+78636,30.3169,-98.4250
+78638,29.6596,-97.7852
+78639,30.6563,-98.4555
+78640,29.9949,-97.8212
+78641,30.5579,-97.9137
+78642,30.6957,-97.9395
+78643,30.6797,-98.7149
+78644,29.8726,-97.6744
+78645,30.4500,-97.9720
+78648,29.6943,-97.6381
+78650,30.3039,-97.2189
+78652,30.1346,-97.8606
+78653,30.3382,-97.5207
+78654,30.5718,-98.2105
+78655,29.8161,-97.8351
+78656,29.9045,-97.8073
+78657,30.5334,-98.3784
+78658,29.5960,-97.6225
+78659,30.2074,-97.1254
+78660,30.4396,-97.5947
+78661,29.7219,-97.7589
+78662,29.9448,-97.4436
+78663,30.4155,-98.3117
+78664,30.5054,-97.6473
+78665,30.5489,-97.6362
+78666,29.8816,-97.9848
+78669,30.4425,-98.1234
+78670,29.7648,-97.8485
+78671,30.2190,-98.6299
+78672,30.8822,-98.4891
+78674,30.6706,-97.5985
+78675,30.4346,-98.7071
+78676,30.0388,-98.1596
+78677,29.3478,-97.5902
+78681,30.5418,-97.7166
+78701,30.2706,-97.7426
+78702,30.2634,-97.7145
+78703,30.2933,-97.7661
+78704,30.2430,-97.7651
+78705,30.2947,-97.7390
+78712,30.2839,-97.7329
+78717,30.4895,-97.7538
+78719,30.1397,-97.6726
+78721,30.2713,-97.6835
+78722,30.2901,-97.7146
+78723,30.3042,-97.6857
+78724,30.2927,-97.6179
+78725,30.2300,-97.6086
+78726,30.4308,-97.8401
+78727,30.4290,-97.7177
+78728,30.4532,-97.6887
+78729,30.4572,-97.7564
+78730,30.3636,-97.8398
+78731,30.3482,-97.7681
+78732,30.3801,-97.8919
+78733,30.3214,-97.8847
+78734,30.3801,-97.9478
+78735,30.2691,-97.8688
+78736,30.2484,-97.9497
+78737,30.1770,-97.9567
+78738,30.3070,-97.9889
+78739,30.1760,-97.8909
+78741,30.2297,-97.7137
+78742,30.2424,-97.6592
+78744,30.1778,-97.7251
+78745,30.2074,-97.7982
+78746,30.2969,-97.8096
+78747,30.1247,-97.7412
+78748,30.1600,-97.8233
+78749,30.2162,-97.8558
+78750,30.4411,-97.7867
+78751,30.3108,-97.7228
+78752,30.3314,-97.7036
+78753,30.3836,-97.6733
+78754,30.3566,-97.6394
+78756,30.3223,-97.7402
+78757,30.3517,-97.7327
+78758,30.3877,-97.7067
+78759,30.4027,-97.7609
+78801,29.3629,-99.8981
+78802,29.1462,-99.9211
+78827,28.4309,-99.7237
+78828,29.8443,-100.0092
+78829,28.8906,-99.5837
+78830,28.5195,-99.4771
+78832,29.4097,-100.3914
+78833,29.6949,-99.9718
+78834,28.5446,-99.8684
+78836,28.3163,-99.6337
+78837,29.9308,-101.2849
+78838,29.5346,-99.7065
+78839,28.7145,-99.7397
+78840,29.7298,-100.9260
+78841,29.8434,-101.4736
+78842,29.6398,-101.0051
+78843,29.3436,-100.7891
+78850,29.2853,-99.3292
+78851,30.2164,-101.9246
+78852,28.9437,-100.2271
+78860,28.4010,-100.2306
+78861,29.4146,-99.1558
+78870,29.2735,-99.6080
+78871,29.9009,-101.6203
+78872,28.9072,-99.8810
+78873,29.8154,-99.7273
+78877,28.9534,-100.6068
+78879,29.6471,-99.7113
+78880,29.9510,-100.2755
+78881,29.3824,-99.4960
+78883,29.6738,-99.3172
+78884,29.6366,-99.5065
+78885,29.8353,-99.5578
+78886,29.1553,-99.1862
+78931,30.0384,-96.4414
+78932,30.1641,-96.7182
+78933,29.8015,-96.3683
+78934,29.7027,-96.5671
+78935,29.6955,-96.4242
+78938,29.8138,-96.7084
+78940,29.9401,-96.6588
+78941,29.7276,-97.1585
+78942,30.1555,-96.9383
+78943,29.6988,-96.5955
+78944,30.0014,-96.4868
+78945,29.9167,-96.8890
+78946,30.1884,-96.7791
+78947,30.4434,-97.0637
+78948,30.3215,-96.9768
+78949,29.8478,-97.0802
+78950,29.9049,-96.4826
+78951,29.6205,-96.8366
+78953,29.8440,-97.3583
+78954,30.0430,-96.6992
+78956,29.6864,-96.9338
+78957,30.0139,-97.1821
+78959,29.7007,-97.3013
+78962,29.6744,-96.7345
+78963,29.9169,-97.0288
+79001,35.2908,-102.8054
+79002,35.2044,-100.7703
+79003,35.6398,-100.0827
+79005,36.3863,-100.5161
+79007,35.6683,-101.4122
+79008,35.6984,-101.4238
+79009,34.5291,-102.8834
+79010,35.4517,-102.1407
+79011,35.6354,-100.2070
+79012,35.1172,-102.1073
+79013,36.0410,-101.9962
+79014,35.9240,-100.3327
+79015,34.9471,-101.9007
+79016,34.9834,-101.9148
+79018,35.7057,-102.3440
+79019,34.9800,-101.3886
+79021,33.9837,-101.9930
+79022,36.0981,-102.6069
+79024,36.4398,-100.3691
+79025,34.9494,-102.2012
+79027,34.4976,-102.3380
+79029,35.9020,-102.0259
+79031,34.2443,-102.4499
+79032,34.2878,-101.8949
+79033,36.3068,-100.9766
+79034,36.3801,-100.1648
+79035,34.6816,-102.7819
+79036,35.5928,-101.5444
+79039,35.2393,-101.1328
+79040,36.2965,-101.5872
+79041,34.0433,-101.9320
+79042,34.7413,-101.8936
+79043,34.3683,-102.1348
+79044,35.8633,-102.3675
+79045,34.8999,-102.5148
+79046,36.1390,-100.1071
+79051,36.4443,-102.2241
+79052,34.3584,-101.7647
+79053,34.4080,-102.5794
+79054,35.4296,-100.7839
+79056,36.2173,-100.2214
+79057,35.1985,-100.6213
+79058,35.5947,-101.9513
+79059,35.7995,-100.7339
+79061,35.5243,-100.4523
+79062,35.9885,-101.5304
+79063,34.5170,-102.1151
+79064,34.1809,-102.1193
+79065,35.5173,-100.9000
+79066,35.4993,-101.0343
+79068,35.3285,-101.4441
+79070,36.2366,-100.7865
+79072,34.1719,-101.7448
+79073,33.9561,-101.9492
+79078,35.6987,-101.5503
+79079,35.2066,-100.2485
+79080,35.7015,-101.2127
+79081,36.2190,-101.2047
+79082,34.2188,-102.2862
+79083,35.8698,-101.5124
+79084,36.2597,-102.0266
+79085,34.7399,-102.5092
+79086,36.1252,-101.7842
+79087,36.3208,-102.9172
+79088,34.5755,-101.6920
+79091,34.8706,-102.1002
+79092,35.3137,-102.5103
+79093,36.2664,-101.0300
+79094,34.8401,-101.5097
+79095,34.8842,-100.1962
+79096,35.4580,-100.1997
+79097,35.4306,-101.1739
+79098,35.1524,-102.2158
+79101,35.2061,-101.8395
+79102,35.2013,-101.8492
+79103,35.1822,-101.8004
+79104,35.2011,-101.7900
+79106,35.2031,-101.8917
+79107,35.2315,-101.7942
+79108,35.3013,-101.6757
+79109,35.1664,-101.8864
+79110,35.1510,-101.8698
+79111,35.2204,-101.7081
+79118,35.1064,-101.7399
+79119,35.1091,-102.0179
+79121,35.1745,-101.9292
+79124,35.2593,-102.0474
+79201,34.4047,-100.3411
+79220,33.7670,-100.7643
+79223,34.2317,-100.4809
+79225,34.2496,-99.5075
+79226,34.9183,-100.9971
+79227,33.8716,-99.7473
+79229,33.6669,-100.7443
+79230,34.7101,-100.0536
+79231,33.9416,-101.0658
+79233,34.4985,-100.4941
+79234,34.2170,-100.9264
+79235,33.9421,-101.2635
+79236,33.6032,-100.2998
+79237,34.8580,-100.6734
+79239,34.6556,-100.7639
+79240,34.8839,-100.7607
+79241,34.1796,-101.3878
+79243,33.7677,-101.0253
+79244,34.0579,-100.7932
+79245,34.6810,-100.4765
+79247,34.3969,-99.3807
+79248,33.9431,-100.2237
+79250,33.8943,-101.5985
+79251,34.9434,-100.4516
+79252,34.3067,-99.7974
+79255,34.3499,-101.0508
+79256,33.8820,-100.8311
+79257,34.4469,-101.2989
+79258,34.2434,-101.2964
+79259,34.3583,-100.4544
+79261,34.4498,-100.8729
+79311,33.8579,-101.8815
+79312,34.0230,-102.3073
+79313,33.8126,-102.1609
+79314,33.6302,-103.0305
+79316,33.1341,-102.3048
+79322,33.6613,-101.2092
+79323,32.9331,-102.9046
+79324,33.8876,-102.7354
+79325,34.4143,-102.9343
+79326,34.0991,-102.2143
+79329,33.7164,-101.6917
+79330,33.0182,-101.2621
+79331,32.6711,-101.9727
+79336,33.5997,-102.4002
+79339,33.8866,-102.3549
+79342,32.9031,-102.3319
+79343,33.6457,-101.5526
+79344,33.8568,-103.0143
+79345,33.3375,-102.3314
+79346,33.6453,-102.8259
+79347,34.1862,-102.7979
+79350,33.7315,-101.8259
+79351,32.9382,-101.7770
+79353,33.7836,-102.5914
+79355,33.1660,-102.8948
+79356,33.2846,-101.3421
+79357,33.6465,-101.4058
+79358,33.4220,-102.1909
+79359,32.9236,-102.5441
+79360,32.6899,-102.7244
+79363,33.7077,-102.0450
+79364,33.4455,-101.6320
+79366,33.5303,-101.6853
+79367,33.5894,-102.1680
+79369,33.9432,-102.1591
+79370,33.4446,-100.9298
+79371,33.9797,-102.6972
+79372,33.4248,-102.5011
+79373,33.1587,-101.8393
+79376,33.2477,-102.6372
+79377,32.9296,-102.1335
+79378,33.0277,-102.4467
+79379,33.4950,-102.6535
+79380,33.7392,-102.3278
+79381,33.3129,-101.7705
+79382,33.4689,-102.0176
+79383,33.3244,-101.9080
+79401,33.5868,-101.8518
+79402,33.5812,-101.8420
+79403,33.6435,-101.7582
+79404,33.5277,-101.7937
+79406,33.5859,-101.8784
+79407,33.5615,-102.0857
+79410,33.5701,-101.8910
+79411,33.5701,-101.8577
+79412,33.5464,-101.8565
+79413,33.5457,-101.8899
+79414,33.5478,-101.9202
+79415,33.7008,-101.8970
+79416,33.6001,-101.9828
+79423,33.4400,-101.8555
+79424,33.4652,-101.9353
+79501,32.7406,-99.8904
+79502,33.1822,-100.2639
+79503,32.8875,-99.6964
+79504,32.3105,-99.3537
+79505,33.5596,-99.8441
+79506,32.1174,-100.3300
+79508,32.2700,-99.8303
+79510,32.2664,-99.5189
+79511,32.4341,-101.2690
+79512,32.3232,-100.9320
+79517,32.8795,-101.2468
+79518,33.3082,-100.7458
+79519,32.0442,-99.7003
+79520,32.8770,-100.1285
+79521,33.1204,-99.6318
+79525,32.6603,-99.8270
+79526,32.6504,-100.7564
+79527,32.5955,-101.0995
+79528,33.1646,-100.5782
+79529,33.4350,-99.8295
+79530,32.1039,-99.7797
+79532,32.4080,-100.7143
+79533,32.8487,-99.5473
+79534,32.7533,-100.2246
+79535,32.2234,-100.4798
+79536,32.4741,-100.0245
+79537,32.2759,-100.2199
+79538,31.9762,-99.7024
+79539,33.3600,-99.8893
+79540,33.1507,-100.0711
+79541,32.1478,-99.8102
+79543,32.7208,-100.3801
+79544,33.2932,-99.8585
+79545,32.4152,-100.5735
+79546,32.8801,-100.4883
+79547,33.1977,-99.9054
+79548,33.0712,-99.9128
+79549,32.8986,-100.9320
+79553,32.9409,-99.8510
+79556,32.4852,-100.3921
+79560,32.6652,-100.2130
+79561,32.5128,-100.1766
+79562,32.2363,-99.8665
+79563,32.4158,-99.9062
+79565,32.3786,-101.1030
+79566,32.1566,-100.1117
+79567,31.9886,-99.9771
+79601,32.5728,-99.6421
+79602,32.3357,-99.6675
+79603,32.3336,-99.9277
+79605,32.4346,-99.7818
+79606,32.3628,-99.8173
+79607,32.4232,-99.8387
+79699,32.4622,-99.7149
+79701,31.9924,-102.0810
+79703,31.9800,-102.1316
+79705,32.1041,-102.0598
+79706,31.8470,-101.9695
+79707,32.0426,-102.2047
+79713,32.4962,-101.7475
+79714,32.3123,-102.6402
+79718,30.9942,-103.7347
+79719,31.4607,-103.4041
+79720,32.1995,-101.5048
+79721,32.2249,-101.5274
+79730,31.1925,-103.0520
+79731,31.4357,-102.5817
+79733,32.1103,-101.3668
+79734,30.6822,-103.9810
+79735,30.7862,-102.8512
+79738,32.7519,-101.4748
+79739,31.7693,-101.5064
+79741,32.0077,-102.6476
+79742,31.3603,-102.8527
+79743,31.2366,-102.7891
+79744,30.8909,-101.9129
+79745,31.8329,-103.0549
+79748,32.3900,-101.6640
+79749,32.2555,-101.8341
+79752,31.1131,-102.1913
+79754,31.8201,-103.4880
+79755,31.5253,-101.9975
+79756,31.5348,-102.8774
+79758,32.0131,-102.3273
+79759,31.7992,-102.6330
+79761,31.8556,-102.3484
+79762,31.9253,-102.3579
+79763,31.8129,-102.4546
+79764,31.8768,-102.4733
+79765,31.8966,-102.2629
+79766,31.7157,-102.3758
+79769,31.6828,-102.6253
+79770,31.8550,-103.9122
+79772,31.4003,-103.5841
+79776,31.7752,-102.5557
+79777,31.4846,-103.1610
+79778,31.2585,-101.9735
+79780,31.0394,-103.6575
+79781,30.6147,-101.7656
+79782,32.1894,-101.8829
+79783,32.3320,-102.0502
+79785,31.3214,-103.9401
+79788,31.6032,-102.9835
+79789,31.7748,-103.2704
+79821,31.9768,-106.5993
+79830,30.2115,-103.6268
+79832,30.3632,-103.6492
+79834,29.1828,-103.2624
+79835,31.9357,-106.5961
+79836,31.5701,-106.2116
+79837,32.0953,-105.1624
+79838,31.4863,-106.1611
+79839,31.4208,-105.6422
+79842,30.0130,-103.0275
+79843,29.8698,-104.4123
+79845,29.6533,-104.3972
+79846,29.3880,-103.9904
+79847,31.7470,-105.1753
+79848,30.1197,-102.3980
+79849,31.5669,-106.2584
+79851,31.2795,-105.2579
+79852,29.3649,-103.6155
+79853,31.4341,-106.0632
+79854,30.6254,-104.6101
+79855,30.9309,-104.8607
+79901,31.7594,-106.4801
+79902,31.7849,-106.4969
+79903,31.7862,-106.4419
+79904,31.8492,-106.4648
+79905,31.7661,-106.4262
+79906,31.8090,-106.4195
+79907,31.7072,-106.3266
+79908,31.8331,-106.3650
+79911,31.9361,-106.5357
+79912,31.8486,-106.5343
+79915,31.7460,-106.3714
+79916,31.8666,-106.3872
+79918,31.8469,-106.3694
+79920,31.8228,-106.4598
+79922,31.8104,-106.5560
+79924,31.9022,-106.4135
+79925,31.8053,-106.3688
+79927,31.6454,-106.2749
+79928,31.6786,-106.1151
+79930,31.8104,-106.4690
+79932,31.8750,-106.6080
+79934,31.9507,-106.4335
+79935,31.7681,-106.3303
+79936,31.7737,-106.2954
+79938,31.8455,-106.0197
+80002,39.7937,-105.1084
+80003,39.8254,-105.0644
+80004,39.8138,-105.1222
+80005,39.8516,-105.1314
+80007,39.8670,-105.1977
+80010,39.7392,-104.8617
+80011,39.7440,-104.7900
+80012,39.6998,-104.8378
+80013,39.6615,-104.7658
+80014,39.6636,-104.8378
+80015,39.6281,-104.7933
+80016,39.5930,-104.7224
+80017,39.6994,-104.7753
+80018,39.7015,-104.6866
+80019,39.7786,-104.6848
+80020,39.9308,-105.0743
+80021,39.8907,-105.1137
+80022,39.8611,-104.7888
+80023,39.9758,-105.0094
+80024,39.8441,-104.9184
+80025,39.9255,-105.2995
+80026,40.0122,-105.0999
+80027,39.9515,-105.1581
+80030,39.8308,-105.0375
+80031,39.8739,-105.0388
+80033,39.7727,-105.1048
+80045,39.7467,-104.8372
+80101,39.4069,-103.9444
+80102,39.7340,-104.4385
+80103,39.7912,-104.0938
+80104,39.3021,-104.8197
+80105,39.6367,-103.9662
+80106,39.1861,-104.5159
+80107,39.4118,-104.5724
+80108,39.4444,-104.8532
+80109,39.3723,-104.9121
+80110,39.6459,-105.0114
+80111,39.6120,-104.8828
+80112,39.5732,-104.8649
+80113,39.6444,-104.9651
+80116,39.3200,-104.7097
+80117,39.3955,-104.3896
+80118,39.1896,-104.8819
+80120,39.5938,-105.0115
+80121,39.6104,-104.9538
+80122,39.5803,-104.9549
+80123,39.6160,-105.0694
+80124,39.5328,-104.8912
+80125,39.4854,-105.0628
+80126,39.5422,-104.9631
+80127,39.5307,-105.1643
+80128,39.5609,-105.0799
+80129,39.5469,-105.0116
+80130,39.5283,-104.9239
+80131,39.4763,-105.0090
+80132,39.0866,-104.8583
+80133,39.1135,-104.8998
+80134,39.4828,-104.7800
+80135,39.2547,-105.1570
+80136,39.7920,-104.2799
+80137,39.7122,-104.5941
+80138,39.5175,-104.6709
+80202,39.7515,-104.9977
+80203,39.7314,-104.9828
+80204,39.7348,-105.0207
+80205,39.7589,-104.9647
+80206,39.7304,-104.9525
+80207,39.7614,-104.9167
+80209,39.7066,-104.9657
+80210,39.6766,-104.9623
+80211,39.7674,-105.0197
+80212,39.7720,-105.0480
+80214,39.7433,-105.0690
+80215,39.7448,-105.1160
+80216,39.7877,-104.9611
+80218,39.7312,-104.9707
+80219,39.6953,-105.0356
+80220,39.7338,-104.9165
+80221,39.8160,-105.0116
+80222,39.6713,-104.9282
+80223,39.6958,-105.0038
+80224,39.6881,-104.9116
+80226,39.7101,-105.0921
+80227,39.6655,-105.1022
+80228,39.6949,-105.1732
+80229,39.8543,-104.9576
+80230,39.7203,-104.8893
+80231,39.6712,-104.8879
+80232,39.6882,-105.0895
+80233,39.8975,-104.9439
+80234,39.9100,-105.0026
+80235,39.6476,-105.0895
+80236,39.6516,-105.0397
+80237,39.6399,-104.9017
+80238,39.7774,-104.8797
+80239,39.7892,-104.8336
+80241,39.9291,-104.9543
+80246,39.7052,-104.9307
+80247,39.6978,-104.8789
+80249,39.8547,-104.6958
+80260,39.8670,-105.0014
+80264,39.7425,-104.9855
+80266,39.7900,-104.9003
+80290,39.7441,-104.9868
+80293,39.7461,-104.9897
+80294,39.7498,-104.9897
+80301,40.0457,-105.2009
+80302,40.0251,-105.3487
+80303,39.9732,-105.2093
+80304,40.0447,-105.2884
+80305,39.9769,-105.2487
+80310,40.0040,-105.2614
+80401,39.7189,-105.2353
+80403,39.8288,-105.3169
+80419,39.7284,-105.2025
+80420,39.3244,-106.1161
+80421,39.4609,-105.5012
+80422,39.8616,-105.5398
+80423,39.8459,-106.5547
+80424,39.4733,-106.0043
+80425,39.3502,-105.2056
+80426,39.8755,-106.9909
+80427,39.7937,-105.5241
+80428,40.8437,-106.9252
+80430,40.5193,-106.4163
+80432,39.2303,-105.8375
+80433,39.4981,-105.3034
+80434,40.9033,-106.2850
+80435,39.5739,-105.9347
+80436,39.7810,-105.6402
+80438,39.7443,-105.7963
+80439,39.6344,-105.4402
+80440,39.1323,-106.0550
+80442,39.9247,-105.8879
+80443,39.5034,-106.1741
+80444,39.6322,-105.7346
+80446,40.1639,-105.9346
+80447,40.2956,-105.8221
+80448,39.4772,-105.8344
+80449,38.9297,-105.7901
+80451,40.0400,-106.0445
+80452,39.7120,-105.5973
+80453,39.6648,-105.2428
+80454,39.6299,-105.2475
+80455,40.0950,-105.3977
+80456,39.3104,-105.6895
+80457,39.6510,-105.2997
+80459,40.1547,-106.4142
+80461,39.2422,-106.2879
+80463,39.9823,-106.7581
+80465,39.6091,-105.2055
+80466,39.9880,-105.5441
+80467,40.2076,-106.8259
+80468,39.9149,-106.1109
+80469,40.2145,-106.9680
+80470,39.3798,-105.3244
+80471,39.9350,-105.4205
+80473,40.4494,-106.1601
+80474,39.9232,-105.5690
+80475,39.4110,-105.6082
+80476,39.6706,-105.8343
+80478,40.0221,-105.8569
+80479,39.9926,-106.8473
+80480,40.6729,-106.3416
+80481,40.1014,-105.5768
+80482,39.9015,-105.7857
+80483,40.0918,-106.9360
+80487,40.5814,-106.8860
+80498,39.7466,-106.2705
+80501,40.1648,-105.1019
+80503,40.1690,-105.2104
+80504,40.1656,-105.0292
+80510,40.2125,-105.6066
+80512,40.6312,-105.5740
+80513,40.2995,-105.1186
+80514,40.0706,-104.9553
+80515,40.4623,-105.3823
+80516,40.0534,-105.0214
+80517,40.3979,-105.6149
+80520,40.1141,-104.9334
+80521,40.5931,-105.1274
+80524,40.6469,-105.0295
+80525,40.5274,-105.0414
+80526,40.5222,-105.1294
+80528,40.4990,-105.0051
+80530,40.1016,-104.9230
+80532,40.4839,-105.4656
+80534,40.3319,-104.9375
+80535,40.7362,-105.1911
+80536,40.8788,-105.3812
+80537,40.3831,-105.2004
+80538,40.5446,-105.2451
+80540,40.2246,-105.4005
+80542,40.2341,-104.9990
+80543,40.3495,-104.8574
+80544,40.1031,-105.1715
+80545,40.8420,-105.7028
+80546,40.5271,-104.8502
+80547,40.5266,-104.9654
+80549,40.8575,-105.0441
+80550,40.4888,-104.8997
+80601,39.9622,-104.8079
+80602,39.9662,-104.9089
+80603,39.9511,-104.6602
+80610,40.6739,-104.5913
+80611,40.6249,-104.2491
+80612,40.8790,-104.8238
+80615,40.5457,-104.6457
+80620,40.3758,-104.7136
+80621,40.1072,-104.8013
+80622,40.5387,-104.4420
+80623,40.2853,-104.7825
+80624,40.4355,-104.4231
+80631,40.4445,-104.6796
+80634,40.4014,-104.7924
+80640,39.8875,-104.8808
+80642,40.0514,-104.6121
+80643,40.1129,-104.4892
+80644,40.3345,-104.4300
+80645,40.2833,-104.6492
+80646,40.4754,-104.6976
+80648,40.7625,-104.7305
+80649,40.4008,-104.1858
+80650,40.6487,-104.7812
+80651,40.2417,-104.8094
+80652,40.1389,-104.2752
+80653,40.4461,-103.9778
+80654,40.1356,-104.0819
+80701,40.1250,-103.8176
+80705,40.2711,-103.8343
+80720,40.0735,-103.1873
+80721,40.6882,-102.1530
+80722,40.4761,-103.2005
+80723,40.1937,-103.5433
+80726,40.9232,-102.7768
+80727,40.0244,-102.5108
+80728,40.6399,-102.8729
+80729,40.8763,-104.2266
+80731,40.5877,-102.5979
+80732,40.9885,-104.3053
+80733,40.3572,-103.4747
+80734,40.5199,-102.2920
+80735,39.7099,-102.2441
+80736,40.8118,-103.0272
+80737,40.8951,-102.1986
+80740,39.7444,-103.3849
+80741,40.5668,-103.4770
+80742,40.7558,-103.8350
+80743,40.2151,-102.9563
+80744,40.8736,-102.3920
+80745,40.8955,-103.4126
+80746,40.6071,-102.4570
+80747,40.9338,-103.1809
+80749,40.8671,-102.5473
+80750,40.4148,-103.6048
+80751,40.6519,-103.2411
+80754,40.6654,-103.6362
+80755,39.8965,-102.3458
+80757,39.7910,-103.5831
+80758,40.1388,-102.1931
+80759,40.1114,-102.6907
+80801,39.7323,-103.1013
+80802,38.8278,-102.1505
+80804,39.3468,-103.2481
+80805,39.2968,-102.4374
+80807,39.3217,-102.2232
+80808,39.0082,-104.3035
+80809,38.8520,-105.0086
+80810,38.8223,-102.4287
+80812,39.6334,-102.8310
+80813,38.7544,-105.1201
+80814,38.9449,-105.1897
+80815,39.3892,-103.0990
+80816,38.8577,-105.3159
+80817,38.5882,-104.6775
+80818,39.4217,-103.4648
+80819,38.9474,-104.9981
+80820,38.7770,-105.5670
+80821,39.0003,-103.4472
+80822,39.6778,-102.6787
+80823,38.6635,-103.4192
+80824,39.6722,-102.4996
+80825,38.8332,-102.8277
+80826,39.2187,-103.6913
+80827,39.0565,-105.4674
+80828,39.2641,-103.7050
+80829,38.8291,-104.9330
+80830,39.1142,-103.9128
+80831,38.9811,-104.4999
+80832,38.8965,-103.7665
+80833,38.7632,-103.9651
+80834,39.2966,-102.8807
+80835,39.2188,-104.0226
+80836,39.3032,-102.5825
+80840,39.0001,-104.8645
+80860,38.7002,-105.0973
+80861,39.3237,-102.7715
+80862,38.9222,-103.0580
+80863,39.0327,-105.0544
+80864,38.6990,-104.1876
+80902,38.6837,-104.8222
+80903,38.8328,-104.8138
+80904,38.8626,-104.8705
+80905,38.8189,-104.8383
+80906,38.7526,-104.8782
+80907,38.8790,-104.8211
+80908,39.0476,-104.6905
+80909,38.8526,-104.7743
+80910,38.8121,-104.7746
+80911,38.7528,-104.7197
+80913,38.6874,-104.7489
+80914,38.8240,-104.7054
+80915,38.8498,-104.7170
+80916,38.8025,-104.7087
+80917,38.8868,-104.7405
+80918,38.9104,-104.7804
+80919,38.9299,-104.8788
+80920,38.9557,-104.7723
+80921,39.0609,-104.8191
+80922,38.8899,-104.7008
+80923,38.9267,-104.7143
+80924,38.9669,-104.7231
+80925,38.7700,-104.6439
+80926,38.6347,-104.9030
+80927,38.9283,-104.6588
+80928,38.6304,-104.4016
+80929,38.8246,-104.6084
+80930,38.8051,-104.5064
+80938,38.9065,-104.6569
+80939,38.8728,-104.6758
+80951,38.8785,-104.6576
+81001,38.2953,-104.5372
+81003,38.2777,-104.6564
+81004,38.0441,-104.7144
+81005,38.2123,-104.8318
+81006,38.2399,-104.4779
+81007,38.3858,-104.7959
+81008,38.4058,-104.5787
+81019,37.9423,-104.8358
+81020,37.4651,-104.6100
+81021,38.4192,-103.3765
+81022,38.0248,-104.4347
+81023,38.0663,-104.9265
+81024,37.2293,-104.7116
+81025,38.4550,-104.3553
+81027,37.2467,-103.7232
+81029,37.0829,-102.5089
+81030,38.1049,-103.5115
+81033,38.1958,-103.8556
+81036,38.4151,-102.7928
+81039,37.9391,-104.0852
+81040,37.7832,-105.2272
+81041,37.8524,-102.3979
+81043,38.1197,-102.2231
+81044,37.8597,-102.9477
+81045,38.5654,-103.1544
+81046,37.2959,-104.3686
+81047,38.0098,-102.1907
+81049,37.3043,-103.3898
+81050,37.8557,-103.4717
+81052,37.9744,-102.6390
+81054,37.9117,-103.1905
+81055,37.4300,-105.1044
+81057,38.1230,-102.9019
+81058,38.1085,-103.8867
+81059,37.5633,-104.0015
+81062,38.2969,-103.9643
+81063,38.4307,-103.7711
+81064,37.2247,-102.9993
+81067,38.0162,-103.7250
+81069,37.8918,-104.8894
+81071,38.4332,-102.2608
+81073,37.4254,-102.7051
+81076,38.3432,-103.6016
+81077,38.0195,-103.6134
+81081,37.0655,-104.1558
+81082,37.1854,-104.4136
+81084,37.5640,-102.4281
+81087,37.3916,-102.4128
+81089,37.6304,-104.6746
+81090,37.3659,-102.2305
+81091,37.1491,-104.9647
+81092,38.2153,-102.9083
+81101,37.4693,-105.8527
+81120,37.1953,-106.3494
+81121,37.0169,-107.4198
+81122,37.3018,-107.5374
+81123,37.4112,-105.5657
+81124,37.2854,-106.1069
+81125,37.8193,-106.0699
+81126,37.1615,-105.3473
+81128,37.0797,-106.6210
+81129,37.1050,-106.0217
+81130,37.7016,-107.0969
+81131,37.8654,-105.6791
+81132,37.7142,-106.4162
+81133,37.4500,-105.3284
+81136,37.7195,-105.8135
+81137,37.0519,-107.6136
+81138,37.0230,-105.6274
+81140,37.2991,-106.1614
+81141,37.1614,-105.8936
+81143,38.1584,-105.8500
+81144,37.5535,-106.1395
+81146,37.6461,-105.6683
+81147,37.2866,-107.0854
+81148,37.1718,-105.9854
+81149,38.1001,-106.3461
+81151,37.2391,-105.7116
+81152,37.1345,-105.3960
+81154,37.6340,-106.6679
+81155,38.2865,-106.0655
+81201,38.5555,-106.1075
+81210,38.8087,-106.6780
+81211,38.9729,-106.3805
+81212,38.5424,-105.4235
+81220,38.2979,-107.4777
+81221,38.3624,-105.1424
+81222,38.3549,-105.8161
+81223,38.3645,-105.6126
+81224,38.8801,-106.9328
+81225,38.9623,-107.0163
+81226,38.3379,-105.0894
+81227,38.5493,-106.2901
+81228,39.0316,-106.2770
+81230,38.3951,-106.9537
+81232,38.2754,-105.6090
+81233,38.4923,-105.8138
+81235,37.9651,-107.4052
+81236,38.6763,-106.2637
+81237,38.6163,-106.6213
+81239,38.5367,-106.6083
+81240,38.5004,-105.0343
+81241,38.6383,-106.4909
+81242,38.4718,-106.0729
+81243,38.2660,-107.1921
+81244,38.3639,-105.1649
+81248,38.4192,-106.5001
+81251,39.1425,-106.4376
+81252,38.1106,-105.4275
+81253,38.1695,-105.0665
+81301,37.5294,-107.8215
+81303,37.1334,-107.8438
+81320,37.7201,-108.7351
+81321,37.3130,-108.7345
+81323,37.7027,-108.1266
+81324,37.6420,-109.0096
+81325,37.9193,-108.7128
+81326,37.1456,-108.1166
+81327,37.5168,-108.6563
+81328,37.2708,-108.3297
+81330,37.2349,-108.4783
+81331,37.4459,-108.9073
+81332,37.7003,-107.9912
+81334,37.1461,-108.6129
+81335,37.5438,-108.7198
+81401,38.5150,-107.7661
+81403,38.3146,-107.9284
+81410,38.8097,-107.9765
+81411,38.2518,-108.9789
+81413,38.9757,-107.8991
+81415,38.6255,-107.6276
+81416,38.6405,-108.2546
+81418,38.8994,-108.0580
+81419,38.8831,-107.7477
+81422,38.3202,-108.7083
+81423,38.0093,-108.4273
+81424,38.3450,-108.5023
+81425,38.4583,-108.1187
+81426,37.8661,-107.8208
+81427,38.0258,-107.6097
+81428,38.9630,-107.5996
+81429,38.4129,-109.0018
+81430,38.0537,-108.0672
+81431,38.1435,-108.5141
+81432,38.1299,-107.7453
+81433,37.7220,-107.5794
+81434,38.9817,-107.4306
+81435,37.8688,-107.9251
+81501,39.0718,-108.5460
+81503,39.0340,-108.4866
+81504,39.1203,-108.4885
+81505,39.2141,-108.5884
+81506,39.1249,-108.5587
+81507,39.0099,-108.6519
+81520,39.1111,-108.4338
+81521,39.1566,-108.8788
+81522,38.6855,-108.9211
+81523,38.9247,-108.8895
+81524,39.2905,-108.7328
+81525,39.2595,-108.9673
+81526,39.0830,-108.3456
+81527,38.7985,-108.4700
+81601,39.5876,-107.3387
+81610,40.2892,-108.8426
+81611,39.1582,-106.6686
+81612,39.0511,-106.8450
+81615,39.2134,-106.9427
+81620,39.6130,-106.5031
+81621,39.3781,-106.8764
+81623,39.2460,-107.1629
+81624,39.1592,-107.7451
+81625,40.7047,-107.7362
+81630,39.4580,-108.5643
+81631,39.6265,-106.7713
+81632,39.6227,-106.6071
+81633,40.3874,-108.4690
+81635,39.5353,-108.0667
+81637,39.7778,-107.1058
+81638,40.3004,-107.6427
+81639,40.5650,-107.2467
+81640,40.6683,-108.5140
+81641,40.1093,-107.8182
+81642,39.3128,-106.5677
+81643,39.1241,-108.1493
+81645,39.4556,-106.4584
+81646,39.1044,-108.0052
+81647,39.5791,-107.5329
+81648,39.9045,-108.7920
+81649,39.4843,-106.2916
+81650,39.7510,-108.1137
+81652,39.4662,-107.6733
+81653,40.8957,-107.2422
+81654,39.2056,-107.0458
+81655,39.7531,-106.6859
+81656,39.2795,-106.7871
+81657,39.6493,-106.3258
+82001,41.1001,-104.9249
+82005,41.1463,-104.8679
+82007,41.0800,-104.6917
+82009,41.3835,-104.8535
+82050,41.4470,-104.2663
+82051,41.6031,-105.6488
+82052,41.1200,-105.3466
+82053,41.2409,-104.3405
+82054,41.0643,-104.3605
+82055,41.3708,-106.2565
+82058,42.1531,-105.6089
+82059,41.0534,-105.1786
+82060,41.2881,-104.4975
+82061,41.4921,-105.1432
+82063,40.7702,-105.9705
+82070,41.2196,-105.8442
+82072,41.4273,-105.5503
+82073,41.1749,-105.4379
+82081,41.5336,-104.4808
+82082,41.2649,-104.0901
+82083,41.7247,-105.9909
+82084,41.0508,-105.5159
+82190,44.5200,-110.6491
+82201,42.0019,-105.1298
+82210,41.7116,-104.7583
+82212,42.2610,-104.5357
+82213,42.4947,-105.0044
+82214,42.2642,-104.7513
+82215,42.4669,-104.7006
+82217,41.7598,-104.1395
+82218,41.9362,-104.1400
+82219,42.4779,-104.4830
+82221,41.6380,-104.3285
+82222,43.1675,-104.6467
+82223,42.1238,-104.3898
+82224,42.8160,-104.9196
+82225,42.9613,-104.3195
+82227,42.7176,-104.7309
+82229,42.8776,-104.9859
+82240,42.1593,-104.1319
+82242,42.6473,-104.1362
+82243,41.9920,-104.4095
+82244,41.8975,-104.4390
+82301,41.9832,-107.4790
+82310,42.4457,-107.8775
+82321,41.0930,-107.6535
+82322,42.2465,-107.5482
+82323,41.0295,-107.5207
+82324,41.6605,-106.4302
+82325,41.1523,-106.7853
+82327,42.1416,-106.6303
+82329,42.0429,-106.1061
+82331,41.3999,-106.8192
+82332,41.0641,-107.3017
+82334,41.9537,-106.9773
+82335,41.7617,-106.8255
+82336,41.6983,-108.2080
+82401,44.0112,-108.1700
+82410,44.3518,-108.1554
+82411,44.4499,-108.4766
+82412,44.7904,-108.5530
+82414,44.4038,-109.6067
+82420,44.9189,-108.4645
+82421,44.8870,-108.6021
+82422,44.4977,-108.3795
+82423,44.9873,-108.5878
+82426,44.5166,-108.0362
+82428,44.2986,-107.5905
+82430,43.8042,-108.1791
+82431,44.8718,-108.1579
+82432,44.2150,-107.8478
+82433,44.0623,-109.1047
+82434,44.3457,-108.2954
+82435,44.8200,-109.0510
+82440,44.7175,-108.8677
+82441,44.5518,-107.6114
+82442,43.9141,-107.3334
+82443,43.7171,-108.4752
+82450,44.5040,-109.4338
+82501,43.0278,-108.2379
+82510,42.9992,-108.6091
+82512,43.0304,-109.2450
+82513,43.6278,-109.6292
+82514,43.0666,-109.0231
+82515,42.8971,-108.5668
+82516,43.2130,-108.8277
+82520,42.6614,-108.6385
+82523,43.4109,-108.8545
+82601,43.0699,-106.3416
+82604,42.9149,-106.7073
+82609,42.7716,-106.1861
+82620,42.5387,-107.0647
+82630,43.3297,-107.3074
+82633,43.0221,-105.3919
+82635,43.4218,-106.2183
+82636,42.8288,-106.1580
+82637,42.7600,-105.8571
+82638,43.0587,-107.2543
+82639,43.7380,-106.6956
+82640,43.5649,-106.1294
+82642,43.2787,-107.6608
+82643,43.4223,-106.2790
+82644,42.8429,-106.3739
+82646,42.9776,-106.7682
+82648,43.0980,-106.9159
+82649,43.2790,-108.0130
+82701,43.6941,-104.4590
+82710,44.6931,-104.3066
+82711,44.7115,-104.4806
+82712,44.5258,-104.1238
+82714,44.5519,-104.6800
+82716,44.5355,-105.6427
+82718,43.9225,-105.6089
+82720,44.7960,-104.6705
+82721,44.4556,-104.8984
+82723,43.9919,-104.4306
+82725,44.8768,-105.7026
+82727,44.3350,-105.2015
+82729,44.3712,-104.3598
+82730,44.0449,-104.7143
+82731,44.8006,-105.2239
+82732,43.7240,-105.5827
+82801,44.8325,-106.8963
+82831,44.6685,-106.0416
+82832,44.6058,-106.7643
+82833,44.6053,-107.1630
+82834,44.2606,-106.7311
+82835,44.7560,-106.3593
+82836,44.8225,-107.6087
+82837,44.7270,-106.2779
+82838,44.9181,-107.4629
+82839,44.9606,-107.1714
+82842,44.5714,-106.9395
+82844,44.8061,-107.1957
+82845,44.7582,-106.7313
+82901,41.3793,-108.9782
+82922,43.1424,-110.4568
+82923,42.6150,-109.4067
+82925,43.1680,-109.7844
+82929,41.5494,-109.8849
+82930,40.9582,-110.6075
+82932,42.1244,-109.3852
+82933,41.2693,-110.4978
+82934,41.6125,-109.9956
+82935,41.6777,-109.6600
+82936,41.0540,-110.1803
+82937,41.3471,-110.2649
+82938,41.0943,-109.8974
+82939,41.2189,-110.3456
+82941,42.9338,-109.6909
+82942,41.6996,-108.7651
+82943,41.7020,-109.1840
+82944,41.1296,-110.4964
+82945,41.7201,-108.9389
+83001,43.3946,-110.6298
+83011,43.5903,-110.5325
+83012,43.7156,-110.8072
+83013,44.0487,-110.4261
+83014,43.4486,-110.9669
+83025,43.5920,-110.8260
+83101,41.9765,-110.5474
+83110,42.7259,-110.8492
+83111,42.8190,-111.0114
+83112,42.8749,-110.8491
+83113,42.5542,-110.2675
+83114,42.1004,-110.9598
+83115,42.9115,-110.2387
+83116,41.7591,-110.5491
+83118,43.0478,-110.9280
+83119,42.6439,-110.9882
+83120,43.1094,-111.1389
+83121,41.8499,-110.5403
+83122,42.8217,-110.9584
+83123,42.2369,-110.2684
+83124,41.7588,-110.3159
+83126,42.5811,-110.9042
+83127,42.9190,-110.9978
+83128,43.0401,-110.7222
+83201,42.9060,-112.3736
+83202,42.9682,-112.3649
+83203,43.0252,-112.4281
+83204,42.8050,-112.5239
+83209,42.8578,-112.4262
+83210,43.0203,-112.8692
+83211,42.6555,-113.0765
+83212,42.5060,-112.5479
+83213,43.4439,-113.3643
+83214,42.5398,-112.3077
+83215,43.4431,-112.8124
+83217,42.7693,-111.9270
+83218,43.3180,-112.1645
+83220,42.3449,-111.3825
+83221,43.2947,-112.5125
+83223,42.1831,-111.4043
+83226,44.3724,-114.0091
+83227,44.1587,-114.4959
+83228,42.2336,-112.0602
+83232,42.1347,-111.9710
+83233,42.1350,-111.2380
+83234,42.4226,-112.1012
+83235,44.6184,-114.0532
+83236,43.1911,-111.8725
+83237,42.0275,-111.7786
+83238,42.3812,-111.0999
+83239,42.5297,-111.3579
+83241,42.5149,-111.7654
+83243,42.2329,-112.6650
+83244,43.9025,-112.9514
+83245,42.8729,-112.1849
+83246,42.6057,-112.0313
+83250,42.6930,-112.2132
+83251,43.9447,-113.9447
+83252,42.1744,-112.4066
+83253,44.5358,-113.7548
+83254,42.3547,-111.2396
+83255,43.7118,-113.4594
+83261,42.2204,-111.4051
+83262,43.2170,-112.8444
+83263,42.1812,-111.7532
+83271,42.4422,-112.9128
+83272,42.0947,-111.3822
+83274,43.3488,-112.0980
+83276,42.7551,-111.4363
+83277,43.0746,-112.6812
+83278,44.3363,-114.8137
+83281,42.3090,-111.9594
+83283,42.3578,-111.6678
+83285,43.0724,-111.3030
+83286,42.0634,-112.0157
+83287,42.0217,-111.4573
+83301,42.4006,-114.5249
+83302,42.0638,-114.7335
+83311,42.4080,-113.5608
+83312,42.1133,-113.6364
+83313,43.3484,-114.1992
+83314,42.9716,-114.9486
+83316,42.6255,-114.8828
+83318,42.4397,-113.8159
+83320,43.4043,-113.8894
+83321,42.3456,-114.8474
+83322,43.3168,-114.9670
+83323,42.4747,-113.4495
+83324,42.8720,-114.2622
+83325,42.5896,-114.2364
+83327,43.5026,-114.7721
+83328,42.5702,-114.6163
+83330,42.9418,-114.6941
+83332,42.7975,-114.9289
+83333,43.5719,-114.2409
+83334,42.4211,-114.2927
+83335,42.5829,-114.0738
+83336,42.5647,-113.8247
+83337,43.2241,-115.1521
+83338,42.7285,-114.4321
+83340,43.7361,-114.5822
+83341,42.4356,-114.3747
+83342,42.1450,-113.2454
+83344,42.4112,-114.1325
+83346,42.1956,-113.9031
+83347,42.6549,-113.7940
+83348,43.2812,-114.1213
+83349,43.1106,-114.1963
+83350,42.7110,-113.6018
+83352,43.0506,-114.4129
+83353,43.6907,-114.3316
+83354,43.6701,-114.3223
+83355,42.7574,-114.7222
+83401,43.5424,-111.8779
+83402,43.5263,-112.1820
+83404,43.4268,-112.0155
+83406,43.4391,-111.9336
+83414,43.8614,-110.9357
+83420,44.0595,-111.3248
+83421,44.0019,-111.5473
+83422,43.6891,-111.3011
+83423,44.2840,-112.3022
+83424,43.9019,-111.1976
+83425,43.9320,-112.2247
+83427,43.3575,-111.7535
+83428,43.3926,-111.1202
+83429,44.4817,-111.3753
+83431,43.6884,-112.0329
+83433,44.4929,-111.3179
+83434,43.7564,-112.0066
+83435,43.9789,-112.5864
+83436,43.8668,-111.4551
+83438,43.9597,-111.7593
+83440,43.8086,-111.8086
+83442,43.6287,-111.8340
+83443,43.5309,-111.5458
+83444,43.7194,-112.3016
+83445,44.0378,-111.7453
+83446,44.3651,-112.2128
+83448,43.8496,-111.7117
+83449,43.4265,-111.3574
+83450,43.8449,-112.3957
+83451,43.8666,-111.6333
+83452,43.7701,-111.3292
+83454,43.5946,-111.9569
+83455,43.6050,-111.1354
+83460,43.8164,-111.7826
+83462,45.3005,-113.8178
+83463,45.5695,-113.9755
+83464,44.4806,-113.1986
+83465,44.7927,-113.6724
+83466,45.4181,-114.0362
+83467,45.0427,-113.8570
+83468,44.9223,-113.5922
+83469,45.0697,-114.4081
+83501,46.2517,-116.9250
+83520,46.5441,-116.3265
+83522,45.9134,-116.4736
+83523,46.2274,-116.4675
+83524,46.3517,-116.6424
+83525,45.7401,-115.3932
+83526,46.1478,-116.4121
+83530,45.9180,-116.0216
+83533,46.1157,-116.2408
+83535,46.5354,-116.7363
+83536,46.2130,-116.0227
+83537,46.6332,-116.5295
+83539,46.2568,-114.8466
+83540,46.3452,-116.7827
+83541,46.4962,-116.5005
+83542,45.5613,-116.3248
+83543,46.2732,-116.2334
+83544,46.4909,-116.1514
+83545,46.4264,-116.4218
+83546,46.5731,-115.7915
+83547,45.3083,-116.3446
+83548,46.3367,-116.5077
+83549,45.3618,-116.2666
+83552,45.9839,-115.9233
+83553,46.3934,-115.8975
+83554,45.6882,-116.2692
+83555,46.0766,-116.7162
+83602,44.0910,-116.1465
+83604,42.7475,-115.6815
+83605,43.6641,-116.6517
+83607,43.7102,-116.7376
+83610,44.7434,-116.7736
+83611,45.3439,-115.0523
+83612,44.8497,-116.5341
+83615,44.7057,-116.0425
+83616,43.7756,-116.3950
+83617,43.9368,-116.5052
+83619,43.9693,-116.9116
+83622,44.1014,-115.8846
+83623,43.0416,-115.4002
+83624,42.9249,-116.1485
+83626,43.6676,-116.8254
+83627,42.9135,-115.5373
+83628,43.5780,-116.9653
+83629,43.9119,-116.1304
+83631,43.8847,-115.7773
+83632,44.5270,-116.4084
+83633,43.0452,-115.1989
+83634,43.4465,-116.3277
+83636,43.9069,-116.6596
+83637,44.1039,-115.1552
+83638,45.1237,-115.7148
+83639,43.3996,-116.8995
+83641,43.3500,-116.6357
+83642,43.5735,-116.4011
+83643,44.6292,-116.4561
+83644,43.7472,-116.5841
+83645,44.3378,-116.5765
+83646,43.6496,-116.4318
+83647,43.4007,-115.5229
+83648,43.0492,-115.8659
+83650,42.8963,-116.6643
+83651,43.5860,-116.6273
+83654,45.2339,-116.2450
+83655,43.9512,-116.7885
+83656,43.7250,-116.7954
+83657,44.2363,-116.3020
+83660,43.8017,-116.9280
+83661,44.1057,-116.7049
+83666,43.9615,-115.9739
+83669,43.7248,-116.4886
+83670,44.0186,-116.3129
+83672,44.3741,-116.9571
+83676,43.6560,-116.9075
+83677,45.0395,-115.2580
+83686,43.4989,-116.6043
+83687,43.6100,-116.5291
+83702,43.6655,-116.1444
+83703,43.6641,-116.2415
+83704,43.6272,-116.2877
+83705,43.5548,-116.2214
+83706,43.5914,-116.1942
+83709,43.5484,-116.2852
+83712,43.6172,-116.0932
+83713,43.6390,-116.3375
+83714,43.7065,-116.2767
+83716,43.8759,-115.1604
+83720,43.6177,-116.1997
+83725,43.6048,-116.2056
+83801,47.9590,-116.6458
+83802,47.2780,-115.6188
+83803,48.0211,-116.3726
+83804,48.0453,-116.9713
+83805,48.8326,-116.4994
+83806,46.8776,-116.3741
+83808,47.3206,-116.0644
+83809,48.0623,-116.5812
+83810,47.5425,-116.4508
+83811,48.1105,-116.1590
+83812,47.0194,-116.2841
+83813,48.1152,-116.6759
+83814,47.6907,-116.6549
+83815,47.7263,-116.7899
+83821,48.5234,-116.8465
+83822,48.1713,-116.9997
+83823,46.8209,-116.5409
+83824,47.1093,-116.9434
+83825,48.2477,-116.6078
+83826,48.9837,-116.1519
+83827,46.7783,-116.1737
+83830,47.0789,-116.3527
+83832,46.5523,-116.9096
+83833,47.5253,-116.7440
+83834,47.0088,-116.7275
+83835,47.7970,-116.6603
+83836,48.2443,-116.1923
+83837,47.5287,-116.0906
+83839,47.6228,-116.1805
+83840,48.3126,-116.5151
+83841,48.2001,-116.7698
+83842,47.4448,-116.5465
+83843,46.7222,-116.9402
+83844,46.7288,-117.0199
+83845,48.7429,-116.0956
+83846,47.4852,-115.7346
+83847,48.5789,-116.4300
+83848,48.7227,-116.9150
+83849,47.5381,-115.9920
+83850,47.4440,-116.2073
+83851,47.2963,-116.8998
+83852,48.3178,-116.5337
+83854,47.7260,-116.9759
+83855,46.9948,-116.8882
+83856,48.3325,-116.8989
+83857,46.8866,-116.8113
+83858,47.8553,-116.9038
+83860,48.1805,-116.5362
+83861,47.2490,-116.5869
+83864,48.4349,-116.5043
+83866,47.1428,-116.4400
+83867,47.5062,-115.9470
+83868,47.5163,-116.1828
+83869,47.9823,-116.8924
+83870,47.1386,-116.8536
+83871,46.7419,-116.7428
+83872,46.8524,-116.9731
+83873,47.5829,-115.8435
+83874,47.6432,-115.8050
+83876,47.4557,-116.9489
+84001,40.3452,-110.2735
+84002,40.4312,-110.2884
+84003,40.4717,-111.6806
+84004,40.4888,-111.7278
+84005,40.3227,-111.9994
+84006,40.5969,-112.1238
+84007,40.3451,-110.2032
+84008,40.0334,-109.1938
+84009,40.5535,-112.0181
+84010,40.8731,-111.8350
+84013,40.2959,-112.0945
+84014,40.9366,-111.8333
+84015,41.1204,-112.0608
+84017,40.9562,-111.2143
+84018,41.2219,-111.4484
+84020,40.4977,-111.8661
+84021,40.1082,-110.5338
+84022,40.3505,-112.6403
+84023,40.9033,-109.2173
+84024,41.0077,-111.4472
+84025,40.9758,-111.8993
+84026,40.2941,-109.8451
+84027,40.1552,-110.7779
+84028,41.9374,-111.3895
+84029,40.5729,-112.9533
+84031,40.6501,-110.6567
+84032,40.3693,-111.1870
+84033,40.9800,-111.4915
+84034,39.9924,-113.8789
+84035,40.4088,-109.2925
+84036,40.6992,-111.0204
+84037,41.0225,-111.9488
+84038,41.8920,-111.2635
+84039,40.4401,-109.8127
+84040,41.0917,-111.8972
+84041,41.0699,-111.9813
+84042,40.3411,-111.7247
+84043,40.4117,-111.8742
+84044,40.7361,-112.1212
+84045,40.2924,-111.9288
+84046,40.9526,-109.7963
+84047,40.6153,-111.8918
+84049,40.5041,-111.5134
+84050,41.0241,-111.6640
+84051,40.3895,-110.4270
+84052,40.1665,-109.9977
+84053,40.4350,-109.9867
+84054,40.8386,-111.9179
+84055,40.7451,-111.1491
+84056,41.1291,-111.9919
+84057,40.3143,-111.7095
+84058,40.2747,-111.7147
+84059,40.3035,-111.7485
+84060,40.6444,-111.5066
+84061,40.7640,-111.3188
+84062,40.3838,-111.6819
+84063,40.2118,-109.6942
+84064,41.6829,-111.1120
+84065,40.4939,-111.9437
+84066,40.3463,-110.0673
+84067,41.1711,-112.0481
+84069,40.3652,-112.4855
+84070,40.5771,-111.8891
+84071,40.3538,-112.2679
+84072,40.3640,-110.6330
+84073,40.3459,-110.4163
+84074,40.5821,-112.3036
+84075,41.0565,-112.0699
+84076,40.4472,-109.8402
+84078,40.4655,-109.5109
+84080,40.0332,-112.4519
+84081,40.6028,-112.0382
+84082,40.3403,-111.3617
+84083,40.8178,-113.7396
+84084,40.6214,-111.9661
+84085,40.5786,-109.9250
+84086,41.4176,-111.2012
+84087,40.8891,-111.9282
+84088,40.5951,-111.9608
+84092,40.5520,-111.7148
+84093,40.5947,-111.8285
+84094,40.5716,-111.8619
+84095,40.5586,-111.9417
+84096,40.4870,-112.1000
+84097,40.3047,-111.6732
+84098,40.7469,-111.5329
+84101,40.7563,-111.9000
+84102,40.7599,-111.8636
+84103,40.8034,-111.8470
+84104,40.7494,-111.9815
+84105,40.7383,-111.8598
+84106,40.7068,-111.8557
+84107,40.6580,-111.8845
+84108,40.8090,-111.7275
+84109,40.7058,-111.7045
+84111,40.7558,-111.8843
+84112,40.7653,-111.8414
+84113,40.7627,-111.8328
+84114,40.7779,-111.8883
+84115,40.7148,-111.8927
+84116,40.8659,-112.0391
+84117,40.6617,-111.8356
+84118,40.6560,-112.0381
+84119,40.7003,-111.9464
+84120,40.6969,-112.0017
+84121,40.6170,-111.6868
+84123,40.6584,-111.9217
+84124,40.6778,-111.7976
+84128,40.7052,-112.0426
+84129,40.6536,-111.9621
+84138,40.7667,-111.8873
+84150,40.7715,-111.8911
+84180,40.7704,-111.9011
+84301,41.6136,-112.1272
+84302,41.5847,-112.0516
+84304,41.8218,-111.9791
+84305,41.9438,-112.0644
+84306,41.7848,-112.0538
+84307,41.4801,-112.5372
+84308,41.9664,-111.9676
+84309,41.7138,-112.0991
+84310,41.3354,-111.8468
+84311,41.8201,-112.1106
+84312,41.7773,-112.1561
+84313,41.3679,-113.6825
+84314,41.6494,-112.0929
+84315,41.1675,-112.1378
+84316,41.7787,-112.4480
+84317,41.3076,-111.6202
+84318,41.8017,-111.8042
+84319,41.5933,-111.6600
+84320,41.9529,-111.8521
+84321,41.7748,-111.7128
+84322,41.7582,-111.8126
+84324,41.4943,-111.9412
+84325,41.7372,-111.9979
+84326,41.6723,-111.8177
+84327,41.8656,-111.9971
+84328,41.5394,-111.8444
+84329,41.8042,-113.4763
+84330,41.9063,-112.1702
+84331,41.9436,-112.3587
+84332,41.7031,-111.8120
+84333,41.9103,-111.7985
+84334,41.7896,-112.1519
+84335,41.8240,-111.8835
+84336,41.8774,-112.8583
+84337,41.6908,-112.2826
+84338,41.9139,-111.9358
+84339,41.6253,-111.9390
+84340,41.4030,-112.1789
+84341,41.7707,-111.8124
+84401,41.2187,-112.0326
+84403,41.2150,-111.8896
+84404,41.2695,-112.1177
+84405,41.1499,-111.9569
+84408,41.1926,-111.9395
+84414,41.3271,-111.9655
+84501,39.5305,-110.8109
+84511,37.5273,-109.4115
+84512,37.1697,-109.5657
+84513,39.2584,-111.0083
+84515,38.9108,-109.3525
+84516,39.1284,-111.0671
+84518,39.3889,-110.8769
+84520,39.5307,-110.4184
+84521,39.4170,-110.7624
+84522,38.8603,-111.2232
+84523,39.0585,-111.2201
+84525,39.0732,-110.2231
+84526,39.6815,-110.9652
+84528,39.4023,-111.0758
+84529,39.7115,-110.7733
+84530,38.2441,-109.4043
+84531,37.0598,-109.8330
+84532,38.5177,-109.3852
+84533,37.4054,-110.5373
+84534,37.2156,-109.2663
+84535,37.8499,-109.2964
+84536,37.1304,-110.2186
+84537,39.2996,-111.1733
+84539,39.5761,-110.4007
+84540,39.2165,-109.5205
+84542,39.7429,-110.4885
+84601,40.2272,-111.6958
+84602,40.2541,-111.6501
+84604,40.3187,-111.5770
+84606,40.2149,-111.6262
+84620,38.9224,-111.9243
+84621,39.0514,-111.8351
+84622,39.0982,-111.8135
+84623,39.4538,-111.5884
+84624,39.3826,-112.5937
+84626,39.9360,-111.9849
+84627,39.3554,-111.5857
+84628,39.9358,-112.1342
+84629,39.7655,-111.4529
+84630,39.3106,-111.8342
+84631,38.9977,-112.3968
+84632,39.6450,-111.6465
+84633,39.9398,-111.8912
+84634,39.1780,-111.8342
+84635,39.3907,-112.7215
+84636,39.1396,-112.3389
+84637,38.7218,-112.4871
+84638,39.5019,-112.2577
+84639,39.5072,-111.9001
+84640,39.4648,-112.3922
+84642,39.2566,-111.5522
+84643,39.1287,-111.6849
+84644,38.8489,-112.3321
+84645,39.8605,-111.8401
+84646,39.5411,-111.6088
+84647,39.5271,-111.4066
+84648,39.6866,-111.8682
+84649,39.3466,-112.3300
+84651,39.9578,-111.6937
+84652,39.0172,-111.8759
+84653,40.0480,-111.6685
+84654,38.8642,-111.6790
+84655,39.9713,-111.8068
+84656,39.2352,-112.1088
+84657,38.8186,-111.9389
+84660,40.0406,-111.4191
+84662,39.4398,-111.4857
+84663,40.1927,-111.4892
+84664,40.1262,-111.5772
+84665,39.1921,-111.6162
+84667,39.5003,-111.6648
+84701,38.5907,-111.8004
+84710,37.4692,-112.5106
+84711,38.7256,-112.0488
+84712,38.1365,-111.9756
+84713,38.3326,-112.5169
+84714,37.8382,-113.7660
+84715,38.3322,-111.6031
+84716,37.9444,-111.4423
+84718,37.5795,-112.0830
+84719,37.6609,-112.7815
+84720,37.5934,-113.2923
+84721,37.7687,-113.1336
+84722,37.4848,-113.5556
+84723,38.1755,-112.2496
+84724,38.6741,-112.1501
+84725,37.5404,-113.7802
+84726,37.7534,-111.5804
+84728,39.3331,-113.9124
+84729,37.3826,-112.6602
+84730,38.7364,-112.0193
+84731,38.1865,-112.7634
+84732,38.4453,-111.9041
+84733,37.2971,-113.8057
+84734,38.3627,-110.5768
+84735,37.6449,-112.4496
+84736,37.6633,-111.7878
+84737,37.0294,-113.2464
+84738,37.2163,-113.6986
+84739,38.6420,-112.2230
+84740,38.2843,-112.2644
+84741,37.1885,-112.2492
+84742,37.5177,-113.1588
+84743,38.2082,-112.1856
+84744,38.6261,-111.9187
+84745,37.2084,-113.2627
+84746,37.2387,-113.3506
+84747,38.4463,-111.6377
+84749,38.3543,-111.4995
+84750,38.4387,-112.1921
+84751,38.3701,-112.9206
+84752,38.2510,-112.8872
+84753,37.9652,-113.8580
+84754,38.6108,-112.1171
+84755,37.2265,-112.7853
+84756,37.7425,-113.5477
+84757,37.4646,-113.2693
+84758,37.3265,-112.7806
+84759,37.9261,-112.3901
+84760,37.9496,-112.6618
+84761,37.8523,-112.8660
+84762,37.4972,-112.7370
+84763,37.1467,-113.0695
+84764,37.7853,-111.9325
+84765,37.3378,-114.0180
+84766,38.5985,-112.3457
+84767,37.2014,-112.9858
+84770,37.1384,-113.6296
+84772,37.7933,-112.9476
+84773,38.2507,-111.4705
+84774,37.2432,-113.2809
+84775,38.2896,-111.0334
+84776,37.6296,-112.0825
+84779,37.3349,-113.1221
+84780,37.1332,-113.4737
+84781,37.3968,-113.4751
+84782,37.3799,-113.6676
+84783,37.2638,-113.6828
+84784,37.0187,-112.9693
+84790,37.0461,-113.5573
+85003,33.4505,-112.0783
+85004,33.4516,-112.0699
+85006,33.4652,-112.0488
+85007,33.4465,-112.0903
+85008,33.4639,-111.9878
+85009,33.4445,-112.1287
+85012,33.5076,-112.0710
+85013,33.5111,-112.0847
+85014,33.5072,-112.0577
+85015,33.5086,-112.1021
+85016,33.5102,-112.0317
+85017,33.5088,-112.1231
+85018,33.5198,-111.9936
+85019,33.5115,-112.1433
+85020,33.5661,-112.0556
+85021,33.5611,-112.0949
+85022,33.6271,-112.0492
+85023,33.6341,-112.0932
+85024,33.6896,-112.0447
+85026,33.4489,-111.9735
+85027,33.6775,-112.1023
+85028,33.5816,-112.0081
+85029,33.5954,-112.1098
+85031,33.4940,-112.1669
+85032,33.6259,-112.0025
+85033,33.4936,-112.2140
+85034,33.4304,-112.0149
+85035,33.4717,-112.1954
+85037,33.4867,-112.2683
+85040,33.4056,-112.0255
+85041,33.3870,-112.1096
+85042,33.3555,-112.0522
+85043,33.4331,-112.1972
+85044,33.3397,-112.0062
+85045,33.2989,-112.1059
+85048,33.3020,-112.0289
+85050,33.6874,-111.9989
+85051,33.5588,-112.1325
+85053,33.6296,-112.1318
+85054,33.6810,-111.9449
+85083,33.7454,-112.1746
+85085,33.7526,-112.0902
+85086,33.8225,-112.1303
+85087,33.9250,-112.1489
+85118,33.3570,-111.3631
+85119,33.3868,-111.5082
+85120,33.3869,-111.5616
+85121,33.1372,-111.9143
+85122,32.9167,-111.7480
+85123,32.7131,-111.6784
+85128,32.9628,-111.5097
+85131,32.6538,-111.5771
+85132,32.9270,-111.2141
+85135,32.9949,-110.7799
+85137,33.1364,-111.0226
+85138,33.0177,-111.9913
+85139,32.9239,-112.2067
+85140,33.2481,-111.4892
+85141,32.6418,-111.4345
+85142,33.1924,-111.6659
+85143,33.1560,-111.5198
+85145,32.5413,-111.3911
+85147,33.0978,-111.7248
+85172,32.9048,-111.9555
+85173,33.2683,-111.1365
+85191,32.9850,-111.4469
+85192,32.9629,-110.6785
+85193,32.8133,-111.8404
+85194,32.9011,-111.6280
+85201,33.4335,-111.8504
+85202,33.3798,-111.8750
+85203,33.4504,-111.8029
+85204,33.3957,-111.7866
+85205,33.4332,-111.7136
+85206,33.3974,-111.7165
+85207,33.4533,-111.6367
+85208,33.4024,-111.6321
+85209,33.3783,-111.6344
+85210,33.3897,-111.8435
+85212,33.3206,-111.6308
+85213,33.4484,-111.7662
+85215,33.5119,-111.5794
+85224,33.3235,-111.8762
+85225,33.3178,-111.8305
+85226,33.2751,-111.9251
+85233,33.3524,-111.8126
+85234,33.3655,-111.7397
+85236,33.3229,-111.7196
+85248,33.2149,-111.8664
+85249,33.2271,-111.7997
+85250,33.5271,-111.8894
+85251,33.4945,-111.9207
+85253,33.5442,-111.9588
+85254,33.6146,-111.9497
+85255,33.6682,-111.8225
+85256,33.5006,-111.8351
+85257,33.4632,-111.9138
+85258,33.5579,-111.8929
+85259,33.6010,-111.8095
+85260,33.6081,-111.8892
+85262,33.8580,-111.8051
+85263,33.9331,-111.5595
+85264,33.6878,-111.4874
+85266,33.7624,-111.9191
+85268,33.6067,-111.7370
+85281,33.4274,-111.9340
+85282,33.3940,-111.9329
+85283,33.3646,-111.9316
+85284,33.3383,-111.9339
+85286,33.2723,-111.8339
+85295,33.3053,-111.7365
+85296,33.3323,-111.7498
+85297,33.2813,-111.7336
+85298,33.2398,-111.7282
+85301,33.5337,-112.1785
+85302,33.5681,-112.1781
+85303,33.5340,-112.2208
+85304,33.5945,-112.1795
+85305,33.5300,-112.2557
+85306,33.6236,-112.1753
+85307,33.5304,-112.3100
+85308,33.6604,-112.1850
+85309,33.5356,-112.3764
+85310,33.7010,-112.1581
+85320,33.8356,-113.2322
+85321,32.3620,-112.5847
+85322,33.1591,-112.8720
+85323,33.4192,-112.3269
+85324,34.1216,-112.0379
+85325,33.9628,-113.8694
+85326,33.2292,-112.5829
+85328,33.2526,-114.6204
+85329,33.4318,-112.2964
+85331,33.8842,-111.9396
+85332,34.2071,-112.9210
+85333,32.9762,-113.3102
+85334,33.5939,-114.3634
+85335,33.5854,-112.3268
+85336,32.5088,-114.7440
+85337,32.9756,-112.8658
+85338,33.3730,-112.4108
+85339,33.2409,-112.1427
+85340,33.5164,-112.4236
+85341,31.9726,-112.7195
+85342,33.9445,-112.4513
+85343,33.3378,-112.6909
+85344,33.9114,-114.2572
+85345,33.5723,-112.2481
+85346,33.6099,-114.1583
+85347,32.7860,-113.8069
+85348,33.6992,-113.6639
+85349,32.4764,-114.6835
+85350,32.5636,-114.7055
+85351,33.6058,-112.2841
+85352,32.6912,-113.8963
+85353,33.4175,-112.2770
+85354,33.4089,-113.0701
+85355,33.5746,-112.4529
+85356,32.6894,-114.1852
+85357,34.0207,-113.4507
+85360,34.5485,-113.5744
+85361,33.7523,-112.6294
+85362,34.2855,-112.8432
+85363,33.5850,-112.3049
+85364,32.7046,-114.6563
+85365,33.0176,-114.1105
+85367,32.6608,-114.3936
+85371,33.9673,-114.3900
+85373,33.6692,-112.3003
+85374,33.6449,-112.3950
+85375,33.6714,-112.3572
+85377,33.8232,-111.9133
+85378,33.6446,-112.3199
+85379,33.6021,-112.3740
+85381,33.6091,-112.2303
+85382,33.6556,-112.2476
+85383,33.7984,-112.3052
+85387,33.7092,-112.4467
+85388,33.6042,-112.4316
+85390,33.9036,-112.8757
+85392,33.4766,-112.3094
+85395,33.4850,-112.4059
+85396,33.5365,-112.7025
+85501,33.5590,-110.7691
+85530,33.0863,-110.2667
+85531,32.8709,-109.7807
+85532,33.4096,-110.8421
+85533,33.2874,-109.3805
+85534,32.7222,-109.1531
+85535,32.9865,-109.9127
+85536,33.1475,-109.9894
+85539,33.3357,-110.9299
+85540,33.0029,-109.3815
+85541,34.2233,-111.3473
+85542,33.3247,-110.3108
+85543,32.9537,-109.8988
+85544,34.3836,-111.4773
+85545,33.5652,-111.1404
+85546,32.6999,-109.5886
+85550,33.5485,-110.5090
+85551,32.7378,-109.5623
+85552,32.8187,-109.7856
+85553,33.7938,-111.2235
+85554,33.9964,-110.9988
+85601,31.5835,-111.3311
+85602,32.1675,-110.4119
+85603,31.4327,-109.9191
+85605,32.3079,-109.4708
+85606,32.0053,-109.9301
+85607,31.4898,-109.3369
+85608,31.4569,-109.5809
+85609,32.0693,-110.0969
+85610,31.7414,-109.6719
+85611,31.6441,-110.5118
+85613,31.5359,-110.4137
+85614,31.8113,-110.9311
+85615,31.3981,-110.2107
+85616,31.7020,-110.3227
+85617,31.5775,-109.7188
+85618,32.7763,-110.6942
+85619,32.3957,-110.7367
+85620,31.3385,-109.9447
+85621,31.3880,-110.8997
+85622,31.8030,-111.0911
+85623,32.6540,-110.7845
+85624,31.5204,-110.7230
+85625,31.8760,-109.6642
+85626,31.3593,-109.5683
+85627,32.0078,-110.2355
+85629,31.9596,-111.1093
+85630,31.8868,-110.1798
+85631,32.5813,-110.5625
+85632,32.0584,-109.1837
+85633,31.6074,-111.5305
+85634,32.0124,-112.0214
+85635,31.5531,-110.1711
+85637,31.7194,-110.6909
+85638,31.6660,-110.0595
+85639,31.7717,-111.6823
+85640,31.5690,-111.0447
+85641,32.0211,-110.6463
+85643,32.4607,-110.0003
+85645,31.6982,-111.1426
+85646,31.6210,-111.0503
+85648,31.4964,-111.0013
+85650,31.4989,-110.2013
+85653,32.3988,-111.3863
+85654,32.4151,-111.1546
+85658,32.5159,-111.1526
+85701,32.2170,-110.9713
+85704,32.3394,-110.9850
+85705,32.2712,-110.9917
+85706,32.1478,-110.9354
+85707,32.1802,-110.8896
+85708,32.1758,-110.8602
+85709,32.1413,-110.9901
+85710,32.2144,-110.8237
+85711,32.2150,-110.8835
+85712,32.2529,-110.8866
+85713,32.1946,-111.0150
+85714,32.1700,-110.9466
+85715,32.2467,-110.8362
+85716,32.2422,-110.9235
+85718,32.3131,-110.9220
+85719,32.2462,-110.9488
+85721,32.2311,-110.9496
+85723,32.1819,-110.9650
+85724,32.2408,-110.9456
+85726,32.2043,-110.9453
+85730,32.1898,-110.7205
+85734,32.0676,-110.8672
+85735,32.1039,-111.3345
+85736,31.8709,-111.3670
+85737,32.4146,-110.9466
+85739,32.6122,-111.0089
+85741,32.3353,-111.0418
+85742,32.3863,-111.0553
+85743,32.3023,-111.1818
+85745,32.2490,-111.0613
+85746,32.0696,-111.0905
+85747,32.0932,-110.7723
+85748,32.2190,-110.7521
+85749,32.2819,-110.7316
+85750,32.2980,-110.8449
+85755,32.4684,-110.9815
+85756,32.0703,-110.9063
+85757,32.1284,-111.1223
+85901,34.3148,-110.0240
+85902,34.1561,-110.1591
+85911,34.0920,-110.4203
+85912,34.4146,-109.9102
+85920,33.8586,-109.1782
+85922,33.5107,-109.1291
+85923,34.3231,-110.3403
+85924,34.5666,-109.6724
+85925,34.0189,-109.3525
+85926,33.7693,-109.9793
+85927,33.9908,-109.4788
+85928,34.5180,-110.5575
+85929,34.1712,-109.9651
+85930,34.0348,-109.7707
+85931,34.3700,-110.9156
+85932,33.9688,-109.1807
+85933,34.3571,-110.5093
+85934,34.3025,-110.2443
+85935,34.1591,-109.9274
+85936,34.5917,-109.2904
+85937,34.5697,-110.0143
+85938,34.1634,-109.4143
+85939,34.4314,-110.0853
+85940,34.2529,-109.7018
+85941,33.8915,-110.0632
+85942,34.7739,-110.0342
+86001,35.3577,-111.7712
+86003,35.2425,-111.2020
+86004,35.3809,-111.3735
+86005,35.0877,-111.6192
+86011,35.1895,-111.6547
+86015,35.2228,-111.8141
+86016,35.7525,-111.6411
+86017,34.9407,-111.6811
+86018,35.2387,-111.9698
+86020,35.9928,-111.4978
+86021,36.9401,-113.1462
+86022,36.7707,-112.5583
+86023,36.0505,-112.0134
+86024,34.6709,-111.1909
+86025,34.8922,-110.0658
+86028,35.0325,-109.8155
+86029,34.9706,-110.0131
+86030,35.8539,-110.7992
+86031,35.3635,-110.0666
+86032,35.0796,-110.2839
+86033,36.6773,-110.2563
+86034,35.7709,-110.1381
+86035,35.4054,-111.0238
+86036,36.7889,-111.8155
+86038,34.9105,-111.4893
+86039,35.9722,-110.5694
+86040,36.6596,-111.3857
+86042,35.8618,-110.3842
+86043,35.8097,-110.5334
+86044,36.7355,-110.8026
+86045,36.1420,-111.1237
+86046,35.4369,-112.1762
+86047,35.1807,-110.6210
+86052,36.2866,-112.1434
+86053,36.7582,-111.0564
+86054,36.6750,-110.6181
+86301,34.5981,-112.4202
+86303,34.4971,-112.4326
+86305,34.7698,-112.7570
+86313,34.5542,-112.4529
+86314,34.5982,-112.3308
+86315,34.6740,-112.2891
+86320,35.3747,-112.6239
+86321,34.5536,-113.0890
+86322,34.4723,-111.8076
+86323,34.7661,-112.4042
+86324,34.8201,-112.1079
+86325,34.7335,-111.8989
+86326,34.6986,-112.0138
+86327,34.5568,-112.1109
+86329,34.4859,-112.2766
+86331,34.7601,-112.1170
+86332,34.3040,-112.6178
+86333,34.3230,-112.0820
+86334,34.9480,-112.5396
+86335,34.6483,-111.6633
+86336,34.8785,-111.8580
+86337,35.2410,-113.0512
+86338,34.5730,-112.7575
+86343,34.1927,-112.3195
+86351,34.7785,-111.7851
+86401,35.1137,-113.7381
+86403,34.4769,-114.3441
+86404,34.5900,-114.3078
+86406,34.3824,-114.0806
+86409,35.4610,-114.0181
+86411,35.4475,-113.7437
+86413,35.1698,-114.2569
+86426,35.0134,-114.5497
+86429,35.2829,-114.4775
+86431,35.4252,-114.2474
+86432,36.7992,-113.7240
+86433,34.9286,-114.3586
+86434,35.6564,-113.5928
+86435,36.0054,-112.9451
+86436,34.7390,-114.4169
+86437,35.3951,-113.5979
+86438,34.6832,-113.9877
+86440,34.8897,-114.5422
+86441,35.5654,-114.3001
+86442,35.0896,-114.5609
+86443,35.9488,-114.4449
+86444,35.9054,-114.0606
+86445,35.6875,-114.5559
+86502,35.1431,-109.6095
+86503,36.2169,-109.6824
+86504,35.8604,-109.1394
+86505,35.6238,-109.7070
+86506,35.3541,-109.2588
+86507,36.4240,-109.2834
+86508,35.3521,-109.0871
+86510,36.2272,-110.2721
+86511,35.7399,-109.3689
+86512,35.0951,-109.2432
+86514,36.9059,-109.3258
+86515,35.7074,-108.9843
+86520,36.0443,-109.9714
+86535,36.8231,-109.8656
+86538,36.4211,-109.6339
+86540,35.9414,-109.4440
+86544,36.5443,-109.1422
+86545,36.7178,-109.5408
+86547,36.5488,-109.4744
+86556,36.2283,-109.2203
+87001,35.4143,-106.3828
+87002,34.6356,-106.8287
+87004,35.3689,-106.5972
+87005,35.2655,-108.0030
+87006,34.4845,-106.8435
+87007,34.9654,-107.4298
+87008,35.1495,-106.4020
+87010,35.3998,-106.1391
+87011,34.0823,-105.9723
+87012,36.1273,-106.6516
+87013,35.8939,-107.3356
+87014,35.1725,-107.4070
+87015,35.0759,-106.1830
+87016,34.7552,-106.0156
+87017,36.3097,-106.7340
+87018,36.1084,-107.5310
+87020,35.0144,-107.9250
+87021,35.1921,-107.8790
+87022,34.9100,-106.6948
+87023,34.6005,-106.7675
+87024,35.6735,-106.7494
+87025,35.8343,-106.6173
+87026,34.9811,-107.2077
+87027,36.1273,-106.9474
+87028,34.3542,-106.7825
+87029,36.4193,-107.0431
+87031,34.7791,-106.7257
+87032,34.8679,-106.0420
+87034,34.9222,-107.6344
+87035,34.9520,-105.9094
+87036,34.3721,-106.2392
+87037,36.1880,-107.7804
+87038,35.0876,-107.4123
+87040,35.1377,-107.4129
+87041,35.6017,-106.3208
+87042,34.8283,-106.6862
+87043,35.2789,-106.4309
+87044,35.7125,-106.6566
+87045,35.3971,-108.0155
+87046,36.2860,-106.9151
+87047,35.2508,-106.2888
+87048,35.2396,-106.6271
+87049,35.1319,-107.6291
+87051,35.0364,-107.8528
+87052,35.5285,-106.3706
+87053,35.5751,-106.8825
+87056,35.1616,-105.8851
+87059,34.9968,-106.3006
+87060,34.7387,-106.7366
+87061,34.7050,-106.3815
+87062,34.4619,-106.6972
+87063,34.5550,-105.8906
+87064,36.1839,-106.5387
+87068,34.8924,-106.6459
+87070,35.0225,-105.7405
+87072,35.6083,-106.3955
+87083,35.6450,-106.3636
+87101,35.0967,-106.6434
+87102,35.0824,-106.6468
+87104,35.1030,-106.6745
+87105,34.9943,-106.6848
+87106,35.0071,-106.6098
+87107,35.1378,-106.6425
+87108,35.0723,-106.5783
+87109,35.1517,-106.5749
+87110,35.1082,-106.5781
+87111,35.1408,-106.5146
+87112,35.1006,-106.5163
+87113,35.1960,-106.5732
+87114,35.1975,-106.6818
+87116,35.0489,-106.5611
+87117,34.9976,-106.5209
+87120,35.1405,-106.7610
+87121,35.0170,-106.8883
+87122,35.1885,-106.4935
+87123,35.0614,-106.4712
+87124,35.2699,-106.7956
+87144,35.3302,-106.7101
+87151,35.0077,-106.8603
+87301,35.5216,-108.7653
+87305,35.4032,-108.7315
+87310,35.7467,-108.5959
+87311,35.6066,-108.5002
+87312,35.4291,-108.3454
+87313,35.7982,-108.2210
+87315,34.6626,-108.5508
+87316,35.4890,-108.5262
+87317,35.5802,-108.7524
+87319,35.4773,-108.9396
+87320,35.8076,-108.8713
+87321,35.0653,-108.4051
+87322,35.4853,-108.6625
+87323,35.4568,-108.1861
+87325,35.9839,-108.5722
+87326,35.2771,-108.8829
+87327,35.0720,-108.7887
+87328,36.0303,-109.0325
+87347,35.3852,-108.4579
+87357,34.8294,-108.4093
+87364,36.1336,-108.7120
+87365,35.5359,-108.1379
+87375,35.6711,-108.7889
+87401,36.7382,-108.1833
+87402,36.7966,-108.1517
+87410,36.8582,-107.8955
+87412,36.6450,-107.5475
+87413,36.4607,-107.9645
+87415,36.8272,-108.0975
+87416,36.5851,-108.4516
+87417,36.7501,-108.3520
+87418,36.9507,-108.1502
+87419,36.9193,-107.6403
+87420,36.8625,-108.9358
+87421,36.7768,-108.5274
+87455,36.2731,-108.7138
+87461,36.4521,-108.9248
+87499,36.3160,-108.2444
+87501,35.7082,-105.8510
+87505,35.6198,-105.8670
+87506,35.8246,-105.9553
+87507,35.6218,-106.1086
+87508,35.5206,-105.9458
+87510,36.3620,-106.4764
+87511,36.0889,-105.9752
+87512,36.9234,-105.3435
+87513,36.5837,-105.7012
+87514,36.5296,-105.6006
+87515,36.5571,-106.3771
+87516,36.1778,-106.4663
+87517,36.3903,-105.7927
+87518,36.5202,-106.5470
+87519,36.7647,-105.6350
+87520,36.8750,-106.6273
+87521,36.0180,-105.6125
+87522,35.9640,-105.8431
+87523,36.0111,-105.8629
+87524,36.9697,-105.5375
+87525,36.5985,-105.4981
+87527,36.1511,-105.8384
+87528,36.7855,-106.8789
+87529,36.4459,-105.6661
+87530,36.3408,-106.2018
+87531,36.2282,-105.9017
+87532,35.9898,-106.1256
+87535,35.5668,-105.7472
+87537,36.1421,-106.2599
+87538,35.4932,-105.5377
+87539,36.3856,-105.9802
+87540,35.4069,-105.8735
+87543,36.1040,-105.6578
+87544,35.7670,-106.2951
+87547,35.8110,-106.2077
+87548,36.1759,-106.1853
+87549,36.2933,-105.9646
+87551,36.6994,-106.6614
+87552,35.6701,-105.6139
+87553,36.2204,-105.7344
+87554,36.5485,-106.0701
+87556,36.8122,-105.5572
+87557,36.2956,-105.6351
+87558,36.6739,-105.4555
+87560,35.2367,-105.5263
+87562,35.4066,-105.6552
+87564,36.6157,-105.6179
+87565,35.5159,-105.4729
+87566,36.0676,-106.0774
+87567,35.9940,-106.0187
+87569,35.3503,-105.3052
+87571,36.3516,-105.4365
+87573,35.7717,-105.7072
+87575,36.6429,-106.5954
+87577,36.6400,-106.0030
+87578,36.0474,-105.7701
+87579,36.0864,-105.5319
+87580,36.5596,-105.5746
+87581,36.5053,-106.1530
+87582,36.1791,-105.9945
+87583,35.2822,-105.3523
+87701,35.5421,-104.9335
+87710,36.3824,-105.2302
+87711,35.2382,-105.1391
+87712,35.8831,-105.1660
+87713,36.1708,-105.3611
+87714,36.4643,-105.0589
+87715,36.0109,-105.4225
+87718,36.5977,-105.2396
+87722,36.1458,-105.2756
+87723,36.0588,-105.3756
+87724,35.1720,-104.9853
+87728,36.6038,-104.5946
+87729,36.3034,-104.8178
+87730,36.1088,-104.2315
+87731,35.7008,-105.3990
+87732,35.9765,-105.4655
+87733,35.7527,-103.8548
+87734,36.1691,-105.0911
+87735,36.0487,-105.1198
+87736,35.9781,-105.1806
+87740,36.7671,-104.3639
+87742,35.8716,-105.4443
+87743,35.9744,-104.0203
+87745,35.7908,-105.2668
+87746,35.6552,-104.1112
+87747,36.3545,-104.4364
+87749,36.5776,-105.1273
+87750,35.8250,-104.9271
+87752,35.9942,-104.6574
+87753,35.8633,-104.9543
+87801,33.9326,-107.0738
+87820,33.9376,-108.5868
+87821,33.9499,-108.0721
+87823,34.1835,-106.9590
+87824,33.8286,-108.9817
+87825,33.9492,-107.6555
+87827,34.3623,-108.1374
+87828,34.2058,-106.9206
+87829,34.2366,-108.6585
+87830,33.7083,-108.7327
+87831,34.2830,-106.8872
+87832,33.8421,-106.8348
+87901,33.1609,-107.0168
+87930,32.8271,-107.3519
+87931,32.9239,-107.3442
+87933,32.7911,-107.2789
+87935,33.2547,-107.2287
+87936,32.7532,-107.2602
+87937,32.5913,-107.1952
+87939,33.3733,-107.3372
+87940,32.6421,-107.0066
+87941,32.7066,-107.2150
+87942,33.0610,-107.3489
+87943,33.4501,-107.6910
+88001,32.2902,-106.7531
+88002,32.3820,-106.4571
+88003,32.2787,-106.7457
+88004,32.2502,-106.9492
+88005,32.2231,-106.9876
+88007,32.3891,-106.9751
+88008,31.8187,-106.7573
+88009,31.9126,-108.5363
+88011,32.3772,-106.5763
+88012,32.5889,-106.7713
+88020,31.7810,-108.8271
+88021,31.9879,-106.8037
+88022,32.8027,-108.1881
+88023,32.7228,-108.0883
+88024,32.0654,-106.6180
+88025,33.1086,-108.7259
+88026,32.7520,-108.1630
+88027,32.0362,-106.6814
+88028,32.9669,-108.6705
+88029,31.8449,-107.6947
+88030,32.1735,-107.7274
+88034,32.5917,-107.9651
+88038,33.1264,-108.3576
+88039,33.2931,-108.5755
+88040,31.5972,-108.3550
+88041,32.8104,-107.8824
+88042,32.8119,-107.5657
+88043,32.6029,-108.1164
+88044,31.9808,-107.1007
+88045,32.3311,-108.7003
+88046,32.2678,-106.7968
+88047,32.2144,-106.7155
+88048,32.1447,-106.6550
+88049,33.0514,-108.0547
+88051,32.9996,-108.9198
+88052,32.4503,-106.6018
+88053,32.8960,-108.2138
+88055,32.7278,-108.7410
+88056,31.8408,-109.0031
+88061,32.6285,-108.4064
+88063,31.7991,-106.5505
+88065,32.7137,-108.3023
+88072,32.1381,-106.6161
+88081,32.2194,-106.2937
+88101,34.4995,-103.2577
+88103,34.3821,-103.3169
+88112,34.9228,-103.1344
+88113,33.8045,-103.0888
+88114,33.4885,-103.4174
+88115,33.9318,-103.3447
+88116,33.8949,-103.8190
+88118,34.2291,-103.6594
+88119,34.3593,-104.3687
+88120,34.8994,-103.4250
+88121,34.6798,-103.9772
+88124,34.5362,-103.6518
+88125,33.7059,-103.2254
+88126,33.8113,-103.3720
+88130,34.1315,-103.3267
+88132,33.9073,-103.1668
+88134,34.3717,-104.0167
+88135,34.5600,-103.0777
+88136,34.2441,-104.8159
+88201,33.6688,-104.4967
+88203,33.2907,-104.0675
+88210,32.7746,-104.2242
+88220,32.3149,-104.4200
+88230,33.2192,-104.3976
+88231,32.4243,-103.2613
+88232,33.0577,-104.1461
+88240,32.6747,-103.4468
+88242,32.8129,-103.1618
+88244,32.7641,-103.2249
+88250,32.7020,-104.9558
+88252,32.1552,-103.3780
+88253,32.9838,-104.5506
+88254,32.6279,-104.4048
+88255,32.8109,-103.9992
+88256,32.1933,-103.8889
+88260,32.9930,-103.3828
+88262,33.1264,-103.4039
+88263,32.1070,-104.0968
+88264,32.8630,-103.7099
+88265,32.5842,-103.3464
+88267,33.2967,-103.3923
+88268,32.1763,-104.3793
+88301,33.7491,-105.8520
+88310,32.7352,-106.0404
+88311,32.8121,-105.9906
+88312,33.4319,-105.6440
+88314,33.1103,-105.8672
+88316,33.7709,-105.3708
+88317,32.8606,-105.7213
+88318,34.2288,-105.5125
+88321,34.7804,-105.4461
+88323,33.4853,-105.5648
+88324,33.4225,-105.5270
+88325,32.8556,-105.8533
+88330,32.8671,-106.0966
+88336,33.3310,-105.2759
+88337,32.9964,-105.8845
+88338,33.5372,-105.3847
+88339,32.9581,-105.3234
+88340,33.1761,-105.5832
+88341,33.4735,-105.8456
+88342,32.3893,-106.1085
+88343,33.2351,-105.0678
+88344,32.5089,-105.2178
+88345,33.3524,-105.6710
+88346,33.3481,-105.5407
+88347,32.7551,-105.6774
+88348,33.4149,-105.4023
+88349,32.8015,-105.8097
+88350,32.6139,-105.6528
+88351,33.4715,-105.0977
+88352,33.1659,-105.9939
+88353,34.4991,-105.1033
+88354,32.7388,-105.4946
+88355,33.3629,-105.6694
+88401,35.0746,-103.7803
+88410,35.8955,-103.3164
+88411,35.2473,-103.1764
+88414,36.7796,-104.0259
+88415,36.3628,-103.3431
+88416,35.4773,-104.2095
+88417,34.9310,-104.2445
+88418,36.7514,-103.6416
+88419,36.8994,-103.5419
+88421,35.3269,-104.4973
+88422,36.3453,-103.9915
+88424,36.4395,-103.6644
+88426,35.5183,-103.4475
+88427,34.7818,-103.7642
+88430,35.6701,-103.2091
+88431,35.2125,-104.3368
+88434,35.1201,-103.3355
+88435,34.8859,-104.8249
+88436,36.1586,-103.1588
+88439,35.4938,-104.3782
+89001,37.3377,-115.3024
+89002,35.9985,-114.9618
+89003,36.9461,-116.7643
+89004,36.0416,-115.4126
+89005,35.9996,-114.8520
+89007,36.6667,-114.2267
+89008,37.2861,-114.5131
+89010,37.8247,-118.0792
+89011,36.0848,-114.9632
+89012,36.0119,-115.0432
+89013,37.3689,-117.2621
+89014,36.0615,-115.0577
+89015,36.0389,-114.9283
+89017,37.7022,-115.3336
+89018,36.5706,-115.6680
+89019,35.7695,-115.5159
+89020,36.5625,-116.4198
+89021,36.6402,-114.4710
+89022,38.5184,-117.0149
+89025,36.6832,-114.7897
+89026,35.7492,-115.2847
+89027,36.8145,-114.0933
+89029,35.1297,-114.6557
+89030,36.2123,-115.1231
+89031,36.2585,-115.1707
+89032,36.2224,-115.1736
+89034,36.8092,-114.1498
+89039,35.2657,-114.8724
+89040,36.3491,-114.5223
+89042,37.7982,-114.3586
+89043,38.2775,-114.4072
+89044,35.9399,-115.0563
+89045,38.8733,-117.0983
+89046,35.5139,-114.8106
+89047,37.7577,-117.6386
+89048,36.1636,-115.9875
+89049,38.3910,-116.3993
+89052,35.9799,-115.1079
+89054,35.9210,-115.1905
+89060,36.3916,-116.0576
+89061,36.0701,-115.9062
+89070,36.5008,-115.6396
+89074,36.0364,-115.0812
+89081,36.2585,-115.1075
+89084,36.2975,-115.1569
+89085,36.3096,-115.1982
+89086,36.2836,-115.1100
+89101,36.1728,-115.1223
+89102,36.1453,-115.1866
+89103,36.1124,-115.2121
+89104,36.1512,-115.1094
+89106,36.1821,-115.1625
+89107,36.1712,-115.2093
+89108,36.2051,-115.2237
+89109,36.1316,-115.1699
+89110,36.1737,-115.0555
+89113,36.0602,-115.2623
+89115,36.2537,-115.0429
+89117,36.1410,-115.2811
+89118,36.0778,-115.2130
+89119,36.0845,-115.1461
+89120,36.0807,-115.0959
+89121,36.1214,-115.0914
+89122,36.1040,-115.0378
+89123,36.0352,-115.1491
+89124,36.3918,-115.6830
+89128,36.1968,-115.2644
+89129,36.2332,-115.2903
+89130,36.2535,-115.2267
+89131,36.3061,-115.2430
+89134,36.2026,-115.3078
+89135,36.0953,-115.3717
+89138,36.2021,-115.3650
+89139,36.0343,-115.2111
+89141,35.9881,-115.2074
+89142,36.1481,-115.0310
+89143,36.3217,-115.2929
+89144,36.1775,-115.3194
+89145,36.1675,-115.2762
+89146,36.1433,-115.2268
+89147,36.1129,-115.2799
+89148,36.0634,-115.2968
+89149,36.2708,-115.2946
+89156,36.1590,-114.9817
+89158,36.1048,-115.1766
+89161,36.0374,-115.5082
+89166,36.3373,-115.4685
+89169,36.1241,-115.1418
+89178,35.9878,-115.2954
+89179,35.8916,-115.3279
+89183,35.9962,-115.1580
+89191,36.2473,-115.0042
+89301,39.5311,-114.7674
+89310,39.4742,-117.1403
+89311,39.2365,-114.1406
+89314,38.8627,-115.6418
+89315,39.1855,-114.8449
+89316,39.6713,-116.0136
+89317,38.9045,-115.0163
+89318,39.4386,-114.8172
+89319,39.2792,-114.9873
+89402,39.2304,-120.0022
+89403,39.2270,-119.4743
+89404,41.8417,-118.8787
+89405,40.4505,-119.4692
+89406,39.3590,-117.9468
+89408,39.6708,-119.0064
+89409,38.7265,-117.9497
+89410,38.7831,-119.5593
+89411,39.0184,-119.8530
+89412,41.1212,-119.7050
+89413,39.0734,-119.9229
+89414,41.0611,-117.2206
+89415,38.5172,-118.7887
+89418,40.5744,-118.0415
+89419,40.3429,-118.2877
+89420,38.5080,-118.1805
+89421,42.0445,-117.9470
+89422,38.4304,-118.1806
+89423,38.9971,-119.7353
+89424,40.1083,-119.4482
+89425,41.6583,-117.8816
+89426,41.4776,-117.6173
+89427,38.8999,-118.6458
+89428,39.2569,-119.6310
+89429,39.3569,-119.2696
+89430,38.7957,-119.3178
+89431,39.5383,-119.7498
+89433,39.5976,-119.7781
+89434,39.5406,-119.5440
+89436,39.6173,-119.7043
+89437,39.5012,-119.4688
+89438,40.8037,-117.1272
+89439,39.5234,-119.9904
+89440,39.2961,-119.6620
+89441,39.6813,-119.6875
+89442,39.6930,-119.3448
+89444,38.7398,-119.3827
+89445,41.1211,-118.0085
+89446,40.8788,-117.9532
+89447,38.8297,-119.1148
+89448,38.9982,-119.9150
+89449,38.9552,-119.9115
+89450,39.2413,-119.9383
+89451,39.2690,-119.9457
+89460,38.9023,-119.7925
+89496,39.1995,-118.5710
+89501,39.5260,-119.8126
+89502,39.4941,-119.7423
+89503,39.5410,-119.8401
+89506,39.6988,-119.8263
+89508,39.7806,-119.9138
+89509,39.4973,-119.8269
+89510,39.9263,-119.7108
+89511,39.4254,-119.8719
+89512,39.5510,-119.8011
+89519,39.4790,-119.8571
+89521,39.3716,-119.6759
+89523,39.5266,-119.9158
+89557,39.5424,-119.8159
+89701,39.1289,-119.7254
+89703,39.1369,-119.8699
+89704,39.2753,-119.7875
+89705,39.0900,-119.8369
+89706,39.2227,-119.7016
+89801,41.1650,-115.7572
+89815,40.5647,-115.5965
+89820,40.4288,-116.9611
+89821,40.5557,-116.4157
+89822,40.4922,-116.1890
+89823,40.9503,-115.1607
+89825,41.9044,-114.7096
+89826,41.9307,-115.4108
+89828,40.7353,-115.3434
+89830,41.3217,-114.1771
+89831,41.7160,-116.0983
+89832,41.9787,-116.1918
+89833,40.4828,-115.3316
+89834,41.4083,-116.2281
+89835,41.2764,-114.8738
+89883,40.8489,-114.1577
+90001,33.9737,-118.2490
+90002,33.9490,-118.2468
+90003,33.9641,-118.2728
+90004,34.0762,-118.3110
+90005,34.0594,-118.3090
+90006,34.0481,-118.2940
+90007,34.0282,-118.2848
+90008,34.0107,-118.3429
+90010,34.0610,-118.2999
+90011,34.0071,-118.2587
+90012,34.0660,-118.2386
+90013,34.0447,-118.2400
+90014,34.0430,-118.2519
+90015,34.0393,-118.2663
+90016,34.0283,-118.3543
+90017,34.0531,-118.2645
+90018,34.0286,-118.3173
+90019,34.0498,-118.3385
+90020,34.0664,-118.3098
+90021,34.0290,-118.2379
+90022,34.0237,-118.1563
+90023,34.0225,-118.1996
+90024,34.0656,-118.4353
+90025,34.0454,-118.4459
+90026,34.0790,-118.2638
+90027,34.1276,-118.2964
+90028,34.0998,-118.3268
+90029,34.0899,-118.2946
+90031,34.0842,-118.2086
+90032,34.0783,-118.1858
+90033,34.0504,-118.2120
+90034,34.0306,-118.3996
+90035,34.0514,-118.3858
+90036,34.0703,-118.3492
+90037,34.0027,-118.2875
+90038,34.0880,-118.3272
+90039,34.1119,-118.2610
+90040,33.9945,-118.1500
+90041,34.1374,-118.2076
+90042,34.1147,-118.1921
+90043,33.9885,-118.3364
+90044,33.9527,-118.2920
+90045,33.9424,-118.4161
+90046,34.1078,-118.3622
+90047,33.9554,-118.3096
+90048,34.0729,-118.3727
+90049,34.0925,-118.4911
+90052,33.9783,-118.2589
+90056,33.9936,-118.3688
+90057,34.0617,-118.2768
+90058,34.0028,-118.2164
+90059,33.9275,-118.2488
+90061,33.9213,-118.2742
+90062,34.0035,-118.3091
+90063,34.0452,-118.1858
+90064,34.0353,-118.4265
+90065,34.1096,-118.2287
+90066,34.0020,-118.4307
+90067,34.0564,-118.4137
+90068,34.1242,-118.3274
+90069,34.0940,-118.3815
+90071,34.0524,-118.2552
+90073,34.0573,-118.4595
+90077,34.1080,-118.4570
+90079,34.0406,-118.2554
+90089,34.0215,-118.2856
+90094,33.9753,-118.4187
+90095,34.0712,-118.4434
+90201,33.9703,-118.1714
+90210,34.1005,-118.4146
+90211,34.0650,-118.3830
+90212,34.0622,-118.4019
+90220,33.8798,-118.2297
+90221,33.8858,-118.2065
+90222,33.9122,-118.2376
+90230,33.9979,-118.3936
+90232,34.0193,-118.3919
+90240,33.9557,-118.1183
+90241,33.9406,-118.1295
+90242,33.9218,-118.1406
+90245,33.9171,-118.4016
+90247,33.8918,-118.2970
+90248,33.8783,-118.2841
+90249,33.9014,-118.3157
+90250,33.9137,-118.3509
+90254,33.8643,-118.3993
+90255,33.9792,-118.2174
+90260,33.8885,-118.3496
+90262,33.9238,-118.2014
+90263,34.0393,-118.7081
+90265,34.0702,-118.8510
+90266,33.8918,-118.4028
+90270,33.9886,-118.1877
+90272,34.0926,-118.5344
+90274,33.7801,-118.3724
+90275,33.7531,-118.3680
+90277,33.8300,-118.3871
+90278,33.8736,-118.3703
+90280,33.9442,-118.1928
+90290,34.1078,-118.6162
+90291,33.9934,-118.4652
+90292,33.9761,-118.4521
+90293,33.9473,-118.4398
+90301,33.9565,-118.3587
+90302,33.9753,-118.3561
+90303,33.9363,-118.3326
+90304,33.9374,-118.3588
+90305,33.9581,-118.3309
+90401,34.0161,-118.4925
+90402,34.0347,-118.5040
+90403,34.0308,-118.4921
+90404,34.0266,-118.4738
+90405,34.0111,-118.4722
+90501,33.8337,-118.3140
+90502,33.8332,-118.2921
+90503,33.8395,-118.3537
+90504,33.8673,-118.3316
+90505,33.8079,-118.3480
+90506,33.8847,-118.3300
+90601,34.0079,-118.0303
+90602,33.9742,-118.0223
+90603,33.9449,-117.9923
+90604,33.9277,-118.0138
+90605,33.9524,-118.0214
+90606,33.9773,-118.0664
+90620,33.8452,-118.0153
+90621,33.8742,-117.9934
+90623,33.8506,-118.0396
+90630,33.8185,-118.0383
+90631,33.9427,-117.9525
+90638,33.9020,-118.0090
+90639,33.9057,-118.0149
+90640,34.0154,-118.1110
+90650,33.9078,-118.0825
+90660,33.9895,-118.0893
+90670,33.9336,-118.0626
+90680,33.8011,-117.9953
+90701,33.8676,-118.0806
+90703,33.8677,-118.0695
+90704,33.3993,-118.4353
+90706,33.8878,-118.1273
+90710,33.7989,-118.3002
+90712,33.8490,-118.1479
+90713,33.8480,-118.1127
+90715,33.8410,-118.0791
+90716,33.8305,-118.0730
+90717,33.7935,-118.3171
+90720,33.7950,-118.0627
+90723,33.8989,-118.1666
+90731,33.7324,-118.2782
+90732,33.7373,-118.3134
+90740,33.7543,-118.0733
+90742,33.7209,-118.0764
+90743,33.7301,-118.0903
+90744,33.7772,-118.2596
+90745,33.8203,-118.2641
+90746,33.8592,-118.2523
+90747,33.8638,-118.2514
+90755,33.8032,-118.1671
+90802,33.7514,-118.2068
+90803,33.7542,-118.1324
+90804,33.7817,-118.1484
+90805,33.8646,-118.1806
+90806,33.8089,-118.1785
+90807,33.8302,-118.1812
+90808,33.8239,-118.1113
+90810,33.8198,-118.2224
+90813,33.7823,-118.1968
+90814,33.7716,-118.1434
+90815,33.7951,-118.1157
+90822,33.7784,-118.1186
+90831,33.7683,-118.2008
+90840,33.7846,-118.1213
+91001,34.1945,-118.1383
+91006,34.1352,-118.0267
+91007,34.1283,-118.0477
+91008,34.1532,-117.9688
+91010,34.1410,-117.9587
+91011,34.2179,-118.2023
+91016,34.1528,-118.0005
+91020,34.2114,-118.2307
+91024,34.1753,-118.0461
+91030,34.1090,-118.1566
+91040,34.2577,-118.3385
+91042,34.3155,-118.2648
+91046,34.2117,-118.2409
+91101,34.1468,-118.1389
+91103,34.1674,-118.1641
+91104,34.1654,-118.1238
+91105,34.1395,-118.1666
+91106,34.1394,-118.1287
+91107,34.1590,-118.0874
+91108,34.1224,-118.1142
+91125,34.1376,-118.1250
+91201,34.1705,-118.2895
+91202,34.1833,-118.2645
+91203,34.1533,-118.2630
+91204,34.1356,-118.2609
+91205,34.1366,-118.2458
+91206,34.1604,-118.2138
+91207,34.1679,-118.2442
+91208,34.1857,-118.2395
+91210,34.1447,-118.2581
+91214,34.2357,-118.2467
+91301,34.1233,-118.7585
+91302,34.1226,-118.6698
+91303,34.1983,-118.6022
+91304,34.2278,-118.6446
+91306,34.2095,-118.5776
+91307,34.2005,-118.6648
+91311,34.2925,-118.6024
+91316,34.1585,-118.5166
+91320,34.1734,-118.9480
+91321,34.3637,-118.4870
+91324,34.2382,-118.5503
+91325,34.2375,-118.5177
+91326,34.2818,-118.5557
+91330,34.2445,-118.5267
+91331,34.2553,-118.4197
+91335,34.2002,-118.5410
+91340,34.2867,-118.4348
+91342,34.3266,-118.3823
+91343,34.2388,-118.4823
+91344,34.2895,-118.5047
+91345,34.2659,-118.4567
+91350,34.4306,-118.5028
+91351,34.4337,-118.4581
+91352,34.2309,-118.3659
+91354,34.4584,-118.5541
+91355,34.4019,-118.5700
+91356,34.1550,-118.5476
+91360,34.2133,-118.8741
+91361,34.1373,-118.8820
+91362,34.1924,-118.8195
+91364,34.1548,-118.5948
+91367,34.1773,-118.6157
+91371,34.1850,-118.5761
+91377,34.1847,-118.7665
+91381,34.3732,-118.6080
+91384,34.5201,-118.6683
+91387,34.4025,-118.3635
+91390,34.5765,-118.4928
+91401,34.1785,-118.4318
+91402,34.2225,-118.4447
+91403,34.1478,-118.4647
+91405,34.2025,-118.4480
+91406,34.1975,-118.4890
+91411,34.1785,-118.4596
+91423,34.1495,-118.4319
+91436,34.1496,-118.4897
+91501,34.1936,-118.2943
+91502,34.1768,-118.3093
+91504,34.2130,-118.3177
+91505,34.1758,-118.3475
+91506,34.1697,-118.3235
+91601,34.1683,-118.3723
+91602,34.1508,-118.3682
+91604,34.1402,-118.3946
+91605,34.2073,-118.4010
+91606,34.1858,-118.3883
+91607,34.1658,-118.3998
+91608,34.1387,-118.3509
+91701,34.1378,-117.6003
+91702,34.2815,-117.8001
+91706,34.0974,-117.9683
+91708,33.9521,-117.6398
+91709,33.9430,-117.7256
+91710,34.0051,-117.6825
+91711,34.1281,-117.7148
+91722,34.0973,-117.9067
+91723,34.0847,-117.8868
+91724,34.0790,-117.8544
+91730,34.1004,-117.5813
+91731,34.0786,-118.0435
+91732,34.0724,-118.0145
+91733,34.0458,-118.0538
+91737,34.1552,-117.5781
+91739,34.1564,-117.5169
+91740,34.1194,-117.8551
+91741,34.1634,-117.8341
+91744,34.0313,-117.9368
+91745,33.9990,-117.9721
+91746,34.0433,-117.9869
+91748,33.9783,-117.9023
+91750,34.1481,-117.7666
+91752,33.9965,-117.5313
+91754,34.0529,-118.1435
+91755,34.0510,-118.1144
+91759,34.2637,-117.6996
+91761,34.0356,-117.5915
+91762,34.0594,-117.6693
+91763,34.0721,-117.6983
+91764,34.0741,-117.6056
+91765,33.9854,-117.8119
+91766,34.0423,-117.7561
+91767,34.0831,-117.7380
+91768,34.0644,-117.7909
+91770,34.0651,-118.0828
+91773,34.1075,-117.8088
+91775,34.1153,-118.0883
+91776,34.0890,-118.0945
+91780,34.1015,-118.0559
+91784,34.1411,-117.6556
+91786,34.1052,-117.6621
+91789,34.0182,-117.8548
+91790,34.0670,-117.9370
+91791,34.0616,-117.8922
+91792,34.0226,-117.9024
+91801,34.0909,-118.1278
+91803,34.0747,-118.1460
+91901,32.8136,-116.7270
+91902,32.6732,-117.0061
+91905,32.6786,-116.3075
+91906,32.6581,-116.4760
+91910,32.6371,-117.0618
+91911,32.6074,-117.0504
+91913,32.6229,-116.9869
+91914,32.6660,-116.9542
+91915,32.6236,-116.9498
+91916,32.9110,-116.6320
+91917,32.6420,-116.7538
+91931,32.8376,-116.5803
+91932,32.5654,-117.1146
+91934,32.6490,-116.1526
+91935,32.6943,-116.7755
+91941,32.7593,-116.9971
+91942,32.7773,-117.0213
+91945,32.7331,-117.0341
+91948,32.8650,-116.4730
+91950,32.6691,-117.0935
+91962,32.8468,-116.5198
+91963,32.6480,-116.5964
+91977,32.7262,-116.9943
+91978,32.6989,-116.9310
+91980,32.5852,-116.6325
+92003,33.2853,-117.1978
+92004,33.1977,-116.1675
+92007,33.0230,-117.2756
+92008,33.1425,-117.3134
+92009,33.0953,-117.2458
+92010,33.1654,-117.2814
+92011,33.1068,-117.2963
+92014,32.9632,-117.2504
+92019,32.7788,-116.8714
+92020,32.7956,-116.9698
+92021,32.8357,-116.8746
+92024,33.0569,-117.2576
+92025,33.0778,-117.0331
+92026,33.2110,-117.1248
+92027,33.1316,-116.9769
+92028,33.3865,-117.2250
+92029,33.0855,-117.1240
+92036,33.0324,-116.2652
+92037,32.8546,-117.2518
+92040,32.9089,-116.8920
+92054,33.1931,-117.3597
+92055,33.4112,-117.4333
+92056,33.1996,-117.2988
+92057,33.2546,-117.2833
+92058,33.2640,-117.3448
+92059,33.3827,-117.0519
+92060,33.3504,-116.8644
+92061,33.3004,-116.9306
+92064,32.9844,-117.0135
+92065,33.0404,-116.8301
+92066,33.2154,-116.5358
+92067,33.0209,-117.1903
+92069,33.1753,-117.1576
+92070,33.1886,-116.7433
+92071,32.8507,-116.9953
+92075,32.9972,-117.2606
+92078,33.1171,-117.1808
+92081,33.1645,-117.2405
+92082,33.2518,-117.0028
+92083,33.1981,-117.2484
+92084,33.2273,-117.2001
+92086,33.3140,-116.6295
+92091,33.0524,-117.1828
+92092,32.8755,-117.2361
+92093,32.8821,-117.2371
+92096,33.1282,-117.1562
+92101,32.7178,-117.1721
+92102,32.7160,-117.1175
+92103,32.7478,-117.1673
+92104,32.7419,-117.1278
+92105,32.7404,-117.0899
+92106,32.7099,-117.2379
+92107,32.7391,-117.2454
+92108,32.7740,-117.1427
+92109,32.7868,-117.2342
+92110,32.7652,-117.2004
+92111,32.8065,-117.1690
+92113,32.6946,-117.1198
+92114,32.7078,-117.0553
+92115,32.7615,-117.0719
+92116,32.7648,-117.1231
+92117,32.8249,-117.1997
+92118,32.6988,-117.2091
+92119,32.8179,-117.0320
+92120,32.7940,-117.0738
+92121,32.8971,-117.2016
+92122,32.8568,-117.2102
+92123,32.8096,-117.1342
+92124,32.8283,-117.0853
+92126,32.9120,-117.1434
+92127,33.0188,-117.1241
+92128,32.9970,-117.0730
+92129,32.9635,-117.1262
+92130,32.9476,-117.2058
+92131,32.8997,-117.0473
+92132,32.7137,-117.1720
+92134,32.7251,-117.1454
+92135,32.6950,-117.1944
+92136,32.6830,-117.1230
+92139,32.6800,-117.0489
+92140,32.7413,-117.1977
+92145,32.8685,-117.1432
+92147,32.7247,-117.2188
+92154,32.5791,-116.9665
+92155,32.6581,-117.1569
+92161,32.8741,-117.2316
+92173,32.5556,-117.0512
+92179,32.5839,-116.9335
+92182,32.7750,-117.0742
+92201,33.7095,-116.2370
+92203,33.7516,-116.2414
+92210,33.7035,-116.3259
+92211,33.7654,-116.3342
+92220,33.9399,-116.8393
+92222,32.7834,-114.5495
+92223,33.9378,-116.9814
+92225,33.7173,-114.6601
+92227,32.9900,-115.3369
+92230,33.9088,-116.7688
+92231,32.6876,-115.5644
+92233,33.1474,-115.5004
+92234,33.8141,-116.4655
+92236,33.7028,-116.0725
+92239,33.7681,-115.2169
+92240,33.9515,-116.5201
+92241,33.8463,-116.2833
+92242,34.1888,-114.3065
+92243,32.7702,-115.5986
+92249,32.7261,-115.4822
+92250,32.7774,-115.1280
+92251,32.8692,-115.7140
+92252,34.1480,-116.2842
+92253,33.6567,-116.2922
+92254,33.5438,-115.9983
+92256,34.0721,-116.6177
+92257,33.3362,-115.5257
+92258,33.9216,-116.5595
+92259,32.7348,-115.9464
+92260,33.6972,-116.4062
+92262,33.8630,-116.5567
+92264,33.7129,-116.4971
+92266,33.1993,-114.9153
+92267,34.2972,-114.2071
+92268,34.1615,-116.5500
+92270,33.7638,-116.4304
+92273,32.8030,-115.6980
+92274,33.4702,-116.1137
+92275,33.2078,-115.8808
+92276,33.8324,-116.3865
+92277,34.1278,-115.6901
+92278,34.2351,-116.0583
+92280,34.1293,-114.9852
+92281,33.0503,-115.6127
+92282,33.9625,-116.6583
+92283,32.8915,-114.7729
+92284,34.1601,-116.4247
+92285,34.3377,-116.5137
+92301,34.6518,-117.5261
+92304,34.5487,-115.6908
+92305,34.1438,-116.8684
+92307,34.5712,-117.1331
+92308,34.4202,-117.1561
+92309,35.2492,-116.1562
+92310,35.3344,-116.7630
+92311,34.9656,-117.0015
+92313,34.0313,-117.3150
+92314,34.2541,-116.7964
+92315,34.2171,-116.9416
+92316,34.0571,-117.3912
+92317,34.2451,-117.2087
+92320,33.9874,-117.0502
+92321,34.2500,-117.1473
+92322,34.2542,-117.3226
+92324,34.0257,-117.2888
+92325,34.2467,-117.2760
+92327,34.8679,-116.8359
+92328,36.3718,-116.9798
+92332,34.9071,-115.3645
+92333,34.2607,-116.9821
+92335,34.0873,-117.4652
+92336,34.1369,-117.4603
+92337,34.0497,-117.4714
+92338,34.7877,-116.2512
+92339,34.0839,-116.8374
+92341,34.2366,-117.0628
+92342,34.7603,-117.3359
+92344,34.3918,-117.4066
+92345,34.3610,-117.3130
+92346,34.1240,-117.1776
+92347,34.9500,-117.2580
+92350,34.0529,-117.2616
+92352,34.2677,-117.1867
+92354,34.0508,-117.2502
+92356,34.4963,-116.8925
+92358,34.2462,-117.5676
+92359,34.0853,-117.0763
+92363,34.7111,-114.5820
+92364,35.3596,-115.4388
+92365,34.8967,-116.5604
+92368,34.6644,-117.3149
+92369,34.1394,-117.2197
+92371,34.4383,-117.5426
+92372,34.4487,-117.6349
+92373,34.0119,-117.1597
+92374,34.0685,-117.1753
+92376,34.1105,-117.3800
+92377,34.1524,-117.4041
+92378,34.2320,-117.2249
+92382,34.2062,-117.1123
+92384,36.0433,-116.1192
+92385,34.2134,-117.2306
+92386,34.2370,-116.8253
+92389,35.8246,-116.2748
+92391,34.2397,-117.2367
+92392,34.4790,-117.4088
+92394,34.5635,-117.3536
+92395,34.5048,-117.2990
+92397,34.3541,-117.7537
+92398,34.9828,-116.8516
+92399,34.0323,-117.0106
+92401,34.1059,-117.2918
+92404,34.1786,-117.2389
+92405,34.1458,-117.3022
+92407,34.2252,-117.3885
+92408,34.0836,-117.2685
+92410,34.1116,-117.2637
+92411,34.1228,-117.3258
+92415,34.1051,-117.2868
+92501,33.9965,-117.3742
+92503,33.8829,-117.4517
+92504,33.9084,-117.4013
+92505,33.9267,-117.4928
+92506,33.9348,-117.3669
+92507,33.9911,-117.3069
+92508,33.8904,-117.3282
+92509,34.0033,-117.4420
+92518,33.8963,-117.2771
+92521,33.9671,-117.3264
+92530,33.6331,-117.3705
+92532,33.6906,-117.3024
+92536,33.4920,-116.8169
+92539,33.5279,-116.6476
+92543,33.6987,-116.9792
+92544,33.6459,-116.8816
+92545,33.7311,-117.0359
+92548,33.7639,-117.1090
+92549,33.8038,-116.6793
+92551,33.8827,-117.2249
+92553,33.9233,-117.2453
+92555,33.9110,-117.1138
+92557,33.9725,-117.2583
+92561,33.6304,-116.5823
+92562,33.5312,-117.3440
+92563,33.5800,-117.1474
+92567,33.8261,-117.0845
+92570,33.7799,-117.3226
+92571,33.8421,-117.1950
+92582,33.8076,-117.0152
+92583,33.7969,-116.9314
+92584,33.6614,-117.1823
+92585,33.7422,-117.1672
+92586,33.7077,-117.2004
+92587,33.6939,-117.2505
+92590,33.4829,-117.2261
+92591,33.5343,-117.1092
+92592,33.5109,-117.0215
+92595,33.6164,-117.2603
+92596,33.6689,-117.0473
+92602,33.7365,-117.7349
+92603,33.6293,-117.7941
+92604,33.6907,-117.7891
+92606,33.6925,-117.8312
+92610,33.6834,-117.6541
+92612,33.6600,-117.8244
+92614,33.6780,-117.8346
+92617,33.6420,-117.8410
+92618,33.6673,-117.7336
+92620,33.7066,-117.7569
+92624,33.4566,-117.6668
+92625,33.6020,-117.8643
+92626,33.6796,-117.9085
+92627,33.6481,-117.9212
+92629,33.4751,-117.7056
+92630,33.6449,-117.6843
+92637,33.6082,-117.7261
+92646,33.6610,-117.9679
+92647,33.7232,-118.0087
+92648,33.6790,-118.0130
+92649,33.7202,-118.0454
+92651,33.5715,-117.7729
+92653,33.5940,-117.7007
+92655,33.7460,-117.9876
+92656,33.5752,-117.7304
+92657,33.5951,-117.8291
+92660,33.6346,-117.8749
+92661,33.6036,-117.9127
+92662,33.6051,-117.8923
+92663,33.6252,-117.9288
+92672,33.3729,-117.5210
+92673,33.4669,-117.6140
+92675,33.4998,-117.6537
+92676,33.7495,-117.6164
+92677,33.5287,-117.7013
+92678,33.6518,-117.5071
+92679,33.6494,-117.5614
+92683,33.7524,-117.9939
+92688,33.6187,-117.6108
+92691,33.6119,-117.6659
+92692,33.6122,-117.6405
+92694,33.5150,-117.5806
+92697,33.6497,-117.8491
+92701,33.7486,-117.8587
+92703,33.7485,-117.9062
+92704,33.7211,-117.9051
+92705,33.7660,-117.7868
+92706,33.7660,-117.8817
+92707,33.7099,-117.8704
+92708,33.7106,-117.9511
+92780,33.7368,-117.8197
+92782,33.7284,-117.7975
+92801,33.8450,-117.9522
+92802,33.8083,-117.9237
+92804,33.8180,-117.9752
+92805,33.8301,-117.9057
+92806,33.8380,-117.8705
+92807,33.8487,-117.7884
+92808,33.8562,-117.7402
+92821,33.9319,-117.8549
+92823,33.9285,-117.7961
+92831,33.8795,-117.8960
+92832,33.8688,-117.9291
+92833,33.8805,-117.9611
+92835,33.9006,-117.9147
+92840,33.7872,-117.9319
+92841,33.7868,-117.9820
+92843,33.7640,-117.9315
+92844,33.7656,-117.9695
+92845,33.7829,-118.0264
+92860,33.9255,-117.5477
+92861,33.8180,-117.8113
+92865,33.8264,-117.8513
+92866,33.7845,-117.8448
+92867,33.8157,-117.7992
+92868,33.7880,-117.8763
+92869,33.7955,-117.7649
+92870,33.8812,-117.8548
+92879,33.8826,-117.5282
+92880,33.9254,-117.6073
+92881,33.8239,-117.5700
+92882,33.8629,-117.6001
+92883,33.7580,-117.4803
+92886,33.8954,-117.8008
+92887,33.8873,-117.7339
+93001,34.3624,-119.3513
+93003,34.2837,-119.2232
+93004,34.2782,-119.1646
+93010,34.2279,-119.0796
+93012,34.2034,-118.9914
+93013,34.4401,-119.5033
+93015,34.4089,-118.8702
+93021,34.3052,-118.8839
+93022,34.4033,-119.2984
+93023,34.5091,-119.2519
+93030,34.2051,-119.1753
+93033,34.1601,-119.1358
+93035,34.1863,-119.2289
+93036,34.2481,-119.1535
+93040,34.6020,-119.0198
+93041,34.1632,-119.1867
+93042,33.2557,-119.5036
+93043,34.1702,-119.2029
+93060,34.3720,-119.0967
+93063,34.3080,-118.6870
+93064,34.2453,-118.6998
+93065,34.2624,-118.7722
+93066,34.2977,-119.0146
+93067,34.4231,-119.5962
+93101,34.4193,-119.7080
+93103,34.4374,-119.6793
+93105,34.5290,-119.7679
+93106,34.4172,-119.8513
+93108,34.4490,-119.6054
+93109,34.4064,-119.7269
+93110,34.4395,-119.7678
+93111,34.4492,-119.8048
+93117,34.4795,-120.0841
+93201,35.8569,-119.5075
+93202,36.3187,-119.7075
+93203,35.1200,-118.8459
+93204,35.9132,-120.0821
+93205,35.5734,-118.4864
+93206,35.4439,-119.4791
+93207,35.8953,-118.5956
+93208,36.1298,-118.6398
+93210,36.1675,-120.4386
+93212,36.0142,-119.5630
+93215,35.7795,-119.1919
+93218,35.8571,-119.0449
+93219,35.8882,-119.2950
+93220,35.3787,-118.7818
+93221,36.2964,-119.0299
+93222,34.8862,-119.2204
+93223,36.3011,-119.2079
+93224,35.2552,-119.6252
+93225,34.7866,-119.0298
+93226,35.7357,-118.7384
+93227,36.3444,-119.4186
+93230,36.2922,-119.6227
+93234,36.1961,-120.0848
+93235,36.3851,-119.2231
+93237,36.4745,-118.9043
+93238,35.8508,-118.4977
+93239,36.0328,-119.9864
+93240,35.6175,-118.4523
+93241,35.2453,-118.9053
+93242,36.4411,-119.7303
+93243,34.8400,-118.8149
+93244,36.3863,-118.9897
+93245,36.2861,-119.8341
+93246,36.3177,-119.9275
+93247,36.2017,-119.0835
+93249,35.6217,-119.8877
+93250,35.6691,-119.2020
+93251,35.3706,-119.6973
+93252,34.8029,-119.3593
+93254,34.9462,-119.8028
+93255,35.6773,-118.1014
+93256,35.9717,-119.3135
+93257,35.9809,-118.8893
+93258,36.0583,-119.1521
+93260,35.8191,-118.6612
+93261,35.8115,-119.1167
+93262,36.4370,-118.6715
+93263,35.4872,-119.2783
+93265,36.2177,-118.6936
+93266,36.1717,-119.8563
+93267,36.1436,-119.0739
+93268,35.1676,-119.4100
+93270,35.9424,-119.0583
+93271,36.4400,-118.8803
+93272,36.0474,-119.3444
+93274,36.1779,-119.3800
+93276,35.3176,-119.4093
+93277,36.3013,-119.3726
+93280,35.6522,-119.4464
+93283,35.5921,-118.2977
+93285,35.7491,-118.4934
+93286,36.4627,-119.0932
+93287,35.7238,-118.9207
+93291,36.3918,-119.3728
+93292,36.3662,-119.2116
+93301,35.3843,-119.0206
+93304,35.3394,-119.0237
+93305,35.3899,-118.9852
+93306,35.4682,-118.7798
+93307,35.2451,-118.9411
+93308,35.5475,-118.9469
+93309,35.3430,-119.0650
+93311,35.1537,-119.1684
+93312,35.3918,-119.1195
+93313,35.1654,-119.0435
+93314,35.3939,-119.2448
+93401,35.2359,-120.6159
+93402,35.2952,-120.8355
+93405,35.3005,-120.7348
+93407,35.3066,-120.6692
+93408,35.3211,-120.7189
+93409,35.3236,-120.6974
+93410,35.3045,-120.6569
+93420,35.1760,-120.4768
+93422,35.4653,-120.6894
+93424,35.1986,-120.7861
+93426,35.8401,-120.9752
+93427,34.6430,-120.2391
+93428,35.5850,-121.0415
+93429,34.8677,-120.5399
+93430,35.4848,-120.9442
+93432,35.4785,-120.4814
+93433,35.1209,-120.6197
+93434,34.9403,-120.6201
+93436,34.5999,-120.3765
+93437,34.7606,-120.5089
+93440,34.7686,-120.2583
+93441,34.7331,-120.0950
+93442,35.4014,-120.7999
+93444,35.0359,-120.5026
+93445,35.0441,-120.6207
+93446,35.6591,-120.7176
+93449,35.1609,-120.6533
+93450,36.0854,-120.8185
+93451,35.9325,-120.5609
+93452,35.7465,-121.2233
+93453,35.2413,-120.2193
+93454,34.9230,-120.2595
+93455,34.8483,-120.4829
+93458,34.9532,-120.4921
+93460,34.6733,-119.7436
+93461,35.6333,-120.2684
+93463,34.6064,-120.1354
+93465,35.5427,-120.7338
+93501,35.0658,-118.2218
+93505,35.1090,-117.9565
+93510,34.4509,-118.2276
+93512,37.8919,-118.5546
+93513,37.0361,-118.3357
+93514,37.4921,-118.3904
+93516,35.0081,-117.6426
+93517,38.2781,-119.2748
+93518,35.3851,-118.4912
+93519,35.3142,-117.9607
+93522,36.3163,-117.5923
+93523,34.9953,-117.8840
+93524,34.9080,-117.8278
+93526,36.8571,-118.2581
+93527,35.9229,-118.0789
+93528,35.3719,-117.6418
+93529,37.7777,-119.1881
+93530,36.4939,-117.8904
+93531,35.2318,-118.6131
+93532,34.6898,-118.5337
+93534,34.7177,-118.1523
+93535,34.6984,-117.8899
+93536,34.7377,-118.3874
+93541,38.0186,-119.0597
+93543,34.4753,-117.9696
+93544,34.4882,-117.7566
+93545,36.6105,-118.0263
+93546,37.5491,-118.8398
+93549,36.2927,-117.8654
+93550,34.4103,-118.0600
+93551,34.5896,-118.2274
+93552,34.5835,-118.0273
+93553,34.4452,-117.8949
+93554,35.3692,-117.7591
+93555,35.5824,-117.6836
+93558,35.3395,-117.5851
+93560,34.8788,-118.3183
+93561,35.0987,-118.5167
+93562,35.7012,-117.3075
+93563,34.3709,-117.8134
+93581,35.1129,-118.5710
+93591,34.5979,-117.8156
+93601,37.3908,-119.7324
+93602,37.0668,-119.3889
+93603,36.4887,-118.9981
+93604,37.3479,-119.5298
+93605,37.1762,-119.2495
+93606,36.7987,-120.0163
+93608,36.5050,-120.3387
+93609,36.5262,-119.8639
+93610,37.0873,-120.2889
+93611,36.8267,-119.6806
+93612,36.8148,-119.7119
+93614,37.2176,-119.7311
+93615,36.5037,-119.2838
+93616,36.6547,-119.5943
+93618,36.5221,-119.3866
+93619,36.9142,-119.5940
+93620,37.0435,-120.6205
+93621,36.7466,-119.1014
+93622,36.7856,-120.6254
+93623,37.4766,-119.6744
+93624,36.3785,-120.1302
+93625,36.6242,-119.6718
+93626,37.0433,-119.6913
+93627,36.5109,-120.1063
+93628,36.7708,-118.8485
+93630,36.7166,-120.1270
+93631,36.4801,-119.5173
+93633,36.7291,-118.9562
+93634,37.2236,-119.0009
+93635,37.0202,-120.8817
+93636,36.9849,-119.8775
+93637,36.9181,-120.1859
+93638,37.0434,-120.0337
+93640,36.6727,-120.4397
+93641,36.7055,-119.0400
+93643,37.2051,-119.5184
+93644,37.4180,-119.5926
+93645,37.1521,-119.6201
+93646,36.6323,-119.2894
+93647,36.6008,-119.1755
+93648,36.6206,-119.5206
+93650,36.8402,-119.8001
+93651,37.0024,-119.5149
+93652,36.5950,-119.9046
+93653,37.2560,-119.9091
+93654,36.6587,-119.4013
+93656,36.4509,-119.9368
+93657,36.8169,-119.4587
+93660,36.6093,-120.1652
+93662,36.5366,-119.6387
+93664,37.0498,-119.1907
+93665,36.9633,-120.6503
+93666,36.5462,-119.3362
+93667,36.9657,-119.3168
+93668,36.6576,-120.2931
+93669,37.2909,-119.5484
+93670,36.4856,-119.2542
+93673,36.4524,-119.4824
+93675,36.7247,-119.1928
+93701,36.7496,-119.7878
+93702,36.7394,-119.7542
+93703,36.7689,-119.7624
+93704,36.8003,-119.8009
+93705,36.7873,-119.8273
+93706,36.6559,-119.9203
+93710,36.8241,-119.7627
+93711,36.8366,-119.8338
+93720,36.8622,-119.7608
+93721,36.7328,-119.7838
+93722,36.7997,-119.8776
+93723,36.7898,-119.9526
+93725,36.6272,-119.7319
+93726,36.7937,-119.7597
+93727,36.7516,-119.6954
+93728,36.7573,-119.8183
+93730,36.9039,-119.7473
+93737,36.7536,-119.6456
+93740,36.8164,-119.7461
+93741,36.7674,-119.7960
+93901,36.6479,-121.6303
+93905,36.6851,-121.6060
+93906,36.7227,-121.6337
+93907,36.7668,-121.6667
+93908,36.6260,-121.6021
+93920,36.0522,-121.5144
+93921,36.5536,-121.9223
+93923,36.4058,-121.7960
+93924,36.4156,-121.6377
+93925,36.5885,-121.3992
+93926,36.5259,-121.3967
+93927,36.2756,-121.3919
+93928,36.0827,-121.4708
+93930,36.1998,-121.0823
+93932,35.9898,-121.0644
+93933,36.6770,-121.7815
+93940,36.5623,-121.8056
+93943,36.5976,-121.8733
+93944,36.6007,-121.9185
+93950,36.6191,-121.9254
+93953,36.5874,-121.9448
+93954,36.1730,-120.9027
+93955,36.6148,-121.7880
+93960,36.4056,-121.3231
+93962,36.6247,-121.6465
+94002,37.5134,-122.2968
+94005,37.6888,-122.4089
+94010,37.5719,-122.3750
+94014,37.6907,-122.4477
+94015,37.6813,-122.4809
+94018,37.5060,-122.4733
+94019,37.4557,-122.4080
+94020,37.2690,-122.2215
+94021,37.2503,-122.2496
+94022,37.3554,-122.1449
+94024,37.3504,-122.0987
+94025,37.4513,-122.1823
+94027,37.4571,-122.2011
+94028,37.3749,-122.2127
+94030,37.5997,-122.4033
+94037,37.5533,-122.4958
+94038,37.5295,-122.4847
+94040,37.3803,-122.0852
+94041,37.3882,-122.0754
+94043,37.4119,-122.0689
+94044,37.6066,-122.4772
+94060,37.2471,-122.2735
+94061,37.4611,-122.2369
+94062,37.4225,-122.2858
+94063,37.4933,-122.1956
+94065,37.5334,-122.2496
+94066,37.6254,-122.4324
+94070,37.4965,-122.2726
+94074,37.3317,-122.3415
+94080,37.6552,-122.4184
+94085,37.3886,-122.0179
+94086,37.3716,-122.0232
+94087,37.3516,-122.0367
+94089,37.4124,-122.0156
+94102,37.7796,-122.4193
+94103,37.7730,-122.4113
+94104,37.7914,-122.4021
+94105,37.7916,-122.3937
+94107,37.7585,-122.3995
+94108,37.7919,-122.4085
+94109,37.7945,-122.4223
+94110,37.7500,-122.4152
+94111,37.7984,-122.3992
+94112,37.7205,-122.4432
+94114,37.7582,-122.4356
+94115,37.7860,-122.4374
+94116,37.7454,-122.4861
+94117,37.7701,-122.4443
+94118,37.7801,-122.4615
+94121,37.7786,-122.4959
+94122,37.7605,-122.4839
+94123,37.8020,-122.4340
+94124,37.7290,-122.3813
+94127,37.7360,-122.4572
+94128,37.6220,-122.3838
+94129,37.7973,-122.4645
+94130,37.8197,-122.3687
+94131,37.7459,-122.4415
+94132,37.7222,-122.4841
+94133,37.8020,-122.4110
+94134,37.7188,-122.4113
+94158,37.7725,-122.3884
+94188,37.7407,-122.3809
+94301,37.4442,-122.1499
+94303,37.4579,-122.1151
+94304,37.3973,-122.1670
+94305,37.4183,-122.1709
+94306,37.4162,-122.1309
+94401,37.5752,-122.3199
+94402,37.5401,-122.3301
+94403,37.5384,-122.3054
+94404,37.5560,-122.2677
+94501,37.7747,-122.2781
+94502,37.7381,-122.2412
+94503,38.1878,-122.2238
+94505,37.8713,-121.5970
+94506,37.8064,-121.9024
+94507,37.8543,-122.0066
+94508,38.5858,-122.4442
+94509,37.9920,-121.8126
+94510,38.1132,-122.1197
+94511,38.0281,-121.6299
+94512,38.1311,-121.8217
+94513,37.9249,-121.6867
+94514,37.8256,-121.6344
+94515,38.6348,-122.6151
+94516,37.8275,-122.1663
+94517,37.8911,-121.8931
+94518,37.9505,-122.0221
+94519,37.9888,-122.0128
+94520,37.9930,-122.0353
+94521,37.9529,-121.9697
+94523,37.9542,-122.0758
+94525,38.0481,-122.2292
+94526,37.8147,-121.9845
+94528,37.8415,-121.9582
+94530,37.9207,-122.3006
+94531,37.9566,-121.7778
+94533,38.2807,-122.0064
+94534,38.2419,-122.1183
+94535,38.2709,-121.9370
+94536,37.5705,-121.9813
+94538,37.5014,-121.9568
+94539,37.5163,-121.9119
+94541,37.6738,-122.0878
+94542,37.6553,-122.0258
+94544,37.6335,-122.0568
+94545,37.6308,-122.1246
+94546,37.7454,-122.1031
+94547,38.0066,-122.2572
+94548,37.9743,-121.6514
+94549,37.9011,-122.1191
+94550,37.5200,-121.5756
+94551,37.7505,-121.7492
+94552,37.7058,-122.0076
+94553,37.9783,-122.1571
+94555,37.5476,-122.0982
+94556,37.8320,-122.1059
+94558,38.3891,-122.1884
+94559,38.2511,-122.2961
+94560,37.5043,-122.0319
+94561,37.9935,-121.6912
+94562,38.4307,-122.4089
+94563,37.8739,-122.2053
+94564,37.9906,-122.2725
+94565,38.0086,-121.9283
+94566,37.6487,-121.8480
+94567,38.6670,-122.4070
+94568,37.7160,-121.9011
+94569,38.0441,-122.1919
+94571,38.1521,-121.7598
+94572,38.0239,-122.2328
+94573,38.4589,-122.4288
+94574,38.5424,-122.4199
+94575,37.8410,-122.1095
+94576,38.5493,-122.4758
+94577,37.7167,-122.1693
+94578,37.7068,-122.1256
+94579,37.6865,-122.1572
+94580,37.6780,-122.1334
+94582,37.7653,-121.9154
+94583,37.7717,-121.9898
+94585,38.1918,-121.9383
+94586,37.5671,-121.8522
+94587,37.5900,-122.0752
+94588,37.7926,-121.8628
+94589,38.1415,-122.2469
+94590,38.0958,-122.2497
+94591,38.1272,-122.1969
+94592,38.0910,-122.2854
+94595,37.8721,-122.0690
+94596,37.8890,-122.0368
+94597,37.9177,-122.0718
+94598,37.9169,-122.0149
+94599,38.3995,-122.3801
+94601,37.7769,-122.2179
+94602,37.8052,-122.2042
+94603,37.7393,-122.1755
+94605,37.7614,-122.1502
+94606,37.7914,-122.2445
+94607,37.8088,-122.3047
+94608,37.8368,-122.2891
+94609,37.8348,-122.2642
+94610,37.8123,-122.2404
+94611,37.8319,-122.2158
+94612,37.8077,-122.2669
+94613,37.7807,-122.1830
+94618,37.8448,-122.2386
+94619,37.7926,-122.1601
+94621,37.7511,-122.2102
+94702,37.8663,-122.2863
+94703,37.8637,-122.2757
+94704,37.8664,-122.2609
+94705,37.8652,-122.2384
+94706,37.8897,-122.2959
+94707,37.8984,-122.2791
+94708,37.9031,-122.2619
+94709,37.8783,-122.2663
+94710,37.8639,-122.3065
+94720,37.8720,-122.2522
+94801,37.9494,-122.3975
+94803,37.9568,-122.2824
+94804,37.9155,-122.3378
+94805,37.9422,-122.3235
+94806,37.9784,-122.3364
+94901,37.9807,-122.5006
+94903,38.0221,-122.5588
+94904,37.9472,-122.5518
+94920,37.8868,-122.4626
+94922,38.3568,-122.9509
+94923,38.3394,-123.0345
+94924,37.9669,-122.7388
+94925,37.9318,-122.5077
+94928,38.3459,-122.6935
+94929,38.2545,-122.9624
+94930,37.9698,-122.6153
+94931,38.3252,-122.7170
+94933,38.0175,-122.6881
+94937,38.1165,-122.9304
+94938,38.0302,-122.7295
+94939,37.9383,-122.5359
+94940,38.2040,-122.8915
+94941,37.9248,-122.6002
+94945,38.1227,-122.5531
+94946,38.0747,-122.6953
+94947,38.1062,-122.6250
+94949,38.0601,-122.5064
+94950,38.0212,-122.7617
+94951,38.3225,-122.6449
+94952,38.2346,-122.7604
+94954,38.2350,-122.5574
+94956,38.0215,-122.8182
+94957,37.9634,-122.5618
+94960,37.9970,-122.5783
+94963,38.0076,-122.6647
+94964,37.9406,-122.4907
+94965,37.8373,-122.5275
+94970,37.9259,-122.6598
+94971,38.2330,-122.8970
+94972,38.3366,-122.9393
+94973,38.0126,-122.6394
+95002,37.4387,-122.0116
+95003,37.0067,-121.8782
+95004,36.8748,-121.6307
+95005,37.0984,-122.0893
+95006,37.1713,-122.1495
+95007,37.1101,-122.1143
+95008,37.2792,-121.9556
+95010,36.9764,-121.9547
+95012,36.7888,-121.7349
+95013,37.2153,-121.7396
+95014,37.3084,-122.0819
+95017,37.0947,-122.2375
+95018,37.0839,-122.0599
+95019,36.9358,-121.7845
+95020,37.0162,-121.5594
+95023,36.9200,-121.3222
+95030,37.2216,-121.9832
+95032,37.1801,-121.9016
+95033,37.1583,-121.9737
+95035,37.4404,-121.8747
+95037,37.1318,-121.6812
+95039,36.8277,-121.7653
+95041,37.0505,-122.0583
+95043,36.5182,-120.9829
+95045,36.8258,-121.5186
+95046,37.0993,-121.5992
+95050,37.3504,-121.9524
+95051,37.3483,-121.9844
+95053,37.3485,-121.9373
+95054,37.3931,-121.9648
+95060,36.9932,-122.0984
+95062,36.9740,-121.9898
+95064,36.9916,-122.0589
+95065,37.0322,-121.9844
+95066,37.0672,-122.0145
+95070,37.2549,-122.0522
+95073,37.0407,-121.9317
+95075,36.7936,-121.1920
+95076,36.9458,-121.7561
+95110,37.3466,-121.9097
+95111,37.2839,-121.8269
+95112,37.3446,-121.8834
+95113,37.3340,-121.8904
+95116,37.3505,-121.8526
+95117,37.3101,-121.9622
+95118,37.2554,-121.8919
+95119,37.2270,-121.7887
+95120,37.1857,-121.8427
+95121,37.3046,-121.8098
+95122,37.3292,-121.8348
+95123,37.2442,-121.8316
+95124,37.2568,-121.9228
+95125,37.2956,-121.8941
+95126,37.3269,-121.9168
+95127,37.3717,-121.7871
+95128,37.3159,-121.9364
+95129,37.3060,-122.0007
+95130,37.2777,-121.9862
+95131,37.3873,-121.8979
+95132,37.4184,-121.7880
+95133,37.3717,-121.8606
+95134,37.4300,-121.9453
+95135,37.2234,-121.5257
+95136,37.2714,-121.8525
+95138,37.2456,-121.7489
+95139,37.2249,-121.7639
+95140,37.3515,-121.6409
+95148,37.3334,-121.7817
+95202,37.9597,-121.2883
+95203,37.9543,-121.3293
+95204,37.9737,-121.3192
+95205,37.9646,-121.2598
+95206,37.9085,-121.3953
+95207,38.0021,-121.3250
+95209,38.0469,-121.3528
+95210,38.0318,-121.2979
+95211,37.9803,-121.3111
+95212,38.0499,-121.2330
+95215,37.9494,-121.1571
+95219,38.0374,-121.5125
+95220,38.2002,-121.2350
+95221,38.0723,-120.5485
+95222,38.0513,-120.5902
+95223,38.4463,-119.8130
+95224,38.2313,-120.3227
+95225,38.2026,-120.8641
+95226,38.2369,-120.8660
+95227,38.2104,-121.0513
+95228,37.9073,-120.6883
+95230,37.9977,-120.8947
+95231,37.8738,-121.2901
+95232,38.3605,-120.5772
+95233,38.1862,-120.3686
+95236,38.0443,-121.0393
+95237,38.1540,-121.1466
+95240,38.1235,-121.1591
+95242,38.1371,-121.3845
+95245,38.3027,-120.6095
+95246,38.2497,-120.4889
+95247,38.1361,-120.4439
+95248,38.3177,-120.4611
+95249,38.1900,-120.6196
+95251,38.0801,-120.4536
+95252,38.1586,-120.8432
+95253,38.1472,-121.1953
+95254,38.1998,-120.9642
+95255,38.4199,-120.4800
+95257,38.3799,-120.4680
+95258,38.1721,-121.3089
+95301,37.3061,-120.6560
+95303,37.4703,-120.6711
+95304,37.6806,-121.3816
+95305,37.8159,-120.3611
+95306,37.3629,-120.1194
+95307,37.5558,-120.9539
+95309,37.8714,-120.4324
+95310,38.0858,-120.3786
+95311,37.7057,-120.0910
+95312,37.4211,-120.6530
+95313,37.4180,-121.0510
+95315,37.4228,-120.7744
+95316,37.5396,-120.6687
+95317,37.1274,-120.5064
+95318,37.6660,-119.8075
+95319,37.6290,-120.8851
+95320,37.8186,-121.0069
+95321,37.9317,-119.8362
+95322,37.1820,-121.0200
+95323,37.6045,-120.6837
+95324,37.3931,-120.8990
+95325,37.4808,-120.2449
+95326,37.5891,-120.8554
+95327,37.8475,-120.4866
+95328,37.5580,-120.9094
+95329,37.6776,-120.4180
+95330,37.8135,-121.3173
+95333,37.2447,-120.2427
+95334,37.3497,-120.7513
+95335,38.1249,-120.0931
+95336,37.8303,-121.2010
+95337,37.7430,-121.2384
+95338,37.5070,-119.9838
+95340,37.3401,-120.4064
+95341,37.2310,-120.5011
+95345,37.5909,-119.9635
+95346,38.0705,-120.1734
+95348,37.4205,-120.4996
+95350,37.6717,-121.0073
+95351,37.6241,-120.9973
+95354,37.6390,-120.9648
+95355,37.6729,-120.9466
+95356,37.7186,-121.0323
+95357,37.6712,-120.8863
+95358,37.6116,-121.1079
+95360,37.3265,-121.0375
+95361,37.7922,-120.7857
+95363,37.3739,-121.2515
+95364,38.2247,-119.7600
+95365,37.3012,-120.3315
+95366,37.7628,-121.1253
+95367,37.7297,-120.9468
+95368,37.7133,-121.0854
+95369,37.5254,-120.4043
+95370,37.9844,-120.3481
+95372,37.9913,-120.2628
+95374,37.3168,-120.8558
+95375,38.2257,-119.9601
+95376,37.7368,-121.4340
+95377,37.6740,-121.5169
+95379,37.9664,-120.2126
+95380,37.4742,-120.8752
+95382,37.5276,-120.8511
+95383,38.0930,-120.2328
+95385,37.6098,-121.2485
+95386,37.6673,-120.6221
+95387,37.5544,-121.2447
+95388,37.4213,-120.5996
+95389,37.7841,-119.4283
+95391,37.7808,-121.5980
+95401,38.4491,-122.7938
+95403,38.5037,-122.7541
+95404,38.5257,-122.6904
+95405,38.4381,-122.6691
+95407,38.3947,-122.7459
+95409,38.4685,-122.5821
+95410,39.2349,-123.6999
+95412,38.7126,-123.3141
+95415,39.0205,-123.3675
+95417,39.6879,-123.6507
+95419,38.4235,-122.9582
+95420,39.3594,-123.7660
+95421,38.5836,-123.1827
+95422,38.9855,-122.6425
+95423,39.0674,-122.6297
+95425,38.8231,-123.0639
+95426,38.8334,-122.7341
+95427,39.2532,-123.5692
+95428,39.8248,-123.1796
+95429,39.7560,-123.3587
+95430,38.4614,-123.0472
+95431,38.3491,-122.5162
+95432,39.1085,-123.6454
+95435,39.0031,-122.8748
+95436,38.4868,-122.9056
+95437,39.4439,-123.6859
+95439,38.4906,-122.7759
+95441,38.7216,-123.0473
+95442,38.3782,-122.5165
+95443,39.0501,-122.7396
+95444,38.4326,-122.8692
+95445,38.8325,-123.4725
+95446,38.5194,-123.0107
+95448,38.6230,-122.8891
+95449,38.9361,-123.1194
+95450,38.5098,-123.2080
+95451,38.9221,-122.7896
+95452,38.4297,-122.5362
+95453,39.0459,-122.9411
+95454,39.7840,-123.4958
+95456,39.2589,-123.7592
+95457,38.9240,-122.5491
+95458,39.1090,-122.7776
+95459,38.9766,-123.6049
+95460,39.3052,-123.7486
+95461,38.7540,-122.5521
+95462,38.4734,-123.0215
+95463,39.1896,-123.5806
+95464,39.1262,-122.8471
+95465,38.4173,-123.0460
+95466,39.0569,-123.5057
+95467,38.8130,-122.5481
+95468,38.9189,-123.6057
+95469,39.3989,-123.0753
+95470,39.2990,-123.2392
+95471,38.5322,-122.9736
+95472,38.3988,-122.8619
+95476,38.2558,-122.4609
+95480,38.6847,-123.3681
+95482,39.1368,-123.2611
+95485,39.2085,-122.9257
+95486,38.4741,-123.0242
+95488,39.7272,-123.7892
+95490,39.4793,-123.3482
+95492,38.5305,-122.8118
+95493,39.2223,-122.9855
+95494,38.8964,-123.3432
+95497,38.7253,-123.4583
+95501,40.8020,-124.1448
+95503,40.7384,-124.1078
+95511,40.1660,-123.5841
+95514,40.2867,-123.6623
+95519,40.9630,-124.0525
+95521,40.8434,-124.0453
+95524,40.8208,-124.0500
+95525,40.9538,-123.8244
+95526,40.4615,-123.6765
+95527,40.9509,-123.4211
+95528,40.4970,-123.9308
+95531,41.8627,-124.1305
+95536,40.5012,-124.2099
+95537,40.7272,-124.2192
+95538,41.8683,-124.1543
+95540,40.5668,-124.1260
+95542,40.0933,-123.7598
+95543,41.8888,-123.8028
+95545,40.2616,-124.0861
+95546,41.1860,-123.7315
+95547,40.5695,-124.0775
+95548,41.5899,-124.0607
+95549,40.6667,-123.9084
+95550,40.7811,-123.8360
+95551,40.6750,-124.2311
+95552,40.3444,-123.4172
+95553,40.2312,-123.8686
+95554,40.2964,-123.7771
+95555,41.3026,-123.9776
+95556,41.3077,-123.5874
+95558,40.3376,-124.2612
+95559,40.1903,-123.7483
+95560,40.1427,-123.8388
+95562,40.4412,-124.1004
+95563,40.8943,-123.5641
+95564,40.7909,-124.2047
+95565,40.4552,-124.0152
+95567,41.9507,-124.0971
+95568,41.4849,-123.4915
+95569,40.3614,-123.8621
+95570,41.1138,-124.0826
+95571,40.3655,-123.9443
+95573,40.9149,-123.6687
+95585,39.8587,-123.6662
+95587,39.9697,-123.7554
+95589,40.0614,-123.9798
+95595,40.0876,-123.1535
+95601,38.4249,-120.8303
+95602,38.9915,-121.1035
+95603,38.9113,-121.0858
+95604,39.2385,-120.0714
+95605,38.5935,-121.5399
+95606,38.7560,-122.1939
+95607,38.8306,-122.1260
+95608,38.6269,-121.3312
+95610,38.6949,-121.2722
+95612,38.3847,-121.5787
+95613,38.8126,-120.8917
+95614,38.8862,-120.9797
+95615,38.3108,-121.5418
+95616,38.5541,-121.7985
+95618,38.5430,-121.6905
+95619,38.6806,-120.8143
+95620,38.4049,-121.7544
+95621,38.6955,-121.3086
+95623,38.6325,-120.8440
+95624,38.4342,-121.3059
+95625,38.3573,-121.9086
+95626,38.7338,-121.4890
+95627,38.7345,-122.0253
+95628,38.6521,-121.2544
+95629,38.5128,-120.6875
+95630,38.6628,-121.1401
+95631,39.0549,-120.7540
+95632,38.2745,-121.2592
+95633,38.8492,-120.8224
+95634,38.9006,-120.7068
+95635,38.9107,-120.9086
+95636,38.6117,-120.4868
+95637,38.8528,-122.2729
+95638,38.3427,-121.0702
+95639,38.4085,-121.4954
+95640,38.3417,-120.9397
+95641,38.1556,-121.6048
+95642,38.3435,-120.7639
+95645,38.8940,-121.7968
+95646,38.6317,-120.0154
+95648,38.9228,-121.3120
+95650,38.8092,-121.1714
+95651,38.8209,-120.9352
+95652,38.6626,-121.4008
+95653,38.6971,-121.9784
+95655,38.5492,-121.2786
+95658,38.8812,-121.1690
+95659,38.8587,-121.5899
+95660,38.6789,-121.3805
+95661,38.7413,-121.2493
+95662,38.6892,-121.2184
+95663,38.8574,-121.1825
+95664,38.8013,-121.0379
+95665,38.3952,-120.6528
+95666,38.5414,-120.3291
+95667,38.7334,-120.7913
+95668,38.8276,-121.4952
+95669,38.4895,-120.8916
+95670,38.6043,-121.2803
+95671,38.6945,-121.1538
+95672,38.7223,-120.9930
+95673,38.6905,-121.4657
+95674,38.9539,-121.4819
+95675,38.5455,-120.7429
+95676,38.8743,-121.7138
+95677,38.7929,-121.2320
+95678,38.7654,-121.2885
+95679,38.9166,-122.2853
+95680,38.2414,-121.5783
+95681,38.9981,-121.3542
+95682,38.5990,-120.9631
+95683,38.5120,-121.0963
+95684,38.5661,-120.5012
+95685,38.4340,-120.7620
+95686,38.1578,-121.5202
+95687,38.3331,-121.9202
+95688,38.4213,-122.0301
+95689,38.4709,-120.6157
+95690,38.2034,-121.6262
+95691,38.6280,-121.5933
+95692,39.0431,-121.4098
+95693,38.3985,-121.2195
+95694,38.5719,-122.0649
+95695,38.6940,-121.8529
+95697,38.7329,-121.8072
+95698,38.8164,-121.9108
+95699,38.4368,-120.8576
+95701,39.2265,-120.7670
+95703,38.9890,-120.9878
+95709,38.7490,-120.6909
+95713,39.0813,-120.9324
+95714,39.2012,-120.8368
+95715,39.2767,-120.6440
+95717,39.1426,-120.8427
+95720,38.8509,-120.2513
+95721,38.8161,-120.0960
+95722,39.0098,-121.0347
+95726,38.7620,-120.4135
+95728,39.2947,-120.4014
+95735,38.8403,-120.1503
+95736,39.0391,-120.9775
+95742,38.5622,-121.2047
+95746,38.7469,-121.1664
+95747,38.7784,-121.3688
+95757,38.3317,-121.4370
+95758,38.4297,-121.4452
+95762,38.6837,-121.0647
+95765,38.8197,-121.2783
+95776,38.6987,-121.6995
+95811,38.5932,-121.4831
+95814,38.5806,-121.4956
+95815,38.6056,-121.4455
+95816,38.5754,-121.4648
+95817,38.5506,-121.4570
+95818,38.5545,-121.4971
+95819,38.5669,-121.4376
+95820,38.5349,-121.4442
+95821,38.6257,-121.3849
+95822,38.5128,-121.4942
+95823,38.4747,-121.4426
+95824,38.5174,-121.4414
+95825,38.5919,-121.4085
+95826,38.5438,-121.3783
+95827,38.5484,-121.3275
+95828,38.4894,-121.3960
+95829,38.4895,-121.3235
+95830,38.4905,-121.2842
+95831,38.4958,-121.5303
+95832,38.4474,-121.4961
+95833,38.6190,-121.5176
+95834,38.6352,-121.5186
+95835,38.6685,-121.5256
+95837,38.6938,-121.5989
+95838,38.6457,-121.4453
+95841,38.6603,-121.3482
+95842,38.6870,-121.3489
+95843,38.7153,-121.3637
+95864,38.5840,-121.3758
+95901,39.2239,-121.4941
+95903,39.1213,-121.3711
+95910,39.4629,-120.8298
+95912,39.0004,-122.0742
+95913,39.6290,-122.1922
+95914,39.4076,-121.3788
+95915,39.9914,-121.2307
+95916,39.6514,-121.3816
+95917,39.4359,-121.7636
+95918,39.3012,-121.3379
+95919,39.4344,-121.2656
+95920,39.4498,-121.9364
+95922,39.4667,-121.0719
+95923,40.1838,-121.1367
+95925,39.4841,-121.1926
+95926,39.7458,-121.8439
+95928,39.6815,-121.8372
+95929,39.7258,-121.8502
+95930,39.5487,-121.1599
+95932,39.2469,-122.0122
+95934,40.0601,-120.9080
+95935,39.3793,-121.1923
+95936,39.5808,-120.7743
+95937,38.8841,-121.9985
+95938,39.6047,-121.7953
+95939,39.5617,-122.6117
+95941,39.5169,-121.2739
+95942,39.9160,-121.6670
+95943,39.5752,-122.0345
+95944,39.5402,-120.8514
+95945,39.1933,-120.9801
+95946,39.2092,-121.2138
+95947,40.1594,-120.8441
+95948,39.3393,-121.7708
+95949,39.1027,-121.1339
+95950,39.0434,-121.9181
+95951,39.7225,-122.0044
+95953,39.2597,-121.7763
+95954,39.8542,-121.5779
+95955,39.2945,-122.2017
+95956,39.8841,-121.1159
+95957,39.0523,-121.8252
+95958,39.5642,-121.7979
+95959,39.3515,-120.8705
+95960,39.4414,-121.0166
+95961,39.0413,-121.5628
+95962,39.3234,-121.2725
+95963,39.7478,-122.3034
+95965,39.5939,-121.5814
+95966,39.4754,-121.4141
+95968,39.4352,-121.5518
+95969,39.7207,-121.6387
+95970,39.4103,-122.0520
+95971,39.9292,-120.9244
+95972,39.4228,-121.3376
+95973,39.8765,-121.8596
+95974,39.4973,-121.7557
+95975,39.2243,-121.1537
+95977,39.1766,-121.2917
+95978,39.9084,-121.5296
+95979,39.2903,-122.4755
+95981,39.6528,-121.0399
+95982,39.1732,-121.8057
+95983,40.0583,-120.7389
+95984,39.9828,-121.1276
+95986,39.3615,-120.7652
+95987,39.1036,-122.2470
+95988,39.4972,-122.2876
+95991,39.0155,-121.6112
+95993,39.0825,-121.6801
+96001,40.5772,-122.4547
+96002,40.5278,-122.3187
+96003,40.6673,-122.3195
+96006,41.1335,-120.8426
+96007,40.4568,-122.3082
+96008,40.7226,-122.1098
+96009,41.0560,-121.0208
+96010,40.9503,-123.2352
+96011,41.0559,-121.8919
+96013,40.9737,-121.6924
+96014,41.3881,-122.7809
+96015,41.5118,-120.8777
+96016,40.8942,-121.5088
+96017,41.1060,-122.3125
+96019,40.6874,-122.3995
+96020,40.3068,-121.2619
+96021,39.9235,-122.2705
+96022,40.3363,-122.4480
+96023,41.9091,-121.9768
+96024,40.5470,-122.8812
+96025,41.2001,-122.3190
+96027,41.3899,-123.2311
+96028,41.0074,-121.4575
+96029,39.9393,-122.4892
+96031,41.1756,-123.1982
+96032,41.5851,-122.9796
+96033,40.7406,-122.5926
+96034,41.4440,-122.6050
+96035,40.0416,-122.1850
+96037,41.5449,-122.9210
+96038,41.6071,-122.5457
+96039,41.6689,-123.3764
+96040,40.7898,-121.4745
+96041,40.5135,-123.1960
+96044,41.9330,-122.6750
+96046,40.6104,-123.4289
+96047,40.4792,-122.6925
+96048,40.8304,-123.0235
+96050,41.8535,-122.9510
+96051,40.9163,-122.3108
+96052,40.6827,-122.7865
+96054,41.2611,-121.1186
+96055,40.0991,-121.9984
+96056,41.0672,-121.3177
+96057,41.2719,-121.9197
+96058,41.7270,-121.9074
+96059,40.4337,-121.8294
+96061,40.3479,-121.4878
+96062,40.5556,-122.0913
+96063,40.3704,-121.6062
+96064,41.7547,-122.3656
+96065,40.8902,-121.9568
+96067,41.3221,-122.3210
+96068,41.1030,-121.1983
+96069,40.6853,-122.0161
+96071,40.6945,-121.4573
+96073,40.5986,-122.1949
+96074,39.8621,-122.5910
+96075,40.3623,-121.8764
+96076,40.3915,-122.9379
+96078,40.0824,-122.1761
+96080,40.1654,-122.4417
+96084,40.7958,-121.8687
+96085,41.7408,-123.0773
+96086,41.9242,-123.2608
+96087,40.6331,-122.5871
+96088,40.5109,-121.8761
+96090,40.0074,-122.1193
+96091,41.0439,-122.8008
+96092,39.9706,-121.9703
+96093,40.7655,-122.9414
+96094,41.5149,-122.3509
+96096,40.6363,-121.8764
+96097,41.7561,-122.6595
+96101,41.4563,-120.5113
+96103,39.7802,-120.6708
+96104,41.4602,-120.1299
+96105,39.6886,-120.1440
+96106,39.7355,-120.5439
+96107,38.4083,-119.5481
+96108,41.7873,-120.4017
+96109,39.9942,-120.1017
+96110,41.2419,-120.1246
+96111,39.4150,-120.0171
+96112,41.8925,-120.1719
+96113,40.1881,-120.1457
+96114,40.2926,-120.4886
+96115,41.6915,-120.0793
+96116,41.2573,-120.4460
+96117,40.5335,-120.2354
+96118,39.6396,-120.2471
+96119,41.0404,-120.5536
+96120,38.7424,-119.8694
+96121,40.1644,-120.3800
+96122,39.8207,-120.4763
+96123,40.8457,-120.3222
+96124,39.6388,-120.4679
+96125,39.6136,-120.6024
+96126,39.5497,-120.4036
+96128,40.3489,-120.4060
+96129,39.8351,-120.3600
+96130,40.5491,-120.6340
+96132,40.9001,-120.5139
+96133,38.6210,-119.5052
+96134,41.8354,-121.4450
+96135,39.8130,-120.2093
+96136,40.3462,-120.0813
+96137,40.4693,-121.2299
+96140,39.2320,-120.0964
+96141,39.0989,-120.2052
+96142,38.9986,-120.1039
+96143,39.2606,-120.0263
+96145,39.1810,-120.1514
+96146,39.2159,-120.2452
+96148,39.2498,-120.0576
+96150,38.8733,-120.0685
+96155,38.7630,-120.0871
+96161,39.3477,-120.2247
+96701,21.4061,-157.8850
+96703,22.1361,-159.3719
+96704,19.2944,-155.8406
+96705,21.8995,-159.5685
+96706,21.3448,-158.0223
+96707,21.3631,-158.0822
+96708,20.8828,-156.2322
+96710,19.8425,-155.2475
+96712,21.6519,-157.9828
+96713,20.7341,-156.1070
+96714,22.1313,-159.5210
+96716,21.9103,-159.6009
+96717,21.5578,-157.9053
+96719,20.2402,-155.8330
+96720,19.6598,-155.2325
+96722,22.1884,-159.4609
+96725,19.5967,-155.9014
+96726,19.4215,-155.8109
+96727,20.1056,-155.4860
+96728,19.8620,-155.1290
+96729,21.1779,-157.1203
+96730,21.5382,-157.8443
+96731,21.6781,-157.9692
+96732,20.8773,-156.4603
+96734,21.3951,-157.7582
+96737,19.1073,-155.7806
+96738,19.8719,-155.8022
+96740,19.7568,-155.9200
+96741,21.9555,-159.5152
+96742,21.1767,-156.9657
+96743,20.0266,-155.7837
+96744,21.4476,-157.8288
+96746,22.0928,-159.3525
+96747,21.9165,-159.6318
+96748,21.1312,-156.8352
+96749,19.6213,-154.9897
+96750,19.5226,-155.9166
+96751,22.1067,-159.3050
+96752,22.1168,-159.6808
+96753,20.7273,-156.4407
+96754,22.1887,-159.4033
+96755,20.1906,-155.7727
+96756,21.9048,-159.4531
+96757,21.1545,-156.9774
+96759,21.4602,-158.0600
+96760,19.5523,-155.0548
+96761,20.9197,-156.6168
+96762,21.6185,-157.9439
+96763,20.8365,-156.9274
+96764,19.9940,-155.2479
+96765,21.9256,-159.4991
+96766,22.0114,-159.4051
+96768,20.8292,-156.2972
+96769,21.9586,-159.6185
+96770,21.1343,-157.2109
+96771,19.5259,-155.1440
+96772,19.0655,-155.6682
+96773,19.9121,-155.2769
+96774,19.9687,-155.3151
+96776,20.0022,-155.3754
+96777,19.2276,-155.4666
+96778,19.4279,-155.0891
+96779,20.9100,-156.3843
+96780,19.9660,-155.2249
+96781,19.8058,-155.2002
+96782,21.4512,-157.9156
+96783,19.8431,-155.1061
+96785,19.4782,-155.2302
+96786,21.5376,-158.0224
+96789,21.4839,-157.9343
+96790,20.7117,-156.2944
+96791,21.5636,-158.1851
+96792,21.4686,-158.1669
+96793,20.8956,-156.5298
+96795,21.3350,-157.7109
+96796,21.9619,-159.6679
+96797,21.4084,-158.0176
+96799,-14.3229,-170.7523
+96813,21.3165,-157.8451
+96814,21.2912,-157.8440
+96815,21.2722,-157.8223
+96816,21.2912,-157.7909
+96817,21.3555,-157.8216
+96818,21.3425,-157.9398
+96819,21.3471,-157.8773
+96820,21.3363,-157.9207
+96821,21.3112,-157.7502
+96822,21.3205,-157.8104
+96825,21.2929,-157.6923
+96826,21.2915,-157.8269
+96848,21.3013,-157.8143
+96850,21.3038,-157.8627
+96853,21.3351,-157.9405
+96857,21.4881,-158.0530
+96858,21.3446,-157.8834
+96859,21.3601,-157.8898
+96860,21.3569,-157.9473
+96863,21.4369,-157.7455
+96910,13.4529,144.7472
+96913,13.4783,144.8151
+96915,13.3745,144.7081
+96916,13.2659,144.6892
+96917,13.2825,144.7427
+96928,13.3559,144.6573
+96929,13.5673,144.8781
+96950,15.1869,145.7544
+96951,14.1525,145.2129
+96952,15.0098,145.6211
+97001,44.9904,-120.6040
+97002,45.2405,-122.7938
+97003,45.5037,-122.8648
+97004,45.2550,-122.4494
+97005,45.4914,-122.8040
+97006,45.5260,-122.8559
+97007,45.4428,-122.8712
+97008,45.4604,-122.8025
+97009,45.4230,-122.3328
+97011,45.3874,-122.0367
+97013,45.2208,-122.6683
+97014,45.6434,-121.7893
+97015,45.4168,-122.5331
+97016,46.0521,-123.2625
+97017,45.1730,-122.3686
+97018,45.8975,-122.8124
+97019,45.4825,-122.1907
+97020,45.2227,-122.8388
+97021,45.3854,-121.1206
+97022,45.3467,-122.3200
+97023,45.2040,-122.2007
+97024,45.5442,-122.4396
+97026,45.1047,-122.9377
+97027,45.3856,-122.5928
+97028,45.2884,-121.8073
+97029,45.3004,-120.8132
+97030,45.5099,-122.4332
+97031,45.6109,-121.6014
+97032,45.1795,-122.7856
+97033,45.2005,-120.5841
+97034,45.4095,-122.6857
+97035,45.4136,-122.7253
+97037,45.0670,-121.0276
+97038,45.0954,-122.5590
+97039,45.4712,-120.6190
+97040,45.6171,-121.3881
+97041,45.4198,-121.5958
+97042,45.2077,-122.5372
+97045,45.3203,-122.5365
+97048,46.0144,-122.9748
+97049,45.3707,-121.8733
+97050,45.6736,-120.7816
+97051,45.8887,-122.9207
+97053,45.8280,-122.8833
+97054,45.9608,-122.9274
+97055,45.3611,-122.1579
+97056,45.7995,-122.9689
+97057,45.0042,-120.7516
+97058,45.5525,-121.1518
+97060,45.5313,-122.3691
+97062,45.3652,-122.7623
+97063,45.2249,-121.3011
+97064,45.8591,-123.2355
+97065,45.6076,-120.6446
+97067,45.3240,-121.9905
+97068,45.3517,-122.6690
+97070,45.3082,-122.7710
+97071,45.1342,-122.8265
+97078,45.4764,-122.8908
+97080,45.4783,-122.3907
+97086,45.4453,-122.5279
+97089,45.4264,-122.4430
+97101,45.0902,-123.2287
+97102,45.7894,-123.9423
+97103,46.1333,-123.6990
+97106,45.6544,-123.1364
+97107,45.5604,-123.8874
+97108,45.2742,-123.6755
+97109,45.7377,-123.1946
+97110,45.8919,-123.9512
+97111,45.2845,-123.1952
+97112,45.2750,-123.8764
+97113,45.5079,-123.0430
+97114,45.1879,-123.0766
+97115,45.2774,-123.0271
+97116,45.5809,-123.1658
+97117,45.6319,-123.3359
+97118,45.5576,-123.9152
+97119,45.4717,-123.2214
+97121,46.2037,-123.9812
+97122,45.1614,-123.8258
+97123,45.4444,-122.9764
+97124,45.5692,-122.9471
+97125,45.6630,-123.2169
+97127,45.2463,-123.1115
+97128,45.2117,-123.2817
+97130,45.7068,-123.9387
+97131,45.7114,-123.8243
+97132,45.3242,-122.9873
+97133,45.6894,-123.0130
+97134,45.4618,-123.9706
+97135,45.1986,-123.9619
+97136,45.6306,-123.9208
+97137,45.2195,-122.9485
+97138,45.9055,-123.7088
+97140,45.3531,-122.8658
+97141,45.5075,-123.7371
+97144,45.7435,-123.3031
+97145,45.8437,-123.9516
+97146,46.1251,-123.9114
+97147,45.6856,-123.8861
+97148,45.3614,-123.2599
+97149,45.1130,-123.9390
+97201,45.5086,-122.6883
+97202,45.4820,-122.6445
+97203,45.6036,-122.7379
+97204,45.5184,-122.6739
+97205,45.5201,-122.7022
+97206,45.4816,-122.5983
+97208,45.5287,-122.6790
+97209,45.5311,-122.6840
+97210,45.5455,-122.7369
+97211,45.5856,-122.6373
+97212,45.5443,-122.6432
+97213,45.5382,-122.6000
+97214,45.5140,-122.6440
+97215,45.5151,-122.5974
+97216,45.5139,-122.5585
+97217,45.5968,-122.6954
+97218,45.5762,-122.6009
+97219,45.4542,-122.6985
+97220,45.5508,-122.5596
+97221,45.4966,-122.7305
+97222,45.4403,-122.6159
+97223,45.4403,-122.7766
+97224,45.4057,-122.7957
+97225,45.5030,-122.7701
+97227,45.5442,-122.6771
+97229,45.5492,-122.8100
+97230,45.5578,-122.5053
+97231,45.6876,-122.8242
+97232,45.5289,-122.6439
+97233,45.5153,-122.5022
+97236,45.4830,-122.5123
+97239,45.4899,-122.6905
+97258,45.5133,-122.6754
+97266,45.4830,-122.5576
+97267,45.4084,-122.6129
+97301,44.9518,-123.0062
+97302,44.9032,-123.0644
+97303,45.0304,-123.0237
+97304,45.0066,-123.1117
+97305,45.0157,-122.9291
+97306,44.8429,-123.0948
+97310,44.8759,-122.9745
+97317,44.9024,-122.9063
+97321,44.6534,-123.1395
+97322,44.6276,-123.0176
+97324,44.3386,-123.6278
+97325,44.8338,-122.8522
+97326,44.6379,-123.6658
+97327,44.3757,-122.9478
+97329,44.3712,-122.2897
+97330,44.6480,-123.2596
+97331,44.5634,-123.2812
+97333,44.4681,-123.2938
+97335,44.6378,-122.8805
+97336,44.3568,-122.8508
+97338,44.9352,-123.3392
+97341,44.8194,-124.0433
+97342,44.7393,-121.8791
+97343,44.5753,-123.7515
+97344,44.8688,-123.4660
+97345,44.4115,-122.5789
+97346,44.7695,-122.3785
+97347,45.0784,-123.6594
+97348,44.3833,-123.1223
+97350,44.6581,-121.9879
+97351,44.8153,-123.1295
+97352,44.7494,-123.0276
+97355,44.5322,-122.8210
+97357,44.7527,-123.8256
+97358,44.8120,-122.3996
+97360,44.7504,-122.4824
+97361,44.7786,-123.3261
+97362,45.0620,-122.7565
+97364,44.9988,-123.9870
+97365,44.6713,-124.0306
+97366,44.5813,-124.0480
+97367,44.9148,-123.9742
+97368,45.0245,-123.9031
+97369,44.7600,-124.0568
+97370,44.5649,-123.4756
+97371,44.9906,-123.1911
+97373,45.0580,-122.7764
+97374,44.6929,-122.7749
+97375,44.9870,-122.5983
+97376,44.4982,-123.9750
+97377,44.4648,-123.1031
+97378,45.0849,-123.4229
+97380,44.7860,-123.9300
+97381,44.9395,-122.7207
+97383,44.7994,-122.7225
+97384,44.7911,-122.6201
+97385,44.8659,-122.7236
+97386,44.3592,-122.7270
+97388,44.8800,-124.0182
+97389,44.5327,-123.0903
+97390,44.3559,-123.8627
+97391,44.5850,-123.8840
+97392,44.7956,-122.9304
+97394,44.3990,-124.0164
+97396,45.1047,-123.5492
+97401,44.0680,-123.0802
+97402,44.0477,-123.2309
+97403,44.0354,-123.0524
+97404,44.1052,-123.1330
+97405,43.9536,-123.1559
+97406,42.6159,-124.0213
+97408,44.1430,-123.0582
+97410,42.8016,-123.1193
+97411,43.0590,-124.3468
+97412,44.2049,-123.5478
+97413,44.0539,-121.9458
+97414,42.9676,-124.1561
+97415,42.1378,-124.1334
+97416,43.0373,-123.6950
+97417,42.9402,-123.2149
+97419,44.1808,-123.4131
+97420,43.3468,-124.1057
+97423,43.1858,-124.1742
+97424,43.7468,-123.0534
+97426,43.8989,-123.0300
+97429,42.9677,-123.0544
+97430,44.1551,-123.7117
+97431,43.8695,-122.8415
+97432,43.1043,-123.4294
+97434,43.6215,-122.7026
+97435,43.6902,-123.3282
+97436,43.6433,-123.5870
+97437,44.0991,-123.3871
+97438,43.9442,-122.6825
+97439,44.0735,-124.0275
+97441,43.7518,-124.1661
+97442,42.7804,-123.4254
+97443,43.2505,-123.0043
+97444,42.4403,-124.3274
+97446,44.2607,-123.0546
+97447,43.2779,-122.4995
+97448,44.2109,-123.2793
+97449,43.5634,-124.0405
+97450,42.9089,-124.3747
+97451,43.8531,-123.3071
+97452,43.8741,-122.7501
+97453,43.9804,-123.8505
+97454,44.2181,-122.8191
+97455,43.9686,-122.9197
+97456,44.3433,-123.3550
+97457,43.0645,-123.2295
+97458,43.0488,-124.0085
+97459,43.4842,-124.1827
+97461,44.0983,-123.5055
+97462,43.4869,-123.4183
+97463,43.7407,-122.3872
+97465,42.7635,-124.3447
+97466,42.8489,-124.0852
+97467,43.7389,-123.9079
+97469,42.9225,-123.4177
+97470,43.2507,-123.2424
+97471,43.2191,-123.4879
+97473,43.6937,-123.9148
+97476,42.8422,-124.4028
+97477,44.0585,-123.0116
+97478,44.0891,-122.8423
+97479,43.4040,-123.1963
+97480,44.1284,-123.8327
+97481,43.1153,-123.5660
+97484,42.9336,-122.8459
+97486,43.3519,-123.5282
+97487,43.9889,-123.3872
+97488,44.1286,-122.4173
+97489,44.1115,-122.6068
+97490,44.0079,-123.6052
+97492,43.8030,-122.5157
+97493,43.9046,-124.0234
+97494,43.3306,-123.3278
+97495,43.2812,-123.3143
+97496,43.0665,-123.4727
+97497,42.6657,-123.4255
+97498,44.2734,-124.0090
+97499,43.5917,-123.2370
+97501,42.2857,-122.8975
+97502,42.4085,-122.9460
+97503,42.6047,-122.9237
+97504,42.3282,-122.7974
+97520,42.1696,-122.5118
+97522,42.6339,-122.4341
+97523,42.1041,-123.6446
+97524,42.4675,-122.6477
+97525,42.4308,-123.0598
+97526,42.5357,-123.3383
+97527,42.3808,-123.3866
+97530,42.1404,-123.1120
+97531,42.2101,-123.6447
+97532,42.5184,-123.6564
+97534,42.0193,-123.6994
+97535,42.2680,-122.8123
+97536,42.7819,-122.4947
+97537,42.5525,-123.1459
+97538,42.3144,-123.6676
+97539,42.5764,-122.7862
+97540,42.1927,-122.8173
+97541,42.7759,-122.7453
+97543,42.3772,-123.5603
+97544,42.2070,-123.3001
+97601,42.4434,-122.0741
+97603,42.1326,-121.6646
+97604,42.9777,-122.2067
+97620,42.2764,-119.9039
+97621,42.5073,-121.2853
+97622,42.3913,-121.0069
+97623,42.1989,-121.3126
+97624,42.5485,-121.8496
+97625,42.3150,-121.5839
+97626,42.7248,-122.0139
+97627,42.0702,-122.0722
+97630,42.3059,-120.3877
+97632,42.0360,-121.4055
+97633,42.0341,-121.5628
+97634,42.1337,-121.8024
+97635,41.9300,-120.2942
+97636,42.6579,-120.5784
+97637,42.4730,-119.9603
+97638,43.1497,-121.0199
+97639,42.4285,-121.4916
+97640,42.9863,-120.5364
+97641,43.2882,-120.5317
+97701,43.9977,-121.0342
+97702,43.9828,-121.2097
+97703,44.1764,-121.3829
+97707,43.8262,-121.4921
+97709,43.8976,-121.8586
+97710,42.1434,-118.5388
+97711,44.7062,-120.6679
+97712,43.7778,-120.4063
+97720,43.5868,-118.8961
+97721,42.5263,-118.4461
+97722,43.0073,-118.7272
+97730,44.5227,-121.6454
+97731,43.0896,-121.8552
+97732,43.4854,-118.3236
+97733,43.4204,-121.9262
+97734,44.5314,-121.3351
+97735,43.3901,-120.9924
+97736,42.6743,-118.9019
+97737,43.4995,-121.7613
+97738,43.4840,-119.1565
+97739,43.6725,-121.4882
+97741,44.6581,-121.0387
+97750,44.8338,-120.2905
+97751,44.1316,-119.7804
+97752,44.1305,-120.2009
+97753,44.1977,-120.9856
+97754,44.1287,-120.5154
+97756,44.2811,-121.1918
+97758,43.4523,-119.7709
+97759,44.4899,-121.7780
+97760,44.3845,-121.2456
+97761,44.8608,-121.2949
+97801,45.6708,-118.8238
+97810,45.6724,-118.3961
+97812,45.5752,-120.2498
+97813,45.8530,-118.5280
+97814,44.7963,-117.7833
+97817,44.7288,-118.6060
+97818,45.7638,-119.7758
+97819,44.4860,-117.7630
+97820,44.1438,-119.1948
+97823,45.2509,-120.1965
+97824,45.3543,-117.7565
+97825,44.3851,-119.4963
+97826,45.6643,-119.2323
+97827,45.6160,-117.8576
+97828,45.5347,-117.1468
+97830,44.9666,-120.1831
+97833,44.9338,-118.0730
+97834,45.0297,-117.2319
+97835,45.8992,-118.7719
+97836,45.3212,-119.4746
+97837,44.5195,-118.0619
+97838,45.8510,-119.2878
+97839,45.5734,-119.6069
+97840,44.8561,-116.9412
+97841,45.4682,-117.9403
+97842,45.6107,-116.7996
+97843,45.5046,-119.8806
+97844,45.8841,-119.5488
+97845,44.4144,-118.9038
+97846,45.2778,-117.1149
+97848,44.7222,-119.5806
+97850,45.3089,-118.1560
+97856,44.7769,-119.1180
+97857,45.3592,-117.5232
+97859,45.5247,-118.4319
+97862,45.9221,-118.3161
+97864,44.8051,-119.4715
+97865,44.4615,-119.1800
+97867,45.0780,-117.9934
+97868,45.4093,-118.8536
+97869,44.3976,-118.6340
+97870,44.7880,-117.1866
+97873,44.1283,-118.9950
+97874,44.7578,-119.8485
+97875,45.8154,-119.1486
+97876,45.5223,-118.0281
+97877,44.8110,-118.3959
+97880,45.0887,-118.8825
+97882,45.9073,-119.3496
+97883,45.1286,-117.6518
+97884,44.4553,-118.2222
+97885,45.6505,-117.5098
+97886,45.8023,-118.2724
+97901,43.5891,-117.0983
+97902,42.9133,-117.4941
+97903,44.2716,-117.5984
+97904,43.8943,-118.4902
+97905,44.5819,-117.4654
+97906,43.4650,-117.8119
+97907,44.4195,-117.3455
+97908,44.2400,-117.9314
+97909,44.2109,-117.3790
+97910,42.8546,-117.5091
+97911,43.8764,-118.0551
+97913,43.6344,-117.2779
+97914,44.1116,-117.0799
+97917,43.5495,-118.1235
+97918,43.9626,-117.3897
+97920,44.0660,-117.7504
+98001,47.3097,-122.2644
+98002,47.3083,-122.2154
+98003,47.3052,-122.3142
+98004,47.6183,-122.2053
+98005,47.6128,-122.1676
+98006,47.5530,-122.1518
+98007,47.6138,-122.1444
+98008,47.6065,-122.1115
+98010,47.3156,-121.9989
+98011,47.7574,-122.1987
+98012,47.8414,-122.1989
+98014,47.6997,-121.8452
+98019,47.7370,-121.9342
+98020,47.8006,-122.3742
+98021,47.7926,-122.2084
+98022,47.1695,-121.6846
+98023,47.3115,-122.3628
+98024,47.5734,-121.8992
+98025,47.4344,-121.9524
+98026,47.8376,-122.3339
+98027,47.5140,-121.9935
+98028,47.7499,-122.2472
+98029,47.5576,-122.0115
+98030,47.3672,-122.1981
+98031,47.4059,-122.1919
+98032,47.3919,-122.2572
+98033,47.6760,-122.1936
+98034,47.7158,-122.2137
+98036,47.8097,-122.2804
+98037,47.8387,-122.2845
+98038,47.4194,-121.9580
+98039,47.6349,-122.2403
+98040,47.5640,-122.2312
+98042,47.3640,-122.1167
+98043,47.7943,-122.3026
+98045,47.4766,-121.6829
+98047,47.2595,-122.2475
+98050,47.5473,-121.9397
+98051,47.3462,-121.8813
+98052,47.6823,-122.1205
+98053,47.6687,-122.0151
+98055,47.4475,-122.2004
+98056,47.5126,-122.1889
+98057,47.4719,-122.2194
+98058,47.4406,-122.1263
+98059,47.4944,-122.1302
+98065,47.5972,-121.7796
+98068,47.4319,-121.3741
+98070,47.4073,-122.4735
+98072,47.7608,-122.1305
+98074,47.6225,-122.0442
+98075,47.5861,-122.0374
+98077,47.7524,-122.0603
+98087,47.8601,-122.2673
+98092,47.2902,-122.1256
+98101,47.6109,-122.3364
+98102,47.6344,-122.3237
+98103,47.6831,-122.3379
+98104,47.6005,-122.3322
+98105,47.6599,-122.2850
+98106,47.5440,-122.3499
+98107,47.6675,-122.3776
+98108,47.5351,-122.3059
+98109,47.6306,-122.3456
+98110,47.6470,-122.5346
+98112,47.6375,-122.2877
+98115,47.6858,-122.2837
+98116,47.5764,-122.3974
+98117,47.6878,-122.3859
+98118,47.5420,-122.2685
+98119,47.6368,-122.3700
+98121,47.6152,-122.3506
+98122,47.6095,-122.2956
+98125,47.7169,-122.3006
+98126,47.5492,-122.3743
+98133,47.7405,-122.3428
+98134,47.5811,-122.3382
+98136,47.5366,-122.3925
+98144,47.5856,-122.2920
+98146,47.5001,-122.3612
+98148,47.4449,-122.3258
+98154,47.6062,-122.3338
+98155,47.7544,-122.3005
+98158,47.4505,-122.3080
+98164,47.6060,-122.3320
+98166,47.4516,-122.3530
+98168,47.4896,-122.3000
+98174,47.6046,-122.3354
+98177,47.7421,-122.3712
+98178,47.4988,-122.2451
+98188,47.4466,-122.2721
+98195,47.6538,-122.3083
+98198,47.3913,-122.3150
+98199,47.6514,-122.4063
+98201,47.9945,-122.1862
+98203,47.9420,-122.2341
+98204,47.9027,-122.2559
+98207,47.9872,-122.2242
+98208,47.9002,-122.1870
+98220,48.6849,-122.1952
+98221,48.4542,-122.6039
+98222,48.5707,-122.8175
+98223,48.2171,-121.9535
+98224,47.7289,-121.5638
+98225,48.7582,-122.5062
+98226,48.7967,-122.4324
+98229,48.7059,-122.3983
+98230,48.9535,-122.7050
+98232,48.5644,-122.4099
+98233,48.5009,-122.3457
+98235,48.4632,-122.2312
+98236,47.9484,-122.4128
+98237,48.5338,-121.7107
+98238,48.3356,-122.3445
+98239,48.1982,-122.6541
+98240,48.9482,-122.6207
+98241,48.2040,-121.1405
+98243,48.6139,-123.0070
+98244,48.7725,-121.9096
+98245,48.6692,-122.9120
+98247,48.8972,-122.3137
+98248,48.8656,-122.6232
+98249,48.0142,-122.5428
+98250,48.5538,-123.0859
+98251,47.9115,-121.6064
+98252,48.0618,-121.7145
+98253,48.0840,-122.5725
+98255,48.5235,-121.9920
+98256,47.8215,-121.4065
+98257,48.4060,-122.5121
+98258,48.0343,-122.0815
+98260,48.0359,-122.4526
+98261,48.4825,-122.8840
+98262,48.6966,-122.6811
+98263,48.5238,-122.0656
+98264,48.9499,-122.4548
+98266,48.9740,-122.0350
+98267,48.3901,-121.2658
+98270,48.0567,-122.1469
+98271,48.0900,-122.2377
+98272,47.8578,-121.8853
+98273,48.4028,-122.3761
+98274,48.3488,-122.1455
+98275,47.9130,-122.3023
+98276,48.9278,-122.3210
+98277,48.3220,-122.6270
+98278,48.3406,-122.6740
+98279,48.6364,-122.8182
+98280,48.5961,-122.8777
+98281,48.9847,-123.0595
+98282,48.2125,-122.4991
+98283,48.8006,-121.3036
+98284,48.5468,-122.1352
+98286,48.5688,-122.9575
+98288,47.6214,-121.3265
+98290,47.9554,-121.9785
+98292,48.2255,-122.3051
+98294,47.8384,-121.7662
+98295,48.9834,-122.1951
+98296,47.8408,-122.1011
+98297,48.7021,-123.0265
+98303,47.1499,-122.6817
+98304,46.8846,-121.7366
+98305,48.0244,-124.2363
+98310,47.5897,-122.6175
+98311,47.6274,-122.6424
+98312,47.5658,-122.7615
+98314,47.5625,-122.6387
+98315,47.7246,-122.7160
+98320,47.6963,-123.0559
+98321,47.1526,-122.0717
+98323,46.9799,-121.9853
+98325,47.9668,-122.7597
+98326,48.1590,-124.5005
+98327,47.1063,-122.6616
+98328,46.8580,-122.1641
+98329,47.3608,-122.7441
+98330,46.7571,-122.1532
+98331,47.7458,-124.1806
+98332,47.3722,-122.5958
+98333,47.2577,-122.6466
+98335,47.2969,-122.6237
+98336,46.5979,-122.0778
+98337,47.5610,-122.6388
+98338,47.0343,-122.2769
+98339,48.0277,-122.7464
+98340,47.9101,-122.5711
+98342,47.7553,-122.5115
+98345,47.7002,-122.6243
+98346,47.8260,-122.5272
+98349,47.2701,-122.7585
+98350,47.9065,-124.6224
+98351,47.1997,-122.7743
+98353,47.5386,-122.4926
+98354,47.2520,-122.3173
+98355,46.7038,-122.0399
+98356,46.5819,-122.2714
+98357,48.3339,-124.6354
+98358,48.0449,-122.6875
+98359,47.4311,-122.5749
+98360,47.0514,-122.1532
+98361,46.5384,-121.5049
+98362,48.0303,-123.3294
+98363,48.0035,-123.8229
+98364,47.8544,-122.5861
+98365,47.8849,-122.7014
+98366,47.5413,-122.5770
+98367,47.4621,-122.6662
+98368,48.0413,-122.8267
+98370,47.7540,-122.6263
+98371,47.1995,-122.3202
+98372,47.2067,-122.2626
+98373,47.1485,-122.3241
+98374,47.1291,-122.2639
+98375,47.1043,-122.3269
+98376,47.8468,-122.8523
+98377,46.5088,-121.8192
+98380,47.6018,-122.8794
+98381,48.2886,-124.4569
+98382,48.0233,-123.1063
+98383,47.6629,-122.7186
+98385,47.1379,-122.0950
+98387,47.0609,-122.3889
+98388,47.2095,-122.6843
+98390,47.2115,-122.2306
+98391,47.1771,-122.1662
+98392,47.7324,-122.5659
+98394,47.3205,-122.7897
+98396,47.1098,-122.0003
+98402,47.2538,-122.4443
+98403,47.2658,-122.4591
+98404,47.2090,-122.4116
+98405,47.2456,-122.4724
+98406,47.2641,-122.5126
+98407,47.2920,-122.5177
+98408,47.1974,-122.4465
+98409,47.2130,-122.4749
+98416,47.2627,-122.4820
+98418,47.2232,-122.4464
+98421,47.2606,-122.4002
+98422,47.2904,-122.3924
+98424,47.2354,-122.3542
+98430,47.1167,-122.5688
+98433,47.0923,-122.6081
+98438,47.1350,-122.4921
+98439,47.1309,-122.5022
+98443,47.2050,-122.3727
+98444,47.1523,-122.4489
+98445,47.1374,-122.4047
+98446,47.1319,-122.3758
+98447,47.1453,-122.4436
+98465,47.2513,-122.5374
+98466,47.2290,-122.5381
+98467,47.2033,-122.5677
+98498,47.1596,-122.5579
+98499,47.1662,-122.5061
+98501,46.9785,-122.8759
+98502,47.0812,-123.0248
+98503,47.0233,-122.7935
+98505,47.0732,-122.9736
+98506,47.1083,-122.8706
+98512,46.9534,-123.0480
+98513,46.9934,-122.7332
+98516,47.0989,-122.7854
+98520,46.9886,-123.8285
+98524,47.3666,-122.8358
+98526,47.4744,-123.9940
+98527,46.5964,-123.9119
+98528,47.4473,-122.8962
+98530,46.8100,-122.8754
+98531,46.7427,-122.9016
+98532,46.6263,-123.0527
+98533,46.6612,-122.3956
+98535,47.1038,-124.1175
+98536,47.1949,-124.1041
+98537,46.8071,-123.5809
+98538,46.4828,-123.1461
+98539,46.6378,-123.2732
+98541,47.0609,-123.3898
+98542,46.5330,-122.7254
+98544,46.7390,-123.0270
+98546,47.3213,-122.9140
+98547,46.7840,-124.0378
+98548,47.5409,-123.1739
+98550,47.1126,-123.9230
+98552,47.3162,-123.9466
+98555,47.5334,-123.0634
+98556,46.8856,-123.1410
+98557,47.0432,-123.2700
+98558,46.9362,-122.5605
+98559,46.9588,-123.3274
+98560,47.3095,-123.4228
+98562,47.2380,-124.1998
+98563,47.2111,-123.6097
+98564,46.4495,-122.4197
+98565,46.5784,-122.9071
+98566,47.4065,-123.9696
+98568,46.8626,-123.3012
+98569,46.9907,-124.1434
+98570,46.6307,-122.6509
+98571,47.2021,-124.1983
+98572,46.5413,-123.3283
+98575,47.4545,-123.8012
+98576,46.8467,-122.6484
+98577,46.6418,-123.6104
+98579,46.7882,-123.1255
+98580,46.9866,-122.5103
+98581,46.3588,-123.0687
+98582,46.5237,-122.6257
+98583,47.0009,-123.4867
+98584,47.2397,-123.1523
+98585,46.5734,-122.4446
+98586,46.5446,-123.8403
+98587,47.3229,-124.1530
+98588,47.4468,-123.0328
+98589,46.8334,-122.7953
+98590,46.7110,-123.9962
+98591,46.4423,-122.7474
+98592,47.3340,-123.0762
+98593,46.4027,-123.0101
+98595,46.8972,-124.1078
+98596,46.4923,-122.9527
+98597,46.8443,-122.4929
+98601,45.9384,-122.4379
+98602,45.8693,-121.2797
+98603,46.0555,-122.4148
+98604,45.8058,-122.5108
+98605,45.7770,-121.6642
+98606,45.7292,-122.4561
+98607,45.6424,-122.3796
+98609,46.0718,-122.8657
+98610,45.7754,-122.0191
+98611,46.3051,-122.9007
+98612,46.2505,-123.2872
+98613,45.7542,-120.9723
+98614,46.2833,-123.9197
+98616,46.0751,-122.1832
+98617,45.6405,-121.1340
+98619,45.9716,-121.2681
+98620,45.8704,-120.7793
+98621,46.4003,-123.5437
+98623,45.7996,-121.4935
+98624,46.3381,-123.9650
+98625,46.1117,-122.5696
+98626,46.1722,-122.7735
+98628,45.8486,-121.0668
+98629,45.8773,-122.6194
+98631,46.3880,-124.0219
+98632,46.2049,-123.0626
+98635,45.7500,-121.1856
+98638,46.3939,-123.7623
+98639,45.6405,-121.9663
+98640,46.6319,-124.0426
+98641,46.5710,-124.0416
+98642,45.8033,-122.7017
+98643,46.2920,-123.6536
+98644,46.3193,-124.0532
+98645,46.3319,-122.7601
+98647,46.3152,-123.4014
+98648,45.7059,-121.9456
+98649,46.3155,-122.5323
+98650,45.9468,-121.5324
+98651,45.7400,-121.5835
+98660,45.6612,-122.7188
+98661,45.6401,-122.6250
+98662,45.6891,-122.5774
+98663,45.6547,-122.6623
+98664,45.6195,-122.5772
+98665,45.6819,-122.6527
+98670,45.8638,-121.1461
+98671,45.6104,-122.2755
+98672,45.8195,-121.4724
+98673,45.6808,-120.9516
+98674,45.9513,-122.6655
+98675,45.8740,-122.3217
+98682,45.6730,-122.4832
+98683,45.6033,-122.5102
+98684,45.6306,-122.5148
+98685,45.7152,-122.6932
+98686,45.7233,-122.6219
+98801,47.4315,-120.3450
+98802,47.4919,-120.1637
+98811,47.7342,-120.3738
+98812,48.1315,-119.8060
+98813,48.0063,-119.6169
+98814,48.1953,-120.2950
+98815,47.5286,-120.4797
+98816,48.0554,-120.3320
+98817,47.7924,-119.9936
+98819,48.5845,-119.8259
+98821,47.5522,-120.5637
+98822,47.9791,-120.6233
+98823,47.3383,-119.6352
+98824,47.0685,-119.8665
+98826,47.7831,-120.8432
+98827,48.8563,-119.7521
+98828,47.3101,-120.1783
+98829,48.2973,-119.8057
+98830,47.8807,-119.5339
+98831,47.9368,-120.1363
+98832,47.3313,-119.0280
+98833,48.7687,-120.5073
+98834,48.1203,-120.0664
+98836,47.4719,-120.4385
+98837,47.1470,-119.3159
+98840,48.2918,-119.5138
+98841,48.3797,-119.2892
+98843,47.7404,-120.0871
+98844,48.9273,-119.2280
+98845,47.4393,-119.9354
+98846,48.0146,-119.9712
+98847,47.4244,-120.6182
+98848,47.1686,-119.8429
+98849,48.5410,-119.4095
+98850,47.4053,-120.0387
+98851,47.4139,-119.4322
+98852,48.3655,-120.6698
+98853,47.4663,-119.2820
+98855,48.6745,-119.2530
+98856,48.3433,-120.2639
+98857,46.9901,-119.0248
+98858,47.6781,-119.8885
+98859,48.7979,-118.9551
+98860,47.4640,-119.1150
+98862,48.5989,-120.2224
+98901,46.6652,-120.3385
+98902,46.5980,-120.5346
+98903,46.5300,-120.9410
+98908,46.6403,-120.7819
+98921,46.4307,-120.3168
+98922,47.2262,-120.8654
+98923,46.6661,-120.7172
+98925,47.2826,-121.2778
+98926,46.9885,-120.3549
+98930,46.2692,-119.8920
+98932,46.3327,-120.1562
+98933,46.4029,-120.6376
+98934,46.9806,-120.4194
+98935,46.1319,-120.0737
+98936,46.5328,-120.1648
+98937,46.7928,-121.2262
+98938,46.3884,-120.0967
+98939,46.5010,-120.4707
+98940,47.3624,-121.0394
+98941,47.2247,-121.0002
+98942,46.8013,-120.6648
+98943,47.1840,-120.9654
+98944,46.5070,-119.6720
+98946,47.0683,-120.7564
+98947,46.6876,-120.8092
+98948,46.2378,-120.3688
+98950,46.8151,-119.9714
+98951,46.4560,-120.5136
+98952,46.3503,-120.8170
+98953,46.4415,-120.2328
+99001,47.6387,-117.5858
+99003,47.9171,-117.2749
+99004,47.4190,-117.5999
+99005,47.8440,-117.3634
+99006,47.9515,-117.5064
+99008,47.5033,-117.9334
+99009,48.0261,-117.2524
+99011,47.6187,-117.6484
+99012,47.3813,-117.1913
+99013,47.8811,-117.8353
+99014,47.5612,-117.5966
+99016,47.5973,-117.1210
+99017,47.1841,-117.8867
+99018,47.2917,-117.1521
+99019,47.6371,-117.0747
+99020,47.5632,-117.4971
+99021,47.8495,-117.1873
+99022,47.5998,-117.7090
+99023,47.5647,-117.1446
+99025,47.7939,-117.0753
+99026,47.8010,-117.6338
+99027,47.7101,-117.1276
+99029,47.7069,-117.8296
+99030,47.4778,-117.1129
+99031,47.4138,-117.3298
+99032,47.3273,-118.0336
+99033,47.2306,-117.0978
+99034,47.8862,-117.7624
+99036,47.5201,-117.2720
+99037,47.6366,-117.2000
+99039,47.3381,-117.2313
+99040,47.8985,-118.0037
+99101,48.3164,-117.9373
+99102,46.7922,-117.2504
+99103,47.7358,-118.9244
+99105,46.9569,-118.0729
+99109,48.2924,-117.6986
+99110,48.0083,-117.5811
+99111,46.8559,-117.4512
+99113,46.5845,-117.1961
+99114,48.6552,-117.7358
+99115,47.6741,-119.3777
+99116,48.0148,-118.9358
+99117,47.6488,-118.5701
+99118,48.8974,-118.6378
+99119,48.5092,-117.3149
+99121,48.9362,-118.4692
+99122,47.6876,-118.2075
+99123,47.8865,-119.0548
+99124,48.0015,-118.9537
+99125,46.9614,-117.7473
+99126,48.7301,-117.9719
+99128,47.0979,-117.0813
+99129,48.0107,-118.1567
+99130,46.9992,-117.1855
+99131,48.2977,-118.0950
+99133,48.0101,-119.1365
+99134,47.4510,-118.2969
+99135,47.6611,-119.0912
+99136,46.6747,-117.9489
+99137,48.1481,-118.1158
+99138,48.2314,-118.3909
+99139,48.7166,-117.2526
+99140,48.1114,-118.6462
+99141,48.7171,-118.1680
+99143,46.7655,-117.8482
+99144,47.3681,-118.4904
+99146,48.9575,-118.2977
+99147,47.8593,-118.4620
+99148,48.1073,-117.5714
+99149,47.2249,-117.4680
+99150,48.8062,-118.6108
+99151,48.6645,-118.0612
+99152,48.8369,-117.3999
+99153,48.9109,-117.1657
+99154,47.3913,-118.3558
+99155,48.3115,-119.0064
+99156,48.1615,-117.1900
+99157,48.9182,-117.7963
+99158,47.1330,-117.2401
+99159,47.3268,-118.7659
+99160,48.8689,-118.3012
+99161,46.9036,-117.1481
+99163,46.7304,-117.2184
+99166,48.6087,-118.6673
+99167,48.4117,-118.1335
+99169,47.1198,-118.3784
+99170,47.2530,-117.3972
+99171,47.0982,-117.6539
+99173,48.0409,-117.8577
+99174,47.0072,-117.3569
+99176,47.0922,-117.4123
+99179,46.4950,-117.1259
+99180,48.3052,-117.3065
+99181,48.1448,-117.7663
+99185,47.7270,-118.7111
+99201,47.6625,-117.4367
+99202,47.6570,-117.3790
+99203,47.6296,-117.4032
+99204,47.6472,-117.4267
+99205,47.6968,-117.4449
+99206,47.6277,-117.2546
+99207,47.6892,-117.3890
+99208,47.7858,-117.4523
+99212,47.6653,-117.3073
+99216,47.6864,-117.2167
+99217,47.7407,-117.2614
+99218,47.7589,-117.4095
+99223,47.5971,-117.3178
+99224,47.6477,-117.5350
+99251,47.7538,-117.4179
+99258,47.6660,-117.4023
+99301,46.3778,-118.9517
+99320,46.3248,-119.5062
+99321,46.8590,-119.8934
+99322,45.9470,-120.1555
+99323,46.1896,-118.8718
+99324,46.0437,-118.3855
+99326,46.6688,-118.8418
+99328,46.2757,-117.8709
+99329,46.1394,-118.1472
+99330,46.4945,-119.0303
+99333,46.6970,-118.1394
+99335,46.6472,-118.4397
+99336,46.2141,-119.1757
+99337,46.0520,-119.0985
+99338,46.1736,-119.2740
+99341,46.9066,-118.6422
+99343,46.5967,-119.1647
+99344,46.8224,-119.1718
+99345,45.9335,-119.6552
+99346,46.0307,-119.3032
+99347,46.4267,-117.5786
+99348,46.4029,-118.4354
+99349,46.7311,-119.7005
+99350,46.1425,-119.7368
+99352,46.2458,-119.2915
+99353,46.3138,-119.3878
+99354,46.3323,-119.2991
+99356,45.8291,-120.3600
+99357,46.8913,-119.6616
+99359,46.5130,-118.1619
+99360,46.0905,-118.6676
+99361,46.2367,-118.1432
+99362,46.1011,-118.3136
+99363,46.0456,-118.8853
+99371,46.7853,-118.3322
+99401,46.0872,-117.2499
+99402,46.2211,-117.3513
+99403,46.3755,-117.2903
+99501,61.2200,-149.8578
+99502,61.1637,-149.9966
+99503,62.0437,-158.1745
+99504,61.1906,-149.6072
+99505,61.2847,-149.6540
+99506,61.2720,-149.8071
+99507,61.1151,-149.6161
+99508,61.2014,-149.8175
+99513,61.2148,-149.8857
+99515,61.1164,-149.8904
+99516,61.0793,-149.7098
+99517,61.1903,-149.9391
+99518,61.1595,-149.8848
+99519,70.0174,-149.8297
+99530,61.1847,-149.9837
+99540,61.0097,-149.3177
+99546,51.8557,-176.6686
+99547,52.2234,-174.2034
+99548,56.2720,-158.7891
+99549,56.9652,-158.5864
+99550,57.8670,-152.8562
+99551,60.9210,-161.4021
+99552,60.9070,-161.2209
+99553,54.1173,-165.8308
+99554,62.7110,-164.6497
+99555,59.2890,-158.6643
+99556,59.8342,-151.5761
+99557,61.4689,-155.2152
+99558,62.6316,-160.2151
+99559,60.7729,-161.8715
+99561,60.1518,-164.2515
+99563,61.5504,-165.3565
+99564,56.2950,-158.3933
+99565,56.3043,-158.5003
+99566,61.2709,-142.6055
+99567,61.2993,-149.0212
+99568,60.2718,-150.6052
+99569,58.8050,-158.5285
+99571,55.2662,-162.8047
+99572,60.5299,-149.9526
+99573,61.5692,-145.6705
+99574,61.1175,-147.6069
+99575,61.7967,-158.0810
+99576,59.3610,-158.8229
+99577,61.1743,-149.2843
+99578,60.2163,-162.0420
+99579,58.2248,-157.4565
+99580,59.3458,-157.4870
+99581,62.8221,-164.7084
+99583,54.8878,-163.4083
+99585,61.8716,-162.0609
+99586,62.6907,-144.2380
+99587,60.9658,-148.8766
+99588,62.7078,-146.7194
+99589,59.2370,-161.5794
+99590,62.8961,-160.1130
+99591,56.6009,-169.6811
+99602,62.1851,-159.8588
+99603,59.5385,-151.1869
+99604,61.5092,-166.1115
+99605,60.8691,-149.4715
+99606,59.7371,-154.9024
+99607,61.5403,-160.3490
+99608,57.5910,-154.3634
+99609,60.8638,-162.5366
+99610,60.2810,-151.2730
+99611,60.8348,-150.7242
+99612,55.0850,-162.3168
+99613,59.0709,-155.3775
+99614,59.9375,-164.0622
+99615,57.6827,-153.3788
+99620,63.0292,-163.5367
+99621,60.7932,-161.4308
+99622,59.8776,-163.1773
+99623,61.4393,-149.9227
+99624,57.4894,-153.8535
+99625,59.0682,-156.9010
+99626,61.5171,-160.3546
+99627,63.5485,-154.5756
+99628,58.7395,-158.9145
+99630,60.3702,-166.2682
+99631,60.5963,-149.6383
+99632,62.1123,-163.6645
+99633,58.7852,-156.8859
+99634,60.6787,-162.0151
+99635,61.0686,-153.0032
+99636,59.4853,-157.3091
+99637,60.5298,-165.1066
+99638,53.0079,-168.7185
+99639,59.9853,-151.5077
+99640,60.7186,-155.5723
+99641,60.8817,-162.4646
+99643,57.2188,-153.3297
+99644,57.9101,-152.3824
+99645,61.6244,-148.9821
+99647,59.8794,-154.0709
+99648,55.9345,-159.1558
+99649,57.5051,-157.2858
+99650,61.9426,-162.8846
+99651,58.9526,-161.7470
+99652,61.5155,-149.9755
+99653,60.1567,-154.3396
+99654,61.6051,-149.4227
+99655,59.7424,-161.8871
+99656,61.8653,-157.3571
+99657,61.7280,-161.6784
+99658,62.0916,-163.2490
+99659,63.4585,-162.1345
+99660,57.1791,-170.3228
+99661,55.2623,-160.7094
+99662,61.8419,-165.5833
+99663,59.4012,-151.6246
+99664,60.1338,-149.5006
+99665,62.6674,-159.5351
+99666,62.4406,-165.1455
+99667,61.6977,-152.1404
+99668,61.6539,-157.1030
+99669,60.3601,-151.0179
+99670,58.6755,-156.9941
+99671,63.4734,-162.2600
+99672,60.5696,-150.7614
+99674,61.5913,-148.0619
+99675,62.9827,-156.0838
+99676,62.5711,-149.6065
+99677,60.8944,-146.6686
+99678,59.2632,-160.4726
+99679,61.1043,-160.9372
+99680,60.3451,-162.6637
+99681,60.6071,-165.1280
+99682,61.1909,-151.1842
+99683,62.4154,-150.4078
+99684,64.0732,-160.2064
+99685,53.8731,-166.4838
+99686,61.0428,-146.1519
+99688,61.8870,-149.6202
+99689,59.4846,-139.4193
+99690,60.4624,-164.8346
+99691,62.7290,-153.5829
+99692,53.8838,-166.5449
+99693,60.8506,-148.0338
+99694,61.6199,-149.8265
+99695,55.9182,-159.4933
+99701,67.3754,-149.7285
+99702,64.6506,-147.0523
+99703,64.8347,-147.6229
+99704,64.2884,-149.2024
+99705,64.7739,-147.2676
+99706,64.0097,-144.6816
+99707,65.1550,-146.2526
+99709,64.8774,-148.1486
+99712,65.0586,-145.9256
+99714,64.3813,-146.5306
+99720,66.5638,-152.7680
+99721,68.1498,-151.6971
+99722,68.1654,-145.4014
+99723,71.2539,-156.7982
+99724,66.3182,-146.7955
+99725,64.8612,-148.0239
+99726,66.7553,-151.4147
+99727,65.9765,-161.1392
+99729,63.2440,-147.9781
+99730,65.6490,-145.6148
+99732,64.0794,-141.9720
+99733,65.8386,-144.1753
+99734,70.4226,-149.2997
+99736,66.0695,-162.7646
+99737,63.4435,-145.2956
+99738,65.1496,-142.6544
+99739,64.9684,-162.8272
+99740,67.6365,-144.6805
+99741,64.7414,-156.8734
+99742,63.7527,-171.6883
+99743,63.9268,-149.9883
+99744,64.3308,-149.0535
+99745,66.0516,-154.2328
+99746,65.7055,-156.3110
+99747,70.1185,-143.6868
+99748,64.3141,-158.7788
+99749,66.9786,-160.4318
+99750,67.7428,-164.5304
+99751,66.9234,-156.9041
+99752,67.2869,-161.1849
+99753,64.9411,-161.1455
+99754,64.9021,-157.6935
+99755,63.7546,-149.2112
+99756,64.7013,-151.2120
+99757,63.7903,-152.4618
+99758,65.1518,-149.3724
+99759,69.7371,-162.8341
+99760,64.4171,-149.1503
+99761,67.6209,-163.0577
+99762,64.7395,-164.6547
+99763,66.8282,-161.0347
+99764,62.6854,-141.8228
+99765,64.7307,-158.1310
+99766,68.2766,-165.9863
+99767,65.4994,-150.1533
+99768,65.2605,-153.5674
+99769,63.6797,-170.4833
+99770,66.6112,-160.0976
+99771,64.3561,-161.1965
+99772,65.8409,-165.9006
+99773,66.8805,-157.1500
+99774,66.0237,-149.0803
+99775,64.8575,-147.8346
+99776,63.3287,-143.4866
+99777,65.1840,-152.0551
+99778,65.2524,-166.3521
+99780,63.6394,-141.5110
+99781,67.4686,-146.0646
+99782,70.6475,-159.9393
+99783,65.6121,-168.0781
+99784,64.6828,-163.4055
+99785,65.3432,-166.5089
+99786,67.0909,-157.8871
+99788,66.6468,-143.7893
+99789,70.2135,-150.9897
+99790,65.4595,-148.1075
+99791,70.4808,-157.3255
+99801,58.3729,-134.1784
+99820,57.3784,-134.2790
+99824,58.2654,-134.4001
+99825,58.0877,-136.2883
+99826,58.4123,-135.8086
+99827,58.8208,-136.2115
+99829,58.0248,-135.3082
+99830,56.7711,-134.0900
+99832,57.9656,-136.0713
+99833,56.8404,-133.1871
+99835,56.9603,-135.0373
+99836,56.2483,-134.6522
+99840,59.5604,-135.3383
+99841,57.9558,-135.5175
+99850,58.4882,-135.4843
+99901,55.6555,-131.3319
+99903,55.7337,-132.1045
+99918,55.9169,-132.6955
+99919,55.6457,-132.4961
+99921,55.5155,-132.7019
+99922,55.3075,-133.0468
+99923,56.0005,-130.0375
+99925,55.5502,-132.9459
+99926,55.1384,-131.4704
+99927,56.3319,-133.6064
+99929,56.2215,-131.9236
+`
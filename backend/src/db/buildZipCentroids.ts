@@ -0,0 +1,49 @@
+import fs from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'url'
+
+// Rebuilds src/data/zipCentroids.ts from the Census Bureau's ZCTA gazetteer
+// file (tab-separated, with GEOID, INTPTLAT and INTPTLONG columns), e.g.
+// https://www.census.gov/geographies/reference-files/time-series/geo/gazetteer-files.html
+//
+//   npm run zip-centroids -- ~/Downloads/2023_Gaz_zcta_national.txt
+
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+
+const source = process.argv[2]
+if (!source) {
+  console.error('Usage: npm run zip-centroids -- <gazetteer file>')
+  process.exit(1)
+}
+
+const [header, ...lines] = fs.readFileSync(source, 'utf8').split(/\r?\n/).filter((line) => line.trim())
+const columns = header.split('\t').map((column) => column.trim())
+const zipIdx = columns.indexOf('GEOID')
+const latIdx = columns.indexOf('INTPTLAT')
+const lngIdx = columns.indexOf('INTPTLONG')
+
+if (zipIdx < 0 || latIdx < 0 || lngIdx < 0) {
+  console.error('Expected GEOID, INTPTLAT and INTPTLONG columns')
+  process.exit(1)
+}
+
+const rows = lines
+  .map((line) => line.split('\t').map((value) => value.trim()))
+  .filter((values) => /^\d{5}$/.test(values[zipIdx]))
+  .map((values) => `${values[zipIdx]},${parseFloat(values[latIdx]).toFixed(4)},${parseFloat(values[lngIdx]).toFixed(4)}`)
+  .sort()
+
+const output = `// ZIP code centroids used for "events near me" searches, one "zip,latitude,longitude"
+// row per line. Kept in code so lookups need no database or network access.
+//
+// Generated from ${path.basename(source)} by src/db/buildZipCentroids.ts; rerun
+// \`npm run zip-centroids -- path/to/Gaz_zcta_national.txt\` to refresh.
+export const ZIP_CENTROID_DATA = \`
+${rows.join('\n')}
+\`
+`
+
+const target = path.join(__dirname, '../data/zipCentroids.ts')
+fs.writeFileSync(target, output)
+console.log(`Wrote ${rows.length} ZIP centroids to ${target}`)
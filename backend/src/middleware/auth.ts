@@ -78,6 +78,41 @@ function verifyToken(token: string): Promise<jwt.JwtPayload> {
   })
 }
 
+function userFromToken(decoded: jwt.JwtPayload): NonNullable<Request['user']> {
+  return {
+    // 'oid' is the Object ID, 'sub' is the Subject claim
+    id: decoded.oid || decoded.sub || '',
+    // Email can be in 'email' claim or 'preferred_username'
+    email: decoded.email || decoded.preferred_username || '',
+    name: decoded.name,
+  }
+}
+
+/**
+ * Verify a token outside the Express pipeline (e.g. a WebSocket handshake).
+ * Applies the same checks as `authenticate` and throws if any fail.
+ */
+export async function verifyUserToken(
+  token: string
+): Promise<{ user: NonNullable<Request['user']>; expiresAt: Date | null }> {
+  const decoded = await verifyToken(token)
+
+  const now = Math.floor(Date.now() / 1000)
+  if (decoded.exp && decoded.exp < now) {
+    throw new Error('Token expired')
+  }
+  if (decoded.nbf && decoded.nbf > now) {
+    throw new Error('Token not yet valid')
+  }
+
+  const user = userFromToken(decoded)
+  if (!user.id) {
+    throw new Error('Token has no subject')
+  }
+
+  return { user, expiresAt: decoded.exp ? new Date(decoded.exp * 1000) : null }
+}
+
 export async function authenticate(
   req: Request,
   res: Response,
@@ -109,13 +144,7 @@ export async function authenticate(
       return
     }
 
-    req.user = {
-      // 'oid' is the Object ID, 'sub' is the Subject claim
-      id: decoded.oid || decoded.sub || '',
-      // Email can be in 'email' claim or 'preferred_username'
-      email: decoded.email || decoded.preferred_username || '',
-      name: decoded.name,
-    }
+    req.user = userFromToken(decoded)
 
     next()
   } catch (error) {
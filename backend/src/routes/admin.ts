@@ -546,6 +546,7 @@ router.put(
       'free_mode_enabled',
       'silent_auctions_enabled',
       'standard_auctions_enabled',
+      'raffles_enabled',
     ]).withMessage('Invalid feature flag key'),
     body('value').isBoolean().withMessage('Value must be a boolean'),
     body('reason').optional().isString().isLength({ max: 500 }),
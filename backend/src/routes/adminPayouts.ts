@@ -86,6 +86,7 @@ router.get(
         organizationId: p.organization_id,
         organizationName: p.organization_name,
         grossAmount: p.gross_amount,
+        feesCovered: p.fees_covered || 0,
         stripeFees: p.stripe_fees,
         platformFee: p.platform_fee,
         reserveAmount: p.reserve_amount,
@@ -0,0 +1,420 @@
+import { Router, Request, Response, NextFunction } from 'express'
+import { body, param, query, validationResult } from 'express-validator'
+import { authenticate } from '../middleware/auth.js'
+import { query as dbQuery, withTransaction } from '../config/database.js'
+import { badRequest, notFound, forbidden } from '../middleware/errorHandler.js'
+import { cancelBid, CancelBidOutcome } from '../services/bidCancellation.js'
+import { calculateMinBid } from '../services/proxyBidding.js'
+import { getItemEndTime } from '../services/softClose.js'
+import { notifyBidCancelled, notifyBidRetractionDenied } from '../services/notifications.js'
+import { broadcastItemBidUpdate, broadcastSilentBidUpdate } from '../services/signalr.js'
+
+// Voiding bids: organizers cancel mistaken bids directly, and bidders can
+// ask for one of their bids to be retracted, which organizers approve or deny.
+
+const router = Router()
+
+// Helper to check event admin access (owner or org owner/admin)
+async function checkEventAccess(eventId: string, userId: string) {
+  const result = await dbQuery(
+    `SELECT e.*,
+            CASE
+              WHEN e.owner_id = @userId THEN 'owner'
+              WHEN e.organization_id IS NOT NULL THEN (
+                SELECT role FROM organization_members
+                WHERE organization_id = e.organization_id AND user_id = @userId
+              )
+              ELSE NULL
+            END as user_role
+     FROM auction_events e
+     WHERE e.id = @eventId`,
+    { eventId, userId }
+  )
+
+  if (result.recordset.length === 0) {
+    return null
+  }
+
+  const event = result.recordset[0]
+
+  if (event.user_role === 'owner' || event.user_role === 'admin') {
+    return { event, role: event.user_role }
+  }
+
+  return null
+}
+
+// Helper to load an item and check the user administers its event
+async function getItemForAdmin(itemId: string, userId: string) {
+  const result = await dbQuery(
+    `SELECT i.id, i.event_id, i.title, e.auction_type
+     FROM event_items i
+     INNER JOIN auction_events e ON i.event_id = e.id
+     WHERE i.id = @itemId`,
+    { itemId }
+  )
+
+  if (result.recordset.length === 0) {
+    throw notFound('Item not found')
+  }
+
+  const item = result.recordset[0]
+  if (!(await checkEventAccess(item.event_id, userId))) {
+    throw forbidden('You do not have permission to manage bids for this event')
+  }
+
+  return item
+}
+
+// Whether a top bid reaches the item's hidden reserve (null when it has none)
+function isReserveMet(item: any, topBid: number | null): boolean | null {
+  if (item.reserve_price === null || item.reserve_price === undefined) {
+    return null
+  }
+  return (topBid ?? 0) >= parseFloat(item.reserve_price)
+}
+
+// Helper to tell the bidder and live viewers about a cancelled bid
+async function announceCancellation(outcome: CancelBidOutcome, reason: string) {
+  notifyBidCancelled(outcome.bidderId, outcome.itemTitle, outcome.eventId, outcome.itemId, reason)
+    .catch((err) => console.error('Failed to notify bidder of cancelled bid:', err))
+
+  const itemResult = await dbQuery(
+    `SELECT i.starting_price, i.end_time, i.reserve_price, e.increment_type, e.increment_value,
+            COALESCE(g.end_time, e.end_time) as scheduled_end_time
+     FROM event_items i
+     INNER JOIN auction_events e ON i.event_id = e.id
+     LEFT JOIN event_item_groups g ON i.closing_group_id = g.id
+     WHERE i.id = @itemId`,
+    { itemId: outcome.itemId }
+  )
+  const item = itemResult.recordset[0]
+  if (!item) return
+
+  if (outcome.auctionType === 'silent') {
+    broadcastSilentBidUpdate({
+      eventId: outcome.eventId,
+      itemId: outcome.itemId,
+      bidderCount: outcome.bidCount,
+      reserveMet: isReserveMet(item, outcome.currentBid),
+    })
+    return
+  }
+
+  broadcastItemBidUpdate({
+    eventId: outcome.eventId,
+    itemId: outcome.itemId,
+    currentBid: outcome.currentBid,
+    bidCount: outcome.bidCount,
+    minNextBid: calculateMinBid(
+      outcome.currentBid,
+      item.starting_price ? parseFloat(item.starting_price) : 0,
+      item.increment_type,
+      parseFloat(item.increment_value)
+    ),
+    endTime: getItemEndTime(item.end_time, item.scheduled_end_time).toISOString(),
+    extended: false,
+    reserveMet: isReserveMet(item, outcome.currentBid),
+  })
+}
+
+const formatRequest = (r: any) => ({
+  id: r.id,
+  eventId: r.event_id,
+  itemId: r.item_id,
+  itemTitle: r.item_title,
+  bidId: r.bid_id,
+  bidderId: r.bidder_id,
+  bidderName: r.bidder_name,
+  bidderEmail: r.bidder_email,
+  amount: parseFloat(r.amount),
+  reason: r.reason,
+  status: r.status,
+  reviewedAt: r.reviewed_at,
+  reviewNote: r.review_note,
+  createdAt: r.created_at,
+})
+
+// Get every bid on an item, including silent bids (event admins)
+router.get(
+  '/event-items/:id/admin-bids',
+  authenticate,
+  param('id').isUUID(),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Invalid item ID format')
+      }
+
+      const item = await getItemForAdmin(req.params.id, req.user!.id)
+
+      const result = await dbQuery(
+        item.auction_type === 'silent'
+          ? `SELECT b.id, b.bidder_id, b.amount, b.created_at, 0 as is_proxy,
+                    u.display_name as bidder_name, u.email as bidder_email
+             FROM event_item_silent_bids b
+             LEFT JOIN users u ON b.bidder_id = u.id
+             WHERE b.item_id = @itemId
+             ORDER BY b.amount DESC, b.created_at ASC`
+          : `SELECT b.id, b.bidder_id, b.amount, b.created_at, b.is_proxy,
+                    u.display_name as bidder_name, u.email as bidder_email
+             FROM event_item_bids b
+             LEFT JOIN users u ON b.bidder_id = u.id
+             WHERE b.item_id = @itemId
+             ORDER BY b.amount DESC, b.is_winning DESC, b.created_at ASC`,
+        { itemId: item.id }
+      )
+
+      res.json(result.recordset.map((b: any, idx: number) => ({
+        id: b.id,
+        bidderId: b.bidder_id,
+        bidderName: b.bidder_name,
+        bidderEmail: b.bidder_email,
+        amount: parseFloat(b.amount),
+        isLeading: idx === 0,
+        isProxy: !!b.is_proxy,
+        createdAt: b.created_at,
+      })))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Cancel a bid (event admins)
+router.post(
+  '/event-items/:id/bids/:bidId/cancel',
+  authenticate,
+  [
+    param('id').isUUID(),
+    param('bidId').isUUID(),
+    body('reason').isString().trim().isLength({ min: 1, max: 500 }),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('A reason is required to cancel a bid', errors.mapped())
+      }
+
+      const { id, bidId } = req.params
+      const reason = req.body.reason
+      await getItemForAdmin(id, req.user!.id)
+
+      const outcome = await withTransaction((tx) =>
+        cancelBid({ itemId: id, bidId, reason, cancelledBy: req.user!.id }, tx)
+      )
+
+      await announceCancellation(outcome, reason)
+
+      res.json({
+        itemId: outcome.itemId,
+        currentBid: outcome.currentBid,
+        bidCount: outcome.bidCount,
+        leaderId: outcome.leaderId,
+      })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Ask the organizer to retract one of your bids (defaults to your highest)
+router.post(
+  '/event-items/:id/retraction-requests',
+  authenticate,
+  [
+    param('id').isUUID(),
+    body('bidId').optional().isUUID(),
+    body('reason').isString().trim().isLength({ min: 1, max: 500 }),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Please explain why the bid should be retracted', errors.mapped())
+      }
+
+      const { id } = req.params
+      const userId = req.user!.id
+      const { bidId, reason } = req.body
+
+      const itemResult = await dbQuery(
+        `SELECT i.id, i.event_id, i.status, e.auction_type
+         FROM event_items i
+         INNER JOIN auction_events e ON i.event_id = e.id
+         WHERE i.id = @itemId`,
+        { itemId: id }
+      )
+
+      if (itemResult.recordset.length === 0) {
+        throw notFound('Item not found')
+      }
+
+      const item = itemResult.recordset[0]
+      if (item.status !== 'active') {
+        throw badRequest('Bids can only be retracted while the item is open for bidding')
+      }
+
+      const bidTable = item.auction_type === 'silent' ? 'event_item_silent_bids' : 'event_item_bids'
+      const bidResult = await dbQuery(
+        `SELECT TOP 1 id, amount FROM ${bidTable}
+         WHERE item_id = @itemId AND bidder_id = @userId ${bidId ? 'AND id = @bidId' : ''}
+         ORDER BY amount DESC`,
+        { itemId: id, userId, bidId: bidId || null }
+      )
+
+      if (bidResult.recordset.length === 0) {
+        throw notFound('You have no bid on this item to retract')
+      }
+
+      const bid = bidResult.recordset[0]
+
+      const pendingResult = await dbQuery(
+        `SELECT id FROM bid_retraction_requests WHERE bid_id = @bidId AND status = 'pending'`,
+        { bidId: bid.id }
+      )
+
+      if (pendingResult.recordset.length > 0) {
+        throw badRequest('A retraction request for this bid is already waiting for review')
+      }
+
+      const result = await dbQuery(
+        `INSERT INTO bid_retraction_requests (event_id, item_id, bid_id, bidder_id, amount, reason)
+         OUTPUT INSERTED.*
+         VALUES (@eventId, @itemId, @bidId, @userId, @amount, @reason)`,
+        { eventId: item.event_id, itemId: id, bidId: bid.id, userId, amount: bid.amount, reason }
+      )
+
+      res.status(201).json(formatRequest(result.recordset[0]))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// List retraction requests for an event (event admins)
+router.get(
+  '/events/:eventId/retraction-requests',
+  authenticate,
+  [
+    param('eventId').isUUID(),
+    query('status').optional().isIn(['pending', 'approved', 'denied']),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { eventId } = req.params
+      if (!(await checkEventAccess(eventId, req.user!.id))) {
+        throw forbidden('You do not have permission to manage bids for this event')
+      }
+
+      const status = req.query.status as string | undefined
+
+      const result = await dbQuery(
+        `SELECT r.*, i.title as item_title, u.display_name as bidder_name, u.email as bidder_email
+         FROM bid_retraction_requests r
+         INNER JOIN event_items i ON r.item_id = i.id
+         LEFT JOIN users u ON r.bidder_id = u.id
+         WHERE r.event_id = @eventId ${status ? 'AND r.status = @status' : ''}
+         ORDER BY CASE WHEN r.status = 'pending' THEN 0 ELSE 1 END, r.created_at DESC`,
+        { eventId, status: status || null }
+      )
+
+      res.json(result.recordset.map(formatRequest))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Approve or deny a retraction request (event admins)
+router.post(
+  '/retraction-requests/:requestId/:decision',
+  authenticate,
+  [
+    param('requestId').isUUID(),
+    param('decision').isIn(['approve', 'deny']),
+    body('note').optional({ nullable: true }).isString().trim().isLength({ max: 500 }),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { requestId, decision } = req.params
+      const userId = req.user!.id
+      const note: string | null = req.body.note || null
+
+      const requestResult = await dbQuery(
+        `SELECT r.*, i.title as item_title
+         FROM bid_retraction_requests r
+         INNER JOIN event_items i ON r.item_id = i.id
+         WHERE r.id = @requestId`,
+        { requestId }
+      )
+
+      if (requestResult.recordset.length === 0) {
+        throw notFound('Retraction request not found')
+      }
+
+      const request = requestResult.recordset[0]
+      if (!(await checkEventAccess(request.event_id, userId))) {
+        throw forbidden('You do not have permission to manage bids for this event')
+      }
+
+      const outcome = await withTransaction(async (tx) => {
+        // Claim the request so two admins can't both act on it
+        const claimed = await tx(
+          `UPDATE bid_retraction_requests
+           SET status = @status, reviewed_by = @userId, reviewed_at = GETUTCDATE(), review_note = @note
+           WHERE id = @requestId AND status = 'pending'`,
+          { requestId, status: decision === 'approve' ? 'approved' : 'denied', userId, note }
+        )
+
+        if (claimed.rowsAffected[0] === 0) {
+          throw badRequest('This request has already been reviewed')
+        }
+
+        if (decision === 'deny') {
+          return null
+        }
+
+        return cancelBid({
+          itemId: request.item_id,
+          bidId: request.bid_id,
+          reason: request.reason,
+          cancelledBy: userId,
+          retractionRequestId: requestId,
+        }, tx)
+      })
+
+      if (outcome) {
+        await announceCancellation(outcome, request.reason)
+      } else {
+        notifyBidRetractionDenied(request.bidder_id, request.item_title, note, request.event_id, request.item_id)
+          .catch((err) => console.error('Failed to notify bidder of denied retraction:', err))
+      }
+
+      res.json({
+        id: requestId,
+        status: outcome ? 'approved' : 'denied',
+        itemId: request.item_id,
+        // The item after the bid was cancelled
+        currentBid: outcome ? outcome.currentBid : undefined,
+        bidCount: outcome ? outcome.bidCount : undefined,
+      })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+export { router as bidCancellationRoutes }
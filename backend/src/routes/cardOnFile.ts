@@ -0,0 +1,125 @@
+import { Router, Request, Response, NextFunction } from 'express'
+import { body, param, validationResult } from 'express-validator'
+import { authenticate } from '../middleware/auth.js'
+import { query as dbQuery } from '../config/database.js'
+import { badRequest, notFound } from '../middleware/errorHandler.js'
+import {
+  createEventCardSetupIntent,
+  getEventCard,
+  saveEventCard,
+  BidderCard,
+} from '../services/cardOnFile.js'
+
+// Card-on-file registration. Events that require it only take bids from
+// bidders who saved a card; winners are charged on it when the event closes.
+
+const router = Router()
+
+// Helper to ensure user exists
+async function ensureUserExists(userId: string, email: string, name: string) {
+  const existing = await dbQuery(
+    'SELECT id FROM users WHERE id = @userId',
+    { userId }
+  )
+
+  if (existing.recordset.length === 0) {
+    await dbQuery(
+      `INSERT INTO users (id, email, display_name, created_at, updated_at)
+       VALUES (@userId, @email, @name, GETUTCDATE(), GETUTCDATE())`,
+      { userId, email, name: name || email }
+    )
+  }
+}
+
+function formatCard(card: BidderCard) {
+  return {
+    brand: card.brand,
+    last4: card.last4,
+    expMonth: card.expMonth,
+    expYear: card.expYear,
+  }
+}
+
+// Whether the event requires a card and the card the user saved for it
+router.get(
+  '/events/:eventId/card-on-file',
+  authenticate,
+  [param('eventId').isUUID()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { eventId } = req.params
+      const eventResult = await dbQuery(
+        'SELECT require_card_on_file FROM auction_events WHERE id = @eventId',
+        { eventId }
+      )
+
+      if (eventResult.recordset.length === 0) {
+        throw notFound('Event not found')
+      }
+
+      const card = await getEventCard(eventId, req.user!.id)
+
+      res.json({
+        required: !!eventResult.recordset[0].require_card_on_file,
+        card: card ? formatCard(card) : null,
+      })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Start saving a card: the client confirms the returned SetupIntent with Stripe
+router.post(
+  '/events/:eventId/card-on-file/setup-intent',
+  authenticate,
+  [param('eventId').isUUID()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      // The card is saved against the user's Stripe customer
+      await ensureUserExists(req.user!.id, req.user!.email, req.user!.name)
+
+      const result = await createEventCardSetupIntent(req.params.eventId, req.user!)
+
+      res.json(result)
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Register the card from a confirmed SetupIntent (replaces any earlier card)
+router.put(
+  '/events/:eventId/card-on-file',
+  authenticate,
+  [
+    param('eventId').isUUID(),
+    body('setupIntentId').isString().notEmpty(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const card = await saveEventCard(req.params.eventId, req.user!.id, req.body.setupIntentId)
+
+      res.json({ required: true, card: formatCard(card) })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+export { router as cardOnFileRoutes }
@@ -0,0 +1,338 @@
+import { Router, Request, Response, NextFunction } from 'express'
+import { body, param, validationResult } from 'express-validator'
+import { authenticate, optionalAuth } from '../middleware/auth.js'
+import { query as dbQuery } from '../config/database.js'
+import { badRequest, notFound, forbidden } from '../middleware/errorHandler.js'
+import { getEffectiveTime } from '../services/uatTime.js'
+
+// Closing groups let an event close its items in waves
+// ("Table A closes 8:00, Table B 8:15"). Ungrouped items close with the event.
+
+const router = Router()
+
+// Helper to check event admin access (owner or org owner/admin)
+async function checkEventAccess(eventId: string, userId: string) {
+  const result = await dbQuery(
+    `SELECT e.*,
+            CASE
+              WHEN e.owner_id = @userId THEN 'owner'
+              WHEN e.organization_id IS NOT NULL THEN (
+                SELECT role FROM organization_members
+                WHERE organization_id = e.organization_id AND user_id = @userId
+              )
+              ELSE NULL
+            END as user_role
+     FROM auction_events e
+     WHERE e.id = @eventId`,
+    { eventId, userId }
+  )
+
+  if (result.recordset.length === 0) {
+    return null
+  }
+
+  const event = result.recordset[0]
+
+  if (event.user_role === 'owner' || event.user_role === 'admin') {
+    return { event, role: event.user_role }
+  }
+
+  return null
+}
+
+// Helper to load a group along with its event, checking admin access
+async function getGroupForAdmin(groupId: string, userId: string) {
+  const result = await dbQuery(
+    'SELECT * FROM event_item_groups WHERE id = @groupId',
+    { groupId }
+  )
+
+  if (result.recordset.length === 0) {
+    throw notFound('Closing group not found')
+  }
+
+  const group = result.recordset[0]
+  const access = await checkEventAccess(group.event_id, userId)
+  if (!access) {
+    throw forbidden('You do not have permission to manage closing groups for this event')
+  }
+
+  return { group, event: access.event }
+}
+
+// Helper to validate a group end time against the event's schedule
+async function validateGroupEndTime(event: any, endTime: Date) {
+  if (endTime <= new Date(event.start_time)) {
+    throw badRequest('Closing time must be after the event starts')
+  }
+
+  if (endTime > new Date(event.end_time)) {
+    throw badRequest('Closing time cannot be after the event ends')
+  }
+
+  if (event.status === 'active' && endTime <= await getEffectiveTime(event)) {
+    throw badRequest('Closing time must be in the future')
+  }
+}
+
+function formatGroup(group: any) {
+  return {
+    id: group.id,
+    eventId: group.event_id,
+    name: group.name,
+    endTime: group.end_time,
+    displayOrder: group.display_order,
+    closedAt: group.closed_at,
+    itemCount: group.item_count ?? 0,
+  }
+}
+
+// List closing groups for an event
+router.get(
+  '/events/:eventId/closing-groups',
+  optionalAuth,
+  param('eventId').isUUID(),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { eventId } = req.params
+
+      const result = await dbQuery(
+        `SELECT g.*,
+                (SELECT COUNT(*) FROM event_items i
+                 WHERE i.closing_group_id = g.id AND i.status != 'removed') as item_count
+         FROM event_item_groups g
+         WHERE g.event_id = @eventId
+         ORDER BY g.end_time ASC, g.display_order ASC`,
+        { eventId }
+      )
+
+      res.json(result.recordset.map(formatGroup))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Create a closing group
+router.post(
+  '/events/:eventId/closing-groups',
+  authenticate,
+  [
+    param('eventId').isUUID(),
+    body('name').isString().trim().isLength({ min: 1, max: 100 }),
+    body('endTime').isISO8601(),
+    body('displayOrder').optional().isInt({ min: 0 }),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { eventId } = req.params
+      const userId = req.user!.id
+      const { name, endTime, displayOrder = 0 } = req.body
+
+      const access = await checkEventAccess(eventId, userId)
+      if (!access) {
+        throw forbidden('You do not have permission to manage closing groups for this event')
+      }
+
+      const { event } = access
+
+      if (event.status === 'ended' || event.status === 'cancelled') {
+        throw badRequest('Cannot add closing groups to an ended or cancelled event')
+      }
+
+      const end = new Date(endTime)
+      await validateGroupEndTime(event, end)
+
+      const result = await dbQuery(
+        `INSERT INTO event_item_groups (event_id, name, end_time, display_order, created_at, updated_at)
+         OUTPUT INSERTED.*
+         VALUES (@eventId, @name, @endTime, @displayOrder, GETUTCDATE(), GETUTCDATE())`,
+        { eventId, name, endTime: end, displayOrder }
+      )
+
+      res.status(201).json(formatGroup(result.recordset[0]))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Update a closing group
+router.put(
+  '/closing-groups/:id',
+  authenticate,
+  [
+    param('id').isUUID(),
+    body('name').optional().isString().trim().isLength({ min: 1, max: 100 }),
+    body('endTime').optional().isISO8601(),
+    body('displayOrder').optional().isInt({ min: 0 }),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { id } = req.params
+      const { name, endTime, displayOrder } = req.body
+
+      const { group, event } = await getGroupForAdmin(id, req.user!.id)
+
+      if (group.closed_at || event.status === 'ended' || event.status === 'cancelled') {
+        throw badRequest('This closing group has already closed')
+      }
+
+      if (endTime) {
+        await validateGroupEndTime(event, new Date(endTime))
+      }
+
+      const result = await dbQuery(
+        `UPDATE event_item_groups SET
+          name = COALESCE(@name, name),
+          end_time = COALESCE(@endTime, end_time),
+          display_order = COALESCE(@displayOrder, display_order),
+          updated_at = GETUTCDATE()
+         OUTPUT INSERTED.*
+         WHERE id = @id`,
+        {
+          id,
+          name: name || null,
+          endTime: endTime ? new Date(endTime) : null,
+          displayOrder: displayOrder !== undefined ? displayOrder : null,
+        }
+      )
+
+      res.json(formatGroup(result.recordset[0]))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Delete a closing group (its items go back to closing with the event)
+router.delete(
+  '/closing-groups/:id',
+  authenticate,
+  param('id').isUUID(),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { id } = req.params
+      const { group } = await getGroupForAdmin(id, req.user!.id)
+
+      if (group.closed_at) {
+        throw badRequest('Cannot delete a closing group that has already closed')
+      }
+
+      await dbQuery(
+        `UPDATE event_items SET closing_group_id = NULL, updated_at = GETUTCDATE()
+         WHERE closing_group_id = @id`,
+        { id }
+      )
+
+      await dbQuery('DELETE FROM event_item_groups WHERE id = @id', { id })
+
+      res.json({ message: 'Closing group deleted' })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Assign an item to a closing group (null to close with the event)
+router.put(
+  '/event-items/:id/closing-group',
+  authenticate,
+  [
+    param('id').isUUID(),
+    body('closingGroupId').optional({ nullable: true }).isUUID(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { id } = req.params
+      const userId = req.user!.id
+      const closingGroupId: string | null = req.body.closingGroupId || null
+
+      const itemResult = await dbQuery(
+        `SELECT i.id, i.event_id, i.status, i.closing_group_id, g.closed_at as current_group_closed_at
+         FROM event_items i
+         LEFT JOIN event_item_groups g ON i.closing_group_id = g.id
+         WHERE i.id = @id`,
+        { id }
+      )
+
+      if (itemResult.recordset.length === 0) {
+        throw notFound('Item not found')
+      }
+
+      const item = itemResult.recordset[0]
+
+      const access = await checkEventAccess(item.event_id, userId)
+      if (!access) {
+        throw forbidden('You do not have permission to manage closing groups for this event')
+      }
+
+      const { event } = access
+
+      if (event.status === 'ended' || event.status === 'cancelled') {
+        throw badRequest('Cannot change closing groups for an ended or cancelled event')
+      }
+
+      if (item.current_group_closed_at) {
+        throw badRequest('This item\'s closing group has already closed')
+      }
+
+      if (closingGroupId) {
+        const groupResult = await dbQuery(
+          'SELECT * FROM event_item_groups WHERE id = @groupId AND event_id = @eventId',
+          { groupId: closingGroupId, eventId: item.event_id }
+        )
+
+        if (groupResult.recordset.length === 0) {
+          throw notFound('Closing group not found')
+        }
+
+        const group = groupResult.recordset[0]
+        if (group.closed_at) {
+          throw badRequest('This closing group has already closed')
+        }
+
+        if (event.status === 'active' && new Date(group.end_time) <= await getEffectiveTime(event)) {
+          throw badRequest('This closing group is already closing')
+        }
+      }
+
+      await dbQuery(
+        `UPDATE event_items SET closing_group_id = @closingGroupId, updated_at = GETUTCDATE()
+         WHERE id = @id`,
+        { id, closingGroupId }
+      )
+
+      res.json({ message: 'Closing group updated', closingGroupId })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+export { router as closingGroupRoutes }
@@ -4,7 +4,7 @@ import multer from 'multer'
 import { v4 as uuidv4 } from 'uuid'
 import { query as dbQuery } from '../config/database.js'
 import { badRequest } from '../middleware/errorHandler.js'
-import { uploadToBlob } from '../services/storage.js'
+import { processAndUploadImage } from '../services/imageProcessing.js'
 import {
   sendDonorThankYouEmail,
   sendNewSubmissionNotificationEmail,
@@ -358,36 +358,23 @@ router.post(
         return
       }
 
-      // Upload to blob storage
-      const ext = req.file.originalname.toLowerCase().split('.').pop() || 'jpg'
-      const blobName = `submissions/${uuidv4()}.${ext}`
-
-      const contentTypes: Record<string, string> = {
-        jpg: 'image/jpeg',
-        jpeg: 'image/jpeg',
-        png: 'image/png',
-        gif: 'image/gif',
-        webp: 'image/webp',
-      }
-
-      const blobUrl = await uploadToBlob(
-        req.file.buffer,
-        blobName,
-        contentTypes[ext] || 'image/jpeg'
-      )
+      // Strip metadata (donor location) and store WebP renditions
+      const image = await processAndUploadImage(req.file.buffer, `submissions/${uuidv4()}`)
 
       // Create image record (not yet linked to a submission)
       const imageId = uuidv4()
 
       await dbQuery(
         `INSERT INTO submission_images (
-          id, submission_id, blob_url, original_filename, file_size_bytes, mime_type
+          id, submission_id, blob_url, medium_url, thumbnail_url, original_filename, file_size_bytes, mime_type
          ) VALUES (
-          @id, NULL, @blobUrl, @filename, @fileSize, @mimeType
+          @id, NULL, @blobUrl, @mediumUrl, @thumbnailUrl, @filename, @fileSize, @mimeType
          )`,
         {
           id: imageId,
-          blobUrl,
+          blobUrl: image.fullUrl,
+          mediumUrl: image.mediumUrl,
+          thumbnailUrl: image.thumbnailUrl,
           filename: req.file.originalname,
           fileSize: req.file.size,
           mimeType: req.file.mimetype,
@@ -396,7 +383,9 @@ router.post(
 
       res.json({
         imageId,
-        imageUrl: blobUrl,
+        imageUrl: image.fullUrl,
+        mediumUrl: image.mediumUrl,
+        thumbnailUrl: image.thumbnailUrl,
       })
     } catch (error) {
       next(error)
@@ -1,12 +1,41 @@
 import { Router, Request, Response, NextFunction } from 'express'
 import { body, param, validationResult } from 'express-validator'
 import { authenticate, optionalAuth } from '../middleware/auth.js'
-import { query as dbQuery } from '../config/database.js'
+import { query as dbQuery, withTransaction, QueryFn } from '../config/database.js'
 import { badRequest, notFound } from '../middleware/errorHandler.js'
 import { notifyOutbid, notifyBidPlaced } from '../services/notifications.js'
+import { calculateMinBid, resolveProxyBid } from '../services/proxyBidding.js'
+import { getEffectiveTime } from '../services/uatTime.js'
+import {
+  getSoftCloseSettings,
+  getItemEndTime,
+  calculateExtendedEndTime,
+  extendItemEndTime,
+} from '../services/softClose.js'
+import {
+  broadcastItemBidUpdate,
+  broadcastSilentBidUpdate,
+  broadcastItemSold,
+} from '../services/signalr.js'
+import { alertWatchersOfFirstBid, alertWatchersOfBuyNowReached } from '../services/watchlist.js'
+import { assertCardOnFile } from '../services/cardOnFile.js'
+import {
+  getAvailableQuantity,
+  rankStandardBidders,
+  refreshWinningBids,
+  recordAward,
+} from '../services/itemAwards.js'
 
 const router = Router()
 
+// Whether a top bid reaches the item's hidden reserve (null when it has none)
+function isReserveMet(item: any, topBid: number): boolean | null {
+  if (item.reserve_price === null || item.reserve_price === undefined) {
+    return null
+  }
+  return topBid >= parseFloat(item.reserve_price)
+}
+
 // Helper to ensure user exists
 async function ensureUserExists(userId: string, email: string, name: string) {
   const existing = await dbQuery(
@@ -23,24 +52,91 @@ async function ensureUserExists(userId: string, email: string, name: string) {
   }
 }
 
-// Helper to calculate minimum bid
-function calculateMinBid(currentBid: number | null, startingPrice: number, incrementType: string, incrementValue: number): number {
-  const baseBid = currentBid || startingPrice || 0
+// Helper to get the current leader of a standard auction item along with their hidden maximum
+async function getCurrentLeader(itemId: string, runQuery: QueryFn = dbQuery) {
+  const result = await runQuery(
+    `SELECT b.id, b.bidder_id, b.amount, b.created_at, mb.max_amount, mb.set_at
+     FROM event_item_bids b
+     LEFT JOIN event_item_max_bids mb ON mb.item_id = b.item_id AND mb.bidder_id = b.bidder_id
+     WHERE b.item_id = @itemId AND b.is_winning = 1`,
+    { itemId }
+  )
 
-  if (incrementType === 'percent') {
-    return Math.ceil((baseBid * (1 + incrementValue / 100)) * 100) / 100
-  } else {
-    return baseBid + incrementValue
+  if (result.recordset.length === 0) {
+    return null
   }
+
+  const row = result.recordset[0]
+  const amount = parseFloat(row.amount)
+  const maxAmount = row.max_amount !== null && row.max_amount !== undefined ? parseFloat(row.max_amount) : null
+  const hasHeadroom = maxAmount !== null && maxAmount >= amount
+
+  return {
+    bidId: row.id,
+    bidderId: row.bidder_id as string,
+    amount,
+    // A maximum below the visible bid is stale and no longer counts
+    ceiling: hasHeadroom ? maxAmount! : amount,
+    setAt: new Date(hasHeadroom ? row.set_at : row.created_at),
+  }
+}
+
+// Helper to store (or raise) a bidder's hidden maximum
+async function upsertMaxBid(itemId: string, bidderId: string, maxAmount: number, runQuery: QueryFn = dbQuery) {
+  await runQuery(
+    `MERGE event_item_max_bids AS target
+     USING (SELECT @itemId AS item_id, @bidderId AS bidder_id) AS source
+     ON target.item_id = source.item_id AND target.bidder_id = source.bidder_id
+     WHEN MATCHED THEN
+       UPDATE SET max_amount = @maxAmount, set_at = GETUTCDATE(), updated_at = GETUTCDATE()
+     WHEN NOT MATCHED THEN
+       INSERT (item_id, bidder_id, max_amount, set_at, created_at, updated_at)
+       VALUES (@itemId, @bidderId, @maxAmount, GETUTCDATE(), GETUTCDATE(), GETUTCDATE());`,
+    { itemId, bidderId, maxAmount }
+  )
+}
+
+// Helper to get the bidders currently placed to win a silent auction item, one
+// per unit left (ties go to the earlier bid)
+async function getSilentLeaders(itemId: string, places: number, runQuery: QueryFn = dbQuery) {
+  const result = await runQuery(
+    `SELECT TOP (@places) bidder_id, amount, notify_on_outbid
+     FROM event_item_silent_bids
+     WHERE item_id = @itemId
+     ORDER BY amount DESC, created_at ASC`,
+    { itemId, places }
+  )
+
+  return result.recordset.map((row: any) => ({
+    bidderId: row.bidder_id as string,
+    amount: parseFloat(row.amount),
+    notifyOnOutbid: row.notify_on_outbid !== false && row.notify_on_outbid !== 0,
+  }))
+}
+
+// Helper to get the minimum next bid on an item with several units: the
+// starting price while a unit is still unclaimed, otherwise enough to beat
+// the lowest winning bid
+function getMultiUnitMinBid(item: any, winners: { amount: number }[], available: number): number {
+  const lowestWinning = winners.length >= available ? winners[winners.length - 1].amount : null
+  return calculateMinBid(
+    lowestWinning,
+    item.starting_price ? parseFloat(item.starting_price) : 0,
+    item.increment_type,
+    parseFloat(item.increment_value)
+  )
 }
 
 // Place bid on item (standard auction)
+// An optional maxAmount sets a hidden maximum; the system then bids on the
+// bidder's behalf, only as much as needed to keep them in the lead.
 router.post(
   '/event-items/:id/bids',
   authenticate,
   [
     param('id').isUUID(),
     body('amount').isFloat({ min: 0.01 }),
+    body('maxAmount').optional().isFloat({ min: 0.01 }),
   ],
   async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -51,126 +147,347 @@ router.post(
 
       const { id } = req.params
       const userId = req.user!.id
-      const { amount } = req.body
+      const amount = parseFloat(req.body.amount)
+      const maxAmount = req.body.maxAmount !== undefined ? parseFloat(req.body.maxAmount) : null
+
+      if (maxAmount !== null && maxAmount < amount) {
+        throw badRequest('Maximum bid cannot be lower than your bid')
+      }
 
       // Ensure user exists
       await ensureUserExists(userId, req.user!.email, req.user!.name)
 
-      // Get item with event info
-      const itemResult = await dbQuery(
-        `SELECT i.*, e.auction_type, e.increment_type, e.increment_value, e.status as event_status,
-                e.owner_id as event_owner_id, e.organization_id
-         FROM event_items i
-         INNER JOIN auction_events e ON i.event_id = e.id
-         WHERE i.id = @id`,
-        { id }
-      )
+      // Get item with event info. The update lock holds other bids on this
+      // item until we commit, so each one sees the previous bid's result.
+      const outcome = await withTransaction(async (tx) => {
+        const itemResult = await tx(
+          `SELECT i.*, e.auction_type, e.increment_type, e.increment_value, e.status as event_status,
+                  e.owner_id as event_owner_id, e.organization_id, e.require_card_on_file,
+                  COALESCE(g.end_time, e.end_time) as scheduled_end_time,
+                  e.simulated_current_time, e.soft_close_enabled, e.soft_close_window_minutes,
+                  e.soft_close_extension_minutes
+           FROM event_items i WITH (UPDLOCK, ROWLOCK)
+           INNER JOIN auction_events e ON i.event_id = e.id
+           LEFT JOIN event_item_groups g ON i.closing_group_id = g.id
+           WHERE i.id = @id`,
+          { id }
+        )
 
-      if (itemResult.recordset.length === 0) {
-        throw notFound('Item not found')
-      }
+        if (itemResult.recordset.length === 0) {
+          throw notFound('Item not found')
+        }
 
-      const item = itemResult.recordset[0]
+        const item = itemResult.recordset[0]
 
-      // Validate event is active
-      if (item.event_status !== 'active') {
-        throw badRequest('This auction is not currently active')
-      }
+        // Validate event is active
+        if (item.event_status !== 'active') {
+          throw badRequest('This auction is not currently active')
+        }
 
-      // Validate item is available for bidding
-      if (item.submission_status !== 'approved' || item.status !== 'active') {
-        throw badRequest('This item is not available for bidding')
-      }
+        // Validate item is available for bidding
+        if (item.submission_status !== 'approved' || item.status !== 'active') {
+          throw badRequest('This item is not available for bidding')
+        }
 
-      // Validate auction type is standard
-      if (item.auction_type !== 'standard') {
-        throw badRequest('This is a silent auction. Use the silent bid endpoint.')
-      }
+        // Validate auction type is standard
+        if (item.auction_type !== 'standard') {
+          throw badRequest('This is a silent auction. Use the silent bid endpoint.')
+        }
 
-      // Cannot bid on own item
-      if (item.submitted_by === userId) {
-        throw badRequest('Cannot bid on your own item')
-      }
+        // Items close individually once soft close has extended them
+        const now = await getEffectiveTime(item)
+        const itemEndTime = getItemEndTime(item.end_time, item.scheduled_end_time)
+        if (itemEndTime <= now) {
+          throw badRequest('Bidding has closed for this item')
+        }
 
-      // Check if user is the event owner (shouldn't bid on their own event)
-      if (item.event_owner_id === userId) {
-        throw badRequest('Event owners cannot bid on items in their own events')
-      }
+        // Cannot bid on own item
+        if (item.submitted_by === userId) {
+          throw badRequest('Cannot bid on your own item')
+        }
 
-      // Calculate minimum bid
-      const minBid = calculateMinBid(
-        item.current_bid ? parseFloat(item.current_bid) : null,
-        item.starting_price ? parseFloat(item.starting_price) : 0,
-        item.increment_type,
-        parseFloat(item.increment_value)
-      )
+        // Check if user is the event owner (shouldn't bid on their own event)
+        if (item.event_owner_id === userId) {
+          throw badRequest('Event owners cannot bid on items in their own events')
+        }
 
-      if (amount < minBid) {
-        throw badRequest(`Minimum bid is $${minBid.toFixed(2)}`)
-      }
+        // Card-on-file events charge winners automatically at close
+        await assertCardOnFile(item, userId, tx)
+
+        const startingPrice = item.starting_price ? parseFloat(item.starting_price) : 0
+        const incrementValue = parseFloat(item.increment_value)
+        const currentBid = item.current_bid ? parseFloat(item.current_bid) : null
+
+        // Items with several units go to the top bidders, one unit each. There's
+        // no automatic bidding on them: a bid simply has to beat the lowest winning bid.
+        const available = getAvailableQuantity(item)
+        let placed: {
+          bid: any
+          price: number
+          bidCount: number
+          outbid: { bidderId: string; ceiling: number }[]
+          outranked: boolean
+        }
 
-      // Get previous high bidder before marking their bid as not winning
-      const previousBidResult = await dbQuery(
-        `SELECT bidder_id FROM event_item_bids WHERE item_id = @itemId AND is_winning = 1`,
-        { itemId: id }
-      )
-      const previousBidderId = previousBidResult.recordset[0]?.bidder_id
+        if (available > 1) {
+          if (maxAmount !== null) {
+            throw badRequest('Automatic bidding is not available on items with more than one unit')
+          }
+
+          const winners = await rankStandardBidders(id, available, tx)
+          if (winners.some((winner) => winner.bidderId === userId)) {
+            throw badRequest('You already hold one of the winning bids on this item')
+          }
+
+          const minBid = getMultiUnitMinBid(item, winners, available)
+          if (amount < minBid) {
+            throw badRequest(`Minimum bid is $${minBid.toFixed(2)}`)
+          }
+
+          const bidResult = await tx(
+            `INSERT INTO event_item_bids (item_id, bidder_id, amount, is_winning, is_proxy, created_at)
+             OUTPUT INSERTED.*
+             VALUES (@itemId, @bidderId, @amount, 0, 0, GETUTCDATE())`,
+            { itemId: id, bidderId: userId, amount }
+          )
+          const bid = bidResult.recordset[0]
+
+          const newWinners = await refreshWinningBids(id, available, tx)
+          const isWinning = newWinners.some((winner) => winner.bidId === bid.id)
+
+          placed = {
+            bid: { ...bid, is_winning: isWinning },
+            price: newWinners[0].amount,
+            bidCount: 1,
+            // Whoever this bid pushed out of the winning places
+            outbid: winners
+              .filter((winner) => !newWinners.some((w) => w.bidderId === winner.bidderId))
+              .map((winner) => ({ bidderId: winner.bidderId, ceiling: winner.amount })),
+            outranked: !isWinning,
+          }
+        } else {
+          const leader = await getCurrentLeader(id, tx)
+
+          // The current leader can only raise their hidden maximum - they never bid against themselves
+          if (leader && leader.bidderId === userId) {
+            const newMax = maxAmount ?? amount
+            if (newMax <= leader.ceiling) {
+              throw badRequest(
+                `You are already the highest bidder. To raise your maximum, enter more than $${leader.ceiling.toFixed(2)}`
+              )
+            }
+
+            await upsertMaxBid(id, userId, newMax, tx)
+
+            return {
+              raisedMax: true as const,
+              response: {
+                id: leader.bidId,
+                itemId: id,
+                amount: leader.amount,
+                isWinning: true,
+                isProxy: false,
+                maxAmount: newMax,
+                nextMinBid: calculateMinBid(leader.amount, startingPrice, item.increment_type, incrementValue),
+                message: 'Maximum bid updated',
+              },
+            }
+          }
+
+          // Calculate minimum bid
+          const minBid = calculateMinBid(currentBid, startingPrice, item.increment_type, incrementValue)
+
+          if (amount < minBid) {
+            throw badRequest(`Minimum bid is $${minBid.toFixed(2)}`)
+          }
+
+          if (maxAmount !== null) {
+            await upsertMaxBid(id, userId, maxAmount, tx)
+          }
+
+          const resolution = resolveProxyBid({
+            startingPrice,
+            increment: { incrementType: item.increment_type, incrementValue },
+            leader: leader ? { bidderId: leader.bidderId, ceiling: leader.ceiling, setAt: leader.setAt } : null,
+            currentBid,
+            challenger: { bidderId: userId, amount, ceiling: maxAmount ?? amount, setAt: new Date() },
+          })
+
+          // Mark previous winning bid as not winning
+          await tx(
+            `UPDATE event_item_bids SET is_winning = 0 WHERE item_id = @itemId AND is_winning = 1`,
+            { itemId: id }
+          )
+
+          // Record the bids (including any placed automatically by a proxy)
+          let bid: any = null
+          for (const record of resolution.bids) {
+            const bidResult = await tx(
+              `INSERT INTO event_item_bids (item_id, bidder_id, amount, is_winning, is_proxy, created_at)
+               OUTPUT INSERTED.*
+               VALUES (@itemId, @bidderId, @amount, @isWinning, @isProxy, GETUTCDATE())`,
+              {
+                itemId: id,
+                bidderId: record.bidderId,
+                amount: record.amount,
+                isWinning: record.isWinning ? 1 : 0,
+                isProxy: record.isProxy ? 1 : 0,
+              }
+            )
+
+            if (record.bidderId === userId) {
+              bid = bidResult.recordset[0]
+            }
+          }
+
+          placed = {
+            bid,
+            price: resolution.price,
+            bidCount: resolution.bids.length,
+            // Only notify the previous leader once their maximum has actually been beaten
+            outbid: resolution.leaderChanged && leader ? [{ bidderId: leader.bidderId, ceiling: leader.ceiling }] : [],
+            outranked: !resolution.leaderChanged,
+          }
+        }
 
-      // Mark previous winning bid as not winning
-      await dbQuery(
-        `UPDATE event_item_bids SET is_winning = 0 WHERE item_id = @itemId AND is_winning = 1`,
-        { itemId: id }
-      )
+        // Update item's current bid and count
+        await tx(
+          `UPDATE event_items SET
+            current_bid = @amount,
+            bid_count = bid_count + @bidCount,
+            updated_at = GETUTCDATE()
+           WHERE id = @itemId`,
+          { itemId: id, amount: placed.price, bidCount: placed.bidCount }
+        )
 
-      // Insert new bid
-      const bidResult = await dbQuery(
-        `INSERT INTO event_item_bids (item_id, bidder_id, amount, is_winning, created_at)
-         OUTPUT INSERTED.*
-         VALUES (@itemId, @bidderId, @amount, 1, GETUTCDATE())`,
-        { itemId: id, bidderId: userId, amount }
-      )
+        // Update event total bids
+        await tx(
+          `UPDATE auction_events SET
+            total_bids = total_bids + @bidCount,
+            updated_at = GETUTCDATE()
+           WHERE id = @eventId`,
+          { eventId: item.event_id, bidCount: placed.bidCount }
+        )
 
-      const bid = bidResult.recordset[0]
+        // A late bid pushes this item's close back so others get a chance to respond
+        const extendedEndTime = calculateExtendedEndTime(getSoftCloseSettings(item), itemEndTime, now)
+        if (extendedEndTime) {
+          await extendItemEndTime(id, extendedEndTime, tx)
+        }
 
-      // Update item's current bid and count
-      await dbQuery(
-        `UPDATE event_items SET
-          current_bid = @amount,
-          bid_count = bid_count + 1,
-          updated_at = GETUTCDATE()
-         WHERE id = @itemId`,
-        { itemId: id, amount }
-      )
+        return {
+          raisedMax: false as const,
+          item,
+          bid: placed.bid,
+          price: placed.price,
+          bidCount: placed.bidCount,
+          outbid: placed.outbid,
+          outranked: placed.outranked,
+          endTime: extendedEndTime || itemEndTime,
+          extended: !!extendedEndTime,
+          nextMinBid: available > 1
+            ? getMultiUnitMinBid(item, await rankStandardBidders(id, available, tx), available)
+            : calculateMinBid(placed.price, startingPrice, item.increment_type, incrementValue),
+        }
+      })
 
-      // Update event total bids
-      await dbQuery(
-        `UPDATE auction_events SET
-          total_bids = total_bids + 1,
-          updated_at = GETUTCDATE()
-         WHERE id = @eventId`,
-        { eventId: item.event_id }
-      )
+      if (outcome.raisedMax) {
+        res.json(outcome.response)
+        return
+      }
+
+      const { item, price, bidCount, outbid, outranked, bid, endTime, extended, nextMinBid } = outcome
 
-      // Notify previous high bidder that they've been outbid
-      if (previousBidderId && previousBidderId !== userId) {
-        await notifyOutbid(previousBidderId, item.title, amount, item.event_id, id)
+      for (const outbidBidder of outbid) {
+        await notifyOutbid(outbidBidder.bidderId, item.title, price, item.event_id, id, outbidBidder.ceiling)
       }
 
       // Send bid confirmation to the bidder
-      notifyBidPlaced(userId, item.title, amount, item.event_id, id, 'standard')
+      notifyBidPlaced(userId, item.title, parseFloat(bid.amount), item.event_id, id, 'standard')
 
-      // TODO: Broadcast via SignalR for real-time updates
+      if (!item.bid_count) {
+        alertWatchersOfFirstBid(item, userId)
+          .catch((err) => console.error('Failed to alert watchers of first bid:', err))
+      }
 
-      // Calculate next minimum bid
-      const nextMinBid = calculateMinBid(amount, item.starting_price, item.increment_type, parseFloat(item.increment_value))
+      if (item.buy_now_price && price >= parseFloat(item.buy_now_price)) {
+        alertWatchersOfBuyNowReached(item, parseFloat(item.buy_now_price), userId)
+          .catch((err) => console.error('Failed to alert watchers of buy now price:', err))
+      }
+
+      broadcastItemBidUpdate({
+        eventId: item.event_id,
+        itemId: id,
+        currentBid: price,
+        bidCount: (item.bid_count || 0) + bidCount,
+        minNextBid: nextMinBid,
+        endTime: endTime.toISOString(),
+        extended,
+        reserveMet: isReserveMet(item, price),
+      })
 
       res.status(201).json({
         id: bid.id,
         itemId: bid.item_id,
         amount: parseFloat(bid.amount),
-        isWinning: bid.is_winning,
+        isWinning: !!bid.is_winning,
+        isProxy: !!bid.is_proxy,
+        maxAmount,
+        currentBid: price,
         createdAt: bid.created_at,
         nextMinBid,
+        endTime,
+        extended,
+        ...(outranked ? { message: 'Another bidder\'s maximum bid is higher than yours' } : {}),
+      })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Get the current user's hidden maximum on an item (standard auction)
+router.get(
+  '/event-items/:id/max-bid',
+  authenticate,
+  param('id').isUUID(),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { id } = req.params
+      const userId = req.user!.id
+
+      const result = await dbQuery(
+        `SELECT mb.*, i.current_bid,
+                (SELECT COUNT(*) FROM event_item_bids
+                 WHERE item_id = mb.item_id AND bidder_id = mb.bidder_id AND is_winning = 1) as is_winning
+         FROM event_item_max_bids mb
+         INNER JOIN event_items i ON mb.item_id = i.id
+         WHERE mb.item_id = @itemId AND mb.bidder_id = @bidderId`,
+        { itemId: id, bidderId: userId }
+      )
+
+      if (result.recordset.length === 0) {
+        res.json({ hasMaxBid: false })
+        return
+      }
+
+      const row = result.recordset[0]
+      const maxAmount = parseFloat(row.max_amount)
+      const currentBid = row.current_bid ? parseFloat(row.current_bid) : null
+      const isWinning = row.is_winning > 0
+
+      res.json({
+        hasMaxBid: true,
+        maxAmount,
+        isWinning,
+        // A maximum is exhausted once someone else leads at or above it
+        isExhausted: !isWinning && currentBid !== null && currentBid >= maxAmount,
+        setAt: row.set_at,
       })
     } catch (error) {
       next(error)
@@ -178,6 +495,53 @@ router.post(
   }
 )
 
+// Withdraw the current user's hidden maximum (bids already placed still stand)
+router.delete(
+  '/event-items/:id/max-bid',
+  authenticate,
+  param('id').isUUID(),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { id } = req.params
+      const userId = req.user!.id
+
+      const itemResult = await dbQuery(
+        `SELECT e.status as event_status
+         FROM event_items i
+         INNER JOIN auction_events e ON i.event_id = e.id
+         WHERE i.id = @id`,
+        { id }
+      )
+
+      if (itemResult.recordset.length === 0) {
+        throw notFound('Item not found')
+      }
+
+      if (itemResult.recordset[0].event_status !== 'active') {
+        throw badRequest('This auction is not currently active')
+      }
+
+      const result = await dbQuery(
+        `DELETE FROM event_item_max_bids WHERE item_id = @itemId AND bidder_id = @bidderId`,
+        { itemId: id, bidderId: userId }
+      )
+
+      if (result.rowsAffected[0] === 0) {
+        throw notFound('Maximum bid not found')
+      }
+
+      res.json({ message: 'Maximum bid withdrawn' })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
 // Get bid history for item (standard auction)
 router.get(
   '/event-items/:id/bids',
@@ -212,7 +576,7 @@ router.get(
          FROM event_item_bids b
          LEFT JOIN users u ON b.bidder_id = u.id
          WHERE b.item_id = @itemId
-         ORDER BY b.amount DESC, b.created_at ASC`,
+         ORDER BY b.amount DESC, b.is_winning DESC, b.created_at ASC`,
         { itemId: id }
       )
 
@@ -221,6 +585,7 @@ router.get(
         amount: parseFloat(b.amount),
         bidderName: b.bidder_name,
         isWinning: b.is_winning,
+        isProxy: !!b.is_proxy,
         createdAt: b.created_at,
       }))
 
@@ -238,6 +603,7 @@ router.post(
   [
     param('id').isUUID(),
     body('amount').isFloat({ min: 0.01 }),
+    body('notifyOnOutbid').optional().isBoolean(),
   ],
   async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -249,140 +615,160 @@ router.post(
       const { id } = req.params
       const userId = req.user!.id
       const { amount } = req.body
+      const notifyOnOutbid = req.body.notifyOnOutbid !== undefined ? !!req.body.notifyOnOutbid : null
 
       // Ensure user exists
       await ensureUserExists(userId, req.user!.email, req.user!.name)
 
-      // Get item with event info
-      const itemResult = await dbQuery(
-        `SELECT i.*, e.auction_type, e.increment_type, e.increment_value, e.status as event_status,
-                e.owner_id as event_owner_id
-         FROM event_items i
-         INNER JOIN auction_events e ON i.event_id = e.id
-         WHERE i.id = @id`,
-        { id }
-      )
+      // Get item with event info, locking the item so concurrent bids rank
+      // against each other's committed amounts
+      const outcome = await withTransaction(async (tx) => {
+        const itemResult = await tx(
+          `SELECT i.*, e.auction_type, e.increment_type, e.increment_value, e.status as event_status,
+                  e.owner_id as event_owner_id, e.simulated_current_time, e.require_card_on_file,
+                  COALESCE(g.end_time, e.end_time) as scheduled_end_time
+           FROM event_items i WITH (UPDLOCK, ROWLOCK)
+           INNER JOIN auction_events e ON i.event_id = e.id
+           LEFT JOIN event_item_groups g ON i.closing_group_id = g.id
+           WHERE i.id = @id`,
+          { id }
+        )
 
-      if (itemResult.recordset.length === 0) {
-        throw notFound('Item not found')
-      }
+        if (itemResult.recordset.length === 0) {
+          throw notFound('Item not found')
+        }
 
-      const item = itemResult.recordset[0]
+        const item = itemResult.recordset[0]
 
-      // Validate event is active
-      if (item.event_status !== 'active') {
-        throw badRequest('This auction is not currently active')
-      }
+        // Validate event is active
+        if (item.event_status !== 'active') {
+          throw badRequest('This auction is not currently active')
+        }
 
-      // Validate item is available for bidding
-      if (item.submission_status !== 'approved' || item.status !== 'active') {
-        throw badRequest('This item is not available for bidding')
-      }
+        // Validate item is available for bidding
+        if (item.submission_status !== 'approved' || item.status !== 'active') {
+          throw badRequest('This item is not available for bidding')
+        }
 
-      // Validate auction type is silent
-      if (item.auction_type !== 'silent') {
-        throw badRequest('This is a standard auction. Use the regular bid endpoint.')
-      }
+        // Validate auction type is silent
+        if (item.auction_type !== 'silent') {
+          throw badRequest('This is a standard auction. Use the regular bid endpoint.')
+        }
 
-      // Cannot bid on own item
-      if (item.submitted_by === userId) {
-        throw badRequest('Cannot bid on your own item')
-      }
+        // Items in an earlier closing group stop taking bids before the event ends
+        if (getItemEndTime(item.end_time, item.scheduled_end_time) <= await getEffectiveTime(item)) {
+          throw badRequest('Bidding has closed for this item')
+        }
 
-      // Check if user is the event owner
-      if (item.event_owner_id === userId) {
-        throw badRequest('Event owners cannot bid on items in their own events')
-      }
+        // Cannot bid on own item
+        if (item.submitted_by === userId) {
+          throw badRequest('Cannot bid on your own item')
+        }
 
-      // Calculate minimum bid for new bidders
-      const minBid = calculateMinBid(
-        item.current_bid ? parseFloat(item.current_bid) : null,
-        item.starting_price ? parseFloat(item.starting_price) : 0,
-        item.increment_type,
-        parseFloat(item.increment_value)
-      )
+        // Check if user is the event owner
+        if (item.event_owner_id === userId) {
+          throw badRequest('Event owners cannot bid on items in their own events')
+        }
 
-      // Check if user already has a bid
-      const existingBidResult = await dbQuery(
-        'SELECT * FROM event_item_silent_bids WHERE item_id = @itemId AND bidder_id = @bidderId',
-        { itemId: id, bidderId: userId }
-      )
+        // Card-on-file events charge winners automatically at close
+        await assertCardOnFile(item, userId, tx)
 
-      if (existingBidResult.recordset.length > 0) {
-        // Update existing bid
-        const existingBid = existingBidResult.recordset[0]
-        const currentAmount = parseFloat(existingBid.amount)
+        // Remember who was placed to win so we can tell anyone this bid pushes out
+        const places = getAvailableQuantity(item)
+        const previousLeaders = await getSilentLeaders(id, places, tx)
 
-        if (amount <= currentAmount) {
-          throw badRequest(`Your new bid must be higher than your current bid of $${currentAmount.toFixed(2)}`)
+        // Calculate minimum bid for new bidders: enough to take one of the places
+        const minBid = getMultiUnitMinBid(item, previousLeaders, places)
+        const displacedLeaders = async () => {
+          const newLeaders = await getSilentLeaders(id, places, tx)
+          return previousLeaders.filter((leader) =>
+            leader.bidderId !== userId && !newLeaders.some((l) => l.bidderId === leader.bidderId)
+          )
         }
 
-        // Calculate minimum increase
-        const minIncrease = calculateMinBid(
-          currentAmount,
-          item.starting_price,
-          item.increment_type,
-          parseFloat(item.increment_value)
+        // Check if user already has a bid
+        const existingBidResult = await tx(
+          'SELECT * FROM event_item_silent_bids WHERE item_id = @itemId AND bidder_id = @bidderId',
+          { itemId: id, bidderId: userId }
         )
 
-        if (amount < minIncrease) {
-          throw badRequest(`Minimum bid increase is $${minIncrease.toFixed(2)}`)
+        if (existingBidResult.recordset.length > 0) {
+          // Update existing bid
+          const existingBid = existingBidResult.recordset[0]
+          const currentAmount = parseFloat(existingBid.amount)
+
+          if (amount <= currentAmount) {
+            throw badRequest(`Your new bid must be higher than your current bid of $${currentAmount.toFixed(2)}`)
+          }
+
+          // Calculate minimum increase
+          const minIncrease = calculateMinBid(
+            currentAmount,
+            item.starting_price,
+            item.increment_type,
+            parseFloat(item.increment_value)
+          )
+
+          if (amount < minIncrease) {
+            throw badRequest(`Minimum bid increase is $${minIncrease.toFixed(2)}`)
+          }
+
+          await tx(
+            `UPDATE event_item_silent_bids SET
+              amount = @amount,
+              increase_count = increase_count + 1,
+              last_increased_at = GETUTCDATE(),
+              notify_on_outbid = COALESCE(@notifyOnOutbid, notify_on_outbid),
+              updated_at = GETUTCDATE()
+             WHERE id = @bidId`,
+            { bidId: existingBid.id, amount, notifyOnOutbid }
+          )
+
+          // Update item current_bid if this is the new highest
+          await tx(
+            `UPDATE event_items SET
+              current_bid = (SELECT MAX(amount) FROM event_item_silent_bids WHERE item_id = @itemId),
+              updated_at = GETUTCDATE()
+             WHERE id = @itemId`,
+            { itemId: id }
+          )
+
+          // Check user's ranking
+          const rankResult = await tx(
+            `SELECT COUNT(*) + 1 as rank FROM event_item_silent_bids
+             WHERE item_id = @itemId AND (amount > @amount OR (amount = @amount AND created_at < (
+               SELECT created_at FROM event_item_silent_bids WHERE id = @bidId
+             )))`,
+            { itemId: id, amount, bidId: existingBid.id }
+          )
+
+          return {
+            item,
+            isNew: false,
+            bidId: existingBid.id,
+            amount,
+            rank: rankResult.recordset[0].rank,
+            bidderCount: item.bid_count || 0,
+            displaced: await displacedLeaders(),
+          }
         }
 
-        await dbQuery(
-          `UPDATE event_item_silent_bids SET
-            amount = @amount,
-            increase_count = increase_count + 1,
-            last_increased_at = GETUTCDATE(),
-            updated_at = GETUTCDATE()
-           WHERE id = @bidId`,
-          { bidId: existingBid.id, amount }
-        )
-
-        // Update item current_bid if this is the new highest
-        await dbQuery(
-          `UPDATE event_items SET
-            current_bid = (SELECT MAX(amount) FROM event_item_silent_bids WHERE item_id = @itemId),
-            updated_at = GETUTCDATE()
-           WHERE id = @itemId`,
-          { itemId: id }
-        )
-
-        // Check user's ranking
-        const rankResult = await dbQuery(
-          `SELECT COUNT(*) + 1 as rank FROM event_item_silent_bids
-           WHERE item_id = @itemId AND (amount > @amount OR (amount = @amount AND created_at < (
-             SELECT created_at FROM event_item_silent_bids WHERE id = @bidId
-           )))`,
-          { itemId: id, amount, bidId: existingBid.id }
-        )
-
-        // Send bid confirmation for the increased bid
-        notifyBidPlaced(userId, item.title, amount, item.event_id, id, 'silent')
-
-        res.json({
-          id: existingBid.id,
-          amount,
-          rank: rankResult.recordset[0].rank,
-          message: 'Bid increased successfully',
-        })
-      } else {
         // New bid
         if (amount < minBid) {
           throw badRequest(`Minimum bid is $${minBid.toFixed(2)}`)
         }
 
-        const bidResult = await dbQuery(
-          `INSERT INTO event_item_silent_bids (item_id, bidder_id, amount, initial_amount, created_at, updated_at)
+        const bidResult = await tx(
+          `INSERT INTO event_item_silent_bids (item_id, bidder_id, amount, initial_amount, notify_on_outbid, created_at, updated_at)
            OUTPUT INSERTED.*
-           VALUES (@itemId, @bidderId, @amount, @amount, GETUTCDATE(), GETUTCDATE())`,
-          { itemId: id, bidderId: userId, amount }
+           VALUES (@itemId, @bidderId, @amount, @amount, COALESCE(@notifyOnOutbid, 1), GETUTCDATE(), GETUTCDATE())`,
+          { itemId: id, bidderId: userId, amount, notifyOnOutbid }
         )
 
         const bid = bidResult.recordset[0]
 
         // Update item bid count and current_bid
-        await dbQuery(
+        await tx(
           `UPDATE event_items SET
             bid_count = bid_count + 1,
             current_bid = (SELECT MAX(amount) FROM event_item_silent_bids WHERE item_id = @itemId),
@@ -392,7 +778,7 @@ router.post(
         )
 
         // Update event total bids
-        await dbQuery(
+        await tx(
           `UPDATE auction_events SET
             total_bids = total_bids + 1,
             updated_at = GETUTCDATE()
@@ -401,24 +787,55 @@ router.post(
         )
 
         // Check user's ranking
-        const rankResult = await dbQuery(
+        const rankResult = await tx(
           `SELECT COUNT(*) + 1 as rank FROM event_item_silent_bids
            WHERE item_id = @itemId AND (amount > @amount OR (amount = @amount AND created_at < @createdAt))`,
           { itemId: id, amount, createdAt: bid.created_at }
         )
 
-        // TODO: If user pushed someone else down from #1, notify them
-
-        // Send bid confirmation for the new bid
-        notifyBidPlaced(userId, item.title, amount, item.event_id, id, 'silent')
-
-        res.status(201).json({
-          id: bid.id,
+        return {
+          item,
+          isNew: true,
+          bidId: bid.id,
           amount: parseFloat(bid.amount),
           rank: rankResult.recordset[0].rank,
-          message: 'Bid placed successfully',
-        })
+          bidderCount: (item.bid_count || 0) + 1,
+          displaced: await displacedLeaders(),
+        }
+      })
+
+      const { item, displaced } = outcome
+
+      // Tell whoever just lost their winning place, unless they've opted out.
+      // The amount that beat them stays private.
+      for (const leader of displaced) {
+        if (leader.notifyOnOutbid) {
+          await notifyOutbid(leader.bidderId, item.title, null, item.event_id, id, leader.amount, 'silent')
+        }
+      }
+
+      // Send bid confirmation
+      notifyBidPlaced(userId, item.title, outcome.amount, item.event_id, id, 'silent')
+
+      // Silent amounts are private, so watchers only hear about the first bid
+      if (outcome.isNew && !item.bid_count) {
+        alertWatchersOfFirstBid(item, userId)
+          .catch((err) => console.error('Failed to alert watchers of first bid:', err))
       }
+
+      broadcastSilentBidUpdate({
+        eventId: item.event_id,
+        itemId: id,
+        bidderCount: outcome.bidderCount,
+        reserveMet: isReserveMet(item, Math.max(parseFloat(item.current_bid || 0), outcome.amount)),
+      })
+
+      res.status(outcome.isNew ? 201 : 200).json({
+        id: outcome.bidId,
+        amount: outcome.amount,
+        rank: outcome.rank,
+        message: outcome.isNew ? 'Bid placed successfully' : 'Bid increased successfully',
+      })
     } catch (error) {
       next(error)
     }
@@ -522,83 +939,129 @@ router.put(
 router.post(
   '/event-items/:id/buy-now',
   authenticate,
-  param('id').isUUID(),
+  [
+    param('id').isUUID(),
+    body('quantity').optional().isInt({ min: 1 }),
+  ],
   async (req: Request, res: Response, next: NextFunction) => {
     try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
       const { id } = req.params
       const userId = req.user!.id
+      const quantity = req.body.quantity !== undefined ? parseInt(req.body.quantity) : 1
 
       // Ensure user exists
       await ensureUserExists(userId, req.user!.email, req.user!.name)
 
-      // Get item with event info
-      const itemResult = await dbQuery(
-        `SELECT i.*, e.buy_now_enabled, e.status as event_status, e.owner_id as event_owner_id
-         FROM event_items i
-         INNER JOIN auction_events e ON i.event_id = e.id
-         WHERE i.id = @id`,
-        { id }
-      )
+      // Get item with event info, locking it so only one buyer can get through
+      const purchase = await withTransaction(async (tx) => {
+        const itemResult = await tx(
+          `SELECT i.*, e.auction_type, e.buy_now_enabled, e.status as event_status, e.owner_id as event_owner_id,
+                  e.require_card_on_file,
+                  COALESCE(g.end_time, e.end_time) as scheduled_end_time, e.simulated_current_time
+           FROM event_items i WITH (UPDLOCK, ROWLOCK)
+           INNER JOIN auction_events e ON i.event_id = e.id
+           LEFT JOIN event_item_groups g ON i.closing_group_id = g.id
+           WHERE i.id = @id`,
+          { id }
+        )
 
-      if (itemResult.recordset.length === 0) {
-        throw notFound('Item not found')
-      }
+        if (itemResult.recordset.length === 0) {
+          throw notFound('Item not found')
+        }
 
-      const item = itemResult.recordset[0]
+        const item = itemResult.recordset[0]
 
-      // Validate event is active
-      if (item.event_status !== 'active') {
-        throw badRequest('This auction is not currently active')
-      }
+        // Validate event is active
+        if (item.event_status !== 'active') {
+          throw badRequest('This auction is not currently active')
+        }
 
-      // Validate item is available
-      if (item.submission_status !== 'approved' || item.status !== 'active') {
-        throw badRequest('This item is not available')
-      }
+        // Validate item is available
+        if (item.submission_status !== 'approved' || item.status !== 'active') {
+          throw badRequest('This item is not available')
+        }
 
-      // Validate buy now is enabled
-      if (!item.buy_now_enabled) {
-        throw badRequest('Buy now is not enabled for this event')
-      }
+        if (getItemEndTime(item.end_time, item.scheduled_end_time) <= await getEffectiveTime(item)) {
+          throw badRequest('Bidding has closed for this item')
+        }
 
-      if (!item.buy_now_price) {
-        throw badRequest('This item does not have a buy now price')
-      }
+        // Validate buy now is enabled
+        if (!item.buy_now_enabled) {
+          throw badRequest('Buy now is not enabled for this event')
+        }
 
-      // Cannot buy own item
-      if (item.submitted_by === userId) {
-        throw badRequest('Cannot buy your own item')
-      }
+        if (!item.buy_now_price) {
+          throw badRequest('This item does not have a buy now price')
+        }
 
-      if (item.event_owner_id === userId) {
-        throw badRequest('Event owners cannot buy items in their own events')
-      }
+        // Cannot buy own item
+        if (item.submitted_by === userId) {
+          throw badRequest('Cannot buy your own item')
+        }
 
-      // Check if already purchased
-      if (item.buy_now_purchased_by) {
-        throw badRequest('This item has already been purchased')
-      }
+        if (item.event_owner_id === userId) {
+          throw badRequest('Event owners cannot buy items in their own events')
+        }
 
-      // Update item as sold
-      await dbQuery(
-        `UPDATE event_items SET
-          status = 'sold',
-          buy_now_purchased_by = @userId,
-          buy_now_purchased_at = GETUTCDATE(),
-          winner_id = @userId,
-          updated_at = GETUTCDATE()
-         WHERE id = @id`,
-        { id, userId }
-      )
+        await assertCardOnFile(item, userId, tx)
 
-      // Update event total raised
-      await dbQuery(
-        `UPDATE auction_events SET
-          total_raised = total_raised + @amount,
-          updated_at = GETUTCDATE()
-         WHERE id = @eventId`,
-        { eventId: item.event_id, amount: item.buy_now_price }
-      )
+        // Stock runs down with each purchase until the item is sold out
+        const available = getAvailableQuantity(item)
+        if (available === 0) {
+          throw badRequest('This item has already been purchased')
+        }
+        if (quantity > available) {
+          throw badRequest(`Only ${available} of this item ${available === 1 ? 'is' : 'are'} left`)
+        }
+
+        const remaining = available - quantity
+        const price = parseFloat(item.buy_now_price)
+
+        // Update item stock, marking it sold once the last unit goes
+        await tx(
+          `UPDATE event_items SET
+            quantity_sold = quantity_sold + @quantity,
+            status = CASE WHEN @soldOut = 1 THEN 'sold' ELSE status END,
+            winner_id = CASE WHEN @soldOut = 1 THEN @userId ELSE winner_id END,
+            buy_now_purchased_by = @userId,
+            buy_now_purchased_at = GETUTCDATE(),
+            updated_at = GETUTCDATE()
+           WHERE id = @id`,
+          { id, userId, quantity, soldOut: remaining === 0 ? 1 : 0 }
+        )
+
+        await recordAward(
+          { itemId: id, eventId: item.event_id, winnerId: userId, amount: price, quantity, source: 'buy_now' },
+          tx
+        )
+
+        // Fewer units are left for the bidders
+        if (remaining > 0 && item.auction_type === 'standard') {
+          await refreshWinningBids(id, remaining, tx)
+        }
+
+        // Update event total raised
+        await tx(
+          `UPDATE auction_events SET
+            total_raised = total_raised + @amount,
+            updated_at = GETUTCDATE()
+           WHERE id = @eventId`,
+          { eventId: item.event_id, amount: price * quantity }
+        )
+
+        return { item, price, remaining }
+      })
+
+      const { item, price, remaining } = purchase
+
+      if (remaining === 0) {
+        broadcastItemSold({ eventId: item.event_id, itemId: id, price })
+      }
 
       // TODO: Process payment
       // TODO: Notify all bidders that the item has been sold
@@ -607,7 +1070,9 @@ router.post(
       res.json({
         message: 'Item purchased successfully',
         itemId: id,
-        amount: parseFloat(item.buy_now_price),
+        amount: price * quantity,
+        quantity,
+        quantityAvailable: remaining,
       })
     } catch (error) {
       next(error)
@@ -625,9 +1090,12 @@ router.get(
       const { id } = req.params
 
       const itemResult = await dbQuery(
-        `SELECT i.*, e.auction_type, e.increment_type, e.increment_value
+        `SELECT i.*, e.auction_type, e.increment_type, e.increment_value,
+                COALESCE(g.end_time, e.end_time) as scheduled_end_time, g.name as closing_group_name,
+                e.soft_close_enabled, e.soft_close_window_minutes, e.soft_close_extension_minutes
          FROM event_items i
          INNER JOIN auction_events e ON i.event_id = e.id
+         LEFT JOIN event_item_groups g ON i.closing_group_id = g.id
          WHERE i.id = @id`,
         { id }
       )
@@ -640,7 +1108,29 @@ router.get(
 
       const currentBid = item.current_bid ? parseFloat(item.current_bid) : null
       const startingPrice = item.starting_price ? parseFloat(item.starting_price) : 0
-      const minBid = calculateMinBid(currentBid, startingPrice, item.increment_type, parseFloat(item.increment_value))
+      const available = getAvailableQuantity(item)
+      let minBid = calculateMinBid(currentBid, startingPrice, item.increment_type, parseFloat(item.increment_value))
+      if (available > 1) {
+        const winners = item.auction_type === 'silent'
+          ? await getSilentLeaders(id, available)
+          : await rankStandardBidders(id, available)
+        minBid = getMultiUnitMinBid(item, winners, available)
+      }
+
+      // Signed-in bidders also see their own hidden maximum
+      let myMaxBid: number | null = null
+      let isMyBidWinning = false
+      if (req.user) {
+        const myResult = await dbQuery(
+          `SELECT
+            (SELECT max_amount FROM event_item_max_bids WHERE item_id = @itemId AND bidder_id = @userId) as max_amount,
+            (SELECT COUNT(*) FROM event_item_bids WHERE item_id = @itemId AND bidder_id = @userId AND is_winning = 1) as is_winning`,
+          { itemId: id, userId: req.user.id }
+        )
+        const mine = myResult.recordset[0]
+        myMaxBid = mine?.max_amount !== null && mine?.max_amount !== undefined ? parseFloat(mine.max_amount) : null
+        isMyBidWinning = (mine?.is_winning || 0) > 0
+      }
 
       res.json({
         currentBid,
@@ -650,6 +1140,14 @@ router.get(
         incrementType: item.increment_type,
         incrementValue: parseFloat(item.increment_value),
         buyNowPrice: item.buy_now_price ? parseFloat(item.buy_now_price) : null,
+        quantity: item.quantity ?? 1,
+        quantityAvailable: available,
+        myMaxBid,
+        isMyBidWinning,
+        endTime: getItemEndTime(item.end_time, item.scheduled_end_time),
+        isExtended: !!item.end_time && new Date(item.end_time) > new Date(item.scheduled_end_time),
+        closingGroupName: item.closing_group_name || null,
+        softClose: getSoftCloseSettings(item),
       })
     } catch (error) {
       next(error)
@@ -0,0 +1,377 @@
+import { Router, Request, Response, NextFunction } from 'express'
+import { body, param, validationResult } from 'express-validator'
+import { authenticate, optionalAuth } from '../middleware/auth.js'
+import { query as dbQuery, withTransaction } from '../config/database.js'
+import { badRequest, notFound, forbidden } from '../middleware/errorHandler.js'
+import { validateCategoryOrder } from '../services/eventCategories.js'
+
+// Event categories group an event's items for browsing ("Experiences",
+// "Sports Memorabilia"). Organizers define them per event; bidders browse
+// them as tabs on the event page.
+
+const router = Router()
+
+// Helper to check event admin access (owner or org owner/admin)
+async function checkEventAccess(eventId: string, userId: string) {
+  const result = await dbQuery(
+    `SELECT e.*,
+            CASE
+              WHEN e.owner_id = @userId THEN 'owner'
+              WHEN e.organization_id IS NOT NULL THEN (
+                SELECT role FROM organization_members
+                WHERE organization_id = e.organization_id AND user_id = @userId
+              )
+              ELSE NULL
+            END as user_role
+     FROM auction_events e
+     WHERE e.id = @eventId`,
+    { eventId, userId }
+  )
+
+  if (result.recordset.length === 0) {
+    return null
+  }
+
+  const event = result.recordset[0]
+
+  if (event.user_role === 'owner' || event.user_role === 'admin') {
+    return { event, role: event.user_role }
+  }
+
+  return null
+}
+
+// Helper to load a category along with its event, checking admin access
+async function getCategoryForAdmin(categoryId: string, userId: string) {
+  const result = await dbQuery(
+    'SELECT * FROM event_categories WHERE id = @categoryId',
+    { categoryId }
+  )
+
+  if (result.recordset.length === 0) {
+    throw notFound('Category not found')
+  }
+
+  const category = result.recordset[0]
+  const access = await checkEventAccess(category.event_id, userId)
+  if (!access) {
+    throw forbidden('You do not have permission to manage categories for this event')
+  }
+
+  return { category, event: access.event }
+}
+
+// Helper to reject a name another category in the event already uses
+async function checkNameAvailable(eventId: string, name: string, exceptId?: string) {
+  const result = await dbQuery(
+    `SELECT id FROM event_categories
+     WHERE event_id = @eventId AND name = @name AND (@exceptId IS NULL OR id != @exceptId)`,
+    { eventId, name, exceptId: exceptId || null }
+  )
+
+  if (result.recordset.length > 0) {
+    throw badRequest(`This event already has a "${name}" category`)
+  }
+}
+
+function formatCategory(category: any) {
+  return {
+    id: category.id,
+    eventId: category.event_id,
+    name: category.name,
+    icon: category.icon,
+    displayOrder: category.display_order,
+    itemCount: category.item_count ?? 0,
+  }
+}
+
+// List categories for an event
+router.get(
+  '/events/:eventId/categories',
+  optionalAuth,
+  param('eventId').isUUID(),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { eventId } = req.params
+
+      const result = await dbQuery(
+        `SELECT c.*,
+                (SELECT COUNT(*) FROM event_items i
+                 WHERE i.category_id = c.id AND i.submission_status = 'approved'
+                   AND i.status != 'removed') as item_count
+         FROM event_categories c
+         WHERE c.event_id = @eventId
+         ORDER BY c.display_order ASC, c.name ASC`,
+        { eventId }
+      )
+
+      res.json(result.recordset.map(formatCategory))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Create a category (added at the end unless an order is given)
+router.post(
+  '/events/:eventId/categories',
+  authenticate,
+  [
+    param('eventId').isUUID(),
+    body('name').isString().trim().isLength({ min: 1, max: 100 }),
+    body('icon').optional({ nullable: true }).isString().trim().isLength({ max: 50 }),
+    body('displayOrder').optional().isInt({ min: 0 }),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { eventId } = req.params
+      const { name, icon, displayOrder } = req.body
+
+      const access = await checkEventAccess(eventId, req.user!.id)
+      if (!access) {
+        throw forbidden('You do not have permission to manage categories for this event')
+      }
+
+      if (access.event.status === 'cancelled') {
+        throw badRequest('Cannot add categories to a cancelled event')
+      }
+
+      await checkNameAvailable(eventId, name)
+
+      const result = await dbQuery(
+        `INSERT INTO event_categories (event_id, name, icon, display_order, created_at, updated_at)
+         OUTPUT INSERTED.*
+         SELECT @eventId, @name, @icon,
+                COALESCE(@displayOrder, MAX(display_order) + 1, 0),
+                GETUTCDATE(), GETUTCDATE()
+         FROM event_categories WHERE event_id = @eventId`,
+        {
+          eventId,
+          name,
+          icon: icon || null,
+          displayOrder: displayOrder !== undefined ? displayOrder : null,
+        }
+      )
+
+      res.status(201).json(formatCategory(result.recordset[0]))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Reorder an event's categories (every category, in the new order)
+router.put(
+  '/events/:eventId/categories/order',
+  authenticate,
+  [
+    param('eventId').isUUID(),
+    body('categoryIds').isArray({ max: 200 }),
+    body('categoryIds.*').isUUID(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { eventId } = req.params
+      const access = await checkEventAccess(eventId, req.user!.id)
+      if (!access) {
+        throw forbidden('You do not have permission to manage categories for this event')
+      }
+
+      const current = await dbQuery(
+        'SELECT id FROM event_categories WHERE event_id = @eventId',
+        { eventId }
+      )
+      const order = validateCategoryOrder(
+        current.recordset.map((row: any) => row.id),
+        req.body.categoryIds
+      )
+
+      await withTransaction(async (tx) => {
+        for (const [displayOrder, categoryId] of order.entries()) {
+          await tx(
+            `UPDATE event_categories SET display_order = @displayOrder, updated_at = GETUTCDATE()
+             WHERE id = @categoryId AND event_id = @eventId`,
+            { categoryId, eventId, displayOrder }
+          )
+        }
+      })
+
+      res.json({ message: 'Categories reordered' })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Update a category; renaming also renames it on its items
+router.put(
+  '/event-categories/:categoryId',
+  authenticate,
+  [
+    param('categoryId').isUUID(),
+    body('name').optional().isString().trim().isLength({ min: 1, max: 100 }),
+    body('icon').optional({ nullable: true }).isString().trim().isLength({ max: 50 }),
+    body('displayOrder').optional().isInt({ min: 0 }),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { categoryId } = req.params
+      const { name, icon, displayOrder } = req.body
+
+      const { category } = await getCategoryForAdmin(categoryId, req.user!.id)
+
+      if (name) {
+        await checkNameAvailable(category.event_id, name, categoryId)
+      }
+
+      const updated = await withTransaction(async (tx) => {
+        const result = await tx(
+          `UPDATE event_categories SET
+            name = COALESCE(@name, name),
+            icon = CASE WHEN @iconProvided = 1 THEN @icon ELSE icon END,
+            display_order = COALESCE(@displayOrder, display_order),
+            updated_at = GETUTCDATE()
+           OUTPUT INSERTED.*
+           WHERE id = @categoryId`,
+          {
+            categoryId,
+            name: name || null,
+            // null clears the icon; leaving it out keeps the current one
+            iconProvided: icon !== undefined ? 1 : 0,
+            icon: icon || null,
+            displayOrder: displayOrder !== undefined ? displayOrder : null,
+          }
+        )
+
+        if (name && name !== category.name) {
+          await tx(
+            `UPDATE event_items SET category = @name, updated_at = GETUTCDATE()
+             WHERE category_id = @categoryId`,
+            { categoryId, name }
+          )
+        }
+
+        return result.recordset[0]
+      })
+
+      res.json(formatCategory(updated))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Delete a category (its items become uncategorized)
+router.delete(
+  '/event-categories/:categoryId',
+  authenticate,
+  param('categoryId').isUUID(),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { categoryId } = req.params
+      await getCategoryForAdmin(categoryId, req.user!.id)
+
+      await withTransaction(async (tx) => {
+        await tx(
+          `UPDATE event_items SET category_id = NULL, category = NULL, updated_at = GETUTCDATE()
+           WHERE category_id = @categoryId`,
+          { categoryId }
+        )
+
+        await tx('DELETE FROM event_categories WHERE id = @categoryId', { categoryId })
+      })
+
+      res.json({ message: 'Category deleted' })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Assign an item to a category (null to uncategorize)
+router.put(
+  '/event-items/:id/category',
+  authenticate,
+  [
+    param('id').isUUID(),
+    body('categoryId').optional({ nullable: true }).isUUID(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { id } = req.params
+      const categoryId: string | null = req.body.categoryId || null
+
+      const itemResult = await dbQuery(
+        'SELECT id, event_id FROM event_items WHERE id = @id',
+        { id }
+      )
+
+      if (itemResult.recordset.length === 0) {
+        throw notFound('Item not found')
+      }
+
+      const item = itemResult.recordset[0]
+
+      const access = await checkEventAccess(item.event_id, req.user!.id)
+      if (!access) {
+        throw forbidden('You do not have permission to manage categories for this event')
+      }
+
+      let categoryName: string | null = null
+      if (categoryId) {
+        const categoryResult = await dbQuery(
+          'SELECT name FROM event_categories WHERE id = @categoryId AND event_id = @eventId',
+          { categoryId, eventId: item.event_id }
+        )
+
+        if (categoryResult.recordset.length === 0) {
+          throw notFound('Category not found')
+        }
+
+        categoryName = categoryResult.recordset[0].name
+      }
+
+      await dbQuery(
+        `UPDATE event_items SET category_id = @categoryId, category = @categoryName, updated_at = GETUTCDATE()
+         WHERE id = @id`,
+        { id, categoryId, categoryName }
+      )
+
+      res.json({ message: 'Category updated', categoryId, category: categoryName })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+export { router as eventCategoryRoutes }
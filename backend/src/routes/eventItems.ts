@@ -4,7 +4,7 @@ import multer from 'multer'
 import { authenticate, optionalAuth } from '../middleware/auth.js'
 import { query as dbQuery } from '../config/database.js'
 import { badRequest, notFound, forbidden } from '../middleware/errorHandler.js'
-import { uploadToBlob, deleteBlob } from '../services/storage.js'
+import { processAndUploadImage, deleteImageRenditions } from '../services/imageProcessing.js'
 import {
   notifyItemApproved,
   notifyItemRejected,
@@ -13,6 +13,12 @@ import {
   notifyBidCancelled,
   notifyAllBiddersOnItem,
 } from '../services/notifications.js'
+import { getItemEndTime } from '../services/softClose.js'
+import { buildCatalogQuery, CATALOG_SORTS, CatalogFilters, CatalogSort } from '../services/itemCatalog.js'
+import { resolveItemCategory } from '../services/eventCategories.js'
+import { getEffectiveTime } from '../services/uatTime.js'
+import { getAvailableQuantity } from '../services/itemAwards.js'
+import { broadcastItemRemoved } from '../services/signalr.js'
 import { v4 as uuidv4 } from 'uuid'
 
 const router = Router()
@@ -58,6 +64,51 @@ const upload = multer({
 
 const MAX_IMAGES_PER_ITEM = 20
 
+// Images uploaded before the rendition pipeline only have blob_url
+function formatImage(img: any) {
+  return {
+    id: img.id,
+    blobUrl: img.blob_url,
+    mediumUrl: img.medium_url || null,
+    thumbnailUrl: img.thumbnail_url || null,
+    displayOrder: img.display_order,
+    isPrimary: img.is_primary,
+  }
+}
+
+// Reserve prices are hidden from bidders; they only learn whether the reserve is met.
+// The amount itself is shown to event admins and the item's submitter.
+function formatReserve(item: any, showAmount: boolean) {
+  const reservePrice = item.reserve_price !== null && item.reserve_price !== undefined
+    ? parseFloat(item.reserve_price)
+    : null
+
+  return {
+    hasReserve: reservePrice !== null,
+    reserveMet: reservePrice === null ? null : !!item.current_bid && parseFloat(item.current_bid) >= reservePrice,
+    ...(showAmount ? { reservePrice } : {}),
+  }
+}
+
+// Helper to format an item's stock; items with several units award one to each top bidder
+function formatQuantity(item: any) {
+  return {
+    quantity: item.quantity ?? 1,
+    quantitySold: item.quantity_sold ?? 0,
+    quantityAvailable: getAvailableQuantity(item),
+    winnerPricing: item.winner_pricing || 'own_bid',
+  }
+}
+
+// Helper to format an item's fair market value; buyers can only deduct what they pay above it
+function formatFairMarketValue(item: any) {
+  return {
+    fairMarketValue: item.fair_market_value !== null && item.fair_market_value !== undefined
+      ? parseFloat(item.fair_market_value)
+      : null,
+  }
+}
+
 // Helper to check event admin access
 async function checkEventAccess(eventId: string, userId: string) {
   const result = await dbQuery(
@@ -120,6 +171,7 @@ router.post(
     body('condition').optional().isString(),
     body('startingPrice').optional().isFloat({ min: 0 }),
     body('buyNowPrice').optional().isFloat({ min: 0 }),
+    body('reservePrice').optional().isFloat({ min: 0 }),
     body('accessCode').isString().isLength({ min: 6, max: 6 }),
   ],
   async (req: Request, res: Response, next: NextFunction) => {
@@ -131,7 +183,7 @@ router.post(
 
       const { eventId } = req.params
       const userId = req.user!.id
-      const { title, description, condition, startingPrice, buyNowPrice, accessCode } = req.body
+      const { title, description, condition, startingPrice, buyNowPrice, reservePrice, accessCode } = req.body
 
       // Ensure user exists
       await ensureUserExists(userId, req.user!.email, req.user!.name)
@@ -180,12 +232,12 @@ router.post(
       const result = await dbQuery(
         `INSERT INTO event_items (
           event_id, title, description, condition,
-          starting_price, buy_now_price, submitted_by,
+          starting_price, buy_now_price, reserve_price, submitted_by,
           submission_status, status, created_at, updated_at
         ) OUTPUT INSERTED.*
         VALUES (
           @eventId, @title, @description, @condition,
-          @startingPrice, @buyNowPrice, @submittedBy,
+          @startingPrice, @buyNowPrice, @reservePrice, @submittedBy,
           'pending', 'pending', GETUTCDATE(), GETUTCDATE()
         )`,
         {
@@ -195,6 +247,7 @@ router.post(
           condition: condition || null,
           startingPrice: startingPrice || null,
           buyNowPrice: buyNowPrice || null,
+          reservePrice: reservePrice || null,
           submittedBy: userId,
         }
       )
@@ -209,6 +262,9 @@ router.post(
         condition: item.condition,
         startingPrice: item.starting_price ? parseFloat(item.starting_price) : null,
         buyNowPrice: item.buy_now_price ? parseFloat(item.buy_now_price) : null,
+        ...formatQuantity(item),
+        ...formatFairMarketValue(item),
+        ...formatReserve(item, true),
         submissionStatus: item.submission_status,
         status: item.status,
         createdAt: item.created_at,
@@ -220,6 +276,7 @@ router.post(
 )
 
 // List event items (public - only approved/active items)
+// Supports keyword search, filters and sorts; see services/itemCatalog.ts
 router.get(
   '/events/:eventId/items',
   optionalAuth,
@@ -227,9 +284,26 @@ router.get(
     param('eventId').isString(),
     query('page').optional().isInt({ min: 1 }),
     query('pageSize').optional().isInt({ min: 1, max: 50 }),
+    query('q').optional().isString().isLength({ max: 200 }),
+    query('categoryId').optional().isUUID(),
+    query('category').optional().isString().isLength({ max: 100 }),
+    query('condition').optional().isString().isLength({ max: 50 }),
+    query('minPrice').optional().isFloat({ min: 0 }),
+    query('maxPrice').optional().isFloat({ min: 0 }),
+    query('noBids').optional().isBoolean(),
+    query('buyNow').optional().isBoolean(),
+    query('endingSoon').optional().isBoolean(),
+    query('myBids').optional().isIn(['winning', 'outbid']),
+    query('sort').optional().isIn(CATALOG_SORTS),
+    query('direction').optional().isIn(['asc', 'desc']),
   ],
   async (req: Request, res: Response, next: NextFunction) => {
     try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
       const { eventId: eventIdOrSlug } = req.params
 
       // Resolve event ID from ID or slug
@@ -241,23 +315,72 @@ router.get(
       const pageSize = parseInt(req.query.pageSize as string) || 24
       const offset = (page - 1) * pageSize
 
-      // Get total count of approved items
-      const countResult = await dbQuery(
-        `SELECT COUNT(*) as total FROM event_items
-         WHERE event_id = @eventId AND submission_status = 'approved' AND status != 'removed'`,
+      const eventResult = await dbQuery(
+        `SELECT id, auction_type, buy_now_enabled, simulated_current_time
+         FROM auction_events WHERE id = @eventId`,
         { eventId }
       )
+      if (eventResult.recordset.length === 0) {
+        throw notFound('Event not found')
+      }
+      const event = eventResult.recordset[0]
+
+      const filters = req.query as Record<string, string | undefined>
+      if (filters.myBids && !req.user) {
+        throw badRequest('Sign in to filter by your bids')
+      }
+
+      const catalog = buildCatalogQuery(
+        {
+          search: filters.q,
+          categoryId: filters.categoryId,
+          category: filters.category,
+          condition: filters.condition,
+          minPrice: filters.minPrice !== undefined ? parseFloat(filters.minPrice) : undefined,
+          maxPrice: filters.maxPrice !== undefined ? parseFloat(filters.maxPrice) : undefined,
+          noBids: filters.noBids === 'true',
+          buyNow: filters.buyNow === 'true',
+          endingSoon: filters.endingSoon === 'true',
+          myBids: filters.myBids as CatalogFilters['myBids'],
+          sort: filters.sort as CatalogSort | undefined,
+          direction: filters.direction as CatalogFilters['direction'],
+        },
+        {
+          auctionType: event.auction_type,
+          buyNowEnabled: !!event.buy_now_enabled,
+          now: await getEffectiveTime(event),
+          userId: req.user?.id,
+        }
+      )
+
+      const where = [
+        "i.event_id = @eventId AND i.submission_status = 'approved' AND i.status != 'removed'",
+        ...catalog.conditions,
+      ].join(' AND ')
+
+      // Get total count of matching items
+      const countResult = await dbQuery(
+        `SELECT COUNT(*) as total
+         FROM event_items i
+         INNER JOIN auction_events e ON i.event_id = e.id
+         LEFT JOIN event_item_groups g ON i.closing_group_id = g.id
+         WHERE ${where}`,
+        { eventId, ...catalog.params }
+      )
       const totalItems = countResult.recordset[0].total
 
       // Get items with images
       const result = await dbQuery(
-        `SELECT i.*, u.display_name as submitter_name
+        `SELECT i.*, u.display_name as submitter_name, g.name as closing_group_name,
+                COALESCE(g.end_time, e.end_time) as scheduled_end_time
          FROM event_items i
+         INNER JOIN auction_events e ON i.event_id = e.id
+         LEFT JOIN event_item_groups g ON i.closing_group_id = g.id
          LEFT JOIN users u ON i.submitted_by = u.id
-         WHERE i.event_id = @eventId AND i.submission_status = 'approved' AND i.status != 'removed'
-         ORDER BY i.display_order ASC, i.created_at ASC
+         WHERE ${where}
+         ORDER BY ${catalog.orderBy}
          OFFSET @offset ROWS FETCH NEXT @pageSize ROWS ONLY`,
-        { eventId, offset, pageSize }
+        { eventId, ...catalog.params, offset, pageSize }
       )
 
       // Get images for all items
@@ -280,20 +403,32 @@ router.get(
         condition: item.condition,
         startingPrice: item.starting_price ? parseFloat(item.starting_price) : null,
         buyNowPrice: item.buy_now_price ? parseFloat(item.buy_now_price) : null,
+        ...formatQuantity(item),
+        ...formatFairMarketValue(item),
+        category: item.category,
+        categoryId: item.category_id,
         currentBid: item.current_bid ? parseFloat(item.current_bid) : null,
         bidCount: item.bid_count,
+        ...formatReserve(item, false),
         status: item.status,
+        endTime: getItemEndTime(item.end_time, item.scheduled_end_time),
+        closingGroupId: item.closing_group_id,
+        closingGroupName: item.closing_group_name,
         submitterName: item.submitter_name,
         images: images
           .filter((img: any) => img.item_id === item.id)
-          .map((img: any) => ({
-            id: img.id,
-            blobUrl: img.blob_url,
-            displayOrder: img.display_order,
-            isPrimary: img.is_primary,
-          })),
+          .map(formatImage),
       }))
 
+      // Categories and conditions present in the catalog, for the filter dropdowns
+      const facetResult = await dbQuery(
+        `SELECT DISTINCT category, condition FROM event_items
+         WHERE event_id = @eventId AND submission_status = 'approved' AND status != 'removed'`,
+        { eventId }
+      )
+      const distinct = (key: string) =>
+        [...new Set<string>(facetResult.recordset.map((row: any) => row[key]).filter(Boolean))].sort()
+
       res.json({
         data: items,
         pagination: {
@@ -302,6 +437,10 @@ router.get(
           totalItems,
           totalPages: Math.ceil(totalItems / pageSize),
         },
+        facets: {
+          categories: distinct('category'),
+          conditions: distinct('condition'),
+        },
       })
     } catch (error) {
       next(error)
@@ -360,6 +499,9 @@ router.get(
         condition: item.condition,
         startingPrice: item.starting_price ? parseFloat(item.starting_price) : null,
         buyNowPrice: item.buy_now_price ? parseFloat(item.buy_now_price) : null,
+        ...formatQuantity(item),
+        ...formatFairMarketValue(item),
+        ...formatReserve(item, true),
         submissionStatus: item.submission_status,
         submitter: {
           id: item.submitted_by,
@@ -369,12 +511,7 @@ router.get(
         createdAt: item.created_at,
         images: images
           .filter((img: any) => img.item_id === item.id)
-          .map((img: any) => ({
-            id: img.id,
-            blobUrl: img.blob_url,
-            displayOrder: img.display_order,
-            isPrimary: img.is_primary,
-          })),
+          .map(formatImage),
       }))
 
       res.json(items)
@@ -435,12 +572,17 @@ router.get(
         description: item.description,
         condition: item.condition,
         category: item.category,
+        categoryId: item.category_id,
         startingPrice: item.starting_price ? parseFloat(item.starting_price) : null,
         buyNowPrice: item.buy_now_price ? parseFloat(item.buy_now_price) : null,
+        ...formatQuantity(item),
+        ...formatFairMarketValue(item),
         currentBid: item.current_bid ? parseFloat(item.current_bid) : null,
         bidCount: item.bid_count,
+        ...formatReserve(item, true),
         submissionStatus: item.submission_status,
         status: item.status,
+        closingGroupId: item.closing_group_id,
         submitter: item.submitted_by ? {
           id: item.submitted_by,
           name: item.submitter_name,
@@ -465,12 +607,7 @@ router.get(
         trackingCarrier: item.tracking_carrier,
         images: images
           .filter((img: any) => img.item_id === item.id)
-          .map((img: any) => ({
-            id: img.id,
-            blobUrl: img.blob_url,
-            displayOrder: img.display_order,
-            isPrimary: img.is_primary,
-          })),
+          .map(formatImage),
       }))
 
       res.json(items)
@@ -524,6 +661,9 @@ router.get(
         condition: item.condition,
         startingPrice: item.starting_price ? parseFloat(item.starting_price) : null,
         buyNowPrice: item.buy_now_price ? parseFloat(item.buy_now_price) : null,
+        ...formatQuantity(item),
+        ...formatFairMarketValue(item),
+        ...formatReserve(item, true),
         submissionStatus: item.submission_status,
         rejectionReason: item.rejection_reason,
         allowResubmit: item.allow_resubmit,
@@ -531,12 +671,7 @@ router.get(
         createdAt: item.created_at,
         images: images
           .filter((img: any) => img.item_id === item.id)
-          .map((img: any) => ({
-            id: img.id,
-            blobUrl: img.blob_url,
-            displayOrder: img.display_order,
-            isPrimary: img.is_primary,
-          })),
+          .map(formatImage),
       }))
 
       res.json(items)
@@ -563,12 +698,17 @@ router.get(
 
       const result = await dbQuery(
         `SELECT i.*, e.auction_type, e.increment_type, e.increment_value, e.status as event_status,
-                u.display_name as submitter_name
+                COALESCE(g.end_time, e.end_time) as scheduled_end_time, g.name as closing_group_name,
+                u.display_name as submitter_name,
+                CASE WHEN EXISTS (SELECT 1 FROM event_item_watchlist w
+                                  WHERE w.item_id = i.id AND w.user_id = @userId)
+                     THEN 1 ELSE 0 END as is_watching
          FROM event_items i
          INNER JOIN auction_events e ON i.event_id = e.id
+         LEFT JOIN event_item_groups g ON i.closing_group_id = g.id
          LEFT JOIN users u ON i.submitted_by = u.id
          WHERE i.id = @id`,
-        { id }
+        { id, userId: userId || null }
       )
 
       if (result.recordset.length === 0) {
@@ -611,14 +751,20 @@ router.get(
         condition: item.condition,
         startingPrice: item.starting_price ? parseFloat(item.starting_price) : null,
         buyNowPrice: item.buy_now_price ? parseFloat(item.buy_now_price) : null,
+        ...formatQuantity(item),
+        ...formatFairMarketValue(item),
         currentBid: item.current_bid ? parseFloat(item.current_bid) : null,
         bidCount: item.bid_count,
+        ...formatReserve(item, isSubmitter || isAdmin),
         auctionType: item.auction_type,
         incrementType: item.increment_type,
         incrementValue: parseFloat(item.increment_value),
         eventStatus: item.event_status,
         submissionStatus: item.submission_status,
         status: item.status,
+        endTime: getItemEndTime(item.end_time, item.scheduled_end_time),
+        closingGroupId: item.closing_group_id,
+        closingGroupName: item.closing_group_name,
         submitter: {
           id: item.submitted_by,
           name: item.submitter_name,
@@ -628,14 +774,10 @@ router.get(
           rejectionReason: item.rejection_reason,
           allowResubmit: item.allow_resubmit,
         } : {}),
-        images: imageResult.recordset.map((img: any) => ({
-          id: img.id,
-          blobUrl: img.blob_url,
-          displayOrder: img.display_order,
-          isPrimary: img.is_primary,
-        })),
+        images: imageResult.recordset.map(formatImage),
         isAdmin,
         isSubmitter,
+        isWatching: !!item.is_watching,
       })
     } catch (error) {
       next(error)
@@ -654,6 +796,11 @@ router.put(
     body('condition').optional().isString(),
     body('startingPrice').optional().isFloat({ min: 0 }),
     body('buyNowPrice').optional().isFloat({ min: 0 }),
+    body('reservePrice').optional({ nullable: true }).isFloat({ min: 0 }),
+    body('quantity').optional().isInt({ min: 1 }),
+    body('winnerPricing').optional().isIn(['own_bid', 'lowest_winning']),
+    body('categoryId').optional({ nullable: true }).isUUID(),
+    body('fairMarketValue').optional({ nullable: true }).isFloat({ min: 0 }),
   ],
   async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -664,7 +811,10 @@ router.put(
 
       const { id } = req.params
       const userId = req.user!.id
-      const { title, description, condition, startingPrice, buyNowPrice } = req.body
+      const {
+        title, description, condition, startingPrice, buyNowPrice, reservePrice, quantity, winnerPricing, categoryId,
+        fairMarketValue,
+      } = req.body
 
       // Get item
       const itemResult = await dbQuery(
@@ -700,6 +850,12 @@ router.put(
         throw badRequest('Cannot update items in an active or ended event')
       }
 
+      // Categories are managed by event admins
+      if (categoryId !== undefined && !isAdmin) {
+        throw forbidden('Only event admins can change an item\'s category')
+      }
+      const itemCategory = categoryId ? await resolveItemCategory(item.event_id, { categoryId }) : null
+
       await dbQuery(
         `UPDATE event_items SET
           title = COALESCE(@title, title),
@@ -707,6 +863,12 @@ router.put(
           condition = COALESCE(@condition, condition),
           starting_price = COALESCE(@startingPrice, starting_price),
           buy_now_price = COALESCE(@buyNowPrice, buy_now_price),
+          reserve_price = CASE WHEN @reserveProvided = 1 THEN @reservePrice ELSE reserve_price END,
+          quantity = COALESCE(@quantity, quantity),
+          winner_pricing = COALESCE(@winnerPricing, winner_pricing),
+          category_id = CASE WHEN @categoryProvided = 1 THEN @categoryId ELSE category_id END,
+          category = CASE WHEN @categoryProvided = 1 THEN @category ELSE category END,
+          fair_market_value = CASE WHEN @fairMarketValueProvided = 1 THEN @fairMarketValue ELSE fair_market_value END,
           updated_at = GETUTCDATE()
          WHERE id = @id`,
         {
@@ -716,6 +878,18 @@ router.put(
           condition: condition || null,
           startingPrice: startingPrice || null,
           buyNowPrice: buyNowPrice || null,
+          // null clears the reserve; leaving it out keeps the current one
+          reserveProvided: reservePrice !== undefined ? 1 : 0,
+          reservePrice: reservePrice || null,
+          quantity: quantity ? parseInt(quantity) : null,
+          winnerPricing: winnerPricing || null,
+          // null makes the item uncategorized; leaving it out keeps the current one
+          categoryProvided: categoryId !== undefined ? 1 : 0,
+          categoryId: itemCategory?.id ?? null,
+          category: itemCategory?.name ?? null,
+          // null clears the value; leaving it out keeps the current one
+          fairMarketValueProvided: fairMarketValue !== undefined ? 1 : 0,
+          fairMarketValue: fairMarketValue ?? null,
         }
       )
 
@@ -784,6 +958,8 @@ router.delete(
         { eventId: item.event_id }
       )
 
+      broadcastItemRemoved({ eventId: item.event_id, itemId: id })
+
       // Notify submitter that their item was removed
       const removalReason = reason || 'No reason provided'
       await notifyItemRemoved(item.submitted_by, item.title, removalReason, item.event_id, id)
@@ -810,6 +986,7 @@ router.post(
     param('id').isUUID(),
     body('startingPrice').optional().isFloat({ min: 0 }),
     body('buyNowPrice').optional().isFloat({ min: 0 }),
+    body('reservePrice').optional().isFloat({ min: 0 }),
   ],
   async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -820,7 +997,7 @@ router.post(
 
       const { id } = req.params
       const userId = req.user!.id
-      const { startingPrice, buyNowPrice } = req.body
+      const { startingPrice, buyNowPrice, reservePrice } = req.body
 
       // Get item
       const itemResult = await dbQuery(
@@ -851,6 +1028,7 @@ router.post(
           status = 'active',
           starting_price = COALESCE(@startingPrice, starting_price),
           buy_now_price = COALESCE(@buyNowPrice, buy_now_price),
+          reserve_price = COALESCE(@reservePrice, reserve_price),
           reviewed_by = @reviewedBy,
           reviewed_at = GETUTCDATE(),
           updated_at = GETUTCDATE()
@@ -859,6 +1037,7 @@ router.post(
           id,
           startingPrice: startingPrice || null,
           buyNowPrice: buyNowPrice || null,
+          reservePrice: reservePrice || null,
           reviewedBy: userId,
         }
       )
@@ -1107,32 +1286,28 @@ router.post(
       const uploadedImages = []
       for (let i = 0; i < files.length; i++) {
         const file = files[i]
-        const ext = file.originalname.split('.').pop() || 'jpg'
-        const blobName = `event-items/${id}/${uuidv4()}.${ext}`
-
-        const blobUrl = await uploadToBlob(file.buffer, blobName, file.mimetype)
+        const image = await processAndUploadImage(file.buffer, `event-items/${id}/${uuidv4()}`)
 
         const isPrimary = existingCount === 0 && i === 0
 
         const result = await dbQuery(
-          `INSERT INTO event_item_images (item_id, blob_url, display_order, is_primary, uploaded_by, created_at)
+          `INSERT INTO event_item_images (
+            item_id, blob_url, medium_url, thumbnail_url, display_order, is_primary, uploaded_by, created_at
+           )
            OUTPUT INSERTED.*
-           VALUES (@itemId, @blobUrl, @displayOrder, @isPrimary, @uploadedBy, GETUTCDATE())`,
+           VALUES (@itemId, @blobUrl, @mediumUrl, @thumbnailUrl, @displayOrder, @isPrimary, @uploadedBy, GETUTCDATE())`,
           {
             itemId: id,
-            blobUrl,
+            blobUrl: image.fullUrl,
+            mediumUrl: image.mediumUrl,
+            thumbnailUrl: image.thumbnailUrl,
             displayOrder: existingCount + i,
             isPrimary: isPrimary ? 1 : 0,
             uploadedBy: userId,
           }
         )
 
-        uploadedImages.push({
-          id: result.recordset[0].id,
-          blobUrl: result.recordset[0].blob_url,
-          displayOrder: result.recordset[0].display_order,
-          isPrimary: result.recordset[0].is_primary,
-        })
+        uploadedImages.push(formatImage(result.recordset[0]))
       }
 
       res.status(201).json(uploadedImages)
@@ -1195,7 +1370,7 @@ router.delete(
 
       // Delete from blob storage
       try {
-        await deleteBlob(image.blob_url)
+        await deleteImageRenditions(image.blob_url)
       } catch (err) {
         console.error('Failed to delete blob:', err)
         // Continue even if blob deletion fails
@@ -1242,13 +1417,32 @@ function getTrackingUrl(carrier: string, trackingNumber: string): string {
   return urls[carrier.toLowerCase()] || ''
 }
 
+// Helper to get the award being updated: the given one, or the item's top
+// winner when no winId is passed
+async function getItemAward(itemId: string, winId: string | null) {
+  const result = await dbQuery(
+    `SELECT TOP 1 * FROM event_item_winners
+     WHERE item_id = @itemId AND (@winId IS NULL OR id = @winId)
+     ORDER BY amount DESC, won_at ASC`,
+    { itemId, winId }
+  )
+
+  if (result.recordset.length === 0) {
+    throw notFound(winId ? 'Winner not found for this item' : 'This item has no winner yet')
+  }
+
+  return result.recordset[0]
+}
+
 // Update payment status (org admin only)
+// Items with several winners are tracked per winner; pass winId to update one
 router.patch(
   '/:id/payment-status',
   authenticate,
   [
     param('id').isUUID(),
     body('status').isIn(['pending', 'paid', 'payment_issue', 'waived', 'refunded']),
+    body('winId').optional().isUUID(),
     body('paymentMethodUsed').optional().isString(),
     body('notes').optional().isString(),
   ],
@@ -1261,11 +1455,11 @@ router.patch(
 
       const { id } = req.params
       const userId = req.user!.id
-      const { status, paymentMethodUsed, notes } = req.body
+      const { status, winId, paymentMethodUsed, notes } = req.body
 
       // Get item with event info
       const itemResult = await dbQuery(
-        `SELECT i.*, e.payment_mode, e.organization_id
+        `SELECT i.*, e.payment_mode, e.organization_id, e.simulated_current_time
          FROM event_items i
          INNER JOIN auction_events e ON i.event_id = e.id
          WHERE i.id = @id`,
@@ -1285,11 +1479,25 @@ router.patch(
       }
 
       // Store old status for notification logic
-      const oldStatus = item.payment_status
+      const award = await getItemAward(id, winId || null)
+      const oldStatus = award.payment_status
+
+      // A defaulted win stays put while its runner-up is deciding (on the event's clock)
+      if (winId && oldStatus === 'defaulted') {
+        const openOffer = await dbQuery(
+          `SELECT id FROM second_chance_offers
+           WHERE award_id = @winId AND status = 'pending' AND expires_at > @now`,
+          { winId, now: await getEffectiveTime(item) }
+        )
+        if (openOffer.recordset.length > 0) {
+          throw badRequest('This win has an open second-chance offer')
+        }
+      }
 
-      // Update payment status
+      // Update payment status of one winner, or every winner of the item
       const updateParams: Record<string, any> = {
         id,
+        winId: winId || null,
         status,
         confirmedBy: userId,
         paymentMethodUsed: paymentMethodUsed || null,
@@ -1297,14 +1505,15 @@ router.patch(
       }
 
       await dbQuery(
-        `UPDATE event_items SET
+        `UPDATE event_item_winners SET
           payment_status = @status,
           payment_confirmed_at = ${status === 'paid' ? 'GETUTCDATE()' : 'payment_confirmed_at'},
           payment_confirmed_by = ${status === 'paid' ? '@confirmedBy' : 'payment_confirmed_by'},
           payment_method_used = COALESCE(@paymentMethodUsed, payment_method_used),
           payment_notes = COALESCE(@notes, payment_notes),
           updated_at = GETUTCDATE()
-         WHERE id = @id`,
+         WHERE item_id = @id
+           AND (id = @winId OR (@winId IS NULL AND ISNULL(payment_status, 'pending') <> 'defaulted'))`,
         updateParams
       )
 
@@ -1325,12 +1534,14 @@ router.patch(
 )
 
 // Update fulfillment status (org admin only)
+// Like payment status, this applies to one winner (winId) or all of them
 router.patch(
   '/:id/fulfillment-status',
   authenticate,
   [
     param('id').isUUID(),
     body('status').isIn(['pending', 'processing', 'ready_for_pickup', 'shipped', 'out_for_delivery', 'delivered', 'picked_up', 'issue']),
+    body('winId').optional().isUUID(),
     body('fulfillmentType').optional().isIn(['shipping', 'pickup', 'digital']),
     body('trackingNumber').optional().isString(),
     body('trackingCarrier').optional().isString(),
@@ -1350,6 +1561,7 @@ router.patch(
       const userId = req.user!.id
       const {
         status,
+        winId,
         fulfillmentType,
         trackingNumber,
         trackingCarrier,
@@ -1381,7 +1593,8 @@ router.patch(
       }
 
       // Store old status for notification logic
-      const oldStatus = item.fulfillment_status
+      const award = await getItemAward(id, winId || null)
+      const oldStatus = award.fulfillment_status
 
       // Generate tracking URL if shipping info provided
       let trackingUrl = null
@@ -1391,7 +1604,7 @@ router.patch(
 
       // Build the update
       await dbQuery(
-        `UPDATE event_items SET
+        `UPDATE event_item_winners SET
           fulfillment_status = @status,
           fulfillment_type = COALESCE(@fulfillmentType, fulfillment_type),
           tracking_number = COALESCE(@trackingNumber, tracking_number),
@@ -1408,9 +1621,10 @@ router.patch(
           fulfilled_at = ${['delivered', 'picked_up'].includes(status) ? 'GETUTCDATE()' : 'fulfilled_at'},
           fulfilled_by = ${['delivered', 'picked_up'].includes(status) ? '@fulfilledBy' : 'fulfilled_by'},
           updated_at = GETUTCDATE()
-         WHERE id = @id`,
+         WHERE item_id = @id AND (@winId IS NULL OR id = @winId)`,
         {
           id,
+          winId: winId || null,
           status,
           fulfillmentType: fulfillmentType || null,
           trackingNumber: trackingNumber || null,
@@ -1466,27 +1680,27 @@ router.get(
         throw forbidden('Only event admins can view payment summary')
       }
 
-      // Get summary counts and values by status
+      // Get summary counts and values by status (an item with several winners counts once per winner)
       const summaryResult = await dbQuery(
         `SELECT
           payment_status,
           COUNT(*) as count,
-          COALESCE(SUM(current_bid), 0) as total_value
-         FROM event_items
+          COALESCE(SUM(amount * quantity), 0) as total_value
+         FROM event_item_winners
          WHERE event_id = @eventId
-           AND winner_id IS NOT NULL
          GROUP BY payment_status`,
         { eventId }
       )
 
-      // Get all items with winner info
+      // Get every winner of every item
       const itemsResult = await dbQuery(
-        `SELECT i.*, u.display_name as winner_name, u.email as winner_email
-         FROM event_items i
-         LEFT JOIN users u ON i.winner_id = u.id
-         WHERE i.event_id = @eventId
-           AND i.winner_id IS NOT NULL
-         ORDER BY i.payment_status, i.updated_at DESC`,
+        `SELECT w.*, i.title,
+                u.display_name as winner_name, u.email as winner_email
+         FROM event_item_winners w
+         INNER JOIN event_items i ON w.item_id = i.id
+         LEFT JOIN users u ON w.winner_id = u.id
+         WHERE w.event_id = @eventId
+         ORDER BY w.payment_status, w.updated_at DESC`,
         { eventId }
       )
 
@@ -1497,6 +1711,7 @@ router.get(
         payment_issue: { count: 0, value: 0 },
         waived: { count: 0, value: 0 },
         refunded: { count: 0, value: 0 },
+        defaulted: { count: 0, value: 0 },
       }
 
       let totalItems = 0
@@ -1513,7 +1728,7 @@ router.get(
       }
 
       // Get images for items
-      const itemIds = itemsResult.recordset.map((i: any) => i.id)
+      const itemIds = [...new Set<string>(itemsResult.recordset.map((w: any) => w.item_id))]
       let images: any[] = []
       if (itemIds.length > 0) {
         const imageResult = await dbQuery(
@@ -1526,12 +1741,14 @@ router.get(
       }
 
       const items = itemsResult.recordset.map((item: any) => {
-        const primaryImage = images.find((img: any) => img.item_id === item.id)
+        const primaryImage = images.find((img: any) => img.item_id === item.item_id)
         return {
-          id: item.id,
+          id: item.item_id,
+          winId: item.id,
           title: item.title,
           imageUrl: primaryImage?.blob_url || null,
-          winningBid: item.current_bid ? parseFloat(item.current_bid) : null,
+          winningBid: parseFloat(item.amount),
+          quantity: item.quantity,
           wonAt: item.won_at,
           winner: {
             id: item.winner_id,
@@ -1547,11 +1764,61 @@ router.get(
         }
       })
 
+      // Fund-a-need pledges are tracked alongside the items, without fulfillment
+      const pledgesResult = await dbQuery(
+        `SELECT p.*, c.title as campaign_title,
+                u.display_name as donor_user_name, u.email as donor_user_email
+         FROM fund_a_need_pledges p
+         INNER JOIN fund_a_need_campaigns c ON p.campaign_id = c.id
+         LEFT JOIN users u ON p.donor_id = u.id
+         WHERE p.event_id = @eventId AND p.status = 'active'
+         ORDER BY p.payment_status, p.created_at DESC`,
+        { eventId }
+      )
+
+      const pledgesByStatus: Record<string, { count: number; value: number }> = {
+        pending: { count: 0, value: 0 },
+        paid: { count: 0, value: 0 },
+        payment_issue: { count: 0, value: 0 },
+        waived: { count: 0, value: 0 },
+        refunded: { count: 0, value: 0 },
+      }
+
+      const pledges = pledgesResult.recordset.map((pledge: any) => {
+        const amount = parseFloat(pledge.amount)
+        if (pledgesByStatus[pledge.payment_status]) {
+          pledgesByStatus[pledge.payment_status].count += 1
+          pledgesByStatus[pledge.payment_status].value += amount
+        }
+        return {
+          id: pledge.id,
+          campaignId: pledge.campaign_id,
+          campaignTitle: pledge.campaign_title,
+          amount,
+          donor: {
+            id: pledge.donor_id,
+            name: pledge.donor_user_name || pledge.donor_name,
+            email: pledge.donor_user_email || pledge.donor_email,
+          },
+          pledgedAt: pledge.created_at,
+          paymentStatus: pledge.payment_status,
+          paymentConfirmedAt: pledge.payment_confirmed_at,
+          paymentMethodUsed: pledge.payment_method_used,
+          paymentNotes: pledge.payment_notes,
+        }
+      })
+
       res.json({
         totalItems,
         totalValue,
         byStatus,
         items,
+        pledges: {
+          totalPledges: pledges.length,
+          totalValue: pledges.reduce((sum: number, pledge: any) => sum + pledge.amount, 0),
+          byStatus: pledgesByStatus,
+          items: pledges,
+        },
       })
     } catch (error) {
       next(error)
@@ -1586,9 +1853,8 @@ router.get(
         `SELECT
           fulfillment_status,
           COUNT(*) as count
-         FROM event_items
+         FROM event_item_winners
          WHERE event_id = @eventId
-           AND winner_id IS NOT NULL
          GROUP BY fulfillment_status`,
         { eventId }
       )
@@ -1612,15 +1878,16 @@ router.get(
         }
       }
 
-      // Get all items with fulfillment details
+      // Get every winner of every item with fulfillment details
       const itemsResult = await dbQuery(
-        `SELECT i.*, u.display_name as winner_name, u.email as winner_email
-         FROM event_items i
-         LEFT JOIN users u ON i.winner_id = u.id
-         WHERE i.event_id = @eventId
-           AND i.winner_id IS NOT NULL
+        `SELECT w.*, i.title,
+                u.display_name as winner_name, u.email as winner_email
+         FROM event_item_winners w
+         INNER JOIN event_items i ON w.item_id = i.id
+         LEFT JOIN users u ON w.winner_id = u.id
+         WHERE w.event_id = @eventId
          ORDER BY
-           CASE fulfillment_status
+           CASE w.fulfillment_status
              WHEN 'pending' THEN 1
              WHEN 'processing' THEN 2
              WHEN 'ready_for_pickup' THEN 3
@@ -1631,12 +1898,12 @@ router.get(
              WHEN 'issue' THEN 0
              ELSE 7
            END,
-           i.updated_at DESC`,
+           w.updated_at DESC`,
         { eventId }
       )
 
       // Get images for items
-      const itemIds = itemsResult.recordset.map((i: any) => i.id)
+      const itemIds = [...new Set<string>(itemsResult.recordset.map((w: any) => w.item_id))]
       let images: any[] = []
       if (itemIds.length > 0) {
         const imageResult = await dbQuery(
@@ -1649,12 +1916,14 @@ router.get(
       }
 
       const items = itemsResult.recordset.map((item: any) => {
-        const primaryImage = images.find((img: any) => img.item_id === item.id)
+        const primaryImage = images.find((img: any) => img.item_id === item.item_id)
         return {
-          id: item.id,
+          id: item.item_id,
+          winId: item.id,
           title: item.title,
           imageUrl: primaryImage?.blob_url || null,
-          winningBid: item.current_bid ? parseFloat(item.current_bid) : null,
+          winningBid: parseFloat(item.amount),
+          quantity: item.quantity,
           winner: {
             id: item.winner_id,
             name: item.winner_name,
@@ -1726,16 +1995,17 @@ router.post(
       }), {})
       const itemIdPlaceholders = itemIds.map((_: any, idx: number) => `@itemId${idx}`).join(',')
 
-      // Update all items
+      // Update every winner of these items; defaulted wins go through second-chance offers
       await dbQuery(
-        `UPDATE event_items SET
+        `UPDATE event_item_winners SET
           payment_status = @status,
           payment_confirmed_at = ${status === 'paid' ? 'GETUTCDATE()' : 'payment_confirmed_at'},
           payment_confirmed_by = ${status === 'paid' ? '@confirmedBy' : 'payment_confirmed_by'},
           payment_method_used = COALESCE(@paymentMethodUsed, payment_method_used),
           updated_at = GETUTCDATE()
-         WHERE id IN (${itemIdPlaceholders})
-           AND event_id = @eventId`,
+         WHERE item_id IN (${itemIdPlaceholders})
+           AND event_id = @eventId
+           AND ISNULL(payment_status, 'pending') <> 'defaulted'`,
         {
           ...itemIdParams,
           eventId,
@@ -1794,16 +2064,17 @@ router.post(
       }), {})
       const itemIdPlaceholders = itemIds.map((_: any, idx: number) => `@itemId${idx}`).join(',')
 
-      // Update all items
+      // Update every winner of these items; defaulted wins go through second-chance offers
       await dbQuery(
-        `UPDATE event_items SET
+        `UPDATE event_item_winners SET
           fulfillment_status = @status,
           pickup_ready_at = ${status === 'ready_for_pickup' ? 'GETUTCDATE()' : 'pickup_ready_at'},
           fulfilled_at = ${['delivered', 'picked_up'].includes(status) ? 'GETUTCDATE()' : 'fulfilled_at'},
           fulfilled_by = ${['delivered', 'picked_up'].includes(status) ? '@fulfilledBy' : 'fulfilled_by'},
           updated_at = GETUTCDATE()
-         WHERE id IN (${itemIdPlaceholders})
-           AND event_id = @eventId`,
+         WHERE item_id IN (${itemIdPlaceholders})
+           AND event_id = @eventId
+           AND ISNULL(payment_status, 'pending') <> 'defaulted'`,
         {
           ...itemIdParams,
           eventId,
@@ -1844,26 +2115,35 @@ router.get(
         throw forbidden('Only event admins can view won items')
       }
 
-      // Get all items with winners
+      // Get every winner of every item; items with several units have several
       const itemsResult = await dbQuery(
-        `SELECT i.*,
+        `SELECT w.*, i.title, i.description, i.condition, i.current_bid, i.bid_count, i.status,
                 u.display_name as winner_name,
                 u.email as winner_email,
                 e.payment_mode,
                 e.payment_instructions,
                 e.payment_link,
-                e.fulfillment_type as event_fulfillment_type
-         FROM event_items i
-         LEFT JOIN users u ON i.winner_id = u.id
-         LEFT JOIN auction_events e ON i.event_id = e.id
-         WHERE i.event_id = @eventId
-           AND i.winner_id IS NOT NULL
-         ORDER BY i.updated_at DESC`,
+                e.fulfillment_type as event_fulfillment_type,
+                e.simulated_current_time,
+                o.id as offer_id, o.status as offer_status, o.amount as offer_amount,
+                o.expires_at as offer_expires_at, ou.display_name as offer_bidder_name
+         FROM event_item_winners w
+         INNER JOIN event_items i ON w.item_id = i.id
+         LEFT JOIN users u ON w.winner_id = u.id
+         LEFT JOIN auction_events e ON w.event_id = e.id
+         OUTER APPLY (
+           SELECT TOP 1 * FROM second_chance_offers
+           WHERE award_id = w.id
+           ORDER BY created_at DESC
+         ) o
+         LEFT JOIN users ou ON o.bidder_id = ou.id
+         WHERE w.event_id = @eventId
+         ORDER BY w.won_at DESC`,
         { eventId }
       )
 
       // Get images for items
-      const itemIds = itemsResult.recordset.map((i: any) => i.id)
+      const itemIds = [...new Set<string>(itemsResult.recordset.map((w: any) => w.item_id))]
       let images: any[] = []
       if (itemIds.length > 0) {
         const imageResult = await dbQuery(
@@ -1875,18 +2155,17 @@ router.get(
         images = imageResult.recordset
       }
 
+      // Offers expire on the event's clock
+      const now = await getEffectiveTime(itemsResult.recordset[0])
+
       const items = itemsResult.recordset.map((item: any) => {
         const itemImages = images
-          .filter((img: any) => img.item_id === item.id)
-          .map((img: any) => ({
-            id: img.id,
-            blobUrl: img.blob_url,
-            displayOrder: img.display_order,
-            isPrimary: img.is_primary,
-          }))
+          .filter((img: any) => img.item_id === item.item_id)
+          .map(formatImage)
 
         return {
-          id: item.id,
+          id: item.item_id,
+          winId: item.id,
           eventId: item.event_id,
           title: item.title,
           description: item.description,
@@ -1899,13 +2178,24 @@ router.get(
           winnerId: item.winner_id,
           winnerName: item.winner_name,
           winnerEmail: item.winner_email,
-          winningBid: item.current_bid ? parseFloat(item.current_bid) : null,
+          winningBid: parseFloat(item.amount),
+          quantity: item.quantity,
           // Payment tracking
           paymentStatus: item.payment_status || 'pending',
           paymentConfirmedAt: item.payment_confirmed_at,
           paymentConfirmedBy: item.payment_confirmed_by,
           paymentMethodUsed: item.payment_method_used,
           paymentNotes: item.payment_notes,
+          // Latest offer to a runner-up after a default
+          secondChanceOffer: item.offer_id ? {
+            id: item.offer_id,
+            bidderName: item.offer_bidder_name,
+            amount: parseFloat(item.offer_amount),
+            status: item.offer_status === 'pending' && new Date(item.offer_expires_at) <= now
+              ? 'expired'
+              : item.offer_status,
+            expiresAt: item.offer_expires_at,
+          } : null,
           // Fulfillment tracking
           fulfillmentStatus: item.fulfillment_status || 'pending',
           fulfillmentType: item.fulfillment_type || item.event_fulfillment_type,
@@ -1944,9 +2234,14 @@ router.post(
     body('condition').optional().isString(),
     body('startingPrice').optional().isFloat({ min: 0 }),
     body('buyNowPrice').optional().isFloat({ min: 0 }),
-    body('category').optional().isString(),
+    body('reservePrice').optional().isFloat({ min: 0 }),
+    body('quantity').optional().isInt({ min: 1 }),
+    body('winnerPricing').optional().isIn(['own_bid', 'lowest_winning']),
+    body('categoryId').optional({ nullable: true }).isUUID(),
+    body('category').optional().isString().isLength({ max: 100 }),
     body('donorName').optional().isString(),
     body('donorEmail').optional().isEmail(),
+    body('fairMarketValue').optional({ nullable: true }).isFloat({ min: 0 }),
   ],
   async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -1970,7 +2265,10 @@ router.post(
         throw forbidden('You do not have permission to add items to this event')
       }
 
-      const { title, description, condition, startingPrice, buyNowPrice, category, donorName, donorEmail } = req.body
+      const {
+        title, description, condition, startingPrice, buyNowPrice, reservePrice, quantity, winnerPricing,
+        categoryId, category, donorName, donorEmail, fairMarketValue,
+      } = req.body
 
       // Ensure user exists
       await ensureUserExists(userId, req.user!.email, req.user!.name || '')
@@ -1988,18 +2286,21 @@ router.post(
         throw badRequest('Cannot add items to an active event')
       }
 
+      // A category name not yet used in this event becomes a new category
+      const itemCategory = await resolveItemCategory(resolvedEventId, { categoryId, category })
+
       // Create item with approved status (admin bypass)
       const result = await dbQuery(
         `INSERT INTO event_items (
-          event_id, title, description, condition, category,
-          starting_price, buy_now_price, submitted_by,
-          donor_name, donor_email,
+          event_id, title, description, condition, category, category_id,
+          starting_price, buy_now_price, reserve_price, quantity, winner_pricing, submitted_by,
+          donor_name, donor_email, fair_market_value,
           submission_status, status, created_at, updated_at
         ) OUTPUT INSERTED.*
         VALUES (
-          @eventId, @title, @description, @condition, @category,
-          @startingPrice, @buyNowPrice, @submittedBy,
-          @donorName, @donorEmail,
+          @eventId, @title, @description, @condition, @category, @categoryId,
+          @startingPrice, @buyNowPrice, @reservePrice, @quantity, @winnerPricing, @submittedBy,
+          @donorName, @donorEmail, @fairMarketValue,
           'approved', 'pending', GETUTCDATE(), GETUTCDATE()
         )`,
         {
@@ -2007,12 +2308,17 @@ router.post(
           title,
           description: description || null,
           condition: condition || null,
-          category: category || null,
+          category: itemCategory?.name ?? null,
+          categoryId: itemCategory?.id ?? null,
           startingPrice: startingPrice || null,
           buyNowPrice: buyNowPrice || null,
+          reservePrice: reservePrice || null,
+          quantity: quantity ? parseInt(quantity) : 1,
+          winnerPricing: winnerPricing || 'own_bid',
           submittedBy: userId,
           donorName: donorName || null,
           donorEmail: donorEmail || null,
+          fairMarketValue: fairMarketValue ?? null,
         }
       )
 
@@ -2025,8 +2331,12 @@ router.post(
         description: item.description,
         condition: item.condition,
         category: item.category,
+        categoryId: item.category_id,
         startingPrice: item.starting_price,
         buyNowPrice: item.buy_now_price,
+        ...formatQuantity(item),
+        ...formatFairMarketValue(item),
+        ...formatReserve(item, true),
         submissionStatus: item.submission_status,
         status: item.status,
         donorName: item.donor_name,
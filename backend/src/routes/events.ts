@@ -1,7 +1,6 @@
 import { Router, Request, Response, NextFunction } from 'express'
 import { body, param, query, validationResult } from 'express-validator'
 import multer from 'multer'
-import path from 'path'
 import { v4 as uuidv4 } from 'uuid'
 import { authenticate, optionalAuth } from '../middleware/auth.js'
 import { query as dbQuery } from '../config/database.js'
@@ -11,8 +10,21 @@ import {
   publishEvent,
   processEventCancellation,
 } from '../services/platformFees.js'
-import { uploadToBlob, deleteImage } from '../services/storage.js'
+import { processAndUploadImage, deleteImageRenditions } from '../services/imageProcessing.js'
 import { sendDonationLinkEmail } from '../services/email.js'
+import {
+  buildDiscoveryQuery,
+  DISCOVERY_SORTS,
+  DiscoveryFilters,
+  DiscoverySort,
+} from '../services/eventDiscovery.js'
+import {
+  getZipCentroid,
+  findNearbyZips,
+  distanceMiles,
+  ZipCentroid,
+  MAX_SEARCH_RADIUS_MILES,
+} from '../services/zipCentroids.js'
 
 const router = Router()
 
@@ -173,8 +185,12 @@ router.post(
     body('incrementType').optional().isIn(['fixed', 'percent']),
     body('incrementValue').optional().isFloat({ min: 0.01 }),
     body('buyNowEnabled').optional().isBoolean(),
+    body('softCloseEnabled').optional().isBoolean(),
+    body('softCloseWindowMinutes').optional().isInt({ min: 1, max: 60 }),
+    body('softCloseExtensionMinutes').optional().isInt({ min: 1, max: 60 }),
     // Self-managed payments fields
     body('paymentMode').optional().isIn(['self_managed', 'integrated']),
+    body('requireCardOnFile').optional().isBoolean(),
     body('paymentInstructions').optional().isString(),
     body('paymentLink').optional().isURL().withMessage('Payment link must be a valid URL'),
     body('paymentQrCodeUrl').optional().isURL().withMessage('QR code URL must be a valid URL'),
@@ -212,8 +228,12 @@ router.post(
         incrementType = 'fixed',
         incrementValue = 1.0,
         buyNowEnabled = false,
+        softCloseEnabled = false,
+        softCloseWindowMinutes = 2,
+        softCloseExtensionMinutes = 2,
         // Self-managed payments fields
         paymentMode = 'integrated',
+        requireCardOnFile = false,
         paymentInstructions,
         paymentLink,
         paymentQrCodeUrl,
@@ -271,6 +291,10 @@ router.post(
         }
       }
 
+      if (paymentMode === 'self_managed' && requireCardOnFile) {
+        throw badRequest('Requiring a card on file is only available when payments go through the platform')
+      }
+
       // Validate dates
       const start = new Date(startTime)
       const end = new Date(endTime)
@@ -319,9 +343,10 @@ router.post(
           organization_id, name, slug, description,
           start_time, end_time, submission_deadline,
           auction_type, is_multi_item, increment_type, increment_value,
-          buy_now_enabled, access_code, status, visibility,
+          buy_now_enabled, soft_close_enabled, soft_close_window_minutes, soft_close_extension_minutes,
+          access_code, status, visibility,
           tier, max_items,
-          payment_mode, payment_instructions, payment_link, payment_qr_code_url,
+          payment_mode, require_card_on_file, payment_instructions, payment_link, payment_qr_code_url,
           fulfillment_type, pickup_instructions, pickup_location,
           pickup_address_line1, pickup_address_line2, pickup_city, pickup_state, pickup_postal_code,
           pickup_dates, payment_due_days, send_payment_reminders,
@@ -331,9 +356,10 @@ router.post(
           @organizationId, @name, @slug, @description,
           @startTime, @endTime, @submissionDeadline,
           @auctionType, @isMultiItem, @incrementType, @incrementValue,
-          @buyNowEnabled, @accessCode, 'draft', @visibility,
+          @buyNowEnabled, @softCloseEnabled, @softCloseWindowMinutes, @softCloseExtensionMinutes,
+          @accessCode, 'draft', @visibility,
           'unlimited', 999999,
-          @paymentMode, @paymentInstructions, @paymentLink, @paymentQrCodeUrl,
+          @paymentMode, @requireCardOnFile, @paymentInstructions, @paymentLink, @paymentQrCodeUrl,
           @fulfillmentType, @pickupInstructions, @pickupLocation,
           @pickupAddressLine1, @pickupAddressLine2, @pickupCity, @pickupState, @pickupPostalCode,
           @pickupDates, @paymentDueDays, @sendPaymentReminders,
@@ -352,9 +378,13 @@ router.post(
           incrementType,
           incrementValue,
           buyNowEnabled: buyNowEnabled ? 1 : 0,
+          softCloseEnabled: softCloseEnabled ? 1 : 0,
+          softCloseWindowMinutes,
+          softCloseExtensionMinutes,
           accessCode,
           visibility,
           paymentMode,
+          requireCardOnFile: requireCardOnFile ? 1 : 0,
           paymentInstructions: paymentInstructions || null,
           paymentLink: paymentLink || null,
           paymentQrCodeUrl: paymentQrCodeUrl || null,
@@ -390,10 +420,14 @@ router.post(
         incrementType: event.increment_type,
         incrementValue: event.increment_value,
         buyNowEnabled: event.buy_now_enabled,
+        softCloseEnabled: event.soft_close_enabled,
+        softCloseWindowMinutes: event.soft_close_window_minutes,
+        softCloseExtensionMinutes: event.soft_close_extension_minutes,
         accessCode: event.access_code,
         inviteCode: event.invite_code,
         status: event.status,
         paymentMode: event.payment_mode,
+        requireCardOnFile: event.require_card_on_file,
         paymentInstructions: event.payment_instructions,
         paymentLink: event.payment_link,
         paymentQrCodeUrl: event.payment_qr_code_url,
@@ -419,6 +453,7 @@ router.post(
 )
 
 // List public events
+// Supports keyword search, location filters and sorts; see services/eventDiscovery.ts
 router.get(
   '/',
   optionalAuth,
@@ -428,47 +463,58 @@ router.get(
     query('status').optional().isIn(['scheduled', 'active', 'ended']),
     query('auctionType').optional().isIn(['standard', 'silent']),
     query('organizationId').optional().isUUID(),
+    query('q').optional().isString().isLength({ max: 200 }),
+    query('category').optional().isString().isLength({ max: 100 }),
+    query('city').optional().isString().isLength({ max: 100 }),
+    query('state').optional().isString().isLength({ max: 50 }),
+    query('near').optional().matches(/^\d{5}(-?\d{4})?$/).withMessage('Enter a 5-digit ZIP code'),
+    query('radius').optional().isFloat({ min: 1, max: MAX_SEARCH_RADIUS_MILES }),
+    query('sort').optional().isIn(DISCOVERY_SORTS),
   ],
   async (req: Request, res: Response, next: NextFunction) => {
     try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
       const page = parseInt(req.query.page as string) || 1
       const pageSize = parseInt(req.query.pageSize as string) || 12
-      const status = req.query.status as string
-      const auctionType = req.query.auctionType as string
-      const organizationId = req.query.organizationId as string
       const offset = (page - 1) * pageSize
+      const filters = req.query as Record<string, string | undefined>
+
+      // "Near" searches match pickup ZIPs within the radius of the given ZIP
+      let origin: ZipCentroid | null = null
+      let nearbyZips: string[] | undefined
+      if (filters.near) {
+        ({ origin, zips: nearbyZips } = findNearbyZips(filters.near, filters.radius))
+      }
+
+      const discovery = buildDiscoveryQuery({
+        search: filters.q,
+        status: filters.status as DiscoveryFilters['status'],
+        auctionType: filters.auctionType as DiscoveryFilters['auctionType'],
+        organizationId: filters.organizationId,
+        category: filters.category,
+        city: filters.city,
+        state: filters.state,
+        nearbyZips,
+        sort: filters.sort as DiscoverySort | undefined,
+      })
 
-      // Use 'e.' prefix for column names to avoid ambiguity with JOINed tables
       // Only show public events in the main listing (private events require invitation)
-      let whereClause = "WHERE e.status IN ('scheduled', 'active', 'ended') AND (e.visibility = 'public' OR e.visibility IS NULL)"
-      const params: Record<string, any> = {}
+      const whereClause = [
+        "(e.visibility = 'public' OR e.visibility IS NULL)",
+        ...discovery.conditions,
+      ].join(' AND ')
 
-      if (status) {
-        whereClause = "WHERE e.status = @status AND (e.visibility = 'public' OR e.visibility IS NULL)"
-        params.status = status
-      }
-
-      if (auctionType) {
-        whereClause += " AND e.auction_type = @auctionType"
-        params.auctionType = auctionType
-      }
-
-      if (organizationId) {
-        whereClause += " AND e.organization_id = @organizationId"
-        params.organizationId = organizationId
-      }
-
-      // Get total count (use 'e' alias to match whereClause)
-      let countResult
-      try {
-        countResult = await dbQuery(
-          `SELECT COUNT(*) as total FROM auction_events e ${whereClause}`,
-          params
-        )
-      } catch (err) {
-        console.error('Count query failed:', err)
-        throw err
-      }
+      const countResult = await dbQuery(
+        `SELECT COUNT(*) as total
+         FROM auction_events e
+         LEFT JOIN organizations o ON e.organization_id = o.id
+         WHERE ${whereClause}`,
+        discovery.params
+      )
       const totalItems = countResult.recordset[0].total
 
       // Get events with pagination
@@ -478,38 +524,44 @@ router.get(
          FROM auction_events e
          LEFT JOIN organizations o ON e.organization_id = o.id
          LEFT JOIN users u ON e.owner_id = u.id
-         ${whereClause}
-         ORDER BY
-           CASE e.status WHEN 'active' THEN 1 WHEN 'scheduled' THEN 2 ELSE 3 END,
-           e.start_time ASC
+         WHERE ${whereClause}
+         ORDER BY ${discovery.orderBy}
          OFFSET @offset ROWS FETCH NEXT @pageSize ROWS ONLY`,
-        { ...params, offset, pageSize }
+        { ...discovery.params, offset, pageSize }
       )
 
-      const events = result.recordset.map((e: any) => ({
-        id: e.id,
-        name: e.name,
-        slug: e.slug,
-        description: e.description,
-        coverImageUrl: e.cover_image_url,
-        organization: e.organization_id ? {
-          id: e.organization_id,
-          name: e.organization_name,
-          slug: e.organization_slug,
-          logoUrl: e.organization_logo_url,
-        } : null,
-        owner: e.owner_id ? {
-          id: e.owner_id,
-          name: e.owner_name,
-        } : null,
-        startTime: e.start_time,
-        endTime: e.end_time,
-        auctionType: e.auction_type,
-        status: e.status,
-        itemCount: e.item_count,
-        totalBids: e.total_bids,
-        totalRaised: e.total_raised,
-      }))
+      const events = result.recordset.map((e: any) => {
+        const pickupCentroid = origin ? getZipCentroid(e.pickup_postal_code) : null
+        return {
+          id: e.id,
+          name: e.name,
+          slug: e.slug,
+          description: e.description,
+          coverImageUrl: e.cover_image_url,
+          organization: e.organization_id ? {
+            id: e.organization_id,
+            name: e.organization_name,
+            slug: e.organization_slug,
+            logoUrl: e.organization_logo_url,
+          } : null,
+          owner: e.owner_id ? {
+            id: e.owner_id,
+            name: e.owner_name,
+          } : null,
+          startTime: e.start_time,
+          endTime: e.end_time,
+          auctionType: e.auction_type,
+          status: e.status,
+          itemCount: e.item_count,
+          totalBids: e.total_bids,
+          totalRaised: e.total_raised,
+          pickupCity: e.pickup_city,
+          pickupState: e.pickup_state,
+          distanceMiles: origin && pickupCentroid
+            ? Math.round(distanceMiles(origin, pickupCentroid) * 10) / 10
+            : undefined,
+        }
+      })
 
       res.json({
         data: events,
@@ -596,6 +648,9 @@ router.get(
         incrementType: event.increment_type,
         incrementValue: parseFloat(event.increment_value),
         buyNowEnabled: event.buy_now_enabled,
+        softCloseEnabled: event.soft_close_enabled,
+        softCloseWindowMinutes: event.soft_close_window_minutes,
+        softCloseExtensionMinutes: event.soft_close_extension_minutes,
         tier: event.tier,
         maxItems: event.max_items,
         status: event.status,
@@ -605,6 +660,7 @@ router.get(
         createdAt: event.created_at,
         // Self-managed payments fields
         paymentMode: event.payment_mode,
+        requireCardOnFile: event.require_card_on_file,
         paymentInstructions: event.payment_instructions,
         paymentLink: event.payment_link,
         paymentQrCodeUrl: event.payment_qr_code_url,
@@ -709,6 +765,9 @@ router.get(
         incrementType: event.increment_type,
         incrementValue: parseFloat(event.increment_value),
         buyNowEnabled: event.buy_now_enabled,
+        softCloseEnabled: event.soft_close_enabled,
+        softCloseWindowMinutes: event.soft_close_window_minutes,
+        softCloseExtensionMinutes: event.soft_close_extension_minutes,
         tier: event.tier,
         maxItems: event.max_items,
         status: event.status,
@@ -718,6 +777,7 @@ router.get(
         createdAt: event.created_at,
         // Self-managed payments fields
         paymentMode: event.payment_mode,
+        requireCardOnFile: event.require_card_on_file,
         paymentInstructions: event.payment_instructions,
         paymentLink: event.payment_link,
         paymentQrCodeUrl: event.payment_qr_code_url,
@@ -757,8 +817,12 @@ router.put(
     body('incrementType').optional().isIn(['fixed', 'percent']),
     body('incrementValue').optional().isFloat({ min: 0.01 }),
     body('buyNowEnabled').optional().isBoolean(),
+    body('softCloseEnabled').optional().isBoolean(),
+    body('softCloseWindowMinutes').optional().isInt({ min: 1, max: 60 }),
+    body('softCloseExtensionMinutes').optional().isInt({ min: 1, max: 60 }),
     // Self-managed payments fields
     body('paymentMode').optional().isIn(['self_managed', 'integrated']),
+    body('requireCardOnFile').optional().isBoolean(),
     body('paymentInstructions').optional().isString(),
     body('paymentLink').optional().isURL().withMessage('Payment link must be a valid URL'),
     body('paymentQrCodeUrl').optional().isURL().withMessage('QR code URL must be a valid URL'),
@@ -806,8 +870,12 @@ router.put(
         incrementType,
         incrementValue,
         buyNowEnabled,
+        softCloseEnabled,
+        softCloseWindowMinutes,
+        softCloseExtensionMinutes,
         // Self-managed payments fields
         paymentMode,
+        requireCardOnFile,
         paymentInstructions,
         paymentLink,
         paymentQrCodeUrl,
@@ -824,8 +892,23 @@ router.put(
         sendPaymentReminders,
       } = req.body
 
+      // Closing groups must still fall within the event
+      if (endTime) {
+        const lateGroups = await dbQuery(
+          `SELECT COUNT(*) as count FROM event_item_groups WHERE event_id = @id AND end_time > @endTime`,
+          { id, endTime: new Date(endTime) }
+        )
+        if (lateGroups.recordset[0].count > 0) {
+          throw badRequest('Some closing groups close after the new end time. Update them first.')
+        }
+      }
+
       // Validate self-managed payment requirements
       const effectivePaymentMode = paymentMode || event.payment_mode
+      const effectiveCardOnFile = requireCardOnFile !== undefined ? requireCardOnFile : event.require_card_on_file
+      if (effectivePaymentMode === 'self_managed' && effectiveCardOnFile) {
+        throw badRequest('Requiring a card on file is only available when payments go through the platform')
+      }
       if (effectivePaymentMode === 'self_managed') {
         const effectiveInstructions = paymentInstructions !== undefined ? paymentInstructions : event.payment_instructions
         const effectiveLink = paymentLink !== undefined ? paymentLink : event.payment_link
@@ -847,7 +930,11 @@ router.put(
           increment_type = COALESCE(@incrementType, increment_type),
           increment_value = COALESCE(@incrementValue, increment_value),
           buy_now_enabled = COALESCE(@buyNowEnabled, buy_now_enabled),
+          soft_close_enabled = COALESCE(@softCloseEnabled, soft_close_enabled),
+          soft_close_window_minutes = COALESCE(@softCloseWindowMinutes, soft_close_window_minutes),
+          soft_close_extension_minutes = COALESCE(@softCloseExtensionMinutes, soft_close_extension_minutes),
           payment_mode = COALESCE(@paymentMode, payment_mode),
+          require_card_on_file = COALESCE(@requireCardOnFile, require_card_on_file),
           payment_instructions = COALESCE(@paymentInstructions, payment_instructions),
           payment_link = COALESCE(@paymentLink, payment_link),
           payment_qr_code_url = COALESCE(@paymentQrCodeUrl, payment_qr_code_url),
@@ -874,7 +961,11 @@ router.put(
           incrementType: incrementType || null,
           incrementValue: incrementValue || null,
           buyNowEnabled: buyNowEnabled !== undefined ? (buyNowEnabled ? 1 : 0) : null,
+          softCloseEnabled: softCloseEnabled !== undefined ? (softCloseEnabled ? 1 : 0) : null,
+          softCloseWindowMinutes: softCloseWindowMinutes || null,
+          softCloseExtensionMinutes: softCloseExtensionMinutes || null,
           paymentMode: paymentMode || null,
+          requireCardOnFile: requireCardOnFile !== undefined ? (requireCardOnFile ? 1 : 0) : null,
           paymentInstructions: paymentInstructions !== undefined ? paymentInstructions : null,
           paymentLink: paymentLink !== undefined ? paymentLink : null,
           paymentQrCodeUrl: paymentQrCodeUrl !== undefined ? paymentQrCodeUrl : null,
@@ -1214,15 +1305,10 @@ router.post(
       )
       const currentCoverUrl = currentResult.recordset[0]?.cover_image_url
 
-      // Generate unique blob name for the cover image
-      const ext = path.extname(req.file.originalname).toLowerCase() || '.png'
-      const blobName = `events/${id}/cover-${uuidv4()}${ext}`
-
-      // Upload to blob storage
-      const coverImageUrl = await uploadToBlob(
+      // Process and upload the cover image renditions
+      const { fullUrl: coverImageUrl } = await processAndUploadImage(
         req.file.buffer,
-        blobName,
-        req.file.mimetype
+        `events/${id}/cover-${uuidv4()}`
       )
 
       // Update event with new cover image URL
@@ -1234,7 +1320,7 @@ router.post(
       // Delete old cover image if it exists
       if (currentCoverUrl) {
         try {
-          await deleteImage(currentCoverUrl)
+          await deleteImageRenditions(currentCoverUrl)
         } catch (deleteError) {
           console.error('Failed to delete old cover image:', deleteError)
           // Don't fail the request if old cover deletion fails
@@ -1273,7 +1359,7 @@ router.delete(
 
       if (coverImageUrl) {
         // Delete from blob storage
-        await deleteImage(coverImageUrl)
+        await deleteImageRenditions(coverImageUrl)
 
         // Update event
         await dbQuery(
@@ -0,0 +1,609 @@
+import { Router, Request, Response, NextFunction } from 'express'
+import { body, param, validationResult } from 'express-validator'
+import { authenticate, optionalAuth } from '../middleware/auth.js'
+import { query as dbQuery, withTransaction, QueryFn } from '../config/database.js'
+import { badRequest, notFound, forbidden } from '../middleware/errorHandler.js'
+import { announceCampaignTotal } from '../services/fundANeed.js'
+
+// Fund-a-need campaigns (paddle raises) within an event. Guests pledge at a
+// giving level or any amount; staff can record pledges called out in the room
+// on a guest's behalf.
+
+const router = Router()
+
+// Helper to check event admin access (owner or org owner/admin)
+async function checkEventAccess(eventId: string, userId: string) {
+  const result = await dbQuery(
+    `SELECT e.*,
+            CASE
+              WHEN e.owner_id = @userId THEN 'owner'
+              WHEN e.organization_id IS NOT NULL THEN (
+                SELECT role FROM organization_members
+                WHERE organization_id = e.organization_id AND user_id = @userId
+              )
+              ELSE NULL
+            END as user_role
+     FROM auction_events e
+     WHERE e.id = @eventId`,
+    { eventId, userId }
+  )
+
+  if (result.recordset.length === 0) {
+    return null
+  }
+
+  const event = result.recordset[0]
+
+  if (event.user_role === 'owner' || event.user_role === 'admin') {
+    return { event, role: event.user_role }
+  }
+
+  return null
+}
+
+// Helper to load a campaign along with its event, checking admin access
+async function getCampaignForAdmin(campaignId: string, userId: string) {
+  const result = await dbQuery(
+    'SELECT * FROM fund_a_need_campaigns WHERE id = @campaignId',
+    { campaignId }
+  )
+
+  if (result.recordset.length === 0) {
+    throw notFound('Campaign not found')
+  }
+
+  const campaign = result.recordset[0]
+  const access = await checkEventAccess(campaign.event_id, userId)
+  if (!access) {
+    throw forbidden('You do not have permission to manage fund-a-need campaigns for this event')
+  }
+
+  return { campaign, event: access.event }
+}
+
+// Helper to load a pledge along with its campaign, checking admin access
+async function getPledgeForAdmin(pledgeId: string, userId: string) {
+  const result = await dbQuery(
+    'SELECT * FROM fund_a_need_pledges WHERE id = @pledgeId',
+    { pledgeId }
+  )
+
+  if (result.recordset.length === 0) {
+    throw notFound('Pledge not found')
+  }
+
+  const pledge = result.recordset[0]
+  const { campaign, event } = await getCampaignForAdmin(pledge.campaign_id, userId)
+
+  return { pledge, campaign, event }
+}
+
+// Helper to replace a campaign's giving levels
+async function saveLevels(
+  campaignId: string,
+  levels: { amount: number; label?: string }[],
+  runQuery: QueryFn
+) {
+  await runQuery('DELETE FROM fund_a_need_levels WHERE campaign_id = @campaignId', { campaignId })
+
+  for (const [idx, level] of levels.entries()) {
+    await runQuery(
+      `INSERT INTO fund_a_need_levels (campaign_id, amount, label, display_order)
+       VALUES (@campaignId, @amount, @label, @displayOrder)`,
+      { campaignId, amount: level.amount, label: level.label || null, displayOrder: idx }
+    )
+  }
+}
+
+function formatCampaign(campaign: any, levels: any[]) {
+  const totalPledged = parseFloat(campaign.total_pledged ?? 0) || 0
+  const goalAmount = campaign.goal_amount != null ? parseFloat(campaign.goal_amount) : null
+
+  return {
+    id: campaign.id,
+    eventId: campaign.event_id,
+    title: campaign.title,
+    description: campaign.description,
+    goalAmount,
+    status: campaign.status,
+    displayOrder: campaign.display_order,
+    levels: levels
+      .filter((level) => level.campaign_id === campaign.id)
+      .map((level) => ({
+        id: level.id,
+        amount: parseFloat(level.amount),
+        label: level.label,
+      })),
+    totalPledged,
+    pledgeCount: campaign.pledge_count ?? 0,
+    goalProgress: goalAmount ? Math.min(100, Math.round((totalPledged / goalAmount) * 100)) : null,
+  }
+}
+
+function formatPledge(pledge: any) {
+  return {
+    id: pledge.id,
+    campaignId: pledge.campaign_id,
+    amount: parseFloat(pledge.amount),
+    levelId: pledge.level_id,
+    donor: {
+      id: pledge.donor_id,
+      name: pledge.donor_user_name || pledge.donor_name,
+      email: pledge.donor_user_email || pledge.donor_email,
+    },
+    isAnonymous: !!pledge.is_anonymous,
+    recordedBy: pledge.recorded_by,
+    recordedByStaff: pledge.recorded_by !== pledge.donor_id,
+    status: pledge.status,
+    paymentStatus: pledge.payment_status,
+    paymentConfirmedAt: pledge.payment_confirmed_at,
+    paymentMethodUsed: pledge.payment_method_used,
+    paymentNotes: pledge.payment_notes,
+    createdAt: pledge.created_at,
+  }
+}
+
+// Helper to load campaigns with their levels and live totals
+async function getCampaigns(where: string, params: Record<string, any>) {
+  const campaignResult = await dbQuery(
+    `SELECT c.*,
+            (SELECT COALESCE(SUM(p.amount), 0) FROM fund_a_need_pledges p
+             WHERE p.campaign_id = c.id AND p.status = 'active') as total_pledged,
+            (SELECT COUNT(*) FROM fund_a_need_pledges p
+             WHERE p.campaign_id = c.id AND p.status = 'active') as pledge_count
+     FROM fund_a_need_campaigns c
+     WHERE ${where}
+     ORDER BY c.display_order ASC, c.created_at ASC`,
+    params
+  )
+
+  const campaigns = campaignResult.recordset
+  if (campaigns.length === 0) {
+    return []
+  }
+
+  const levelResult = await dbQuery(
+    `SELECT * FROM fund_a_need_levels
+     WHERE campaign_id IN (${campaigns.map((_: any, idx: number) => `@campaign${idx}`).join(',')})
+     ORDER BY amount DESC, display_order ASC`,
+    campaigns.reduce((acc: any, c: any, idx: number) => ({ ...acc, [`campaign${idx}`]: c.id }), {})
+  )
+
+  return campaigns.map((campaign: any) => formatCampaign(campaign, levelResult.recordset))
+}
+
+const levelValidators = [
+  body('levels').optional().isArray({ max: 20 }),
+  body('levels.*.amount').isFloat({ min: 1 }),
+  body('levels.*.label').optional({ nullable: true }).isString().trim().isLength({ max: 255 }),
+]
+
+// List an event's campaigns with their live totals
+router.get(
+  '/events/:eventId/fund-a-need',
+  optionalAuth,
+  param('eventId').isUUID(),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      res.json(await getCampaigns('c.event_id = @eventId', { eventId: req.params.eventId }))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Create a campaign
+router.post(
+  '/events/:eventId/fund-a-need',
+  authenticate,
+  [
+    param('eventId').isUUID(),
+    body('title').isString().trim().isLength({ min: 1, max: 255 }),
+    body('description').optional({ nullable: true }).isString().isLength({ max: 5000 }),
+    body('goalAmount').optional({ nullable: true }).isFloat({ min: 1 }),
+    body('displayOrder').optional().isInt({ min: 0 }),
+    ...levelValidators,
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { eventId } = req.params
+      const userId = req.user!.id
+      const { title, description, goalAmount, displayOrder = 0, levels = [] } = req.body
+
+      const access = await checkEventAccess(eventId, userId)
+      if (!access) {
+        throw forbidden('You do not have permission to manage fund-a-need campaigns for this event')
+      }
+
+      if (access.event.status === 'ended' || access.event.status === 'cancelled') {
+        throw badRequest('Cannot add a fund-a-need campaign to an ended or cancelled event')
+      }
+
+      const campaignId = await withTransaction(async (tx) => {
+        const result = await tx(
+          `INSERT INTO fund_a_need_campaigns (event_id, title, description, goal_amount, display_order, created_by, created_at, updated_at)
+           OUTPUT INSERTED.id
+           VALUES (@eventId, @title, @description, @goalAmount, @displayOrder, @userId, GETUTCDATE(), GETUTCDATE())`,
+          {
+            eventId,
+            title,
+            description: description || null,
+            goalAmount: goalAmount || null,
+            displayOrder,
+            userId,
+          }
+        )
+
+        const id = result.recordset[0].id
+        await saveLevels(id, levels, tx)
+        return id
+      })
+
+      const [campaign] = await getCampaigns('c.id = @campaignId', { campaignId })
+      res.status(201).json(campaign)
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Update a campaign; levels, when given, replace the existing ones
+router.put(
+  '/fund-a-need/:campaignId',
+  authenticate,
+  [
+    param('campaignId').isUUID(),
+    body('title').optional().isString().trim().isLength({ min: 1, max: 255 }),
+    body('description').optional({ nullable: true }).isString().isLength({ max: 5000 }),
+    body('goalAmount').optional({ nullable: true }).isFloat({ min: 1 }),
+    body('status').optional().isIn(['open', 'closed']),
+    body('displayOrder').optional().isInt({ min: 0 }),
+    ...levelValidators,
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { campaignId } = req.params
+      const { title, description, goalAmount, status, displayOrder, levels } = req.body
+
+      const { event } = await getCampaignForAdmin(campaignId, req.user!.id)
+
+      if (event.status === 'ended' || event.status === 'cancelled') {
+        throw badRequest('Cannot change fund-a-need campaigns for an ended or cancelled event')
+      }
+
+      await withTransaction(async (tx) => {
+        await tx(
+          `UPDATE fund_a_need_campaigns SET
+            title = COALESCE(@title, title),
+            description = ${description !== undefined ? '@description' : 'description'},
+            goal_amount = ${goalAmount !== undefined ? '@goalAmount' : 'goal_amount'},
+            status = COALESCE(@status, status),
+            display_order = COALESCE(@displayOrder, display_order),
+            updated_at = GETUTCDATE()
+           WHERE id = @campaignId`,
+          {
+            campaignId,
+            title: title || null,
+            description: description || null,
+            goalAmount: goalAmount || null,
+            status: status || null,
+            displayOrder: displayOrder !== undefined ? displayOrder : null,
+          }
+        )
+
+        if (levels) {
+          await saveLevels(campaignId, levels, tx)
+        }
+      })
+
+      const [campaign] = await getCampaigns('c.id = @campaignId', { campaignId })
+      res.json(campaign)
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Delete a campaign that hasn't received any pledges
+router.delete(
+  '/fund-a-need/:campaignId',
+  authenticate,
+  param('campaignId').isUUID(),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { campaignId } = req.params
+      await getCampaignForAdmin(campaignId, req.user!.id)
+
+      const pledgeResult = await dbQuery(
+        'SELECT COUNT(*) as count FROM fund_a_need_pledges WHERE campaign_id = @campaignId',
+        { campaignId }
+      )
+
+      if (pledgeResult.recordset[0].count > 0) {
+        throw badRequest('Cannot delete a campaign that has pledges; close it instead')
+      }
+
+      await dbQuery('DELETE FROM fund_a_need_campaigns WHERE id = @campaignId', { campaignId })
+
+      res.json({ message: 'Campaign deleted' })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Pledge to a campaign. Bidders pledge for themselves; event admins may record
+// a pledge for someone else by donorId, or by name/email for guests without an account.
+router.post(
+  '/fund-a-need/:campaignId/pledges',
+  authenticate,
+  [
+    param('campaignId').isUUID(),
+    body('levelId').optional().isUUID(),
+    body('amount').optional().isFloat({ min: 1 }),
+    body('isAnonymous').optional().isBoolean(),
+    body('donorId').optional().isString().trim().isLength({ min: 1, max: 128 }),
+    body('donorEmail').optional().isEmail().normalizeEmail(),
+    body('donorName').optional().isString().trim().isLength({ min: 1, max: 255 }),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { campaignId } = req.params
+      const userId = req.user!.id
+      const { levelId, isAnonymous = false, donorEmail, donorName } = req.body
+      let { amount, donorId } = req.body
+
+      const campaignResult = await dbQuery(
+        `SELECT c.*, e.status as event_status
+         FROM fund_a_need_campaigns c
+         INNER JOIN auction_events e ON c.event_id = e.id
+         WHERE c.id = @campaignId`,
+        { campaignId }
+      )
+
+      if (campaignResult.recordset.length === 0) {
+        throw notFound('Campaign not found')
+      }
+
+      const campaign = campaignResult.recordset[0]
+
+      if (campaign.event_status !== 'active') {
+        throw badRequest('Pledges can only be made while the event is live')
+      }
+
+      if (campaign.status !== 'open') {
+        throw badRequest('This campaign is no longer taking pledges')
+      }
+
+      const onBehalf = (donorId && donorId !== userId) || donorEmail || donorName
+      if (onBehalf && !(await checkEventAccess(campaign.event_id, userId))) {
+        throw forbidden('Only event admins can record pledges for someone else')
+      }
+
+      if (levelId) {
+        const levelResult = await dbQuery(
+          'SELECT amount FROM fund_a_need_levels WHERE id = @levelId AND campaign_id = @campaignId',
+          { levelId, campaignId }
+        )
+
+        if (levelResult.recordset.length === 0) {
+          throw notFound('Giving level not found')
+        }
+
+        amount = parseFloat(levelResult.recordset[0].amount)
+      }
+
+      if (!amount) {
+        throw badRequest('Choose a giving level or enter an amount')
+      }
+
+      if (!onBehalf) {
+        donorId = userId
+      } else if (donorId) {
+        const donorResult = await dbQuery('SELECT id FROM users WHERE id = @donorId', { donorId })
+        if (donorResult.recordset.length === 0) {
+          throw notFound('Donor not found')
+        }
+      } else if (donorEmail) {
+        // Link the pledge to the guest's account when they have one
+        const donorResult = await dbQuery('SELECT id FROM users WHERE email = @donorEmail', { donorEmail })
+        donorId = donorResult.recordset[0]?.id ?? null
+      }
+
+      const result = await dbQuery(
+        `INSERT INTO fund_a_need_pledges (
+          campaign_id, event_id, donor_id, donor_name, donor_email, is_anonymous,
+          amount, level_id, recorded_by, created_at, updated_at
+        )
+        OUTPUT INSERTED.*
+        VALUES (
+          @campaignId, @eventId, @donorId, @donorName, @donorEmail, @isAnonymous,
+          @amount, @levelId, @userId, GETUTCDATE(), GETUTCDATE()
+        )`,
+        {
+          campaignId,
+          eventId: campaign.event_id,
+          donorId: donorId || null,
+          donorName: donorName || null,
+          donorEmail: donorEmail || null,
+          isAnonymous: !!isAnonymous,
+          amount,
+          levelId: levelId || null,
+          userId,
+        }
+      )
+
+      const totals = await announceCampaignTotal(campaign)
+
+      res.status(201).json({
+        pledge: formatPledge(result.recordset[0]),
+        totalPledged: totals.totalPledged,
+        pledgeCount: totals.pledgeCount,
+      })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// List a campaign's pledges (event admins)
+router.get(
+  '/fund-a-need/:campaignId/pledges',
+  authenticate,
+  param('campaignId').isUUID(),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { campaignId } = req.params
+      await getCampaignForAdmin(campaignId, req.user!.id)
+
+      const result = await dbQuery(
+        `SELECT p.*, u.display_name as donor_user_name, u.email as donor_user_email
+         FROM fund_a_need_pledges p
+         LEFT JOIN users u ON p.donor_id = u.id
+         WHERE p.campaign_id = @campaignId
+         ORDER BY p.created_at DESC`,
+        { campaignId }
+      )
+
+      res.json(result.recordset.map(formatPledge))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Void a pledge entered by mistake (event admins). Paid pledges must be refunded first.
+router.post(
+  '/fund-a-need/pledges/:pledgeId/void',
+  authenticate,
+  param('pledgeId').isUUID(),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { pledgeId } = req.params
+      const userId = req.user!.id
+      const { pledge, campaign, event } = await getPledgeForAdmin(pledgeId, userId)
+
+      if (pledge.status === 'voided') {
+        throw badRequest('This pledge has already been voided')
+      }
+
+      if (pledge.payment_status === 'paid') {
+        throw badRequest('This pledge has been paid; refund it before voiding')
+      }
+
+      if (event.status === 'ended') {
+        throw badRequest('Pledges cannot be voided after the event has ended')
+      }
+
+      await dbQuery(
+        `UPDATE fund_a_need_pledges SET
+          status = 'voided', voided_by = @userId, voided_at = GETUTCDATE(), updated_at = GETUTCDATE()
+         WHERE id = @pledgeId`,
+        { pledgeId, userId }
+      )
+
+      const totals = await announceCampaignTotal(campaign)
+
+      res.json({
+        message: 'Pledge voided',
+        totalPledged: totals.totalPledged,
+        pledgeCount: totals.pledgeCount,
+      })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Update a pledge's payment status (event admins, self-managed payments)
+router.patch(
+  '/fund-a-need/pledges/:pledgeId/payment-status',
+  authenticate,
+  [
+    param('pledgeId').isUUID(),
+    body('status').isIn(['pending', 'paid', 'payment_issue', 'waived', 'refunded']),
+    body('paymentMethodUsed').optional().isString(),
+    body('notes').optional().isString(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { pledgeId } = req.params
+      const userId = req.user!.id
+      const { status, paymentMethodUsed, notes } = req.body
+
+      const { pledge } = await getPledgeForAdmin(pledgeId, userId)
+
+      if (pledge.status === 'voided') {
+        throw badRequest('This pledge has been voided')
+      }
+
+      await dbQuery(
+        `UPDATE fund_a_need_pledges SET
+          payment_status = @status,
+          payment_confirmed_at = ${status === 'paid' ? 'GETUTCDATE()' : 'payment_confirmed_at'},
+          payment_confirmed_by = ${status === 'paid' ? '@confirmedBy' : 'payment_confirmed_by'},
+          payment_method_used = COALESCE(@paymentMethodUsed, payment_method_used),
+          payment_notes = COALESCE(@notes, payment_notes),
+          updated_at = GETUTCDATE()
+         WHERE id = @pledgeId`,
+        {
+          pledgeId,
+          status,
+          confirmedBy: userId,
+          paymentMethodUsed: paymentMethodUsed || null,
+          notes: notes || null,
+        }
+      )
+
+      res.json({
+        message: 'Payment status updated successfully',
+        status,
+        previousStatus: pledge.payment_status,
+      })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+export { router as fundANeedRoutes }
@@ -2,13 +2,17 @@ import { Router, Request, Response, NextFunction } from 'express'
 import { body, param, query, validationResult } from 'express-validator'
 import crypto from 'crypto'
 import multer from 'multer'
-import path from 'path'
 import { v4 as uuidv4 } from 'uuid'
 import { authenticate, optionalAuth } from '../middleware/auth.js'
 import { query as dbQuery } from '../config/database.js'
 import { badRequest, notFound, forbidden } from '../middleware/errorHandler.js'
 import { sendOrganizationInvitationEmail } from '../services/email.js'
-import { uploadToBlob, deleteImage } from '../services/storage.js'
+import { processAndUploadImage, deleteImageRenditions } from '../services/imageProcessing.js'
+import {
+  findNearbyZips,
+  postalCodeInZips,
+  MAX_SEARCH_RADIUS_MILES,
+} from '../services/zipCentroids.js'
 import {
   createOnboardingLink,
   getAccountStatus,
@@ -206,13 +210,21 @@ router.get(
     query('pageSize').optional().isInt({ min: 1, max: 50 }),
     query('search').optional().isString(),
     query('orgType').optional().isIn(['nonprofit', 'school', 'religious', 'club', 'company', 'other']),
+    query('near').optional().matches(/^\d{5}(-?\d{4})?$/).withMessage('Enter a 5-digit ZIP code'),
+    query('radius').optional().isFloat({ min: 1, max: MAX_SEARCH_RADIUS_MILES }),
   ],
   async (req: Request, res: Response, next: NextFunction) => {
     try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
       const page = parseInt(req.query.page as string) || 1
       const pageSize = parseInt(req.query.pageSize as string) || 12
       const search = req.query.search as string
       const orgType = req.query.orgType as string
+      const near = req.query.near as string
       const offset = (page - 1) * pageSize
 
       let whereClause = "WHERE status IN ('verified', 'unverified')"
@@ -228,6 +240,22 @@ router.get(
         params.orgType = orgType
       }
 
+      // Organizations with an upcoming or live public event picking up near the ZIP
+      if (near) {
+        const nearby = postalCodeInZips(
+          'ne.pickup_postal_code',
+          findNearbyZips(near, req.query.radius as string | undefined).zips
+        )
+        whereClause += ` AND EXISTS (
+          SELECT 1 FROM auction_events ne
+          WHERE ne.organization_id = organizations.id
+            AND ne.status IN ('scheduled', 'active')
+            AND (ne.visibility = 'public' OR ne.visibility IS NULL)
+            AND ${nearby.condition}
+        )`
+        Object.assign(params, nearby.params)
+      }
+
       // Get total count
       const countResult = await dbQuery(
         `SELECT COUNT(*) as total FROM organizations ${whereClause}`,
@@ -783,15 +811,10 @@ router.post(
       )
       const currentLogoUrl = currentResult.recordset[0]?.logo_url
 
-      // Generate unique blob name for the logo
-      const ext = path.extname(req.file.originalname).toLowerCase() || '.png'
-      const blobName = `organizations/${id}/logo-${uuidv4()}${ext}`
-
-      // Upload to blob storage
-      const logoUrl = await uploadToBlob(
+      // Process and upload the logo renditions
+      const { fullUrl: logoUrl } = await processAndUploadImage(
         req.file.buffer,
-        blobName,
-        req.file.mimetype
+        `organizations/${id}/logo-${uuidv4()}`
       )
 
       // Update organization with new logo URL
@@ -803,7 +826,7 @@ router.post(
       // Delete old logo if it exists
       if (currentLogoUrl) {
         try {
-          await deleteImage(currentLogoUrl)
+          await deleteImageRenditions(currentLogoUrl)
         } catch (deleteError) {
           console.error('Failed to delete old logo:', deleteError)
           // Don't fail the request if old logo deletion fails
@@ -842,7 +865,7 @@ router.delete(
 
       if (logoUrl) {
         // Delete from blob storage
-        await deleteImage(logoUrl)
+        await deleteImageRenditions(logoUrl)
 
         // Update organization
         await dbQuery(
@@ -1,5 +1,5 @@
 import { Router, Request, Response, NextFunction } from 'express'
-import { param, validationResult } from 'express-validator'
+import { body, param, validationResult } from 'express-validator'
 import { authenticate } from '../middleware/auth.js'
 import { query as dbQuery } from '../config/database.js'
 import { badRequest, notFound, forbidden } from '../middleware/errorHandler.js'
@@ -7,11 +7,16 @@ import {
   getPricingInfo,
   getEventFeeSummary,
   createWinnerPaymentIntent,
+  createPledgePaymentIntent,
+  createRafflePaymentIntent,
+  createCheckoutPaymentIntent,
+  getMyCheckouts,
   processEventCompletion,
   calculatePlatformFee,
   calculatePlatformFeeSync,
 } from '../services/platformFees.js'
 import { isFreeModeEnabled } from '../services/featureFlags.js'
+import { claimEventForCompletion, releaseEventClaim } from '../services/eventLifecycle.js'
 
 const router = Router()
 
@@ -104,7 +109,7 @@ router.get(
 /**
  * POST /api/platform-fees/event/:eventId/complete
  * Process event completion (end auction and calculate winners)
- * This is typically called by a scheduled job, but can be triggered manually by admin
+ * Normally handled by the event lifecycle scheduler, but can be triggered manually by admin
  */
 router.post(
   '/event/:eventId/complete',
@@ -150,7 +155,19 @@ router.post(
         throw badRequest('Event must be active to complete')
       }
 
-      const result = await processEventCompletion(eventId)
+      // Take the same lease the scheduler uses so the event is only finalized once
+      if (!(await claimEventForCompletion(eventId))) {
+        throw badRequest('Event is already being completed')
+      }
+
+      let result
+      try {
+        // Organizers may end the event early, even while soft close has items open
+        result = await processEventCompletion(eventId, { force: true })
+      } catch (error) {
+        await releaseEventClaim(eventId)
+        throw error
+      }
 
       res.json({
         success: true,
@@ -165,12 +182,13 @@ router.post(
 
 /**
  * POST /api/platform-fees/items/:itemId/pay
- * Create payment intent for a won item
+ * Create payment intent for a won item. With `coverFees` the winner also
+ * pays the processing fees so the organization nets the full amount.
  */
 router.post(
   '/items/:itemId/pay',
   authenticate,
-  [param('itemId').isUUID()],
+  [param('itemId').isUUID(), body('coverFees').optional().isBoolean()],
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const errors = validationResult(req)
@@ -181,7 +199,7 @@ router.post(
       const { itemId } = req.params
       const userId = req.user!.id
 
-      const result = await createWinnerPaymentIntent(itemId, userId)
+      const result = await createWinnerPaymentIntent(itemId, userId, req.body.coverFees === true)
 
       res.json({
         clientSecret: result.clientSecret,
@@ -189,6 +207,8 @@ router.post(
         breakdown: {
           winningBid: result.amount,
           platformFee: result.platformFee,
+          coverFeesAmount: result.coverFeesAmount,
+          feesCovered: result.feesCovered,
           total: result.itemTotal,
         },
       })
@@ -200,7 +220,9 @@ router.post(
 
 /**
  * GET /api/platform-fees/my-wins
- * Get user's winning items that need payment
+ * Get user's winning items that need payment, one entry per award
+ * (a user can win or buy several units of the same item). Wins the user
+ * defaulted on are forfeited and left out.
  */
 router.get(
   '/my-wins',
@@ -214,17 +236,20 @@ router.get(
 
       const result = await dbQuery(
         `SELECT
-          ei.id,
+          w.id,
+          ei.id as item_id,
           ei.title,
-          ei.current_bid as winning_amount,
+          w.amount as unit_amount,
+          w.quantity,
+          w.source,
           ei.status,
-          ei.payment_status,
-          ei.fulfillment_status,
-          ei.fulfillment_type,
-          ei.tracking_number,
-          ei.tracking_carrier,
-          ei.tracking_url,
-          ei.pickup_ready_at,
+          w.payment_status,
+          w.fulfillment_status,
+          w.fulfillment_type,
+          w.tracking_number,
+          w.tracking_carrier,
+          w.tracking_url,
+          w.pickup_ready_at,
           ae.name as event_name,
           ae.slug as event_slug,
           ae.end_time as event_ended_at,
@@ -241,32 +266,39 @@ router.get(
           ae.payment_due_days,
           o.name as organization_name,
           (SELECT TOP 1 blob_url FROM event_item_images WHERE item_id = ei.id ORDER BY display_order) as image_url
-         FROM event_items ei
+         FROM event_item_winners w
+         INNER JOIN event_items ei ON w.item_id = ei.id
          INNER JOIN auction_events ae ON ei.event_id = ae.id
          LEFT JOIN organizations o ON ae.organization_id = o.id
-         WHERE ei.winner_id = @userId
+         WHERE w.winner_id = @userId
            AND ei.status IN ('won', 'sold')
-         ORDER BY ae.end_time DESC`,
+           AND ISNULL(w.payment_status, 'pending') <> 'defaulted'
+         ORDER BY ae.end_time DESC, w.won_at DESC`,
         { userId }
       )
 
       const wins = result.recordset.map((row: any) => {
         const isSelfManaged = row.payment_mode === 'self_managed'
         const noFees = isSelfManaged || freeMode
-        const platformFee = noFees ? 0 : calculatePlatformFeeSync(row.winning_amount, freeMode)
+        const winningAmount = parseFloat(row.unit_amount) * row.quantity
+        const platformFee = noFees ? 0 : calculatePlatformFeeSync(winningAmount, freeMode)
 
         return {
           id: row.id,
+          itemId: row.item_id,
           title: row.title,
-          winningAmount: row.winning_amount,
+          winningAmount,
+          unitAmount: parseFloat(row.unit_amount),
+          quantity: row.quantity,
+          source: row.source,
           platformFee,
-          total: row.winning_amount + platformFee,
+          total: winningAmount + platformFee,
           status: row.status,
           eventName: row.event_name,
           eventSlug: row.event_slug,
           eventEndedAt: row.event_ended_at,
           imageUrl: row.image_url,
-          paymentPending: row.status === 'won',
+          paymentPending: row.payment_status === 'pending',
           // Self-managed payment info
           paymentMode: row.payment_mode || 'integrated',
           paymentInstructions: row.payment_instructions,
@@ -274,7 +306,7 @@ router.get(
           paymentQrCodeUrl: row.payment_qr_code_url,
           paymentDueDays: row.payment_due_days,
           organizationName: row.organization_name,
-          // Item-level payment/fulfillment tracking
+          // Per-winner payment/fulfillment tracking
           paymentStatus: row.payment_status || 'pending',
           fulfillmentStatus: row.fulfillment_status || 'pending',
           fulfillmentType: row.fulfillment_type || row.event_fulfillment_type,
@@ -302,6 +334,233 @@ router.get(
   }
 )
 
+/**
+ * GET /api/platform-fees/my-checkouts
+ * Get what the user owes each event (unpaid wins, pledges and raffle tickets),
+ * itemized, for paying each event's balance at once
+ */
+router.get(
+  '/my-checkouts',
+  authenticate,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json(await getMyCheckouts(req.user!.id))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+/**
+ * POST /api/platform-fees/events/:eventId/checkout
+ * Create one payment intent for everything the user owes an event,
+ * optionally covering the processing fees (`coverFees`)
+ */
+router.post(
+  '/events/:eventId/checkout',
+  authenticate,
+  [param('eventId').isUUID(), body('coverFees').optional().isBoolean()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const result = await createCheckoutPaymentIntent(req.params.eventId, req.user!.id, req.body.coverFees === true)
+
+      res.json({
+        clientSecret: result.clientSecret,
+        paymentIntentId: result.paymentIntentId,
+        checkoutId: result.checkoutId,
+        breakdown: result.summary,
+      })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+/**
+ * POST /api/platform-fees/pledges/:pledgeId/pay
+ * Create payment intent for a fund-a-need pledge
+ */
+router.post(
+  '/pledges/:pledgeId/pay',
+  authenticate,
+  [param('pledgeId').isUUID()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const result = await createPledgePaymentIntent(req.params.pledgeId, req.user!.id)
+
+      res.json({
+        clientSecret: result.clientSecret,
+        paymentIntentId: result.paymentIntentId,
+        breakdown: {
+          pledge: result.amount,
+          platformFee: 0,
+          total: result.amount,
+        },
+      })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+/**
+ * GET /api/platform-fees/my-pledges
+ * Get user's fund-a-need pledges and their payment status
+ */
+router.get(
+  '/my-pledges',
+  authenticate,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.user!.id
+
+      const result = await dbQuery(
+        `SELECT
+          p.id,
+          p.amount,
+          p.payment_status,
+          p.created_at,
+          c.title as campaign_title,
+          ae.name as event_name,
+          ae.slug as event_slug,
+          ae.status as event_status,
+          ae.payment_mode,
+          ae.payment_instructions,
+          ae.payment_link,
+          o.name as organization_name
+         FROM fund_a_need_pledges p
+         INNER JOIN fund_a_need_campaigns c ON p.campaign_id = c.id
+         INNER JOIN auction_events ae ON p.event_id = ae.id
+         LEFT JOIN organizations o ON ae.organization_id = o.id
+         WHERE p.donor_id = @userId AND p.status = 'active'
+         ORDER BY p.created_at DESC`,
+        { userId }
+      )
+
+      res.json(result.recordset.map((row: any) => ({
+        id: row.id,
+        amount: parseFloat(row.amount),
+        campaignTitle: row.campaign_title,
+        eventName: row.event_name,
+        eventSlug: row.event_slug,
+        eventStatus: row.event_status,
+        paymentStatus: row.payment_status,
+        paymentPending: row.payment_status === 'pending',
+        paymentMode: row.payment_mode || 'integrated',
+        paymentInstructions: row.payment_instructions,
+        paymentLink: row.payment_link,
+        organizationName: row.organization_name,
+        createdAt: row.created_at,
+      })))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+/**
+ * POST /api/platform-fees/raffle-tickets/:purchaseId/pay
+ * Create payment intent for a raffle ticket purchase
+ */
+router.post(
+  '/raffle-tickets/:purchaseId/pay',
+  authenticate,
+  [param('purchaseId').isUUID()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const result = await createRafflePaymentIntent(req.params.purchaseId, req.user!.id)
+
+      res.json({
+        clientSecret: result.clientSecret,
+        paymentIntentId: result.paymentIntentId,
+        breakdown: {
+          tickets: result.amount,
+          platformFee: 0,
+          total: result.amount,
+        },
+      })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+/**
+ * GET /api/platform-fees/my-raffle-tickets
+ * Get user's raffle ticket purchases and their payment status
+ */
+router.get(
+  '/my-raffle-tickets',
+  authenticate,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.user!.id
+
+      const result = await dbQuery(
+        `SELECT
+          p.id,
+          p.ticket_count,
+          p.first_ticket,
+          p.last_ticket,
+          p.amount,
+          p.payment_status,
+          p.created_at,
+          r.title as raffle_title,
+          r.status as raffle_status,
+          ae.name as event_name,
+          ae.slug as event_slug,
+          ae.payment_mode,
+          ae.payment_instructions,
+          ae.payment_link,
+          o.name as organization_name
+         FROM raffle_ticket_purchases p
+         INNER JOIN event_raffles r ON p.raffle_id = r.id
+         INNER JOIN auction_events ae ON p.event_id = ae.id
+         LEFT JOIN organizations o ON ae.organization_id = o.id
+         WHERE p.buyer_id = @userId AND p.payment_status != 'refunded'
+         ORDER BY p.created_at DESC`,
+        { userId }
+      )
+
+      res.json(result.recordset.map((row: any) => ({
+        id: row.id,
+        ticketCount: row.ticket_count,
+        firstTicket: row.first_ticket,
+        lastTicket: row.last_ticket,
+        amount: parseFloat(row.amount),
+        raffleTitle: row.raffle_title,
+        raffleStatus: row.raffle_status,
+        eventName: row.event_name,
+        eventSlug: row.event_slug,
+        paymentStatus: row.payment_status,
+        paymentPending: row.payment_status === 'pending' && row.raffle_status !== 'drawn',
+        paymentMode: row.payment_mode || 'integrated',
+        paymentInstructions: row.payment_instructions,
+        paymentLink: row.payment_link,
+        organizationName: row.organization_name,
+        createdAt: row.created_at,
+      })))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
 /**
  * GET /api/platform-fees/history
  * Get user's platform fee payment history (as event organizer)
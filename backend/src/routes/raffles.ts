@@ -0,0 +1,698 @@
+import { Router, Request, Response, NextFunction } from 'express'
+import { body, param, validationResult } from 'express-validator'
+import { authenticate, optionalAuth } from '../middleware/auth.js'
+import { query as dbQuery, withTransaction, QueryFn } from '../config/database.js'
+import { badRequest, notFound, forbidden } from '../middleware/errorHandler.js'
+import { isRafflesEnabled } from '../services/featureFlags.js'
+import { notifyRaffleWon } from '../services/notifications.js'
+import { drawRaffle, quoteTickets, RAFFLE_DRAW_ALGORITHM } from '../services/raffles.js'
+
+// Raffles within an event: ticket sales (single or bundled), payment
+// tracking, and an auditable drawing. Everything here sits behind the
+// raffles_enabled feature flag.
+
+const router = Router()
+
+// Raffles stay hidden until the platform enables them
+async function requireRafflesEnabled(_req: Request, _res: Response, next: NextFunction) {
+  try {
+    if (!(await isRafflesEnabled())) {
+      throw forbidden('Raffles are not available')
+    }
+    next()
+  } catch (error) {
+    next(error)
+  }
+}
+
+// Helper to check event admin access (owner or org owner/admin)
+async function checkEventAccess(eventId: string, userId: string) {
+  const result = await dbQuery(
+    `SELECT e.*,
+            CASE
+              WHEN e.owner_id = @userId THEN 'owner'
+              WHEN e.organization_id IS NOT NULL THEN (
+                SELECT role FROM organization_members
+                WHERE organization_id = e.organization_id AND user_id = @userId
+              )
+              ELSE NULL
+            END as user_role
+     FROM auction_events e
+     WHERE e.id = @eventId`,
+    { eventId, userId }
+  )
+
+  if (result.recordset.length === 0) {
+    return null
+  }
+
+  const event = result.recordset[0]
+
+  if (event.user_role === 'owner' || event.user_role === 'admin') {
+    return { event, role: event.user_role }
+  }
+
+  return null
+}
+
+// Helper to load a raffle along with its event, checking admin access
+async function getRaffleForAdmin(raffleId: string, userId: string) {
+  const result = await dbQuery(
+    'SELECT * FROM event_raffles WHERE id = @raffleId',
+    { raffleId }
+  )
+
+  if (result.recordset.length === 0) {
+    throw notFound('Raffle not found')
+  }
+
+  const raffle = result.recordset[0]
+  const access = await checkEventAccess(raffle.event_id, userId)
+  if (!access) {
+    throw forbidden('You do not have permission to manage raffles for this event')
+  }
+
+  return { raffle, event: access.event }
+}
+
+// Helper to replace a raffle's bundles
+async function saveBundles(
+  raffleId: string,
+  bundles: { ticketCount: number; price: number }[],
+  runQuery: QueryFn
+) {
+  await runQuery('DELETE FROM raffle_bundles WHERE raffle_id = @raffleId', { raffleId })
+
+  for (const bundle of bundles) {
+    await runQuery(
+      `INSERT INTO raffle_bundles (raffle_id, ticket_count, price)
+       VALUES (@raffleId, @ticketCount, @price)`,
+      { raffleId, ticketCount: bundle.ticketCount, price: bundle.price }
+    )
+  }
+}
+
+function formatRaffle(raffle: any, bundles: any[], winners: any[]) {
+  return {
+    id: raffle.id,
+    eventId: raffle.event_id,
+    title: raffle.title,
+    description: raffle.description,
+    prizeDescription: raffle.prize_description,
+    ticketPrice: parseFloat(raffle.ticket_price),
+    maxTicketsPerPerson: raffle.max_tickets_per_person,
+    numberOfWinners: raffle.number_of_winners,
+    status: raffle.status,
+    bundles: bundles
+      .filter((bundle) => bundle.raffle_id === raffle.id)
+      .map((bundle) => ({
+        id: bundle.id,
+        ticketCount: bundle.ticket_count,
+        price: parseFloat(bundle.price),
+      })),
+    ticketsSold: raffle.tickets_sold ?? 0,
+    myTickets: raffle.my_tickets ?? 0,
+    drawnAt: raffle.drawn_at,
+    winners: winners
+      .filter((winner) => winner.raffle_id === raffle.id)
+      .map((winner) => ({
+        place: winner.place,
+        ticketNumber: winner.ticket_number,
+        winnerName: winner.winner_name,
+      })),
+  }
+}
+
+function formatPurchase(purchase: any) {
+  return {
+    id: purchase.id,
+    raffleId: purchase.raffle_id,
+    buyer: {
+      id: purchase.buyer_id,
+      name: purchase.buyer_name,
+      email: purchase.buyer_email,
+    },
+    ticketCount: purchase.ticket_count,
+    firstTicket: purchase.first_ticket,
+    lastTicket: purchase.last_ticket,
+    amount: parseFloat(purchase.amount),
+    paymentStatus: purchase.payment_status,
+    paymentConfirmedAt: purchase.payment_confirmed_at,
+    paymentMethodUsed: purchase.payment_method_used,
+    paymentNotes: purchase.payment_notes,
+    createdAt: purchase.created_at,
+  }
+}
+
+// Helper to load raffles with their bundles, sales and winners
+async function getRaffles(where: string, params: Record<string, any>, userId: string | null) {
+  const raffleResult = await dbQuery(
+    `SELECT r.*,
+            (SELECT COALESCE(SUM(p.ticket_count), 0) FROM raffle_ticket_purchases p
+             WHERE p.raffle_id = r.id AND p.payment_status != 'refunded') as tickets_sold,
+            (SELECT COALESCE(SUM(p.ticket_count), 0) FROM raffle_ticket_purchases p
+             WHERE p.raffle_id = r.id AND p.buyer_id = @userId AND p.payment_status != 'refunded') as my_tickets
+     FROM event_raffles r
+     WHERE ${where}
+     ORDER BY r.created_at ASC`,
+    { ...params, userId }
+  )
+
+  const raffles = raffleResult.recordset
+  if (raffles.length === 0) {
+    return []
+  }
+
+  const idParams = raffles.reduce((acc: any, r: any, idx: number) => ({ ...acc, [`raffle${idx}`]: r.id }), {})
+  const idList = raffles.map((_: any, idx: number) => `@raffle${idx}`).join(',')
+
+  const bundleResult = await dbQuery(
+    `SELECT * FROM raffle_bundles WHERE raffle_id IN (${idList}) ORDER BY ticket_count ASC`,
+    idParams
+  )
+
+  const winnerResult = await dbQuery(
+    `SELECT w.raffle_id, w.place, w.ticket_number, u.display_name as winner_name
+     FROM raffle_winners w
+     LEFT JOIN users u ON w.winner_id = u.id
+     WHERE w.raffle_id IN (${idList})
+     ORDER BY w.place ASC`,
+    idParams
+  )
+
+  return raffles.map((raffle: any) => formatRaffle(raffle, bundleResult.recordset, winnerResult.recordset))
+}
+
+const bundleValidators = [
+  body('bundles').optional().isArray({ max: 10 }),
+  body('bundles.*.ticketCount').isInt({ min: 2, max: 1000 }),
+  body('bundles.*.price').isFloat({ min: 0.01 }),
+]
+
+// List an event's raffles (empty while raffles are disabled)
+router.get(
+  '/events/:eventId/raffles',
+  optionalAuth,
+  param('eventId').isUUID(),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      if (!(await isRafflesEnabled())) {
+        res.json([])
+        return
+      }
+
+      res.json(await getRaffles('r.event_id = @eventId', { eventId: req.params.eventId }, req.user?.id || null))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Create a raffle
+router.post(
+  '/events/:eventId/raffles',
+  authenticate,
+  requireRafflesEnabled,
+  [
+    param('eventId').isUUID(),
+    body('title').isString().trim().isLength({ min: 1, max: 255 }),
+    body('description').optional({ nullable: true }).isString().isLength({ max: 5000 }),
+    body('prizeDescription').optional({ nullable: true }).isString().isLength({ max: 1000 }),
+    body('ticketPrice').isFloat({ min: 0.01 }),
+    body('maxTicketsPerPerson').optional({ nullable: true }).isInt({ min: 1 }),
+    body('numberOfWinners').optional().isInt({ min: 1, max: 100 }),
+    ...bundleValidators,
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { eventId } = req.params
+      const userId = req.user!.id
+      const {
+        title,
+        description,
+        prizeDescription,
+        ticketPrice,
+        maxTicketsPerPerson,
+        numberOfWinners = 1,
+        bundles = [],
+      } = req.body
+
+      const access = await checkEventAccess(eventId, userId)
+      if (!access) {
+        throw forbidden('You do not have permission to manage raffles for this event')
+      }
+
+      if (access.event.status === 'ended' || access.event.status === 'cancelled') {
+        throw badRequest('Cannot add a raffle to an ended or cancelled event')
+      }
+
+      const raffleId = await withTransaction(async (tx) => {
+        const result = await tx(
+          `INSERT INTO event_raffles (
+            event_id, title, description, prize_description, ticket_price,
+            max_tickets_per_person, number_of_winners, created_by, created_at, updated_at
+          )
+          OUTPUT INSERTED.id
+          VALUES (
+            @eventId, @title, @description, @prizeDescription, @ticketPrice,
+            @maxTicketsPerPerson, @numberOfWinners, @userId, GETUTCDATE(), GETUTCDATE()
+          )`,
+          {
+            eventId,
+            title,
+            description: description || null,
+            prizeDescription: prizeDescription || null,
+            ticketPrice,
+            maxTicketsPerPerson: maxTicketsPerPerson || null,
+            numberOfWinners,
+            userId,
+          }
+        )
+
+        const id = result.recordset[0].id
+        await saveBundles(id, bundles, tx)
+        return id
+      })
+
+      const [raffle] = await getRaffles('r.id = @raffleId', { raffleId }, userId)
+      res.status(201).json(raffle)
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Update a raffle before it is drawn; bundles, when given, replace the existing ones
+router.put(
+  '/raffles/:raffleId',
+  authenticate,
+  requireRafflesEnabled,
+  [
+    param('raffleId').isUUID(),
+    body('title').optional().isString().trim().isLength({ min: 1, max: 255 }),
+    body('description').optional({ nullable: true }).isString().isLength({ max: 5000 }),
+    body('prizeDescription').optional({ nullable: true }).isString().isLength({ max: 1000 }),
+    body('ticketPrice').optional().isFloat({ min: 0.01 }),
+    body('maxTicketsPerPerson').optional({ nullable: true }).isInt({ min: 1 }),
+    body('numberOfWinners').optional().isInt({ min: 1, max: 100 }),
+    body('status').optional().isIn(['open', 'closed']),
+    ...bundleValidators,
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { raffleId } = req.params
+      const userId = req.user!.id
+      const {
+        title,
+        description,
+        prizeDescription,
+        ticketPrice,
+        maxTicketsPerPerson,
+        numberOfWinners,
+        status,
+        bundles,
+      } = req.body
+
+      const { raffle } = await getRaffleForAdmin(raffleId, userId)
+
+      if (raffle.status === 'drawn') {
+        throw badRequest('This raffle has already been drawn')
+      }
+
+      await withTransaction(async (tx) => {
+        await tx(
+          `UPDATE event_raffles SET
+            title = COALESCE(@title, title),
+            description = ${description !== undefined ? '@description' : 'description'},
+            prize_description = ${prizeDescription !== undefined ? '@prizeDescription' : 'prize_description'},
+            ticket_price = COALESCE(@ticketPrice, ticket_price),
+            max_tickets_per_person = ${maxTicketsPerPerson !== undefined ? '@maxTicketsPerPerson' : 'max_tickets_per_person'},
+            number_of_winners = COALESCE(@numberOfWinners, number_of_winners),
+            status = COALESCE(@status, status),
+            updated_at = GETUTCDATE()
+           WHERE id = @raffleId`,
+          {
+            raffleId,
+            title: title || null,
+            description: description || null,
+            prizeDescription: prizeDescription || null,
+            ticketPrice: ticketPrice ?? null,
+            maxTicketsPerPerson: maxTicketsPerPerson || null,
+            numberOfWinners: numberOfWinners ?? null,
+            status: status || null,
+          }
+        )
+
+        if (bundles) {
+          await saveBundles(raffleId, bundles, tx)
+        }
+      })
+
+      const [updated] = await getRaffles('r.id = @raffleId', { raffleId }, userId)
+      res.json(updated)
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Delete a raffle that hasn't sold any tickets
+router.delete(
+  '/raffles/:raffleId',
+  authenticate,
+  requireRafflesEnabled,
+  param('raffleId').isUUID(),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { raffleId } = req.params
+      const { raffle } = await getRaffleForAdmin(raffleId, req.user!.id)
+
+      if (raffle.tickets_issued > 0) {
+        throw badRequest('Cannot delete a raffle that has sold tickets; close it instead')
+      }
+
+      await dbQuery('DELETE FROM event_raffles WHERE id = @raffleId', { raffleId })
+
+      res.json({ message: 'Raffle deleted' })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Buy tickets: one bundle, or a number of single tickets
+router.post(
+  '/raffles/:raffleId/tickets',
+  authenticate,
+  requireRafflesEnabled,
+  [
+    param('raffleId').isUUID(),
+    body('bundleId').optional().isUUID(),
+    body('ticketCount').optional().isInt({ min: 1, max: 1000 }),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { raffleId } = req.params
+      const userId = req.user!.id
+      const { bundleId, ticketCount } = req.body
+
+      const purchase = await withTransaction(async (tx) => {
+        // Lock the raffle so ticket numbers and per-person limits hold under concurrent purchases
+        const raffleResult = await tx(
+          `SELECT r.*, e.status as event_status
+           FROM event_raffles r WITH (UPDLOCK, ROWLOCK)
+           INNER JOIN auction_events e ON r.event_id = e.id
+           WHERE r.id = @raffleId`,
+          { raffleId }
+        )
+
+        if (raffleResult.recordset.length === 0) {
+          throw notFound('Raffle not found')
+        }
+
+        const raffle = raffleResult.recordset[0]
+
+        if (raffle.event_status !== 'scheduled' && raffle.event_status !== 'active') {
+          throw badRequest('Raffle tickets are not on sale for this event')
+        }
+
+        if (raffle.status !== 'open') {
+          throw badRequest('This raffle is no longer selling tickets')
+        }
+
+        const bundleResult = await tx('SELECT * FROM raffle_bundles WHERE raffle_id = @raffleId', { raffleId })
+        const quote = quoteTickets(raffle, bundleResult.recordset, { bundleId, ticketCount })
+
+        if (raffle.max_tickets_per_person) {
+          const heldResult = await tx(
+            `SELECT COALESCE(SUM(ticket_count), 0) as held
+             FROM raffle_ticket_purchases
+             WHERE raffle_id = @raffleId AND buyer_id = @userId AND payment_status != 'refunded'`,
+            { raffleId, userId }
+          )
+
+          const held = heldResult.recordset[0].held
+          if (held + quote.ticketCount > raffle.max_tickets_per_person) {
+            const left = Math.max(0, raffle.max_tickets_per_person - held)
+            throw badRequest(
+              left > 0
+                ? `You can buy ${left} more ticket${left === 1 ? '' : 's'} in this raffle`
+                : 'You have reached the ticket limit for this raffle'
+            )
+          }
+        }
+
+        const issuedResult = await tx(
+          `UPDATE event_raffles SET tickets_issued = tickets_issued + @ticketCount, updated_at = GETUTCDATE()
+           OUTPUT INSERTED.tickets_issued
+           WHERE id = @raffleId`,
+          { raffleId, ticketCount: quote.ticketCount }
+        )
+
+        const lastTicket = issuedResult.recordset[0].tickets_issued
+        const firstTicket = lastTicket - quote.ticketCount + 1
+
+        const result = await tx(
+          `INSERT INTO raffle_ticket_purchases (
+            raffle_id, event_id, buyer_id, ticket_count, first_ticket, last_ticket, amount, bundle_id,
+            created_at, updated_at
+          )
+          OUTPUT INSERTED.*
+          VALUES (
+            @raffleId, @eventId, @userId, @ticketCount, @firstTicket, @lastTicket, @amount, @bundleId,
+            GETUTCDATE(), GETUTCDATE()
+          )`,
+          {
+            raffleId,
+            eventId: raffle.event_id,
+            userId,
+            ticketCount: quote.ticketCount,
+            firstTicket,
+            lastTicket,
+            amount: quote.amount,
+            bundleId: quote.bundleId,
+          }
+        )
+
+        return result.recordset[0]
+      })
+
+      res.status(201).json(formatPurchase(purchase))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// List a raffle's ticket purchases (event admins)
+router.get(
+  '/raffles/:raffleId/purchases',
+  authenticate,
+  requireRafflesEnabled,
+  param('raffleId').isUUID(),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { raffleId } = req.params
+      await getRaffleForAdmin(raffleId, req.user!.id)
+
+      const result = await dbQuery(
+        `SELECT p.*, u.display_name as buyer_name, u.email as buyer_email
+         FROM raffle_ticket_purchases p
+         LEFT JOIN users u ON p.buyer_id = u.id
+         WHERE p.raffle_id = @raffleId
+         ORDER BY p.first_ticket ASC`,
+        { raffleId }
+      )
+
+      res.json(result.recordset.map(formatPurchase))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Update a ticket purchase's payment status (event admins, self-managed payments)
+router.patch(
+  '/raffles/purchases/:purchaseId/payment-status',
+  authenticate,
+  requireRafflesEnabled,
+  [
+    param('purchaseId').isUUID(),
+    body('status').isIn(['pending', 'paid', 'payment_issue', 'waived', 'refunded']),
+    body('paymentMethodUsed').optional().isString(),
+    body('notes').optional().isString(),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { purchaseId } = req.params
+      const userId = req.user!.id
+      const { status, paymentMethodUsed, notes } = req.body
+
+      const purchaseResult = await dbQuery(
+        'SELECT * FROM raffle_ticket_purchases WHERE id = @purchaseId',
+        { purchaseId }
+      )
+
+      if (purchaseResult.recordset.length === 0) {
+        throw notFound('Ticket purchase not found')
+      }
+
+      const purchase = purchaseResult.recordset[0]
+      const { raffle } = await getRaffleForAdmin(purchase.raffle_id, userId)
+
+      // The draw's entries are fixed once it has run
+      if (raffle.status === 'drawn') {
+        throw badRequest('This raffle has already been drawn')
+      }
+
+      await dbQuery(
+        `UPDATE raffle_ticket_purchases SET
+          payment_status = @status,
+          payment_confirmed_at = ${status === 'paid' ? 'GETUTCDATE()' : 'payment_confirmed_at'},
+          payment_confirmed_by = ${status === 'paid' ? '@confirmedBy' : 'payment_confirmed_by'},
+          payment_method_used = COALESCE(@paymentMethodUsed, payment_method_used),
+          payment_notes = COALESCE(@notes, payment_notes),
+          updated_at = GETUTCDATE()
+         WHERE id = @purchaseId`,
+        {
+          purchaseId,
+          status,
+          confirmedBy: userId,
+          paymentMethodUsed: paymentMethodUsed || null,
+          notes: notes || null,
+        }
+      )
+
+      res.json({
+        message: 'Payment status updated successfully',
+        status,
+        previousStatus: purchase.payment_status,
+      })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Draw the winners (event admins). Only paid or waived tickets are entered.
+router.post(
+  '/raffles/:raffleId/draw',
+  authenticate,
+  requireRafflesEnabled,
+  param('raffleId').isUUID(),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { raffleId } = req.params
+      const userId = req.user!.id
+      await getRaffleForAdmin(raffleId, userId)
+
+      const outcome = await withTransaction((tx) => drawRaffle(raffleId, userId, tx))
+
+      for (const winner of outcome.winners) {
+        notifyRaffleWon(winner.winnerId, outcome.title, winner.ticketNumber, outcome.prizeDescription, outcome.eventId)
+          .catch((err) => console.error('Failed to notify raffle winner:', err))
+      }
+
+      const [raffle] = await getRaffles('r.id = @raffleId', { raffleId }, userId)
+      res.json({
+        raffle,
+        seed: outcome.seed,
+        entryCount: outcome.entryCount,
+      })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// The draw's audit record: anyone can re-run drawWinningTickets(seed, entries, numberOfWinners)
+router.get(
+  '/raffles/:raffleId/draw',
+  optionalAuth,
+  requireRafflesEnabled,
+  param('raffleId').isUUID(),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { raffleId } = req.params
+
+      const raffleResult = await dbQuery(
+        'SELECT * FROM event_raffles WHERE id = @raffleId',
+        { raffleId }
+      )
+
+      if (raffleResult.recordset.length === 0) {
+        throw notFound('Raffle not found')
+      }
+
+      const raffle = raffleResult.recordset[0]
+      if (raffle.status !== 'drawn') {
+        throw badRequest('This raffle has not been drawn yet')
+      }
+
+      const winnerResult = await dbQuery(
+        'SELECT place, ticket_number FROM raffle_winners WHERE raffle_id = @raffleId ORDER BY place ASC',
+        { raffleId }
+      )
+
+      res.json({
+        raffleId,
+        algorithm: raffle.draw_algorithm || RAFFLE_DRAW_ALGORITHM,
+        seed: raffle.draw_seed,
+        entries: JSON.parse(raffle.draw_entries || '[]'),
+        entryCount: raffle.draw_entry_count,
+        numberOfWinners: raffle.number_of_winners,
+        drawnAt: raffle.drawn_at,
+        winningTickets: winnerResult.recordset.map((w: any) => w.ticket_number),
+      })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+export { router as raffleRoutes }
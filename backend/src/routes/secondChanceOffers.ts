@@ -0,0 +1,230 @@
+import { Router, Request, Response, NextFunction } from 'express'
+import { body, param, validationResult } from 'express-validator'
+import { authenticate } from '../middleware/auth.js'
+import { query as dbQuery, withTransaction } from '../config/database.js'
+import { badRequest, notFound, forbidden } from '../middleware/errorHandler.js'
+import {
+  acceptSecondChanceOffer,
+  createSecondChanceOffer,
+  declineSecondChanceOffer,
+  findRunnerUp,
+  getBidderOffer,
+  getItemOffers,
+  markAwardDefaulted,
+  DEFAULT_OFFER_HOURS,
+} from '../services/secondChanceOffers.js'
+import { isFreeModeEnabled } from '../services/featureFlags.js'
+import { notifyAuctionWon, notifySecondChanceOffer } from '../services/notifications.js'
+
+// Second-chance offers: organizers mark an unpaid win defaulted and offer the
+// item to the runner-up, who accepts or declines through an expiring link.
+
+const router = Router()
+
+// Helper to check event admin access (owner or org owner/admin)
+async function checkEventAccess(eventId: string, userId: string) {
+  const result = await dbQuery(
+    `SELECT e.*,
+            CASE
+              WHEN e.owner_id = @userId THEN 'owner'
+              WHEN e.organization_id IS NOT NULL THEN (
+                SELECT role FROM organization_members
+                WHERE organization_id = e.organization_id AND user_id = @userId
+              )
+              ELSE NULL
+            END as user_role
+     FROM auction_events e
+     WHERE e.id = @eventId`,
+    { eventId, userId }
+  )
+
+  if (result.recordset.length === 0) {
+    return null
+  }
+
+  const event = result.recordset[0]
+
+  if (event.user_role === 'owner' || event.user_role === 'admin') {
+    return { event, role: event.user_role }
+  }
+
+  return null
+}
+
+// Helper to load an item and check the user administers its event
+async function getItemForAdmin(itemId: string, userId: string) {
+  const result = await dbQuery(
+    'SELECT id, event_id, title FROM event_items WHERE id = @itemId',
+    { itemId }
+  )
+
+  if (result.recordset.length === 0) {
+    throw notFound('Item not found')
+  }
+
+  const item = result.recordset[0]
+  if (!(await checkEventAccess(item.event_id, userId))) {
+    throw forbidden('Only event admins can manage second-chance offers')
+  }
+
+  return item
+}
+
+// Mark a win defaulted when the winner never paid (event admins)
+router.post(
+  '/event-items/:id/wins/:winId/default',
+  authenticate,
+  [
+    param('id').isUUID(),
+    param('winId').isUUID(),
+    body('notes').optional().isString().isLength({ max: 500 }),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { id, winId } = req.params
+      await getItemForAdmin(id, req.user!.id)
+
+      await withTransaction((tx) => markAwardDefaulted(id, winId, req.body.notes || null, tx))
+
+      res.json({
+        message: 'Win marked defaulted',
+        status: 'defaulted',
+        runnerUp: await findRunnerUp(id),
+      })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// The bidder next in line and the offers made so far on an item (event admins)
+router.get(
+  '/event-items/:id/second-chance-offers',
+  authenticate,
+  [param('id').isUUID()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { id } = req.params
+      await getItemForAdmin(id, req.user!.id)
+
+      res.json({
+        runnerUp: await findRunnerUp(id),
+        offers: await getItemOffers(id),
+      })
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Offer a defaulted win to the runner-up at their bid (event admins)
+router.post(
+  '/event-items/:id/wins/:winId/second-chance-offers',
+  authenticate,
+  [
+    param('id').isUUID(),
+    param('winId').isUUID(),
+    body('expiresInHours').optional().isInt({ min: 1, max: 168 }),
+  ],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const { id, winId } = req.params
+      const expiresInHours = req.body.expiresInHours ? parseInt(req.body.expiresInHours) : DEFAULT_OFFER_HOURS
+      await getItemForAdmin(id, req.user!.id)
+
+      const offer = await withTransaction((tx) =>
+        createSecondChanceOffer(id, winId, req.user!.id, expiresInHours, tx)
+      )
+
+      notifySecondChanceOffer(
+        offer.bidderId, offer.itemTitle, offer.eventId, offer.itemId, offer.id, offer.amount, offer.expiresAt
+      ).catch((err) => console.error('Failed to notify bidder of second-chance offer:', err))
+
+      res.status(201).json(offer)
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// View an offer made to me
+router.get(
+  '/second-chance-offers/:offerId',
+  authenticate,
+  [param('offerId').isUUID()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      res.json(await getBidderOffer(req.params.offerId, req.user!.id))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Accept an offer: the item is mine at my bid, awaiting payment
+router.post(
+  '/second-chance-offers/:offerId/accept',
+  authenticate,
+  [param('offerId').isUUID()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const freeMode = await isFreeModeEnabled()
+      const offer = await withTransaction((tx) =>
+        acceptSecondChanceOffer(req.params.offerId, req.user!.id, freeMode, tx)
+      )
+
+      notifyAuctionWon(offer.bidderId, offer.itemTitle, offer.amount * offer.quantity, offer.eventId, offer.itemId)
+        .catch((err) => console.error('Failed to notify bidder of accepted offer:', err))
+
+      res.json(offer)
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Decline an offer
+router.post(
+  '/second-chance-offers/:offerId/decline',
+  authenticate,
+  [param('offerId').isUUID()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      res.json(await withTransaction((tx) => declineSecondChanceOffer(req.params.offerId, req.user!.id, tx)))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+export { router as secondChanceOfferRoutes }
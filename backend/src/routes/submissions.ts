@@ -3,6 +3,7 @@ import { body, param, query, validationResult } from 'express-validator'
 import { authenticate } from '../middleware/auth.js'
 import { query as dbQuery } from '../config/database.js'
 import { badRequest, notFound, forbidden } from '../middleware/errorHandler.js'
+import { resolveItemCategory } from '../services/eventCategories.js'
 import { v4 as uuidv4 } from 'uuid'
 import {
   sendItemApprovedEmail,
@@ -248,7 +249,7 @@ router.get(
 
       // Get images
       const imagesResult = await dbQuery(
-        `SELECT id, blob_url, thumbnail_url, original_filename, file_size_bytes, mime_type, display_order, is_primary
+        `SELECT id, blob_url, medium_url, thumbnail_url, original_filename, file_size_bytes, mime_type, display_order, is_primary
          FROM submission_images
          WHERE submission_id = @submissionId
          ORDER BY display_order`,
@@ -288,6 +289,7 @@ router.get(
         images: imagesResult.recordset.map(img => ({
           id: img.id,
           url: img.blob_url,
+          mediumUrl: img.medium_url,
           thumbnailUrl: img.thumbnail_url,
           filename: img.original_filename,
           size: img.file_size_bytes,
@@ -586,9 +588,10 @@ router.post(
     param('eventId').notEmpty(),
     param('submissionId').isUUID(),
     body('startingBid').optional().isFloat({ min: 0 }),
-    body('bidIncrement').optional().isFloat({ min: 1 }),
     body('buyNowPrice').optional().isFloat({ min: 0 }),
+    body('reservePrice').optional().isFloat({ min: 0 }),
     body('categoryId').optional().isUUID(),
+    body('fairMarketValue').optional().isFloat({ min: 0 }),
   ],
   async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -609,7 +612,7 @@ router.post(
       }
 
       const { submissionId } = req.params
-      const { startingBid, bidIncrement, buyNowPrice, categoryId } = req.body
+      const { startingBid, buyNowPrice, reservePrice, categoryId, fairMarketValue } = req.body
 
       // Check submission exists and is approved
       const existing = await dbQuery(
@@ -630,40 +633,45 @@ router.post(
         throw badRequest('This submission has already been converted to an event item')
       }
 
-      // Create event item
+      const itemCategory = await resolveItemCategory(eventId, { categoryId })
+
+      // Create event item (bid increments come from the event)
       const itemId = uuidv4()
       const finalStartingBid = startingBid ?? submission.estimated_value ?? 10
-      const finalBidIncrement = bidIncrement ?? 5
 
       await dbQuery(
         `INSERT INTO event_items (
-          id, event_id, title, description, starting_bid, bid_increment,
-          buy_now_price, category_id, status, created_by,
-          donor_name, donor_email, donor_anonymous
+          id, event_id, title, description, starting_price,
+          buy_now_price, reserve_price, category, category_id, submitted_by,
+          donor_name, donor_email, fair_market_value,
+          submission_status, status, created_at, updated_at
          ) VALUES (
-          @itemId, @eventId, @title, @description, @startingBid, @bidIncrement,
-          @buyNowPrice, @categoryId, 'pending', @userId,
-          @donorName, @donorEmail, @donorAnonymous
+          @itemId, @eventId, @title, @description, @startingPrice,
+          @buyNowPrice, @reservePrice, @category, @categoryId, @userId,
+          @donorName, @donorEmail, @fairMarketValue,
+          'approved', 'pending', GETUTCDATE(), GETUTCDATE()
          )`,
         {
           itemId,
           eventId,
           title: submission.name,
           description: submission.description,
-          startingBid: finalStartingBid,
-          bidIncrement: finalBidIncrement,
+          startingPrice: finalStartingBid,
           buyNowPrice: buyNowPrice || null,
-          categoryId: categoryId || null,
+          reservePrice: reservePrice || null,
+          category: itemCategory?.name ?? null,
+          categoryId: itemCategory?.id ?? null,
           userId,
           donorName: submission.donor_anonymous ? null : submission.donor_name,
           donorEmail: submission.donor_email,
-          donorAnonymous: submission.donor_anonymous,
+          // The donor's estimate is the item's value for buyers' tax receipts unless the admin sets one
+          fairMarketValue: fairMarketValue ?? submission.estimated_value ?? null,
         }
       )
 
       // Copy images from submission to event item
       const imagesResult = await dbQuery(
-        `SELECT id, blob_url, thumbnail_url, original_filename, file_size_bytes, mime_type, display_order, is_primary
+        `SELECT id, blob_url, medium_url, thumbnail_url, original_filename, file_size_bytes, mime_type, display_order, is_primary
          FROM submission_images
          WHERE submission_id = @submissionId
          ORDER BY display_order`,
@@ -674,16 +682,17 @@ router.post(
         const imageId = uuidv4()
         await dbQuery(
           `INSERT INTO event_item_images (
-            id, item_id, blob_url, thumbnail_url, original_filename,
+            id, item_id, blob_url, medium_url, thumbnail_url, original_filename,
             file_size_bytes, mime_type, display_order, is_primary
            ) VALUES (
-            @imageId, @itemId, @blobUrl, @thumbnailUrl, @filename,
+            @imageId, @itemId, @blobUrl, @mediumUrl, @thumbnailUrl, @filename,
             @fileSize, @mimeType, @displayOrder, @isPrimary
            )`,
           {
             imageId,
             itemId,
             blobUrl: img.blob_url,
+            mediumUrl: img.medium_url,
             thumbnailUrl: img.thumbnail_url,
             filename: img.original_filename,
             fileSize: img.file_size_bytes,
@@ -0,0 +1,115 @@
+import { Router, Request, Response, NextFunction } from 'express'
+import { param, validationResult } from 'express-validator'
+import { authenticate } from '../middleware/auth.js'
+import { badRequest } from '../middleware/errorHandler.js'
+import {
+  getGivingStatement,
+  getMyTaxReceipts,
+  getTaxReceipt,
+  renderGivingStatementPdf,
+  renderTaxReceiptPdf,
+} from '../services/taxReceipts.js'
+
+// Tax receipts for the signed-in user's payments, and year-end giving
+// statements across every event they paid at.
+
+const router = Router()
+
+function sendPdf(res: Response, filename: string, pdf: Buffer) {
+  res.setHeader('Content-Type', 'application/pdf')
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`)
+  res.send(pdf)
+}
+
+// List my receipts, newest first
+router.get(
+  '/tax-receipts',
+  authenticate,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      res.json(await getMyTaxReceipts(req.user!.id))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Year-end giving statement (JSON)
+router.get(
+  '/tax-receipts/statements/:year',
+  authenticate,
+  [param('year').isInt({ min: 2000, max: 2100 })],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      res.json(await getGivingStatement(req.user!.id, parseInt(req.params.year)))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Year-end giving statement (PDF)
+router.get(
+  '/tax-receipts/statements/:year/pdf',
+  authenticate,
+  [param('year').isInt({ min: 2000, max: 2100 })],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const statement = await getGivingStatement(req.user!.id, parseInt(req.params.year))
+      sendPdf(res, `giving-statement-${statement.year}.pdf`, renderGivingStatementPdf(statement))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Get one of my receipts
+router.get(
+  '/tax-receipts/:receiptId',
+  authenticate,
+  [param('receiptId').isUUID()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      res.json(await getTaxReceipt(req.params.receiptId, req.user!.id))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+// Download one of my receipts as a PDF
+router.get(
+  '/tax-receipts/:receiptId/pdf',
+  authenticate,
+  [param('receiptId').isUUID()],
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
+      const receipt = await getTaxReceipt(req.params.receiptId, req.user!.id)
+      sendPdf(res, `receipt-${receipt.receiptNumber}.pdf`, renderTaxReceiptPdf(receipt))
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+export { router as taxReceiptRoutes }
@@ -0,0 +1,49 @@
+import { Router, Request, Response, NextFunction } from 'express'
+import { getStorageProvider, LocalDiskStorageProvider } from '../services/storage.js'
+import { forbidden, notFound } from '../middleware/errorHandler.js'
+
+const router = Router()
+
+// Serve files stored by the local-disk storage provider.
+// With Azure storage, browsers load images from the blob endpoint instead.
+router.get(
+  '/*',
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const provider = getStorageProvider()
+      if (!(provider instanceof LocalDiskStorageProvider)) {
+        throw notFound('Not found')
+      }
+
+      const key = req.params[0]
+
+      // Signed URLs must still be valid; unsigned reads are public, as on Azure
+      const { expires, signature } = req.query
+      if ((expires || signature) &&
+          !provider.verifySignature(key, String(expires || ''), String(signature || ''))) {
+        throw forbidden('This link has expired')
+      }
+
+      let object
+      try {
+        object = await provider.get(key)
+      } catch {
+        throw notFound('Not found')
+      }
+
+      if (!object) {
+        throw notFound('Not found')
+      }
+
+      // Images are shown by the frontend, which runs on another origin
+      res.set('Cross-Origin-Resource-Policy', 'cross-origin')
+      // Keys are unique per upload, so unsigned files never change
+      res.set('Cache-Control', signature ? 'private, no-store' : 'public, max-age=31536000, immutable')
+      res.type(object.contentType).send(object.data)
+    } catch (error) {
+      next(error)
+    }
+  }
+)
+
+export { router as uploadRoutes }
@@ -3,6 +3,7 @@ import { body, param, validationResult } from 'express-validator'
 import { authenticate } from '../middleware/auth.js'
 import { query as dbQuery } from '../config/database.js'
 import { badRequest, notFound } from '../middleware/errorHandler.js'
+import { ITEM_END_TIME_SQL } from '../services/softClose.js'
 
 const router = Router()
 
@@ -225,7 +226,7 @@ router.get(
   }
 )
 
-// Get user's watchlist
+// Get the event items the user is watching
 router.get(
   '/me/watchlist',
   authenticate,
@@ -234,58 +235,90 @@ router.get(
       const userId = req.user!.id
 
       const result = await dbQuery(
-        `SELECT a.*, c.name as category_name, c.slug as category_slug
-         FROM watchlist w
-         INNER JOIN auctions a ON w.auction_id = a.id
-         LEFT JOIN categories c ON a.category_id = c.id
+        `SELECT
+          w.item_id,
+          w.created_at as watched_at,
+          i.title as item_title,
+          i.current_bid as item_current_bid,
+          i.bid_count as item_bid_count,
+          i.buy_now_price as item_buy_now_price,
+          i.status as item_status,
+          ${ITEM_END_TIME_SQL} as item_end_time,
+          e.id as event_id,
+          e.name as event_name,
+          e.slug as event_slug,
+          e.status as event_status,
+          e.auction_type,
+          (SELECT TOP 1 COALESCE(thumbnail_url, blob_url) FROM event_item_images WHERE item_id = i.id ORDER BY display_order ASC) as item_image
+         FROM event_item_watchlist w
+         INNER JOIN event_items i ON w.item_id = i.id
+         LEFT JOIN event_item_groups g ON i.closing_group_id = g.id
+         INNER JOIN auction_events e ON i.event_id = e.id
          WHERE w.user_id = @userId
          ORDER BY w.created_at DESC`,
         { userId }
       )
 
-      const auctions = result.recordset.map((a: any) => ({
-        id: a.id,
-        title: a.title,
-        description: a.description,
-        category: a.category_name ? { name: a.category_name, slug: a.category_slug } : null,
-        currentBid: a.current_bid,
-        bidCount: a.bid_count,
-        endTime: a.end_time,
-        status: a.status,
+      const watchlist = result.recordset.map((w: any) => ({
+        itemId: w.item_id,
+        watchedAt: w.watched_at,
+        item: {
+          id: w.item_id,
+          title: w.item_title,
+          currentBid: w.item_current_bid ? parseFloat(w.item_current_bid) : null,
+          bidCount: w.item_bid_count || 0,
+          buyNowPrice: w.item_buy_now_price ? parseFloat(w.item_buy_now_price) : null,
+          status: w.item_status,
+          endTime: w.item_end_time,
+          imageUrl: w.item_image,
+        },
+        event: {
+          id: w.event_id,
+          name: w.event_name,
+          slug: w.event_slug,
+          status: w.event_status,
+          auctionType: w.auction_type,
+        },
       }))
 
-      res.json(auctions)
+      res.json(watchlist)
     } catch (error) {
       next(error)
     }
   }
 )
 
-// Add to watchlist
+// Watch an event item
 router.post(
-  '/me/watchlist/:auctionId',
+  '/me/watchlist/:itemId',
   authenticate,
-  param('auctionId').isUUID(),
+  param('itemId').isUUID(),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
+      const errors = validationResult(req)
+      if (!errors.isEmpty()) {
+        throw badRequest('Validation failed', errors.mapped())
+      }
+
       const userId = req.user!.id
-      const { auctionId } = req.params
+      const { itemId } = req.params
 
-      // Check auction exists
-      const auctionResult = await dbQuery(
-        'SELECT id FROM auctions WHERE id = @auctionId',
-        { auctionId }
+      // Only items visible in a catalog can be watched
+      const itemResult = await dbQuery(
+        `SELECT id FROM event_items
+         WHERE id = @itemId AND submission_status = 'approved' AND status != 'removed'`,
+        { itemId }
       )
 
-      if (auctionResult.recordset.length === 0) {
-        throw notFound('Auction not found')
+      if (itemResult.recordset.length === 0) {
+        throw notFound('Item not found')
       }
 
-      // Add to watchlist (ignore if already exists)
+      // Add to watchlist (ignore if already watching)
       await dbQuery(
-        `IF NOT EXISTS (SELECT 1 FROM watchlist WHERE user_id = @userId AND auction_id = @auctionId)
-         INSERT INTO watchlist (user_id, auction_id, created_at) VALUES (@userId, @auctionId, GETUTCDATE())`,
-        { userId, auctionId }
+        `IF NOT EXISTS (SELECT 1 FROM event_item_watchlist WHERE user_id = @userId AND item_id = @itemId)
+         INSERT INTO event_item_watchlist (user_id, item_id) VALUES (@userId, @itemId)`,
+        { userId, itemId }
       )
 
       res.status(201).json({ message: 'Added to watchlist' })
@@ -295,19 +328,19 @@ router.post(
   }
 )
 
-// Remove from watchlist
+// Stop watching an event item
 router.delete(
-  '/me/watchlist/:auctionId',
+  '/me/watchlist/:itemId',
   authenticate,
-  param('auctionId').isUUID(),
+  param('itemId').isUUID(),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const userId = req.user!.id
-      const { auctionId } = req.params
+      const { itemId } = req.params
 
       await dbQuery(
-        'DELETE FROM watchlist WHERE user_id = @userId AND auction_id = @auctionId',
-        { userId, auctionId }
+        'DELETE FROM event_item_watchlist WHERE user_id = @userId AND item_id = @itemId',
+        { userId, itemId }
       )
 
       res.status(204).send()
@@ -416,7 +449,7 @@ router.get(
           e.status as event_status,
           e.end_time as event_end_time,
           e.auction_type,
-          (SELECT TOP 1 blob_url FROM event_item_images WHERE item_id = i.id ORDER BY display_order ASC) as item_image
+          (SELECT TOP 1 COALESCE(thumbnail_url, blob_url) FROM event_item_images WHERE item_id = i.id ORDER BY display_order ASC) as item_image
          FROM event_item_bids b
          INNER JOIN event_items i ON b.item_id = i.id
          INNER JOIN auction_events e ON i.event_id = e.id
@@ -482,7 +515,7 @@ router.get(
           e.slug as event_slug,
           e.status as event_status,
           e.end_time as event_end_time,
-          (SELECT TOP 1 blob_url FROM event_item_images WHERE item_id = i.id ORDER BY display_order ASC) as item_image
+          (SELECT TOP 1 COALESCE(thumbnail_url, blob_url) FROM event_item_images WHERE item_id = i.id ORDER BY display_order ASC) as item_image
          FROM event_items i
          INNER JOIN auction_events e ON i.event_id = e.id
          WHERE i.submitted_by = @userId
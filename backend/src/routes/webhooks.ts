@@ -2,7 +2,12 @@ import { Router, Request, Response, NextFunction } from 'express'
 import Stripe from 'stripe'
 import { query as dbQuery } from '../config/database.js'
 import { v4 as uuidv4 } from 'uuid'
-import { handleWinnerPaymentWebhook } from '../services/platformFees.js'
+import {
+  handleWinnerPaymentWebhook,
+  handlePledgePaymentWebhook,
+  handleRafflePaymentWebhook,
+  handleCheckoutPaymentWebhook,
+} from '../services/platformFees.js'
 import { handleConnectWebhook, handleTransferUpdate } from '../services/stripeConnect.js'
 import { recordChargeback, updateChargebackStatus } from '../services/payouts.js'
 
@@ -44,6 +49,24 @@ router.post(
             break
           }
 
+          if (paymentIntent.metadata?.type === 'fund_a_need_pledge') {
+            await handlePledgePaymentWebhook(paymentIntent)
+            console.log('Pledge payment succeeded:', paymentIntent.id)
+            break
+          }
+
+          if (paymentIntent.metadata?.type === 'event_checkout') {
+            await handleCheckoutPaymentWebhook(paymentIntent)
+            console.log('Checkout payment succeeded:', paymentIntent.id)
+            break
+          }
+
+          if (paymentIntent.metadata?.type === 'raffle_tickets') {
+            await handleRafflePaymentWebhook(paymentIntent)
+            console.log('Raffle ticket payment succeeded:', paymentIntent.id)
+            break
+          }
+
           // Legacy auction payment handling
           await dbQuery(
             `UPDATE payments
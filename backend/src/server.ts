@@ -11,6 +11,14 @@ import { invitationRoutes } from './routes/invitations.js'
 import { eventRoutes } from './routes/events.js'
 import { eventItemRoutes } from './routes/eventItems.js'
 import { eventBidRoutes } from './routes/eventBids.js'
+import { closingGroupRoutes } from './routes/closingGroups.js'
+import { eventCategoryRoutes } from './routes/eventCategories.js'
+import { bidCancellationRoutes } from './routes/bidCancellations.js'
+import { fundANeedRoutes } from './routes/fundANeed.js'
+import { raffleRoutes } from './routes/raffles.js'
+import { cardOnFileRoutes } from './routes/cardOnFile.js'
+import { taxReceiptRoutes } from './routes/taxReceipts.js'
+import { secondChanceOfferRoutes } from './routes/secondChanceOffers.js'
 import { platformFeeRoutes } from './routes/platformFees.js'
 import { notificationRoutes } from './routes/notifications.js'
 import { adminPayoutRoutes } from './routes/adminPayouts.js'
@@ -21,6 +29,7 @@ import { donateRoutes } from './routes/donate.js'
 import { submissionRoutes } from './routes/submissions.js'
 import { uatRoutes } from './routes/uat/index.js'
 import { eventInvitationsRouter } from './routes/eventInvitations.js'
+import { uploadRoutes } from './routes/uploads.js'
 import { errorHandler } from './middleware/errorHandler.js'
 import { requestLogger } from './middleware/requestLogger.js'
 import { generalLimiter, adminLimiter, paymentLimiter } from './middleware/rateLimit.js'
@@ -28,6 +37,8 @@ import { initializeDatabase } from './config/database.js'
 import { initializeSignalR } from './services/signalr.js'
 import { sendEmailWithDetails } from './services/email.js'
 import { initializeFeatureFlagCache } from './services/featureFlags.js'
+import { getStorageProvider } from './services/storage.js'
+import { startEventLifecycleScheduler } from './services/eventLifecycle.js'
 
 dotenv.config()
 
@@ -118,6 +129,14 @@ app.use('/api/events', eventRoutes)
 app.use('/api/events', eventInvitationsRouter) // Event invitations for private auctions
 app.use('/api', eventItemRoutes)
 app.use('/api', eventBidRoutes)
+app.use('/api', closingGroupRoutes) // Staggered closing groups within an event
+app.use('/api', eventCategoryRoutes) // Per-event item categories
+app.use('/api', bidCancellationRoutes) // Cancelled bids and bidder retraction requests
+app.use('/api', fundANeedRoutes) // Fund-a-need campaigns and pledges
+app.use('/api', raffleRoutes) // Raffles (behind the raffles_enabled flag)
+app.use('/api', cardOnFileRoutes) // Card-on-file bidder registration
+app.use('/api', taxReceiptRoutes) // Tax receipts and giving statements
+app.use('/api', secondChanceOfferRoutes) // Second-chance offers to runner-up bidders
 app.use('/api/platform-fees', platformFeeRoutes)
 app.use('/api/notifications', notificationRoutes)
 app.use('/api/admin/payouts', adminLimiter, adminPayoutRoutes) // Admin rate limit
@@ -127,6 +146,7 @@ app.use('/api/admin', adminLimiter, adminRoutes) // Admin rate limit
 app.use('/api/donate', donateRoutes) // Public donation endpoints - no auth required
 app.use('/api', submissionRoutes) // Submission management endpoints - auth required
 app.use('/api/uat', uatRoutes) // UAT (User Acceptance Testing) endpoints
+app.use('/uploads', uploadRoutes) // Files from the local-disk storage provider
 
 // Error handling
 app.use(errorHandler)
@@ -146,6 +166,10 @@ async function startServer() {
     await initializeFeatureFlagCache()
     console.log('✓ Feature flags initialized')
 
+    // Pick image storage up front so a misconfigured deployment fails to start
+    getStorageProvider()
+    console.log('✓ Storage initialized')
+
     // Initialize SignalR
     const server = app.listen(PORT, () => {
       console.log(`✓ Server running on port ${PORT}`)
@@ -154,6 +178,12 @@ async function startServer() {
     initializeSignalR(server)
     console.log('✓ SignalR initialized')
 
+    // Open and close events on schedule (can be disabled per instance)
+    if (process.env.EVENT_LIFECYCLE_ENABLED !== 'false') {
+      startEventLifecycleScheduler()
+      console.log('✓ Event lifecycle scheduler started')
+    }
+
   } catch (error) {
     console.error('Failed to start server:', error)
     process.exit(1)
@@ -0,0 +1,348 @@
+import { QueryFn } from '../config/database.js'
+import { badRequest, notFound } from '../middleware/errorHandler.js'
+import { getAvailableQuantity, refreshWinningBids } from './itemAwards.js'
+import { ProxyContender, resolveProxyContest } from './proxyBidding.js'
+
+// Voiding bids: an organizer cancelling a mistaken bid, or approving a
+// bidder's retraction request. The bid row is deleted, the item's price,
+// bid count and leader are recomputed from the bids that remain, and a
+// snapshot of the bid goes to bid_cancellations for the audit trail.
+// On standard items the remaining maximums are bid against each other again,
+// so proxy bids the voided bid provoked don't keep the price up; each of
+// those gets its own snapshot, linked to the cancellation that removed it.
+
+export interface CancelBidParams {
+  itemId: string
+  bidId: string
+  reason: string
+  cancelledBy: string
+  retractionRequestId?: string
+}
+
+export interface CancelBidOutcome {
+  eventId: string
+  itemId: string
+  itemTitle: string
+  auctionType: 'standard' | 'silent'
+  bidderId: string
+  amount: number
+  wasLeading: boolean
+  // The item after the cancellation
+  currentBid: number | null
+  bidCount: number
+  leaderId: string | null
+}
+
+/**
+ * Cancel one bid on an item that is still open for bidding.
+ * Must run inside a transaction; the item row is locked so no bid lands
+ * between removing the bid and recomputing the leader.
+ */
+export async function cancelBid(params: CancelBidParams, tx: QueryFn): Promise<CancelBidOutcome> {
+  const { itemId, bidId, reason, cancelledBy, retractionRequestId } = params
+
+  const itemResult = await tx(
+    `SELECT i.*, e.auction_type, e.increment_type, e.increment_value
+     FROM event_items i WITH (UPDLOCK, ROWLOCK)
+     INNER JOIN auction_events e ON i.event_id = e.id
+     WHERE i.id = @itemId`,
+    { itemId }
+  )
+
+  if (itemResult.recordset.length === 0) {
+    throw notFound('Item not found')
+  }
+
+  const item = itemResult.recordset[0]
+  if (item.status !== 'active') {
+    throw badRequest('Bids can only be cancelled while the item is open for bidding')
+  }
+
+  const auctionType: 'standard' | 'silent' = item.auction_type === 'silent' ? 'silent' : 'standard'
+  const bidTable = auctionType === 'silent' ? 'event_item_silent_bids' : 'event_item_bids'
+
+  const bidResult = await tx(
+    `SELECT * FROM ${bidTable} WHERE id = @bidId AND item_id = @itemId`,
+    { bidId, itemId }
+  )
+
+  if (bidResult.recordset.length === 0) {
+    throw notFound('Bid not found')
+  }
+
+  const bid = bidResult.recordset[0]
+  const amount = parseFloat(bid.amount)
+
+  const leaderBefore = await getLeader(bidTable, itemId, tx)
+
+  await tx(`DELETE FROM ${bidTable} WHERE id = @bidId`, { bidId })
+
+  // The item's price afterwards is filled in once the bids are resettled
+  const cancellationResult = await tx(
+    `INSERT INTO bid_cancellations (
+      event_id, item_id, bid_id, auction_type, bidder_id, amount, is_proxy, bid_created_at,
+      reason, cancelled_by, retraction_request_id, previous_current_bid
+     )
+     OUTPUT INSERTED.id
+     VALUES (
+      @eventId, @itemId, @bidId, @auctionType, @bidderId, @amount, @isProxy, @bidCreatedAt,
+      @reason, @cancelledBy, @retractionRequestId, @previousCurrentBid
+     )`,
+    {
+      eventId: item.event_id,
+      itemId,
+      bidId,
+      auctionType,
+      bidderId: bid.bidder_id,
+      amount,
+      isProxy: bid.is_proxy ? 1 : 0,
+      bidCreatedAt: bid.created_at,
+      reason,
+      cancelledBy,
+      retractionRequestId: retractionRequestId || null,
+      previousCurrentBid: item.current_bid,
+    }
+  )
+  const cancellation: Cancellation = {
+    id: cancellationResult.recordset[0].id,
+    reason,
+    cancelledBy,
+    retractionRequestId: retractionRequestId || null,
+  }
+
+  if (auctionType === 'standard') {
+    // The bidder's hidden maximum is what placed their top bid, and is usually
+    // the mistaken amount, so it goes with that bid
+    const higherResult = await tx(
+      `SELECT COUNT(*) as count FROM event_item_bids
+       WHERE item_id = @itemId AND bidder_id = @bidderId AND amount >= @amount`,
+      { itemId, bidderId: bid.bidder_id, amount }
+    )
+    if (higherResult.recordset[0].count === 0) {
+      await tx(
+        'DELETE FROM event_item_max_bids WHERE item_id = @itemId AND bidder_id = @bidderId',
+        { itemId, bidderId: bid.bidder_id }
+      )
+    }
+  }
+
+  let leader: Leader | null
+  // Bids removed (negative) or added on top of the voided one by re-running proxies
+  let proxyBidChange = 0
+
+  if (auctionType === 'standard' && getAvailableQuantity(item) > 1) {
+    // Every unit left goes to one of the top bidders
+    leader = await getLeader(bidTable, itemId, tx)
+    await refreshWinningBids(itemId, getAvailableQuantity(item), tx)
+  } else if (auctionType === 'standard') {
+    const resettled = await resettleProxyBids(item, cancellation, tx)
+    leader = resettled.leader
+    proxyBidChange = resettled.bidChange
+
+    await tx(
+      'UPDATE event_item_bids SET is_winning = 0 WHERE item_id = @itemId AND is_winning = 1',
+      { itemId }
+    )
+    if (leader) {
+      await tx('UPDATE event_item_bids SET is_winning = 1 WHERE id = @bidId', { bidId: leader.bidId })
+    }
+  } else {
+    leader = await getLeader(bidTable, itemId, tx)
+  }
+
+  const countResult = await tx(
+    `SELECT COUNT(*) as count FROM ${bidTable} WHERE item_id = @itemId`,
+    { itemId }
+  )
+  const bidCount: number = countResult.recordset[0].count
+  const currentBid = leader ? leader.amount : null
+
+  await tx(
+    `UPDATE event_items SET
+      current_bid = @currentBid,
+      bid_count = @bidCount,
+      updated_at = GETUTCDATE()
+     WHERE id = @itemId`,
+    { itemId, currentBid, bidCount }
+  )
+
+  await tx(
+    `UPDATE auction_events SET
+      total_bids = CASE WHEN total_bids > @removed THEN total_bids - @removed ELSE 0 END,
+      updated_at = GETUTCDATE()
+     WHERE id = @eventId`,
+    { eventId: item.event_id, removed: 1 - proxyBidChange }
+  )
+
+  await tx(
+    `UPDATE bid_cancellations SET
+      new_current_bid = @newCurrentBid,
+      new_leader_id = @newLeaderId
+     WHERE id = @cancellationId`,
+    { cancellationId: cancellation.id, newCurrentBid: currentBid, newLeaderId: leader?.bidderId || null }
+  )
+
+  return {
+    eventId: item.event_id,
+    itemId,
+    itemTitle: item.title,
+    auctionType,
+    bidderId: bid.bidder_id,
+    amount,
+    wasLeading: leaderBefore?.bidId === bidId,
+    currentBid,
+    bidCount,
+    leaderId: leader?.bidderId || null,
+  }
+}
+
+interface Leader {
+  bidId: string
+  bidderId: string
+  amount: number
+}
+
+interface Cancellation {
+  id: string
+  reason: string
+  cancelledBy: string
+  retractionRequestId: string | null
+}
+
+/**
+ * Bid the remaining maximums against each other again after a bid is voided.
+ * Proxy bids above the price that competition now supports were answers to
+ * the voided bid and are removed, each snapshotted under the cancellation;
+ * if the leader's own bids then fall short of that price, their proxy bids it.
+ */
+async function resettleProxyBids(
+  item: any,
+  cancellation: Cancellation,
+  tx: QueryFn
+): Promise<{ leader: Leader | null; bidChange: number }> {
+  const bidsResult = await tx(
+    `SELECT id, bidder_id, amount, is_proxy, created_at FROM event_item_bids
+     WHERE item_id = @itemId
+     ORDER BY created_at ASC`,
+    { itemId: item.id }
+  )
+  const maxResult = await tx(
+    'SELECT bidder_id, max_amount, set_at FROM event_item_max_bids WHERE item_id = @itemId',
+    { itemId: item.id }
+  )
+
+  const bids = bidsResult.recordset.map((row: any) => ({
+    id: row.id as string,
+    bidderId: row.bidder_id as string,
+    amount: parseFloat(row.amount),
+    isProxy: !!row.is_proxy,
+    createdAt: new Date(row.created_at),
+  }))
+
+  // Each bidder contends up to their maximum, or their top bid if higher,
+  // ranked by when they reached it (as getCurrentLeader does for bids)
+  const contenders = new Map<string, ProxyContender>()
+  for (const bid of bids) {
+    const contender = contenders.get(bid.bidderId)
+    if (!contender || bid.amount > contender.ceiling) {
+      contenders.set(bid.bidderId, { bidderId: bid.bidderId, ceiling: bid.amount, setAt: bid.createdAt })
+    }
+  }
+  for (const row of maxResult.recordset) {
+    const contender = contenders.get(row.bidder_id)
+    const maxAmount = parseFloat(row.max_amount)
+    if (contender && maxAmount >= contender.ceiling) {
+      contenders.set(row.bidder_id, { bidderId: row.bidder_id, ceiling: maxAmount, setAt: new Date(row.set_at) })
+    }
+  }
+
+  const contest = resolveProxyContest({
+    startingPrice: item.starting_price ? parseFloat(item.starting_price) : 0,
+    increment: { incrementType: item.increment_type, incrementValue: parseFloat(item.increment_value) },
+    contenders: [...contenders.values()],
+  })
+
+  if (!contest) {
+    return { leader: null, bidChange: 0 }
+  }
+
+  // A bid the leader typed in themselves stands even above the contest price
+  const price = Math.max(
+    contest.price,
+    ...bids.filter((bid) => bid.bidderId === contest.winnerId && !bid.isProxy).map((bid) => bid.amount)
+  )
+
+  let bidChange = 0
+  if (bids.some((bid) => bid.isProxy && bid.amount > price)) {
+    await tx(
+      `INSERT INTO bid_cancellations (
+        event_id, item_id, bid_id, auction_type, bidder_id, amount, is_proxy, bid_created_at,
+        reason, cancelled_by, retraction_request_id, parent_cancellation_id
+       )
+       SELECT @eventId, item_id, id, 'standard', bidder_id, amount, 1, created_at,
+              @reason, @cancelledBy, @retractionRequestId, @cancellationId
+       FROM event_item_bids
+       WHERE item_id = @itemId AND is_proxy = 1 AND amount > @price`,
+      {
+        eventId: item.event_id,
+        itemId: item.id,
+        price,
+        reason: cancellation.reason,
+        cancelledBy: cancellation.cancelledBy,
+        retractionRequestId: cancellation.retractionRequestId,
+        cancellationId: cancellation.id,
+      }
+    )
+    const removed = await tx(
+      'DELETE FROM event_item_bids WHERE item_id = @itemId AND is_proxy = 1 AND amount > @price',
+      { itemId: item.id, price }
+    )
+    bidChange -= removed.rowsAffected[0]
+  }
+
+  const leaderBids = bids.filter((bid) => bid.bidderId === contest.winnerId && !(bid.isProxy && bid.amount > price))
+  const topBid = leaderBids.reduce<typeof leaderBids[number] | null>(
+    (top, bid) => (!top || bid.amount > top.amount ? bid : top),
+    null
+  )
+
+  if (topBid && topBid.amount >= price) {
+    return { leader: { bidId: topBid.id, bidderId: contest.winnerId, amount: topBid.amount }, bidChange }
+  }
+
+  const inserted = await tx(
+    `INSERT INTO event_item_bids (item_id, bidder_id, amount, is_winning, is_proxy, created_at)
+     OUTPUT INSERTED.id
+     VALUES (@itemId, @bidderId, @amount, 0, 1, GETUTCDATE())`,
+    { itemId: item.id, bidderId: contest.winnerId, amount: price }
+  )
+
+  return {
+    leader: { bidId: inserted.recordset[0].id, bidderId: contest.winnerId, amount: price },
+    bidChange: bidChange + 1,
+  }
+}
+
+/**
+ * Top bid on an item, ranked the same way winners are picked at close.
+ * A standard item's current leader keeps the lead on a tie.
+ */
+async function getLeader(bidTable: string, itemId: string, tx: QueryFn): Promise<Leader | null> {
+  const ranking = bidTable === 'event_item_bids'
+    ? 'amount DESC, is_winning DESC, created_at ASC'
+    : 'amount DESC, created_at ASC'
+
+  const result = await tx(
+    `SELECT TOP 1 id, bidder_id, amount FROM ${bidTable}
+     WHERE item_id = @itemId
+     ORDER BY ${ranking}`,
+    { itemId }
+  )
+
+  if (result.recordset.length === 0) {
+    return null
+  }
+
+  const row = result.recordset[0]
+  return { bidId: row.id as string, bidderId: row.bidder_id as string, amount: parseFloat(row.amount) }
+}
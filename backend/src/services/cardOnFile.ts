@@ -0,0 +1,184 @@
+import Stripe from 'stripe'
+import { query as dbQuery, QueryFn } from '../config/database.js'
+import { badRequest, notFound } from '../middleware/errorHandler.js'
+import { createCustomer, createSetupIntent, getSetupIntent } from './stripe.js'
+
+// Card-on-file registration: events can require bidders to save a card
+// before bidding, so winners can be charged automatically when the event
+// closes (see chargeCardsOnFile in platformFees.ts).
+
+export interface BidderCard {
+  userId: string
+  paymentMethodId: string
+  brand: string | null
+  last4: string | null
+  expMonth: number | null
+  expYear: number | null
+}
+
+function mapCard(row: any): BidderCard {
+  return {
+    userId: row.user_id,
+    paymentMethodId: row.stripe_payment_method_id,
+    brand: row.card_brand,
+    last4: row.card_last4,
+    expMonth: row.card_exp_month,
+    expYear: row.card_exp_year,
+  }
+}
+
+async function getCardOnFileEvent(eventId: string) {
+  const result = await dbQuery(
+    'SELECT id, name, require_card_on_file, status FROM auction_events WHERE id = @eventId',
+    { eventId }
+  )
+
+  if (result.recordset.length === 0) {
+    throw notFound('Event not found')
+  }
+
+  const event = result.recordset[0]
+  if (!event.require_card_on_file) {
+    throw badRequest('This event does not take cards on file')
+  }
+  if (event.status === 'ended' || event.status === 'cancelled') {
+    throw badRequest('This event is no longer open for bidding')
+  }
+
+  return event
+}
+
+/**
+ * The user's Stripe customer, created on first use
+ */
+export async function getOrCreateStripeCustomer(userId: string, email: string, name?: string): Promise<string> {
+  const userResult = await dbQuery(
+    'SELECT stripe_customer_id FROM users WHERE id = @userId',
+    { userId }
+  )
+
+  const existing = userResult.recordset[0]?.stripe_customer_id
+  if (existing) {
+    return existing
+  }
+
+  const customer = await createCustomer(email, name)
+  await dbQuery(
+    'UPDATE users SET stripe_customer_id = @customerId, updated_at = GETUTCDATE() WHERE id = @userId',
+    { userId, customerId: customer.id }
+  )
+
+  return customer.id
+}
+
+/**
+ * The card a bidder saved for an event, if any
+ */
+export async function getEventCard(
+  eventId: string,
+  userId: string,
+  runQuery: QueryFn = dbQuery
+): Promise<BidderCard | null> {
+  const result = await runQuery(
+    'SELECT * FROM event_bidder_cards WHERE event_id = @eventId AND user_id = @userId',
+    { eventId, userId }
+  )
+
+  return result.recordset.length > 0 ? mapCard(result.recordset[0]) : null
+}
+
+/**
+ * Every card saved for an event, for charging winners at close
+ */
+export async function getEventCards(eventId: string): Promise<BidderCard[]> {
+  const result = await dbQuery(
+    'SELECT * FROM event_bidder_cards WHERE event_id = @eventId',
+    { eventId }
+  )
+
+  return result.recordset.map(mapCard)
+}
+
+/**
+ * Refuse a bid or purchase on an item whose event requires a card on file
+ * until the bidder has saved one. `item` is an event_items row joined with
+ * the event's require_card_on_file.
+ */
+export async function assertCardOnFile(
+  item: { event_id: string; require_card_on_file?: boolean | number | null },
+  userId: string,
+  runQuery: QueryFn = dbQuery
+): Promise<void> {
+  if (!item.require_card_on_file) {
+    return
+  }
+
+  if (!(await getEventCard(item.event_id, userId, runQuery))) {
+    throw badRequest('This event requires a saved payment method before you can bid')
+  }
+}
+
+/**
+ * Start saving a card for an event. The client confirms the SetupIntent with
+ * Stripe, then hands it back to saveEventCard.
+ */
+export async function createEventCardSetupIntent(
+  eventId: string,
+  user: { id: string; email: string; name?: string }
+): Promise<{ clientSecret: string; setupIntentId: string }> {
+  await getCardOnFileEvent(eventId)
+
+  const customerId = await getOrCreateStripeCustomer(user.id, user.email, user.name)
+  const setupIntent = await createSetupIntent(customerId, { type: 'event_card_on_file', eventId, userId: user.id })
+
+  return {
+    clientSecret: setupIntent.client_secret!,
+    setupIntentId: setupIntent.id,
+  }
+}
+
+/**
+ * Register the card from a confirmed SetupIntent as the bidder's card for the
+ * event, replacing any card saved before
+ */
+export async function saveEventCard(eventId: string, userId: string, setupIntentId: string): Promise<BidderCard> {
+  await getCardOnFileEvent(eventId)
+
+  const setupIntent = await getSetupIntent(setupIntentId)
+  if (setupIntent.metadata?.eventId !== eventId || setupIntent.metadata?.userId !== userId) {
+    throw badRequest('This card setup does not belong to you and this event')
+  }
+  if (setupIntent.status !== 'succeeded' || !setupIntent.payment_method) {
+    throw badRequest('Card setup has not been completed')
+  }
+
+  const paymentMethod = setupIntent.payment_method as Stripe.PaymentMethod
+  const card = paymentMethod.card
+
+  const result = await dbQuery(
+    `MERGE event_bidder_cards AS target
+     USING (SELECT @eventId AS event_id, @userId AS user_id) AS source
+     ON target.event_id = source.event_id AND target.user_id = source.user_id
+     WHEN MATCHED THEN
+       UPDATE SET stripe_payment_method_id = @paymentMethodId, stripe_setup_intent_id = @setupIntentId,
+                  card_brand = @brand, card_last4 = @last4, card_exp_month = @expMonth, card_exp_year = @expYear,
+                  updated_at = GETUTCDATE()
+     WHEN NOT MATCHED THEN
+       INSERT (event_id, user_id, stripe_payment_method_id, stripe_setup_intent_id,
+               card_brand, card_last4, card_exp_month, card_exp_year)
+       VALUES (@eventId, @userId, @paymentMethodId, @setupIntentId, @brand, @last4, @expMonth, @expYear)
+     OUTPUT INSERTED.*;`,
+    {
+      eventId,
+      userId,
+      paymentMethodId: paymentMethod.id,
+      setupIntentId,
+      brand: card?.brand ?? null,
+      last4: card?.last4 ?? null,
+      expMonth: card?.exp_month ?? null,
+      expYear: card?.exp_year ?? null,
+    }
+  )
+
+  return mapCard(result.recordset[0])
+}
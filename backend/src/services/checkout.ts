@@ -0,0 +1,201 @@
+import { query as dbQuery } from '../config/database.js'
+
+// Consolidated checkout: everything a bidder owes one event (won items, plus
+// fund-a-need pledges and raffle tickets) paid with a single PaymentIntent.
+// Only events that take payments through the platform are included;
+// self-managed events collect payment themselves.
+
+export type CheckoutLineType = 'item' | 'pledge' | 'raffle_tickets'
+
+export interface CheckoutLine {
+  type: CheckoutLineType
+  // The award (event_item_winners), pledge or ticket purchase this pays for
+  referenceId: string
+  itemId: string | null
+  description: string
+  quantity: number
+  amount: number
+  platformFee: number
+}
+
+export interface CheckoutSummary {
+  eventId: string
+  eventName: string
+  eventSlug: string
+  lines: CheckoutLine[]
+  itemsAmount: number
+  platformFee: number
+  pledgesAmount: number
+  raffleAmount: number
+  // What the bidder may add to cover processing fees, and what they chose to
+  // add (included in total)
+  coverFeesAmount: number
+  feesCovered: number
+  total: number
+}
+
+export interface CheckoutPricing {
+  platformFeeFor: (itemAmount: number) => number
+  coverFeesFor: (total: number) => number
+}
+
+export interface CheckoutDueRows {
+  wins: any[]
+  pledges: any[]
+  raffleTickets: any[]
+}
+
+const toCents = (amount: number) => Math.round(amount * 100)
+const fromCents = (cents: number) => cents / 100
+
+/**
+ * Itemize what a bidder owes one event. Items carry the platform fee once per
+ * item, as when paying for it alone, even when the bidder holds several awards
+ * (a winning bid plus buy-now units) on it.
+ */
+export function summarizeCheckout(
+  event: { id: string; name: string; slug: string },
+  due: CheckoutDueRows,
+  pricing: CheckoutPricing
+): CheckoutSummary {
+  const itemTotals = new Map<string, number>()
+  for (const win of due.wins) {
+    const amount = toCents(parseFloat(win.amount) * win.quantity)
+    itemTotals.set(win.item_id, (itemTotals.get(win.item_id) ?? 0) + amount)
+  }
+
+  const feeCharged = new Set<string>()
+  const lines: CheckoutLine[] = [
+    ...due.wins.map((win): CheckoutLine => {
+      const firstAward = !feeCharged.has(win.item_id)
+      feeCharged.add(win.item_id)
+      return {
+        type: 'item',
+        referenceId: win.id,
+        itemId: win.item_id,
+        description: win.title,
+        quantity: win.quantity,
+        amount: fromCents(toCents(parseFloat(win.amount) * win.quantity)),
+        platformFee: firstAward ? pricing.platformFeeFor(fromCents(itemTotals.get(win.item_id)!)) : 0,
+      }
+    }),
+    ...due.pledges.map((pledge): CheckoutLine => ({
+      type: 'pledge',
+      referenceId: pledge.id,
+      itemId: null,
+      description: `Pledge: ${pledge.campaign_title}`,
+      quantity: 1,
+      amount: parseFloat(pledge.amount),
+      platformFee: 0,
+    })),
+    ...due.raffleTickets.map((purchase): CheckoutLine => ({
+      type: 'raffle_tickets',
+      referenceId: purchase.id,
+      itemId: null,
+      description: `Raffle tickets: ${purchase.raffle_title}`,
+      quantity: purchase.ticket_count,
+      amount: parseFloat(purchase.amount),
+      platformFee: 0,
+    })),
+  ]
+
+  const sum = (type: CheckoutLineType | null, field: 'amount' | 'platformFee') =>
+    lines
+      .filter((line) => type === null || line.type === type)
+      .reduce((total, line) => total + toCents(line[field]), 0)
+
+  const total = fromCents(sum(null, 'amount') + sum(null, 'platformFee'))
+
+  return {
+    eventId: event.id,
+    eventName: event.name,
+    eventSlug: event.slug,
+    lines,
+    itemsAmount: fromCents(sum('item', 'amount')),
+    platformFee: fromCents(sum(null, 'platformFee')),
+    pledgesAmount: fromCents(sum('pledge', 'amount')),
+    raffleAmount: fromCents(sum('raffle_tickets', 'amount')),
+    coverFeesAmount: pricing.coverFeesFor(total),
+    feesCovered: 0,
+    total,
+  }
+}
+
+/**
+ * The checkout with the bidder's processing-fee cover added to its total
+ */
+export function withFeesCovered(summary: CheckoutSummary): CheckoutSummary {
+  return {
+    ...summary,
+    feesCovered: summary.coverFeesAmount,
+    total: fromCents(toCents(summary.total) + toCents(summary.coverFeesAmount)),
+  }
+}
+
+/**
+ * A bidder's unpaid wins, pledges and raffle tickets, one checkout per event
+ * (just the given event when one is passed). Events with nothing due are left out.
+ */
+export async function getCheckoutSummaries(
+  userId: string,
+  pricing: CheckoutPricing,
+  eventId: string | null = null
+): Promise<CheckoutSummary[]> {
+  const params = { userId, eventId }
+  const integrated = "(ae.payment_mode IS NULL OR ae.payment_mode != 'self_managed')"
+  const eventFilter = '(@eventId IS NULL OR ae.id = @eventId)'
+
+  const [wins, pledges, raffleTickets] = await Promise.all([
+    dbQuery(
+      `SELECT w.id, w.item_id, w.amount, w.quantity, ei.title,
+              ae.id as event_id, ae.name as event_name, ae.slug as event_slug
+       FROM event_item_winners w
+       INNER JOIN event_items ei ON w.item_id = ei.id
+       INNER JOIN auction_events ae ON ei.event_id = ae.id
+       WHERE w.winner_id = @userId AND w.payment_status = 'pending'
+         AND ei.status IN ('won', 'sold') AND ${integrated} AND ${eventFilter}
+       ORDER BY w.won_at ASC`,
+      params
+    ),
+    dbQuery(
+      `SELECT p.id, p.amount, c.title as campaign_title,
+              ae.id as event_id, ae.name as event_name, ae.slug as event_slug
+       FROM fund_a_need_pledges p
+       INNER JOIN fund_a_need_campaigns c ON p.campaign_id = c.id
+       INNER JOIN auction_events ae ON p.event_id = ae.id
+       WHERE p.donor_id = @userId AND p.status = 'active' AND p.payment_status = 'pending'
+         AND ${integrated} AND ${eventFilter}
+       ORDER BY p.created_at ASC`,
+      params
+    ),
+    // Tickets paid for after the draw would never have been entered
+    dbQuery(
+      `SELECT p.id, p.amount, p.ticket_count, r.title as raffle_title,
+              ae.id as event_id, ae.name as event_name, ae.slug as event_slug
+       FROM raffle_ticket_purchases p
+       INNER JOIN event_raffles r ON p.raffle_id = r.id
+       INNER JOIN auction_events ae ON p.event_id = ae.id
+       WHERE p.buyer_id = @userId AND p.payment_status = 'pending' AND r.status != 'drawn'
+         AND ${integrated} AND ${eventFilter}
+       ORDER BY p.created_at ASC`,
+      params
+    ),
+  ])
+
+  const events = new Map<string, { id: string; name: string; slug: string }>()
+  const due = new Map<string, CheckoutDueRows>()
+  const add = (key: keyof CheckoutDueRows, rows: any[]) => {
+    for (const row of rows) {
+      if (!due.has(row.event_id)) {
+        events.set(row.event_id, { id: row.event_id, name: row.event_name, slug: row.event_slug })
+        due.set(row.event_id, { wins: [], pledges: [], raffleTickets: [] })
+      }
+      due.get(row.event_id)![key].push(row)
+    }
+  }
+  add('wins', wins.recordset)
+  add('pledges', pledges.recordset)
+  add('raffleTickets', raffleTickets.recordset)
+
+  return [...due.entries()].map(([id, rows]) => summarizeCheckout(events.get(id)!, rows, pricing))
+}
@@ -1,4 +1,4 @@
-import { EmailClient, EmailMessage } from '@azure/communication-email'
+import { EmailAttachment, EmailClient, EmailMessage } from '@azure/communication-email'
 
 // Email configuration from environment
 const connectionString = process.env.AZURE_COMMUNICATION_CONNECTION_STRING
@@ -28,6 +28,7 @@ interface SendEmailParams {
   plainTextContent?: string
   senderDisplayName?: string  // e.g., "Spring Fair via VGA"
   replyToEmail?: string       // e.g., organization's contact email
+  attachments?: EmailAttachment[]
 }
 
 export interface SendEmailResult {
@@ -42,7 +43,7 @@ export async function sendEmail(params: SendEmailParams): Promise<boolean> {
 }
 
 export async function sendEmailWithDetails(params: SendEmailParams): Promise<SendEmailResult> {
-  const { to, subject, htmlContent, plainTextContent, senderDisplayName, replyToEmail } = params
+  const { to, subject, htmlContent, plainTextContent, senderDisplayName, replyToEmail, attachments } = params
 
   const client = getEmailClient()
 
@@ -53,6 +54,9 @@ export async function sendEmailWithDetails(params: SendEmailParams): Promise<Sen
     console.log(`From: ${senderDisplayName || 'Very Good Auctions'} <${senderAddress}>`)
     console.log(`Reply-To: ${replyToEmail || replyToAddress}`)
     console.log(`Subject: ${subject}`)
+    if (attachments?.length) {
+      console.log(`Attachments: ${attachments.map((a) => a.name).join(', ')}`)
+    }
     console.log(`Content: ${plainTextContent || htmlContent}`)
     console.log('=================================================')
     return { success: true } // Return true so invitation flow continues
@@ -78,6 +82,7 @@ export async function sendEmailWithDetails(params: SendEmailParams): Promise<Sen
         to: [{ address: to }],
       },
       replyTo: [{ address: replyToEmail || replyToAddress }],
+      attachments,
     }
 
     const poller = await client.beginSend(message)
@@ -363,7 +368,8 @@ export async function sendOutbidEmail(params: {
   recipientEmail: string
   recipientName: string
   itemTitle: string
-  newHighBid: number
+  // null for silent auctions, where the leading amount stays private
+  newHighBid: number | null
   yourBid: number
   eventName: string
   eventSlug: string
@@ -375,22 +381,32 @@ export async function sendOutbidEmail(params: {
 
   const subject = `You've been outbid on "${itemTitle}"`
 
+  const intro = newHighBid !== null
+    ? `someone has placed a higher bid on <strong>${itemTitle}</strong> at the ${eventName} auction.`
+    : `another bidder has moved ahead of you on <strong>${itemTitle}</strong> in the ${eventName} silent auction.`
+
+  const highBidLine = newHighBid !== null
+    ? `<p style="margin: 0; color: #4a4a4a; font-size: 14px;">
+        <strong>Current high bid:</strong> $${newHighBid.toFixed(2)}
+      </p>`
+    : `<p style="margin: 0; color: #4a4a4a; font-size: 14px;">
+        Bids in a silent auction stay private, so we can't share the leading amount.
+      </p>`
+
   const content = `
     <h2 style="margin: 0 0 20px 0; color: #1a1a1a; font-size: 20px; font-weight: 600;">
       You've Been Outbid
     </h2>
 
     <p style="margin: 0 0 20px 0; color: #4a4a4a; font-size: 16px; line-height: 1.6;">
-      Hi ${recipientName}, someone has placed a higher bid on <strong>${itemTitle}</strong> at the ${eventName} auction.
+      Hi ${recipientName}, ${intro}
     </p>
 
     <div style="background-color: #fff8e6; border-radius: 8px; padding: 20px; margin: 20px 0; border-left: 4px solid #f59e0b;">
       <p style="margin: 0 0 10px 0; color: #4a4a4a; font-size: 14px;">
         <strong>Your bid:</strong> $${yourBid.toFixed(2)}
       </p>
-      <p style="margin: 0; color: #4a4a4a; font-size: 14px;">
-        <strong>Current high bid:</strong> $${newHighBid.toFixed(2)}
-      </p>
+      ${highBidLine}
     </div>
 
     <p style="margin: 0 0 30px 0; color: #4a4a4a; font-size: 16px; line-height: 1.6;">
@@ -413,10 +429,12 @@ export async function sendOutbidEmail(params: {
   const plainTextContent = `
 You've Been Outbid
 
-Hi ${recipientName}, someone has placed a higher bid on "${itemTitle}" at the ${eventName} auction.
+Hi ${recipientName}, ${newHighBid !== null
+  ? `someone has placed a higher bid on "${itemTitle}" at the ${eventName} auction.`
+  : `another bidder has moved ahead of you on "${itemTitle}" in the ${eventName} silent auction.`}
 
 Your bid: $${yourBid.toFixed(2)}
-Current high bid: $${newHighBid.toFixed(2)}
+${newHighBid !== null ? `Current high bid: $${newHighBid.toFixed(2)}` : 'Bids in a silent auction stay private, so we can\'t share the leading amount.'}
 
 Don't miss out! Place a new bid to stay in the running.
 
@@ -983,6 +1001,196 @@ Thank you for participating! We hope to see you at future auctions.
   })
 }
 
+// Reserve not met email (top bidder) - the item closed under its hidden reserve
+export async function sendReserveNotMetBidderEmail(params: {
+  recipientEmail: string
+  recipientName: string
+  itemTitle: string
+  yourBid: number
+  eventName: string
+}): Promise<boolean> {
+  const { recipientEmail, recipientName, itemTitle, yourBid, eventName } = params
+
+  const subject = `Reserve not met: ${itemTitle}`
+
+  const content = `
+    <h2 style="margin: 0 0 20px 0; color: #1a1a1a; font-size: 20px; font-weight: 600;">
+      Reserve Not Met
+    </h2>
+
+    <p style="margin: 0 0 20px 0; color: #4a4a4a; font-size: 16px; line-height: 1.6;">
+      Hi ${recipientName},
+    </p>
+
+    <p style="margin: 0 0 20px 0; color: #4a4a4a; font-size: 16px; line-height: 1.6;">
+      The auction for <strong>"${itemTitle}"</strong> at ${eventName} has ended. You had the highest bid, but it did not reach the item's reserve price, so the item was not sold.
+    </p>
+
+    <div style="background-color: #f5f5f5; border-radius: 8px; padding: 20px; margin: 20px 0;">
+      <p style="margin: 0; color: #4a4a4a; font-size: 14px;">
+        <strong>Your highest bid:</strong> $${yourBid.toFixed(2)}
+      </p>
+    </div>
+
+    <p style="margin: 20px 0 0 0; color: #888888; font-size: 14px; line-height: 1.6;">
+      You won't be charged for this item. Thank you for participating!
+    </p>
+  `
+
+  const plainTextContent = `
+Reserve Not Met
+
+Hi ${recipientName},
+
+The auction for "${itemTitle}" at ${eventName} has ended. You had the highest bid, but it did not reach the item's reserve price, so the item was not sold.
+
+Your highest bid: $${yourBid.toFixed(2)}
+
+You won't be charged for this item. Thank you for participating!
+
+© ${new Date().getFullYear()} Very Good Auctions. All rights reserved.
+`
+
+  return sendEmail({
+    to: recipientEmail,
+    subject,
+    htmlContent: emailWrapper('Reserve Not Met', content),
+    plainTextContent,
+  })
+}
+
+// Reserve not met email (submitter) - their item closed under its reserve and was not sold
+export async function sendReserveNotMetSubmitterEmail(params: {
+  recipientEmail: string
+  recipientName: string
+  itemTitle: string
+  topBid: number
+  reservePrice: number
+  eventName: string
+}): Promise<boolean> {
+  const { recipientEmail, recipientName, itemTitle, topBid, reservePrice, eventName } = params
+
+  const subject = `Your item did not reach its reserve: ${itemTitle}`
+
+  const content = `
+    <h2 style="margin: 0 0 20px 0; color: #1a1a1a; font-size: 20px; font-weight: 600;">
+      Reserve Not Met
+    </h2>
+
+    <p style="margin: 0 0 20px 0; color: #4a4a4a; font-size: 16px; line-height: 1.6;">
+      Hi ${recipientName},
+    </p>
+
+    <p style="margin: 0 0 20px 0; color: #4a4a4a; font-size: 16px; line-height: 1.6;">
+      Bidding on <strong>"${itemTitle}"</strong> at ${eventName} has closed below the reserve price you set, so the item was not sold.
+    </p>
+
+    <div style="background-color: #f5f5f5; border-radius: 8px; padding: 20px; margin: 20px 0;">
+      <p style="margin: 0 0 10px 0; color: #4a4a4a; font-size: 14px;">
+        <strong>Reserve price:</strong> $${reservePrice.toFixed(2)}
+      </p>
+      <p style="margin: 0; color: #4a4a4a; font-size: 14px;">
+        <strong>Highest bid:</strong> $${topBid.toFixed(2)}
+      </p>
+    </div>
+
+    <p style="margin: 20px 0 0 0; color: #888888; font-size: 14px; line-height: 1.6;">
+      Please contact the event organizer to arrange the item's return or another sale.
+    </p>
+  `
+
+  const plainTextContent = `
+Reserve Not Met
+
+Hi ${recipientName},
+
+Bidding on "${itemTitle}" at ${eventName} has closed below the reserve price you set, so the item was not sold.
+
+Reserve price: $${reservePrice.toFixed(2)}
+Highest bid: $${topBid.toFixed(2)}
+
+Please contact the event organizer to arrange the item's return or another sale.
+
+© ${new Date().getFullYear()} Very Good Auctions. All rights reserved.
+`
+
+  return sendEmail({
+    to: recipientEmail,
+    subject,
+    htmlContent: emailWrapper('Reserve Not Met', content),
+    plainTextContent,
+  })
+}
+
+// Watchlist alert email - a watched item is closing soon, got its first bid or reached its buy-now price
+export async function sendWatchlistAlertEmail(params: {
+  recipientEmail: string
+  recipientName: string
+  heading: string
+  message: string
+  itemTitle: string
+  eventName: string
+  eventSlug: string
+  itemId: string
+}): Promise<boolean> {
+  const { recipientEmail, recipientName, heading, message, itemTitle, eventName, eventSlug, itemId } = params
+
+  const itemUrl = `${frontendUrl}/events/${eventSlug}/items/${itemId}`
+
+  const subject = `${heading}: ${itemTitle}`
+
+  const content = `
+    <h2 style="margin: 0 0 20px 0; color: #1a1a1a; font-size: 20px; font-weight: 600;">
+      ${heading}
+    </h2>
+
+    <p style="margin: 0 0 20px 0; color: #4a4a4a; font-size: 16px; line-height: 1.6;">
+      Hi ${recipientName},
+    </p>
+
+    <p style="margin: 0 0 20px 0; color: #4a4a4a; font-size: 16px; line-height: 1.6;">
+      ${message}
+    </p>
+
+    <p style="margin: 0 0 30px 0; color: #888888; font-size: 14px; line-height: 1.6;">
+      You're getting this because <strong>"${itemTitle}"</strong> at ${eventName} is on your watchlist.
+    </p>
+
+    <!-- CTA Button -->
+    <table role="presentation" style="width: 100%; border-collapse: collapse;">
+      <tr>
+        <td style="text-align: center; padding: 20px 0;">
+          <a href="${itemUrl}"
+             style="display: inline-block; background-color: #5A7C6F; color: #ffffff; text-decoration: none; padding: 14px 32px; border-radius: 6px; font-size: 16px; font-weight: 600;">
+            View Item
+          </a>
+        </td>
+      </tr>
+    </table>
+  `
+
+  const plainTextContent = `
+${heading}
+
+Hi ${recipientName},
+
+${message}
+
+You're getting this because "${itemTitle}" at ${eventName} is on your watchlist.
+
+View item: ${itemUrl}
+
+© ${new Date().getFullYear()} Very Good Auctions. All rights reserved.
+`
+
+  return sendEmail({
+    to: recipientEmail,
+    subject,
+    htmlContent: emailWrapper(heading, content),
+    plainTextContent,
+  })
+}
+
 // =============================================
 // Organization Payout Emails
 // =============================================
@@ -1674,6 +1882,191 @@ View your wins: ${myWinsUrl}
   })
 }
 
+// Second-chance offer email - an item whose winner didn't pay is offered to the runner-up
+export async function sendSecondChanceOfferEmail(params: {
+  recipientEmail: string
+  recipientName: string
+  itemTitle: string
+  amount: number
+  eventName: string
+  organizationName: string
+  offerId: string
+  expiresAt: Date
+}): Promise<boolean> {
+  const { recipientEmail, recipientName, itemTitle, amount, eventName, organizationName, offerId, expiresAt } = params
+
+  const offerUrl = `${frontendUrl}/offers/${offerId}`
+  const formattedExpires = expiresAt.toLocaleString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  })
+
+  const subject = `"${itemTitle}" is available to you`
+
+  const content = `
+    <h2 style="margin: 0 0 20px 0; color: #1a1a1a; font-size: 20px; font-weight: 600;">
+      A Second Chance at "${itemTitle}"
+    </h2>
+
+    <p style="margin: 0 0 20px 0; color: #4a4a4a; font-size: 16px; line-height: 1.6;">
+      Hi ${recipientName},
+    </p>
+
+    <p style="margin: 0 0 20px 0; color: #4a4a4a; font-size: 16px; line-height: 1.6;">
+      The winning bidder for <strong>"${itemTitle}"</strong> at the ${eventName} auction did not complete payment.
+      As the next-highest bidder, ${organizationName} is offering you the item at your bid.
+    </p>
+
+    <div style="background-color: #f0f7f4; border-radius: 8px; padding: 20px; margin: 20px 0; border-left: 4px solid #5A7C6F;">
+      <p style="margin: 0 0 10px 0; color: #4a4a4a; font-size: 14px;">
+        <strong>Your Price:</strong> $${amount.toFixed(2)}
+      </p>
+      <p style="margin: 0; color: #4a4a4a; font-size: 14px;">
+        <strong>Offer Expires:</strong> ${formattedExpires}
+      </p>
+    </div>
+
+    <!-- CTA Button -->
+    <table role="presentation" style="width: 100%; border-collapse: collapse;">
+      <tr>
+        <td style="text-align: center; padding: 20px 0;">
+          <a href="${offerUrl}"
+             style="display: inline-block; background-color: #5A7C6F; color: #ffffff; text-decoration: none; padding: 14px 32px; border-radius: 6px; font-size: 16px; font-weight: 600;">
+            Accept or Decline
+          </a>
+        </td>
+      </tr>
+    </table>
+
+    <p style="margin: 20px 0 0 0; color: #888888; font-size: 14px; line-height: 1.6;">
+      If you accept, the item is yours and payment is due as for any win. If you don't respond before the offer expires, it is withdrawn.
+    </p>
+  `
+
+  const plainTextContent = `
+A Second Chance at "${itemTitle}"
+
+Hi ${recipientName},
+
+The winning bidder for "${itemTitle}" at the ${eventName} auction did not complete payment. As the next-highest bidder, ${organizationName} is offering you the item at your bid.
+
+Your Price: $${amount.toFixed(2)}
+Offer Expires: ${formattedExpires}
+
+Accept or decline here: ${offerUrl}
+
+If you accept, the item is yours and payment is due as for any win. If you don't respond before the offer expires, it is withdrawn.
+
+© ${new Date().getFullYear()} Very Good Auctions. All rights reserved.
+`
+
+  return sendEmail({
+    to: recipientEmail,
+    subject,
+    htmlContent: emailWrapper('Second-Chance Offer', content),
+    plainTextContent,
+  })
+}
+
+// Tax receipt email - sent for every payment, with the receipt PDF attached
+export async function sendTaxReceiptEmail(params: {
+  recipientEmail: string
+  recipientName: string
+  receiptNumber: number
+  eventName: string
+  organizationName: string
+  organizationEmail?: string
+  amountPaid: number
+  fairMarketValue: number
+  deductibleAmount: number
+  pdf: Buffer
+}): Promise<boolean> {
+  const {
+    recipientEmail, recipientName, receiptNumber, eventName, organizationName, organizationEmail,
+    amountPaid, fairMarketValue, deductibleAmount, pdf,
+  } = params
+
+  const myWinsUrl = `${frontendUrl}/my-wins`
+
+  const subject = `Your tax receipt from ${organizationName} (#${receiptNumber})`
+
+  const content = `
+    <h2 style="margin: 0 0 20px 0; color: #2e7d32; font-size: 20px; font-weight: 600;">
+      Thank You for Your Support
+    </h2>
+
+    <p style="margin: 0 0 20px 0; color: #4a4a4a; font-size: 16px; line-height: 1.6;">
+      Hi ${recipientName},
+    </p>
+
+    <p style="margin: 0 0 20px 0; color: #4a4a4a; font-size: 16px; line-height: 1.6;">
+      Thank you for your payment to <strong>${organizationName}</strong> at the ${eventName} auction. Your receipt is attached; please keep it for your tax records.
+    </p>
+
+    <div style="background-color: #e8f5e9; border-radius: 8px; padding: 20px; margin: 20px 0;">
+      <p style="margin: 0 0 10px 0; color: #4a4a4a; font-size: 14px;">
+        <strong>Amount Paid:</strong> $${amountPaid.toFixed(2)}
+      </p>
+      <p style="margin: 0 0 10px 0; color: #4a4a4a; font-size: 14px;">
+        <strong>Fair Market Value Received:</strong> $${fairMarketValue.toFixed(2)}
+      </p>
+      <p style="margin: 0; color: #4a4a4a; font-size: 14px;">
+        <strong>Tax-Deductible Amount:</strong> $${deductibleAmount.toFixed(2)}
+      </p>
+    </div>
+
+    <!-- CTA Button -->
+    <table role="presentation" style="width: 100%; border-collapse: collapse;">
+      <tr>
+        <td style="text-align: center; padding: 20px 0;">
+          <a href="${myWinsUrl}"
+             style="display: inline-block; background-color: #5A7C6F; color: #ffffff; text-decoration: none; padding: 14px 32px; border-radius: 6px; font-size: 16px; font-weight: 600;">
+            View My Receipts
+          </a>
+        </td>
+      </tr>
+    </table>
+
+    <p style="margin: 20px 0 0 0; color: #888888; font-size: 14px; line-height: 1.6;">
+      Only the amount you paid above the fair market value of what you received is deductible. A statement of all your giving for the year is available from My Wins.
+    </p>
+  `
+
+  const plainTextContent = `
+Thank You for Your Support
+
+Hi ${recipientName},
+
+Thank you for your payment to ${organizationName} at the ${eventName} auction. Your receipt (#${receiptNumber}) is attached; please keep it for your tax records.
+
+Amount Paid: $${amountPaid.toFixed(2)}
+Fair Market Value Received: $${fairMarketValue.toFixed(2)}
+Tax-Deductible Amount: $${deductibleAmount.toFixed(2)}
+
+Only the amount you paid above the fair market value of what you received is deductible. A statement of all your giving for the year is available from My Wins: ${myWinsUrl}
+
+© ${new Date().getFullYear()} Very Good Auctions. All rights reserved.
+`
+
+  return sendEmail({
+    to: recipientEmail,
+    subject,
+    htmlContent: emailWrapper('Tax Receipt', content),
+    plainTextContent,
+    senderDisplayName: `${organizationName} via VGA`,
+    replyToEmail: organizationEmail,
+    attachments: [{
+      name: `receipt-${receiptNumber}.pdf`,
+      contentType: 'application/pdf',
+      contentInBase64: pdf.toString('base64'),
+    }],
+  })
+}
+
 // Reserve released email - sent when the 10% reserve is released
 export async function sendReserveReleasedEmail(params: {
   recipientEmail: string
@@ -0,0 +1,73 @@
+import { query as dbQuery, QueryFn } from '../config/database.js'
+import { badRequest, notFound } from '../middleware/errorHandler.js'
+
+// Per-event item categories. An item's category_id links it to one of its
+// event's categories; event_items.category keeps a copy of the category name
+// so text searches and older clients keep working.
+
+export interface ItemCategory {
+  id: string
+  name: string
+}
+
+/**
+ * The event category for an item being created or converted: an existing
+ * category by id, or one found (or created) by name. Null when neither is given.
+ */
+export async function resolveItemCategory(
+  eventId: string,
+  choice: { categoryId?: string | null; category?: string | null },
+  runQuery: QueryFn = dbQuery
+): Promise<ItemCategory | null> {
+  if (choice.categoryId) {
+    const result = await runQuery(
+      'SELECT id, name FROM event_categories WHERE id = @categoryId AND event_id = @eventId',
+      { categoryId: choice.categoryId, eventId }
+    )
+    if (result.recordset.length === 0) {
+      throw notFound('Category not found')
+    }
+    return result.recordset[0]
+  }
+
+  const name = choice.category?.trim()
+  if (!name) {
+    return null
+  }
+
+  const existing = await runQuery(
+    'SELECT id, name FROM event_categories WHERE event_id = @eventId AND name = @name',
+    { eventId, name }
+  )
+  if (existing.recordset.length > 0) {
+    return existing.recordset[0]
+  }
+
+  const created = await runQuery(
+    `INSERT INTO event_categories (event_id, name, display_order, created_at, updated_at)
+     OUTPUT INSERTED.id, INSERTED.name
+     SELECT @eventId, @name, COALESCE(MAX(display_order) + 1, 0), GETUTCDATE(), GETUTCDATE()
+     FROM event_categories WHERE event_id = @eventId`,
+    { eventId, name }
+  )
+  return created.recordset[0]
+}
+
+/**
+ * Check a requested category order covers exactly the event's categories,
+ * each once. Returns the ids in their new order.
+ */
+export function validateCategoryOrder(currentIds: string[], requestedIds: string[]): string[] {
+  const current = new Set(currentIds.map((id) => id.toLowerCase()))
+  const requested = requestedIds.map((id) => id.toLowerCase())
+
+  if (new Set(requested).size !== requested.length) {
+    throw badRequest('Each category can only appear once')
+  }
+
+  if (requested.length !== current.size || requested.some((id) => !current.has(id))) {
+    throw badRequest('The order must list every category in this event')
+  }
+
+  return requested
+}
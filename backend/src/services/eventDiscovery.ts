@@ -0,0 +1,109 @@
+import { escapeLike } from './itemCatalog.js'
+import { postalCodeInZips } from './zipCentroids.js'
+
+// Search, filters and sorts for the public event listing.
+// Builds the WHERE conditions and ORDER BY for the listing query; the route
+// supplies the visibility condition. Expects aliases e (auction_events) and
+// o (organizations, LEFT JOINed on e.organization_id).
+
+// Keyword searches beyond this many words are truncated
+const MAX_SEARCH_TERMS = 8
+
+// Statuses shown in the listing when no status is asked for
+const LISTED_STATUSES = ['scheduled', 'active', 'ended']
+
+export const DISCOVERY_SORTS = ['default', 'endingSoonest'] as const
+export type DiscoverySort = typeof DISCOVERY_SORTS[number]
+
+export interface DiscoveryFilters {
+  search?: string
+  status?: 'scheduled' | 'active' | 'ended'
+  auctionType?: 'standard' | 'silent'
+  organizationId?: string
+  // Events with an item in this category
+  category?: string
+  // Pickup location
+  city?: string
+  state?: string
+  // Events whose pickup ZIP is one of these (see findNearbyZips)
+  nearbyZips?: string[]
+  sort?: DiscoverySort
+}
+
+export interface DiscoveryQuery {
+  conditions: string[]
+  orderBy: string
+  params: Record<string, unknown>
+}
+
+/**
+ * Translate listing filters into SQL conditions, an ORDER BY and parameters.
+ * Every user-supplied value is passed as a parameter.
+ */
+export function buildDiscoveryQuery(filters: DiscoveryFilters): DiscoveryQuery {
+  const conditions: string[] = []
+  const params: Record<string, unknown> = {}
+
+  if (filters.status) {
+    conditions.push('e.status = @status')
+    params.status = filters.status
+  } else {
+    conditions.push(`e.status IN (${LISTED_STATUSES.map((s) => `'${s}'`).join(', ')})`)
+  }
+
+  // Every word must appear in the event, its organization, or one of its items
+  const terms = (filters.search || '').trim().split(/\s+/).filter(Boolean).slice(0, MAX_SEARCH_TERMS)
+  terms.forEach((term, idx) => {
+    params[`search${idx}`] = `%${escapeLike(term)}%`
+    conditions.push(
+      `(e.name LIKE @search${idx} ESCAPE '\\' OR e.description LIKE @search${idx} ESCAPE '\\'
+        OR o.name LIKE @search${idx} ESCAPE '\\' OR o.description LIKE @search${idx} ESCAPE '\\'
+        OR EXISTS (SELECT 1 FROM event_items si
+                   WHERE si.event_id = e.id AND si.submission_status = 'approved' AND si.status != 'removed'
+                     AND (si.title LIKE @search${idx} ESCAPE '\\' OR si.description LIKE @search${idx} ESCAPE '\\')))`
+    )
+  })
+
+  if (filters.auctionType) {
+    conditions.push('e.auction_type = @auctionType')
+    params.auctionType = filters.auctionType
+  }
+
+  if (filters.organizationId) {
+    conditions.push('e.organization_id = @organizationId')
+    params.organizationId = filters.organizationId
+  }
+
+  if (filters.category) {
+    conditions.push(
+      `EXISTS (SELECT 1 FROM event_items ci
+               WHERE ci.event_id = e.id AND ci.submission_status = 'approved' AND ci.status != 'removed'
+                 AND ci.category = @category)`
+    )
+    params.category = filters.category
+  }
+
+  if (filters.city) {
+    conditions.push('e.pickup_city = @city')
+    params.city = filters.city.trim()
+  }
+
+  if (filters.state) {
+    conditions.push('e.pickup_state = @state')
+    params.state = filters.state.trim()
+  }
+
+  if (filters.nearbyZips) {
+    const nearby = postalCodeInZips('e.pickup_postal_code', filters.nearbyZips)
+    conditions.push(nearby.condition)
+    Object.assign(params, nearby.params)
+  }
+
+  // Live events first, then upcoming, then past
+  const statusOrder = "CASE e.status WHEN 'active' THEN 1 WHEN 'scheduled' THEN 2 ELSE 3 END"
+  const orderBy = filters.sort === 'endingSoonest'
+    ? `${statusOrder}, CASE WHEN e.status = 'ended' THEN NULL ELSE e.end_time END ASC, e.end_time DESC, e.id ASC`
+    : `${statusOrder}, e.start_time ASC, e.id ASC`
+
+  return { conditions, orderBy, params }
+}
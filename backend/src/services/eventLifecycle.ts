@@ -0,0 +1,268 @@
+import { query as dbQuery } from '../config/database.js'
+import { getEffectiveTime } from './uatTime.js'
+import { processEventCompletion, processGroupCompletion } from './platformFees.js'
+import { notifyEventSubmittersLive } from './notifications.js'
+import { ITEM_END_TIME_SQL } from './softClose.js'
+import { sendClosingSoonAlerts } from './watchlist.js'
+
+// How often the scheduler looks for events to open or close
+const DEFAULT_INTERVAL_MS = 30000
+
+// A close that hasn't finished within this window is assumed to have crashed
+// (e.g. the instance was recycled) and may be picked up by another instance
+export const CLOSING_LEASE_MINUTES = 10
+
+interface LifecycleEvent {
+  id: string
+  name: string
+  status: 'scheduled' | 'active'
+  start_time: Date
+  end_time: Date
+  // Latest item end time (soft close can push items past end_time)
+  closes_at: Date
+  simulated_current_time: Date | null
+}
+
+interface LifecycleGroup {
+  id: string
+  event_id: string
+  // Latest end time among the group's open items (soft close can push items past the group's end_time)
+  closes_at: Date
+  simulated_current_time: Date | null
+}
+
+export interface LifecycleTickResult {
+  activated: string[]
+  completed: string[]
+  closedGroups: string[]
+  failed: string[]
+}
+
+let timer: NodeJS.Timeout | null = null
+let tickInProgress = false
+
+/**
+ * Move a scheduled event to active.
+ * The status guard makes this safe to call from several instances at once:
+ * only the caller that actually flips the row gets `true`.
+ */
+export async function activateEvent(eventId: string): Promise<boolean> {
+  const result = await dbQuery(
+    `UPDATE auction_events
+     SET status = 'active',
+         activated_at = GETUTCDATE(),
+         updated_at = GETUTCDATE()
+     WHERE id = @eventId AND status = 'scheduled'`,
+    { eventId }
+  )
+
+  return result.rowsAffected[0] > 0
+}
+
+/**
+ * Take the closing lease on an active event.
+ * Returns false if the event is not active or another caller holds a live lease.
+ */
+export async function claimEventForCompletion(eventId: string): Promise<boolean> {
+  const result = await dbQuery(
+    `UPDATE auction_events
+     SET closing_started_at = GETUTCDATE()
+     WHERE id = @eventId
+       AND status = 'active'
+       AND (closing_started_at IS NULL
+            OR closing_started_at < DATEADD(MINUTE, -@leaseMinutes, GETUTCDATE()))`,
+    { eventId, leaseMinutes: CLOSING_LEASE_MINUTES }
+  )
+
+  return result.rowsAffected[0] > 0
+}
+
+/**
+ * Give up the closing lease after a failed completion so it can be retried
+ */
+export async function releaseEventClaim(eventId: string): Promise<void> {
+  await dbQuery(
+    `UPDATE auction_events
+     SET closing_started_at = NULL
+     WHERE id = @eventId AND status = 'active'`,
+    { eventId }
+  )
+}
+
+/**
+ * Take the closing lease on a closing group of an active event
+ */
+export async function claimGroupForCompletion(groupId: string): Promise<boolean> {
+  const result = await dbQuery(
+    `UPDATE event_item_groups
+     SET closing_started_at = GETUTCDATE()
+     WHERE id = @groupId
+       AND closed_at IS NULL
+       AND (closing_started_at IS NULL
+            OR closing_started_at < DATEADD(MINUTE, -@leaseMinutes, GETUTCDATE()))
+       AND EXISTS (SELECT 1 FROM auction_events WHERE id = event_item_groups.event_id AND status = 'active')`,
+    { groupId, leaseMinutes: CLOSING_LEASE_MINUTES }
+  )
+
+  return result.rowsAffected[0] > 0
+}
+
+/**
+ * Give up the closing lease on a group after a failed completion
+ */
+export async function releaseGroupClaim(groupId: string): Promise<void> {
+  await dbQuery(
+    `UPDATE event_item_groups
+     SET closing_started_at = NULL
+     WHERE id = @groupId AND closed_at IS NULL`,
+    { groupId }
+  )
+}
+
+/**
+ * Close any due closing groups of active events
+ */
+async function closeDueGroups(outcome: LifecycleTickResult): Promise<void> {
+  const result = await dbQuery(
+    `SELECT g.id, g.event_id, e.simulated_current_time,
+            COALESCE(
+              (SELECT MAX(${ITEM_END_TIME_SQL}) FROM event_items i
+               WHERE i.closing_group_id = g.id AND i.status = 'active'),
+              g.end_time
+            ) as closes_at
+     FROM event_item_groups g
+     INNER JOIN auction_events e ON g.event_id = e.id
+     WHERE e.status = 'active' AND g.closed_at IS NULL`
+  )
+
+  for (const group of result.recordset as LifecycleGroup[]) {
+    try {
+      const now = await getEffectiveTime(group)
+      if (new Date(group.closes_at) > now || !(await claimGroupForCompletion(group.id))) {
+        continue
+      }
+
+      try {
+        await processGroupCompletion(group.id)
+        outcome.closedGroups.push(group.id)
+        console.log(`[EventLifecycle] Closing group ${group.id} of event ${group.event_id} has closed`)
+      } catch (error) {
+        await releaseGroupClaim(group.id)
+        throw error
+      }
+    } catch (error) {
+      outcome.failed.push(group.id)
+      console.error(`[EventLifecycle] Failed to close group ${group.id}:`, error)
+    }
+  }
+}
+
+/**
+ * Run one pass of the lifecycle: open scheduled events whose start time has
+ * passed, close closing groups that are due, and close active events once
+ * every item's end time has passed.
+ * Time is read through the UAT clock so time travel drives transitions too.
+ */
+export async function runEventLifecycleTick(): Promise<LifecycleTickResult> {
+  const outcome: LifecycleTickResult = { activated: [], completed: [], closedGroups: [], failed: [] }
+
+  const result = await dbQuery(
+    `SELECT e.id, e.name, e.status, e.start_time, e.end_time, e.simulated_current_time,
+            COALESCE(
+              (SELECT MAX(i.end_time) FROM event_items i
+               WHERE i.event_id = e.id AND i.status = 'active' AND i.end_time > e.end_time),
+              e.end_time
+            ) as closes_at
+     FROM auction_events e
+     WHERE e.status IN ('scheduled', 'active')`
+  )
+
+  for (const event of result.recordset as LifecycleEvent[]) {
+    try {
+      const now = await getEffectiveTime(event)
+
+      if (event.status === 'scheduled' && new Date(event.start_time) <= now) {
+        if (await activateEvent(event.id)) {
+          outcome.activated.push(event.id)
+          console.log(`[EventLifecycle] Event ${event.id} is now active`)
+
+          notifyEventSubmittersLive(event.id, event.name)
+            .catch((err) => console.error(`[EventLifecycle] Failed to notify submitters for ${event.id}:`, err))
+        }
+        // An event whose end time has also passed is closed on the next tick
+        continue
+      }
+
+      if (event.status === 'active' && new Date(event.closes_at) <= now) {
+        if (!(await claimEventForCompletion(event.id))) {
+          continue
+        }
+
+        try {
+          await processEventCompletion(event.id)
+          outcome.completed.push(event.id)
+          console.log(`[EventLifecycle] Event ${event.id} has ended`)
+        } catch (error) {
+          await releaseEventClaim(event.id)
+          throw error
+        }
+      }
+
+      if (event.status === 'active' && new Date(event.closes_at) > now) {
+        sendClosingSoonAlerts(event.id, now)
+          .catch((err) => console.error(`[EventLifecycle] Failed to send watchlist alerts for ${event.id}:`, err))
+      }
+    } catch (error) {
+      outcome.failed.push(event.id)
+      console.error(`[EventLifecycle] Failed to process event ${event.id}:`, error)
+    }
+  }
+
+  // Events that just ended have already finalized their groups
+  await closeDueGroups(outcome)
+
+  return outcome
+}
+
+async function tick(): Promise<void> {
+  // Skip if the previous pass is still running (slow DB, many events closing)
+  if (tickInProgress) {
+    return
+  }
+
+  tickInProgress = true
+  try {
+    await runEventLifecycleTick()
+  } catch (error) {
+    console.error('[EventLifecycle] Tick failed:', error)
+  } finally {
+    tickInProgress = false
+  }
+}
+
+/**
+ * Start the background scheduler (no-op if already running)
+ */
+export function startEventLifecycleScheduler(
+  intervalMs: number = parseInt(process.env.EVENT_LIFECYCLE_INTERVAL_MS || '', 10) || DEFAULT_INTERVAL_MS
+): void {
+  if (timer) {
+    return
+  }
+
+  timer = setInterval(tick, intervalMs)
+  // Don't keep the process alive just for the scheduler
+  timer.unref()
+
+  void tick()
+}
+
+/**
+ * Stop the background scheduler
+ */
+export function stopEventLifecycleScheduler(): void {
+  if (timer) {
+    clearInterval(timer)
+    timer = null
+  }
+}
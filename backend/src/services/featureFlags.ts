@@ -7,6 +7,7 @@ export type FeatureFlagKey =
   | 'free_mode_enabled'
   | 'silent_auctions_enabled'
   | 'standard_auctions_enabled'
+  | 'raffles_enabled'
 
 export interface FeatureFlag {
   id: string
@@ -57,6 +58,7 @@ export async function initializeFeatureFlagCache(): Promise<void> {
     flagCache.set('free_mode_enabled', false)
     flagCache.set('silent_auctions_enabled', true)
     flagCache.set('standard_auctions_enabled', true)
+    flagCache.set('raffles_enabled', false)
     cacheInitialized = true
   }
 }
@@ -245,6 +247,13 @@ export async function isStandardAuctionsEnabled(): Promise<boolean> {
   return getFeatureFlag('standard_auctions_enabled')
 }
 
+/**
+ * Check if raffles are enabled (off by default; raffle law varies by state)
+ */
+export async function isRafflesEnabled(): Promise<boolean> {
+  return getFeatureFlag('raffles_enabled')
+}
+
 /**
  * Get all feature flags as a simple key-value object (useful for frontend)
  */
@@ -259,5 +268,6 @@ export async function getFeatureFlagsObject(): Promise<Record<FeatureFlagKey, bo
     free_mode_enabled: flagCache.get('free_mode_enabled') ?? false,
     silent_auctions_enabled: flagCache.get('silent_auctions_enabled') ?? true,
     standard_auctions_enabled: flagCache.get('standard_auctions_enabled') ?? true,
+    raffles_enabled: flagCache.get('raffles_enabled') ?? false,
   }
 }
@@ -0,0 +1,79 @@
+import { query as dbQuery, QueryFn } from '../config/database.js'
+import { broadcastFundANeedUpdate } from './signalr.js'
+
+// Fund-a-need campaigns (paddle raises): straight donations toward a cause,
+// pledged at a campaign's giving levels or any amount. Pledges count toward
+// the event's total raised when it ends and are paid like won items, without
+// a platform fee. Voided pledges are kept but never counted.
+
+export interface PledgeTotals {
+  totalPledged: number
+  pledgeCount: number
+}
+
+function toTotals(row: any): PledgeTotals {
+  return {
+    totalPledged: parseFloat(row?.total_pledged ?? 0) || 0,
+    pledgeCount: row?.pledge_count ?? 0,
+  }
+}
+
+/**
+ * Active pledges across all of an event's campaigns
+ */
+export async function getEventPledgeTotals(eventId: string, runQuery: QueryFn = dbQuery): Promise<PledgeTotals> {
+  const result = await runQuery(
+    `SELECT COALESCE(SUM(amount), 0) as total_pledged, COUNT(*) as pledge_count
+     FROM fund_a_need_pledges
+     WHERE event_id = @eventId AND status = 'active'`,
+    { eventId }
+  )
+
+  return toTotals(result.recordset[0])
+}
+
+/**
+ * Active pledges on one campaign
+ */
+export async function getCampaignPledgeTotals(campaignId: string, runQuery: QueryFn = dbQuery): Promise<PledgeTotals> {
+  const result = await runQuery(
+    `SELECT COALESCE(SUM(amount), 0) as total_pledged, COUNT(*) as pledge_count
+     FROM fund_a_need_pledges
+     WHERE campaign_id = @campaignId AND status = 'active'`,
+    { campaignId }
+  )
+
+  return toTotals(result.recordset[0])
+}
+
+/**
+ * Stop taking pledges on every campaign of an event (it has ended)
+ */
+export async function closeEventCampaigns(eventId: string, runQuery: QueryFn = dbQuery): Promise<void> {
+  await runQuery(
+    `UPDATE fund_a_need_campaigns SET status = 'closed', updated_at = GETUTCDATE()
+     WHERE event_id = @eventId AND status = 'open'`,
+    { eventId }
+  )
+}
+
+/**
+ * Push a campaign's new total to everyone watching the event
+ */
+export async function announceCampaignTotal(campaign: {
+  id: string
+  event_id: string
+  goal_amount: number | string | null
+}): Promise<PledgeTotals> {
+  const totals = await getCampaignPledgeTotals(campaign.id)
+
+  broadcastFundANeedUpdate({
+    eventId: campaign.event_id,
+    campaignId: campaign.id,
+    totalPledged: totals.totalPledged,
+    pledgeCount: totals.pledgeCount,
+    goalAmount: campaign.goal_amount != null ? parseFloat(String(campaign.goal_amount)) : null,
+  })
+
+  return totals
+}
@@ -0,0 +1,337 @@
+import net from 'net'
+import tls from 'tls'
+
+// Pub/sub backplane for the auction hub.
+// Every broadcast is published here and every API instance delivers it to the
+// sockets it holds, so a bid placed on one replica reaches browsers connected
+// to another. With a single instance the in-memory backplane is enough.
+
+export type HubMessage =
+  | { scope: 'groups'; groups: string[]; type: string; data: unknown }
+  | { scope: 'user'; userId: string; type: string; data: unknown }
+
+export type HubMessageHandler = (message: HubMessage) => void
+
+export interface HubBackplane {
+  publish(message: HubMessage): Promise<void>
+  subscribe(handler: HubMessageHandler): Promise<void>
+  close(): Promise<void>
+}
+
+/**
+ * Single-process backplane: publish hands the message straight back to local
+ * subscribers. Used when no Redis is configured, and in tests.
+ */
+export class InMemoryHubBackplane implements HubBackplane {
+  private handlers = new Set<HubMessageHandler>()
+
+  async publish(message: HubMessage): Promise<void> {
+    this.handlers.forEach((handler) => handler(message))
+  }
+
+  async subscribe(handler: HubMessageHandler): Promise<void> {
+    this.handlers.add(handler)
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear()
+  }
+}
+
+type RespValue = string | number | null | RespValue[] | Error
+
+/**
+ * Incremental RESP (REdis Serialization Protocol) reader. Replies can arrive
+ * split across TCP chunks, so bytes are buffered until a full value parses.
+ */
+export class RespParser {
+  private buffer: Buffer = Buffer.alloc(0)
+
+  feed(chunk: Buffer): RespValue[] {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk
+
+    const values: RespValue[] = []
+    for (;;) {
+      const parsed = this.parseValue(0)
+      if (!parsed) break
+      values.push(parsed.value)
+      this.buffer = this.buffer.subarray(parsed.next)
+    }
+    return values
+  }
+
+  private parseValue(offset: number): { value: RespValue; next: number } | null {
+    const lineEnd = this.buffer.indexOf('\r\n', offset)
+    if (lineEnd === -1) return null
+
+    const prefix = String.fromCharCode(this.buffer[offset])
+    const line = this.buffer.toString('utf8', offset + 1, lineEnd)
+    const afterLine = lineEnd + 2
+
+    switch (prefix) {
+      case '+':
+        return { value: line, next: afterLine }
+      case '-':
+        return { value: new Error(line), next: afterLine }
+      case ':':
+        return { value: parseInt(line, 10), next: afterLine }
+      case '$': {
+        const length = parseInt(line, 10)
+        if (length === -1) return { value: null, next: afterLine }
+        if (this.buffer.length < afterLine + length + 2) return null
+        return {
+          value: this.buffer.toString('utf8', afterLine, afterLine + length),
+          next: afterLine + length + 2,
+        }
+      }
+      case '*': {
+        const count = parseInt(line, 10)
+        if (count === -1) return { value: null, next: afterLine }
+        const items: RespValue[] = []
+        let next = afterLine
+        for (let i = 0; i < count; i++) {
+          const item = this.parseValue(next)
+          if (!item) return null
+          items.push(item.value)
+          next = item.next
+        }
+        return { value: items, next }
+      }
+      default:
+        throw new Error(`Unexpected RESP type byte: ${prefix}`)
+    }
+  }
+}
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+export function encodeRespCommand(args: string[]): Buffer {
+  const parts = [`*${args.length}\r\n`]
+  for (const arg of args) {
+    parts.push(`$${Buffer.byteLength(arg)}\r\n${arg}\r\n`)
+  }
+  return Buffer.from(parts.join(''))
+}
+
+interface RedisConnectionOptions {
+  host: string
+  port: number
+  tls: boolean
+  username: string | null
+  password: string | null
+}
+
+export function parseRedisUrl(url: string): RedisConnectionOptions {
+  const parsed = new URL(url)
+  if (parsed.protocol !== 'redis:' && parsed.protocol !== 'rediss:') {
+    throw new Error(`Unsupported backplane URL scheme "${parsed.protocol}" (use redis:// or rediss://)`)
+  }
+
+  return {
+    host: parsed.hostname || 'localhost',
+    port: parsed.port ? parseInt(parsed.port, 10) : 6379,
+    // rediss:// is Redis over TLS, as managed Redis services require
+    tls: parsed.protocol === 'rediss:',
+    username: parsed.username ? decodeURIComponent(parsed.username) : null,
+    password: parsed.password ? decodeURIComponent(parsed.password) : null,
+  }
+}
+
+const RECONNECT_DELAY_MS = 2000
+
+/**
+ * Minimal Redis client speaking RESP over TCP, or TLS for rediss:// URLs.
+ * Reconnects on its own; `onReady` runs after every (re)connect once AUTH
+ * has succeeded, which is where the subscriber re-issues SUBSCRIBE. Commands
+ * are refused until then. A rejected AUTH closes the connection for good,
+ * since retrying the same credentials can't succeed.
+ */
+class RedisConnection {
+  private socket: net.Socket | null = null
+  private parser = new RespParser()
+  private pending: Array<{ resolve: (value: RespValue) => void; reject: (error: Error) => void }> = []
+  private ready = false
+  private closed = false
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+
+  constructor(
+    private options: RedisConnectionOptions,
+    private name: string,
+    private onPush: ((value: RespValue) => void) | null = null,
+    private onReady: (() => void) | null = null
+  ) {
+    this.connect()
+  }
+
+  private connect(): void {
+    this.parser = new RespParser()
+    this.ready = false
+    const { host, port } = this.options
+    const socket = this.options.tls
+      ? tls.connect({ host, port, servername: host })
+      : net.createConnection({ host, port })
+    this.socket = socket
+
+    socket.on(this.options.tls ? 'secureConnect' : 'connect', () => {
+      console.log(`[HubBackplane] ${this.name} connected to ${host}:${port}${this.options.tls ? ' (TLS)' : ''}`)
+      this.authenticate(socket)
+        .then(() => {
+          if (socket !== this.socket) return
+          this.ready = true
+          this.onReady?.()
+        })
+        .catch((error) => {
+          if (socket !== this.socket) return
+          console.error(`[HubBackplane] ${this.name} authentication failed, closing:`, error.message)
+          this.close()
+        })
+    })
+
+    socket.on('data', (chunk: Buffer) => {
+      let values: RespValue[]
+      try {
+        values = this.parser.feed(chunk)
+      } catch (error) {
+        console.error(`[HubBackplane] ${this.name} protocol error:`, error)
+        socket.destroy()
+        return
+      }
+
+      for (const value of values) {
+        // Once subscribed, Redis pushes ["message", channel, payload] arrays
+        // that don't answer any command we sent
+        if (this.onPush && Array.isArray(value) && value[0] === 'message') {
+          this.onPush(value)
+          continue
+        }
+
+        const waiter = this.pending.shift()
+        if (!waiter) continue
+        if (value instanceof Error) {
+          waiter.reject(value)
+        } else {
+          waiter.resolve(value)
+        }
+      }
+    })
+
+    socket.on('error', (error) => {
+      console.error(`[HubBackplane] ${this.name} error:`, error.message)
+    })
+
+    socket.on('close', () => {
+      this.socket = null
+      this.ready = false
+      const failed = this.pending
+      this.pending = []
+      failed.forEach((waiter) => waiter.reject(new Error('Redis connection closed')))
+
+      if (!this.closed) {
+        this.reconnectTimer = setTimeout(() => this.connect(), RECONNECT_DELAY_MS)
+      }
+    })
+  }
+
+  private async authenticate(socket: net.Socket): Promise<void> {
+    const { username, password } = this.options
+    if (!password) return
+
+    await this.send(socket, username ? ['AUTH', username, password] : ['AUTH', password])
+  }
+
+  private send(socket: net.Socket, args: string[]): Promise<RespValue> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject })
+      socket.write(encodeRespCommand(args))
+    })
+  }
+
+  command(args: string[]): Promise<RespValue> {
+    if (!this.socket || this.socket.destroyed || !this.ready) {
+      return Promise.reject(new Error('Redis connection is not open'))
+    }
+
+    return this.send(this.socket, args)
+  }
+
+  close(): void {
+    this.closed = true
+    this.ready = false
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+    }
+    this.socket?.end()
+  }
+}
+
+/**
+ * Backplane over Redis pub/sub. Uses two connections because a subscribed
+ * Redis connection can't issue PUBLISH. Every instance, including the one
+ * that published, receives each message from Redis and delivers it locally.
+ */
+export class RedisHubBackplane implements HubBackplane {
+  private publisher: RedisConnection
+  private subscriber: RedisConnection | null = null
+  private handlers = new Set<HubMessageHandler>()
+  private options: RedisConnectionOptions
+
+  constructor(url: string, private channel = 'auction-hub') {
+    this.options = parseRedisUrl(url)
+    this.publisher = new RedisConnection(this.options, 'publisher')
+  }
+
+  async publish(message: HubMessage): Promise<void> {
+    await this.publisher.command(['PUBLISH', this.channel, JSON.stringify(message)])
+  }
+
+  async subscribe(handler: HubMessageHandler): Promise<void> {
+    this.handlers.add(handler)
+
+    if (!this.subscriber) {
+      this.subscriber = new RedisConnection(
+        this.options,
+        'subscriber',
+        (push) => this.handlePush(push),
+        () => {
+          this.subscriber?.command(['SUBSCRIBE', this.channel]).catch((error) => {
+            console.error('[HubBackplane] Subscribe failed:', error.message)
+          })
+        }
+      )
+    }
+  }
+
+  private handlePush(push: RespValue): void {
+    const [, channel, payload] = push as RespValue[]
+    if (channel !== this.channel || typeof payload !== 'string') return
+
+    let message: HubMessage
+    try {
+      message = JSON.parse(payload)
+    } catch (error) {
+      console.error('[HubBackplane] Dropping malformed message:', error)
+      return
+    }
+
+    this.handlers.forEach((handler) => handler(message))
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear()
+    this.publisher.close()
+    this.subscriber?.close()
+  }
+}
+
+/**
+ * Pick the backplane from configuration: Redis when HUB_BACKPLANE_REDIS_URL
+ * is set (required when running more than one API instance), otherwise in-memory
+ */
+export function createHubBackplane(): HubBackplane {
+  const redisUrl = process.env.HUB_BACKPLANE_REDIS_URL
+  if (redisUrl) {
+    return new RedisHubBackplane(redisUrl, process.env.HUB_BACKPLANE_CHANNEL || 'auction-hub')
+  }
+  return new InMemoryHubBackplane()
+}
@@ -0,0 +1,103 @@
+import sharp from 'sharp'
+import { uploadToBlob, deleteImage } from './storage.js'
+import { badRequest } from '../middleware/errorHandler.js'
+
+// Upload pipeline for item photos, event covers and organization logos.
+// Every upload is auto-oriented from its EXIF orientation, stripped of all
+// metadata (camera, GPS) and re-encoded as WebP at three sizes, so browsers
+// never download a donor's full-size original.
+
+export type RenditionName = 'thumbnail' | 'medium' | 'full'
+
+// Longest edge, in pixels, of each rendition. Smaller images are not enlarged.
+export const RENDITION_SIZES: Record<RenditionName, number> = {
+  thumbnail: 320,
+  medium: 800,
+  full: 1600,
+}
+
+const WEBP_QUALITY = 82
+
+export interface ImageRendition {
+  name: RenditionName
+  buffer: Buffer
+  width: number
+  height: number
+}
+
+export interface UploadedImage {
+  fullUrl: string
+  mediumUrl: string
+  thumbnailUrl: string
+}
+
+/**
+ * Decode an upload and produce its WebP renditions.
+ * Throws a 400 when the bytes aren't a readable image.
+ */
+export async function processImage(input: Buffer): Promise<ImageRendition[]> {
+  let oriented: Buffer
+  try {
+    // rotate() with no angle applies the EXIF orientation; the output
+    // carries no metadata because withMetadata() is never called
+    oriented = await sharp(input).rotate().toBuffer()
+  } catch {
+    throw badRequest('The uploaded file is not a readable image')
+  }
+
+  const renditions: ImageRendition[] = []
+  for (const name of Object.keys(RENDITION_SIZES) as RenditionName[]) {
+    const size = RENDITION_SIZES[name]
+    const { data, info } = await sharp(oriented)
+      .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: WEBP_QUALITY })
+      .toBuffer({ resolveWithObject: true })
+
+    renditions.push({ name, buffer: data, width: info.width, height: info.height })
+  }
+
+  return renditions
+}
+
+/**
+ * Blob name of a rendition. `basePath` has no extension, e.g. `events/<id>/cover-<uuid>`.
+ */
+export function renditionBlobName(basePath: string, name: RenditionName): string {
+  return `${basePath}-${name}.webp`
+}
+
+/**
+ * Process an upload and store its renditions next to each other
+ */
+export async function processAndUploadImage(input: Buffer, basePath: string): Promise<UploadedImage> {
+  const renditions = await processImage(input)
+
+  const urls = {} as Record<RenditionName, string>
+  for (const rendition of renditions) {
+    urls[rendition.name] = await uploadToBlob(
+      rendition.buffer,
+      renditionBlobName(basePath, rendition.name),
+      'image/webp'
+    )
+  }
+
+  return { fullUrl: urls.full, mediumUrl: urls.medium, thumbnailUrl: urls.thumbnail }
+}
+
+/**
+ * Delete an image given the URL stored for it. For pipeline uploads (the
+ * `-full.webp` rendition) the medium and thumbnail renditions go too; older
+ * uploads are single blobs.
+ */
+export async function deleteImageRenditions(fullUrl: string): Promise<void> {
+  const suffix = '-full.webp'
+  const urls = fullUrl.endsWith(suffix)
+    ? (Object.keys(RENDITION_SIZES) as RenditionName[]).map(
+        (name) => `${fullUrl.slice(0, -suffix.length)}-${name}.webp`
+      )
+    : [fullUrl]
+
+  for (const url of urls) {
+    await deleteImage(url)
+  }
+}
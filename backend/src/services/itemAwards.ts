@@ -0,0 +1,123 @@
+import { query as dbQuery, QueryFn } from '../config/database.js'
+
+// Items sold in several identical units.
+// An item's quantity is split between buy-now purchases (quantity_sold) and
+// the units left for bidding, which go to the top bidders when it closes,
+// one unit each. Every unit a bidder wins or buys is recorded as an award in
+// event_item_winners, which tracks its own payment and fulfillment.
+
+export type WinnerPricing = 'own_bid' | 'lowest_winning'
+
+export interface RankedBid {
+  bidId: string
+  bidderId: string
+  amount: number
+}
+
+/**
+ * Units still up for grabs (quantity less buy-now sales)
+ */
+export function getAvailableQuantity(item: { quantity?: number | null; quantity_sold?: number | null }): number {
+  return Math.max(0, (item.quantity ?? 1) - (item.quantity_sold ?? 0))
+}
+
+/**
+ * Each bidder's best standard bid on an item, best first. A bidder only ever
+ * holds one winning slot. On a tie the bid already winning stays ahead, then
+ * the earlier bid.
+ */
+export async function rankStandardBidders(itemId: string, limit: number, runQuery: QueryFn = dbQuery): Promise<RankedBid[]> {
+  if (limit <= 0) {
+    return []
+  }
+
+  const result = await runQuery(
+    `WITH BestBids AS (
+      SELECT id, bidder_id, amount, is_winning, created_at,
+             ROW_NUMBER() OVER (PARTITION BY bidder_id ORDER BY amount DESC, is_winning DESC, created_at ASC) as bidder_rank
+      FROM event_item_bids
+      WHERE item_id = @itemId
+    )
+    SELECT TOP (@limit) id, bidder_id, amount
+    FROM BestBids
+    WHERE bidder_rank = 1
+    ORDER BY amount DESC, is_winning DESC, created_at ASC`,
+    { itemId, limit }
+  )
+
+  return result.recordset.map((row: any) => ({
+    bidId: row.id,
+    bidderId: row.bidder_id,
+    amount: parseFloat(row.amount),
+  }))
+}
+
+/**
+ * Mark the bids currently holding one of an item's units as winning, and
+ * no others. Returns the winning bids, best first.
+ */
+export async function refreshWinningBids(itemId: string, slots: number, runQuery: QueryFn = dbQuery): Promise<RankedBid[]> {
+  const winners = await rankStandardBidders(itemId, slots, runQuery)
+
+  await runQuery(
+    'UPDATE event_item_bids SET is_winning = 0 WHERE item_id = @itemId AND is_winning = 1',
+    { itemId }
+  )
+
+  if (winners.length > 0) {
+    const params = winners.reduce(
+      (acc: Record<string, string>, bid, idx) => ({ ...acc, [`bid${idx}`]: bid.bidId }),
+      { itemId }
+    )
+    await runQuery(
+      `UPDATE event_item_bids SET is_winning = 1
+       WHERE item_id = @itemId AND id IN (${winners.map((_, idx) => `@bid${idx}`).join(',')})`,
+      params
+    )
+  }
+
+  return winners
+}
+
+/**
+ * What each winner pays: their own bid, or with 'lowest_winning' the lowest
+ * of the winning bids. Amounts are in the same order as given.
+ */
+export function priceAwards(amounts: number[], pricing: WinnerPricing | string | null | undefined): number[] {
+  if (pricing !== 'lowest_winning' || amounts.length === 0) {
+    return amounts
+  }
+  const lowest = Math.min(...amounts)
+  return amounts.map(() => lowest)
+}
+
+/**
+ * Record an award; its payment and fulfillment start out pending
+ */
+export async function recordAward(
+  award: {
+    itemId: string
+    eventId: string
+    winnerId: string
+    amount: number
+    quantity?: number
+    source: 'bid' | 'buy_now'
+  },
+  runQuery: QueryFn = dbQuery
+): Promise<string> {
+  const result = await runQuery(
+    `INSERT INTO event_item_winners (item_id, event_id, winner_id, amount, quantity, source, won_at)
+     OUTPUT INSERTED.id
+     VALUES (@itemId, @eventId, @winnerId, @amount, @quantity, @source, GETUTCDATE())`,
+    {
+      itemId: award.itemId,
+      eventId: award.eventId,
+      winnerId: award.winnerId,
+      amount: award.amount,
+      quantity: award.quantity ?? 1,
+      source: award.source,
+    }
+  )
+
+  return result.recordset[0].id
+}
@@ -0,0 +1,162 @@
+import { ITEM_END_TIME_SQL } from './softClose.js'
+
+// Search, filters and sorts for an event's public item catalog.
+// Builds the extra WHERE conditions and ORDER BY for the catalog query; the
+// route supplies the base conditions (event, approved, not removed).
+// Expects aliases i (event_items), g (event_item_groups, LEFT JOINed on
+// i.closing_group_id) and e (auction_events).
+
+// "Ending soon" means bidding closes within this many minutes
+export const ENDING_SOON_MINUTES = 30
+
+// Keyword searches beyond this many words are truncated
+const MAX_SEARCH_TERMS = 8
+
+export const CATALOG_SORTS = ['default', 'title', 'currentBid', 'bidCount', 'closingTime'] as const
+export type CatalogSort = typeof CATALOG_SORTS[number]
+
+export interface CatalogFilters {
+  search?: string
+  // An event category (event_categories.id), or a free-text category name
+  categoryId?: string
+  category?: string
+  condition?: string
+  minPrice?: number
+  maxPrice?: number
+  noBids?: boolean
+  buyNow?: boolean
+  endingSoon?: boolean
+  // Only items the signed-in user has bid on and is (or isn't) leading
+  myBids?: 'winning' | 'outbid'
+  sort?: CatalogSort
+  direction?: 'asc' | 'desc'
+}
+
+export interface CatalogContext {
+  auctionType: 'standard' | 'silent'
+  buyNowEnabled: boolean
+  now: Date
+  userId?: string
+}
+
+export interface CatalogQuery {
+  conditions: string[]
+  orderBy: string
+  params: Record<string, unknown>
+}
+
+// What a bidder sees as the item's price: the current bid, else the starting price
+const PRICE_SQL = 'COALESCE(i.current_bid, i.starting_price, 0)'
+
+const DEFAULT_DIRECTIONS: Record<CatalogSort, 'asc' | 'desc'> = {
+  default: 'asc',
+  title: 'asc',
+  currentBid: 'desc',
+  bidCount: 'desc',
+  closingTime: 'asc',
+}
+
+/**
+ * Escape LIKE wildcards so search terms match literally (used with ESCAPE '\')
+ */
+export function escapeLike(term: string): string {
+  return term.replace(/[\\%_[]/g, (char) => `\\${char}`)
+}
+
+/**
+ * SQL for the bidder currently leading an item, ranked the same way
+ * winners are picked when the item closes
+ */
+function leaderSql(auctionType: 'standard' | 'silent'): string {
+  return auctionType === 'silent'
+    ? `(SELECT TOP 1 lb.bidder_id FROM event_item_silent_bids lb
+        WHERE lb.item_id = i.id ORDER BY lb.amount DESC, lb.created_at ASC)`
+    : `(SELECT TOP 1 lb.bidder_id FROM event_item_bids lb
+        WHERE lb.item_id = i.id ORDER BY lb.amount DESC, lb.is_winning DESC, lb.created_at ASC)`
+}
+
+/**
+ * Translate catalog filters into SQL conditions, an ORDER BY and parameters.
+ * Every user-supplied value is passed as a parameter.
+ */
+export function buildCatalogQuery(filters: CatalogFilters, context: CatalogContext): CatalogQuery {
+  const conditions: string[] = []
+  const params: Record<string, unknown> = {}
+
+  // Every word must appear in the title or description
+  const terms = (filters.search || '').trim().split(/\s+/).filter(Boolean).slice(0, MAX_SEARCH_TERMS)
+  terms.forEach((term, idx) => {
+    params[`search${idx}`] = `%${escapeLike(term)}%`
+    conditions.push(
+      `(i.title LIKE @search${idx} ESCAPE '\\' OR i.description LIKE @search${idx} ESCAPE '\\')`
+    )
+  })
+
+  if (filters.categoryId) {
+    conditions.push('i.category_id = @categoryId')
+    params.categoryId = filters.categoryId
+  }
+
+  if (filters.category) {
+    conditions.push('i.category = @category')
+    params.category = filters.category
+  }
+
+  if (filters.condition) {
+    conditions.push('i.condition = @condition')
+    params.condition = filters.condition
+  }
+
+  if (filters.minPrice !== undefined) {
+    conditions.push(`${PRICE_SQL} >= @minPrice`)
+    params.minPrice = filters.minPrice
+  }
+
+  if (filters.maxPrice !== undefined) {
+    conditions.push(`${PRICE_SQL} <= @maxPrice`)
+    params.maxPrice = filters.maxPrice
+  }
+
+  if (filters.noBids) {
+    conditions.push('i.bid_count = 0')
+  }
+
+  if (filters.buyNow) {
+    conditions.push(
+      context.buyNowEnabled ? "i.buy_now_price IS NOT NULL AND i.status = 'active'" : '1 = 0'
+    )
+  }
+
+  if (filters.endingSoon) {
+    conditions.push(
+      `i.status = 'active' AND ${ITEM_END_TIME_SQL} > @now AND ${ITEM_END_TIME_SQL} <= @endingSoonBy`
+    )
+    params.now = context.now
+    params.endingSoonBy = new Date(context.now.getTime() + ENDING_SOON_MINUTES * 60 * 1000)
+  }
+
+  if (filters.myBids && context.userId) {
+    const bidTable = context.auctionType === 'silent' ? 'event_item_silent_bids' : 'event_item_bids'
+    const comparison = filters.myBids === 'winning' ? '=' : '<>'
+    conditions.push(
+      `EXISTS (SELECT 1 FROM ${bidTable} mb WHERE mb.item_id = i.id AND mb.bidder_id = @userId)
+       AND ${leaderSql(context.auctionType)} ${comparison} @userId`
+    )
+    params.userId = context.userId
+  }
+
+  const sort = filters.sort || 'default'
+  const direction = (filters.direction || DEFAULT_DIRECTIONS[sort]) === 'desc' ? 'DESC' : 'ASC'
+  const sortSql: Record<CatalogSort, string> = {
+    default: `i.display_order ${direction}`,
+    title: `i.title ${direction}`,
+    currentBid: `${PRICE_SQL} ${direction}`,
+    bidCount: `i.bid_count ${direction}`,
+    closingTime: `${ITEM_END_TIME_SQL} ${direction}`,
+  }
+
+  // Tie-breakers keep paging stable
+  const orderBy = `${sortSql[sort]}, i.created_at ASC, i.id ASC`
+
+  return { conditions, orderBy, params }
+}
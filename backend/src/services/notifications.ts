@@ -9,13 +9,18 @@ import {
   sendResubmitRequestedEmail,
   sendAuctionLostEmail,
   sendBidConfirmationEmail,
+  sendReserveNotMetBidderEmail,
+  sendReserveNotMetSubmitterEmail,
+  sendWatchlistAlertEmail,
   // Self-managed payment emails
   sendSelfManagedAuctionWonEmail,
   sendSelfManagedPaymentConfirmedEmail,
   sendReadyForPickupEmail,
   sendItemShippedEmail,
   sendPaymentReminderEmail,
+  sendSecondChanceOfferEmail,
 } from './email.js'
+import { broadcastToUser } from './signalr.js'
 
 // Notification types matching database constraint
 export type NotificationType =
@@ -29,6 +34,13 @@ export type NotificationType =
   | 'item_removed'
   | 'bid_cancelled'
   | 'bid_placed'
+  | 'reserve_not_met'
+  | 'watch_closing_soon'
+  | 'watch_first_bid'
+  | 'watch_buy_now_reached'
+  | 'bid_retraction_denied'
+  | 'raffle_won'
+  | 'second_chance_offer'
   // Self-managed payment notification types
   | 'payment_reminder'
   | 'payment_confirmed'
@@ -52,12 +64,26 @@ export async function createNotification(params: CreateNotificationParams): Prom
 
   const result = await dbQuery(
     `INSERT INTO user_notifications (user_id, notification_type, title, message, event_id, item_id)
-     OUTPUT INSERTED.id
+     OUTPUT INSERTED.id, INSERTED.created_at
      VALUES (@userId, @type, @title, @message, @eventId, @itemId)`,
     { userId, type, title, message, eventId: eventId || null, itemId: itemId || null }
   )
 
-  return result.recordset[0].id
+  const notification = result.recordset[0]
+
+  // Push to any open tabs so the bell updates without polling
+  broadcastToUser(userId, 'Notification', {
+    id: notification.id,
+    type,
+    title,
+    message,
+    eventId: eventId || null,
+    itemId: itemId || null,
+    readAt: null,
+    createdAt: notification.created_at,
+  })
+
+  return notification.id
 }
 
 // Get just the unread count (lightweight query for polling)
@@ -365,16 +391,21 @@ export async function notifyEventLive(
 export async function notifyOutbid(
   userId: string,
   itemTitle: string,
-  newBidAmount: number,
+  newBidAmount: number | null,
   eventId: string,
   itemId: string,
-  previousBidAmount?: number
+  previousBidAmount?: number,
+  auctionType: 'standard' | 'silent' = 'standard'
 ): Promise<string> {
+  // Silent auctions never reveal the leading amount, so there's no new bid to quote
+  const isSilent = auctionType === 'silent' || newBidAmount === null
   const notificationId = await createNotification({
     userId,
     type: 'outbid',
     title: 'You\'ve Been Outbid',
-    message: `Someone outbid you on "${itemTitle}". New bid: $${newBidAmount.toFixed(2)}`,
+    message: isSilent
+      ? `Another bidder has moved ahead of you on "${itemTitle}". Increase your bid to retake first place.`
+      : `Someone outbid you on "${itemTitle}". New bid: $${newBidAmount!.toFixed(2)}`,
     eventId,
     itemId,
   })
@@ -388,8 +419,8 @@ export async function notifyOutbid(
           recipientEmail: user.email,
           recipientName: user.name,
           itemTitle,
-          newHighBid: newBidAmount,
-          yourBid: previousBidAmount || newBidAmount - 1, // fallback if not provided
+          newHighBid: isSilent ? null : newBidAmount,
+          yourBid: previousBidAmount ?? (newBidAmount !== null ? newBidAmount - 1 : 0), // fallback if not provided
           eventName: event.name,
           eventSlug: event.slug,
           itemId,
@@ -499,6 +530,167 @@ export async function notifyAuctionLost(
   return notificationId
 }
 
+// Notify the top bidder that the item closed under its reserve and was not sold
+export async function notifyReserveNotMetBidder(
+  userId: string,
+  itemTitle: string,
+  topBid: number,
+  eventId: string,
+  itemId: string
+): Promise<string> {
+  const notificationId = await createNotification({
+    userId,
+    type: 'reserve_not_met',
+    title: 'Reserve Not Met',
+    message: `Your bid of $${topBid.toFixed(2)} on "${itemTitle}" was the highest, but it did not meet the reserve price. The item was not sold.`,
+    eventId,
+    itemId,
+  })
+
+  getUserInfo(userId).then(async (user) => {
+    if (user) {
+      const event = await getEventInfo(eventId)
+      if (event) {
+        sendReserveNotMetBidderEmail({
+          recipientEmail: user.email,
+          recipientName: user.name,
+          itemTitle,
+          yourBid: topBid,
+          eventName: event.name,
+        }).catch((err) => console.error('Failed to send reserve not met email:', err))
+      }
+    }
+  })
+
+  return notificationId
+}
+
+// Notify the submitter that their item closed under its reserve and was not sold
+export async function notifyReserveNotMetSubmitter(
+  userId: string,
+  itemTitle: string,
+  topBid: number,
+  reservePrice: number,
+  eventId: string,
+  itemId: string
+): Promise<string> {
+  const notificationId = await createNotification({
+    userId,
+    type: 'reserve_not_met',
+    title: 'Reserve Not Met',
+    message: `Bidding on your item "${itemTitle}" closed at $${topBid.toFixed(2)}, below its $${reservePrice.toFixed(2)} reserve. The item was not sold.`,
+    eventId,
+    itemId,
+  })
+
+  getUserInfo(userId).then(async (user) => {
+    if (user) {
+      const event = await getEventInfo(eventId)
+      if (event) {
+        sendReserveNotMetSubmitterEmail({
+          recipientEmail: user.email,
+          recipientName: user.name,
+          itemTitle,
+          topBid,
+          reservePrice,
+          eventName: event.name,
+        }).catch((err) => console.error('Failed to send reserve not met email:', err))
+      }
+    }
+  })
+
+  return notificationId
+}
+
+// Create a watchlist alert and email it to the watcher
+async function notifyWatcher(
+  userId: string,
+  type: 'watch_closing_soon' | 'watch_first_bid' | 'watch_buy_now_reached',
+  title: string,
+  message: string,
+  itemTitle: string,
+  eventId: string,
+  itemId: string
+): Promise<string> {
+  const notificationId = await createNotification({ userId, type, title, message, eventId, itemId })
+
+  getUserInfo(userId).then(async (user) => {
+    if (user) {
+      const event = await getEventInfo(eventId)
+      if (event) {
+        sendWatchlistAlertEmail({
+          recipientEmail: user.email,
+          recipientName: user.name,
+          heading: title,
+          message,
+          itemTitle,
+          eventName: event.name,
+          eventSlug: event.slug,
+          itemId,
+        }).catch((err) => console.error('Failed to send watchlist alert email:', err))
+      }
+    }
+  })
+
+  return notificationId
+}
+
+// Notify a watcher that a watched item is about to close
+export async function notifyWatchedItemClosingSoon(
+  userId: string,
+  itemTitle: string,
+  minutesLeft: number,
+  eventId: string,
+  itemId: string
+): Promise<string> {
+  return notifyWatcher(
+    userId,
+    'watch_closing_soon',
+    'Closing Soon',
+    `Bidding on "${itemTitle}" closes in ${minutesLeft} minute${minutesLeft !== 1 ? 's' : ''}.`,
+    itemTitle,
+    eventId,
+    itemId
+  )
+}
+
+// Notify a watcher that a watched item received its first bid
+export async function notifyWatchedItemFirstBid(
+  userId: string,
+  itemTitle: string,
+  eventId: string,
+  itemId: string
+): Promise<string> {
+  return notifyWatcher(
+    userId,
+    'watch_first_bid',
+    'First Bid Placed',
+    `"${itemTitle}" just received its first bid.`,
+    itemTitle,
+    eventId,
+    itemId
+  )
+}
+
+// Notify a watcher that bidding on a watched item reached its buy-now price
+export async function notifyWatchedItemBuyNowReached(
+  userId: string,
+  itemTitle: string,
+  buyNowPrice: number,
+  eventId: string,
+  itemId: string
+): Promise<string> {
+  return notifyWatcher(
+    userId,
+    'watch_buy_now_reached',
+    'Buy Now Price Reached',
+    `Bidding on "${itemTitle}" has reached its $${buyNowPrice.toFixed(2)} buy-now price.`,
+    itemTitle,
+    eventId,
+    itemId
+  )
+}
+
 // Notify user when their item is removed
 export async function notifyItemRemoved(
   userId: string,
@@ -522,18 +714,56 @@ export async function notifyBidCancelled(
   userId: string,
   itemTitle: string,
   eventId: string,
-  itemId: string
+  itemId: string,
+  reason?: string
 ): Promise<string> {
   return createNotification({
     userId,
     type: 'bid_cancelled',
     title: 'Bid Cancelled',
-    message: `Your bid on "${itemTitle}" has been cancelled because the item was removed.`,
+    message: reason
+      ? `Your bid on "${itemTitle}" was cancelled by the organizer. Reason: ${reason}`
+      : `Your bid on "${itemTitle}" has been cancelled because the item was removed.`,
     eventId,
     itemId,
   })
 }
 
+// Notify a bidder that the organizer kept their bid
+export async function notifyBidRetractionDenied(
+  userId: string,
+  itemTitle: string,
+  note: string | null,
+  eventId: string,
+  itemId: string
+): Promise<string> {
+  return createNotification({
+    userId,
+    type: 'bid_retraction_denied',
+    title: 'Retraction Request Denied',
+    message: `Your request to retract your bid on "${itemTitle}" was denied, so your bid still stands.${note ? ` ${note}` : ''}`,
+    eventId,
+    itemId,
+  })
+}
+
+// Notify a raffle winner (one notification per winning ticket)
+export async function notifyRaffleWon(
+  userId: string,
+  raffleTitle: string,
+  ticketNumber: number,
+  prizeDescription: string | null,
+  eventId: string
+): Promise<string> {
+  return createNotification({
+    userId,
+    type: 'raffle_won',
+    title: 'You Won the Raffle!',
+    message: `Ticket #${ticketNumber} was drawn in "${raffleTitle}".${prizeDescription ? ` Prize: ${prizeDescription}` : ''}`,
+    eventId,
+  })
+}
+
 // Batch notify all bidders on an item (e.g., when event goes live or item removed)
 export async function notifyAllBiddersOnItem(
   itemId: string,
@@ -844,7 +1074,7 @@ export async function notifyPaymentReminder(
   userId: string,
   itemTitle: string,
   eventId: string,
-  itemId: string,
+  itemId: string | undefined,
   amountOwed: number,
   daysOverdue?: number
 ): Promise<string> {
@@ -884,3 +1114,43 @@ export async function notifyPaymentReminder(
 
   return notificationId
 }
+
+// Offer an item to the runner-up after its winner defaulted on payment
+export async function notifySecondChanceOffer(
+  userId: string,
+  itemTitle: string,
+  eventId: string,
+  itemId: string,
+  offerId: string,
+  amount: number,
+  expiresAt: Date
+): Promise<string> {
+  const notificationId = await createNotification({
+    userId,
+    type: 'second_chance_offer',
+    title: 'Second-Chance Offer',
+    message: `"${itemTitle}" is available to you at your bid of $${amount.toFixed(2)}. Accept before ${expiresAt.toLocaleString('en-US')} to win it.`,
+    eventId,
+    itemId,
+  })
+
+  getUserInfo(userId).then(async (user) => {
+    if (user) {
+      const event = await getEventInfo(eventId)
+      if (event) {
+        sendSecondChanceOfferEmail({
+          recipientEmail: user.email,
+          recipientName: user.name,
+          itemTitle,
+          amount,
+          eventName: event.name,
+          organizationName: event.organizationName,
+          offerId,
+          expiresAt,
+        }).catch((err) => console.error('Failed to send second-chance offer email:', err))
+      }
+    }
+  })
+
+  return notificationId
+}
@@ -1,7 +1,7 @@
 import { query as dbQuery } from '../config/database.js'
 import { v4 as uuidv4 } from 'uuid'
 import { transferToOrganization } from './stripeConnect.js'
-import { PLATFORM_FEE_PER_ITEM } from './platformFees.js'
+import { PLATFORM_FEE_PER_ITEM, getEventFeesCovered } from './platformFees.js'
 import { getOrganizationTaxInfo } from './taxForms.js'
 import { logComplianceEvent } from './complianceAudit.js'
 
@@ -33,6 +33,8 @@ export interface PayoutSummary {
   organizationId: string
   organizationName: string
   grossAmount: number
+  // Processing fees payers covered, on top of grossAmount
+  feesCovered: number
   stripeFees: number
   platformFee: number
   reserveAmount: number
@@ -57,23 +59,27 @@ export function calculateStripeFees(amount: number): number {
 
 /**
  * Calculate payout amounts for an event
+ * Processing fees that payers chose to cover were charged on top of the gross
+ * amount, so they offset the Stripe fees rather than count as money raised.
  */
-export function calculatePayoutAmounts(grossAmount: number, itemCount: number = 1): {
+export function calculatePayoutAmounts(grossAmount: number, itemCount: number = 1, feesCovered: number = 0): {
   grossAmount: number
+  feesCovered: number
   stripeFees: number
   platformFee: number
   reserveAmount: number
   netPayout: number
 } {
-  const stripeFees = calculateStripeFees(grossAmount)
+  const stripeFees = calculateStripeFees(grossAmount + feesCovered)
   // Platform fee is $1 per item sold
   const platformFee = itemCount * PLATFORM_FEE_PER_ITEM
-  const afterFees = grossAmount - stripeFees - platformFee
+  const afterFees = grossAmount + feesCovered - stripeFees - platformFee
   const reserveAmount = afterFees * (PAYOUT_CONFIG.RESERVE_PERCENT / 100)
   const netPayout = afterFees - reserveAmount
 
   return {
     grossAmount,
+    feesCovered: Math.round(feesCovered * 100) / 100,
     stripeFees: Math.round(stripeFees * 100) / 100,
     platformFee: Math.round(platformFee * 100) / 100,
     reserveAmount: Math.round(reserveAmount * 100) / 100,
@@ -248,7 +254,8 @@ export async function createPayoutRecord(eventId: string): Promise<string> {
 
   // Calculate amounts ($1 per item sold)
   const grossAmount = event.total_raised || 0
-  const amounts = calculatePayoutAmounts(grossAmount, itemCount)
+  const feesCovered = await getEventFeesCovered(eventId)
+  const amounts = calculatePayoutAmounts(grossAmount, itemCount, feesCovered)
 
   // Calculate eligibility date (7 days after event end)
   const eligibleAt = new Date(event.end_time)
@@ -264,10 +271,10 @@ export async function createPayoutRecord(eventId: string): Promise<string> {
   const payoutId = uuidv4()
   await dbQuery(
     `INSERT INTO organization_payouts (
-      id, organization_id, event_id, gross_amount, stripe_fees, platform_fee,
+      id, organization_id, event_id, gross_amount, fees_covered, stripe_fees, platform_fee,
       reserve_amount, net_payout, status, flags, requires_review, eligible_at, created_at
     ) VALUES (
-      @payoutId, @organizationId, @eventId, @grossAmount, @stripeFees, @platformFee,
+      @payoutId, @organizationId, @eventId, @grossAmount, @feesCovered, @stripeFees, @platformFee,
       @reserveAmount, @netPayout, @status, @flags, @requiresReview, @eligibleAt, GETUTCDATE()
     )`,
     {
@@ -275,6 +282,7 @@ export async function createPayoutRecord(eventId: string): Promise<string> {
       organizationId: event.organization_id,
       eventId,
       grossAmount: amounts.grossAmount,
+      feesCovered: amounts.feesCovered,
       stripeFees: amounts.stripeFees,
       platformFee: amounts.platformFee,
       reserveAmount: amounts.reserveAmount,
@@ -665,6 +673,7 @@ export async function getPayoutDetails(payoutId: string): Promise<PayoutSummary
     organizationId: p.organization_id,
     organizationName: p.organization_name,
     grossAmount: p.gross_amount,
+    feesCovered: p.fees_covered || 0,
     stripeFees: p.stripe_fees,
     platformFee: p.platform_fee,
     reserveAmount: p.reserve_amount,
@@ -699,6 +708,7 @@ export async function getOrganizationPayouts(
     organizationId: p.organization_id,
     organizationName: p.organization_name,
     grossAmount: p.gross_amount,
+    feesCovered: p.fees_covered || 0,
     stripeFees: p.stripe_fees,
     platformFee: p.platform_fee,
     reserveAmount: p.reserve_amount,
@@ -787,6 +797,7 @@ export async function getPayoutsRequiringReview(): Promise<PayoutSummary[]> {
     organizationId: p.organization_id,
     organizationName: p.organization_name,
     grossAmount: p.gross_amount,
+    feesCovered: p.fees_covered || 0,
     stripeFees: p.stripe_fees,
     platformFee: p.platform_fee,
     reserveAmount: p.reserve_amount,
@@ -0,0 +1,150 @@
+// Minimal PDF writer for text-only documents such as tax receipts. It uses the
+// standard Helvetica fonts, which every PDF reader provides, so nothing needs
+// to be embedded. Text is wrapped and paginated onto US Letter pages.
+
+export interface PdfColumn {
+  text: string
+  // Right edge of the column, in points from the left margin
+  right: number
+}
+
+export interface PdfLine {
+  text: string
+  size?: number
+  bold?: boolean
+  // Extra space above the line, in points
+  spaceBefore?: number
+  // Width the text wraps at, in points (defaults to the full text width)
+  width?: number
+  // Right-aligned values printed on the line's first row (e.g. amounts)
+  columns?: PdfColumn[]
+}
+
+const PAGE_WIDTH = 612
+const PAGE_HEIGHT = 792
+const MARGIN = 54
+export const PDF_TEXT_WIDTH = PAGE_WIDTH - MARGIN * 2
+
+const DEFAULT_SIZE = 10
+const LINE_HEIGHT = 1.4
+
+// Helvetica advance widths (per 1000 units of font size) for the characters
+// that appear in amounts; other characters use an average width
+const CHAR_WIDTHS: Record<string, number> = {
+  ' ': 278, ',': 278, '.': 278, '-': 333, '(': 333, ')': 333, '$': 556, '%': 889,
+  '0': 556, '1': 556, '2': 556, '3': 556, '4': 556, '5': 556, '6': 556, '7': 556, '8': 556, '9': 556,
+}
+const AVERAGE_CHAR_WIDTH = 560
+
+function textWidth(text: string, size: number): number {
+  let units = 0
+  for (const char of text) {
+    units += CHAR_WIDTHS[char] ?? AVERAGE_CHAR_WIDTH
+  }
+  return (units * size) / 1000
+}
+
+// The standard fonts only cover Latin-1; swap common typography for ASCII and
+// anything else for '?'
+function toPdfString(text: string): string {
+  const ascii = text
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/\u2026/g, '...')
+    .replace(/[^\x20-\x7e]/g, '?')
+
+  return `(${ascii.replace(/([\\()])/g, '\\$1')})`
+}
+
+function wrapText(text: string, size: number, width: number): string[] {
+  const rows: string[] = []
+  let current = ''
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word
+    if (current && textWidth(candidate, size) > width) {
+      rows.push(current)
+      current = word
+    } else {
+      current = candidate
+    }
+  }
+
+  rows.push(current)
+  return rows
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2)
+}
+
+/**
+ * Lay out lines of text into a PDF document
+ */
+export function renderPdf(lines: PdfLine[]): Buffer {
+  const pages: string[][] = [[]]
+  let y = PAGE_HEIGHT - MARGIN
+
+  const place = (text: string, x: number, baseline: number, size: number, bold: boolean) => {
+    pages[pages.length - 1].push(
+      `BT /${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ${formatNumber(x)} ${formatNumber(baseline)} Td ${toPdfString(text)} Tj ET`
+    )
+  }
+
+  for (const line of lines) {
+    const size = line.size ?? DEFAULT_SIZE
+    const bold = !!line.bold
+    const rows = wrapText(line.text, size, line.width ?? PDF_TEXT_WIDTH)
+
+    y -= line.spaceBefore ?? 0
+
+    rows.forEach((row, index) => {
+      y -= size * LINE_HEIGHT
+      if (y < MARGIN) {
+        pages.push([])
+        y = PAGE_HEIGHT - MARGIN - size * LINE_HEIGHT
+      }
+
+      place(row, MARGIN, y, size, bold)
+      if (index === 0) {
+        for (const column of line.columns ?? []) {
+          place(column.text, MARGIN + column.right - textWidth(column.text, size), y, size, bold)
+        }
+      }
+    })
+  }
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, then a page and its content per page
+  const objects: string[] = []
+  const pageIds = pages.map((_, index) => 5 + index * 2)
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>')
+  objects.push(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`)
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>')
+
+  pages.forEach((content, index) => {
+    const stream = content.join('\n')
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+    )
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`)
+  })
+
+  // Everything written is ASCII, so string lengths are byte offsets
+  let pdf = '%PDF-1.4\n'
+  const offsets: number[] = []
+  objects.forEach((body, index) => {
+    offsets.push(pdf.length)
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`
+  })
+
+  const xrefOffset = pdf.length
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+  return Buffer.from(pdf, 'latin1')
+}
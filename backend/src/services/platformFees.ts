@@ -1,8 +1,23 @@
 import Stripe from 'stripe'
-import { query as dbQuery } from '../config/database.js'
+import { query as dbQuery, withTransaction, QueryFn } from '../config/database.js'
+import { badRequest } from '../middleware/errorHandler.js'
 import { v4 as uuidv4 } from 'uuid'
-import { notifyAuctionWon, notifyAuctionLost } from './notifications.js'
+import {
+  notifyAuctionWon,
+  notifyAuctionLost,
+  notifyReserveNotMetBidder,
+  notifyReserveNotMetSubmitter,
+  notifyPaymentReminder,
+} from './notifications.js'
 import { isFreeModeEnabled } from './featureFlags.js'
+import { getEffectiveTime } from './uatTime.js'
+import { countOpenItems } from './softClose.js'
+import { broadcastEventEnded, broadcastItemsClosed } from './signalr.js'
+import { priceAwards, recordAward } from './itemAwards.js'
+import { closeEventCampaigns, getEventPledgeTotals } from './fundANeed.js'
+import { getCheckoutSummaries, withFeesCovered, CheckoutSummary } from './checkout.js'
+import { getEventCards } from './cardOnFile.js'
+import { issueTaxReceipt, ReceiptSource } from './taxReceipts.js'
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || '', {
   apiVersion: '2023-10-16',
@@ -29,10 +44,16 @@ interface WinningBidSummary {
 interface EventCompletionResult {
   eventId: string
   totalRaised: number
+  // Fund-a-need pledges, included in totalRaised
+  totalPledged: number
   totalPlatformFees: number
   winningBids: WinningBidSummary[]
 }
 
+interface GroupCompletionResult extends Omit<EventCompletionResult, 'totalPledged'> {
+  groupId: string
+}
+
 /**
  * Calculate platform fee for a sold item
  * Fixed $1 per item, taken from proceeds
@@ -63,6 +84,16 @@ export function calculateStripeFee(amount: number): number {
   return (amount * STRIPE_FEE_PERCENT / 100) + STRIPE_FEE_FIXED
 }
 
+/**
+ * Amount a payer adds to cover processing fees on a charge: grosses the charge
+ * up so what's left after Stripe's fee is the original amount. Rounded up to
+ * the cent so the organization never nets less.
+ */
+export function calculateCoverFeesAmount(amount: number): number {
+  const grossed = (amount + STRIPE_FEE_FIXED) / (1 - STRIPE_FEE_PERCENT / 100)
+  return Math.ceil(Math.round((grossed - amount) * 10000) / 100) / 100
+}
+
 /**
  * Calculate net proceeds for organization after all fees
  * Fees are deducted from proceeds, not charged to bidder
@@ -88,243 +119,565 @@ export async function calculateNetProceeds(winningBid: number): Promise<{
   }
 }
 
+interface FinalizedItems {
+  totalRaised: number
+  totalPlatformFees: number
+  winningBids: WinningBidSummary[]
+  // Top bids on items that went unsold for missing their reserve
+  reserveNotMet: any[]
+}
+
 /**
- * Process auction completion and calculate fees
- * Called when an event ends
- * Handles both integrated (Stripe) and self-managed payment modes
+ * Determine winners for an event's still-active items, mark them won or unsold
+ * and record an award and platform fee per winner, all in the caller's
+ * transaction; bidders are told afterwards (notifyFinalizedItems). Items with
+ * several units award the units not sold through buy now to that many top
+ * bidders, one each. Bids under the item's reserve price don't win.
+ * With `groupId` only that closing group's items are finalized; otherwise every
+ * item still active in the event is.
  */
-export async function processEventCompletion(
-  eventId: string
-): Promise<EventCompletionResult> {
-  // Get event details including payment mode
-  const eventResult = await dbQuery(
-    `SELECT * FROM auction_events WHERE id = @eventId`,
-    { eventId }
-  )
-
-  if (eventResult.recordset.length === 0) {
-    throw new Error('Event not found')
-  }
-
-  const event = eventResult.recordset[0]
+async function finalizeItems(event: any, groupId: string | null, tx: QueryFn): Promise<FinalizedItems> {
+  const eventId = event.id
   const isSelfManaged = event.payment_mode === 'self_managed'
+  const scope = groupId ? 'AND ei.closing_group_id = @groupId' : ''
 
   // Check if free mode is enabled (no platform fees)
   const freeMode = await isFreeModeEnabled()
   const noFees = isSelfManaged || freeMode
 
-  // Determine winners based on auction type
-  let winningBids: WinningBidSummary[] = []
-
-  if (event.auction_type === 'silent') {
-    // For silent auctions, highest bidder wins each item
-    const winnersResult = await dbQuery(
-      `WITH RankedBids AS (
-        SELECT
-          sb.item_id,
-          sb.bidder_id,
-          sb.amount,
-          u.email as winner_email,
-          u.display_name as winner_name,
-          ei.title as item_title,
-          ROW_NUMBER() OVER (PARTITION BY sb.item_id ORDER BY sb.amount DESC, sb.created_at ASC) as rank
-        FROM event_item_silent_bids sb
-        INNER JOIN event_items ei ON sb.item_id = ei.id
-        INNER JOIN users u ON sb.bidder_id = u.id
-        WHERE ei.event_id = @eventId
-          AND ei.status = 'active'
-          AND ei.submission_status = 'approved'
-      )
-      SELECT * FROM RankedBids WHERE rank = 1`,
-      { eventId }
+  // Each bidder's best bid, ranked per item, for as many places as the item has units left
+  const bestBids = event.auction_type === 'silent'
+    // Silent bidders hold a single bid per item
+    ? `SELECT sb.item_id, sb.bidder_id, sb.amount, 0 as is_winning, sb.created_at, 1 as bidder_rank
+       FROM event_item_silent_bids sb`
+    : `SELECT b.item_id, b.bidder_id, b.amount, b.is_winning, b.created_at,
+              ROW_NUMBER() OVER (PARTITION BY b.item_id, b.bidder_id ORDER BY b.amount DESC, b.is_winning DESC, b.created_at ASC) as bidder_rank
+       FROM event_item_bids b`
+
+  const rankedResult = await tx(
+    `WITH BestBids AS (
+      ${bestBids}
+    ),
+    RankedBids AS (
+      SELECT
+        bb.item_id,
+        bb.bidder_id,
+        bb.amount,
+        u.email as winner_email,
+        u.display_name as winner_name,
+        ei.title as item_title,
+        ei.reserve_price,
+        ei.submitted_by,
+        ei.quantity - ei.quantity_sold as available,
+        ei.winner_pricing,
+        ROW_NUMBER() OVER (PARTITION BY bb.item_id ORDER BY bb.amount DESC, bb.is_winning DESC, bb.created_at ASC) as rank
+      FROM BestBids bb
+      INNER JOIN event_items ei ON bb.item_id = ei.id
+      INNER JOIN users u ON bb.bidder_id = u.id
+      WHERE bb.bidder_rank = 1
+        AND ei.event_id = @eventId
+        AND ei.status = 'active'
+        AND ei.submission_status = 'approved'
+        ${scope}
     )
+    SELECT * FROM RankedBids WHERE rank <= available ORDER BY item_id, rank`,
+    { eventId, groupId }
+  )
 
-    winningBids = winnersResult.recordset.map((row: any) => ({
-      itemId: row.item_id,
-      itemTitle: row.item_title,
-      winnerId: row.bidder_id,
-      winnerEmail: row.winner_email,
-      winnerName: row.winner_name,
-      winningAmount: row.amount,
-      platformFee: noFees ? 0 : calculatePlatformFeeSync(row.amount, freeMode),
-    }))
-  } else {
-    // For standard auctions, highest visible bid wins
-    const winnersResult = await dbQuery(
-      `WITH RankedBids AS (
-        SELECT
-          b.item_id,
-          b.bidder_id,
-          b.amount,
-          u.email as winner_email,
-          u.display_name as winner_name,
-          ei.title as item_title,
-          ROW_NUMBER() OVER (PARTITION BY b.item_id ORDER BY b.amount DESC, b.created_at ASC) as rank
-        FROM event_item_bids b
-        INNER JOIN event_items ei ON b.item_id = ei.id
-        INNER JOIN users u ON b.bidder_id = u.id
-        WHERE ei.event_id = @eventId
-          AND ei.status = 'active'
-          AND ei.submission_status = 'approved'
-      )
-      SELECT * FROM RankedBids WHERE rank = 1`,
-      { eventId }
-    )
+  const rowsByItem = new Map<string, any[]>()
+  for (const row of rankedResult.recordset) {
+    rowsByItem.set(row.item_id, [...(rowsByItem.get(row.item_id) || []), row])
+  }
 
-    winningBids = winnersResult.recordset.map((row: any) => ({
-      itemId: row.item_id,
-      itemTitle: row.item_title,
-      winnerId: row.bidder_id,
-      winnerEmail: row.winner_email,
-      winnerName: row.winner_name,
-      winningAmount: row.amount,
-      platformFee: noFees ? 0 : calculatePlatformFeeSync(row.amount, freeMode),
-    }))
+  // A bid under the item's hidden reserve doesn't win. When none of an item's
+  // bids reach it the item goes unsold.
+  const isUnderReserve = (row: any) => row.reserve_price !== null && row.amount < row.reserve_price
+  const reserveNotMet: any[] = []
+  const winningBids: WinningBidSummary[] = []
+
+  for (const rows of rowsByItem.values()) {
+    const winners = rows.filter((row) => !isUnderReserve(row))
+    if (winners.length === 0) {
+      reserveNotMet.push(rows[0])
+      continue
+    }
+
+    const prices = priceAwards(winners.map((row) => row.amount), winners[0].winner_pricing)
+    winners.forEach((row, idx) => {
+      winningBids.push({
+        itemId: row.item_id,
+        itemTitle: row.item_title,
+        winnerId: row.bidder_id,
+        winnerEmail: row.winner_email,
+        winnerName: row.winner_name,
+        winningAmount: prices[idx],
+        platformFee: noFees ? 0 : calculatePlatformFeeSync(prices[idx], freeMode),
+      })
+    })
   }
 
   // Calculate totals
   const totalRaised = winningBids.reduce((sum, bid) => sum + bid.winningAmount, 0)
   const totalPlatformFees = winningBids.reduce((sum, bid) => sum + bid.platformFee, 0)
 
-  // Update event with final totals
-  await dbQuery(
-    `UPDATE auction_events
-     SET status = 'ended',
-         total_raised = @totalRaised
-     WHERE id = @eventId`,
-    { eventId, totalRaised }
-  )
+  // The top winner stays on the item itself, along with their bid
+  for (const rows of rowsByItem.values()) {
+    const top = rows.find((row) => !isUnderReserve(row))
+    if (!top) continue
 
-  // Update item statuses and store winners
-  for (const bid of winningBids) {
-    // For self-managed payments, set payment_status to 'pending' and fulfillment_status to 'pending'
-    // For integrated payments, the existing flow handles it via Stripe webhooks
-    await dbQuery(
+    await tx(
       `UPDATE event_items
        SET status = 'won',
            current_bid = @amount,
            winner_id = @winnerId,
-           won_at = GETUTCDATE(),
-           payment_status = ${isSelfManaged ? "'pending'" : "payment_status"},
-           fulfillment_status = ${isSelfManaged ? "'pending'" : "fulfillment_status"}
+           won_at = GETUTCDATE()
        WHERE id = @itemId`,
       {
-        itemId: bid.itemId,
-        amount: bid.winningAmount,
-        winnerId: bid.winnerId,
+        itemId: top.item_id,
+        amount: top.amount,
+        winnerId: top.bidder_id,
       }
     )
+  }
+
+  // Store an award per winner; payment and fulfillment are tracked on it
+  for (const bid of winningBids) {
+    const awardId = await recordAward({
+      itemId: bid.itemId,
+      eventId,
+      winnerId: bid.winnerId,
+      amount: bid.winningAmount,
+      source: 'bid',
+    }, tx)
 
     // Only create platform fee records for integrated payments when not in free mode
     if (!noFees && bid.platformFee > 0) {
-      await dbQuery(
+      await tx(
         `INSERT INTO platform_fees (
-          id, user_id, organization_id, event_id, fee_type, amount, status, created_at
+          id, user_id, organization_id, event_id, award_id, fee_type, amount, status, created_at
         ) VALUES (
-          @id, @userId, @organizationId, @eventId, 'item_sale', @amount, 'pending', GETUTCDATE()
+          @id, @userId, @organizationId, @eventId, @awardId, 'item_sale', @amount, 'pending', GETUTCDATE()
         )`,
         {
           id: uuidv4(),
           userId: event.owner_id || null,
           organizationId: event.organization_id || null,
           eventId,
+          awardId,
           amount: bid.platformFee,
         }
       )
     }
   }
 
+  // Items that sold units through buy now but have no bid winners are sold
+  await tx(
+    `UPDATE event_items
+     SET status = 'sold'
+     WHERE event_id = @eventId
+       AND status = 'active'
+       AND quantity_sold > 0
+       ${groupId ? 'AND closing_group_id = @groupId' : ''}`,
+    { eventId, groupId }
+  )
+
+  for (const row of reserveNotMet) {
+    await tx(
+      `UPDATE event_items SET status = 'unsold' WHERE id = @itemId AND status = 'active'`,
+      { itemId: row.item_id }
+    )
+  }
+
   // Mark items with no bids as unsold
-  await dbQuery(
+  await tx(
     `UPDATE event_items
      SET status = 'unsold'
      WHERE event_id = @eventId
        AND status = 'active'
+       ${groupId ? 'AND closing_group_id = @groupId' : ''}
        AND id NOT IN (SELECT item_id FROM event_item_bids UNION SELECT item_id FROM event_item_silent_bids)`,
-    { eventId }
+    { eventId, groupId }
   )
 
+  return { totalRaised, totalPlatformFees, winningBids, reserveNotMet }
+}
+
+/**
+ * Tell winners, bidders under the reserve, submitters and losers how the
+ * items finalized by finalizeItems went, once the close is committed
+ */
+async function notifyFinalizedItems(eventId: string, { winningBids, reserveNotMet }: FinalizedItems): Promise<void> {
   // Send notifications to winners
   // For self-managed payments, the notification will include payment instructions
   for (const bid of winningBids) {
     await notifyAuctionWon(bid.winnerId, bid.itemTitle, bid.winningAmount, eventId, bid.itemId)
   }
 
-  // Send notifications to losers (bidders who didn't win)
-  // Get all bidders who bid on items but didn't win
-  const losersResult = await dbQuery(
-    `SELECT DISTINCT b.bidder_id, ei.title as item_title, ei.id as item_id
-     FROM (
-       SELECT item_id, bidder_id FROM event_item_bids WHERE item_id IN (
-         SELECT id FROM event_items WHERE event_id = @eventId AND status = 'won'
-       )
-       UNION
-       SELECT item_id, bidder_id FROM event_item_silent_bids WHERE item_id IN (
-         SELECT id FROM event_items WHERE event_id = @eventId AND status = 'won'
-       )
-     ) b
-     INNER JOIN event_items ei ON b.item_id = ei.id
-     WHERE b.bidder_id NOT IN (SELECT winner_id FROM event_items WHERE event_id = @eventId AND status = 'won' AND winner_id IS NOT NULL)
-       OR b.item_id NOT IN (SELECT id FROM event_items WHERE event_id = @eventId AND status = 'won' AND winner_id = b.bidder_id)`,
+  // Tell the top bidder and the submitter when an item didn't reach its reserve
+  for (const row of reserveNotMet) {
+    await notifyReserveNotMetBidder(row.bidder_id, row.item_title, row.amount, eventId, row.item_id)
+    await notifyReserveNotMetSubmitter(
+      row.submitted_by, row.item_title, row.amount, row.reserve_price, eventId, row.item_id
+    )
+  }
+
+  // Send notifications to losers (bidders who didn't win) on the items finalized here.
+  // Items from groups that closed earlier were already handled.
+  if (winningBids.length > 0) {
+    const wonItemIds = [...new Set(winningBids.map((bid) => bid.itemId))]
+    const itemParams = wonItemIds.reduce(
+      (acc: Record<string, string>, itemId, idx) => ({ ...acc, [`item${idx}`]: itemId }),
+      {}
+    )
+    const losersResult = await dbQuery(
+      `SELECT DISTINCT b.bidder_id, ei.title as item_title, ei.id as item_id
+       FROM (
+         SELECT item_id, bidder_id FROM event_item_bids
+         UNION
+         SELECT item_id, bidder_id FROM event_item_silent_bids
+       ) b
+       INNER JOIN event_items ei ON b.item_id = ei.id
+       WHERE ei.id IN (${wonItemIds.map((_, idx) => `@item${idx}`).join(',')})
+         AND NOT EXISTS (
+           SELECT 1 FROM event_item_winners w WHERE w.item_id = ei.id AND w.winner_id = b.bidder_id
+         )`,
+      itemParams
+    )
+
+    for (const loser of losersResult.recordset) {
+      await notifyAuctionLost(loser.bidder_id, loser.item_title, eventId, loser.item_id)
+    }
+  }
+}
+
+/**
+ * Ids of an event's approved items (optionally one closing group's), used to
+ * reach clients watching individual item pages
+ */
+async function getEventItemIds(eventId: string, groupId: string | null = null): Promise<string[]> {
+  const result = await dbQuery(
+    `SELECT id FROM event_items
+     WHERE event_id = @eventId AND submission_status = 'approved'
+       ${groupId ? 'AND closing_group_id = @groupId' : ''}`,
+    { eventId, groupId }
+  )
+
+  return result.recordset.map((row: any) => row.id)
+}
+
+/**
+ * Process auction completion and calculate fees
+ * Called when an event ends
+ * Handles both integrated (Stripe) and self-managed payment modes
+ * Refuses while soft close is still holding items open, unless `force` is set
+ * (an organizer ending the event early). Closing groups that already closed
+ * are left as they are; totals cover only the items finalized in this pass.
+ */
+export async function processEventCompletion(
+  eventId: string,
+  options: { force?: boolean } = {}
+): Promise<EventCompletionResult> {
+  // Get event details including payment mode
+  const eventResult = await dbQuery(
+    `SELECT * FROM auction_events WHERE id = @eventId`,
     { eventId }
   )
 
-  for (const loser of losersResult.recordset) {
-    await notifyAuctionLost(loser.bidder_id, loser.item_title, eventId, loser.item_id)
+  if (eventResult.recordset.length === 0) {
+    throw new Error('Event not found')
+  }
+
+  const event = eventResult.recordset[0]
+
+  if (!options.force) {
+    const openItems = await countOpenItems(eventId, await getEffectiveTime(event))
+    if (openItems > 0) {
+      throw new Error(`${openItems} item(s) are still open for bidding`)
+    }
+  }
+
+  // Items, awards, fees and the event's totals are written together, so a
+  // close that fails partway is retried from scratch
+  const { finalized, totalPledged } = await withTransaction(async (tx) => {
+    const finalized = await finalizeItems(event, null, tx)
+
+    // Fund-a-need pledges count once, when the event ends (no platform fee on donations)
+    const { totalPledged } = await getEventPledgeTotals(eventId, tx)
+
+    // Update event with final totals (earlier closing groups and buy-now sales are already counted)
+    await tx(
+      `UPDATE auction_events
+       SET status = 'ended',
+           total_raised = total_raised + @totalRaised
+       WHERE id = @eventId`,
+      { eventId, totalRaised: finalized.totalRaised + totalPledged }
+    )
+
+    await closeEventCampaigns(eventId, tx)
+
+    // Any groups still open closed along with the event
+    await tx(
+      `UPDATE event_item_groups
+       SET closed_at = GETUTCDATE(), closing_started_at = NULL, updated_at = GETUTCDATE()
+       WHERE event_id = @eventId AND closed_at IS NULL`,
+      { eventId }
+    )
+
+    return { finalized, totalPledged }
+  })
+  const { totalPlatformFees, winningBids } = finalized
+  const totalRaised = finalized.totalRaised + totalPledged
+
+  await notifyFinalizedItems(eventId, finalized)
+
+  broadcastEventEnded({ eventId }, await getEventItemIds(eventId))
+
+  // Winners who saved a card are charged now; the event has ended either way
+  if (event.require_card_on_file && event.payment_mode !== 'self_managed') {
+    try {
+      const charges = await chargeCardsOnFile(eventId)
+      console.log(`Charged cards on file for event ${eventId}:`, charges)
+    } catch (error) {
+      console.error(`Failed to charge cards on file for event ${eventId}:`, error)
+    }
   }
 
   return {
     eventId,
     totalRaised,
+    totalPledged,
+    totalPlatformFees,
+    winningBids,
+  }
+}
+
+/**
+ * Finalize one closing group while the rest of the event keeps running.
+ * Winners are notified and can pay straight away.
+ */
+export async function processGroupCompletion(
+  groupId: string,
+  options: { force?: boolean } = {}
+): Promise<GroupCompletionResult> {
+  const groupResult = await dbQuery(
+    `SELECT g.id as group_id, g.closed_at, e.*
+     FROM event_item_groups g
+     INNER JOIN auction_events e ON g.event_id = e.id
+     WHERE g.id = @groupId`,
+    { groupId }
+  )
+
+  if (groupResult.recordset.length === 0) {
+    throw new Error('Closing group not found')
+  }
+
+  const event = groupResult.recordset[0]
+
+  if (event.closed_at) {
+    throw new Error('Closing group has already closed')
+  }
+
+  if (!options.force) {
+    const openItems = await countOpenItems(event.id, await getEffectiveTime(event), groupId)
+    if (openItems > 0) {
+      throw new Error(`${openItems} item(s) in this group are still open for bidding`)
+    }
+  }
+
+  const finalized = await withTransaction(async (tx) => {
+    const finalized = await finalizeItems(event, groupId, tx)
+
+    await tx(
+      `UPDATE auction_events
+       SET total_raised = total_raised + @totalRaised,
+           updated_at = GETUTCDATE()
+       WHERE id = @eventId`,
+      { eventId: event.id, totalRaised: finalized.totalRaised }
+    )
+
+    await tx(
+      `UPDATE event_item_groups
+       SET closed_at = GETUTCDATE(), closing_started_at = NULL, updated_at = GETUTCDATE()
+       WHERE id = @groupId`,
+      { groupId }
+    )
+
+    return finalized
+  })
+  const { totalRaised, totalPlatformFees, winningBids } = finalized
+
+  await notifyFinalizedItems(event.id, finalized)
+
+  broadcastItemsClosed({ eventId: event.id, groupId, itemIds: await getEventItemIds(event.id, groupId) })
+
+  return {
+    groupId,
+    eventId: event.id,
+    totalRaised,
     totalPlatformFees,
     winningBids,
   }
 }
 
+// Helper to get a user's Stripe customer ID, if they have one
+async function getStripeCustomerId(userId: string): Promise<string | undefined> {
+  const userResult = await dbQuery(
+    'SELECT stripe_customer_id FROM users WHERE id = @userId',
+    { userId }
+  )
+
+  return userResult.recordset[0]?.stripe_customer_id || undefined
+}
+
+// Payment intents that can no longer be cancelled: the money is moving
+const SETTLING_INTENT_STATUSES = ['processing', 'requires_capture', 'succeeded']
+
+// Award payment statuses a payment arriving for the award can settle
+const PAYABLE_AWARD_STATUSES = ['pending', 'payment_issue']
+
+const idParams = (prefix: string, ids: string[]) =>
+  ids.reduce((acc: Record<string, string>, id, idx) => ({ ...acc, [`${prefix}${idx}`]: id }), {})
+const idList = (prefix: string, ids: string[]) => ids.map((_, idx) => `@${prefix}${idx}`).join(',')
+
+/**
+ * Cancel the payment intents open for unpaid awards, whether for the item
+ * alone or a consolidated checkout, before a new way to pay for them is
+ * opened. Refuses when one of them is already being paid. Returns the
+ * intents released; `keep` (a charge being retried) is left open.
+ */
+async function releaseAwardPaymentIntents(awardIds: string[], keep: string | null = null): Promise<string[]> {
+  if (awardIds.length === 0) {
+    return []
+  }
+
+  const openResult = await dbQuery(
+    `SELECT DISTINCT payment_intent_id FROM event_item_winners
+     WHERE id IN (${idList('awardId', awardIds)})
+       AND payment_status != 'paid' AND payment_intent_id IS NOT NULL`,
+    idParams('awardId', awardIds)
+  )
+
+  const released: string[] = []
+  for (const { payment_intent_id: paymentIntentId } of openResult.recordset) {
+    if (paymentIntentId === keep) {
+      continue
+    }
+    try {
+      await stripe.paymentIntents.cancel(paymentIntentId)
+    } catch (error) {
+      const stripeError = error instanceof Stripe.errors.StripeError ? error : null
+      const status = stripeError?.payment_intent?.status
+      if (status && SETTLING_INTENT_STATUSES.includes(status)) {
+        throw badRequest('A payment for this is already being processed')
+      }
+      // Already cancelled, or gone
+      if (status !== 'canceled' && stripeError?.code !== 'resource_missing') {
+        throw error
+      }
+    }
+    released.push(paymentIntentId)
+  }
+
+  // A checkout whose payment was cancelled can't be paid any more
+  if (released.length > 0) {
+    await dbQuery(
+      `UPDATE event_checkouts SET status = 'superseded', updated_at = GETUTCDATE()
+       WHERE status = 'pending' AND stripe_payment_intent_id IN (${idList('intent', released)})`,
+      idParams('intent', released)
+    )
+  }
+
+  return released
+}
+
+/**
+ * Point unpaid awards at the payment intent just opened for them. If another
+ * payment was opened for them since they were released, the new intent is
+ * cancelled and the caller gets an error instead.
+ */
+async function reserveAwardsForPayment(awardIds: string[], paymentIntentId: string, released: string[]): Promise<void> {
+  if (awardIds.length === 0) {
+    return
+  }
+
+  try {
+    await withTransaction(async (tx) => {
+      const current = await tx(
+        `SELECT payment_intent_id FROM event_item_winners WITH (UPDLOCK, ROWLOCK)
+         WHERE id IN (${idList('awardId', awardIds)}) AND payment_status != 'paid'`,
+        idParams('awardId', awardIds)
+      )
+      const heldElsewhere = (row: any) =>
+        row.payment_intent_id && row.payment_intent_id !== paymentIntentId && !released.includes(row.payment_intent_id)
+      if (current.recordset.some(heldElsewhere)) {
+        throw badRequest('Another payment for this was just started')
+      }
+
+      await tx(
+        `UPDATE event_item_winners SET payment_intent_id = @paymentIntentId, updated_at = GETUTCDATE()
+         WHERE id IN (${idList('awardId', awardIds)}) AND payment_status != 'paid'`,
+        { ...idParams('awardId', awardIds), paymentIntentId }
+      )
+    })
+  } catch (error) {
+    await stripe.paymentIntents.cancel(paymentIntentId).catch((err) => {
+      console.error('Failed to cancel unreserved payment intent:', err)
+    })
+    throw error
+  }
+}
+
 /**
  * Create payment intent for winning bid (item purchase)
- * Winner pays: winning bid amount + platform fee
+ * Winner pays: winning bid amount + platform fee, plus processing fees when
+ * they choose to cover them. On items with several units this covers every
+ * unit the user won or bought and hasn't paid for.
  */
 export async function createWinnerPaymentIntent(
   itemId: string,
-  userId: string
+  userId: string,
+  coverFees: boolean = false
 ): Promise<{
   clientSecret: string
   paymentIntentId: string
   amount: number
   platformFee: number
+  coverFeesAmount: number
+  feesCovered: number
   itemTotal: number
 }> {
-  // Get item details
-  const itemResult = await dbQuery(
-    `SELECT ei.*, ae.name as event_name, ae.organization_id
-     FROM event_items ei
+  // Get the user's awards on the item
+  const awardResult = await dbQuery(
+    `SELECT w.id, w.amount, w.quantity, w.payment_status, ei.event_id, ae.name as event_name, ae.organization_id
+     FROM event_item_winners w
+     INNER JOIN event_items ei ON w.item_id = ei.id
      INNER JOIN auction_events ae ON ei.event_id = ae.id
-     WHERE ei.id = @itemId AND ei.winner_id = @userId`,
+     WHERE w.item_id = @itemId AND w.winner_id = @userId`,
     { itemId, userId }
   )
 
-  if (itemResult.recordset.length === 0) {
+  if (awardResult.recordset.length === 0) {
     throw new Error('Item not found or you are not the winner')
   }
 
-  const item = itemResult.recordset[0]
-
-  if (item.status !== 'won') {
+  const unpaid = awardResult.recordset.filter((award: any) => award.payment_status === 'pending')
+  if (unpaid.length === 0) {
     throw new Error('This item has not been won or is already paid')
   }
 
-  const winningAmount = item.current_bid
-  const platformFee = await calculatePlatformFee(winningAmount)
-  const totalAmount = winningAmount + platformFee
-
-  // Get user's Stripe customer ID
-  const userResult = await dbQuery(
-    'SELECT stripe_customer_id FROM users WHERE id = @userId',
-    { userId }
+  const item = awardResult.recordset[0]
+  const winningAmount = unpaid.reduce(
+    (sum: number, award: any) => sum + parseFloat(award.amount) * award.quantity,
+    0
   )
+  const platformFee = await calculatePlatformFee(winningAmount)
+  const coverFeesAmount = calculateCoverFeesAmount(winningAmount + platformFee)
+  const feesCovered = coverFees ? coverFeesAmount : 0
+  const totalAmount = winningAmount + platformFee + feesCovered
 
-  const stripeCustomerId = userResult.recordset[0]?.stripe_customer_id
+  const awardIds: string[] = unpaid.map((award: any) => award.id)
+  const released = await releaseAwardPaymentIntents(awardIds)
+  const stripeCustomerId = await getStripeCustomerId(userId)
 
   // Create payment intent
   const paymentIntent = await stripe.paymentIntents.create({
@@ -337,10 +690,12 @@ export async function createWinnerPaymentIntent(
     metadata: {
       type: 'auction_win',
       itemId,
+      winIds: awardIds.join(','),
       eventId: item.event_id,
       userId,
       winningAmount: winningAmount.toString(),
       platformFee: platformFee.toString(),
+      feesCovered: feesCovered.toString(),
     },
     // For connected accounts (organizations), use transfer_data
     // This would transfer the winning amount minus fees to the org's Stripe account
@@ -351,15 +706,229 @@ export async function createWinnerPaymentIntent(
     // } : undefined,
   })
 
+  await reserveAwardsForPayment(awardIds, paymentIntent.id, released)
+
   return {
     clientSecret: paymentIntent.client_secret!,
     paymentIntentId: paymentIntent.id,
     amount: winningAmount,
     platformFee,
+    coverFeesAmount,
+    feesCovered,
     itemTotal: totalAmount,
   }
 }
 
+/**
+ * Create payment intent for a fund-a-need pledge.
+ * Donations carry no platform fee; the donor pays the pledge amount.
+ */
+export async function createPledgePaymentIntent(
+  pledgeId: string,
+  userId: string
+): Promise<{
+  clientSecret: string
+  paymentIntentId: string
+  amount: number
+}> {
+  const pledgeResult = await dbQuery(
+    `SELECT p.id, p.amount, p.event_id, p.status, p.payment_status, ae.payment_mode
+     FROM fund_a_need_pledges p
+     INNER JOIN auction_events ae ON p.event_id = ae.id
+     WHERE p.id = @pledgeId AND p.donor_id = @userId`,
+    { pledgeId, userId }
+  )
+
+  if (pledgeResult.recordset.length === 0) {
+    throw new Error('Pledge not found')
+  }
+
+  const pledge = pledgeResult.recordset[0]
+
+  if (pledge.status !== 'active' || pledge.payment_status !== 'pending') {
+    throw new Error('This pledge is not awaiting payment')
+  }
+
+  if (pledge.payment_mode === 'self_managed') {
+    throw new Error('This event collects payments directly')
+  }
+
+  const amount = parseFloat(pledge.amount)
+
+  const paymentIntent = await stripe.paymentIntents.create({
+    amount: Math.round(amount * 100), // Convert to cents
+    currency: 'usd',
+    customer: await getStripeCustomerId(userId),
+    automatic_payment_methods: {
+      enabled: true,
+    },
+    metadata: {
+      type: 'fund_a_need_pledge',
+      pledgeId,
+      eventId: pledge.event_id,
+      userId,
+    },
+  })
+
+  await dbQuery(
+    `UPDATE fund_a_need_pledges SET stripe_payment_intent_id = @paymentIntentId, updated_at = GETUTCDATE()
+     WHERE id = @pledgeId`,
+    { pledgeId, paymentIntentId: paymentIntent.id }
+  )
+
+  return {
+    clientSecret: paymentIntent.client_secret!,
+    paymentIntentId: paymentIntent.id,
+    amount,
+  }
+}
+
+/**
+ * Handle payment completion webhook for fund-a-need pledges
+ */
+export async function handlePledgePaymentWebhook(
+  paymentIntent: Stripe.PaymentIntent
+): Promise<void> {
+  if (paymentIntent.metadata?.type !== 'fund_a_need_pledge') {
+    return
+  }
+
+  const { pledgeId, userId } = paymentIntent.metadata
+
+  if (!pledgeId) {
+    console.error('Missing metadata in payment intent:', paymentIntent.id)
+    return
+  }
+
+  await markPledgePaid(pledgeId, paymentIntent.id)
+
+  if (userId) {
+    await issueTaxReceipt(paymentIntent.id, userId, [{ type: 'pledge', pledgeId }])
+      .catch((err) => console.error('Failed to issue tax receipt:', err))
+  }
+
+  console.log(`Payment completed for pledge ${pledgeId}`)
+}
+
+async function markPledgePaid(pledgeId: string, paymentIntentId: string): Promise<void> {
+  await dbQuery(
+    `UPDATE fund_a_need_pledges SET
+      payment_status = 'paid',
+      payment_confirmed_at = GETUTCDATE(),
+      payment_method_used = 'stripe',
+      stripe_payment_intent_id = @paymentIntentId,
+      updated_at = GETUTCDATE()
+     WHERE id = @pledgeId AND payment_status = 'pending'`,
+    { pledgeId, paymentIntentId }
+  )
+}
+
+/**
+ * Create payment intent for raffle tickets.
+ * Ticket sales carry no platform fee; the buyer pays the purchase amount.
+ */
+export async function createRafflePaymentIntent(
+  purchaseId: string,
+  userId: string
+): Promise<{
+  clientSecret: string
+  paymentIntentId: string
+  amount: number
+}> {
+  const purchaseResult = await dbQuery(
+    `SELECT p.id, p.amount, p.event_id, p.raffle_id, p.payment_status, r.status as raffle_status, ae.payment_mode
+     FROM raffle_ticket_purchases p
+     INNER JOIN event_raffles r ON p.raffle_id = r.id
+     INNER JOIN auction_events ae ON p.event_id = ae.id
+     WHERE p.id = @purchaseId AND p.buyer_id = @userId`,
+    { purchaseId, userId }
+  )
+
+  if (purchaseResult.recordset.length === 0) {
+    throw new Error('Ticket purchase not found')
+  }
+
+  const purchase = purchaseResult.recordset[0]
+
+  if (purchase.payment_status !== 'pending') {
+    throw new Error('These tickets are not awaiting payment')
+  }
+
+  // Tickets paid for after the draw would never have been entered
+  if (purchase.raffle_status === 'drawn') {
+    throw new Error('This raffle has already been drawn')
+  }
+
+  if (purchase.payment_mode === 'self_managed') {
+    throw new Error('This event collects payments directly')
+  }
+
+  const amount = parseFloat(purchase.amount)
+
+  const paymentIntent = await stripe.paymentIntents.create({
+    amount: Math.round(amount * 100), // Convert to cents
+    currency: 'usd',
+    customer: await getStripeCustomerId(userId),
+    automatic_payment_methods: {
+      enabled: true,
+    },
+    metadata: {
+      type: 'raffle_tickets',
+      purchaseId,
+      raffleId: purchase.raffle_id,
+      eventId: purchase.event_id,
+      userId,
+    },
+  })
+
+  await dbQuery(
+    `UPDATE raffle_ticket_purchases SET stripe_payment_intent_id = @paymentIntentId, updated_at = GETUTCDATE()
+     WHERE id = @purchaseId`,
+    { purchaseId, paymentIntentId: paymentIntent.id }
+  )
+
+  return {
+    clientSecret: paymentIntent.client_secret!,
+    paymentIntentId: paymentIntent.id,
+    amount,
+  }
+}
+
+/**
+ * Handle payment completion webhook for raffle tickets
+ */
+export async function handleRafflePaymentWebhook(
+  paymentIntent: Stripe.PaymentIntent
+): Promise<void> {
+  if (paymentIntent.metadata?.type !== 'raffle_tickets') {
+    return
+  }
+
+  const { purchaseId } = paymentIntent.metadata
+
+  if (!purchaseId) {
+    console.error('Missing metadata in payment intent:', paymentIntent.id)
+    return
+  }
+
+  await markRaffleTicketsPaid(purchaseId, paymentIntent.id)
+
+  console.log(`Payment completed for raffle tickets ${purchaseId}`)
+}
+
+async function markRaffleTicketsPaid(purchaseId: string, paymentIntentId: string): Promise<void> {
+  await dbQuery(
+    `UPDATE raffle_ticket_purchases SET
+      payment_status = 'paid',
+      payment_confirmed_at = GETUTCDATE(),
+      payment_method_used = 'stripe',
+      stripe_payment_intent_id = @paymentIntentId,
+      updated_at = GETUTCDATE()
+     WHERE id = @purchaseId AND payment_status = 'pending'`,
+    { purchaseId, paymentIntentId }
+  )
+}
+
 /**
  * Handle payment completion webhook for auction wins
  */
@@ -370,35 +939,525 @@ export async function handleWinnerPaymentWebhook(
     return
   }
 
-  const { itemId, userId, platformFee } = paymentIntent.metadata
+  const { itemId, userId, winIds, platformFee, feesCovered } = paymentIntent.metadata
 
   if (!itemId || !userId) {
     console.error('Missing metadata in payment intent:', paymentIntent.id)
     return
   }
 
-  // Update item status to sold
-  await dbQuery(
-    `UPDATE event_items SET status = 'sold' WHERE id = @itemId`,
-    { itemId }
+  // Intents from before awards existed cover all of the user's awards on the item
+  const awardIds = winIds ? winIds.split(',') : []
+  await markItemAwardsPaid(itemId, userId, awardIds, parseFloat(platformFee), paymentIntent.id)
+
+  if (feesCovered && parseFloat(feesCovered) > 0 && awardIds.length > 0) {
+    await recordAwardFeesCovered(awardIds, paymentIntent.id, parseFloat(feesCovered))
+  }
+
+  await issueTaxReceipt(paymentIntent.id, userId, [{ type: 'item', itemId, awardIds }])
+    .catch((err) => console.error('Failed to issue tax receipt:', err))
+
+  console.log(`Payment completed for item ${itemId}`)
+}
+
+/**
+ * Split what a payer added to cover processing fees across the awards the
+ * payment paid for, by what each one cost, so the split follows an award if
+ * it's later refunded or reassigned. Any rounding cent goes to the first.
+ */
+async function recordAwardFeesCovered(awardIds: string[], paymentIntentId: string, feesCovered: number): Promise<void> {
+  const awardResult = await dbQuery(
+    `SELECT id, amount, quantity FROM event_item_winners
+     WHERE id IN (${idList('awardId', awardIds)}) AND payment_intent_id = @paymentIntentId`,
+    { ...idParams('awardId', awardIds), paymentIntentId }
   )
 
-  // Update platform fee status
-  await dbQuery(
-    `UPDATE platform_fees
-     SET status = 'paid',
-         stripe_payment_intent_id = @paymentIntent
-     WHERE event_id = (SELECT event_id FROM event_items WHERE id = @itemId)
-       AND amount = @feeAmount
-       AND status = 'pending'`,
+  const awards = awardResult.recordset.map((award: any) => ({
+    id: award.id as string,
+    total: parseFloat(award.amount) * (award.quantity ?? 1),
+  }))
+  if (awards.length === 0) {
+    return
+  }
+
+  const total = awards.reduce((sum, award) => sum + award.total, 0)
+
+  const shares = awards.map((award) =>
+    total > 0 ? Math.floor((feesCovered * award.total / total) * 100) / 100 : 0
+  )
+  shares[0] = Math.round((feesCovered - shares.slice(1).reduce((sum, share) => sum + share, 0)) * 100) / 100
+
+  for (const [idx, award] of awards.entries()) {
+    await dbQuery(
+      'UPDATE event_item_winners SET fees_covered = @feesCovered WHERE id = @awardId',
+      { awardId: award.id, feesCovered: shares[idx] }
+    )
+  }
+}
+
+/**
+ * A bidder's unpaid wins, pledges and raffle tickets, itemized per event
+ */
+export async function getMyCheckouts(userId: string, eventId: string | null = null): Promise<CheckoutSummary[]> {
+  const freeMode = await isFreeModeEnabled()
+  return getCheckoutSummaries(
+    userId,
     {
-      paymentIntent: paymentIntent.id,
-      itemId,
-      feeAmount: parseFloat(platformFee),
+      platformFeeFor: (itemAmount) => calculatePlatformFeeSync(itemAmount, freeMode),
+      coverFeesFor: calculateCoverFeesAmount,
+    },
+    eventId
+  )
+}
+
+/**
+ * Create one payment intent for everything a bidder owes an event.
+ * The lines are saved with the checkout so the webhook marks exactly what
+ * was charged for; an earlier unpaid checkout for the event is superseded.
+ */
+export async function createCheckoutPaymentIntent(
+  eventId: string,
+  userId: string,
+  coverFees: boolean = false
+): Promise<{
+  clientSecret: string
+  paymentIntentId: string
+  checkoutId: string
+  summary: CheckoutSummary
+}> {
+  const [due] = await getMyCheckouts(userId, eventId)
+  if (!due || due.total <= 0) {
+    throw badRequest('You have nothing to pay for this event')
+  }
+  const summary = coverFees ? withFeesCovered(due) : due
+  const awardIds = getAwardIds(summary)
+  const released = await releaseAwardPaymentIntents(awardIds)
+  const checkoutId = await openCheckout(eventId, userId, summary)
+
+  const paymentIntent = await stripe.paymentIntents.create({
+    amount: Math.round(summary.total * 100), // Convert to cents
+    currency: 'usd',
+    customer: await getStripeCustomerId(userId),
+    automatic_payment_methods: {
+      enabled: true,
+    },
+    description: describeCheckout(summary),
+    metadata: {
+      type: 'event_checkout',
+      checkoutId,
+      eventId,
+      userId,
+    },
+  })
+
+  await reserveAwardsForPayment(awardIds, paymentIntent.id, released)
+
+  await dbQuery(
+    `UPDATE event_checkouts SET stripe_payment_intent_id = @paymentIntentId, updated_at = GETUTCDATE()
+     WHERE id = @checkoutId`,
+    { checkoutId, paymentIntentId: paymentIntent.id }
+  )
+
+  return {
+    clientSecret: paymentIntent.client_secret!,
+    paymentIntentId: paymentIntent.id,
+    checkoutId,
+    summary,
+  }
+}
+
+// The awards a checkout pays for
+function getAwardIds(summary: CheckoutSummary): string[] {
+  return summary.lines.filter((line) => line.type === 'item').map((line) => line.referenceId)
+}
+
+function describeCheckout(summary: CheckoutSummary): string {
+  return `${summary.eventName}: ${summary.lines.length} item${summary.lines.length === 1 ? '' : 's'}`
+}
+
+/**
+ * Save a checkout and its lines, superseding (and cancelling the payment
+ * intent of) any earlier unpaid checkout the user has for the event.
+ * Automatic charges mark theirs 'started' until the charge is recorded.
+ */
+async function openCheckout(
+  eventId: string,
+  userId: string,
+  summary: CheckoutSummary,
+  autoCharge: boolean = false
+): Promise<string> {
+  const previous = await dbQuery(
+    `UPDATE event_checkouts SET status = 'superseded', updated_at = GETUTCDATE()
+     OUTPUT INSERTED.stripe_payment_intent_id
+     WHERE event_id = @eventId AND user_id = @userId AND status = 'pending'`,
+    { eventId, userId }
+  )
+  for (const row of previous.recordset) {
+    if (row.stripe_payment_intent_id) {
+      await stripe.paymentIntents.cancel(row.stripe_payment_intent_id).catch((err) => {
+        console.error('Failed to cancel superseded checkout payment intent:', err)
+      })
     }
+  }
+
+  const checkoutId = uuidv4()
+  await withTransaction(async (tx) => {
+    await tx(
+      `INSERT INTO event_checkouts (
+        id, event_id, user_id, status, items_amount, platform_fee, pledges_amount, raffle_amount,
+        fees_covered, total_amount, auto_charge_status
+       ) VALUES (
+        @checkoutId, @eventId, @userId, 'pending', @itemsAmount, @platformFee, @pledgesAmount, @raffleAmount,
+        @feesCovered, @total, @autoChargeStatus
+       )`,
+      {
+        checkoutId,
+        eventId,
+        userId,
+        autoChargeStatus: autoCharge ? 'started' : null,
+        itemsAmount: summary.itemsAmount,
+        platformFee: summary.platformFee,
+        pledgesAmount: summary.pledgesAmount,
+        raffleAmount: summary.raffleAmount,
+        feesCovered: summary.feesCovered,
+        total: summary.total,
+      }
+    )
+
+    for (const line of summary.lines) {
+      await tx(
+        `INSERT INTO event_checkout_lines (
+          checkout_id, line_type, reference_id, item_id, description, quantity, amount, platform_fee
+         ) VALUES (
+          @checkoutId, @type, @referenceId, @itemId, @description, @quantity, @amount, @platformFee
+         )`,
+        { checkoutId, ...line, description: line.description.slice(0, 255) }
+      )
+    }
+  })
+
+  return checkoutId
+}
+
+/**
+ * An unpaid automatic-charge checkout for exactly these lines, left by an
+ * earlier attempt to charge the user
+ */
+async function findAutoChargeCheckout(
+  eventId: string,
+  userId: string,
+  summary: CheckoutSummary
+): Promise<{ id: string; paymentIntentId: string | null } | null> {
+  const checkoutResult = await dbQuery(
+    `SELECT TOP (1) id, stripe_payment_intent_id FROM event_checkouts
+     WHERE event_id = @eventId AND user_id = @userId AND status = 'pending'
+       AND auto_charge_status IS NOT NULL AND total_amount = @total
+     ORDER BY created_at DESC`,
+    { eventId, userId, total: summary.total }
   )
+  const checkout = checkoutResult.recordset[0]
+  if (!checkout) {
+    return null
+  }
 
-  console.log(`Payment completed for item ${itemId}`)
+  const lineResult = await dbQuery(
+    'SELECT reference_id FROM event_checkout_lines WHERE checkout_id = @checkoutId',
+    { checkoutId: checkout.id }
+  )
+  const key = (ids: string[]) => [...ids].sort().join(',')
+  if (key(lineResult.recordset.map((line: any) => line.reference_id)) !== key(summary.lines.map((line) => line.referenceId))) {
+    return null
+  }
+
+  return { id: checkout.id, paymentIntentId: checkout.stripe_payment_intent_id ?? null }
+}
+
+/**
+ * Charge the winners of a card-on-file event on the cards they saved, one
+ * consolidated checkout each, without them present. Only a charge that has
+ * succeeded counts as charged; one still settling is left to the webhook.
+ * Otherwise the outcome is recorded on the checkout and the winner is sent a
+ * payment reminder to pay from My Wins instead. A retry reuses the checkout
+ * an earlier attempt opened, so Stripe's idempotency keys (built from the
+ * checkout) replay that charge instead of making a second one.
+ */
+export async function chargeCardsOnFile(eventId: string): Promise<{
+  charged: number
+  pending: number
+  needsAction: number
+  failed: number
+}> {
+  const outcome = { charged: 0, pending: 0, needsAction: 0, failed: 0 }
+
+  for (const card of await getEventCards(eventId)) {
+    const [summary] = await getMyCheckouts(card.userId, eventId)
+    if (!summary || summary.total <= 0) {
+      continue
+    }
+
+    // Anything the winner already started paying is left to finish
+    const awardIds = getAwardIds(summary)
+    const retried = await findAutoChargeCheckout(eventId, card.userId, summary)
+    let released: string[]
+    try {
+      released = await releaseAwardPaymentIntents(awardIds, retried?.paymentIntentId ?? null)
+    } catch (error) {
+      console.error(`Skipping automatic charge for ${card.userId} on event ${eventId}:`, error)
+      continue
+    }
+
+    const checkoutId = retried?.id ?? await openCheckout(eventId, card.userId, summary, true)
+    const recordCharge = (paymentIntentId: string | null, status: string, error: string | null) =>
+      dbQuery(
+        `UPDATE event_checkouts SET
+          stripe_payment_intent_id = COALESCE(@paymentIntentId, stripe_payment_intent_id),
+          auto_charge_status = @status,
+          auto_charge_error = @error,
+          updated_at = GETUTCDATE()
+         WHERE id = @checkoutId`,
+        { checkoutId, paymentIntentId, status, error: error ? error.slice(0, 500) : null }
+      )
+
+    let charged = false
+    try {
+      const pendingIntent = await stripe.paymentIntents.create({
+        amount: Math.round(summary.total * 100), // Convert to cents
+        currency: 'usd',
+        customer: await getStripeCustomerId(card.userId),
+        payment_method: card.paymentMethodId,
+        payment_method_types: ['card'],
+        description: describeCheckout(summary),
+        metadata: {
+          type: 'event_checkout',
+          checkoutId,
+          eventId,
+          userId: card.userId,
+          autoCharge: 'true',
+        },
+      }, { idempotencyKey: `checkout-${checkoutId}-create` })
+      // Reserve the awards before charging, so the card is never charged for something already being paid
+      await reserveAwardsForPayment(awardIds, pendingIntent.id, released)
+      const paymentIntent = await stripe.paymentIntents.confirm(
+        pendingIntent.id,
+        { off_session: true },
+        { idempotencyKey: `checkout-${checkoutId}-confirm` }
+      )
+
+      await recordCharge(
+        paymentIntent.id,
+        paymentIntent.status,
+        paymentIntent.status === 'requires_action' ? 'Card requires authentication' : null
+      )
+      if (paymentIntent.status === 'succeeded') {
+        outcome.charged++
+        charged = true
+        // Mark everything paid now rather than waiting on the webhook (which is then a no-op)
+        await handleCheckoutPaymentWebhook(paymentIntent)
+      } else if (paymentIntent.status === 'requires_action') {
+        outcome.needsAction++
+      } else if (paymentIntent.status === 'processing') {
+        // The webhook marks the checkout paid once the charge settles
+        outcome.pending++
+        continue
+      } else {
+        outcome.failed++
+      }
+    } catch (error) {
+      const stripeError = error instanceof Stripe.errors.StripeError ? error : null
+      const needsAction = stripeError?.code === 'authentication_required'
+
+      await recordCharge(
+        stripeError?.payment_intent?.id ?? null,
+        needsAction ? 'requires_action' : 'failed',
+        error instanceof Error ? error.message : String(error)
+      )
+      if (needsAction) {
+        outcome.needsAction++
+      } else {
+        outcome.failed++
+        console.error(`Automatic charge failed for checkout ${checkoutId}:`, error)
+      }
+    }
+
+    if (charged) {
+      continue
+    }
+
+    // Fall back to paying by hand
+    const firstItem = summary.lines.find((line) => line.itemId)
+    await notifyPaymentReminder(
+      card.userId,
+      summary.lines.length === 1 ? summary.lines[0].description : `${summary.lines.length} items from ${summary.eventName}`,
+      eventId,
+      firstItem?.itemId ?? undefined,
+      summary.total
+    ).catch((err) => console.error('Failed to send payment reminder:', err))
+  }
+
+  return outcome
+}
+
+/**
+ * Handle payment completion webhook for consolidated checkouts:
+ * mark every award, pledge and ticket purchase on the checkout paid
+ */
+export async function handleCheckoutPaymentWebhook(
+  paymentIntent: Stripe.PaymentIntent
+): Promise<void> {
+  if (paymentIntent.metadata?.type !== 'event_checkout') {
+    return
+  }
+
+  const { checkoutId, userId } = paymentIntent.metadata
+
+  if (!checkoutId || !userId) {
+    console.error('Missing metadata in payment intent:', paymentIntent.id)
+    return
+  }
+
+  // Claim the checkout so a redelivered webhook doesn't process it twice
+  const claimed = await dbQuery(
+    `UPDATE event_checkouts SET
+      status = 'paid',
+      paid_at = GETUTCDATE(),
+      auto_charge_status = CASE WHEN auto_charge_status IS NULL THEN NULL ELSE 'succeeded' END,
+      updated_at = GETUTCDATE()
+     WHERE id = @checkoutId AND status != 'paid'`,
+    { checkoutId }
+  )
+  if (claimed.rowsAffected[0] === 0) {
+    return
+  }
+
+  const lineResult = await dbQuery(
+    'SELECT * FROM event_checkout_lines WHERE checkout_id = @checkoutId',
+    { checkoutId }
+  )
+
+  const itemLines = new Map<string, { awardIds: string[]; platformFee: number }>()
+  const receiptSources: ReceiptSource[] = []
+  for (const line of lineResult.recordset) {
+    if (line.line_type === 'item') {
+      const entry = itemLines.get(line.item_id) ?? { awardIds: [], platformFee: 0 }
+      entry.awardIds.push(line.reference_id)
+      entry.platformFee += parseFloat(line.platform_fee)
+      itemLines.set(line.item_id, entry)
+    } else if (line.line_type === 'pledge') {
+      await markPledgePaid(line.reference_id, paymentIntent.id)
+      receiptSources.push({ type: 'pledge', pledgeId: line.reference_id })
+    } else if (line.line_type === 'raffle_tickets') {
+      await markRaffleTicketsPaid(line.reference_id, paymentIntent.id)
+    }
+  }
+
+  for (const [itemId, { awardIds, platformFee }] of itemLines) {
+    await markItemAwardsPaid(itemId, userId, awardIds, platformFee, paymentIntent.id)
+    receiptSources.push({ type: 'item', itemId, awardIds })
+  }
+
+  await issueTaxReceipt(paymentIntent.id, userId, receiptSources)
+    .catch((err) => console.error('Failed to issue tax receipt:', err))
+
+  console.log(`Payment completed for checkout ${checkoutId} (${lineResult.recordset.length} lines)`)
+}
+
+/**
+ * Mark a user's awards on an item paid (all of their unpaid ones when no ids
+ * are given), the item sold once every winner has paid, and the awards'
+ * platform fees paid. An award something else already paid, that was
+ * waived, refunded or defaulted, or that is no longer the user's, is kept
+ * for a refund instead.
+ */
+async function markItemAwardsPaid(
+  itemId: string,
+  userId: string,
+  awardIds: string[],
+  platformFee: number,
+  paymentIntentId: string
+): Promise<void> {
+  await withTransaction(async (tx) => {
+    const awardResult = await tx(
+      `SELECT id, event_id, winner_id, amount, quantity, payment_status, payment_intent_id
+       FROM event_item_winners WITH (UPDLOCK, ROWLOCK)
+       WHERE item_id = @itemId
+         ${awardIds.length > 0 ? `AND id IN (${idList('winId', awardIds)})` : "AND winner_id = @userId AND payment_status IN ('pending', 'payment_issue')"}`,
+      { itemId, userId, ...idParams('winId', awardIds) }
+    )
+
+    const payable: string[] = []
+    for (const award of awardResult.recordset) {
+      // A redelivered webhook for this same payment
+      if (award.payment_status === 'paid' && award.payment_intent_id === paymentIntentId) {
+        continue
+      }
+
+      if (PAYABLE_AWARD_STATUSES.includes(award.payment_status) && award.winner_id === userId) {
+        payable.push(award.id)
+        continue
+      }
+
+      console.warn(`Payment ${paymentIntentId} arrived for award ${award.id}, which is ${award.payment_status}; flagged for refund`)
+      await tx(
+        `IF NOT EXISTS (
+           SELECT 1 FROM duplicate_award_payments
+           WHERE award_id = @awardId AND stripe_payment_intent_id = @paymentIntentId
+         )
+         INSERT INTO duplicate_award_payments (event_id, award_id, user_id, stripe_payment_intent_id, amount)
+         VALUES (@eventId, @awardId, @userId, @paymentIntentId, @amount)`,
+        {
+          eventId: award.event_id,
+          awardId: award.id,
+          userId,
+          paymentIntentId,
+          amount: parseFloat(award.amount) * (award.quantity ?? 1),
+        }
+      )
+    }
+
+    if (payable.length === 0) {
+      return
+    }
+
+    await tx(
+      `UPDATE event_item_winners SET
+        payment_status = 'paid',
+        payment_intent_id = @paymentIntentId,
+        payment_confirmed_at = GETUTCDATE(),
+        updated_at = GETUTCDATE()
+       WHERE item_id = @itemId AND winner_id = @userId
+         AND id IN (${idList('winId', payable)})`,
+      { itemId, userId, paymentIntentId, ...idParams('winId', payable) }
+    )
+
+    // The item is sold once every winner has paid
+    await tx(
+      `UPDATE event_items SET status = 'sold'
+       WHERE id = @itemId
+         AND NOT EXISTS (
+           SELECT 1 FROM event_item_winners
+           WHERE item_id = @itemId AND payment_status = 'pending'
+         )`,
+      { itemId }
+    )
+
+    // Fees recorded before they were linked to awards are settled one per payment
+    const feeResult = await tx(
+      `UPDATE platform_fees SET status = 'paid', stripe_payment_intent_id = @paymentIntentId
+       WHERE award_id IN (${idList('awardId', payable)}) AND status = 'pending'`,
+      { paymentIntentId, ...idParams('awardId', payable) }
+    )
+    if (feeResult.rowsAffected[0] === 0 && platformFee > 0) {
+      await tx(
+        `UPDATE TOP (1) platform_fees SET status = 'paid', stripe_payment_intent_id = @paymentIntentId
+         WHERE event_id = (SELECT event_id FROM event_items WHERE id = @itemId)
+           AND award_id IS NULL
+           AND fee_type = 'item_sale'
+           AND amount = @feeAmount
+           AND status = 'pending'`,
+        { paymentIntentId, itemId, feeAmount: platformFee }
+      )
+    }
+  })
 }
 
 /**
@@ -419,12 +1478,34 @@ export async function getPricingInfo() {
   }
 }
 
+/**
+ * Processing fees payers chose to cover on an event's completed payments,
+ * on single-item payments and consolidated checkouts alike
+ */
+export async function getEventFeesCovered(eventId: string): Promise<number> {
+  const result = await dbQuery(
+    `SELECT
+      (SELECT COALESCE(SUM(fees_covered), 0) FROM event_item_winners
+       WHERE event_id = @eventId AND payment_status = 'paid')
+      + (SELECT COALESCE(SUM(fees_covered), 0) FROM event_checkouts
+         WHERE event_id = @eventId AND status = 'paid') as fees_covered`,
+    { eventId }
+  )
+
+  return parseFloat(result.recordset[0]?.fees_covered) || 0
+}
+
 /**
  * Get event summary with fee calculations
  */
 export async function getEventFeeSummary(eventId: string): Promise<{
   totalRaised: number
+  // Fund-a-need pledges, included in totalRaised
+  totalPledged: number
+  pledgeCount: number
   totalPlatformFees: number
+  // Processing fees payers covered on top of what they owed, not in totalRaised
+  totalFeesCovered: number
   pendingPayments: number
   completedPayments: number
   items: {
@@ -472,14 +1553,19 @@ export async function getEventFeeSummary(eventId: string): Promise<{
     paymentStatus: row.status === 'sold' ? 'paid' as const : row.status === 'won' ? 'pending' as const : null,
   }))
 
-  const totalRaised = items.reduce((sum, item) => sum + (item.winningBid || 0), 0)
+  const { totalPledged, pledgeCount } = await getEventPledgeTotals(eventId)
+  const totalRaised = items.reduce((sum, item) => sum + (item.winningBid || 0), 0) + totalPledged
   const totalPlatformFees = items.reduce((sum, item) => sum + (item.platformFee || 0), 0)
+  const totalFeesCovered = await getEventFeesCovered(eventId)
   const pendingPayments = items.filter(i => i.paymentStatus === 'pending').length
   const completedPayments = items.filter(i => i.paymentStatus === 'paid').length
 
   return {
     totalRaised,
+    totalPledged,
+    pledgeCount,
     totalPlatformFees,
+    totalFeesCovered,
     pendingPayments,
     completedPayments,
     items,
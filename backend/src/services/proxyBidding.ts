@@ -0,0 +1,173 @@
+// Proxy (maximum) bidding for standard auctions.
+// Each bidder may hold a hidden maximum; the visible price only rises as far as
+// needed to keep the strongest maximum in the lead.
+
+export type IncrementType = 'fixed' | 'percent'
+
+export interface BidIncrement {
+  incrementType: IncrementType | string
+  incrementValue: number
+}
+
+/**
+ * Someone currently leading or trying to take the lead.
+ * `ceiling` is the most they are willing to pay (their maximum, or their
+ * plain bid if they never set one). `setAt` breaks ties: earliest wins.
+ */
+export interface ProxyContender {
+  bidderId: string
+  ceiling: number
+  setAt: Date
+}
+
+export interface ProxyChallenger extends ProxyContender {
+  // The amount the challenger asked to bid right now
+  amount: number
+}
+
+export interface ProxyBidRecord {
+  bidderId: string
+  amount: number
+  isProxy: boolean
+  isWinning: boolean
+}
+
+export interface ProxyResolution {
+  winnerId: string
+  price: number
+  leaderChanged: boolean
+  // Bids to record, in insertion order
+  bids: ProxyBidRecord[]
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+/**
+ * Calculate the minimum next bid given the current bid and the event's increment settings
+ */
+export function calculateMinBid(
+  currentBid: number | null,
+  startingPrice: number,
+  incrementType: string,
+  incrementValue: number
+): number {
+  const baseBid = currentBid || startingPrice || 0
+
+  if (incrementType === 'percent') {
+    // Work in cents up front so e.g. 10% of $100 doesn't round up to $110.01
+    return Math.ceil(baseBid * (100 + incrementValue)) / 100
+  } else {
+    return baseBid + incrementValue
+  }
+}
+
+/**
+ * Whether `a` beats `b`: higher ceiling wins, equal ceilings go to whoever set theirs first
+ */
+function outranks(a: ProxyContender, b: ProxyContender): boolean {
+  if (a.ceiling !== b.ceiling) {
+    return a.ceiling > b.ceiling
+  }
+  return a.setAt.getTime() < b.setAt.getTime()
+}
+
+/**
+ * Resolve a new bid against the current leader.
+ *
+ * Only the leader can hold headroom above the visible price (everyone else's
+ * maximum has already been exhausted), so resolution is always a two-party
+ * contest. The caller is expected to have validated `challenger.amount`
+ * against the minimum bid and that the challenger is not already leading.
+ */
+export function resolveProxyBid(params: {
+  startingPrice: number
+  increment: BidIncrement
+  leader: ProxyContender | null
+  currentBid: number | null
+  challenger: ProxyChallenger
+}): ProxyResolution {
+  const { startingPrice, increment, leader, currentBid, challenger } = params
+  const minAbove = (amount: number) =>
+    calculateMinBid(amount, startingPrice, increment.incrementType, increment.incrementValue)
+
+  if (!leader) {
+    return {
+      winnerId: challenger.bidderId,
+      price: roundCents(challenger.amount),
+      leaderChanged: true,
+      bids: [{ bidderId: challenger.bidderId, amount: roundCents(challenger.amount), isProxy: false, isWinning: true }],
+    }
+  }
+
+  if (outranks(challenger, leader)) {
+    const bids: ProxyBidRecord[] = []
+
+    // The old leader's proxy fights up to its ceiling before being beaten
+    if (currentBid === null || leader.ceiling > currentBid) {
+      bids.push({ bidderId: leader.bidderId, amount: roundCents(leader.ceiling), isProxy: true, isWinning: false })
+    }
+
+    const price = roundCents(Math.min(challenger.ceiling, Math.max(challenger.amount, minAbove(leader.ceiling))))
+    bids.push({
+      bidderId: challenger.bidderId,
+      amount: price,
+      isProxy: price !== roundCents(challenger.amount),
+      isWinning: true,
+    })
+
+    return { winnerId: challenger.bidderId, price, leaderChanged: true, bids }
+  }
+
+  // The leader holds: the challenger is committed up to their ceiling and the
+  // leader's proxy answers with the smallest bid that stays ahead
+  const challengerBid = roundCents(challenger.ceiling)
+  const price = leader.ceiling === challenger.ceiling
+    ? roundCents(leader.ceiling)
+    : roundCents(Math.min(leader.ceiling, minAbove(challenger.ceiling)))
+
+  return {
+    winnerId: leader.bidderId,
+    price,
+    leaderChanged: false,
+    bids: [
+      { bidderId: challenger.bidderId, amount: challengerBid, isProxy: challengerBid !== roundCents(challenger.amount), isWinning: false },
+      { bidderId: leader.bidderId, amount: price, isProxy: true, isWinning: true },
+    ],
+  }
+}
+
+/**
+ * Leader and price among standing maximums, as if they had been bid against
+ * each other from scratch: the strongest ceiling leads at the smallest bid
+ * that beats the runner-up's ceiling. Used to re-price an item once a bid is
+ * voided. A lone contender sits at the opening minimum bid.
+ */
+export function resolveProxyContest(params: {
+  startingPrice: number
+  increment: BidIncrement
+  contenders: ProxyContender[]
+}): { winnerId: string; price: number } | null {
+  const { startingPrice, increment, contenders } = params
+  const ranked = [...contenders].sort((a, b) => (outranks(a, b) ? -1 : outranks(b, a) ? 1 : 0))
+  const [leader, runnerUp] = ranked
+
+  if (!leader) {
+    return null
+  }
+
+  const minAbove = (amount: number | null) =>
+    calculateMinBid(amount, startingPrice, increment.incrementType, increment.incrementValue)
+
+  let price: number
+  if (!runnerUp) {
+    price = Math.min(leader.ceiling, minAbove(null))
+  } else if (leader.ceiling === runnerUp.ceiling) {
+    price = leader.ceiling
+  } else {
+    price = Math.min(leader.ceiling, minAbove(runnerUp.ceiling))
+  }
+
+  return { winnerId: leader.bidderId, price: roundCents(price) }
+}
@@ -0,0 +1,183 @@
+import { createHmac, randomBytes } from 'crypto'
+import { QueryFn } from '../config/database.js'
+import { badRequest, notFound } from '../middleware/errorHandler.js'
+
+// Raffles sell numbered tickets for an event. Paid (or waived) tickets are
+// entered in the draw, which picks winners from a random seed that is kept
+// with the result: re-running drawWinningTickets with the stored seed and
+// entries gives the same winners.
+
+export const RAFFLE_DRAW_ALGORITHM = 'hmac-sha256-v1'
+
+// Statuses whose tickets are entered in the draw
+const ELIGIBLE_PAYMENT_STATUSES = ['paid', 'waived']
+
+export type TicketRange = [number, number]
+
+export interface RaffleBundle {
+  id: string
+  ticket_count: number
+  price: number | string
+}
+
+export interface RaffleWinner {
+  place: number
+  ticketNumber: number
+  purchaseId: string
+  winnerId: string
+}
+
+export interface RaffleDrawOutcome {
+  raffleId: string
+  eventId: string
+  title: string
+  prizeDescription: string | null
+  seed: string
+  entryCount: number
+  winners: RaffleWinner[]
+}
+
+/**
+ * How many tickets a purchase gets and what it costs: one bundle, or
+ * single tickets at the raffle's ticket price
+ */
+export function quoteTickets(
+  raffle: { ticket_price: number | string },
+  bundles: RaffleBundle[],
+  request: { bundleId?: string; ticketCount?: number }
+): { ticketCount: number; amount: number; bundleId: string | null } {
+  if (request.bundleId) {
+    const bundle = bundles.find((b) => b.id === request.bundleId)
+    if (!bundle) {
+      throw notFound('Ticket bundle not found')
+    }
+    return { ticketCount: bundle.ticket_count, amount: parseFloat(String(bundle.price)), bundleId: bundle.id }
+  }
+
+  const ticketCount = request.ticketCount ?? 1
+  const amount = Math.round(ticketCount * parseFloat(String(raffle.ticket_price)) * 100) / 100
+  return { ticketCount, amount, bundleId: null }
+}
+
+/**
+ * A fresh 256-bit draw seed, hex encoded
+ */
+export function generateDrawSeed(): string {
+  return randomBytes(32).toString('hex')
+}
+
+/**
+ * Pick `count` distinct winning tickets from the entered ranges.
+ * Each pick hashes "place:attempt" with the seed and maps the first 48 bits
+ * onto the tickets still in the pool, rejecting values that would bias the
+ * result. Tickets are taken in ascending order, so the outcome depends only
+ * on the seed and the entries.
+ */
+export function drawWinningTickets(seed: string, entries: TicketRange[], count: number): number[] {
+  const pool = entries
+    .slice()
+    .sort((a, b) => a[0] - b[0])
+    .flatMap(([first, last]) => Array.from({ length: last - first + 1 }, (_, idx) => first + idx))
+
+  const key = Buffer.from(seed, 'hex')
+  const range = 2 ** 48
+  const winners: number[] = []
+
+  for (let place = 1; place <= count && pool.length > 0; place++) {
+    const limit = range - (range % pool.length)
+
+    for (let attempt = 0; ; attempt++) {
+      const value = createHmac('sha256', key).update(`${place}:${attempt}`).digest().readUIntBE(0, 6)
+      if (value < limit) {
+        winners.push(pool.splice(value % pool.length, 1)[0])
+        break
+      }
+    }
+  }
+
+  return winners
+}
+
+/**
+ * Run a raffle's draw inside the caller's transaction and record the seed,
+ * entries and winners. Fewer tickets than prizes means fewer winners.
+ */
+export async function drawRaffle(raffleId: string, drawnBy: string, tx: QueryFn): Promise<RaffleDrawOutcome> {
+  const raffleResult = await tx(
+    'SELECT * FROM event_raffles WITH (UPDLOCK, ROWLOCK) WHERE id = @raffleId',
+    { raffleId }
+  )
+
+  if (raffleResult.recordset.length === 0) {
+    throw notFound('Raffle not found')
+  }
+
+  const raffle = raffleResult.recordset[0]
+
+  if (raffle.status === 'drawn') {
+    throw badRequest('This raffle has already been drawn')
+  }
+
+  const purchaseResult = await tx(
+    `SELECT id, buyer_id, first_ticket, last_ticket
+     FROM raffle_ticket_purchases
+     WHERE raffle_id = @raffleId
+       AND payment_status IN (${ELIGIBLE_PAYMENT_STATUSES.map((s) => `'${s}'`).join(', ')})
+     ORDER BY first_ticket`,
+    { raffleId }
+  )
+
+  const purchases = purchaseResult.recordset
+  if (purchases.length === 0) {
+    throw badRequest('No paid tickets have been entered in this raffle')
+  }
+
+  const entries: TicketRange[] = purchases.map((p: any) => [p.first_ticket, p.last_ticket])
+  const entryCount = purchases.reduce((sum: number, p: any) => sum + p.last_ticket - p.first_ticket + 1, 0)
+  const seed = generateDrawSeed()
+  const tickets = drawWinningTickets(seed, entries, raffle.number_of_winners)
+
+  const winners: RaffleWinner[] = tickets.map((ticketNumber, idx) => {
+    const purchase = purchases.find((p: any) => ticketNumber >= p.first_ticket && ticketNumber <= p.last_ticket)
+    return { place: idx + 1, ticketNumber, purchaseId: purchase.id, winnerId: purchase.buyer_id }
+  })
+
+  await tx(
+    `UPDATE event_raffles SET
+      status = 'drawn',
+      draw_seed = @seed,
+      draw_algorithm = @algorithm,
+      draw_entries = @entries,
+      draw_entry_count = @entryCount,
+      drawn_at = GETUTCDATE(),
+      drawn_by = @drawnBy,
+      updated_at = GETUTCDATE()
+     WHERE id = @raffleId`,
+    {
+      raffleId,
+      seed,
+      algorithm: RAFFLE_DRAW_ALGORITHM,
+      entries: JSON.stringify(entries),
+      entryCount,
+      drawnBy,
+    }
+  )
+
+  for (const winner of winners) {
+    await tx(
+      `INSERT INTO raffle_winners (raffle_id, place, ticket_number, purchase_id, winner_id)
+       VALUES (@raffleId, @place, @ticketNumber, @purchaseId, @winnerId)`,
+      { raffleId, ...winner }
+    )
+  }
+
+  return {
+    raffleId,
+    eventId: raffle.event_id,
+    title: raffle.title,
+    prizeDescription: raffle.prize_description,
+    seed,
+    entryCount,
+    winners,
+  }
+}
@@ -0,0 +1,402 @@
+import { v4 as uuidv4 } from 'uuid'
+import { query as dbQuery, QueryFn } from '../config/database.js'
+import { badRequest, notFound } from '../middleware/errorHandler.js'
+import { calculatePlatformFeeSync } from './platformFees.js'
+import { getEffectiveTime } from './uatTime.js'
+
+// Second-chance offers. When a winner never pays, an organizer marks the
+// award defaulted and can offer the item to the next-highest bidder at that
+// bidder's own bid. The offer expires after a while; if the bidder accepts,
+// the award passes to them with a fresh pending payment and platform fee.
+
+export const DEFAULT_OFFER_HOURS = 48
+
+// Awards that can still be marked defaulted
+const DEFAULTABLE_STATUSES = ['pending', 'payment_issue']
+
+export type SecondChanceOfferStatus = 'pending' | 'accepted' | 'declined' | 'expired'
+
+export interface RunnerUp {
+  bidderId: string
+  bidderName: string | null
+  amount: number
+}
+
+export interface SecondChanceOffer {
+  id: string
+  itemId: string
+  itemTitle: string
+  eventId: string
+  eventName: string
+  awardId: string
+  bidderId: string
+  bidderName: string | null
+  // Per unit, for every unit of the defaulted award
+  amount: number
+  quantity: number
+  status: SecondChanceOfferStatus
+  expiresAt: Date
+  respondedAt: Date | null
+  createdAt: Date
+}
+
+const OFFER_SELECT = `
+  SELECT o.*, i.title as item_title, e.name as event_name, e.simulated_current_time, u.display_name as bidder_name,
+         w.quantity
+  FROM second_chance_offers o
+  INNER JOIN event_item_winners w ON o.award_id = w.id
+  INNER JOIN event_items i ON o.item_id = i.id
+  INNER JOIN auction_events e ON o.event_id = e.id
+  LEFT JOIN users u ON o.bidder_id = u.id`
+
+/**
+ * A pending offer past its expiry (on the event's clock, see uatTime.ts)
+ * reads as expired even before anything writes that back.
+ */
+async function mapOffer(row: any): Promise<SecondChanceOffer> {
+  const expiresAt = new Date(row.expires_at)
+  const now = await getEffectiveTime(row)
+  const status = row.status === 'pending' && expiresAt <= now ? 'expired' : row.status
+
+  return {
+    id: row.id,
+    itemId: row.item_id,
+    itemTitle: row.item_title,
+    eventId: row.event_id,
+    eventName: row.event_name,
+    awardId: row.award_id,
+    bidderId: row.bidder_id,
+    bidderName: row.bidder_name ?? null,
+    amount: parseFloat(row.amount),
+    quantity: row.quantity ?? 1,
+    status,
+    expiresAt,
+    respondedAt: row.responded_at ?? null,
+    createdAt: row.created_at,
+  }
+}
+
+async function getOfferRow(offerId: string, runQuery: QueryFn): Promise<SecondChanceOffer> {
+  const result = await runQuery(`${OFFER_SELECT} WHERE o.id = @offerId`, { offerId })
+  if (result.recordset.length === 0) {
+    throw notFound('Offer not found')
+  }
+  return mapOffer(result.recordset[0])
+}
+
+/**
+ * Load an award with its item and event, locked for update when run in a
+ * transaction.
+ */
+async function getAwardForUpdate(itemId: string, awardId: string, tx: QueryFn) {
+  const result = await tx(
+    `SELECT w.*, i.title, i.reserve_price, i.winner_id as item_winner_id, i.quantity as item_quantity,
+            e.auction_type, e.payment_mode, e.owner_id, e.organization_id, e.simulated_current_time
+     FROM event_item_winners w WITH (UPDLOCK, ROWLOCK)
+     INNER JOIN event_items i ON w.item_id = i.id
+     INNER JOIN auction_events e ON w.event_id = e.id
+     WHERE w.id = @awardId AND w.item_id = @itemId`,
+    { itemId, awardId }
+  )
+
+  if (result.recordset.length === 0) {
+    throw notFound('Winner not found for this item')
+  }
+
+  return result.recordset[0]
+}
+
+/**
+ * Mark an unpaid award defaulted. Its pending platform fee is waived, since
+ * the sale didn't go through; an accepted second-chance offer records a new one.
+ */
+export async function markAwardDefaulted(itemId: string, awardId: string, notes: string | null, tx: QueryFn): Promise<void> {
+  const award = await getAwardForUpdate(itemId, awardId, tx)
+
+  if (award.payment_status === 'defaulted') {
+    throw badRequest('This win is already marked defaulted')
+  }
+  if (!DEFAULTABLE_STATUSES.includes(award.payment_status || 'pending')) {
+    throw badRequest('Only unpaid wins can be marked defaulted')
+  }
+
+  await tx(
+    `UPDATE event_item_winners SET
+      payment_status = 'defaulted',
+      payment_notes = COALESCE(@notes, payment_notes),
+      updated_at = GETUTCDATE()
+     WHERE id = @awardId`,
+    { awardId, notes }
+  )
+
+  const waived = await tx(
+    `UPDATE platform_fees SET status = 'waived'
+     WHERE award_id = @awardId AND status = 'pending'`,
+    { awardId }
+  )
+
+  // Fees recorded before they were linked to awards: every item sale on an event carries the same one
+  if (waived.rowsAffected[0] === 0) {
+    await tx(
+      `UPDATE TOP (1) platform_fees SET status = 'waived'
+       WHERE event_id = @eventId AND award_id IS NULL AND fee_type = 'item_sale' AND status = 'pending'`,
+      { eventId: award.event_id }
+    )
+  }
+}
+
+/**
+ * The highest bidder on an item who hasn't won a unit of it, defaulted on it
+ * or already been offered it, with their best bid. Bids under the reserve
+ * price never won and aren't offered either.
+ */
+export async function findRunnerUp(itemId: string, runQuery: QueryFn = dbQuery): Promise<RunnerUp | null> {
+  const itemResult = await runQuery(
+    `SELECT i.reserve_price, e.auction_type
+     FROM event_items i
+     INNER JOIN auction_events e ON i.event_id = e.id
+     WHERE i.id = @itemId`,
+    { itemId }
+  )
+
+  if (itemResult.recordset.length === 0) {
+    throw notFound('Item not found')
+  }
+
+  const item = itemResult.recordset[0]
+  const bestBids = item.auction_type === 'silent'
+    // Silent bidders hold a single bid per item
+    ? `SELECT bidder_id, amount, created_at, 1 as bidder_rank
+       FROM event_item_silent_bids
+       WHERE item_id = @itemId`
+    : `SELECT bidder_id, amount, created_at,
+              ROW_NUMBER() OVER (PARTITION BY bidder_id ORDER BY amount DESC, created_at ASC) as bidder_rank
+       FROM event_item_bids
+       WHERE item_id = @itemId`
+
+  const result = await runQuery(
+    `WITH BestBids AS (
+      ${bestBids}
+    )
+    SELECT TOP 1 bb.bidder_id, bb.amount, u.display_name as bidder_name
+    FROM BestBids bb
+    LEFT JOIN users u ON bb.bidder_id = u.id
+    WHERE bb.bidder_rank = 1
+      AND (@reservePrice IS NULL OR bb.amount >= @reservePrice)
+      AND bb.bidder_id NOT IN (SELECT winner_id FROM event_item_winners WHERE item_id = @itemId)
+      AND bb.bidder_id NOT IN (
+        SELECT bidder_id FROM second_chance_offers WHERE item_id = @itemId
+        UNION
+        SELECT previous_winner_id FROM second_chance_offers WHERE item_id = @itemId
+      )
+    ORDER BY bb.amount DESC, bb.created_at ASC`,
+    { itemId, reservePrice: item.reserve_price ?? null }
+  )
+
+  if (result.recordset.length === 0) {
+    return null
+  }
+
+  const row = result.recordset[0]
+  return {
+    bidderId: row.bidder_id,
+    bidderName: row.bidder_name ?? null,
+    amount: parseFloat(row.amount),
+  }
+}
+
+/**
+ * Offer a defaulted award to the item's runner-up. Only one offer per award
+ * is open at a time.
+ */
+export async function createSecondChanceOffer(
+  itemId: string,
+  awardId: string,
+  createdBy: string,
+  expiresInHours: number,
+  tx: QueryFn
+): Promise<SecondChanceOffer> {
+  const award = await getAwardForUpdate(itemId, awardId, tx)
+
+  if (award.payment_status !== 'defaulted') {
+    throw badRequest('Mark this win defaulted before offering it to another bidder')
+  }
+
+  const now = await getEffectiveTime(award)
+  await tx(
+    `UPDATE second_chance_offers SET status = 'expired', updated_at = GETUTCDATE()
+     WHERE award_id = @awardId AND status = 'pending' AND expires_at <= @now`,
+    { awardId, now }
+  )
+
+  const openResult = await tx(
+    `SELECT id FROM second_chance_offers WHERE award_id = @awardId AND status = 'pending'`,
+    { awardId }
+  )
+  if (openResult.recordset.length > 0) {
+    throw badRequest('This win already has an open offer')
+  }
+
+  const runnerUp = await findRunnerUp(itemId, tx)
+  if (!runnerUp) {
+    throw badRequest('There are no other bidders to offer this item to')
+  }
+
+  const offerId = uuidv4()
+  await tx(
+    `INSERT INTO second_chance_offers (
+      id, item_id, event_id, award_id, previous_winner_id, bidder_id, amount, status, expires_at, created_by
+    ) VALUES (
+      @offerId, @itemId, @eventId, @awardId, @previousWinnerId, @bidderId, @amount, 'pending',
+      DATEADD(HOUR, @expiresInHours, @now), @createdBy
+    )`,
+    {
+      offerId,
+      itemId,
+      eventId: award.event_id,
+      awardId,
+      previousWinnerId: award.winner_id,
+      bidderId: runnerUp.bidderId,
+      amount: runnerUp.amount,
+      expiresInHours,
+      now,
+      createdBy,
+    }
+  )
+
+  return getOfferRow(offerId, tx)
+}
+
+/**
+ * Offers made on an item's awards, newest first (event admins)
+ */
+export async function getItemOffers(itemId: string, runQuery: QueryFn = dbQuery): Promise<SecondChanceOffer[]> {
+  const result = await runQuery(
+    `${OFFER_SELECT} WHERE o.item_id = @itemId ORDER BY o.created_at DESC`,
+    { itemId }
+  )
+  return Promise.all(result.recordset.map(mapOffer))
+}
+
+/**
+ * An offer as seen by the bidder it was made to
+ */
+export async function getBidderOffer(offerId: string, userId: string, runQuery: QueryFn = dbQuery): Promise<SecondChanceOffer> {
+  const offer = await getOfferRow(offerId, runQuery)
+  if (offer.bidderId !== userId) {
+    throw notFound('Offer not found')
+  }
+  return offer
+}
+
+async function getOpenOfferForUpdate(offerId: string, userId: string, tx: QueryFn) {
+  const result = await tx(
+    `SELECT o.*, e.payment_mode, e.owner_id, e.organization_id, e.simulated_current_time
+     FROM second_chance_offers o WITH (UPDLOCK, ROWLOCK)
+     INNER JOIN auction_events e ON o.event_id = e.id
+     WHERE o.id = @offerId`,
+    { offerId }
+  )
+
+  const offer = result.recordset[0]
+  if (!offer || offer.bidder_id !== userId) {
+    throw notFound('Offer not found')
+  }
+  if (offer.status !== 'pending') {
+    throw badRequest(`This offer was already ${offer.status}`)
+  }
+  if (new Date(offer.expires_at) <= await getEffectiveTime(offer)) {
+    throw badRequest('This offer has expired')
+  }
+
+  return offer
+}
+
+/**
+ * Accept an offer: the award passes to the bidder, every unit of it at their
+ * bid, awaiting payment, and a single-unit item's winner follows when it
+ * pointed at the defaulted winner. Integrated events record a new platform
+ * fee for the sale.
+ */
+export async function acceptSecondChanceOffer(
+  offerId: string,
+  userId: string,
+  freeMode: boolean,
+  tx: QueryFn
+): Promise<SecondChanceOffer> {
+  const offer = await getOpenOfferForUpdate(offerId, userId, tx)
+  const award = await getAwardForUpdate(offer.item_id, offer.award_id, tx)
+
+  if (award.payment_status !== 'defaulted' || award.winner_id !== offer.previous_winner_id) {
+    throw badRequest('This item is no longer available')
+  }
+
+  await tx(
+    `UPDATE event_item_winners SET
+      winner_id = @bidderId,
+      amount = @amount,
+      payment_status = 'pending',
+      payment_confirmed_at = NULL,
+      payment_confirmed_by = NULL,
+      payment_method_used = NULL,
+      payment_notes = NULL,
+      fees_covered = 0,
+      payment_intent_id = NULL,
+      won_at = GETUTCDATE(),
+      updated_at = GETUTCDATE()
+     WHERE id = @awardId`,
+    { awardId: award.id, bidderId: userId, amount: offer.amount }
+  )
+
+  // An item with several units keeps its own winner and price; the awards say who won what
+  if ((award.item_quantity ?? 1) <= 1) {
+    await tx(
+      `UPDATE event_items SET winner_id = @bidderId, current_bid = @amount, updated_at = GETUTCDATE()
+       WHERE id = @itemId AND winner_id = @previousWinnerId`,
+      { itemId: offer.item_id, bidderId: userId, amount: offer.amount, previousWinnerId: offer.previous_winner_id }
+    )
+  }
+
+  const amount = parseFloat(offer.amount)
+  if (offer.payment_mode !== 'self_managed' && !freeMode) {
+    await tx(
+      `INSERT INTO platform_fees (
+        id, user_id, organization_id, event_id, award_id, fee_type, amount, status, created_at
+      ) VALUES (
+        @id, @userId, @organizationId, @eventId, @awardId, 'item_sale', @amount, 'pending', GETUTCDATE()
+      )`,
+      {
+        id: uuidv4(),
+        userId: offer.owner_id || null,
+        organizationId: offer.organization_id || null,
+        eventId: offer.event_id,
+        awardId: award.id,
+        amount: calculatePlatformFeeSync(amount, freeMode),
+      }
+    )
+  }
+
+  await tx(
+    `UPDATE second_chance_offers SET status = 'accepted', responded_at = GETUTCDATE(), updated_at = GETUTCDATE()
+     WHERE id = @offerId`,
+    { offerId }
+  )
+
+  return getOfferRow(offerId, tx)
+}
+
+/**
+ * Decline an offer. The award stays defaulted, so the organizer can offer
+ * it to the next bidder down.
+ */
+export async function declineSecondChanceOffer(offerId: string, userId: string, tx: QueryFn): Promise<SecondChanceOffer> {
+  await getOpenOfferForUpdate(offerId, userId, tx)
+
+  await tx(
+    `UPDATE second_chance_offers SET status = 'declined', responded_at = GETUTCDATE(), updated_at = GETUTCDATE()
+     WHERE id = @offerId`,
+    { offerId }
+  )
+
+  return getOfferRow(offerId, tx)
+}
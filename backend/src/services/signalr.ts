@@ -1,5 +1,7 @@
-import { Server as HttpServer } from 'http'
+import { Server as HttpServer, IncomingMessage } from 'http'
 import { WebSocketServer, WebSocket } from 'ws'
+import { verifyUserToken } from '../middleware/auth.js'
+import { HubBackplane, HubMessage, InMemoryHubBackplane, createHubBackplane } from './hubBackplane.js'
 
 interface BidUpdateEvent {
   auctionId: string
@@ -16,26 +18,143 @@ interface AuctionEndedEvent {
   finalBid: number
 }
 
+// Event auction messages. Silent auctions never carry amounts.
+export interface ItemBidUpdateEvent {
+  eventId: string
+  itemId: string
+  // null once every bid has been cancelled
+  currentBid: number | null
+  bidCount: number
+  minNextBid: number
+  endTime: string
+  extended: boolean
+  // null when the item has no reserve
+  reserveMet: boolean | null
+}
+
+export interface SilentBidUpdateEvent {
+  eventId: string
+  itemId: string
+  bidderCount: number
+  reserveMet: boolean | null
+}
+
+export interface ItemStatusEvent {
+  eventId: string
+  itemId: string
+}
+
+export interface ItemSoldEvent extends ItemStatusEvent {
+  price: number
+}
+
+export interface ItemsClosedEvent {
+  eventId: string
+  groupId: string
+  itemIds: string[]
+}
+
+export interface EventEndedEvent {
+  eventId: string
+}
+
+export interface FundANeedUpdateEvent {
+  eventId: string
+  campaignId: string
+  totalPledged: number
+  pledgeCount: number
+  goalAmount: number | null
+}
+
 interface Client {
   ws: WebSocket
-  auctionGroups: Set<string>
+  groups: Set<string>
+  // Set when the handshake carried a valid token; anonymous clients only get group broadcasts
+  userId: string | null
+}
+
+interface HandshakeIdentity {
+  userId: string
+  expiresAt: Date | null
 }
 
 const clients = new Map<string, Client>()
+// userId -> clientIds, so user-targeted messages only reach that user's sockets
+const userConnections = new Map<string, Set<string>>()
+// Identities verified during the upgrade, picked up by the connection handler
+const handshakeIdentities = new WeakMap<IncomingMessage, HandshakeIdentity>()
 let wss: WebSocketServer | null = null
+// Replaced in initializeSignalR; until then there are no sockets to deliver to anyway
+let backplane: HubBackplane = new InMemoryHubBackplane()
+
+// Close code telling the browser to reconnect with a fresh token
+const TOKEN_EXPIRED_CLOSE_CODE = 4001
+
+/**
+ * Browsers can't send an Authorization header on a WebSocket, so the token
+ * comes in the `access_token` query parameter (as SignalR clients do)
+ */
+function getHandshakeToken(req: IncomingMessage): string | null {
+  const url = new URL(req.url || '', 'http://localhost')
+  return url.searchParams.get('access_token')
+}
+
+export function initializeSignalR(server: HttpServer, hubBackplane: HubBackplane = createHubBackplane()): void {
+  backplane = hubBackplane
+  backplane.subscribe(deliverLocally).catch((error) => {
+    console.error('[SignalR] Failed to subscribe to the hub backplane:', error)
+  })
+
+  wss = new WebSocketServer({
+    server,
+    path: '/hubs/auction',
+    verifyClient: (info, callback) => {
+      const token = getHandshakeToken(info.req)
+      if (!token) {
+        callback(true)
+        return
+      }
 
-export function initializeSignalR(server: HttpServer): void {
-  wss = new WebSocketServer({ server, path: '/hubs/auction' })
+      // A token that was sent but doesn't verify is refused rather than
+      // silently downgraded, so the browser knows to get a new one
+      verifyUserToken(token)
+        .then(({ user, expiresAt }) => {
+          handshakeIdentities.set(info.req, { userId: user.id, expiresAt })
+          callback(true)
+        })
+        .catch((error) => {
+          console.error('WebSocket token verification failed:', error instanceof Error ? error.message : error)
+          callback(false, 401, 'Unauthorized')
+        })
+    },
+  })
 
-  wss.on('connection', (ws: WebSocket) => {
+  wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
     const clientId = generateClientId()
-    
+    const identity = handshakeIdentities.get(req) || null
+
     clients.set(clientId, {
       ws,
-      auctionGroups: new Set(),
+      groups: new Set(),
+      userId: identity?.userId || null,
     })
 
-    console.log(`Client connected: ${clientId}`)
+    if (identity) {
+      if (!userConnections.has(identity.userId)) {
+        userConnections.set(identity.userId, new Set())
+      }
+      userConnections.get(identity.userId)!.add(clientId)
+
+      // Don't keep delivering private messages on a socket whose token has lapsed
+      if (identity.expiresAt) {
+        const expiryTimer = setTimeout(() => {
+          ws.close(TOKEN_EXPIRED_CLOSE_CODE, 'Token expired')
+        }, Math.max(0, identity.expiresAt.getTime() - Date.now()))
+        ws.on('close', () => clearTimeout(expiryTimer))
+      }
+    }
+
+    console.log(`Client connected: ${clientId}${identity ? ` (user ${identity.userId})` : ''}`)
 
     ws.on('message', (data: Buffer) => {
       try {
@@ -47,13 +166,13 @@ export function initializeSignalR(server: HttpServer): void {
     })
 
     ws.on('close', () => {
-      clients.delete(clientId)
+      removeClient(clientId)
       console.log(`Client disconnected: ${clientId}`)
     })
 
     ws.on('error', (error) => {
       console.error(`WebSocket error for client ${clientId}:`, error)
-      clients.delete(clientId)
+      removeClient(clientId)
     })
 
     // Send connection acknowledgment
@@ -61,6 +180,21 @@ export function initializeSignalR(server: HttpServer): void {
   })
 }
 
+function removeClient(clientId: string): void {
+  const client = clients.get(clientId)
+  if (!client) return
+
+  clients.delete(clientId)
+
+  if (client.userId) {
+    const connections = userConnections.get(client.userId)
+    connections?.delete(clientId)
+    if (connections && connections.size === 0) {
+      userConnections.delete(client.userId)
+    }
+  }
+}
+
 function generateClientId(): string {
   return `client_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
 }
@@ -71,54 +205,147 @@ function handleMessage(clientId: string, message: any): void {
 
   switch (message.type) {
     case 'JoinAuctionGroup':
-      client.auctionGroups.add(message.auctionId)
+      client.groups.add(message.auctionId)
       console.log(`Client ${clientId} joined auction group: ${message.auctionId}`)
       break
 
     case 'LeaveAuctionGroup':
-      client.auctionGroups.delete(message.auctionId)
+      client.groups.delete(message.auctionId)
       console.log(`Client ${clientId} left auction group: ${message.auctionId}`)
       break
 
+    case 'JoinEventGroup':
+      client.groups.add(eventGroup(message.eventId))
+      break
+
+    case 'LeaveEventGroup':
+      client.groups.delete(eventGroup(message.eventId))
+      break
+
+    case 'JoinItemGroup':
+      client.groups.add(itemGroup(message.itemId))
+      break
+
+    case 'LeaveItemGroup':
+      client.groups.delete(itemGroup(message.itemId))
+      break
+
     default:
       console.log(`Unknown message type: ${message.type}`)
   }
 }
 
 export function broadcastBidUpdate(event: BidUpdateEvent): void {
-  const message = JSON.stringify({
-    type: 'BidUpdate',
-    data: event,
-  })
-
-  clients.forEach((client) => {
-    if (client.auctionGroups.has(event.auctionId) && client.ws.readyState === WebSocket.OPEN) {
-      client.ws.send(message)
-    }
-  })
+  publish({ scope: 'groups', groups: [event.auctionId], type: 'BidUpdate', data: event })
 }
 
 export function broadcastAuctionEnded(event: AuctionEndedEvent): void {
-  const message = JSON.stringify({
-    type: 'AuctionEnded',
-    data: event,
-  })
+  publish({ scope: 'groups', groups: [event.auctionId], type: 'AuctionEnded', data: event })
+}
 
-  clients.forEach((client) => {
-    if (client.auctionGroups.has(event.auctionId) && client.ws.readyState === WebSocket.OPEN) {
-      client.ws.send(message)
-    }
+function eventGroup(eventId: string): string {
+  return `event:${eventId}`
+}
+
+function itemGroup(itemId: string): string {
+  return `item:${itemId}`
+}
+
+function broadcastToGroups(groups: string[], type: string, data: unknown): void {
+  publish({ scope: 'groups', groups, type, data })
+}
+
+/**
+ * Every broadcast goes through the backplane, even with a single instance,
+ * so delivery behaves the same however many replicas are running
+ */
+function publish(message: HubMessage): void {
+  backplane.publish(message).catch((error) => {
+    console.error(`[SignalR] Failed to publish ${message.type}:`, error instanceof Error ? error.message : error)
   })
 }
 
-export function broadcastToUser(userId: string, type: string, data: any): void {
-  // In production, you'd track user-to-client mappings
-  // For now, broadcast to all clients (they filter client-side)
-  const message = JSON.stringify({ type, data, targetUserId: userId })
+/**
+ * Deliver a backplane message to the matching sockets held by this instance
+ */
+function deliverLocally(message: HubMessage): void {
+  const payload = JSON.stringify({ type: message.type, data: message.data })
 
+  if (message.scope === 'user') {
+    userConnections.get(message.userId)?.forEach((clientId) => {
+      const client = clients.get(clientId)
+      if (client && client.ws.readyState === WebSocket.OPEN) {
+        client.ws.send(payload)
+      }
+    })
+    return
+  }
+
+  // A client in several of the groups still gets the message once
   clients.forEach((client) => {
-    if (client.ws.readyState === WebSocket.OPEN) {
-      client.ws.send(message)
+    if (client.ws.readyState !== WebSocket.OPEN) return
+    if (message.groups.some((group) => client.groups.has(group))) {
+      client.ws.send(payload)
     }
   })
 }
+
+/**
+ * A standard-auction item's price moved (including proxy responses and
+ * soft close extensions). Goes to the item's page and the event's catalog.
+ */
+export function broadcastItemBidUpdate(event: ItemBidUpdateEvent): void {
+  broadcastToGroups([eventGroup(event.eventId), itemGroup(event.itemId)], 'ItemBidUpdate', event)
+}
+
+/**
+ * A silent bid was placed or raised, so ranks may have changed. Bidders
+ * re-fetch their own status; nobody is told amounts.
+ */
+export function broadcastSilentBidUpdate(event: SilentBidUpdateEvent): void {
+  broadcastToGroups([eventGroup(event.eventId), itemGroup(event.itemId)], 'SilentBidUpdate', event)
+}
+
+export function broadcastItemSold(event: ItemSoldEvent): void {
+  broadcastToGroups([eventGroup(event.eventId), itemGroup(event.itemId)], 'ItemSold', event)
+}
+
+export function broadcastItemRemoved(event: ItemStatusEvent): void {
+  broadcastToGroups([eventGroup(event.eventId), itemGroup(event.itemId)], 'ItemRemoved', event)
+}
+
+/**
+ * A closing group closed and its items were settled
+ */
+export function broadcastItemsClosed(event: ItemsClosedEvent): void {
+  broadcastToGroups(
+    [eventGroup(event.eventId), ...event.itemIds.map(itemGroup)],
+    'ItemsClosed',
+    event
+  )
+}
+
+/**
+ * The whole event closed. Item pages only join their item's group, so the
+ * caller passes the event's item ids to reach them too.
+ */
+export function broadcastEventEnded(event: EventEndedEvent, itemIds: string[] = []): void {
+  broadcastToGroups([eventGroup(event.eventId), ...itemIds.map(itemGroup)], 'EventEnded', event)
+}
+
+/**
+ * A fund-a-need pledge was recorded or voided; carries the campaign's new total
+ */
+export function broadcastFundANeedUpdate(event: FundANeedUpdateEvent): void {
+  broadcastToGroups([eventGroup(event.eventId)], 'FundANeedUpdate', event)
+}
+
+/**
+ * Send a message to every socket the user has open (one per tab/device),
+ * on whichever instance holds them. Users who aren't connected simply miss
+ * it; everything sent this way is also persisted (e.g. user_notifications)
+ * for them to fetch later.
+ */
+export function broadcastToUser(userId: string, type: string, data: any): void {
+  publish({ scope: 'user', userId, type, data })
+}
@@ -0,0 +1,108 @@
+import { query as dbQuery, QueryFn } from '../config/database.js'
+
+// Anti-sniping soft close for standard auctions.
+// Each item closes at its own effective end time: its closing group's end_time
+// (or the event's, for ungrouped items) unless late bids have pushed
+// event_items.end_time past it.
+
+/**
+ * SQL expression for an item's effective end time.
+ * Expects aliases i (event_items), g (event_item_groups, LEFT JOINed on
+ * i.closing_group_id) and e (auction_events).
+ */
+export const ITEM_END_TIME_SQL =
+  'CASE WHEN i.end_time > COALESCE(g.end_time, e.end_time) THEN i.end_time ELSE COALESCE(g.end_time, e.end_time) END'
+
+export interface SoftCloseSettings {
+  enabled: boolean
+  windowMinutes: number
+  extensionMinutes: number
+}
+
+/**
+ * Read soft close settings off an auction_events row
+ */
+export function getSoftCloseSettings(event: {
+  soft_close_enabled?: boolean | number | null
+  soft_close_window_minutes?: number | null
+  soft_close_extension_minutes?: number | null
+}): SoftCloseSettings {
+  return {
+    enabled: !!event.soft_close_enabled,
+    windowMinutes: event.soft_close_window_minutes ?? 2,
+    extensionMinutes: event.soft_close_extension_minutes ?? 2,
+  }
+}
+
+/**
+ * The time an item actually stops taking bids.
+ * `scheduledEndTime` is the item's closing group end time, or the event's.
+ */
+export function getItemEndTime(itemEndTime: Date | string | null | undefined, scheduledEndTime: Date | string): Date {
+  const scheduledEnd = new Date(scheduledEndTime)
+  if (!itemEndTime) {
+    return scheduledEnd
+  }
+  const itemEnd = new Date(itemEndTime)
+  return itemEnd > scheduledEnd ? itemEnd : scheduledEnd
+}
+
+/**
+ * Work out the new end time for an item after a bid at `bidTime`.
+ * Returns null when the bid doesn't trigger an extension (soft close off,
+ * bid outside the closing window, or the item has already closed).
+ */
+export function calculateExtendedEndTime(
+  settings: SoftCloseSettings,
+  currentEnd: Date,
+  bidTime: Date
+): Date | null {
+  if (!settings.enabled || settings.extensionMinutes <= 0) {
+    return null
+  }
+
+  const remainingMs = currentEnd.getTime() - bidTime.getTime()
+  if (remainingMs <= 0 || remainingMs > settings.windowMinutes * 60 * 1000) {
+    return null
+  }
+
+  return new Date(currentEnd.getTime() + settings.extensionMinutes * 60 * 1000)
+}
+
+/**
+ * Push an item's end time back. Never moves it earlier, so concurrent
+ * extensions settle on the latest one. Pass the transaction's query when
+ * extending as part of placing a bid.
+ */
+export async function extendItemEndTime(
+  itemId: string,
+  newEndTime: Date,
+  runQuery: QueryFn = dbQuery
+): Promise<void> {
+  await runQuery(
+    `UPDATE event_items
+     SET end_time = @newEndTime, updated_at = GETUTCDATE()
+     WHERE id = @itemId AND (end_time IS NULL OR end_time < @newEndTime)`,
+    { itemId, newEndTime }
+  )
+}
+
+/**
+ * Count an event's active items that are still open for bidding at `now`,
+ * optionally limited to one closing group
+ */
+export async function countOpenItems(eventId: string, now: Date, groupId?: string): Promise<number> {
+  const result = await dbQuery(
+    `SELECT COUNT(*) as open_count
+     FROM event_items i
+     INNER JOIN auction_events e ON i.event_id = e.id
+     LEFT JOIN event_item_groups g ON i.closing_group_id = g.id
+     WHERE i.event_id = @eventId
+       AND i.status = 'active'
+       ${groupId ? 'AND i.closing_group_id = @groupId' : ''}
+       AND ${ITEM_END_TIME_SQL} > @now`,
+    { eventId, now, groupId: groupId || null }
+  )
+
+  return result.recordset[0]?.open_count || 0
+}
@@ -1,25 +1,290 @@
-import { BlobServiceClient, ContainerClient } from '@azure/storage-blob'
+import { BlobServiceClient, BlobSASPermissions, ContainerClient } from '@azure/storage-blob'
 import { v4 as uuidv4 } from 'uuid'
+import crypto from 'crypto'
+import { promises as fs } from 'fs'
 import path from 'path'
 
-let containerClient: ContainerClient | null = null
+// Object storage for uploaded images.
+// Everything goes through a StorageProvider: Azure Blob Storage in deployed
+// environments, or a directory on local disk (served by the API under
+// /uploads) for local development and tests, so uploads work offline.
 
-function getContainerClient(): ContainerClient {
-  if (containerClient) {
-    return containerClient
+export interface StoredObject {
+  data: Buffer
+  contentType: string
+}
+
+export interface StorageProvider {
+  readonly name: 'azure' | 'local'
+  // Store an object and return its public URL
+  put(key: string, data: Buffer, contentType: string): Promise<string>
+  get(key: string): Promise<StoredObject | null>
+  delete(key: string): Promise<void>
+  list(prefix: string): Promise<string[]>
+  // Time-limited read URL
+  getSignedUrl(key: string, expiresInMinutes: number): Promise<string>
+  // Object key for a URL this provider returned, null for anything else
+  keyFromUrl(url: string): string | null
+}
+
+const contentTypes: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+}
+
+/**
+ * Azure Blob Storage. The container is created on first write with public
+ * read access for blobs.
+ */
+export class AzureBlobStorageProvider implements StorageProvider {
+  readonly name = 'azure' as const
+  private container: ContainerClient
+  private containerReady: Promise<unknown> | null = null
+
+  constructor(connectionString: string, containerName: string) {
+    const blobServiceClient = BlobServiceClient.fromConnectionString(connectionString)
+    this.container = blobServiceClient.getContainerClient(containerName)
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<string> {
+    if (!this.containerReady) {
+      this.containerReady = this.container.createIfNotExists({ access: 'blob' })
+        .catch((error) => {
+          this.containerReady = null
+          throw error
+        })
+    }
+    await this.containerReady
+
+    const blockBlobClient = this.container.getBlockBlobClient(key)
+    await blockBlobClient.uploadData(data, {
+      blobHTTPHeaders: { blobContentType: contentType },
+    })
+
+    return blockBlobClient.url
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    const blockBlobClient = this.container.getBlockBlobClient(key)
+    if (!(await blockBlobClient.exists())) {
+      return null
+    }
+
+    const properties = await blockBlobClient.getProperties()
+    return {
+      data: await blockBlobClient.downloadToBuffer(),
+      contentType: properties.contentType || 'application/octet-stream',
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.container.getBlockBlobClient(key).deleteIfExists()
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = []
+    for await (const blob of this.container.listBlobsFlat({ prefix })) {
+      keys.push(blob.name)
+    }
+    return keys
+  }
+
+  async getSignedUrl(key: string, expiresInMinutes: number): Promise<string> {
+    return this.container.getBlockBlobClient(key).generateSasUrl({
+      permissions: BlobSASPermissions.parse('r'),
+      expiresOn: new Date(Date.now() + expiresInMinutes * 60 * 1000),
+    })
+  }
+
+  keyFromUrl(url: string): string | null {
+    const prefix = `${this.container.url}/`
+    if (!url.startsWith(prefix)) {
+      return null
+    }
+    return decodeURIComponent(new URL(url).pathname.split('/').slice(2).join('/'))
+  }
+}
+
+/**
+ * Files under a local directory, served by the API (see routes/uploads.ts).
+ * Like the Azure container, objects are publicly readable; signed URLs
+ * additionally carry an expiry and an HMAC signature that the route checks.
+ */
+export class LocalDiskStorageProvider implements StorageProvider {
+  readonly name = 'local' as const
+
+  constructor(
+    private rootDir: string,
+    private baseUrl: string,
+    private signingSecret: string
+  ) {
+    if (!signingSecret) {
+      throw new Error('Local storage needs a signing secret for its signed URLs')
+    }
+    this.baseUrl = baseUrl.replace(/\/+$/, '')
+  }
+
+  /**
+   * Resolve a key to a path inside the root directory, rejecting anything
+   * that would escape it
+   */
+  private resolvePath(key: string): string {
+    const segments = key.split('/')
+    if (!key || key.startsWith('/') || segments.some((s) => s === '' || s === '.' || s === '..' || s.includes('\\'))) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    return path.join(this.rootDir, ...segments)
+  }
+
+  private urlFor(key: string): string {
+    return `${this.baseUrl}/${key.split('/').map(encodeURIComponent).join('/')}`
+  }
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<string> {
+    const filePath = this.resolvePath(key)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, data)
+    return this.urlFor(key)
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    try {
+      const data = await fs.readFile(this.resolvePath(key))
+      return {
+        data,
+        contentType: contentTypes[path.extname(key).toLowerCase()] || 'application/octet-stream',
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolvePath(key), { force: true })
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = []
+
+    const walk = async (dir: string, keyPrefix: string): Promise<void> => {
+      let entries
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true })
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return
+        throw error
+      }
+      for (const entry of entries) {
+        const key = `${keyPrefix}${entry.name}`
+        if (entry.isDirectory()) {
+          await walk(path.join(dir, entry.name), `${key}/`)
+        } else if (key.startsWith(prefix)) {
+          keys.push(key)
+        }
+      }
+    }
+
+    await walk(this.rootDir, '')
+    return keys.sort()
   }
 
+  private sign(key: string, expires: number): string {
+    return crypto.createHmac('sha256', this.signingSecret).update(`${key}:${expires}`).digest('hex')
+  }
+
+  async getSignedUrl(key: string, expiresInMinutes: number): Promise<string> {
+    this.resolvePath(key)
+    const expires = Date.now() + expiresInMinutes * 60 * 1000
+    return `${this.urlFor(key)}?expires=${expires}&signature=${this.sign(key, expires)}`
+  }
+
+  /**
+   * Check the expiry and signature from a signed URL's query string
+   */
+  verifySignature(key: string, expires: string, signature: string): boolean {
+    const expiresAt = parseInt(expires, 10)
+    if (!expiresAt || expiresAt < Date.now()) {
+      return false
+    }
+    const expected = Buffer.from(this.sign(key, expiresAt))
+    const actual = Buffer.from(signature)
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+  }
+
+  keyFromUrl(url: string): string | null {
+    const prefix = `${this.baseUrl}/`
+    if (!url.startsWith(prefix)) {
+      return null
+    }
+    return url.slice(prefix.length).split('?')[0].split('/').map(decodeURIComponent).join('/')
+  }
+}
+
+/**
+ * Pick the provider from configuration: STORAGE_PROVIDER=azure|local, or
+ * Azure when AZURE_STORAGE_CONNECTION_STRING is set. Outside production an
+ * unconfigured API uses local disk; in production local disk must be chosen
+ * explicitly, so a missing connection string can't quietly put uploads on
+ * an instance's own disk.
+ */
+export function createStorageProvider(): StorageProvider {
   const connectionString = process.env.AZURE_STORAGE_CONNECTION_STRING
-  if (!connectionString) {
-    throw new Error('Azure Storage connection string not configured')
+  let providerName = process.env.STORAGE_PROVIDER || (connectionString ? 'azure' : null)
+
+  if (!providerName) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('Storage not configured: set AZURE_STORAGE_CONNECTION_STRING, or STORAGE_PROVIDER=local')
+    }
+    providerName = 'local'
+  }
+
+  if (providerName === 'azure') {
+    if (!connectionString) {
+      throw new Error('Azure Storage connection string not configured')
+    }
+    return new AzureBlobStorageProvider(connectionString, process.env.AZURE_STORAGE_CONTAINER || 'auction-images')
+  }
+
+  if (providerName !== 'local') {
+    throw new Error(`Unknown STORAGE_PROVIDER "${providerName}" (use azure or local)`)
   }
 
-  const blobServiceClient = BlobServiceClient.fromConnectionString(connectionString)
-  containerClient = blobServiceClient.getContainerClient(
-    process.env.AZURE_STORAGE_CONTAINER || 'auction-images'
+  // Signed URLs only need to outlive the process in production
+  let signingSecret = process.env.LOCAL_STORAGE_SIGNING_SECRET
+  if (!signingSecret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('LOCAL_STORAGE_SIGNING_SECRET must be set to use local storage in production')
+    }
+    console.warn('LOCAL_STORAGE_SIGNING_SECRET is not set; signed upload URLs will stop working when the API restarts')
+    signingSecret = crypto.randomBytes(32).toString('hex')
+  }
+
+  return new LocalDiskStorageProvider(
+    path.resolve(process.env.LOCAL_STORAGE_DIR || 'uploads'),
+    process.env.LOCAL_STORAGE_BASE_URL || `http://localhost:${process.env.PORT || 4000}/uploads`,
+    signingSecret
   )
+}
+
+let storageProvider: StorageProvider | null = null
+
+export function getStorageProvider(): StorageProvider {
+  if (!storageProvider) {
+    storageProvider = createStorageProvider()
+    console.log(`Storage: Using ${storageProvider.name} provider`)
+  }
+  return storageProvider
+}
 
-  return containerClient
+// Swap the provider (tests)
+export function setStorageProvider(provider: StorageProvider | null): void {
+  storageProvider = provider
 }
 
 export async function uploadImage(
@@ -27,15 +292,6 @@ export async function uploadImage(
   originalFilename: string,
   auctionId: string
 ): Promise<string> {
-  console.log('Storage: Getting container client')
-  const container = getContainerClient()
-
-  // Ensure container exists
-  console.log('Storage: Ensuring container exists')
-  await container.createIfNotExists({
-    access: 'blob', // Public read access for blobs
-  })
-
   // Generate unique filename
   const ext = path.extname(originalFilename).toLowerCase()
   const allowedExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.webp']
@@ -46,41 +302,27 @@ export async function uploadImage(
 
   const blobName = `${auctionId}/${uuidv4()}${ext}`
   console.log('Storage: Uploading blob:', blobName)
-  const blockBlobClient = container.getBlockBlobClient(blobName)
-
-  // Determine content type
-  const contentTypes: Record<string, string> = {
-    '.jpg': 'image/jpeg',
-    '.jpeg': 'image/jpeg',
-    '.png': 'image/png',
-    '.gif': 'image/gif',
-    '.webp': 'image/webp',
-  }
 
   try {
-    await blockBlobClient.uploadData(buffer, {
-      blobHTTPHeaders: {
-        blobContentType: contentTypes[ext] || 'application/octet-stream',
-      },
-    })
+    const url = await getStorageProvider().put(blobName, buffer, contentTypes[ext] || 'application/octet-stream')
     console.log('Storage: Upload successful')
+    return url
   } catch (error) {
     console.error('Storage: Upload failed:', error)
     throw error
   }
-
-  return blockBlobClient.url
 }
 
 export async function deleteImage(blobUrl: string): Promise<void> {
-  const container = getContainerClient()
+  const provider = getStorageProvider()
 
-  // Extract blob name from URL
-  const url = new URL(blobUrl)
-  const blobName = url.pathname.split('/').slice(2).join('/')
+  const blobName = provider.keyFromUrl(blobUrl)
+  if (!blobName) {
+    console.warn(`Storage: Not deleting ${blobUrl}, it is not stored by the ${provider.name} provider`)
+    return
+  }
 
-  const blockBlobClient = container.getBlockBlobClient(blobName)
-  await blockBlobClient.deleteIfExists()
+  await provider.delete(blobName)
 }
 
 // Alias for backwards compatibility
@@ -92,30 +334,14 @@ export async function uploadToBlob(
   blobName: string,
   contentType: string
 ): Promise<string> {
-  const container = getContainerClient()
-
-  // Ensure container exists
-  await container.createIfNotExists({
-    access: 'blob',
-  })
-
-  const blockBlobClient = container.getBlockBlobClient(blobName)
-
-  await blockBlobClient.uploadData(buffer, {
-    blobHTTPHeaders: {
-      blobContentType: contentType,
-    },
-  })
-
-  return blockBlobClient.url
+  return getStorageProvider().put(blobName, buffer, contentType)
 }
 
 export async function deleteAuctionImages(auctionId: string): Promise<void> {
-  const container = getContainerClient()
-  
+  const provider = getStorageProvider()
+
   // List and delete all blobs with the auction ID prefix
-  for await (const blob of container.listBlobsFlat({ prefix: `${auctionId}/` })) {
-    const blockBlobClient = container.getBlockBlobClient(blob.name)
-    await blockBlobClient.deleteIfExists()
+  for (const key of await provider.list(`${auctionId}/`)) {
+    await provider.delete(key)
   }
 }
@@ -49,6 +49,27 @@ export async function createCustomer(
   })
 }
 
+// Save a card to the customer for charging later, when they aren't present
+export async function createSetupIntent(
+  customerId: string,
+  metadata?: Record<string, string>
+): Promise<Stripe.SetupIntent> {
+  return stripe.setupIntents.create({
+    customer: customerId,
+    usage: 'off_session',
+    payment_method_types: ['card'],
+    metadata,
+  })
+}
+
+export async function getSetupIntent(
+  setupIntentId: string
+): Promise<Stripe.SetupIntent> {
+  return stripe.setupIntents.retrieve(setupIntentId, {
+    expand: ['payment_method'],
+  })
+}
+
 export async function createRefund(
   chargeId: string,
   amount?: number
@@ -0,0 +1,502 @@
+import { query as dbQuery } from '../config/database.js'
+import { notFound } from '../middleware/errorHandler.js'
+import { sendTaxReceiptEmail } from './email.js'
+import { renderPdf, PdfLine, PDF_TEXT_WIDTH } from './pdf.js'
+
+// Tax receipts for payments made through the platform. A buyer at a charity
+// auction can deduct only what they paid above the fair market value of what
+// they received, and the IRS requires the organization to disclose that value
+// in writing for any such payment over $75. Every payment gets a numbered
+// receipt (stored, emailed as a PDF and downloadable from My Wins); donors can
+// also download a statement of all their receipts for a year.
+//
+// Raffle tickets are not deductible and never appear on receipts.
+
+export const QUID_PRO_QUO_THRESHOLD = 75
+
+// What a payment covered, as recorded by the payment webhooks
+export type ReceiptSource =
+  | { type: 'item'; itemId: string; awardIds: string[] }
+  | { type: 'pledge'; pledgeId: string }
+
+export interface ReceiptLine {
+  type: 'item' | 'pledge'
+  description: string
+  amountPaid: number
+  fairMarketValue: number
+  deductibleAmount: number
+}
+
+export interface ReceiptOrganization {
+  name: string
+  ein: string | null
+  address: string[]
+}
+
+export interface TaxReceiptSummary {
+  id: string
+  receiptNumber: number
+  eventId: string
+  eventName: string
+  organization: ReceiptOrganization
+  donorName: string
+  amountPaid: number
+  fairMarketValue: number
+  deductibleAmount: number
+  issuedAt: Date
+  emailedAt: Date | null
+}
+
+export interface TaxReceipt extends TaxReceiptSummary {
+  lines: ReceiptLine[]
+}
+
+export interface GivingStatement {
+  year: number
+  donorName: string
+  receipts: TaxReceiptSummary[]
+  totalPaid: number
+  totalFairMarketValue: number
+  totalDeductible: number
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100
+
+const formatCurrency = (amount: number) =>
+  `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const formatDate = (date: Date) =>
+  new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' })
+
+/**
+ * The deductible portion of a payment: whatever was paid above the fair
+ * market value received. Items with no fair market value recorded are taken
+ * to be worth what was paid for them, so nothing is claimed as deductible.
+ */
+export function calculateDeductible(amountPaid: number, fairMarketValue: number | null): {
+  fairMarketValue: number
+  deductibleAmount: number
+} {
+  const value = roundCents(fairMarketValue ?? amountPaid)
+  return {
+    fairMarketValue: value,
+    deductibleAmount: Math.max(0, roundCents(amountPaid - value)),
+  }
+}
+
+async function getReceiptLines(userId: string, sources: ReceiptSource[]): Promise<{
+  eventId: string | null
+  lines: ReceiptLine[]
+}> {
+  let eventId: string | null = null
+  const lines: ReceiptLine[] = []
+
+  for (const source of sources) {
+    if (source.type === 'item') {
+      // Intents from before awards existed cover all of the user's awards on the item
+      const result = await dbQuery(
+        `SELECT w.amount, w.quantity, i.title, i.fair_market_value, i.event_id
+         FROM event_item_winners w
+         INNER JOIN event_items i ON w.item_id = i.id
+         WHERE w.item_id = @itemId AND w.winner_id = @userId
+           ${source.awardIds.length > 0 ? `AND w.id IN (${source.awardIds.map((_, idx) => `@winId${idx}`).join(',')})` : ''}`,
+        source.awardIds.reduce(
+          (acc: Record<string, string>, id, idx) => ({ ...acc, [`winId${idx}`]: id }),
+          { itemId: source.itemId, userId }
+        )
+      )
+
+      for (const row of result.recordset) {
+        const quantity = row.quantity ?? 1
+        const amountPaid = roundCents(parseFloat(row.amount) * quantity)
+        const fairMarketValue = row.fair_market_value !== null && row.fair_market_value !== undefined
+          ? parseFloat(row.fair_market_value) * quantity
+          : null
+
+        eventId = eventId ?? row.event_id
+        lines.push({
+          type: 'item',
+          description: quantity > 1 ? `${row.title} (x${quantity})` : row.title,
+          amountPaid,
+          ...calculateDeductible(amountPaid, fairMarketValue),
+        })
+      }
+    } else {
+      const result = await dbQuery(
+        `SELECT p.amount, p.event_id, c.title
+         FROM fund_a_need_pledges p
+         INNER JOIN fund_a_need_campaigns c ON p.campaign_id = c.id
+         WHERE p.id = @pledgeId AND p.donor_id = @userId`,
+        { pledgeId: source.pledgeId, userId }
+      )
+
+      for (const row of result.recordset) {
+        const amountPaid = parseFloat(row.amount)
+
+        // Nothing is given in return for a pledge, so all of it is deductible
+        eventId = eventId ?? row.event_id
+        lines.push({
+          type: 'pledge',
+          description: `Donation: ${row.title}`,
+          amountPaid,
+          ...calculateDeductible(amountPaid, 0),
+        })
+      }
+    }
+  }
+
+  return { eventId, lines }
+}
+
+function mapOrganization(row: any): ReceiptOrganization {
+  const cityLine = [row.org_city, [row.org_state, row.org_postal_code].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ')
+
+  return {
+    name: row.organization_name,
+    ein: row.organization_tax_id || null,
+    address: [row.org_address_line1, row.org_address_line2, cityLine].filter(Boolean),
+  }
+}
+
+function mapReceipt(row: any): TaxReceiptSummary {
+  return {
+    id: row.id,
+    receiptNumber: row.receipt_number,
+    eventId: row.event_id,
+    eventName: row.event_name,
+    organization: mapOrganization(row),
+    donorName: row.donor_name,
+    amountPaid: parseFloat(row.amount_paid),
+    fairMarketValue: parseFloat(row.fair_market_value),
+    deductibleAmount: parseFloat(row.deductible_amount),
+    issuedAt: row.created_at,
+    emailedAt: row.emailed_at,
+  }
+}
+
+const RECEIPT_SELECT = `
+  SELECT r.*, e.name as event_name, u.display_name as donor_name,
+         o.name as organization_name, o.tax_id as organization_tax_id,
+         o.address_line1 as org_address_line1, o.address_line2 as org_address_line2,
+         o.city as org_city, o.state as org_state, o.postal_code as org_postal_code
+  FROM donation_receipts r
+  INNER JOIN auction_events e ON r.event_id = e.id
+  INNER JOIN users u ON r.user_id = u.id
+  INNER JOIN organizations o ON r.organization_id = o.id`
+
+/**
+ * Issue the receipt for a completed payment and email it to the payer.
+ * Payments to events without an organization, and payments only for raffle
+ * tickets, get no receipt. Safe to call again for the same payment.
+ */
+export async function issueTaxReceipt(
+  paymentIntentId: string,
+  userId: string,
+  sources: ReceiptSource[]
+): Promise<TaxReceipt | null> {
+  const existing = await dbQuery(
+    'SELECT id FROM donation_receipts WHERE stripe_payment_intent_id = @paymentIntentId',
+    { paymentIntentId }
+  )
+  if (existing.recordset.length > 0) {
+    return null
+  }
+
+  const { eventId, lines } = await getReceiptLines(userId, sources)
+  if (!eventId || lines.length === 0) {
+    return null
+  }
+
+  const eventResult = await dbQuery(
+    'SELECT organization_id FROM auction_events WHERE id = @eventId',
+    { eventId }
+  )
+  const organizationId = eventResult.recordset[0]?.organization_id
+  if (!organizationId) {
+    return null
+  }
+
+  const totals = lines.reduce(
+    (acc, line) => ({
+      amountPaid: roundCents(acc.amountPaid + line.amountPaid),
+      fairMarketValue: roundCents(acc.fairMarketValue + line.fairMarketValue),
+      deductibleAmount: roundCents(acc.deductibleAmount + line.deductibleAmount),
+    }),
+    { amountPaid: 0, fairMarketValue: 0, deductibleAmount: 0 }
+  )
+
+  const inserted = await dbQuery(
+    `INSERT INTO donation_receipts (
+      user_id, event_id, organization_id, stripe_payment_intent_id,
+      amount_paid, fair_market_value, deductible_amount
+     ) OUTPUT INSERTED.id
+     VALUES (
+      @userId, @eventId, @organizationId, @paymentIntentId,
+      @amountPaid, @fairMarketValue, @deductibleAmount
+     )`,
+    { userId, eventId, organizationId, paymentIntentId, ...totals }
+  )
+  const receiptId = inserted.recordset[0].id
+
+  for (const line of lines) {
+    await dbQuery(
+      `INSERT INTO donation_receipt_lines (
+        receipt_id, line_type, description, amount_paid, fair_market_value, deductible_amount
+       ) VALUES (
+        @receiptId, @lineType, @description, @amountPaid, @fairMarketValue, @deductibleAmount
+       )`,
+      {
+        receiptId,
+        lineType: line.type,
+        description: line.description.slice(0, 500),
+        amountPaid: line.amountPaid,
+        fairMarketValue: line.fairMarketValue,
+        deductibleAmount: line.deductibleAmount,
+      }
+    )
+  }
+
+  const receipt = await getTaxReceipt(receiptId, userId)
+  await emailTaxReceipt(receipt)
+
+  return receipt
+}
+
+async function emailTaxReceipt(receipt: TaxReceipt): Promise<void> {
+  const result = await dbQuery(
+    `SELECT u.email, o.contact_email
+     FROM donation_receipts r
+     INNER JOIN users u ON r.user_id = u.id
+     INNER JOIN organizations o ON r.organization_id = o.id
+     WHERE r.id = @receiptId`,
+    { receiptId: receipt.id }
+  )
+  const contact = result.recordset[0]
+  if (!contact?.email) {
+    return
+  }
+
+  const sent = await sendTaxReceiptEmail({
+    recipientEmail: contact.email,
+    recipientName: receipt.donorName,
+    receiptNumber: receipt.receiptNumber,
+    eventName: receipt.eventName,
+    organizationName: receipt.organization.name,
+    organizationEmail: contact.contact_email || undefined,
+    amountPaid: receipt.amountPaid,
+    fairMarketValue: receipt.fairMarketValue,
+    deductibleAmount: receipt.deductibleAmount,
+    pdf: renderTaxReceiptPdf(receipt),
+  })
+
+  if (sent) {
+    await dbQuery(
+      'UPDATE donation_receipts SET emailed_at = GETUTCDATE() WHERE id = @receiptId',
+      { receiptId: receipt.id }
+    )
+  }
+}
+
+/**
+ * A user's receipt, with its lines
+ */
+export async function getTaxReceipt(receiptId: string, userId: string): Promise<TaxReceipt> {
+  const result = await dbQuery(
+    `${RECEIPT_SELECT}
+     WHERE r.id = @receiptId AND r.user_id = @userId`,
+    { receiptId, userId }
+  )
+
+  if (result.recordset.length === 0) {
+    throw notFound('Receipt not found')
+  }
+
+  const linesResult = await dbQuery(
+    'SELECT * FROM donation_receipt_lines WHERE receipt_id = @receiptId ORDER BY line_type, description',
+    { receiptId }
+  )
+
+  return {
+    ...mapReceipt(result.recordset[0]),
+    lines: linesResult.recordset.map((line: any) => ({
+      type: line.line_type,
+      description: line.description,
+      amountPaid: parseFloat(line.amount_paid),
+      fairMarketValue: parseFloat(line.fair_market_value),
+      deductibleAmount: parseFloat(line.deductible_amount),
+    })),
+  }
+}
+
+/**
+ * A user's receipts, newest first (without their lines)
+ */
+export async function getMyTaxReceipts(userId: string): Promise<TaxReceiptSummary[]> {
+  const result = await dbQuery(
+    `${RECEIPT_SELECT}
+     WHERE r.user_id = @userId
+     ORDER BY r.created_at DESC`,
+    { userId }
+  )
+
+  return result.recordset.map(mapReceipt)
+}
+
+/**
+ * Everything a donor paid across events in a calendar year (UTC)
+ */
+export async function getGivingStatement(userId: string, year: number): Promise<GivingStatement> {
+  const result = await dbQuery(
+    `${RECEIPT_SELECT}
+     WHERE r.user_id = @userId AND r.created_at >= @yearStart AND r.created_at < @yearEnd
+     ORDER BY r.created_at`,
+    {
+      userId,
+      yearStart: new Date(Date.UTC(year, 0, 1)),
+      yearEnd: new Date(Date.UTC(year + 1, 0, 1)),
+    }
+  )
+
+  const receipts: TaxReceiptSummary[] = result.recordset.map(mapReceipt)
+
+  let donorName = receipts[0]?.donorName
+  if (!donorName) {
+    const userResult = await dbQuery('SELECT display_name FROM users WHERE id = @userId', { userId })
+    donorName = userResult.recordset[0]?.display_name ?? ''
+  }
+
+  return {
+    year,
+    donorName,
+    receipts,
+    totalPaid: roundCents(receipts.reduce((sum, r) => sum + r.amountPaid, 0)),
+    totalFairMarketValue: roundCents(receipts.reduce((sum, r) => sum + r.fairMarketValue, 0)),
+    totalDeductible: roundCents(receipts.reduce((sum, r) => sum + r.deductibleAmount, 0)),
+  }
+}
+
+// Amount columns on receipts and statements, by right edge
+const AMOUNT_COLUMNS = [PDF_TEXT_WIDTH - 200, PDF_TEXT_WIDTH - 100, PDF_TEXT_WIDTH]
+const DESCRIPTION_WIDTH = PDF_TEXT_WIDTH - 280
+
+function amountRow(text: string, amounts: number[] | string[], bold = false): PdfLine {
+  return {
+    text,
+    bold,
+    width: DESCRIPTION_WIDTH,
+    columns: amounts.map((amount, index) => ({
+      text: typeof amount === 'number' ? formatCurrency(amount) : amount,
+      right: AMOUNT_COLUMNS[index],
+    })),
+  }
+}
+
+/**
+ * The written acknowledgment for a receipt: what the organization received,
+ * the value of what it gave in return and the resulting deductible amount
+ */
+export function getReceiptLegalText(receipt: Pick<TaxReceipt, 'organization' | 'amountPaid' | 'fairMarketValue' | 'deductibleAmount'>): string[] {
+  const { organization, amountPaid, fairMarketValue, deductibleAmount } = receipt
+  const paragraphs: string[] = []
+
+  if (fairMarketValue <= 0) {
+    paragraphs.push(
+      `No goods or services were provided by ${organization.name} in exchange for this contribution of ${formatCurrency(amountPaid)}.`
+    )
+  } else {
+    paragraphs.push(
+      `In exchange for your payment of ${formatCurrency(amountPaid)}, ${organization.name} provided goods or services ` +
+      `with an estimated fair market value of ${formatCurrency(fairMarketValue)}. The amount of your contribution that is ` +
+      `deductible for federal income tax purposes is limited to the excess of the amount paid over that value: ` +
+      `${formatCurrency(deductibleAmount)}.`
+    )
+    if (amountPaid > QUID_PRO_QUO_THRESHOLD) {
+      paragraphs.push(
+        `This receipt is the written disclosure required by Section 6115 of the Internal Revenue Code for ` +
+        `payments over ${formatCurrency(QUID_PRO_QUO_THRESHOLD)} made partly as a contribution and partly for goods or services.`
+      )
+    }
+  }
+
+  const issuer = organization.ein ? `${organization.name} (EIN ${organization.ein})` : organization.name
+  paragraphs.push(
+    `${issuer} issues this receipt as written acknowledgment of your contribution. ` +
+    'Please keep it for your tax records and consult a tax advisor about your deduction.'
+  )
+
+  return paragraphs
+}
+
+function organizationHeader(organization: ReceiptOrganization): PdfLine[] {
+  return [
+    { text: organization.name, size: 16, bold: true },
+    ...organization.address.map((text) => ({ text })),
+    { text: organization.ein ? `EIN: ${organization.ein}` : 'EIN: not provided' },
+  ]
+}
+
+/**
+ * A receipt as a PDF
+ */
+export function renderTaxReceiptPdf(receipt: TaxReceipt): Buffer {
+  return renderPdf([
+    ...organizationHeader(receipt.organization),
+    { text: `Donation Receipt #${receipt.receiptNumber}`, size: 13, bold: true, spaceBefore: 18 },
+    { text: `Date: ${formatDate(receipt.issuedAt)}` },
+    { text: `Received from: ${receipt.donorName}` },
+    { text: `Event: ${receipt.eventName}` },
+    { ...amountRow('Description', ['Amount Paid', 'Fair Market Value', 'Deductible'], true), spaceBefore: 14 },
+    ...receipt.lines.map((line) =>
+      amountRow(line.description, [line.amountPaid, line.fairMarketValue, line.deductibleAmount])
+    ),
+    {
+      ...amountRow('Total', [receipt.amountPaid, receipt.fairMarketValue, receipt.deductibleAmount], true),
+      spaceBefore: 6,
+    },
+    ...getReceiptLegalText(receipt).map((text, index) => ({ text, size: 9, spaceBefore: index === 0 ? 18 : 6 })),
+  ])
+}
+
+/**
+ * A year-end giving statement as a PDF
+ */
+export function renderGivingStatementPdf(statement: GivingStatement): Buffer {
+  return renderPdf([
+    { text: `${statement.year} Giving Statement`, size: 16, bold: true },
+    { text: `Prepared for: ${statement.donorName}` },
+    { text: `Issued: ${formatDate(new Date())}` },
+    { ...amountRow('Receipt', ['Amount Paid', 'Fair Market Value', 'Deductible'], true), spaceBefore: 14 },
+    ...statement.receipts.flatMap((receipt) => [
+      {
+        ...amountRow(
+          `#${receipt.receiptNumber} - ${formatDate(receipt.issuedAt)} - ${receipt.eventName}`,
+          [receipt.amountPaid, receipt.fairMarketValue, receipt.deductibleAmount]
+        ),
+        spaceBefore: 4,
+      },
+      {
+        text: receipt.organization.ein
+          ? `${receipt.organization.name} (EIN ${receipt.organization.ein})`
+          : receipt.organization.name,
+        size: 8,
+        width: DESCRIPTION_WIDTH,
+      },
+    ]),
+    ...(statement.receipts.length === 0
+      ? [{ text: `No payments were made in ${statement.year}.`, spaceBefore: 4 }]
+      : []),
+    {
+      ...amountRow('Total', [statement.totalPaid, statement.totalFairMarketValue, statement.totalDeductible], true),
+      spaceBefore: 8,
+    },
+    {
+      text: 'This statement summarizes the receipts issued to you during the year by each organization listed. ' +
+        'Only the amount paid above the fair market value of goods or services received is deductible; the ' +
+        'individual receipts are your written acknowledgments. Please consult a tax advisor about your deduction.',
+      size: 9,
+      spaceBefore: 18,
+    },
+  ])
+}
@@ -0,0 +1,108 @@
+import { query as dbQuery } from '../config/database.js'
+import { ITEM_END_TIME_SQL } from './softClose.js'
+import {
+  notifyWatchedItemClosingSoon,
+  notifyWatchedItemFirstBid,
+  notifyWatchedItemBuyNowReached,
+} from './notifications.js'
+
+// Alerts for bidders watching event items.
+// Each alert is claimed by stamping its *_notified_at column in the same
+// UPDATE that selects the watchers, so it goes out at most once per watcher
+// even when several instances run the lifecycle or take bids.
+
+// Watchers are alerted when bidding on an item closes within this many minutes
+export const WATCHLIST_CLOSING_SOON_MINUTES = 15
+
+interface WatchedItem {
+  id: string
+  event_id: string
+  title: string
+}
+
+/**
+ * Alert watchers of an event's active items that close within the
+ * closing-soon window. Returns the number of alerts sent.
+ */
+export async function sendClosingSoonAlerts(eventId: string, now: Date): Promise<number> {
+  const closingBy = new Date(now.getTime() + WATCHLIST_CLOSING_SOON_MINUTES * 60 * 1000)
+
+  const result = await dbQuery(
+    `UPDATE w
+     SET closing_soon_notified_at = GETUTCDATE()
+     OUTPUT INSERTED.user_id, i.id, i.title, i.event_id, ${ITEM_END_TIME_SQL} as ends_at
+     FROM event_item_watchlist w
+     INNER JOIN event_items i ON i.id = w.item_id
+     LEFT JOIN event_item_groups g ON g.id = i.closing_group_id
+     INNER JOIN auction_events e ON e.id = i.event_id
+     WHERE i.event_id = @eventId
+       AND i.status = 'active'
+       AND w.closing_soon_notified_at IS NULL
+       AND ${ITEM_END_TIME_SQL} > @now
+       AND ${ITEM_END_TIME_SQL} <= @closingBy`,
+    { eventId, now, closingBy }
+  )
+
+  let sent = 0
+  for (const row of result.recordset as (WatchedItem & { user_id: string; ends_at: Date })[]) {
+    const minutesLeft = Math.max(1, Math.ceil((new Date(row.ends_at).getTime() - now.getTime()) / 60000))
+    try {
+      await notifyWatchedItemClosingSoon(row.user_id, row.title, minutesLeft, row.event_id, row.id)
+      sent++
+    } catch (error) {
+      console.error(`[Watchlist] Failed to send closing soon alert for item ${row.id}:`, error)
+    }
+  }
+
+  return sent
+}
+
+/**
+ * Claim one alert on an item for every watcher who hasn't had it yet,
+ * skipping the bidder who triggered it
+ */
+async function claimWatchers(
+  itemId: string,
+  column: 'first_bid_notified_at' | 'buy_now_notified_at',
+  bidderId: string
+): Promise<string[]> {
+  const result = await dbQuery(
+    `UPDATE event_item_watchlist
+     SET ${column} = GETUTCDATE()
+     OUTPUT INSERTED.user_id
+     WHERE item_id = @itemId AND ${column} IS NULL AND user_id <> @bidderId`,
+    { itemId, bidderId }
+  )
+
+  return result.recordset.map((row: { user_id: string }) => row.user_id)
+}
+
+/**
+ * Tell watchers an item just received its first bid
+ */
+export async function alertWatchersOfFirstBid(item: WatchedItem, bidderId: string): Promise<number> {
+  const watchers = await claimWatchers(item.id, 'first_bid_notified_at', bidderId)
+
+  for (const userId of watchers) {
+    await notifyWatchedItemFirstBid(userId, item.title, item.event_id, item.id)
+  }
+
+  return watchers.length
+}
+
+/**
+ * Tell watchers bidding on an item has reached its buy-now price
+ */
+export async function alertWatchersOfBuyNowReached(
+  item: WatchedItem,
+  buyNowPrice: number,
+  bidderId: string
+): Promise<number> {
+  const watchers = await claimWatchers(item.id, 'buy_now_notified_at', bidderId)
+
+  for (const userId of watchers) {
+    await notifyWatchedItemBuyNowReached(userId, item.title, buyNowPrice, item.event_id, item.id)
+  }
+
+  return watchers.length
+}
@@ -0,0 +1,97 @@
+import { ZIP_CENTROID_DATA } from '../data/zipCentroids.js'
+import { badRequest } from '../middleware/errorHandler.js'
+
+// Offline ZIP code lookups for location searches. Distances are straight-line
+// miles between ZIP centroids, which is close enough for "within 25 miles".
+
+export interface ZipCentroid {
+  latitude: number
+  longitude: number
+}
+
+// "Near" searches default to this radius, and allow up to the maximum
+export const DEFAULT_SEARCH_RADIUS_MILES = 25
+export const MAX_SEARCH_RADIUS_MILES = 250
+
+const EARTH_RADIUS_MILES = 3958.8
+
+let centroids: Map<string, ZipCentroid> | null = null
+
+function getCentroids(): Map<string, ZipCentroid> {
+  if (!centroids) {
+    centroids = new Map()
+    for (const line of ZIP_CENTROID_DATA.split('\n')) {
+      const [zip, latitude, longitude] = line.split(',')
+      if (zip && latitude && longitude) {
+        centroids.set(zip, { latitude: parseFloat(latitude), longitude: parseFloat(longitude) })
+      }
+    }
+  }
+  return centroids
+}
+
+/**
+ * The 5-digit ZIP from a postal code ("98290-1234" -> "98290"), or null
+ */
+export function normalizeZip(postalCode: string | null | undefined): string | null {
+  const match = (postalCode || '').trim().match(/^(\d{5})(?:-?\d{4})?$/)
+  return match ? match[1] : null
+}
+
+export function getZipCentroid(postalCode: string | null | undefined): ZipCentroid | null {
+  const zip = normalizeZip(postalCode)
+  return zip ? getCentroids().get(zip) ?? null : null
+}
+
+/**
+ * Great-circle distance in miles
+ */
+export function distanceMiles(from: ZipCentroid, to: ZipCentroid): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+  const dLat = toRadians(to.latitude - from.latitude)
+  const dLng = toRadians(to.longitude - from.longitude)
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a))
+}
+
+/**
+ * Every known ZIP whose centroid is within the radius of a point
+ */
+export function zipsWithinRadius(center: ZipCentroid, radiusMiles: number): string[] {
+  const zips: string[] = []
+  for (const [zip, centroid] of getCentroids()) {
+    if (distanceMiles(center, centroid) <= radiusMiles) {
+      zips.push(zip)
+    }
+  }
+  return zips
+}
+
+/**
+ * The centroid of the ZIP a searcher entered and every ZIP within the radius
+ * of it (the default radius when none is given). Unknown ZIPs are a 400.
+ */
+export function findNearbyZips(near: string, radius?: string | number): { origin: ZipCentroid; zips: string[] } {
+  const origin = getZipCentroid(near)
+  if (!origin) {
+    throw badRequest(`We don't have a location for ZIP code ${near}`)
+  }
+
+  const radiusMiles = radius ? parseFloat(String(radius)) : DEFAULT_SEARCH_RADIUS_MILES
+  return { origin, zips: zipsWithinRadius(origin, radiusMiles) }
+}
+
+/**
+ * SQL condition that a postal code column holds one of the given ZIPs.
+ * The ZIPs go in one JSON parameter, as a wide radius can cover thousands.
+ */
+export function postalCodeInZips(column: string, zips: string[]): { condition: string; params: { nearbyZips: string } } {
+  return {
+    condition: zips.length > 0
+      ? `LEFT(LTRIM(${column}), 5) IN (SELECT value FROM OPENJSON(@nearbyZips))`
+      : '1 = 0',
+    params: { nearbyZips: JSON.stringify(zips) },
+  }
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi } from 'vitest'
+import { cancelBid } from '../src/services/bidCancellation'
+import { result } from './helpers/database'
+
+const ITEM = {
+  id: 'item-1',
+  event_id: 'e1',
+  title: 'Wine Basket',
+  status: 'active',
+  current_bid: 5000,
+  starting_price: 10,
+  auction_type: 'standard',
+  increment_type: 'fixed',
+  increment_value: 5,
+}
+
+const at = (minute: number) => new Date(`2025-06-01T19:${String(minute).padStart(2, '0')}:00Z`)
+
+// A transaction that answers cancelBid's queries for a standard item whose
+// remaining bids and maximums are given
+function standardItemTx(voided: any, remaining: any[], maxBids: any[] = []) {
+  return vi.fn(async (sql: string, params?: any) => {
+    if (sql.includes('FROM event_items i WITH')) return result([ITEM])
+    if (sql.includes('SELECT * FROM event_item_bids WHERE id')) return result([voided])
+    if (sql.includes('SELECT TOP 1')) return result([voided])
+    if (sql.includes('AND bidder_id = @bidderId AND amount >= @amount')) return result([{ count: 0 }])
+    if (sql.includes('SELECT id, bidder_id, amount, is_proxy')) return result(remaining)
+    if (sql.includes('FROM event_item_max_bids WHERE')) return result(maxBids)
+    if (sql.includes('OUTPUT INSERTED.id') && sql.includes('bid_cancellations')) return result([{ id: 'cancel-1' }])
+    if (sql.includes('DELETE FROM event_item_bids WHERE item_id')) {
+      return result([], remaining.filter((bid) => bid.is_proxy && bid.amount > params.price).length)
+    }
+    if (sql.includes('SELECT COUNT(*) as count')) return result([{ count: remaining.length }])
+    return result([], 1)
+  })
+}
+
+function calls(tx: ReturnType<typeof standardItemTx>) {
+  return tx.mock.calls.map(([sql, params]) => ({ sql: sql as string, params: params as any }))
+}
+
+describe('Bid Cancellation', () => {
+  it('should restore the previous leader when the top bid is cancelled', async () => {
+    const tx = standardItemTx(
+      { id: 'bid-3', bidder_id: 'fat-finger', amount: 5000, is_proxy: false, created_at: at(30) },
+      [
+        { id: 'bid-1', bidder_id: 'early', amount: 40, is_proxy: false, created_at: at(10) },
+        { id: 'bid-2', bidder_id: 'runner-up', amount: 50, is_proxy: false, created_at: at(20) },
+      ]
+    )
+
+    const outcome = await cancelBid(
+      { itemId: 'item-1', bidId: 'bid-3', reason: 'Meant $50', cancelledBy: 'admin-1' },
+      tx
+    )
+
+    expect(outcome).toEqual({
+      eventId: 'e1',
+      itemId: 'item-1',
+      itemTitle: 'Wine Basket',
+      auctionType: 'standard',
+      bidderId: 'fat-finger',
+      amount: 5000,
+      wasLeading: true,
+      currentBid: 50,
+      bidCount: 2,
+      leaderId: 'runner-up',
+    })
+
+    const sent = calls(tx)
+    expect(sent.find((c) => c.sql.includes('DELETE FROM event_item_bids WHERE id'))!.params).toEqual({ bidId: 'bid-3' })
+    expect(sent.some((c) => c.sql.includes('DELETE FROM event_item_max_bids'))).toBe(true)
+    // Nothing provoked by the voided bid, so no other bids change
+    expect(sent.some((c) => c.sql.includes('is_proxy = 1 AND amount > @price'))).toBe(false)
+    expect(sent.find((c) => c.sql.includes('SET is_winning = 1'))!.params).toEqual({ bidId: 'bid-2' })
+    expect(sent.find((c) => c.sql.includes('UPDATE event_items SET'))!.params).toEqual({ itemId: 'item-1', currentBid: 50, bidCount: 2 })
+    expect(sent.find((c) => c.sql.includes('total_bids'))!.params).toEqual({ eventId: 'e1', removed: 1 })
+
+    const audit = sent.find((c) => c.sql.includes('INSERT INTO bid_cancellations'))!
+    expect(audit.params).toMatchObject({
+      bidId: 'bid-3',
+      bidderId: 'fat-finger',
+      amount: 5000,
+      reason: 'Meant $50',
+      cancelledBy: 'admin-1',
+      retractionRequestId: null,
+      previousCurrentBid: 5000,
+    })
+    expect(sent.find((c) => c.sql.includes('UPDATE bid_cancellations'))!.params).toEqual({
+      cancellationId: 'cancel-1',
+      newCurrentBid: 50,
+      newLeaderId: 'runner-up',
+    })
+  })
+
+  it('should take back the proxy bids a cancelled bid provoked', async () => {
+    // The leader's $100 maximum had answered the runner-up at $55, then was
+    // driven to $100 by the bid being voided
+    const tx = standardItemTx(
+      { id: 'bid-5', bidder_id: 'fat-finger', amount: 105, is_proxy: false, created_at: at(40) },
+      [
+        { id: 'bid-1', bidder_id: 'leader', amount: 30, is_proxy: false, created_at: at(10) },
+        { id: 'bid-2', bidder_id: 'runner-up', amount: 50, is_proxy: false, created_at: at(20) },
+        { id: 'bid-3', bidder_id: 'leader', amount: 55, is_proxy: true, created_at: at(20) },
+        { id: 'bid-4', bidder_id: 'leader', amount: 100, is_proxy: true, created_at: at(40) },
+      ],
+      [{ bidder_id: 'leader', max_amount: 100, set_at: at(5) }]
+    )
+
+    const outcome = await cancelBid(
+      { itemId: 'item-1', bidId: 'bid-5', reason: 'Shill bid', cancelledBy: 'admin-1' },
+      tx
+    )
+
+    expect(outcome).toMatchObject({ currentBid: 55, leaderId: 'leader' })
+
+    const sent = calls(tx)
+    expect(sent.find((c) => c.sql.includes('DELETE FROM event_item_bids WHERE item_id'))!.params).toEqual({ itemId: 'item-1', price: 55 })
+    // Each proxy bid taken back is snapshotted under the cancellation before it goes
+    const snapshot = sent.findIndex((c) => c.sql.includes('parent_cancellation_id'))
+    expect(sent[snapshot].sql).toContain('is_proxy = 1 AND amount > @price')
+    expect(sent[snapshot].params).toMatchObject({ price: 55, reason: 'Shill bid', cancelledBy: 'admin-1', cancellationId: 'cancel-1' })
+    expect(snapshot).toBeLessThan(sent.findIndex((c) => c.sql.includes('DELETE FROM event_item_bids WHERE item_id')))
+    expect(sent.some((c) => c.sql.includes('INSERT INTO event_item_bids'))).toBe(false)
+    expect(sent.find((c) => c.sql.includes('SET is_winning = 1'))!.params).toEqual({ bidId: 'bid-3' })
+    // The voided bid and the proxy bid it provoked
+    expect(sent.find((c) => c.sql.includes('total_bids'))!.params).toEqual({ eventId: 'e1', removed: 2 })
+  })
+
+  it('should clear the price when the only silent bid is cancelled', async () => {
+    const tx = vi.fn()
+      .mockResolvedValueOnce(result([{ ...ITEM, current_bid: 200, auction_type: 'silent' }]))
+      .mockResolvedValueOnce(result([{ id: 'sb-1', bidder_id: 'u1', amount: 200, created_at: new Date() }]))
+      .mockResolvedValueOnce(result([{ id: 'sb-1', bidder_id: 'u1', amount: 200 }]))
+      .mockResolvedValueOnce(result([], 1)) // delete bid
+      .mockResolvedValueOnce(result([{ id: 'cancel-1' }])) // audit snapshot
+      .mockResolvedValueOnce(result([])) // no leader left
+      .mockResolvedValueOnce(result([{ count: 0 }]))
+      .mockResolvedValue(result([], 1))
+
+    const outcome = await cancelBid(
+      { itemId: 'item-1', bidId: 'sb-1', reason: 'Bidder asked', cancelledBy: 'admin-1', retractionRequestId: 'req-1' },
+      tx
+    )
+
+    expect(outcome).toMatchObject({ auctionType: 'silent', currentBid: null, bidCount: 0, leaderId: null })
+    expect(tx.mock.calls.some(([sql]) => (sql as string).includes('event_item_max_bids'))).toBe(false)
+    expect(tx.mock.calls[4][1]).toMatchObject({ auctionType: 'silent', retractionRequestId: 'req-1' })
+    expect(tx.mock.calls.at(-1)![1]).toEqual({ cancellationId: 'cancel-1', newCurrentBid: null, newLeaderId: null })
+  })
+
+  it('should refuse to cancel bids once the item has closed', async () => {
+    const tx = vi.fn().mockResolvedValueOnce(result([{ ...ITEM, status: 'sold' }]))
+
+    await expect(cancelBid(
+      { itemId: 'item-1', bidId: 'bid-3', reason: 'Too late', cancelledBy: 'admin-1' },
+      tx
+    )).rejects.toThrow('open for bidding')
+    expect(tx).toHaveBeenCalledTimes(1)
+  })
+})
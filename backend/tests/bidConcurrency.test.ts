@@ -0,0 +1,371 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest'
+import express from 'express'
+import { Server } from 'http'
+import { AddressInfo } from 'net'
+
+// A tiny in-memory stand-in for the tables the bid routes touch. Every query
+// yields to the event loop first, so requests that aren't serialized by a
+// transaction interleave just as they would against a real database.
+// withTransaction is serialized, standing in for the UPDLOCK on the item row.
+const db = vi.hoisted(() => {
+  const state = {
+    item: {} as Record<string, any>,
+    event: {} as Record<string, any>,
+    bids: [] as Array<Record<string, any>>,
+    maxBids: [] as Array<Record<string, any>>,
+    silentBids: [] as Array<Record<string, any>>,
+    nextId: 1,
+    clock: 0,
+  }
+
+  const result = (recordset: any[] = []) => ({ recordset, recordsets: [recordset], rowsAffected: [recordset.length] })
+  const tick = () => new Date(Date.UTC(2025, 5, 1, 19) + state.clock++)
+
+  async function query(sql: string, params: Record<string, any> = {}) {
+    await new Promise((resolve) => setImmediate(resolve))
+    const { item, event, bids, maxBids, silentBids } = state
+
+    if (sql.includes('SELECT id FROM users')) {
+      return result([{ id: params.userId }])
+    }
+    if (/FROM event_items i WITH \(UPDLOCK/.test(sql)) {
+      return result([{
+        ...item,
+        auction_type: event.auction_type,
+        increment_type: 'fixed',
+        increment_value: 5,
+        event_status: 'active',
+        event_owner_id: 'owner',
+        scheduled_end_time: new Date('2025-06-01T21:00:00Z'),
+        simulated_current_time: null,
+        soft_close_enabled: false,
+        buy_now_enabled: true,
+      }])
+    }
+    if (sql.includes('LEFT JOIN event_item_max_bids mb')) {
+      return result(bids.filter((b) => b.is_winning).map((b) => {
+        const max = maxBids.find((m) => m.bidder_id === b.bidder_id)
+        return { ...b, max_amount: max?.max_amount ?? null, set_at: max?.set_at ?? null }
+      }))
+    }
+    if (sql.includes('MERGE event_item_max_bids')) {
+      const existing = maxBids.find((m) => m.bidder_id === params.bidderId)
+      if (existing) {
+        Object.assign(existing, { max_amount: params.maxAmount, set_at: tick() })
+      } else {
+        maxBids.push({ bidder_id: params.bidderId, max_amount: params.maxAmount, set_at: tick() })
+      }
+      return result()
+    }
+    if (sql.includes('UPDATE event_item_bids SET is_winning = 0')) {
+      bids.forEach((b) => { b.is_winning = 0 })
+      return result()
+    }
+    if (sql.includes('INSERT INTO event_item_bids')) {
+      const bid = {
+        id: `bid-${state.nextId++}`,
+        item_id: params.itemId,
+        bidder_id: params.bidderId,
+        amount: params.amount,
+        is_winning: params.isWinning,
+        is_proxy: params.isProxy,
+        created_at: tick(),
+      }
+      bids.push(bid)
+      return result([bid])
+    }
+    if (sql.includes('current_bid = @amount')) {
+      item.current_bid = params.amount
+      item.bid_count += params.bidCount
+      return result()
+    }
+    if (sql.includes('SELECT TOP (@places) bidder_id, amount, notify_on_outbid')) {
+      const ranked = [...silentBids].sort((a, b) => b.amount - a.amount || a.created_at - b.created_at)
+      return result(ranked.slice(0, params.places))
+    }
+    if (sql.includes('SELECT * FROM event_item_silent_bids')) {
+      return result(silentBids.filter((b) => b.bidder_id === params.bidderId))
+    }
+    if (sql.includes('INSERT INTO event_item_silent_bids')) {
+      const bid = {
+        id: `silent-${state.nextId++}`,
+        bidder_id: params.bidderId,
+        amount: params.amount,
+        notify_on_outbid: params.notifyOnOutbid ?? true,
+        created_at: tick(),
+      }
+      silentBids.push(bid)
+      return result([bid])
+    }
+    if (sql.includes('UPDATE event_item_silent_bids')) {
+      silentBids.filter((b) => b.id === params.bidId).forEach((b) => {
+        b.amount = params.amount
+        b.notify_on_outbid = params.notifyOnOutbid ?? b.notify_on_outbid
+      })
+      return result()
+    }
+    if (sql.includes('SELECT MAX(amount) FROM event_item_silent_bids')) {
+      if (sql.includes('bid_count = bid_count + 1')) item.bid_count += 1
+      item.current_bid = Math.max(...silentBids.map((b) => b.amount))
+      return result()
+    }
+    if (sql.includes('SELECT COUNT(*) + 1 as rank')) {
+      const createdAt = params.createdAt ?? silentBids.find((b) => b.id === params.bidId)?.created_at
+      const ahead = silentBids.filter((b) =>
+        b.amount > params.amount || (b.amount === params.amount && b.created_at < createdAt))
+      return result([{ rank: ahead.length + 1 }])
+    }
+    if (sql.includes('quantity_sold = quantity_sold + @quantity')) {
+      item.quantity_sold += params.quantity
+      if (params.soldOut) {
+        Object.assign(item, { status: 'sold', winner_id: params.userId })
+      }
+      item.buy_now_purchased_by = params.userId
+      return result()
+    }
+    if (sql.includes('INSERT INTO event_item_winners')) {
+      return result([{ id: `award-${state.nextId++}` }])
+    }
+    if (sql.includes('UPDATE auction_events')) {
+      if (params.bidCount) event.total_bids += params.bidCount
+      else if (sql.includes('total_bids + 1')) event.total_bids += 1
+      if (sql.includes('total_raised')) event.total_raised += params.amount
+      return result()
+    }
+
+    throw new Error(`Unexpected query in test: ${sql}`)
+  }
+
+  let lock: Promise<unknown> = Promise.resolve()
+  function withTransaction<T>(work: (tx: typeof query) => Promise<T>): Promise<T> {
+    const run = lock.then(() => work(query))
+    lock = run.catch(() => undefined)
+    return run
+  }
+
+  return { state, query, withTransaction }
+})
+
+vi.mock('../src/config/database', () => ({
+  query: db.query,
+  withTransaction: db.withTransaction,
+}))
+
+vi.mock('../src/middleware/auth', () => ({
+  authenticate: (req: any, _res: any, next: any) => {
+    const id = req.headers['x-test-user']
+    req.user = { id, email: `${id}@example.com`, name: id }
+    next()
+  },
+  optionalAuth: (_req: any, _res: any, next: any) => next(),
+}))
+
+vi.mock('../src/services/uatTime', () => ({
+  getEffectiveTime: vi.fn().mockResolvedValue(new Date('2025-06-01T20:00:00Z')),
+}))
+
+vi.mock('../src/services/notifications', () => ({
+  notifyOutbid: vi.fn().mockResolvedValue(undefined),
+  notifyBidPlaced: vi.fn().mockResolvedValue(undefined),
+}))
+
+vi.mock('../src/services/signalr', () => ({
+  broadcastItemBidUpdate: vi.fn(),
+  broadcastSilentBidUpdate: vi.fn(),
+  broadcastItemSold: vi.fn(),
+}))
+
+vi.mock('../src/services/watchlist', () => ({
+  alertWatchersOfFirstBid: vi.fn().mockResolvedValue(0),
+  alertWatchersOfBuyNowReached: vi.fn().mockResolvedValue(0),
+}))
+
+import { eventBidRoutes } from '../src/routes/eventBids'
+import { notifyOutbid } from '../src/services/notifications'
+import { errorHandler } from '../src/middleware/errorHandler'
+
+const ITEM_ID = '11111111-1111-4111-8111-111111111111'
+
+let server: Server
+let baseUrl: string
+
+function resetState(auctionType: 'standard' | 'silent') {
+  Object.assign(db.state, {
+    item: {
+      id: ITEM_ID,
+      event_id: 'event-1',
+      title: 'Signed Print',
+      submitted_by: 'submitter',
+      submission_status: 'approved',
+      status: 'active',
+      starting_price: 100,
+      current_bid: null,
+      bid_count: 0,
+      buy_now_price: 500,
+      buy_now_purchased_by: null,
+      quantity: 1,
+      quantity_sold: 0,
+      end_time: null,
+    },
+    event: { auction_type: auctionType, total_bids: 0, total_raised: 0 },
+    bids: [],
+    maxBids: [],
+    silentBids: [],
+  })
+}
+
+async function post(path: string, userId: string, body: Record<string, unknown> = {}) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-test-user': userId },
+    body: JSON.stringify(body),
+  })
+  return { status: response.status, body: await response.json() }
+}
+
+const bidders = (count: number) => Array.from({ length: count }, (_, i) => `bidder-${i + 1}`)
+
+describe('Concurrent bidding', () => {
+  beforeAll(async () => {
+    const app = express()
+    app.use(express.json())
+    app.use('/api', eventBidRoutes)
+    app.use(errorHandler)
+    server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, () => resolve(listening))
+    })
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    // Rejected bids are expected here; keep the error handler quiet
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+  })
+
+  it('should accept only one of several identical standard bids', async () => {
+    resetState('standard')
+
+    const responses = await Promise.all(
+      bidders(8).map((userId) => post(`/event-items/${ITEM_ID}/bids`, userId, { amount: 105 }))
+    )
+
+    expect(responses.filter((r) => r.status === 201)).toHaveLength(1)
+    expect(responses.filter((r) => r.status === 400).every((r) => r.body.error.message === 'Minimum bid is $110.00')).toBe(true)
+
+    const winning = db.state.bids.filter((b) => b.is_winning)
+    expect(winning).toHaveLength(1)
+    expect(db.state.item.current_bid).toBe(105)
+    expect(db.state.item.bid_count).toBe(db.state.bids.length)
+  })
+
+  it('should settle parallel proxy bids on one consistent winner', async () => {
+    resetState('standard')
+
+    const amounts = [120, 300, 130, 140, 125, 135]
+    const maximums = [150, 400, 210, 275, 180, 300]
+    const responses = await Promise.all(
+      amounts.map((amount, i) =>
+        post(`/event-items/${ITEM_ID}/bids`, `bidder-${i + 1}`, { amount, maxAmount: maximums[i] })
+      )
+    )
+
+    // Bids that arrive after the price has moved past them are refused, never double-counted
+    responses
+      .filter((r) => r.status !== 201)
+      .forEach((r) => expect(r.body.error.message).toMatch(/^Minimum bid is/))
+
+    const { state } = db
+    const winning = state.bids.filter((b) => b.is_winning)
+    expect(winning).toHaveLength(1)
+    expect(winning[0].bidder_id).toBe('bidder-2')
+    expect(winning[0].amount).toBe(state.item.current_bid)
+    expect(Math.max(...state.bids.map((b) => b.amount))).toBe(winning[0].amount)
+    expect(state.item.bid_count).toBe(state.bids.length)
+    expect(state.event.total_bids).toBe(state.bids.length)
+  })
+
+  it('should keep silent bid counts and ranks consistent under parallel bids', async () => {
+    resetState('silent')
+
+    const amounts = [150, 120, 200, 175, 130]
+    const responses = await Promise.all(
+      amounts.map((amount, i) => post(`/event-items/${ITEM_ID}/silent-bids`, `bidder-${i + 1}`, { amount }))
+    )
+
+    const accepted = responses.filter((r) => r.status === 201)
+    responses
+      .filter((r) => r.status !== 201)
+      .forEach((r) => expect(r.body.error.message).toMatch(/^Minimum bid is/))
+
+    const { state } = db
+    expect(state.silentBids).toHaveLength(accepted.length)
+    expect(state.item.bid_count).toBe(accepted.length)
+    expect(state.event.total_bids).toBe(accepted.length)
+    expect(state.item.current_bid).toBe(Math.max(...accepted.map((r) => r.body.amount)))
+
+    // A new bid has to clear the top bid, so each one led when it committed
+    expect(accepted.every((r) => r.body.rank === 1)).toBe(true)
+  })
+
+  it('should sell a buy-now item to exactly one buyer', async () => {
+    resetState('standard')
+
+    const responses = await Promise.all(
+      bidders(6).map((userId) => post(`/event-items/${ITEM_ID}/buy-now`, userId))
+    )
+
+    const sold = responses.filter((r) => r.status === 200)
+    expect(sold).toHaveLength(1)
+    expect(responses.filter((r) => r.status === 400)).toHaveLength(5)
+    expect(db.state.item.status).toBe('sold')
+    expect(db.state.event.total_raised).toBe(500)
+  })
+
+  describe('silent outbid notifications', () => {
+    const mockNotifyOutbid = vi.mocked(notifyOutbid)
+    const bid = (userId: string, body: Record<string, unknown>) =>
+      post(`/event-items/${ITEM_ID}/silent-bids`, userId, body)
+
+    beforeEach(() => {
+      mockNotifyOutbid.mockClear()
+      resetState('silent')
+    })
+
+    it('should tell the displaced leader without revealing the amount', async () => {
+      await bid('alice', { amount: 150 })
+      await bid('bob', { amount: 200 })
+
+      expect(mockNotifyOutbid).toHaveBeenCalledTimes(1)
+      expect(mockNotifyOutbid).toHaveBeenCalledWith('alice', 'Signed Print', null, 'event-1', ITEM_ID, 150, 'silent')
+    })
+
+    it('should notify when an increased bid retakes first place', async () => {
+      await bid('alice', { amount: 150 })
+      await bid('bob', { amount: 200 })
+      mockNotifyOutbid.mockClear()
+
+      await bid('alice', { amount: 250 })
+
+      expect(mockNotifyOutbid).toHaveBeenCalledTimes(1)
+      expect(mockNotifyOutbid.mock.calls[0][0]).toBe('bob')
+    })
+
+    it('should stay quiet when first place does not change hands', async () => {
+      await bid('alice', { amount: 200 })
+      await bid('alice', { amount: 250 })
+
+      expect(mockNotifyOutbid).not.toHaveBeenCalled()
+    })
+
+    it('should respect a leader who opted out of outbid notifications', async () => {
+      await bid('alice', { amount: 150, notifyOnOutbid: false })
+      await bid('bob', { amount: 200 })
+
+      expect(mockNotifyOutbid).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+const { createIntent, confirmIntent, cancelIntent, StripeError } = vi.hoisted(() => {
+  class StripeError extends Error {
+    constructor(message: string, public code?: string, public payment_intent?: any) {
+      super(message)
+    }
+  }
+  return { createIntent: vi.fn(), confirmIntent: vi.fn(), cancelIntent: vi.fn(), StripeError }
+})
+
+vi.mock('stripe', () => {
+  class Stripe {
+    static errors = { StripeError }
+    paymentIntents = { create: createIntent, confirm: confirmIntent, cancel: cancelIntent }
+    setupIntents = { create: vi.fn(), retrieve: vi.fn() }
+    customers = { create: vi.fn() }
+  }
+  return { default: Stripe }
+})
+
+vi.mock('../src/config/database', () => import('./helpers/database'))
+
+vi.mock('../src/services/featureFlags', () => ({
+  isFreeModeEnabled: vi.fn().mockResolvedValue(false),
+}))
+
+vi.mock('../src/services/notifications', () => ({
+  notifyAuctionWon: vi.fn(),
+  notifyAuctionLost: vi.fn(),
+  notifyReserveNotMetBidder: vi.fn(),
+  notifyReserveNotMetSubmitter: vi.fn(),
+  notifyPaymentReminder: vi.fn().mockResolvedValue('notification-1'),
+}))
+
+import { query } from '../src/config/database'
+import { result } from './helpers/database'
+import { notifyPaymentReminder } from '../src/services/notifications'
+import { assertCardOnFile } from '../src/services/cardOnFile'
+import { chargeCardsOnFile } from '../src/services/platformFees'
+
+const mockQuery = vi.mocked(query)
+
+// A card-on-file event with one winner who owes $100 for one item
+function mockEventWithOneWinner() {
+  mockQuery.mockImplementation(async (sql: string) => {
+    if (sql.includes('FROM event_bidder_cards')) {
+      return result([{ user_id: 'user-1', stripe_payment_method_id: 'pm_1' }])
+    }
+    if (sql.includes('FROM event_item_winners w')) {
+      return result([{
+        id: 'win-1', item_id: 'item-1', title: 'Wine basket', amount: '100.00', quantity: 1,
+        event_id: 'event-1', event_name: 'Spring Gala', event_slug: 'spring-gala',
+      }])
+    }
+    if (sql.includes('SELECT stripe_customer_id')) {
+      return result([{ stripe_customer_id: 'cus_1' }])
+    }
+    return result([], 1)
+  })
+}
+
+function sqlCalls(fragment: string) {
+  return mockQuery.mock.calls.filter(([sql]) => sql.includes(fragment))
+}
+
+const checkoutPaid = () =>
+  sqlCalls('UPDATE event_checkouts SET').some(([sql]) => sql.includes("status = 'paid'"))
+
+const autoChargeUpdate = () =>
+  mockQuery.mock.calls.find(([sql]) => sql.includes('auto_charge_status = @status'))?.[1]
+
+describe('Card on File', () => {
+  beforeEach(() => {
+    mockQuery.mockReset()
+    createIntent.mockReset().mockResolvedValue({ id: 'pi_1', status: 'requires_confirmation' })
+    confirmIntent.mockReset()
+    cancelIntent.mockReset().mockResolvedValue({})
+    vi.mocked(notifyPaymentReminder).mockClear()
+  })
+
+  it('should only take bids from bidders with a saved card when the event requires one', async () => {
+    await assertCardOnFile({ event_id: 'event-1', require_card_on_file: false }, 'user-1')
+    expect(mockQuery).not.toHaveBeenCalled()
+
+    mockQuery.mockResolvedValueOnce(result([]))
+    await expect(assertCardOnFile({ event_id: 'event-1', require_card_on_file: true }, 'user-1'))
+      .rejects.toMatchObject({ statusCode: 400 })
+
+    mockQuery.mockResolvedValueOnce(result([{ user_id: 'user-1', stripe_payment_method_id: 'pm_1' }]))
+    await expect(assertCardOnFile({ event_id: 'event-1', require_card_on_file: 1 }, 'user-1')).resolves.toBeUndefined()
+  })
+
+  it('should charge winners off-session and mark their checkout paid', async () => {
+    mockEventWithOneWinner()
+    confirmIntent.mockResolvedValue({
+      id: 'pi_1',
+      status: 'succeeded',
+      metadata: { type: 'event_checkout', checkoutId: 'checkout-1', userId: 'user-1' },
+    })
+
+    expect(await chargeCardsOnFile('event-1')).toEqual({ charged: 1, pending: 0, needsAction: 0, failed: 0 })
+
+    expect(createIntent).toHaveBeenCalledWith(expect.objectContaining({
+      amount: 10100,
+      customer: 'cus_1',
+      payment_method: 'pm_1',
+    }), { idempotencyKey: expect.stringMatching(/^checkout-.+-create$/) })
+    expect(confirmIntent).toHaveBeenCalledWith(
+      'pi_1',
+      { off_session: true },
+      { idempotencyKey: expect.stringMatching(/^checkout-.+-confirm$/) }
+    )
+    expect(sqlCalls('SET payment_intent_id = @paymentIntentId')[0][1]).toMatchObject({ awardId0: 'win-1', paymentIntentId: 'pi_1' })
+    expect(sqlCalls('INSERT INTO event_checkouts')[0][1]).toMatchObject({ autoChargeStatus: 'started' })
+    expect(autoChargeUpdate()).toMatchObject({ paymentIntentId: 'pi_1', status: 'succeeded', error: null })
+    expect(checkoutPaid()).toBe(true)
+    expect(notifyPaymentReminder).not.toHaveBeenCalled()
+  })
+
+  it('should fall back to a payment reminder when the card needs authentication', async () => {
+    mockEventWithOneWinner()
+    confirmIntent.mockRejectedValue(
+      new StripeError('Authentication required', 'authentication_required', { id: 'pi_2' })
+    )
+
+    expect(await chargeCardsOnFile('event-1')).toEqual({ charged: 0, pending: 0, needsAction: 1, failed: 0 })
+
+    expect(autoChargeUpdate()).toMatchObject({ paymentIntentId: 'pi_2', status: 'requires_action' })
+    expect(notifyPaymentReminder).toHaveBeenCalledWith('user-1', 'Wine basket', 'event-1', 'item-1', 101)
+  })
+
+  it('should leave a charge that is still processing to the webhook', async () => {
+    mockEventWithOneWinner()
+    confirmIntent.mockResolvedValue({
+      id: 'pi_1',
+      status: 'processing',
+      metadata: { type: 'event_checkout', checkoutId: 'checkout-1', userId: 'user-1' },
+    })
+
+    expect(await chargeCardsOnFile('event-1')).toEqual({ charged: 0, pending: 1, needsAction: 0, failed: 0 })
+
+    expect(autoChargeUpdate()).toMatchObject({ paymentIntentId: 'pi_1', status: 'processing', error: null })
+    expect(checkoutPaid()).toBe(false)
+    expect(notifyPaymentReminder).not.toHaveBeenCalled()
+  })
+
+  it('should replay an earlier attempt through its checkout rather than charge again', async () => {
+    mockEventWithOneWinner()
+    const eventQueries = mockQuery.getMockImplementation()!
+    mockQuery.mockImplementation(async (sql: string, params?: any) => {
+      if (sql.includes('FROM event_checkouts')) return result([{ id: 'checkout-0', stripe_payment_intent_id: 'pi_1' }])
+      if (sql.includes('SELECT reference_id FROM event_checkout_lines')) return result([{ reference_id: 'win-1' }])
+      if (sql.includes('SELECT DISTINCT payment_intent_id')) return result([{ payment_intent_id: 'pi_1' }])
+      if (sql.includes('WITH (UPDLOCK, ROWLOCK)')) return result([{ payment_intent_id: 'pi_1' }])
+      return eventQueries(sql, params)
+    })
+    confirmIntent.mockResolvedValue({ id: 'pi_1', status: 'processing', metadata: {} })
+
+    expect(await chargeCardsOnFile('event-1')).toEqual({ charged: 0, pending: 1, needsAction: 0, failed: 0 })
+
+    expect(sqlCalls('INSERT INTO event_checkouts')).toHaveLength(0)
+    expect(cancelIntent).not.toHaveBeenCalled()
+    expect(createIntent).toHaveBeenCalledWith(
+      expect.objectContaining({ metadata: expect.objectContaining({ checkoutId: 'checkout-0' }) }),
+      { idempotencyKey: 'checkout-checkout-0-create' }
+    )
+    expect(confirmIntent).toHaveBeenCalledWith('pi_1', { off_session: true }, { idempotencyKey: 'checkout-checkout-0-confirm' })
+  })
+
+  it('should not charge a card for wins another payment was just opened for', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    mockEventWithOneWinner()
+    const eventQueries = mockQuery.getMockImplementation()!
+    mockQuery.mockImplementation(async (sql: string, params?: any) =>
+      sql.includes('WITH (UPDLOCK, ROWLOCK)') ? result([{ payment_intent_id: 'pi_other' }]) : eventQueries(sql, params)
+    )
+
+    expect(await chargeCardsOnFile('event-1')).toEqual({ charged: 0, pending: 0, needsAction: 0, failed: 1 })
+
+    expect(confirmIntent).not.toHaveBeenCalled()
+    expect(cancelIntent).toHaveBeenCalledWith('pi_1')
+    expect(autoChargeUpdate()).toMatchObject({ status: 'failed' })
+    expect(notifyPaymentReminder).toHaveBeenCalled()
+  })
+})
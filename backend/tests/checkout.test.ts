@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../src/config/database', () => import('./helpers/database'))
+
+vi.mock('../src/services/featureFlags', () => ({
+  isFreeModeEnabled: vi.fn().mockResolvedValue(false),
+}))
+
+import { query } from '../src/config/database'
+import { summarizeCheckout } from '../src/services/checkout'
+import { handleCheckoutPaymentWebhook } from '../src/services/platformFees'
+import { result } from './helpers/database'
+
+const mockQuery = vi.mocked(query)
+
+const event = { id: 'event-1', name: 'Spring Gala', slug: 'spring-gala' }
+
+const checkoutIntent = {
+  id: 'pi_123',
+  metadata: { type: 'event_checkout', checkoutId: 'checkout-1', userId: 'user-1' },
+} as any
+
+function sqlCalls(fragment: string) {
+  return mockQuery.mock.calls.filter(([sql]) => sql.includes(fragment))
+}
+
+// A checkout paying for two wins on one item, a pledge and raffle tickets
+function mockCheckout(awards: any[], linkedFees = 1) {
+  mockQuery.mockImplementation(async (sql: string) => {
+    if (sql.includes('SELECT * FROM event_checkout_lines')) {
+      return result([
+        { line_type: 'item', reference_id: 'win-1', item_id: 'item-1', platform_fee: '1.00' },
+        { line_type: 'item', reference_id: awards[1]?.id ?? 'win-2', item_id: 'item-1', platform_fee: '0.00' },
+        { line_type: 'pledge', reference_id: 'pledge-1', item_id: null, platform_fee: '0.00' },
+        { line_type: 'raffle_tickets', reference_id: 'purchase-1', item_id: null, platform_fee: '0.00' },
+      ].filter((line) => line.line_type !== 'item' || awards.some((award) => award.id === line.reference_id)))
+    }
+    if (sql.includes('FROM event_item_winners WITH (UPDLOCK')) {
+      return result(awards)
+    }
+    if (sql.startsWith('UPDATE platform_fees')) {
+      return result([], linkedFees)
+    }
+    return result([], 1)
+  })
+}
+
+describe('Consolidated Checkout', () => {
+  beforeEach(() => {
+    mockQuery.mockReset()
+  })
+
+  it('should itemize wins, pledges and raffle tickets with one fee per item', () => {
+    const summary = summarizeCheckout(
+      event,
+      {
+        wins: [
+          { id: 'win-1', item_id: 'item-1', title: 'Wine basket', amount: '120.00', quantity: 1 },
+          { id: 'win-2', item_id: 'item-2', title: 'Tote bag', amount: '15.10', quantity: 3 },
+          { id: 'win-3', item_id: 'item-2', title: 'Tote bag', amount: '20.00', quantity: 1 },
+        ],
+        pledges: [{ id: 'pledge-1', amount: '250.00', campaign_title: 'Playground' }],
+        raffleTickets: [{ id: 'purchase-1', amount: '20.00', ticket_count: 5, raffle_title: '50/50' }],
+      },
+      { platformFeeFor: () => 1, coverFeesFor: () => 0 }
+    )
+
+    expect(summary.lines.map((line) => [line.type, line.referenceId, line.amount, line.platformFee])).toEqual([
+      ['item', 'win-1', 120, 1],
+      ['item', 'win-2', 45.3, 1],
+      ['item', 'win-3', 20, 0],
+      ['pledge', 'pledge-1', 250, 0],
+      ['raffle_tickets', 'purchase-1', 20, 0],
+    ])
+    expect(summary.itemsAmount).toBe(185.3)
+    expect(summary.platformFee).toBe(2)
+    expect(summary.pledgesAmount).toBe(250)
+    expect(summary.raffleAmount).toBe(20)
+    expect(summary.total).toBe(457.3)
+  })
+
+  it('should mark everything on the checkout paid', async () => {
+    mockCheckout([
+      { id: 'win-1', event_id: 'event-1', winner_id: 'user-1', amount: '120.00', quantity: 1, payment_status: 'pending', payment_intent_id: 'pi_123' },
+      { id: 'win-2', event_id: 'event-1', winner_id: 'user-1', amount: '20.00', quantity: 1, payment_status: 'pending', payment_intent_id: 'pi_123' },
+    ])
+
+    await handleCheckoutPaymentWebhook(checkoutIntent)
+
+    const pledgeUpdate = sqlCalls('UPDATE fund_a_need_pledges')[0]
+    const ticketUpdate = sqlCalls('UPDATE raffle_ticket_purchases')[0]
+    const awardUpdates = sqlCalls('UPDATE event_item_winners')
+
+    expect(pledgeUpdate?.[1]).toEqual({ pledgeId: 'pledge-1', paymentIntentId: 'pi_123' })
+    expect(ticketUpdate?.[1]).toEqual({ purchaseId: 'purchase-1', paymentIntentId: 'pi_123' })
+    expect(awardUpdates).toHaveLength(1)
+    expect(awardUpdates[0][1]).toEqual({
+      itemId: 'item-1', userId: 'user-1', paymentIntentId: 'pi_123', winId0: 'win-1', winId1: 'win-2',
+    })
+
+    // Only the fees linked to those awards are settled
+    expect(sqlCalls('UPDATE platform_fees')[0][1]).toEqual({ paymentIntentId: 'pi_123', awardId0: 'win-1', awardId1: 'win-2' })
+    expect(sqlCalls('UPDATE TOP (1) platform_fees')).toHaveLength(0)
+    expect(sqlCalls('INSERT INTO duplicate_award_payments')).toHaveLength(0)
+  })
+
+  it('should flag a win another payment already paid for a refund', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    mockCheckout([
+      { id: 'win-1', event_id: 'event-1', winner_id: 'user-1', amount: '120.00', quantity: 1, payment_status: 'paid', payment_intent_id: 'pi_item' },
+      { id: 'win-2', event_id: 'event-1', winner_id: 'user-1', amount: '20.00', quantity: 2, payment_status: 'pending', payment_intent_id: 'pi_123' },
+    ])
+
+    await handleCheckoutPaymentWebhook(checkoutIntent)
+
+    const duplicates = sqlCalls('INSERT INTO duplicate_award_payments')
+    expect(duplicates).toHaveLength(1)
+    expect(duplicates[0][1]).toEqual({
+      eventId: 'event-1', awardId: 'win-1', userId: 'user-1', paymentIntentId: 'pi_123', amount: 120,
+    })
+    expect(sqlCalls('UPDATE event_item_winners')[0][1]).toEqual({
+      itemId: 'item-1', userId: 'user-1', paymentIntentId: 'pi_123', winId0: 'win-2',
+    })
+  })
+
+  it('should flag a payment for a win the organizer waived instead of marking it paid', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    mockCheckout([
+      { id: 'win-1', event_id: 'event-1', winner_id: 'user-1', amount: '120.00', quantity: 1, payment_status: 'waived', payment_intent_id: 'pi_123' },
+    ])
+
+    await handleCheckoutPaymentWebhook(checkoutIntent)
+
+    expect(sqlCalls('INSERT INTO duplicate_award_payments')[0][1]).toMatchObject({ awardId: 'win-1', amount: 120 })
+    expect(sqlCalls('UPDATE event_item_winners')).toHaveLength(0)
+  })
+
+  it('should settle one unlinked platform fee for wins from before fees were linked', async () => {
+    mockCheckout(
+      [{ id: 'win-1', event_id: 'event-1', winner_id: 'user-1', amount: '120.00', quantity: 1, payment_status: 'pending', payment_intent_id: null }],
+      0
+    )
+
+    await handleCheckoutPaymentWebhook(checkoutIntent)
+
+    const [feeSql, feeParams] = sqlCalls('UPDATE TOP (1) platform_fees')[0]
+    expect(feeSql).toContain('award_id IS NULL')
+    expect(feeParams).toEqual({ paymentIntentId: 'pi_123', itemId: 'item-1', feeAmount: 1 })
+  })
+
+  it('should ignore a checkout that was already paid', async () => {
+    mockQuery.mockResolvedValueOnce(result([], 0))
+
+    await handleCheckoutPaymentWebhook({
+      id: 'pi_123',
+      metadata: { type: 'event_checkout', checkoutId: 'checkout-1', userId: 'user-1' },
+    } as any)
+
+    expect(mockQuery).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../src/config/database', () => import('./helpers/database'))
+
+vi.mock('../src/services/featureFlags', () => ({
+  isFreeModeEnabled: vi.fn().mockResolvedValue(false),
+}))
+
+import { query } from '../src/config/database'
+import { calculateCoverFeesAmount, calculateStripeFee, handleWinnerPaymentWebhook } from '../src/services/platformFees'
+import { calculatePayoutAmounts } from '../src/services/payouts'
+import { summarizeCheckout, withFeesCovered } from '../src/services/checkout'
+import { result } from './helpers/database'
+
+const mockQuery = vi.mocked(query)
+
+describe('Cover Processing Fees', () => {
+  it('should gross up a charge so the organization nets the full amount', () => {
+    for (const amount of [1, 26, 100, 101, 1234.56]) {
+      const cover = calculateCoverFeesAmount(amount)
+      const net = amount + cover - calculateStripeFee(amount + cover)
+
+      expect(net).toBeGreaterThanOrEqual(amount)
+      // Never more than a cent over
+      expect(net - amount).toBeLessThan(0.01)
+    }
+    expect(calculateCoverFeesAmount(100)).toBe(3.3)
+  })
+
+  it('should add the cover to a checkout total', () => {
+    const summary = summarizeCheckout(
+      { id: 'event-1', name: 'Spring Gala', slug: 'spring-gala' },
+      {
+        wins: [{ id: 'win-1', item_id: 'item-1', title: 'Wine basket', amount: '99.00', quantity: 1 }],
+        pledges: [],
+        raffleTickets: [],
+      },
+      { platformFeeFor: () => 1, coverFeesFor: calculateCoverFeesAmount }
+    )
+
+    expect(summary.coverFeesAmount).toBe(3.3)
+    expect(summary.feesCovered).toBe(0)
+    expect(summary.total).toBe(100)
+
+    const covered = withFeesCovered(summary)
+    expect(covered.feesCovered).toBe(3.3)
+    expect(covered.total).toBe(103.3)
+  })
+
+  it('should report covered fees separately in the payout breakdown', () => {
+    const without = calculatePayoutAmounts(1000, 2)
+    const withCover = calculatePayoutAmounts(1000, 2, calculateCoverFeesAmount(1000))
+
+    expect(without.feesCovered).toBe(0)
+    expect(withCover.grossAmount).toBe(1000)
+    expect(withCover.feesCovered).toBe(30.18)
+    // Covered fees pay the processing costs, so only the platform fee comes off before the reserve
+    expect(withCover.reserveAmount + withCover.netPayout).toBeCloseTo(998, 1)
+  })
+
+  it('should split the cover on a single-item payment across the units it paid for', async () => {
+    const awards = [
+      { id: 'win-1', event_id: 'event-1', winner_id: 'user-1', amount: '10.00', quantity: 2, payment_status: 'pending', payment_intent_id: 'pi_1' },
+      { id: 'win-2', event_id: 'event-1', winner_id: 'user-1', amount: '10.00', quantity: 1, payment_status: 'pending', payment_intent_id: 'pi_1' },
+    ]
+    mockQuery.mockReset().mockImplementation(async (sql: string) =>
+      sql.includes('FROM event_item_winners') ? result(awards) : result([], 1)
+    )
+
+    await handleWinnerPaymentWebhook({
+      id: 'pi_1',
+      metadata: { type: 'auction_win', itemId: 'item-1', userId: 'user-1', winIds: 'win-1,win-2', platformFee: '1', feesCovered: '1.00' },
+    } as any)
+
+    const covered = mockQuery.mock.calls
+      .filter(([sql]) => sql.includes('SET fees_covered'))
+      .map(([, params]) => params)
+    expect(covered).toEqual([
+      { awardId: 'win-1', feesCovered: 0.67 },
+      { awardId: 'win-2', feesCovered: 0.33 },
+    ])
+  })
+})
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../src/config/database', () => import('./helpers/database'))
+
+import { query } from '../src/config/database'
+import { result } from './helpers/database'
+import { resolveItemCategory, validateCategoryOrder } from '../src/services/eventCategories'
+import { buildCatalogQuery } from '../src/services/itemCatalog'
+
+const mockQuery = vi.mocked(query)
+
+describe('Event Categories', () => {
+  beforeEach(() => {
+    mockQuery.mockReset()
+  })
+
+  it('should only accept a category from the same event', async () => {
+    mockQuery.mockResolvedValueOnce(result([]))
+
+    await expect(resolveItemCategory('event-1', { categoryId: 'other-event-category' }))
+      .rejects.toMatchObject({ statusCode: 404 })
+    expect(mockQuery.mock.calls[0][1]).toEqual({ categoryId: 'other-event-category', eventId: 'event-1' })
+  })
+
+  it('should reuse a category by name before creating one', async () => {
+    mockQuery.mockResolvedValueOnce(result([{ id: 'cat-1', name: 'Experiences' }]))
+
+    expect(await resolveItemCategory('event-1', { category: ' Experiences ' }))
+      .toEqual({ id: 'cat-1', name: 'Experiences' })
+    expect(mockQuery).toHaveBeenCalledTimes(1)
+
+    mockQuery.mockResolvedValueOnce(result([])).mockResolvedValueOnce(result([{ id: 'cat-2', name: 'Wine' }]))
+
+    expect(await resolveItemCategory('event-1', { category: 'Wine' })).toEqual({ id: 'cat-2', name: 'Wine' })
+    expect(mockQuery.mock.calls[2][0]).toContain('INSERT INTO event_categories')
+    expect(await resolveItemCategory('event-1', { category: '  ' })).toBeNull()
+  })
+
+  it('should require a reorder to list every category once', () => {
+    expect(validateCategoryOrder(['A', 'B', 'C'], ['c', 'a', 'b'])).toEqual(['c', 'a', 'b'])
+    expect(() => validateCategoryOrder(['A', 'B'], ['a'])).toThrow('every category')
+    expect(() => validateCategoryOrder(['A', 'B'], ['a', 'a'])).toThrow('only appear once')
+    expect(() => validateCategoryOrder(['A', 'B'], ['a', 'x'])).toThrow('every category')
+  })
+
+  it('should filter the catalog by category id', () => {
+    const catalog = buildCatalogQuery(
+      { categoryId: 'cat-1' },
+      { auctionType: 'standard', buyNowEnabled: true, now: new Date() }
+    )
+
+    expect(catalog.conditions).toEqual(['i.category_id = @categoryId'])
+    expect(catalog.params).toEqual({ categoryId: 'cat-1' })
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { buildDiscoveryQuery } from '../src/services/eventDiscovery'
+import {
+  distanceMiles,
+  findNearbyZips,
+  getZipCentroid,
+  normalizeZip,
+  postalCodeInZips,
+  zipsWithinRadius,
+} from '../src/services/zipCentroids'
+
+describe('Event Discovery', () => {
+  it('should list scheduled, live and past events in the default order', () => {
+    const discovery = buildDiscoveryQuery({})
+
+    expect(discovery.conditions).toEqual(["e.status IN ('scheduled', 'active', 'ended')"])
+    expect(discovery.orderBy).toContain('e.start_time ASC')
+  })
+
+  it('should search events, organizations and items for every word', () => {
+    const discovery = buildDiscoveryQuery({ search: 'animal  shelter', status: 'active' })
+
+    expect(discovery.conditions).toHaveLength(3)
+    expect(discovery.params).toEqual({ status: 'active', search0: '%animal%', search1: '%shelter%' })
+    expect(discovery.conditions[1]).toContain('o.name LIKE @search0')
+    expect(discovery.conditions[1]).toContain('si.title LIKE @search0')
+  })
+
+  it('should pass nearby ZIPs as a single JSON parameter', () => {
+    const discovery = buildDiscoveryQuery({ nearbyZips: ['98290', '98201'] })
+
+    expect(discovery.params.nearbyZips).toBe('["98290","98201"]')
+    expect(discovery.conditions[1]).toContain('OPENJSON(@nearbyZips)')
+    expect(buildDiscoveryQuery({ nearbyZips: [] }).conditions[1]).toBe('1 = 0')
+  })
+
+  it('should sort live events by the soonest close when asked', () => {
+    const discovery = buildDiscoveryQuery({ sort: 'endingSoonest' })
+
+    expect(discovery.orderBy).toMatch(/^CASE e\.status WHEN 'active' THEN 1/)
+    expect(discovery.orderBy).toContain("CASE WHEN e.status = 'ended' THEN NULL ELSE e.end_time END ASC")
+  })
+})
+
+describe('ZIP Centroids', () => {
+  it('should accept ZIP+4 codes and reject anything else', () => {
+    expect(normalizeZip(' 98290-1234 ')).toBe('98290')
+    expect(normalizeZip('9829')).toBeNull()
+    expect(getZipCentroid('00000')).toBeNull()
+  })
+
+  it('should find ZIPs within the radius', () => {
+    const snohomish = getZipCentroid('98290')!
+    const seattle = getZipCentroid('98101')!
+
+    expect(distanceMiles(snohomish, seattle)).toBeGreaterThan(15)
+    expect(distanceMiles(snohomish, seattle)).toBeLessThan(30)
+    expect(zipsWithinRadius(snohomish, 30)).toEqual(expect.arrayContaining(['98290', '98201', '98101']))
+    expect(zipsWithinRadius(snohomish, 30)).not.toContain('97201')
+  })
+
+  it('should cover ZIPs nationwide, not just big cities', () => {
+    // Rural ZIPs from the national ZCTA table
+    expect(getZipCentroid('59001')).not.toBeNull()
+    expect(getZipCentroid('04730')).not.toBeNull()
+
+    const { origin, zips } = findNearbyZips('98290')
+    expect(origin).toEqual(getZipCentroid('98290'))
+    expect(zips).toContain('98272')
+    expect(() => findNearbyZips('00000')).toThrow("We don't have a location for ZIP code 00000")
+  })
+
+  it('should match a postal code column against the nearby ZIPs', () => {
+    expect(postalCodeInZips('ne.pickup_postal_code', ['98290'])).toEqual({
+      condition: 'LEFT(LTRIM(ne.pickup_postal_code), 5) IN (SELECT value FROM OPENJSON(@nearbyZips))',
+      params: { nearbyZips: '["98290"]' },
+    })
+    expect(postalCodeInZips('ne.pickup_postal_code', []).condition).toBe('1 = 0')
+  })
+})
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../src/config/database', () => import('./helpers/database'))
+
+vi.mock('../src/services/uatTime', () => ({
+  getEffectiveTime: vi.fn(),
+}))
+
+vi.mock('../src/services/platformFees', () => ({
+  processEventCompletion: vi.fn(),
+  processGroupCompletion: vi.fn(),
+}))
+
+vi.mock('../src/services/notifications', () => ({
+  notifyEventSubmittersLive: vi.fn().mockResolvedValue(undefined),
+}))
+
+vi.mock('../src/services/watchlist', () => ({
+  sendClosingSoonAlerts: vi.fn().mockResolvedValue(0),
+}))
+
+import { query } from '../src/config/database'
+import { result } from './helpers/database'
+import { getEffectiveTime } from '../src/services/uatTime'
+import { processEventCompletion, processGroupCompletion } from '../src/services/platformFees'
+import { runEventLifecycleTick } from '../src/services/eventLifecycle'
+
+const mockQuery = vi.mocked(query)
+const mockNow = vi.mocked(getEffectiveTime)
+const mockComplete = vi.mocked(processEventCompletion)
+const mockCompleteGroup = vi.mocked(processGroupCompletion)
+
+const NOW = new Date('2025-06-01T20:00:00Z')
+
+describe('Event Lifecycle Scheduler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockNow.mockResolvedValue(NOW)
+    // Queries not set up by a test (e.g. the closing group scan) find nothing
+    mockQuery.mockResolvedValue(result([]))
+  })
+
+  it('should activate scheduled events whose start time has passed', async () => {
+    mockQuery
+      .mockResolvedValueOnce(result([
+        { id: 'e1', name: 'Gala', status: 'scheduled', start_time: new Date('2025-06-01T19:00:00Z'), end_time: new Date('2025-06-02T00:00:00Z'), closes_at: new Date('2025-06-02T00:00:00Z') },
+      ]))
+      .mockResolvedValueOnce(result([], 1))
+
+    const outcome = await runEventLifecycleTick()
+
+    expect(outcome.activated).toEqual(['e1'])
+    expect(mockQuery.mock.calls[1][0]).toContain("status = 'active'")
+  })
+
+  it('should leave events alone before their start time', async () => {
+    mockQuery.mockResolvedValueOnce(result([
+      { id: 'e1', name: 'Gala', status: 'scheduled', start_time: new Date('2025-06-01T21:00:00Z'), end_time: new Date('2025-06-02T00:00:00Z'), closes_at: new Date('2025-06-02T00:00:00Z') },
+    ]))
+
+    const outcome = await runEventLifecycleTick()
+
+    expect(outcome.activated).toEqual([])
+    // Only the event scan and the closing group scan
+    expect(mockQuery).toHaveBeenCalledTimes(2)
+  })
+
+  it('should complete active events past their end time once the lease is taken', async () => {
+    mockQuery
+      .mockResolvedValueOnce(result([
+        { id: 'e2', name: 'Gala', status: 'active', start_time: new Date('2025-06-01T10:00:00Z'), end_time: new Date('2025-06-01T19:59:00Z'), closes_at: new Date('2025-06-01T19:59:00Z') },
+      ]))
+      .mockResolvedValueOnce(result([], 1))
+
+    const outcome = await runEventLifecycleTick()
+
+    expect(mockComplete).toHaveBeenCalledWith('e2')
+    expect(outcome.completed).toEqual(['e2'])
+  })
+
+  it('should skip completion when another instance holds the lease', async () => {
+    mockQuery
+      .mockResolvedValueOnce(result([
+        { id: 'e2', name: 'Gala', status: 'active', start_time: new Date('2025-06-01T10:00:00Z'), end_time: new Date('2025-06-01T19:59:00Z'), closes_at: new Date('2025-06-01T19:59:00Z') },
+      ]))
+      .mockResolvedValueOnce(result([], 0))
+
+    const outcome = await runEventLifecycleTick()
+
+    expect(mockComplete).not.toHaveBeenCalled()
+    expect(outcome.completed).toEqual([])
+  })
+
+  it('should keep an event open while soft close has extended an item', async () => {
+    mockQuery.mockResolvedValueOnce(result([
+      { id: 'e4', name: 'Gala', status: 'active', start_time: new Date('2025-06-01T10:00:00Z'), end_time: new Date('2025-06-01T19:59:00Z'), closes_at: new Date('2025-06-01T20:01:00Z') },
+    ]))
+
+    const outcome = await runEventLifecycleTick()
+
+    expect(mockComplete).not.toHaveBeenCalled()
+    expect(outcome.completed).toEqual([])
+  })
+
+  it('should release the lease when completion fails', async () => {
+    mockQuery
+      .mockResolvedValueOnce(result([
+        { id: 'e3', name: 'Gala', status: 'active', start_time: new Date('2025-06-01T10:00:00Z'), end_time: new Date('2025-06-01T19:59:00Z'), closes_at: new Date('2025-06-01T19:59:00Z') },
+      ]))
+      .mockResolvedValueOnce(result([], 1))
+      .mockResolvedValueOnce(result([], 1))
+    mockComplete.mockRejectedValueOnce(new Error('boom'))
+
+    const outcome = await runEventLifecycleTick()
+
+    expect(outcome.failed).toEqual(['e3'])
+    expect(mockQuery.mock.calls[2][0]).toContain('closing_started_at = NULL')
+  })
+  it('should close a due closing group while the event keeps running', async () => {
+    mockQuery
+      .mockResolvedValueOnce(result([
+        { id: 'e5', name: 'Gala', status: 'active', start_time: new Date('2025-06-01T10:00:00Z'), end_time: new Date('2025-06-01T22:00:00Z'), closes_at: new Date('2025-06-01T22:00:00Z') },
+      ]))
+      .mockResolvedValueOnce(result([
+        { id: 'g1', event_id: 'e5', closes_at: new Date('2025-06-01T19:45:00Z'), simulated_current_time: null },
+        { id: 'g2', event_id: 'e5', closes_at: new Date('2025-06-01T20:15:00Z'), simulated_current_time: null },
+      ]))
+      .mockResolvedValueOnce(result([], 1))
+
+    const outcome = await runEventLifecycleTick()
+
+    expect(mockComplete).not.toHaveBeenCalled()
+    expect(mockCompleteGroup).toHaveBeenCalledTimes(1)
+    expect(mockCompleteGroup).toHaveBeenCalledWith('g1')
+    expect(outcome.closedGroups).toEqual(['g1'])
+  })
+})
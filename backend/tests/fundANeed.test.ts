@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../src/config/database', () => import('./helpers/database'))
+
+vi.mock('../src/services/featureFlags', () => ({
+  isFreeModeEnabled: vi.fn().mockResolvedValue(false),
+}))
+
+vi.mock('../src/services/uatTime', () => ({
+  getEffectiveTime: vi.fn(),
+}))
+
+vi.mock('../src/services/softClose', () => ({
+  countOpenItems: vi.fn().mockResolvedValue(0),
+}))
+
+vi.mock('../src/services/signalr', () => ({
+  broadcastEventEnded: vi.fn(),
+  broadcastItemsClosed: vi.fn(),
+  broadcastFundANeedUpdate: vi.fn(),
+}))
+
+vi.mock('../src/services/notifications', () => ({
+  notifyAuctionWon: vi.fn().mockResolvedValue('n'),
+  notifyAuctionLost: vi.fn().mockResolvedValue('n'),
+  notifyReserveNotMetBidder: vi.fn().mockResolvedValue('n'),
+  notifyReserveNotMetSubmitter: vi.fn().mockResolvedValue('n'),
+}))
+
+import { query } from '../src/config/database'
+import { result } from './helpers/database'
+import { broadcastFundANeedUpdate } from '../src/services/signalr'
+import { processEventCompletion } from '../src/services/platformFees'
+import { announceCampaignTotal } from '../src/services/fundANeed'
+
+const mockQuery = vi.mocked(query)
+
+describe('Fund-a-need', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('SELECT * FROM auction_events')) {
+        return result([{ id: 'e1', auction_type: 'standard', payment_mode: 'integrated' }])
+      }
+      if (sql.includes('RankedBids AS')) {
+        return result([{
+          item_id: 'basket',
+          bidder_id: 'alice',
+          amount: 200,
+          winner_email: 'alice@example.com',
+          winner_name: 'alice',
+          item_title: 'Gift Basket',
+          reserve_price: null,
+          submitted_by: 'donor-1',
+          available: 1,
+          winner_pricing: 'own_bid',
+        }])
+      }
+      if (sql.includes('INSERT INTO event_item_winners')) {
+        return result([{ id: 'award-1' }], 1)
+      }
+      if (sql.includes('FROM fund_a_need_pledges')) {
+        return result([{ total_pledged: '1250.00', pledge_count: 4 }])
+      }
+      return result([], 1)
+    })
+  })
+
+  it('should add active pledges to the event total when it ends, without a platform fee', async () => {
+    const outcome = await processEventCompletion('e1', { force: true })
+
+    expect(outcome.totalPledged).toBe(1250)
+    expect(outcome.totalRaised).toBe(1450)
+    expect(outcome.totalPlatformFees).toBe(1)
+
+    const ended = mockQuery.mock.calls.find(([sql]) => sql.includes("SET status = 'ended'"))!
+    expect(ended[1]).toEqual({ eventId: 'e1', totalRaised: 1450 })
+
+    const totals = mockQuery.mock.calls.find(([sql]) => sql.includes('FROM fund_a_need_pledges'))!
+    expect(totals[0]).toContain("status = 'active'")
+
+    // Campaigns stop taking pledges along with the event
+    expect(mockQuery.mock.calls.some(([sql]) =>
+      sql.includes('UPDATE fund_a_need_campaigns') && sql.includes("status = 'closed'")
+    )).toBe(true)
+  })
+
+  it('should broadcast the campaign total after a pledge', async () => {
+    const totals = await announceCampaignTotal({ id: 'c1', event_id: 'e1', goal_amount: '5000.00' })
+
+    expect(totals).toEqual({ totalPledged: 1250, pledgeCount: 4 })
+    expect(broadcastFundANeedUpdate).toHaveBeenCalledWith({
+      eventId: 'e1',
+      campaignId: 'c1',
+      totalPledged: 1250,
+      pledgeCount: 4,
+      goalAmount: 5000,
+    })
+  })
+})
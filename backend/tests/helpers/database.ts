@@ -0,0 +1,18 @@
+import { vi } from 'vitest'
+import type { QueryResult } from '../../src/config/database'
+
+// Stand-in for src/config/database. Test files swap it in with
+//   vi.mock('../src/config/database', () => import('./helpers/database'))
+// and script queries through vi.mocked(query); withTransaction hands the
+// same mock to its callback, so statements run in a transaction show up there too.
+
+export const query = vi.fn()
+
+export const withTransaction = vi.fn(async (work: (tx: typeof query) => Promise<unknown>) => work(query))
+
+/**
+ * A query result holding these rows
+ */
+export function result(recordset: any[] = [], rowsAffected = recordset.length): QueryResult {
+  return { recordset, recordsets: [recordset], rowsAffected: [rowsAffected] }
+}
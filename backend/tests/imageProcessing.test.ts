@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import sharp from 'sharp'
+import { processImage, renditionBlobName } from '../src/services/imageProcessing'
+
+function makeImage(width: number, height: number) {
+  return sharp({ create: { width, height, channels: 3, background: '#5A7C6F' } })
+}
+
+describe('Image Processing', () => {
+  it('should produce WebP renditions without enlarging small images', async () => {
+    const input = await makeImage(2000, 1000).jpeg().toBuffer()
+
+    const renditions = await processImage(input)
+
+    expect(renditions.map((r) => [r.name, r.width, r.height])).toEqual([
+      ['thumbnail', 320, 160],
+      ['medium', 800, 400],
+      ['full', 1600, 800],
+    ])
+    const small = await processImage(await makeImage(200, 100).png().toBuffer())
+    expect(small.map((r) => r.width)).toEqual([200, 200, 200])
+    expect((await sharp(renditions[0].buffer).metadata()).format).toBe('webp')
+  })
+
+  it('should apply the EXIF orientation and strip metadata', async () => {
+    // Portrait photo stored sideways with orientation 6 (rotate 90° clockwise)
+    const input = await makeImage(400, 200).withMetadata({ orientation: 6 }).jpeg().toBuffer()
+
+    const [thumbnail] = await processImage(input)
+    const metadata = await sharp(thumbnail.buffer).metadata()
+
+    expect([thumbnail.width, thumbnail.height]).toEqual([160, 320])
+    expect(metadata.orientation).toBeUndefined()
+    expect(metadata.exif).toBeUndefined()
+  })
+
+  it('should reject files that are not images', async () => {
+    await expect(processImage(Buffer.from('not an image'))).rejects.toMatchObject({ statusCode: 400 })
+  })
+
+  it('should name renditions after the base path', () => {
+    expect(renditionBlobName('events/e1/cover-abc', 'medium')).toBe('events/e1/cover-abc-medium.webp')
+  })
+})
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { buildCatalogQuery, CatalogContext } from '../src/services/itemCatalog'
+
+const NOW = new Date('2025-06-01T20:00:00Z')
+const context: CatalogContext = { auctionType: 'standard', buyNowEnabled: true, now: NOW, userId: 'user-1' }
+
+describe('Item Catalog', () => {
+  it('should keep the display order when nothing is requested', () => {
+    const catalog = buildCatalogQuery({}, context)
+
+    expect(catalog.conditions).toEqual([])
+    expect(catalog.orderBy).toBe('i.display_order ASC, i.created_at ASC, i.id ASC')
+  })
+
+  it('should require every search word and match wildcards literally', () => {
+    const catalog = buildCatalogQuery({ search: '  wine   50%_off ' }, context)
+
+    expect(catalog.conditions).toHaveLength(2)
+    expect(catalog.params).toEqual({ search0: '%wine%', search1: '%50\\%\\_off%' })
+    expect(catalog.conditions[1]).toContain('i.description LIKE @search1')
+  })
+
+  it('should pass filter values as parameters', () => {
+    const catalog = buildCatalogQuery(
+      { category: "Kids'; DROP TABLE event_items", minPrice: 10, maxPrice: 250, noBids: true },
+      context
+    )
+
+    expect(catalog.conditions.join(' ')).not.toContain('DROP')
+    expect(catalog.params).toEqual({ category: "Kids'; DROP TABLE event_items", minPrice: 10, maxPrice: 250 })
+    expect(catalog.conditions).toContain('i.bid_count = 0')
+  })
+
+  it('should find items closing within the ending soon window', () => {
+    const catalog = buildCatalogQuery({ endingSoon: true }, context)
+
+    expect(catalog.params.now).toEqual(NOW)
+    expect(catalog.params.endingSoonBy).toEqual(new Date('2025-06-01T20:30:00Z'))
+  })
+
+  it('should match nothing for buy now when the event has it turned off', () => {
+    const catalog = buildCatalogQuery({ buyNow: true }, { ...context, buyNowEnabled: false })
+
+    expect(catalog.conditions).toEqual(['1 = 0'])
+  })
+
+  it('should compare the signed-in bidder with the leader of the right bid table', () => {
+    const winning = buildCatalogQuery({ myBids: 'winning' }, context)
+    const outbid = buildCatalogQuery({ myBids: 'outbid' }, { ...context, auctionType: 'silent' })
+
+    expect(winning.conditions[0]).toContain('FROM event_item_bids mb')
+    expect(winning.conditions[0]).toMatch(/\)\s*= @userId$/)
+    expect(outbid.conditions[0]).toContain('FROM event_item_silent_bids mb')
+    expect(outbid.conditions[0]).toMatch(/\)\s*<> @userId$/)
+    expect(outbid.params.userId).toBe('user-1')
+  })
+
+  it('should ignore bid filters for anonymous visitors', () => {
+    const catalog = buildCatalogQuery({ myBids: 'winning' }, { ...context, userId: undefined })
+
+    expect(catalog.conditions).toEqual([])
+  })
+
+  it('should sort with sensible default directions', () => {
+    expect(buildCatalogQuery({ sort: 'currentBid' }, context).orderBy).toMatch(/^COALESCE\(i\.current_bid, i\.starting_price, 0\) DESC/)
+    expect(buildCatalogQuery({ sort: 'bidCount', direction: 'asc' }, context).orderBy).toMatch(/^i\.bid_count ASC/)
+    expect(buildCatalogQuery({ sort: 'closingTime' }, context).orderBy).toMatch(/ END ASC, i\.created_at ASC/)
+  })
+})
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../src/config/database', () => import('./helpers/database'))
+
+vi.mock('../src/services/featureFlags', () => ({
+  isFreeModeEnabled: vi.fn().mockResolvedValue(false),
+}))
+
+vi.mock('../src/services/uatTime', () => ({
+  getEffectiveTime: vi.fn(),
+}))
+
+vi.mock('../src/services/softClose', () => ({
+  countOpenItems: vi.fn().mockResolvedValue(0),
+}))
+
+vi.mock('../src/services/signalr', () => ({
+  broadcastEventEnded: vi.fn(),
+  broadcastItemsClosed: vi.fn(),
+}))
+
+vi.mock('../src/services/notifications', () => ({
+  notifyAuctionWon: vi.fn().mockResolvedValue('n'),
+  notifyAuctionLost: vi.fn().mockResolvedValue('n'),
+  notifyReserveNotMetBidder: vi.fn().mockResolvedValue('n'),
+  notifyReserveNotMetSubmitter: vi.fn().mockResolvedValue('n'),
+}))
+
+import { query } from '../src/config/database'
+import { result } from './helpers/database'
+import { notifyAuctionWon } from '../src/services/notifications'
+import { processEventCompletion } from '../src/services/platformFees'
+import { getAvailableQuantity, priceAwards } from '../src/services/itemAwards'
+
+const mockQuery = vi.mocked(query)
+
+// The top bids on a 3-unit item, as ranked for the units left to bid on
+const rankedBid = (bidderId: string, amount: number, winnerPricing = 'own_bid') => ({
+  item_id: 'tastings',
+  bidder_id: bidderId,
+  amount,
+  winner_email: `${bidderId}@example.com`,
+  winner_name: bidderId,
+  item_title: 'Wine Tasting for Two',
+  reserve_price: null,
+  submitted_by: 'donor-1',
+  available: 3,
+  winner_pricing: winnerPricing,
+})
+
+describe('Multi-quantity items', () => {
+  let winnerPricing = 'own_bid'
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    winnerPricing = 'own_bid'
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('SELECT * FROM auction_events')) {
+        return result([{ id: 'e1', auction_type: 'standard', payment_mode: 'self_managed' }])
+      }
+      if (sql.includes('RankedBids AS')) {
+        return result([
+          rankedBid('alice', 150, winnerPricing),
+          rankedBid('bob', 120, winnerPricing),
+          rankedBid('carol', 100, winnerPricing),
+        ])
+      }
+      if (sql.includes('INSERT INTO event_item_winners')) {
+        return result([{ id: 'award-1' }], 1)
+      }
+      return result([], 1)
+    })
+  })
+
+  it('should award a unit to each of the top bidders at their own bid', async () => {
+    const outcome = await processEventCompletion('e1', { force: true })
+
+    expect(outcome.winningBids.map((bid) => [bid.winnerId, bid.winningAmount])).toEqual([
+      ['alice', 150],
+      ['bob', 120],
+      ['carol', 100],
+    ])
+    expect(outcome.totalRaised).toBe(370)
+
+    const awards = mockQuery.mock.calls.filter(([sql]) => sql.includes('INSERT INTO event_item_winners'))
+    expect(awards.map(([, params]) => params?.winnerId)).toEqual(['alice', 'bob', 'carol'])
+
+    // The item itself keeps the top winner
+    const won = mockQuery.mock.calls.filter(([sql]) => sql.includes("status = 'won'"))
+    expect(won).toHaveLength(1)
+    expect(won[0][1]).toMatchObject({ itemId: 'tastings', winnerId: 'alice', amount: 150 })
+    expect(notifyAuctionWon).toHaveBeenCalledTimes(3)
+  })
+
+  it('should charge every winner the lowest winning bid when configured', async () => {
+    winnerPricing = 'lowest_winning'
+
+    const outcome = await processEventCompletion('e1', { force: true })
+
+    expect(outcome.winningBids.map((bid) => bid.winningAmount)).toEqual([100, 100, 100])
+    expect(outcome.totalRaised).toBe(300)
+  })
+
+  it('should count units sold through buy now against the quantity', () => {
+    expect(getAvailableQuantity({ quantity: 10, quantity_sold: 4 })).toBe(6)
+    expect(getAvailableQuantity({ quantity: 2, quantity_sold: 2 })).toBe(0)
+    expect(getAvailableQuantity({})).toBe(1)
+    expect(priceAwards([90, 75], 'own_bid')).toEqual([90, 75])
+  })
+})
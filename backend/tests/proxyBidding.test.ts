@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest'
+import { resolveProxyBid, resolveProxyContest, calculateMinBid } from '../src/services/proxyBidding'
+
+const increment = { incrementType: 'fixed', incrementValue: 5 }
+const EARLIER = new Date('2025-06-01T10:00:00Z')
+const LATER = new Date('2025-06-01T11:00:00Z')
+
+describe('Proxy Bidding', () => {
+  it('should calculate fixed and percent increments', () => {
+    expect(calculateMinBid(100, 50, 'fixed', 5)).toBe(105)
+    expect(calculateMinBid(null, 50, 'fixed', 5)).toBe(55)
+    expect(calculateMinBid(100, 50, 'percent', 10)).toBe(110)
+  })
+
+  it('should award the first bid at the amount entered, not the maximum', () => {
+    const resolution = resolveProxyBid({
+      startingPrice: 50,
+      increment,
+      leader: null,
+      currentBid: null,
+      challenger: { bidderId: 'alice', amount: 55, ceiling: 200, setAt: EARLIER },
+    })
+
+    expect(resolution.price).toBe(55)
+    expect(resolution.winnerId).toBe('alice')
+    expect(resolution.bids).toHaveLength(1)
+  })
+
+  it('should auto-bid for the leader just enough to stay ahead', () => {
+    const resolution = resolveProxyBid({
+      startingPrice: 50,
+      increment,
+      leader: { bidderId: 'alice', ceiling: 200, setAt: EARLIER },
+      currentBid: 55,
+      challenger: { bidderId: 'bob', amount: 60, ceiling: 60, setAt: LATER },
+    })
+
+    expect(resolution.leaderChanged).toBe(false)
+    expect(resolution.price).toBe(65)
+    expect(resolution.bids).toEqual([
+      { bidderId: 'bob', amount: 60, isProxy: false, isWinning: false },
+      { bidderId: 'alice', amount: 65, isProxy: true, isWinning: true },
+    ])
+  })
+
+  it('should cap the leader at their maximum when the challenger bids just below it', () => {
+    const resolution = resolveProxyBid({
+      startingPrice: 50,
+      increment,
+      leader: { bidderId: 'alice', ceiling: 200, setAt: EARLIER },
+      currentBid: 55,
+      challenger: { bidderId: 'bob', amount: 198, ceiling: 198, setAt: LATER },
+    })
+
+    expect(resolution.winnerId).toBe('alice')
+    expect(resolution.price).toBe(200)
+  })
+
+  it('should give ties to the maximum that was set first', () => {
+    const resolution = resolveProxyBid({
+      startingPrice: 50,
+      increment,
+      leader: { bidderId: 'alice', ceiling: 200, setAt: EARLIER },
+      currentBid: 55,
+      challenger: { bidderId: 'bob', amount: 60, ceiling: 200, setAt: LATER },
+    })
+
+    expect(resolution.winnerId).toBe('alice')
+    expect(resolution.price).toBe(200)
+    expect(resolution.bids[0]).toMatchObject({ bidderId: 'bob', amount: 200, isProxy: true })
+  })
+
+  it('should exhaust the leader before a higher maximum takes over', () => {
+    const resolution = resolveProxyBid({
+      startingPrice: 50,
+      increment,
+      leader: { bidderId: 'alice', ceiling: 100, setAt: EARLIER },
+      currentBid: 55,
+      challenger: { bidderId: 'bob', amount: 60, ceiling: 300, setAt: LATER },
+    })
+
+    expect(resolution.leaderChanged).toBe(true)
+    expect(resolution.price).toBe(105)
+    expect(resolution.bids).toEqual([
+      { bidderId: 'alice', amount: 100, isProxy: true, isWinning: false },
+      { bidderId: 'bob', amount: 105, isProxy: true, isWinning: true },
+    ])
+  })
+
+  it('should take the lead at the amount entered when the leader has no headroom', () => {
+    const resolution = resolveProxyBid({
+      startingPrice: 50,
+      increment,
+      leader: { bidderId: 'alice', ceiling: 55, setAt: EARLIER },
+      currentBid: 55,
+      challenger: { bidderId: 'bob', amount: 70, ceiling: 70, setAt: LATER },
+    })
+
+    expect(resolution.price).toBe(70)
+    expect(resolution.bids).toEqual([
+      { bidderId: 'bob', amount: 70, isProxy: false, isWinning: true },
+    ])
+  })
+
+  it('should re-run a contest between standing maximums', () => {
+    const contest = (contenders: { bidderId: string; ceiling: number; setAt: Date }[]) =>
+      resolveProxyContest({ startingPrice: 50, increment, contenders })
+
+    expect(contest([])).toBeNull()
+    expect(contest([{ bidderId: 'alice', ceiling: 200, setAt: EARLIER }])).toEqual({ winnerId: 'alice', price: 55 })
+    expect(contest([
+      { bidderId: 'bob', ceiling: 80, setAt: EARLIER },
+      { bidderId: 'alice', ceiling: 200, setAt: LATER },
+    ])).toEqual({ winnerId: 'alice', price: 85 })
+    expect(contest([
+      { bidderId: 'bob', ceiling: 80, setAt: LATER },
+      { bidderId: 'alice', ceiling: 80, setAt: EARLIER },
+    ])).toEqual({ winnerId: 'alice', price: 80 })
+  })
+})
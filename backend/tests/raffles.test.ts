@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../src/config/database', () => import('./helpers/database'))
+
+import { drawWinningTickets, drawRaffle, quoteTickets } from '../src/services/raffles'
+import { result } from './helpers/database'
+
+const SEED = 'a'.repeat(64)
+
+describe('drawWinningTickets', () => {
+  it('is reproducible from the stored seed and entries', () => {
+    const entries: [number, number][] = [[1, 5], [9, 20], [6, 8]]
+
+    const first = drawWinningTickets(SEED, entries, 3)
+    expect(drawWinningTickets(SEED, entries, 3)).toEqual(first)
+    // Entry order doesn't matter, only the tickets in the draw
+    expect(drawWinningTickets(SEED, entries.slice().reverse(), 3)).toEqual(first)
+
+    expect(new Set(first).size).toBe(3)
+    for (const ticket of first) {
+      expect(ticket).toBeGreaterThanOrEqual(1)
+      expect(ticket).toBeLessThanOrEqual(20)
+    }
+  })
+
+  it('only draws entered tickets and stops when they run out', () => {
+    const winners = drawWinningTickets('b'.repeat(64), [[3, 3], [7, 8]], 5)
+
+    expect(winners.slice().sort()).toEqual([3, 7, 8])
+  })
+})
+
+describe('quoteTickets', () => {
+  const bundles = [{ id: 'bundle-5', ticket_count: 5, price: '20.00' }]
+
+  it('prices single tickets and bundles', () => {
+    expect(quoteTickets({ ticket_price: '5.00' }, bundles, { ticketCount: 3 }))
+      .toEqual({ ticketCount: 3, amount: 15, bundleId: null })
+    expect(quoteTickets({ ticket_price: '5.00' }, bundles, { bundleId: 'bundle-5' }))
+      .toEqual({ ticketCount: 5, amount: 20, bundleId: 'bundle-5' })
+  })
+
+  it('rejects a bundle from another raffle', () => {
+    expect(() => quoteTickets({ ticket_price: '5.00' }, bundles, { bundleId: 'other' }))
+      .toThrow('Ticket bundle not found')
+  })
+})
+
+describe('drawRaffle', () => {
+  it('records the seed and entries, and the winners match a re-run', async () => {
+    const tx = vi.fn()
+    tx.mockResolvedValueOnce(result([{
+      id: 'raffle-1', event_id: 'event-1', title: 'Quilt', prize_description: null,
+      status: 'closed', number_of_winners: 2,
+    }]))
+    tx.mockResolvedValueOnce(result([
+      { id: 'p1', buyer_id: 'alice', first_ticket: 1, last_ticket: 5 },
+      { id: 'p2', buyer_id: 'bob', first_ticket: 8, last_ticket: 8 },
+    ]))
+    tx.mockResolvedValue(result([], 1))
+
+    const outcome = await drawRaffle('raffle-1', 'admin', tx)
+
+    expect(outcome.entryCount).toBe(6)
+    expect(outcome.winners).toHaveLength(2)
+
+    const update = tx.mock.calls.find(([sql]) => sql.includes("status = 'drawn'"))!
+    expect(update[1].seed).toBe(outcome.seed)
+    expect(update[1].entries).toBe('[[1,5],[8,8]]')
+
+    const rerun = drawWinningTickets(update[1].seed, JSON.parse(update[1].entries), 2)
+    expect(outcome.winners.map((w) => w.ticketNumber)).toEqual(rerun)
+    for (const winner of outcome.winners) {
+      expect(winner.winnerId).toBe(winner.ticketNumber === 8 ? 'bob' : 'alice')
+    }
+  })
+
+  it('refuses to draw twice', async () => {
+    const tx = vi.fn().mockResolvedValueOnce(result([{ id: 'raffle-1', status: 'drawn' }]))
+
+    await expect(drawRaffle('raffle-1', 'admin', tx)).rejects.toThrow('already been drawn')
+  })
+})
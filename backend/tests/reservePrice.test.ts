@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../src/config/database', () => import('./helpers/database'))
+
+vi.mock('../src/services/featureFlags', () => ({
+  isFreeModeEnabled: vi.fn().mockResolvedValue(false),
+}))
+
+vi.mock('../src/services/uatTime', () => ({
+  getEffectiveTime: vi.fn(),
+}))
+
+vi.mock('../src/services/softClose', () => ({
+  countOpenItems: vi.fn().mockResolvedValue(0),
+}))
+
+vi.mock('../src/services/signalr', () => ({
+  broadcastEventEnded: vi.fn(),
+  broadcastItemsClosed: vi.fn(),
+}))
+
+vi.mock('../src/services/notifications', () => ({
+  notifyAuctionWon: vi.fn().mockResolvedValue('n'),
+  notifyAuctionLost: vi.fn().mockResolvedValue('n'),
+  notifyReserveNotMetBidder: vi.fn().mockResolvedValue('n'),
+  notifyReserveNotMetSubmitter: vi.fn().mockResolvedValue('n'),
+}))
+
+import { query, withTransaction } from '../src/config/database'
+import { result } from './helpers/database'
+import {
+  notifyAuctionWon,
+  notifyReserveNotMetBidder,
+  notifyReserveNotMetSubmitter,
+} from '../src/services/notifications'
+import { processEventCompletion } from '../src/services/platformFees'
+
+const mockQuery = vi.mocked(query)
+
+const topBid = (itemId: string, amount: number, reservePrice: number | null) => ({
+  item_id: itemId,
+  bidder_id: `bidder-${itemId}`,
+  amount,
+  winner_email: `bidder-${itemId}@example.com`,
+  winner_name: 'Bidder',
+  item_title: `Item ${itemId}`,
+  reserve_price: reservePrice,
+  submitted_by: `donor-${itemId}`,
+})
+
+describe('Reserve prices at event close', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('SELECT * FROM auction_events')) {
+        return result([{ id: 'e1', auction_type: 'standard', payment_mode: 'self_managed' }])
+      }
+      if (sql.includes('RankedBids AS')) {
+        return result([
+          topBid('met', 500, 400),
+          topBid('under', 250, 300),
+          topBid('none', 80, null),
+        ])
+      }
+      if (sql.includes('INSERT INTO event_item_winners')) {
+        return result([{ id: 'award-1' }], 1)
+      }
+      return result([], 1)
+    })
+  })
+
+  it('should leave items under their reserve unsold', async () => {
+    const outcome = await processEventCompletion('e1', { force: true })
+
+    expect(outcome.winningBids.map((bid) => bid.itemId)).toEqual(['met', 'none'])
+    expect(outcome.totalRaised).toBe(580)
+
+    const updates = mockQuery.mock.calls.filter(([sql]) => sql.includes('UPDATE event_items'))
+    const unsold = updates.find(([sql, params]) => sql.includes("status = 'unsold'") && params?.itemId === 'under')
+    expect(unsold).toBeDefined()
+    expect(updates.some(([sql, params]) => sql.includes("status = 'won'") && params?.itemId === 'under')).toBe(false)
+  })
+
+  it('should tell the top bidder and the submitter when the reserve was not met', async () => {
+    await processEventCompletion('e1', { force: true })
+
+    expect(notifyReserveNotMetBidder).toHaveBeenCalledTimes(1)
+    expect(notifyReserveNotMetBidder).toHaveBeenCalledWith('bidder-under', 'Item under', 250, 'e1', 'under')
+    expect(notifyReserveNotMetSubmitter).toHaveBeenCalledTimes(1)
+    expect(notifyReserveNotMetSubmitter).toHaveBeenCalledWith('donor-under', 'Item under', 250, 300, 'e1', 'under')
+    expect(vi.mocked(notifyAuctionWon).mock.calls.map((call) => call[4])).toEqual(['met', 'none'])
+  })
+
+  it('should write the close in one transaction and notify no one when it fails', async () => {
+    // Statements run in the transaction go to their own mock, which fails on the event totals
+    const tx = vi.fn(async (sql: string, params?: any) => {
+      if (sql.includes('UPDATE auction_events')) throw new Error('deadlock')
+      return mockQuery(sql, params)
+    })
+    vi.mocked(withTransaction).mockImplementationOnce(async (work: any) => work(tx))
+    const outsideTx = () => mockQuery.mock.calls.filter(([sql]) => !tx.mock.calls.some(([txSql]) => txSql === sql))
+
+    await expect(processEventCompletion('e1', { force: true })).rejects.toThrow('deadlock')
+
+    expect(tx.mock.calls.some(([sql]) => sql.includes("status = 'won'"))).toBe(true)
+    expect(tx.mock.calls.some(([sql]) => sql.includes("status = 'unsold'"))).toBe(true)
+    expect(tx.mock.calls.some(([sql]) => sql.includes('INSERT INTO event_item_winners'))).toBe(true)
+    // Only loading the event ran outside it
+    expect(outsideTx().map(([sql]) => sql)).toEqual([expect.stringContaining('SELECT * FROM auction_events')])
+    expect(notifyAuctionWon).not.toHaveBeenCalled()
+    expect(notifyReserveNotMetBidder).not.toHaveBeenCalled()
+  })
+})
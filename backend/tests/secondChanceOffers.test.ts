@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../src/config/database', () => import('./helpers/database'))
+
+vi.mock('../src/services/uatTime', () => ({
+  getEffectiveTime: vi.fn(),
+}))
+
+import { query } from '../src/config/database'
+import { getEffectiveTime } from '../src/services/uatTime'
+import { result } from './helpers/database'
+import {
+  acceptSecondChanceOffer,
+  createSecondChanceOffer,
+  declineSecondChanceOffer,
+  getBidderOffer,
+  markAwardDefaulted,
+} from '../src/services/secondChanceOffers'
+
+const mockQuery = vi.mocked(query)
+
+const award = {
+  id: 'win-1', item_id: 'item-1', event_id: 'event-1', winner_id: 'deadbeat', amount: '500.00',
+  payment_status: 'defaulted', title: 'Weekend cabin', reserve_price: null, item_winner_id: 'deadbeat',
+  auction_type: 'standard', payment_mode: 'integrated', owner_id: 'owner-1', organization_id: 'org-1',
+}
+
+const offerRow = {
+  id: 'offer-1', item_id: 'item-1', event_id: 'event-1', award_id: 'win-1', previous_winner_id: 'deadbeat',
+  bidder_id: 'runner-up', amount: '450.00', status: 'pending', item_title: 'Weekend cabin', event_name: 'Spring Gala',
+  payment_mode: 'integrated', owner_id: 'owner-1', organization_id: 'org-1',
+  expires_at: new Date(Date.now() + 60 * 60 * 1000), created_at: new Date(),
+}
+
+function sqlCalls(fragment: string) {
+  return mockQuery.mock.calls.filter(([sql]) => sql.includes(fragment))
+}
+
+describe('Second-Chance Offers', () => {
+  beforeEach(() => {
+    mockQuery.mockReset()
+    vi.mocked(getEffectiveTime).mockImplementation(async () => new Date())
+  })
+
+  it('should mark only unpaid wins defaulted and waive their platform fee', async () => {
+    mockQuery.mockResolvedValueOnce(result([{ ...award, payment_status: 'paid' }]))
+    await expect(markAwardDefaulted('item-1', 'win-1', null, query)).rejects.toThrow('Only unpaid wins')
+
+    mockQuery.mockReset()
+    mockQuery.mockImplementation(async (sql: string) =>
+      sql.includes('FROM event_item_winners w') ? result([{ ...award, payment_status: 'payment_issue' }]) : result([], 1)
+    )
+    await markAwardDefaulted('item-1', 'win-1', 'No response after three reminders', query)
+
+    expect(sqlCalls("payment_status = 'defaulted'")[0][1]).toMatchObject({ awardId: 'win-1', notes: 'No response after three reminders' })
+    expect(sqlCalls("UPDATE platform_fees SET status = 'waived'")[0][1]).toEqual({ awardId: 'win-1' })
+    expect(sqlCalls('UPDATE TOP (1) platform_fees')).toHaveLength(0)
+  })
+
+  it('should offer a defaulted win to the next bidder at their own bid', async () => {
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM event_item_winners w')) return result([award])
+      if (sql.includes('SELECT id FROM second_chance_offers')) return result([])
+      if (sql.includes('SELECT i.reserve_price')) return result([{ reserve_price: '400.00', auction_type: 'standard' }])
+      if (sql.includes('WITH BestBids')) return result([{ bidder_id: 'runner-up', amount: '450.00', bidder_name: 'Sam' }])
+      if (sql.includes('FROM second_chance_offers o')) return result([offerRow])
+      return result([], 1)
+    })
+
+    const offer = await createSecondChanceOffer('item-1', 'win-1', 'owner-1', 48, query)
+
+    expect(offer).toMatchObject({ id: 'offer-1', bidderId: 'runner-up', amount: 450, status: 'pending' })
+    const [bestBidsSql, bestBidsParams] = sqlCalls('WITH BestBids')[0]
+    expect(bestBidsSql).toContain('FROM event_item_bids')
+    expect(bestBidsSql).toContain('NOT IN (SELECT winner_id FROM event_item_winners')
+    expect(bestBidsParams).toEqual({ itemId: 'item-1', reservePrice: '400.00' })
+    expect(sqlCalls('INSERT INTO second_chance_offers')[0][1]).toMatchObject({
+      previousWinnerId: 'deadbeat', bidderId: 'runner-up', amount: 450, expiresInHours: 48,
+    })
+
+    // Wins that aren't defaulted can't be offered on
+    mockQuery.mockReset()
+    mockQuery.mockResolvedValueOnce(result([{ ...award, payment_status: 'pending' }]))
+    await expect(createSecondChanceOffer('item-1', 'win-1', 'owner-1', 48, query)).rejects.toThrow('Mark this win defaulted')
+  })
+
+  it('should hand the win, item and a new platform fee to the bidder who accepts', async () => {
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM second_chance_offers o WITH (UPDLOCK')) return result([offerRow])
+      if (sql.includes('FROM event_item_winners w')) return result([award])
+      if (sql.includes('FROM second_chance_offers o')) return result([{ ...offerRow, status: 'accepted' }])
+      return result([], 1)
+    })
+
+    await expect(acceptSecondChanceOffer('offer-1', 'someone-else', false, query)).rejects.toThrow('Offer not found')
+
+    const offer = await acceptSecondChanceOffer('offer-1', 'runner-up', false, query)
+
+    expect(offer.status).toBe('accepted')
+    const [awardSql, awardParams] = sqlCalls('UPDATE event_item_winners SET')[0]
+    expect(awardSql).toContain("payment_status = 'pending'")
+    expect(awardParams).toEqual({ awardId: 'win-1', bidderId: 'runner-up', amount: '450.00' })
+    expect(sqlCalls('UPDATE event_items SET winner_id')[0][1]).toMatchObject({ bidderId: 'runner-up', previousWinnerId: 'deadbeat' })
+    expect(sqlCalls('INSERT INTO platform_fees')[0][1]).toMatchObject({ eventId: 'event-1', awardId: 'win-1', amount: 1, organizationId: 'org-1' })
+    expect(sqlCalls("status = 'accepted'")).toHaveLength(1)
+
+    // Expired offers can no longer be answered
+    mockQuery.mockReset()
+    mockQuery.mockResolvedValueOnce(result([{ ...offerRow, expires_at: new Date(Date.now() - 1000) }]))
+    await expect(declineSecondChanceOffer('offer-1', 'runner-up', query)).rejects.toThrow('expired')
+  })
+
+  it('should hand every unit of a defaulted award on a multi-unit item to the bidder who accepts', async () => {
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM second_chance_offers o WITH (UPDLOCK')) return result([offerRow])
+      if (sql.includes('FROM event_item_winners w WITH')) return result([{ ...award, quantity: 2, item_quantity: 5 }])
+      if (sql.includes('FROM second_chance_offers o')) return result([{ ...offerRow, quantity: 2, status: 'accepted' }])
+      return result([], 1)
+    })
+
+    const offer = await acceptSecondChanceOffer('offer-1', 'runner-up', false, query)
+
+    expect(offer).toMatchObject({ amount: 450, quantity: 2 })
+    // Both units stay on the award, now the bidder's
+    const [awardSql, awardParams] = sqlCalls('UPDATE event_item_winners SET')[0]
+    expect(awardSql).not.toContain('quantity')
+    expect(awardParams).toEqual({ awardId: 'win-1', bidderId: 'runner-up', amount: '450.00' })
+    // The item keeps its own winner and price
+    expect(sqlCalls('UPDATE event_items SET winner_id')).toHaveLength(0)
+  })
+
+  it('should expire offers on the event clock', async () => {
+    // An hour left in real time, but the event's clock is a day ahead
+    vi.mocked(getEffectiveTime).mockResolvedValue(new Date(Date.now() + 24 * 60 * 60 * 1000))
+    mockQuery.mockImplementation(async (sql: string) =>
+      sql.includes('FROM second_chance_offers o') ? result([offerRow]) : result([], 1)
+    )
+
+    expect((await getBidderOffer('offer-1', 'runner-up', query)).status).toBe('expired')
+    await expect(acceptSecondChanceOffer('offer-1', 'runner-up', false, query)).rejects.toThrow('expired')
+  })
+})
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
+import { createServer, Server } from 'http'
+import { AddressInfo } from 'net'
+import { WebSocket } from 'ws'
+
+vi.mock('../src/middleware/auth', () => ({
+  // Tokens in these tests are just the user id
+  verifyUserToken: vi.fn(async (token: string) => {
+    if (token === 'bad') {
+      throw new Error('invalid signature')
+    }
+    return { user: { id: token, email: `${token}@example.com` }, expiresAt: null }
+  }),
+}))
+
+import { initializeSignalR, broadcastToUser, broadcastItemBidUpdate } from '../src/services/signalr'
+import { InMemoryHubBackplane } from '../src/services/hubBackplane'
+
+let server: Server
+let hubUrl: string
+
+interface TestClient {
+  ws: WebSocket
+  messages: Array<{ type: string; data: any }>
+}
+
+function connect(token?: string): Promise<TestClient> {
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(token ? `${hubUrl}?access_token=${token}` : hubUrl)
+    const client: TestClient = { ws, messages: [] }
+
+    ws.on('message', (raw) => {
+      const message = JSON.parse(raw.toString())
+      if (message.type === 'connected') {
+        resolve(client)
+      } else {
+        client.messages.push(message)
+      }
+    })
+    ws.on('unexpected-response', (_req, res) => reject(new Error(`HTTP ${res.statusCode}`)))
+    ws.on('error', reject)
+  })
+}
+
+// Give the server a moment to process what clients sent / deliver broadcasts
+const settle = () => new Promise((resolve) => setTimeout(resolve, 50))
+
+describe('Auction hub', () => {
+  beforeAll(async () => {
+    server = createServer()
+    initializeSignalR(server, new InMemoryHubBackplane())
+    await new Promise<void>((resolve) => server.listen(0, resolve))
+    hubUrl = `ws://localhost:${(server.address() as AddressInfo).port}/hubs/auction`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  it('should deliver user messages only to that user\'s sockets', async () => {
+    const aliceTab1 = await connect('alice')
+    const aliceTab2 = await connect('alice')
+    const bob = await connect('bob')
+    const anonymous = await connect()
+
+    broadcastToUser('alice', 'Notification', { title: 'You have been outbid' })
+    await settle()
+
+    expect(aliceTab1.messages).toEqual([{ type: 'Notification', data: { title: 'You have been outbid' } }])
+    expect(aliceTab2.messages).toHaveLength(1)
+    expect(bob.messages).toHaveLength(0)
+    expect(anonymous.messages).toHaveLength(0)
+
+    for (const client of [aliceTab1, aliceTab2, bob, anonymous]) {
+      client.ws.close()
+    }
+  })
+
+  it('should stop delivering to a socket once it closes', async () => {
+    const first = await connect('carol')
+    const second = await connect('carol')
+
+    first.ws.close()
+    await settle()
+
+    broadcastToUser('carol', 'Notification', { title: 'Still here' })
+    await settle()
+
+    expect(first.messages).toHaveLength(0)
+    expect(second.messages).toHaveLength(1)
+
+    second.ws.close()
+  })
+
+  it('should refuse a handshake with an invalid token', async () => {
+    await expect(connect('bad')).rejects.toThrow('HTTP 401')
+  })
+
+  it('should scope item broadcasts to the event and item groups', async () => {
+    const catalog = await connect()
+    const itemPage = await connect()
+    const otherItemPage = await connect()
+
+    catalog.ws.send(JSON.stringify({ type: 'JoinEventGroup', eventId: 'event-1' }))
+    itemPage.ws.send(JSON.stringify({ type: 'JoinItemGroup', itemId: 'item-1' }))
+    otherItemPage.ws.send(JSON.stringify({ type: 'JoinItemGroup', itemId: 'item-2' }))
+    await settle()
+
+    broadcastItemBidUpdate({
+      eventId: 'event-1',
+      itemId: 'item-1',
+      currentBid: 120,
+      bidCount: 4,
+      minNextBid: 125,
+      endTime: '2025-06-01T20:00:00.000Z',
+      extended: false,
+      reserveMet: null,
+    })
+    await settle()
+
+    expect(catalog.messages.map((m) => m.type)).toEqual(['ItemBidUpdate'])
+    expect(itemPage.messages.map((m) => m.type)).toEqual(['ItemBidUpdate'])
+    expect(otherItemPage.messages).toHaveLength(0)
+
+    for (const client of [catalog, itemPage, otherItemPage]) {
+      client.ws.close()
+    }
+  })
+})
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { calculateExtendedEndTime, getItemEndTime, getSoftCloseSettings } from '../src/services/softClose'
+
+const END = new Date('2025-06-01T20:00:00Z')
+const settings = { enabled: true, windowMinutes: 2, extensionMinutes: 5 }
+
+describe('Soft Close', () => {
+  it('should extend an item when a bid lands inside the closing window', () => {
+    const extended = calculateExtendedEndTime(settings, END, new Date('2025-06-01T19:59:00Z'))
+    expect(extended).toEqual(new Date('2025-06-01T20:05:00Z'))
+  })
+
+  it('should not extend for bids outside the window', () => {
+    expect(calculateExtendedEndTime(settings, END, new Date('2025-06-01T19:50:00Z'))).toBeNull()
+  })
+
+  it('should not extend once the item has closed', () => {
+    expect(calculateExtendedEndTime(settings, END, new Date('2025-06-01T20:00:30Z'))).toBeNull()
+  })
+
+  it('should not extend when soft close is disabled', () => {
+    const disabled = { ...settings, enabled: false }
+    expect(calculateExtendedEndTime(disabled, END, new Date('2025-06-01T19:59:00Z'))).toBeNull()
+  })
+
+  it('should fall back to the event end time for items that were never extended', () => {
+    expect(getItemEndTime(null, END)).toEqual(END)
+    expect(getItemEndTime('2025-06-01T20:04:00Z', END)).toEqual(new Date('2025-06-01T20:04:00Z'))
+  })
+
+  it('should default the window and extension when unset', () => {
+    expect(getSoftCloseSettings({ soft_close_enabled: 1 })).toEqual({
+      enabled: true,
+      windowMinutes: 2,
+      extensionMinutes: 2,
+    })
+  })
+})
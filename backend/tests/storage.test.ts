@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  AzureBlobStorageProvider,
+  LocalDiskStorageProvider,
+  createStorageProvider,
+  setStorageProvider,
+  uploadToBlob,
+  deleteImage,
+  deleteAuctionImages,
+} from '../src/services/storage'
+
+const BASE_URL = 'http://localhost:4000/uploads'
+
+describe('Local Disk Storage', () => {
+  let rootDir: string
+  let provider: LocalDiskStorageProvider
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-test-'))
+    provider = new LocalDiskStorageProvider(rootDir, `${BASE_URL}/`, 'test-secret')
+    setStorageProvider(provider)
+  })
+
+  afterEach(async () => {
+    setStorageProvider(null)
+    await fs.rm(rootDir, { recursive: true, force: true })
+  })
+
+  it('should store, read back, list and delete objects', async () => {
+    const url = await uploadToBlob(Buffer.from('photo'), 'event-items/item-1/a-full.webp', 'image/webp')
+    await uploadToBlob(Buffer.from('other'), 'events/e1/cover.png', 'image/png')
+
+    expect(url).toBe(`${BASE_URL}/event-items/item-1/a-full.webp`)
+    expect(await provider.get('event-items/item-1/a-full.webp')).toEqual({
+      data: Buffer.from('photo'),
+      contentType: 'image/webp',
+    })
+    expect(await provider.list('event-items/')).toEqual(['event-items/item-1/a-full.webp'])
+
+    await deleteImage(url)
+
+    expect(await provider.get('event-items/item-1/a-full.webp')).toBeNull()
+    expect(await provider.list('')).toEqual(['events/e1/cover.png'])
+  })
+
+  it('should delete everything under an auction prefix', async () => {
+    await uploadToBlob(Buffer.from('1'), 'auction-1/a.jpg', 'image/jpeg')
+    await uploadToBlob(Buffer.from('2'), 'auction-1/b.jpg', 'image/jpeg')
+    await uploadToBlob(Buffer.from('3'), 'auction-10/c.jpg', 'image/jpeg')
+
+    await deleteAuctionImages('auction-1')
+
+    expect(await provider.list('')).toEqual(['auction-10/c.jpg'])
+  })
+
+  it('should refuse keys that escape the storage directory', async () => {
+    await expect(provider.put('../outside.txt', Buffer.from('x'), 'text/plain')).rejects.toThrow('Invalid storage key')
+    await expect(provider.put('/etc/passwd', Buffer.from('x'), 'text/plain')).rejects.toThrow('Invalid storage key')
+  })
+
+  it('should ignore URLs it did not issue', async () => {
+    expect(provider.keyFromUrl('https://account.blob.core.windows.net/auction-images/a.jpg')).toBeNull()
+    await expect(deleteImage('https://account.blob.core.windows.net/auction-images/a.jpg')).resolves.toBeUndefined()
+  })
+
+  it('should sign URLs that expire', async () => {
+    const signedUrl = new URL(await provider.getSignedUrl('events/e1/cover.png', 5))
+    const expires = signedUrl.searchParams.get('expires')!
+    const signature = signedUrl.searchParams.get('signature')!
+
+    expect(provider.keyFromUrl(signedUrl.toString())).toBe('events/e1/cover.png')
+    expect(provider.verifySignature('events/e1/cover.png', expires, signature)).toBe(true)
+    expect(provider.verifySignature('events/e1/other.png', expires, signature)).toBe(false)
+    expect(provider.verifySignature('events/e1/cover.png', String(Date.now() - 1000), signature)).toBe(false)
+  })
+})
+
+describe('Storage Provider Selection', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should only use local disk in production when asked to', () => {
+    vi.stubEnv('NODE_ENV', 'production')
+    vi.stubEnv('AZURE_STORAGE_CONNECTION_STRING', '')
+    vi.stubEnv('STORAGE_PROVIDER', '')
+    vi.stubEnv('LOCAL_STORAGE_SIGNING_SECRET', 'test-secret')
+    expect(() => createStorageProvider()).toThrow('Storage not configured')
+
+    vi.stubEnv('STORAGE_PROVIDER', 'local')
+    expect(createStorageProvider()).toBeInstanceOf(LocalDiskStorageProvider)
+
+    vi.stubEnv('STORAGE_PROVIDER', '')
+    vi.stubEnv('AZURE_STORAGE_CONNECTION_STRING', 'UseDevelopmentStorage=true')
+    expect(createStorageProvider()).toBeInstanceOf(AzureBlobStorageProvider)
+  })
+
+  it('should only require a signing secret for local disk in production', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.stubEnv('NODE_ENV', 'development')
+    vi.stubEnv('AZURE_STORAGE_CONNECTION_STRING', '')
+    vi.stubEnv('STORAGE_PROVIDER', '')
+    vi.stubEnv('LOCAL_STORAGE_SIGNING_SECRET', '')
+    expect(createStorageProvider()).toBeInstanceOf(LocalDiskStorageProvider)
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('LOCAL_STORAGE_SIGNING_SECRET is not set'))
+
+    vi.stubEnv('NODE_ENV', 'production')
+    vi.stubEnv('STORAGE_PROVIDER', 'local')
+    expect(() => createStorageProvider()).toThrow('LOCAL_STORAGE_SIGNING_SECRET must be set')
+
+    vi.stubEnv('LOCAL_STORAGE_SIGNING_SECRET', 'test-secret')
+    expect(createStorageProvider()).toBeInstanceOf(LocalDiskStorageProvider)
+  })
+})
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../src/config/database', () => import('./helpers/database'))
+
+vi.mock('../src/services/email', () => ({
+  sendTaxReceiptEmail: vi.fn().mockResolvedValue(true),
+}))
+
+import { query } from '../src/config/database'
+import { result } from './helpers/database'
+import { sendTaxReceiptEmail } from '../src/services/email'
+import {
+  calculateDeductible,
+  getReceiptLegalText,
+  issueTaxReceipt,
+  renderTaxReceiptPdf,
+} from '../src/services/taxReceipts'
+
+const mockQuery = vi.mocked(query)
+
+const organization = { name: 'Riverside PTA', ein: '12-3456789', address: ['1 Main St', 'Springfield, IL 62701'] }
+
+describe('Tax Receipts', () => {
+  beforeEach(() => {
+    mockQuery.mockReset()
+    vi.mocked(sendTaxReceiptEmail).mockClear()
+  })
+
+  it('should only count what was paid above fair market value as deductible', () => {
+    expect(calculateDeductible(300, 200)).toEqual({ fairMarketValue: 200, deductibleAmount: 100 })
+    expect(calculateDeductible(150, 200)).toEqual({ fairMarketValue: 200, deductibleAmount: 0 })
+    expect(calculateDeductible(50, 0)).toEqual({ fairMarketValue: 0, deductibleAmount: 50 })
+    // No value recorded: treated as worth what was paid
+    expect(calculateDeductible(80, null)).toEqual({ fairMarketValue: 80, deductibleAmount: 0 })
+  })
+
+  it('should issue and email one receipt per payment for items and pledges', async () => {
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM event_item_winners w')) {
+        return result([{ amount: '250.00', quantity: 1, title: 'Weekend cabin', fair_market_value: '150.00', event_id: 'event-1' }])
+      }
+      if (sql.includes('FROM fund_a_need_pledges p')) {
+        return result([{ amount: '100.00', event_id: 'event-1', title: 'New playground' }])
+      }
+      if (sql.includes('SELECT organization_id FROM auction_events')) {
+        return result([{ organization_id: 'org-1' }])
+      }
+      if (sql.includes('INSERT INTO donation_receipts')) {
+        return result([{ id: 'receipt-1' }])
+      }
+      if (sql.includes('FROM donation_receipts r') && sql.includes('r.id = @receiptId AND r.user_id')) {
+        return result([{
+          id: 'receipt-1', receipt_number: 1042, event_id: 'event-1', event_name: 'Spring Gala',
+          donor_name: 'Pat Lee', amount_paid: '350.00', fair_market_value: '150.00', deductible_amount: '200.00',
+          organization_name: 'Riverside PTA', organization_tax_id: '12-3456789',
+          created_at: new Date('2026-04-01T00:00:00Z'), emailed_at: null,
+        }])
+      }
+      if (sql.includes('FROM donation_receipt_lines')) {
+        return result([])
+      }
+      if (sql.includes('SELECT u.email')) {
+        return result([{ email: 'pat@example.com', contact_email: 'pta@example.com' }])
+      }
+      return result([], 1)
+    })
+
+    const receipt = await issueTaxReceipt('pi_1', 'user-1', [
+      { type: 'item', itemId: 'item-1', awardIds: ['win-1'] },
+      { type: 'pledge', pledgeId: 'pledge-1' },
+    ])
+
+    expect(receipt?.receiptNumber).toBe(1042)
+    const insert = mockQuery.mock.calls.find(([sql]) => sql.includes('INSERT INTO donation_receipts'))?.[1]
+    expect(insert).toMatchObject({ amountPaid: 350, fairMarketValue: 150, deductibleAmount: 200, organizationId: 'org-1' })
+    const lines = mockQuery.mock.calls.filter(([sql]) => sql.includes('INSERT INTO donation_receipt_lines'))
+    expect(lines.map(([, params]) => params)).toEqual([
+      expect.objectContaining({ lineType: 'item', amountPaid: 250, fairMarketValue: 150, deductibleAmount: 100 }),
+      expect.objectContaining({ lineType: 'pledge', amountPaid: 100, fairMarketValue: 0, deductibleAmount: 100 }),
+    ])
+
+    expect(sendTaxReceiptEmail).toHaveBeenCalledWith(expect.objectContaining({
+      recipientEmail: 'pat@example.com',
+      receiptNumber: 1042,
+      deductibleAmount: 200,
+    }))
+    const { pdf } = vi.mocked(sendTaxReceiptEmail).mock.calls[0][0]
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-')
+    expect(pdf.toString('latin1')).toContain('EIN: 12-3456789')
+    expect(mockQuery.mock.calls.some(([sql]) => sql.includes('SET emailed_at'))).toBe(true)
+
+    // A redelivered webhook for the same payment issues nothing new
+    mockQuery.mockResolvedValueOnce(result([{ id: 'receipt-1' }]))
+    expect(await issueTaxReceipt('pi_1', 'user-1', [{ type: 'pledge', pledgeId: 'pledge-1' }])).toBeNull()
+  })
+
+  it('should disclose the value received and say when nothing was given in return', () => {
+    const [disclosure, quidProQuo] = getReceiptLegalText({
+      organization, amountPaid: 250, fairMarketValue: 150, deductibleAmount: 100,
+    })
+    expect(disclosure).toContain('estimated fair market value of $150.00')
+    expect(disclosure).toContain('$100.00')
+    expect(quidProQuo).toContain('over $75.00')
+
+    const [noGoods, acknowledgment] = getReceiptLegalText({
+      organization, amountPaid: 40, fairMarketValue: 0, deductibleAmount: 40,
+    })
+    expect(noGoods).toContain('No goods or services were provided')
+    expect(acknowledgment).toContain('EIN 12-3456789')
+
+    const pdf = renderTaxReceiptPdf({
+      id: 'receipt-1', receiptNumber: 7, eventId: 'event-1', eventName: 'Gala (Spring)', organization,
+      donorName: 'Pat', amountPaid: 40, fairMarketValue: 0, deductibleAmount: 40,
+      lines: [{ type: 'pledge', description: 'Donation: Books', amountPaid: 40, fairMarketValue: 0, deductibleAmount: 40 }],
+      issuedAt: new Date('2026-04-01T00:00:00Z'), emailedAt: null,
+    }).toString('latin1')
+    expect(pdf).toContain('(Event: Gala \\(Spring\\))')
+    expect(pdf).toMatch(/startxref\n\d+\n%%EOF\n$/)
+  })
+})
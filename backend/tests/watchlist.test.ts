@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../src/config/database', () => import('./helpers/database'))
+
+vi.mock('../src/services/notifications', () => ({
+  notifyWatchedItemClosingSoon: vi.fn().mockResolvedValue('n'),
+  notifyWatchedItemFirstBid: vi.fn().mockResolvedValue('n'),
+  notifyWatchedItemBuyNowReached: vi.fn().mockResolvedValue('n'),
+}))
+
+import { query } from '../src/config/database'
+import { result } from './helpers/database'
+import {
+  notifyWatchedItemClosingSoon,
+  notifyWatchedItemFirstBid,
+} from '../src/services/notifications'
+import { sendClosingSoonAlerts, alertWatchersOfFirstBid } from '../src/services/watchlist'
+
+const mockQuery = vi.mocked(query)
+
+const NOW = new Date('2025-06-01T20:00:00Z')
+
+describe('Watchlist Alerts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should claim closing soon alerts inside the window and report the minutes left', async () => {
+    mockQuery.mockResolvedValueOnce(result([
+      { user_id: 'u1', id: 'item-1', title: 'Wine Basket', event_id: 'e1', ends_at: new Date('2025-06-01T20:04:30Z') },
+      { user_id: 'u2', id: 'item-1', title: 'Wine Basket', event_id: 'e1', ends_at: new Date('2025-06-01T20:04:30Z') },
+    ]))
+
+    const sent = await sendClosingSoonAlerts('e1', NOW)
+
+    expect(sent).toBe(2)
+    const [sql, params] = mockQuery.mock.calls[0]
+    expect(sql).toContain('closing_soon_notified_at IS NULL')
+    expect(params).toEqual({ eventId: 'e1', now: NOW, closingBy: new Date('2025-06-01T20:15:00Z') })
+    expect(notifyWatchedItemClosingSoon).toHaveBeenCalledWith('u1', 'Wine Basket', 5, 'e1', 'item-1')
+  })
+
+  it('should skip the bidder who placed the first bid', async () => {
+    mockQuery.mockResolvedValueOnce(result([{ user_id: 'watcher-1' }]))
+
+    const sent = await alertWatchersOfFirstBid({ id: 'item-1', event_id: 'e1', title: 'Wine Basket' }, 'bidder-1')
+
+    expect(sent).toBe(1)
+    expect(mockQuery.mock.calls[0][1]).toEqual({ itemId: 'item-1', bidderId: 'bidder-1' })
+    expect(mockQuery.mock.calls[0][0]).toContain('user_id <> @bidderId')
+    expect(notifyWatchedItemFirstBid).toHaveBeenCalledWith('watcher-1', 'Wine Basket', 'e1', 'item-1')
+  })
+})
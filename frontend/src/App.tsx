@@ -35,6 +35,7 @@ import SubmitItemPage from './pages/SubmitItemPage'
 import SubmitItemSuccessPage from './pages/SubmitItemSuccessPage'
 import DonatePage from './pages/DonatePage'
 import MyWinsPage from './pages/MyWinsPage'
+import SecondChanceOfferPage from './pages/SecondChanceOfferPage'
 import MyBidsPage from './pages/MyBidsPage'
 import MyItemsPage from './pages/MyItemsPage'
 import MyOrganizationsPage from './pages/MyOrganizationsPage'
@@ -64,10 +65,10 @@ function App() {
   // Track if we're currently redirecting to prevent multiple redirects
   const isRedirectingRef = useRef(false)
 
-  // Configure API client with token provider
+  // Configure API client (and the auction hub) with token provider
   useEffect(() => {
     console.log('Setting up token provider, accounts:', accounts.length)
-    apiClient.setTokenProvider(async () => {
+    const tokenProvider = async (): Promise<string | null> => {
       console.log('Token provider called, accounts:', accounts.length)
       if (accounts.length === 0) {
         console.log('No accounts - returning null')
@@ -146,7 +147,10 @@ function App() {
       // Set ref SYNCHRONOUSLY before any await
       tokenPromiseRef.current = tokenPromise
       return tokenPromise
-    })
+    }
+
+    apiClient.setTokenProvider(tokenProvider)
+    signalRService.setTokenProvider(tokenProvider)
   }, [instance, accounts])
 
   useEffect(() => {
@@ -157,18 +161,23 @@ function App() {
         email: account.username,
         name: account.name || account.username,
       })
-
-      // Connect to SignalR for real-time updates
-      signalRService.connect()
     } else {
       clearUser()
-      signalRService.disconnect()
     }
+  }, [accounts, setUser, clearUser])
+
+  // Live auction updates are public, so stay connected whether or not anyone is signed in.
+  // Reconnect when the account changes so the hub knows whose notifications to push.
+  const accountId = accounts[0]?.localAccountId
+  useEffect(() => {
+    signalRService.connect().catch((error) => {
+      console.error('Failed to connect to auction hub:', error)
+    })
 
     return () => {
       signalRService.disconnect()
     }
-  }, [accounts, setUser, clearUser])
+  }, [accountId])
 
   return (
     <div className="min-h-screen flex flex-col bg-cream">
@@ -229,6 +238,11 @@ function App() {
               <MyWinsPage />
             </ProtectedRoute>
           } />
+          <Route path="/offers/:offerId" element={
+            <ProtectedRoute>
+              <SecondChanceOfferPage />
+            </ProtectedRoute>
+          } />
           <Route path="/my-bids" element={
             <ProtectedRoute>
               <MyBidsPage />
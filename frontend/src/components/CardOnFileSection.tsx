@@ -0,0 +1,144 @@
+import { useState, useEffect } from 'react'
+import { loadStripe } from '@stripe/stripe-js'
+import { Elements, PaymentElement, useStripe, useElements } from '@stripe/react-stripe-js'
+import { apiClient } from '../services/api'
+import type { AuctionEvent, EventCardOnFile } from '../types'
+
+const stripePromise = loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY || '')
+
+interface CardOnFileSectionProps {
+  event: AuctionEvent
+  // Called with whether the bidder has a card saved, once known
+  onStatusChange?: (hasCard: boolean) => void
+}
+
+function CardSetupForm({ onSaved, onCancel }: {
+  onSaved: (setupIntentId: string) => Promise<void>
+  onCancel: () => void
+}) {
+  const stripe = useStripe()
+  const elements = useElements()
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!stripe || !elements) return
+
+    setSaving(true)
+    setError(null)
+
+    // Cards that need 3-D Secure authenticate here, while the bidder is present
+    const { error: setupError, setupIntent } = await stripe.confirmSetup({
+      elements,
+      confirmParams: { return_url: window.location.href },
+      redirect: 'if_required',
+    })
+
+    if (setupError || !setupIntent) {
+      setError(setupError?.message || 'Failed to save card')
+      setSaving(false)
+      return
+    }
+
+    try {
+      await onSaved(setupIntent.id)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save card')
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+      {error && (
+        <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg text-red-300 text-sm">
+          {error}
+        </div>
+      )}
+
+      <PaymentElement />
+
+      <div className="flex gap-3">
+        <button type="button" onClick={onCancel} disabled={saving} className="glass-button py-2 px-4 disabled:opacity-50">
+          Cancel
+        </button>
+        <button type="submit" disabled={!stripe || saving} className="glass-button py-2 px-4 disabled:opacity-50">
+          {saving ? 'Saving...' : 'Save Card'}
+        </button>
+      </div>
+    </form>
+  )
+}
+
+// Card-on-file registration for events that require it. Bidders save a card
+// before bidding; winners are charged on it automatically when the event ends.
+export default function CardOnFileSection({ event, onStatusChange }: CardOnFileSectionProps) {
+  const [status, setStatus] = useState<EventCardOnFile | null>(null)
+  const [clientSecret, setClientSecret] = useState<string | null>(null)
+  const [starting, setStarting] = useState(false)
+
+  useEffect(() => {
+    apiClient.getEventCardOnFile(event.id)
+      .then((result) => {
+        setStatus(result)
+        onStatusChange?.(!!result.card)
+      })
+      .catch((err) => console.error('Failed to load card on file:', err))
+  }, [event.id])
+
+  if (!status?.required) {
+    return null
+  }
+
+  const handleStart = async () => {
+    setStarting(true)
+    try {
+      const result = await apiClient.createCardSetupIntent(event.id)
+      setClientSecret(result.clientSecret)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to start card setup')
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  const handleSaved = async (setupIntentId: string) => {
+    const result = await apiClient.saveEventCard(event.id, setupIntentId)
+    setStatus(result)
+    setClientSecret(null)
+    onStatusChange?.(true)
+  }
+
+  const { card } = status
+
+  return (
+    <div className="glass-section p-6 mb-8">
+      <h2 className="text-lg font-semibold text-white">Card on file</h2>
+      {card ? (
+        <p className="text-white/70 mt-1">
+          {card.brand ? card.brand.charAt(0).toUpperCase() + card.brand.slice(1) : 'Card'} ending in {card.last4}
+          {card.expMonth && card.expYear && ` (expires ${card.expMonth}/${card.expYear % 100})`}. If you win, it will
+          be charged automatically when the auction ends.
+        </p>
+      ) : (
+        <p className="text-white/70 mt-1">
+          This auction asks bidders to save a card before bidding. If you win, your card is charged automatically
+          when the auction ends, so there's nothing to pay afterwards.
+        </p>
+      )}
+
+      {clientSecret ? (
+        <Elements key={clientSecret} stripe={stripePromise} options={{ clientSecret }}>
+          <CardSetupForm onSaved={handleSaved} onCancel={() => setClientSecret(null)} />
+        </Elements>
+      ) : (
+        (event.status === 'scheduled' || event.status === 'active') && (
+          <button onClick={handleStart} disabled={starting} className="glass-button py-2 px-4 mt-4 disabled:opacity-50">
+            {starting ? 'Starting...' : card ? 'Use a Different Card' : 'Add a Card'}
+          </button>
+        )
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,199 @@
+import { useState } from 'react'
+import { apiClient } from '../services/api'
+import type { AuctionEvent, EventCategory } from '../types'
+
+interface CategoryManagerProps {
+  event: AuctionEvent
+  categories: EventCategory[]
+  // Called after any change so the page can refetch categories and items
+  onChange: () => void
+}
+
+const emptyForm = { name: '', icon: '' }
+
+// Event dashboard card for the event's item categories. Bidders browse them
+// as tabs, in this order, on the event page.
+export default function CategoryManager({ event, categories, onChange }: CategoryManagerProps) {
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [newCategory, setNewCategory] = useState(emptyForm)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editForm, setEditForm] = useState(emptyForm)
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setSaving(true)
+    setError(null)
+    try {
+      await action()
+      onChange()
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure)
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleCreate = async () => {
+    const created = await run(
+      () => apiClient.createEventCategory(event.id, {
+        name: newCategory.name.trim(),
+        icon: newCategory.icon.trim() || null,
+      }),
+      'Failed to add category'
+    )
+    if (created) setNewCategory(emptyForm)
+  }
+
+  const handleSave = async (categoryId: string) => {
+    const saved = await run(
+      () => apiClient.updateEventCategory(categoryId, {
+        name: editForm.name.trim(),
+        icon: editForm.icon.trim() || null,
+      }),
+      'Failed to update category'
+    )
+    if (saved) setEditingId(null)
+  }
+
+  const handleDelete = async (category: EventCategory) => {
+    const message = category.itemCount > 0
+      ? `Delete "${category.name}"? Its ${category.itemCount} item${category.itemCount === 1 ? '' : 's'} will become uncategorized.`
+      : `Delete "${category.name}"?`
+    if (!confirm(message)) return
+    await run(() => apiClient.deleteEventCategory(category.id), 'Failed to delete category')
+  }
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const ids = categories.map((c) => c.id)
+    ;[ids[index], ids[index + offset]] = [ids[index + offset], ids[index]]
+    await run(() => apiClient.reorderEventCategories(event.id, ids), 'Failed to reorder categories')
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-sage/20 p-6">
+      <h3 className="text-lg font-semibold text-white mb-1">Categories</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Group items for browsing (for example "Experiences" or "Sports Memorabilia"). Bidders see a tab for each
+        category, in this order. An icon can be an emoji.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm">
+          {error}
+        </div>
+      )}
+
+      {categories.length > 0 && (
+        <ul className="divide-y divide-sage/10 mb-4">
+          {categories.map((category, index) => (
+            <li key={category.id} className="flex items-center justify-between gap-3 py-2">
+              {editingId === category.id ? (
+                <div className="flex gap-2 flex-1 flex-wrap">
+                  <input
+                    type="text"
+                    value={editForm.icon}
+                    onChange={(e) => setEditForm((prev) => ({ ...prev, icon: e.target.value }))}
+                    placeholder="Icon"
+                    maxLength={50}
+                    className="w-20 px-3 py-1 border border-gray-300 rounded-lg text-sm"
+                  />
+                  <input
+                    type="text"
+                    value={editForm.name}
+                    onChange={(e) => setEditForm((prev) => ({ ...prev, name: e.target.value }))}
+                    maxLength={100}
+                    className="flex-1 min-w-[10rem] px-3 py-1 border border-gray-300 rounded-lg text-sm"
+                  />
+                  <button
+                    onClick={() => handleSave(category.id)}
+                    disabled={saving || !editForm.name.trim()}
+                    className="text-sage hover:underline text-sm disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                  <button onClick={() => setEditingId(null)} className="text-gray-500 hover:underline text-sm">
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <>
+                  <div>
+                    {category.icon && <span className="mr-2">{category.icon}</span>}
+                    <span className="font-medium text-white">{category.name}</span>
+                    <span className="ml-2 text-xs text-gray-400">
+                      {category.itemCount} item{category.itemCount === 1 ? '' : 's'}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-3 shrink-0">
+                    <button
+                      onClick={() => handleMove(index, -1)}
+                      disabled={saving || index === 0}
+                      className="text-gray-500 hover:text-white text-sm disabled:opacity-30"
+                      aria-label={`Move ${category.name} up`}
+                    >
+                      &uarr;
+                    </button>
+                    <button
+                      onClick={() => handleMove(index, 1)}
+                      disabled={saving || index === categories.length - 1}
+                      className="text-gray-500 hover:text-white text-sm disabled:opacity-30"
+                      aria-label={`Move ${category.name} down`}
+                    >
+                      &darr;
+                    </button>
+                    <button
+                      onClick={() => {
+                        setEditingId(category.id)
+                        setEditForm({ name: category.name, icon: category.icon || '' })
+                      }}
+                      className="text-blue-600 hover:underline text-sm"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(category)}
+                      disabled={saving}
+                      className="text-red-600 hover:underline text-sm"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {event.status !== 'cancelled' && (
+        <div className="flex gap-3 flex-wrap">
+          <input
+            type="text"
+            value={newCategory.icon}
+            onChange={(e) => setNewCategory((prev) => ({ ...prev, icon: e.target.value }))}
+            placeholder="Icon"
+            maxLength={50}
+            className="w-20 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <input
+            type="text"
+            value={newCategory.name}
+            onChange={(e) => setNewCategory((prev) => ({ ...prev, name: e.target.value }))}
+            placeholder="Category name (e.g. Experiences)"
+            maxLength={100}
+            className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <button
+            onClick={handleCreate}
+            disabled={saving || !newCategory.name.trim()}
+            className="px-4 py-2 bg-sage text-white rounded-lg hover:bg-sage/90 font-medium text-sm disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Add Category'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -97,6 +97,15 @@ export default function EventCard({ event }: EventCardProps) {
           </p>
         )}
 
+        {(event.pickupCity || event.distanceMiles !== undefined) && (
+          <p className="text-white/50 text-sm mb-4">
+            {[
+              [event.pickupCity, event.pickupState].filter(Boolean).join(', '),
+              event.distanceMiles !== undefined && `${event.distanceMiles} mi away`,
+            ].filter(Boolean).join(' · ')}
+          </p>
+        )}
+
         {/* Stats */}
         <div className="flex items-center gap-4 text-sm">
           <div className="flex items-center gap-1.5">
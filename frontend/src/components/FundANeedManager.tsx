@@ -0,0 +1,415 @@
+import { useState, useEffect, useCallback } from 'react'
+import { apiClient } from '../services/api'
+import type { AuctionEvent, FundANeedCampaign, FundANeedPledge, PledgePaymentStatus } from '../types'
+
+interface FundANeedManagerProps {
+  event: AuctionEvent
+}
+
+const paymentStatusLabels: Record<PledgePaymentStatus, string> = {
+  pending: 'Pending',
+  paid: 'Paid',
+  payment_issue: 'Payment Issue',
+  waived: 'Waived',
+  refunded: 'Refunded',
+}
+
+// Giving levels are entered one per line: an amount, then an optional label
+// ("250 Sponsors a week of meals")
+function parseLevels(text: string): { amount: number; label?: string }[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim().match(/^\$?([\d,]+(?:\.\d+)?)\s*(.*)$/))
+    .filter((match): match is RegExpMatchArray => !!match)
+    .map((match) => ({ amount: parseFloat(match[1].replace(/,/g, '')), label: match[2] || undefined }))
+    .filter((level) => level.amount >= 1)
+}
+
+function formatLevels(campaign: FundANeedCampaign): string {
+  return campaign.levels.map((level) => `${level.amount}${level.label ? ` ${level.label}` : ''}`).join('\n')
+}
+
+// Event dashboard tab for fund-a-need campaigns: set them up, record pledges
+// called out in the room, and track pledge payments
+export default function FundANeedManager({ event }: FundANeedManagerProps) {
+  const [campaigns, setCampaigns] = useState<FundANeedCampaign[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null)
+  const [form, setForm] = useState({ title: '', description: '', goalAmount: '', levels: '' })
+
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [pledges, setPledges] = useState<FundANeedPledge[]>([])
+  const [pledgeForm, setPledgeForm] = useState({ donorName: '', donorEmail: '', levelId: '', amount: '' })
+
+  const editable = event.status !== 'ended' && event.status !== 'cancelled'
+
+  const fetchCampaigns = useCallback(async () => {
+    try {
+      setCampaigns(await apiClient.getFundANeedCampaigns(event.id))
+    } catch (err) {
+      console.error('Failed to fetch fund-a-need campaigns:', err)
+    }
+  }, [event.id])
+
+  const fetchPledges = useCallback(async (campaignId: string) => {
+    try {
+      setPledges(await apiClient.getCampaignPledges(campaignId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load pledges')
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchCampaigns()
+  }, [fetchCampaigns])
+
+  const startEditing = (campaign: FundANeedCampaign | null) => {
+    setError(null)
+    setEditingId(campaign ? campaign.id : 'new')
+    setForm({
+      title: campaign?.title || '',
+      description: campaign?.description || '',
+      goalAmount: campaign?.goalAmount ? String(campaign.goalAmount) : '',
+      levels: campaign ? formatLevels(campaign) : '',
+    })
+  }
+
+  const handleSaveCampaign = async () => {
+    if (!form.title.trim()) return
+
+    setSaving(true)
+    setError(null)
+    try {
+      const goalAmount = parseFloat(form.goalAmount)
+      const data = {
+        title: form.title.trim(),
+        description: form.description.trim() || null,
+        goalAmount: goalAmount >= 1 ? goalAmount : null,
+        levels: parseLevels(form.levels),
+      }
+      if (editingId === 'new') {
+        await apiClient.createFundANeedCampaign(event.id, { ...data, description: data.description || undefined })
+      } else if (editingId) {
+        await apiClient.updateFundANeedCampaign(editingId, data)
+      }
+      setEditingId(null)
+      await fetchCampaigns()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save campaign')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleStatus = async (campaign: FundANeedCampaign) => {
+    setError(null)
+    try {
+      await apiClient.updateFundANeedCampaign(campaign.id, { status: campaign.status === 'open' ? 'closed' : 'open' })
+      await fetchCampaigns()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update campaign')
+    }
+  }
+
+  const handleDeleteCampaign = async (campaign: FundANeedCampaign) => {
+    if (!confirm(`Delete "${campaign.title}"?`)) return
+
+    setError(null)
+    try {
+      await apiClient.deleteFundANeedCampaign(campaign.id)
+      await fetchCampaigns()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete campaign')
+    }
+  }
+
+  const togglePledges = async (campaignId: string) => {
+    if (expandedId === campaignId) {
+      setExpandedId(null)
+      return
+    }
+    setExpandedId(campaignId)
+    setPledges([])
+    setPledgeForm({ donorName: '', donorEmail: '', levelId: '', amount: '' })
+    await fetchPledges(campaignId)
+  }
+
+  const handleRecordPledge = async (campaign: FundANeedCampaign) => {
+    const amount = parseFloat(pledgeForm.amount)
+    if (!pledgeForm.donorName.trim() && !pledgeForm.donorEmail.trim()) return
+    if (!pledgeForm.levelId && !(amount >= 1)) return
+
+    setSaving(true)
+    setError(null)
+    try {
+      await apiClient.createPledge(campaign.id, {
+        donorName: pledgeForm.donorName.trim() || undefined,
+        donorEmail: pledgeForm.donorEmail.trim() || undefined,
+        ...(pledgeForm.levelId ? { levelId: pledgeForm.levelId } : { amount }),
+      })
+      setPledgeForm({ donorName: '', donorEmail: '', levelId: '', amount: '' })
+      await Promise.all([fetchPledges(campaign.id), fetchCampaigns()])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record pledge')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleVoidPledge = async (pledge: FundANeedPledge) => {
+    if (!confirm(`Void this $${pledge.amount.toLocaleString()} pledge? It will no longer count toward the total.`)) return
+
+    setError(null)
+    try {
+      await apiClient.voidPledge(pledge.id)
+      await Promise.all([fetchPledges(pledge.campaignId), fetchCampaigns()])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to void pledge')
+    }
+  }
+
+  const handlePaymentStatus = async (pledge: FundANeedPledge, status: PledgePaymentStatus) => {
+    setError(null)
+    try {
+      await apiClient.updatePledgePaymentStatus(pledge.id, { status })
+      setPledges((prev) => prev.map((p) => (p.id === pledge.id ? { ...p, paymentStatus: status } : p)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update payment status')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border border-sage/20 p-6">
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-white mb-1">Fund-a-Need</h3>
+            <p className="text-sm text-gray-500">
+              Ask guests to give toward a cause at set giving levels. Pledges count toward the event total when it
+              ends and are paid like won items, with no platform fee.
+            </p>
+          </div>
+          {editable && editingId === null && (
+            <button
+              onClick={() => startEditing(null)}
+              className="px-4 py-2 bg-sage text-white rounded-lg hover:bg-sage/90 font-medium text-sm shrink-0"
+            >
+              New Campaign
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm">{error}</div>
+        )}
+
+        {editingId !== null && (
+          <div className="border border-sage/20 rounded-lg p-4 mb-4 space-y-3">
+            <input
+              type="text"
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              placeholder="Campaign title (e.g. Fund the new playground)"
+              maxLength={255}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <textarea
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              placeholder="What the money will do"
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <input
+              type="number"
+              min="1"
+              value={form.goalAmount}
+              onChange={(e) => setForm({ ...form, goalAmount: e.target.value })}
+              placeholder="Goal amount (optional)"
+              className="w-48 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <div>
+              <textarea
+                value={form.levels}
+                onChange={(e) => setForm({ ...form, levels: e.target.value })}
+                placeholder={'1000 Funds a classroom\n250 Sponsors a week of meals\n100'}
+                rows={4}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono"
+              />
+              <p className="text-xs text-gray-500 mt-1">Giving levels, one per line: an amount followed by an optional label.</p>
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={handleSaveCampaign}
+                disabled={saving || !form.title.trim()}
+                className="px-4 py-2 bg-sage text-white rounded-lg hover:bg-sage/90 font-medium text-sm disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save Campaign'}
+              </button>
+              <button
+                onClick={() => setEditingId(null)}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-600 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {campaigns.length === 0 && editingId === null && (
+          <p className="text-sm text-gray-500">No fund-a-need campaigns yet.</p>
+        )}
+
+        <ul className="divide-y divide-sage/10">
+          {campaigns.map((campaign) => (
+            <li key={campaign.id} className="py-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <span className="font-medium text-white">{campaign.title}</span>
+                  <span className={`ml-2 text-xs px-2 py-0.5 rounded-full ${
+                    campaign.status === 'open' ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'
+                  }`}>
+                    {campaign.status === 'open' ? 'Open' : 'Closed'}
+                  </span>
+                  <div className="text-sm text-gray-500 mt-1">
+                    ${campaign.totalPledged.toLocaleString()} from {campaign.pledgeCount} pledge{campaign.pledgeCount === 1 ? '' : 's'}
+                    {campaign.goalAmount && ` (${campaign.goalProgress}% of $${campaign.goalAmount.toLocaleString()})`}
+                  </div>
+                  {campaign.levels.length > 0 && (
+                    <div className="text-xs text-gray-400 mt-1">
+                      Levels: {campaign.levels.map((level) => `$${level.amount.toLocaleString()}`).join(', ')}
+                    </div>
+                  )}
+                </div>
+                <div className="flex gap-3 text-sm shrink-0">
+                  <button onClick={() => togglePledges(campaign.id)} className="text-sage hover:underline">
+                    {expandedId === campaign.id ? 'Hide Pledges' : 'Pledges'}
+                  </button>
+                  {editable && (
+                    <>
+                      <button onClick={() => startEditing(campaign)} className="text-sage hover:underline">Edit</button>
+                      <button onClick={() => handleToggleStatus(campaign)} className="text-sage hover:underline">
+                        {campaign.status === 'open' ? 'Close' : 'Reopen'}
+                      </button>
+                      {campaign.pledgeCount === 0 && (
+                        <button onClick={() => handleDeleteCampaign(campaign)} className="text-red-600 hover:underline">
+                          Delete
+                        </button>
+                      )}
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {expandedId === campaign.id && (
+                <div className="mt-4 space-y-4">
+                  {event.status === 'active' && campaign.status === 'open' && (
+                    <div className="flex gap-3 flex-wrap items-center">
+                      <input
+                        type="text"
+                        value={pledgeForm.donorName}
+                        onChange={(e) => setPledgeForm({ ...pledgeForm, donorName: e.target.value })}
+                        placeholder="Donor name or paddle #"
+                        className="flex-1 min-w-[10rem] px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                      />
+                      <input
+                        type="email"
+                        value={pledgeForm.donorEmail}
+                        onChange={(e) => setPledgeForm({ ...pledgeForm, donorEmail: e.target.value })}
+                        placeholder="Donor email (optional)"
+                        className="flex-1 min-w-[10rem] px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                      />
+                      {campaign.levels.length > 0 && (
+                        <select
+                          value={pledgeForm.levelId}
+                          onChange={(e) => setPledgeForm({ ...pledgeForm, levelId: e.target.value })}
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                        >
+                          <option value="">Other amount</option>
+                          {campaign.levels.map((level) => (
+                            <option key={level.id} value={level.id}>${level.amount.toLocaleString()}</option>
+                          ))}
+                        </select>
+                      )}
+                      {!pledgeForm.levelId && (
+                        <input
+                          type="number"
+                          min="1"
+                          value={pledgeForm.amount}
+                          onChange={(e) => setPledgeForm({ ...pledgeForm, amount: e.target.value })}
+                          placeholder="Amount"
+                          className="w-28 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                        />
+                      )}
+                      <button
+                        onClick={() => handleRecordPledge(campaign)}
+                        disabled={saving || (!pledgeForm.donorName.trim() && !pledgeForm.donorEmail.trim())}
+                        className="px-4 py-2 bg-sage text-white rounded-lg hover:bg-sage/90 font-medium text-sm disabled:opacity-50"
+                      >
+                        Record Pledge
+                      </button>
+                    </div>
+                  )}
+
+                  {pledges.length === 0 ? (
+                    <p className="text-sm text-gray-500">No pledges yet.</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="py-2">Donor</th>
+                          <th className="py-2">Amount</th>
+                          <th className="py-2">Payment</th>
+                          <th className="py-2"></th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-sage/10">
+                        {pledges.map((pledge) => (
+                          <tr key={pledge.id} className={pledge.status === 'voided' ? 'opacity-50' : ''}>
+                            <td className="py-2">
+                              <div className="text-white">{pledge.donor.name || pledge.donor.email || 'Guest'}</div>
+                              <div className="text-xs text-gray-400">
+                                {pledge.donor.name && pledge.donor.email}
+                                {pledge.isAnonymous && ' (anonymous)'}
+                                {pledge.recordedByStaff && ' (recorded by staff)'}
+                              </div>
+                            </td>
+                            <td className="py-2 text-white">${pledge.amount.toLocaleString()}</td>
+                            <td className="py-2">
+                              {pledge.status === 'voided' ? (
+                                <span className="text-gray-500">Voided</span>
+                              ) : (
+                                <select
+                                  value={pledge.paymentStatus}
+                                  onChange={(e) => handlePaymentStatus(pledge, e.target.value as PledgePaymentStatus)}
+                                  className="px-2 py-1 border border-gray-300 rounded text-sm"
+                                >
+                                  {(Object.keys(paymentStatusLabels) as PledgePaymentStatus[]).map((status) => (
+                                    <option key={status} value={status}>{paymentStatusLabels[status]}</option>
+                                  ))}
+                                </select>
+                              )}
+                            </td>
+                            <td className="py-2 text-right">
+                              {pledge.status === 'active' && editable && pledge.paymentStatus !== 'paid' && (
+                                <button onClick={() => handleVoidPledge(pledge)} className="text-red-600 hover:underline">
+                                  Void
+                                </button>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  )
+}
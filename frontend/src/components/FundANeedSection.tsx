@@ -0,0 +1,167 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { apiClient } from '../services/api'
+import { signalRService } from '../services/signalr'
+import type { AuctionEvent, FundANeedCampaign } from '../types'
+
+interface FundANeedSectionProps {
+  event: AuctionEvent
+  isAuthenticated: boolean
+}
+
+// Fund-a-need campaigns on an event page, with live totals. The page itself
+// joins the event's hub group; this only listens for pledge updates.
+export default function FundANeedSection({ event, isAuthenticated }: FundANeedSectionProps) {
+  const [campaigns, setCampaigns] = useState<FundANeedCampaign[]>([])
+  const [customAmounts, setCustomAmounts] = useState<Record<string, string>>({})
+  const [anonymous, setAnonymous] = useState(false)
+  const [pledging, setPledging] = useState<string | null>(null)
+  const [thanks, setThanks] = useState<string | null>(null)
+
+  useEffect(() => {
+    apiClient.getFundANeedCampaigns(event.id)
+      .then(setCampaigns)
+      .catch((err) => console.error('Failed to load fund-a-need campaigns:', err))
+  }, [event.id])
+
+  useEffect(() => {
+    return signalRService.onEventHubMessage('FundANeedUpdate', (update) => {
+      if (update.eventId !== event.id) return
+      setCampaigns((prev) => prev.map((campaign) => (
+        campaign.id === update.campaignId
+          ? {
+              ...campaign,
+              totalPledged: update.totalPledged,
+              pledgeCount: update.pledgeCount,
+              goalProgress: campaign.goalAmount
+                ? Math.min(100, Math.round((update.totalPledged / campaign.goalAmount) * 100))
+                : null,
+            }
+          : campaign
+      )))
+    })
+  }, [event.id])
+
+  if (campaigns.length === 0) {
+    return null
+  }
+
+  const handlePledge = async (campaign: FundANeedCampaign, pledge: { levelId?: string; amount?: number }) => {
+    const amount = pledge.amount ?? campaign.levels.find((level) => level.id === pledge.levelId)?.amount
+    if (!amount || !confirm(`Pledge $${amount.toLocaleString()} to ${campaign.title}?`)) return
+
+    setPledging(campaign.id)
+    try {
+      const result = await apiClient.createPledge(campaign.id, { ...pledge, isAnonymous: anonymous })
+      setCampaigns((prev) => prev.map((c) => (
+        c.id === campaign.id
+          ? {
+              ...c,
+              totalPledged: result.totalPledged,
+              pledgeCount: result.pledgeCount,
+              goalProgress: c.goalAmount ? Math.min(100, Math.round((result.totalPledged / c.goalAmount) * 100)) : null,
+            }
+          : c
+      )))
+      setCustomAmounts((prev) => ({ ...prev, [campaign.id]: '' }))
+      setThanks(campaign.id)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to record pledge')
+    } finally {
+      setPledging(null)
+    }
+  }
+
+  const canPledge = event.status === 'active' && isAuthenticated
+
+  return (
+    <div className="space-y-6 mb-8">
+      {campaigns.map((campaign) => (
+        <div key={campaign.id} className="glass-section glass-accent-blue p-6">
+          <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+            <div>
+              <div className="text-xs uppercase tracking-wide text-white/50 mb-1">Fund-a-Need</div>
+              <h2 className="text-xl font-semibold text-white">{campaign.title}</h2>
+              {campaign.description && (
+                <p className="text-white/70 mt-1 whitespace-pre-line">{campaign.description}</p>
+              )}
+            </div>
+            <div className="md:text-right shrink-0">
+              <div className="text-2xl font-bold text-teal-400">${campaign.totalPledged.toLocaleString()}</div>
+              <div className="text-sm text-white/50">
+                {campaign.pledgeCount} {campaign.pledgeCount === 1 ? 'pledge' : 'pledges'}
+                {campaign.goalAmount && ` of $${campaign.goalAmount.toLocaleString()} goal`}
+              </div>
+            </div>
+          </div>
+
+          {campaign.goalProgress !== null && (
+            <div className="mt-4 h-3 bg-white/10 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-teal-400 transition-all duration-500"
+                style={{ width: `${campaign.goalProgress}%` }}
+              />
+            </div>
+          )}
+
+          {campaign.status === 'open' && canPledge && (
+            <div className="mt-6">
+              {campaign.levels.length > 0 && (
+                <div className="flex flex-wrap gap-3 mb-4">
+                  {campaign.levels.map((level) => (
+                    <button
+                      key={level.id}
+                      onClick={() => handlePledge(campaign, { levelId: level.id })}
+                      disabled={pledging === campaign.id}
+                      className="glass-button py-2 px-4 text-left disabled:opacity-50"
+                    >
+                      <div className="font-semibold">${level.amount.toLocaleString()}</div>
+                      {level.label && <div className="text-xs text-white/60">{level.label}</div>}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex flex-wrap items-center gap-3">
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  placeholder="Other amount"
+                  value={customAmounts[campaign.id] || ''}
+                  onChange={(e) => setCustomAmounts((prev) => ({ ...prev, [campaign.id]: e.target.value }))}
+                  className="glass-input w-40"
+                />
+                <button
+                  onClick={() => handlePledge(campaign, { amount: parseFloat(customAmounts[campaign.id]) })}
+                  disabled={pledging === campaign.id || !(parseFloat(customAmounts[campaign.id]) >= 1)}
+                  className="glass-button py-2 px-4 disabled:opacity-50"
+                >
+                  Pledge
+                </button>
+                <label className="flex items-center gap-2 text-sm text-white/70">
+                  <input
+                    type="checkbox"
+                    checked={anonymous}
+                    onChange={(e) => setAnonymous(e.target.checked)}
+                  />
+                  Give anonymously
+                </label>
+              </div>
+
+              {thanks === campaign.id && (
+                <p className="text-sm text-teal-300 mt-3">
+                  Thank you! Your pledge is on <Link to="/my-wins" className="underline">My Wins</Link> for payment.
+                </p>
+              )}
+            </div>
+          )}
+
+          {campaign.status === 'open' && event.status === 'active' && !isAuthenticated && (
+            <p className="text-sm text-white/60 mt-4">Sign in to make a pledge.</p>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+import type { EventItemImage } from '../types'
+
+interface ItemImageProps {
+  image: EventItemImage
+  alt: string
+  // How wide the image is laid out, for the browser to pick a rendition
+  sizes: string
+  className?: string
+}
+
+// Rendition widths match the backend's image pipeline (longest edge)
+const RENDITION_WIDTHS = { thumbnail: 320, medium: 800, full: 1600 }
+
+export default function ItemImage({ image, alt, sizes, className }: ItemImageProps) {
+  // Images uploaded before the pipeline only have the original
+  const srcSet = image.thumbnailUrl && image.mediumUrl
+    ? [
+        `${image.thumbnailUrl} ${RENDITION_WIDTHS.thumbnail}w`,
+        `${image.mediumUrl} ${RENDITION_WIDTHS.medium}w`,
+        `${image.blobUrl} ${RENDITION_WIDTHS.full}w`,
+      ].join(', ')
+    : undefined
+
+  return (
+    <img
+      src={image.blobUrl}
+      srcSet={srcSet}
+      sizes={srcSet ? sizes : undefined}
+      alt={alt}
+      loading="lazy"
+      className={className}
+    />
+  )
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef } from 'react'
 import { Link } from 'react-router-dom'
 import { apiClient } from '../services/api'
+import { signalRService } from '../services/signalr'
 import type { Notification } from '../types'
 
 export default function NotificationBell() {
@@ -10,14 +11,22 @@ export default function NotificationBell() {
   const [loading, setLoading] = useState(false)
   const dropdownRef = useRef<HTMLDivElement>(null)
 
-  // Fetch unread count on mount and periodically
+  // Fetch unread count on mount, then rely on the auction hub to push new notifications.
   // Add a small delay on initial mount to allow token provider setup
   useEffect(() => {
     const initialFetch = setTimeout(fetchUnreadCount, 500)
-    const interval = setInterval(fetchUnreadCount, 30000) // Poll every 30 seconds
+
+    // Catch up on anything that arrived while the socket was down
+    const unsubscribeConnected = signalRService.onConnected(fetchUnreadCount)
+    const unsubscribeNotification = signalRService.onNotification((notification) => {
+      setNotifications((prev) => [notification, ...prev.filter((n) => n.id !== notification.id)].slice(0, 10))
+      setUnreadCount((prev) => prev + 1)
+    })
+
     return () => {
       clearTimeout(initialFetch)
-      clearInterval(interval)
+      unsubscribeConnected()
+      unsubscribeNotification()
     }
   }, [])
 
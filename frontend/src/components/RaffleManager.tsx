@@ -0,0 +1,418 @@
+import { useState, useEffect, useCallback } from 'react'
+import { apiClient } from '../services/api'
+import type { AuctionEvent, Raffle, RafflePurchase, PledgePaymentStatus } from '../types'
+
+interface RaffleManagerProps {
+  event: AuctionEvent
+}
+
+const paymentStatusLabels: Record<PledgePaymentStatus, string> = {
+  pending: 'Pending',
+  paid: 'Paid',
+  payment_issue: 'Payment Issue',
+  waived: 'Waived',
+  refunded: 'Refunded',
+}
+
+// Bundles are entered one per line: a ticket count, then the bundle price
+// ("5 20" for 5 tickets for $20)
+function parseBundles(text: string): { ticketCount: number; price: number }[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim().match(/^(\d+)\s*(?:for)?\s*\$?([\d,]+(?:\.\d+)?)$/i))
+    .filter((match): match is RegExpMatchArray => !!match)
+    .map((match) => ({ ticketCount: parseInt(match[1], 10), price: parseFloat(match[2].replace(/,/g, '')) }))
+    .filter((bundle) => bundle.ticketCount >= 2 && bundle.price > 0)
+}
+
+function formatBundles(raffle: Raffle): string {
+  return raffle.bundles.map((bundle) => `${bundle.ticketCount} ${bundle.price}`).join('\n')
+}
+
+const emptyForm = {
+  title: '',
+  prizeDescription: '',
+  description: '',
+  ticketPrice: '',
+  maxTicketsPerPerson: '',
+  numberOfWinners: '1',
+  bundles: '',
+}
+
+// Event dashboard tab for raffles: set them up, confirm ticket payments, and
+// run the drawing
+export default function RaffleManager({ event }: RaffleManagerProps) {
+  const [raffles, setRaffles] = useState<Raffle[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null)
+  const [form, setForm] = useState(emptyForm)
+
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [purchases, setPurchases] = useState<RafflePurchase[]>([])
+
+  const editable = event.status !== 'ended' && event.status !== 'cancelled'
+
+  const fetchRaffles = useCallback(async () => {
+    try {
+      setRaffles(await apiClient.getEventRaffles(event.id))
+    } catch (err) {
+      console.error('Failed to fetch raffles:', err)
+    }
+  }, [event.id])
+
+  const fetchPurchases = useCallback(async (raffleId: string) => {
+    try {
+      setPurchases(await apiClient.getRafflePurchases(raffleId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load ticket sales')
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchRaffles()
+  }, [fetchRaffles])
+
+  const startEditing = (raffle: Raffle | null) => {
+    setError(null)
+    setEditingId(raffle ? raffle.id : 'new')
+    setForm(raffle
+      ? {
+          title: raffle.title,
+          prizeDescription: raffle.prizeDescription || '',
+          description: raffle.description || '',
+          ticketPrice: String(raffle.ticketPrice),
+          maxTicketsPerPerson: raffle.maxTicketsPerPerson ? String(raffle.maxTicketsPerPerson) : '',
+          numberOfWinners: String(raffle.numberOfWinners),
+          bundles: formatBundles(raffle),
+        }
+      : emptyForm)
+  }
+
+  const handleSaveRaffle = async () => {
+    const ticketPrice = parseFloat(form.ticketPrice)
+    if (!form.title.trim() || !(ticketPrice > 0)) return
+
+    setSaving(true)
+    setError(null)
+    try {
+      const maxTicketsPerPerson = parseInt(form.maxTicketsPerPerson, 10)
+      const data = {
+        title: form.title.trim(),
+        prizeDescription: form.prizeDescription.trim() || undefined,
+        description: form.description.trim() || undefined,
+        ticketPrice,
+        maxTicketsPerPerson: maxTicketsPerPerson >= 1 ? maxTicketsPerPerson : null,
+        numberOfWinners: Math.max(1, parseInt(form.numberOfWinners, 10) || 1),
+        bundles: parseBundles(form.bundles),
+      }
+      if (editingId === 'new') {
+        await apiClient.createRaffle(event.id, data)
+      } else if (editingId) {
+        await apiClient.updateRaffle(editingId, {
+          ...data,
+          prizeDescription: data.prizeDescription ?? null,
+          description: data.description ?? null,
+        })
+      }
+      setEditingId(null)
+      await fetchRaffles()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save raffle')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleStatus = async (raffle: Raffle) => {
+    setError(null)
+    try {
+      await apiClient.updateRaffle(raffle.id, { status: raffle.status === 'open' ? 'closed' : 'open' })
+      await fetchRaffles()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update raffle')
+    }
+  }
+
+  const handleDeleteRaffle = async (raffle: Raffle) => {
+    if (!confirm(`Delete "${raffle.title}"?`)) return
+
+    setError(null)
+    try {
+      await apiClient.deleteRaffle(raffle.id)
+      await fetchRaffles()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete raffle')
+    }
+  }
+
+  const handleDraw = async (raffle: Raffle) => {
+    if (!confirm(
+      `Draw ${raffle.numberOfWinners === 1 ? 'the winner' : `${raffle.numberOfWinners} winners`} of "${raffle.title}"? ` +
+      'Only paid tickets are entered, and the drawing cannot be redone.'
+    )) return
+
+    setSaving(true)
+    setError(null)
+    try {
+      await apiClient.drawRaffle(raffle.id)
+      await fetchRaffles()
+      if (expandedId === raffle.id) {
+        await fetchPurchases(raffle.id)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to draw the raffle')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const togglePurchases = async (raffleId: string) => {
+    if (expandedId === raffleId) {
+      setExpandedId(null)
+      return
+    }
+    setExpandedId(raffleId)
+    setPurchases([])
+    await fetchPurchases(raffleId)
+  }
+
+  const handlePaymentStatus = async (purchase: RafflePurchase, status: PledgePaymentStatus) => {
+    setError(null)
+    try {
+      await apiClient.updateRafflePurchasePaymentStatus(purchase.id, { status })
+      setPurchases((prev) => prev.map((p) => (p.id === purchase.id ? { ...p, paymentStatus: status } : p)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update payment status')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm border border-sage/20 p-6">
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-white mb-1">Raffles</h3>
+            <p className="text-sm text-gray-500">
+              Sell numbered tickets, singly or in bundles. Paid tickets are entered in the drawing, and the random seed
+              behind it is published so anyone can check the result. Raffle rules vary by state; check yours first.
+            </p>
+          </div>
+          {editable && editingId === null && (
+            <button
+              onClick={() => startEditing(null)}
+              className="px-4 py-2 bg-sage text-white rounded-lg hover:bg-sage/90 font-medium text-sm shrink-0"
+            >
+              New Raffle
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm">{error}</div>
+        )}
+
+        {editingId !== null && (
+          <div className="border border-sage/20 rounded-lg p-4 mb-4 space-y-3">
+            <input
+              type="text"
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              placeholder="Raffle title (e.g. 50/50 Raffle)"
+              maxLength={255}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <input
+              type="text"
+              value={form.prizeDescription}
+              onChange={(e) => setForm({ ...form, prizeDescription: e.target.value })}
+              placeholder="Prize"
+              maxLength={1000}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <textarea
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              placeholder="Details and rules"
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <div className="flex flex-wrap gap-3">
+              <label className="text-sm text-gray-600">
+                Ticket price
+                <input
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  value={form.ticketPrice}
+                  onChange={(e) => setForm({ ...form, ticketPrice: e.target.value })}
+                  className="block w-32 mt-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </label>
+              <label className="text-sm text-gray-600">
+                Limit per person
+                <input
+                  type="number"
+                  min="1"
+                  value={form.maxTicketsPerPerson}
+                  onChange={(e) => setForm({ ...form, maxTicketsPerPerson: e.target.value })}
+                  placeholder="No limit"
+                  className="block w-32 mt-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </label>
+              <label className="text-sm text-gray-600">
+                Winners
+                <input
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={form.numberOfWinners}
+                  onChange={(e) => setForm({ ...form, numberOfWinners: e.target.value })}
+                  className="block w-24 mt-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </label>
+            </div>
+            <div>
+              <textarea
+                value={form.bundles}
+                onChange={(e) => setForm({ ...form, bundles: e.target.value })}
+                placeholder={'5 20\n12 40'}
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono"
+              />
+              <p className="text-xs text-gray-500 mt-1">Bundles, one per line: a ticket count followed by the bundle price.</p>
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={handleSaveRaffle}
+                disabled={saving || !form.title.trim() || !(parseFloat(form.ticketPrice) > 0)}
+                className="px-4 py-2 bg-sage text-white rounded-lg hover:bg-sage/90 font-medium text-sm disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save Raffle'}
+              </button>
+              <button
+                onClick={() => setEditingId(null)}
+                className="px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-600 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {raffles.length === 0 && editingId === null && (
+          <p className="text-sm text-gray-500">No raffles yet.</p>
+        )}
+
+        <ul className="divide-y divide-sage/10">
+          {raffles.map((raffle) => (
+            <li key={raffle.id} className="py-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <span className="font-medium text-white">{raffle.title}</span>
+                  <span className={`ml-2 text-xs px-2 py-0.5 rounded-full ${
+                    raffle.status === 'open'
+                      ? 'bg-green-100 text-green-700'
+                      : raffle.status === 'drawn' ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 text-gray-600'
+                  }`}>
+                    {raffle.status === 'open' ? 'Selling' : raffle.status === 'drawn' ? 'Drawn' : 'Closed'}
+                  </span>
+                  <div className="text-sm text-gray-500 mt-1">
+                    {raffle.ticketsSold} ticket{raffle.ticketsSold === 1 ? '' : 's'} sold at ${raffle.ticketPrice.toFixed(2)}
+                    {raffle.bundles.length > 0 &&
+                      ` · ${raffle.bundles.map((b) => `${b.ticketCount} for $${b.price.toFixed(2)}`).join(', ')}`}
+                  </div>
+                  {raffle.status === 'drawn' && (
+                    <div className="text-sm text-gray-500 mt-1">
+                      Winning {raffle.winners.length === 1 ? 'ticket' : 'tickets'}:{' '}
+                      {raffle.winners.map((w) => `#${w.ticketNumber}${w.winnerName ? ` (${w.winnerName})` : ''}`).join(', ')}
+                    </div>
+                  )}
+                </div>
+                <div className="flex gap-3 text-sm shrink-0">
+                  <button onClick={() => togglePurchases(raffle.id)} className="text-sage hover:underline">
+                    {expandedId === raffle.id ? 'Hide Tickets' : 'Tickets'}
+                  </button>
+                  {raffle.status !== 'drawn' && (
+                    <>
+                      {editable && (
+                        <>
+                          <button onClick={() => startEditing(raffle)} className="text-sage hover:underline">Edit</button>
+                          <button onClick={() => handleToggleStatus(raffle)} className="text-sage hover:underline">
+                            {raffle.status === 'open' ? 'Stop Sales' : 'Resume Sales'}
+                          </button>
+                        </>
+                      )}
+                      <button
+                        onClick={() => handleDraw(raffle)}
+                        disabled={saving || raffle.ticketsSold === 0}
+                        className="text-sage hover:underline disabled:opacity-50 disabled:no-underline"
+                      >
+                        Draw
+                      </button>
+                      {editable && raffle.ticketsSold === 0 && (
+                        <button onClick={() => handleDeleteRaffle(raffle)} className="text-red-600 hover:underline">
+                          Delete
+                        </button>
+                      )}
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {expandedId === raffle.id && (
+                <div className="mt-4">
+                  {purchases.length === 0 ? (
+                    <p className="text-sm text-gray-500">No tickets sold yet.</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="py-2">Buyer</th>
+                          <th className="py-2">Tickets</th>
+                          <th className="py-2">Amount</th>
+                          <th className="py-2">Payment</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-sage/10">
+                        {purchases.map((purchase) => (
+                          <tr key={purchase.id}>
+                            <td className="py-2">
+                              <div className="text-white">{purchase.buyer.name || 'Guest'}</div>
+                              <div className="text-xs text-gray-400">{purchase.buyer.email}</div>
+                            </td>
+                            <td className="py-2 text-white">
+                              #{purchase.firstTicket}
+                              {purchase.lastTicket !== purchase.firstTicket && `–#${purchase.lastTicket}`}
+                            </td>
+                            <td className="py-2 text-white">${purchase.amount.toFixed(2)}</td>
+                            <td className="py-2">
+                              {raffle.status === 'drawn' ? (
+                                <span className="text-gray-500">{paymentStatusLabels[purchase.paymentStatus]}</span>
+                              ) : (
+                                <select
+                                  value={purchase.paymentStatus}
+                                  onChange={(e) => handlePaymentStatus(purchase, e.target.value as PledgePaymentStatus)}
+                                  className="px-2 py-1 border border-gray-300 rounded text-sm"
+                                >
+                                  {(Object.keys(paymentStatusLabels) as PledgePaymentStatus[]).map((status) => (
+                                    <option key={status} value={status}>{paymentStatusLabels[status]}</option>
+                                  ))}
+                                </select>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  )
+}
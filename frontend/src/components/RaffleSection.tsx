@@ -0,0 +1,181 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { apiClient } from '../services/api'
+import type { AuctionEvent, Raffle, RaffleDraw } from '../types'
+
+interface RaffleSectionProps {
+  event: AuctionEvent
+  isAuthenticated: boolean
+}
+
+// Raffles on an event page. The list comes back empty while raffles are
+// turned off, so nothing shows then.
+export default function RaffleSection({ event, isAuthenticated }: RaffleSectionProps) {
+  const [raffles, setRaffles] = useState<Raffle[]>([])
+  const [quantities, setQuantities] = useState<Record<string, string>>({})
+  const [buying, setBuying] = useState<string | null>(null)
+  const [bought, setBought] = useState<{ raffleId: string; tickets: string } | null>(null)
+  const [draws, setDraws] = useState<Record<string, RaffleDraw>>({})
+
+  const fetchRaffles = () => {
+    apiClient.getEventRaffles(event.id)
+      .then(setRaffles)
+      .catch((err) => console.error('Failed to load raffles:', err))
+  }
+
+  useEffect(() => {
+    fetchRaffles()
+  }, [event.id])
+
+  if (raffles.length === 0) {
+    return null
+  }
+
+  const handleBuy = async (raffle: Raffle, purchase: { bundleId?: string; ticketCount?: number }, price: number) => {
+    const count = purchase.ticketCount ?? raffle.bundles.find((b) => b.id === purchase.bundleId)?.ticketCount
+    if (!count || !confirm(`Buy ${count} ticket${count === 1 ? '' : 's'} for $${price.toFixed(2)}?`)) return
+
+    setBuying(raffle.id)
+    try {
+      const result = await apiClient.buyRaffleTickets(raffle.id, purchase)
+      setBought({
+        raffleId: raffle.id,
+        tickets: result.firstTicket === result.lastTicket
+          ? `#${result.firstTicket}`
+          : `#${result.firstTicket}–#${result.lastTicket}`,
+      })
+      setQuantities((prev) => ({ ...prev, [raffle.id]: '' }))
+      fetchRaffles()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to buy tickets')
+    } finally {
+      setBuying(null)
+    }
+  }
+
+  const toggleDraw = async (raffleId: string) => {
+    if (draws[raffleId]) {
+      setDraws(({ [raffleId]: _, ...rest }) => rest)
+      return
+    }
+    try {
+      const draw = await apiClient.getRaffleDraw(raffleId)
+      setDraws((prev) => ({ ...prev, [raffleId]: draw }))
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to load the drawing')
+    }
+  }
+
+  const onSale = event.status === 'scheduled' || event.status === 'active'
+
+  return (
+    <div className="space-y-6 mb-8">
+      {raffles.map((raffle) => {
+        const quantity = parseInt(quantities[raffle.id] || '1', 10)
+        const limitReached = raffle.maxTicketsPerPerson !== null && raffle.myTickets >= raffle.maxTicketsPerPerson
+
+        return (
+          <div key={raffle.id} className="glass-section glass-accent-blue p-6">
+            <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+              <div>
+                <div className="text-xs uppercase tracking-wide text-white/50 mb-1">Raffle</div>
+                <h2 className="text-xl font-semibold text-white">{raffle.title}</h2>
+                {raffle.prizeDescription && (
+                  <p className="text-white/80 mt-1">Prize: {raffle.prizeDescription}</p>
+                )}
+                {raffle.description && (
+                  <p className="text-white/70 mt-1 whitespace-pre-line">{raffle.description}</p>
+                )}
+              </div>
+              <div className="md:text-right shrink-0">
+                <div className="text-2xl font-bold text-teal-400">${raffle.ticketPrice.toFixed(2)}</div>
+                <div className="text-sm text-white/50">
+                  per ticket &middot; {raffle.ticketsSold} sold
+                  {raffle.numberOfWinners > 1 && ` · ${raffle.numberOfWinners} winners`}
+                </div>
+                {raffle.myTickets > 0 && (
+                  <div className="text-sm text-teal-300 mt-1">You have {raffle.myTickets}</div>
+                )}
+              </div>
+            </div>
+
+            {raffle.status === 'open' && onSale && isAuthenticated && !limitReached && (
+              <div className="mt-6 flex flex-wrap items-center gap-3">
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={quantities[raffle.id] ?? '1'}
+                  onChange={(e) => setQuantities((prev) => ({ ...prev, [raffle.id]: e.target.value }))}
+                  className="glass-input w-24"
+                />
+                <button
+                  onClick={() => handleBuy(raffle, { ticketCount: quantity }, quantity * raffle.ticketPrice)}
+                  disabled={buying === raffle.id || !(quantity >= 1)}
+                  className="glass-button py-2 px-4 disabled:opacity-50"
+                >
+                  Buy Tickets
+                </button>
+                {raffle.bundles.map((bundle) => (
+                  <button
+                    key={bundle.id}
+                    onClick={() => handleBuy(raffle, { bundleId: bundle.id }, bundle.price)}
+                    disabled={buying === raffle.id}
+                    className="glass-button py-2 px-4 disabled:opacity-50"
+                  >
+                    {bundle.ticketCount} for ${bundle.price.toFixed(2)}
+                  </button>
+                ))}
+                {raffle.maxTicketsPerPerson && (
+                  <span className="text-sm text-white/50">Limit {raffle.maxTicketsPerPerson} per person</span>
+                )}
+              </div>
+            )}
+
+            {raffle.status === 'open' && onSale && isAuthenticated && limitReached && (
+              <p className="text-sm text-white/60 mt-4">You've reached the ticket limit for this raffle.</p>
+            )}
+
+            {raffle.status === 'open' && onSale && !isAuthenticated && (
+              <p className="text-sm text-white/60 mt-4">Sign in to buy tickets.</p>
+            )}
+
+            {bought?.raffleId === raffle.id && (
+              <p className="text-sm text-teal-300 mt-3">
+                You have tickets {bought.tickets}. Pay for them on <Link to="/my-wins" className="underline">My Wins</Link> to
+                be entered in the drawing.
+              </p>
+            )}
+
+            {raffle.status === 'drawn' && (
+              <div className="mt-6">
+                <h3 className="text-sm font-semibold text-white mb-2">
+                  {raffle.winners.length === 1 ? 'Winning ticket' : 'Winning tickets'}
+                </h3>
+                <ul className="space-y-1 text-white/80">
+                  {raffle.winners.map((winner) => (
+                    <li key={winner.place}>
+                      #{winner.ticketNumber}{winner.winnerName && ` — ${winner.winnerName}`}
+                    </li>
+                  ))}
+                </ul>
+                <button onClick={() => toggleDraw(raffle.id)} className="text-sm text-white/50 underline mt-3">
+                  {draws[raffle.id] ? 'Hide drawing details' : 'How was this drawn?'}
+                </button>
+                {draws[raffle.id] && (
+                  <div className="mt-2 text-xs text-white/60 space-y-1 break-all">
+                    <p>
+                      {draws[raffle.id].entryCount} paid tickets were entered. Winners were picked with{' '}
+                      {draws[raffle.id].algorithm} from this seed, which anyone can use to repeat the drawing:
+                    </p>
+                    <p className="font-mono">{draws[raffle.id].seed}</p>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
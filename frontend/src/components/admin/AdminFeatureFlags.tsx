@@ -29,6 +29,7 @@ const FLAG_LABELS: Record<string, { label: string; category: 'payments' | 'aucti
   free_mode_enabled: { label: 'Free Mode (No Platform Fees)', category: 'platform' },
   silent_auctions_enabled: { label: 'Silent Auctions', category: 'auctions' },
   standard_auctions_enabled: { label: 'Standard Auctions', category: 'auctions' },
+  raffles_enabled: { label: 'Raffles (check state raffle laws)', category: 'platform' },
 }
 
 export default function AdminFeatureFlags() {
@@ -10,8 +10,22 @@ interface CountdownResult {
   formatted: string
 }
 
-export function useCountdown(endTime: string | Date): CountdownResult {
+// Pass the item's own end time where there is one - soft close can move it
+// past the event's end, and the countdown follows it when it changes.
+export function useCountdown(endTime: string | Date | null | undefined): CountdownResult {
   const calculateTimeLeft = useCallback((): CountdownResult => {
+    if (!endTime) {
+      return {
+        days: 0,
+        hours: 0,
+        minutes: 0,
+        seconds: 0,
+        isExpired: false,
+        isUrgent: false,
+        formatted: '',
+      }
+    }
+
     const end = new Date(endTime).getTime()
     const now = Date.now()
     const diff = end - now
@@ -58,6 +72,9 @@ export function useCountdown(endTime: string | Date): CountdownResult {
   const [timeLeft, setTimeLeft] = useState<CountdownResult>(calculateTimeLeft)
 
   useEffect(() => {
+    // Pick up a new end time straight away rather than on the next tick
+    setTimeLeft(calculateTimeLeft())
+
     const timer = setInterval(() => {
       setTimeLeft(calculateTimeLeft())
     }, 1000)
@@ -90,9 +90,13 @@ export default function CreateEventPage() {
   const [incrementType, setIncrementType] = useState<'fixed' | 'percent'>('fixed')
   const [incrementValue, setIncrementValue] = useState('5')
   const [buyNowEnabled, setBuyNowEnabled] = useState(true)
+  const [softCloseEnabled, setSoftCloseEnabled] = useState(false)
+  const [softCloseWindowMinutes, setSoftCloseWindowMinutes] = useState('2')
+  const [softCloseExtensionMinutes, setSoftCloseExtensionMinutes] = useState('2')
 
   // Payment mode settings
   const [paymentMode, setPaymentMode] = useState<'integrated' | 'self_managed'>('self_managed')
+  const [requireCardOnFile, setRequireCardOnFile] = useState(false)
   const [paymentInstructions, setPaymentInstructions] = useState('')
   const [paymentLink, setPaymentLink] = useState('')
   const [fulfillmentType, setFulfillmentType] = useState<'shipping' | 'pickup' | 'both' | 'digital'>('pickup')
@@ -207,8 +211,12 @@ export default function CreateEventPage() {
         incrementType,
         incrementValue: parseFloat(incrementValue),
         buyNowEnabled,
+        softCloseEnabled: auctionType === 'standard' && softCloseEnabled,
+        softCloseWindowMinutes: auctionType === 'standard' && softCloseEnabled ? parseInt(softCloseWindowMinutes) : undefined,
+        softCloseExtensionMinutes: auctionType === 'standard' && softCloseEnabled ? parseInt(softCloseExtensionMinutes) : undefined,
         // Payment mode settings
         paymentMode,
+        requireCardOnFile: paymentMode === 'integrated' && requireCardOnFile,
         paymentInstructions: paymentMode === 'self_managed' ? paymentInstructions || undefined : undefined,
         paymentLink: paymentMode === 'self_managed' && paymentLink ? paymentLink : undefined,
         fulfillmentType,
@@ -671,7 +679,62 @@ export default function CreateEventPage() {
               <p className="text-white/70">Allow instant purchases at a set price</p>
             </div>
           </button>
+
+          {auctionType === 'standard' && (
+            <button
+              type="button"
+              onClick={() => setSoftCloseEnabled(!softCloseEnabled)}
+              className={`w-full clay-card p-5 text-left transition-all flex items-center gap-4 ${
+                softCloseEnabled ? 'ring-2 ring-white shadow-clay-lg' : ''
+              }`}
+            >
+              <div className={`w-6 h-6 rounded-md flex items-center justify-center ${
+                softCloseEnabled ? 'bg-white' : 'bg-clay-surface border-2 border-white/20'
+              }`}>
+                {softCloseEnabled && (
+                  <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+                  </svg>
+                )}
+              </div>
+              <div>
+                <span className="font-bold text-white text-lg">Enable soft close</span>
+                <p className="text-white/70">Late bids extend that item's closing time to prevent sniping</p>
+              </div>
+            </button>
+          )}
         </div>
+
+        {auctionType === 'standard' && softCloseEnabled && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <label className="text-white font-bold text-lg">Closing window (minutes)</label>
+              <input
+                type="number"
+                min="1"
+                max="60"
+                step="1"
+                value={softCloseWindowMinutes}
+                onChange={(e) => setSoftCloseWindowMinutes(e.target.value)}
+                className="clay-input w-full text-lg py-4"
+              />
+              <p className="text-white/70 text-sm">Bids placed this close to the end trigger an extension</p>
+            </div>
+            <div className="space-y-2">
+              <label className="text-white font-bold text-lg">Extension (minutes)</label>
+              <input
+                type="number"
+                min="1"
+                max="60"
+                step="1"
+                value={softCloseExtensionMinutes}
+                onChange={(e) => setSoftCloseExtensionMinutes(e.target.value)}
+                className="clay-input w-full text-lg py-4"
+              />
+              <p className="text-white/70 text-sm">How much time each late bid adds to the item</p>
+            </div>
+          </div>
+        )}
       </WizardStep>
     )
   }
@@ -752,6 +815,32 @@ export default function CreateEventPage() {
           )}
         </div>
 
+        {paymentMode === 'integrated' && (
+          <div className="mt-6">
+            <button
+              type="button"
+              onClick={() => setRequireCardOnFile(!requireCardOnFile)}
+              className={`w-full clay-card p-5 text-left transition-all flex items-center gap-4 ${
+                requireCardOnFile ? 'ring-2 ring-white shadow-clay-lg' : ''
+              }`}
+            >
+              <div className={`w-6 h-6 rounded-md flex items-center justify-center ${
+                requireCardOnFile ? 'bg-white' : 'bg-clay-surface border-2 border-white/20'
+              }`}>
+                {requireCardOnFile && (
+                  <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+                  </svg>
+                )}
+              </div>
+              <div>
+                <span className="font-bold text-white text-lg">Require a card on file to bid</span>
+                <p className="text-white/70">Bidders save a card before bidding and winners are charged automatically when the auction ends</p>
+              </div>
+            </button>
+          </div>
+        )}
+
         {paymentMode === 'self_managed' && (
           <div className="space-y-6 mt-6 p-6 rounded-clay bg-clay-surface">
             <WizardTextarea
@@ -998,6 +1087,7 @@ export default function CreateEventPage() {
             <p className="text-white/70">
               {incrementType === 'fixed' ? `$${incrementValue}` : `${incrementValue}%`} bid increments
               {buyNowEnabled && ' • Buy Now enabled'}
+              {auctionType === 'standard' && softCloseEnabled && ' • Soft close enabled'}
             </p>
           </ReviewCard>
 
@@ -25,6 +25,7 @@ const paymentStatusColors: Record<ItemPaymentStatus, string> = {
   payment_issue: 'bg-red-100 text-red-800',
   waived: 'bg-gray-100 text-gray-800',
   refunded: 'bg-purple-100 text-purple-800',
+  defaulted: 'bg-red-200 text-red-900',
 }
 
 const fulfillmentStatusColors: Record<ItemFulfillmentStatus, string> = {
@@ -2,8 +2,12 @@ import { useState, useEffect, useCallback, useRef } from 'react'
 import { useParams, Link, useNavigate } from 'react-router-dom'
 import { QRCodeSVG } from 'qrcode.react'
 import { apiClient } from '../services/api'
-import type { AuctionEvent, EventItem, UpdateEventRequest, ItemSubmissionStatus, ItemPaymentStatus, ItemFulfillmentStatus } from '../types'
+import type { AuctionEvent, EventItem, UpdateEventRequest, ItemSubmissionStatus, ItemPaymentStatus, ItemFulfillmentStatus, ClosingGroup, EventCategory, AdminItemBid, BidRetractionRequest, WinnerPricing } from '../types'
 import ImageDropZone from '../components/ImageDropZone'
+import ItemImage from '../components/ItemImage'
+import FundANeedManager from '../components/FundANeedManager'
+import RaffleManager from '../components/RaffleManager'
+import CategoryManager from '../components/CategoryManager'
 
 const statusColors = {
   draft: 'bg-gray-100 text-gray-800',
@@ -26,6 +30,7 @@ const paymentStatusColors: Record<ItemPaymentStatus, string> = {
   payment_issue: 'bg-red-100 text-red-800',
   waived: 'bg-gray-100 text-gray-800',
   refunded: 'bg-purple-100 text-purple-800',
+  defaulted: 'bg-red-200 text-red-900',
 }
 
 const fulfillmentStatusColors: Record<ItemFulfillmentStatus, string> = {
@@ -48,7 +53,8 @@ export default function EventDashboardPage() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
-  const [activeTab, setActiveTab] = useState<'overview' | 'items' | 'payments' | 'settings'>('overview')
+  const [activeTab, setActiveTab] = useState<'overview' | 'items' | 'fund-a-need' | 'raffles' | 'payments' | 'settings'>('overview')
+  const [rafflesEnabled, setRafflesEnabled] = useState(false)
   const [itemFilter, setItemFilter] = useState<'all' | ItemSubmissionStatus>('all')
 
   // Donor submissions state
@@ -83,7 +89,7 @@ export default function EventDashboardPage() {
   const [donorSubmissionFilter, setDonorSubmissionFilter] = useState<'all' | 'pending' | 'approved' | 'rejected' | 'withdrawn'>('all')
   const [donorSubmissionStats, setDonorSubmissionStats] = useState<{ pending: number; approved: number; rejected: number; converted: number } | null>(null)
   const [showConvertModal, setShowConvertModal] = useState<string | null>(null)
-  const [convertModalData, setConvertModalData] = useState<{ startingBid: string; buyNowPrice: string }>({ startingBid: '', buyNowPrice: '' })
+  const [convertModalData, setConvertModalData] = useState<{ startingBid: string; buyNowPrice: string; reservePrice: string; fairMarketValue: string; categoryId: string }>({ startingBid: '', buyNowPrice: '', reservePrice: '', fairMarketValue: '', categoryId: '' })
   const [showDonorRejectModal, setShowDonorRejectModal] = useState<string | null>(null)
   const [donorRejectReason, setDonorRejectReason] = useState('')
   const [donationSettings, setDonationSettings] = useState<{
@@ -123,6 +129,26 @@ export default function EventDashboardPage() {
   // Success banner state (for showing payment confirmation)
   const [successMessage, setSuccessMessage] = useState<string | null>(null)
 
+  // Closing groups (staggered item closing)
+  const [closingGroups, setClosingGroups] = useState<ClosingGroup[]>([])
+  const [newGroupName, setNewGroupName] = useState('')
+  const [newGroupEndTime, setNewGroupEndTime] = useState('')
+  const [closingGroupError, setClosingGroupError] = useState<string | null>(null)
+  const [isSavingClosingGroup, setIsSavingClosingGroup] = useState(false)
+
+  // Item categories
+  const [categories, setCategories] = useState<EventCategory[]>([])
+
+  // Bid cancellation and bidder retraction requests
+  const [retractionRequests, setRetractionRequests] = useState<BidRetractionRequest[]>([])
+  const [bidsModalItem, setBidsModalItem] = useState<EventItem | null>(null)
+  const [itemBids, setItemBids] = useState<AdminItemBid[]>([])
+  const [itemBidsLoading, setItemBidsLoading] = useState(false)
+  const [cancellingBid, setCancellingBid] = useState<AdminItemBid | null>(null)
+  const [cancelBidReason, setCancelBidReason] = useState('')
+  const [bidActionError, setBidActionError] = useState<string | null>(null)
+  const [isSavingBidAction, setIsSavingBidAction] = useState(false)
+
   // Publishing state
   const [isPublishing, setIsPublishing] = useState(false)
 
@@ -139,7 +165,11 @@ export default function EventDashboardPage() {
     condition: '',
     startingPrice: '',
     buyNowPrice: '',
-    category: '',
+    reservePrice: '',
+    fairMarketValue: '',
+    quantity: '1',
+    winnerPricing: 'own_bid' as WinnerPricing,
+    categoryId: '',
     donorName: '',
     donorEmail: '',
   })
@@ -157,7 +187,11 @@ export default function EventDashboardPage() {
     condition: '',
     startingPrice: '',
     buyNowPrice: '',
-    category: '',
+    reservePrice: '',
+    fairMarketValue: '',
+    quantity: '1',
+    winnerPricing: 'own_bid' as WinnerPricing,
+    categoryId: '',
   })
   const [savingItem, setSavingItem] = useState(false)
   const [editItemNewImages, setEditItemNewImages] = useState<{ file: File; previewUrl: string }[]>([])
@@ -198,6 +232,13 @@ export default function EventDashboardPage() {
     fetchData()
   }, [fetchData])
 
+  // The raffles tab only shows while the platform allows raffles
+  useEffect(() => {
+    apiClient.getPublicFeatureFlags()
+      .then((flags) => setRafflesEnabled(flags.raffles_enabled))
+      .catch(() => setRafflesEnabled(false))
+  }, [])
+
   // Initialize editData when event loads
   useEffect(() => {
     if (event) {
@@ -333,7 +374,11 @@ export default function EventDashboardPage() {
         condition: addItemData.condition.trim() || undefined,
         startingPrice: addItemData.startingPrice ? parseFloat(addItemData.startingPrice) : undefined,
         buyNowPrice: addItemData.buyNowPrice ? parseFloat(addItemData.buyNowPrice) : undefined,
-        category: addItemData.category.trim() || undefined,
+        reservePrice: addItemData.reservePrice ? parseFloat(addItemData.reservePrice) : undefined,
+        fairMarketValue: addItemData.fairMarketValue ? parseFloat(addItemData.fairMarketValue) : undefined,
+        quantity: parseInt(addItemData.quantity) || 1,
+        winnerPricing: addItemData.winnerPricing,
+        categoryId: addItemData.categoryId || undefined,
         donorName: addItemData.donorName.trim() || undefined,
         donorEmail: addItemData.donorEmail.trim() || undefined,
       })
@@ -374,7 +419,11 @@ export default function EventDashboardPage() {
         condition: '',
         startingPrice: '',
         buyNowPrice: '',
-        category: '',
+        reservePrice: '',
+        fairMarketValue: '',
+        quantity: '1',
+        winnerPricing: 'own_bid',
+        categoryId: '',
         donorName: '',
         donorEmail: '',
       })
@@ -397,7 +446,11 @@ export default function EventDashboardPage() {
       condition: item.condition || '',
       startingPrice: item.startingPrice?.toString() || '',
       buyNowPrice: item.buyNowPrice?.toString() || '',
-      category: item.category || '',
+      reservePrice: item.reservePrice?.toString() || '',
+      fairMarketValue: item.fairMarketValue?.toString() || '',
+      quantity: (item.quantity ?? 1).toString(),
+      winnerPricing: item.winnerPricing || 'own_bid',
+      categoryId: item.categoryId || '',
     })
     // Reset image states
     setEditItemNewImages([])
@@ -416,7 +469,13 @@ export default function EventDashboardPage() {
         condition: editItemData.condition.trim() || undefined,
         startingPrice: editItemData.startingPrice ? parseFloat(editItemData.startingPrice) : undefined,
         buyNowPrice: editItemData.buyNowPrice ? parseFloat(editItemData.buyNowPrice) : undefined,
-        category: editItemData.category.trim() || undefined,
+        // Clearing the field removes the reserve
+        reservePrice: editItemData.reservePrice ? parseFloat(editItemData.reservePrice) : null,
+        // Clearing the field removes the value
+        fairMarketValue: editItemData.fairMarketValue ? parseFloat(editItemData.fairMarketValue) : null,
+        quantity: parseInt(editItemData.quantity) || 1,
+        winnerPricing: editItemData.winnerPricing,
+        categoryId: editItemData.categoryId || null,
       })
 
       // Delete images marked for deletion
@@ -667,6 +726,176 @@ export default function EventDashboardPage() {
     }
   }, [activeTab, event, fetchDonorSubmissions])
 
+  // Fetch closing groups
+  const fetchClosingGroups = useCallback(async () => {
+    if (!event) return
+    try {
+      const groups = await apiClient.getClosingGroups(event.id)
+      setClosingGroups(groups)
+    } catch (err) {
+      console.error('Failed to fetch closing groups:', err)
+    }
+  }, [event])
+
+  useEffect(() => {
+    if (activeTab === 'items' && event) {
+      fetchClosingGroups()
+    }
+  }, [activeTab, event, fetchClosingGroups])
+
+  // Fetch item categories (also used by the add/edit item forms)
+  const fetchCategories = useCallback(async () => {
+    if (!event) return
+    try {
+      setCategories(await apiClient.getEventCategories(event.id))
+    } catch (err) {
+      console.error('Failed to fetch categories:', err)
+    }
+  }, [event])
+
+  useEffect(() => {
+    if (activeTab === 'items' && event) {
+      fetchCategories()
+    }
+  }, [activeTab, event, fetchCategories])
+
+  const handleSetItemCategory = async (itemId: string, categoryId: string | null) => {
+    try {
+      const result = await apiClient.setItemCategory(itemId, categoryId)
+      setItems((prev) => prev.map((i) => (i.id === itemId ? { ...i, categoryId, category: result.category ?? undefined } : i)))
+      await fetchCategories()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update category')
+    }
+  }
+
+  const handleCreateClosingGroup = async () => {
+    if (!event || !newGroupName.trim() || !newGroupEndTime) return
+
+    setIsSavingClosingGroup(true)
+    setClosingGroupError(null)
+    try {
+      await apiClient.createClosingGroup(event.id, {
+        name: newGroupName.trim(),
+        endTime: new Date(newGroupEndTime).toISOString(),
+      })
+      setNewGroupName('')
+      setNewGroupEndTime('')
+      await fetchClosingGroups()
+    } catch (err) {
+      setClosingGroupError(err instanceof Error ? err.message : 'Failed to create closing group')
+    } finally {
+      setIsSavingClosingGroup(false)
+    }
+  }
+
+  const handleDeleteClosingGroup = async (groupId: string) => {
+    if (!confirm('Delete this closing group? Its items will close with the event instead.')) return
+
+    setClosingGroupError(null)
+    try {
+      await apiClient.deleteClosingGroup(groupId)
+      setItems((prev) => prev.map((i) => (i.closingGroupId === groupId ? { ...i, closingGroupId: null } : i)))
+      await fetchClosingGroups()
+    } catch (err) {
+      setClosingGroupError(err instanceof Error ? err.message : 'Failed to delete closing group')
+    }
+  }
+
+  const handleSetItemClosingGroup = async (itemId: string, closingGroupId: string | null) => {
+    setClosingGroupError(null)
+    try {
+      await apiClient.setItemClosingGroup(itemId, closingGroupId)
+      setItems((prev) => prev.map((i) => (i.id === itemId ? { ...i, closingGroupId } : i)))
+      await fetchClosingGroups()
+    } catch (err) {
+      setClosingGroupError(err instanceof Error ? err.message : 'Failed to update closing group')
+    }
+  }
+
+  // Fetch pending bid retraction requests
+  const fetchRetractionRequests = useCallback(async () => {
+    if (!event) return
+    try {
+      const requests = await apiClient.getRetractionRequests(event.id, 'pending')
+      setRetractionRequests(requests)
+    } catch (err) {
+      console.error('Failed to fetch retraction requests:', err)
+    }
+  }, [event])
+
+  useEffect(() => {
+    if (activeTab === 'items' && event?.status === 'active') {
+      fetchRetractionRequests()
+    }
+  }, [activeTab, event, fetchRetractionRequests])
+
+  const updateItemBidSummary = (itemId: string, currentBid: number | null, bidCount: number) => {
+    setItems((prev) => prev.map((i) => (i.id === itemId ? { ...i, currentBid: currentBid ?? undefined, bidCount } : i)))
+  }
+
+  const handleOpenItemBids = async (item: EventItem) => {
+    setBidsModalItem(item)
+    setItemBids([])
+    setBidActionError(null)
+    setItemBidsLoading(true)
+    try {
+      setItemBids(await apiClient.getAdminItemBids(item.id))
+    } catch (err) {
+      setBidActionError(err instanceof Error ? err.message : 'Failed to load bids')
+    } finally {
+      setItemBidsLoading(false)
+    }
+  }
+
+  const handleCloseItemBids = () => {
+    setBidsModalItem(null)
+    setCancellingBid(null)
+    setCancelBidReason('')
+    setBidActionError(null)
+  }
+
+  const handleCancelBid = async () => {
+    if (!bidsModalItem || !cancellingBid || !cancelBidReason.trim()) return
+
+    setIsSavingBidAction(true)
+    setBidActionError(null)
+    try {
+      const result = await apiClient.cancelEventItemBid(bidsModalItem.id, cancellingBid.id, cancelBidReason.trim())
+      updateItemBidSummary(bidsModalItem.id, result.currentBid, result.bidCount)
+      setCancellingBid(null)
+      setCancelBidReason('')
+      setItemBids(await apiClient.getAdminItemBids(bidsModalItem.id))
+      await fetchRetractionRequests()
+    } catch (err) {
+      setBidActionError(err instanceof Error ? err.message : 'Failed to cancel bid')
+    } finally {
+      setIsSavingBidAction(false)
+    }
+  }
+
+  const handleReviewRetraction = async (request: BidRetractionRequest, decision: 'approve' | 'deny') => {
+    let note: string | undefined
+    if (decision === 'approve') {
+      if (!confirm(`Cancel ${request.bidderName || 'this bidder'}'s $${request.amount.toLocaleString()} bid on "${request.itemTitle}"?`)) return
+    } else {
+      const input = prompt('Let the bidder know why (optional):')
+      if (input === null) return
+      note = input.trim() || undefined
+    }
+
+    setBidActionError(null)
+    try {
+      const result = await apiClient.reviewRetractionRequest(request.id, decision, note)
+      if (result.bidCount !== undefined) {
+        updateItemBidSummary(result.itemId, result.currentBid ?? null, result.bidCount)
+      }
+      await fetchRetractionRequests()
+    } catch (err) {
+      setBidActionError(err instanceof Error ? err.message : 'Failed to review retraction request')
+    }
+  }
+
   // Fetch donation settings
   const fetchDonationSettings = useCallback(async () => {
     if (!event) return
@@ -723,12 +952,15 @@ export default function EventDashboardPage() {
       const result = await apiClient.convertSubmissionToItem(event.id, showConvertModal, {
         startingBid: convertModalData.startingBid ? parseFloat(convertModalData.startingBid) : undefined,
         buyNowPrice: convertModalData.buyNowPrice ? parseFloat(convertModalData.buyNowPrice) : undefined,
+        reservePrice: convertModalData.reservePrice ? parseFloat(convertModalData.reservePrice) : undefined,
+        fairMarketValue: convertModalData.fairMarketValue ? parseFloat(convertModalData.fairMarketValue) : undefined,
+        categoryId: convertModalData.categoryId || undefined,
       })
       setDonorSubmissions((prev) =>
         prev.map((s) => (s.id === showConvertModal ? { ...s, status: 'converted', eventItemId: result.eventItemId } : s))
       )
       setShowConvertModal(null)
-      setConvertModalData({ startingBid: '', buyNowPrice: '' })
+      setConvertModalData({ startingBid: '', buyNowPrice: '', reservePrice: '', fairMarketValue: '', categoryId: '' })
       setSuccessMessage('Item successfully added to auction!')
       setTimeout(() => setSuccessMessage(null), 5000)
       // Refresh items list too
@@ -810,11 +1042,16 @@ export default function EventDashboardPage() {
     }
   }
 
+  // Items with several units have a row per winner, so rows are keyed by the win
+  const wonItemKey = (item: EventItem) => item.winId || item.id
+
   const handleUpdatePaymentStatus = async () => {
-    if (!showPaymentModal) return
+    const win = wonItems.find((item) => wonItemKey(item) === showPaymentModal)
+    if (!win) return
 
     try {
-      const updated = await apiClient.updateItemPaymentStatus(showPaymentModal, {
+      const updated = await apiClient.updateItemPaymentStatus(win.id, {
+        winId: win.winId,
         paymentStatus: paymentModalData.status,
         paymentMethodUsed: paymentModalData.methodUsed || undefined,
         paymentNotes: paymentModalData.notes || undefined,
@@ -822,7 +1059,7 @@ export default function EventDashboardPage() {
 
       // Update the item in the list
       setWonItems((prev) =>
-        prev.map((item) => (item.id === showPaymentModal ? { ...item, ...updated } : item))
+        prev.map((item) => (wonItemKey(item) === showPaymentModal ? { ...item, ...updated } : item))
       )
 
       setSuccessMessage('Payment status updated successfully')
@@ -834,11 +1071,50 @@ export default function EventDashboardPage() {
     }
   }
 
+  // A winner who never paid: the win can then be offered to the runner-up
+  const handleMarkDefaulted = async (win: EventItem) => {
+    if (!win.winId) return
+    if (!confirm(`Mark ${win.winnerName || 'this winner'}'s win of "${win.title}" as defaulted? They will no longer be able to pay for it.`)) return
+
+    try {
+      const { runnerUp } = await apiClient.markWinDefaulted(win.id, win.winId)
+      await fetchWonItems()
+      setSuccessMessage(runnerUp
+        ? `Win marked defaulted. ${runnerUp.bidderName || 'The next bidder'} bid $${runnerUp.amount.toLocaleString()} and can be offered the item.`
+        : 'Win marked defaulted. No other bidders are left to offer the item to.')
+      setTimeout(() => setSuccessMessage(null), 5000)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to mark win defaulted')
+    }
+  }
+
+  const handleOfferToRunnerUp = async (win: EventItem) => {
+    if (!win.winId) return
+
+    try {
+      const { runnerUp } = await apiClient.getItemSecondChanceOffers(win.id)
+      if (!runnerUp) {
+        alert('No other bidders are left to offer this item to.')
+        return
+      }
+      if (!confirm(`Offer "${win.title}" to ${runnerUp.bidderName || 'the next bidder'} at their bid of $${runnerUp.amount.toLocaleString()}? They will have 48 hours to accept.`)) return
+
+      await apiClient.createSecondChanceOffer(win.id, win.winId)
+      await fetchWonItems()
+      setSuccessMessage('Offer sent to the next bidder')
+      setTimeout(() => setSuccessMessage(null), 5000)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to send offer')
+    }
+  }
+
   const handleUpdateFulfillmentStatus = async () => {
-    if (!showFulfillmentModal) return
+    const win = wonItems.find((item) => wonItemKey(item) === showFulfillmentModal)
+    if (!win) return
 
     try {
-      const updated = await apiClient.updateItemFulfillmentStatus(showFulfillmentModal, {
+      const updated = await apiClient.updateItemFulfillmentStatus(win.id, {
+        winId: win.winId,
         fulfillmentStatus: fulfillmentModalData.status,
         fulfillmentType: fulfillmentModalData.type,
         trackingNumber: fulfillmentModalData.trackingNumber || undefined,
@@ -848,7 +1124,7 @@ export default function EventDashboardPage() {
 
       // Update the item in the list
       setWonItems((prev) =>
-        prev.map((item) => (item.id === showFulfillmentModal ? { ...item, ...updated } : item))
+        prev.map((item) => (wonItemKey(item) === showFulfillmentModal ? { ...item, ...updated } : item))
       )
 
       setSuccessMessage('Fulfillment status updated successfully')
@@ -1022,7 +1298,7 @@ export default function EventDashboardPage() {
       {/* Tabs */}
       <div className="border-b border-sage/20 mb-6">
         <nav className="flex gap-8">
-          {(['overview', 'items', ...(showPaymentsTab ? ['payments'] : []), 'settings'] as const).map((tab) => (
+          {(['overview', 'items', 'fund-a-need', ...(rafflesEnabled ? ['raffles'] : []), ...(showPaymentsTab ? ['payments'] : []), 'settings'] as const).map((tab) => (
             <button
               key={tab}
               onClick={() => setActiveTab(tab as typeof activeTab)}
@@ -1032,7 +1308,7 @@ export default function EventDashboardPage() {
                   : 'border-transparent text-gray-500 hover:text-white'
               }`}
             >
-              {tab === 'items' ? 'Auction Items' : tab.charAt(0).toUpperCase() + tab.slice(1)}
+              {tab === 'items' ? 'Auction Items' : tab === 'fund-a-need' ? 'Fund-a-Need' : tab.charAt(0).toUpperCase() + tab.slice(1)}
               {tab === 'items' && (pendingCount > 0 || (donorSubmissionStats && donorSubmissionStats.pending > 0)) && (
                 <span className="ml-2 bg-yellow-500 text-white text-xs px-2 py-0.5 rounded-full">
                   {pendingCount + (donorSubmissionStats?.pending || 0)}
@@ -1158,6 +1434,133 @@ export default function EventDashboardPage() {
             )}
           </div>
 
+          {/* Categories */}
+          {event && (
+            <CategoryManager
+              event={event}
+              categories={categories}
+              onChange={() => {
+                fetchCategories()
+                fetchData()
+              }}
+            />
+          )}
+
+          {/* Closing Groups */}
+          {event && event.status !== 'ended' && event.status !== 'cancelled' && (
+            <div className="bg-white rounded-lg shadow-sm border border-sage/20 p-6">
+              <h3 className="text-lg font-semibold text-white mb-1">Closing Groups</h3>
+              <p className="text-sm text-gray-500 mb-4">
+                Close items in waves (for example "Table A closes 8:00, Table B 8:15"). Winners of each group are
+                notified as soon as it closes. Items without a group close at the event end time.
+              </p>
+
+              {closingGroupError && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm">
+                  {closingGroupError}
+                </div>
+              )}
+
+              {closingGroups.length > 0 && (
+                <ul className="divide-y divide-sage/10 mb-4">
+                  {closingGroups.map((group) => (
+                    <li key={group.id} className="flex items-center justify-between py-2">
+                      <div>
+                        <span className="font-medium text-white">{group.name}</span>
+                        <span className="ml-2 text-sm text-gray-500">closes {formatDate(group.endTime)}</span>
+                        <span className="ml-2 text-xs text-gray-400">
+                          {group.itemCount} item{group.itemCount === 1 ? '' : 's'}
+                        </span>
+                        {group.closedAt && (
+                          <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">Closed</span>
+                        )}
+                      </div>
+                      {!group.closedAt && (
+                        <button
+                          onClick={() => handleDeleteClosingGroup(group.id)}
+                          className="text-red-600 hover:underline text-sm"
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="flex gap-3 flex-wrap">
+                <input
+                  type="text"
+                  value={newGroupName}
+                  onChange={(e) => setNewGroupName(e.target.value)}
+                  placeholder="Group name (e.g. Table A)"
+                  maxLength={100}
+                  className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+                <input
+                  type="datetime-local"
+                  value={newGroupEndTime}
+                  onChange={(e) => setNewGroupEndTime(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+                <button
+                  onClick={handleCreateClosingGroup}
+                  disabled={isSavingClosingGroup || !newGroupName.trim() || !newGroupEndTime}
+                  className="px-4 py-2 bg-sage text-white rounded-lg hover:bg-sage/90 font-medium text-sm disabled:opacity-50"
+                >
+                  {isSavingClosingGroup ? 'Adding...' : 'Add Group'}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Bid Retraction Requests */}
+          {retractionRequests.length > 0 && (
+            <div className="bg-white rounded-lg shadow-sm border border-sage/20 p-6">
+              <h3 className="text-lg font-semibold text-white mb-1">Bid Retraction Requests</h3>
+              <p className="text-sm text-gray-500 mb-4">
+                Bidders asking to withdraw a bid. Approving cancels the bid and the previous leader takes the lead again.
+              </p>
+
+              {bidActionError && !bidsModalItem && (
+                <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm">
+                  {bidActionError}
+                </div>
+              )}
+
+              <ul className="divide-y divide-sage/10">
+                {retractionRequests.map((request) => (
+                  <li key={request.id} className="flex items-start justify-between gap-4 py-3">
+                    <div>
+                      <div>
+                        <span className="font-medium text-white">{request.bidderName || request.bidderEmail || 'Bidder'}</span>
+                        <span className="ml-2 text-sm text-gray-500">
+                          ${request.amount.toLocaleString()} on {request.itemTitle}
+                        </span>
+                        <span className="ml-2 text-xs text-gray-400">{formatDate(request.createdAt)}</span>
+                      </div>
+                      <p className="text-sm text-gray-600 mt-1">"{request.reason}"</p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <button
+                        onClick={() => handleReviewRetraction(request, 'approve')}
+                        className="text-green-600 hover:underline text-sm"
+                      >
+                        Approve
+                      </button>
+                      <button
+                        onClick={() => handleReviewRetraction(request, 'deny')}
+                        className="text-red-600 hover:underline text-sm"
+                      >
+                        Deny
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {filteredItems.length === 0 ? (
             <div className="text-center py-12 bg-white rounded-xl border border-sage/20">
               <svg
@@ -1206,6 +1609,12 @@ export default function EventDashboardPage() {
                     <th className="text-left px-6 py-3 text-sm font-medium text-white">Submitted By</th>
                     <th className="text-left px-6 py-3 text-sm font-medium text-white">Price</th>
                     <th className="text-left px-6 py-3 text-sm font-medium text-white">Status</th>
+                    {categories.length > 0 && (
+                      <th className="text-left px-6 py-3 text-sm font-medium text-white">Category</th>
+                    )}
+                    {closingGroups.length > 0 && (
+                      <th className="text-left px-6 py-3 text-sm font-medium text-white">Closes</th>
+                    )}
                     <th className="text-right px-6 py-3 text-sm font-medium text-white">Actions</th>
                   </tr>
                 </thead>
@@ -1215,9 +1624,10 @@ export default function EventDashboardPage() {
                       <td className="px-6 py-4">
                         <div className="flex items-center gap-3">
                           {item.images && item.images.length > 0 ? (
-                            <img
-                              src={item.images[0].blobUrl}
+                            <ItemImage
+                              image={item.images[0]}
                               alt={item.title}
+                              sizes="48px"
                               className="w-12 h-12 object-cover rounded-lg"
                             />
                           ) : (
@@ -1254,6 +1664,11 @@ export default function EventDashboardPage() {
                               Buy Now: ${item.buyNowPrice}
                             </div>
                           )}
+                          {item.hasReserve && (
+                            <div className={`text-xs ${item.reserveMet ? 'text-sage' : 'text-gray-500'}`}>
+                              Reserve: ${item.reservePrice} ({item.reserveMet ? 'met' : 'not met'})
+                            </div>
+                          )}
                         </div>
                       </td>
                       <td className="px-6 py-4">
@@ -1266,6 +1681,42 @@ export default function EventDashboardPage() {
                           </div>
                         )}
                       </td>
+                      {categories.length > 0 && (
+                        <td className="px-6 py-4" onClick={(e) => e.stopPropagation()}>
+                          <select
+                            value={item.categoryId || ''}
+                            onChange={(e) => handleSetItemCategory(item.id, e.target.value || null)}
+                            className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                          >
+                            <option value="">None</option>
+                            {categories.map((category) => (
+                              <option key={category.id} value={category.id}>
+                                {category.name}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                      )}
+                      {closingGroups.length > 0 && (
+                        <td className="px-6 py-4" onClick={(e) => e.stopPropagation()}>
+                          <select
+                            value={item.closingGroupId || ''}
+                            onChange={(e) => handleSetItemClosingGroup(item.id, e.target.value || null)}
+                            disabled={
+                              event.status === 'ended' ||
+                              closingGroups.some((g) => g.id === item.closingGroupId && g.closedAt)
+                            }
+                            className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                          >
+                            <option value="">With event</option>
+                            {closingGroups.map((group) => (
+                              <option key={group.id} value={group.id} disabled={!!group.closedAt}>
+                                {group.name}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                      )}
                       <td className="px-6 py-4 text-right">
                         <div className="flex items-center justify-end gap-2">
                           <button
@@ -1274,6 +1725,14 @@ export default function EventDashboardPage() {
                           >
                             Edit
                           </button>
+                          {item.status === 'active' && item.bidCount > 0 && (
+                            <button
+                              onClick={(e) => { e.stopPropagation(); handleOpenItemBids(item); }}
+                              className="text-blue-600 hover:underline text-sm"
+                            >
+                              Bids
+                            </button>
+                          )}
                           {item.submissionStatus === 'pending' && (
                             <>
                               <button
@@ -1667,6 +2126,10 @@ export default function EventDashboardPage() {
                                 setConvertModalData({
                                   startingBid: submission.estimatedValue ? String(Math.floor(submission.estimatedValue * 0.5)) : '',
                                   buyNowPrice: submission.estimatedValue ? String(submission.estimatedValue) : '',
+                                  reservePrice: '',
+                                  fairMarketValue: submission.estimatedValue ? String(submission.estimatedValue) : '',
+                                  // Preselect the event category matching what the donor entered
+                                  categoryId: categories.find((c) => c.name.toLowerCase() === submission.category?.toLowerCase())?.id || '',
                                 })
                               }}
                               className="text-sage hover:underline text-sm font-medium"
@@ -1689,6 +2152,12 @@ export default function EventDashboardPage() {
         </div>
       )}
 
+      {/* Fund-a-Need Tab */}
+      {activeTab === 'fund-a-need' && <FundANeedManager event={event} />}
+
+      {/* Raffles Tab */}
+      {activeTab === 'raffles' && rafflesEnabled && <RaffleManager event={event} />}
+
       {/* Payments Tab (Self-Managed Payments) */}
       {activeTab === 'payments' && showPaymentsTab && (
         <div className="space-y-6">
@@ -1724,7 +2193,7 @@ export default function EventDashboardPage() {
 
           {/* Payment Filters */}
           <div className="flex gap-2 overflow-x-auto pb-2">
-            {(['all', 'pending', 'paid', 'payment_issue', 'waived', 'refunded'] as const).map((status) => (
+            {(['all', 'pending', 'paid', 'payment_issue', 'waived', 'refunded', 'defaulted'] as const).map((status) => (
               <button
                 key={status}
                 onClick={() => setPaymentFilter(status)}
@@ -1786,13 +2255,14 @@ export default function EventDashboardPage() {
                 </thead>
                 <tbody className="divide-y divide-sage/10">
                   {filteredWonItems.map((item) => (
-                    <tr key={item.id}>
+                    <tr key={wonItemKey(item)}>
                       <td className="px-6 py-4">
                         <div className="flex items-center gap-3">
                           {item.images && item.images.length > 0 ? (
-                            <img
-                              src={item.images[0].blobUrl}
+                            <ItemImage
+                              image={item.images[0]}
                               alt={item.title}
+                              sizes="48px"
                               className="w-12 h-12 object-cover rounded-lg"
                             />
                           ) : (
@@ -1815,6 +2285,9 @@ export default function EventDashboardPage() {
                         <div className="font-medium text-white">
                           ${item.winningBid?.toLocaleString() || '0'}
                         </div>
+                        {item.quantity && item.quantity > 1 && (
+                          <div className="text-xs text-gray-500">x {item.quantity}</div>
+                        )}
                       </td>
                       <td className="px-6 py-4">
                         <span className={`text-xs px-2 py-1 rounded-full font-medium ${paymentStatusColors[item.paymentStatus || 'pending']}`}>
@@ -1823,6 +2296,11 @@ export default function EventDashboardPage() {
                         {item.paymentMethodUsed && (
                           <div className="text-xs text-gray-500 mt-1">{item.paymentMethodUsed}</div>
                         )}
+                        {item.secondChanceOffer && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            Offer to {item.secondChanceOffer.bidderName || 'next bidder'} (${item.secondChanceOffer.amount.toLocaleString()}): {item.secondChanceOffer.status}
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4">
                         <span className={`text-xs px-2 py-1 rounded-full font-medium ${fulfillmentStatusColors[item.fulfillmentStatus || 'pending']}`}>
@@ -1836,11 +2314,28 @@ export default function EventDashboardPage() {
                       </td>
                       <td className="px-6 py-4 text-right">
                         <div className="flex items-center justify-end gap-2">
+                          {(item.paymentStatus === 'pending' || item.paymentStatus === 'payment_issue') && (
+                            <button
+                              onClick={() => handleMarkDefaulted(item)}
+                              className="text-red-600 hover:underline text-sm"
+                            >
+                              Mark Defaulted
+                            </button>
+                          )}
+                          {item.paymentStatus === 'defaulted' && item.secondChanceOffer?.status !== 'pending' && (
+                            <button
+                              onClick={() => handleOfferToRunnerUp(item)}
+                              className="text-sage hover:underline text-sm"
+                            >
+                              Offer to Runner-up
+                            </button>
+                          )}
                           <button
                             onClick={() => {
-                              setShowPaymentModal(item.id)
+                              setShowPaymentModal(wonItemKey(item))
                               setPaymentModalData({
-                                status: item.paymentStatus || 'pending',
+                                // A defaulted winner who pays after all is marked paid
+                                status: item.paymentStatus === 'defaulted' ? 'paid' : item.paymentStatus || 'pending',
                                 methodUsed: item.paymentMethodUsed || '',
                                 notes: item.paymentNotes || '',
                               })
@@ -1851,7 +2346,7 @@ export default function EventDashboardPage() {
                           </button>
                           <button
                             onClick={() => {
-                              setShowFulfillmentModal(item.id)
+                              setShowFulfillmentModal(wonItemKey(item))
                               setFulfillmentModalData({
                                 status: item.fulfillmentStatus || 'pending',
                                 type: item.fulfillmentType,
@@ -2056,6 +2551,93 @@ export default function EventDashboardPage() {
         </div>
       )}
 
+      {/* Item Bids Modal */}
+      {bidsModalItem && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-lg mx-4 max-h-[90vh] overflow-y-auto">
+            <h2 className="text-lg font-semibold text-white mb-1">Bids on {bidsModalItem.title}</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Cancel a mistaken bid. The item's price and leader are recalculated from the remaining bids and the
+              bidder is notified.
+            </p>
+
+            {bidActionError && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm">
+                {bidActionError}
+              </div>
+            )}
+
+            {itemBidsLoading ? (
+              <p className="text-sm text-gray-500">Loading bids...</p>
+            ) : itemBids.length === 0 ? (
+              <p className="text-sm text-gray-500">No bids on this item.</p>
+            ) : (
+              <ul className="divide-y divide-sage/10">
+                {itemBids.map((bid) => (
+                  <li key={bid.id} className="py-2">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <span className="font-medium text-white">${bid.amount.toLocaleString()}</span>
+                        <span className="ml-2 text-sm text-gray-500">{bid.bidderName || bid.bidderEmail || 'Bidder'}</span>
+                        {bid.isLeading && (
+                          <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-green-100 text-green-700">Leading</span>
+                        )}
+                        {bid.isProxy && <span className="ml-2 text-xs text-gray-400">auto-bid</span>}
+                        <div className="text-xs text-gray-400">{formatDate(bid.createdAt)}</div>
+                      </div>
+                      {cancellingBid?.id !== bid.id && (
+                        <button
+                          onClick={() => { setCancellingBid(bid); setCancelBidReason(''); setBidActionError(null); }}
+                          className="text-red-600 hover:underline text-sm"
+                        >
+                          Cancel Bid
+                        </button>
+                      )}
+                    </div>
+                    {cancellingBid?.id === bid.id && (
+                      <div className="mt-2 space-y-2">
+                        <textarea
+                          rows={2}
+                          value={cancelBidReason}
+                          onChange={(e) => setCancelBidReason(e.target.value)}
+                          maxLength={500}
+                          className="w-full px-4 py-2 border border-sage/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-sage/50"
+                          placeholder="Reason (shared with the bidder)"
+                        />
+                        <div className="flex justify-end gap-2">
+                          <button
+                            onClick={() => { setCancellingBid(null); setCancelBidReason(''); }}
+                            className="px-3 py-1 border border-sage/30 rounded-lg hover:bg-sage/10 text-sm"
+                          >
+                            Keep Bid
+                          </button>
+                          <button
+                            onClick={handleCancelBid}
+                            disabled={isSavingBidAction || !cancelBidReason.trim()}
+                            className="bg-red-600 text-white px-3 py-1 rounded-lg hover:bg-red-700 text-sm disabled:opacity-50"
+                          >
+                            {isSavingBidAction ? 'Cancelling...' : 'Cancel Bid'}
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex justify-end mt-6">
+              <button
+                onClick={handleCloseItemBids}
+                className="px-4 py-2 border border-sage/30 rounded-lg hover:bg-sage/10"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Request Resubmit Modal */}
       {showResubmitModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -2258,6 +2840,61 @@ export default function EventDashboardPage() {
                 </div>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-white mb-1">Reserve Price ($)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={addItemData.reservePrice}
+                  onChange={(e) => setAddItemData((prev) => ({ ...prev, reservePrice: e.target.value }))}
+                  placeholder="No reserve"
+                  className="w-full px-4 py-2 border border-sage/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-sage/50"
+                />
+                <p className="text-xs text-gray-400 mt-1">Hidden from bidders. The item won't sell if bidding closes below it.</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-white mb-1">Fair Market Value ($)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={addItemData.fairMarketValue}
+                  onChange={(e) => setAddItemData((prev) => ({ ...prev, fairMarketValue: e.target.value }))}
+                  placeholder="Not set"
+                  className="w-full px-4 py-2 border border-sage/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-sage/50"
+                />
+                <p className="text-xs text-gray-400 mt-1">Shown on buyers' tax receipts. Only what they pay above it is deductible.</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-white mb-1">Quantity</label>
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={addItemData.quantity}
+                    onChange={(e) => setAddItemData((prev) => ({ ...prev, quantity: e.target.value }))}
+                    className="w-full px-4 py-2 border border-sage/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-sage/50"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-white mb-1">Winners Pay</label>
+                  <select
+                    value={addItemData.winnerPricing}
+                    onChange={(e) => setAddItemData((prev) => ({ ...prev, winnerPricing: e.target.value as WinnerPricing }))}
+                    disabled={parseInt(addItemData.quantity) <= 1}
+                    className="w-full px-4 py-2 border border-sage/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-sage/50"
+                  >
+                    <option value="own_bid">Their own bid</option>
+                    <option value="lowest_winning">Lowest winning bid</option>
+                  </select>
+                </div>
+              </div>
+              <p className="text-xs text-gray-400 -mt-2">With more than one unit, each of the top bidders wins one.</p>
+
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-white mb-1">Condition</label>
@@ -2275,13 +2912,18 @@ export default function EventDashboardPage() {
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-white mb-1">Category</label>
-                  <input
-                    type="text"
-                    value={addItemData.category}
-                    onChange={(e) => setAddItemData((prev) => ({ ...prev, category: e.target.value }))}
-                    placeholder="e.g., Art, Electronics"
+                  <select
+                    value={addItemData.categoryId}
+                    onChange={(e) => setAddItemData((prev) => ({ ...prev, categoryId: e.target.value }))}
                     className="w-full px-4 py-2 border border-sage/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-sage/50"
-                  />
+                  >
+                    <option value="">{categories.length > 0 ? 'No category' : 'Add categories on the Items tab'}</option>
+                    {categories.map((category) => (
+                      <option key={category.id} value={category.id}>
+                        {category.icon ? `${category.icon} ` : ''}{category.name}
+                      </option>
+                    ))}
+                  </select>
                 </div>
               </div>
 
@@ -2426,7 +3068,11 @@ export default function EventDashboardPage() {
                     condition: '',
                     startingPrice: '',
                     buyNowPrice: '',
-                    category: '',
+                    reservePrice: '',
+                    fairMarketValue: '',
+                    quantity: '1',
+                    winnerPricing: 'own_bid',
+                    categoryId: '',
                     donorName: '',
                     donorEmail: '',
                   })
@@ -2507,6 +3153,61 @@ export default function EventDashboardPage() {
                 </div>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-white mb-1">Reserve Price ($)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={editItemData.reservePrice}
+                  onChange={(e) => setEditItemData((prev) => ({ ...prev, reservePrice: e.target.value }))}
+                  placeholder="No reserve"
+                  className="w-full px-4 py-2 border border-sage/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-sage/50"
+                />
+                <p className="text-xs text-gray-400 mt-1">Hidden from bidders. The item won't sell if bidding closes below it.</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-white mb-1">Fair Market Value ($)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={editItemData.fairMarketValue}
+                  onChange={(e) => setEditItemData((prev) => ({ ...prev, fairMarketValue: e.target.value }))}
+                  placeholder="Not set"
+                  className="w-full px-4 py-2 border border-sage/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-sage/50"
+                />
+                <p className="text-xs text-gray-400 mt-1">Shown on buyers' tax receipts. Only what they pay above it is deductible.</p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-white mb-1">Quantity</label>
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={editItemData.quantity}
+                    onChange={(e) => setEditItemData((prev) => ({ ...prev, quantity: e.target.value }))}
+                    className="w-full px-4 py-2 border border-sage/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-sage/50"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-white mb-1">Winners Pay</label>
+                  <select
+                    value={editItemData.winnerPricing}
+                    onChange={(e) => setEditItemData((prev) => ({ ...prev, winnerPricing: e.target.value as WinnerPricing }))}
+                    disabled={parseInt(editItemData.quantity) <= 1}
+                    className="w-full px-4 py-2 border border-sage/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-sage/50"
+                  >
+                    <option value="own_bid">Their own bid</option>
+                    <option value="lowest_winning">Lowest winning bid</option>
+                  </select>
+                </div>
+              </div>
+              <p className="text-xs text-gray-400 -mt-2">With more than one unit, each of the top bidders wins one.</p>
+
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-white mb-1">Condition</label>
@@ -2524,13 +3225,18 @@ export default function EventDashboardPage() {
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-white mb-1">Category</label>
-                  <input
-                    type="text"
-                    value={editItemData.category}
-                    onChange={(e) => setEditItemData((prev) => ({ ...prev, category: e.target.value }))}
-                    placeholder="e.g., Art, Electronics"
+                  <select
+                    value={editItemData.categoryId}
+                    onChange={(e) => setEditItemData((prev) => ({ ...prev, categoryId: e.target.value }))}
                     className="w-full px-4 py-2 border border-sage/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-sage/50"
-                  />
+                  >
+                    <option value="">{categories.length > 0 ? 'No category' : 'Add categories on the Items tab'}</option>
+                    {categories.map((category) => (
+                      <option key={category.id} value={category.id}>
+                        {category.icon ? `${category.icon} ` : ''}{category.name}
+                      </option>
+                    ))}
+                  </select>
                 </div>
               </div>
 
@@ -2547,9 +3253,10 @@ export default function EventDashboardPage() {
                         .filter((img) => !editItemImagesToDelete.includes(img.id))
                         .map((img, idx) => (
                           <div key={img.id} className="relative group">
-                            <img
-                              src={img.blobUrl}
+                            <ItemImage
+                              image={img}
                               alt={`Item photo ${idx + 1}`}
+                              sizes="64px"
                               className="w-16 h-16 object-cover rounded-lg border border-sage/20"
                             />
                             <button
@@ -2853,7 +3560,7 @@ export default function EventDashboardPage() {
           <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-md mx-4">
             <h2 className="text-lg font-semibold text-white mb-4">Add to Auction</h2>
             <p className="text-sm text-gray-500 mb-4">
-              Set the starting bid and optional buy-now price for this item.
+              Set the starting bid, and optionally a buy-now price and a hidden reserve, for this item.
             </p>
             <div className="space-y-4">
               <div>
@@ -2886,12 +3593,60 @@ export default function EventDashboardPage() {
                   />
                 </div>
               </div>
+              <div>
+                <label className="block text-sm font-medium text-white mb-1">Reserve Price (optional)</label>
+                <div className="relative">
+                  <span className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-500">$</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={convertModalData.reservePrice}
+                    onChange={(e) => setConvertModalData((prev) => ({ ...prev, reservePrice: e.target.value }))}
+                    className="w-full pl-8 pr-4 py-2 border border-sage/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-sage/50"
+                    placeholder="No reserve"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-white mb-1">Fair Market Value (optional)</label>
+                <div className="relative">
+                  <span className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-500">$</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={convertModalData.fairMarketValue}
+                    onChange={(e) => setConvertModalData((prev) => ({ ...prev, fairMarketValue: e.target.value }))}
+                    className="w-full pl-8 pr-4 py-2 border border-sage/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-sage/50"
+                    placeholder="Donor's estimate"
+                  />
+                </div>
+                <p className="text-xs text-gray-400 mt-1">Shown on buyers' tax receipts. Only what they pay above it is deductible.</p>
+              </div>
+              {categories.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-white mb-1">Category (optional)</label>
+                  <select
+                    value={convertModalData.categoryId}
+                    onChange={(e) => setConvertModalData((prev) => ({ ...prev, categoryId: e.target.value }))}
+                    className="w-full px-4 py-2 border border-sage/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-sage/50"
+                  >
+                    <option value="">No category</option>
+                    {categories.map((category) => (
+                      <option key={category.id} value={category.id}>
+                        {category.icon ? `${category.icon} ` : ''}{category.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
             <div className="flex justify-end gap-4 mt-6">
               <button
                 onClick={() => {
                   setShowConvertModal(null)
-                  setConvertModalData({ startingBid: '', buyNowPrice: '' })
+                  setConvertModalData({ startingBid: '', buyNowPrice: '', reservePrice: '', fairMarketValue: '', categoryId: '' })
                 }}
                 className="px-4 py-2 border border-sage/30 rounded-lg hover:bg-sage/10"
               >
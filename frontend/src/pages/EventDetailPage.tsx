@@ -2,7 +2,23 @@ import { useState, useEffect, useCallback } from 'react'
 import { useParams, Link } from 'react-router-dom'
 import { useMsal } from '@azure/msal-react'
 import { apiClient } from '../services/api'
-import type { AuctionEvent, EventItem, EventStatus } from '../types'
+import { signalRService } from '../services/signalr'
+import type { AuctionEvent, EventCategory, EventItem, EventItemSearchParams, EventItemSearchResult, EventStatus } from '../types'
+import ItemImage from '../components/ItemImage'
+import FundANeedSection from '../components/FundANeedSection'
+import RaffleSection from '../components/RaffleSection'
+import CardOnFileSection from '../components/CardOnFileSection'
+
+const PAGE_SIZE = 24
+
+const sortOptions: { value: string; label: string; params: Pick<EventItemSearchParams, 'sort' | 'direction'> }[] = [
+  { value: 'default', label: 'Featured', params: { sort: 'default' } },
+  { value: 'closingTime', label: 'Closing Soonest', params: { sort: 'closingTime' } },
+  { value: 'currentBidDesc', label: 'Highest Bid', params: { sort: 'currentBid', direction: 'desc' } },
+  { value: 'currentBidAsc', label: 'Lowest Bid', params: { sort: 'currentBid', direction: 'asc' } },
+  { value: 'bidCount', label: 'Most Bids', params: { sort: 'bidCount' } },
+  { value: 'title', label: 'Name', params: { sort: 'title' } },
+]
 
 const statusColors: Record<EventStatus, string> = {
   draft: 'bg-gray-100 text-gray-800',
@@ -26,8 +42,17 @@ export default function EventDetailPage() {
   const [accessVerified, setAccessVerified] = useState(false)
   const [verifyingAccess, setVerifyingAccess] = useState(false)
 
-  const [sortBy, setSortBy] = useState<'title' | 'price' | 'bids' | 'endingSoon'>('title')
+  // Catalog search, filters and sort are applied by the server
   const [searchQuery, setSearchQuery] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+  const [sortBy, setSortBy] = useState('default')
+  const [filters, setFilters] = useState<EventItemSearchParams>({})
+  const [minPriceInput, setMinPriceInput] = useState('')
+  const [maxPriceInput, setMaxPriceInput] = useState('')
+  const [pagination, setPagination] = useState<EventItemSearchResult['pagination'] | null>(null)
+  const [facets, setFacets] = useState<EventItemSearchResult['facets']>({ categories: [], conditions: [] })
+  const [itemsLoading, setItemsLoading] = useState(false)
+  const [categories, setCategories] = useState<EventCategory[]>([])
 
   const fetchData = useCallback(async () => {
     if (!slug) return
@@ -37,12 +62,6 @@ export default function EventDetailPage() {
       const eventData = await apiClient.getEvent(slug)
       setEvent(eventData)
 
-      // Fetch items if event is active/ended or user is admin
-      if (eventData.status === 'active' || eventData.status === 'ended' || eventData.isAdmin) {
-        const itemsData = await apiClient.getEventItems(slug, { submissionStatus: 'approved' })
-        setItems(itemsData.filter((item) => item.status !== 'removed'))
-      }
-
       // Check if access code is in URL params or localStorage
       const storedCode = localStorage.getItem(`event_access_${slug}`)
       if (storedCode && eventData.accessCode) {
@@ -60,6 +79,101 @@ export default function EventDetailPage() {
     fetchData()
   }, [fetchData])
 
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300)
+    return () => clearTimeout(timer)
+  }, [searchQuery])
+
+  // Items are shown once the event is active/ended, or to admins
+  const catalogVisible = !!event && (event.status === 'active' || event.status === 'ended' || !!event.isAdmin)
+
+  // Organizer-defined categories, browsed as tabs above the catalog
+  useEffect(() => {
+    if (!catalogVisible || !event) return
+    apiClient.getEventCategories(event.id)
+      .then((all) => setCategories(event.isAdmin ? all : all.filter((category) => category.itemCount > 0)))
+      .catch((err) => console.error('Failed to load categories:', err))
+  }, [catalogVisible, event])
+
+  const loadItems = useCallback(async (page: number) => {
+    if (!slug) return
+
+    setItemsLoading(true)
+    try {
+      const result = await apiClient.searchEventItems(slug, {
+        ...filters,
+        ...sortOptions.find((option) => option.value === sortBy)?.params,
+        q: debouncedSearch || undefined,
+        page,
+        pageSize: PAGE_SIZE,
+      })
+      setItems((prev) => (page === 1 ? result.data : [...prev, ...result.data]))
+      setPagination(result.pagination)
+      setFacets(result.facets)
+    } catch (err) {
+      console.error('Failed to load items:', err)
+    } finally {
+      setItemsLoading(false)
+    }
+  }, [slug, filters, sortBy, debouncedSearch])
+
+  useEffect(() => {
+    if (catalogVisible) {
+      loadItems(1)
+    }
+  }, [catalogVisible, loadItems])
+
+  // Keep the catalog current as bids come in and items sell or close
+  const eventId = event?.id
+  useEffect(() => {
+    if (!eventId || !slug) return
+
+    const updateItem = (itemId: string, changes: Partial<EventItem>) => {
+      setItems((prev) => prev.map((item) => (item.id === itemId ? { ...item, ...changes } : item)))
+    }
+
+    const refreshItems = () => loadItems(1)
+
+    const unsubscribers = [
+      signalRService.subscribeToEvent(eventId),
+      signalRService.onEventHubMessage('ItemBidUpdate', (update) => {
+        if (update.eventId !== eventId) return
+        updateItem(update.itemId, {
+          currentBid: update.currentBid ?? undefined,
+          bidCount: update.bidCount,
+          endTime: update.endTime,
+          reserveMet: update.reserveMet,
+        })
+      }),
+      signalRService.onEventHubMessage('SilentBidUpdate', (update) => {
+        if (update.eventId !== eventId) return
+        updateItem(update.itemId, { bidCount: update.bidderCount, reserveMet: update.reserveMet })
+      }),
+      signalRService.onEventHubMessage('ItemSold', (update) => {
+        if (update.eventId !== eventId) return
+        updateItem(update.itemId, { status: 'sold' })
+      }),
+      signalRService.onEventHubMessage('ItemRemoved', (update) => {
+        if (update.eventId !== eventId) return
+        setItems((prev) => prev.filter((item) => item.id !== update.itemId))
+      }),
+      signalRService.onEventHubMessage('ItemsClosed', (update) => {
+        if (update.eventId === eventId) {
+          refreshItems()
+        }
+      }),
+      signalRService.onEventHubMessage('EventEnded', (update) => {
+        if (update.eventId !== eventId) return
+        setEvent((prev) => prev && { ...prev, status: 'ended' })
+        refreshItems()
+      }),
+    ]
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe())
+    }
+  }, [eventId, slug, loadItems])
+
   const handleVerifyAccess = async () => {
     if (!event || !accessCode) return
 
@@ -107,26 +221,27 @@ export default function EventDetailPage() {
     return `${minutes}m remaining`
   }
 
-  const filteredAndSortedItems = items
-    .filter((item) =>
-      searchQuery
-        ? item.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          item.description?.toLowerCase().includes(searchQuery.toLowerCase())
-        : true
-    )
-    .sort((a, b) => {
-      switch (sortBy) {
-        case 'price':
-          return (b.currentBid || b.startingPrice || 0) - (a.currentBid || a.startingPrice || 0)
-        case 'bids':
-          return b.bidCount - a.bidCount
-        case 'endingSoon':
-          return 0 // All items in an event end at the same time
-        case 'title':
-        default:
-          return a.title.localeCompare(b.title)
-      }
+  const updateFilter = (changes: Partial<EventItemSearchParams>) => {
+    setFilters((prev) => ({ ...prev, ...changes }))
+  }
+
+  const applyPriceRange = () => {
+    const minPrice = parseFloat(minPriceInput)
+    const maxPrice = parseFloat(maxPriceInput)
+    updateFilter({
+      minPrice: Number.isNaN(minPrice) ? undefined : minPrice,
+      maxPrice: Number.isNaN(maxPrice) ? undefined : maxPrice,
     })
+  }
+
+  const clearFilters = () => {
+    setSearchQuery('')
+    setMinPriceInput('')
+    setMaxPriceInput('')
+    setFilters({})
+  }
+
+  const hasFilters = !!searchQuery || Object.values(filters).some((value) => value !== undefined && value !== false)
 
   if (loading) {
     return (
@@ -304,11 +419,54 @@ export default function EventDetailPage() {
         </div>
       )}
 
+      {/* Card on file (events that charge winners automatically) */}
+      {isAuthenticated && event.requireCardOnFile && (event.status === 'scheduled' || event.status === 'active') && (
+        <CardOnFileSection event={event} />
+      )}
+
+      {/* Fund-a-Need */}
+      {(event.status === 'active' || event.status === 'ended' || event.isAdmin) && (
+        <FundANeedSection event={event} isAuthenticated={isAuthenticated} />
+      )}
+
+      {/* Raffles (tickets go on sale once the event is published) */}
+      {event.status !== 'draft' && event.status !== 'cancelled' && (
+        <RaffleSection event={event} isAuthenticated={isAuthenticated} />
+      )}
+
       {/* Items Grid */}
       {(event.status === 'active' || event.status === 'ended' || event.isAdmin) && (
         <>
-          {/* Search and Sort */}
-          <div className="flex flex-col sm:flex-row gap-4 mb-6">
+          {/* Category Tabs */}
+          {categories.length > 0 && (
+            <div className="flex gap-2 overflow-x-auto pb-2 mb-4">
+              {[null, ...categories].map((category) => {
+                const selected = (filters.categoryId || null) === (category?.id ?? null)
+                return (
+                  <button
+                    key={category?.id ?? 'all'}
+                    onClick={() => updateFilter({ categoryId: category?.id, category: undefined })}
+                    className={`px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-colors ${
+                      selected ? 'bg-white/20 text-white' : 'bg-white/5 text-white/70 hover:bg-white/10'
+                    }`}
+                  >
+                    {category ? (
+                      <>
+                        {category.icon && <span className="mr-1">{category.icon}</span>}
+                        {category.name}
+                        <span className="ml-1 opacity-60">({category.itemCount})</span>
+                      </>
+                    ) : (
+                      'All Items'
+                    )}
+                  </button>
+                )
+              })}
+            </div>
+          )}
+
+          {/* Search, Filters and Sort */}
+          <div className="flex flex-col sm:flex-row gap-4 mb-4">
             <div className="flex-1">
               <input
                 type="text"
@@ -320,16 +478,111 @@ export default function EventDetailPage() {
             </div>
             <select
               value={sortBy}
-              onChange={(e) => setSortBy(e.target.value as typeof sortBy)}
+              onChange={(e) => setSortBy(e.target.value)}
               className="glass-input bg-white/5"
             >
-              <option value="title" className="bg-[#1a1a2e] text-white">Sort by Name</option>
-              <option value="price" className="bg-[#1a1a2e] text-white">Sort by Price</option>
-              <option value="bids" className="bg-[#1a1a2e] text-white">Sort by Bids</option>
+              {sortOptions.map((option) => (
+                <option key={option.value} value={option.value} className="bg-[#1a1a2e] text-white">
+                  Sort by {option.label}
+                </option>
+              ))}
             </select>
           </div>
 
-          {filteredAndSortedItems.length === 0 ? (
+          <div className="flex flex-wrap items-center gap-3 mb-6">
+            {categories.length === 0 && facets.categories.length > 0 && (
+              <select
+                value={filters.category || ''}
+                onChange={(e) => updateFilter({ category: e.target.value || undefined })}
+                className="glass-input bg-white/5 text-sm py-2"
+              >
+                <option value="" className="bg-[#1a1a2e] text-white">All categories</option>
+                {facets.categories.map((category) => (
+                  <option key={category} value={category} className="bg-[#1a1a2e] text-white">{category}</option>
+                ))}
+              </select>
+            )}
+            {facets.conditions.length > 0 && (
+              <select
+                value={filters.condition || ''}
+                onChange={(e) => updateFilter({ condition: e.target.value || undefined })}
+                className="glass-input bg-white/5 text-sm py-2"
+              >
+                <option value="" className="bg-[#1a1a2e] text-white">Any condition</option>
+                {facets.conditions.map((condition) => (
+                  <option key={condition} value={condition} className="bg-[#1a1a2e] text-white">
+                    {condition.replace('_', ' ').replace(/\b\w/g, (l) => l.toUpperCase())}
+                  </option>
+                ))}
+              </select>
+            )}
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min="0"
+                placeholder="Min $"
+                value={minPriceInput}
+                onChange={(e) => setMinPriceInput(e.target.value)}
+                onBlur={applyPriceRange}
+                onKeyDown={(e) => e.key === 'Enter' && applyPriceRange()}
+                className="glass-input w-24 text-sm py-2"
+              />
+              <span className="text-white/50">–</span>
+              <input
+                type="number"
+                min="0"
+                placeholder="Max $"
+                value={maxPriceInput}
+                onChange={(e) => setMaxPriceInput(e.target.value)}
+                onBlur={applyPriceRange}
+                onKeyDown={(e) => e.key === 'Enter' && applyPriceRange()}
+                className="glass-input w-24 text-sm py-2"
+              />
+            </div>
+            {[
+              { key: 'noBids' as const, label: 'No bids yet', show: true },
+              { key: 'buyNow' as const, label: 'Buy Now', show: !!event.buyNowEnabled },
+              { key: 'endingSoon' as const, label: 'Ending soon', show: event.status === 'active' },
+            ]
+              .filter((toggle) => toggle.show)
+              .map((toggle) => (
+                <button
+                  key={toggle.key}
+                  type="button"
+                  onClick={() => updateFilter({ [toggle.key]: !filters[toggle.key] })}
+                  className={`text-sm px-3 py-1.5 rounded-full border transition-colors ${
+                    filters[toggle.key]
+                      ? 'bg-teal-500/30 border-teal-400 text-white'
+                      : 'border-white/20 text-white/70 hover:border-white/40'
+                  }`}
+                >
+                  {toggle.label}
+                </button>
+              ))}
+            {isAuthenticated && (
+              <select
+                value={filters.myBids || ''}
+                onChange={(e) => updateFilter({ myBids: (e.target.value || undefined) as EventItemSearchParams['myBids'] })}
+                className="glass-input bg-white/5 text-sm py-2"
+              >
+                <option value="" className="bg-[#1a1a2e] text-white">All items</option>
+                <option value="winning" className="bg-[#1a1a2e] text-white">I&apos;m winning</option>
+                <option value="outbid" className="bg-[#1a1a2e] text-white">I&apos;ve been outbid</option>
+              </select>
+            )}
+            {hasFilters && (
+              <button type="button" onClick={clearFilters} className="text-sm text-teal-400 hover:text-teal-300">
+                Clear filters
+              </button>
+            )}
+            {pagination && (
+              <span className="text-sm text-white/50 ml-auto">
+                {pagination.totalItems} item{pagination.totalItems !== 1 ? 's' : ''}
+              </span>
+            )}
+          </div>
+
+          {items.length === 0 && !itemsLoading ? (
             <div className="text-center py-12 glass-section">
               <svg
                 className="w-16 h-16 text-white/30 mx-auto mb-4"
@@ -345,17 +598,17 @@ export default function EventDetailPage() {
                 />
               </svg>
               <h2 className="text-xl font-semibold text-white mb-2">
-                {searchQuery ? 'No items match your search' : 'No items yet'}
+                {hasFilters ? 'No items match your search' : 'No items yet'}
               </h2>
               <p className="text-white/60">
-                {searchQuery
-                  ? 'Try a different search term'
+                {hasFilters
+                  ? 'Try a different search term or fewer filters'
                   : 'Check back later for auction items'}
               </p>
             </div>
           ) : (
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-              {filteredAndSortedItems.map((item) => (
+              {items.map((item) => (
                 <Link
                   key={item.id}
                   to={`/events/${slug}/items/${item.id}`}
@@ -364,9 +617,10 @@ export default function EventDetailPage() {
                   {/* Item Image */}
                   <div className="aspect-square bg-white/5 relative">
                     {item.images.length > 0 ? (
-                      <img
-                        src={item.images[0].blobUrl}
+                      <ItemImage
+                        image={item.images[0]}
                         alt={item.title}
+                        sizes="(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
                         className="w-full h-full object-cover"
                       />
                     ) : (
@@ -425,11 +679,30 @@ export default function EventDetailPage() {
                         </div>
                       </div>
                     )}
+
+                    {item.hasReserve && (
+                      <div className={`text-xs mt-1 ${item.reserveMet ? 'text-teal-400' : 'text-white/50'}`}>
+                        {item.reserveMet ? 'Reserve met' : 'Reserve not met'}
+                      </div>
+                    )}
                   </div>
                 </Link>
               ))}
             </div>
           )}
+
+          {pagination && pagination.page < pagination.totalPages && (
+            <div className="flex justify-center mt-8">
+              <button
+                type="button"
+                onClick={() => loadItems(pagination.page + 1)}
+                disabled={itemsLoading}
+                className="glass-button py-2 px-6 disabled:opacity-50"
+              >
+                {itemsLoading ? 'Loading...' : 'Load more'}
+              </button>
+            </div>
+          )}
         </>
       )}
 
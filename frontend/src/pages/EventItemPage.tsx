@@ -2,8 +2,12 @@ import { useState, useEffect, useCallback } from 'react'
 import { useParams, Link } from 'react-router-dom'
 import { useMsal } from '@azure/msal-react'
 import { apiClient } from '../services/api'
+import { signalRService } from '../services/signalr'
 import type { AuctionEvent, EventItem, EventItemBid, CurrentBidInfo, SilentBidStatus } from '../types'
 import { loginRequest } from '../auth/authConfig'
+import { useCountdown } from '../hooks/useCountdown'
+import ItemImage from '../components/ItemImage'
+import CardOnFileSection from '../components/CardOnFileSection'
 
 export default function EventItemPage() {
   const { slug, itemId } = useParams<{ slug: string; itemId: string }>()
@@ -15,18 +19,31 @@ export default function EventItemPage() {
   const [bids, setBids] = useState<EventItemBid[]>([])
   const [currentBidInfo, setCurrentBidInfo] = useState<CurrentBidInfo | null>(null)
   const [silentBidStatus, setSilentBidStatus] = useState<SilentBidStatus | null>(null)
+  const [hasCardOnFile, setHasCardOnFile] = useState(false)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
   const [selectedImageIndex, setSelectedImageIndex] = useState(0)
   const [bidAmount, setBidAmount] = useState('')
+  const [maxBidAmount, setMaxBidAmount] = useState('')
+  const [buyNowQuantity, setBuyNowQuantity] = useState('1')
+  const [bidNotice, setBidNotice] = useState<string | null>(null)
   const [isPlacingBid, setIsPlacingBid] = useState(false)
   const [bidError, setBidError] = useState<string | null>(null)
 
+  // Items can close after the event's end time when soft close extends them
+  const countdown = useCountdown(currentBidInfo?.endTime || item?.endTime || event?.endTime)
+
   // Silent bid options
   const [notifyOnOutbid, setNotifyOnOutbid] = useState(true)
   const [increaseAmount, setIncreaseAmount] = useState('')
   const [showIncreaseModal, setShowIncreaseModal] = useState(false)
+  const [isUpdatingWatch, setIsUpdatingWatch] = useState(false)
+
+  // Bid retraction requests
+  const [showRetractionModal, setShowRetractionModal] = useState(false)
+  const [retractionReason, setRetractionReason] = useState('')
+  const [isRequestingRetraction, setIsRequestingRetraction] = useState(false)
 
   const fetchData = useCallback(async () => {
     if (!slug || !itemId) return
@@ -66,6 +83,82 @@ export default function EventItemPage() {
     fetchData()
   }, [fetchData])
 
+  // Live updates from the auction hub: other bidders, buy-now sales, removals and closes
+  const eventId = event?.id
+  const auctionType = event?.auctionType
+  useEffect(() => {
+    if (!eventId || !itemId) return
+
+    const refreshBids = async () => {
+      try {
+        if (auctionType === 'silent') {
+          if (isAuthenticated) {
+            setSilentBidStatus(await apiClient.getSilentBidStatus(eventId, itemId))
+          }
+        } else {
+          const [bidInfo, bidsData] = await Promise.all([
+            apiClient.getCurrentBidInfo(eventId, itemId),
+            apiClient.getEventItemBids(eventId, itemId),
+          ])
+          setCurrentBidInfo(bidInfo)
+          setBids(bidsData)
+        }
+      } catch (err) {
+        console.error('Failed to refresh bids:', err)
+      }
+    }
+
+    const refreshItem = async () => {
+      try {
+        setItem(await apiClient.getEventItem(eventId, itemId))
+      } catch (err) {
+        console.error('Failed to refresh item:', err)
+      }
+    }
+
+    const unsubscribers = [
+      signalRService.subscribeToItem(itemId),
+      signalRService.onEventHubMessage('ItemBidUpdate', (update) => {
+        if (update.itemId !== itemId) return
+        setItem((prev) => prev && {
+          ...prev,
+          currentBid: update.currentBid ?? undefined,
+          bidCount: update.bidCount,
+          endTime: update.endTime,
+          reserveMet: update.reserveMet,
+        })
+        refreshBids()
+      }),
+      signalRService.onEventHubMessage('SilentBidUpdate', (update) => {
+        if (update.itemId !== itemId) return
+        setItem((prev) => prev && { ...prev, bidCount: update.bidderCount, reserveMet: update.reserveMet })
+        refreshBids()
+      }),
+      signalRService.onEventHubMessage('ItemSold', (update) => {
+        if (update.itemId !== itemId) return
+        setItem((prev) => prev && { ...prev, status: 'sold' })
+      }),
+      signalRService.onEventHubMessage('ItemRemoved', (update) => {
+        if (update.itemId !== itemId) return
+        setItem((prev) => prev && { ...prev, status: 'removed' })
+      }),
+      signalRService.onEventHubMessage('ItemsClosed', (update) => {
+        if (update.itemIds.includes(itemId)) {
+          refreshItem()
+        }
+      }),
+      signalRService.onEventHubMessage('EventEnded', (update) => {
+        if (update.eventId !== eventId) return
+        setEvent((prev) => prev && { ...prev, status: 'ended' })
+        refreshItem()
+      }),
+    ]
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe())
+    }
+  }, [eventId, itemId, auctionType, isAuthenticated])
+
   // Set initial bid amount
   useEffect(() => {
     if (currentBidInfo) {
@@ -84,6 +177,7 @@ export default function EventItemPage() {
 
     setIsPlacingBid(true)
     setBidError(null)
+    setBidNotice(null)
 
     try {
       const amount = parseFloat(bidAmount)
@@ -95,12 +189,18 @@ export default function EventItemPage() {
         })
         setSilentBidStatus(status)
       } else {
-        const newBid = await apiClient.placeEventBid(event.id, item.id, { amount })
-        setBids((prev) => [newBid, ...prev])
+        const maxAmount = maxBidAmount ? parseFloat(maxBidAmount) : undefined
+        const newBid = await apiClient.placeEventBid(event.id, item.id, { amount, maxAmount })
+        setBidNotice(newBid.message || null)
+        setMaxBidAmount('')
 
-        // Refresh bid info
-        const bidInfo = await apiClient.getCurrentBidInfo(event.id, item.id)
+        // Refresh bid info and history (proxy bids may have been placed too)
+        const [bidInfo, bidsData] = await Promise.all([
+          apiClient.getCurrentBidInfo(event.id, item.id),
+          apiClient.getEventItemBids(event.id, item.id),
+        ])
         setCurrentBidInfo(bidInfo)
+        setBids(bidsData)
         setBidAmount(bidInfo.minBid.toString())
       }
     } catch (err) {
@@ -132,13 +232,18 @@ export default function EventItemPage() {
 
   const handleBuyNow = async () => {
     if (!event || !item || !item.buyNowPrice) return
-    if (!confirm(`Buy this item now for $${item.buyNowPrice}?`)) return
+    const quantity = parseInt(buyNowQuantity) || 1
+    const message = quantity > 1
+      ? `Buy ${quantity} of this item now for $${(item.buyNowPrice * quantity).toFixed(2)}?`
+      : `Buy this item now for $${item.buyNowPrice}?`
+    if (!confirm(message)) return
 
     setIsPlacingBid(true)
     setBidError(null)
 
     try {
-      await apiClient.buyNow(event.id, item.id, {})
+      await apiClient.buyNow(event.id, item.id, { quantity })
+      setBuyNowQuantity('1')
       // Refresh item data
       const updatedItem = await apiClient.getEventItem(event.id, item.id)
       setItem(updatedItem)
@@ -149,6 +254,42 @@ export default function EventItemPage() {
     }
   }
 
+  const handleToggleWatch = async () => {
+    if (!item) return
+
+    setIsUpdatingWatch(true)
+    try {
+      if (item.isWatching) {
+        await apiClient.removeFromWatchlist(item.id)
+      } else {
+        await apiClient.addToWatchlist(item.id)
+      }
+      setItem((prev) => prev ? { ...prev, isWatching: !prev.isWatching } : prev)
+    } catch (err) {
+      setBidError(err instanceof Error ? err.message : 'Failed to update watchlist')
+    } finally {
+      setIsUpdatingWatch(false)
+    }
+  }
+
+  const handleRequestRetraction = async () => {
+    if (!item || !retractionReason.trim()) return
+
+    setIsRequestingRetraction(true)
+    setBidError(null)
+
+    try {
+      await apiClient.requestBidRetraction(item.id, { reason: retractionReason.trim() })
+      setShowRetractionModal(false)
+      setRetractionReason('')
+      setBidNotice('Your retraction request was sent to the organizer. Your bid stands unless they approve it.')
+    } catch (err) {
+      setBidError(err instanceof Error ? err.message : 'Failed to request bid retraction')
+    } finally {
+      setIsRequestingRetraction(false)
+    }
+  }
+
   const formatDate = (dateStr: string) => {
     return new Date(dateStr).toLocaleString('en-US', {
       month: 'short',
@@ -160,19 +301,8 @@ export default function EventItemPage() {
 
   const getTimeRemaining = () => {
     if (!event) return null
-    const end = new Date(event.endTime)
-    const now = new Date()
-    const diff = end.getTime() - now.getTime()
-
-    if (diff <= 0) return 'Ended'
-
-    const days = Math.floor(diff / (1000 * 60 * 60 * 24))
-    const hours = Math.floor((diff % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60))
-    const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60))
-
-    if (days > 0) return `${days}d ${hours}h remaining`
-    if (hours > 0) return `${hours}h ${minutes}m remaining`
-    return `${minutes}m remaining`
+    if (countdown.isExpired) return 'Ended'
+    return `${countdown.formatted} remaining`
   }
 
   if (loading) {
@@ -197,7 +327,10 @@ export default function EventItemPage() {
 
   const isActive = event.status === 'active'
   const isSold = item.status === 'sold'
-  const canBid = isActive && !isSold && isAuthenticated
+  const isRemoved = item.status === 'removed'
+  const canBid = isActive && !isSold && !isRemoved && isAuthenticated && !countdown.isExpired
+  // Card-on-file events only take bids once the bidder has saved a card
+  const needsCard = !!event.requireCardOnFile && !hasCardOnFile
 
   return (
     <div className="max-w-6xl mx-auto px-4 py-8">
@@ -214,9 +347,10 @@ export default function EventItemPage() {
           {/* Main Image */}
           <div className="aspect-square bg-gray-100 rounded-xl overflow-hidden">
             {item.images.length > 0 ? (
-              <img
-                src={item.images[selectedImageIndex].blobUrl}
+              <ItemImage
+                image={item.images[selectedImageIndex]}
                 alt={item.title}
+                sizes="(min-width: 1024px) 50vw, 100vw"
                 className="w-full h-full object-cover"
               />
             ) : (
@@ -249,9 +383,10 @@ export default function EventItemPage() {
                     selectedImageIndex === index ? 'border-sage' : 'border-transparent'
                   }`}
                 >
-                  <img
-                    src={image.blobUrl}
+                  <ItemImage
+                    image={image}
                     alt={`${item.title} ${index + 1}`}
+                    sizes="80px"
                     className="w-full h-full object-cover"
                   />
                 </button>
@@ -270,13 +405,43 @@ export default function EventItemPage() {
                   Sold
                 </span>
               )}
+              {isRemoved && (
+                <span className="bg-red-100 text-red-800 text-sm px-3 py-1 rounded-full font-medium">
+                  Removed
+                </span>
+              )}
               {event.auctionType === 'silent' && (
                 <span className="bg-purple-100 text-purple-800 text-sm px-3 py-1 rounded-full font-medium">
                   Silent Auction
                 </span>
               )}
+              {item.hasReserve && (
+                <span
+                  className={`text-sm px-3 py-1 rounded-full font-medium ${
+                    item.reserveMet ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                  }`}
+                >
+                  {item.reserveMet ? 'Reserve met' : 'Reserve not met'}
+                  {item.reservePrice != null && ` ($${item.reservePrice})`}
+                </span>
+              )}
+            </div>
+            <div className="flex items-start justify-between gap-4">
+              <h1 className="text-3xl font-bold text-white">{item.title}</h1>
+              {isAuthenticated && (
+                <button
+                  onClick={handleToggleWatch}
+                  disabled={isUpdatingWatch}
+                  className={`flex-shrink-0 px-4 py-2 rounded-xl text-sm font-medium border transition-colors disabled:opacity-50 ${
+                    item.isWatching
+                      ? 'bg-sage text-white border-sage hover:bg-sage/90'
+                      : 'border-sage text-sage hover:bg-sage/10'
+                  }`}
+                >
+                  {item.isWatching ? 'Watching' : 'Watch'}
+                </button>
+              )}
             </div>
-            <h1 className="text-3xl font-bold text-white">{item.title}</h1>
           </div>
 
           {/* Bid Info */}
@@ -329,7 +494,15 @@ export default function EventItemPage() {
                     </div>
                   </div>
                   <div className="text-right">
-                    <div className="text-sm text-gray-600">{getTimeRemaining()}</div>
+                    <div className={`text-sm ${countdown.isUrgent ? 'text-red-600 font-medium' : 'text-gray-600'}`}>
+                      {getTimeRemaining()}
+                    </div>
+                    {currentBidInfo?.closingGroupName && (
+                      <div className="text-xs text-gray-500">Closes with {currentBidInfo.closingGroupName}</div>
+                    )}
+                    {currentBidInfo?.isExtended && (
+                      <div className="text-xs text-amber-600">Extended by late bidding</div>
+                    )}
                     <div className="text-sm text-gray-500">
                       {currentBidInfo?.bidCount || item.bidCount} bids
                     </div>
@@ -337,10 +510,20 @@ export default function EventItemPage() {
                 </div>
               </div>
             )}
+
+            {item.fairMarketValue != null && (
+              <div className="text-sm text-gray-500 mt-3">
+                Value: ${item.fairMarketValue.toFixed(2)}. Only what you pay above this is tax-deductible.
+              </div>
+            )}
           </div>
 
+          {canBid && event.requireCardOnFile && (
+            <CardOnFileSection event={event} onStatusChange={setHasCardOnFile} />
+          )}
+
           {/* Bidding Form */}
-          {canBid && (
+          {canBid && !needsCard && (
             <div className="space-y-4">
               {bidError && (
                 <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm">
@@ -348,6 +531,20 @@ export default function EventItemPage() {
                 </div>
               )}
 
+              {bidNotice && (
+                <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-amber-700 text-sm">
+                  {bidNotice}
+                </div>
+              )}
+
+              {(item.quantity ?? 1) > 1 && (
+                <div className="text-sm text-gray-500">
+                  {item.quantityAvailable ?? item.quantity} of {item.quantity} available.
+                  The top {item.quantityAvailable ?? item.quantity} bidders each win one
+                  {item.winnerPricing === 'lowest_winning' ? ' and all pay the lowest winning bid.' : '.'}
+                </div>
+              )}
+
               {event.auctionType === 'standard' && (
                 <div>
                   <label className="block text-sm font-medium text-white mb-2">
@@ -381,6 +578,38 @@ export default function EventItemPage() {
                         : ` (${currentBidInfo.incrementValue}% increment)`}
                     </div>
                   )}
+                  {currentBidInfo?.softClose?.enabled && (
+                    <div className="text-sm text-gray-500 mt-1">
+                      Bids in the last {currentBidInfo.softClose.windowMinutes} minutes extend bidding on this item
+                      by {currentBidInfo.softClose.extensionMinutes} minutes.
+                    </div>
+                  )}
+                  {/* Automatic bidding is only offered on single-unit items */}
+                  {(item.quantityAvailable ?? 1) <= 1 && (
+                    <>
+                      <label className="block text-sm font-medium text-white mt-4 mb-2">
+                        Maximum Bid (optional)
+                      </label>
+                      <div className="relative">
+                        <span className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-500">$</span>
+                        <input
+                          type="number"
+                          min={bidAmount || 0}
+                          step="0.01"
+                          value={maxBidAmount}
+                          onChange={(e) => setMaxBidAmount(e.target.value)}
+                          placeholder="We'll bid for you up to this amount"
+                          className="w-full pl-8 pr-4 py-3 border-2 border-gray-200 rounded-xl focus:border-sage focus:ring-0"
+                        />
+                      </div>
+                    </>
+                  )}
+                  {currentBidInfo?.myMaxBid && (
+                    <div className="text-sm text-gray-500 mt-2">
+                      Your maximum bid: ${currentBidInfo.myMaxBid}
+                      {currentBidInfo.isMyBidWinning ? ' (you are winning)' : ''}
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -423,12 +652,36 @@ export default function EventItemPage() {
 
               {/* Buy Now */}
               {item.buyNowPrice && event.buyNowEnabled && !isSold && (
+                <div className="flex gap-3">
+                  {(item.quantityAvailable ?? 1) > 1 && (
+                    <input
+                      type="number"
+                      min="1"
+                      max={item.quantityAvailable}
+                      step="1"
+                      value={buyNowQuantity}
+                      onChange={(e) => setBuyNowQuantity(e.target.value)}
+                      aria-label="Quantity"
+                      className="w-20 px-3 py-3 border-2 border-gray-200 rounded-xl focus:border-sage focus:ring-0"
+                    />
+                  )}
+                  <button
+                    onClick={handleBuyNow}
+                    disabled={isPlacingBid}
+                    className="flex-1 py-3 bg-amber-500 text-white font-semibold rounded-xl hover:bg-amber-600 disabled:opacity-50"
+                  >
+                    Buy Now - ${item.buyNowPrice}{(item.quantityAvailable ?? 1) > 1 ? ' each' : ''}
+                  </button>
+                </div>
+              )}
+
+              {/* Bid retraction */}
+              {(silentBidStatus?.hasBid || currentBidInfo?.myMaxBid) && (
                 <button
-                  onClick={handleBuyNow}
-                  disabled={isPlacingBid}
-                  className="w-full py-3 bg-amber-500 text-white font-semibold rounded-xl hover:bg-amber-600 disabled:opacity-50"
+                  onClick={() => setShowRetractionModal(true)}
+                  className="w-full text-sm text-gray-500 hover:text-sage hover:underline"
                 >
-                  Buy Now - ${item.buyNowPrice}
+                  Made a mistake? Ask the organizer to retract your bid
                 </button>
               )}
             </div>
@@ -494,6 +747,11 @@ export default function EventItemPage() {
                           Highest
                         </span>
                       )}
+                      {bid.isProxy && (
+                        <span className="ml-2 text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full">
+                          Auto
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4 font-semibold text-sage">
                       ${bid.amount}
@@ -569,6 +827,60 @@ export default function EventItemPage() {
           </div>
         </div>
       )}
+
+      {/* Bid Retraction Request Modal */}
+      {showRetractionModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-md mx-4">
+            <h2 className="text-lg font-semibold text-white mb-4">Request Bid Retraction</h2>
+            <p className="text-gray-600 mb-4">
+              The organizer will review your request for your highest bid
+              of <strong>${event.auctionType === 'silent' ? silentBidStatus?.amount : currentBidInfo?.myMaxBid}</strong>.
+              If they approve it, the bid is removed and the previous bidder takes the lead again.
+            </p>
+
+            {bidError && (
+              <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm">
+                {bidError}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-white mb-1">
+                Reason
+              </label>
+              <textarea
+                value={retractionReason}
+                onChange={(e) => setRetractionReason(e.target.value)}
+                maxLength={500}
+                rows={3}
+                className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:border-sage focus:ring-0"
+                placeholder="e.g. I typed $5,000 instead of $50"
+              />
+            </div>
+
+            <div className="flex justify-end gap-4 mt-6">
+              <button
+                onClick={() => {
+                  setShowRetractionModal(false)
+                  setRetractionReason('')
+                  setBidError(null)
+                }}
+                className="px-4 py-2 border border-sage/30 rounded-lg hover:bg-sage/10"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleRequestRetraction}
+                disabled={isRequestingRetraction || !retractionReason.trim()}
+                className="bg-sage text-white px-4 py-2 rounded-lg hover:bg-sage/90 disabled:opacity-50"
+              >
+                {isRequestingRetraction ? 'Sending...' : 'Send Request'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
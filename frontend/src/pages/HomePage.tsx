@@ -2,11 +2,13 @@ import { useState, useEffect } from 'react'
 import { Link } from 'react-router-dom'
 import { apiClient } from '../services/api'
 import EventCard from '../components/EventCard'
-import type { AuctionEvent } from '../types'
+import type { AuctionEvent, EventSort } from '../types'
 import { useAuth } from '../auth/useAuth'
 
 type EventFilter = 'all' | 'live' | 'upcoming' | 'ended'
 
+const RADIUS_OPTIONS = [10, 25, 50, 100]
+
 function OurStory() {
   return (
     <div className="glass-section mb-6 bg-gradient-to-br from-purple-500/10 via-transparent to-pink-500/10">
@@ -111,8 +113,22 @@ export default function HomePage() {
   const [events, setEvents] = useState<AuctionEvent[]>([])
   const [filter, setFilter] = useState<EventFilter>('all')
   const [searchQuery, setSearchQuery] = useState('')
+  const [debouncedQuery, setDebouncedQuery] = useState('')
+  const [zipCode, setZipCode] = useState('')
+  const [radius, setRadius] = useState(25)
+  const [sort, setSort] = useState<EventSort>('default')
+  const [searchError, setSearchError] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(true)
 
+  // Search as the visitor types, once they pause
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(searchQuery.trim()), 300)
+    return () => clearTimeout(timer)
+  }, [searchQuery])
+
+  // Only search by location once a full ZIP code is entered
+  const near = /^\d{5}$/.test(zipCode.trim()) ? zipCode.trim() : undefined
+
   useEffect(() => {
     const fetchEvents = async () => {
       try {
@@ -124,27 +140,27 @@ export default function HomePage() {
 
         const result = await apiClient.getEvents({
           status: status as 'active' | 'scheduled' | 'ended' | undefined,
+          q: debouncedQuery || undefined,
+          near,
+          radius: near ? radius : undefined,
+          sort: sort === 'default' ? undefined : sort,
           pageSize: 50,
         })
         setEvents(result.data)
+        setSearchError(null)
       } catch (error) {
         console.error('Failed to fetch events:', error)
+        setEvents([])
+        setSearchError(error instanceof Error ? error.message : 'Failed to load events')
       } finally {
         setIsLoading(false)
       }
     }
 
     fetchEvents()
-  }, [filter])
+  }, [filter, debouncedQuery, near, radius, sort])
 
-  const filteredEvents = events.filter((event) => {
-    if (!searchQuery) return true
-    const query = searchQuery.toLowerCase()
-    return (
-      event.name.toLowerCase().includes(query) ||
-      (event.description?.toLowerCase().includes(query) ?? false)
-    )
-  })
+  const isFiltered = !!debouncedQuery || !!near
 
   return (
     <div className="min-h-screen">
@@ -187,7 +203,7 @@ export default function HomePage() {
                   type="text"
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
-                  placeholder="Search events..."
+                  placeholder="Search events, causes or items..."
                   className="glass-input w-full pl-10 pr-4 py-2.5 text-sm font-medium"
                 />
               </div>
@@ -207,9 +223,9 @@ export default function HomePage() {
           </div>
         </section>
 
-        {/* Filter Tabs - Compact */}
+        {/* Filter Tabs, Location and Sort - Compact */}
         <section className="mb-6">
-          <div className="flex flex-wrap gap-2">
+          <div className="flex flex-wrap items-center gap-2">
             {[
               { value: 'all', label: 'All', activeClass: 'bg-gradient-to-r from-purple-500/40 to-pink-500/40 border-purple-400/50' },
               { value: 'live', label: 'Live', activeClass: 'bg-green-500/30 border-green-400/50 text-green-300' },
@@ -228,7 +244,43 @@ export default function HomePage() {
                 {tab.label}
               </button>
             ))}
+
+            <div className="flex flex-wrap items-center gap-2 sm:ml-auto">
+              <input
+                type="text"
+                inputMode="numeric"
+                maxLength={5}
+                value={zipCode}
+                onChange={(e) => setZipCode(e.target.value.replace(/\D/g, ''))}
+                placeholder="ZIP code"
+                aria-label="ZIP code"
+                className="glass-input w-28 px-3 py-2 text-sm font-medium"
+              />
+              <select
+                value={radius}
+                onChange={(e) => setRadius(Number(e.target.value))}
+                disabled={!near}
+                aria-label="Distance"
+                className="glass-input px-3 py-2 text-sm font-medium disabled:opacity-50"
+              >
+                {RADIUS_OPTIONS.map((miles) => (
+                  <option key={miles} value={miles}>Within {miles} mi</option>
+                ))}
+              </select>
+              <select
+                value={sort}
+                onChange={(e) => setSort(e.target.value as EventSort)}
+                aria-label="Sort"
+                className="glass-input px-3 py-2 text-sm font-medium"
+              >
+                <option value="default">Live &amp; upcoming first</option>
+                <option value="endingSoonest">Ending soonest</option>
+              </select>
+            </div>
           </div>
+          {searchError && isFiltered && (
+            <p className="text-sm text-amber-300 mt-3">{searchError}</p>
+          )}
         </section>
 
         {/* Events Grid */}
@@ -243,10 +295,10 @@ export default function HomePage() {
                 />
               ))}
             </div>
-          ) : filteredEvents.length > 0 ? (
+          ) : events.length > 0 ? (
             <>
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-8">
-                {filteredEvents.map((event, index) => (
+                {events.map((event, index) => (
                   <div
                     key={event.id}
                     className="animate-slide-up opacity-0"
@@ -285,9 +337,13 @@ export default function HomePage() {
                     />
                   </svg>
                 </div>
-                <p className="text-2xl font-bold text-white mb-2">No public auctions right now</p>
+                <p className="text-2xl font-bold text-white mb-2">
+                  {isFiltered ? 'No auctions match your search' : 'No public auctions right now'}
+                </p>
                 <p className="text-white/60 font-medium mb-6">
-                  {searchQuery ? 'Try adjusting your search' : 'Check back soon, or start your own!'}
+                  {isFiltered
+                    ? near ? 'Try a wider distance or different keywords' : 'Try adjusting your search'
+                    : 'Check back soon, or start your own!'}
                 </p>
                 {isAuthenticated && (
                   <Link
@@ -1,13 +1,15 @@
 import { useState, useEffect } from 'react'
 import { Link } from 'react-router-dom'
 import { apiClient } from '../services/api'
+import type { WatchedEventItem } from '../types'
 
 type EventBid = Awaited<ReturnType<typeof apiClient.getAllMyBids>>[number]
 
-type FilterType = 'all' | 'winning' | 'outbid' | 'active' | 'ended'
+type FilterType = 'all' | 'winning' | 'outbid' | 'active' | 'ended' | 'watching'
 
 export default function MyBidsPage() {
   const [bids, setBids] = useState<EventBid[]>([])
+  const [watchlist, setWatchlist] = useState<WatchedEventItem[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [filter, setFilter] = useState<FilterType>('all')
@@ -16,8 +18,12 @@ export default function MyBidsPage() {
     const fetchBids = async () => {
       try {
         setLoading(true)
-        const data = await apiClient.getAllMyBids()
+        const [data, watched] = await Promise.all([
+          apiClient.getAllMyBids(),
+          apiClient.getWatchlist(),
+        ])
         setBids(data)
+        setWatchlist(watched)
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load bids')
       } finally {
@@ -28,6 +34,15 @@ export default function MyBidsPage() {
     fetchBids()
   }, [])
 
+  const handleUnwatch = async (itemId: string) => {
+    try {
+      await apiClient.removeFromWatchlist(itemId)
+      setWatchlist((prev) => prev.filter((w) => w.itemId !== itemId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update watchlist')
+    }
+  }
+
   const filteredBids = bids.filter((bid) => {
     switch (filter) {
       case 'winning':
@@ -38,6 +53,8 @@ export default function MyBidsPage() {
         return bid.event.status === 'active'
       case 'ended':
         return bid.event.status === 'ended'
+      case 'watching':
+        return false
       default:
         return true
     }
@@ -126,6 +143,7 @@ export default function MyBidsPage() {
             { value: 'outbid', label: 'Outbid', color: 'bg-clay-peach' },
             { value: 'active', label: 'Active Events', color: 'bg-clay-sky' },
             { value: 'ended', label: 'Ended Events', color: 'bg-clay-lavender' },
+            { value: 'watching', label: `Watching (${watchlist.length})`, color: 'bg-clay-sky' },
           ] as const).map((tab) => (
             <button
               key={tab.value}
@@ -141,7 +159,9 @@ export default function MyBidsPage() {
           ))}
         </div>
 
-        {filteredBids.length === 0 ? (
+        {filter === 'watching' ? (
+          <WatchingList watchlist={watchlist} formatDate={formatDate} onUnwatch={handleUnwatch} />
+        ) : filteredBids.length === 0 ? (
           <div className="clay-section text-center py-16">
             <div className="w-20 h-20 bg-clay-peach rounded-clay flex items-center justify-center mx-auto mb-6 shadow-clay">
               <svg
@@ -281,3 +301,73 @@ export default function MyBidsPage() {
     </div>
   )
 }
+
+function WatchingList({
+  watchlist,
+  formatDate,
+  onUnwatch,
+}: {
+  watchlist: WatchedEventItem[]
+  formatDate: (dateStr: string) => string
+  onUnwatch: (itemId: string) => void
+}) {
+  if (watchlist.length === 0) {
+    return (
+      <div className="clay-section text-center py-16">
+        <h2 className="text-2xl font-black text-white mb-2">Not watching anything yet</h2>
+        <p className="text-white/70 font-medium mb-8">
+          Watch items to keep an eye on them and get alerts before they close
+        </p>
+        <Link
+          to="/"
+          className="clay-button bg-clay-mint font-bold inline-flex items-center gap-2"
+        >
+          Browse Events
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <div className="clay-card overflow-hidden divide-y-2 divide-white/40">
+      {watchlist.map(({ item, event }) => (
+        <div key={item.id} className="flex items-center gap-4 p-5 hover:bg-clay-mint/10 transition-colors">
+          <Link to={`/events/${event.slug}/items/${item.id}`} className="flex items-center gap-4 flex-1 min-w-0">
+            {item.imageUrl ? (
+              <img
+                src={item.imageUrl}
+                alt={item.title}
+                className="w-16 h-16 object-cover rounded-clay shadow-clay-sm flex-shrink-0"
+              />
+            ) : (
+              <div className="w-16 h-16 bg-clay-lavender/30 rounded-clay shadow-clay-sm flex-shrink-0" />
+            )}
+
+            <div className="flex-1 min-w-0">
+              <h4 className="font-bold text-white truncate">{item.title}</h4>
+              <p className="text-sm text-white/70 font-medium truncate">
+                {event.name}
+                {item.currentBid !== null && (
+                  <span className="ml-2">
+                    Current: <span className="font-black text-white">${item.currentBid.toFixed(2)}</span>
+                  </span>
+                )}
+                <span className="ml-2">{item.bidCount} bid{item.bidCount !== 1 ? 's' : ''}</span>
+              </p>
+              <p className="text-xs text-white/70 mt-1">
+                {item.status === 'active' ? `Closes ${formatDate(item.endTime)}` : 'Bidding closed'}
+              </p>
+            </div>
+          </Link>
+
+          <button
+            onClick={() => onUnwatch(item.id)}
+            className="clay-button text-sm bg-clay-surface hover:bg-clay-peach flex-shrink-0"
+          >
+            Unwatch
+          </button>
+        </div>
+      ))}
+    </div>
+  )
+}
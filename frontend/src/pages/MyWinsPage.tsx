@@ -3,14 +3,32 @@ import { Link } from 'react-router-dom'
 import { loadStripe } from '@stripe/stripe-js'
 import { Elements, PaymentElement, useStripe, useElements } from '@stripe/react-stripe-js'
 import { apiClient } from '../services/api'
+import type { EventCheckout, MyPledge, MyRaffleTickets, TaxReceipt } from '../types'
 
 // Initialize Stripe
 const stripePromise = loadStripe(import.meta.env.VITE_STRIPE_PUBLIC_KEY || '')
 
+// Save a downloaded file (e.g. a PDF receipt) to the user's device
+function saveFile(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+// One win; on items with several units a user can hold more than one
 interface WonItem {
   id: string
+  itemId: string
   title: string
   winningAmount: number
+  unitAmount: number
+  quantity: number
+  source: 'bid' | 'buy_now'
   platformFee: number
   total: number
   status: string
@@ -26,7 +44,7 @@ interface WonItem {
   paymentQrCodeUrl?: string
   paymentDueDays?: number
   organizationName?: string
-  // Item-level payment/fulfillment tracking
+  // Per-win payment/fulfillment tracking
   paymentStatus: 'pending' | 'paid' | 'payment_issue' | 'waived' | 'refunded'
   fulfillmentStatus: 'pending' | 'processing' | 'ready_for_pickup' | 'shipped' | 'out_for_delivery' | 'delivered' | 'picked_up' | 'issue'
   fulfillmentType?: 'shipping' | 'pickup' | 'digital'
@@ -110,6 +128,12 @@ function PaymentForm({ itemId, onSuccess, onCancel }: {
 
 export default function MyWinsPage() {
   const [wins, setWins] = useState<WonItem[]>([])
+  const [pledges, setPledges] = useState<MyPledge[]>([])
+  const [raffleTickets, setRaffleTickets] = useState<MyRaffleTickets[]>([])
+  const [checkouts, setCheckouts] = useState<EventCheckout[]>([])
+  const [receipts, setReceipts] = useState<TaxReceipt[]>([])
+  const [statementYear, setStatementYear] = useState(new Date().getFullYear())
+  const [downloading, setDownloading] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -118,8 +142,12 @@ export default function MyWinsPage() {
   const [paymentBreakdown, setPaymentBreakdown] = useState<{
     winningBid: number
     platformFee: number
+    coverFeesAmount: number
+    feesCovered: number
     total: number
   } | null>(null)
+  // Whether the payer adds the processing fees so the organization nets the full amount
+  const [coverFees, setCoverFees] = useState(false)
 
   useEffect(() => {
     fetchWins()
@@ -137,8 +165,18 @@ export default function MyWinsPage() {
   const fetchWins = async () => {
     try {
       setLoading(true)
-      const data = await apiClient.getMyWins()
+      const [data, pledgeData, ticketData, checkoutData, receiptData] = await Promise.all([
+        apiClient.getMyWins(),
+        apiClient.getMyPledges(),
+        apiClient.getMyRaffleTickets(),
+        apiClient.getMyCheckouts(),
+        apiClient.getMyTaxReceipts(),
+      ])
       setWins(data)
+      setPledges(pledgeData)
+      setRaffleTickets(ticketData)
+      setCheckouts(checkoutData)
+      setReceipts(receiptData)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load wins')
     } finally {
@@ -146,10 +184,11 @@ export default function MyWinsPage() {
     }
   }
 
-  const handlePayClick = async (itemId: string) => {
+  const handlePayClick = async (win: WonItem, cover = false) => {
     try {
-      const result = await apiClient.createWinnerPayment(itemId)
-      setPayingItemId(itemId)
+      const result = await apiClient.createWinnerPayment(win.itemId, cover)
+      setPayingItemId(win.id)
+      setCoverFees(cover)
       setClientSecret(result.clientSecret)
       setPaymentBreakdown(result.breakdown)
     } catch (err) {
@@ -157,10 +196,47 @@ export default function MyWinsPage() {
     }
   }
 
+  const handlePledgePayClick = async (pledge: MyPledge) => {
+    try {
+      const result = await apiClient.createPledgePayment(pledge.id)
+      setPayingItemId(pledge.id)
+      setClientSecret(result.clientSecret)
+      setPaymentBreakdown(null)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to initiate payment')
+    }
+  }
+
+  const handleRafflePayClick = async (tickets: MyRaffleTickets) => {
+    try {
+      const result = await apiClient.createRaffleTicketPayment(tickets.id)
+      setPayingItemId(tickets.id)
+      setClientSecret(result.clientSecret)
+      setPaymentBreakdown(null)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to initiate payment')
+    }
+  }
+
+  const handleCheckoutClick = async (checkout: EventCheckout, cover = false) => {
+    try {
+      const result = await apiClient.createEventCheckout(checkout.eventId, cover)
+      setPayingItemId(`checkout:${checkout.eventId}`)
+      setCoverFees(cover)
+      setClientSecret(result.clientSecret)
+      setPaymentBreakdown(null)
+      // Show what was actually charged for, in case anything changed since the page loaded
+      setCheckouts((prev) => prev.map((c) => (c.eventId === checkout.eventId ? result.breakdown : c)))
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to initiate payment')
+    }
+  }
+
   const handlePaymentSuccess = () => {
     setPayingItemId(null)
     setClientSecret(null)
     setPaymentBreakdown(null)
+    setCoverFees(false)
     fetchWins()
   }
 
@@ -168,6 +244,29 @@ export default function MyWinsPage() {
     setPayingItemId(null)
     setClientSecret(null)
     setPaymentBreakdown(null)
+    setCoverFees(false)
+  }
+
+  const handleReceiptDownload = async (receipt: TaxReceipt) => {
+    setDownloading(receipt.id)
+    try {
+      saveFile(await apiClient.downloadTaxReceipt(receipt.id), `receipt-${receipt.receiptNumber}.pdf`)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to download receipt')
+    } finally {
+      setDownloading(null)
+    }
+  }
+
+  const handleStatementDownload = async () => {
+    setDownloading('statement')
+    try {
+      saveFile(await apiClient.downloadGivingStatement(statementYear), `giving-statement-${statementYear}.pdf`)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to download statement')
+    } finally {
+      setDownloading(null)
+    }
   }
 
   const formatDate = (dateStr: string) => {
@@ -190,6 +289,19 @@ export default function MyWinsPage() {
   const pendingSelfManagedWins = selfManagedWins.filter(w => w.paymentStatus === 'pending' || w.paymentStatus === 'payment_issue')
   const confirmedSelfManagedWins = selfManagedWins.filter(w => w.paymentStatus !== 'pending' && w.paymentStatus !== 'payment_issue')
 
+  // Fund-a-need pledges still to pay
+  const pendingPledges = pledges.filter(p => p.paymentPending || p.paymentStatus === 'payment_issue')
+
+  // Raffle tickets still to pay (unpaid tickets aren't entered once the raffle is drawn)
+  const pendingRaffleTickets = raffleTickets.filter(t => t.paymentPending || t.paymentStatus === 'payment_issue')
+
+  // Events where several things are due can be paid for in one charge
+  const combinedCheckouts = checkouts.filter(c => c.lines.length > 1)
+
+  // Years with receipts, newest first, for the year-end statement
+  const receiptYears = [...new Set([new Date().getFullYear(), ...receipts.map(r => new Date(r.issuedAt).getFullYear())])]
+    .sort((a, b) => b - a)
+
   // Legacy compatibility
   const pendingWins = pendingIntegratedWins
   const paidWins = paidIntegratedWins
@@ -223,7 +335,283 @@ export default function MyWinsPage() {
           </div>
         )}
 
-        {wins.length === 0 ? (
+        {/* Pay All (one charge per event) */}
+        {combinedCheckouts.length > 0 && (
+          <div className="mb-8">
+            <div className="clay-badge bg-clay-mint mb-4">
+              <span className="font-black">Pay All</span>
+              <span className="text-white/70">({combinedCheckouts.length})</span>
+            </div>
+            <div className="space-y-4">
+              {combinedCheckouts.map((checkout) => {
+                const paying = payingItemId === `checkout:${checkout.eventId}`
+                return (
+                  <div key={checkout.eventId} className="clay-card p-6">
+                    <div className="flex items-start gap-4">
+                      <div className="flex-1 min-w-0">
+                        <Link
+                          to={`/events/${checkout.eventSlug}`}
+                          className="font-bold text-white hover:underline"
+                        >
+                          {checkout.eventName}
+                        </Link>
+                        <p className="text-sm text-white/70 mt-1">
+                          Pay for all {checkout.lines.length} of your items from this event with a single charge.
+                        </p>
+                      </div>
+
+                      <div className="text-right flex-shrink-0">
+                        <div className="text-sm text-white/70 font-medium">Total due</div>
+                        <div className="text-2xl font-black text-white">${checkout.total.toFixed(2)}</div>
+                        {!paying && (
+                          <button
+                            onClick={() => handleCheckoutClick(checkout)}
+                            className="mt-3 clay-button bg-clay-mint text-sm py-2"
+                          >
+                            Pay All
+                          </button>
+                        )}
+                      </div>
+                    </div>
+
+                    {paying && clientSecret && (
+                      <div className="mt-6 pt-6 border-t-2 border-white/60">
+                        <div className="mb-6">
+                          <h4 className="font-bold text-white mb-3">Payment Breakdown</h4>
+                          <div className="bg-clay-mint/20 rounded-clay p-4 space-y-2">
+                            {checkout.lines.map((line) => (
+                              <div key={line.referenceId} className="flex justify-between gap-4">
+                                <span className="text-white/70 font-medium">
+                                  {line.description}
+                                  {line.type === 'item' && line.quantity > 1 && ` (x${line.quantity})`}
+                                </span>
+                                <span className="font-bold text-white">${line.amount.toFixed(2)}</span>
+                              </div>
+                            ))}
+                            {checkout.platformFee > 0 && (
+                              <div className="flex justify-between">
+                                <span className="text-white/70 font-medium">Platform Fee</span>
+                                <span className="font-bold text-white">${checkout.platformFee.toFixed(2)}</span>
+                              </div>
+                            )}
+                            {checkout.feesCovered > 0 && (
+                              <div className="flex justify-between">
+                                <span className="text-white/70 font-medium">Processing Fees Covered</span>
+                                <span className="font-bold text-white">${checkout.feesCovered.toFixed(2)}</span>
+                              </div>
+                            )}
+                            <div className="flex justify-between border-t-2 border-white/60 pt-2">
+                              <span className="font-black text-white">Total</span>
+                              <span className="font-black text-white text-lg">${checkout.total.toFixed(2)}</span>
+                            </div>
+                          </div>
+                          <label className="flex items-start gap-2 mt-3 text-sm text-white/70 font-medium cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={coverFees}
+                              onChange={(e) => handleCheckoutClick(checkout, e.target.checked)}
+                              className="mt-1"
+                            />
+                            <span>
+                              Add ${checkout.coverFeesAmount.toFixed(2)} to cover processing fees so {checkout.eventName} receives
+                              the full amount
+                            </span>
+                          </label>
+                        </div>
+
+                        <Elements
+                          key={clientSecret}
+                          stripe={stripePromise}
+                          options={{
+                            clientSecret,
+                            appearance: {
+                              theme: 'flat',
+                              variables: {
+                                colorPrimary: '#A8E6CF',
+                                borderRadius: '16px',
+                                fontFamily: 'Nunito, system-ui, sans-serif',
+                              },
+                            },
+                          }}
+                        >
+                          <PaymentForm
+                            itemId={checkout.eventId}
+                            onSuccess={handlePaymentSuccess}
+                            onCancel={handlePaymentCancel}
+                          />
+                        </Elements>
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Fund-a-Need Pledges */}
+        {pendingPledges.length > 0 && (
+          <div className="mb-8">
+            <div className="clay-badge bg-clay-lavender mb-4">
+              <span className="font-black">Pledges</span>
+              <span className="text-white/70">({pendingPledges.length})</span>
+            </div>
+            <div className="space-y-4">
+              {pendingPledges.map((pledge) => (
+                <div key={pledge.id} className="clay-card p-6">
+                  <div className="flex items-start gap-4">
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-bold text-white truncate">{pledge.campaignTitle}</h3>
+                      <Link
+                        to={`/events/${pledge.eventSlug}`}
+                        className="text-sm text-white/70 font-medium hover:text-white"
+                      >
+                        {pledge.eventName}
+                      </Link>
+                      <p className="text-sm text-white/70 mt-1">
+                        Pledged on {formatDate(pledge.createdAt)}
+                      </p>
+                      {pledge.paymentMode === 'self_managed' && (
+                        <p className="text-sm text-white/70 mt-2">
+                          {pledge.paymentInstructions || `Pay ${pledge.organizationName || 'the organizer'} directly.`}
+                          {pledge.paymentLink && (
+                            <a href={pledge.paymentLink} target="_blank" rel="noopener noreferrer" className="ml-2 underline">
+                              Pay online
+                            </a>
+                          )}
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="text-right flex-shrink-0">
+                      <div className="text-sm text-white/70 font-medium">Total due</div>
+                      <div className="text-2xl font-black text-white">${pledge.amount.toFixed(2)}</div>
+                      <div className="text-xs text-white/70">No platform fee</div>
+                      {pledge.paymentMode !== 'self_managed' && pledge.paymentPending && payingItemId !== pledge.id && (
+                        <button
+                          onClick={() => handlePledgePayClick(pledge)}
+                          className="mt-3 clay-button bg-clay-mint text-sm py-2"
+                        >
+                          Pay Now
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {payingItemId === pledge.id && clientSecret && (
+                    <div className="mt-6 pt-6 border-t-2 border-white/60">
+                      <Elements
+                        stripe={stripePromise}
+                        options={{
+                          clientSecret,
+                          appearance: {
+                            theme: 'flat',
+                            variables: {
+                              colorPrimary: '#A8E6CF',
+                              borderRadius: '16px',
+                              fontFamily: 'Nunito, system-ui, sans-serif',
+                            },
+                          },
+                        }}
+                      >
+                        <PaymentForm
+                          itemId={pledge.id}
+                          onSuccess={handlePaymentSuccess}
+                          onCancel={handlePaymentCancel}
+                        />
+                      </Elements>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Raffle Tickets */}
+        {pendingRaffleTickets.length > 0 && (
+          <div className="mb-8">
+            <div className="clay-badge bg-clay-butter mb-4">
+              <span className="font-black">Raffle Tickets</span>
+              <span className="text-white/70">({pendingRaffleTickets.length})</span>
+            </div>
+            <div className="space-y-4">
+              {pendingRaffleTickets.map((tickets) => (
+                <div key={tickets.id} className="clay-card p-6">
+                  <div className="flex items-start gap-4">
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-bold text-white truncate">{tickets.raffleTitle}</h3>
+                      <Link
+                        to={`/events/${tickets.eventSlug}`}
+                        className="text-sm text-white/70 font-medium hover:text-white"
+                      >
+                        {tickets.eventName}
+                      </Link>
+                      <p className="text-sm text-white/70 mt-1">
+                        {tickets.ticketCount === 1
+                          ? `Ticket #${tickets.firstTicket}`
+                          : `Tickets #${tickets.firstTicket}–#${tickets.lastTicket}`}
+                        {' '}&middot; bought {formatDate(tickets.createdAt)}
+                      </p>
+                      <p className="text-sm text-white/70 mt-1">Tickets are entered in the drawing once paid.</p>
+                      {tickets.paymentMode === 'self_managed' && (
+                        <p className="text-sm text-white/70 mt-2">
+                          {tickets.paymentInstructions || `Pay ${tickets.organizationName || 'the organizer'} directly.`}
+                          {tickets.paymentLink && (
+                            <a href={tickets.paymentLink} target="_blank" rel="noopener noreferrer" className="ml-2 underline">
+                              Pay online
+                            </a>
+                          )}
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="text-right flex-shrink-0">
+                      <div className="text-sm text-white/70 font-medium">Total due</div>
+                      <div className="text-2xl font-black text-white">${tickets.amount.toFixed(2)}</div>
+                      <div className="text-xs text-white/70">No platform fee</div>
+                      {tickets.paymentMode !== 'self_managed' && tickets.paymentPending && payingItemId !== tickets.id && (
+                        <button
+                          onClick={() => handleRafflePayClick(tickets)}
+                          className="mt-3 clay-button bg-clay-mint text-sm py-2"
+                        >
+                          Pay Now
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {payingItemId === tickets.id && clientSecret && (
+                    <div className="mt-6 pt-6 border-t-2 border-white/60">
+                      <Elements
+                        stripe={stripePromise}
+                        options={{
+                          clientSecret,
+                          appearance: {
+                            theme: 'flat',
+                            variables: {
+                              colorPrimary: '#A8E6CF',
+                              borderRadius: '16px',
+                              fontFamily: 'Nunito, system-ui, sans-serif',
+                            },
+                          },
+                        }}
+                      >
+                        <PaymentForm
+                          itemId={tickets.id}
+                          onSuccess={handlePaymentSuccess}
+                          onCancel={handlePaymentCancel}
+                        />
+                      </Elements>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {wins.length === 0 && pendingPledges.length === 0 && pendingRaffleTickets.length === 0 ? (
           <div className="clay-section text-center py-16">
             <div className="w-20 h-20 bg-clay-butter rounded-clay flex items-center justify-center mx-auto mb-6 shadow-clay">
               <svg
@@ -295,6 +683,11 @@ export default function MyWinsPage() {
                         {/* Details */}
                         <div className="flex-1 min-w-0">
                           <h3 className="font-bold text-white truncate">{item.title}</h3>
+                          {item.quantity > 1 && (
+                            <p className="text-sm text-white/70">
+                              {item.quantity} x ${item.unitAmount.toFixed(2)}
+                            </p>
+                          )}
                           <Link
                             to={`/events/${item.eventSlug}`}
                             className="text-sm text-white/70 font-medium hover:text-white"
@@ -315,7 +708,7 @@ export default function MyWinsPage() {
                           </div>
                           {payingItemId !== item.id && (
                             <button
-                              onClick={() => handlePayClick(item.id)}
+                              onClick={() => handlePayClick(item)}
                               className="mt-3 clay-button bg-clay-mint text-sm py-2"
                             >
                               Pay Now
@@ -338,14 +731,35 @@ export default function MyWinsPage() {
                                 <span className="text-white/70 font-medium">Platform Fee (5%)</span>
                                 <span className="font-bold text-white">${paymentBreakdown?.platformFee.toFixed(2)}</span>
                               </div>
+                              {paymentBreakdown && paymentBreakdown.feesCovered > 0 && (
+                                <div className="flex justify-between">
+                                  <span className="text-white/70 font-medium">Processing Fees Covered</span>
+                                  <span className="font-bold text-white">${paymentBreakdown.feesCovered.toFixed(2)}</span>
+                                </div>
+                              )}
                               <div className="flex justify-between border-t-2 border-white/60 pt-2">
                                 <span className="font-black text-white">Total</span>
                                 <span className="font-black text-white text-lg">${paymentBreakdown?.total.toFixed(2)}</span>
                               </div>
                             </div>
+                            {paymentBreakdown && (
+                              <label className="flex items-start gap-2 mt-3 text-sm text-white/70 font-medium cursor-pointer">
+                                <input
+                                  type="checkbox"
+                                  checked={coverFees}
+                                  onChange={(e) => handlePayClick(item, e.target.checked)}
+                                  className="mt-1"
+                                />
+                                <span>
+                                  Add ${paymentBreakdown.coverFeesAmount.toFixed(2)} to cover processing fees so the
+                                  organization receives your full bid
+                                </span>
+                              </label>
+                            )}
                           </div>
 
                           <Elements
+                            key={clientSecret}
                             stripe={stripePromise}
                             options={{
                               clientSecret,
@@ -360,7 +774,7 @@ export default function MyWinsPage() {
                             }}
                           >
                             <PaymentForm
-                              itemId={item.id}
+                              itemId={item.itemId}
                               onSuccess={handlePaymentSuccess}
                               onCancel={handlePaymentCancel}
                             />
@@ -415,6 +829,11 @@ export default function MyWinsPage() {
                         {/* Details */}
                         <div className="flex-1 min-w-0">
                           <h3 className="font-bold text-white truncate">{item.title}</h3>
+                          {item.quantity > 1 && (
+                            <p className="text-sm text-white/70">
+                              {item.quantity} x ${item.unitAmount.toFixed(2)}
+                            </p>
+                          )}
                           <Link
                             to={`/events/${item.eventSlug}`}
                             className="text-sm text-white/70 font-medium hover:text-white"
@@ -560,6 +979,11 @@ export default function MyWinsPage() {
                         {/* Details */}
                         <div className="flex-1 min-w-0">
                           <h3 className="font-bold text-white truncate">{item.title}</h3>
+                          {item.quantity > 1 && (
+                            <p className="text-sm text-white/70">
+                              {item.quantity} x ${item.unitAmount.toFixed(2)}
+                            </p>
+                          )}
                           <Link
                             to={`/events/${item.eventSlug}`}
                             className="text-sm text-white/70 font-medium hover:text-white"
@@ -703,6 +1127,11 @@ export default function MyWinsPage() {
                         {/* Details */}
                         <div className="flex-1 min-w-0">
                           <h3 className="font-bold text-white truncate">{item.title}</h3>
+                          {item.quantity > 1 && (
+                            <p className="text-sm text-white/70">
+                              {item.quantity} x ${item.unitAmount.toFixed(2)}
+                            </p>
+                          )}
                           <Link
                             to={`/events/${item.eventSlug}`}
                             className="text-sm text-white/70 font-medium hover:text-white"
@@ -726,6 +1155,71 @@ export default function MyWinsPage() {
             )}
           </div>
         )}
+
+        {/* Tax Receipts */}
+        {receipts.length > 0 && (
+          <div className="mt-8">
+            <div className="clay-badge bg-clay-butter mb-4">
+              <span className="font-black">Tax Receipts</span>
+              <span className="text-white/70">({receipts.length})</span>
+            </div>
+
+            <div className="clay-card p-6 mb-4">
+              <h3 className="font-bold text-white">Year-End Giving Statement</h3>
+              <p className="text-sm text-white/70 mt-1">
+                Everything you paid across all events in a year, with the tax-deductible portion of each payment.
+              </p>
+              <div className="flex items-center gap-3 mt-4">
+                <select
+                  value={statementYear}
+                  onChange={(e) => setStatementYear(parseInt(e.target.value))}
+                  className="clay-input py-2"
+                >
+                  {receiptYears.map((year) => (
+                    <option key={year} value={year}>{year}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleStatementDownload}
+                  disabled={downloading === 'statement'}
+                  className="clay-button bg-clay-mint font-bold disabled:opacity-50"
+                >
+                  {downloading === 'statement' ? 'Preparing...' : 'Download Statement'}
+                </button>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              {receipts.map((receipt) => (
+                <div key={receipt.id} className="clay-card p-6">
+                  <div className="flex items-start gap-4">
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-bold text-white truncate">
+                        Receipt #{receipt.receiptNumber} - {receipt.organization.name}
+                      </h3>
+                      <p className="text-sm text-white/70 font-medium">{receipt.eventName}</p>
+                      <p className="text-sm text-white/70 mt-1">
+                        Paid ${receipt.amountPaid.toFixed(2)} on {formatDate(receipt.issuedAt)} &middot; fair market
+                        value ${receipt.fairMarketValue.toFixed(2)}
+                      </p>
+                    </div>
+                    <div className="text-right flex-shrink-0">
+                      <div className="text-lg font-black text-white">${receipt.deductibleAmount.toFixed(2)}</div>
+                      <p className="text-xs text-white/70 mb-2">deductible</p>
+                      <button
+                        onClick={() => handleReceiptDownload(receipt)}
+                        disabled={downloading === receipt.id}
+                        className="clay-button bg-clay-sky text-sm font-bold disabled:opacity-50"
+                      >
+                        {downloading === receipt.id ? 'Preparing...' : 'Download PDF'}
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   )
@@ -24,6 +24,9 @@ export default function OrganizationsPage() {
   const [error, setError] = useState<string | null>(null)
   const [search, setSearch] = useState('')
   const [orgType, setOrgType] = useState<OrganizationType | ''>('')
+  const [zipCode, setZipCode] = useState('')
+  const [radius, setRadius] = useState(25)
+  const [near, setNear] = useState('')
   const [page, setPage] = useState(1)
   const [totalPages, setTotalPages] = useState(1)
 
@@ -44,9 +47,12 @@ export default function OrganizationsPage() {
           pageSize: 12,
           search: search || undefined,
           orgType: orgType || undefined,
+          near: near || undefined,
+          radius: near ? radius : undefined,
         })
         setOrganizations(response.data)
         setTotalPages(response.pagination.totalPages)
+        setError(null)
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load organizations')
       } finally {
@@ -55,10 +61,11 @@ export default function OrganizationsPage() {
     }
 
     fetchOrganizations()
-  }, [page, search, orgType])
+  }, [page, search, orgType, near, radius])
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault()
+    setNear(/^\d{5}$/.test(zipCode.trim()) ? zipCode.trim() : '')
     setPage(1) // Reset to first page on new search
   }
 
@@ -108,6 +115,31 @@ export default function OrganizationsPage() {
               ))}
             </select>
           </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              inputMode="numeric"
+              maxLength={5}
+              placeholder="ZIP code"
+              aria-label="Events near ZIP code"
+              value={zipCode}
+              onChange={(e) => setZipCode(e.target.value.replace(/\D/g, ''))}
+              className="w-28 px-4 py-2 border border-sage/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-sage/50"
+            />
+            <select
+              value={radius}
+              onChange={(e) => {
+                setRadius(Number(e.target.value))
+                setPage(1)
+              }}
+              aria-label="Distance"
+              className="px-4 py-2 border border-sage/30 rounded-lg focus:outline-none focus:ring-2 focus:ring-sage/50"
+            >
+              {[10, 25, 50, 100].map((miles) => (
+                <option key={miles} value={miles}>Within {miles} mi</option>
+              ))}
+            </select>
+          </div>
           <button
             type="submit"
             className="bg-sage text-white px-6 py-2 rounded-lg hover:bg-sage/90 transition-colors"
@@ -128,7 +160,9 @@ export default function OrganizationsPage() {
         </div>
       ) : organizations.length === 0 ? (
         <div className="text-center py-12">
-          <p className="text-gray-500">No organizations found</p>
+          <p className="text-gray-500">
+            {near ? `No organizations have upcoming events within ${radius} miles of ${near}` : 'No organizations found'}
+          </p>
           <button
             onClick={handleCreateOrg}
             className="mt-4 inline-block text-sage hover:underline"
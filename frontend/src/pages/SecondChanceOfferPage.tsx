@@ -0,0 +1,171 @@
+import { useState, useEffect } from 'react'
+import { useParams, useNavigate, Link } from 'react-router-dom'
+import { apiClient } from '../services/api'
+import type { SecondChanceOffer } from '../types'
+
+export default function SecondChanceOfferPage() {
+  const { offerId } = useParams<{ offerId: string }>()
+  const navigate = useNavigate()
+
+  const [offer, setOffer] = useState<SecondChanceOffer | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [accepting, setAccepting] = useState(false)
+  const [declining, setDeclining] = useState(false)
+
+  useEffect(() => {
+    const fetchOffer = async () => {
+      if (!offerId) return
+
+      try {
+        setLoading(true)
+        const data = await apiClient.getSecondChanceOffer(offerId)
+        setOffer(data)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load offer')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchOffer()
+  }, [offerId])
+
+  const handleAccept = async () => {
+    if (!offerId) return
+
+    setAccepting(true)
+    try {
+      await apiClient.acceptSecondChanceOffer(offerId)
+      navigate('/my-wins')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to accept offer')
+    } finally {
+      setAccepting(false)
+    }
+  }
+
+  const handleDecline = async () => {
+    if (!offerId) return
+    if (!confirm('Are you sure you want to decline this offer?')) return
+
+    setDeclining(true)
+    try {
+      const updated = await apiClient.declineSecondChanceOffer(offerId)
+      setOffer(updated)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to decline offer')
+    } finally {
+      setDeclining(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="max-w-lg mx-auto px-4 py-12">
+        <div className="flex justify-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-sage"></div>
+        </div>
+      </div>
+    )
+  }
+
+  if (error && !offer) {
+    return (
+      <div className="max-w-lg mx-auto px-4 py-12">
+        <div className="bg-white rounded-lg shadow-sm border border-sage/20 p-8 text-center">
+          <h1 className="text-xl font-bold text-white mb-2">Offer Not Found</h1>
+          <p className="text-gray-500 mb-6">
+            This offer may have been withdrawn, or it was made to another bidder.
+          </p>
+          <Link to="/" className="text-sage hover:underline">
+            Go to Home
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  if (!offer) return null
+
+  const isOpen = offer.status === 'pending'
+
+  return (
+    <div className="max-w-lg mx-auto px-4 py-12">
+      <div className="bg-white rounded-lg shadow-sm border border-sage/20 p-8">
+        <div className="text-center mb-8">
+          <p className="text-sm text-gray-500 mb-1">{offer.eventName}</p>
+          <h1 className="text-xl font-bold text-white">{offer.itemTitle}</h1>
+        </div>
+
+        <div className="text-center mb-8">
+          {offer.status === 'expired' ? (
+            <>
+              <h2 className="text-lg font-semibold text-white mb-2">Offer Expired</h2>
+              <p className="text-gray-500">
+                This offer expired on {new Date(offer.expiresAt).toLocaleString()}.
+              </p>
+            </>
+          ) : !isOpen ? (
+            <>
+              <h2 className="text-lg font-semibold text-white mb-2">
+                Offer {offer.status === 'accepted' ? 'Accepted' : 'Declined'}
+              </h2>
+              <p className="text-gray-500">
+                {offer.status === 'accepted'
+                  ? 'This item is yours. You can pay for it from My Wins.'
+                  : 'You declined this offer.'}
+              </p>
+            </>
+          ) : (
+            <>
+              <h2 className="text-lg font-semibold text-white mb-2">
+                A second chance to win
+              </h2>
+              <p className="text-gray-600">
+                The winning bidder didn't complete payment. As the next-highest bidder, you can
+                have {offer.quantity > 1 ? `${offer.quantity} of these` : 'this item'} at your bid of{' '}
+                <span className="font-medium">${offer.amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
+                {offer.quantity > 1 && ' each'}.
+              </p>
+              <p className="text-sm text-gray-500 mt-2">
+                Respond by {new Date(offer.expiresAt).toLocaleString()}
+              </p>
+            </>
+          )}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6">
+            {error}
+          </div>
+        )}
+
+        {isOpen && (
+          <div className="space-y-4">
+            <button
+              onClick={handleAccept}
+              disabled={accepting || declining}
+              className="w-full bg-sage text-white px-6 py-3 rounded-lg hover:bg-sage/90 transition-colors disabled:opacity-50"
+            >
+              {accepting ? 'Accepting...' : 'Accept Offer'}
+            </button>
+            <button
+              onClick={handleDecline}
+              disabled={accepting || declining}
+              className="w-full border border-sage/30 text-gray-600 px-6 py-3 rounded-lg hover:bg-sage/10 transition-colors disabled:opacity-50"
+            >
+              {declining ? 'Declining...' : 'Decline'}
+            </button>
+          </div>
+        )}
+
+        <div className="mt-6 pt-6 border-t border-sage/20 text-center">
+          <Link to="/my-wins" className="text-sage hover:underline">
+            View My Wins
+          </Link>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -40,6 +40,7 @@ export default function SubmitItemPage() {
   const [condition, setCondition] = useState('')
   const [startingPrice, setStartingPrice] = useState('')
   const [buyNowPrice, setBuyNowPrice] = useState('')
+  const [reservePrice, setReservePrice] = useState('')
   const [selectedImages, setSelectedImages] = useState<File[]>([])
   const [imagePreviews, setImagePreviews] = useState<string[]>([])
 
@@ -120,6 +121,7 @@ export default function SubmitItemPage() {
         condition: condition || undefined,
         startingPrice: startingPrice ? parseFloat(startingPrice) : undefined,
         buyNowPrice: buyNowPrice ? parseFloat(buyNowPrice) : undefined,
+        reservePrice: reservePrice ? parseFloat(reservePrice) : undefined,
         accessCode,
       }
 
@@ -545,6 +547,23 @@ export default function SubmitItemPage() {
               </div>
             </div>
           )}
+
+          <div className="space-y-2">
+            <label className="text-white font-bold text-lg">Reserve price</label>
+            <p className="text-white/70 text-sm">Optional - hidden from bidders; the item won't sell below it</p>
+            <div className="relative">
+              <span className="absolute left-4 top-1/2 -translate-y-1/2 text-white/70 font-bold text-lg">$</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={reservePrice}
+                onChange={(e) => setReservePrice(e.target.value)}
+                className="clay-input w-full text-lg py-4 pl-8"
+                placeholder="0"
+              />
+            </div>
+          </div>
         </div>
 
         <div className="mt-8 space-y-4">
@@ -19,13 +19,36 @@ import type {
   CreateEventRequest,
   UpdateEventRequest,
   EventItem,
+  EventItemSearchParams,
+  EventItemSearchResult,
+  WatchedEventItem,
   SubmitItemRequest,
   UpdateItemRequest,
   EventItemBid,
+  MaxBidStatus,
+  ClosingGroup,
+  EventCategory,
+  FundANeedCampaign,
+  FundANeedPledge,
+  MyPledge,
+  PledgePaymentStatus,
+  Raffle,
+  RafflePurchase,
+  MyRaffleTickets,
+  RaffleDraw,
+  EventCheckout,
+  EventCardOnFile,
+  TaxReceipt,
+  SecondChanceOffer,
+  ItemPaymentStatus,
+  AdminItemBid,
+  BidRetractionRequest,
+  BidRetractionStatus,
   SilentBidStatus,
   CurrentBidInfo,
   PricingTiers,
   EventStatus,
+  EventSort,
   Feedback,
   FeedbackResponse,
   CreateFeedbackRequest,
@@ -33,6 +56,7 @@ import type {
   FeedbackStatus,
   FeedbackType,
   FeedbackPriority,
+  WinnerPricing,
 } from '../types'
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || '/api'
@@ -46,10 +70,10 @@ class ApiClient {
 
   private async request<T>(
     endpoint: string,
-    options: RequestInit & { skipAuth?: boolean } = {}
+    options: RequestInit & { skipAuth?: boolean; responseType?: 'json' | 'blob' } = {}
   ): Promise<T> {
     const url = `${API_BASE_URL}${endpoint}`
-    const { skipAuth, ...fetchOptions } = options
+    const { skipAuth, responseType, ...fetchOptions } = options
 
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
@@ -107,6 +131,11 @@ class ApiClient {
       return undefined as T
     }
 
+    // Files such as PDF receipts
+    if (responseType === 'blob') {
+      return response.blob() as Promise<T>
+    }
+
     return response.json()
   }
 
@@ -231,18 +260,18 @@ class ApiClient {
   }
 
   // Watchlist
-  async getWatchlist(): Promise<Auction[]> {
+  async getWatchlist(): Promise<WatchedEventItem[]> {
     return this.request('/users/me/watchlist')
   }
 
-  async addToWatchlist(auctionId: string): Promise<void> {
-    return this.request(`/users/me/watchlist/${auctionId}`, {
+  async addToWatchlist(itemId: string): Promise<void> {
+    return this.request(`/users/me/watchlist/${itemId}`, {
       method: 'POST',
     })
   }
 
-  async removeFromWatchlist(auctionId: string): Promise<void> {
-    return this.request(`/users/me/watchlist/${auctionId}`, {
+  async removeFromWatchlist(itemId: string): Promise<void> {
+    return this.request(`/users/me/watchlist/${itemId}`, {
       method: 'DELETE',
     })
   }
@@ -271,6 +300,9 @@ class ApiClient {
     pageSize?: number
     search?: string
     orgType?: OrganizationType
+    // Organizations with an upcoming or live event near this ZIP code
+    near?: string
+    radius?: number
   }): Promise<PaginatedResponse<Organization>> {
     const searchParams = new URLSearchParams()
     if (params) {
@@ -491,9 +523,17 @@ class ApiClient {
   async getEvents(params?: {
     page?: number
     pageSize?: number
-    search?: string
+    // Keyword search across the event, its organization and its items
+    q?: string
     status?: EventStatus
     organizationId?: string
+    category?: string
+    city?: string
+    state?: string
+    // ZIP code to search around, within `radius` miles (default 25)
+    near?: string
+    radius?: number
+    sort?: EventSort
   }): Promise<PaginatedResponse<AuctionEvent>> {
     const searchParams = new URLSearchParams()
     if (params) {
@@ -633,6 +673,17 @@ class ApiClient {
     return response.data
   }
 
+  async searchEventItems(eventId: string, params: EventItemSearchParams = {}): Promise<EventItemSearchResult> {
+    const searchParams = new URLSearchParams()
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== '' && value !== false) {
+        searchParams.set(key, String(value))
+      }
+    })
+    const query = searchParams.toString()
+    return this.request(`/events/${eventId}/items${query ? `?${query}` : ''}`)
+  }
+
   async getEventItem(eventId: string, itemId: string): Promise<EventItem> {
     // Backend GET route is at /:id (mounted at /api, so /api/:id)
     return this.request(`/${itemId}`)
@@ -672,9 +723,15 @@ class ApiClient {
       condition?: string
       startingPrice?: number
       buyNowPrice?: number
+      reservePrice?: number
+      quantity?: number
+      winnerPricing?: WinnerPricing
+      // An existing category, or a name to find or create one by
+      categoryId?: string
       category?: string
       donorName?: string
       donorEmail?: string
+      fairMarketValue?: number
     }
   ): Promise<EventItem> {
     return this.request(`/events/${eventId}/items/admin`, {
@@ -771,7 +828,7 @@ class ApiClient {
   async placeEventBid(
     eventId: string,
     itemId: string,
-    data: { amount: number; accessCode?: string }
+    data: { amount: number; maxAmount?: number; accessCode?: string }
   ): Promise<EventItemBid> {
     return this.request(`/event-items/${itemId}/bids`, {
       method: 'POST',
@@ -779,6 +836,16 @@ class ApiClient {
     })
   }
 
+  async getMyMaxBid(eventId: string, itemId: string): Promise<MaxBidStatus> {
+    return this.request(`/event-items/${itemId}/max-bid`)
+  }
+
+  async withdrawMaxBid(eventId: string, itemId: string): Promise<{ message: string }> {
+    return this.request(`/event-items/${itemId}/max-bid`, {
+      method: 'DELETE',
+    })
+  }
+
   async getCurrentBidInfo(eventId: string, itemId: string): Promise<CurrentBidInfo> {
     return this.request(`/event-items/${itemId}/current-bid`)
   }
@@ -814,14 +881,311 @@ class ApiClient {
   async buyNow(
     eventId: string,
     itemId: string,
-    data: { accessCode?: string }
-  ): Promise<{ success: boolean; item: EventItem }> {
+    data: { accessCode?: string; quantity?: number }
+  ): Promise<{ message: string; itemId: string; amount: number; quantity: number; quantityAvailable: number }> {
     return this.request(`/event-items/${itemId}/buy-now`, {
       method: 'POST',
       body: JSON.stringify(data),
     })
   }
 
+  // Closing Groups (staggered item closing)
+  async getClosingGroups(eventId: string): Promise<ClosingGroup[]> {
+    return this.request(`/events/${eventId}/closing-groups`)
+  }
+
+  async createClosingGroup(
+    eventId: string,
+    data: { name: string; endTime: string; displayOrder?: number }
+  ): Promise<ClosingGroup> {
+    return this.request(`/events/${eventId}/closing-groups`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async updateClosingGroup(
+    groupId: string,
+    data: { name?: string; endTime?: string; displayOrder?: number }
+  ): Promise<ClosingGroup> {
+    return this.request(`/closing-groups/${groupId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async deleteClosingGroup(groupId: string): Promise<{ message: string }> {
+    return this.request(`/closing-groups/${groupId}`, {
+      method: 'DELETE',
+    })
+  }
+
+  // Event categories
+  async getEventCategories(eventId: string): Promise<EventCategory[]> {
+    return this.request(`/events/${eventId}/categories`)
+  }
+
+  async createEventCategory(
+    eventId: string,
+    data: { name: string; icon?: string | null; displayOrder?: number }
+  ): Promise<EventCategory> {
+    return this.request(`/events/${eventId}/categories`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async updateEventCategory(
+    categoryId: string,
+    data: { name?: string; icon?: string | null; displayOrder?: number }
+  ): Promise<EventCategory> {
+    return this.request(`/event-categories/${categoryId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async reorderEventCategories(eventId: string, categoryIds: string[]): Promise<{ message: string }> {
+    return this.request(`/events/${eventId}/categories/order`, {
+      method: 'PUT',
+      body: JSON.stringify({ categoryIds }),
+    })
+  }
+
+  async deleteEventCategory(categoryId: string): Promise<{ message: string }> {
+    return this.request(`/event-categories/${categoryId}`, {
+      method: 'DELETE',
+    })
+  }
+
+  async setItemCategory(
+    itemId: string,
+    categoryId: string | null
+  ): Promise<{ message: string; categoryId: string | null; category: string | null }> {
+    return this.request(`/event-items/${itemId}/category`, {
+      method: 'PUT',
+      body: JSON.stringify({ categoryId }),
+    })
+  }
+
+  // Fund-a-need campaigns and pledges
+  async getFundANeedCampaigns(eventId: string): Promise<FundANeedCampaign[]> {
+    return this.request(`/events/${eventId}/fund-a-need`)
+  }
+
+  async createFundANeedCampaign(
+    eventId: string,
+    data: {
+      title: string
+      description?: string
+      goalAmount?: number | null
+      levels?: { amount: number; label?: string }[]
+    }
+  ): Promise<FundANeedCampaign> {
+    return this.request(`/events/${eventId}/fund-a-need`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async updateFundANeedCampaign(
+    campaignId: string,
+    data: {
+      title?: string
+      description?: string | null
+      goalAmount?: number | null
+      status?: 'open' | 'closed'
+      levels?: { amount: number; label?: string }[]
+    }
+  ): Promise<FundANeedCampaign> {
+    return this.request(`/fund-a-need/${campaignId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async deleteFundANeedCampaign(campaignId: string): Promise<{ message: string }> {
+    return this.request(`/fund-a-need/${campaignId}`, {
+      method: 'DELETE',
+    })
+  }
+
+  // Pledge for yourself, or (event admins) record a pledge for a guest
+  async createPledge(
+    campaignId: string,
+    data: {
+      levelId?: string
+      amount?: number
+      isAnonymous?: boolean
+      donorId?: string
+      donorEmail?: string
+      donorName?: string
+    }
+  ): Promise<{ pledge: FundANeedPledge; totalPledged: number; pledgeCount: number }> {
+    return this.request(`/fund-a-need/${campaignId}/pledges`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async getCampaignPledges(campaignId: string): Promise<FundANeedPledge[]> {
+    return this.request(`/fund-a-need/${campaignId}/pledges`)
+  }
+
+  async voidPledge(pledgeId: string): Promise<{ message: string; totalPledged: number; pledgeCount: number }> {
+    return this.request(`/fund-a-need/pledges/${pledgeId}/void`, {
+      method: 'POST',
+    })
+  }
+
+  async updatePledgePaymentStatus(
+    pledgeId: string,
+    data: { status: PledgePaymentStatus; paymentMethodUsed?: string; notes?: string }
+  ): Promise<{ message: string; status: PledgePaymentStatus; previousStatus: PledgePaymentStatus }> {
+    return this.request(`/fund-a-need/pledges/${pledgeId}/payment-status`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    })
+  }
+
+  // Raffles (only available while the raffles feature is enabled)
+  async getEventRaffles(eventId: string): Promise<Raffle[]> {
+    return this.request(`/events/${eventId}/raffles`)
+  }
+
+  async createRaffle(
+    eventId: string,
+    data: {
+      title: string
+      description?: string
+      prizeDescription?: string
+      ticketPrice: number
+      maxTicketsPerPerson?: number | null
+      numberOfWinners?: number
+      bundles?: { ticketCount: number; price: number }[]
+    }
+  ): Promise<Raffle> {
+    return this.request(`/events/${eventId}/raffles`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async updateRaffle(
+    raffleId: string,
+    data: {
+      title?: string
+      description?: string | null
+      prizeDescription?: string | null
+      ticketPrice?: number
+      maxTicketsPerPerson?: number | null
+      numberOfWinners?: number
+      status?: 'open' | 'closed'
+      bundles?: { ticketCount: number; price: number }[]
+    }
+  ): Promise<Raffle> {
+    return this.request(`/raffles/${raffleId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async deleteRaffle(raffleId: string): Promise<{ message: string }> {
+    return this.request(`/raffles/${raffleId}`, {
+      method: 'DELETE',
+    })
+  }
+
+  // Buy one bundle, or a number of single tickets
+  async buyRaffleTickets(
+    raffleId: string,
+    data: { bundleId?: string; ticketCount?: number }
+  ): Promise<RafflePurchase> {
+    return this.request(`/raffles/${raffleId}/tickets`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async getRafflePurchases(raffleId: string): Promise<RafflePurchase[]> {
+    return this.request(`/raffles/${raffleId}/purchases`)
+  }
+
+  async updateRafflePurchasePaymentStatus(
+    purchaseId: string,
+    data: { status: PledgePaymentStatus; paymentMethodUsed?: string; notes?: string }
+  ): Promise<{ message: string; status: PledgePaymentStatus; previousStatus: PledgePaymentStatus }> {
+    return this.request(`/raffles/purchases/${purchaseId}/payment-status`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async drawRaffle(raffleId: string): Promise<{ raffle: Raffle; seed: string; entryCount: number }> {
+    return this.request(`/raffles/${raffleId}/draw`, {
+      method: 'POST',
+    })
+  }
+
+  async getRaffleDraw(raffleId: string): Promise<RaffleDraw> {
+    return this.request(`/raffles/${raffleId}/draw`)
+  }
+
+  async setItemClosingGroup(
+    itemId: string,
+    closingGroupId: string | null
+  ): Promise<{ message: string; closingGroupId: string | null }> {
+    return this.request(`/event-items/${itemId}/closing-group`, {
+      method: 'PUT',
+      body: JSON.stringify({ closingGroupId }),
+    })
+  }
+
+  // Bid cancellation and retraction requests
+  async getAdminItemBids(itemId: string): Promise<AdminItemBid[]> {
+    return this.request(`/event-items/${itemId}/admin-bids`)
+  }
+
+  async cancelEventItemBid(
+    itemId: string,
+    bidId: string,
+    reason: string
+  ): Promise<{ itemId: string; currentBid: number | null; bidCount: number; leaderId: string | null }> {
+    return this.request(`/event-items/${itemId}/bids/${bidId}/cancel`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    })
+  }
+
+  async requestBidRetraction(
+    itemId: string,
+    data: { reason: string; bidId?: string }
+  ): Promise<BidRetractionRequest> {
+    return this.request(`/event-items/${itemId}/retraction-requests`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async getRetractionRequests(
+    eventId: string,
+    status?: BidRetractionStatus
+  ): Promise<BidRetractionRequest[]> {
+    const query = status ? `?status=${status}` : ''
+    return this.request(`/events/${eventId}/retraction-requests${query}`)
+  }
+
+  async reviewRetractionRequest(
+    requestId: string,
+    decision: 'approve' | 'deny',
+    note?: string
+  ): Promise<{ id: string; status: BidRetractionStatus; itemId: string; currentBid?: number | null; bidCount?: number }> {
+    return this.request(`/retraction-requests/${requestId}/${decision}`, {
+      method: 'POST',
+      body: JSON.stringify({ note }),
+    })
+  }
+
   // My Event Activity
   async getMyEventBids(eventId: string): Promise<EventItemBid[]> {
     return this.request(`/events/${eventId}/my/bids`)
@@ -849,10 +1213,15 @@ class ApiClient {
     return this.request(`/platform-fees/calculate?amount=${amount}`)
   }
 
+  // One entry per win; a user can win or buy several units of an item
   async getMyWins(): Promise<{
     id: string
+    itemId: string
     title: string
     winningAmount: number
+    unitAmount: number
+    quantity: number
+    source: 'bid' | 'buy_now'
     platformFee: number
     total: number
     status: string
@@ -868,7 +1237,7 @@ class ApiClient {
     paymentQrCodeUrl?: string
     paymentDueDays?: number
     organizationName?: string
-    // Item-level payment/fulfillment tracking
+    // Per-win payment/fulfillment tracking
     paymentStatus: 'pending' | 'paid' | 'payment_issue' | 'waived' | 'refunded'
     fulfillmentStatus: 'pending' | 'processing' | 'ready_for_pickup' | 'shipped' | 'out_for_delivery' | 'delivered' | 'picked_up' | 'issue'
     fulfillmentType?: 'shipping' | 'pickup' | 'digital'
@@ -888,23 +1257,110 @@ class ApiClient {
     return this.request('/platform-fees/my-wins')
   }
 
-  async createWinnerPayment(itemId: string): Promise<{
+  async createWinnerPayment(itemId: string, coverFees = false): Promise<{
     clientSecret: string
     paymentIntentId: string
     breakdown: {
       winningBid: number
       platformFee: number
+      coverFeesAmount: number
+      feesCovered: number
       total: number
     }
   }> {
     return this.request(`/platform-fees/items/${itemId}/pay`, {
       method: 'POST',
+      body: JSON.stringify({ coverFees }),
+    })
+  }
+
+  async getMyPledges(): Promise<MyPledge[]> {
+    return this.request('/platform-fees/my-pledges')
+  }
+
+  async createPledgePayment(pledgeId: string): Promise<{
+    clientSecret: string
+    paymentIntentId: string
+    breakdown: {
+      pledge: number
+      platformFee: number
+      total: number
+    }
+  }> {
+    return this.request(`/platform-fees/pledges/${pledgeId}/pay`, {
+      method: 'POST',
+    })
+  }
+
+  async getMyCheckouts(): Promise<EventCheckout[]> {
+    return this.request('/platform-fees/my-checkouts')
+  }
+
+  async createEventCheckout(eventId: string, coverFees = false): Promise<{
+    clientSecret: string
+    paymentIntentId: string
+    checkoutId: string
+    breakdown: EventCheckout
+  }> {
+    return this.request(`/platform-fees/events/${eventId}/checkout`, {
+      method: 'POST',
+      body: JSON.stringify({ coverFees }),
+    })
+  }
+
+  async getMyTaxReceipts(): Promise<TaxReceipt[]> {
+    return this.request('/tax-receipts')
+  }
+
+  async downloadTaxReceipt(receiptId: string): Promise<Blob> {
+    return this.request(`/tax-receipts/${receiptId}/pdf`, { responseType: 'blob' })
+  }
+
+  async downloadGivingStatement(year: number): Promise<Blob> {
+    return this.request(`/tax-receipts/statements/${year}/pdf`, { responseType: 'blob' })
+  }
+
+  async getEventCardOnFile(eventId: string): Promise<EventCardOnFile> {
+    return this.request(`/events/${eventId}/card-on-file`)
+  }
+
+  async createCardSetupIntent(eventId: string): Promise<{ clientSecret: string; setupIntentId: string }> {
+    return this.request(`/events/${eventId}/card-on-file/setup-intent`, {
+      method: 'POST',
+    })
+  }
+
+  async saveEventCard(eventId: string, setupIntentId: string): Promise<EventCardOnFile> {
+    return this.request(`/events/${eventId}/card-on-file`, {
+      method: 'PUT',
+      body: JSON.stringify({ setupIntentId }),
+    })
+  }
+
+  async getMyRaffleTickets(): Promise<MyRaffleTickets[]> {
+    return this.request('/platform-fees/my-raffle-tickets')
+  }
+
+  async createRaffleTicketPayment(purchaseId: string): Promise<{
+    clientSecret: string
+    paymentIntentId: string
+    breakdown: {
+      tickets: number
+      platformFee: number
+      total: number
+    }
+  }> {
+    return this.request(`/platform-fees/raffle-tickets/${purchaseId}/pay`, {
+      method: 'POST',
     })
   }
 
   async getEventFeeSummary(eventId: string): Promise<{
     totalRaised: number
+    totalPledged: number
+    pledgeCount: number
     totalPlatformFees: number
+    totalFeesCovered: number
     pendingPayments: number
     completedPayments: number
     items: {
@@ -922,6 +1378,7 @@ class ApiClient {
     success: boolean
     message: string
     totalRaised: number
+    totalPledged: number
     totalPlatformFees: number
   }> {
     return this.request(`/platform-fees/event/${eventId}/complete`, {
@@ -1381,7 +1838,10 @@ class ApiClient {
   async updateItemPaymentStatus(
     itemId: string,
     data: {
-      paymentStatus: 'pending' | 'paid' | 'payment_issue' | 'waived' | 'refunded'
+      // Only this winner of the item; all of its winners when left out
+      winId?: string
+      // Wins are marked defaulted through markWinDefaulted, not here
+      paymentStatus: ItemPaymentStatus
       paymentMethodUsed?: string
       paymentNotes?: string
     }
@@ -1395,6 +1855,7 @@ class ApiClient {
   async updateItemFulfillmentStatus(
     itemId: string,
     data: {
+      winId?: string
       fulfillmentStatus: 'pending' | 'processing' | 'ready_for_pickup' | 'shipped' | 'out_for_delivery' | 'delivered' | 'picked_up' | 'issue'
       fulfillmentType?: 'shipping' | 'pickup' | 'digital'
       trackingNumber?: string
@@ -1472,6 +1933,47 @@ class ApiClient {
     return this.request(`/event-items/events/${eventId}/won-items`)
   }
 
+  // =====================================================
+  // Second-Chance Offers
+  // =====================================================
+
+  async markWinDefaulted(
+    itemId: string,
+    winId: string,
+    notes?: string
+  ): Promise<{ message: string; status: 'defaulted'; runnerUp: { bidderId: string; bidderName: string | null; amount: number } | null }> {
+    return this.request(`/event-items/${itemId}/wins/${winId}/default`, {
+      method: 'POST',
+      body: JSON.stringify({ notes }),
+    })
+  }
+
+  async getItemSecondChanceOffers(itemId: string): Promise<{
+    runnerUp: { bidderId: string; bidderName: string | null; amount: number } | null
+    offers: SecondChanceOffer[]
+  }> {
+    return this.request(`/event-items/${itemId}/second-chance-offers`)
+  }
+
+  async createSecondChanceOffer(itemId: string, winId: string, expiresInHours?: number): Promise<SecondChanceOffer> {
+    return this.request(`/event-items/${itemId}/wins/${winId}/second-chance-offers`, {
+      method: 'POST',
+      body: JSON.stringify({ expiresInHours }),
+    })
+  }
+
+  async getSecondChanceOffer(offerId: string): Promise<SecondChanceOffer> {
+    return this.request(`/second-chance-offers/${offerId}`)
+  }
+
+  async acceptSecondChanceOffer(offerId: string): Promise<SecondChanceOffer> {
+    return this.request(`/second-chance-offers/${offerId}/accept`, { method: 'POST' })
+  }
+
+  async declineSecondChanceOffer(offerId: string): Promise<SecondChanceOffer> {
+    return this.request(`/second-chance-offers/${offerId}/decline`, { method: 'POST' })
+  }
+
   // =====================================================
   // Feature Flags (Admin)
   // =====================================================
@@ -1536,8 +2038,19 @@ class ApiClient {
     free_mode_enabled: boolean
     silent_auctions_enabled: boolean
     standard_auctions_enabled: boolean
+    raffles_enabled: boolean
   }> {
-    return this.request('/admin/feature-flags/public')
+    const { flags } = await this.request<{
+      flags: {
+        integrated_payments_enabled: boolean
+        self_managed_payments_enabled: boolean
+        free_mode_enabled: boolean
+        silent_auctions_enabled: boolean
+        standard_auctions_enabled: boolean
+        raffles_enabled: boolean
+      }
+    }>('/admin/feature-flags/public')
+    return flags
   }
 
   // =====================================================
@@ -1787,9 +2300,11 @@ class ApiClient {
     submissionId: string,
     options?: {
       startingBid?: number
-      bidIncrement?: number
       buyNowPrice?: number
+      reservePrice?: number
       categoryId?: string
+      // Defaults to the donor's estimated value
+      fairMarketValue?: number
     }
   ): Promise<{ success: boolean; eventItemId: string; message: string }> {
     return this.request(`/events/${eventIdOrSlug}/submissions/${submissionId}/convert`, {
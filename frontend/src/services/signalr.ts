@@ -1,7 +1,20 @@
-import type { BidUpdateEvent, AuctionEndedEvent } from '../types'
+import type { BidUpdateEvent, AuctionEndedEvent, EventHubMessages, Notification } from '../types'
 
 type BidUpdateHandler = (event: BidUpdateEvent) => void
 type AuctionEndedHandler = (event: AuctionEndedEvent) => void
+type NotificationHandler = (notification: Notification) => void
+type EventHubMessageType = keyof EventHubMessages
+type EventHubHandler<K extends EventHubMessageType> = (event: EventHubMessages[K]) => void
+
+const EVENT_HUB_MESSAGE_TYPES: EventHubMessageType[] = [
+  'ItemBidUpdate',
+  'SilentBidUpdate',
+  'ItemSold',
+  'ItemRemoved',
+  'ItemsClosed',
+  'EventEnded',
+  'FundANeedUpdate',
+]
 
 // Connection states matching SignalR for compatibility
 enum ConnectionState {
@@ -20,7 +33,22 @@ class SignalRService {
   private reconnectAttempts = 0
   private maxReconnectAttempts = 5
   private subscribedAuctions: Set<string> = new Set()
+  private eventHubHandlers: Map<EventHubMessageType, Set<(event: unknown) => void>> = new Map()
+  // Event and item groups are owned by the pages that join them, so they
+  // survive reconnects and are only dropped when the page leaves
+  private subscribedEvents: Map<string, number> = new Map()
+  private subscribedItems: Map<string, number> = new Map()
   private reconnectTimeout: ReturnType<typeof setTimeout> | null = null
+  private notificationHandlers: Set<NotificationHandler> = new Set()
+  private connectedHandlers: Set<() => void> = new Set()
+  private getAccessToken: (() => Promise<string | null>) | null = null
+  // Bumped by every connect/disconnect so a stale attempt can tell it was superseded
+  private connectAttempt = 0
+
+  // Signed-in sockets receive the user's own notifications; anonymous ones only auction updates
+  setTokenProvider(provider: () => Promise<string | null>) {
+    this.getAccessToken = provider
+  }
 
   async connect(): Promise<void> {
     if (this.connectionState === ConnectionState.Connected) {
@@ -43,11 +71,27 @@ class SignalRService {
     }
 
     this.connectionState = ConnectionState.Connecting
+    const attempt = ++this.connectAttempt
+
+    // Browsers can't set headers on a WebSocket, so the token rides in the query string
+    let token: string | null = null
+    if (this.getAccessToken) {
+      try {
+        token = await this.getAccessToken()
+      } catch (error) {
+        console.log('Token acquisition failed, connecting anonymously:', error)
+      }
+    }
+
+    if (attempt !== this.connectAttempt) {
+      throw new Error('Connection attempt superseded')
+    }
 
     return new Promise((resolve, reject) => {
       const baseUrl = import.meta.env.VITE_SIGNALR_URL || this.getDefaultHubUrl()
       // Convert http(s) to ws(s) if needed
-      const wsUrl = baseUrl.replace(/^http/, 'ws')
+      const hubUrl = baseUrl.replace(/^http/, 'ws')
+      const wsUrl = token ? `${hubUrl}?access_token=${encodeURIComponent(token)}` : hubUrl
 
       try {
         this.ws = new WebSocket(wsUrl)
@@ -126,6 +170,11 @@ class SignalRService {
     switch (message.type) {
       case 'connected':
         console.log('Server acknowledged connection:', message.clientId)
+        this.connectedHandlers.forEach((handler) => handler())
+        break
+
+      case 'Notification':
+        this.notificationHandlers.forEach((handler) => handler(message.data as Notification))
         break
 
       case 'BidUpdate':
@@ -137,17 +186,25 @@ class SignalRService {
         break
 
       default:
-        console.log('Unknown message type:', message.type)
+        if (EVENT_HUB_MESSAGE_TYPES.includes(message.type as EventHubMessageType)) {
+          this.eventHubHandlers.get(message.type as EventHubMessageType)?.forEach((handler) => handler(message.data))
+        } else {
+          console.log('Unknown message type:', message.type)
+        }
     }
   }
 
   async disconnect(): Promise<void> {
+    this.connectAttempt++
+
     if (this.reconnectTimeout) {
       clearTimeout(this.reconnectTimeout)
       this.reconnectTimeout = null
     }
 
     if (this.ws) {
+      // Closing on purpose - don't let onclose schedule a reconnect
+      this.ws.onclose = null
       this.ws.close()
       this.ws = null
     }
@@ -182,6 +239,80 @@ class SignalRService {
     }
   }
 
+  // Notifications pushed to the signed-in user
+  onNotification(handler: NotificationHandler): () => void {
+    this.notificationHandlers.add(handler)
+    return () => {
+      this.notificationHandlers.delete(handler)
+    }
+  }
+
+  // Called on every (re)connection, e.g. to catch up on anything missed while offline
+  onConnected(handler: () => void): () => void {
+    this.connectedHandlers.add(handler)
+    return () => {
+      this.connectedHandlers.delete(handler)
+    }
+  }
+
+  // Join an event's group to hear about every item in it (catalog pages)
+  subscribeToEvent(eventId: string): () => void {
+    return this.joinGroup(this.subscribedEvents, eventId, 'JoinEventGroup', 'LeaveEventGroup', 'eventId')
+  }
+
+  // Join a single item's group (item pages)
+  subscribeToItem(itemId: string): () => void {
+    return this.joinGroup(this.subscribedItems, itemId, 'JoinItemGroup', 'LeaveItemGroup', 'itemId')
+  }
+
+  onEventHubMessage<K extends EventHubMessageType>(type: K, handler: EventHubHandler<K>): () => void {
+    if (!this.eventHubHandlers.has(type)) {
+      this.eventHubHandlers.set(type, new Set())
+    }
+    const wrapped = handler as (event: unknown) => void
+    this.eventHubHandlers.get(type)!.add(wrapped)
+
+    return () => {
+      this.eventHubHandlers.get(type)?.delete(wrapped)
+    }
+  }
+
+  // Reference-counted so two components watching the same group don't
+  // unsubscribe each other. Sent once the socket is open if it isn't yet.
+  private joinGroup(
+    groups: Map<string, number>,
+    id: string,
+    joinType: string,
+    leaveType: string,
+    key: 'eventId' | 'itemId'
+  ): () => void {
+    const count = groups.get(id) || 0
+    groups.set(id, count + 1)
+    if (count === 0) {
+      this.send({ type: joinType, [key]: id })
+    }
+
+    let left = false
+    return () => {
+      if (left) return
+      left = true
+
+      const remaining = (groups.get(id) || 1) - 1
+      if (remaining > 0) {
+        groups.set(id, remaining)
+      } else {
+        groups.delete(id)
+        this.send({ type: leaveType, [key]: id })
+      }
+    }
+  }
+
+  private send(message: Record<string, unknown>): void {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message))
+    }
+  }
+
   onBidUpdate(auctionId: string, handler: BidUpdateHandler): () => void {
     if (!this.bidUpdateHandlers.has(auctionId)) {
       this.bidUpdateHandlers.set(auctionId, new Set())
@@ -240,6 +371,14 @@ class SignalRService {
     for (const auctionId of auctionIds) {
       await this.subscribeToAuction(auctionId)
     }
+
+    for (const eventId of this.subscribedEvents.keys()) {
+      this.send({ type: 'JoinEventGroup', eventId })
+    }
+
+    for (const itemId of this.subscribedItems.keys()) {
+      this.send({ type: 'JoinItemGroup', itemId })
+    }
   }
 
   // Check if connected (for external status checks)
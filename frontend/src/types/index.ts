@@ -152,6 +152,13 @@ export type NotificationType =
   | 'auction_lost'
   | 'item_removed'
   | 'bid_cancelled'
+  | 'reserve_not_met'
+  | 'watch_closing_soon'
+  | 'watch_first_bid'
+  | 'watch_buy_now_reached'
+  | 'bid_retraction_denied'
+  | 'raffle_won'
+  | 'second_chance_offer'
   // Self-managed payment notification types
   | 'payment_reminder'
   | 'payment_confirmed'
@@ -193,6 +200,66 @@ export interface AuctionEndedEvent {
   finalBid: number
 }
 
+// Event auction hub messages (silent auctions never include amounts)
+export interface ItemBidUpdateEvent {
+  eventId: string
+  itemId: string
+  // null once every bid has been cancelled
+  currentBid: number | null
+  bidCount: number
+  minNextBid: number
+  endTime: string
+  extended: boolean
+  // null when the item has no reserve
+  reserveMet: boolean | null
+}
+
+export interface SilentBidUpdateEvent {
+  eventId: string
+  itemId: string
+  bidderCount: number
+  reserveMet: boolean | null
+}
+
+export interface ItemSoldEvent {
+  eventId: string
+  itemId: string
+  price: number
+}
+
+export interface ItemRemovedEvent {
+  eventId: string
+  itemId: string
+}
+
+export interface ItemsClosedEvent {
+  eventId: string
+  groupId: string
+  itemIds: string[]
+}
+
+export interface EventEndedEvent {
+  eventId: string
+}
+
+export interface FundANeedUpdateEvent {
+  eventId: string
+  campaignId: string
+  totalPledged: number
+  pledgeCount: number
+  goalAmount: number | null
+}
+
+export interface EventHubMessages {
+  ItemBidUpdate: ItemBidUpdateEvent
+  SilentBidUpdate: SilentBidUpdateEvent
+  ItemSold: ItemSoldEvent
+  ItemRemoved: ItemRemovedEvent
+  ItemsClosed: ItemsClosedEvent
+  EventEnded: EventEndedEvent
+  FundANeedUpdate: FundANeedUpdateEvent
+}
+
 // Organization types
 export interface Organization {
   id: string
@@ -315,6 +382,10 @@ export interface AuctionEvent {
   incrementType: 'fixed' | 'percent'
   incrementValue: number
   buyNowEnabled: boolean
+  // Anti-sniping soft close (standard auctions)
+  softCloseEnabled?: boolean
+  softCloseWindowMinutes?: number
+  softCloseExtensionMinutes?: number
   accessCode?: string
   tier: EventTier
   maxItems: number
@@ -326,6 +397,8 @@ export interface AuctionEvent {
   createdAt: string
   // Payment mode settings (self-managed payments)
   paymentMode?: PaymentMode
+  // Bidders must save a card before bidding; winners are charged at close
+  requireCardOnFile?: boolean
   paymentInstructions?: string
   paymentLink?: string
   paymentQrCodeUrl?: string
@@ -342,15 +415,19 @@ export interface AuctionEvent {
   // Payment reminder settings
   paymentDueDays?: number
   sendPaymentReminders?: boolean
+  // Miles from the searched ZIP code (event listing "near" searches)
+  distanceMiles?: number
 }
 
+export type EventSort = 'default' | 'endingSoonest'
+
 export type EventTier = 'small' | 'medium' | 'large' | 'unlimited'
 
 export type EventStatus = 'draft' | 'scheduled' | 'active' | 'ended' | 'cancelled'
 
 export type PaymentMode = 'integrated' | 'self_managed'
 export type FulfillmentType = 'shipping' | 'pickup' | 'both' | 'digital'
-export type ItemPaymentStatus = 'pending' | 'paid' | 'payment_issue' | 'waived' | 'refunded'
+export type ItemPaymentStatus = 'pending' | 'paid' | 'payment_issue' | 'waived' | 'refunded' | 'defaulted'
 export type ItemFulfillmentStatus = 'pending' | 'processing' | 'ready_for_pickup' | 'shipped' | 'out_for_delivery' | 'delivered' | 'picked_up' | 'issue'
 
 export interface CreateEventRequest {
@@ -365,8 +442,12 @@ export interface CreateEventRequest {
   incrementType?: 'fixed' | 'percent'
   incrementValue?: number
   buyNowEnabled?: boolean
+  softCloseEnabled?: boolean
+  softCloseWindowMinutes?: number
+  softCloseExtensionMinutes?: number
   // Payment mode settings
   paymentMode?: PaymentMode
+  requireCardOnFile?: boolean
   paymentInstructions?: string
   paymentLink?: string
   paymentQrCodeUrl?: string
@@ -394,8 +475,12 @@ export interface UpdateEventRequest {
   incrementType?: 'fixed' | 'percent'
   incrementValue?: number
   buyNowEnabled?: boolean
+  softCloseEnabled?: boolean
+  softCloseWindowMinutes?: number
+  softCloseExtensionMinutes?: number
   // Payment mode settings
   paymentMode?: PaymentMode
+  requireCardOnFile?: boolean
   paymentInstructions?: string
   paymentLink?: string
   paymentQrCodeUrl?: string
@@ -414,6 +499,276 @@ export interface UpdateEventRequest {
   sendPaymentReminders?: boolean
 }
 
+// Closing groups let an event close its items in waves
+export interface ClosingGroup {
+  id: string
+  eventId: string
+  name: string
+  endTime: string
+  displayOrder: number
+  closedAt: string | null
+  itemCount: number
+}
+
+// Organizer-defined categories for browsing an event's items
+export interface EventCategory {
+  id: string
+  eventId: string
+  name: string
+  // Emoji or short icon name shown on the category tab
+  icon: string | null
+  displayOrder: number
+  itemCount: number
+}
+
+// Bids as event admins see them when cancelling one
+export interface AdminItemBid {
+  id: string
+  bidderId: string
+  bidderName: string | null
+  bidderEmail: string | null
+  amount: number
+  isLeading: boolean
+  isProxy: boolean
+  createdAt: string
+}
+
+export type BidRetractionStatus = 'pending' | 'approved' | 'denied'
+
+export interface BidRetractionRequest {
+  id: string
+  eventId: string
+  itemId: string
+  itemTitle?: string
+  bidId: string
+  bidderId: string
+  bidderName?: string | null
+  bidderEmail?: string | null
+  amount: number
+  reason: string
+  status: BidRetractionStatus
+  reviewedAt: string | null
+  reviewNote: string | null
+  createdAt: string
+}
+
+// Fund-a-need (paddle raise) types
+export interface FundANeedLevel {
+  id: string
+  amount: number
+  label: string | null
+}
+
+export interface FundANeedCampaign {
+  id: string
+  eventId: string
+  title: string
+  description: string | null
+  goalAmount: number | null
+  status: 'open' | 'closed'
+  displayOrder: number
+  levels: FundANeedLevel[]
+  totalPledged: number
+  pledgeCount: number
+  // Percent of the goal reached (capped at 100), null without a goal
+  goalProgress: number | null
+}
+
+export type PledgePaymentStatus = 'pending' | 'paid' | 'payment_issue' | 'waived' | 'refunded'
+
+export interface FundANeedPledge {
+  id: string
+  campaignId: string
+  amount: number
+  levelId: string | null
+  donor: {
+    id: string | null
+    name: string | null
+    email: string | null
+  }
+  isAnonymous: boolean
+  recordedBy: string
+  recordedByStaff: boolean
+  status: 'active' | 'voided'
+  paymentStatus: PledgePaymentStatus
+  paymentConfirmedAt: string | null
+  paymentMethodUsed: string | null
+  paymentNotes: string | null
+  createdAt: string
+}
+
+export interface MyPledge {
+  id: string
+  amount: number
+  campaignTitle: string
+  eventName: string
+  eventSlug: string
+  eventStatus: EventStatus
+  paymentStatus: PledgePaymentStatus
+  paymentPending: boolean
+  paymentMode: 'integrated' | 'self_managed'
+  paymentInstructions?: string
+  paymentLink?: string
+  organizationName?: string
+  createdAt: string
+}
+
+export interface RaffleBundle {
+  id: string
+  ticketCount: number
+  price: number
+}
+
+export interface Raffle {
+  id: string
+  eventId: string
+  title: string
+  description: string | null
+  prizeDescription: string | null
+  ticketPrice: number
+  maxTicketsPerPerson: number | null
+  numberOfWinners: number
+  status: 'open' | 'closed' | 'drawn'
+  bundles: RaffleBundle[]
+  ticketsSold: number
+  // Tickets the current user holds (0 when signed out)
+  myTickets: number
+  drawnAt: string | null
+  winners: {
+    place: number
+    ticketNumber: number
+    winnerName: string | null
+  }[]
+}
+
+export interface RafflePurchase {
+  id: string
+  raffleId: string
+  buyer: {
+    id: string
+    name: string | null
+    email: string | null
+  }
+  ticketCount: number
+  firstTicket: number
+  lastTicket: number
+  amount: number
+  paymentStatus: PledgePaymentStatus
+  paymentConfirmedAt: string | null
+  paymentMethodUsed: string | null
+  paymentNotes: string | null
+  createdAt: string
+}
+
+export interface MyRaffleTickets {
+  id: string
+  ticketCount: number
+  firstTicket: number
+  lastTicket: number
+  amount: number
+  raffleTitle: string
+  raffleStatus: Raffle['status']
+  eventName: string
+  eventSlug: string
+  paymentStatus: PledgePaymentStatus
+  paymentPending: boolean
+  paymentMode: 'integrated' | 'self_managed'
+  paymentInstructions?: string
+  paymentLink?: string
+  organizationName?: string
+  createdAt: string
+}
+
+// Everything a bidder owes one event, paid at once (GET /platform-fees/my-checkouts)
+export interface CheckoutLine {
+  type: 'item' | 'pledge' | 'raffle_tickets'
+  referenceId: string
+  itemId: string | null
+  description: string
+  quantity: number
+  amount: number
+  platformFee: number
+}
+
+export interface EventCheckout {
+  eventId: string
+  eventName: string
+  eventSlug: string
+  lines: CheckoutLine[]
+  itemsAmount: number
+  platformFee: number
+  pledgesAmount: number
+  raffleAmount: number
+  // What the bidder may add to cover processing fees, and what they chose to
+  // add (included in total)
+  coverFeesAmount: number
+  feesCovered: number
+  total: number
+}
+
+// A bidder's card-on-file registration for an event
+export interface EventCardOnFile {
+  required: boolean
+  card: {
+    brand: string | null
+    last4: string | null
+    expMonth: number | null
+    expYear: number | null
+  } | null
+}
+
+// A receipt for one payment; only what was paid above fair market value is deductible
+export interface TaxReceipt {
+  id: string
+  receiptNumber: number
+  eventId: string
+  eventName: string
+  organization: {
+    name: string
+    ein: string | null
+    address: string[]
+  }
+  donorName: string
+  amountPaid: number
+  fairMarketValue: number
+  deductibleAmount: number
+  issuedAt: string
+  emailedAt: string | null
+}
+
+export type SecondChanceOfferStatus = 'pending' | 'accepted' | 'declined' | 'expired'
+
+// An unpaid win offered to the next-highest bidder at their own bid
+export interface SecondChanceOffer {
+  id: string
+  itemId: string
+  itemTitle: string
+  eventId: string
+  eventName: string
+  awardId: string
+  bidderId: string
+  bidderName: string | null
+  // Per unit
+  amount: number
+  quantity: number
+  status: SecondChanceOfferStatus
+  expiresAt: string
+  respondedAt: string | null
+  createdAt: string
+}
+
+// Everything needed to re-run a raffle's draw
+export interface RaffleDraw {
+  raffleId: string
+  algorithm: string
+  seed: string
+  entries: [number, number][]
+  entryCount: number
+  numberOfWinners: number
+  drawnAt: string
+  winningTickets: number[]
+}
+
 // Event Item types
 export interface EventItem {
   id: string
@@ -422,16 +777,32 @@ export interface EventItem {
   description?: string
   condition?: string
   category?: string
+  categoryId?: string | null
   startingPrice?: number
   buyNowPrice?: number
   currentBid?: number
   bidCount: number
+  // The reserve amount is only sent to event admins and the submitter
+  hasReserve?: boolean
+  reserveMet?: boolean | null
+  reservePrice?: number | null
+  // Items with several units award one to each of the top bidders
+  quantity?: number
+  quantitySold?: number
+  quantityAvailable?: number
+  winnerPricing?: WinnerPricing
+  // Value of the item for buyers' tax receipts; only what's paid above it is deductible
+  fairMarketValue?: number | null
   auctionType?: 'standard' | 'silent'
   incrementType?: 'fixed' | 'percent'
   incrementValue?: number
   eventStatus?: EventStatus
   submissionStatus: ItemSubmissionStatus
   status: ItemStatus
+  // When bidding closes for this item (its closing group's time, later if soft close extended it)
+  endTime?: string
+  closingGroupId?: string | null
+  closingGroupName?: string | null
   submitter?: {
     id: string
     name: string
@@ -443,8 +814,11 @@ export interface EventItem {
   images: EventItemImage[]
   isAdmin?: boolean
   isSubmitter?: boolean
+  // Whether the signed-in user is watching this item
+  isWatching?: boolean
   createdAt: string
-  // Winner info
+  // Winner info (won item lists have a row per winner, identified by winId)
+  winId?: string
   winnerId?: string
   winnerName?: string
   winnerEmail?: string
@@ -455,6 +829,14 @@ export interface EventItem {
   paymentConfirmedBy?: string
   paymentMethodUsed?: string
   paymentNotes?: string
+  // Latest offer to a runner-up after the winner defaulted
+  secondChanceOffer?: {
+    id: string
+    bidderName: string | null
+    amount: number
+    status: SecondChanceOfferStatus
+    expiresAt: string
+  } | null
   // Fulfillment tracking
   fulfillmentStatus?: ItemFulfillmentStatus
   fulfillmentType?: 'shipping' | 'pickup' | 'digital'
@@ -473,13 +855,19 @@ export interface EventItem {
   fulfilledBy?: string
 }
 
+// own_bid: each winner pays their own bid; lowest_winning: all pay the lowest winning bid
+export type WinnerPricing = 'own_bid' | 'lowest_winning'
+
 export type ItemSubmissionStatus = 'pending' | 'approved' | 'rejected' | 'resubmit_requested'
 
 export type ItemStatus = 'pending' | 'active' | 'sold' | 'won' | 'unsold' | 'removed'
 
 export interface EventItemImage {
   id: string
+  // Full-size rendition (or the original, for images uploaded before renditions)
   blobUrl: string
+  mediumUrl?: string | null
+  thumbnailUrl?: string | null
   displayOrder: number
   isPrimary: boolean
 }
@@ -490,6 +878,7 @@ export interface SubmitItemRequest {
   condition?: string
   startingPrice?: number
   buyNowPrice?: number
+  reservePrice?: number
   accessCode: string
 }
 
@@ -497,9 +886,67 @@ export interface UpdateItemRequest {
   title?: string
   description?: string
   condition?: string
-  category?: string
+  // Event admins only; null makes the item uncategorized
+  categoryId?: string | null
   startingPrice?: number
   buyNowPrice?: number
+  // null removes the reserve
+  reservePrice?: number | null
+  quantity?: number
+  winnerPricing?: WinnerPricing
+  // Event admins only; null clears it
+  fairMarketValue?: number | null
+}
+
+// Catalog search for an event's items (GET /events/:eventId/items)
+export type EventItemSort = 'default' | 'title' | 'currentBid' | 'bidCount' | 'closingTime'
+
+export interface EventItemSearchParams {
+  q?: string
+  categoryId?: string
+  category?: string
+  condition?: string
+  minPrice?: number
+  maxPrice?: number
+  noBids?: boolean
+  buyNow?: boolean
+  endingSoon?: boolean
+  // Requires sign-in: items you're leading or have been outbid on
+  myBids?: 'winning' | 'outbid'
+  sort?: EventItemSort
+  direction?: 'asc' | 'desc'
+  page?: number
+  pageSize?: number
+}
+
+export interface EventItemSearchResult extends PaginatedResponse<EventItem> {
+  facets: {
+    categories: string[]
+    conditions: string[]
+  }
+}
+
+// Watchlist types
+export interface WatchedEventItem {
+  itemId: string
+  watchedAt: string
+  item: {
+    id: string
+    title: string
+    currentBid: number | null
+    bidCount: number
+    buyNowPrice: number | null
+    status: ItemStatus
+    endTime: string
+    imageUrl: string | null
+  }
+  event: {
+    id: string
+    name: string
+    slug: string
+    status: EventStatus
+    auctionType: 'standard' | 'silent'
+  }
 }
 
 // Event Bid types
@@ -509,8 +956,22 @@ export interface EventItemBid {
   amount: number
   bidderName?: string
   isWinning: boolean
+  isProxy?: boolean
+  maxAmount?: number | null
+  currentBid?: number
   createdAt: string
   nextMinBid?: number
+  endTime?: string
+  extended?: boolean
+  message?: string
+}
+
+export interface MaxBidStatus {
+  hasMaxBid: boolean
+  maxAmount?: number
+  isWinning?: boolean
+  isExhausted?: boolean
+  setAt?: string
 }
 
 export interface SilentBidStatus {
@@ -534,6 +995,18 @@ export interface CurrentBidInfo {
   incrementType: 'fixed' | 'percent'
   incrementValue: number
   buyNowPrice: number | null
+  quantity?: number
+  quantityAvailable?: number
+  myMaxBid?: number | null
+  isMyBidWinning?: boolean
+  endTime?: string
+  isExtended?: boolean
+  closingGroupName?: string | null
+  softClose?: {
+    enabled: boolean
+    windowMinutes: number
+    extensionMinutes: number
+  }
 }
 
 // Pricing tiers